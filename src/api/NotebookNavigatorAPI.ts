@@ -25,6 +25,10 @@ import { NavigationAPI } from './modules/NavigationAPI';
 import { MetadataAPI } from './modules/MetadataAPI';
 import { SelectionAPI } from './modules/SelectionAPI';
 import { MenusAPI } from './modules/MenusAPI';
+import { QueryAPI } from './modules/QueryAPI';
+import { ShortcutsAPI } from './modules/ShortcutsAPI';
+import { ProfilesAPI } from './modules/ProfilesAPI';
+import { ContentProvidersAPI } from './modules/ContentProvidersAPI';
 
 // Import versioning
 import { API_VERSION } from './version';
@@ -44,6 +48,10 @@ export class NotebookNavigatorAPI {
     public metadata: MetadataAPI;
     public selection: SelectionAPI;
     public menus: MenusAPI;
+    public query: QueryAPI;
+    public shortcuts: ShortcutsAPI;
+    public profiles: ProfilesAPI;
+    public contentProviders: ContentProvidersAPI;
 
     constructor(plugin: NotebookNavigatorPlugin, app: App) {
         this.plugin = plugin;
@@ -55,6 +63,10 @@ export class NotebookNavigatorAPI {
         this.metadata = new MetadataAPI(this);
         this.selection = new SelectionAPI(this);
         this.menus = new MenusAPI();
+        this.query = new QueryAPI(this);
+        this.shortcuts = new ShortcutsAPI(this);
+        this.profiles = new ProfilesAPI(this);
+        this.contentProviders = new ContentProvidersAPI(this);
     }
 
     /**
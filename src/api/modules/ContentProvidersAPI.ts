@@ -0,0 +1,190 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { TFile } from 'obsidian';
+import type { NotebookNavigatorAPI } from '../NotebookNavigatorAPI';
+import type { ContentProviderDefinition, ContentProviderInfo, ContentProviderValue } from '../types';
+import { getDBInstanceOrNull } from '../../storage/fileOperations';
+
+export type ContentProviderDispose = () => void;
+
+/**
+ * Change emitted to the content provider registry when registrations change
+ * @internal
+ */
+export interface ContentProviderDefinitionChange {
+    type: 'registered' | 'unregistered' | 'refresh';
+    id: string;
+}
+
+type ContentProviderDefinitionListener = (change: ContentProviderDefinitionChange) => void;
+
+const PROVIDER_ID_PATTERN = /^[A-Za-z0-9_.-]+$/;
+const DEFAULT_EXTENSIONS = ['md'];
+
+/**
+ * Normalizes a provider definition, returning null when it is invalid
+ */
+function normalizeDefinition(definition: ContentProviderDefinition): ContentProviderDefinition | null {
+    if (!definition || typeof definition !== 'object') {
+        return null;
+    }
+    if (typeof definition.id !== 'string' || !PROVIDER_ID_PATTERN.test(definition.id)) {
+        return null;
+    }
+    if (typeof definition.compute !== 'function') {
+        return null;
+    }
+
+    const extensions = Array.isArray(definition.extensions)
+        ? definition.extensions
+              .filter((extension): extension is string => typeof extension === 'string')
+              .map(extension => extension.replace(/^\./, '').toLowerCase())
+              .filter(extension => extension.length > 0)
+        : DEFAULT_EXTENSIONS;
+
+    return {
+        ...definition,
+        name: typeof definition.name === 'string' && definition.name.trim().length > 0 ? definition.name : definition.id,
+        extensions: extensions.length > 0 ? Array.from(new Set(extensions)) : DEFAULT_EXTENSIONS
+    };
+}
+
+/**
+ * Content providers API - Allow other plugins to compute per-file values that are
+ * cached in Notebook Navigator storage, shown in the file list and matched by filter search
+ */
+export class ContentProvidersAPI {
+    private definitions = new Map<string, ContentProviderDefinition>();
+    private listeners = new Set<ContentProviderDefinitionListener>();
+
+    constructor(private api: NotebookNavigatorAPI) {}
+
+    /**
+     * Register a content provider
+     * Stored values are kept when the provider is unregistered and reused when it is registered again
+     * @param definition - Provider definition
+     * @returns Function that unregisters the provider
+     * @throws Error when the id is invalid, compute is missing, or the id is already registered
+     */
+    register(definition: ContentProviderDefinition): ContentProviderDispose {
+        const normalized = normalizeDefinition(definition);
+        if (!normalized) {
+            throw new Error('Notebook Navigator content provider requires an id (letters, digits, -, _ and .) and a compute function');
+        }
+        if (this.definitions.has(normalized.id)) {
+            throw new Error(`Notebook Navigator content provider "${normalized.id}" is already registered`);
+        }
+
+        this.definitions.set(normalized.id, normalized);
+        this.emit({ type: 'registered', id: normalized.id });
+
+        return () => {
+            if (this.definitions.get(normalized.id) === normalized) {
+                this.unregister(normalized.id);
+            }
+        };
+    }
+
+    /**
+     * Unregister a content provider
+     * @param id - Provider id
+     * @returns true if the provider was registered
+     */
+    unregister(id: string): boolean {
+        if (!this.definitions.delete(id)) {
+            return false;
+        }
+        this.emit({ type: 'unregistered', id });
+        return true;
+    }
+
+    /**
+     * List registered content providers
+     */
+    list(): ContentProviderInfo[] {
+        return Array.from(this.definitions.values()).map(definition => ({
+            id: definition.id,
+            name: definition.name,
+            extensions: [...(definition.extensions ?? DEFAULT_EXTENSIONS)]
+        }));
+    }
+
+    /**
+     * Read the cached value a provider computed for a file
+     * @param file - File to read
+     * @param id - Provider id
+     * @returns Cached value, or null when no value has been computed or storage is not ready
+     */
+    getValue(file: TFile, id: string): ContentProviderValue | null {
+        const db = getDBInstanceOrNull();
+        if (!db || !(file instanceof TFile) || !this.api.isStorageReady()) {
+            return null;
+        }
+        return db.getFile(file.path)?.providerValues[id]?.value ?? null;
+    }
+
+    /**
+     * Discard cached values of a provider and compute them again for all files
+     * @param id - Provider id
+     * @returns true if the provider is registered
+     */
+    refresh(id: string): boolean {
+        if (!this.definitions.has(id)) {
+            return false;
+        }
+        this.emit({ type: 'refresh', id });
+        return true;
+    }
+
+    /**
+     * Get a registered provider definition
+     * @internal
+     */
+    getDefinition(id: string): ContentProviderDefinition | undefined {
+        return this.definitions.get(id);
+    }
+
+    /**
+     * Get all registered provider definitions
+     * @internal
+     */
+    getDefinitions(): ContentProviderDefinition[] {
+        return Array.from(this.definitions.values());
+    }
+
+    /**
+     * Subscribe to registration changes
+     * @internal
+     */
+    onDefinitionsChanged(listener: ContentProviderDefinitionListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private emit(change: ContentProviderDefinitionChange): void {
+        this.listeners.forEach(listener => {
+            try {
+                listener(change);
+            } catch (error) {
+                console.error('Notebook Navigator content provider listener failed', error);
+            }
+        });
+    }
+}
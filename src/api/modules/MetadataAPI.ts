@@ -642,10 +642,10 @@ export class MetadataAPI {
 
         if (!context) {
             // No context - check if pinned in any context
-            return contexts.folder || contexts.tag || contexts.property;
+            return contexts.folder || contexts.tag || contexts.property || contexts['smart-folder'];
         } else if (context === 'all') {
             // Check if pinned in all contexts
-            return contexts.folder && contexts.tag && contexts.property;
+            return contexts.folder && contexts.tag && contexts.property && contexts['smart-folder'];
         } else if (context === 'folder') {
             return contexts.folder;
         } else if (context === 'property') {
@@ -668,7 +668,7 @@ export class MetadataAPI {
         }
 
         if (!plugin.settings.pinnedNotes[file.path]) {
-            plugin.settings.pinnedNotes[file.path] = { folder: false, tag: false, property: false };
+            plugin.settings.pinnedNotes[file.path] = { folder: false, tag: false, property: false, 'smart-folder': false };
         }
 
         let changed = false;
@@ -677,10 +677,11 @@ export class MetadataAPI {
 
         if (context === 'all') {
             // Pin in all contexts
-            if (!contexts.folder || !contexts.tag || !contexts.property) {
+            if (!contexts.folder || !contexts.tag || !contexts.property || !contexts['smart-folder']) {
                 contexts.folder = true;
                 contexts.tag = true;
                 contexts.property = true;
+                contexts['smart-folder'] = true;
                 changed = true;
             }
         } else if (context === 'folder') {
@@ -745,7 +746,7 @@ export class MetadataAPI {
         }
 
         // Remove if unpinned from all contexts
-        if (changed && contexts && !contexts.folder && !contexts.tag && !contexts.property) {
+        if (changed && contexts && !contexts.folder && !contexts.tag && !contexts.property && !contexts['smart-folder']) {
             delete plugin.settings.pinnedNotes[file.path];
         }
 
@@ -0,0 +1,99 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import type { NotebookNavigatorAPI } from '../NotebookNavigatorAPI';
+import type { VaultProfileInfo } from '../types';
+import type { NotebookNavigatorSettings, VaultProfile } from '../../settings/types';
+import { getActiveVaultProfile } from '../../utils/vaultProfiles';
+
+/**
+ * Profiles API - List and switch vault profiles
+ */
+export class ProfilesAPI {
+    /**
+     * Id of the active profile for change detection
+     */
+    private previousProfileId: string | null = null;
+
+    constructor(private api: NotebookNavigatorAPI) {
+        const plugin = this.api.getPlugin();
+        if (plugin && plugin.settings) {
+            this.updateFromSettings(plugin.settings);
+        }
+    }
+
+    /**
+     * Get all vault profiles
+     * @returns Profiles in settings order
+     */
+    list(): VaultProfileInfo[] {
+        const profiles = this.api.getPlugin().settings.vaultProfiles;
+        return Array.isArray(profiles) ? profiles.map(profile => this.toProfileInfo(profile)) : [];
+    }
+
+    /**
+     * Get the active vault profile
+     */
+    getActive(): VaultProfileInfo {
+        return this.toProfileInfo(getActiveVaultProfile(this.api.getPlugin().settings));
+    }
+
+    /**
+     * Switch the active vault profile
+     * @param profileId - Id of the profile to activate
+     * @returns true if the profile exists, false otherwise
+     */
+    switch(profileId: string): boolean {
+        const plugin = this.api.getPlugin();
+        if (!plugin.settings.vaultProfiles.some(profile => profile.id === profileId)) {
+            return false;
+        }
+
+        plugin.setVaultProfile(profileId);
+        return true;
+    }
+
+    /**
+     * Update internal state when settings change and trigger events
+     * Called by the plugin when settings are modified
+     * @internal
+     */
+    updateFromSettings(settings: NotebookNavigatorSettings): void {
+        if (!Array.isArray(settings.vaultProfiles) || settings.vaultProfiles.length === 0) {
+            return;
+        }
+
+        const profile = getActiveVaultProfile(settings);
+        const previous = this.previousProfileId;
+        this.previousProfileId = profile.id;
+
+        // Skip comparison on first run (just initialize state)
+        if (previous === null || previous === profile.id) {
+            return;
+        }
+
+        this.api.trigger('profile-changed', { profile: this.toProfileInfo(profile) });
+    }
+
+    /**
+     * Convert a stored profile to the public profile shape
+     * @internal
+     */
+    private toProfileInfo(profile: VaultProfile): VaultProfileInfo {
+        return { id: profile.id, name: profile.name };
+    }
+}
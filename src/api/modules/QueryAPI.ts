@@ -0,0 +1,119 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { TFile } from 'obsidian';
+import type { NotebookNavigatorAPI } from '../NotebookNavigatorAPI';
+import type { ContentProviderValue, FileContentData } from '../types';
+import { getDBInstanceOrNull } from '../../storage/fileOperations';
+import { getFilesMatchingQuery } from '../../utils/fileFinder';
+
+/**
+ * Query API - Read files and cached content known to the navigator
+ */
+export class QueryAPI {
+    /**
+     * Paths of the files listed in the list pane, in display order
+     */
+    private listedPaths: string[] = [];
+
+    constructor(private api: NotebookNavigatorAPI) {}
+
+    /**
+     * Find files matching a filter search query
+     * @param query - Query using the search box syntax (e.g. '#work AND .status=active')
+     * @returns Visible matching files sorted by the default folder sort, or an empty array when storage is not ready
+     */
+    findFiles(query: string): TFile[] {
+        if (!this.api.isStorageReady()) {
+            return [];
+        }
+        const plugin = this.api.getPlugin();
+        return getFilesMatchingQuery(typeof query === 'string' ? query : '', plugin.settings, plugin.getUXPreferences(), this.api.app);
+    }
+
+    /**
+     * Update the files listed in the list pane
+     * Called by React components when the list changes
+     * @internal
+     */
+    updateListedFiles(files: readonly TFile[]): void {
+        this.listedPaths = files.map(file => file.path);
+    }
+
+    /**
+     * Get the files currently listed in the list pane
+     * @returns Files in display order, including pinned files
+     */
+    getListedFiles(): TFile[] {
+        const files: TFile[] = [];
+
+        for (const path of this.listedPaths) {
+            const file = this.api.app.vault.getFileByPath(path);
+            if (file) files.push(file);
+        }
+
+        return files;
+    }
+
+    /**
+     * Read cached content generated for a file
+     * @param file - File to read
+     * @returns Cached content, or null when the file is not in the cache or storage is not ready
+     */
+    async getFileContent(file: TFile): Promise<FileContentData | null> {
+        if (!this.api.isStorageReady()) {
+            return null;
+        }
+        const db = getDBInstanceOrNull();
+        const path = file instanceof TFile ? file.path : null;
+        const record = db && path ? db.getFile(path) : null;
+        if (!db || !path || !record) {
+            return null;
+        }
+
+        let preview: string | null = null;
+        if (record.previewStatus === 'has') {
+            await db.ensurePreviewTextLoaded(path);
+            preview = db.getCachedPreviewText(path);
+        } else if (record.previewStatus === 'none') {
+            preview = '';
+        }
+
+        const featureImage =
+            record.featureImageStatus === 'has' && record.featureImageKey
+                ? await db.getFeatureImageBlob(path, record.featureImageKey)
+                : null;
+
+        const values: Record<string, ContentProviderValue> = {};
+        Object.entries(record.providerValues).forEach(([providerId, entry]) => {
+            if (entry.value !== null) {
+                values[providerId] = entry.value;
+            }
+        });
+
+        return {
+            preview,
+            wordCount: record.wordCount,
+            tasks:
+                record.taskTotal !== null && record.taskUnfinished !== null
+                    ? { total: record.taskTotal, unfinished: record.taskUnfinished }
+                    : null,
+            featureImage,
+            values
+        };
+    }
+}
@@ -0,0 +1,260 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { TFile, TFolder } from 'obsidian';
+import type { NotebookNavigatorAPI } from '../NotebookNavigatorAPI';
+import type { AddShortcutOptions, SearchShortcutInput, Shortcut } from '../types';
+import type { NotebookNavigatorSettings } from '../../settings/types';
+import {
+    getShortcutKey,
+    isFolderShortcut,
+    isNoteShortcut,
+    isPropertyShortcut,
+    isTagShortcut,
+    normalizePropertyShortcutNodeId,
+    ShortcutType,
+    type ShortcutEntry
+} from '../../types/shortcuts';
+import { cloneShortcuts, getActiveVaultProfile } from '../../utils/vaultProfiles';
+import { normalizeTagPath } from '../../utils/tagUtils';
+
+/**
+ * Shortcuts API - Manage shortcuts of the active vault profile
+ */
+export class ShortcutsAPI {
+    /**
+     * Fingerprint of the active profile shortcuts for change detection
+     */
+    private previousFingerprint: string | null = null;
+
+    constructor(private api: NotebookNavigatorAPI) {
+        const plugin = this.api.getPlugin();
+        if (plugin && plugin.settings) {
+            this.updateFromSettings(plugin.settings);
+        }
+    }
+
+    /**
+     * Get the shortcuts of the active vault profile
+     * @returns Shortcuts in display order
+     */
+    list(): Shortcut[] {
+        return this.getActiveShortcuts(this.api.getPlugin().settings).map(entry => this.toShortcut(entry));
+    }
+
+    /**
+     * Add a folder shortcut
+     * @param folder - Folder to add
+     * @param options - Optional insert position
+     * @returns true if the shortcut was added, false if it already exists
+     */
+    async addFolder(folder: TFolder, options?: AddShortcutOptions): Promise<boolean> {
+        if (!(folder instanceof TFolder)) {
+            return false;
+        }
+        return this.insert({ type: ShortcutType.FOLDER, path: folder.path }, options);
+    }
+
+    /**
+     * Add a note shortcut
+     * @param file - File to add
+     * @param options - Optional insert position
+     * @returns true if the shortcut was added, false if it already exists
+     */
+    async addNote(file: TFile, options?: AddShortcutOptions): Promise<boolean> {
+        if (!(file instanceof TFile)) {
+            return false;
+        }
+        return this.insert({ type: ShortcutType.NOTE, path: file.path }, options);
+    }
+
+    /**
+     * Add a tag shortcut
+     * @param tag - Tag path with or without leading # (e.g. '#work/active')
+     * @param options - Optional insert position
+     * @returns true if the shortcut was added, false if the tag is invalid or already exists
+     */
+    async addTag(tag: string, options?: AddShortcutOptions): Promise<boolean> {
+        const tagPath = normalizeTagPath(typeof tag === 'string' ? tag : null);
+        if (!tagPath) {
+            return false;
+        }
+        return this.insert({ type: ShortcutType.TAG, tagPath }, options);
+    }
+
+    /**
+     * Add a property shortcut
+     * @param nodeId - Property node id (e.g. 'key:status' or 'key:status=done')
+     * @param options - Optional insert position
+     * @returns true if the shortcut was added, false if the node id is invalid or already exists
+     */
+    async addProperty(nodeId: string, options?: AddShortcutOptions): Promise<boolean> {
+        const normalizedNodeId = normalizePropertyShortcutNodeId(nodeId);
+        if (!normalizedNodeId) {
+            return false;
+        }
+        return this.insert({ type: ShortcutType.PROPERTY, nodeId: normalizedNodeId }, options);
+    }
+
+    /**
+     * Add a search shortcut
+     * @param search - Name, query and provider of the search
+     * @param options - Optional insert position
+     * @returns true if the shortcut was added, false if name or query is empty or the name already exists
+     */
+    async addSearch(search: SearchShortcutInput, options?: AddShortcutOptions): Promise<boolean> {
+        const name = typeof search?.name === 'string' ? search.name.trim() : '';
+        const query = typeof search?.query === 'string' ? search.query.trim() : '';
+        if (!name || !query) {
+            return false;
+        }
+
+        const provider = search.provider === 'omnisearch' ? 'omnisearch' : 'internal';
+        return this.insert({ type: ShortcutType.SEARCH, name, query, provider }, options);
+    }
+
+    /**
+     * Remove a shortcut
+     * @param key - Shortcut key from list()
+     * @returns true if the shortcut was removed
+     */
+    async remove(key: string): Promise<boolean> {
+        return this.mutate(existing => {
+            const filtered = existing.filter(entry => getShortcutKey(entry) !== key);
+            return filtered.length === existing.length ? null : filtered;
+        });
+    }
+
+    /**
+     * Reorder shortcuts
+     * @param keys - Keys of all shortcuts in the new order
+     * @returns true if the order was applied, false if keys are missing or unknown
+     */
+    async reorder(keys: string[]): Promise<boolean> {
+        if (!Array.isArray(keys)) {
+            return false;
+        }
+
+        return this.mutate(existing => {
+            if (keys.length !== existing.length) {
+                return null;
+            }
+
+            const entriesByKey = new Map(existing.map(entry => [getShortcutKey(entry), entry]));
+            const ordered: ShortcutEntry[] = [];
+            for (const key of keys) {
+                const entry = entriesByKey.get(key);
+                if (!entry) {
+                    return null;
+                }
+                entriesByKey.delete(key);
+                ordered.push(entry);
+            }
+
+            return ordered;
+        });
+    }
+
+    /**
+     * Update internal state when settings change and trigger events
+     * Called by the plugin when settings are modified
+     * @internal
+     */
+    updateFromSettings(settings: NotebookNavigatorSettings): void {
+        const fingerprint = JSON.stringify(this.getActiveShortcuts(settings));
+        const previous = this.previousFingerprint;
+        this.previousFingerprint = fingerprint;
+
+        // Skip comparison on first run (just initialize state)
+        if (previous === null || previous === fingerprint) {
+            return;
+        }
+
+        this.api.trigger('shortcuts-changed', { shortcuts: this.list() });
+    }
+
+    /**
+     * Insert a shortcut unless one with the same key exists
+     * @internal
+     */
+    private async insert(shortcut: ShortcutEntry, options?: AddShortcutOptions): Promise<boolean> {
+        const key = getShortcutKey(shortcut);
+        return this.mutate(existing => {
+            if (existing.some(entry => getShortcutKey(entry) === key)) {
+                return null;
+            }
+
+            const next = [...existing];
+            const index = options?.index;
+            const insertAt = typeof index === 'number' && Number.isFinite(index) ? Math.max(0, Math.min(index, next.length)) : next.length;
+            next.splice(insertAt, 0, shortcut);
+            return next;
+        });
+    }
+
+    /**
+     * Apply a mutation to the active profile shortcuts and save settings
+     * Mutations return null to leave the shortcuts unchanged
+     * @internal
+     */
+    private async mutate(transform: (existing: ShortcutEntry[]) => ShortcutEntry[] | null): Promise<boolean> {
+        const plugin = this.api.getPlugin();
+        const profile = getActiveVaultProfile(plugin.settings);
+        const next = transform(Array.isArray(profile.shortcuts) ? profile.shortcuts : []);
+        if (!next) {
+            return false;
+        }
+
+        profile.shortcuts = next;
+        await plugin.saveSettingsAndUpdate();
+        return true;
+    }
+
+    /**
+     * Get a copy of the active profile shortcuts
+     * @internal
+     */
+    private getActiveShortcuts(settings: NotebookNavigatorSettings): ShortcutEntry[] {
+        if (!Array.isArray(settings.vaultProfiles) || settings.vaultProfiles.length === 0) {
+            return [];
+        }
+        return cloneShortcuts(getActiveVaultProfile(settings).shortcuts);
+    }
+
+    /**
+     * Convert a stored shortcut to the public shortcut shape
+     * @internal
+     */
+    private toShortcut(entry: ShortcutEntry): Shortcut {
+        const key = getShortcutKey(entry);
+        const vault = this.api.app.vault;
+
+        if (isFolderShortcut(entry)) {
+            return { key, type: 'folder', path: entry.path, folder: vault.getFolderByPath(entry.path), alias: entry.alias };
+        }
+        if (isNoteShortcut(entry)) {
+            return { key, type: 'note', path: entry.path, file: vault.getFileByPath(entry.path), alias: entry.alias };
+        }
+        if (isTagShortcut(entry)) {
+            return { key, type: 'tag', tag: entry.tagPath, alias: entry.alias };
+        }
+        if (isPropertyShortcut(entry)) {
+            return { key, type: 'property', nodeId: entry.nodeId, alias: entry.alias };
+        }
+        return { key, type: 'search', name: entry.name, query: entry.query, provider: entry.provider };
+    }
+}
@@ -18,7 +18,7 @@
 
 /**
  * Notebook Navigator Plugin API Type Definitions
- * Version: 1.3.0
+ * Version: 1.6.0
  *
  * Download this file to your Obsidian plugin project to get TypeScript support
  * for the Notebook Navigator API.
@@ -173,6 +173,114 @@ export interface PinnedFile {
  */
 export type Pinned = Map<string, { folder: boolean; tag: boolean; property: boolean }>;
 
+/**
+ * Cached content generated for a file
+ * Values are null until the content has been generated
+ */
+export interface FileContentData {
+    /** Preview text; empty string when the file has no preview text */
+    preview: string | null;
+    /** Word count of the note body */
+    wordCount: number | null;
+    /** Task counts of the note */
+    tasks: { total: number; unfinished: number } | null;
+    /** Feature image thumbnail; null when the file has no feature image */
+    featureImage: Blob | null;
+    /** Values computed by content providers, keyed by provider id */
+    values: Record<string, ContentProviderValue>;
+}
+
+/**
+ * Value a content provider can compute for a file
+ */
+export type ContentProviderValue = string | number | boolean;
+
+/**
+ * Context passed to a content provider when computing a file value
+ */
+export interface ContentProviderContext {
+    /** Reads the file contents from Obsidian's cache */
+    read: () => Promise<string>;
+}
+
+/**
+ * Definition of a content provider registered by another plugin
+ */
+export interface ContentProviderDefinition {
+    /** Unique id (letters, digits, '-', '_' and '.'), also used as the filter search property key */
+    id: string;
+    /** Display name */
+    name: string;
+    /** Extensions of indexed files to process without the dot, 'md' and/or 'pdf' (default: ['md']) */
+    extensions?: string[];
+    /** Computes the value for a file; return null when the file has no value */
+    compute: (file: TFile, context: ContentProviderContext) => ContentProviderValue | null | Promise<ContentProviderValue | null>;
+    /** Show the value as a pill in the file list (default: false) */
+    showInList?: boolean;
+    /** Icon shown next to the value in the file list */
+    icon?: string;
+    /** Formats the value for display in the file list */
+    format?: (value: ContentProviderValue) => string;
+}
+
+/**
+ * Registered content provider
+ */
+export interface ContentProviderInfo {
+    /** Provider id */
+    id: string;
+    /** Display name */
+    name: string;
+    /** File extensions processed by the provider */
+    extensions: readonly string[];
+}
+
+/**
+ * Search provider used by search shortcuts
+ */
+export type SearchShortcutProvider = 'internal' | 'omnisearch';
+
+/**
+ * Shortcut in the active vault profile
+ * `key` identifies the shortcut for remove and reorder operations
+ */
+export type Shortcut =
+    | { key: string; type: 'folder'; path: string; folder: TFolder | null; alias?: string }
+    | { key: string; type: 'note'; path: string; file: TFile | null; alias?: string }
+    | { key: string; type: 'tag'; tag: string; alias?: string }
+    | { key: string; type: 'property'; nodeId: string; alias?: string }
+    | { key: string; type: 'search'; name: string; query: string; provider: SearchShortcutProvider };
+
+/**
+ * Search shortcut definition
+ */
+export interface SearchShortcutInput {
+    /** Display name, unique across search shortcuts (case-insensitive) */
+    name: string;
+    /** Search query */
+    query: string;
+    /** Search provider (defaults to 'internal') */
+    provider?: SearchShortcutProvider;
+}
+
+/**
+ * Options for adding a shortcut
+ */
+export interface AddShortcutOptions {
+    /** Position to insert the shortcut at (defaults to the end) */
+    index?: number;
+}
+
+/**
+ * Vault profile summary
+ */
+export interface VaultProfileInfo {
+    /** Profile identifier */
+    id: string;
+    /** Display name */
+    name: string;
+}
+
 /**
  * All available event types that can be subscribed to
  */
@@ -218,11 +326,21 @@ export interface NotebookNavigatorEvents {
         nodeId: string;
         metadata: PropertyMetadata;
     };
+
+    /** Fired when the shortcuts of the active vault profile change */
+    'shortcuts-changed': {
+        shortcuts: readonly Shortcut[];
+    };
+
+    /** Fired when the active vault profile changes */
+    'profile-changed': {
+        profile: VaultProfileInfo;
+    };
 }
 
 /**
  * Main Notebook Navigator API interface
- * @version 1.3.0
+ * @version 1.6.0
  */
 export interface NotebookNavigatorAPI {
     /** Get the API version string */
@@ -282,6 +400,60 @@ export interface NotebookNavigatorAPI {
         getCurrent(): SelectionState;
     };
 
+    /** Read files and cached content known to the navigator */
+    query: {
+        /** Find visible files matching a filter search query (search box syntax), sorted by the default folder sort. Requires `storage-ready`. */
+        findFiles(query: string): TFile[];
+        /** Get the files currently listed in the list pane, in display order */
+        getListedFiles(): TFile[];
+        /** Read cached preview text, word count, task counts, feature image, and content provider values for a file */
+        getFileContent(file: TFile): Promise<FileContentData | null>;
+    };
+
+    /** Shortcuts of the active vault profile */
+    shortcuts: {
+        /** Get the shortcuts in display order */
+        list(): Shortcut[];
+        /** Add a folder shortcut. Returns false if it already exists */
+        addFolder(folder: TFolder, options?: AddShortcutOptions): Promise<boolean>;
+        /** Add a note shortcut. Returns false if it already exists */
+        addNote(file: TFile, options?: AddShortcutOptions): Promise<boolean>;
+        /** Add a tag shortcut (e.g. '#work' or 'work'). Returns false if invalid or it already exists */
+        addTag(tag: string, options?: AddShortcutOptions): Promise<boolean>;
+        /** Add a property shortcut (e.g. 'key:status' or 'key:status=done'). Returns false if invalid or it already exists */
+        addProperty(nodeId: string, options?: AddShortcutOptions): Promise<boolean>;
+        /** Add a search shortcut. Returns false if name or query is empty or the name already exists */
+        addSearch(search: SearchShortcutInput, options?: AddShortcutOptions): Promise<boolean>;
+        /** Remove a shortcut by key */
+        remove(key: string): Promise<boolean>;
+        /** Reorder shortcuts. Keys must list every shortcut exactly once */
+        reorder(keys: string[]): Promise<boolean>;
+    };
+
+    /** Vault profiles */
+    profiles: {
+        /** Get all vault profiles */
+        list(): VaultProfileInfo[];
+        /** Get the active vault profile */
+        getActive(): VaultProfileInfo;
+        /** Switch the active vault profile. Returns false if the profile does not exist */
+        switch(profileId: string): boolean;
+    };
+
+    /** Per-file values computed by other plugins, cached with the navigator content and matched by filter search */
+    contentProviders: {
+        /** Register a content provider. Throws if the id is invalid or already registered. Returns a function that unregisters it */
+        register(definition: ContentProviderDefinition): () => void;
+        /** Unregister a content provider. Stored values are kept for the next registration */
+        unregister(id: string): boolean;
+        /** Get the registered content providers */
+        list(): ContentProviderInfo[];
+        /** Read the cached value a provider computed for a file */
+        getValue(file: TFile, id: string): ContentProviderValue | null;
+        /** Discard cached values of a provider and compute them again. Returns false if the provider is not registered */
+        refresh(id: string): boolean;
+    };
+
     /** Menu extensions for Notebook Navigator context menus (callbacks run synchronously during menu construction) */
     menus: {
         /** Register items for the file context menu */
@@ -302,6 +474,20 @@ export interface NotebookNavigatorAPI {
 /**
  * API Changelog
  *
+ * Version 1.6.0 (2026-10-19)
+ * - Added contentProviders.register(definition), unregister(id), list(), getValue(file, id), refresh(id)
+ * - Added values to FileContentData
+ *
+ * Version 1.5.0 (2026-10-19)
+ * - Added shortcuts.list(), addFolder(), addNote(), addTag(), addProperty(), addSearch(), remove(), reorder()
+ * - Added profiles.list(), getActive(), switch(profileId)
+ * - Added shortcuts-changed and profile-changed events
+ *
+ * Version 1.4.0 (2026-10-19)
+ * - Added query.findFiles(query)
+ * - Added query.getListedFiles()
+ * - Added query.getFileContent(file)
+ *
  * Version 1.3.0 (2026-02-14)
  * - Added metadata.getPropertyMeta(nodeId)
  * - Added metadata.setPropertyMeta(nodeId, meta)
@@ -97,7 +97,7 @@ export interface PropertyMetadata {
  * - 'folder': Pin appears when viewing folders
  * - 'tag': Pin appears when viewing tags
  * - 'property': Pin appears when viewing properties
- * - 'all': Pin appears in folder, tag, and property views
+ * - 'all': Pin appears in folder, tag, property, and smart folder views
  */
 export type PinContext = 'folder' | 'tag' | 'property' | 'all';
 
@@ -117,6 +117,56 @@ export interface PinnedFile {
  */
 export type Pinned = Map<string, { folder: boolean; tag: boolean; property: boolean }>;
 
+// ============================================================================
+// SHORTCUT AND PROFILE TYPES
+// ============================================================================
+
+/**
+ * Search provider used by search shortcuts
+ */
+export type SearchShortcutProvider = 'internal' | 'omnisearch';
+
+/**
+ * Shortcut in the active vault profile
+ * `key` identifies the shortcut for remove and reorder operations
+ */
+export type Shortcut =
+    | { key: string; type: 'folder'; path: string; folder: TFolder | null; alias?: string }
+    | { key: string; type: 'note'; path: string; file: TFile | null; alias?: string }
+    | { key: string; type: 'tag'; tag: string; alias?: string }
+    | { key: string; type: 'property'; nodeId: string; alias?: string }
+    | { key: string; type: 'search'; name: string; query: string; provider: SearchShortcutProvider };
+
+/**
+ * Search shortcut definition
+ */
+export interface SearchShortcutInput {
+    /** Display name, unique across search shortcuts (case-insensitive) */
+    name: string;
+    /** Search query */
+    query: string;
+    /** Search provider (defaults to 'internal') */
+    provider?: SearchShortcutProvider;
+}
+
+/**
+ * Options for adding a shortcut
+ */
+export interface AddShortcutOptions {
+    /** Position to insert the shortcut at (defaults to the end) */
+    index?: number;
+}
+
+/**
+ * Vault profile summary
+ */
+export interface VaultProfileInfo {
+    /** Profile identifier */
+    id: string;
+    /** Display name */
+    name: string;
+}
+
 // ============================================================================
 // EVENTS
 // ============================================================================
@@ -166,6 +216,16 @@ export interface NotebookNavigatorEvents {
         nodeId: string;
         metadata: PropertyMetadata;
     };
+
+    /** Fired when the shortcuts of the active vault profile change */
+    'shortcuts-changed': {
+        shortcuts: readonly Shortcut[];
+    };
+
+    /** Fired when the active vault profile changes */
+    'profile-changed': {
+        profile: VaultProfileInfo;
+    };
 }
 
 // ============================================================================
@@ -193,3 +253,73 @@ export interface SelectionState {
     /** The file that has keyboard focus (can be null) */
     focused: TFile | null;
 }
+
+// ============================================================================
+// QUERY TYPES
+// ============================================================================
+
+/**
+ * Cached content generated for a file
+ * Values are null until the content has been generated
+ */
+export interface FileContentData {
+    /** Preview text; empty string when the file has no preview text */
+    preview: string | null;
+    /** Word count of the note body */
+    wordCount: number | null;
+    /** Task counts of the note */
+    tasks: { total: number; unfinished: number } | null;
+    /** Feature image thumbnail; null when the file has no feature image */
+    featureImage: Blob | null;
+    /** Values computed by content providers, keyed by provider id */
+    values: Record<string, ContentProviderValue>;
+}
+
+// ============================================================================
+// CONTENT PROVIDER TYPES
+// ============================================================================
+
+/**
+ * Value a content provider can compute for a file
+ */
+export type ContentProviderValue = string | number | boolean;
+
+/**
+ * Context passed to a content provider when computing a file value
+ */
+export interface ContentProviderContext {
+    /** Reads the file contents from Obsidian's cache */
+    read: () => Promise<string>;
+}
+
+/**
+ * Definition of a content provider registered by another plugin
+ */
+export interface ContentProviderDefinition {
+    /** Unique id (letters, digits, '-', '_' and '.'), also used as the filter search property key */
+    id: string;
+    /** Display name */
+    name: string;
+    /** Extensions of indexed files to process without the dot, 'md' and/or 'pdf' (default: ['md']) */
+    extensions?: string[];
+    /** Computes the value for a file; return null when the file has no value */
+    compute: (file: TFile, context: ContentProviderContext) => ContentProviderValue | null | Promise<ContentProviderValue | null>;
+    /** Show the value as a pill in the file list (default: false) */
+    showInList?: boolean;
+    /** Icon shown next to the value in the file list */
+    icon?: string;
+    /** Formats the value for display in the file list */
+    format?: (value: ContentProviderValue) => string;
+}
+
+/**
+ * Registered content provider
+ */
+export interface ContentProviderInfo {
+    /** Provider id */
+    id: string;
+    /** Display name */
+    name: string;
+    /** File extensions processed by the provider */
+    extensions: readonly string[];
+}
@@ -0,0 +1,149 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import React, { useMemo, useRef } from 'react';
+import type { TFile } from 'obsidian';
+import { useMetadataService, useServices } from '../context/ServicesContext';
+import { useSettingsDerived, useSettingsState } from '../context/SettingsContext';
+import { useFileCache } from '../context/StorageContext';
+import { useContextMenu } from '../hooks/useContextMenu';
+import { useFeatureImage } from '../hooks/useFeatureImage';
+import { ItemType } from '../types';
+import { runAsyncAction } from '../utils/async';
+import { resolveFileDragIconId, resolveFileIconId } from '../utils/fileIconUtils';
+import { resolveFileStyleRuleMatch } from '../utils/fileStyleRules';
+import { FILE_VISIBILITY, shouldDisplayFile } from '../utils/fileTypeUtils';
+import { openFileInContext } from '../utils/openFileInContext';
+import { resolveDefaultDateField } from '../utils/sortUtils';
+import { ServiceIcon } from './ServiceIcon';
+
+interface FileGridTileProps {
+    file: TFile;
+    isSelected: boolean;
+    onFileClick: (file: TFile, fileIndex: number | undefined, event: React.MouseEvent) => void;
+    fileIndex?: number;
+    /** Whether the file is normally hidden (frontmatter or excluded folder) */
+    isHidden?: boolean;
+}
+
+/**
+ * Grid mode tile showing a file's thumbnail with its name below.
+ * Files without a thumbnail show their file icon instead.
+ */
+export const FileGridTile = React.memo(function FileGridTile({ file, isSelected, onFileClick, fileIndex, isHidden }: FileGridTileProps) {
+    const { app, commandQueue, isMobile } = useServices();
+    const settings = useSettingsState();
+    const { fileNameIconNeedles, fileStyleRules } = useSettingsDerived();
+    const metadataService = useMetadataService();
+    const { getDB, getFileDisplayName, getFileTimestamps } = useFileCache();
+    const tileRef = useRef<HTMLDivElement>(null);
+    const { url: thumbnailUrl } = useFeatureImage(file, true);
+
+    const displayName = getFileDisplayName(file);
+    const fileStyleRuleMatch = useMemo(
+        () =>
+            resolveFileStyleRuleMatch(file, fileStyleRules, {
+                app,
+                db: getDB(),
+                defaultDateField: resolveDefaultDateField(settings.defaultFolderSort, settings.alphabeticalDateMode ?? 'modified'),
+                displayName,
+                getFileTimestamps
+            }),
+        [app, displayName, file, fileStyleRules, getDB, getFileTimestamps, settings.alphabeticalDateMode, settings.defaultFolderSort]
+    );
+    const fileColor = metadataService.getFileColor(file.path) ?? fileStyleRuleMatch.color ?? undefined;
+    const customIconId = metadataService.getFileIcon(file.path);
+    const iconId = useMemo(
+        () =>
+            resolveFileIconId(
+                file,
+                {
+                    showFilenameMatchIcons: settings.showFilenameMatchIcons,
+                    fileNameIconMap: settings.fileNameIconMap,
+                    showCategoryIcons: true,
+                    fileTypeIconMap: settings.fileTypeIconMap
+                },
+                {
+                    customIconId,
+                    ruleIconId: fileStyleRuleMatch.iconId,
+                    metadataCache: app.metadataCache,
+                    isExternalFile: !shouldDisplayFile(file, FILE_VISIBILITY.SUPPORTED, app),
+                    allowCategoryIcons: true,
+                    fallbackMode: 'file',
+                    fileNameNeedles: fileNameIconNeedles,
+                    fileNameForMatch: displayName
+                }
+            ),
+        [
+            app,
+            customIconId,
+            displayName,
+            file,
+            fileNameIconNeedles,
+            fileStyleRuleMatch.iconId,
+            settings.fileNameIconMap,
+            settings.fileTypeIconMap,
+            settings.showFilenameMatchIcons
+        ]
+    );
+    const dragIconId = resolveFileDragIconId(file, settings.fileTypeIconMap, app.metadataCache, iconId);
+
+    useContextMenu(tileRef, { type: ItemType.FILE, item: file });
+
+    const handleMouseDown = (event: React.MouseEvent) => {
+        if (event.button !== 1) {
+            return;
+        }
+        event.preventDefault();
+        event.stopPropagation();
+        runAsyncAction(() => openFileInContext({ app, commandQueue, file, context: 'tab' }));
+    };
+
+    const className = ['nn-file-grid-tile', isSelected ? 'nn-selected' : '', isHidden ? 'nn-hidden-file' : ''].filter(Boolean).join(' ');
+
+    return (
+        <div
+            ref={tileRef}
+            className={className}
+            data-path={file.path}
+            // Path to use when this file is dragged
+            data-drag-path={file.path}
+            // Type of item being dragged (folder, file, or tag)
+            data-drag-type="file"
+            // Marks element as draggable for event delegation
+            data-draggable={!isMobile ? 'true' : undefined}
+            // Icon to display in drag ghost
+            data-drag-icon={dragIconId ?? undefined}
+            onClick={event => onFileClick(file, fileIndex, event)}
+            onMouseDown={handleMouseDown}
+            draggable={!isMobile}
+            role="listitem"
+            aria-selected={isSelected}
+        >
+            <div className="nn-file-grid-tile-thumbnail">
+                {thumbnailUrl ? (
+                    <img src={thumbnailUrl} alt="" draggable={false} loading="lazy" />
+                ) : iconId ? (
+                    <ServiceIcon iconId={iconId} className="nn-file-grid-tile-icon" aria-hidden={true} />
+                ) : null}
+            </div>
+            <div className="nn-file-grid-tile-name" style={fileColor ? { color: fileColor } : undefined} title={displayName}>
+                {displayName}
+            </div>
+        </div>
+    );
+});
@@ -49,12 +49,13 @@
 import React, { useRef, useMemo, useEffect, useState, useCallback, useId } from 'react';
 import { TFile, TFolder, setTooltip, setIcon } from 'obsidian';
 import { useServices } from '../context/ServicesContext';
-import type { PropertyItem, FeatureImageStatus, FileContentChange } from '../storage/IndexedDBStorage';
+import type { PropertyItem, FileContentChange, FileData, OpenTaskItem } from '../storage/IndexedDBStorage';
 import { useMetadataService } from '../context/ServicesContext';
 import { useActiveProfile, useSettingsDerived, useSettingsState } from '../context/SettingsContext';
 import { useUXPreferences } from '../context/UXPreferencesContext';
 import { useFileCache } from '../context/StorageContext';
 import { useContextMenu } from '../hooks/useContextMenu';
+import { useFeatureImage } from '../hooks/useFeatureImage';
 import { useTagNavigation } from '../hooks/useTagNavigation';
 import { useListPaneAppearance } from '../hooks/useListPaneAppearance';
 import { useShortcuts } from '../context/ShortcutsContext';
@@ -65,8 +66,9 @@ import { DateUtils } from '../utils/dateUtils';
 import { runAsyncAction } from '../utils/async';
 import { getTooltipPlacement } from '../utils/domUtils';
 import { openFileInContext } from '../utils/openFileInContext';
-import { FILE_VISIBILITY, getExtensionSuffix, isImageFile, shouldDisplayFile } from '../utils/fileTypeUtils';
+import { FILE_VISIBILITY, getExtensionSuffix, shouldDisplayFile } from '../utils/fileTypeUtils';
 import { resolveFileDragIconId, resolveFileIconId } from '../utils/fileIconUtils';
+import { resolveFileStyleRuleMatch } from '../utils/fileStyleRules';
 import { naturalCompare, resolveDefaultDateField } from '../utils/sortUtils';
 import { getCachedFileTags, getTagSearchModifierOperator } from '../utils/tagUtils';
 import {
@@ -85,6 +87,7 @@ import { openAddTagToFilesModal } from '../utils/tagModalHelpers';
 import { casefold } from '../utils/recordUtils';
 import { resolveUXIcon } from '../utils/uxIcons';
 import type { InclusionOperator } from '../utils/filterSearch';
+import { areOpenTasksEqual, getDueDateStartMs, getNextTaskDueDate } from '../utils/taskUtils';
 import { isRecord } from '../utils/typeGuards';
 import {
     buildPropertyKeyNodeId,
@@ -98,7 +101,6 @@ import {
 import { ServiceIcon } from './ServiceIcon';
 
 const FEATURE_IMAGE_MAX_ASPECT_RATIO = 16 / 9;
-const FEATURE_IMAGE_REGEN_THROTTLE_MS = 10000;
 const sortTagsAlphabetically = (tags: string[]): void => {
     tags.sort((firstTag, secondTag) => naturalCompare(firstTag, secondTag));
 };
@@ -416,13 +418,13 @@ export const FileItem = React.memo(function FileItem({
     // === Hooks (all hooks together at the top) ===
     const { app, isMobile, plugin, commandQueue, tagOperations } = useServices();
     const settings = useSettingsState();
-    const { fileNameIconNeedles } = useSettingsDerived();
+    const { fileNameIconNeedles, fileStyleRules } = useSettingsDerived();
     const { hiddenTags } = useActiveProfile();
     const uxPreferences = useUXPreferences();
     const includeDescendantNotes = uxPreferences.includeDescendantNotes;
     const showHiddenItems = uxPreferences.showHiddenItems;
     const appearanceSettings = useListPaneAppearance();
-    const { getFileDisplayName, getDB, getFileTimestamps, hasPreview, regenerateFeatureImageForFile } = useFileCache();
+    const { getFileDisplayName, getDB, getFileTimestamps, hasPreview } = useFileCache();
     const { navigateToTag, navigateToProperty } = useTagNavigation();
     const metadataService = useMetadataService();
     const { addNoteShortcut, hasNoteShortcut, noteShortcutKeysByPath, removeShortcut } = useShortcuts();
@@ -435,26 +437,26 @@ export const FileItem = React.memo(function FileItem({
 
         const preview = appearanceSettings.showPreview && file.extension === 'md' ? db.getCachedPreviewText(file.path) : '';
 
-        // Pull the feature image key from the cache; blobs load asynchronously.
         const record = db.getFile(file.path);
         const tagList = [...getCachedFileTags({ app, file, db, fileData: record })];
-        const featureImageKey = record?.featureImageKey ?? null;
-        const featureImageStatus: FeatureImageStatus = record?.featureImageStatus ?? 'unprocessed';
         const properties = clonePropertyItems(record?.properties ?? null);
         const wordCount = record?.wordCount ?? null;
+        const taskTotal = record?.taskTotal ?? null;
         const taskUnfinished = record?.taskUnfinished ?? null;
+        const openTasks = record?.openTasks ?? null;
+        const providerValues = record?.providerValues ?? {};
 
-        let imageUrl: string | null = null;
-        if (appearanceSettings.showImage && isImageFile(file)) {
-            try {
-                imageUrl = app.vault.getResourcePath(file);
-            } catch {
-                imageUrl = null;
-            }
-        }
-
-        return { preview, tags: tagList, imageUrl, featureImageKey, featureImageStatus, properties, wordCount, taskUnfinished };
-    }, [appearanceSettings.showImage, appearanceSettings.showPreview, app, file, getDB]);
+        return {
+            preview,
+            tags: tagList,
+            properties,
+            wordCount,
+            taskTotal,
+            taskUnfinished,
+            openTasks,
+            providerValues
+        };
+    }, [appearanceSettings.showPreview, app, file, getDB]);
 
     // === State ===
     const [isHovered, setIsHovered] = React.useState(false);
@@ -466,12 +468,14 @@ export const FileItem = React.memo(function FileItem({
 
     const [previewText, setPreviewText] = useState<string>(initialData.preview);
     const [tags, setTags] = useState<string[]>(initialData.tags);
-    const [featureImageKey, setFeatureImageKey] = useState<string | null>(initialData.featureImageKey);
-    const [featureImageStatus, setFeatureImageStatus] = useState<FeatureImageStatus>(initialData.featureImageStatus);
-    const [featureImageUrl, setFeatureImageUrl] = useState<string | null>(initialData.imageUrl);
     const [properties, setProperties] = useState<PropertyItem[] | null>(initialData.properties);
     const [wordCount, setWordCount] = useState<number | null>(initialData.wordCount);
+    const [taskTotal, setTaskTotal] = useState<number | null>(initialData.taskTotal);
     const [taskUnfinished, setTaskUnfinished] = useState<number | null>(initialData.taskUnfinished);
+    const [openTasks, setOpenTasks] = useState<OpenTaskItem[] | null>(initialData.openTasks);
+    const [providerValues, setProviderValues] = useState<FileData['providerValues']>(initialData.providerValues);
+    const [contentProviderVersion, setContentProviderVersion] = useState(0);
+    const { url: featureImageUrl, status: featureImageStatus } = useFeatureImage(file, appearanceSettings.showImage);
     const [featureImageAspectRatio, setFeatureImageAspectRatio] = useState<number | null>(null);
     const [isFeatureImageHidden, setIsFeatureImageHidden] = useState(false);
     const [metadataVersion, setMetadataVersion] = useState(0);
@@ -484,9 +488,7 @@ export const FileItem = React.memo(function FileItem({
     const pinNoteIconRef = useRef<HTMLDivElement>(null);
     const openInNewTabIconRef = useRef<HTMLDivElement>(null);
     const fileIconRef = useRef<HTMLSpanElement>(null);
-    const featureImageObjectUrlRef = useRef<string | null>(null);
     const featureImageImgRef = useRef<HTMLImageElement | null>(null);
-    const lastFeatureImageRegenRef = useRef<{ key: string; at: number } | null>(null);
     // Unique ID for linking screen reader description to the file item
     const hiddenDescriptionId = useId();
 
@@ -526,7 +528,40 @@ export const FileItem = React.memo(function FileItem({
     // Decide whether to render an inline extension suffix after the name
     const extensionSuffix = useMemo(() => getExtensionSuffix(file), [file]);
     const fileIconId = metadataService.getFileIcon(file.path);
-    const fileColor = metadataService.getFileColor(file.path);
+    // Evaluate file style rules against cached metadata; re-run when tags, properties, tasks or provider values change
+    const fileStyleRuleMatch = useMemo(() => {
+        void metadataVersion;
+        void tags;
+        void properties;
+        void taskUnfinished;
+        void providerValues;
+        return resolveFileStyleRuleMatch(file, fileStyleRules, {
+            app,
+            db: getDB(),
+            defaultDateField: resolveDefaultDateField(
+                sortOption ?? settings.defaultFolderSort,
+                settings.alphabeticalDateMode ?? 'modified'
+            ),
+            displayName,
+            getFileTimestamps
+        });
+    }, [
+        app,
+        displayName,
+        file,
+        fileStyleRules,
+        getDB,
+        getFileTimestamps,
+        metadataVersion,
+        properties,
+        providerValues,
+        settings.alphabeticalDateMode,
+        settings.defaultFolderSort,
+        sortOption,
+        tags,
+        taskUnfinished
+    ]);
+    const fileColor = metadataService.getFileColor(file.path) ?? fileStyleRuleMatch.color ?? undefined;
     const fileExtension = file.extension.toLowerCase();
     const isBaseFile = fileExtension === 'base';
     const isCanvasFile = fileExtension === 'canvas';
@@ -552,6 +587,7 @@ export const FileItem = React.memo(function FileItem({
             },
             {
                 customIconId: fileIconId,
+                ruleIconId: fileStyleRuleMatch.iconId,
                 metadataCache: app.metadataCache,
                 isExternalFile,
                 allowCategoryIcons,
@@ -567,6 +603,7 @@ export const FileItem = React.memo(function FileItem({
         fileNameIconNeedles,
         fileIconId,
         file,
+        fileStyleRuleMatch.iconId,
         isExternalFile,
         metadataVersion,
         settings.fileNameIconMap,
@@ -935,6 +972,72 @@ export const FileItem = React.memo(function FileItem({
         };
     }, [appearanceSettings.notePropertyType, canShowPropertyPills, wordCount, wordCountPillIconId]);
 
+    // Values computed by content providers registered through the API
+    const contentProviderPills = useMemo<PropertyPill[]>(() => {
+        void contentProviderVersion;
+
+        const contentProviders = plugin.api?.contentProviders;
+        if (!contentProviders || (isCompactMode && !settings.showFilePropertiesInCompactMode)) {
+            return [];
+        }
+
+        const pills: PropertyPill[] = [];
+        for (const definition of contentProviders.getDefinitions()) {
+            const value = definition.showInList ? providerValues[definition.id]?.value : null;
+            if (value === null || value === undefined) {
+                continue;
+            }
+
+            let label = String(value);
+            if (definition.format) {
+                try {
+                    label = definition.format(value);
+                } catch (error) {
+                    console.error(`Content provider "${definition.id}" failed to format value`, error);
+                }
+            }
+            if (label.trim().length === 0) {
+                continue;
+            }
+
+            pills.push({ value: String(value), label, wikiLink: null, iconId: definition.icon, fieldKey: definition.id });
+        }
+        return pills;
+    }, [contentProviderVersion, isCompactMode, plugin, providerValues, settings.showFilePropertiesInCompactMode]);
+
+    // Completion bar and next due date for notes with tasks
+    const taskProgress = useMemo(() => {
+        if (!settings.showTaskProgress || isCompactMode || file.extension !== 'md') {
+            return null;
+        }
+        if (typeof taskTotal !== 'number' || typeof taskUnfinished !== 'number' || taskTotal <= 0) {
+            return null;
+        }
+
+        const nextDueDate = getNextTaskDueDate(openTasks);
+        const nextDueMs = nextDueDate ? getDueDateStartMs(nextDueDate) : null;
+        const today = localDayReference ?? new Date();
+        const todayStartMs = new Date(today.getFullYear(), today.getMonth(), today.getDate()).getTime();
+
+        return {
+            completed: Math.max(0, taskTotal - taskUnfinished),
+            total: taskTotal,
+            nextDue:
+                nextDueMs !== null
+                    ? { label: DateUtils.formatDate(nextDueMs, settings.dateFormat), isOverdue: nextDueMs < todayStartMs }
+                    : null
+        };
+    }, [
+        file.extension,
+        isCompactMode,
+        localDayReference,
+        openTasks,
+        settings.dateFormat,
+        settings.showTaskProgress,
+        taskTotal,
+        taskUnfinished
+    ]);
+
     const propertyPills = useMemo<PropertyPill[]>(() => {
         void propertyColorSignature;
 
@@ -1175,6 +1278,11 @@ export const FileItem = React.memo(function FileItem({
 
     const propertyPillIcons = useMemo(() => {
         const icons = new Map<PropertyPill, string>();
+        contentProviderPills.forEach(pill => {
+            if (pill.iconId) {
+                icons.set(pill, pill.iconId);
+            }
+        });
         const propertyIcons = settings.propertyIcons;
         if (!propertyIcons || !hasOwnRecordEntries(propertyIcons)) {
             if (wordCountPropertyPill?.iconId) {
@@ -1238,7 +1346,7 @@ export const FileItem = React.memo(function FileItem({
         }
 
         return icons;
-    }, [metadataService, propertyPills, settings.propertyIcons, wordCountPropertyPill]);
+    }, [contentProviderPills, metadataService, propertyPills, settings.propertyIcons, wordCountPropertyPill]);
 
     // Render tags
     const renderTags = useCallback(() => {
@@ -1354,15 +1462,58 @@ export const FileItem = React.memo(function FileItem({
         return <div className="nn-file-property-row">{renderPropertyPill(wordCountPropertyPill, 0)}</div>;
     }, [renderPropertyPill, shouldShowWordCountProperty, wordCountPropertyPill]);
 
+    const renderContentProviderValues = useCallback(() => {
+        if (contentProviderPills.length === 0) {
+            return null;
+        }
+
+        return <div className="nn-file-property-row">{contentProviderPills.map(renderPropertyPill)}</div>;
+    }, [contentProviderPills, renderPropertyPill]);
+
+    const renderTaskProgress = useCallback(() => {
+        if (!taskProgress) {
+            return null;
+        }
+
+        const { completed, total, nextDue } = taskProgress;
+        const percent = Math.round((completed / total) * 100);
+        const ariaLabel = strings.listPane.taskProgressAriaLabel
+            .replace('{completed}', completed.toString())
+            .replace('{total}', total.toString());
+
+        return (
+            <div className="nn-file-task-progress">
+                <div
+                    className="nn-file-task-progress-bar"
+                    role="progressbar"
+                    aria-label={ariaLabel}
+                    aria-valuemin={0}
+                    aria-valuemax={total}
+                    aria-valuenow={completed}
+                >
+                    <div className="nn-file-task-progress-fill" style={{ width: `${percent}%` }} />
+                </div>
+                <span className="nn-file-task-progress-count">{`${completed}/${total}`}</span>
+                {nextDue ? (
+                    <span className={nextDue.isOverdue ? 'nn-file-task-due nn-file-task-due-overdue' : 'nn-file-task-due'}>
+                        {strings.listPane.taskDue.replace('{date}', nextDue.label)}
+                    </span>
+                ) : null}
+            </div>
+        );
+    }, [taskProgress]);
+
     const renderPillRows = useCallback(() => {
         return (
             <>
                 {renderTags()}
                 {renderProperties()}
                 {renderWordCountProperty()}
+                {renderContentProviderValues()}
+                {renderTaskProgress()}
             </>
         );
-    }, [renderProperties, renderTags, renderWordCountProperty]);
+    }, [renderContentProviderValues, renderProperties, renderTags, renderTaskProgress, renderWordCountProperty]);
 
     // Format display date based on current sort
     const displayDate = useMemo(() => {
@@ -1432,7 +1583,8 @@ export const FileItem = React.memo(function FileItem({
     const shouldUseMultiLinePreviewLayout = !pinnedItemShouldUseCompactLayout && appearanceSettings.previewRows >= 2;
     const shouldCollapseEmptyPreviewSpace = heightOptimizationEnabled && !hasPreviewContent && !showFeatureImageArea; // Optimization: compact layout for empty preview
     const shouldAlwaysReservePreviewSpace = heightOptimizationDisabled || hasPreviewContent || showFeatureImageArea; // Show full layout when not optimizing OR has content
-    const hasVisiblePillRows = shouldShowFileTags || shouldShowProperty || shouldShowWordCountProperty;
+    const hasVisiblePillRows =
+        shouldShowFileTags || shouldShowProperty || shouldShowWordCountProperty || contentProviderPills.length > 0 || taskProgress !== null;
     const shouldSuppressEmptyPreviewLines = !hasPreviewContent && hasVisiblePillRows;
     const shouldShowDateForItem = settings.showFileDate && !pinnedItemShouldUseCompactLayout;
     const shouldShowSingleLineSecondLine = shouldShowDateForItem || (settings.showFilePreview && !shouldSuppressEmptyPreviewLines);
@@ -1568,21 +1720,23 @@ export const FileItem = React.memo(function FileItem({
         const {
             preview,
             tags: initialTags,
-            featureImageKey: initialFeatureImageKey,
-            featureImageStatus: initialFeatureImageStatus,
             properties: initialProperties,
             wordCount: initialWordCount,
-            taskUnfinished: initialTaskUnfinished
+            taskTotal: initialTaskTotal,
+            taskUnfinished: initialTaskUnfinished,
+            openTasks: initialOpenTasks,
+            providerValues: initialProviderValues
         } = loadFileData();
 
         // Only update state if values actually changed to prevent unnecessary re-renders
         setPreviewText(prev => (prev === preview ? prev : preview));
         setTags(prev => (areStringArraysEqual(prev, initialTags) ? prev : initialTags));
-        setFeatureImageKey(prev => (prev === initialFeatureImageKey ? prev : initialFeatureImageKey));
-        setFeatureImageStatus(prev => (prev === initialFeatureImageStatus ? prev : initialFeatureImageStatus));
         setProperties(prev => (arePropertyItemsEqual(prev, initialProperties) ? prev : initialProperties));
         setWordCount(prev => (prev === initialWordCount ? prev : initialWordCount));
+        setTaskTotal(prev => (prev === initialTaskTotal ? prev : initialTaskTotal));
         setTaskUnfinished(prev => (prev === initialTaskUnfinished ? prev : initialTaskUnfinished));
+        setOpenTasks(prev => (areOpenTasksEqual(prev, initialOpenTasks) ? prev : initialOpenTasks));
+        setProviderValues(prev => (prev === initialProviderValues ? prev : initialProviderValues));
 
         const db = getDB();
         const unsubscribe = db.onFileContentChange(file.path, (changes: FileContentChange['changes']) => {
@@ -1593,14 +1747,6 @@ export const FileItem = React.memo(function FileItem({
                 const nextPreview = changes.preview || '';
                 setPreviewText(prev => (prev === nextPreview ? prev : nextPreview));
             }
-            // Update feature image key when it changes
-            if (changes.featureImageKey !== undefined) {
-                setFeatureImageKey(prev => (prev === changes.featureImageKey ? prev : (changes.featureImageKey ?? null)));
-            }
-            if (changes.featureImageStatus !== undefined) {
-                const nextStatus = changes.featureImageStatus;
-                setFeatureImageStatus(prev => (prev === nextStatus ? prev : nextStatus));
-            }
             // Update tags when they change
             if (changes.tags !== undefined) {
                 const nextTags = [...(changes.tags ?? [])];
@@ -1610,10 +1756,21 @@ export const FileItem = React.memo(function FileItem({
                 const nextWordCount = changes.wordCount ?? null;
                 setWordCount(prev => (prev === nextWordCount ? prev : nextWordCount));
             }
+            if (changes.taskTotal !== undefined) {
+                const nextTaskTotal = changes.taskTotal ?? null;
+                setTaskTotal(prev => (prev === nextTaskTotal ? prev : nextTaskTotal));
+            }
             if (changes.taskUnfinished !== undefined) {
                 const nextTaskUnfinished = changes.taskUnfinished ?? null;
                 setTaskUnfinished(prev => (prev === nextTaskUnfinished ? prev : nextTaskUnfinished));
             }
+            if (changes.openTasks !== undefined) {
+                const nextOpenTasks = changes.openTasks ?? null;
+                setOpenTasks(prev => (areOpenTasksEqual(prev, nextOpenTasks) ? prev : nextOpenTasks));
+            }
+            if (changes.providerValues !== undefined) {
+                setProviderValues(changes.providerValues);
+            }
             // Update properties when they change
             if (changes.properties !== undefined) {
                 const nextProperties = clonePropertyItems(changes.properties ?? null);
@@ -1640,88 +1797,12 @@ export const FileItem = React.memo(function FileItem({
         // NOTE: include file.path because Obsidian reuses TFile instance on rename
     }, [file, file.path, appearanceSettings.showPreview, appearanceSettings.showImage, getDB, app, loadFileData]);
 
+    // Re-render content provider pills when providers are registered or unregistered
     useEffect(() => {
-        return () => {
-            if (featureImageObjectUrlRef.current) {
-                URL.revokeObjectURL(featureImageObjectUrlRef.current);
-                featureImageObjectUrlRef.current = null;
-            }
-        };
-    }, []);
-
-    useEffect(() => {
-        let isActive = true;
-
-        // Clear any previous object URL before loading a new one.
-        if (featureImageObjectUrlRef.current) {
-            URL.revokeObjectURL(featureImageObjectUrlRef.current);
-            featureImageObjectUrlRef.current = null;
-        }
-
-        if (!appearanceSettings.showImage) {
-            // Hide feature images when the setting is disabled.
-            setFeatureImageUrl(null);
-            return () => {
-                isActive = false;
-            };
-        }
-
-        if (isImageFile(file)) {
-            // Image files render directly from the vault resource path.
-            try {
-                const url = app.vault.getResourcePath(file);
-                setFeatureImageUrl(url);
-            } catch {
-                setFeatureImageUrl(null);
-            }
-            return () => {
-                isActive = false;
-            };
-        }
-
-        if (featureImageStatus !== 'has') {
-            // Skip blob fetch when no thumbnail blob is recorded.
-            setFeatureImageUrl(null);
-            return () => {
-                isActive = false;
-            };
-        }
-
-        if (!featureImageKey || featureImageKey === '') {
-            // Skip blob fetch when no key is recorded.
-            setFeatureImageUrl(null);
-            return () => {
-                isActive = false;
-            };
-        }
-
-        const db = getDB();
-        const expectedKey = featureImageKey;
-        void db.getFeatureImageBlob(file.path, expectedKey).then(blob => {
-            if (!isActive) {
-                return;
-            }
-            if (!blob) {
-                setFeatureImageUrl(null);
-                const now = Date.now();
-                const last = lastFeatureImageRegenRef.current;
-                const shouldTrigger = !last || last.key !== expectedKey || now - last.at >= FEATURE_IMAGE_REGEN_THROTTLE_MS;
-                if (shouldTrigger) {
-                    lastFeatureImageRegenRef.current = { key: expectedKey, at: now };
-                    void regenerateFeatureImageForFile(file);
-                }
-                return;
-            }
-            // Create an object URL for the blob and store it for cleanup.
-            const url = URL.createObjectURL(blob);
-            featureImageObjectUrlRef.current = url;
-            setFeatureImageUrl(url);
+        return plugin.api?.contentProviders.onDefinitionsChanged(() => {
+            setContentProviderVersion(version => version + 1);
         });
-
-        return () => {
-            isActive = false;
-        };
-    }, [appearanceSettings.showImage, app, featureImageKey, featureImageStatus, file, getDB, regenerateFeatureImageForFile]);
+    }, [plugin]);
 
     useEffect(() => {
         if (!featureImageUrl || settings.forceSquareFeatureImage) {
@@ -1828,7 +1909,13 @@ export const FileItem = React.memo(function FileItem({
         e.preventDefault();
         runAsyncAction(async () => {
             const context =
-                selectionType === ItemType.TAG ? ItemType.TAG : selectionType === ItemType.PROPERTY ? ItemType.PROPERTY : ItemType.FOLDER;
+                selectionType === ItemType.TAG
+                    ? ItemType.TAG
+                    : selectionType === ItemType.PROPERTY
+                      ? ItemType.PROPERTY
+                      : selectionType === ItemType.SMART_FOLDER
+                        ? ItemType.SMART_FOLDER
+                        : ItemType.FOLDER;
             await metadataService.togglePin(file.path, context);
         });
     };
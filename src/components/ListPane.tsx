@@ -70,8 +70,12 @@ import {
     UNTAGGED_TAG_ID,
     type CSSPropertiesWithVars
 } from '../types';
+import type { ListPaneItem } from '../types/virtualization';
 import { getEffectiveSortOption } from '../utils/sortUtils';
 import { FileItem } from './FileItem';
+import { FileGridTile } from './FileGridTile';
+import { ListPaneBoard } from './ListPaneBoard';
+import { ListPaneGrid } from './ListPaneGrid';
 import { ListPaneHeader } from './ListPaneHeader';
 import { ListToolbar } from './ListToolbar';
 import { Calendar } from './calendar';
@@ -113,6 +117,7 @@ import { getFolderNote, openFolderNoteFile } from '../utils/folderNotes';
 import { getActivePropertyKeySet } from '../utils/vaultProfiles';
 import { DateUtils } from '../utils/dateUtils';
 import { normalizeOptionalVaultFolderPath } from '../utils/pathUtils';
+import { buildBoardColumns } from '../utils/listBoard';
 import type { NavigateToFolderOptions, RevealPropertyOptions, RevealTagOptions } from '../hooks/useNavigatorReveal';
 
 /**
@@ -151,6 +156,8 @@ export interface ListPaneHandle {
     modifySearchWithDateToken: (dateToken: string) => void;
     toggleSearch: () => void;
     executeSearchShortcut: (params: ExecuteSearchShortcutParams) => Promise<void>;
+    // Returns the active filter search query, or null when search is closed, empty, or uses another provider
+    getFilterSearchQuery: () => string | null;
 }
 
 interface EnsureSelectionOptions {
@@ -187,6 +194,8 @@ interface ListPaneProps {
     onNavigateToFolder: (folderPath: string, options?: NavigateToFolderOptions) => void;
     onRevealTag: (tagPath: string, options?: RevealTagOptions) => void;
     onRevealProperty: (propertyNodeId: string, options?: RevealPropertyOptions) => boolean;
+    /** Opens a shortcut by its 1-based position in the shortcuts list */
+    onOpenShortcut?: (shortcutNumber: number) => Promise<boolean>;
 }
 
 interface ListPaneTitleChromeProps {
@@ -830,7 +839,7 @@ export const ListPane = React.memo(
         // Track render count
         const renderCountRef = useRef(0);
 
-        const { selectionType, selectedFolder, selectedTag, selectedProperty, selectedFile } = selectionState;
+        const { selectionType, selectedFolder, selectedTag, selectedProperty, selectedSmartFolder, selectedFile } = selectionState;
 
         // Determine if list pane is visible early to optimize
         const isVisible = !uiState.singlePane || uiState.currentSinglePaneView === 'files';
@@ -841,6 +850,7 @@ export const ListPane = React.memo(
             selectedFolder,
             selectedTag,
             selectedProperty,
+            selectedSmartFolder,
             settings,
             activeProfile,
             searchProvider,
@@ -851,6 +861,39 @@ export const ListPane = React.memo(
         });
         const localDayReference = useMemo(() => DateUtils.parseLocalDayKey(localDayKey), [localDayKey]);
 
+        // Board mode renders the listed notes as cards in columns keyed by the board property
+        const boardProperty = appearanceSettings.boardProperty;
+        const boardColumns = useMemo(() => {
+            if (!boardProperty) {
+                return null;
+            }
+            return buildBoardColumns(
+                orderedFiles,
+                file => app.metadataCache.getFileCache(file)?.frontmatter,
+                boardProperty,
+                strings.listPane.noPropertyValue
+            );
+        }, [app, boardProperty, orderedFiles]);
+        const gridTileSize = appearanceSettings.gridTileSize;
+        // Board cards and grid tiles look up the list item of each file for pinned, hidden and search state
+        const fileItemsByPath = useMemo(() => {
+            const itemsByPath = new Map<string, ListPaneItem>();
+            if (!boardColumns && gridTileSize === null) {
+                return itemsByPath;
+            }
+            listItems.forEach(item => {
+                if (item.type === ListPaneItemType.FILE && item.data instanceof TFile) {
+                    itemsByPath.set(item.data.path, item);
+                }
+            });
+            return itemsByPath;
+        }, [boardColumns, gridTileSize, listItems]);
+
+        // Notify the API about the files listed in the pane
+        useEffect(() => {
+            plugin.api?.query.updateListedFiles(orderedFiles);
+        }, [plugin, orderedFiles]);
+
         // Determine the target folder path for drag-and-drop of external files
         const activeFolderDropPath = useMemo(() => {
             if (selectionType !== 'folder' || !selectedFolder) {
@@ -1356,7 +1399,7 @@ export const ListPane = React.memo(
 
         // Scroll to top handler for mobile header click
         // Get effective sort option for the current view
-        const effectiveSortOption = getEffectiveSortOption(settings, selectionType, selectedFolder, selectedTag);
+        const effectiveSortOption = getEffectiveSortOption(settings, selectionType, selectedFolder, selectedTag, selectedSmartFolder);
 
         // Create a stable onClick handler for FileItem that uses pre-calculated fileIndex
         const handleFileItemClick = useCallback(
@@ -1598,6 +1641,29 @@ export const ListPane = React.memo(
 
         renderCountRef.current++;
 
+        // Opens search with focus, or focuses the input when search is already open
+        const openOrFocusSearch = useCallback(() => {
+            if (isSearchActive) {
+                // Search is already open - just focus the search input
+                setTimeout(() => {
+                    const scope = props.rootContainerRef.current ?? document;
+                    const searchInput = scope.querySelector('.nn-search-input') as HTMLInputElement;
+                    if (searchInput) {
+                        searchInput.focus();
+                        uiDispatch({ type: 'SET_FOCUSED_PANE', pane: 'search' });
+                    }
+                }, 0);
+            } else {
+                // Opening search - activate with focus
+                setShouldFocusSearch(true);
+                setIsSearchActive(true);
+                if (uiState.singlePane) {
+                    uiDispatch({ type: 'SET_SINGLE_PANE_VIEW', view: 'files' });
+                }
+                uiDispatch({ type: 'SET_FOCUSED_PANE', pane: 'search' });
+            }
+        }, [isSearchActive, props.rootContainerRef, uiDispatch, setShouldFocusSearch, setIsSearchActive, uiState.singlePane]);
+
         // Expose the virtualizer instance and file lookup method via the ref
         const modifySearchWithTag = useCallback(
             (tag: string, operator: InclusionOperator) => {
@@ -1742,45 +1808,30 @@ export const ListPane = React.memo(
                 // Replace the active search query with a date token
                 modifySearchWithDateToken,
                 // Toggle search mode on/off or focus existing search
-                toggleSearch: () => {
-                    if (isSearchActive) {
-                        // Search is already open - just focus the search input
-                        setTimeout(() => {
-                            const scope = props.rootContainerRef.current ?? document;
-                            const searchInput = scope.querySelector('.nn-search-input') as HTMLInputElement;
-                            if (searchInput) {
-                                searchInput.focus();
-                                uiDispatch({ type: 'SET_FOCUSED_PANE', pane: 'search' });
-                            }
-                        }, 0);
-                    } else {
-                        // Opening search - activate with focus
-                        setShouldFocusSearch(true);
-                        setIsSearchActive(true);
-                        if (uiState.singlePane) {
-                            uiDispatch({ type: 'SET_SINGLE_PANE_VIEW', view: 'files' });
-                        }
-                        uiDispatch({ type: 'SET_FOCUSED_PANE', pane: 'search' });
+                toggleSearch: openOrFocusSearch,
+                executeSearchShortcut,
+                getFilterSearchQuery: () => {
+                    const normalizedQuery = searchQuery.trim();
+                    if (!isSearchActive || searchProvider !== 'internal' || !normalizedQuery) {
+                        return null;
                     }
-                },
-                executeSearchShortcut
+                    return normalizedQuery;
+                }
             }),
             [
                 filePathToIndex,
                 rowVirtualizer,
                 scrollContainerRef,
                 isSearchActive,
-                uiDispatch,
-                setIsSearchActive,
-                setShouldFocusSearch,
-                props.rootContainerRef,
-                uiState.singlePane,
+                openOrFocusSearch,
                 executeSearchShortcut,
                 selectFileFromList,
                 selectAdjacentFile,
                 modifySearchWithTag,
                 modifySearchWithProperty,
-                modifySearchWithDateToken
+                modifySearchWithDateToken,
+                searchProvider,
+                searchQuery
             ]
         );
 
@@ -1803,11 +1854,13 @@ export const ListPane = React.memo(
                 }),
             onScheduleKeyboardOpen: scheduleKeyboardSelectionOpen,
             onScheduleKeyboardOpenForFile: scheduleKeyboardSelectionOpenForFile,
-            onCommitKeyboardOpen: commitPendingKeyboardSelectionOpen
+            onCommitKeyboardOpen: commitPendingKeyboardSelectionOpen,
+            onOpenShortcut: props.onOpenShortcut,
+            onOpenSearch: openOrFocusSearch
         });
 
         // Determine if we're showing empty state
-        const isEmptySelection = !selectedFolder && !selectedTag && !selectedProperty;
+        const isEmptySelection = !selectedFolder && !selectedTag && !selectedProperty && !selectedSmartFolder;
         const hasNoFiles = files.length === 0;
 
         const shouldRenderBottomToolbar = isMobile && !isAndroid;
@@ -1862,7 +1915,9 @@ export const ListPane = React.memo(
                 <div className="nn-list-pane-panel">
                     <div
                         ref={scrollContainerRefCallback}
-                        className={`nn-list-pane-scroller ${!isEmptySelection && !hasNoFiles && isCompactMode ? 'nn-compact-mode' : ''}`}
+                        className={`nn-list-pane-scroller ${!isEmptySelection && !hasNoFiles && isCompactMode ? 'nn-compact-mode' : ''} ${
+                            !isEmptySelection && !hasNoFiles && boardColumns ? 'nn-board-mode' : ''
+                        } ${!isEmptySelection && !hasNoFiles && gridTileSize !== null ? 'nn-grid-mode' : ''}`}
                         // Drop zone type (folder or tag)
                         data-drop-zone={activeFolderDropPath ? 'folder' : undefined}
                         // Target path for the drop operation
@@ -1884,6 +1939,58 @@ export const ListPane = React.memo(
                                 <div className="nn-empty-state">
                                     <div className="nn-empty-message">{strings.listPane.emptyStateNoNotes}</div>
                                 </div>
+                            ) : gridTileSize !== null ? (
+                                <>
+                                    <div className="nn-list-top-spacer" style={{ height: `${topSpacerHeight}px` }} />
+                                    <ListPaneGrid
+                                        files={orderedFiles}
+                                        tileSize={gridTileSize}
+                                        titleRows={appearanceSettings.titleRows}
+                                        scrollContainerRef={scrollContainerRef}
+                                        selectedFilePath={selectedFile?.path ?? null}
+                                        renderTile={file => {
+                                            const item = fileItemsByPath.get(file.path);
+                                            return (
+                                                <FileGridTile
+                                                    file={file}
+                                                    isSelected={multiSelection.isFileSelected(file)}
+                                                    onFileClick={handleFileItemClick}
+                                                    fileIndex={item?.fileIndex}
+                                                    isHidden={Boolean(item?.isHidden)}
+                                                />
+                                            );
+                                        }}
+                                    />
+                                </>
+                            ) : boardColumns ? (
+                                <ListPaneBoard
+                                    columns={boardColumns}
+                                    propertyKey={boardProperty ?? ''}
+                                    renderCard={file => {
+                                        const item = fileItemsByPath.get(file.path);
+                                        return (
+                                            <FileItem
+                                                file={file}
+                                                isSelected={multiSelection.isFileSelected(file)}
+                                                onFileClick={handleFileItemClick}
+                                                fileIndex={item?.fileIndex}
+                                                selectionType={selectionType}
+                                                sortOption={effectiveSortOption}
+                                                parentFolder={item?.parentFolder}
+                                                isPinned={item?.isPinned}
+                                                searchQuery={searchHighlightQuery}
+                                                searchMeta={item?.searchMeta}
+                                                isHidden={Boolean(item?.isHidden)}
+                                                onModifySearchWithTag={modifySearchWithTag}
+                                                onModifySearchWithProperty={modifySearchWithProperty}
+                                                localDayReference={localDayReference}
+                                                fileIconSize={listMeasurements.fileIconSize}
+                                                visiblePropertyKeys={visibleListPropertyKeys}
+                                                visibleNavigationPropertyKeys={visibleNavigationPropertyKeys}
+                                            />
+                                        );
+                                    }}
+                                />
                             ) : (
                                 listItems.length > 0 && (
                                     <div
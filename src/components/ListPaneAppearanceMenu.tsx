@@ -16,30 +16,44 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Menu, TFolder } from 'obsidian';
+import { App, Menu, TFolder } from 'obsidian';
 import { strings } from '../i18n';
-import { FolderAppearance, getDefaultListMode, resolveListMode } from '../hooks/useListPaneAppearance';
+import {
+    FolderAppearance,
+    GRID_TILE_SIZES,
+    getBoardProperty,
+    getDefaultListMode,
+    getGridTileSize,
+    resolveListMode
+} from '../hooks/useListPaneAppearance';
 import type { NotePropertyType, ListDisplayMode, ListNoteGroupingOption } from '../settings/types';
 import { NotebookNavigatorSettings } from '../settings';
 import { ItemType } from '../types';
-import { resolveListGrouping } from '../utils/listGrouping';
+import { createPropertyGroupingOption, getListGroupingLabel, getPropertyGroupingKey, resolveListGrouping } from '../utils/listGrouping';
+import { InputModal } from '../modals/InputModal';
 import { runAsyncAction } from '../utils/async';
 import { resolveUXIconForMenu } from '../utils/uxIcons';
+import { findSmartFolder, updateActiveSmartFolder } from '../utils/smartFolders';
+import { getActiveSmartFolders } from '../utils/vaultProfiles';
 
 interface AppearanceMenuProps {
+    app: App;
     event: MouseEvent;
     settings: NotebookNavigatorSettings;
     selectedFolder: TFolder | null;
     selectedTag?: string | null;
+    selectedSmartFolder?: string | null;
     selectionType?: ItemType;
     updateSettings: (updater: (settings: NotebookNavigatorSettings) => void) => Promise<void>;
 }
 
 export function showListPaneAppearanceMenu({
+    app,
     event,
     settings,
     selectedFolder,
     selectedTag,
+    selectedSmartFolder,
     selectionType,
     updateSettings
 }: AppearanceMenuProps) {
@@ -75,6 +89,20 @@ export function showListPaneAppearanceMenu({
                     s.tagAppearances = newAppearances;
                 })
             );
+        } else if (selectionType === ItemType.SMART_FOLDER && selectedSmartFolder) {
+            // Update smart folder appearance
+            runAsyncAction(() =>
+                updateSettings(s => {
+                    updateActiveSmartFolder(s, selectedSmartFolder, folder => {
+                        const normalizedAppearance = normalizeAppearance({ ...folder.appearance, ...updates });
+                        if (Object.keys(normalizedAppearance).length === 0) {
+                            delete folder.appearance;
+                        } else {
+                            folder.appearance = normalizedAppearance;
+                        }
+                    });
+                })
+            );
         } else if (selectionType === ItemType.FOLDER && selectedFolder) {
             // Update folder appearance
             const folderPath = selectedFolder.path;
@@ -104,6 +132,8 @@ export function showListPaneAppearanceMenu({
         appearance = settings.tagAppearances?.[selectedTag];
     } else if (selectionType === ItemType.FOLDER && selectedFolder) {
         appearance = settings.folderAppearances?.[selectedFolder.path];
+    } else if (selectionType === ItemType.SMART_FOLDER && selectedSmartFolder) {
+        appearance = findSmartFolder(getActiveSmartFolders(settings), selectedSmartFolder)?.appearance;
     }
     const effectiveMode = resolveListMode({ appearance, defaultMode });
 
@@ -112,12 +142,15 @@ export function showListPaneAppearanceMenu({
         settings,
         selectionType,
         folderPath: selectedFolder ? selectedFolder.path : null,
-        tag: selectedTag ?? null
+        tag: selectedTag ?? null,
+        smartFolderAppearance: selectionType === ItemType.SMART_FOLDER ? appearance : undefined
     });
     const hasCustomGroupBy = groupingInfo.hasCustomOverride;
 
     const isStandard = effectiveMode === 'standard';
     const isCompact = effectiveMode === 'compact';
+    const isGrid = effectiveMode === 'grid';
+    const boardProperty = effectiveMode === 'board' ? getBoardProperty(appearance) : null;
 
     // Standard preset
     menu.addItem(item => {
@@ -128,7 +161,7 @@ export function showListPaneAppearanceMenu({
         item.setTitle(label)
             .setChecked(isStandard)
             .onClick(() => {
-                updateAppearance({ mode: 'standard' });
+                updateAppearance({ mode: 'standard', boardProperty: undefined, gridTileSize: undefined });
             });
     });
 
@@ -141,12 +174,61 @@ export function showListPaneAppearanceMenu({
         item.setTitle(label)
             .setChecked(isCompact)
             .onClick(() => {
-                updateAppearance({ mode: 'compact', previewRows: undefined });
+                updateAppearance({ mode: 'compact', previewRows: undefined, boardProperty: undefined, gridTileSize: undefined });
+            });
+    });
+
+    // Grid preset
+    menu.addItem(item => {
+        item.setTitle(strings.folderAppearance.gridPreset)
+            .setChecked(isGrid)
+            .onClick(() => {
+                updateAppearance({ mode: 'grid', previewRows: undefined, boardProperty: undefined });
+            });
+    });
+
+    // Board preset prompts for the property whose values become columns
+    menu.addItem(item => {
+        item.setTitle(boardProperty ? strings.folderAppearance.boardPresetOption(boardProperty) : strings.folderAppearance.boardPreset)
+            .setChecked(boardProperty !== null)
+            .onClick(() => {
+                new InputModal(
+                    app,
+                    strings.folderAppearance.boardPropertyAction,
+                    strings.folderAppearance.boardPropertyPlaceholder,
+                    value => {
+                        const propertyKey = value.trim();
+                        if (propertyKey.length > 0) {
+                            updateAppearance({ mode: 'board', boardProperty: propertyKey, gridTileSize: undefined });
+                        }
+                    },
+                    boardProperty ?? ''
+                ).open();
             });
     });
 
     menu.addSeparator();
 
+    if (isGrid) {
+        // Tile size header
+        menu.addItem(item => {
+            item.setTitle(strings.folderAppearance.tileSize).setIcon('lucide-layout-grid').setDisabled(true);
+        });
+
+        const currentTileSize = getGridTileSize(appearance);
+        (Object.keys(GRID_TILE_SIZES) as (keyof typeof GRID_TILE_SIZES)[]).forEach(size => {
+            menu.addItem(item => {
+                item.setTitle(`    ${strings.folderAppearance.tileSizeOptions[size]}`)
+                    .setChecked(currentTileSize === GRID_TILE_SIZES[size])
+                    .onClick(() => {
+                        updateAppearance({ gridTileSize: GRID_TILE_SIZES[size] });
+                    });
+            });
+        });
+
+        menu.addSeparator();
+    }
+
     // Title rows header
     menu.addItem(item => {
         item.setTitle(strings.folderAppearance.titleRows).setIcon('lucide-text').setDisabled(true);
@@ -175,7 +257,7 @@ export function showListPaneAppearanceMenu({
         });
     });
 
-    if (settings.showFilePreview && !isCompact) {
+    if (settings.showFilePreview && !isCompact && !isGrid) {
         menu.addSeparator();
 
         // Preview rows header
@@ -210,9 +292,10 @@ export function showListPaneAppearanceMenu({
 
     const isFolderSelection = selectionType === ItemType.FOLDER && Boolean(selectedFolder);
     const isTagSelection = selectionType === ItemType.TAG && Boolean(selectedTag);
+    const isSmartFolderSelection = selectionType === ItemType.SMART_FOLDER && Boolean(selectedSmartFolder);
 
-    // Add groupBy menu section for folders and tags
-    if (isFolderSelection || isTagSelection) {
+    // Add groupBy menu section for folders, tags and smart folders
+    if (isFolderSelection || isTagSelection || isSmartFolderSelection) {
         const getNotePropertyTypeLabel = (type: NotePropertyType): string => {
             switch (type) {
                 case 'wordCount':
@@ -266,7 +349,7 @@ export function showListPaneAppearanceMenu({
         });
 
         // Default grouping option (clears custom override)
-        const defaultGroupLabel = strings.settings.items.groupNotes.options[groupingInfo.defaultGrouping];
+        const defaultGroupLabel = getListGroupingLabel(groupingInfo.defaultGrouping);
 
         menu.addItem(item => {
             item.setTitle(`    ${strings.folderAppearance.defaultGroupOption(defaultGroupLabel)}`)
@@ -276,12 +359,14 @@ export function showListPaneAppearanceMenu({
                 });
         });
 
-        // Custom grouping options (folders support all three, tags only support none/date)
-        const groupOptions: ListNoteGroupingOption[] = isFolderSelection ? ['none', 'date', 'folder'] : ['none', 'date'];
+        // Custom grouping options (folder grouping is only available for folders)
+        const groupOptions: ListNoteGroupingOption[] = isFolderSelection
+            ? ['none', 'date', 'folder', 'tag', 'alphabetical']
+            : ['none', 'date', 'tag', 'alphabetical'];
         groupOptions.forEach(option => {
             menu.addItem(item => {
                 const isChecked = hasCustomGroupBy && groupingInfo.normalizedOverride === option;
-                const optionLabel = strings.settings.items.groupNotes.options[option];
+                const optionLabel = getListGroupingLabel(option);
                 item.setTitle(`    ${optionLabel}`)
                     .setChecked(isChecked)
                     .onClick(() => {
@@ -289,6 +374,30 @@ export function showListPaneAppearanceMenu({
                     });
             });
         });
+
+        // Property grouping prompts for the property key and shows the current key when active
+        const currentPropertyGroupKey = hasCustomGroupBy ? getPropertyGroupingKey(groupingInfo.normalizedOverride) : null;
+        menu.addItem(item => {
+            const label = currentPropertyGroupKey
+                ? getListGroupingLabel(createPropertyGroupingOption(currentPropertyGroupKey))
+                : strings.folderAppearance.groupByPropertyAction;
+            item.setTitle(`    ${label}`)
+                .setChecked(currentPropertyGroupKey !== null)
+                .onClick(() => {
+                    new InputModal(
+                        app,
+                        strings.folderAppearance.groupByPropertyAction,
+                        strings.folderAppearance.groupByPropertyPlaceholder,
+                        value => {
+                            const propertyKey = value.trim();
+                            if (propertyKey.length > 0) {
+                                updateAppearance({ groupBy: createPropertyGroupingOption(propertyKey) });
+                            }
+                        },
+                        currentPropertyGroupKey ?? ''
+                    ).open();
+                });
+        });
     }
 
     menu.showAtMouseEvent(event);
@@ -0,0 +1,66 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import React from 'react';
+import type { TFile } from 'obsidian';
+import type { ListBoardColumn } from '../utils/listBoard';
+
+interface ListPaneBoardProps {
+    columns: ListBoardColumn[];
+    /** Frontmatter property whose values define the columns */
+    propertyKey: string;
+    renderCard: (file: TFile) => React.ReactNode;
+}
+
+/**
+ * Renders the list pane as a board with one column per value of a frontmatter property.
+ * Columns are drop zones; dropping notes on a column rewrites the property (handled by useDragAndDrop).
+ */
+export function ListPaneBoard({ columns, propertyKey, renderCard }: ListPaneBoardProps) {
+    return (
+        <div className="nn-list-board">
+            {columns.map(column => (
+                <div
+                    key={`board-column:${column.key}`}
+                    className={`nn-list-board-column ${column.value === null ? 'nn-list-board-column--missing' : ''}`}
+                    // Drop zone type for board columns
+                    data-drop-zone="board-column"
+                    // Property written when notes are dropped on the column
+                    data-drop-path={propertyKey}
+                    // Column key used to skip notes that are already in the column
+                    data-board-column={column.key}
+                    // Value written to dropped notes; omitted on the column of notes without a value
+                    data-board-value={column.value === null ? undefined : String(column.value)}
+                    // Frontmatter type of the value so numbers and booleans are not written back as strings
+                    data-board-value-type={column.value === null ? undefined : typeof column.value}
+                >
+                    <div className="nn-list-board-column-header">
+                        <span className="nn-list-board-column-title">{column.label}</span>
+                        <span className="nn-list-board-column-count">{column.files.length}</span>
+                    </div>
+                    <div className="nn-list-board-column-cards">
+                        {column.files.map(file => (
+                            <div key={file.path} className="nn-list-board-card">
+                                {renderCard(file)}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+}
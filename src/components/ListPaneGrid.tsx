@@ -0,0 +1,150 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import type { TFile } from 'obsidian';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import type { CSSPropertiesWithVars } from '../types';
+
+// Gap between tiles in pixels (matches .nn-file-grid-row in list-grid.css)
+const GRID_GAP = 8;
+// Line height of tile names in pixels (matches .nn-file-grid-tile-name in list-grid.css)
+const GRID_NAME_LINE_HEIGHT = 18;
+// Space between the thumbnail and the name in pixels
+const GRID_NAME_PADDING = 6;
+
+interface ListPaneGridProps {
+    files: TFile[];
+    /** Tile width and thumbnail height in pixels */
+    tileSize: number;
+    /** Number of lines used for tile names */
+    titleRows: number;
+    scrollContainerRef: React.RefObject<HTMLDivElement | null>;
+    /** Path of the selected file, scrolled into view when it changes */
+    selectedFilePath: string | null;
+    renderTile: (file: TFile) => React.ReactNode;
+}
+
+/**
+ * Renders files as a virtualized grid of thumbnail tiles.
+ * Rows are virtualized against the list pane scroller, with the column count derived from the available width.
+ */
+export function ListPaneGrid({ files, tileSize, titleRows, scrollContainerRef, selectedFilePath, renderTile }: ListPaneGridProps) {
+    const gridRef = useRef<HTMLDivElement>(null);
+    const [gridWidth, setGridWidth] = useState(0);
+    const [scrollMargin, setScrollMargin] = useState(0);
+
+    // Track the grid width to derive the column count
+    useLayoutEffect(() => {
+        const element = gridRef.current;
+        if (!element) {
+            return;
+        }
+
+        const updateWidth = () => {
+            const nextWidth = element.clientWidth;
+            setGridWidth(prev => (prev === nextWidth ? prev : nextWidth));
+        };
+
+        updateWidth();
+
+        if (typeof ResizeObserver === 'undefined') {
+            window.addEventListener('resize', updateWidth);
+            return () => {
+                window.removeEventListener('resize', updateWidth);
+            };
+        }
+
+        const observer = new ResizeObserver(updateWidth);
+        observer.observe(element);
+        return () => {
+            observer.disconnect();
+        };
+    }, []);
+
+    // Offset of the grid within the scroller, so virtual rows line up below the content above the grid
+    useLayoutEffect(() => {
+        const element = gridRef.current;
+        const scroller = scrollContainerRef.current;
+        if (!element || !scroller) {
+            return;
+        }
+        const nextMargin = Math.max(0, element.getBoundingClientRect().top - scroller.getBoundingClientRect().top + scroller.scrollTop);
+        setScrollMargin(prev => (prev === nextMargin ? prev : nextMargin));
+    }, [files, gridWidth, scrollContainerRef]);
+
+    const columnCount = Math.max(1, Math.floor((gridWidth + GRID_GAP) / (tileSize + GRID_GAP)));
+    const rowCount = Math.ceil(files.length / columnCount);
+    const rowHeight = tileSize + GRID_NAME_PADDING + titleRows * GRID_NAME_LINE_HEIGHT + GRID_GAP;
+
+    const rowVirtualizer = useVirtualizer({
+        count: rowCount,
+        getScrollElement: () => scrollContainerRef.current,
+        estimateSize: () => rowHeight,
+        overscan: 3,
+        scrollMargin
+    });
+
+    // Row heights are fixed, so re-measure when the tile size or title rows change
+    useEffect(() => {
+        rowVirtualizer.measure();
+    }, [rowHeight, rowVirtualizer]);
+
+    // Keep the selected tile visible, e.g. during keyboard navigation
+    useEffect(() => {
+        if (!selectedFilePath) {
+            return;
+        }
+        const fileIndex = files.findIndex(file => file.path === selectedFilePath);
+        if (fileIndex === -1) {
+            return;
+        }
+        // Scroll after the list virtualizer has applied its own scroll position for the selection
+        const frame = window.requestAnimationFrame(() => {
+            rowVirtualizer.scrollToIndex(Math.floor(fileIndex / columnCount), { align: 'auto' });
+        });
+        return () => {
+            window.cancelAnimationFrame(frame);
+        };
+    }, [columnCount, files, rowVirtualizer, selectedFilePath]);
+
+    const gridStyle: CSSPropertiesWithVars = {
+        height: `${rowVirtualizer.getTotalSize()}px`,
+        '--nn-grid-tile-size': `${tileSize}px`,
+        '--nn-grid-title-rows': titleRows
+    };
+
+    return (
+        <div ref={gridRef} className="nn-file-grid" style={gridStyle}>
+            {rowVirtualizer.getVirtualItems().map(virtualRow => {
+                const rowFiles = files.slice(virtualRow.index * columnCount, (virtualRow.index + 1) * columnCount);
+                return (
+                    <div
+                        key={virtualRow.key}
+                        className="nn-file-grid-row"
+                        style={{ transform: `translateY(${virtualRow.start - scrollMargin}px)` }}
+                        data-index={virtualRow.index}
+                    >
+                        {rowFiles.map(file => (
+                            <React.Fragment key={file.path}>{renderTile(file)}</React.Fragment>
+                        ))}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
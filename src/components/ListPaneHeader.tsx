@@ -88,7 +88,9 @@ export function ListPaneHeader({
     const showAppearanceButton = listToolbarVisibility.appearance;
     const showNewNoteButton = listToolbarVisibility.newNote;
     const hasNavigationSelection = Boolean(selectionState.selectedFolder || selectionState.selectedTag || selectionState.selectedProperty);
-    const hasAppearanceOrSortSelection = Boolean(selectionState.selectedFolder || selectionState.selectedTag);
+    const hasAppearanceOrSortSelection = Boolean(
+        selectionState.selectedFolder || selectionState.selectedTag || selectionState.selectedSmartFolder
+    );
 
     const shouldRenderBreadcrumbSegments = isMobile;
     const shouldShowHeaderTitle = !isMobile && listPaneTitlePreference === 'header';
@@ -243,6 +245,8 @@ export function ListPaneHeader({
                         selectionDispatch({ type: 'SET_SELECTED_TAG', tag: normalizeTagPath(segment.targetPath) });
                     } else if (segment.targetType === 'property' && segment.targetPath) {
                         selectionDispatch({ type: 'SET_SELECTED_PROPERTY', nodeId: segment.targetPath });
+                    } else if (segment.targetType === 'smart-folder' && segment.targetPath) {
+                        selectionDispatch({ type: 'SET_SELECTED_SMART_FOLDER', smartFolderId: segment.targetPath });
                     }
                 };
 
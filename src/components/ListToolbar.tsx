@@ -56,7 +56,9 @@ export function ListToolbar({ isSearchActive, onSearchToggle }: ListToolbarProps
     const showAppearanceButton = listVisibility.appearance;
     const showNewNoteButton = listVisibility.newNote;
     const hasNavigationSelection = Boolean(selectionState.selectedFolder || selectionState.selectedTag || selectionState.selectedProperty);
-    const hasAppearanceOrSortSelection = Boolean(selectionState.selectedFolder || selectionState.selectedTag);
+    const hasAppearanceOrSortSelection = Boolean(
+        selectionState.selectedFolder || selectionState.selectedTag || selectionState.selectedSmartFolder
+    );
 
     const leftButtonCount = [showSearchButton, showDescendantsButton, showSortButton, showAppearanceButton].filter(Boolean).length;
     const totalButtonCount = leftButtonCount + (showNewNoteButton ? 1 : 0);
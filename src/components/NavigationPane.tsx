@@ -99,6 +99,7 @@ import {
     NavigationPaneItemType,
     ItemType,
     PROPERTIES_ROOT_VIRTUAL_FOLDER_ID,
+    SMART_FOLDERS_ROOT_VIRTUAL_FOLDER_ID,
     TAGS_ROOT_VIRTUAL_FOLDER_ID,
     TAGGED_TAG_ID,
     UNTAGGED_TAG_ID,
@@ -116,6 +117,7 @@ import { NavigationToolbar } from './NavigationToolbar';
 import { Calendar } from './calendar';
 import { TagTreeItem } from './TagTreeItem';
 import { PropertyTreeItem } from './PropertyTreeItem';
+import { SmartFolderItem } from './SmartFolderItem';
 import { VaultTitleArea } from './VaultTitleArea';
 import { VirtualFolderComponent, type VirtualFolderTrailingAction } from './VirtualFolderItem';
 import { buildIndentGuideLevelsMap, getNavigationIndex, normalizeNavigationPath } from '../utils/navigationIndex';
@@ -177,6 +179,8 @@ import { createFrontmatterPropertyExclusionMatcher, createHiddenFileNameMatcherF
 import { createHiddenTagVisibility } from '../utils/tagPrefixMatcher';
 import { getDBInstanceOrNull } from '../storage/fileOperations';
 import { getActiveVaultProfile } from '../utils/vaultProfiles';
+import { openCreateSmartFolderModal } from '../utils/smartFolderModalHelpers';
+import type { SmartFolder } from '../types/smartFolders';
 import {
     getDirectPropertyKeyNoteCount,
     getTotalPropertyNoteCount,
@@ -213,6 +217,8 @@ interface NavigationPaneProps {
     onModifySearchWithTag: (tag: string, operator: InclusionOperator) => void;
     onModifySearchWithProperty: (key: string, value: string | null, operator: InclusionOperator) => void;
     onModifySearchWithDateFilter: (dateToken: string) => void;
+    /** Opens or focuses the list pane search input */
+    onOpenSearch?: () => void;
 }
 
 // Default note count object used when counts are disabled or unavailable
@@ -990,6 +996,7 @@ export const NavigationPane = React.memo(
         // Get tag tree from file data cache
         const tagTree = fileData.tagTree;
         const propertyTree = fileData.propertyTree;
+        const propertyHierarchyTree = fileData.propertyHierarchyTree;
 
         useEffect(() => {
             expandedTagsRef.current = expansionState.expandedTags;
@@ -1029,6 +1036,14 @@ export const NavigationPane = React.memo(
                 });
             }
 
+            if (existingPropertyNodeIds && propertyHierarchyTree) {
+                const collectHierarchyNodeIds = (node: PropertyTreeNode) => {
+                    existingPropertyNodeIds.add(node.id);
+                    node.children.forEach(collectHierarchyNodeIds);
+                };
+                propertyHierarchyTree.forEach(collectHierarchyNodeIds);
+            }
+
             if (existingTags) {
                 expansionDispatch({ type: 'CLEANUP_DELETED_TAGS', existingTags });
             }
@@ -1036,7 +1051,7 @@ export const NavigationPane = React.memo(
             if (existingPropertyNodeIds) {
                 expansionDispatch({ type: 'CLEANUP_DELETED_PROPERTIES', existingPropertyNodeIds });
             }
-        }, [expansionDispatch, isStorageReady, propertyTree, tagTree]);
+        }, [expansionDispatch, isStorageReady, propertyHierarchyTree, propertyTree, tagTree]);
 
         // Use the new data hook - now returns filtered items and pathToIndex
         // Determine if shortcuts should be pinned based on UI state and settings
@@ -1055,6 +1070,7 @@ export const NavigationPane = React.memo(
             tagCounts,
             propertyCounts,
             folderCounts,
+            smartFolderCounts,
             rootLevelFolders,
             missingRootFolderPaths,
             resolvedRootTagKeys,
@@ -1142,23 +1158,28 @@ export const NavigationPane = React.memo(
             folderReorderItems,
             tagReorderItems,
             propertyReorderItems,
+            smartFolderReorderItems,
             canReorderSections,
             canReorderRootFolders,
             canReorderRootTags,
             canReorderRootProperties,
+            canReorderRootSmartFolders,
             canReorderRootItems,
             showRootFolderSection,
             showRootTagSection,
             showRootPropertySection,
+            showRootSmartFolderSection,
             resetRootTagOrderLabel,
             resetRootPropertyOrderLabel,
             handleResetRootFolderOrder,
             handleResetRootTagOrder,
             handleResetRootPropertyOrder,
+            handleResetRootSmartFolderOrder,
             reorderSectionOrder,
             reorderRootFolderOrder,
             reorderRootTagOrder,
-            reorderRootPropertyOrder
+            reorderRootPropertyOrder,
+            reorderRootSmartFolderOrder
         } = useNavigationRootReorder({
             app,
             items,
@@ -1281,7 +1302,9 @@ export const NavigationPane = React.memo(
                         ? ItemType.TAG
                         : selectionState.selectionType === ItemType.PROPERTY
                           ? ItemType.PROPERTY
-                          : ItemType.FOLDER;
+                          : selectionState.selectionType === ItemType.SMART_FOLDER
+                            ? ItemType.SMART_FOLDER
+                            : ItemType.FOLDER;
                 const normalizedPath = normalizeNavigationPath(itemType, selectedPath);
                 requestScroll(normalizedPath, { align: 'auto', itemType });
             }
@@ -1736,6 +1759,33 @@ export const NavigationPane = React.memo(
             ]
         );
 
+        // Selects a smart folder and toggles its children using the shared tree selection rules
+        const handleSmartFolderClick = useCallback(
+            (smartFolder: SmartFolder, hasChildren: boolean) => {
+                const isSelected =
+                    selectionState.selectionType === ItemType.SMART_FOLDER && selectionState.selectedSmartFolder === smartFolder.id;
+                applyTreeSelection({
+                    hasChildren,
+                    isExpanded: expansionState.expandedVirtualFolders.has(smartFolder.id),
+                    isSelected,
+                    onSelect: () => {
+                        selectionDispatch({ type: 'SET_SELECTED_SMART_FOLDER', smartFolderId: smartFolder.id });
+                    },
+                    onToggleExpand: () => {
+                        expansionDispatch({ type: 'TOGGLE_VIRTUAL_FOLDER_EXPANDED', folderId: smartFolder.id });
+                    }
+                });
+            },
+            [
+                applyTreeSelection,
+                expansionDispatch,
+                expansionState.expandedVirtualFolders,
+                selectionDispatch,
+                selectionState.selectedSmartFolder,
+                selectionState.selectionType
+            ]
+        );
+
         // Toggles shortcuts between pinned (always visible) and inline (in main list) display
         const handleShortcutSplitToggle = useCallback(() => {
             uiDispatch({ type: 'SET_PIN_SHORTCUTS', value: !uiState.pinShortcuts });
@@ -2158,6 +2208,7 @@ export const NavigationPane = React.memo(
                 const isShortcutsSection = sectionId === NavigationSectionId.SHORTCUTS;
                 const isTagSection = sectionId === NavigationSectionId.TAGS;
                 const isPropertySection = sectionId === NavigationSectionId.PROPERTIES;
+                const isSmartFolderSection = sectionId === NavigationSectionId.SMART_FOLDERS;
                 const target = { type: 'section', id: sectionId } as const;
                 const allowSeparator = options?.allowSeparator ?? true;
                 const hasSeparator = allowSeparator ? metadataService.hasNavigationSeparator(target) : false;
@@ -2181,6 +2232,28 @@ export const NavigationPane = React.memo(
                     menu.addSeparator();
                 }
 
+                if (isSmartFolderSection) {
+                    menu.addItem(item => {
+                        item.setTitle(strings.contextMenu.smartFolder.newSmartFolder)
+                            .setIcon('lucide-folder-plus')
+                            .onClick(() => {
+                                openCreateSmartFolderModal({
+                                    app,
+                                    plugin,
+                                    onCreated: folder => {
+                                        expansionDispatch({
+                                            type: 'EXPAND_VIRTUAL_FOLDERS',
+                                            folderIds: [SMART_FOLDERS_ROOT_VIRTUAL_FOLDER_ID]
+                                        });
+                                        selectionDispatch({ type: 'SET_SELECTED_SMART_FOLDER', smartFolderId: folder.id });
+                                    }
+                                });
+                            });
+                    });
+                    hasActions = true;
+                    menu.addSeparator();
+                }
+
                 if (isTagSection || isPropertySection) {
                     menu.addItem(item => {
                         if (rootShortcutKey) {
@@ -2318,11 +2391,13 @@ export const NavigationPane = React.memo(
             [
                 app,
                 clearShortcuts,
+                expansionDispatch,
                 handleShortcutSplitToggle,
                 handleConfigurePropertyKeysFromSectionMenu,
                 metadataService,
                 pinToggleLabel,
-                plugin.manifest.id,
+                plugin,
+                selectionDispatch,
                 settings.interfaceIcons,
                 tagShortcutKeysByPath,
                 propertyShortcutKeysByNodeId,
@@ -3016,7 +3091,9 @@ export const NavigationPane = React.memo(
                                 ? NavigationSectionId.TAGS
                                 : virtualFolder.id === PROPERTIES_ROOT_VIRTUAL_FOLDER_ID
                                   ? NavigationSectionId.PROPERTIES
-                                  : null;
+                                  : virtualFolder.id === SMART_FOLDERS_ROOT_VIRTUAL_FOLDER_ID
+                                    ? NavigationSectionId.SMART_FOLDERS
+                                    : null;
 
                         const shouldDisableFirstSectionMenu =
                             shouldPinShortcuts && sectionId !== null && firstSectionId !== null && sectionId === firstSectionId;
@@ -3201,6 +3278,28 @@ export const NavigationPane = React.memo(
                         );
                     }
 
+                    case NavigationPaneItemType.SMART_FOLDER: {
+                        const smartFolder = item.data;
+                        return (
+                            <SmartFolderItem
+                                smartFolder={smartFolder}
+                                level={item.level}
+                                indentGuideLevels={indentGuideLevelsByKey.get(item.key)}
+                                isExpanded={expansionState.expandedVirtualFolders.has(smartFolder.id)}
+                                isSelected={
+                                    selectionState.selectionType === ItemType.SMART_FOLDER &&
+                                    selectionState.selectedSmartFolder === smartFolder.id
+                                }
+                                hasChildren={item.hasChildren}
+                                onToggle={() => handleVirtualFolderToggle(smartFolder.id)}
+                                onClick={() => handleSmartFolderClick(smartFolder, item.hasChildren)}
+                                countInfo={smartFolderCounts.get(smartFolder.id)}
+                                showFileCount={settings.showNoteCount}
+                                icon={item.icon}
+                            />
+                        );
+                    }
+
                     case NavigationPaneItemType.TOP_SPACER: {
                         const spacerClass = item.hasSeparator ? 'nn-nav-top-spacer nn-nav-spacer--with-separator' : 'nn-nav-top-spacer';
                         return <div className={spacerClass} />;
@@ -3232,6 +3331,7 @@ export const NavigationPane = React.memo(
                 selectionState.selectedFolder?.path,
                 selectionState.selectedTag,
                 selectionState.selectedProperty,
+                selectionState.selectedSmartFolder,
                 handleFolderToggle,
                 handleFolderClick,
                 handleFolderNameClick,
@@ -3240,6 +3340,7 @@ export const NavigationPane = React.memo(
                 handlePropertyToggle,
                 handleTagClick,
                 handlePropertyClick,
+                handleSmartFolderClick,
                 handleTagCollectionClick,
                 handlePropertyCollectionClick,
                 handleSectionContextMenu,
@@ -3256,6 +3357,7 @@ export const NavigationPane = React.memo(
                 folderCounts,
                 tagCounts,
                 propertyCounts,
+                smartFolderCounts,
                 getFolderShortcutCount,
                 getTagShortcutCount,
                 getPropertyShortcutCount,
@@ -3314,69 +3416,55 @@ export const NavigationPane = React.memo(
             prevShowAllTagsFolder.current = settings.showAllTagsFolder;
         }, [settings.showAllTagsFolder, expansionState.expandedVirtualFolders, expansionDispatch]);
 
-        // Expose the virtualizer instance, path lookup method, and scroll container via the ref
-        useImperativeHandle(
-            ref,
-            () => ({
-                getIndexOfPath: (itemType: ItemType, path: string) => {
-                    const index = getNavigationIndex(pathToIndex, itemType, path);
-                    return index ?? -1;
-                },
-                virtualizer: rowVirtualizer,
-                scrollContainerRef: scrollContainerRef.current,
-                requestScroll,
-                openShortcutByNumber: async (shortcutNumber: number) => {
-                    if (!Number.isInteger(shortcutNumber) || shortcutNumber < 1) {
-                        return false;
-                    }
+        // Opens a shortcut by its 1-based position; shared by the ref handle and pane keyboard actions
+        const openShortcutByNumber = useCallback(
+            async (shortcutNumber: number): Promise<boolean> => {
+                if (!Number.isInteger(shortcutNumber) || shortcutNumber < 1) {
+                    return false;
+                }
 
-                    const entry = hydratedShortcuts[shortcutNumber - 1];
-                    if (!entry || entry.isMissing) {
-                        return false;
-                    }
+                const entry = hydratedShortcuts[shortcutNumber - 1];
+                if (!entry || entry.isMissing) {
+                    return false;
+                }
 
-                    const { key, shortcut, folder, note, search, tagPath, propertyNodeId } = entry;
+                const { key, shortcut, folder, note, search, tagPath, propertyNodeId } = entry;
 
-                    if (isFolderShortcut(shortcut) && folder) {
-                        handleShortcutFolderActivate(folder, key);
-                        return true;
-                    }
+                if (isFolderShortcut(shortcut) && folder) {
+                    handleShortcutFolderActivate(folder, key);
+                    return true;
+                }
 
-                    if (isNoteShortcut(shortcut) && note) {
-                        handleShortcutNoteActivate(note, key);
-                        return true;
-                    }
+                if (isNoteShortcut(shortcut) && note) {
+                    handleShortcutNoteActivate(note, key);
+                    return true;
+                }
 
-                    if (isSearchShortcut(shortcut)) {
-                        handleShortcutSearchActivate(key, search ?? shortcut);
-                        return true;
-                    }
+                if (isSearchShortcut(shortcut)) {
+                    handleShortcutSearchActivate(key, search ?? shortcut);
+                    return true;
+                }
 
-                    if (isTagShortcut(shortcut)) {
-                        const resolvedTagPath = tagPath ?? shortcut.tagPath;
-                        if (!resolvedTagPath) {
-                            return false;
-                        }
-                        handleShortcutTagActivate(resolvedTagPath, key);
-                        return true;
+                if (isTagShortcut(shortcut)) {
+                    const resolvedTagPath = tagPath ?? shortcut.tagPath;
+                    if (!resolvedTagPath) {
+                        return false;
                     }
+                    handleShortcutTagActivate(resolvedTagPath, key);
+                    return true;
+                }
 
-                    if (isPropertyShortcut(shortcut)) {
-                        const resolvedNodeId = resolvePropertyShortcutNodeId(propertyNodeId, shortcut.nodeId);
-                        if (!resolvedNodeId) {
-                            return false;
-                        }
-                        return handleShortcutPropertyActivate(resolvedNodeId, key);
+                if (isPropertyShortcut(shortcut)) {
+                    const resolvedNodeId = resolvePropertyShortcutNodeId(propertyNodeId, shortcut.nodeId);
+                    if (!resolvedNodeId) {
+                        return false;
                     }
-
-                    return false;
+                    return handleShortcutPropertyActivate(resolvedNodeId, key);
                 }
-            }),
+
+                return false;
+            },
             [
-                pathToIndex,
-                rowVirtualizer,
-                requestScroll,
-                scrollContainerRef,
                 hydratedShortcuts,
                 handleShortcutFolderActivate,
                 handleShortcutNoteActivate,
@@ -3386,6 +3474,22 @@ export const NavigationPane = React.memo(
             ]
         );
 
+        // Expose the virtualizer instance, path lookup method, and scroll container via the ref
+        useImperativeHandle(
+            ref,
+            () => ({
+                getIndexOfPath: (itemType: ItemType, path: string) => {
+                    const index = getNavigationIndex(pathToIndex, itemType, path);
+                    return index ?? -1;
+                },
+                virtualizer: rowVirtualizer,
+                scrollContainerRef: scrollContainerRef.current,
+                requestScroll,
+                openShortcutByNumber
+            }),
+            [pathToIndex, rowVirtualizer, requestScroll, scrollContainerRef, openShortcutByNumber]
+        );
+
         // Add keyboard navigation
         // Note: We pass the root container ref, not the scroll container ref.
         // This ensures keyboard events work across the entire navigator, allowing
@@ -3397,7 +3501,9 @@ export const NavigationPane = React.memo(
             items: keyboardItems,
             virtualizer: rowVirtualizer,
             containerRef: props.rootContainerRef,
-            pathToIndex: keyboardPathToIndex
+            pathToIndex: keyboardPathToIndex,
+            onOpenShortcut: openShortcutByNumber,
+            onOpenSearch: props.onOpenSearch
         });
 
         const navigationPaneStyle = useMemo<CSSPropertiesWithVars>(() => {
@@ -3494,28 +3600,34 @@ export const NavigationPane = React.memo(
                                         folderItems={folderReorderItems}
                                         tagItems={tagReorderItems}
                                         propertyItems={propertyReorderItems}
+                                        smartFolderItems={smartFolderReorderItems}
                                         showRootFolderSection={showRootFolderSection}
                                         showRootTagSection={showRootTagSection}
                                         showRootPropertySection={showRootPropertySection}
+                                        showRootSmartFolderSection={showRootSmartFolderSection}
                                         foldersSectionExpanded={foldersSectionExpanded}
                                         tagsSectionExpanded={tagsSectionExpanded}
                                         propertiesSectionExpanded={propertiesSectionExpanded}
                                         showRootFolderReset={settings.rootFolderOrder.length > 0}
                                         showRootTagReset={settings.rootTagOrder.length > 0}
                                         showRootPropertyReset={settings.rootPropertyOrder.length > 0}
+                                        showRootSmartFolderReset={(activeProfile.profile.smartFolderOrder ?? []).length > 0}
                                         resetRootTagOrderLabel={resetRootTagOrderLabel}
                                         resetRootPropertyOrderLabel={resetRootPropertyOrderLabel}
                                         onResetRootFolderOrder={handleResetRootFolderOrder}
                                         onResetRootTagOrder={handleResetRootTagOrder}
                                         onResetRootPropertyOrder={handleResetRootPropertyOrder}
+                                        onResetRootSmartFolderOrder={handleResetRootSmartFolderOrder}
                                         onReorderSections={reorderSectionOrder}
                                         onReorderFolders={reorderRootFolderOrder}
                                         onReorderTags={reorderRootTagOrder}
                                         onReorderProperties={reorderRootPropertyOrder}
+                                        onReorderSmartFolders={reorderRootSmartFolderOrder}
                                         canReorderSections={canReorderSections}
                                         canReorderFolders={canReorderRootFolders}
                                         canReorderTags={canReorderRootTags}
                                         canReorderProperties={canReorderRootProperties}
+                                        canReorderSmartFolders={canReorderRootSmartFolders}
                                         isMobile={isMobile}
                                     />
                                 ) : (
@@ -38,29 +38,35 @@ interface NavigationRootReorderPanelProps {
     folderItems: RootReorderRenderItem[];
     tagItems: RootReorderRenderItem[];
     propertyItems: RootReorderRenderItem[];
+    smartFolderItems: RootReorderRenderItem[];
     isMobile: boolean;
     showRootFolderSection: boolean;
     showRootTagSection: boolean;
     showRootPropertySection: boolean;
+    showRootSmartFolderSection: boolean;
     foldersSectionExpanded: boolean;
     tagsSectionExpanded: boolean;
     propertiesSectionExpanded: boolean;
     showRootFolderReset: boolean;
     showRootTagReset: boolean;
     showRootPropertyReset: boolean;
+    showRootSmartFolderReset: boolean;
     resetRootTagOrderLabel: string;
     resetRootPropertyOrderLabel: string;
     onResetRootFolderOrder: () => Promise<void> | void;
     onResetRootTagOrder: () => Promise<void> | void;
     onResetRootPropertyOrder: () => Promise<void> | void;
+    onResetRootSmartFolderOrder: () => Promise<void> | void;
     onReorderSections: (orderedKeys: NavigationSectionId[]) => Promise<void> | void;
     onReorderFolders: (orderedKeys: string[]) => Promise<void> | void;
     onReorderTags: (orderedKeys: string[]) => Promise<void> | void;
     onReorderProperties: (orderedKeys: string[]) => Promise<void> | void;
+    onReorderSmartFolders: (orderedKeys: string[]) => Promise<void> | void;
     canReorderSections: boolean;
     canReorderFolders: boolean;
     canReorderTags: boolean;
     canReorderProperties: boolean;
+    canReorderSmartFolders: boolean;
 }
 
 const RESET_FOLDER_LABEL = strings.navigationPane.resetRootToAlpha;
@@ -157,29 +163,35 @@ export function NavigationRootReorderPanel({
     folderItems,
     tagItems,
     propertyItems,
+    smartFolderItems,
     isMobile,
     showRootFolderSection,
     showRootTagSection,
     showRootPropertySection,
+    showRootSmartFolderSection,
     foldersSectionExpanded,
     tagsSectionExpanded,
     propertiesSectionExpanded,
     showRootFolderReset,
     showRootTagReset,
     showRootPropertyReset,
+    showRootSmartFolderReset,
     resetRootTagOrderLabel,
     resetRootPropertyOrderLabel,
     onResetRootFolderOrder,
     onResetRootTagOrder,
     onResetRootPropertyOrder,
+    onResetRootSmartFolderOrder,
     onReorderSections,
     onReorderFolders,
     onReorderTags,
     onReorderProperties,
+    onReorderSmartFolders,
     canReorderSections,
     canReorderFolders,
     canReorderTags,
-    canReorderProperties
+    canReorderProperties,
+    canReorderSmartFolders
 }: NavigationRootReorderPanelProps) {
     const handleResetFolders = useCallback(
         (event: React.MouseEvent<HTMLButtonElement>) => {
@@ -214,6 +226,17 @@ export function NavigationRootReorderPanel({
         [onResetRootPropertyOrder]
     );
 
+    const handleResetSmartFolders = useCallback(
+        (event: React.MouseEvent<HTMLButtonElement>) => {
+            event.preventDefault();
+            event.stopPropagation();
+            runAsyncAction(async () => {
+                await onResetRootSmartFolderOrder();
+            });
+        },
+        [onResetRootSmartFolderOrder]
+    );
+
     const sectionEntries = useMemo<SectionEntry[]>(() => {
         return sectionItems.map(item => ({
             id: item.key as NavigationSectionId,
@@ -242,8 +265,15 @@ export function NavigationRootReorderPanel({
         }));
     }, [propertyItems]);
 
+    const smartFolderEntries = useMemo<RootSortableEntry[]>(() => {
+        return smartFolderItems.map(item => ({
+            sortableId: `smart-folder:${item.key}`,
+            item
+        }));
+    }, [smartFolderItems]);
+
     const sortableRegistry = useMemo(() => {
-        const map = new Map<string, { type: 'folder' | 'tag' | 'property'; key: string }>();
+        const map = new Map<string, { type: 'folder' | 'tag' | 'property' | 'smart-folder'; key: string }>();
         folderEntries.forEach(entry => {
             map.set(entry.sortableId, { type: 'folder', key: entry.item.key });
         });
@@ -253,13 +283,17 @@ export function NavigationRootReorderPanel({
         propertyEntries.forEach(entry => {
             map.set(entry.sortableId, { type: 'property', key: entry.item.key });
         });
+        smartFolderEntries.forEach(entry => {
+            map.set(entry.sortableId, { type: 'smart-folder', key: entry.item.key });
+        });
         return map;
-    }, [folderEntries, propertyEntries, tagEntries]);
+    }, [folderEntries, propertyEntries, smartFolderEntries, tagEntries]);
 
     const sectionIds = useMemo(() => sectionEntries.map(entry => entry.id), [sectionEntries]);
     const folderIds = useMemo(() => folderEntries.map(entry => entry.item.key), [folderEntries]);
     const tagIds = useMemo(() => tagEntries.map(entry => entry.item.key), [tagEntries]);
     const propertyIds = useMemo(() => propertyEntries.map(entry => entry.item.key), [propertyEntries]);
+    const smartFolderIds = useMemo(() => smartFolderEntries.map(entry => entry.item.key), [smartFolderEntries]);
     const sectionIndexMap = useMemo(() => {
         return new Map<NavigationSectionId, number>(sectionIds.map((id, index) => [id, index]));
     }, [sectionIds]);
@@ -316,11 +350,30 @@ export function NavigationRootReorderPanel({
         [canReorderProperties, onReorderProperties, propertyIds]
     );
 
+    const handleSmartFolderDragEnd = useCallback(
+        (activeKey: string, overKey: string) => {
+            if (!canReorderSmartFolders) {
+                return;
+            }
+            const oldIndex = smartFolderIds.indexOf(activeKey);
+            const newIndex = smartFolderIds.indexOf(overKey);
+            if (oldIndex === -1 || newIndex === -1 || oldIndex === newIndex) {
+                return;
+            }
+            const next = arrayMove(smartFolderIds, oldIndex, newIndex);
+            runAsyncAction(async () => {
+                await onReorderSmartFolders(next);
+            });
+        },
+        [canReorderSmartFolders, onReorderSmartFolders, smartFolderIds]
+    );
+
     const hasSortableContent =
         sectionEntries.length > 0 ||
         (showRootFolderSection && folderEntries.length > 0) ||
         (showRootTagSection && tagEntries.length > 0) ||
-        (showRootPropertySection && propertyEntries.length > 0);
+        (showRootPropertySection && propertyEntries.length > 0) ||
+        (showRootSmartFolderSection && smartFolderEntries.length > 0);
 
     const handleDragEnd = useCallback(
         (event: DragEndEvent) => {
@@ -371,9 +424,24 @@ export function NavigationRootReorderPanel({
                 return;
             }
 
+            if (active.type === 'smart-folder') {
+                handleSmartFolderDragEnd(active.key, over.key);
+                return;
+            }
+
             handlePropertyDragEnd(active.key, over.key);
         },
-        [canReorderFolders, canReorderTags, folderIds, handlePropertyDragEnd, onReorderFolders, onReorderTags, sortableRegistry, tagIds]
+        [
+            canReorderFolders,
+            canReorderTags,
+            folderIds,
+            handlePropertyDragEnd,
+            handleSmartFolderDragEnd,
+            onReorderFolders,
+            onReorderTags,
+            sortableRegistry,
+            tagIds
+        ]
     );
 
     return (
@@ -430,6 +498,8 @@ export function NavigationRootReorderPanel({
                                     item.sectionId === NavigationSectionId.PROPERTIES &&
                                     propertiesSectionExpanded &&
                                     showRootPropertySection;
+                                const shouldRenderSmartFolders =
+                                    item.sectionId === NavigationSectionId.SMART_FOLDERS && showRootSmartFolderSection;
 
                                 return (
                                     <div key={`section:${item.key}`} className="nn-root-reorder-section">
@@ -458,6 +528,18 @@ export function NavigationRootReorderPanel({
                                                 ) : null}
                                             </SortableList>
                                         ) : null}
+
+                                        {shouldRenderSmartFolders && smartFolderEntries.length > 0 ? (
+                                            <SortableList
+                                                entries={smartFolderEntries}
+                                                canReorder={canReorderSmartFolders}
+                                                isMobile={isMobile}
+                                            >
+                                                {showRootSmartFolderReset ? (
+                                                    <ResetAction label={RESET_FOLDER_LABEL} onClick={handleResetSmartFolders} />
+                                                ) : null}
+                                            </SortableList>
+                                        ) : null}
                                     </div>
                                 );
                             })
@@ -492,6 +574,16 @@ export function NavigationRootReorderPanel({
                                         </SortableList>
                                     </div>
                                 ) : null}
+
+                                {showRootSmartFolderSection && smartFolderEntries.length > 0 ? (
+                                    <div className="nn-root-reorder-section">
+                                        <SortableList entries={smartFolderEntries} canReorder={canReorderSmartFolders} isMobile={isMobile}>
+                                            {showRootSmartFolderReset ? (
+                                                <ResetAction label={RESET_FOLDER_LABEL} onClick={handleResetSmartFolders} />
+                                            ) : null}
+                                        </SortableList>
+                                    </div>
+                                ) : null}
                             </>
                         )}
                     </DndContext>
@@ -19,6 +19,7 @@
 // src/components/NotebookNavigatorComponent.tsx
 import React, { useEffect, useImperativeHandle, forwardRef, useRef, useState, useCallback, useLayoutEffect, useMemo } from 'react';
 import { TFile, TFolder } from 'obsidian';
+import { useExpansionDispatch } from '../context/ExpansionContext';
 import { useSelectionState, useSelectionDispatch, resolvePrimarySelectedFile } from '../context/SelectionContext';
 import { useServices } from '../context/ServicesContext';
 import { useSettingsState } from '../context/SettingsContext';
@@ -44,6 +45,7 @@ import {
     ItemType,
     NAVPANE_MEASUREMENTS,
     PROPERTIES_ROOT_VIRTUAL_FOLDER_ID,
+    SMART_FOLDERS_ROOT_VIRTUAL_FOLDER_ID,
     TAGGED_TAG_ID,
     UNTAGGED_TAG_ID,
     type BackgroundMode,
@@ -58,6 +60,7 @@ import { getNavigationPaneSizing } from '../utils/paneSizing';
 import { getAndroidFontScale } from '../utils/androidFontScale';
 import { getBackgroundClasses } from '../utils/paneLayout';
 import { confirmRemoveAllTagsFromFiles, openAddTagToFilesModal, removeTagFromFilesWithPrompt } from '../utils/tagModalHelpers';
+import { openCreateSmartFolderModal } from '../utils/smartFolderModalHelpers';
 import { normalizeTagPath } from '../utils/tagUtils';
 import { getTemplaterCreateNewNoteFromTemplate } from '../utils/templaterIntegration';
 import { normalizePropertyNodeId } from '../utils/propertyTree';
@@ -112,7 +115,9 @@ export interface NotebookNavigatorHandle {
     addTagToSelectedFiles: () => Promise<void>;
     removeTagFromSelectedFiles: () => Promise<void>;
     removeAllTagsFromSelectedFiles: () => Promise<void>;
+    editPropertiesOfSelectedFiles: () => void;
     toggleSearch: () => void;
+    createSmartFolderFromSearch: () => void;
     triggerCollapse: () => void;
     stopContentProcessing: () => void;
     rebuildCache: () => Promise<void>;
@@ -133,7 +138,17 @@ export interface NotebookNavigatorHandle {
  */
 export const NotebookNavigatorComponent = React.memo(
     forwardRef<NotebookNavigatorHandle>(function NotebookNavigatorComponent(_, ref) {
-        const { app, isMobile, fileSystemOps, plugin, tagTreeService, propertyTreeService, commandQueue, tagOperations } = useServices();
+        const {
+            app,
+            isMobile,
+            fileSystemOps,
+            plugin,
+            tagTreeService,
+            propertyTreeService,
+            commandQueue,
+            tagOperations,
+            propertyOperations
+        } = useServices();
         const settings = useSettingsState();
         const uxPreferences = useUXPreferences();
         const uxRef = useRef(uxPreferences);
@@ -161,6 +176,7 @@ export const NotebookNavigatorComponent = React.memo(
         } = getNavigationPaneSizing(orientation);
         const selectionState = useSelectionState();
         const selectionDispatch = useSelectionDispatch();
+        const expansionDispatch = useExpansionDispatch();
         const uiState = useUIState();
         const uiDispatch = useUIDispatch();
         const {
@@ -245,10 +261,23 @@ export const NotebookNavigatorComponent = React.memo(
             listPaneRef.current?.modifySearchWithTag(tag, operator);
         }, []);
 
+        const handleOpenSearch = useCallback(() => {
+            listPaneRef.current?.toggleSearch();
+        }, []);
+
         const handleModifySearchWithProperty = useCallback((key: string, value: string | null, operator: InclusionOperator) => {
             listPaneRef.current?.modifySearchWithProperty(key, value, operator);
         }, []);
 
+        // Lets list pane keyboard actions jump to shortcuts owned by the navigation pane
+        const handleOpenShortcut = useCallback((shortcutNumber: number) => {
+            const navHandle = navigationPaneRef.current;
+            if (!navHandle) {
+                return Promise.resolve(false);
+            }
+            return navHandle.openShortcutByNumber(shortcutNumber);
+        }, []);
+
         const handleModifySearchWithDateFilter = useCallback((dateToken: string) => {
             listPaneRef.current?.modifySearchWithDateToken(dateToken);
         }, []);
@@ -520,7 +549,9 @@ export const NotebookNavigatorComponent = React.memo(
                     ? ItemType.TAG
                     : selectionState.selectionType === ItemType.PROPERTY
                       ? ItemType.PROPERTY
-                      : ItemType.FOLDER;
+                      : selectionState.selectionType === ItemType.SMART_FOLDER
+                        ? ItemType.SMART_FOLDER
+                        : ItemType.FOLDER;
             const normalizedPath = normalizeNavigationPath(itemType, selectedPath);
             navigationPaneRef.current?.requestScroll(normalizedPath, {
                 align: 'auto',
@@ -641,13 +672,7 @@ export const NotebookNavigatorComponent = React.memo(
                 // Select adjacent files via command palette actions
                 selectNextFile: async () => navigateToAdjacentFile('next'),
                 selectPreviousFile: async () => navigateToAdjacentFile('previous'),
-                openShortcutByNumber: (shortcutNumber: number) => {
-                    const navHandle = navigationPaneRef.current;
-                    if (!navHandle) {
-                        return Promise.resolve(false);
-                    }
-                    return navHandle.openShortcutByNumber(shortcutNumber);
-                },
+                openShortcutByNumber: handleOpenShortcut,
                 // Delete focused file based on current pane (files or navigation)
                 deleteActiveFile: () => {
                     runAsyncAction(async () => {
@@ -926,9 +951,34 @@ export const NotebookNavigatorComponent = React.memo(
                         files: selectedFiles
                     });
                 },
+                editPropertiesOfSelectedFiles: () => {
+                    if (!propertyOperations) {
+                        showNotice(strings.fileSystem.notifications.propertyOperationsNotAvailable, { variant: 'warning' });
+                        return;
+                    }
+
+                    const selectedFiles = getSelectedFiles();
+                    if (selectedFiles.length === 0) {
+                        showNotice(strings.fileSystem.notifications.noFilesSelected, { variant: 'warning' });
+                        return;
+                    }
+
+                    propertyOperations.promptEditPropertyValues(selectedFiles);
+                },
                 toggleSearch: () => {
                     listPaneRef.current?.toggleSearch();
                 },
+                createSmartFolderFromSearch: () => {
+                    openCreateSmartFolderModal({
+                        app,
+                        plugin,
+                        initialQuery: listPaneRef.current?.getFilterSearchQuery() ?? undefined,
+                        onCreated: folder => {
+                            expansionDispatch({ type: 'EXPAND_VIRTUAL_FOLDERS', folderIds: [SMART_FOLDERS_ROOT_VIRTUAL_FOLDER_ID] });
+                            selectionDispatch({ type: 'SET_SELECTED_SMART_FOLDER', smartFolderId: folder.id });
+                        }
+                    });
+                },
                 triggerCollapse: () => {
                     handleExpandCollapseAll();
                     // Request scroll to selected item after collapse/expand
@@ -943,6 +993,7 @@ export const NotebookNavigatorComponent = React.memo(
             selectionState,
             fileSystemOps,
             selectionDispatch,
+            expansionDispatch,
             navigateToFolder,
             navigateToTag,
             navigateToProperty,
@@ -957,9 +1008,9 @@ export const NotebookNavigatorComponent = React.memo(
             focusPane,
             focusNavigationPaneCallback,
             tagOperations,
+            propertyOperations,
             handleExpandCollapseAll,
             ensureSelectedNavigationItemVisible,
-            navigationPaneRef,
             folderShortcutKeysByPath,
             noteShortcutKeysByPath,
             tagShortcutKeysByPath,
@@ -969,7 +1020,8 @@ export const NotebookNavigatorComponent = React.memo(
             propertyShortcutKeysByNodeId,
             addPropertyShortcut,
             removeShortcut,
-            handleModifySearchWithDateFilter
+            handleModifySearchWithDateFilter,
+            handleOpenShortcut
         ]);
 
         // Add platform class and background mode classes
@@ -1131,6 +1183,7 @@ export const NotebookNavigatorComponent = React.memo(
                         onModifySearchWithTag={handleModifySearchWithTag}
                         onModifySearchWithProperty={handleModifySearchWithProperty}
                         onModifySearchWithDateFilter={handleModifySearchWithDateFilter}
+                        onOpenSearch={handleOpenSearch}
                     />
                     <ListPane
                         ref={listPaneRef}
@@ -1139,6 +1192,7 @@ export const NotebookNavigatorComponent = React.memo(
                         onNavigateToFolder={navigateToFolder}
                         onRevealTag={revealTag}
                         onRevealProperty={revealProperty}
+                        onOpenShortcut={handleOpenShortcut}
                         resizeHandleProps={!uiState.singlePane ? resizeHandleProps : undefined}
                     />
                     {shouldRenderSinglePaneCalendar ? (
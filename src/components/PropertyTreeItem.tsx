@@ -25,6 +25,7 @@ import { ItemType, type CSSPropertiesWithVars } from '../types';
 import type { NoteCountInfo } from '../types/noteCounts';
 import type { PropertyTreeNode } from '../types/storage';
 import { buildNoteCountDisplay, buildSortableNoteCountDisplay } from '../utils/noteCountFormatting';
+import { isPropertyHierarchyNodeId } from '../utils/propertyTree';
 import { buildSearchMatchContentClass } from '../utils/searchHighlight';
 import { resolveUXIcon } from '../utils/uxIcons';
 import { IndentGuideColumns } from './IndentGuideColumns';
@@ -99,6 +100,9 @@ export const PropertyTreeItem = React.memo(
         const noteCountLabel = noteCountDisplay.label;
         const shouldDisplayCount = showFileCount && noteCountDisplay.shouldDisplay;
         const hasChildren = useMemo(() => propertyNode.children.size > 0, [propertyNode.children.size]);
+        // Hierarchy nodes combine several keys, so they have no single key or value to assign, rename, or drag
+        const isHierarchyNode = isPropertyHierarchyNodeId(propertyNode.id);
+        const canDrag = isDraggable && !isHierarchyNode;
         const applyColorToName = Boolean(color) && !settings.colorIconOnly;
         const dragIconId = useMemo(() => {
             if (icon) {
@@ -198,10 +202,15 @@ export const PropertyTreeItem = React.memo(
 
         useImperativeHandle(ref, () => itemRef.current as HTMLDivElement);
 
-        useContextMenu(itemRef, {
-            type: ItemType.PROPERTY,
-            item: propertyNode.id
-        });
+        useContextMenu(
+            itemRef,
+            isHierarchyNode
+                ? null
+                : {
+                      type: ItemType.PROPERTY,
+                      item: propertyNode.id
+                  }
+        );
 
         const propertyStyle: CSSPropertiesWithVars = {
             '--level': level,
@@ -218,15 +227,15 @@ export const PropertyTreeItem = React.memo(
                 // Identifies element as a property node for drag operations
                 data-drag-type="property"
                 // Marks element as draggable for drag handler filtering
-                data-draggable={isDraggable ? 'true' : undefined}
+                data-draggable={canDrag ? 'true' : undefined}
                 // Icon displayed in drag ghost
                 data-drag-icon={dragIconId}
                 // Optional color applied to drag ghost icon
                 data-drag-icon-color={color || undefined}
                 // Enable native drag and drop when not on mobile
-                draggable={isDraggable}
-                data-drop-zone="property"
-                data-drop-path={propertyNode.id}
+                draggable={canDrag}
+                data-drop-zone={isHierarchyNode ? undefined : 'property'}
+                data-drop-path={isHierarchyNode ? undefined : propertyNode.id}
                 data-allow-external-drop="false"
                 data-search-match={searchMatch ?? undefined}
                 data-level={level}
@@ -284,11 +284,11 @@ export function SearchInput({
     const openSearchHelp = useCallback(() => {
         tagSuggestRef.current?.close();
         dateSuggestRef.current?.close();
-        const { fileNames, tags, properties, tasks, connectors, dates, omnisearch } = strings.searchInput.searchHelpModal.sections;
+        const { fileNames, content, tags, properties, tasks, connectors, dates, omnisearch } = strings.searchInput.searchHelpModal.sections;
         const propertiesSection = Object.prototype.hasOwnProperty.call(strings.searchInput.searchHelpModal.sections, 'properties')
             ? properties
             : undefined;
-        const sections = [fileNames, propertiesSection, tags, dates, tasks, connectors, omnisearch].filter(
+        const sections = [fileNames, content, propertiesSection, tags, dates, tasks, connectors, omnisearch].filter(
             (section): section is InfoModalSection => Boolean(section)
         );
         new InfoModal(app, {
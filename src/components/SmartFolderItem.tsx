@@ -0,0 +1,165 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useSettingsState } from '../context/SettingsContext';
+import { useContextMenu } from '../hooks/useContextMenu';
+import { getIconService, useIconServiceVersion } from '../services/icons';
+import { ItemType, type CSSPropertiesWithVars } from '../types';
+import type { NoteCountInfo } from '../types/noteCounts';
+import type { SmartFolder } from '../types/smartFolders';
+import { buildNoteCountDisplay } from '../utils/noteCountFormatting';
+import { resolveUXIcon } from '../utils/uxIcons';
+import { IndentGuideColumns } from './IndentGuideColumns';
+
+interface SmartFolderItemProps {
+    smartFolder: SmartFolder;
+    level: number;
+    indentGuideLevels?: number[];
+    isExpanded: boolean;
+    isSelected: boolean;
+    hasChildren: boolean;
+    onToggle: () => void;
+    onClick: (event: React.MouseEvent) => void;
+    countInfo?: NoteCountInfo;
+    showFileCount: boolean;
+    icon?: string;
+}
+
+/**
+ * Renders a smart folder row in the navigation pane.
+ * Smart folders list the notes matching a saved filter query and can contain nested smart folders.
+ */
+export const SmartFolderItem = React.memo(function SmartFolderItem({
+    smartFolder,
+    level,
+    indentGuideLevels,
+    isExpanded,
+    isSelected,
+    hasChildren,
+    onToggle,
+    onClick,
+    countInfo,
+    showFileCount,
+    icon
+}: SmartFolderItemProps) {
+    const settings = useSettingsState();
+    const itemRef = useRef<HTMLDivElement>(null);
+    const chevronRef = useRef<HTMLDivElement>(null);
+    const iconRef = useRef<HTMLSpanElement>(null);
+    const iconVersion = useIconServiceVersion();
+
+    // Smart folders have no descendant notes, so counts are always shown as a single number
+    const noteCountDisplay = useMemo(() => (countInfo ? buildNoteCountDisplay(countInfo, false, false) : null), [countInfo]);
+    const shouldDisplayCount = showFileCount && Boolean(noteCountDisplay?.shouldDisplay);
+
+    const className = useMemo(() => {
+        const classes = ['nn-navitem', 'nn-smart-folder'];
+        if (isSelected) {
+            classes.push('nn-selected');
+        }
+        return classes.join(' ');
+    }, [isSelected]);
+
+    const handleDoubleClick = useCallback(
+        (event: React.MouseEvent) => {
+            event.preventDefault();
+            if (hasChildren) {
+                onToggle();
+            }
+        },
+        [hasChildren, onToggle]
+    );
+
+    const handleChevronClick = useCallback(
+        (event: React.MouseEvent) => {
+            event.stopPropagation();
+            if (hasChildren) {
+                onToggle();
+            }
+        },
+        [hasChildren, onToggle]
+    );
+
+    const handleChevronDoubleClick = useCallback((event: React.MouseEvent) => {
+        event.stopPropagation();
+        event.preventDefault();
+    }, []);
+
+    useEffect(() => {
+        const chevronEl = chevronRef.current;
+        if (!chevronEl) {
+            return;
+        }
+
+        if (!hasChildren) {
+            chevronEl.replaceChildren();
+            return;
+        }
+
+        getIconService().renderIcon(
+            chevronEl,
+            resolveUXIcon(settings.interfaceIcons, isExpanded ? 'nav-tree-collapse' : 'nav-tree-expand')
+        );
+    }, [hasChildren, iconVersion, isExpanded, settings.interfaceIcons]);
+
+    useEffect(() => {
+        if (!iconRef.current) {
+            return;
+        }
+
+        getIconService().renderIcon(iconRef.current, icon ?? resolveUXIcon(settings.interfaceIcons, 'nav-smart-folder'));
+    }, [icon, iconVersion, settings.interfaceIcons]);
+
+    useContextMenu(itemRef, {
+        type: ItemType.SMART_FOLDER,
+        item: smartFolder.id
+    });
+
+    const smartFolderStyle: CSSPropertiesWithVars = { '--level': level };
+
+    return (
+        <div
+            ref={itemRef}
+            className={className}
+            data-smart-folder={smartFolder.id}
+            data-level={level}
+            style={smartFolderStyle}
+            role="treeitem"
+            aria-expanded={hasChildren ? isExpanded : undefined}
+            aria-selected={isSelected}
+            aria-level={level + 1}
+            title={smartFolder.query || undefined}
+        >
+            <div className="nn-navitem-content" onClick={onClick} onDoubleClick={handleDoubleClick}>
+                <IndentGuideColumns levels={indentGuideLevels} />
+                <div
+                    ref={chevronRef}
+                    className={`nn-navitem-chevron ${hasChildren ? 'nn-navitem-chevron--has-children' : 'nn-navitem-chevron--no-children'}`}
+                    onClick={handleChevronClick}
+                    onDoubleClick={handleChevronDoubleClick}
+                    tabIndex={-1}
+                />
+                <span className="nn-navitem-icon" ref={iconRef} />
+                <span className="nn-navitem-name">{smartFolder.name}</span>
+                <span className="nn-navitem-spacer" />
+                {shouldDisplayCount && noteCountDisplay && <span className="nn-navitem-count">{noteCountDisplay.label}</span>}
+            </div>
+        </div>
+    );
+});
@@ -0,0 +1,315 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useServices } from '../context/ServicesContext';
+import { useSettingsState } from '../context/SettingsContext';
+import { strings } from '../i18n';
+import { isShutdownInProgress, waitForDatabaseInitialization } from '../storage/fileOperations';
+import {
+    calculateVaultStatistics,
+    DEFAULT_VAULT_STATISTICS_OPTIONS,
+    type VaultStatistics,
+    type VaultStatisticsWeek
+} from '../storage/statistics';
+import { UNTAGGED_TAG_ID } from '../types';
+import { runAsyncAction } from '../utils/async';
+import { buildPropertyKeyNodeId } from '../utils/propertyTree';
+import { NotebookNavigatorView } from '../view/NotebookNavigatorView';
+import { ObsidianIcon } from './ObsidianIcon';
+
+// Delay before recalculating after cached content changes
+const REFRESH_DEBOUNCE_MS = 1000;
+
+interface StatisticsRow {
+    id: string;
+    label: string;
+    value: number;
+    onClick: () => void;
+}
+
+function formatLocalDay(timestamp: number): string {
+    const date = new Date(timestamp);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Builds an inclusive day range token for the created (c:) or modified (m:) date field
+function buildWeekDateToken(week: VaultStatisticsWeek, field: 'created' | 'modified'): string {
+    const prefix = field === 'created' ? 'c:' : 'm:';
+    return `@${prefix}${formatLocalDay(week.start)}..${formatLocalDay(week.end)}`;
+}
+
+function StatisticsRows({ rows }: { rows: StatisticsRow[] }) {
+    if (rows.length === 0) {
+        return <div className="nn-statistics-empty">{strings.statisticsDashboard.empty}</div>;
+    }
+
+    const maxValue = Math.max(...rows.map(row => row.value));
+    return (
+        <div className="nn-statistics-rows">
+            {rows.map(row => (
+                <div
+                    key={row.id}
+                    className="nn-statistics-row"
+                    role="button"
+                    tabIndex={0}
+                    aria-label={row.label}
+                    onClick={row.onClick}
+                    onKeyDown={event => {
+                        if (event.key === 'Enter' || event.key === ' ') {
+                            event.preventDefault();
+                            row.onClick();
+                        }
+                    }}
+                >
+                    <span className="nn-statistics-row-label">{row.label}</span>
+                    <div className="nn-statistics-row-track">
+                        <div className="nn-statistics-row-fill" style={{ width: `${maxValue > 0 ? (row.value / maxValue) * 100 : 0}%` }} />
+                    </div>
+                    <span className="nn-statistics-row-value">{row.value.toLocaleString()}</span>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+/**
+ * Vault statistics dashboard rendered by the statistics workspace view.
+ * Charts navigate the navigator to the folder, tag, property, or date range they represent.
+ */
+export function VaultStatisticsDashboard() {
+    const { app, plugin } = useServices();
+    const settings = useSettingsState();
+    const [statistics, setStatistics] = useState<VaultStatistics | null>(null);
+    const [isReady, setIsReady] = useState(false);
+    const refreshTimerRef = useRef<number | null>(null);
+
+    const refresh = useCallback(() => {
+        const next = calculateVaultStatistics(app, settings, plugin.getUXPreferences().showHiddenItems, {
+            ...DEFAULT_VAULT_STATISTICS_OPTIONS,
+            now: Date.now()
+        });
+        setStatistics(next);
+    }, [app, plugin, settings]);
+
+    // Waits for the database before the first calculation, then recalculates when cached content changes
+    useEffect(() => {
+        let isActive = true;
+        let unsubscribe: (() => void) | null = null;
+
+        runAsyncAction(async () => {
+            const db = await waitForDatabaseInitialization();
+            if (!isActive || !db || isShutdownInProgress()) {
+                return;
+            }
+
+            setIsReady(true);
+            refresh();
+            unsubscribe = db.onContentChange(() => {
+                if (refreshTimerRef.current !== null) {
+                    window.clearTimeout(refreshTimerRef.current);
+                }
+                refreshTimerRef.current = window.setTimeout(() => {
+                    refreshTimerRef.current = null;
+                    refresh();
+                }, REFRESH_DEBOUNCE_MS);
+            });
+        });
+
+        return () => {
+            isActive = false;
+            unsubscribe?.();
+            if (refreshTimerRef.current !== null) {
+                window.clearTimeout(refreshTimerRef.current);
+                refreshTimerRef.current = null;
+            }
+        };
+    }, [refresh]);
+
+    const withNavigatorView = useCallback(
+        (action: (view: NotebookNavigatorView) => void) => {
+            runAsyncAction(async () => {
+                await plugin.activateView();
+                const view = plugin.getNavigatorLeaves()[0]?.view;
+                if (view instanceof NotebookNavigatorView) {
+                    action(view);
+                }
+            });
+        },
+        [plugin]
+    );
+
+    const navigateToFolder = useCallback(
+        (folderPath: string) => {
+            const folder = folderPath === '/' ? app.vault.getRoot() : app.vault.getFolderByPath(folderPath);
+            if (folder) {
+                withNavigatorView(view => view.navigateToFolder(folder));
+            }
+        },
+        [app.vault, withNavigatorView]
+    );
+
+    const getFolderLabel = useCallback((folderPath: string) => (folderPath === '/' ? app.vault.getName() : folderPath), [app.vault]);
+
+    const labels = strings.statisticsDashboard;
+
+    if (!isReady || !statistics) {
+        return (
+            <div className="nn-statistics-dashboard">
+                <div className="nn-statistics-message">{isReady ? labels.unavailable : labels.loading}</div>
+            </div>
+        );
+    }
+
+    const maxWeekValue = Math.max(1, ...statistics.weeks.map(week => Math.max(week.created, week.modified)));
+    const firstWeek = statistics.weeks[0];
+    const lastWeek = statistics.weeks[statistics.weeks.length - 1];
+
+    const folderWordRows: StatisticsRow[] = statistics.wordsPerFolder.map(entry => ({
+        id: entry.folderPath,
+        label: getFolderLabel(entry.folderPath),
+        value: entry.value,
+        onClick: () => navigateToFolder(entry.folderPath)
+    }));
+    const folderTaskRows: StatisticsRow[] = statistics.openTasksPerFolder.map(entry => ({
+        id: entry.folderPath,
+        label: getFolderLabel(entry.folderPath),
+        value: entry.value,
+        onClick: () => navigateToFolder(entry.folderPath)
+    }));
+    const tagRows: StatisticsRow[] = statistics.topTags.map(entry => ({
+        id: entry.key,
+        label: `#${entry.label}`,
+        value: entry.count,
+        onClick: () => withNavigatorView(view => view.navigateToTag(entry.key))
+    }));
+    const propertyRows: StatisticsRow[] = statistics.topProperties.map(entry => ({
+        id: entry.key,
+        label: entry.label,
+        value: entry.count,
+        onClick: () => withNavigatorView(view => view.navigateToProperty(buildPropertyKeyNodeId(entry.key)))
+    }));
+
+    return (
+        <div className="nn-statistics-dashboard">
+            <div className="nn-statistics-header">
+                <h2 className="nn-statistics-title">{strings.plugin.statisticsViewName}</h2>
+                <button type="button" className="clickable-icon" aria-label={labels.refresh} onClick={refresh}>
+                    <ObsidianIcon name="lucide-refresh-cw" />
+                </button>
+            </div>
+
+            <div className="nn-statistics-summary">
+                <div className="nn-statistics-card">
+                    <span className="nn-statistics-card-value">{statistics.totalNotes.toLocaleString()}</span>
+                    <span className="nn-statistics-card-label">{labels.summary.notes}</span>
+                </div>
+                <div className="nn-statistics-card">
+                    <span className="nn-statistics-card-value">{statistics.totalWords.toLocaleString()}</span>
+                    <span className="nn-statistics-card-label">{labels.summary.words}</span>
+                </div>
+                <div className="nn-statistics-card">
+                    <span className="nn-statistics-card-value">{statistics.openTasks.toLocaleString()}</span>
+                    <span className="nn-statistics-card-label">{labels.summary.openTasks}</span>
+                </div>
+                <button
+                    type="button"
+                    className="nn-statistics-card"
+                    onClick={() => withNavigatorView(view => view.navigateToTag(UNTAGGED_TAG_ID))}
+                >
+                    <span className="nn-statistics-card-value">{statistics.untaggedNotes.toLocaleString()}</span>
+                    <span className="nn-statistics-card-label">{labels.summary.untagged}</span>
+                </button>
+                <div className="nn-statistics-card" aria-label={labels.summary.orphanedDescription}>
+                    <span className="nn-statistics-card-value">{statistics.orphanedNotes.toLocaleString()}</span>
+                    <span className="nn-statistics-card-label">{labels.summary.orphaned}</span>
+                </div>
+            </div>
+
+            <div className="nn-statistics-grid">
+                <section className="nn-statistics-section">
+                    <h3 className="nn-statistics-section-title">{labels.sections.activity}</h3>
+                    <div className="nn-statistics-weeks">
+                        {statistics.weeks.map(week => {
+                            const weekLabel = labels.weekLabel.replace('{date}', formatLocalDay(week.start));
+                            return (
+                                <div key={week.start} className="nn-statistics-week">
+                                    <div
+                                        className="nn-statistics-week-bar nn-statistics-week-bar--created"
+                                        style={{ height: `${(week.created / maxWeekValue) * 100}%` }}
+                                        role="button"
+                                        aria-label={`${weekLabel}: ${labels.createdCount.replace('{count}', String(week.created))}`}
+                                        onClick={() =>
+                                            withNavigatorView(view => view.addDateFilterToSearch(buildWeekDateToken(week, 'created')))
+                                        }
+                                    />
+                                    <div
+                                        className="nn-statistics-week-bar nn-statistics-week-bar--modified"
+                                        style={{ height: `${(week.modified / maxWeekValue) * 100}%` }}
+                                        role="button"
+                                        aria-label={`${weekLabel}: ${labels.modifiedCount.replace('{count}', String(week.modified))}`}
+                                        onClick={() =>
+                                            withNavigatorView(view => view.addDateFilterToSearch(buildWeekDateToken(week, 'modified')))
+                                        }
+                                    />
+                                </div>
+                            );
+                        })}
+                    </div>
+                    {firstWeek && lastWeek ? (
+                        <div className="nn-statistics-week-axis">
+                            <span>{formatLocalDay(firstWeek.start)}</span>
+                            <span>{formatLocalDay(lastWeek.start)}</span>
+                        </div>
+                    ) : null}
+                    <div className="nn-statistics-legend">
+                        <span className="nn-statistics-legend-item">
+                            <span className="nn-statistics-legend-swatch nn-statistics-week-bar--created" />
+                            {labels.legend.created}
+                        </span>
+                        <span className="nn-statistics-legend-item">
+                            <span className="nn-statistics-legend-swatch nn-statistics-week-bar--modified" />
+                            {labels.legend.modified}
+                        </span>
+                    </div>
+                </section>
+
+                <section className="nn-statistics-section">
+                    <h3 className="nn-statistics-section-title">{labels.sections.wordsPerFolder}</h3>
+                    <StatisticsRows rows={folderWordRows} />
+                </section>
+
+                <section className="nn-statistics-section">
+                    <h3 className="nn-statistics-section-title">{labels.sections.openTasksPerFolder}</h3>
+                    <StatisticsRows rows={folderTaskRows} />
+                </section>
+
+                <section className="nn-statistics-section">
+                    <h3 className="nn-statistics-section-title">{labels.sections.topTags}</h3>
+                    <StatisticsRows rows={tagRows} />
+                </section>
+
+                <section className="nn-statistics-section">
+                    <h3 className="nn-statistics-section-title">{labels.sections.topProperties}</h3>
+                    <StatisticsRows rows={propertyRows} />
+                </section>
+            </div>
+        </div>
+    );
+}
@@ -50,6 +50,32 @@ export const LIMITS = {
             mobile: 2_000_000,
             // Desktop: larger budget is usually safe, but still bounded to avoid pathological files dominating scan time.
             desktop: 8_000_000
+        },
+        /**
+         * Bounds for the full-text content index built by `MarkdownPipelineContentProvider`.
+         *
+         * Why this exists:
+         * - Every indexed term list is mirrored in memory for synchronous list filtering.
+         * - Long generated notes (logs, exports) can contain tens of thousands of unique tokens.
+         *
+         * Behavior when exceeded:
+         * - Terms after `maxTermsPerFile` unique entries are not indexed.
+         * - Terms longer than `maxTermLength` are truncated; prefix queries up to that length still match.
+         */
+        contentIndex: {
+            maxTermsPerFile: 5000,
+            maxTermLength: 64
+        },
+        /**
+         * Bounds for unfinished tasks stored per note by `MarkdownPipelineContentProvider`.
+         *
+         * Behavior when exceeded:
+         * - Tasks after `maxTasksPerFile` are counted but not stored. The next due date is taken from stored tasks only.
+         * - Task text longer than `maxTextLength` is truncated.
+         */
+        openTasks: {
+            maxTasksPerFile: 200,
+            maxTextLength: 200
         }
     },
     thumbnails: {
@@ -300,6 +326,11 @@ export const LIMITS = {
          * Number of files processed before yielding to the event loop during
          * tag/property rename and delete workflows.
          */
-        metadataMutationYieldBatchSize: 100
+        metadataMutationYieldBatchSize: 100,
+        /**
+         * Maximum number of operations kept in the undo history.
+         * Older operations are dropped when new ones are recorded.
+         */
+        undoHistorySize: 50
     }
 } as const;
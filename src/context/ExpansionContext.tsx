@@ -41,6 +41,7 @@ export type ExpansionAction =
     | { type: 'EXPAND_FOLDERS'; folderPaths: string[] }
     | { type: 'EXPAND_TAGS'; tagPaths: string[] }
     | { type: 'EXPAND_PROPERTIES'; propertyNodeIds: string[] }
+    | { type: 'EXPAND_VIRTUAL_FOLDERS'; folderIds: string[] }
     | { type: 'TOGGLE_DESCENDANT_FOLDERS'; descendantPaths: string[]; expand: boolean }
     | { type: 'TOGGLE_DESCENDANT_TAGS'; descendantPaths: string[]; expand: boolean }
     | { type: 'TOGGLE_DESCENDANT_PROPERTIES'; descendantNodeIds: string[]; expand: boolean }
@@ -147,6 +148,12 @@ function expansionReducer(state: ExpansionState, action: ExpansionAction): Expan
             return { ...state, expandedProperties: newExpanded };
         }
 
+        case 'EXPAND_VIRTUAL_FOLDERS': {
+            const newExpanded = new Set(state.expandedVirtualFolders);
+            action.folderIds.forEach(folderId => newExpanded.add(folderId));
+            return { ...state, expandedVirtualFolders: newExpanded };
+        }
+
         case 'TOGGLE_DESCENDANT_FOLDERS': {
             const newExpanded = new Set(state.expandedFolders);
             action.descendantPaths.forEach(path => {
@@ -19,7 +19,7 @@
 import React, { createContext, useContext, useReducer, useEffect, ReactNode, useCallback, useMemo, useRef } from 'react';
 import { App, TFile, TFolder } from 'obsidian';
 import { NavigationItemType, PROPERTIES_ROOT_VIRTUAL_FOLDER_ID, STORAGE_KEYS, TAGGED_TAG_ID, UNTAGGED_TAG_ID } from '../types';
-import { getFilesForFolder, getFilesForProperty, getFilesForTag } from '../utils/fileFinder';
+import { getFilesForFolder, getFilesForProperty, getFilesForSmartFolder, getFilesForTag } from '../utils/fileFinder';
 import { useSettingsState } from './SettingsContext';
 import { useUXPreferences } from './UXPreferencesContext';
 import { localStorage } from '../utils/localStorage';
@@ -41,7 +41,8 @@ import {
     parseStoredPropertySelectionNodeId,
     type PropertySelectionNodeId
 } from '../utils/propertyTree';
-import { getActivePropertyKeySet } from '../utils/vaultProfiles';
+import { getActivePropertyKeySet, getActiveSmartFolders } from '../utils/vaultProfiles';
+import { findSmartFolder } from '../utils/smartFolders';
 
 export type SelectionRevealSource = 'auto' | 'manual' | 'shortcut' | 'startup';
 
@@ -51,6 +52,7 @@ export interface SelectionState {
     selectedFolder: TFolder | null;
     selectedTag: string | null;
     selectedProperty: PropertySelectionNodeId | null;
+    selectedSmartFolder: string | null;
     selectedFiles: Set<string>; // Changed from single file to Set of file paths
     anchorIndex: number | null; // Anchor position for multi-selection
     lastMovementDirection: 'up' | 'down' | null; // Track direction for expand/contract
@@ -58,7 +60,7 @@ export interface SelectionState {
      * True after a `REVEAL_FILE` action.
      *
      * Cleared by non-reveal selection actions such as `SET_SELECTED_FOLDER`, `SET_SELECTED_TAG`, `SET_SELECTED_PROPERTY`,
-     * `SET_SELECTED_FILE`, `SET_SELECTION_TYPE`, and `CLEAR_SELECTION`.
+     * `SET_SELECTED_SMART_FOLDER`, `SET_SELECTED_FILE`, `SET_SELECTION_TYPE`, and `CLEAR_SELECTION`.
      *
      * Scroll hooks treat reveal operations as explicit scroll requests (via `requestScroll`) and suppress selection-driven
      * auto-scroll while this flag is true.
@@ -77,6 +79,7 @@ export type SelectionAction =
     | { type: 'SET_SELECTED_FOLDER'; folder: TFolder | null; autoSelectedFile?: TFile | null; source?: SelectionRevealSource }
     | { type: 'SET_SELECTED_TAG'; tag: string | null; autoSelectedFile?: TFile | null; source?: SelectionRevealSource }
     | { type: 'SET_SELECTED_PROPERTY'; nodeId: PropertySelectionNodeId; autoSelectedFile?: TFile | null; source?: SelectionRevealSource }
+    | { type: 'SET_SELECTED_SMART_FOLDER'; smartFolderId: string; autoSelectedFile?: TFile | null; source?: SelectionRevealSource }
     | { type: 'SET_SELECTED_FILE'; file: TFile | null }
     | { type: 'SET_SELECTION_TYPE'; selectionType: NavigationItemType }
     | { type: 'CLEAR_SELECTION' }
@@ -87,6 +90,7 @@ export type SelectionAction =
           isManualReveal?: boolean;
           targetTag?: string | null;
           targetProperty?: PropertySelectionNodeId | null;
+          targetSmartFolder?: string | null;
           source?: SelectionRevealSource;
           targetFolder?: TFolder | null;
       }
@@ -172,6 +176,7 @@ function selectionReducer(state: SelectionState, action: SelectionAction, app?:
                 selectedFolder: action.folder,
                 selectedTag: null,
                 selectedProperty: null,
+                selectedSmartFolder: null,
                 selectionType: 'folder',
                 selectedFiles: newSelectedFiles,
                 selectedFile: action.autoSelectedFile || null,
@@ -196,6 +201,7 @@ function selectionReducer(state: SelectionState, action: SelectionAction, app?:
                 selectedTag: normalizedTag,
                 selectedFolder: null,
                 selectedProperty: null,
+                selectedSmartFolder: null,
                 selectionType: 'tag',
                 selectedFiles: newSelectedFiles,
                 selectedFile: action.autoSelectedFile || null,
@@ -218,6 +224,7 @@ function selectionReducer(state: SelectionState, action: SelectionAction, app?:
             return {
                 ...state,
                 selectedProperty: action.nodeId,
+                selectedSmartFolder: null,
                 selectedFolder: null,
                 selectedTag: null,
                 selectionType: 'property',
@@ -233,6 +240,31 @@ function selectionReducer(state: SelectionState, action: SelectionAction, app?:
             };
         }
 
+        case 'SET_SELECTED_SMART_FOLDER': {
+            const newSelectedFiles = new Set<string>();
+            if (action.autoSelectedFile) {
+                newSelectedFiles.add(action.autoSelectedFile.path);
+            }
+
+            return {
+                ...state,
+                selectedSmartFolder: action.smartFolderId,
+                selectedFolder: null,
+                selectedTag: null,
+                selectedProperty: null,
+                selectionType: 'smart-folder',
+                selectedFiles: newSelectedFiles,
+                selectedFile: action.autoSelectedFile || null,
+                anchorIndex: null,
+                lastMovementDirection: null,
+                isRevealOperation: false,
+                isFolderChangeWithAutoSelect: action.autoSelectedFile !== undefined && action.autoSelectedFile !== null,
+                isKeyboardNavigation: false,
+                isFolderNavigation: true,
+                revealSource: action.source ?? null
+            };
+        }
+
         case 'SET_SELECTED_FILE': {
             // Always clear selection and select only this file
             const newSelectedFiles = new Set<string>();
@@ -269,6 +301,7 @@ function selectionReducer(state: SelectionState, action: SelectionAction, app?:
                 selectedFolder: null,
                 selectedTag: null,
                 selectedProperty: null,
+                selectedSmartFolder: null,
                 selectedFiles: new Set<string>(),
                 selectedFile: null,
                 anchorIndex: null,
@@ -302,6 +335,7 @@ function selectionReducer(state: SelectionState, action: SelectionAction, app?:
                     selectedFolder: folderToSelect,
                     selectedTag: null,
                     selectedProperty: null,
+                    selectedSmartFolder: null,
                     selectedFiles: newSelectedFiles,
                     selectedFile: action.file,
                     anchorIndex: null,
@@ -323,6 +357,7 @@ function selectionReducer(state: SelectionState, action: SelectionAction, app?:
                         selectedTag: normalizedTargetTag,
                         selectedFolder: null,
                         selectedProperty: null,
+                        selectedSmartFolder: null,
                         selectedFiles: newSelectedFiles,
                         selectedFile: action.file,
                         anchorIndex: null,
@@ -342,6 +377,7 @@ function selectionReducer(state: SelectionState, action: SelectionAction, app?:
                     selectedFolder: newFolder,
                     selectedTag: null,
                     selectedProperty: null,
+                    selectedSmartFolder: null,
                     selectedFiles: newSelectedFiles,
                     selectedFile: action.file,
                     anchorIndex: null,
@@ -361,6 +397,7 @@ function selectionReducer(state: SelectionState, action: SelectionAction, app?:
                         ...state,
                         selectionType: 'property',
                         selectedProperty: action.targetProperty,
+                        selectedSmartFolder: null,
                         selectedFolder: null,
                         selectedTag: null,
                         selectedFiles: newSelectedFiles,
@@ -383,6 +420,50 @@ function selectionReducer(state: SelectionState, action: SelectionAction, app?:
                     selectedFolder: newFolder,
                     selectedTag: null,
                     selectedProperty: null,
+                    selectedSmartFolder: null,
+                    selectedFiles: newSelectedFiles,
+                    selectedFile: action.file,
+                    anchorIndex: null,
+                    lastMovementDirection: null,
+                    isRevealOperation: true,
+                    isFolderChangeWithAutoSelect: false,
+                    isKeyboardNavigation: false,
+                    revealSource
+                };
+            }
+
+            // Auto-reveals: Check if we have a target smart folder
+            if (action.targetSmartFolder !== undefined) {
+                if (action.targetSmartFolder) {
+                    // Stay in the smart folder that lists the file
+                    return {
+                        ...state,
+                        selectionType: 'smart-folder',
+                        selectedSmartFolder: action.targetSmartFolder,
+                        selectedFolder: null,
+                        selectedTag: null,
+                        selectedProperty: null,
+                        selectedFiles: newSelectedFiles,
+                        selectedFile: action.file,
+                        anchorIndex: null,
+                        lastMovementDirection: null,
+                        isRevealOperation: true,
+                        isFolderChangeWithAutoSelect: false,
+                        isKeyboardNavigation: false,
+                        revealSource
+                    };
+                }
+
+                // File is not listed in the smart folder, switch to folder view
+                const newFolder =
+                    targetFolder ?? (action.preserveFolder && state.selectedFolder ? state.selectedFolder : action.file.parent);
+                return {
+                    ...state,
+                    selectionType: 'folder',
+                    selectedFolder: newFolder,
+                    selectedTag: null,
+                    selectedProperty: null,
+                    selectedSmartFolder: null,
                     selectedFiles: newSelectedFiles,
                     selectedFile: action.file,
                     anchorIndex: null,
@@ -403,6 +484,7 @@ function selectionReducer(state: SelectionState, action: SelectionAction, app?:
                     selectedTag: state.selectedTag,
                     selectedFolder: null,
                     selectedProperty: null,
+                    selectedSmartFolder: null,
                     selectedFiles: newSelectedFiles,
                     selectedFile: action.file,
                     anchorIndex: null,
@@ -420,6 +502,7 @@ function selectionReducer(state: SelectionState, action: SelectionAction, app?:
                     ...state,
                     selectionType: 'property',
                     selectedProperty: state.selectedProperty,
+                    selectedSmartFolder: null,
                     selectedFolder: null,
                     selectedTag: null,
                     selectedFiles: newSelectedFiles,
@@ -441,6 +524,7 @@ function selectionReducer(state: SelectionState, action: SelectionAction, app?:
                 selectedFolder: newFolder,
                 selectedTag: null,
                 selectedProperty: null,
+                selectedSmartFolder: null,
                 selectedFiles: newSelectedFiles,
                 selectedFile: action.file,
                 anchorIndex: null,
@@ -713,6 +797,17 @@ export function SelectionProvider({
             }
         }
 
+        // Load saved smart folder id, dropping ids that no longer exist in the active profile
+        let savedSmartFolderId: string | null = null;
+        try {
+            savedSmartFolderId = localStorage.get<string>(STORAGE_KEYS.selectedSmartFolderKey);
+        } catch (error) {
+            console.error('Failed to load selected smart folder from localStorage:', error);
+        }
+        if (savedSmartFolderId && !findSmartFolder(getActiveSmartFolders(settings), savedSmartFolderId)) {
+            savedSmartFolderId = null;
+        }
+
         // Load saved file path with error handling
         let savedFilePath: string | null = null;
         try {
@@ -759,7 +854,10 @@ export function SelectionProvider({
         let selectionType: NavigationItemType = 'folder';
         const normalizedTag = normalizeTagPath(savedTag);
 
-        if (savedPropertySelection) {
+        if (savedSmartFolderId) {
+            selectionType = 'smart-folder';
+            selectedFolder = null;
+        } else if (savedPropertySelection) {
             selectionType = 'property';
             selectedFolder = null;
         } else if (normalizedTag) {
@@ -773,8 +871,9 @@ export function SelectionProvider({
         return {
             selectionType,
             selectedFolder,
-            selectedTag: savedPropertySelection ? null : normalizedTag,
-            selectedProperty: savedPropertySelection,
+            selectedTag: savedSmartFolderId || savedPropertySelection ? null : normalizedTag,
+            selectedProperty: savedSmartFolderId ? null : savedPropertySelection,
+            selectedSmartFolder: savedSmartFolderId,
             selectedFiles,
             selectedFile,
             anchorIndex: null,
@@ -843,6 +942,11 @@ export function SelectionProvider({
                 const filesForProperty = getFilesForProperty(action.nodeId, settings, visibility, app, propertyTreeService);
                 dispatch({ ...action, autoSelectedFile: resolveAutoSelectedFile(filesForProperty) });
             }
+            // Handle auto-select logic for smart folder selection
+            else if (action.type === 'SET_SELECTED_SMART_FOLDER' && action.autoSelectedFile === undefined) {
+                const filesForSmartFolder = getFilesForSmartFolder(action.smartFolderId, settings, visibility, app);
+                dispatch({ ...action, autoSelectedFile: resolveAutoSelectedFile(filesForSmartFolder) });
+            }
             // Handle cleanup for deleted files on mobile
             else if (action.type === 'CLEANUP_DELETED_FILE' && isMobile) {
                 // On mobile, never auto-select next file
@@ -1171,6 +1275,29 @@ export function SelectionProvider({
         }
     }, [state.selectedProperty]);
 
+    // Return to the root folder when the selected smart folder is deleted or the profile changes
+    useEffect(() => {
+        if (state.selectionType !== 'smart-folder') {
+            return;
+        }
+        if (!state.selectedSmartFolder || !findSmartFolder(getActiveSmartFolders(settings), state.selectedSmartFolder)) {
+            enhancedDispatch({ type: 'SET_SELECTED_FOLDER', folder: app.vault.getRoot() });
+        }
+    }, [app.vault, enhancedDispatch, settings, state.selectedSmartFolder, state.selectionType]);
+
+    // Persist selected smart folder to localStorage with error handling
+    useEffect(() => {
+        try {
+            if (state.selectedSmartFolder) {
+                localStorage.set(STORAGE_KEYS.selectedSmartFolderKey, state.selectedSmartFolder);
+            } else {
+                localStorage.remove(STORAGE_KEYS.selectedSmartFolderKey);
+            }
+        } catch (error) {
+            console.error('Failed to save selected smart folder to localStorage:', error);
+        }
+    }, [state.selectedSmartFolder]);
+
     // Persist selected file to localStorage with error handling
     useEffect(() => {
         try {
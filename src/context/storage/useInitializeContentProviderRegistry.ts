@@ -17,13 +17,18 @@
  */
 
 import { useEffect, type RefObject } from 'react';
-import type { App } from 'obsidian';
+import type { App, TFile } from 'obsidian';
+import type { NotebookNavigatorAPI } from '../../api/NotebookNavigatorAPI';
+import type { NotebookNavigatorSettings } from '../../settings';
 import { ContentProviderRegistry } from '../../services/content/ContentProviderRegistry';
 import { ContentReadCache } from '../../services/content/ContentReadCache';
 import { MarkdownPipelineContentProvider } from '../../services/content/MarkdownPipelineContentProvider';
 import { createFeatureImageThumbnailRuntime, FeatureImageContentProvider } from '../../services/content/FeatureImageContentProvider';
 import { MetadataContentProvider } from '../../services/content/MetadataContentProvider';
 import { TagContentProvider } from '../../services/content/TagContentProvider';
+import { ExternalContentProvider } from '../../services/content/ExternalContentProvider';
+import { getExternalContentProviderType } from '../../storage/providerMtime';
+import { runAsyncAction } from '../../utils/async';
 
 /**
  * Creates and tears down the `ContentProviderRegistry` used by `StorageContext`.
@@ -34,14 +39,28 @@ import { TagContentProvider } from '../../services/content/TagContentProvider';
  * - We can stop processing synchronously during teardown without waiting for a render cycle.
  *
  * Providers are registered once per `App` instance to avoid duplicating background queues when the view remounts.
+ * Providers registered by other plugins through the content providers API are kept in sync with the registry.
  */
 export function useInitializeContentProviderRegistry(params: {
     app: App;
+    api: NotebookNavigatorAPI | null;
     contentRegistryRef: RefObject<ContentProviderRegistry | null>;
     pendingSyncTimeoutIdRef: RefObject<number | null>;
+    isStorageReadyRef: RefObject<boolean>;
+    latestSettingsRef: RefObject<NotebookNavigatorSettings>;
+    getIndexableFiles: () => TFile[];
     clearCacheRebuildNotice: () => void;
 }): void {
-    const { app, contentRegistryRef, pendingSyncTimeoutIdRef, clearCacheRebuildNotice } = params;
+    const {
+        app,
+        api,
+        contentRegistryRef,
+        pendingSyncTimeoutIdRef,
+        isStorageReadyRef,
+        latestSettingsRef,
+        getIndexableFiles,
+        clearCacheRebuildNotice
+    } = params;
 
     useEffect(() => {
         // Only create the registry once per app instance. `StorageContext` may mount/unmount with the view,
@@ -77,4 +96,77 @@ export function useInitializeContentProviderRegistry(params: {
             }
         };
     }, [app, clearCacheRebuildNotice, contentRegistryRef, pendingSyncTimeoutIdRef]);
+
+    useEffect(() => {
+        const contentProviders = api?.contentProviders;
+        if (!contentProviders) {
+            return;
+        }
+
+        const readCache = new ContentReadCache(app);
+
+        // Queues indexed files for a provider once storage is ready; the initial load queues them otherwise.
+        const queueProviderFiles = (provider: ExternalContentProvider) => {
+            const registry = contentRegistryRef.current;
+            if (!registry || !isStorageReadyRef.current) {
+                return;
+            }
+            const files = provider.getFilesNeedingProcessing(getIndexableFiles());
+            if (files.length > 0) {
+                registry.queueFilesForAllProviders(files, latestSettingsRef.current, { include: [provider.getContentType()] });
+            }
+        };
+
+        const registerDefinition = (id: string) => {
+            const registry = contentRegistryRef.current;
+            const definition = contentProviders.getDefinition(id);
+            if (!registry || !definition || registry.getProvider(getExternalContentProviderType(id))) {
+                return;
+            }
+            const provider = new ExternalContentProvider(app, definition, readCache);
+            registry.registerProvider(provider);
+            queueProviderFiles(provider);
+        };
+
+        const refreshDefinition = (id: string) => {
+            const provider = contentRegistryRef.current?.getProvider(getExternalContentProviderType(id));
+            if (!(provider instanceof ExternalContentProvider)) {
+                return;
+            }
+            runAsyncAction(async () => {
+                provider.stopProcessing();
+                await provider.waitForIdle();
+                await provider.clearContent();
+                queueProviderFiles(provider);
+            });
+        };
+
+        // Sync providers registered before this view mounted and drop providers unregistered while it was closed.
+        const registry = contentRegistryRef.current;
+        if (registry) {
+            const registeredTypes = new Set(
+                contentProviders.getDefinitions().map(definition => getExternalContentProviderType(definition.id))
+            );
+            registry.getExternalProviderTypes().forEach(type => {
+                if (!registeredTypes.has(type)) {
+                    registry.unregisterProvider(type);
+                }
+            });
+        }
+        contentProviders.getDefinitions().forEach(definition => registerDefinition(definition.id));
+
+        return contentProviders.onDefinitionsChanged(change => {
+            switch (change.type) {
+                case 'registered':
+                    registerDefinition(change.id);
+                    break;
+                case 'unregistered':
+                    contentRegistryRef.current?.unregisterProvider(getExternalContentProviderType(change.id));
+                    break;
+                case 'refresh':
+                    refreshDefinition(change.id);
+                    break;
+            }
+        });
+    }, [api, app, contentRegistryRef, getIndexableFiles, isStorageReadyRef, latestSettingsRef]);
 }
@@ -22,10 +22,12 @@ import type { Debouncer } from 'obsidian';
 import { TIMEOUTS } from '../../types/obsidian-extended';
 import type { PropertyTreeService } from '../../services/PropertyTreeService';
 import { getDBInstance } from '../../storage/fileOperations';
+import type { FileData } from '../../storage/IndexedDBStorage';
 import type { StorageFileData } from './storageFileData';
 import type { NotebookNavigatorSettings } from '../../settings';
 import type { FileVisibility } from '../../utils/fileTypeUtils';
 import {
+    buildPropertyHierarchyTreesFromDatabase,
     buildPropertyKeyNodeId,
     buildPropertyTreeFromDatabase,
     isPropertyFeatureEnabled,
@@ -136,8 +138,9 @@ export function usePropertyTreeSync(params: {
 
     const clearPropertyTree = useCallback(() => {
         const emptyTree = new Map<string, PropertyTreeNode>();
-        setFileData(previous => ({ ...previous, propertyTree: emptyTree }));
-        propertyTreeService?.updatePropertyTree(emptyTree);
+        const emptyHierarchyTree = new Map<string, PropertyTreeNode>();
+        setFileData(previous => ({ ...previous, propertyTree: emptyTree, propertyHierarchyTree: emptyHierarchyTree }));
+        propertyTreeService?.updatePropertyTree(emptyTree, emptyHierarchyTree);
         return emptyTree;
     }, [propertyTreeService, setFileData]);
 
@@ -153,27 +156,28 @@ export function usePropertyTreeSync(params: {
         const db = getDBInstance();
         const excludedFolderPatterns = showHiddenItems ? [] : hiddenFoldersRef.current;
         const visibleMarkdownPaths = getVisibleMarkdownFiles().map(file => file.path);
-        const propertyTree = buildPropertyTreeFromDatabase(
-            {
-                forEachFile: callback => {
-                    visibleMarkdownPaths.forEach(path => {
-                        const fileData = db.getFile(path);
-                        if (!fileData) {
-                            return;
-                        }
-                        callback(path, fileData);
-                    });
-                }
-            },
-            {
-                excludedFolderPatterns,
-                includedPropertyKeys
+        const visibleFiles = {
+            forEachFile: (callback: (path: string, fileData: FileData) => void) => {
+                visibleMarkdownPaths.forEach(path => {
+                    const fileData = db.getFile(path);
+                    if (!fileData) {
+                        return;
+                    }
+                    callback(path, fileData);
+                });
             }
-        );
+        };
+        const propertyTree = buildPropertyTreeFromDatabase(visibleFiles, {
+            excludedFolderPatterns,
+            includedPropertyKeys
+        });
         includeConfiguredPropertyKeys(propertyTree, configuredDisplayByKey);
+        const propertyHierarchyTree = buildPropertyHierarchyTreesFromDatabase(visibleFiles, liveSettings.propertyHierarchies, {
+            excludedFolderPatterns
+        });
 
-        setFileData(previous => ({ ...previous, propertyTree }));
-        propertyTreeService?.updatePropertyTree(propertyTree);
+        setFileData(previous => ({ ...previous, propertyTree, propertyHierarchyTree }));
+        propertyTreeService?.updatePropertyTree(propertyTree, propertyHierarchyTree);
         return propertyTree;
     }, [clearPropertyTree, getVisibleMarkdownFiles, latestSettingsRef, propertyTreeService, setFileData, showHiddenItems]);
 
@@ -295,6 +299,7 @@ export function usePropertyTreeSync(params: {
         fileVisibility,
         profileId,
         activePropertyFields,
+        settings.propertyHierarchies,
         settings.showProperties
     ]);
 
@@ -34,7 +34,7 @@ interface TagTreeServiceLike {
 }
 
 interface PropertyTreeServiceLike {
-    updatePropertyTree: (tree: Map<string, PropertyTreeNode>) => void;
+    updatePropertyTree: (tree: Map<string, PropertyTreeNode>, hierarchyTree?: Map<string, PropertyTreeNode>) => void;
 }
 
 /**
@@ -141,7 +141,14 @@ export function useStorageCacheRebuild(params: {
         // Reset tag tree state immediately so the UI doesn't show stale counts while the rebuild is running.
         const emptyTagTree = new Map<string, TagTreeNode>();
         const emptyPropertyTree = new Map<string, PropertyTreeNode>();
-        setFileData({ tagTree: emptyTagTree, propertyTree: emptyPropertyTree, tagged: 0, untagged: 0, hiddenRootTags: new Map() });
+        setFileData({
+            tagTree: emptyTagTree,
+            propertyTree: emptyPropertyTree,
+            propertyHierarchyTree: new Map(),
+            tagged: 0,
+            untagged: 0,
+            hiddenRootTags: new Map()
+        });
         if (tagTreeService) {
             tagTreeService.updateTagTree(emptyTagTree, 0, 0);
         }
@@ -20,6 +20,7 @@ import { useCallback, type RefObject } from 'react';
 import { TFile } from 'obsidian';
 import type { ContentProviderType, FileContentType } from '../../interfaces/IContentProvider';
 import type { ContentProviderRegistry } from '../../services/content/ContentProviderRegistry';
+import { ExternalContentProvider } from '../../services/content/ExternalContentProvider';
 import type { NotebookNavigatorSettings } from '../../settings';
 import { getDBInstance } from '../../storage/fileOperations';
 import { hasPropertyFrontmatterFields } from '../../utils/propertyUtils';
@@ -27,6 +28,23 @@ import { isPdfFile } from '../../utils/fileTypeUtils';
 import { filterFilesRequiringMetadataSources, filterPdfFilesRequiringThumbnails } from '../storageQueueFilters';
 import { getMetadataDependentTypes } from './storageContentTypes';
 
+/**
+ * Queues files whose values from content providers registered through the API are missing or stale.
+ * These providers are not gated by settings or metadata cache readiness.
+ */
+function queueExternalProviderFiles(registry: ContentProviderRegistry, files: TFile[], settings: NotebookNavigatorSettings): void {
+    for (const type of registry.getExternalProviderTypes()) {
+        const provider = registry.getProvider(type);
+        if (!(provider instanceof ExternalContentProvider)) {
+            continue;
+        }
+        const filesNeedingValues = provider.getFilesNeedingProcessing(files);
+        if (filesNeedingValues.length > 0) {
+            registry.queueFilesForAllProviders(filesNeedingValues, settings, { include: [type] });
+        }
+    }
+}
+
 /**
  * Queues files for derived-content generation.
  *
@@ -34,6 +52,7 @@ import { getMetadataDependentTypes } from './storageContentTypes';
  * It separates:
  * - Markdown files, which are often gated by Obsidian metadata cache readiness.
  * - PDF files, which only need the thumbnail provider when feature images are enabled.
+ * - Files handled by content providers registered through the API.
  */
 export function useStorageContentQueue(params: {
     contentRegistryRef: RefObject<ContentProviderRegistry | null>;
@@ -75,6 +94,8 @@ export function useStorageContentQueue(params: {
                 registry.queueFilesForAllProviders(pdfFiles, settings, { include: ['fileThumbnails'] });
             }
 
+            queueExternalProviderFiles(registry, files, settings);
+
             return { markdownFiles };
         },
         [contentRegistryRef]
@@ -86,6 +107,13 @@ export function useStorageContentQueue(params: {
                 return;
             }
 
+            try {
+                // Unchanged files can still be missing values when a provider was registered since the last sync.
+                queueExternalProviderFiles(contentRegistryRef.current, allFiles, settings);
+            } catch (error: unknown) {
+                console.error('Failed to queue files for external content providers:', error);
+            }
+
             const metadataDependentTypes = getMetadataDependentTypes(settings);
             const hasCustomProperties = hasPropertyFrontmatterFields(settings);
             const contentEnabled =
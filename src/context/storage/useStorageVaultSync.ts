@@ -328,6 +328,7 @@ export function useStorageVaultSync(params: {
 
                                 if (wasMarkdown && isMarkdown) {
                                     operations.push(db.movePreviewText(oldPath, file.path));
+                                    operations.push(db.moveContentIndexEntry(oldPath, file.path));
                                 } else if (wasMarkdown) {
                                     operations.push(
                                         db.deletePreviewText(oldPath).catch((error: unknown) => {
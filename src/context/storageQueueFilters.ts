@@ -75,9 +75,10 @@ export function filterFilesRequiringMetadataSources(
                 settings.showFeatureImage && (record.featureImageKey === null || record.featureImageStatus === 'unprocessed');
             const needsProperties = propertiesEnabled && record.properties === null;
             const needsWordCount = record.wordCount === null;
-            const needsTasks = record.taskTotal === null || record.taskUnfinished === null;
+            const needsTasks = record.taskTotal === null || record.taskUnfinished === null || record.openTasks === null;
+            const needsContentIndex = settings.searchNoteContent && !db.hasContentIndexEntry(file.path);
             const needsRefresh = record.markdownPipelineMtime !== file.stat.mtime;
-            if (needsRefresh || needsPreview || needsFeatureImage || needsProperties || needsWordCount || needsTasks) {
+            if (needsRefresh || needsPreview || needsFeatureImage || needsProperties || needsWordCount || needsTasks || needsContentIndex) {
                 return true;
             }
         }
@@ -42,6 +42,7 @@ import {
     buildFolderMenu,
     buildTagMenu,
     buildPropertyMenu,
+    buildSmartFolderMenu,
     buildFileMenu,
     buildEmptyListMenu,
     EMPTY_LIST_MENU_TYPE
@@ -191,6 +192,17 @@ export function useContextMenu(elementRef: React.RefObject<HTMLElement | null>,
                         dispatchers
                     });
                 };
+            } else if (menuConfig.type === ItemType.SMART_FOLDER) {
+                buildMenu = menuInstance => {
+                    buildSmartFolderMenu({
+                        smartFolderId: menuConfig.item,
+                        menu: menuInstance,
+                        services,
+                        settings,
+                        state,
+                        dispatchers
+                    });
+                };
             } else if (menuConfig.type === ItemType.FILE) {
                 buildMenu = menuInstance => {
                     buildFileMenu({
@@ -40,6 +40,7 @@ import { getCachedCommaSeparatedList } from '../utils/commaSeparatedListUtils';
 import { casefold } from '../utils/recordUtils';
 import { buildPropertyKeyNodeId, normalizePropertyTreeValuePath, parsePropertyNodeId } from '../utils/propertyTree';
 import { getFilesForNavigationSelection } from '../utils/selectionUtils';
+import { getBoardColumnKey, parseBoardColumnValue, type BoardColumnValue } from '../utils/listBoard';
 import { getActivePropertyFields } from '../utils/vaultProfiles';
 
 /**
@@ -66,7 +67,7 @@ interface AutoExpandConfig {
 }
 
 export function useDragAndDrop(containerRef: React.RefObject<HTMLElement | null>) {
-    const { app, isMobile, tagTreeService, propertyTreeService } = useServices();
+    const { app, isMobile, tagTreeService, propertyTreeService, propertyOperations } = useServices();
     const fileSystemOps = useFileSystemOps();
     const tagOperations = useTagOperations();
     const selectionState = useSelectionState();
@@ -173,7 +174,8 @@ export function useDragAndDrop(containerRef: React.RefObject<HTMLElement | null>
                 selectionType: selectionState.selectionType,
                 selectedFolder: selectionState.selectedFolder,
                 selectedTag: selectionState.selectedTag,
-                selectedProperty: selectionState.selectedProperty
+                selectedProperty: selectionState.selectedProperty,
+                selectedSmartFolder: selectionState.selectedSmartFolder
             },
             settings,
             { includeDescendantNotes, showHiddenItems },
@@ -214,7 +216,8 @@ export function useDragAndDrop(containerRef: React.RefObject<HTMLElement | null>
                     dispatch,
                     allFiles: currentFiles
                 },
-                showNotifications: true
+                showNotifications: true,
+                offerUndo: true
             });
         },
         [fileSystemOps, getCurrentFileList, selectionState.selectedFile, dispatch]
@@ -530,7 +533,7 @@ export function useDragAndDrop(containerRef: React.RefObject<HTMLElement | null>
         (e: DragEvent) => {
             if (!isHTMLElement(e.target)) return;
             const dropZone = e.target.closest<HTMLElement>(
-                '[data-drop-zone="folder"],[data-drop-zone="tag"],[data-drop-zone="tag-root"],[data-drop-zone="property"]'
+                '[data-drop-zone="folder"],[data-drop-zone="tag"],[data-drop-zone="tag-root"],[data-drop-zone="property"],[data-drop-zone="board-column"]'
             );
             const isShortcutDrag = Boolean(e.dataTransfer?.types?.includes(SHORTCUT_DRAG_MIME));
 
@@ -582,7 +585,7 @@ export function useDragAndDrop(containerRef: React.RefObject<HTMLElement | null>
                 const isInternalTransfer = hasObsidianData || hasTagPayload;
                 const isExternalOnly = hasExternalFiles && !isInternalTransfer;
 
-                if (dropType === 'property') {
+                if (dropType === 'property' || dropType === 'board-column') {
                     const isNavigatorFolderDrag = dragTypeRef.current === ItemType.FOLDER;
                     const isNavigatorTagDrag = dragTypeRef.current === ItemType.TAG;
                     if (isNavigatorFolderDrag || isNavigatorTagDrag || !hasObsidianData || isExternalOnly) {
@@ -650,6 +653,9 @@ export function useDragAndDrop(containerRef: React.RefObject<HTMLElement | null>
                 } else if (dropType === 'property') {
                     clearAutoExpandTimer();
                     e.dataTransfer.dropEffect = 'copy';
+                } else if (dropType === 'board-column') {
+                    clearAutoExpandTimer();
+                    e.dataTransfer.dropEffect = 'move';
                 }
 
                 if (dropType === 'tag-root') {
@@ -741,6 +747,47 @@ export function useDragAndDrop(containerRef: React.RefObject<HTMLElement | null>
         [getMarkdownFilesFromDragEvent, tagOperations]
     );
 
+    /**
+     * Handles dropping files on a list pane board column.
+     * Sets the board property to the column value, or removes it on the column of notes without a value.
+     * Notes that are already in the column are left unchanged.
+     */
+    const handleBoardColumnDrop = useCallback(
+        async (event: DragEvent, propertyKey: string, columnKey: string, columnValue: BoardColumnValue | null) => {
+            const { files, hasNonMarkdown } = getMarkdownFilesFromDragEvent(event);
+            if (files.length === 0) {
+                return;
+            }
+
+            if (hasNonMarkdown) {
+                showNotice(strings.fileSystem.notifications.propertiesRequireMarkdown, { variant: 'warning' });
+                return;
+            }
+
+            if (!propertyOperations) {
+                console.error('[Notebook Navigator] PropertyOperations not available');
+                return;
+            }
+
+            const filesToMove = files.filter(file => {
+                const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+                return getBoardColumnKey(frontmatter, propertyKey) !== columnKey;
+            });
+            if (filesToMove.length === 0) {
+                return;
+            }
+
+            try {
+                await propertyOperations.setPropertyValueForFiles(filesToMove, propertyKey, columnValue);
+            } catch (error) {
+                console.error('Error moving notes between board columns:', error);
+                const msg = error instanceof Error ? error.message : strings.common.unknownError;
+                showNotice(strings.dragDrop.errors.failedToSetProperty.replace('{error}', msg), { variant: 'warning' });
+            }
+        },
+        [app.metadataCache, getMarkdownFilesFromDragEvent, propertyOperations]
+    );
+
     const handlePropertyDrop = useCallback(
         async (event: DragEvent, targetPropertyNodeId: string) => {
             const { files, hasNonMarkdown } = getMarkdownFilesFromDragEvent(event);
@@ -1070,6 +1117,24 @@ export function useDragAndDrop(containerRef: React.RefObject<HTMLElement | null>
                     return;
                 }
 
+                if (dropType === 'board-column') {
+                    if (!hasObsidianData || isExternalOnly) {
+                        return;
+                    }
+
+                    if (dragTypeRef.current === ItemType.TAG || dragTypeRef.current === ItemType.FOLDER) {
+                        return;
+                    }
+
+                    await handleBoardColumnDrop(
+                        e,
+                        targetPath,
+                        dropZone.getAttribute('data-board-column') ?? '',
+                        parseBoardColumnValue(dropZone.getAttribute('data-board-value'), dropZone.getAttribute('data-board-value-type'))
+                    );
+                    return;
+                }
+
                 if (dropType === 'property') {
                     if (!hasObsidianData || isExternalOnly) {
                         return;
@@ -1161,6 +1226,7 @@ export function useDragAndDrop(containerRef: React.RefObject<HTMLElement | null>
         },
         [
             app,
+            handleBoardColumnDrop,
             handlePropertyDrop,
             handleTagDrop,
             handleExternalFileDrop,
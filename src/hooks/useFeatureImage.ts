@@ -0,0 +1,126 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { useEffect, useRef, useState } from 'react';
+import type { App, TFile } from 'obsidian';
+import { useServices } from '../context/ServicesContext';
+import { useFileCache } from '../context/StorageContext';
+import type { FeatureImageStatus } from '../storage/IndexedDBStorage';
+import { isImageFile } from '../utils/fileTypeUtils';
+
+// Minimum delay between thumbnail regeneration requests for the same key
+const FEATURE_IMAGE_REGEN_THROTTLE_MS = 10000;
+
+export interface FeatureImageState {
+    // Displayable thumbnail URL, or null when there is no thumbnail
+    url: string | null;
+    // Cached thumbnail status for the file
+    status: FeatureImageStatus;
+}
+
+function getImageResourcePath(app: App, file: TFile): string | null {
+    try {
+        return app.vault.getResourcePath(file);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Resolves a displayable URL for a file's thumbnail.
+ * Image files use their vault resource path. Other files load the thumbnail blob stored by the content providers
+ * (feature images, PDF covers, Excalidraw previews) and follow cache updates.
+ */
+export function useFeatureImage(file: TFile, enabled: boolean): FeatureImageState {
+    const { app } = useServices();
+    const { getDB, regenerateFeatureImageForFile } = useFileCache();
+    const [featureImageKey, setFeatureImageKey] = useState<string | null>(() => getDB().getFile(file.path)?.featureImageKey ?? null);
+    const [featureImageStatus, setFeatureImageStatus] = useState<FeatureImageStatus>(
+        () => getDB().getFile(file.path)?.featureImageStatus ?? 'unprocessed'
+    );
+    // Image files resolve synchronously so the first render already shows them
+    const [url, setUrl] = useState<string | null>(() => (enabled && isImageFile(file) ? getImageResourcePath(app, file) : null));
+    const lastRegenerationRef = useRef<{ key: string; at: number } | null>(null);
+
+    // Track the cached thumbnail key and status for the file
+    useEffect(() => {
+        const db = getDB();
+        const record = db.getFile(file.path);
+        setFeatureImageKey(record?.featureImageKey ?? null);
+        setFeatureImageStatus(record?.featureImageStatus ?? 'unprocessed');
+
+        return db.onFileContentChange(file.path, changes => {
+            if (changes.featureImageKey !== undefined) {
+                setFeatureImageKey(changes.featureImageKey ?? null);
+            }
+            if (changes.featureImageStatus !== undefined) {
+                setFeatureImageStatus(changes.featureImageStatus);
+            }
+        });
+        // NOTE: include file.path because Obsidian reuses TFile instance on rename
+    }, [file, file.path, getDB]);
+
+    useEffect(() => {
+        if (!enabled) {
+            setUrl(null);
+            return;
+        }
+
+        if (isImageFile(file)) {
+            setUrl(getImageResourcePath(app, file));
+            return;
+        }
+
+        if (featureImageStatus !== 'has' || !featureImageKey) {
+            setUrl(null);
+            return;
+        }
+
+        let isActive = true;
+        let objectUrl: string | null = null;
+        const expectedKey = featureImageKey;
+        void getDB()
+            .getFeatureImageBlob(file.path, expectedKey)
+            .then(blob => {
+                if (!isActive) {
+                    return;
+                }
+                if (!blob) {
+                    setUrl(null);
+                    // Regenerate missing blobs, throttled per key
+                    const now = Date.now();
+                    const last = lastRegenerationRef.current;
+                    if (!last || last.key !== expectedKey || now - last.at >= FEATURE_IMAGE_REGEN_THROTTLE_MS) {
+                        lastRegenerationRef.current = { key: expectedKey, at: now };
+                        void regenerateFeatureImageForFile(file);
+                    }
+                    return;
+                }
+                objectUrl = URL.createObjectURL(blob);
+                setUrl(objectUrl);
+            });
+
+        return () => {
+            isActive = false;
+            if (objectUrl) {
+                URL.revokeObjectURL(objectUrl);
+            }
+        };
+    }, [app, enabled, featureImageKey, featureImageStatus, file, getDB, regenerateFeatureImageForFile]);
+
+    return { url, status: featureImageStatus };
+}
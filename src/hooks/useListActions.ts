@@ -25,14 +25,23 @@ import { useUXPreferenceActions, useUXPreferences } from '../context/UXPreferenc
 import { strings } from '../i18n';
 import type { SortOption } from '../settings';
 import { ItemType, PROPERTIES_ROOT_VIRTUAL_FOLDER_ID, TAGGED_TAG_ID, UNTAGGED_TAG_ID } from '../types';
-import { getEffectiveSortOption, getSortIcon as getSortIconName, isPropertySortOption, SORT_OPTIONS } from '../utils/sortUtils';
+import {
+    getEffectiveSortOption,
+    getFolderSortChain,
+    getSortIcon as getSortIconName,
+    isPropertySortOption,
+    parseSortOption,
+    SORT_OPTIONS
+} from '../utils/sortUtils';
+import { SortChainModal } from '../modals/SortChainModal';
 import { showListPaneAppearanceMenu } from '../components/ListPaneAppearanceMenu';
-import { getDefaultListMode } from './useListPaneAppearance';
+import { getDefaultListMode, resolveListMode } from './useListPaneAppearance';
 import type { FolderAppearance } from './useListPaneAppearance';
 import { getFilesForFolder } from '../utils/fileFinder';
 import { runAsyncAction } from '../utils/async';
 import { FILE_VISIBILITY } from '../utils/fileTypeUtils';
 import { findVaultProfileById } from '../utils/vaultProfiles';
+import { findSmartFolder, updateActiveSmartFolder } from '../utils/smartFolders';
 
 /**
  * Custom hook that provides shared actions for list pane toolbars.
@@ -60,7 +69,12 @@ export function useListActions() {
         hasTagSelection && selectionState.selectedTag !== TAGGED_TAG_ID && selectionState.selectedTag !== UNTAGGED_TAG_ID;
     const hasPropertySelection = selectionState.selectionType === ItemType.PROPERTY && Boolean(selectionState.selectedProperty);
     const hasCreatablePropertySelection = hasPropertySelection && selectionState.selectedProperty !== PROPERTIES_ROOT_VIRTUAL_FOLDER_ID;
-    const hasFolderOrTagSelection = hasFolderSelection || hasTagSelection;
+    const selectedSmartFolder =
+        selectionState.selectionType === ItemType.SMART_FOLDER
+            ? findSmartFolder(findVaultProfileById(vaultProfiles, vaultProfileId).smartFolders ?? [], selectionState.selectedSmartFolder)
+            : null;
+    const hasSmartFolderSelection = selectedSmartFolder !== null;
+    const hasFolderOrTagSelection = hasFolderSelection || hasTagSelection || hasSmartFolderSelection;
     const canCreateNewFile = Boolean(selectionState.selectedFolder) || hasCreatableTagSelection || hasCreatablePropertySelection;
 
     const handleNewFile = useCallback(async () => {
@@ -96,8 +110,20 @@ export function useListActions() {
     ]);
 
     const getCurrentSortOption = useCallback((): SortOption => {
-        return getEffectiveSortOption(settings, selectionState.selectionType, selectionState.selectedFolder, selectionState.selectedTag);
-    }, [settings, selectionState.selectionType, selectionState.selectedFolder, selectionState.selectedTag]);
+        return getEffectiveSortOption(
+            settings,
+            selectionState.selectionType,
+            selectionState.selectedFolder,
+            selectionState.selectedTag,
+            selectionState.selectedSmartFolder
+        );
+    }, [
+        settings,
+        selectionState.selectionType,
+        selectionState.selectedFolder,
+        selectionState.selectedTag,
+        selectionState.selectedSmartFolder
+    ]);
 
     const getSortIcon = useCallback(() => {
         return getSortIconName(getCurrentSortOption());
@@ -110,19 +136,23 @@ export function useListActions() {
             }
 
             showListPaneAppearanceMenu({
+                app,
                 event: event.nativeEvent,
                 settings,
                 selectedFolder: selectionState.selectedFolder,
                 selectedTag: selectionState.selectedTag,
+                selectedSmartFolder: selectionState.selectedSmartFolder,
                 selectionType: selectionState.selectionType,
                 updateSettings
             });
         },
         [
+            app,
             hasFolderOrTagSelection,
             settings,
             selectionState.selectedFolder,
             selectionState.selectedTag,
+            selectionState.selectedSmartFolder,
             selectionState.selectionType,
             updateSettings
         ]
@@ -153,7 +183,10 @@ export function useListActions() {
                 (hasFolderSelection &&
                     selectionState.selectedFolder &&
                     metadataService.getFolderSortOverride(selectionState.selectedFolder.path)) ||
-                (hasTagSelection && selectionState.selectedTag && metadataService.getTagSortOverride(selectionState.selectedTag));
+                (hasTagSelection && selectionState.selectedTag && metadataService.getTagSortOverride(selectionState.selectedTag)) ||
+                selectedSmartFolder?.sortOverride;
+            const selectedFolder = hasFolderSelection ? selectionState.selectedFolder : null;
+            const folderSortChain = selectedFolder ? getFolderSortChain(settings, selectedFolder.path) : null;
 
             menu.addItem(item => {
                 item.setTitle(`${strings.paneHeader.defaultSort}: ${getSortOptionLabel(settings.defaultFolderSort)}`)
@@ -165,6 +198,12 @@ export function useListActions() {
                                 await metadataService.removeFolderSortOverride(selectionState.selectedFolder.path);
                             } else if (selectionState.selectionType === ItemType.TAG && selectionState.selectedTag) {
                                 await metadataService.removeTagSortOverride(selectionState.selectedTag);
+                            } else if (selectedSmartFolder) {
+                                await updateSettings(s => {
+                                    updateActiveSmartFolder(s, selectedSmartFolder.id, folder => {
+                                        delete folder.sortOverride;
+                                    });
+                                });
                             }
                             app.workspace.requestSaveLayout();
                         });
@@ -183,7 +222,7 @@ export function useListActions() {
 
                 menu.addItem(item => {
                     item.setTitle(getSortOptionLabel(option))
-                        .setChecked(!!isCustomSort && currentSort === option)
+                        .setChecked(!!isCustomSort && !folderSortChain && currentSort === option)
                         .onClick(() => {
                             // Apply sort option
                             runAsyncAction(async () => {
@@ -191,6 +230,12 @@ export function useListActions() {
                                     await metadataService.setFolderSortOverride(selectionState.selectedFolder.path, option);
                                 } else if (selectionState.selectionType === ItemType.TAG && selectionState.selectedTag) {
                                     await metadataService.setTagSortOverride(selectionState.selectedTag, option);
+                                } else if (selectedSmartFolder) {
+                                    await updateSettings(s => {
+                                        updateActiveSmartFolder(s, selectedSmartFolder.id, folder => {
+                                            folder.sortOverride = option;
+                                        });
+                                    });
                                 }
                                 app.workspace.requestSaveLayout();
                             });
@@ -198,6 +243,29 @@ export function useListActions() {
                 });
             });
 
+            if (selectedFolder) {
+                menu.addSeparator();
+                menu.addItem(item => {
+                    item.setTitle(strings.paneHeader.customSortChain)
+                        .setChecked(folderSortChain !== null)
+                        .onClick(() => {
+                            // Start from the current sort when the folder has no chain yet
+                            const { field, direction } = parseSortOption(currentSort);
+                            const initialChain = folderSortChain ?? [
+                                field === 'property' ? { field, direction, property: propertySortKey } : { field, direction }
+                            ];
+                            new SortChainModal(app, {
+                                title: `${strings.modals.sortChain.title}: ${selectedFolder.name || strings.navigationPane.vaultRootLabel}`,
+                                initialChain,
+                                onSave: async chain => {
+                                    await metadataService.setFolderSortChain(selectedFolder.path, chain);
+                                    app.workspace.requestSaveLayout();
+                                }
+                            }).open();
+                        });
+                });
+            }
+
             menu.showAtMouseEvent(event.nativeEvent);
         },
         [
@@ -207,10 +275,12 @@ export function useListActions() {
             selectionState.selectionType,
             selectionState.selectedFolder,
             selectionState.selectedTag,
+            selectedSmartFolder,
             app,
             getCurrentSortOption,
             metadataService,
-            settings
+            settings,
+            updateSettings
         ]
     );
 
@@ -256,7 +326,8 @@ export function useListActions() {
         (hasFolderSelection &&
             selectionState.selectedFolder &&
             metadataService.getFolderSortOverride(selectionState.selectedFolder.path)) ||
-        (hasTagSelection && selectionState.selectedTag && metadataService.getTagSortOverride(selectionState.selectedTag));
+        (hasTagSelection && selectionState.selectedTag && metadataService.getTagSortOverride(selectionState.selectedTag)) ||
+        selectedSmartFolder?.sortOverride;
 
     const defaultMode = getDefaultListMode(settings);
     const hasMeaningfulOverrides = (appearance: FolderAppearance | undefined) => {
@@ -264,7 +335,7 @@ export function useListActions() {
             return false;
         }
 
-        const hasModeOverride = (appearance.mode === 'compact' || appearance.mode === 'standard') && appearance.mode !== defaultMode;
+        const hasModeOverride = resolveListMode({ appearance, defaultMode }) !== defaultMode;
         const otherOverrides =
             appearance.titleRows !== undefined ||
             appearance.previewRows !== undefined ||
@@ -274,12 +345,13 @@ export function useListActions() {
         return hasModeOverride || otherOverrides;
     };
 
-    // Check if folder or tag has custom appearance settings
+    // Check if folder, tag or smart folder has custom appearance settings
     const hasCustomAppearance =
         (hasFolderSelection &&
             selectionState.selectedFolder &&
             hasMeaningfulOverrides(settings.folderAppearances?.[selectionState.selectedFolder.path])) ||
-        (hasTagSelection && selectionState.selectedTag && hasMeaningfulOverrides(settings.tagAppearances?.[selectionState.selectedTag]));
+        (hasTagSelection && selectionState.selectedTag && hasMeaningfulOverrides(settings.tagAppearances?.[selectionState.selectedTag])) ||
+        hasMeaningfulOverrides(selectedSmartFolder?.appearance);
 
     const activeFileVisibility = useMemo(() => {
         return findVaultProfileById(vaultProfiles, vaultProfileId).fileVisibility;
@@ -23,6 +23,8 @@ import type { NotePropertyType, ListDisplayMode, ListNoteGroupingOption } from '
 import type { NotebookNavigatorSettings } from '../settings';
 import { ItemType } from '../types';
 import { resolveListGrouping } from '../utils/listGrouping';
+import { findSmartFolder } from '../utils/smartFolders';
+import { getActiveSmartFolders } from '../utils/vaultProfiles';
 
 export interface FolderAppearance {
     mode?: ListDisplayMode;
@@ -30,16 +32,27 @@ export interface FolderAppearance {
     previewRows?: number;
     notePropertyType?: NotePropertyType;
     groupBy?: ListNoteGroupingOption;
+    /** Frontmatter property whose values become columns in board mode */
+    boardProperty?: string;
+    /** Tile width in pixels in grid mode */
+    gridTileSize?: number;
 }
 
 export type TagAppearance = FolderAppearance;
 
+/** Tile sizes offered in the appearance menu for grid mode, in pixels */
+export const GRID_TILE_SIZES = { small: 96, medium: 140, large: 200 } as const;
+export const DEFAULT_GRID_TILE_SIZE = GRID_TILE_SIZES.medium;
+const MIN_GRID_TILE_SIZE = 64;
+const MAX_GRID_TILE_SIZE = 400;
+
 export function getDefaultListMode(settings: NotebookNavigatorSettings): ListDisplayMode {
     return settings.defaultListMode === 'compact' ? 'compact' : 'standard';
 }
 
 /**
  * Resolve the effective list mode for a folder/tag appearance.
+ * Board mode only applies when a board property is configured.
  */
 export function resolveListMode({
     appearance,
@@ -48,13 +61,32 @@ export function resolveListMode({
     appearance?: FolderAppearance;
     defaultMode: ListDisplayMode;
 }): ListDisplayMode {
-    if (appearance?.mode === 'compact' || appearance?.mode === 'standard') {
+    if (appearance?.mode === 'compact' || appearance?.mode === 'standard' || appearance?.mode === 'grid') {
         return appearance.mode;
     }
 
+    if (appearance?.mode === 'board' && getBoardProperty(appearance)) {
+        return 'board';
+    }
+
     return defaultMode;
 }
 
+/** Returns the trimmed board property of an appearance, or null when none is set */
+export function getBoardProperty(appearance?: FolderAppearance): string | null {
+    const property = appearance?.boardProperty?.trim();
+    return property ? property : null;
+}
+
+/** Returns the grid tile size of an appearance, falling back to the default for missing or out-of-range values */
+export function getGridTileSize(appearance?: FolderAppearance): number {
+    const size = appearance?.gridTileSize;
+    if (typeof size !== 'number' || !Number.isFinite(size)) {
+        return DEFAULT_GRID_TILE_SIZE;
+    }
+    return Math.min(MAX_GRID_TILE_SIZE, Math.max(MIN_GRID_TILE_SIZE, Math.round(size)));
+}
+
 /** Return visibility flags for a given list mode */
 function getVisibilityForMode(mode: ListDisplayMode, settings: NotebookNavigatorSettings) {
     if (mode === 'compact') {
@@ -65,6 +97,15 @@ function getVisibilityForMode(mode: ListDisplayMode, settings: NotebookNavigator
         };
     }
 
+    // Grid tiles always show thumbnails
+    if (mode === 'grid') {
+        return {
+            showDate: false,
+            showPreview: false,
+            showImage: true
+        };
+    }
+
     return {
         showDate: settings.showFileDate,
         showPreview: settings.showFilePreview,
@@ -78,7 +119,7 @@ function getVisibilityForMode(mode: ListDisplayMode, settings: NotebookNavigator
  */
 export function useListPaneAppearance() {
     const settings = useSettingsState();
-    const { selectedFolder, selectedTag, selectionType } = useSelectionState();
+    const { selectedFolder, selectedTag, selectedSmartFolder, selectionType } = useSelectionState();
 
     return useMemo(() => {
         const defaultMode = getDefaultListMode(settings);
@@ -94,7 +135,9 @@ export function useListPaneAppearance() {
                 notePropertyType: appearance?.notePropertyType ?? settings.notePropertyType,
                 showDate: visibility.showDate,
                 showPreview: visibility.showPreview,
-                showImage: visibility.showImage
+                showImage: visibility.showImage,
+                boardProperty: mode === 'board' ? getBoardProperty(appearance) : null,
+                gridTileSize: mode === 'grid' ? getGridTileSize(appearance) : null
             };
         };
 
@@ -135,6 +178,24 @@ export function useListPaneAppearance() {
             };
         }
 
+        // For smart folders
+        if (selectionType === ItemType.SMART_FOLDER && selectedSmartFolder) {
+            const smartFolderAppearance = findSmartFolder(getActiveSmartFolders(settings), selectedSmartFolder)?.appearance;
+            // Resolve effective grouping mode for this smart folder
+            const grouping = resolveListGrouping({
+                settings,
+                selectionType,
+                smartFolderAppearance
+            });
+
+            const appearance = buildAppearance(smartFolderAppearance);
+
+            return {
+                ...appearance,
+                groupBy: grouping.effectiveGrouping
+            };
+        }
+
         // Default (no selection or other selection types)
         // Resolve default grouping mode when no folder or tag is selected
         const grouping = resolveListGrouping({ settings });
@@ -143,5 +204,5 @@ export function useListPaneAppearance() {
             ...appearance,
             groupBy: grouping.effectiveGrouping
         };
-    }, [settings, selectedFolder, selectedTag, selectionType]);
+    }, [settings, selectedFolder, selectedTag, selectedSmartFolder, selectionType]);
 }
@@ -49,9 +49,11 @@ import {
 import {
     compareByAlphaSortOrder,
     getDateField,
+    getEffectiveSortChain,
     getEffectiveSortOption,
     isDateSortOption,
     resolveFolderChildSortOrder,
+    shouldRefreshOnContentChangeForSort,
     shouldRefreshOnFileModifyForSort,
     shouldRefreshOnMetadataChangeForSort,
     resolveDefaultDateField
@@ -60,40 +62,44 @@ import { strings } from '../i18n';
 import { FILE_VISIBILITY } from '../utils/fileTypeUtils';
 import {
     parseFilterSearchTokens,
-    fileMatchesDateFilterTokens,
-    fileMatchesFilterTokens,
     filterSearchHasActiveCriteria,
-    filterSearchNeedsTagLookup,
-    filterSearchNeedsPropertyLookup,
-    filterSearchRequiresTagsForEveryMatch
+    filterSearchNeedsContentLookup,
+    filterSearchNeedsDueLookup,
+    filterSearchNeedsTaskLookup
 } from '../utils/filterSearch';
+import { createFilterSearchFileMatcher } from '../utils/filterSearchMatcher';
 import type { NotebookNavigatorSettings } from '../settings';
-import type { FilterSearchMatchOptions, FilterSearchTokens } from '../utils/filterSearch';
+import type { FilterSearchTokens } from '../utils/filterSearch';
 import type { SearchResultMeta } from '../types/search';
-import { createHiddenTagVisibility, normalizeTagPathValue } from '../utils/tagPrefixMatcher';
-import { resolveListGrouping } from '../utils/listGrouping';
+import { createHiddenTagVisibility } from '../utils/tagPrefixMatcher';
+import {
+    getAlphabeticalGroupLabel,
+    getPropertyGroupingKey,
+    getPropertyGroupValue,
+    getTagGroup,
+    groupFilesByValue,
+    resolveListGrouping
+} from '../utils/listGrouping';
+import { findSmartFolder } from '../utils/smartFolders';
 import { runAsyncAction } from '../utils/async';
 import type { ActiveProfileState } from '../context/SettingsContext';
 import type { SearchProvider } from '../types/search';
 import { PreviewTextUtils } from '../utils/previewTextUtils';
 import { getCachedFileTags } from '../utils/tagUtils';
 import { createOmnisearchHighlightQueryTokenContext, sanitizeOmnisearchHighlightTokens } from '../utils/omnisearchHighlight';
-import { casefold } from '../utils/recordUtils';
-import { normalizePropertyTreeValuePath, type PropertySelectionNodeId } from '../utils/propertyTree';
+import type { PropertySelectionNodeId } from '../utils/propertyTree';
 import { getFilesForNavigationSelection } from '../utils/selectionUtils';
 import { getActivePropertyFields } from '../utils/vaultProfiles';
 
 const EMPTY_SEARCH_META = new Map<string, SearchResultMeta>();
 // Shared empty map used when no files are hidden to avoid allocations
 const EMPTY_HIDDEN_STATE = new Map<string, boolean>();
-// Shared sentinel array used when only tag presence is required
-const TAG_PRESENCE_SENTINEL = ['__nn_tag_present__'];
 
 /**
  * Parameters for the useListPaneData hook
  */
 interface UseListPaneDataParams {
-    /** The type of selection (folder, tag, or property) */
+    /** The type of selection (folder, tag, property, or smart folder) */
     selectionType: ItemType | null;
     /** The currently selected folder, if any */
     selectedFolder: TFolder | null;
@@ -101,6 +107,8 @@ interface UseListPaneDataParams {
     selectedTag: string | null;
     /** The currently selected property key/value, if any */
     selectedProperty: PropertySelectionNodeId | null;
+    /** The currently selected smart folder id, if any */
+    selectedSmartFolder: string | null;
     /** Plugin settings */
     settings: NotebookNavigatorSettings;
     /** Active profile-derived values */
@@ -149,6 +157,7 @@ export function useListPaneData({
     selectedFolder,
     selectedTag,
     selectedProperty,
+    selectedSmartFolder,
     settings,
     activeProfile,
     searchProvider,
@@ -185,8 +194,16 @@ export function useListPaneData({
             return false;
         }
 
-        return tokens.requireUnfinishedTasks || tokens.excludeUnfinishedTasks;
+        return filterSearchNeedsTaskLookup(tokens) || filterSearchNeedsDueLookup(tokens);
     }, [trimmedQuery, useOmnisearch, searchTokens]);
+    const hasContentSearchFilters = useMemo(() => {
+        if (!trimmedQuery || useOmnisearch) {
+            return false;
+        }
+
+        const tokens = searchTokens ?? parseFilterSearchTokens(trimmedQuery);
+        return filterSearchNeedsContentLookup(tokens, settings.searchNoteContent);
+    }, [trimmedQuery, useOmnisearch, searchTokens, settings.searchNoteContent]);
     /**
      * Optional folder scope passed to Omnisearch.
      *
@@ -240,8 +257,15 @@ export function useListPaneData({
         if (selectionType === ItemType.TAG && selectedTag) {
             return getEffectiveSortOption(settings, ItemType.TAG, null, selectedTag);
         }
+        if (selectionType === ItemType.SMART_FOLDER && selectedSmartFolder) {
+            return getEffectiveSortOption(settings, ItemType.SMART_FOLDER, null, null, selectedSmartFolder);
+        }
         return getEffectiveSortOption(settings, ItemType.FOLDER, selectedFolder, selectedTag);
-    }, [selectionType, selectedFolder, selectedTag, settings]);
+    }, [selectionType, selectedFolder, selectedTag, selectedSmartFolder, settings]);
+    const sortChain = useMemo(
+        () => getEffectiveSortChain(settings, selectionType, selectedFolder),
+        [selectionType, selectedFolder, settings]
+    );
     const activePropertyFields = getActivePropertyFields(settings);
 
     /**
@@ -254,7 +278,8 @@ export function useListPaneData({
                 selectionType,
                 selectedFolder,
                 selectedTag,
-                selectedProperty
+                selectedProperty,
+                selectedSmartFolder
             },
             settings,
             visibility,
@@ -270,7 +295,9 @@ export function useListPaneData({
         selectedFolder,
         selectedTag,
         selectedProperty,
+        selectedSmartFolder,
         activeProfile.profile.id,
+        activeProfile.profile.smartFolders,
         activeProfile.hiddenFolders,
         activeProfile.hiddenFileProperties,
         activeProfile.hiddenFileNames,
@@ -294,6 +321,7 @@ export function useListPaneData({
         activePropertyFields,
         settings.showProperties,
         settings.folderSortOverrides,
+        settings.folderSortChains,
         settings.tagSortOverrides,
         propertyTreeService,
         includeDescendantNotes,
@@ -458,160 +486,18 @@ export function useListPaneData({
             return baseFiles;
         }
 
-        // Check if date filtering is needed and resolve which date field to use
-        const hasDateFilters = tokens.dateRanges.length > 0 || tokens.excludeDateRanges.length > 0;
-        const hasTaskFilters = tokens.requireUnfinishedTasks || tokens.excludeUnfinishedTasks;
-        const hasFolderFilters = tokens.folderTokens.length > 0 || tokens.excludeFolderTokens.length > 0;
-        const hasExtensionFilters = tokens.extensionTokens.length > 0 || tokens.excludeExtensionTokens.length > 0;
-        const defaultDateField = resolveDefaultDateField(sortOption, settings.alphabeticalDateMode ?? 'modified');
-
-        // Check if we need to access tag metadata for any file
-        const needsTagLookup = filterSearchNeedsTagLookup(tokens);
-        const needsPropertyLookup = filterSearchNeedsPropertyLookup(tokens);
-        // Check if all inclusion clauses require files to have tags
-        const requireTaggedMatches = filterSearchRequiresTagsForEveryMatch(tokens);
-        const requiresNormalizedTagValues = tokens.mode === 'tag' || tokens.tagTokens.length > 0 || tokens.excludeTagTokens.length > 0;
-
-        const db = getDB();
-
-        // Cache normalized tag arrays to avoid repeated string transformations
-        const normalizedTagCache = new Map<string, string[]>();
-        const emptyTags: string[] = [];
-        const normalizedPropertyCache = new Map<string, Map<string, string[]>>();
-        const emptyProperties = new Map<string, string[]>();
-
-        // Get or compute normalized tags for a file path
-        const resolveNormalizedTags = (path: string, rawTags: readonly string[]): string[] => {
-            const cached = normalizedTagCache.get(path);
-            if (cached !== undefined) {
-                return cached;
-            }
-            const normalized = rawTags.map(tag => normalizeTagPathValue(tag)).filter((value): value is string => value.length > 0);
-            normalizedTagCache.set(path, normalized);
-            return normalized;
-        };
-
-        const resolveNormalizedProperties = (
-            path: string,
-            properties: { fieldKey: string; value: string }[] | null
-        ): Map<string, string[]> => {
-            const cached = normalizedPropertyCache.get(path);
-            if (cached) {
-                return cached;
-            }
-
-            if (!properties || properties.length === 0) {
-                normalizedPropertyCache.set(path, emptyProperties);
-                return emptyProperties;
-            }
-
-            const normalizedValues = new Map<string, Set<string>>();
-            properties.forEach(entry => {
-                const normalizedKey = casefold(entry.fieldKey);
-                if (!normalizedKey) {
-                    return;
-                }
-
-                let values = normalizedValues.get(normalizedKey);
-                if (!values) {
-                    values = new Set<string>();
-                    normalizedValues.set(normalizedKey, values);
-                }
-
-                const normalizedValue = normalizePropertyTreeValuePath(entry.value);
-                if (!normalizedValue) {
-                    return;
-                }
-                values.add(normalizedValue);
-            });
-
-            const normalized = new Map<string, string[]>();
-            normalizedValues.forEach((values, key) => {
-                normalized.set(key, Array.from(values));
-            });
-
-            normalizedPropertyCache.set(path, normalized);
-            return normalized;
-        };
-
-        const filteredByFilterSearch = baseFiles.filter(file => {
-            const lowercaseName = searchableNames.get(file.path) || '';
-            const fileData = hasTaskFilters || needsTagLookup || needsPropertyLookup ? db.getFile(file.path) : null;
-            const hasUnfinishedTasks = hasTaskFilters && typeof fileData?.taskUnfinished === 'number' && fileData.taskUnfinished > 0;
-            const needsMatchOptions = hasTaskFilters || hasFolderFilters || hasExtensionFilters;
-            let matchOptions: FilterSearchMatchOptions | undefined;
-            if (needsMatchOptions) {
-                matchOptions = { hasUnfinishedTasks };
-
-                if (hasFolderFilters) {
-                    matchOptions.lowercaseFolderPath = (file.parent?.path ?? '').toLowerCase();
-                }
-
-                if (hasExtensionFilters) {
-                    matchOptions.lowercaseExtension = file.extension.toLowerCase();
-                }
-            }
-
-            if (needsPropertyLookup) {
-                const propertyValuesByKey = resolveNormalizedProperties(file.path, fileData?.properties ?? null);
-                if (matchOptions) {
-                    matchOptions = { ...matchOptions, propertyValuesByKey };
-                } else {
-                    matchOptions = { hasUnfinishedTasks, propertyValuesByKey };
-                }
-            }
-
-            // Skip tag lookup if tokens do not reference tags
-            if (!needsTagLookup) {
-                if (!fileMatchesFilterTokens(lowercaseName, emptyTags, tokens, matchOptions)) {
-                    return false;
-                }
-
-                if (!hasDateFilters) {
-                    return true;
-                }
-
-                const timestamps = getFileTimestamps(file);
-                return fileMatchesDateFilterTokens(
-                    { created: timestamps.created, modified: timestamps.modified, defaultField: defaultDateField },
-                    tokens
-                );
-            }
-
-            const rawTags = getCachedFileTags({ app, file, db, fileData });
-            const hasTags = rawTags.length > 0;
-
-            // Early return if file must have tags but has none
-            if (requireTaggedMatches && !hasTags) {
-                return false;
-            }
-
-            let lowercaseTags: string[];
-            if (!hasTags) {
-                lowercaseTags = emptyTags;
-            } else if (requiresNormalizedTagValues) {
-                lowercaseTags = resolveNormalizedTags(file.path, rawTags);
-            } else {
-                lowercaseTags = TAG_PRESENCE_SENTINEL;
-            }
-
-            if (!fileMatchesFilterTokens(lowercaseName, lowercaseTags, tokens, matchOptions)) {
-                return false;
-            }
-
-            if (!hasDateFilters) {
-                return true;
-            }
-
-            const timestamps = getFileTimestamps(file);
-            return fileMatchesDateFilterTokens(
-                { created: timestamps.created, modified: timestamps.modified, defaultField: defaultDateField },
-                tokens
-            );
+        const matchesFilterSearch = createFilterSearchFileMatcher({
+            app,
+            db: getDB(),
+            tokens,
+            defaultDateField: resolveDefaultDateField(sortOption, settings.alphabeticalDateMode ?? 'modified'),
+            nameTokensMatchContent: settings.searchNoteContent,
+            getLowercaseName: file => searchableNames.get(file.path) || '',
+            getFileTimestamps
         });
 
         // Return the filtered results from the internal filter search
-        return filteredByFilterSearch;
+        return baseFiles.filter(matchesFilterSearch);
     }, [
         useOmnisearch,
         trimmedQuery,
@@ -623,6 +509,7 @@ export function useListPaneData({
         searchTokens,
         sortOption,
         settings.alphabeticalDateMode,
+        settings.searchNoteContent,
         app
     ]);
 
@@ -698,6 +585,31 @@ export function useListPaneData({
         return EMPTY_SEARCH_META;
     }, [useOmnisearch, omnisearchResult]);
 
+    // Resolve effective grouping mode (handles global default + per-folder/tag overrides)
+    const groupingMode = useMemo(() => {
+        return resolveListGrouping({
+            settings: {
+                noteGrouping: listConfig.noteGrouping,
+                folderAppearances: listConfig.folderAppearances,
+                tagAppearances: listConfig.tagAppearances
+            },
+            selectionType: selectionType ?? undefined,
+            folderPath: selectedFolder ? selectedFolder.path : null,
+            tag: selectedTag ?? null,
+            smartFolderAppearance: findSmartFolder(activeProfile.profile.smartFolders, selectedSmartFolder)?.appearance
+        }).effectiveGrouping;
+    }, [
+        listConfig.noteGrouping,
+        listConfig.folderAppearances,
+        listConfig.tagAppearances,
+        selectionType,
+        selectedFolder,
+        selectedTag,
+        activeProfile.profile.smartFolders,
+        selectedSmartFolder
+    ]);
+    const propertyGroupKey = getPropertyGroupingKey(groupingMode);
+
     const listItems = useMemo(() => {
         const items: ListPaneItem[] = [];
 
@@ -709,7 +621,7 @@ export function useListPaneData({
         });
 
         // Determine context filter based on selection type
-        // selectionType can be FOLDER, TAG, PROPERTY, FILE, or null - only context-backed types are used for pinned filtering
+        // selectionType can be FOLDER, TAG, PROPERTY, SMART_FOLDER, FILE, or null - only context-backed types are used for pinned filtering
         const contextFilter =
             selectionType === ItemType.TAG
                 ? ItemType.TAG
@@ -717,7 +629,9 @@ export function useListPaneData({
                   ? ItemType.FOLDER
                   : selectionType === ItemType.PROPERTY
                     ? ItemType.PROPERTY
-                    : undefined;
+                    : selectionType === ItemType.SMART_FOLDER
+                      ? ItemType.SMART_FOLDER
+                      : undefined;
         const restrictToFolderPath =
             listConfig.filterPinnedByFolder && selectionType === ItemType.FOLDER && selectedFolder ? selectedFolder.path : undefined;
         const pinnedPaths = collectPinnedPaths(
@@ -783,23 +697,15 @@ export function useListPaneData({
             });
         }
 
-        // Resolve effective grouping mode (handles global default + per-folder/tag overrides)
-        const groupingInfo = resolveListGrouping({
-            settings: {
-                noteGrouping: listConfig.noteGrouping,
-                folderAppearances: listConfig.folderAppearances,
-                tagAppearances: listConfig.tagAppearances
-            },
-            selectionType: selectionType ?? undefined,
-            folderPath: selectedFolder ? selectedFolder.path : null,
-            tag: selectedTag ?? null
-        });
-        const groupingMode = groupingInfo.effectiveGrouping;
         // Date grouping is only applied when sorting by date
         const shouldGroupByDate = groupingMode === 'date' && isDateSortOption(sortOption);
         const shouldGroupByFolder = groupingMode === 'folder' && selectionType === ItemType.FOLDER;
+        // Letter headers are only applied when sorting by title or file name
+        const alphabeticalNameSource = sortOption.startsWith('title') ? 'title' : sortOption.startsWith('filename') ? 'filename' : null;
+        const shouldGroupAlphabetically = groupingMode === 'alphabetical' && alphabeticalNameSource !== null;
+        const shouldGroupByValue = groupingMode === 'tag' || propertyGroupKey !== null;
 
-        if (!shouldGroupByDate && !shouldGroupByFolder) {
+        if (!shouldGroupByDate && !shouldGroupByFolder && !shouldGroupAlphabetically && !shouldGroupByValue) {
             // No grouping
             // If pinned notes exist and there are regular items, insert a header before regular notes
             if (pinnedFiles.length > 0 && unpinnedFiles.length > 0) {
@@ -837,6 +743,55 @@ export function useListPaneData({
 
                 pushFileItem(file);
             });
+        } else if (shouldGroupAlphabetically) {
+            // Group by first letter; files are already sorted by name so headers follow the sort direction
+            let currentGroup: string | null = null;
+            unpinnedFiles.forEach(file => {
+                const name = alphabeticalNameSource === 'title' ? getFileDisplayName(file) : file.basename;
+                const groupTitle = getAlphabeticalGroupLabel(name);
+
+                if (groupTitle !== currentGroup) {
+                    currentGroup = groupTitle;
+                    items.push({
+                        type: ListPaneItemType.HEADER,
+                        data: groupTitle,
+                        key: `header-letter:${groupTitle}`
+                    });
+                }
+
+                pushFileItem(file);
+            });
+        } else if (shouldGroupByValue) {
+            // Group by tag or property value, with notes without a value collected last
+            const parentTag = selectionType === ItemType.TAG ? selectedTag : null;
+            const valueGroups =
+                propertyGroupKey !== null
+                    ? groupFilesByValue(
+                          unpinnedFiles,
+                          file => {
+                              const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+                              const label = frontmatter ? getPropertyGroupValue(frontmatter[propertyGroupKey]) : null;
+                              return label !== null ? { key: label.toLowerCase(), label } : null;
+                          },
+                          { missingLabel: strings.listPane.noPropertyValue }
+                      )
+                    : groupFilesByValue(unpinnedFiles, file => getTagGroup(getCachedFileTags({ app, file, db }), parentTag), {
+                          missingLabel: strings.common.untagged,
+                          leadingKey: parentTag ? parentTag.toLowerCase() : null
+                      });
+            const groupPrefix = propertyGroupKey !== null ? 'property' : 'tag';
+
+            valueGroups.forEach(group => {
+                items.push({
+                    type: ListPaneItemType.HEADER,
+                    data: group.label,
+                    key: `header-${groupPrefix}:${group.key}`
+                });
+
+                group.files.forEach(file => {
+                    pushFileItem(file);
+                });
+            });
         } else {
             // Group by folder (first level relative to current selection or vault root)
             const baseFolderPath = selectedFolder?.path ?? null;
@@ -986,7 +941,10 @@ export function useListPaneData({
         selectionType,
         selectedFolder,
         selectedTag,
+        groupingMode,
+        propertyGroupKey,
         getFileTimestamps,
+        getFileDisplayName,
         searchMetaMap,
         sortOption,
         getDB,
@@ -1097,16 +1055,21 @@ export function useListPaneData({
             });
         }
 
-        const shouldRefreshOnFileModify = shouldRefreshOnFileModifyForSort(sortOption, settings.propertySortSecondary);
-        const shouldRefreshOnMetadataChange = shouldRefreshOnMetadataChangeForSort({
-            sortOption,
-            propertySortKey: settings.propertySortKey,
-            propertySortSecondary: settings.propertySortSecondary,
-            useFrontmatterMetadata: settings.useFrontmatterMetadata,
-            frontmatterNameField: settings.frontmatterNameField,
-            frontmatterCreatedField: settings.frontmatterCreatedField,
-            frontmatterModifiedField: settings.frontmatterModifiedField
-        });
+        const shouldRefreshOnFileModify = shouldRefreshOnFileModifyForSort(sortOption, settings.propertySortSecondary, sortChain);
+        const shouldRefreshOnContentChange = shouldRefreshOnContentChangeForSort(sortOption, sortChain);
+        // Property grouping reads frontmatter values when building group headers
+        const shouldRefreshOnMetadataChange =
+            propertyGroupKey !== null ||
+            shouldRefreshOnMetadataChangeForSort({
+                sortOption,
+                sortChain,
+                propertySortKey: settings.propertySortKey,
+                propertySortSecondary: settings.propertySortSecondary,
+                useFrontmatterMetadata: settings.useFrontmatterMetadata,
+                frontmatterNameField: settings.frontmatterNameField,
+                frontmatterCreatedField: settings.frontmatterCreatedField,
+                frontmatterModifiedField: settings.frontmatterModifiedField
+            });
 
         const vaultEvents = [
             app.vault.on('create', () => {
@@ -1190,6 +1153,18 @@ export function useListPaneData({
                     return;
                 }
 
+                if (operationActiveRef.current) {
+                    pendingRefreshRef.current = true;
+                } else {
+                    scheduleRefresh();
+                }
+                return;
+            } else if (selectionType === ItemType.SMART_FOLDER && selectedSmartFolder) {
+                // Frontmatter edits can move any markdown file into or out of the smart folder query
+                if (file.extension !== 'md') {
+                    return;
+                }
+
                 if (operationActiveRef.current) {
                     pendingRefreshRef.current = true;
                 } else {
@@ -1243,11 +1218,24 @@ export function useListPaneData({
         const dbUnsubscribe = db.onContentChange(changes => {
             let shouldRefresh = false;
             const isPropertyView = selectionType === ItemType.PROPERTY && selectedProperty;
+            const isSmartFolderView = selectionType === ItemType.SMART_FOLDER && selectedSmartFolder;
+
+            // Smart folder queries can reference any indexed field, so every content change may affect membership
+            if (isSmartFolderView) {
+                shouldRefresh = changes.some(
+                    change =>
+                        change.changes.tags !== undefined ||
+                        change.changes.properties !== undefined ||
+                        change.changes.taskUnfinished !== undefined ||
+                        change.changes.openTasks !== undefined ||
+                        change.changes.contentTerms !== undefined
+                );
+            }
 
             // React to tag/property changes that affect the current view
             const hasTagChanges = changes.some(change => change.changes.tags !== undefined);
             const hasPropertyChanges = changes.some(change => change.changes.properties !== undefined);
-            if (hasTagChanges || hasPropertyChanges) {
+            if (!shouldRefresh && (hasTagChanges || hasPropertyChanges)) {
                 const isTagView = selectionType === ItemType.TAG && selectedTag;
                 const isFolderView = selectionType === ItemType.FOLDER && selectedFolder;
 
@@ -1290,13 +1278,37 @@ export function useListPaneData({
                 }
             }
 
-            // React to task counter changes when task filters are active in the search query
+            // React to task counter and due date changes when task filters are active in the search query
             if (!shouldRefresh && hasTaskSearchFilters) {
                 shouldRefresh = changes.some(change => {
-                    return change.changes.taskUnfinished !== undefined && basePathSet.has(change.path);
+                    const hasTaskChange = change.changes.taskUnfinished !== undefined || change.changes.openTasks !== undefined;
+                    return hasTaskChange && basePathSet.has(change.path);
+                });
+            }
+
+            // React to content index updates when the search query matches note content
+            if (!shouldRefresh && hasContentSearchFilters) {
+                shouldRefresh = changes.some(change => {
+                    return change.changes.contentTerms !== undefined && basePathSet.has(change.path);
+                });
+            }
+
+            // React to word and task count updates when the list is sorted by them
+            if (!shouldRefresh && shouldRefreshOnContentChange) {
+                shouldRefresh = changes.some(change => {
+                    const hasCountChange =
+                        change.changes.wordCount !== undefined ||
+                        change.changes.taskTotal !== undefined ||
+                        change.changes.taskUnfinished !== undefined;
+                    return hasCountChange && basePathSet.has(change.path);
                 });
             }
 
+            // React to tag updates when the list is grouped by tag
+            if (!shouldRefresh && groupingMode === 'tag') {
+                shouldRefresh = changes.some(change => change.changes.tags !== undefined && basePathSet.has(change.path));
+            }
+
             if (!shouldRefresh) {
                 return;
             }
@@ -1323,17 +1335,22 @@ export function useListPaneData({
         selectedTag,
         selectedFolder,
         selectedProperty,
+        selectedSmartFolder,
         includeDescendantNotes,
         hiddenFilePropertyMatcher,
         hiddenFolders,
         hiddenFileTags,
         showHiddenItems,
         hasTaskSearchFilters,
+        hasContentSearchFilters,
         getDB,
         commandQueue,
         propertyTreeService,
         basePathSet,
         sortOption,
+        sortChain,
+        groupingMode,
+        propertyGroupKey,
         settings.propertySortKey,
         settings.propertySortSecondary,
         settings.useFrontmatterMetadata,
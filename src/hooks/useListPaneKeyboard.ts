@@ -24,6 +24,8 @@
  * - Multi-selection support (Shift+arrows, Cmd/Ctrl+A)
  * - Range selection (Shift+Home/End)
  * - File opening and deletion
+ * - User-bound file operations (rename, move, pin, tag, shortcuts, duplicate, reveal)
+ * - Optional Vim-style key sequences and type-ahead find
  * - Tab/arrow navigation to editor or back to navigation pane
  * - Page navigation
  */
@@ -33,20 +35,26 @@ import { TFile, FileView } from 'obsidian';
 import { Virtualizer } from '@tanstack/react-virtual';
 import { useSelectionState, useSelectionDispatch, resolvePrimarySelectedFile } from '../context/SelectionContext';
 import { useServices, useFileSystemOps } from '../context/ServicesContext';
+import { useFileCache } from '../context/StorageContext';
 import { useSettingsState } from '../context/SettingsContext';
 import { useUXPreferences } from '../context/UXPreferencesContext';
 import { useUIState, useUIDispatch } from '../context/UIStateContext';
-import { getSupportedLeaves, ListPaneItemType } from '../types';
+import { useShortcuts } from '../context/ShortcutsContext';
+import { getSupportedLeaves, ItemType, ListPaneItemType, type NavigatorContext } from '../types';
+import { ShortcutType } from '../types/shortcuts';
 import type { ListPaneItem } from '../types/virtualization';
 import { deleteSelectedFiles } from '../utils/deleteOperations';
 import { getFilesInRange } from '../utils/selectionUtils';
 import { useKeyboardNavigation, KeyboardNavigationHelpers } from './useKeyboardNavigation';
 import { useMultiSelection } from './useMultiSelection';
 import { useFileOpener } from './useFileOpener';
-import { matchesShortcut, KeyboardShortcutAction } from '../utils/keyboardShortcuts';
+import { usePaneKeyInput } from './usePaneKeyInput';
+import { getMatchingShortcutNumber, matchesShortcut, KeyboardShortcutAction } from '../utils/keyboardShortcuts';
 import { runAsyncAction } from '../utils/async';
 import { openFileInContext } from '../utils/openFileInContext';
 import { isEnterKey, resolveKeyboardOpenContext } from '../utils/keyboardOpenContext';
+import { openAddTagToFilesModal } from '../utils/tagModalHelpers';
+import { findTypeAheadMatch } from '../utils/typeAheadFind';
 
 /**
  * Check if a list item is selectable (file, not header or spacer)
@@ -76,6 +84,10 @@ interface UseListPaneKeyboardProps {
     onScheduleKeyboardOpenForFile?: (file: TFile) => void;
     /** Commit selection by opening the currently selected file */
     onCommitKeyboardOpen?: () => void;
+    /** Open a shortcut by its 1-based position in the shortcuts list */
+    onOpenShortcut?: (shortcutNumber: number) => Promise<boolean>;
+    /** Open and focus the search input (Vim `/`) */
+    onOpenSearch?: () => void;
 }
 
 /**
@@ -92,11 +104,14 @@ export function useListPaneKeyboard({
     onSelectFile,
     onScheduleKeyboardOpen,
     onScheduleKeyboardOpenForFile,
-    onCommitKeyboardOpen
+    onCommitKeyboardOpen,
+    onOpenShortcut,
+    onOpenSearch
 }: UseListPaneKeyboardProps) {
-    const { app, commandQueue, isMobile, tagTreeService, propertyTreeService } = useServices();
+    const { app, plugin, commandQueue, isMobile, metadataService, tagOperations, tagTreeService, propertyTreeService } = useServices();
     const openFileInWorkspace = useFileOpener();
     const fileSystemOps = useFileSystemOps();
+    const { getFileDisplayName } = useFileCache();
     const settings = useSettingsState();
     const uxPreferences = useUXPreferences();
     const includeDescendantNotes = uxPreferences.includeDescendantNotes;
@@ -106,6 +121,8 @@ export function useListPaneKeyboard({
     const uiState = useUIState();
     const uiDispatch = useUIDispatch();
     const multiSelection = useMultiSelection();
+    const { noteShortcutKeysByPath, addNoteShortcut, addShortcutsBatch, removeShortcut } = useShortcuts();
+    const { readVimAction, readTypeAheadQuery } = usePaneKeyInput();
 
     /**
      * Get current selection index
@@ -173,6 +190,177 @@ export function useListPaneKeyboard({
         [files, selectionState.selectedFiles, selectionDispatch, virtualizer, openFileInWorkspace, settings.enterToOpenFiles]
     );
 
+    /**
+     * Runs user-bound file operation shortcuts against the selected files.
+     * Returns true when the event matched one of the actions.
+     */
+    const handleFileOperationShortcut = useCallback(
+        (e: KeyboardEvent): boolean => {
+            const shortcuts = settings.keyboardShortcuts;
+
+            const shortcutNumber = getMatchingShortcutNumber(e, shortcuts);
+            if (shortcutNumber !== null) {
+                e.preventDefault();
+                if (onOpenShortcut) {
+                    runAsyncAction(() => onOpenShortcut(shortcutNumber));
+                }
+                return true;
+            }
+
+            // Re-resolve selected paths so files removed by sync are skipped
+            const getSelectedFiles = (): TFile[] => {
+                const selectedFiles = Array.from(selectionState.selectedFiles)
+                    .map(path => app.vault.getFileByPath(path))
+                    .filter((file): file is TFile => !!file);
+                if (selectedFiles.length > 0) {
+                    return selectedFiles;
+                }
+                const primaryFile = resolvePrimarySelectedFile(app, selectionState);
+                return primaryFile ? [primaryFile] : [];
+            };
+
+            const openSelectedFiles = (context: 'tab' | 'split') => {
+                const selectedFiles = getSelectedFiles();
+                runAsyncAction(async () => {
+                    for (const file of selectedFiles) {
+                        await openFileInContext({ app, commandQueue, file, context });
+                    }
+                });
+            };
+
+            if (matchesShortcut(e, shortcuts, KeyboardShortcutAction.PANE_RENAME)) {
+                e.preventDefault();
+                const file = resolvePrimarySelectedFile(app, selectionState);
+                if (file) {
+                    runAsyncAction(() => fileSystemOps.renameFile(file));
+                }
+                return true;
+            }
+
+            if (matchesShortcut(e, shortcuts, KeyboardShortcutAction.PANE_MOVE_TO_FOLDER)) {
+                e.preventDefault();
+                const selectedFiles = getSelectedFiles();
+                runAsyncAction(() =>
+                    fileSystemOps.moveFilesWithModal(selectedFiles, {
+                        selectedFile: selectionState.selectedFile,
+                        dispatch: selectionDispatch,
+                        allFiles: files
+                    })
+                );
+                return true;
+            }
+
+            if (matchesShortcut(e, shortcuts, KeyboardShortcutAction.PANE_DUPLICATE)) {
+                e.preventDefault();
+                const selectedFiles = getSelectedFiles();
+                runAsyncAction(async () => {
+                    for (const file of selectedFiles) {
+                        await fileSystemOps.duplicateNote(file);
+                    }
+                });
+                return true;
+            }
+
+            if (matchesShortcut(e, shortcuts, KeyboardShortcutAction.PANE_ADD_TO_SHORTCUTS)) {
+                e.preventDefault();
+                const selectedFiles = getSelectedFiles();
+                if (selectedFiles.length === 1) {
+                    // Single file toggles, matching the "Add to shortcuts" command
+                    const filePath = selectedFiles[0].path;
+                    const existingShortcutKey = noteShortcutKeysByPath.get(filePath);
+                    runAsyncAction(async () => {
+                        if (existingShortcutKey) {
+                            await removeShortcut(existingShortcutKey);
+                            return;
+                        }
+                        await addNoteShortcut(filePath);
+                    });
+                } else if (selectedFiles.length > 1) {
+                    const entries = selectedFiles.map(file => ({ type: ShortcutType.NOTE, path: file.path }));
+                    runAsyncAction(() => addShortcutsBatch(entries));
+                }
+                return true;
+            }
+
+            if (matchesShortcut(e, shortcuts, KeyboardShortcutAction.PANE_OPEN_IN_NEW_TAB)) {
+                e.preventDefault();
+                openSelectedFiles('tab');
+                return true;
+            }
+
+            if (matchesShortcut(e, shortcuts, KeyboardShortcutAction.PANE_OPEN_IN_SPLIT)) {
+                e.preventDefault();
+                openSelectedFiles('split');
+                return true;
+            }
+
+            if (matchesShortcut(e, shortcuts, KeyboardShortcutAction.PANE_REVEAL_IN_SYSTEM_EXPLORER)) {
+                e.preventDefault();
+                const file = resolvePrimarySelectedFile(app, selectionState);
+                // System explorer reveal is desktop-only
+                if (file && !isMobile) {
+                    runAsyncAction(() => fileSystemOps.revealInSystemExplorer(file));
+                }
+                return true;
+            }
+
+            if (matchesShortcut(e, shortcuts, KeyboardShortcutAction.LIST_TOGGLE_PIN)) {
+                e.preventDefault();
+                const selectedFiles = getSelectedFiles();
+                if (!metadataService || selectedFiles.length === 0) {
+                    return true;
+                }
+
+                const pinContext: NavigatorContext =
+                    selectionState.selectionType === ItemType.TAG
+                        ? 'tag'
+                        : selectionState.selectionType === ItemType.PROPERTY
+                          ? 'property'
+                          : selectionState.selectionType === ItemType.SMART_FOLDER
+                            ? 'smart-folder'
+                            : 'folder';
+                // Pin all files when any is unpinned, otherwise unpin all
+                const anyUnpinned = selectedFiles.some(file => !metadataService.isFilePinned(file.path, pinContext));
+                runAsyncAction(async () => {
+                    for (const file of selectedFiles) {
+                        if (anyUnpinned === !metadataService.isFilePinned(file.path, pinContext)) {
+                            await metadataService.togglePin(file.path, pinContext);
+                        }
+                    }
+                });
+                return true;
+            }
+
+            if (matchesShortcut(e, shortcuts, KeyboardShortcutAction.LIST_ADD_TAG)) {
+                e.preventDefault();
+                if (tagOperations) {
+                    openAddTagToFilesModal({ app, plugin, tagOperations, files: getSelectedFiles() });
+                }
+                return true;
+            }
+
+            return false;
+        },
+        [
+            settings.keyboardShortcuts,
+            onOpenShortcut,
+            selectionState,
+            selectionDispatch,
+            app,
+            plugin,
+            commandQueue,
+            isMobile,
+            fileSystemOps,
+            metadataService,
+            tagOperations,
+            files,
+            noteShortcutKeysByPath,
+            addNoteShortcut,
+            addShortcutsBatch,
+            removeShortcut
+        ]
+    );
+
     /**
      * List pane-specific keyboard handler
      */
@@ -243,6 +431,42 @@ export function useListPaneKeyboard({
                 return;
             }
 
+            if (handleFileOperationShortcut(e)) {
+                return;
+            }
+
+            const vimAction = readVimAction(e);
+            if (vimAction === 'pending') {
+                e.preventDefault();
+                return;
+            }
+            if (vimAction === 'search') {
+                e.preventDefault();
+                onOpenSearch?.();
+                return;
+            }
+            if (vimAction === 'collapse' || vimAction === 'expand') {
+                // List rows have nothing to fold, but the sequence is still consumed
+                e.preventDefault();
+                return;
+            }
+
+            const typeAheadQuery = vimAction ? null : readTypeAheadQuery(e);
+            if (typeAheadQuery) {
+                e.preventDefault();
+                const matchIndex = findTypeAheadMatch(
+                    items,
+                    item => (isSelectableListItem(item) && item.data instanceof TFile ? getFileDisplayName(item.data) : null),
+                    typeAheadQuery,
+                    currentIndex
+                );
+                if (matchIndex >= 0) {
+                    selectItemAtIndex(items[matchIndex]);
+                    helpers.scrollToIndex(matchIndex);
+                }
+                return;
+            }
+
             const openFileFromShiftSelection = (file: TFile, shouldDebounceOpen: boolean) => {
                 // Debounce workspace opens while holding ArrowUp/ArrowDown so keyup can commit the final selection.
                 if (shouldDebounceOpen && onScheduleKeyboardOpenForFile) {
@@ -411,7 +635,7 @@ export function useListPaneKeyboard({
                 } else if (!uiState.singlePane) {
                     uiDispatch({ type: 'SET_FOCUSED_PANE', pane: 'navigation' });
                 }
-            } else if (matchesShortcut(e, shortcuts, KeyboardShortcutAction.DELETE_SELECTED)) {
+            } else if (vimAction === 'delete' || matchesShortcut(e, shortcuts, KeyboardShortcutAction.DELETE_SELECTED)) {
                 if (selectionState.selectedFile || selectionState.selectedFiles.size > 0) {
                     e.preventDefault();
                     // Delete selected files
@@ -457,14 +681,14 @@ export function useListPaneKeyboard({
                     }
                 }
                 return;
-            } else if (matchesShortcut(e, shortcuts, KeyboardShortcutAction.PANE_HOME)) {
+            } else if (vimAction === 'first' || matchesShortcut(e, shortcuts, KeyboardShortcutAction.PANE_HOME)) {
                 e.preventDefault();
                 const firstSelectableIndex = getFirstSelectableIndex();
                 targetIndex = firstSelectableIndex;
                 if (firstSelectableIndex >= 0) {
                     shouldScrollToTop = true;
                 }
-            } else if (matchesShortcut(e, shortcuts, KeyboardShortcutAction.PANE_END)) {
+            } else if (vimAction === 'last' || matchesShortcut(e, shortcuts, KeyboardShortcutAction.PANE_END)) {
                 e.preventDefault();
                 for (let i = items.length - 1; i >= 0; i--) {
                     const item = helpers.getItemAt(i);
@@ -507,6 +731,11 @@ export function useListPaneKeyboard({
             selectionDispatch,
             selectItemAtIndex,
             handleRangeSelection,
+            handleFileOperationShortcut,
+            readVimAction,
+            readTypeAheadQuery,
+            onOpenSearch,
+            getFileDisplayName,
             items,
             virtualizer,
             includeDescendantNotes,
@@ -58,6 +58,8 @@ import type { SelectionState } from '../context/SelectionContext';
 import { calculateCompactListMetrics } from '../utils/listPaneMetrics';
 import { getPropertyRowCount, getListPaneMeasurements, shouldShowFeatureImageArea } from '../utils/listPaneMeasurements';
 import type { PropertySelectionNodeId } from '../utils/propertyTree';
+import { getActiveSmartFolders } from '../utils/vaultProfiles';
+import { getEffectiveSortChain } from '../utils/sortUtils';
 
 /**
  * Parameters for the useListPaneScroll hook
@@ -302,7 +304,15 @@ export function useListPaneScroll({
                 visiblePropertyKeys
             });
 
-            const hasVisiblePillRows = hasTagRow || propertyRowCount > 0;
+            // Mirrors FileItem: the task progress row only renders for markdown notes with tasks outside compact mode
+            const hasTaskProgressRow =
+                settings.showTaskProgress &&
+                !isCompactMode &&
+                file?.extension === 'md' &&
+                typeof fileRecord?.taskTotal === 'number' &&
+                fileRecord.taskTotal > 0;
+
+            const hasVisiblePillRows = hasTagRow || propertyRowCount > 0 || hasTaskProgressRow;
             const shouldSuppressEmptyPreviewLines = !hasPreviewContent && hasVisiblePillRows;
 
             // Note: Preview rows are calculated differently based on context
@@ -394,6 +404,10 @@ export function useListPaneScroll({
                 textContentHeight += heights.tagRowHeight * propertyRowCount;
             }
 
+            if (hasTaskProgressRow) {
+                textContentHeight += heights.tagRowHeight;
+            }
+
             // Apply min-height constraint AFTER including all content (but not in compact mode)
             // This ensures text content aligns with feature image height when shown
             if (!isCompactMode && textContentHeight < heights.featureImageHeight) {
@@ -749,6 +763,7 @@ export function useListPaneScroll({
         settings.showFileProperties,
         settings.showPropertiesOnSeparateRows,
         settings.showFilePropertiesInCompactMode,
+        settings.showTaskProgress,
         visiblePropertyKeySignature,
         settings.showParentFolder,
         settings.showTags,
@@ -778,7 +793,9 @@ export function useListPaneScroll({
      * Effect includes all dependencies but only scrolls when config actually changes.
      */
     // Calculate effective sort order based on folder/tag overrides or default
-    const { defaultFolderSort, folderSortOverrides, tagSortOverrides } = settings;
+    const { defaultFolderSort, folderSortOverrides, folderSortChains, tagSortOverrides } = settings;
+    const selectedSmartFolder = selectionState.selectedSmartFolder;
+    const smartFolders = getActiveSmartFolders(settings);
     const effectiveSort = useMemo(() => {
         if (
             selectionState.selectionType === 'folder' &&
@@ -791,15 +808,35 @@ export function useListPaneScroll({
         if (selectionState.selectionType === 'tag' && selectedTag && tagSortOverrides && tagSortOverrides[selectedTag]) {
             return tagSortOverrides[selectedTag];
         }
+        if (selectionState.selectionType === 'smart-folder' && selectedSmartFolder) {
+            const smartFolder = smartFolders.find(folder => folder.id === selectedSmartFolder);
+            if (smartFolder?.sortOverride) {
+                return smartFolder.sortOverride;
+            }
+        }
         return defaultFolderSort;
-    }, [defaultFolderSort, folderSortOverrides, tagSortOverrides, selectionState.selectionType, selectedFolder, selectedTag]);
+    }, [
+        defaultFolderSort,
+        folderSortOverrides,
+        tagSortOverrides,
+        smartFolders,
+        selectionState.selectionType,
+        selectedFolder,
+        selectedTag,
+        selectedSmartFolder
+    ]);
+    // Serialized sort chain so edits to the chain keys also preserve scroll position
+    const effectiveSortChainKey = useMemo(() => {
+        const chain = getEffectiveSortChain({ folderSortChains }, selectionState.selectionType, selectedFolder);
+        return chain ? JSON.stringify(chain) : '';
+    }, [folderSortChains, selectionState.selectionType, selectedFolder]);
     useEffect(() => {
         if (!rowVirtualizer || !isScrollContainerReady) {
             return;
         }
 
         // Build a key from the config values that should trigger scroll preservation
-        const configKey = `${includeDescendantNotes}-${settings.optimizeNoteHeight}-${settings.noteGrouping}-${effectiveSort}-${settings.propertySortKey}-${settings.propertySortSecondary}-${JSON.stringify(
+        const configKey = `${includeDescendantNotes}-${settings.optimizeNoteHeight}-${settings.noteGrouping}-${effectiveSort}-${effectiveSortChainKey}-${settings.propertySortKey}-${settings.propertySortSecondary}-${JSON.stringify(
             folderSettings
         )}`;
 
@@ -843,6 +880,7 @@ export function useListPaneScroll({
         settings.propertySortSecondary,
         folderSettings,
         effectiveSort,
+        effectiveSortChainKey,
         setPending
     ]);
 
@@ -854,7 +892,7 @@ export function useListPaneScroll({
         if (!rowVirtualizer || !isScrollContainerReady) return;
 
         const propertySelectionKey = selectedProperty ?? '';
-        const contextKey = `${selectedFolder?.path || ''}_${selectedTag || ''}_${propertySelectionKey}`;
+        const contextKey = `${selectedFolder?.path || ''}_${selectedTag || ''}_${propertySelectionKey}_${selectedSmartFolder || ''}`;
         const prev = contextIndexVersionRef.current;
 
         // Initialize on first run or when context changes
@@ -884,6 +922,7 @@ export function useListPaneScroll({
         selectedFolder?.path,
         selectedTag,
         selectedProperty,
+        selectedSmartFolder,
         filePathToIndex,
         filePathToIndex.size,
         selectedFile,
@@ -904,7 +943,7 @@ export function useListPaneScroll({
 
         // Create a key representing the current list context
         const propertySelectionKey = selectedProperty ?? '';
-        const currentListKey = `${selectedFolder?.path || ''}_${selectedTag || ''}_${propertySelectionKey}`;
+        const currentListKey = `${selectedFolder?.path || ''}_${selectedTag || ''}_${propertySelectionKey}_${selectedSmartFolder || ''}`;
         const listChanged = prevListKeyRef.current !== currentListKey;
 
         if (listChanged) {
@@ -1006,6 +1045,7 @@ export function useListPaneScroll({
         selectedFolder?.path,
         selectedTag,
         selectedProperty,
+        selectedSmartFolder,
         selectedFile,
         selectionState.isFolderNavigation,
         selectionDispatch,
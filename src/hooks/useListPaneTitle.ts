@@ -32,9 +32,16 @@ import { hasSubfolders } from '../utils/fileFilters';
 import { resolveFolderNoteName } from '../utils/folderNoteName';
 import { EXCALIDRAW_BASENAME_SUFFIX } from '../utils/fileNameUtils';
 import { getVirtualTagCollection, VIRTUAL_TAG_COLLECTION_IDS } from '../utils/virtualTagCollections';
-import { getActiveHiddenFolders } from '../utils/vaultProfiles';
+import { getActiveHiddenFolders, getActiveSmartFolders } from '../utils/vaultProfiles';
+import { getSmartFolderLineage } from '../utils/smartFolders';
 import { resolveUXIcon } from '../utils/uxIcons';
-import { buildPropertyKeyNodeId, parsePropertyNodeId, type PropertySelectionNodeId } from '../utils/propertyTree';
+import {
+    buildPropertyKeyNodeId,
+    getPropertyHierarchyNodeLineage,
+    parsePropertyHierarchyNodeId,
+    parsePropertyNodeId,
+    type PropertySelectionNodeId
+} from '../utils/propertyTree';
 
 const FOLDER_NOTE_EXTENSIONS = Object.values(FOLDER_NOTE_TYPE_EXTENSIONS);
 
@@ -69,7 +76,7 @@ export type BreadcrumbSegment =
       }
     | {
           label: string;
-          targetType: 'folder' | 'tag';
+          targetType: 'folder' | 'tag' | 'smart-folder';
           targetPath: string;
           isLast: boolean;
       }
@@ -100,10 +107,11 @@ export function useListPaneTitle(): UseListPaneTitleResult {
     const showHiddenItems = uxPreferences.showHiddenItems;
     // Memoized list of folders hidden by the active vault profile
     const hiddenFolders = useMemo(() => getActiveHiddenFolders(settings), [settings]);
+    const smartFolders = useMemo(() => getActiveSmartFolders(settings), [settings]);
     const selectionState = useSelectionState();
     const selectedFolderPath = selectionState.selectedFolder?.path ?? null;
     const selectedFolderName = selectionState.selectedFolder?.name ?? null;
-    const { getTagDisplayPath, getPropertyTree } = useFileCache();
+    const { getTagDisplayPath, getPropertyTree, getPropertyHierarchyTree } = useFileCache();
     const expansionState = useExpansionState();
     const metadataService = useMetadataService();
     const [folderNoteVersion, setFolderNoteVersion] = useState(0);
@@ -257,13 +265,18 @@ export function useListPaneTitle(): UseListPaneTitleResult {
             }
 
             const parsedPropertyNode = parsePropertyNodeId(selectionState.selectedProperty);
-            if (parsedPropertyNode?.valuePath) {
+            const parsedHierarchyNode = parsePropertyHierarchyNodeId(selectionState.selectedProperty);
+            if (parsedPropertyNode?.valuePath || (parsedHierarchyNode && parsedHierarchyNode.valuePaths.length > 0)) {
                 return resolveUXIcon(settings.interfaceIcons, 'nav-property-value');
             }
 
             return resolveUXIcon(settings.interfaceIcons, 'nav-property');
         }
 
+        if (selectionState.selectionType === ItemType.SMART_FOLDER && selectionState.selectedSmartFolder) {
+            return resolveUXIcon(settings.interfaceIcons, 'nav-smart-folder');
+        }
+
         return '';
     }, [
         expansionState.expandedFolders,
@@ -271,6 +284,7 @@ export function useListPaneTitle(): UseListPaneTitleResult {
         selectionState.selectedFolder,
         selectionState.selectedTag,
         selectionState.selectedProperty,
+        selectionState.selectedSmartFolder,
         selectionState.selectionType,
         hiddenFolders,
         showHiddenItems,
@@ -424,6 +438,20 @@ export function useListPaneTitle(): UseListPaneTitleResult {
                 };
             }
 
+            // Hierarchy breadcrumbs list the hierarchy name followed by the value selected at each level
+            const hierarchyLineage = getPropertyHierarchyNodeLineage(getPropertyHierarchyTree(), propertyNodeId);
+            if (hierarchyLineage.length > 0) {
+                return {
+                    desktopTitle: hierarchyLineage[hierarchyLineage.length - 1].displayPath,
+                    breadcrumbSegments: hierarchyLineage.map((node, index): BreadcrumbSegment => {
+                        if (index === hierarchyLineage.length - 1) {
+                            return { label: node.displayPath, targetType: 'none', isLast: true };
+                        }
+                        return { label: node.displayPath, targetType: 'property', targetPath: node.id, isLast: false };
+                    })
+                };
+            }
+
             const parsed = parsePropertyNodeId(propertyNodeId);
             if (!parsed) {
                 return {
@@ -455,6 +483,34 @@ export function useListPaneTitle(): UseListPaneTitleResult {
             };
         }
 
+        if (selectionState.selectionType === ItemType.SMART_FOLDER && selectionState.selectedSmartFolder) {
+            const lineage = getSmartFolderLineage(smartFolders, selectionState.selectedSmartFolder);
+            if (lineage.length > 0) {
+                const breadcrumb = lineage.map((folder, index): BreadcrumbSegment => {
+                    const isLast = index === lineage.length - 1;
+                    if (isLast) {
+                        return {
+                            label: folder.name,
+                            targetType: 'none',
+                            isLast: true
+                        };
+                    }
+
+                    return {
+                        label: folder.name,
+                        targetType: 'smart-folder',
+                        targetPath: folder.id,
+                        isLast: false
+                    };
+                });
+
+                return {
+                    desktopTitle: lineage[lineage.length - 1].name,
+                    breadcrumbSegments: breadcrumb
+                };
+            }
+        }
+
         const noSelectionBreadcrumb: BreadcrumbSegment[] = [
             {
                 label: strings.common.noSelection,
@@ -471,12 +527,15 @@ export function useListPaneTitle(): UseListPaneTitleResult {
         app.vault,
         getTagDisplayPath,
         getPropertyTree,
+        getPropertyHierarchyTree,
         metadataService,
         selectionState.selectedFolder,
         selectionState.selectedTag,
         selectionState.selectedProperty,
+        selectionState.selectedSmartFolder,
         selectionState.selectionType,
         settings.customVaultName,
+        smartFolders,
         metadataVersion
     ]);
 
@@ -44,6 +44,7 @@ import {
     TAGS_ROOT_VIRTUAL_FOLDER_ID,
     UNTAGGED_TAG_ID,
     PROPERTIES_ROOT_VIRTUAL_FOLDER_ID,
+    SMART_FOLDERS_ROOT_VIRTUAL_FOLDER_ID,
     NavigationPaneItemType,
     VirtualFolder,
     ItemType,
@@ -76,6 +77,7 @@ import { useRootFolderOrder, type RootFileChangeEvent } from './useRootFolderOrd
 import { useRootPropertyOrder } from './useRootPropertyOrder';
 import { useRootTagOrder } from './useRootTagOrder';
 import { getFolderNote, getFolderNoteDetectionSettings } from '../utils/folderNotes';
+import { collectSmartFolderFiles } from '../utils/fileFinder';
 import { getDBInstance, getDBInstanceOrNull } from '../storage/fileOperations';
 import { naturalCompare } from '../utils/sortUtils';
 import type { NoteCountInfo } from '../types/noteCounts';
@@ -88,6 +90,7 @@ import { casefold } from '../utils/recordUtils';
 import {
     getDirectPropertyKeyNoteCount,
     getTotalPropertyNoteCount,
+    isPropertyHierarchyNodeId,
     normalizePropertyNodeId,
     parsePropertyNodeId,
     resolvePropertyShortcutNodeId,
@@ -107,6 +110,8 @@ import { getParentFolderPath, getPathBaseName } from '../utils/pathUtils';
 import { resolveFolderNoteName } from '../utils/folderNoteName';
 import { EXCALIDRAW_BASENAME_SUFFIX } from '../utils/fileNameUtils';
 import { FOLDER_NOTE_TYPE_EXTENSIONS } from '../types/folderNote';
+import type { SmartFolder } from '../types/smartFolders';
+import { getOrderedRootSmartFolders, getSmartFolderChildren } from '../utils/smartFolders';
 
 // Checks if a navigation item is a shortcut-related item (virtual folder, shortcut, or header)
 const isShortcutNavigationItem = (item: CombinedNavigationItem): boolean => {
@@ -522,6 +527,8 @@ interface UseNavigationPaneDataResult {
     propertyCounts: Map<string, NoteCountInfo>;
     /** Map from folder path to current/descendant note counts */
     folderCounts: Map<string, NoteCountInfo>;
+    /** Map from smart folder id to matching note counts */
+    smartFolderCounts: Map<string, NoteCountInfo>;
     /** Ordered list of root-level folders */
     rootLevelFolders: TFolder[];
     /** Paths from settings that are not currently present in the vault */
@@ -661,6 +668,10 @@ export function useNavigationPaneData({
     const tagTree = useMemo(() => fileData.tagTree ?? new Map<string, TagTreeNode>(), [fileData.tagTree]);
     // Extract property tree data from file cache
     const propertyTree = useMemo(() => fileData.propertyTree ?? new Map<string, PropertyTreeNode>(), [fileData.propertyTree]);
+    const propertyHierarchyTree = useMemo(
+        () => fileData.propertyHierarchyTree ?? new Map<string, PropertyTreeNode>(),
+        [fileData.propertyHierarchyTree]
+    );
     const untaggedCount = fileData.untagged;
 
     // Create matcher for hidden tag patterns (supports "archive", "temp*", "*draft")
@@ -1221,6 +1232,7 @@ export function useNavigationPaneData({
     const propertySectionBase = useMemo((): {
         propertiesSectionActive: boolean;
         keyNodes: PropertyTreeNode[];
+        hierarchyNodes: PropertyTreeNode[];
         collectionCount: NoteCountInfo | undefined;
         resolvedRootPropertyKeys: string[];
     } => {
@@ -1228,6 +1240,7 @@ export function useNavigationPaneData({
             return {
                 propertiesSectionActive: false,
                 keyNodes: [],
+                hierarchyNodes: [],
                 collectionCount: undefined,
                 resolvedRootPropertyKeys: []
             };
@@ -1244,8 +1257,17 @@ export function useNavigationPaneData({
 
         keyNodes.sort(effectiveComparator);
 
+        // Property hierarchies follow the key nodes in the order they are defined in settings
+        const hierarchyNodes: PropertyTreeNode[] = [];
+        settings.propertyHierarchies.forEach(hierarchy => {
+            const hierarchyNode = propertyHierarchyTree.get(hierarchy.id);
+            if (hierarchyNode) {
+                hierarchyNodes.push(hierarchyNode);
+            }
+        });
+
         let collectionCount: NoteCountInfo | undefined;
-        const shouldShowRootFolder = settings.showAllPropertiesFolder || keyNodes.length === 0;
+        const shouldShowRootFolder = settings.showAllPropertiesFolder || (keyNodes.length === 0 && hierarchyNodes.length === 0);
         const shouldComputeCollectionCount = settings.showNoteCount && (shouldShowRootFolder || hasRootPropertyShortcut);
 
         if (shouldComputeCollectionCount) {
@@ -1264,15 +1286,18 @@ export function useNavigationPaneData({
         return {
             propertiesSectionActive: true,
             keyNodes,
+            hierarchyNodes,
             collectionCount,
             resolvedRootPropertyKeys: keyNodes.map(node => node.key)
         };
     }, [
         propertyKeyComparator,
         propertyTree,
+        propertyHierarchyTree,
         rootPropertyOrderMap,
         includeDescendantNotes,
         hasRootPropertyShortcut,
+        settings.propertyHierarchies,
         settings.showAllPropertiesFolder,
         settings.showNoteCount,
         settings.showProperties,
@@ -1292,8 +1317,9 @@ export function useNavigationPaneData({
 
         const rootId = PROPERTIES_ROOT_VIRTUAL_FOLDER_ID;
         const keyNodes = propertySectionBase.keyNodes;
+        const hierarchyNodes = propertySectionBase.hierarchyNodes;
         const collectionCount = propertySectionBase.collectionCount;
-        const shouldShowRootFolder = settings.showAllPropertiesFolder || keyNodes.length === 0;
+        const shouldShowRootFolder = settings.showAllPropertiesFolder || (keyNodes.length === 0 && hierarchyNodes.length === 0);
         const rootLevel = shouldShowRootFolder ? 1 : 0;
         const childLevel = rootLevel + 1;
 
@@ -1311,7 +1337,7 @@ export function useNavigationPaneData({
                 key: rootId,
                 isSelectable: true,
                 propertyCollectionId: PROPERTIES_ROOT_VIRTUAL_FOLDER_ID,
-                hasChildren: keyNodes.length > 0,
+                hasChildren: keyNodes.length > 0 || hierarchyNodes.length > 0,
                 showFileCount: settings.showNoteCount,
                 noteCount: collectionCount
             });
@@ -1362,10 +1388,33 @@ export function useNavigationPaneData({
             }
         });
 
+        // Hierarchy value nodes nest the values of the next level key below each value
+        const hierarchyChildComparator = createPropertyComparator({
+            order: settings.propertySortOrder,
+            compareAlphabetically: comparePropertyValueNodesAlphabetically,
+            getFrequency: node => node.notesWithValue.size
+        });
+        const appendHierarchyNode = (node: PropertyTreeNode, level: number) => {
+            items.push({
+                type: node.kind === 'key' ? NavigationPaneItemType.PROPERTY_KEY : NavigationPaneItemType.PROPERTY_VALUE,
+                data: node,
+                level,
+                key: node.id
+            });
+
+            if (expansionState.expandedProperties.has(node.id) && node.children.size > 0) {
+                Array.from(node.children.values())
+                    .sort(hierarchyChildComparator)
+                    .forEach(child => appendHierarchyNode(child, level + 1));
+            }
+        };
+        hierarchyNodes.forEach(node => appendHierarchyNode(node, rootLevel));
+
         return { propertyItems: items, propertiesSectionActive: true };
     }, [
         includeDescendantNotes,
         propertySectionBase.collectionCount,
+        propertySectionBase.hierarchyNodes,
         propertySectionBase.keyNodes,
         propertySectionBase.propertiesSectionActive,
         settings.interfaceIcons,
@@ -1377,6 +1426,60 @@ export function useNavigationPaneData({
         expansionState.expandedProperties
     ]);
 
+    const smartFolderItems = useMemo((): CombinedNavigationItem[] => {
+        const smartFolders = activeProfile.profile.smartFolders ?? [];
+        if (smartFolders.length === 0) {
+            return [];
+        }
+
+        const rootId = SMART_FOLDERS_ROOT_VIRTUAL_FOLDER_ID;
+        const items: CombinedNavigationItem[] = [
+            {
+                type: NavigationPaneItemType.VIRTUAL_FOLDER,
+                data: {
+                    id: rootId,
+                    name: strings.navigationPane.smartFolders,
+                    icon: resolveUXIcon(settings.interfaceIcons, 'nav-smart-folders')
+                },
+                level: 0,
+                key: rootId,
+                hasChildren: true
+            }
+        ];
+
+        if (!expansionState.expandedVirtualFolders.has(rootId)) {
+            return items;
+        }
+
+        const smartFolderIcon = resolveUXIcon(settings.interfaceIcons, 'nav-smart-folder');
+        // Appends a smart folder and, when expanded, its nested smart folders
+        const appendSmartFolder = (folder: SmartFolder, level: number) => {
+            const children = getSmartFolderChildren(smartFolders, folder.id);
+            items.push({
+                type: NavigationPaneItemType.SMART_FOLDER,
+                data: folder,
+                level,
+                key: folder.id,
+                hasChildren: children.length > 0,
+                icon: smartFolderIcon
+            });
+
+            if (children.length > 0 && expansionState.expandedVirtualFolders.has(folder.id)) {
+                children.forEach(child => appendSmartFolder(child, level + 1));
+            }
+        };
+
+        getOrderedRootSmartFolders(smartFolders, activeProfile.profile.smartFolderOrder ?? []).forEach(folder =>
+            appendSmartFolder(folder, 1)
+        );
+        return items;
+    }, [
+        activeProfile.profile.smartFolders,
+        activeProfile.profile.smartFolderOrder,
+        expansionState.expandedVirtualFolders,
+        settings.interfaceIcons
+    ]);
+
     /**
      * Pre-compute parsed excluded folders to avoid repeated parsing
      */
@@ -1872,6 +1975,7 @@ export function useNavigationPaneData({
         const shouldIncludeFoldersSection = folderItems.length > 0;
         const shouldIncludeTagsSection = settings.showTags && tagItems.length > 0;
         const shouldIncludePropertiesSection = propertiesSectionActive && propertyItems.length > 0;
+        const shouldIncludeSmartFoldersSection = smartFolderItems.length > 0;
 
         // Builds sections in the user-specified order
         const orderedSections: { id: NavigationSectionId; items: CombinedNavigationItem[] }[] = [];
@@ -1904,6 +2008,11 @@ export function useNavigationPaneData({
                         orderedSections.push({ id: NavigationSectionId.PROPERTIES, items: propertyItems });
                     }
                     break;
+                case NavigationSectionId.SMART_FOLDERS:
+                    if (shouldIncludeSmartFoldersSection) {
+                        orderedSections.push({ id: NavigationSectionId.SMART_FOLDERS, items: smartFolderItems });
+                    }
+                    break;
                 default:
                     break;
             }
@@ -1945,6 +2054,7 @@ export function useNavigationPaneData({
         recentNotesItems,
         propertyItems,
         propertiesSectionActive,
+        smartFolderItems,
         normalizedSectionOrder,
         settings.showShortcuts,
         shouldPinRecentNotes,
@@ -2300,6 +2410,8 @@ export function useNavigationPaneData({
                 setNavigationIndex(indexMap, ItemType.PROPERTY, item.key, index);
             } else if (item.type === NavigationPaneItemType.PROPERTY_KEY || item.type === NavigationPaneItemType.PROPERTY_VALUE) {
                 setNavigationIndex(indexMap, ItemType.PROPERTY, item.data.id, index);
+            } else if (item.type === NavigationPaneItemType.SMART_FOLDER) {
+                setNavigationIndex(indexMap, ItemType.SMART_FOLDER, item.data.id, index);
             }
         });
 
@@ -2330,6 +2442,7 @@ export function useNavigationPaneData({
     const lastTagCountsRef = useRef<Map<string, NoteCountInfo>>(new Map());
     const lastPropertyCountsRef = useRef<Map<string, NoteCountInfo>>(new Map());
     const lastFolderCountsRef = useRef<Map<string, NoteCountInfo>>(new Map());
+    const lastSmartFolderCountsRef = useRef<Map<string, NoteCountInfo>>(new Map());
 
     /**
      * Pre-compute tag counts to avoid expensive calculations during render
@@ -2422,7 +2535,8 @@ export function useNavigationPaneData({
         const propertyTree = fileData.propertyTree ?? new Map<string, PropertyTreeNode>();
 
         visiblePropertyNodes.forEach(node => {
-            if (node.kind === 'key') {
+            // Hierarchy nodes count notes without a value for the next level as direct notes, like key nodes
+            if (node.kind === 'key' || isPropertyHierarchyNodeId(node.id)) {
                 const current = getDirectPropertyKeyNoteCount(node);
                 if (!includeDescendantNotes) {
                     counts.set(node.id, { current, descendants: 0, total: current });
@@ -2562,6 +2676,45 @@ export function useNavigationPaneData({
         }
     }, [computedFolderCounts, settings.showNoteCount]);
 
+    /**
+     * Pre-compute smart folder counts by evaluating the saved queries of visible smart folders
+     */
+    const computedSmartFolderCounts = useMemo((): Map<string, NoteCountInfo> | null => {
+        if (!isVisible || !settings.showNoteCount) {
+            return null;
+        }
+
+        const counts = new Map<string, NoteCountInfo>();
+        const visibility = { includeDescendantNotes, showHiddenItems };
+        itemsWithMetadata.forEach(item => {
+            if (item.type === NavigationPaneItemType.SMART_FOLDER) {
+                const current = collectSmartFolderFiles(item.data.id, settings, visibility, app).length;
+                counts.set(item.data.id, { current, descendants: 0, total: current });
+            }
+        });
+
+        return counts;
+        // NOTE TO REVIEWER: Including **fileChangeVersion** and **fileData** to re-run queries when notes or their metadata change
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [itemsWithMetadata, settings, includeDescendantNotes, showHiddenItems, app, isVisible, fileChangeVersion, fileData]);
+
+    const smartFolderCounts = useMemo(() => {
+        if (!settings.showNoteCount) {
+            return new Map<string, NoteCountInfo>();
+        }
+        return computedSmartFolderCounts ?? lastSmartFolderCountsRef.current;
+    }, [computedSmartFolderCounts, settings.showNoteCount]);
+
+    useEffect(() => {
+        if (!settings.showNoteCount) {
+            lastSmartFolderCountsRef.current = new Map();
+            return;
+        }
+        if (computedSmartFolderCounts) {
+            lastSmartFolderCountsRef.current = computedSmartFolderCounts;
+        }
+    }, [computedSmartFolderCounts, settings.showNoteCount]);
+
     // Refresh folder counts when frontmatter changes (e.g., hide/unhide via frontmatter properties)
     useEffect(() => {
         const bumpCounts = debounce(
@@ -2598,6 +2751,7 @@ export function useNavigationPaneData({
         tagCounts,
         propertyCounts,
         folderCounts,
+        smartFolderCounts,
         rootLevelFolders,
         missingRootFolderPaths,
         resolvedRootTagKeys,
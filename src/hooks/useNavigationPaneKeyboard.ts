@@ -24,6 +24,8 @@
  * - Expand/collapse with left/right arrows
  * - Navigate to parent items
  * - Delete folders
+ * - User-bound folder, tag and property operations (rename, move, shortcuts, duplicate, reveal)
+ * - Optional Vim-style key sequences and type-ahead find
  * - Tab/arrow navigation to switch panes
  * - Page navigation
  */
@@ -37,16 +39,21 @@ import { useServices, useFileSystemOps } from '../context/ServicesContext';
 import { useSettingsState } from '../context/SettingsContext';
 import { useUXPreferences } from '../context/UXPreferencesContext';
 import { useUIState, useUIDispatch } from '../context/UIStateContext';
+import { useShortcuts } from '../context/ShortcutsContext';
 import { NavigationPaneItemType, ItemType, PROPERTIES_ROOT_VIRTUAL_FOLDER_ID, TAGGED_TAG_ID } from '../types';
 import type { CombinedNavigationItem, VirtualFolderItem } from '../types/virtualization';
 import { deleteSelectedFolder } from '../utils/deleteOperations';
 import { useKeyboardNavigation, KeyboardNavigationHelpers } from './useKeyboardNavigation';
-import { matchesShortcut, KeyboardShortcutAction } from '../utils/keyboardShortcuts';
+import { usePaneKeyInput } from './usePaneKeyInput';
+import { getMatchingShortcutNumber, matchesShortcut, KeyboardShortcutAction } from '../utils/keyboardShortcuts';
 import { runAsyncAction } from '../utils/async';
 import { getNavigationIndex } from '../utils/navigationIndex';
 import { getFolderNote, openFolderNoteFile } from '../utils/folderNotes';
 import { isEnterKey, resolveKeyboardOpenContext } from '../utils/keyboardOpenContext';
-import { buildPropertyKeyNodeId } from '../utils/propertyTree';
+import { buildPropertyKeyNodeId, getPropertyHierarchyParentNodeId, normalizePropertyNodeId } from '../utils/propertyTree';
+import { normalizeTagPath } from '../utils/tagUtils';
+import { isVirtualTagCollectionId } from '../utils/virtualTagCollections';
+import { findTypeAheadMatch } from '../utils/typeAheadFind';
 
 type VirtualTagCollectionItem = VirtualFolderItem & { tagCollectionId: string };
 type VirtualPropertyCollectionItem = VirtualFolderItem & { propertyCollectionId: string };
@@ -61,6 +68,7 @@ const isSelectableNavigationItem = (item: CombinedNavigationItem): boolean => {
         item.type === NavigationPaneItemType.UNTAGGED ||
         item.type === NavigationPaneItemType.PROPERTY_KEY ||
         item.type === NavigationPaneItemType.PROPERTY_VALUE ||
+        item.type === NavigationPaneItemType.SMART_FOLDER ||
         ((isVirtualTagCollection(item) || isVirtualPropertyCollection(item)) && Boolean(item.isSelectable))
     );
 };
@@ -79,6 +87,28 @@ function isVirtualPropertyCollection(item: CombinedNavigationItem): item is Virt
     );
 }
 
+/**
+ * Returns the label used for type-ahead matching, or null for rows that cannot be selected
+ */
+function getTypeAheadLabel(item: CombinedNavigationItem): string | null {
+    if (!isSelectableNavigationItem(item)) {
+        return null;
+    }
+
+    switch (item.type) {
+        case NavigationPaneItemType.FOLDER:
+            return item.displayName ?? item.data.name;
+        case NavigationPaneItemType.TAG:
+        case NavigationPaneItemType.PROPERTY_KEY:
+        case NavigationPaneItemType.PROPERTY_VALUE:
+        case NavigationPaneItemType.SMART_FOLDER:
+        case NavigationPaneItemType.VIRTUAL_FOLDER:
+            return item.data.name;
+        default:
+            return null;
+    }
+}
+
 interface UseNavigationPaneKeyboardProps {
     /** Navigation items to navigate through */
     items: CombinedNavigationItem[];
@@ -88,14 +118,25 @@ interface UseNavigationPaneKeyboardProps {
     containerRef: React.RefObject<HTMLDivElement | null>;
     /** Combined navigation index map */
     pathToIndex: Map<string, number>;
+    /** Open a shortcut by its 1-based position in the shortcuts list */
+    onOpenShortcut?: (shortcutNumber: number) => Promise<boolean>;
+    /** Open and focus the search input (Vim `/`) */
+    onOpenSearch?: () => void;
 }
 
 /**
  * Hook for keyboard navigation in the navigation pane.
  * Handles folder/tag-specific keyboard interactions.
  */
-export function useNavigationPaneKeyboard({ items, virtualizer, containerRef, pathToIndex }: UseNavigationPaneKeyboardProps) {
-    const { app, commandQueue, isMobile } = useServices();
+export function useNavigationPaneKeyboard({
+    items,
+    virtualizer,
+    containerRef,
+    pathToIndex,
+    onOpenShortcut,
+    onOpenSearch
+}: UseNavigationPaneKeyboardProps) {
+    const { app, commandQueue, isMobile, tagOperations } = useServices();
     const fileSystemOps = useFileSystemOps();
     const settings = useSettingsState();
     const uxPreferences = useUXPreferences();
@@ -107,6 +148,16 @@ export function useNavigationPaneKeyboard({ items, virtualizer, containerRef, pa
     const expansionDispatch = useExpansionDispatch();
     const uiState = useUIState();
     const uiDispatch = useUIDispatch();
+    const {
+        folderShortcutKeysByPath,
+        tagShortcutKeysByPath,
+        propertyShortcutKeysByNodeId,
+        addFolderShortcut,
+        addTagShortcut,
+        addPropertyShortcut,
+        removeShortcut
+    } = useShortcuts();
+    const { readVimAction, readTypeAheadQuery } = usePaneKeyInput();
     const resolveIndex = useCallback(
         (path: string | null | undefined, type: ItemType | null) => {
             if (!path) {
@@ -135,6 +186,11 @@ export function useNavigationPaneKeyboard({ items, virtualizer, containerRef, pa
                 return propertyIndex;
             }
 
+            const smartFolderIndex = getNavigationIndex(pathToIndex, ItemType.SMART_FOLDER, path);
+            if (smartFolderIndex !== undefined) {
+                return smartFolderIndex;
+            }
+
             return -1;
         },
         [pathToIndex]
@@ -156,6 +212,10 @@ export function useNavigationPaneKeyboard({ items, virtualizer, containerRef, pa
             return resolveIndex(selectionState.selectedProperty, ItemType.PROPERTY);
         }
 
+        if (selectionState.selectionType === ItemType.SMART_FOLDER && selectionState.selectedSmartFolder) {
+            return resolveIndex(selectionState.selectedSmartFolder, ItemType.SMART_FOLDER);
+        }
+
         return -1;
     }, [selectionState, resolveIndex]);
 
@@ -200,6 +260,15 @@ export function useNavigationPaneKeyboard({ items, virtualizer, containerRef, pa
                         expansionDispatch({ type: 'TOGGLE_PROPERTY_EXPANDED', propertyNodeId: propertyNode.id });
                     }
                 }
+            } else if (item.type === NavigationPaneItemType.SMART_FOLDER) {
+                const smartFolderId = item.data.id;
+                selectionDispatch({ type: 'SET_SELECTED_SMART_FOLDER', smartFolderId });
+
+                if (settings.autoExpandNavItems && item.hasChildren) {
+                    if (!expansionState.expandedVirtualFolders.has(smartFolderId)) {
+                        expansionDispatch({ type: 'TOGGLE_VIRTUAL_FOLDER_EXPANDED', folderId: smartFolderId });
+                    }
+                }
             } else if (isVirtualPropertyCollection(item)) {
                 selectionDispatch({
                     type: 'SET_SELECTED_PROPERTY',
@@ -244,11 +313,15 @@ export function useNavigationPaneKeyboard({ items, virtualizer, containerRef, pa
                 } else if (!expand && isExpanded) {
                     expansionDispatch({ type: 'TOGGLE_PROPERTY_EXPANDED', propertyNodeId: propertyNode.id });
                 }
-            } else if (isVirtualTagCollection(item) || isVirtualPropertyCollection(item)) {
-                // Handle expansion for virtual folders that act as tag collections
+            } else if (
+                isVirtualTagCollection(item) ||
+                isVirtualPropertyCollection(item) ||
+                item.type === NavigationPaneItemType.SMART_FOLDER
+            ) {
+                // Handle expansion for virtual folders that act as tag collections and for smart folders
                 const folderId = item.data.id;
                 const isExpanded = expansionState.expandedVirtualFolders.has(folderId);
-                if (expand && !isExpanded) {
+                if (expand && !isExpanded && (item.type !== NavigationPaneItemType.SMART_FOLDER || item.hasChildren)) {
                     expansionDispatch({ type: 'TOGGLE_VIRTUAL_FOLDER_EXPANDED', folderId });
                 } else if (!expand && isExpanded) {
                     expansionDispatch({ type: 'TOGGLE_VIRTUAL_FOLDER_EXPANDED', folderId });
@@ -258,6 +331,156 @@ export function useNavigationPaneKeyboard({ items, virtualizer, containerRef, pa
         [expansionState, expansionDispatch]
     );
 
+    /**
+     * Runs user-bound operations against the selected folder, tag or property.
+     * Returns true when the event matched one of the actions.
+     */
+    const handleItemOperationShortcut = useCallback(
+        (e: KeyboardEvent): boolean => {
+            const shortcuts = settings.keyboardShortcuts;
+
+            const shortcutNumber = getMatchingShortcutNumber(e, shortcuts);
+            if (shortcutNumber !== null) {
+                e.preventDefault();
+                if (onOpenShortcut) {
+                    runAsyncAction(() => onOpenShortcut(shortcutNumber));
+                }
+                return true;
+            }
+
+            const selectedFolder = selectionState.selectionType === ItemType.FOLDER ? selectionState.selectedFolder : null;
+            const selectedTag = selectionState.selectionType === ItemType.TAG ? selectionState.selectedTag : null;
+            const selectedProperty = selectionState.selectionType === ItemType.PROPERTY ? selectionState.selectedProperty : null;
+            // The vault root cannot be moved, duplicated or renamed from the keyboard
+            const editableFolder = selectedFolder && selectedFolder.path !== '/' ? selectedFolder : null;
+
+            const openFolderNote = (context: 'tab' | 'split') => {
+                const folderNote = selectedFolder ? getFolderNote(selectedFolder, settings) : null;
+                if (selectedFolder && folderNote) {
+                    runAsyncAction(() => openFolderNoteFile({ app, commandQueue, folder: selectedFolder, folderNote, context }));
+                }
+            };
+
+            if (matchesShortcut(e, shortcuts, KeyboardShortcutAction.PANE_RENAME)) {
+                e.preventDefault();
+                if (editableFolder) {
+                    runAsyncAction(() => fileSystemOps.renameFolder(editableFolder, settings));
+                } else if (selectedTag && tagOperations && !isVirtualTagCollectionId(selectedTag)) {
+                    runAsyncAction(() => tagOperations.promptRenameTag(selectedTag));
+                }
+                return true;
+            }
+
+            if (matchesShortcut(e, shortcuts, KeyboardShortcutAction.PANE_MOVE_TO_FOLDER)) {
+                e.preventDefault();
+                if (editableFolder) {
+                    runAsyncAction(async () => {
+                        const moveResult = await fileSystemOps.moveFolderWithModal(editableFolder);
+                        if (moveResult.status !== 'success') {
+                            return;
+                        }
+
+                        const { newPath, targetFolder } = moveResult.data;
+                        const movedFolder = app.vault.getFolderByPath(newPath);
+                        if (!movedFolder) {
+                            return;
+                        }
+
+                        // Keep the moved folder selected and visible under its new parent
+                        selectionDispatch({ type: 'SET_SELECTED_FOLDER', folder: movedFolder });
+                        if (targetFolder.path !== '/') {
+                            expansionDispatch({ type: 'EXPAND_FOLDERS', folderPaths: [targetFolder.path] });
+                        }
+                    });
+                }
+                return true;
+            }
+
+            if (matchesShortcut(e, shortcuts, KeyboardShortcutAction.PANE_DUPLICATE)) {
+                e.preventDefault();
+                if (editableFolder) {
+                    runAsyncAction(() => fileSystemOps.duplicateFolder(editableFolder));
+                }
+                return true;
+            }
+
+            if (matchesShortcut(e, shortcuts, KeyboardShortcutAction.PANE_ADD_TO_SHORTCUTS)) {
+                e.preventDefault();
+                // Toggles the shortcut, matching the "Add to shortcuts" command
+                const toggleShortcut = (existingShortcutKey: string | undefined, addShortcut: () => Promise<boolean>) => {
+                    runAsyncAction(async () => {
+                        if (existingShortcutKey) {
+                            await removeShortcut(existingShortcutKey);
+                            return;
+                        }
+                        await addShortcut();
+                    });
+                };
+
+                if (selectedFolder) {
+                    const folderPath = selectedFolder.path;
+                    toggleShortcut(folderShortcutKeysByPath.get(folderPath), () => addFolderShortcut(folderPath));
+                } else if (selectedTag) {
+                    const normalizedTagPath = normalizeTagPath(selectedTag);
+                    toggleShortcut(normalizedTagPath ? tagShortcutKeysByPath.get(normalizedTagPath) : undefined, () =>
+                        addTagShortcut(selectedTag)
+                    );
+                } else if (selectedProperty) {
+                    const normalizedNodeId =
+                        selectedProperty === PROPERTIES_ROOT_VIRTUAL_FOLDER_ID
+                            ? PROPERTIES_ROOT_VIRTUAL_FOLDER_ID
+                            : normalizePropertyNodeId(selectedProperty);
+                    toggleShortcut(normalizedNodeId ? propertyShortcutKeysByNodeId.get(normalizedNodeId) : undefined, () =>
+                        addPropertyShortcut(selectedProperty)
+                    );
+                }
+                return true;
+            }
+
+            if (matchesShortcut(e, shortcuts, KeyboardShortcutAction.PANE_OPEN_IN_NEW_TAB)) {
+                e.preventDefault();
+                openFolderNote('tab');
+                return true;
+            }
+
+            if (matchesShortcut(e, shortcuts, KeyboardShortcutAction.PANE_OPEN_IN_SPLIT)) {
+                e.preventDefault();
+                openFolderNote('split');
+                return true;
+            }
+
+            if (matchesShortcut(e, shortcuts, KeyboardShortcutAction.PANE_REVEAL_IN_SYSTEM_EXPLORER)) {
+                e.preventDefault();
+                // System explorer reveal is desktop-only
+                if (selectedFolder && !isMobile) {
+                    runAsyncAction(() => fileSystemOps.revealInSystemExplorer(selectedFolder));
+                }
+                return true;
+            }
+
+            return false;
+        },
+        [
+            settings,
+            onOpenShortcut,
+            selectionState,
+            selectionDispatch,
+            expansionDispatch,
+            app,
+            commandQueue,
+            isMobile,
+            fileSystemOps,
+            tagOperations,
+            folderShortcutKeysByPath,
+            tagShortcutKeysByPath,
+            propertyShortcutKeysByNodeId,
+            addFolderShortcut,
+            addTagShortcut,
+            addPropertyShortcut,
+            removeShortcut
+        ]
+    );
+
     /**
      * Navigation pane-specific keyboard handler
      */
@@ -301,6 +524,40 @@ export function useNavigationPaneKeyboard({ items, virtualizer, containerRef, pa
                 }
             }
 
+            if (handleItemOperationShortcut(e)) {
+                return;
+            }
+
+            const vimAction = readVimAction(e);
+            if (vimAction === 'pending') {
+                e.preventDefault();
+                return;
+            }
+            if (vimAction === 'search') {
+                e.preventDefault();
+                onOpenSearch?.();
+                return;
+            }
+            if (vimAction === 'collapse' || vimAction === 'expand') {
+                e.preventDefault();
+                const currentItem = currentIndex >= 0 ? helpers.getItemAt(currentIndex) : null;
+                if (currentItem) {
+                    handleExpandCollapse(currentItem, vimAction === 'expand');
+                }
+                return;
+            }
+
+            const typeAheadQuery = vimAction ? null : readTypeAheadQuery(e);
+            if (typeAheadQuery) {
+                e.preventDefault();
+                const matchIndex = findTypeAheadMatch(items, getTypeAheadLabel, typeAheadQuery, currentIndex);
+                if (matchIndex >= 0) {
+                    selectItemAtIndex(items[matchIndex]);
+                    helpers.scrollToIndex(matchIndex);
+                }
+                return;
+            }
+
             if (matchesShortcut(e, shortcuts, KeyboardShortcutAction.PANE_MOVE_DOWN)) {
                 e.preventDefault();
                 targetIndex = helpers.findNextIndex(currentIndex);
@@ -411,7 +668,11 @@ export function useNavigationPaneKeyboard({ items, virtualizer, containerRef, pa
                         } else {
                             shouldSwitchPane = true;
                         }
-                    } else if (isVirtualTagCollection(item) || isVirtualPropertyCollection(item)) {
+                    } else if (
+                        isVirtualTagCollection(item) ||
+                        isVirtualPropertyCollection(item) ||
+                        item.type === NavigationPaneItemType.SMART_FOLDER
+                    ) {
                         const folderId = item.data.id;
                         const isExpanded = expansionState.expandedVirtualFolders.has(folderId);
                         const hasChildren = item.hasChildren ?? false;
@@ -514,7 +775,8 @@ export function useNavigationPaneKeyboard({ items, virtualizer, containerRef, pa
                         if (isExpanded) {
                             handleExpandCollapse(item, false);
                         } else if (propertyNode.kind === 'value') {
-                            const parentNodeId = buildPropertyKeyNodeId(propertyNode.key);
+                            const parentNodeId =
+                                getPropertyHierarchyParentNodeId(propertyNode.id) ?? buildPropertyKeyNodeId(propertyNode.key);
                             const parentIndex = resolveIndex(parentNodeId, ItemType.PROPERTY);
                             if (parentIndex >= 0) {
                                 const parentItem = helpers.getItemAt(parentIndex);
@@ -533,6 +795,20 @@ export function useNavigationPaneKeyboard({ items, virtualizer, containerRef, pa
                                 }
                             }
                         }
+                    } else if (item.type === NavigationPaneItemType.SMART_FOLDER) {
+                        const smartFolder = item.data;
+                        if (expansionState.expandedVirtualFolders.has(smartFolder.id)) {
+                            handleExpandCollapse(item, false);
+                        } else if (smartFolder.parentId) {
+                            const parentIndex = resolveIndex(smartFolder.parentId, ItemType.SMART_FOLDER);
+                            if (parentIndex >= 0) {
+                                const parentItem = helpers.getItemAt(parentIndex);
+                                if (parentItem) {
+                                    selectItemAtIndex(parentItem);
+                                    helpers.scrollToIndex(parentIndex);
+                                }
+                            }
+                        }
                     } else if (isVirtualTagCollection(item) || isVirtualPropertyCollection(item)) {
                         const folderId = item.data.id;
                         const isExpanded = expansionState.expandedVirtualFolders.has(folderId);
@@ -552,7 +828,7 @@ export function useNavigationPaneKeyboard({ items, virtualizer, containerRef, pa
                         uiDispatch({ type: 'SET_FOCUSED_PANE', pane: 'files' });
                     }
                 }
-            } else if (matchesShortcut(e, shortcuts, KeyboardShortcutAction.DELETE_SELECTED)) {
+            } else if (vimAction === 'delete' || matchesShortcut(e, shortcuts, KeyboardShortcutAction.DELETE_SELECTED)) {
                 if (selectionState.selectionType === ItemType.FOLDER && selectionState.selectedFolder) {
                     e.preventDefault();
                     // Delete selected folder
@@ -567,13 +843,13 @@ export function useNavigationPaneKeyboard({ items, virtualizer, containerRef, pa
                         })
                     );
                 }
-            } else if (matchesShortcut(e, shortcuts, KeyboardShortcutAction.PANE_HOME)) {
+            } else if (vimAction === 'first' || matchesShortcut(e, shortcuts, KeyboardShortcutAction.PANE_HOME)) {
                 e.preventDefault();
                 targetIndex = getFirstSelectableIndex();
                 if (targetIndex >= 0) {
                     shouldScrollToTop = true;
                 }
-            } else if (matchesShortcut(e, shortcuts, KeyboardShortcutAction.PANE_END)) {
+            } else if (vimAction === 'last' || matchesShortcut(e, shortcuts, KeyboardShortcutAction.PANE_END)) {
                 e.preventDefault();
                 for (let i = items.length - 1; i >= 0; i--) {
                     const item = helpers.getItemAt(i);
@@ -600,7 +876,7 @@ export function useNavigationPaneKeyboard({ items, virtualizer, containerRef, pa
         [
             getCurrentIndex,
             settings,
-            items.length,
+            items,
             expansionState,
             handleExpandCollapse,
             uiState.singlePane,
@@ -609,6 +885,10 @@ export function useNavigationPaneKeyboard({ items, virtualizer, containerRef, pa
             selectionDispatch,
             resolveIndex,
             selectItemAtIndex,
+            handleItemOperationShortcut,
+            readVimAction,
+            readTypeAheadQuery,
+            onOpenSearch,
             selectionState,
             app,
             commandQueue,
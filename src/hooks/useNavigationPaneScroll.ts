@@ -383,9 +383,11 @@ export function useNavigationPaneScroll({
             ? ItemType.TAG
             : selectionState.selectionType === ItemType.PROPERTY
               ? ItemType.PROPERTY
-              : selectionState.selectionType === ItemType.FOLDER
-                ? ItemType.FOLDER
-                : null;
+              : selectionState.selectionType === ItemType.SMART_FOLDER
+                ? ItemType.SMART_FOLDER
+                : selectionState.selectionType === ItemType.FOLDER
+                  ? ItemType.FOLDER
+                  : null;
 
     // Extract and normalize the currently selected path from selection state
     const selectedPath =
@@ -395,7 +397,9 @@ export function useNavigationPaneScroll({
               ? normalizeNavigationPath(ItemType.TAG, selectionState.selectedTag)
               : selectionState.selectionType === ItemType.PROPERTY && selectionState.selectedProperty
                 ? selectionState.selectedProperty
-                : null;
+                : selectionState.selectionType === ItemType.SMART_FOLDER && selectionState.selectedSmartFolder
+                  ? selectionState.selectedSmartFolder
+                  : null;
 
     /**
      * Scroll to selected folder/tag when needed
@@ -481,7 +485,7 @@ export function useNavigationPaneScroll({
 
     /**
      * Special handling for startup deferred scrolling.
-     * Tag/property selections can be restored before their navigation rows are available,
+     * Tag/property/smart folder selections can be restored before their navigation rows are available,
      * so this retries scrolling when indices are rebuilt.
      */
     useEffect(() => {
@@ -496,7 +500,7 @@ export function useNavigationPaneScroll({
             return;
         }
 
-        if (selectedItemType !== ItemType.TAG && selectedItemType !== ItemType.PROPERTY) {
+        if (selectedItemType === ItemType.FOLDER) {
             return;
         }
 
@@ -38,6 +38,9 @@ import { NOTEBOOK_NAVIGATOR_ICON_ID } from '../constants/notebookNavigatorIcon';
 import { resolveUXIcon } from '../utils/uxIcons';
 import { resolveFolderDisplayName } from '../utils/folderDisplayName';
 import { buildPropertyKeyNodeId } from '../utils/propertyTree';
+import { getOrderedRootSmartFolders } from '../utils/smartFolders';
+import { getActiveVaultProfile } from '../utils/vaultProfiles';
+import type { SmartFolder } from '../types/smartFolders';
 
 export interface RootFolderDescriptor {
     key: string;
@@ -107,24 +110,29 @@ export interface NavigationRootReorderState {
     folderReorderItems: RootReorderRenderItem[];
     tagReorderItems: RootReorderRenderItem[];
     propertyReorderItems: RootReorderRenderItem[];
+    smartFolderReorderItems: RootReorderRenderItem[];
     canReorderSections: boolean;
     canReorderRootFolders: boolean;
     canReorderRootTags: boolean;
     canReorderRootProperties: boolean;
+    canReorderRootSmartFolders: boolean;
     canReorderRootItems: boolean;
     showRootFolderSection: boolean;
     showRootTagSection: boolean;
     showRootPropertySection: boolean;
+    showRootSmartFolderSection: boolean;
     resetRootTagOrderLabel: string;
     resetRootPropertyOrderLabel: string;
     vaultRootDescriptor: RootFolderDescriptor | undefined;
     handleResetRootFolderOrder: () => Promise<void>;
     handleResetRootTagOrder: () => Promise<void>;
     handleResetRootPropertyOrder: () => Promise<void>;
+    handleResetRootSmartFolderOrder: () => Promise<void>;
     reorderSectionOrder: (orderedKeys: NavigationSectionId[]) => Promise<void>;
     reorderRootFolderOrder: (orderedKeys: string[]) => Promise<void>;
     reorderRootTagOrder: (orderedKeys: string[]) => Promise<void>;
     reorderRootPropertyOrder: (orderedKeys: string[]) => Promise<void>;
+    reorderRootSmartFolderOrder: (orderedKeys: string[]) => Promise<void>;
 }
 
 export function useNavigationRootReorder(options: UseNavigationRootReorderOptions): NavigationRootReorderState {
@@ -170,6 +178,8 @@ export function useNavigationRootReorder(options: UseNavigationRootReorderOption
     } = settings;
 
     const { fileVisibility, hiddenFolders, hiddenTags } = activeProfile;
+    const smartFolders = activeProfile.profile.smartFolders;
+    const smartFolderOrder = activeProfile.profile.smartFolderOrder;
     const hiddenTagMatcher = useMemo(() => createHiddenTagMatcher(hiddenTags), [hiddenTags]);
     const hasHiddenTagRules = useMemo(() => {
         return (
@@ -363,6 +373,10 @@ export function useNavigationRootReorder(options: UseNavigationRootReorderOption
         return rootPropertyDescriptors.slice();
     }, [rootPropertyDescriptors]);
 
+    const reorderableRootSmartFolders = useMemo<SmartFolder[]>(() => {
+        return getOrderedRootSmartFolders(smartFolders ?? [], smartFolderOrder ?? []);
+    }, [smartFolderOrder, smartFolders]);
+
     const sectionOrderWithDefaults = useMemo<NavigationSectionId[]>(() => {
         return sanitizeNavigationSectionOrder(sectionOrder);
     }, [sectionOrder]);
@@ -417,10 +431,13 @@ export function useNavigationRootReorder(options: UseNavigationRootReorderOption
     const canReorderRootFolders = reorderableRootFolders.length > 1;
     const canReorderRootTags = reorderableRootTags.length > 1;
     const canReorderRootProperties = reorderableRootProperties.length > 1;
-    const canReorderRootItems = canReorderSections || canReorderRootFolders || canReorderRootTags || canReorderRootProperties;
+    const canReorderRootSmartFolders = reorderableRootSmartFolders.length > 1;
+    const canReorderRootItems =
+        canReorderSections || canReorderRootFolders || canReorderRootTags || canReorderRootProperties || canReorderRootSmartFolders;
     const showRootFolderSection = reorderableRootFolders.length > 0;
     const showRootTagSection = reorderableRootTags.length > 0;
     const showRootPropertySection = reorderableRootProperties.length > 0;
+    const showRootSmartFolderSection = reorderableRootSmartFolders.length > 0;
 
     const rootItemMaps = useMemo(() => {
         const folderIconMap = new Map<string, string | undefined>();
@@ -513,6 +530,19 @@ export function useNavigationRootReorder(options: UseNavigationRootReorderOption
         [rootPropertyOrder, updateSettings]
     );
 
+    const handleRootSmartFolderOrderChange = useCallback(
+        async (orderedIds: string[]) => {
+            const normalizedOrder = orderedIds.slice();
+            if (areStringArraysEqual(normalizedOrder, smartFolderOrder ?? [])) {
+                return;
+            }
+            await updateSettings(current => {
+                getActiveVaultProfile(current).smartFolderOrder = normalizedOrder;
+            });
+        },
+        [smartFolderOrder, updateSettings]
+    );
+
     const reorderRootFolderOrder = useCallback(
         async (orderedKeys: string[]) => {
             await handleRootOrderChange(orderedKeys);
@@ -534,6 +564,13 @@ export function useNavigationRootReorder(options: UseNavigationRootReorderOption
         [handleRootPropertyOrderChange]
     );
 
+    const reorderRootSmartFolderOrder = useCallback(
+        async (orderedKeys: string[]) => {
+            await handleRootSmartFolderOrderChange(orderedKeys);
+        },
+        [handleRootSmartFolderOrderChange]
+    );
+
     const handleRemoveMissingRootFolder = useCallback(
         async (path: string) => {
             if (!path) {
@@ -769,6 +806,21 @@ export function useNavigationRootReorder(options: UseNavigationRootReorderOption
         handleRemoveMissingRootProperty
     ]);
 
+    const smartFolderReorderItems = useMemo<RootReorderRenderItem[]>(() => {
+        const smartFolderIcon = resolveUXIcon(settings.interfaceIcons, 'nav-smart-folder');
+        return reorderableRootSmartFolders.map(folder => ({
+            key: folder.id,
+            props: {
+                icon: smartFolderIcon,
+                label: folder.name,
+                level: 1,
+                dragHandlers: undefined,
+                isDragSource: false,
+                itemType: 'smart-folder'
+            }
+        }));
+    }, [reorderableRootSmartFolders, settings.interfaceIcons]);
+
     const sectionReorderItems = useMemo<SectionReorderRenderItem[]>(() => {
         return sectionDisplayOrder.map(identifier => {
             const isHidden =
@@ -818,6 +870,9 @@ export function useNavigationRootReorder(options: UseNavigationRootReorderOption
                 label = strings.navigationPane.properties;
                 chevronIcon = propertiesSectionExpanded ? 'lucide-chevron-down' : 'lucide-chevron-right';
                 onClick = handleTogglePropertiesSection;
+            } else if (identifier === NavigationSectionId.SMART_FOLDERS) {
+                icon = resolveUXIcon(settings.interfaceIcons, 'nav-smart-folders');
+                label = strings.navigationPane.smartFolders;
             }
 
             return {
@@ -877,6 +932,12 @@ export function useNavigationRootReorder(options: UseNavigationRootReorderOption
         });
     }, [updateSettings]);
 
+    const handleResetRootSmartFolderOrder = useCallback(async () => {
+        await updateSettings(current => {
+            getActiveVaultProfile(current).smartFolderOrder = [];
+        });
+    }, [updateSettings]);
+
     return {
         reorderableRootFolders,
         reorderableRootTags,
@@ -885,23 +946,28 @@ export function useNavigationRootReorder(options: UseNavigationRootReorderOption
         folderReorderItems,
         tagReorderItems,
         propertyReorderItems,
+        smartFolderReorderItems,
         canReorderSections,
         canReorderRootFolders,
         canReorderRootTags,
         canReorderRootProperties,
+        canReorderRootSmartFolders,
         canReorderRootItems,
         showRootFolderSection,
         showRootTagSection,
         showRootPropertySection,
+        showRootSmartFolderSection,
         resetRootTagOrderLabel,
         resetRootPropertyOrderLabel,
         vaultRootDescriptor,
         handleResetRootFolderOrder,
         handleResetRootTagOrder,
         handleResetRootPropertyOrder,
+        handleResetRootSmartFolderOrder,
         reorderSectionOrder,
         reorderRootFolderOrder,
         reorderRootTagOrder,
-        reorderRootPropertyOrder
+        reorderRootPropertyOrder,
+        reorderRootSmartFolderOrder
     };
 }
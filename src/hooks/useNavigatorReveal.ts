@@ -37,11 +37,14 @@ import type { Align } from '../types/scroll';
 import { navigateToTag as navigateToTagInternal, type NavigateToTagOptions } from '../utils/tagNavigation';
 import { navigateToProperty as navigateToPropertyInternal, type NavigateToPropertyOptions } from '../utils/propertyNavigation';
 import {
+    collectPropertyKeyFilePaths,
     determinePropertyToReveal,
+    findPropertyHierarchyNode,
     getPropertyKeyNodeIdFromNodeId,
     isPropertyTreeNodeId,
     type PropertySelectionNodeId
 } from '../utils/propertyTree';
+import { collectSmartFolderFiles } from '../utils/fileFinder';
 
 interface FocusPaneOptions {
     updateSinglePaneView?: boolean;
@@ -112,7 +115,7 @@ export function useNavigatorReveal({ app, navigationPaneRef, focusNavigationPane
     const selectionDispatch = useSelectionDispatch();
     const uiState = useUIState();
     const uiDispatch = useUIDispatch();
-    const { getDB, getPropertyTree, findTagInTree } = useFileCache();
+    const { getDB, getPropertyTree, getPropertyHierarchyTree, findTagInTree } = useFileCache();
     const commandQueue = useCommandQueue();
 
     // Auto-reveal state
@@ -418,6 +421,7 @@ export function useNavigatorReveal({ app, navigationPaneRef, focusNavigationPane
             // Check if we're in tag view and should switch tags
             let targetTag: string | null | undefined = undefined;
             let targetProperty: PropertySelectionNodeId | null | undefined = undefined;
+            let targetSmartFolder: string | undefined = undefined;
             let targetFolderOverride: TFolder | null = null;
             let preserveFolder = false;
             const revealSource: SelectionRevealSource | undefined = options?.isStartupReveal ? 'startup' : options?.source;
@@ -488,14 +492,20 @@ export function useNavigatorReveal({ app, navigationPaneRef, focusNavigationPane
 
             if (selectionState.selectionType === 'property') {
                 const fileData = getDB().getFile(file.path);
-                const resolvedProperty = settings.showProperties
-                    ? determinePropertyToReveal(
-                          fileData?.properties ?? null,
-                          selectionState.selectedProperty,
-                          settings,
-                          includeDescendantNotes
-                      )
+                // Stay on the selected hierarchy node while it still lists the revealed file
+                const selectedHierarchyNode = selectionState.selectedProperty
+                    ? findPropertyHierarchyNode(getPropertyHierarchyTree(), selectionState.selectedProperty)
                     : null;
+                const resolvedProperty = !settings.showProperties
+                    ? null
+                    : selectedHierarchyNode && collectPropertyKeyFilePaths(selectedHierarchyNode, includeDescendantNotes).has(file.path)
+                      ? selectedHierarchyNode.id
+                      : determinePropertyToReveal(
+                            fileData?.properties ?? null,
+                            selectionState.selectedProperty,
+                            settings,
+                            includeDescendantNotes
+                        );
                 targetProperty = resolvedProperty;
 
                 if (resolvedProperty) {
@@ -537,11 +547,26 @@ export function useNavigatorReveal({ app, navigationPaneRef, focusNavigationPane
                 }
             }
 
+            // Stay in the selected smart folder when its query still matches the revealed file
+            if (selectionState.selectionType === ItemType.SMART_FOLDER && selectionState.selectedSmartFolder) {
+                const smartFolderId = selectionState.selectedSmartFolder;
+                const smartFolderFiles = collectSmartFolderFiles(
+                    smartFolderId,
+                    settings,
+                    { includeDescendantNotes, showHiddenItems: uxPreferences.showHiddenItems },
+                    app
+                );
+                if (smartFolderFiles.some(candidate => candidate.path === file.path)) {
+                    targetSmartFolder = smartFolderId;
+                }
+            }
+
             let resolvedFolder: TFolder | null = null;
 
             if (
                 (targetTag === null || targetTag === undefined) &&
                 (targetProperty === null || targetProperty === undefined) &&
+                !targetSmartFolder &&
                 file.parent
             ) {
                 if (useShortestPath) {
@@ -613,6 +638,7 @@ export function useNavigatorReveal({ app, navigationPaneRef, focusNavigationPane
                 isManualReveal: false,
                 targetTag,
                 targetProperty,
+                targetSmartFolder,
                 targetFolder: targetFolderOverride ?? undefined,
                 source: revealSource
             });
@@ -627,6 +653,8 @@ export function useNavigatorReveal({ app, navigationPaneRef, focusNavigationPane
                     navigationPaneRef.current.requestScroll(targetTag, { align: navigationAlign, itemType: ItemType.TAG });
                 } else if (!targetTag && targetProperty && navigationPaneRef.current) {
                     navigationPaneRef.current.requestScroll(targetProperty, { align: navigationAlign, itemType: ItemType.PROPERTY });
+                } else if (targetSmartFolder && navigationPaneRef.current) {
+                    navigationPaneRef.current.requestScroll(targetSmartFolder, { align: navigationAlign, itemType: ItemType.SMART_FOLDER });
                 } else if (!targetTag && !targetProperty && navigationPaneRef.current) {
                     const scrollFolder =
                         targetFolderOverride ??
@@ -638,12 +666,15 @@ export function useNavigatorReveal({ app, navigationPaneRef, focusNavigationPane
             }
         },
         [
+            app,
             settings,
             includeDescendantNotes,
+            uxPreferences.showHiddenItems,
             selectionState.selectedFolder,
             selectionState.selectionType,
             selectionState.selectedTag,
             selectionState.selectedProperty,
+            selectionState.selectedSmartFolder,
             expansionState.expandedFolders,
             expansionState.expandedTags,
             expansionState.expandedProperties,
@@ -651,6 +682,7 @@ export function useNavigatorReveal({ app, navigationPaneRef, focusNavigationPane
             expansionDispatch,
             selectionDispatch,
             getDB,
+            getPropertyHierarchyTree,
             getRevealTargetFolder,
             navigationPaneRef
         ]
@@ -0,0 +1,91 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * usePaneKeyInput - Multi-key input for the navigator panes
+ *
+ * Tracks the state that single-hotkey matching cannot express:
+ * - Vim-style key sequences (`gg`, `G`, `dd`, `zc`, `zo`, `/`)
+ * - Incremental type-ahead queries that jump to rows by display name
+ *
+ * Keys bound to a configured keyboard shortcut are never consumed here.
+ */
+
+import { useCallback, useRef } from 'react';
+import { useSettingsState } from '../context/SettingsContext';
+import { matchesAnyShortcut } from '../utils/keyboardShortcuts';
+import { isPlainCharacterKey, KEY_SEQUENCE_TIMEOUT_MS, resolveVimKeySequence, type VimKeyAction } from '../utils/keySequences';
+import { appendTypeAheadKey, type TypeAheadBuffer } from '../utils/typeAheadFind';
+
+/**
+ * Hook for reading key sequences and type-ahead queries from keydown events.
+ * Type-ahead is only active when Vim mode is off, since Vim mode uses plain letters for commands.
+ */
+export function usePaneKeyInput() {
+    const settings = useSettingsState();
+    const sequenceRef = useRef<{ buffer: string; timestamp: number }>({ buffer: '', timestamp: 0 });
+    const typeAheadRef = useRef<TypeAheadBuffer | null>(null);
+    const vimMode = settings.vimKeyboardNavigation;
+    const typeAheadEnabled = settings.typeAheadFind && !vimMode;
+
+    /**
+     * Returns the completed Vim action, 'pending' while a sequence is partially typed, or null when
+     * the key is not part of a sequence.
+     */
+    const readVimAction = useCallback(
+        (event: KeyboardEvent): VimKeyAction | 'pending' | null => {
+            if (!vimMode || !isPlainCharacterKey(event) || matchesAnyShortcut(event, settings.keyboardShortcuts)) {
+                sequenceRef.current = { buffer: '', timestamp: 0 };
+                return null;
+            }
+
+            const now = Date.now();
+            const previous = sequenceRef.current;
+            const buffer = now - previous.timestamp > KEY_SEQUENCE_TIMEOUT_MS ? '' : previous.buffer;
+            const result = resolveVimKeySequence(buffer, event.key);
+
+            if (result.type === 'pending') {
+                sequenceRef.current = { buffer: result.buffer, timestamp: now };
+                return 'pending';
+            }
+
+            sequenceRef.current = { buffer: '', timestamp: 0 };
+            return result.type === 'match' ? result.action : null;
+        },
+        [vimMode, settings.keyboardShortcuts]
+    );
+
+    /**
+     * Returns the accumulated type-ahead query after appending the key, or null when the key is not
+     * a type-ahead character.
+     */
+    const readTypeAheadQuery = useCallback(
+        (event: KeyboardEvent): string | null => {
+            if (!typeAheadEnabled || !isPlainCharacterKey(event) || matchesAnyShortcut(event, settings.keyboardShortcuts)) {
+                return null;
+            }
+
+            const buffer = appendTypeAheadKey(typeAheadRef.current, event.key, Date.now());
+            typeAheadRef.current = buffer;
+            return buffer?.query ?? null;
+        },
+        [typeAheadEnabled, settings.keyboardShortcuts]
+    );
+
+    return { readVimAction, readTypeAheadQuery };
+}
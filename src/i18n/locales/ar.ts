@@ -46,7 +46,10 @@ export const STRINGS_AR = {
         pinnedSection: 'مثبت', // Header for the pinned notes section at the top of file list (English: Pinned)
         notesSection: 'ملاحظات', // Header shown between pinned and regular items when showing documents only (English: Notes)
         filesSection: 'ملفات', // Header shown between pinned and regular items when showing supported or all files (English: Files)
-        hiddenItemAriaLabel: '{name} (مخفي)' // Accessibility label applied to list items that are normally hidden
+        noPropertyValue: 'بدون قيمة', // Header for notes without a value when grouping by property (English: No value)
+        hiddenItemAriaLabel: '{name} (مخفي)', // Accessibility label applied to list items that are normally hidden
+        taskProgressAriaLabel: 'اكتملت {completed} من {total} مهام', // Accessibility label for the task progress bar in file items
+        taskDue: 'الاستحقاق {date}' // Next due date shown next to the task progress bar (English: Due {date})
     },
 
     // Tag list
@@ -61,6 +64,7 @@ export const STRINGS_AR = {
         recentNotesHeader: 'ملاحظات حديثة', // Header label for recent notes section in navigation pane (English: Recent notes)
         recentFilesHeader: 'ملفات حديثة', // Header label when showing recent non-note files in navigation pane (English: Recent files)
         properties: 'الخصائص',
+        smartFolders: 'المجلدات الذكية',
         reorderRootFoldersTitle: 'إعادة ترتيب التنقل',
         reorderRootFoldersHint: 'استخدم الأسهم أو اسحب لإعادة الترتيب',
         vaultRootLabel: 'الخزنة',
@@ -130,6 +134,7 @@ export const STRINGS_AR = {
         mobileBackToNavigation: 'العودة للتنقل', // Mobile-only back button text to return to navigation pane (English: Back to navigation)
         changeSortOrder: 'تغيير ترتيب الفرز', // Tooltip for the sort order toggle button (English: Change sort order)
         defaultSort: 'افتراضي', // Label for default sorting mode (English: Default)
+        customSortChain: 'سلسلة فرز مخصصة...',
         showFolders: 'إظهار التنقل', // Tooltip for button to show the navigation pane (English: Show navigation)
         reorderRootFolders: 'إعادة ترتيب التنقل',
         finishRootFolderReorder: 'تم',
@@ -170,6 +175,15 @@ export const STRINGS_AR = {
                         '`-word` استبعاد الملاحظات التي تحتوي على "word" في اسم الملف.'
                     ]
                 },
+                content: {
+                    title: 'محتوى الملاحظة',
+                    items: [
+                        '`content:كلمة` مطابقة الملاحظات التي يحتوي نصها على كلمة تبدأ بـ "كلمة".',
+                        '`content:"كلمتان اثنتان"` يجب أن تظهر كل كلمة في نص الملاحظة.',
+                        '`-content:كلمة` استبعاد الملاحظات التي يحتوي نصها على كلمة تبدأ بـ "كلمة".',
+                        'يتطلب تفعيل **البحث في محتوى الملاحظات** في إعدادات لوحة القائمة. عند التفعيل تطابق الكلمات العادية نص الملاحظة أيضًا.'
+                    ]
+                },
                 tags: {
                     title: 'الوسوم',
                     items: [
@@ -193,6 +207,8 @@ export const STRINGS_AR = {
                         '`."Reading Status"="In Progress"` المفاتيح والقيم التي تحتوي على مسافات يجب وضعها بين علامات اقتباس مزدوجة.',
                         '`-.key` استبعاد الملاحظات التي تحتوي على مفتاح خاصية.',
                         '`-.key=value` استبعاد الملاحظات التي تحتوي على قيمة خاصية.',
+                        '`.key>=3`, `.key<2026-11-01` مقارنة خصائص الأرقام أو التواريخ باستخدام `>`, `>=`, `<`, `<=`.',
+                        '`.key:thisweek`, `.key:1..5`, `.key:2026-11-01..2026-11-30` مطابقة تاريخ نسبي أو تاريخ أو رقم أو نطاق شامل.',
                         'Cmd/Ctrl+انقر على خاصية للإضافة بـ AND. Cmd/Ctrl+Shift+انقر للإضافة بـ OR.'
                     ]
                 },
@@ -201,6 +217,8 @@ export const STRINGS_AR = {
                     items: [
                         '`has:task` تضمين الملاحظات التي تحتوي على مهام غير مكتملة.',
                         '`-has:task` استبعاد الملاحظات التي تحتوي على مهام غير مكتملة.',
+                        '`due:overdue`, `due:today`, `due:thisweek` تضمين الملاحظات التي تحتوي على مهمة مفتوحة مستحقة ضمن النطاق (تواريخ Tasks `📅` أو حقول Dataview `[due:: ]`).',
+                        '`due:2026-11-01..2026-11-30` مطابقة تاريخ استحقاق أو نطاق. `-due:...` يستبعد الملاحظات التي تحتوي على مهمة مفتوحة مطابقة.',
                         '`folder:meetings` تضمين الملاحظات حيث يحتوي اسم مجلد على `meetings`.',
                         '`folder:/work/meetings` تضمين الملاحظات فقط في `work/meetings` (بدون المجلدات الفرعية).',
                         '`folder:/` تضمين الملاحظات فقط في جذر الخزنة.',
@@ -212,13 +230,13 @@ export const STRINGS_AR = {
                     ]
                 },
                 connectors: {
-                    title: 'سلوك AND/OR',
+                    title: 'AND/OR/NOT والتجميع',
                     items: [
-                        '`AND` و `OR` هما عوامل تشغيل فقط في استعلامات الوسوم/الخصائص الحصرية.',
-                        'استعلامات الوسوم/الخصائص الحصرية تحتوي فقط على مرشحات الوسوم والخصائص: `#tag`، `-#tag`، `#`، `-#`، `.key`، `-.key`، `.key=value`، `-.key=value`.',
-                        'إذا تضمن الاستعلام أسماء أو تواريخ (`@...`) أو مرشحات مهام (`has:task`) أو مرشحات مجلدات (`folder:...`) أو مرشحات امتدادات (`ext:...`)، يتم مطابقة `AND` و `OR` ككلمات.',
-                        'مثال على استعلام بعوامل تشغيل: `#work OR .status=started`.',
-                        'مثال على استعلام مختلط: `#work OR ext:md` (يتم مطابقة `OR` في أسماء الملفات).'
+                        'تعمل `AND` و`OR` و`NOT` كعوامل عندما يحتوي الاستعلام على مرشح (`#tag` أو `.key` أو `@date` أو `has:task` أو `due:` أو `folder:` أو `ext:` أو `content:`) أو أقواس.',
+                        '`( )` تجمع الشروط: `(folder:Projects OR folder:Areas) AND #active AND -ext:pdf`.',
+                        '`NOT شرط` أو `-شرط` يستبعد شرطًا. `-( )` يستبعد مجموعة كاملة.',
+                        '`NOT` أسبق من `AND`، و`AND` أسبق من `OR`. الشروط المتجاورة تستخدم AND ضمنيًا.',
+                        'الاستعلامات المكونة من كلمات فقط وبلا أقواس تطابق `AND` و`OR` و`NOT` ككلمات في أسماء الملفات (مثل `black or white`).'
                     ]
                 },
                 dates: {
@@ -292,12 +310,14 @@ export const STRINGS_AR = {
             addTag: 'إضافة وسم',
             removeTag: 'إزالة وسم',
             removeAllTags: 'إزالة جميع الوسوم',
+            editProperties: 'تحرير الخصائص',
             changeIcon: 'تغيير الأيقونة',
             changeColor: 'تغيير اللون'
         },
         folder: {
             newNote: 'ملاحظة جديدة',
             newNoteFromTemplate: 'ملاحظة جديدة من قالب',
+            newNoteFileName: 'اسم ملف الملاحظة الجديدة...',
             newFolder: 'مجلد جديد',
             newCanvas: 'لوحة جديدة',
             newBase: 'قاعدة جديدة',
@@ -322,14 +342,24 @@ export const STRINGS_AR = {
             changeIcon: 'تغيير الأيقونة',
             changeColor: 'تغيير اللون',
             changeBackground: 'تغيير الخلفية',
+            mergeTags: 'دمج الوسوم...',
+            splitTag: 'تقسيم الوسم...',
             showTag: 'إظهار الوسم',
             hideTag: 'إخفاء الوسم'
         },
         property: {
             addKey: 'تكوين مفاتيح الخصائص',
             renameKey: 'إعادة تسمية الخاصية',
+            renameValue: 'إعادة تسمية القيمة',
+            mergeValue: 'دمج في قيمة...',
             deleteKey: 'حذف الخاصية'
         },
+        smartFolder: {
+            newSmartFolder: 'مجلد ذكي جديد',
+            newNestedSmartFolder: 'مجلد ذكي متداخل جديد',
+            editSmartFolder: 'تعديل المجلد الذكي',
+            deleteSmartFolder: 'حذف المجلد الذكي'
+        },
         navigation: {
             addSeparator: 'إضافة فاصل',
             removeSeparator: 'إزالة الفاصل'
@@ -355,11 +385,25 @@ export const STRINGS_AR = {
     folderAppearance: {
         standardPreset: 'قياسي',
         compactPreset: 'مضغوط',
+        gridPreset: 'شبكة',
+        boardPreset: 'لوحة...',
+        boardPresetOption: (property: string) => `لوحة (${property})`,
+        boardPropertyAction: 'أعمدة اللوحة من الخاصية',
+        boardPropertyPlaceholder: 'مفتاح الخاصية',
+        tileSize: 'حجم البلاطات',
+        tileSizeOptions: {
+            small: 'بلاطات صغيرة',
+            medium: 'بلاطات متوسطة',
+            large: 'بلاطات كبيرة'
+        },
         defaultSuffix: '(افتراضي)',
         defaultLabel: 'افتراضي',
         titleRows: 'صفوف العنوان',
         previewRows: 'صفوف المعاينة',
         groupBy: 'تجميع حسب',
+        groupByPropertyAction: 'تجميع حسب الخاصية...',
+        groupByPropertyPlaceholder: 'مفتاح الخاصية',
+        groupByPropertyOption: (property: string) => `تجميع حسب الخاصية (${property})`,
         defaultTitleOption: (rows: number) => `صفوف العنوان الافتراضية (${rows})`,
         defaultPreviewOption: (rows: number) => `صفوف المعاينة الافتراضية (${rows})`,
         defaultGroupOption: (groupLabel: string) => `التجميع الافتراضي (${groupLabel})`,
@@ -383,6 +427,89 @@ export const STRINGS_AR = {
         fileIconRuleEditor: {
             addRuleAria: 'إضافة قاعدة'
         },
+        sortChain: {
+            title: 'سلسلة فرز مخصصة',
+            description: 'تُفرز الملاحظات حسب المفتاح الأول. كل مفتاح تالٍ يرتب الملاحظات المتساوية في المفاتيح السابقة.',
+            propertyPlaceholder: 'مفتاح الخاصية',
+            ascending: 'تصاعدي',
+            descending: 'تنازلي',
+            addKey: 'إضافة مفتاح فرز',
+            moveUp: 'نقل لأعلى',
+            moveDown: 'نقل لأسفل',
+            save: 'حفظ',
+            fields: {
+                modified: 'تاريخ التعديل',
+                created: 'تاريخ الإنشاء',
+                title: 'العنوان',
+                filename: 'اسم الملف',
+                property: 'الخاصية',
+                wordcount: 'عدد الكلمات',
+                tasks: 'المهام المفتوحة',
+                size: 'حجم الملف'
+            }
+        },
+        noteTemplateRules: {
+            title: 'قواعد قوالب الملاحظات',
+            description:
+                'الملاحظات المنشأة من مجلد أو وسم أو خاصية تستخدم القالب واسم الملف من أول قاعدة مطابقة. تدعم أسماء الملفات {{date}} و{{date:FORMAT}} و{{time}} و{{title}}.',
+            folderPatternPlaceholder: 'مسار المجلد، مثل Meetings أو Projects/*/Notes',
+            tagPatternPlaceholder: 'وسم، مثل meeting',
+            propertyPatternPlaceholder: 'خاصية، مثل type أو type=meeting',
+            templatePlaceholder: 'ملف القالب',
+            fileNamePlaceholder: 'نمط اسم الملف، مثل {{date}} Meeting',
+            emptyState: 'لا توجد قواعد. تُنشأ الملاحظات الجديدة فارغة.',
+            addRule: 'إضافة قاعدة',
+            moveUp: 'تحريك لأعلى',
+            moveDown: 'تحريك لأسفل',
+            save: 'حفظ',
+            targets: {
+                folder: 'مجلد',
+                tag: 'وسم',
+                property: 'خاصية'
+            }
+        },
+        fileStyleRules: {
+            title: 'قواعد نمط الملفات',
+            description:
+                'الملفات المطابقة لاستعلام قاعدة تحصل على أيقونتها ولونها. تستخدم الاستعلامات صيغة مرشح البحث. تُفحص القواعد من الأعلى إلى الأسفل: أول قاعدة مطابقة بها أيقونة تحدد الأيقونة وأول قاعدة مطابقة بها لون تحدد اللون. الأيقونات والألوان المعيّنة على الملف لها الأولوية.',
+            queryPlaceholder: 'استعلام التصفية، مثل .status=done أو #meeting أو folder:archive',
+            emptyState: 'لا توجد قواعد.',
+            setIcon: 'تعيين أيقونة',
+            setColor: 'تعيين لون',
+            addRule: 'إضافة قاعدة',
+            moveUp: 'تحريك لأعلى',
+            moveDown: 'تحريك لأسفل',
+            save: 'حفظ'
+        },
+        configBundleImport: {
+            title: 'استيراد حزمة الإعدادات',
+            description:
+                'اختر ملف JSON للحزمة من الخزنة، ثم اختر الأقسام المراد استيرادها. يتم التحقق من القيم المستوردة مثل الإعدادات العادية.',
+            filePlaceholder: 'مسار الحزمة، مثل notebook-navigator-config.json',
+            sectionsLabel: 'الأقسام المراد استيرادها',
+            strategyLabel: 'الإعدادات الحالية',
+            strategies: {
+                merge: 'دمج، وتفوز إدخالات الحزمة',
+                replace: 'استبدال الأقسام المحددة'
+            },
+            bundleInfo: 'صُدّرت في {date} من Notebook Navigator {version}',
+            importButton: 'استيراد',
+            sections: {
+                vaultProfiles: 'ملفات تعريف الخزنة والاختصارات',
+                styling: 'أيقونات وألوان المجلدات والوسوم والخصائص',
+                appearances: 'مظهر المجلدات والوسوم',
+                sortOverrides: 'تجاوزات الفرز',
+                iconMaps: 'خرائط الأيقونات وأيقونات الواجهة',
+                keyboardShortcuts: 'اختصارات لوحة المفاتيح'
+            },
+            errors: {
+                invalidJson: 'الملف ليس JSON صالحًا.',
+                invalidFormat: 'الملف ليس حزمة إعدادات Notebook Navigator.',
+                unsupportedVersion: 'أُنشئت هذه الحزمة بإصدار أحدث من Notebook Navigator.',
+                empty: 'لا تحتوي الحزمة على أقسام يمكن استيرادها.',
+                readFailed: 'تعذرت قراءة الملف.'
+            }
+        },
         interfaceIcons: {
             title: 'أيقونات الواجهة',
             fileItemsSection: 'عناصر الملفات',
@@ -413,6 +540,8 @@ export const STRINGS_AR = {
                 'nav-properties': 'الخصائص',
                 'nav-property': 'خاصية',
                 'nav-property-value': 'قيمة',
+                'nav-smart-folders': 'المجلدات الذكية',
+                'nav-smart-folder': 'مجلد ذكي',
                 'list-pinned': 'العناصر المثبتة',
                 'file-unfinished-task': 'مهام غير مكتملة',
                 'file-word-count': 'عدد الكلمات'
@@ -492,6 +621,108 @@ export const STRINGS_AR = {
             deleteSettingsUpdateFailed: 'تم حذف الخاصية {property}. فشل تحديث الإعدادات.',
             invalidKeyName: 'أدخل اسم خاصية صالح.'
         },
+        propertyValueEdit: {
+            title: 'تحرير الخصائص',
+            description: 'تغيير خاصية في {count} {files}.',
+            keyLabel: 'الخاصية',
+            keyPlaceholder: 'اسم الخاصية',
+            modeLabel: 'الإجراء',
+            modes: {
+                set: 'تعيين القيمة',
+                append: 'إضافة إلى القائمة',
+                remove: 'إزالة الخاصية'
+            },
+            valueLabel: 'القيمة',
+            valuePlaceholder: 'القيمة',
+            emptyValue: '(فارغ)',
+            previewTitle: 'معاينة',
+            changeSummary: 'ستتغير {count} من {total} ملاحظات',
+            noChanges: 'لا توجد ملاحظات تحتاج إلى تغيير.',
+            apply: 'تطبيق',
+            successSingle: 'تم تحديث الخاصية {property} في ملاحظة واحدة',
+            successMultiple: 'تم تحديث الخاصية {property} في {count} ملاحظات',
+            partialFailure: 'تم تحديث الخاصية {property} في {count} ملاحظات. تعذر تحديث {failed} ملاحظات.'
+        },
+        propertyValueRename: {
+            renameTitle: 'إعادة تسمية القيمة {value}',
+            renameWarning: 'ستؤدي إعادة تسمية {property}: {value} إلى تعديل {count} {files}. إدخال قيمة موجودة يدمج القيمتين.',
+            newValuePrompt: 'القيمة الجديدة',
+            newValuePlaceholder: 'أدخل القيمة الجديدة',
+            confirmRename: 'إعادة تسمية القيمة',
+            mergeTitle: 'دمج القيمة {value}',
+            mergeWarning: 'سيؤدي دمج {oldValue} في {newValue} إلى تعديل {count} {files}. تحتفظ {newValue} بأيقونتها ولونها واختصاراتها.',
+            mergePlaceholder: 'دمج {value} في...',
+            mergeInstruction: 'للدمج',
+            confirmMerge: 'دمج القيم',
+            noOtherValues: 'لا توجد قيم أخرى للخاصية {property}',
+            nestedTarget: 'لا يمكن إعادة تسمية قيمة إلى إحدى قيمها المتداخلة.',
+            invalidValue: 'أدخل قيمة صالحة.',
+            noChanges: '{oldValue} → {newValue} (لا تغييرات)',
+            successSingle: 'تمت إعادة تسمية {oldValue} → {newValue} في ملاحظة واحدة',
+            successMultiple: 'تمت إعادة تسمية {oldValue} → {newValue} في {count} ملاحظات',
+            partialFailure: 'تمت إعادة تسمية {oldValue} → {newValue} في {count} ملاحظات. تعذر تحديث {failed} ملاحظات.'
+        },
+        tagOperationSummary: {
+            close: 'إغلاق',
+            updatedNotes: 'الملاحظات المحدثة',
+            skippedNotes: 'الملاحظات المتخطاة',
+            skippedDescription: 'تغيرت هذه الملاحظات بعد المعاينة أو لم يكن فيها ما يحدَّث.',
+            failedNotes: 'الملاحظات الفاشلة',
+            reportSummary: 'تم تحديث {changed} من {total} ملاحظات.'
+        },
+        tagMerge: {
+            title: 'دمج الوسوم',
+            description: 'ادمج عدة وسوم في وسم واحد. تنتقل الوسوم المتداخلة مع وسمها الأصل.',
+            sourcesLabel: 'الوسوم المراد دمجها',
+            sourcesPlaceholder: 'وسوم مفصولة بفواصل',
+            targetLabel: 'الدمج في',
+            targetPlaceholder: 'الوسم الهدف',
+            preview: 'معاينة الدمج',
+            nothingToMerge: 'لا توجد وسوم للدمج. تحقق من أن الوسوم مستخدمة في الملاحظات وتختلف عن الوسم الهدف.',
+            previewTitle: 'الدمج في {tag}',
+            previewDescription: 'سيؤدي دمج {tags} في {tag} إلى تعديل {count} ملاحظات.',
+            confirm: 'دمج الوسوم',
+            affectedNotes: 'الملاحظات المتأثرة',
+            skippedTags: 'الوسوم المتخطاة',
+            skipReasons: {
+                sameAsTarget: 'مطابق للوسم الهدف',
+                containsTarget: 'الوسم الهدف متداخل تحت هذا الوسم',
+                nestedInSource: 'يُدمج مع وسمه الأصل',
+                noNotes: 'غير مستخدم في أي ملاحظة'
+            },
+            alreadyTagged: 'ملاحظات موسومة مسبقًا بـ {tag}',
+            alreadyTaggedDescription: 'ستحتوي هذه الملاحظات على الوسم الهدف أكثر من مرة.',
+            multipleSources: 'ملاحظات بعدة وسوم مدمجة',
+            multipleSourcesDescription: 'ستحتوي كل من هذه الملاحظات على الوسم الهدف أكثر من مرة.',
+            nestedCollisions: 'تعارضات الوسوم المتداخلة',
+            nestedCollisionsDescription: 'تندمج هذه الوسوم المتداخلة في وسوم متداخلة موجودة بالفعل.',
+            notFinalized: 'لم يتم نقل البيانات الوصفية',
+            notFinalizedDescription: 'لم يتم تحديث بعض الملاحظات ذات هذه الوسوم، لذلك تم الاحتفاظ بأيقوناتها وألوانها واختصاراتها.',
+            reportTitle: 'تم الدمج في {tag}'
+        },
+        tagSplit: {
+            title: 'تقسيم الوسم {tag}',
+            description:
+                '{count} {files} موسومة بالضبط بـ {tag}. تنتقل كل ملاحظة إلى الوسم الفرعي لأول قاعدة مطابقة. تحتفظ الملاحظات التي لا تطابق أي قاعدة بـ {tag}.',
+            childPlaceholder: 'الوسم الفرعي',
+            kinds: {
+                folder: 'مجلد',
+                query: 'استعلام تصفية'
+            },
+            folderPlaceholder: 'مسار المجلد (يشمل المجلدات الفرعية)',
+            queryPlaceholder: 'استعلام تصفية البحث',
+            addRule: 'إضافة قاعدة',
+            preview: 'معاينة التقسيم',
+            nothingMatched: 'لا توجد ملاحظات تطابق قواعد التقسيم.',
+            previewTitle: 'تقسيم {tag}',
+            previewDescription: 'ستنتقل {count} من {total} ملاحظات موسومة بـ {tag} إلى وسم فرعي.',
+            confirm: 'تقسيم الوسم',
+            invalidRules: 'قواعد لا يمكن تقييمها',
+            invalidRulesDescription: 'تحتاج استعلامات التصفية إلى معايير بحث وذاكرة تخزين مؤقت جاهزة للملاحظات.',
+            unmatched: 'ملاحظات بلا قاعدة مطابقة',
+            unmatchedDescription: 'تحتفظ هذه الملاحظات بـ {tag}.',
+            reportTitle: 'تم تقسيم {tag}'
+        },
         fileSystem: {
             newFolderTitle: 'مجلد جديد',
             renameFolderTitle: 'إعادة تسمية المجلد',
@@ -501,6 +732,10 @@ export const STRINGS_AR = {
             deleteFileAttachmentsTitle: 'حذف مرفقات الملف؟',
             moveFileConflictTitle: 'تعارض النقل',
             folderNamePrompt: 'أدخل اسم المجلد:',
+            newNoteTitle: 'ملاحظة جديدة',
+            noteTitlePrompt: 'أدخل عنوان الملاحظة:',
+            createNoteButton: 'إنشاء',
+            newNoteFileNamePrompt: 'نمط اسم الملف، مثل {{date:YYYYMMDDHHmm}} {{title}}. اتركه فارغًا لاستخدام الافتراضي.',
             hideInOtherVaultProfiles: 'إخفاء في ملفات الخزنة الأخرى',
             renamePrompt: 'أدخل الاسم الجديد:',
             renameVaultTitle: 'تغيير اسم عرض الخزنة',
@@ -594,6 +829,23 @@ export const STRINGS_AR = {
             applyButton: 'تطبيق',
             emptyState: 'لم يتم العثور على مفاتيح خصائص.'
         },
+        smartFolder: {
+            newTitle: 'مجلد ذكي جديد',
+            newNestedTitle: 'مجلد ذكي جديد في {name}',
+            editTitle: 'تعديل المجلد الذكي',
+            nameLabel: 'الاسم',
+            namePlaceholder: 'اسم المجلد الذكي',
+            queryLabel: 'استعلام التصفية',
+            queryPlaceholder: '#project AND -#archived',
+            queryDescription:
+                'يستخدم صيغة البحث بالتصفية. تعرض المجلدات الذكية المتداخلة فقط الملاحظات التي تطابق أيضًا استعلامات المجلدات الأصلية.',
+            create: 'إنشاء',
+            save: 'حفظ',
+            emptyName: 'لا يمكن أن يكون اسم المجلد الذكي فارغًا',
+            duplicateName: 'يوجد هنا مجلد ذكي بهذا الاسم بالفعل',
+            deleteTitle: 'حذف المجلد الذكي "{name}"؟',
+            deleteMessage: 'تُحذف المجلدات الذكية المتداخلة أيضًا. لا تتغير الملاحظات.'
+        },
         welcome: {
             title: 'مرحباً بك في {pluginName}',
             introText:
@@ -676,6 +928,9 @@ export const STRINGS_AR = {
             iconPackUpdated: 'تم تحديث {provider} ({version})',
             iconPackRemoved: 'تمت إزالة {provider}',
             iconPackLoadFailed: 'فشل تحميل {provider}',
+            folderMetadataWritten: 'تمت كتابة البيانات الوصفية لـ {count} مجلدات',
+            folderMetadataLoaded: 'تم تحميل البيانات الوصفية لـ {count} مجلدات',
+            folderMetadataStorageDisabled: 'اختر أولًا التخزين في ملاحظة المجلد أو الملف الجانبي في إعدادات المجلدات',
             hiddenFileReveal: 'الملف مخفي. قم بتمكين "إظهار العناصر المخفية" لعرضه'
         },
         confirmations: {
@@ -705,7 +960,62 @@ export const STRINGS_AR = {
             filesAlreadyHaveProperty: '{count} ملفات تحتوي بالفعل على هذه الخاصية',
             noTagsToClear: 'لا توجد وسوم لمسحها',
             fileImported: 'تم استيراد ملف واحد',
-            filesImported: 'تم استيراد {count} ملفات'
+            filesImported: 'تم استيراد {count} ملفات',
+            filesMoved: 'تم نقل {count} ملفات إلى {folder}'
+        }
+    },
+
+    // Undo history
+    undoHistory: {
+        undo: 'تراجع',
+        undone: 'تم التراجع: {action}',
+        redone: 'تمت الإعادة: {action}',
+        nothingToUndo: 'لا يوجد ما يمكن التراجع عنه',
+        nothingToRedo: 'لا يوجد ما يمكن إعادته',
+        failed: 'تعذر عكس "{action}": {error}',
+        partial: 'تعذرت استعادة {count} عناصر',
+        actions: {
+            moveFile: 'نقل "{name}"',
+            moveFiles: 'نقل {count} ملفات',
+            moveFolder: 'نقل المجلد "{name}"',
+            renameFile: 'إعادة تسمية "{name}"',
+            renameFolder: 'إعادة تسمية المجلد "{name}"',
+            addTag: 'إضافة الوسم #{tag}',
+            removeTag: 'إزالة الوسم #{tag}',
+            renameProperty: 'إعادة تسمية الخاصية {oldKey} → {newKey}',
+            editProperty: 'تحرير الخاصية {property}',
+            renamePropertyValue: 'إعادة تسمية قيمة {property} {oldValue} → {newValue}',
+            changeAppearance: 'تغيير مظهر "{name}"'
+        }
+    },
+
+    // Vault statistics dashboard
+    statisticsDashboard: {
+        refresh: 'تحديث',
+        loading: 'في انتظار ذاكرة التخزين المؤقت للملاحظات...',
+        unavailable: 'تعذر حساب الإحصائيات.',
+        empty: 'لا توجد بيانات',
+        weekLabel: 'أسبوع {date}',
+        createdCount: '{count} منشأة',
+        modifiedCount: '{count} معدلة',
+        summary: {
+            notes: 'الملاحظات',
+            words: 'الكلمات',
+            openTasks: 'المهام المفتوحة',
+            untagged: 'ملاحظات بلا وسوم',
+            orphaned: 'ملاحظات يتيمة',
+            orphanedDescription: 'ملاحظات لا ترتبط بها أي ملاحظة أخرى'
+        },
+        sections: {
+            activity: 'الملاحظات المنشأة والمعدلة أسبوعيًا',
+            wordsPerFolder: 'الكلمات لكل مجلد',
+            openTasksPerFolder: 'المهام المفتوحة لكل مجلد',
+            topTags: 'أكثر الوسوم استخدامًا',
+            topProperties: 'أكثر الخصائص استخدامًا'
+        },
+        legend: {
+            created: 'منشأة',
+            modified: 'معدلة'
         }
     },
 
@@ -730,8 +1040,10 @@ export const STRINGS_AR = {
         revealFile: 'الكشف عن الملف', // Command palette: Reveals and selects the currently active file in the navigator (English: Reveal file)
         search: 'بحث', // Command palette: Toggle search in the file list (English: Search)
         searchVaultRoot: 'بحث في جذر الخزنة', // Command palette: Selects the vault root folder and focuses search (English: Search in vault root)
+        createSmartFolder: 'إنشاء مجلد ذكي من البحث',
         toggleDualPane: 'تبديل تخطيط اللوحتين', // Command palette: Toggles between single-pane and dual-pane layout (English: Toggle dual pane layout)
         toggleCalendar: 'تبديل التقويم', // Command palette: Toggles showing the calendar overlay in the navigation pane (English: Toggle calendar)
+        openStatistics: 'فتح إحصائيات الخزنة', // Command palette: Opens the vault statistics dashboard (English: Open vault statistics)
         selectVaultProfile: 'اختيار ملف الخزنة', // Command palette: Opens a modal to choose a different vault profile (English: Select vault profile)
         selectVaultProfile1: 'اختيار ملف الخزنة 1', // Command palette: Activates the first vault profile without opening the modal (English: Select vault profile 1)
         selectVaultProfile2: 'اختيار ملف الخزنة 2', // Command palette: Activates the second vault profile without opening the modal (English: Select vault profile 2)
@@ -740,12 +1052,18 @@ export const STRINGS_AR = {
         createNewNote: 'إنشاء ملاحظة جديدة', // Command palette: Creates a new note in the currently selected folder (English: Create new note)
         createNewNoteFromTemplate: 'ملاحظة جديدة من قالب', // Command palette: Creates a new note from a template in the currently selected folder (English: Create new note from template)
         moveFiles: 'نقل الملفات', // Command palette: Move selected files to another folder (English: Move files)
+        undo: 'تراجع عن عملية الملف', // Command palette: Reverse the most recent file operation (English: Undo file operation)
+        redo: 'إعادة عملية الملف', // Command palette: Reapply the most recently undone file operation (English: Redo file operation)
         selectNextFile: 'تحديد الملف التالي', // Command palette: Selects the next file in the current view (English: Select next file)
         selectPreviousFile: 'تحديد الملف السابق', // Command palette: Selects the previous file in the current view (English: Select previous file)
         convertToFolderNote: 'تحويل إلى ملاحظة مجلد', // Command palette: Converts the active file into a folder note with a new folder (English: Convert to folder note)
         setAsFolderNote: 'تعيين كملاحظة مجلد', // Command palette: Renames the active file to its folder note name (English: Set as folder note)
         detachFolderNote: 'فصل ملاحظة المجلد', // Command palette: Renames the active folder note to a new name (English: Detach folder note)
         pinAllFolderNotes: 'تثبيت جميع ملاحظات المجلدات', // Command palette: Pins all folder notes to shortcuts (English: Pin all folder notes)
+        writeFolderMetadataFiles: 'كتابة بيانات المجلدات الوصفية إلى الملفات', // Command palette: Writes folder icons, colors, sort overrides and appearances to folder notes or sidecars (English: Write folder metadata to files)
+        reloadFolderMetadataFiles: 'إعادة تحميل بيانات المجلدات الوصفية من الملفات', // Command palette: Reads folder metadata from folder notes or sidecars into settings (English: Reload folder metadata from files)
+        exportConfiguration: 'تصدير حزمة الإعدادات', // Command palette: Writes a configuration bundle JSON file to the vault root (English: Export configuration bundle)
+        importConfiguration: 'استيراد حزمة الإعدادات', // Command palette: Opens a dialog to import sections of a configuration bundle (English: Import configuration bundle)
         navigateToFolder: 'الانتقال إلى مجلد', // Command palette: Navigate to a folder using fuzzy search (English: Navigate to folder)
         navigateToTag: 'الانتقال إلى وسم', // Command palette: Navigate to a tag using fuzzy search (English: Navigate to tag)
         navigateToProperty: 'الانتقال إلى خاصية', // Command palette: Navigate to a property key or value using fuzzy search (English: Navigate to property)
@@ -759,6 +1077,8 @@ export const STRINGS_AR = {
         addTag: 'إضافة وسم للملفات المحددة', // Command palette: Opens a dialog to add a tag to selected files (English: Add tag to selected files)
         removeTag: 'إزالة وسم من الملفات المحددة', // Command palette: Opens a dialog to remove a tag from selected files (English: Remove tag from selected files)
         removeAllTags: 'إزالة جميع الوسوم من الملفات المحددة', // Command palette: Removes all tags from selected files (English: Remove all tags from selected files)
+        mergeTags: 'دمج الوسوم', // Command palette: Opens a dialog to merge several tags into one tag (English: Merge tags)
+        editProperties: 'تحرير خصائص الملفات المحددة', // Command palette: Opens a dialog to set, append to, or remove a property on selected files (English: Edit properties of selected files)
         openAllFiles: 'فتح جميع الملفات', // Command palette: Opens all files in the current folder or tag (English: Open all files)
         rebuildCache: 'إعادة بناء الذاكرة المؤقتة' // Command palette: Rebuilds the local Notebook Navigator cache (English: Rebuild cache)
     },
@@ -767,6 +1087,7 @@ export const STRINGS_AR = {
     plugin: {
         viewName: 'متصفح الدفتر', // Name shown in the view header/tab (English: Notebook Navigator)
         calendarViewName: 'تقويم', // Name shown in the view header/tab (English: Calendar)
+        statisticsViewName: 'إحصائيات الخزنة', // Name shown in the statistics view header/tab (English: Vault statistics)
         ribbonTooltip: 'متصفح الدفتر', // Tooltip for the ribbon icon in the left sidebar (English: Notebook Navigator)
         revealInNavigator: 'الكشف في متصفح الدفتر' // Context menu item to reveal a file in the navigator (English: Reveal in Notebook Navigator)
     },
@@ -865,7 +1186,13 @@ export const STRINGS_AR = {
                     'filename-asc': 'اسم الملف (أ في الأعلى)',
                     'filename-desc': 'اسم الملف (ي في الأعلى)',
                     'property-asc': 'الخاصية (أ في الأعلى)',
-                    'property-desc': 'الخاصية (ي في الأعلى)'
+                    'property-desc': 'الخاصية (ي في الأعلى)',
+                    'wordcount-desc': 'عدد الكلمات (الأكثر في الأعلى)',
+                    'wordcount-asc': 'عدد الكلمات (الأقل في الأعلى)',
+                    'tasks-desc': 'المهام المفتوحة (الأكثر في الأعلى)',
+                    'tasks-asc': 'المهام المفتوحة (الأقل في الأعلى)',
+                    'size-desc': 'حجم الملف (الأكبر في الأعلى)',
+                    'size-asc': 'حجم الملف (الأصغر في الأعلى)'
                 },
                 propertyOverride: {
                     asc: 'الخاصية ‘{property}’ (أ في الأعلى)',
@@ -891,6 +1218,10 @@ export const STRINGS_AR = {
                 name: 'التمرير إلى الملف المحدد عند تغيير القائمة',
                 desc: 'التمرير إلى الملف المحدد عند تثبيت الملاحظات، أو إظهار ملاحظات الفروع، أو تغيير مظهر المجلد، أو تنفيذ عمليات الملفات.'
             },
+            searchNoteContent: {
+                name: 'البحث في محتوى الملاحظات',
+                desc: 'إنشاء فهرس محلي للنص الكامل لمحتوى الملاحظات لبحث التصفية. يفعّل مرشحات `content:` ويجعل كلمات البحث العادية تطابق نص الملاحظة إضافة إلى أسماء الملفات. لا يتطلب Omnisearch.'
+            },
             includeDescendantNotes: {
                 name: 'إظهار ملاحظات المجلدات الفرعية / الفروع',
                 desc: 'تضمين الملاحظات من المجلدات الفرعية المتداخلة وفروع الوسوم عند عرض مجلد أو وسم.'
@@ -905,11 +1236,13 @@ export const STRINGS_AR = {
             },
             groupNotes: {
                 name: 'تجميع الملاحظات',
-                desc: 'عرض رؤوس بين الملاحظات مجمعة حسب التاريخ أو المجلد. تستخدم طرق عرض الوسوم تجميع التاريخ عند تمكين تجميع المجلدات.',
+                desc: 'عرض رؤوس بين الملاحظات مجمعة حسب التاريخ أو المجلد أو الوسم أو الحرف الأول أو قيمة الخاصية. تستخدم طرق عرض الوسوم تجميع التاريخ عند تمكين تجميع المجلدات.',
                 options: {
                     none: 'بدون تجميع',
                     date: 'تجميع حسب التاريخ',
-                    folder: 'تجميع حسب المجلد'
+                    folder: 'تجميع حسب المجلد',
+                    tag: 'تجميع حسب الوسم',
+                    alphabetical: 'تجميع أبجدي'
                 }
             },
             showPinnedGroupHeader: {
@@ -956,6 +1289,11 @@ export const STRINGS_AR = {
                 placeholder: '# Extension=icon\ncpp=LiFileCode\npdf=RaBook',
                 editTooltip: 'تعديل التعيينات'
             },
+            fileStyleRules: {
+                name: 'قواعد نمط الملفات',
+                desc: 'امنح الملفات المطابقة لاستعلام مرشح البحث أيقونة ولونًا، مثل أيقونة صح لـ .status=done أو الرمادي لـ folder:archive. تُحفظ القواعد في ملف تعريف الخزنة.',
+                buttonText: 'تحرير القواعد'
+            },
             optimizeNoteHeight: {
                 name: 'ارتفاع متغير للملاحظة',
                 desc: 'استخدام ارتفاع مضغوط للملاحظات المثبتة والملاحظات بدون نص معاينة.'
@@ -1036,6 +1374,15 @@ export const STRINGS_AR = {
                 name: 'فتح الملاحظات الجديدة في علامة تبويب جديدة',
                 desc: 'عند التفعيل، يفتح أمر إنشاء ملاحظة جديدة الملاحظات في علامة تبويب جديدة. عند التعطيل، تحل الملاحظات محل علامة التبويب الحالية.'
             },
+            newNoteFileNamePattern: {
+                name: 'اسم ملف الملاحظة الجديدة',
+                desc: 'نمط اسم الملف للملاحظات الجديدة. يدعم {{date}} و{{date:FORMAT}} و{{time}} و{{title}}. يمكن للمجلدات تجاوزه من قائمة المجلد. اتركه فارغًا لاستخدام "Untitled".',
+                placeholder: '{{date:YYYY-MM-DD}} {{title}}'
+            },
+            promptForNewNoteTitle: {
+                name: 'طلب العنوان عند إنشاء الملاحظات',
+                desc: 'عرض طلب للعنوان قبل إنشاء الملاحظة. يملأ العنوان {{title}} في نمط اسم الملف، أو يصبح اسم الملف عند عدم تعيين نمط.'
+            },
             autoRevealActiveNote: {
                 name: 'الكشف التلقائي عن الملاحظة النشطة',
                 desc: 'الكشف تلقائيًا عن الملاحظات عند فتحها من المبدل السريع أو الروابط أو البحث.'
@@ -1212,6 +1559,11 @@ export const STRINGS_AR = {
                 desc: 'يعرض منتقي ملفات القوالب الملاحظات من هذا المجلد.',
                 placeholder: 'Templates'
             },
+            noteTemplateRules: {
+                name: 'قواعد قوالب الملاحظات',
+                desc: 'تطبيق قالب ونمط اسم ملف على الملاحظات المنشأة من مجلد أو وسم أو خاصية.',
+                buttonText: 'تحرير القواعد'
+            },
             calendarCustomFilePattern: {
                 name: 'الملاحظات اليومية',
                 desc: 'تنسيق المسار باستخدام تنسيق تاريخ Moment. ضع أسماء المجلدات الفرعية بين أقواس معقوفة، مثال [Work]/YYYY. انقر على أيقونة القالب لتعيين قالب. حدد موقع مجلد القوالب في عام > قوالب.',
@@ -1266,6 +1618,16 @@ export const STRINGS_AR = {
                 notice: 'تمت إعادة تعيين جميع الإعدادات. أعد تشغيل Obsidian أو أعد فتح متصفح الدفتر للتطبيق.',
                 error: 'فشل إعادة تعيين الإعدادات.'
             },
+            configBundle: {
+                name: 'حزمة الإعدادات',
+                desc: 'صدّر ملفات تعريف الخزنة والاختصارات والتنسيق والمظهر وتجاوزات الفرز وخرائط الأيقونات واختصارات لوحة المفاتيح إلى ملف JSON في جذر الخزنة، أو استورد حزمة لإعداد خزنة أخرى.',
+                exportButton: 'تصدير',
+                importButton: 'استيراد',
+                exportSuccess: 'تم تصدير الإعدادات إلى {filename}',
+                exportFailed: 'فشل تصدير الإعدادات.',
+                importSuccess: 'تم استيراد الإعدادات.',
+                importFailed: 'فشل استيراد الإعدادات.'
+            },
             multiSelectModifier: {
                 name: 'معدل التحديد المتعدد',
                 desc: 'اختر مفتاح التعديل الذي يبدل التحديد المتعدد. عند اختيار Option/Alt، النقر مع Cmd/Ctrl يفتح الملاحظات في علامة تبويب جديدة.',
@@ -1290,6 +1652,14 @@ export const STRINGS_AR = {
                 name: 'Ctrl+Enter',
                 desc: 'افتح الملف المحدد في علامة تبويب جديدة أو تقسيم أو نافذة عند الضغط على Ctrl+Enter.'
             },
+            vimKeyboardNavigation: {
+                name: 'تسلسلات مفاتيح بنمط Vim',
+                desc: 'استخدم gg وG للانتقال إلى العنصر الأول والأخير، وdd للحذف، وzc وzo للطي والتوسيع، و/ لفتح البحث. تكون الأولوية لمفاتيح الاختصار المخصصة.'
+            },
+            typeAheadFind: {
+                name: 'البحث أثناء الكتابة',
+                desc: 'كتابة الأحرف تنقلك إلى أول مجلد أو وسم أو ملاحظة يبدأ اسمها بالنص المكتوب. غير متاح أثناء تفعيل تسلسلات مفاتيح Vim.'
+            },
             fileVisibility: {
                 name: 'إظهار أنواع الملفات (ملف الخزنة)',
                 desc: 'تصفية أنواع الملفات المعروضة في المتصفح. أنواع الملفات غير المدعومة من Obsidian قد تفتح في تطبيقات خارجية.',
@@ -1412,6 +1782,10 @@ export const STRINGS_AR = {
                     none: 'لا شيء'
                 }
             },
+            showTaskProgress: {
+                name: 'تقدم المهام',
+                desc: 'عرض شريط الإنجاز وتاريخ الاستحقاق التالي للملاحظات التي تحتوي على مهام.'
+            },
             propertyFields: {
                 name: 'مفاتيح الخصائص (ملف القبو)',
                 desc: 'مفاتيح خصائص الواجهة الأمامية، مع إمكانية التحكم في رؤية كل مفتاح للتنقل وقائمة الملفات.',
@@ -1524,6 +1898,15 @@ export const STRINGS_AR = {
                     alphaDesc: 'من ي إلى أ'
                 }
             },
+            folderMetadataStorage: {
+                name: 'تخزين بيانات المجلد الوصفية',
+                desc: 'خزّن أيضًا أيقونات المجلدات وألوانها وتجاوزات الفرز والمظهر داخل الخزنة لتنتقل مع المجلد عبر المزامنة أو git. تتم مزامنة التغييرات في الاتجاهين. شغّل "كتابة بيانات المجلدات الوصفية إلى الملفات" لترحيل البيانات الحالية.',
+                options: {
+                    settings: 'إعدادات الإضافة فقط',
+                    folderNote: 'الخصائص الأمامية لملاحظة المجلد',
+                    sidecar: 'ملف جانبي .folder.yml'
+                }
+            },
             showNoteCount: {
                 name: 'إظهار عدد الملاحظات',
                 desc: 'عرض عدد الملاحظات بجانب كل مجلد ووسم.'
@@ -1639,6 +2022,11 @@ export const STRINGS_AR = {
                 name: 'إظهار مجلد الخصائص',
                 desc: 'عرض "الخصائص" كمجلد قابل للطي.'
             },
+            propertyHierarchies: {
+                name: 'تسلسلات الخصائص',
+                desc: 'تجميع الملاحظات في مجلدات افتراضية متداخلة لكل قيمة خاصية، مستوى واحد لكل مفتاح. تسلسل واحد في كل سطر بصيغة `Name: key > key > key`. يجب أن تكون المفاتيح مدرجة أيضاً في مفاتيح الخصائص.',
+                placeholder: 'Research: type > status > project'
+            },
             hiddenTags: {
                 name: 'إخفاء الوسوم (ملف الخزنة)',
                 desc: 'قائمة مفصولة بفاصلة من أنماط الوسوم. أنماط الأسماء: tag* (تبدأ بـ)، *tag (تنتهي بـ). أنماط المسارات: archive (الوسم وفروعه)، archive/* (الفروع فقط)، projects/*/drafts (حرف بدل وسطي).',
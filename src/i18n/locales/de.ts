@@ -46,7 +46,10 @@ export const STRINGS_DE = {
         pinnedSection: 'Angeheftet', // Header for the pinned notes section at the top of file list (English: Pinned)
         notesSection: 'Notizen', // Header shown between pinned and regular items when showing documents only (English: Notes)
         filesSection: 'Dateien', // Header shown between pinned and regular items when showing supported or all files (English: Files)
-        hiddenItemAriaLabel: '{name} (ausgeblendet)' // Accessibility label applied to list items that are normally hidden
+        noPropertyValue: 'Kein Wert', // Header for notes without a value when grouping by property (English: No value)
+        hiddenItemAriaLabel: '{name} (ausgeblendet)', // Accessibility label applied to list items that are normally hidden
+        taskProgressAriaLabel: '{completed} von {total} Aufgaben erledigt', // Accessibility label for the task progress bar in file items
+        taskDue: 'Fällig {date}' // Next due date shown next to the task progress bar (English: Due {date})
     },
 
     // Tag list
@@ -60,6 +63,7 @@ export const STRINGS_DE = {
         recentNotesHeader: 'Neueste Notizen',
         recentFilesHeader: 'Neueste Dateien',
         properties: 'Eigenschaften',
+        smartFolders: 'Intelligente Ordner',
         reorderRootFoldersTitle: 'Navigation neu anordnen',
         reorderRootFoldersHint: 'Pfeile oder Ziehen zum Neuanordnen',
         vaultRootLabel: 'Tresor',
@@ -129,6 +133,7 @@ export const STRINGS_DE = {
         mobileBackToNavigation: 'Zurück zur Navigation', // Mobile-only back button text to return to navigation pane (English: Back to navigation)
         changeSortOrder: 'Sortierreihenfolge ändern', // Tooltip for the sort order toggle button (English: Change sort order)
         defaultSort: 'Standard', // Label for default sorting mode (English: Default)
+        customSortChain: 'Benutzerdefinierte Sortierkette...',
         showFolders: 'Navigation anzeigen', // Tooltip for button to show the navigation pane (English: Show navigation)
         reorderRootFolders: 'Navigation neu anordnen',
         finishRootFolderReorder: 'Neuordnung fertig',
@@ -170,6 +175,15 @@ export const STRINGS_DE = {
                         '`-word` Notizen mit "word" im Dateinamen ausschließen.'
                     ]
                 },
+                content: {
+                    title: 'Notizinhalt',
+                    items: [
+                        '`content:wort` Notizen finden, deren Text ein Wort enthält, das mit "wort" beginnt.',
+                        '`content:"zwei wörter"` Jedes Wort muss im Notiztext vorkommen.',
+                        '`-content:wort` Notizen ausschließen, deren Text ein Wort enthält, das mit "wort" beginnt.',
+                        'Erfordert **Notizinhalt durchsuchen** in den Listenbereich-Einstellungen. Wenn aktiviert, finden einfache Wörter auch Notiztext.'
+                    ]
+                },
                 tags: {
                     title: 'Tags',
                     items: [
@@ -193,6 +207,8 @@ export const STRINGS_DE = {
                         '`."Reading Status"="In Progress"` Schlüssel und Werte mit Leerzeichen müssen in Anführungszeichen stehen.',
                         '`-.key` Notizen mit Eigenschaftsschlüssel ausschließen.',
                         '`-.key=value` Notizen mit Eigenschaftswert ausschließen.',
+                        '`.key>=3`, `.key<2026-11-01` Zahlen- oder Datumseigenschaften mit `>`, `>=`, `<`, `<=` vergleichen.',
+                        '`.key:thisweek`, `.key:1..5`, `.key:2026-11-01..2026-11-30` Relatives Datum, Datum, Zahl oder inklusiven Bereich abgleichen.',
                         'Cmd/Ctrl+Klick auf eine Eigenschaft zum Hinzufügen mit AND. Cmd/Ctrl+Shift+Klick zum Hinzufügen mit OR.'
                     ]
                 },
@@ -201,6 +217,8 @@ export const STRINGS_DE = {
                     items: [
                         '`has:task` Notizen mit unerledigten Aufgaben einbeziehen.',
                         '`-has:task` Notizen mit unerledigten Aufgaben ausschließen.',
+                        '`due:overdue`, `due:today`, `due:thisweek` Notizen mit einer offenen Aufgabe einschließen, die im Bereich fällig ist (Tasks-Daten `📅` oder Dataview-Felder `[due:: ]`).',
+                        '`due:2026-11-01..2026-11-30` Fälligkeitsdatum oder Bereich abgleichen. `-due:...` schließt Notizen mit einer passenden offenen Aufgabe aus.',
                         '`folder:meetings` Notizen einbeziehen, deren Ordnername `meetings` enthält.',
                         '`folder:/work/meetings` Notizen nur in `work/meetings` einbeziehen (keine Unterordner).',
                         '`folder:/` Notizen nur im Vault-Stammverzeichnis einbeziehen.',
@@ -212,13 +230,13 @@ export const STRINGS_DE = {
                     ]
                 },
                 connectors: {
-                    title: 'AND/OR-Verhalten',
+                    title: 'AND/OR/NOT und Gruppierung',
                     items: [
-                        '`AND` und `OR` sind nur in reinen Tag-/Eigenschafts-Abfragen Operatoren.',
-                        'Reine Tag-/Eigenschafts-Abfragen enthalten nur Tag- und Eigenschafts-Filter: `#tag`, `-#tag`, `#`, `-#`, `.key`, `-.key`, `.key=value`, `-.key=value`.',
-                        'Wenn eine Abfrage Namen, Daten (`@...`), Aufgabenfilter (`has:task`), Ordnerfilter (`folder:...`) oder Erweiterungsfilter (`ext:...`) enthält, werden `AND` und `OR` als Wörter abgeglichen.',
-                        'Beispiel für Operator-Abfrage: `#work OR .status=started`.',
-                        'Beispiel für gemischte Abfrage: `#work OR ext:md` (`OR` wird in Dateinamen abgeglichen).'
+                        '`AND`, `OR` und `NOT` sind Operatoren, wenn eine Abfrage einen Filter (`#tag`, `.key`, `@date`, `has:task`, `due:`, `folder:`, `ext:`, `content:`) oder Klammern enthält.',
+                        '`( )` gruppiert Begriffe: `(folder:Projects OR folder:Areas) AND #active AND -ext:pdf`.',
+                        '`NOT begriff` oder `-begriff` schließt einen Begriff aus. `-( )` schließt eine ganze Gruppe aus.',
+                        '`NOT` bindet stärker als `AND`, und `AND` bindet stärker als `OR`. Benachbarte Begriffe werden implizit mit AND verknüpft.',
+                        'Abfragen nur aus Wörtern ohne Klammern gleichen `AND`, `OR` und `NOT` als Wörter in Dateinamen ab (z. B. `schwarz or weiß`).'
                     ]
                 },
                 dates: {
@@ -280,6 +298,7 @@ export const STRINGS_DE = {
             addTag: 'Tag hinzufügen',
             removeTag: 'Tag entfernen',
             removeAllTags: 'Alle Tags entfernen',
+            editProperties: 'Eigenschaften bearbeiten',
             changeIcon: 'Symbol ändern',
             changeColor: 'Farbe ändern',
             // File-specific context menu items (non-markdown files)
@@ -299,6 +318,7 @@ export const STRINGS_DE = {
         folder: {
             newNote: 'Neue Notiz',
             newNoteFromTemplate: 'Neue Notiz aus Vorlage',
+            newNoteFileName: 'Dateiname für neue Notizen...',
             newFolder: 'Neuer Ordner',
             newCanvas: 'Neue Canvas',
             newBase: 'Neue Datenbank',
@@ -323,14 +343,24 @@ export const STRINGS_DE = {
             changeIcon: 'Symbol ändern',
             changeColor: 'Farbe ändern',
             changeBackground: 'Hintergrund ändern',
+            mergeTags: 'Tags zusammenführen...',
+            splitTag: 'Tag aufteilen...',
             showTag: 'Tag anzeigen',
             hideTag: 'Tag ausblenden'
         },
         property: {
             addKey: 'Eigenschaftsschlüssel konfigurieren',
             renameKey: 'Eigenschaft umbenennen',
+            renameValue: 'Wert umbenennen',
+            mergeValue: 'Mit Wert zusammenführen...',
             deleteKey: 'Eigenschaft löschen'
         },
+        smartFolder: {
+            newSmartFolder: 'Neuer intelligenter Ordner',
+            newNestedSmartFolder: 'Neuer verschachtelter intelligenter Ordner',
+            editSmartFolder: 'Intelligenten Ordner bearbeiten',
+            deleteSmartFolder: 'Intelligenten Ordner löschen'
+        },
         navigation: {
             addSeparator: 'Trennlinie hinzufügen',
             removeSeparator: 'Trennlinie entfernen'
@@ -356,11 +386,25 @@ export const STRINGS_DE = {
     folderAppearance: {
         standardPreset: 'Standard',
         compactPreset: 'Kompakt',
+        gridPreset: 'Raster',
+        boardPreset: 'Board...',
+        boardPresetOption: (property: string) => `Board (${property})`,
+        boardPropertyAction: 'Board-Spalten aus Eigenschaft',
+        boardPropertyPlaceholder: 'Eigenschaftsschlüssel',
+        tileSize: 'Kachelgröße',
+        tileSizeOptions: {
+            small: 'Kleine Kacheln',
+            medium: 'Mittlere Kacheln',
+            large: 'Große Kacheln'
+        },
         defaultSuffix: '(Standard)',
         defaultLabel: 'Standard',
         titleRows: 'Titelzeilen',
         previewRows: 'Vorschauzeilen',
         groupBy: 'Gruppieren nach',
+        groupByPropertyAction: 'Nach Eigenschaft gruppieren...',
+        groupByPropertyPlaceholder: 'Eigenschaftsschlüssel',
+        groupByPropertyOption: (property: string) => `Nach Eigenschaft gruppieren (${property})`,
         defaultTitleOption: (rows: number) => `Standard-Titelzeilen (${rows})`,
         defaultPreviewOption: (rows: number) => `Standard-Vorschauzeilen (${rows})`,
         defaultGroupOption: (groupLabel: string) => `Standardgruppierung (${groupLabel})`,
@@ -384,6 +428,90 @@ export const STRINGS_DE = {
         fileIconRuleEditor: {
             addRuleAria: 'Regel hinzufügen'
         },
+        sortChain: {
+            title: 'Benutzerdefinierte Sortierkette',
+            description:
+                'Notizen werden nach dem ersten Schlüssel sortiert. Jeder folgende Schlüssel ordnet Notizen, die bei den Schlüsseln darüber gleich sind.',
+            propertyPlaceholder: 'Eigenschaftsschlüssel',
+            ascending: 'Aufsteigend',
+            descending: 'Absteigend',
+            addKey: 'Sortierschlüssel hinzufügen',
+            moveUp: 'Nach oben',
+            moveDown: 'Nach unten',
+            save: 'Speichern',
+            fields: {
+                modified: 'Bearbeitungsdatum',
+                created: 'Erstellungsdatum',
+                title: 'Titel',
+                filename: 'Dateiname',
+                property: 'Eigenschaft',
+                wordcount: 'Wortanzahl',
+                tasks: 'Offene Aufgaben',
+                size: 'Dateigröße'
+            }
+        },
+        noteTemplateRules: {
+            title: 'Notizvorlagen-Regeln',
+            description:
+                'Notizen, die aus einem Ordner, Tag oder einer Eigenschaft erstellt werden, verwenden Vorlage und Dateinamen der ersten passenden Regel. Dateinamen unterstützen {{date}}, {{date:FORMAT}}, {{time}} und {{title}}.',
+            folderPatternPlaceholder: 'Ordnerpfad, z. B. Meetings oder Projects/*/Notes',
+            tagPatternPlaceholder: 'Tag, z. B. meeting',
+            propertyPatternPlaceholder: 'Eigenschaft, z. B. type oder type=meeting',
+            templatePlaceholder: 'Vorlagendatei',
+            fileNamePlaceholder: 'Dateinamenmuster, z. B. {{date}} Meeting',
+            emptyState: 'Keine Regeln. Neue Notizen werden leer erstellt.',
+            addRule: 'Regel hinzufügen',
+            moveUp: 'Nach oben',
+            moveDown: 'Nach unten',
+            save: 'Speichern',
+            targets: {
+                folder: 'Ordner',
+                tag: 'Tag',
+                property: 'Eigenschaft'
+            }
+        },
+        fileStyleRules: {
+            title: 'Dateistilregeln',
+            description:
+                'Dateien, die zur Abfrage einer Regel passen, erhalten deren Symbol und Farbe. Abfragen verwenden die Syntax der Suchfilter. Regeln werden von oben nach unten geprüft: Die erste passende Regel mit Symbol setzt das Symbol, die erste passende Regel mit Farbe setzt die Farbe. Direkt an einer Datei gesetzte Symbole und Farben haben Vorrang.',
+            queryPlaceholder: 'Filterabfrage, z. B. .status=done, #meeting oder folder:archive',
+            emptyState: 'Keine Regeln.',
+            setIcon: 'Symbol festlegen',
+            setColor: 'Farbe festlegen',
+            addRule: 'Regel hinzufügen',
+            moveUp: 'Nach oben',
+            moveDown: 'Nach unten',
+            save: 'Speichern'
+        },
+        configBundleImport: {
+            title: 'Konfigurationspaket importieren',
+            description:
+                'Wähle eine Paket-JSON-Datei aus dem Tresor und dann die zu importierenden Bereiche. Importierte Werte werden wie normale Einstellungen geprüft.',
+            filePlaceholder: 'Pfad zum Paket, z. B. notebook-navigator-config.json',
+            sectionsLabel: 'Zu importierende Bereiche',
+            strategyLabel: 'Vorhandene Einstellungen',
+            strategies: {
+                merge: 'Zusammenführen, Paketeinträge haben Vorrang',
+                replace: 'Ausgewählte Bereiche ersetzen'
+            },
+            bundleInfo: 'Exportiert am {date} aus Notebook Navigator {version}',
+            importButton: 'Importieren',
+            sections: {
+                vaultProfiles: 'Tresorprofile und Verknüpfungen',
+                styling: 'Symbole und Farben für Ordner, Tags und Eigenschaften',
+                appearances: 'Darstellung von Ordnern und Tags',
+                sortOverrides: 'Sortierüberschreibungen',
+                iconMaps: 'Symbolzuordnungen und Oberflächensymbole',
+                keyboardShortcuts: 'Tastenkürzel'
+            },
+            errors: {
+                invalidJson: 'Die Datei ist kein gültiges JSON.',
+                invalidFormat: 'Die Datei ist kein Notebook Navigator-Konfigurationspaket.',
+                unsupportedVersion: 'Dieses Paket wurde mit einer neueren Version von Notebook Navigator erstellt.',
+                empty: 'Das Paket enthält keine importierbaren Bereiche.',
+                readFailed: 'Die Datei konnte nicht gelesen werden.'
+            }
+        },
         interfaceIcons: {
             title: 'Oberflächensymbole',
             fileItemsSection: 'Datei-Elemente',
@@ -414,6 +542,8 @@ export const STRINGS_DE = {
                 'nav-properties': 'Eigenschaften',
                 'nav-property': 'Eigenschaft',
                 'nav-property-value': 'Wert',
+                'nav-smart-folders': 'Intelligente Ordner',
+                'nav-smart-folder': 'Intelligenter Ordner',
                 'list-pinned': 'Angeheftete Elemente',
                 'file-unfinished-task': 'Unerledigte Aufgaben',
                 'file-word-count': 'Wortanzahl'
@@ -494,6 +624,112 @@ export const STRINGS_DE = {
             deleteSettingsUpdateFailed: 'Eigenschaft {property} gelöscht. Einstellungen konnten nicht aktualisiert werden.',
             invalidKeyName: 'Geben Sie einen gültigen Eigenschaftsnamen ein.'
         },
+        propertyValueEdit: {
+            title: 'Eigenschaften bearbeiten',
+            description: 'Eine Eigenschaft in {count} {files} ändern.',
+            keyLabel: 'Eigenschaft',
+            keyPlaceholder: 'Name der Eigenschaft',
+            modeLabel: 'Aktion',
+            modes: {
+                set: 'Wert setzen',
+                append: 'Zur Liste hinzufügen',
+                remove: 'Eigenschaft entfernen'
+            },
+            valueLabel: 'Wert',
+            valuePlaceholder: 'Wert',
+            emptyValue: '(leer)',
+            previewTitle: 'Vorschau',
+            changeSummary: '{count} von {total} Notizen werden geändert',
+            noChanges: 'Keine Notizen müssen geändert werden.',
+            apply: 'Anwenden',
+            successSingle: 'Eigenschaft {property} in 1 Notiz aktualisiert',
+            successMultiple: 'Eigenschaft {property} in {count} Notizen aktualisiert',
+            partialFailure: 'Eigenschaft {property} in {count} Notizen aktualisiert. {failed} Notizen konnten nicht aktualisiert werden.'
+        },
+        propertyValueRename: {
+            renameTitle: 'Wert {value} umbenennen',
+            renameWarning:
+                'Das Umbenennen von {property}: {value} ändert {count} {files}. Ein bereits vorhandener Wert führt die beiden Werte zusammen.',
+            newValuePrompt: 'Neuer Wert',
+            newValuePlaceholder: 'Neuen Wert eingeben',
+            confirmRename: 'Wert umbenennen',
+            mergeTitle: 'Wert {value} zusammenführen',
+            mergeWarning:
+                'Das Zusammenführen von {oldValue} in {newValue} ändert {count} {files}. {newValue} behält eigenes Symbol, Farbe und Verknüpfungen.',
+            mergePlaceholder: '{value} zusammenführen mit...',
+            mergeInstruction: 'zum Zusammenführen',
+            confirmMerge: 'Werte zusammenführen',
+            noOtherValues: 'Eigenschaft {property} hat keine anderen Werte',
+            nestedTarget: 'Ein Wert kann nicht in einen seiner verschachtelten Werte umbenannt werden.',
+            invalidValue: 'Gib einen gültigen Wert ein.',
+            noChanges: '{oldValue} → {newValue} (keine Änderungen)',
+            successSingle: '{oldValue} → {newValue} in 1 Notiz umbenannt',
+            successMultiple: '{oldValue} → {newValue} in {count} Notizen umbenannt',
+            partialFailure: '{oldValue} → {newValue} in {count} Notizen umbenannt. {failed} Notizen konnten nicht aktualisiert werden.'
+        },
+        tagOperationSummary: {
+            close: 'Schließen',
+            updatedNotes: 'Aktualisierte Notizen',
+            skippedNotes: 'Übersprungene Notizen',
+            skippedDescription: 'Diese Notizen wurden nach der Vorschau geändert oder hatten nichts zu aktualisieren.',
+            failedNotes: 'Fehlgeschlagene Notizen',
+            reportSummary: '{changed} von {total} Notizen aktualisiert.'
+        },
+        tagMerge: {
+            title: 'Tags zusammenführen',
+            description: 'Mehrere Tags zu einem Tag zusammenführen. Verschachtelte Tags werden mit ihrem übergeordneten Tag verschoben.',
+            sourcesLabel: 'Zusammenzuführende Tags',
+            sourcesPlaceholder: 'Tags durch Kommas getrennt',
+            targetLabel: 'Zusammenführen in',
+            targetPlaceholder: 'Ziel-Tag',
+            preview: 'Vorschau anzeigen',
+            nothingToMerge:
+                'Keine Tags zum Zusammenführen. Prüfe, ob die Tags in Notizen verwendet werden und sich vom Ziel-Tag unterscheiden.',
+            previewTitle: 'In {tag} zusammenführen',
+            previewDescription: 'Das Zusammenführen von {tags} in {tag} ändert {count} Notizen.',
+            confirm: 'Tags zusammenführen',
+            affectedNotes: 'Betroffene Notizen',
+            skippedTags: 'Übersprungene Tags',
+            skipReasons: {
+                sameAsTarget: 'identisch mit dem Ziel-Tag',
+                containsTarget: 'das Ziel-Tag ist unter diesem Tag verschachtelt',
+                nestedInSource: 'wird mit dem übergeordneten Tag zusammengeführt',
+                noNotes: 'in keiner Notiz verwendet'
+            },
+            alreadyTagged: 'Notizen, die bereits {tag} haben',
+            alreadyTaggedDescription: 'Diese Notizen enthalten das Ziel-Tag mehrfach.',
+            multipleSources: 'Notizen mit mehreren zusammengeführten Tags',
+            multipleSourcesDescription: 'Jede dieser Notizen enthält das Ziel-Tag mehrfach.',
+            nestedCollisions: 'Konflikte bei verschachtelten Tags',
+            nestedCollisionsDescription: 'Diese verschachtelten Tags werden in bereits vorhandene verschachtelte Tags zusammengeführt.',
+            notFinalized: 'Metadaten nicht verschoben',
+            notFinalizedDescription:
+                'Einige Notizen mit diesen Tags wurden nicht aktualisiert, daher wurden Symbole, Farben und Verknüpfungen beibehalten.',
+            reportTitle: 'In {tag} zusammengeführt'
+        },
+        tagSplit: {
+            title: 'Tag {tag} aufteilen',
+            description:
+                '{count} {files} mit genau {tag}. Jede Notiz wird in das untergeordnete Tag der ersten passenden Regel verschoben. Notizen ohne passende Regel behalten {tag}.',
+            childPlaceholder: 'Untergeordnetes Tag',
+            kinds: {
+                folder: 'Ordner',
+                query: 'Filterabfrage'
+            },
+            folderPlaceholder: 'Ordnerpfad (inklusive Unterordner)',
+            queryPlaceholder: 'Suchfilter-Abfrage',
+            addRule: 'Regel hinzufügen',
+            preview: 'Vorschau anzeigen',
+            nothingMatched: 'Keine Notizen passen zu den Regeln.',
+            previewTitle: '{tag} aufteilen',
+            previewDescription: '{count} von {total} Notizen mit {tag} werden in ein untergeordnetes Tag verschoben.',
+            confirm: 'Tag aufteilen',
+            invalidRules: 'Regeln, die nicht ausgewertet werden können',
+            invalidRulesDescription: 'Filterabfragen benötigen Suchkriterien und einen bereiten Notiz-Cache.',
+            unmatched: 'Notizen ohne passende Regel',
+            unmatchedDescription: 'Diese Notizen behalten {tag}.',
+            reportTitle: '{tag} aufgeteilt'
+        },
         fileSystem: {
             newFolderTitle: 'Neuer Ordner',
             renameFolderTitle: 'Ordner umbenennen',
@@ -503,6 +739,10 @@ export const STRINGS_DE = {
             deleteFileAttachmentsTitle: 'Dateianhänge löschen?',
             moveFileConflictTitle: 'Verschiebekonflikt',
             folderNamePrompt: 'Ordnernamen eingeben:',
+            newNoteTitle: 'Neue Notiz',
+            noteTitlePrompt: 'Notiztitel eingeben:',
+            createNoteButton: 'Erstellen',
+            newNoteFileNamePrompt: 'Dateinamenmuster, z. B. {{date:YYYYMMDDHHmm}} {{title}}. Leer lassen für den Standard.',
             hideInOtherVaultProfiles: 'In anderen Tresorprofilen ausblenden',
             renamePrompt: 'Neuen Namen eingeben:',
             renameVaultTitle: 'Anzeigenamen des Tresors ändern',
@@ -596,6 +836,23 @@ export const STRINGS_DE = {
             applyButton: 'Anwenden',
             emptyState: 'Keine Eigenschaftsschlüssel gefunden.'
         },
+        smartFolder: {
+            newTitle: 'Neuer intelligenter Ordner',
+            newNestedTitle: 'Neuer intelligenter Ordner in {name}',
+            editTitle: 'Intelligenten Ordner bearbeiten',
+            nameLabel: 'Name',
+            namePlaceholder: 'Name des intelligenten Ordners',
+            queryLabel: 'Filterabfrage',
+            queryPlaceholder: '#project AND -#archived',
+            queryDescription:
+                'Verwendet die Filtersuch-Syntax. Verschachtelte intelligente Ordner listen nur Notizen, die auch den Abfragen ihrer übergeordneten Ordner entsprechen.',
+            create: 'Erstellen',
+            save: 'Speichern',
+            emptyName: 'Der Name des intelligenten Ordners darf nicht leer sein',
+            duplicateName: 'Hier existiert bereits ein intelligenter Ordner mit diesem Namen',
+            deleteTitle: 'Intelligenten Ordner "{name}" löschen?',
+            deleteMessage: 'Verschachtelte intelligente Ordner werden ebenfalls gelöscht. Notizen werden nicht verändert.'
+        },
         welcome: {
             title: 'Willkommen bei {pluginName}',
             introText:
@@ -679,6 +936,9 @@ export const STRINGS_DE = {
             iconPackUpdated: '{provider} aktualisiert ({version})',
             iconPackRemoved: '{provider} entfernt',
             iconPackLoadFailed: '{provider} konnte nicht geladen werden',
+            folderMetadataWritten: 'Metadaten für {count} Ordner geschrieben',
+            folderMetadataLoaded: 'Metadaten für {count} Ordner geladen',
+            folderMetadataStorageDisabled: 'Wähle zuerst Ordnernotiz- oder Begleitdatei-Speicherung in den Ordner-Einstellungen',
             hiddenFileReveal: 'Datei ist ausgeblendet. Aktiviere „Ausgeblendete Elemente anzeigen", um sie anzuzeigen'
         },
         confirmations: {
@@ -708,7 +968,62 @@ export const STRINGS_DE = {
             filesAlreadyHaveProperty: '{count} Dateien haben diese Eigenschaft bereits',
             noTagsToClear: 'Keine Tags zum Entfernen',
             fileImported: '1 Datei importiert',
-            filesImported: '{count} Dateien importiert'
+            filesImported: '{count} Dateien importiert',
+            filesMoved: '{count} Dateien nach {folder} verschoben'
+        }
+    },
+
+    // Undo history
+    undoHistory: {
+        undo: 'Rückgängig',
+        undone: 'Rückgängig gemacht: {action}',
+        redone: 'Wiederholt: {action}',
+        nothingToUndo: 'Nichts rückgängig zu machen',
+        nothingToRedo: 'Nichts zu wiederholen',
+        failed: '"{action}" konnte nicht rückgängig gemacht werden: {error}',
+        partial: '{count} Elemente konnten nicht wiederhergestellt werden',
+        actions: {
+            moveFile: '"{name}" verschieben',
+            moveFiles: '{count} Dateien verschieben',
+            moveFolder: 'Ordner "{name}" verschieben',
+            renameFile: '"{name}" umbenennen',
+            renameFolder: 'Ordner "{name}" umbenennen',
+            addTag: 'Tag #{tag} hinzufügen',
+            removeTag: 'Tag #{tag} entfernen',
+            renameProperty: 'Eigenschaft {oldKey} → {newKey} umbenennen',
+            editProperty: 'Eigenschaft {property} bearbeiten',
+            renamePropertyValue: 'Wert von {property} umbenennen: {oldValue} → {newValue}',
+            changeAppearance: 'Darstellung von "{name}" ändern'
+        }
+    },
+
+    // Vault statistics dashboard
+    statisticsDashboard: {
+        refresh: 'Aktualisieren',
+        loading: 'Warte auf den Notiz-Cache...',
+        unavailable: 'Statistik konnte nicht berechnet werden.',
+        empty: 'Keine Daten',
+        weekLabel: 'Woche vom {date}',
+        createdCount: '{count} erstellt',
+        modifiedCount: '{count} geändert',
+        summary: {
+            notes: 'Notizen',
+            words: 'Wörter',
+            openTasks: 'Offene Aufgaben',
+            untagged: 'Notizen ohne Tags',
+            orphaned: 'Verwaiste Notizen',
+            orphanedDescription: 'Notizen, auf die keine andere Notiz verlinkt'
+        },
+        sections: {
+            activity: 'Erstellte und geänderte Notizen pro Woche',
+            wordsPerFolder: 'Wörter pro Ordner',
+            openTasksPerFolder: 'Offene Aufgaben pro Ordner',
+            topTags: 'Häufigste Tags',
+            topProperties: 'Häufigste Eigenschaften'
+        },
+        legend: {
+            created: 'Erstellt',
+            modified: 'Geändert'
         }
     },
 
@@ -733,8 +1048,10 @@ export const STRINGS_DE = {
         revealFile: 'Datei anzeigen', // Command palette: Reveals and selects the currently active file in the navigator (English: Reveal file)
         search: 'Suchen', // Command palette: Toggle search in the file list (English: Search)
         searchVaultRoot: 'Im Tresorverzeichnis suchen', // Command palette: Selects the vault root folder and focuses search (English: Search in vault root)
+        createSmartFolder: 'Intelligenten Ordner aus Suche erstellen',
         toggleDualPane: 'Doppelbereichslayout umschalten', // Command palette: Toggles between single-pane and dual-pane layout (English: Toggle dual pane layout)
         toggleCalendar: 'Kalender umschalten', // Command palette: Toggles showing the calendar overlay in the navigation pane (English: Toggle calendar)
+        openStatistics: 'Tresor-Statistik öffnen', // Command palette: Opens the vault statistics dashboard (English: Open vault statistics)
         selectVaultProfile: 'Tresorprofil wechseln', // Command palette: Opens a modal to choose a different vault profile (English: Switch vault profile)
         selectVaultProfile1: 'Tresorprofil 1 auswählen', // Command palette: Activates the first vault profile without opening the modal (English: Select vault profile 1)
         selectVaultProfile2: 'Tresorprofil 2 auswählen', // Command palette: Activates the second vault profile without opening the modal (English: Select vault profile 2)
@@ -743,12 +1060,18 @@ export const STRINGS_DE = {
         createNewNote: 'Neue Notiz erstellen', // Command palette: Creates a new note in the currently selected folder (English: Create new note)
         createNewNoteFromTemplate: 'Neue Notiz aus Vorlage', // Command palette: Creates a new note from a template in the currently selected folder (English: Create new note from template)
         moveFiles: 'Dateien verschieben', // Command palette: Move selected files to another folder (English: Move files)
+        undo: 'Dateivorgang rückgängig machen', // Command palette: Reverse the most recent file operation (English: Undo file operation)
+        redo: 'Dateivorgang wiederholen', // Command palette: Reapply the most recently undone file operation (English: Redo file operation)
         selectNextFile: 'Nächste Datei auswählen', // Command palette: Selects the next file in the current view (English: Select next file)
         selectPreviousFile: 'Vorherige Datei auswählen', // Command palette: Selects the previous file in the current view (English: Select previous file)
         convertToFolderNote: 'In Ordnernotiz konvertieren', // Command palette: Converts the active file into a folder note with a new folder (English: Convert to folder note)
         setAsFolderNote: 'Als Ordnernotiz festlegen', // Command palette: Renames the active file to its folder note name (English: Set as folder note)
         detachFolderNote: 'Ordnernotiz lösen', // Command palette: Renames the active folder note to a new name (English: Detach folder note)
         pinAllFolderNotes: 'Alle Ordnernotizen anheften', // Command palette: Pins all folder notes to shortcuts (English: Pin all folder notes)
+        writeFolderMetadataFiles: 'Ordner-Metadaten in Dateien schreiben', // Command palette: Writes folder icons, colors, sort overrides and appearances to folder notes or sidecars (English: Write folder metadata to files)
+        reloadFolderMetadataFiles: 'Ordner-Metadaten aus Dateien neu laden', // Command palette: Reads folder metadata from folder notes or sidecars into settings (English: Reload folder metadata from files)
+        exportConfiguration: 'Konfigurationspaket exportieren', // Command palette: Writes a configuration bundle JSON file to the vault root (English: Export configuration bundle)
+        importConfiguration: 'Konfigurationspaket importieren', // Command palette: Opens a dialog to import sections of a configuration bundle (English: Import configuration bundle)
         navigateToFolder: 'Zu Ordner navigieren', // Command palette: Navigate to a folder using fuzzy search (English: Navigate to folder)
         navigateToTag: 'Zu Tag navigieren', // Command palette: Navigate to a tag using fuzzy search (English: Navigate to tag)
         navigateToProperty: 'Zu Eigenschaft navigieren', // Command palette: Navigate to a property key or value using fuzzy search (English: Navigate to property)
@@ -762,6 +1085,8 @@ export const STRINGS_DE = {
         addTag: 'Tag zu ausgewählten Dateien hinzufügen', // Command palette: Opens a dialog to add a tag to selected files (English: Add tag to selected files)
         removeTag: 'Tag von ausgewählten Dateien entfernen', // Command palette: Opens a dialog to remove a tag from selected files (English: Remove tag from selected files)
         removeAllTags: 'Alle Tags von ausgewählten Dateien entfernen', // Command palette: Removes all tags from selected files (English: Remove all tags from selected files)
+        mergeTags: 'Tags zusammenführen', // Command palette: Opens a dialog to merge several tags into one tag (English: Merge tags)
+        editProperties: 'Eigenschaften ausgewählter Dateien bearbeiten', // Command palette: Opens a dialog to set, append to, or remove a property on selected files (English: Edit properties of selected files)
         openAllFiles: 'Alle Dateien öffnen', // Command palette: Opens all files in the current folder or tag (English: Open all files)
         rebuildCache: 'Cache neu aufbauen' // Command palette: Rebuilds the local Notebook Navigator cache (English: Rebuild cache)
     },
@@ -770,6 +1095,7 @@ export const STRINGS_DE = {
     plugin: {
         viewName: 'Notebook Navigator', // Name shown in the view header/tab (English: Notebook Navigator)
         calendarViewName: 'Kalender', // Name shown in the view header/tab (English: Calendar)
+        statisticsViewName: 'Tresor-Statistik', // Name shown in the statistics view header/tab (English: Vault statistics)
         ribbonTooltip: 'Notebook Navigator', // Tooltip for the ribbon icon in the left sidebar (English: Notebook Navigator)
         revealInNavigator: 'In Notebook Navigator anzeigen' // Context menu item to reveal a file in the navigator (English: Reveal in Notebook Navigator)
     },
@@ -868,7 +1194,13 @@ export const STRINGS_DE = {
                     'filename-asc': 'Dateiname (A oben)',
                     'filename-desc': 'Dateiname (Z oben)',
                     'property-asc': 'Eigenschaft (A oben)',
-                    'property-desc': 'Eigenschaft (Z oben)'
+                    'property-desc': 'Eigenschaft (Z oben)',
+                    'wordcount-desc': 'Wortanzahl (meiste oben)',
+                    'wordcount-asc': 'Wortanzahl (wenigste oben)',
+                    'tasks-desc': 'Offene Aufgaben (meiste oben)',
+                    'tasks-asc': 'Offene Aufgaben (wenigste oben)',
+                    'size-desc': 'Dateigröße (größte oben)',
+                    'size-asc': 'Dateigröße (kleinste oben)'
                 },
                 propertyOverride: {
                     asc: 'Eigenschaft ‘{property}’ (A oben)',
@@ -894,6 +1226,10 @@ export const STRINGS_DE = {
                 name: 'Zu ausgewählter Datei bei Listenänderungen scrollen',
                 desc: 'Zur ausgewählten Datei scrollen beim Anheften von Notizen, Anzeigen von Unternotizen, Ändern der Ordnerdarstellung oder bei Dateioperationen.'
             },
+            searchNoteContent: {
+                name: 'Notizinhalt durchsuchen',
+                desc: 'Erstellt einen lokalen Volltextindex der Notizinhalte für die Filtersuche. Aktiviert `content:`-Filter und lässt einfache Suchwörter neben Dateinamen auch Notiztext finden. Omnisearch wird nicht benötigt.'
+            },
             includeDescendantNotes: {
                 name: 'Notizen aus Unterordnern / Nachkommen anzeigen',
                 desc: 'Beim Anzeigen eines Ordners oder Tags Notizen aus Unterordnern und Tag-Nachkommen einbeziehen.'
@@ -908,11 +1244,13 @@ export const STRINGS_DE = {
             },
             groupNotes: {
                 name: 'Notizen gruppieren',
-                desc: 'Zeigt Überschriften zwischen Notizen gruppiert nach Datum oder Ordner an. Tag-Ansichten verwenden Datumsgruppen, wenn Ordnergruppierung aktiviert ist.',
+                desc: 'Zeigt Überschriften zwischen Notizen gruppiert nach Datum, Ordner, Tag, Anfangsbuchstabe oder Eigenschaftswert an. Tag-Ansichten verwenden Datumsgruppen, wenn Ordnergruppierung aktiviert ist.',
                 options: {
                     none: 'Nicht gruppieren',
                     date: 'Nach Datum gruppieren',
-                    folder: 'Nach Ordner gruppieren'
+                    folder: 'Nach Ordner gruppieren',
+                    tag: 'Nach Tag gruppieren',
+                    alphabetical: 'Alphabetisch gruppieren'
                 }
             },
             showPinnedGroupHeader: {
@@ -959,6 +1297,11 @@ export const STRINGS_DE = {
                 placeholder: '# Extension=icon\ncpp=LiFileCode\npdf=RaBook',
                 editTooltip: 'Zuordnungen bearbeiten'
             },
+            fileStyleRules: {
+                name: 'Dateistilregeln',
+                desc: 'Dateien, die zu einer Suchfilterabfrage passen, ein Symbol und eine Farbe geben, z. B. ein Häkchen für .status=done oder Grau für folder:archive. Regeln werden im Tresorprofil gespeichert.',
+                buttonText: 'Regeln bearbeiten'
+            },
             optimizeNoteHeight: {
                 name: 'Variable Notizenhöhe',
                 desc: 'Kompakte Höhe für angeheftete Notizen und Notizen ohne Vorschautext verwenden.'
@@ -1039,6 +1382,15 @@ export const STRINGS_DE = {
                 name: 'Neue Notizen in neuem Tab öffnen',
                 desc: 'Wenn aktiviert, öffnet der Befehl „Neue Notiz erstellen" Notizen in einem neuen Tab. Wenn deaktiviert, ersetzen Notizen den aktuellen Tab.'
             },
+            newNoteFileNamePattern: {
+                name: 'Dateiname für neue Notizen',
+                desc: 'Dateinamenmuster für neue Notizen. Unterstützt {{date}}, {{date:FORMAT}}, {{time}} und {{title}}. Ordner können es im Ordnermenü überschreiben. Leer lassen für „Unbenannt“.',
+                placeholder: '{{date:YYYY-MM-DD}} {{title}}'
+            },
+            promptForNewNoteTitle: {
+                name: 'Beim Erstellen nach Titel fragen',
+                desc: 'Vor dem Erstellen einer Notiz nach einem Titel fragen. Der Titel füllt {{title}} im Dateinamenmuster oder wird ohne Muster zum Dateinamen.'
+            },
             autoRevealActiveNote: {
                 name: 'Aktive Notiz automatisch anzeigen',
                 desc: 'Notizen automatisch anzeigen, wenn sie über Schnellauswahl, Links oder Suche geöffnet werden.'
@@ -1215,6 +1567,11 @@ export const STRINGS_DE = {
                 desc: 'Die Vorlagenauswahl zeigt Notizen aus diesem Ordner.',
                 placeholder: 'Templates'
             },
+            noteTemplateRules: {
+                name: 'Notizvorlagen-Regeln',
+                desc: 'Vorlage und Dateinamenmuster auf Notizen anwenden, die aus einem Ordner, Tag oder einer Eigenschaft erstellt werden.',
+                buttonText: 'Regeln bearbeiten'
+            },
             calendarCustomFilePattern: {
                 name: 'Tägliche Notizen',
                 desc: 'Pfad mit Moment-Datumsformat formatieren. Unterordnernamen in Klammern setzen, z.B. [Work]/YYYY. Klicken Sie auf das Vorlagensymbol, um eine Vorlage festzulegen. Vorlagenordner unter Allgemein > Vorlagen festlegen.',
@@ -1271,6 +1628,16 @@ export const STRINGS_DE = {
                 notice: 'Alle Einstellungen zurückgesetzt. Starten Sie Obsidian neu oder öffnen Sie Notebook Navigator erneut, um die Änderungen anzuwenden.',
                 error: 'Zurücksetzen der Einstellungen fehlgeschlagen.'
             },
+            configBundle: {
+                name: 'Konfigurationspaket',
+                desc: 'Tresorprofile, Verknüpfungen, Stile, Darstellungen, Sortierüberschreibungen, Symbolzuordnungen und Tastenkürzel in eine JSON-Datei im Tresorstamm exportieren oder ein Paket importieren, um einen anderen Tresor einzurichten.',
+                exportButton: 'Exportieren',
+                importButton: 'Importieren',
+                exportSuccess: 'Konfiguration nach {filename} exportiert',
+                exportFailed: 'Export der Konfiguration fehlgeschlagen.',
+                importSuccess: 'Konfiguration importiert.',
+                importFailed: 'Import der Konfiguration fehlgeschlagen.'
+            },
             multiSelectModifier: {
                 name: 'Mehrfachauswahl-Modifikator',
                 desc: 'Wählen Sie, welche Modifikatortaste die Mehrfachauswahl umschaltet. Wenn Option/Alt ausgewählt ist, öffnet Cmd/Strg-Klick Notizen in einem neuen Tab.',
@@ -1295,6 +1662,14 @@ export const STRINGS_DE = {
                 name: 'Strg+Enter',
                 desc: 'Ausgewählte Datei in neuem Tab, geteilter Ansicht oder Fenster öffnen mit Strg+Enter.'
             },
+            vimKeyboardNavigation: {
+                name: 'Tastenfolgen im Vim-Stil',
+                desc: 'gg und G springen zum ersten und letzten Element, dd löscht, zc und zo klappen ein und aus, / öffnet die Suche. Eigene Tastenkürzel haben Vorrang.'
+            },
+            typeAheadFind: {
+                name: 'Tippen zum Finden',
+                desc: 'Beim Tippen von Buchstaben wird zum ersten Ordner, Tag oder zur ersten Notiz gesprungen, deren Name mit dem Text beginnt. Nicht verfügbar, solange Tastenfolgen im Vim-Stil aktiv sind.'
+            },
             excludedNotes: {
                 name: 'Notizen mit Eigenschaftsregeln verstecken (Tresorprofil)',
                 desc: 'Kommagetrennte Liste von Frontmatter-Regeln. Verwenden Sie `key` oder `key=value` Einträge (z.B. status=done, published=true, archived).',
@@ -1417,6 +1792,10 @@ export const STRINGS_DE = {
                     none: 'Keine'
                 }
             },
+            showTaskProgress: {
+                name: 'Aufgabenfortschritt',
+                desc: 'Fortschrittsbalken und nächstes Fälligkeitsdatum für Notizen mit Aufgaben anzeigen.'
+            },
             propertyFields: {
                 name: 'Eigenschaftsschlüssel (Tresorprofil)',
                 desc: 'Frontmatter-Eigenschaftsschlüssel mit schlüsselweiser Sichtbarkeit für Navigation und Dateiliste.',
@@ -1528,6 +1907,15 @@ export const STRINGS_DE = {
                     alphaDesc: 'Z bis A'
                 }
             },
+            folderMetadataStorage: {
+                name: 'Speicherort für Ordner-Metadaten',
+                desc: 'Ordnersymbole, -farben, Sortierüberschreibungen und Darstellungen zusätzlich im Tresor speichern, damit sie per Sync oder Git mit dem Ordner mitwandern. Änderungen werden in beide Richtungen synchronisiert. Führe „Ordner-Metadaten in Dateien schreiben" aus, um vorhandene Metadaten zu übertragen.',
+                options: {
+                    settings: 'Nur Plugin-Einstellungen',
+                    folderNote: 'Frontmatter der Ordnernotiz',
+                    sidecar: '.folder.yml-Begleitdatei'
+                }
+            },
             showNoteCount: {
                 name: 'Notizenzahl anzeigen',
                 desc: 'Die Anzahl der Notizen neben jedem Ordner und Tag anzeigen.'
@@ -1643,6 +2031,11 @@ export const STRINGS_DE = {
                 name: 'Eigenschafts-Ordner anzeigen',
                 desc: '"Eigenschaften" als einklappbaren Ordner anzeigen.'
             },
+            propertyHierarchies: {
+                name: 'Eigenschaftshierarchien',
+                desc: 'Notizen in virtuellen Ordnern pro Eigenschaftswert verschachteln, eine Ebene pro Schlüssel. Eine Hierarchie pro Zeile als `Name: key > key > key`. Die Schlüssel müssen auch unter Eigenschaftsschlüssel aufgeführt sein.',
+                placeholder: 'Research: type > status > project'
+            },
             hiddenTags: {
                 name: 'Tags verstecken (Tresorprofil)',
                 desc: 'Kommagetrennte Liste von Tag-Mustern. Namensmuster: tag* (beginnt mit), *tag (endet mit). Pfadmuster: archiv (Tag und Untergeordnete), archiv/* (nur Untergeordnete), projekte/*/entwürfe (Platzhalter in der Mitte).',
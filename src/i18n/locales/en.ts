@@ -46,7 +46,10 @@ export const STRINGS_EN = {
         pinnedSection: 'Pinned', // Header for the pinned notes section at the top of file list (English: Pinned)
         notesSection: 'Notes', // Header shown between pinned and regular items when showing documents only (English: Notes)
         filesSection: 'Files', // Header shown between pinned and regular items when showing supported or all files (English: Files)
-        hiddenItemAriaLabel: '{name} (hidden)' // Accessibility label applied to list items that are normally hidden
+        noPropertyValue: 'No value', // Header for notes without a value when grouping by property (English: No value)
+        hiddenItemAriaLabel: '{name} (hidden)', // Accessibility label applied to list items that are normally hidden
+        taskProgressAriaLabel: '{completed} of {total} tasks completed', // Accessibility label for the task progress bar in file items
+        taskDue: 'Due {date}' // Next due date shown next to the task progress bar (English: Due {date})
     },
 
     // Tag list
@@ -61,6 +64,7 @@ export const STRINGS_EN = {
         recentNotesHeader: 'Recent notes', // Header label for recent notes section in navigation pane (English: Recent notes)
         recentFilesHeader: 'Recent files', // Header label when showing recent non-note files in navigation pane (English: Recent files)
         properties: 'Properties', // Header label for properties section in navigation pane (English: Properties)
+        smartFolders: 'Smart folders', // Header label for smart folders section in navigation pane (English: Smart folders)
         reorderRootFoldersTitle: 'Reorder navigation',
         reorderRootFoldersHint: 'Use arrows or drag to reorder',
         vaultRootLabel: 'Vault',
@@ -130,6 +134,7 @@ export const STRINGS_EN = {
         mobileBackToNavigation: 'Back to navigation', // Mobile-only back button text to return to navigation pane (English: Back to navigation)
         changeSortOrder: 'Change sort order', // Tooltip for the sort order toggle button (English: Change sort order)
         defaultSort: 'Default', // Label for default sorting mode (English: Default)
+        customSortChain: 'Custom sort chain...', // Sort menu item that opens the sort chain editor for the selected folder (English: Custom sort chain...)
         showFolders: 'Show navigation', // Tooltip for button to show the navigation pane (English: Show navigation)
         reorderRootFolders: 'Reorder navigation',
         finishRootFolderReorder: 'Done reordering',
@@ -170,6 +175,15 @@ export const STRINGS_EN = {
                         '`-word` Exclude notes with "word" in the file name.'
                     ]
                 },
+                content: {
+                    title: 'Note content',
+                    items: [
+                        '`content:word` Match notes whose text contains a word starting with "word".',
+                        '`content:"two words"` Require every word to appear in the note text.',
+                        '`-content:word` Exclude notes whose text contains a word starting with "word".',
+                        'Requires **Search note content** in List pane settings. When enabled, bare words also match note text.'
+                    ]
+                },
                 tags: {
                     title: 'Tags',
                     items: [
@@ -193,6 +207,8 @@ export const STRINGS_EN = {
                         '`."Reading Status"="In Progress"` Keys and values with whitespace must be double-quoted.',
                         '`-.key` Exclude notes with property key.',
                         '`-.key=value` Exclude notes with property value.',
+                        '`.key>=3`, `.key<2026-11-01` Compare number or date properties with `>`, `>=`, `<`, `<=`.',
+                        '`.key:thisweek`, `.key:1..5`, `.key:2026-11-01..2026-11-30` Match a relative date, date, number, or inclusive range.',
                         'Cmd/Ctrl+Click a property to add with AND. Cmd/Ctrl+Shift+Click to add with OR.'
                     ]
                 },
@@ -201,6 +217,8 @@ export const STRINGS_EN = {
                     items: [
                         '`has:task` Include notes with unfinished tasks.',
                         '`-has:task` Exclude notes with unfinished tasks.',
+                        '`due:overdue`, `due:today`, `due:thisweek` Include notes with an open task due in the range (Tasks `📅` dates or Dataview `[due:: ]` fields).',
+                        '`due:2026-11-01..2026-11-30` Match a due date or range. `-due:...` excludes notes with a matching open task.',
                         '`folder:meetings` Include notes where a folder name contains `meetings`.',
                         '`folder:/work/meetings` Include notes only in `work/meetings` (not subfolders).',
                         '`folder:/` Include notes only in the vault root.',
@@ -212,13 +230,13 @@ export const STRINGS_EN = {
                     ]
                 },
                 connectors: {
-                    title: 'AND/OR behavior',
+                    title: 'AND/OR/NOT and grouping',
                     items: [
-                        '`AND` and `OR` are operators only in tag/property-only queries.',
-                        'Tag/property-only queries contain only tag and property filters: `#tag`, `-#tag`, `#`, `-#`, `.key`, `-.key`, `.key=value`, `-.key=value`.',
-                        'If a query includes names, dates (`@...`), task filters (`has:task`), folder filters (`folder:...`), or extension filters (`ext:...`), `AND` and `OR` are matched as words.',
-                        'Example operator query: `#work OR .status=started`.',
-                        'Example mixed query: `#work OR ext:md` (`OR` is matched in file names).'
+                        '`AND`, `OR`, and `NOT` are operators when a query contains a filter (`#tag`, `.key`, `@date`, `has:task`, `due:`, `folder:`, `ext:`, `content:`) or parentheses.',
+                        '`( )` groups terms: `(folder:Projects OR folder:Areas) AND #active AND -ext:pdf`.',
+                        '`NOT term` or `-term` excludes a term. `-( )` excludes a whole group.',
+                        '`NOT` binds tighter than `AND`, and `AND` binds tighter than `OR`. Adjacent terms use implicit AND.',
+                        'Queries with only words and no parentheses match `AND`, `OR`, and `NOT` as words in file names (e.g., `black or white`).'
                     ]
                 },
                 dates: {
@@ -292,12 +310,14 @@ export const STRINGS_EN = {
             addTag: 'Add tag',
             removeTag: 'Remove tag',
             removeAllTags: 'Remove all tags',
+            editProperties: 'Edit properties',
             changeIcon: 'Change icon',
             changeColor: 'Change color'
         },
         folder: {
             newNote: 'New note',
             newNoteFromTemplate: 'New note from template',
+            newNoteFileName: 'New note file name...',
             newFolder: 'New folder',
             newCanvas: 'New canvas',
             newBase: 'New base',
@@ -322,14 +342,24 @@ export const STRINGS_EN = {
             changeIcon: 'Change icon',
             changeColor: 'Change color',
             changeBackground: 'Change background',
+            mergeTags: 'Merge tags...',
+            splitTag: 'Split tag...',
             showTag: 'Show tag',
             hideTag: 'Hide tag'
         },
         property: {
             addKey: 'Configure property keys',
             renameKey: 'Rename property',
+            renameValue: 'Rename value',
+            mergeValue: 'Merge into value...',
             deleteKey: 'Delete property'
         },
+        smartFolder: {
+            newSmartFolder: 'New smart folder',
+            newNestedSmartFolder: 'New nested smart folder',
+            editSmartFolder: 'Edit smart folder',
+            deleteSmartFolder: 'Delete smart folder'
+        },
         navigation: {
             addSeparator: 'Add separator',
             removeSeparator: 'Remove separator'
@@ -355,11 +385,25 @@ export const STRINGS_EN = {
     folderAppearance: {
         standardPreset: 'Standard',
         compactPreset: 'Compact',
+        gridPreset: 'Grid',
+        boardPreset: 'Board...',
+        boardPresetOption: (property: string) => `Board (${property})`,
+        boardPropertyAction: 'Board columns from property',
+        boardPropertyPlaceholder: 'Property key',
+        tileSize: 'Tile size',
+        tileSizeOptions: {
+            small: 'Small tiles',
+            medium: 'Medium tiles',
+            large: 'Large tiles'
+        },
         defaultSuffix: '(default)',
         defaultLabel: 'Default',
         titleRows: 'Title rows',
         previewRows: 'Preview rows',
         groupBy: 'Group by',
+        groupByPropertyAction: 'Group by property...',
+        groupByPropertyPlaceholder: 'Property key',
+        groupByPropertyOption: (property: string) => `Group by property (${property})`,
         defaultTitleOption: (rows: number) => `Default title rows (${rows})`,
         defaultPreviewOption: (rows: number) => `Default preview rows (${rows})`,
         defaultGroupOption: (groupLabel: string) => `Default grouping (${groupLabel})`,
@@ -383,6 +427,89 @@ export const STRINGS_EN = {
         fileIconRuleEditor: {
             addRuleAria: 'Add rule'
         },
+        sortChain: {
+            title: 'Custom sort chain',
+            description: 'Notes are sorted by the first key. Each following key orders notes that are equal on the keys above it.',
+            propertyPlaceholder: 'Property key',
+            ascending: 'Ascending',
+            descending: 'Descending',
+            addKey: 'Add sort key',
+            moveUp: 'Move up',
+            moveDown: 'Move down',
+            save: 'Save',
+            fields: {
+                modified: 'Date edited',
+                created: 'Date created',
+                title: 'Title',
+                filename: 'File name',
+                property: 'Property',
+                wordcount: 'Word count',
+                tasks: 'Open tasks',
+                size: 'File size'
+            }
+        },
+        noteTemplateRules: {
+            title: 'Note template rules',
+            description:
+                'Notes created from a folder, tag or property use the template and file name of the first matching rule. File names support {{date}}, {{date:FORMAT}}, {{time}} and {{title}}.',
+            folderPatternPlaceholder: 'Folder path, e.g. Meetings or Projects/*/Notes',
+            tagPatternPlaceholder: 'Tag, e.g. meeting',
+            propertyPatternPlaceholder: 'Property, e.g. type or type=meeting',
+            templatePlaceholder: 'Template file',
+            fileNamePlaceholder: 'File name pattern, e.g. {{date}} Meeting',
+            emptyState: 'No rules. New notes are created blank.',
+            addRule: 'Add rule',
+            moveUp: 'Move up',
+            moveDown: 'Move down',
+            save: 'Save',
+            targets: {
+                folder: 'Folder',
+                tag: 'Tag',
+                property: 'Property'
+            }
+        },
+        fileStyleRules: {
+            title: 'File style rules',
+            description:
+                'Files matching a rule query get its icon and color. Queries use the search filter syntax. Rules are checked from top to bottom: the first matching rule with an icon sets the icon and the first matching rule with a color sets the color. Icons and colors set on a file take precedence.',
+            queryPlaceholder: 'Filter query, e.g. .status=done, #meeting or folder:archive',
+            emptyState: 'No rules.',
+            setIcon: 'Set icon',
+            setColor: 'Set color',
+            addRule: 'Add rule',
+            moveUp: 'Move up',
+            moveDown: 'Move down',
+            save: 'Save'
+        },
+        configBundleImport: {
+            title: 'Import configuration bundle',
+            description:
+                'Choose a bundle JSON file from the vault, then pick the sections to import. Imported values are validated like regular settings.',
+            filePlaceholder: 'Path to bundle, e.g. notebook-navigator-config.json',
+            sectionsLabel: 'Sections to import',
+            strategyLabel: 'Existing settings',
+            strategies: {
+                merge: 'Merge, bundle entries win',
+                replace: 'Replace selected sections'
+            },
+            bundleInfo: 'Exported {date} from Notebook Navigator {version}',
+            importButton: 'Import',
+            sections: {
+                vaultProfiles: 'Vault profiles and shortcuts',
+                styling: 'Folder, tag and property icons and colors',
+                appearances: 'Folder and tag appearances',
+                sortOverrides: 'Sort overrides',
+                iconMaps: 'Icon maps and interface icons',
+                keyboardShortcuts: 'Keyboard shortcuts'
+            },
+            errors: {
+                invalidJson: 'The file is not valid JSON.',
+                invalidFormat: 'The file is not a Notebook Navigator configuration bundle.',
+                unsupportedVersion: 'This bundle was created by a newer version of Notebook Navigator.',
+                empty: 'The bundle contains no sections that can be imported.',
+                readFailed: 'Could not read the file.'
+            }
+        },
         interfaceIcons: {
             title: 'Interface icons',
             fileItemsSection: 'File items',
@@ -413,6 +540,8 @@ export const STRINGS_EN = {
                 'nav-properties': 'Properties',
                 'nav-property': 'Property',
                 'nav-property-value': 'Value',
+                'nav-smart-folders': 'Smart folders',
+                'nav-smart-folder': 'Smart folder',
                 'list-pinned': 'Pinned items',
                 'file-unfinished-task': 'Unfinished tasks',
                 'file-word-count': 'Word count'
@@ -490,6 +619,109 @@ export const STRINGS_EN = {
             deleteSettingsUpdateFailed: 'Deleted property {property}. Failed to update settings.',
             invalidKeyName: 'Enter a valid property name.'
         },
+        propertyValueEdit: {
+            title: 'Edit properties',
+            description: 'Change a property on {count} {files}.',
+            keyLabel: 'Property',
+            keyPlaceholder: 'Property name',
+            modeLabel: 'Action',
+            modes: {
+                set: 'Set value',
+                append: 'Add to list',
+                remove: 'Remove property'
+            },
+            valueLabel: 'Value',
+            valuePlaceholder: 'Value',
+            emptyValue: '(empty)',
+            previewTitle: 'Preview',
+            changeSummary: '{count} of {total} notes will change',
+            noChanges: 'No notes need changes.',
+            apply: 'Apply',
+            successSingle: 'Updated property {property} in 1 note',
+            successMultiple: 'Updated property {property} in {count} notes',
+            partialFailure: 'Updated property {property} in {count} notes. {failed} notes could not be updated.'
+        },
+        propertyValueRename: {
+            renameTitle: 'Rename value {value}',
+            renameWarning: 'Renaming {property}: {value} will modify {count} {files}. Entering an existing value merges the two values.',
+            newValuePrompt: 'New value',
+            newValuePlaceholder: 'Enter new value',
+            confirmRename: 'Rename value',
+            mergeTitle: 'Merge value {value}',
+            mergeWarning:
+                'Merging {oldValue} into {newValue} will modify {count} {files}. {newValue} keeps its own icon, color and shortcuts.',
+            mergePlaceholder: 'Merge {value} into...',
+            mergeInstruction: 'to merge',
+            confirmMerge: 'Merge values',
+            noOtherValues: 'Property {property} has no other values',
+            nestedTarget: 'A value cannot be renamed to one of its nested values.',
+            invalidValue: 'Enter a valid value.',
+            noChanges: '{oldValue} → {newValue} (no changes)',
+            successSingle: 'Renamed {oldValue} → {newValue} in 1 note',
+            successMultiple: 'Renamed {oldValue} → {newValue} in {count} notes',
+            partialFailure: 'Renamed {oldValue} → {newValue} in {count} notes. {failed} notes could not be updated.'
+        },
+        tagOperationSummary: {
+            close: 'Close',
+            updatedNotes: 'Updated notes',
+            skippedNotes: 'Skipped notes',
+            skippedDescription: 'These notes changed after the preview or had nothing to update.',
+            failedNotes: 'Failed notes',
+            reportSummary: 'Updated {changed} of {total} notes.'
+        },
+        tagMerge: {
+            title: 'Merge tags',
+            description: 'Merge several tags into one tag. Nested tags move along with their parent tag.',
+            sourcesLabel: 'Tags to merge',
+            sourcesPlaceholder: 'Comma-separated tags',
+            targetLabel: 'Merge into',
+            targetPlaceholder: 'Target tag',
+            preview: 'Preview merge',
+            nothingToMerge: 'No tags to merge. Check that the tags are used in notes and differ from the target tag.',
+            previewTitle: 'Merge into {tag}',
+            previewDescription: 'Merging {tags} into {tag} will modify {count} notes.',
+            confirm: 'Merge tags',
+            affectedNotes: 'Affected notes',
+            skippedTags: 'Skipped tags',
+            skipReasons: {
+                sameAsTarget: 'same as the target tag',
+                containsTarget: 'the target tag is nested under this tag',
+                nestedInSource: 'merged together with its parent tag',
+                noNotes: 'not used in any note'
+            },
+            alreadyTagged: 'Notes already tagged {tag}',
+            alreadyTaggedDescription: 'These notes will contain the target tag more than once.',
+            multipleSources: 'Notes with several merged tags',
+            multipleSourcesDescription: 'Each of these notes will contain the target tag more than once.',
+            nestedCollisions: 'Nested tag collisions',
+            nestedCollisionsDescription: 'These nested tags merge into nested tags that already exist.',
+            notFinalized: 'Metadata not moved',
+            notFinalizedDescription: 'Some notes with these tags were not updated, so their icons, colors and shortcuts were kept.',
+            reportTitle: 'Merged into {tag}'
+        },
+        tagSplit: {
+            title: 'Split tag {tag}',
+            description:
+                '{count} {files} tagged exactly {tag}. Each note moves to the child tag of the first matching rule. Notes that match no rule keep {tag}.',
+            childPlaceholder: 'Child tag',
+            kinds: {
+                folder: 'Folder',
+                query: 'Filter query'
+            },
+            folderPlaceholder: 'Folder path (includes subfolders)',
+            queryPlaceholder: 'Search filter query',
+            addRule: 'Add rule',
+            preview: 'Preview split',
+            nothingMatched: 'No notes match the split rules.',
+            previewTitle: 'Split {tag}',
+            previewDescription: '{count} of {total} notes tagged {tag} will move to a child tag.',
+            confirm: 'Split tag',
+            invalidRules: 'Rules that cannot be evaluated',
+            invalidRulesDescription: 'Filter queries need search criteria and a ready note cache.',
+            unmatched: 'Notes without a matching rule',
+            unmatchedDescription: 'These notes keep {tag}.',
+            reportTitle: 'Split {tag}'
+        },
         fileSystem: {
             newFolderTitle: 'New folder',
             renameFolderTitle: 'Rename folder',
@@ -499,6 +731,10 @@ export const STRINGS_EN = {
             deleteFileAttachmentsTitle: 'Delete file attachments?',
             moveFileConflictTitle: 'Move conflict',
             folderNamePrompt: 'Enter folder name:',
+            newNoteTitle: 'New note',
+            noteTitlePrompt: 'Enter note title:',
+            createNoteButton: 'Create',
+            newNoteFileNamePrompt: 'File name pattern, e.g. {{date:YYYYMMDDHHmm}} {{title}}. Leave empty to use the default.',
             hideInOtherVaultProfiles: 'Hide in other vault profiles',
             renamePrompt: 'Enter new name:',
             renameVaultTitle: 'Change vault display name',
@@ -592,6 +828,22 @@ export const STRINGS_EN = {
             applyButton: 'Apply',
             emptyState: 'No property keys found.'
         },
+        smartFolder: {
+            newTitle: 'New smart folder',
+            newNestedTitle: 'New smart folder in {name}',
+            editTitle: 'Edit smart folder',
+            nameLabel: 'Name',
+            namePlaceholder: 'Smart folder name',
+            queryLabel: 'Filter query',
+            queryPlaceholder: '#project AND -#archived',
+            queryDescription: 'Uses filter search syntax. Nested smart folders only list notes that also match their parent queries.',
+            create: 'Create',
+            save: 'Save',
+            emptyName: 'Smart folder name cannot be empty',
+            duplicateName: 'A smart folder with this name already exists here',
+            deleteTitle: 'Delete smart folder "{name}"?',
+            deleteMessage: 'Nested smart folders are deleted too. Notes are not changed.'
+        },
         welcome: {
             title: 'Welcome to {pluginName}',
             introText:
@@ -674,6 +926,9 @@ export const STRINGS_EN = {
             iconPackUpdated: '{provider} updated ({version})',
             iconPackRemoved: '{provider} removed',
             iconPackLoadFailed: 'Failed to load {provider}',
+            folderMetadataWritten: 'Wrote metadata for {count} folders',
+            folderMetadataLoaded: 'Loaded metadata for {count} folders',
+            folderMetadataStorageDisabled: 'Choose folder note or sidecar storage in the Folders settings first',
             hiddenFileReveal: 'File is hidden. Enable "Show hidden items" to display it'
         },
         confirmations: {
@@ -703,7 +958,62 @@ export const STRINGS_EN = {
             filesAlreadyHaveProperty: '{count} files already have this property',
             noTagsToClear: 'No tags to clear',
             fileImported: 'Imported 1 file',
-            filesImported: 'Imported {count} files'
+            filesImported: 'Imported {count} files',
+            filesMoved: 'Moved {count} files to {folder}'
+        }
+    },
+
+    // Undo history
+    undoHistory: {
+        undo: 'Undo',
+        undone: 'Undone: {action}',
+        redone: 'Redone: {action}',
+        nothingToUndo: 'Nothing to undo',
+        nothingToRedo: 'Nothing to redo',
+        failed: 'Could not reverse "{action}": {error}',
+        partial: '{count} items could not be restored',
+        actions: {
+            moveFile: 'Move "{name}"',
+            moveFiles: 'Move {count} files',
+            moveFolder: 'Move folder "{name}"',
+            renameFile: 'Rename "{name}"',
+            renameFolder: 'Rename folder "{name}"',
+            addTag: 'Add tag #{tag}',
+            removeTag: 'Remove tag #{tag}',
+            renameProperty: 'Rename property {oldKey} → {newKey}',
+            editProperty: 'Edit property {property}',
+            renamePropertyValue: 'Rename {property} value {oldValue} → {newValue}',
+            changeAppearance: 'Change appearance of "{name}"'
+        }
+    },
+
+    // Vault statistics dashboard
+    statisticsDashboard: {
+        refresh: 'Refresh',
+        loading: 'Waiting for the note cache...',
+        unavailable: 'Statistics could not be calculated.',
+        empty: 'No data',
+        weekLabel: 'Week of {date}',
+        createdCount: '{count} created',
+        modifiedCount: '{count} modified',
+        summary: {
+            notes: 'Notes',
+            words: 'Words',
+            openTasks: 'Open tasks',
+            untagged: 'Untagged notes',
+            orphaned: 'Orphaned notes',
+            orphanedDescription: 'Notes that no other note links to'
+        },
+        sections: {
+            activity: 'Notes created and modified per week',
+            wordsPerFolder: 'Words per folder',
+            openTasksPerFolder: 'Open tasks per folder',
+            topTags: 'Top tags',
+            topProperties: 'Top properties'
+        },
+        legend: {
+            created: 'Created',
+            modified: 'Modified'
         }
     },
 
@@ -728,8 +1038,10 @@ export const STRINGS_EN = {
         revealFile: 'Reveal file', // Command palette: Reveals and selects the currently active file in the navigator (English: Reveal file)
         search: 'Search', // Command palette: Toggle search in the file list (English: Search)
         searchVaultRoot: 'Search in vault root', // Command palette: Selects the vault root folder and focuses search (English: Search in vault root)
+        createSmartFolder: 'Create smart folder from search', // Command palette: Opens the smart folder modal prefilled with the current filter search (English: Create smart folder from search)
         toggleDualPane: 'Toggle dual pane layout', // Command palette: Toggles between single-pane and dual-pane layout (English: Toggle dual pane layout)
         toggleCalendar: 'Toggle calendar', // Command palette: Toggles showing the calendar overlay in the navigation pane (English: Toggle calendar)
+        openStatistics: 'Open vault statistics', // Command palette: Opens the vault statistics dashboard (English: Open vault statistics)
         selectVaultProfile: 'Select vault profile', // Command palette: Opens a modal to choose a different vault profile (English: Select vault profile)
         selectVaultProfile1: 'Select vault profile 1', // Command palette: Activates the first vault profile without opening the modal (English: Select vault profile 1)
         selectVaultProfile2: 'Select vault profile 2', // Command palette: Activates the second vault profile without opening the modal (English: Select vault profile 2)
@@ -738,12 +1050,18 @@ export const STRINGS_EN = {
         createNewNote: 'Create new note', // Command palette: Creates a new note in the currently selected folder (English: Create new note)
         createNewNoteFromTemplate: 'Create new note from template', // Command palette: Creates a new note from a template in the currently selected folder (English: Create new note from template)
         moveFiles: 'Move files', // Command palette: Move selected files to another folder (English: Move files)
+        undo: 'Undo file operation', // Command palette: Reverse the most recent file operation (English: Undo file operation)
+        redo: 'Redo file operation', // Command palette: Reapply the most recently undone file operation (English: Redo file operation)
         selectNextFile: 'Select next file', // Command palette: Selects the next file in the current view (English: Select next file)
         selectPreviousFile: 'Select previous file', // Command palette: Selects the previous file in the current view (English: Select previous file)
         convertToFolderNote: 'Convert to folder note', // Command palette: Converts the active file into a folder note with a new folder (English: Convert to folder note)
         setAsFolderNote: 'Set as folder note', // Command palette: Renames the active file to its folder note name (English: Set as folder note)
         detachFolderNote: 'Detach folder note', // Command palette: Renames the active folder note to a new name (English: Detach folder note)
         pinAllFolderNotes: 'Pin all folder notes', // Command palette: Pins all folder notes to shortcuts (English: Pin all folder notes)
+        writeFolderMetadataFiles: 'Write folder metadata to files', // Command palette: Writes folder icons, colors, sort overrides and appearances to folder notes or sidecars (English: Write folder metadata to files)
+        reloadFolderMetadataFiles: 'Reload folder metadata from files', // Command palette: Reads folder metadata from folder notes or sidecars into settings (English: Reload folder metadata from files)
+        exportConfiguration: 'Export configuration bundle', // Command palette: Writes a configuration bundle JSON file to the vault root (English: Export configuration bundle)
+        importConfiguration: 'Import configuration bundle', // Command palette: Opens a dialog to import sections of a configuration bundle (English: Import configuration bundle)
         navigateToFolder: 'Navigate to folder', // Command palette: Navigate to a folder using fuzzy search (English: Navigate to folder)
         navigateToTag: 'Navigate to tag', // Command palette: Navigate to a tag using fuzzy search (English: Navigate to tag)
         navigateToProperty: 'Navigate to property', // Command palette: Navigate to a property key or value using fuzzy search (English: Navigate to property)
@@ -757,6 +1075,8 @@ export const STRINGS_EN = {
         addTag: 'Add tag to selected files', // Command palette: Opens a dialog to add a tag to selected files (English: Add tag to selected files)
         removeTag: 'Remove tag from selected files', // Command palette: Opens a dialog to remove a tag from selected files (English: Remove tag from selected files)
         removeAllTags: 'Remove all tags from selected files', // Command palette: Removes all tags from selected files (English: Remove all tags from selected files)
+        mergeTags: 'Merge tags', // Command palette: Opens a dialog to merge several tags into one tag (English: Merge tags)
+        editProperties: 'Edit properties of selected files', // Command palette: Opens a dialog to set, append to, or remove a property on selected files (English: Edit properties of selected files)
         openAllFiles: 'Open all files', // Command palette: Opens all files in the current folder or tag (English: Open all files)
         rebuildCache: 'Rebuild cache' // Command palette: Rebuilds the local Notebook Navigator cache (English: Rebuild cache)
     },
@@ -765,6 +1085,7 @@ export const STRINGS_EN = {
     plugin: {
         viewName: 'Notebook Navigator', // Name shown in the view header/tab (English: Notebook Navigator)
         calendarViewName: 'Calendar', // Name shown in the view header/tab
+        statisticsViewName: 'Vault statistics', // Name shown in the statistics view header/tab (English: Vault statistics)
         ribbonTooltip: 'Notebook Navigator', // Tooltip for the ribbon icon in the left sidebar (English: Notebook Navigator)
         revealInNavigator: 'Reveal in Notebook Navigator' // Context menu item to reveal a file in the navigator (English: Reveal in Notebook Navigator)
     },
@@ -863,7 +1184,13 @@ export const STRINGS_EN = {
                     'filename-asc': 'File name (A on top)',
                     'filename-desc': 'File name (Z on top)',
                     'property-asc': 'Property (A on top)',
-                    'property-desc': 'Property (Z on top)'
+                    'property-desc': 'Property (Z on top)',
+                    'wordcount-desc': 'Word count (most on top)',
+                    'wordcount-asc': 'Word count (fewest on top)',
+                    'tasks-desc': 'Open tasks (most on top)',
+                    'tasks-asc': 'Open tasks (fewest on top)',
+                    'size-desc': 'File size (largest on top)',
+                    'size-asc': 'File size (smallest on top)'
                 },
                 propertyOverride: {
                     asc: 'Property ‘{property}’ (A on top)',
@@ -889,6 +1216,10 @@ export const STRINGS_EN = {
                 name: 'Scroll to selected file on list changes',
                 desc: 'Scroll to the selected file when pinning notes, showing descendant notes, changing folder appearance, or running file operations.'
             },
+            searchNoteContent: {
+                name: 'Search note content',
+                desc: 'Build a local full-text index of note bodies for filter search. Enables `content:` filters and lets bare search words match note text as well as file names. Does not require Omnisearch.'
+            },
             includeDescendantNotes: {
                 name: 'Show notes from subfolders / descendants',
                 desc: 'Include notes from nested subfolders and tag descendants when viewing a folder or tag.'
@@ -903,11 +1234,13 @@ export const STRINGS_EN = {
             },
             groupNotes: {
                 name: 'Group notes',
-                desc: 'Display headers between notes grouped by date or folder. Tag views use date groups when folder grouping is enabled.',
+                desc: 'Display headers between notes grouped by date, folder, tag, first letter or property value. Tag views use date groups when folder grouping is enabled.',
                 options: {
                     none: "Don't group",
                     date: 'Group by date',
-                    folder: 'Group by folder'
+                    folder: 'Group by folder',
+                    tag: 'Group by tag',
+                    alphabetical: 'Group alphabetically'
                 }
             },
             showPinnedGroupHeader: {
@@ -954,6 +1287,11 @@ export const STRINGS_EN = {
                 placeholder: '# Extension=icon\ncpp=LiFileCode\npdf=RaBook',
                 editTooltip: 'Edit mappings'
             },
+            fileStyleRules: {
+                name: 'File style rules',
+                desc: 'Give files matching a search filter query an icon and color, e.g. a check icon for .status=done or grey for folder:archive. Rules are stored in the vault profile.',
+                buttonText: 'Edit rules'
+            },
             optimizeNoteHeight: {
                 name: 'Variable note height',
                 desc: 'Use compact height for pinned notes and notes without preview text.'
@@ -1034,6 +1372,15 @@ export const STRINGS_EN = {
                 name: 'Open new notes in new tab',
                 desc: 'When enabled, the Create new note command opens notes in a new tab. When disabled, notes replace the current tab.'
             },
+            newNoteFileNamePattern: {
+                name: 'New note file name',
+                desc: 'File name pattern for new notes. Supports {{date}}, {{date:FORMAT}}, {{time}} and {{title}}. Folders can override it from the folder menu. Leave empty for "Untitled".',
+                placeholder: '{{date:YYYY-MM-DD}} {{title}}'
+            },
+            promptForNewNoteTitle: {
+                name: 'Ask for title when creating notes',
+                desc: 'Show a title prompt before creating a note. The title fills {{title}} in the file name pattern, or becomes the file name when no pattern is set.'
+            },
             autoRevealActiveNote: {
                 name: 'Auto-reveal active note',
                 desc: 'Automatically reveal notes when opened from Quick Switcher, links, or search.'
@@ -1210,6 +1557,11 @@ export const STRINGS_EN = {
                 desc: 'Template file picker shows notes from this folder.',
                 placeholder: 'Templates'
             },
+            noteTemplateRules: {
+                name: 'Note template rules',
+                desc: 'Apply a template and file name pattern to notes created from a folder, tag or property.',
+                buttonText: 'Edit rules'
+            },
             calendarCustomFilePattern: {
                 name: 'Daily notes',
                 desc: 'Format path using Moment date format. Wrap subfolder names in brackets, e.g., [Work]/YYYY. Click template icon to set template. Set template folder location in General > Templates.',
@@ -1264,6 +1616,16 @@ export const STRINGS_EN = {
                 notice: 'All settings reset. Restart Obsidian or reopen Notebook Navigator to apply.',
                 error: 'Failed to reset settings.'
             },
+            configBundle: {
+                name: 'Configuration bundle',
+                desc: 'Export vault profiles, shortcuts, styling, appearances, sort overrides, icon maps and keyboard shortcuts to a JSON file in the vault root, or import a bundle to set up another vault.',
+                exportButton: 'Export',
+                importButton: 'Import',
+                exportSuccess: 'Exported configuration to {filename}',
+                exportFailed: 'Failed to export configuration.',
+                importSuccess: 'Configuration imported.',
+                importFailed: 'Failed to import configuration.'
+            },
             multiSelectModifier: {
                 name: 'Multi-select modifier',
                 desc: 'Choose which modifier key toggles multi-selection. When Option/Alt is selected, Cmd/Ctrl click opens notes in a new tab.',
@@ -1288,6 +1650,14 @@ export const STRINGS_EN = {
                 name: 'Ctrl+Enter',
                 desc: 'Open selected file in a new tab, split, or window when pressing Ctrl+Enter.'
             },
+            vimKeyboardNavigation: {
+                name: 'Vim-style key sequences',
+                desc: 'Use gg and G to jump to the first and last item, dd to delete, zc and zo to collapse and expand, and / to open search. Custom hotkeys take precedence.'
+            },
+            typeAheadFind: {
+                name: 'Type-ahead find',
+                desc: 'Typing letters jumps to the first folder, tag or note whose name starts with the typed text. Not available while Vim-style key sequences are on.'
+            },
             fileVisibility: {
                 name: 'Show file types (vault profile)',
                 desc: 'Filter which file types are shown in the navigator. File types not supported by Obsidian may open in external applications.',
@@ -1409,6 +1779,10 @@ export const STRINGS_EN = {
                     none: 'None'
                 }
             },
+            showTaskProgress: {
+                name: 'Task progress',
+                desc: 'Display a completion bar and the next due date for notes with tasks.'
+            },
             propertyFields: {
                 name: 'Property keys (vault profile)',
                 desc: 'Frontmatter property keys, with per-key visibility for navigation and file list.',
@@ -1520,6 +1894,15 @@ export const STRINGS_EN = {
                     alphaDesc: 'Z to A'
                 }
             },
+            folderMetadataStorage: {
+                name: 'Folder metadata storage',
+                desc: 'Also store folder icons, colors, sort overrides and appearances in the vault so they travel with the folder through sync or git. Changes made in either place are synced both ways. Run "Write folder metadata to files" to migrate existing folder metadata.',
+                options: {
+                    settings: 'Plugin settings only',
+                    folderNote: 'Folder note frontmatter',
+                    sidecar: '.folder.yml sidecar file'
+                }
+            },
             showNoteCount: {
                 name: 'Show note count',
                 desc: 'Display the number of notes next to each folder and tag.'
@@ -1635,6 +2018,11 @@ export const STRINGS_EN = {
                 name: 'Show properties folder',
                 desc: 'Display "Properties" as a collapsible folder.'
             },
+            propertyHierarchies: {
+                name: 'Property hierarchies',
+                desc: 'Nest notes under one virtual folder per property value, one level per key. One hierarchy per line as `Name: key > key > key`. Keys must also be listed in property keys.',
+                placeholder: 'Research: type > status > project'
+            },
             hiddenTags: {
                 name: 'Hide tags (vault profile)',
                 desc: 'Comma-separated list of tag patterns. Name patterns: tag* (starting with), *tag (ending with). Path patterns: archive (tag and descendants), archive/* (descendants only), projects/*/drafts (mid-segment wildcard).',
@@ -46,7 +46,10 @@ export const STRINGS_ES = {
         pinnedSection: 'Fijadas', // Header for the pinned notes section at the top of file list (English: Pinned)
         notesSection: 'Notas', // Header shown between pinned and regular items when showing documents only (English: Notes)
         filesSection: 'Archivos', // Header shown between pinned and regular items when showing supported or all files (English: Files)
-        hiddenItemAriaLabel: '{name} (oculto)' // Accessibility label applied to list items that are normally hidden
+        noPropertyValue: 'Sin valor', // Header for notes without a value when grouping by property (English: No value)
+        hiddenItemAriaLabel: '{name} (oculto)', // Accessibility label applied to list items that are normally hidden
+        taskProgressAriaLabel: '{completed} de {total} tareas completadas', // Accessibility label for the task progress bar in file items
+        taskDue: 'Vence {date}' // Next due date shown next to the task progress bar (English: Due {date})
     },
 
     // Tag list
@@ -60,6 +63,7 @@ export const STRINGS_ES = {
         recentNotesHeader: 'Notas recientes',
         recentFilesHeader: 'Archivos recientes',
         properties: 'Propiedades',
+        smartFolders: 'Carpetas inteligentes',
         reorderRootFoldersTitle: 'Reordenar navegación',
         reorderRootFoldersHint: 'Usa flechas o arrastra para reordenar',
         vaultRootLabel: 'Bóveda',
@@ -129,6 +133,7 @@ export const STRINGS_ES = {
         mobileBackToNavigation: 'Volver a navegación', // Mobile-only back button text to return to navigation pane (English: Back to navigation)
         changeSortOrder: 'Cambiar orden de clasificación', // Tooltip for the sort order toggle button (English: Change sort order)
         defaultSort: 'Predeterminado', // Label for default sorting mode (English: Default)
+        customSortChain: 'Cadena de ordenación personalizada...',
         showFolders: 'Mostrar navegación', // Tooltip for button to show the navigation pane (English: Show navigation)
         reorderRootFolders: 'Reordenar navegación',
         finishRootFolderReorder: 'Listo',
@@ -170,6 +175,15 @@ export const STRINGS_ES = {
                         '`-word` Excluir notas con "word" en el nombre del archivo.'
                     ]
                 },
+                content: {
+                    title: 'Contenido de la nota',
+                    items: [
+                        '`content:palabra` Coincide con notas cuyo texto contiene una palabra que empieza por "palabra".',
+                        '`content:"dos palabras"` Exige que cada palabra aparezca en el texto de la nota.',
+                        '`-content:palabra` Excluye notas cuyo texto contiene una palabra que empieza por "palabra".',
+                        'Requiere **Buscar en el contenido de las notas** en los ajustes del panel de lista. Si está activado, las palabras sueltas también coinciden con el texto.'
+                    ]
+                },
                 tags: {
                     title: 'Etiquetas',
                     items: [
@@ -193,6 +207,8 @@ export const STRINGS_ES = {
                         '`."Reading Status"="In Progress"` Las claves y valores con espacios deben estar entre comillas dobles.',
                         '`-.key` Excluir notas con clave de propiedad.',
                         '`-.key=value` Excluir notas con valor de propiedad.',
+                        '`.key>=3`, `.key<2026-11-01` Comparar propiedades numéricas o de fecha con `>`, `>=`, `<`, `<=`.',
+                        '`.key:thisweek`, `.key:1..5`, `.key:2026-11-01..2026-11-30` Coincidir con una fecha relativa, fecha, número o rango inclusivo.',
                         'Cmd/Ctrl+Clic en una propiedad para añadir con AND. Cmd/Ctrl+Shift+Clic para añadir con OR.'
                     ]
                 },
@@ -201,6 +217,8 @@ export const STRINGS_ES = {
                     items: [
                         '`has:task` Incluir notas con tareas pendientes.',
                         '`-has:task` Excluir notas con tareas pendientes.',
+                        '`due:overdue`, `due:today`, `due:thisweek` Incluir notas con una tarea abierta que vence en el rango (fechas `📅` de Tasks o campos `[due:: ]` de Dataview).',
+                        '`due:2026-11-01..2026-11-30` Coincidir con una fecha de vencimiento o rango. `-due:...` excluye notas con una tarea abierta coincidente.',
                         '`folder:meetings` Incluir notas donde un nombre de carpeta contiene `meetings`.',
                         '`folder:/work/meetings` Incluir notas solo en `work/meetings` (no subcarpetas).',
                         '`folder:/` Incluir notas solo en la raíz del vault.',
@@ -212,13 +230,13 @@ export const STRINGS_ES = {
                     ]
                 },
                 connectors: {
-                    title: 'Comportamiento de AND/OR',
+                    title: 'AND/OR/NOT y agrupación',
                     items: [
-                        '`AND` y `OR` son operadores solo en consultas exclusivas de etiquetas/propiedades.',
-                        'Las consultas exclusivas de etiquetas/propiedades contienen solo filtros de etiquetas y propiedades: `#tag`, `-#tag`, `#`, `-#`, `.key`, `-.key`, `.key=value`, `-.key=value`.',
-                        'Si una consulta incluye nombres, fechas (`@...`), filtros de tareas (`has:task`), filtros de carpetas (`folder:...`) o filtros de extensión (`ext:...`), `AND` y `OR` se buscan como palabras.',
-                        'Ejemplo de consulta con operadores: `#work OR .status=started`.',
-                        'Ejemplo de consulta mixta: `#work OR ext:md` (`OR` se busca en los nombres de archivos).'
+                        '`AND`, `OR` y `NOT` son operadores cuando una consulta contiene un filtro (`#tag`, `.key`, `@date`, `has:task`, `due:`, `folder:`, `ext:`, `content:`) o paréntesis.',
+                        '`( )` agrupa términos: `(folder:Projects OR folder:Areas) AND #active AND -ext:pdf`.',
+                        '`NOT término` o `-término` excluye un término. `-( )` excluye un grupo completo.',
+                        '`NOT` tiene mayor precedencia que `AND`, y `AND` mayor que `OR`. Los términos contiguos usan AND implícito.',
+                        'Las consultas con solo palabras y sin paréntesis buscan `AND`, `OR` y `NOT` como palabras en los nombres de archivo (p. ej., `blanco or negro`).'
                     ]
                 },
                 dates: {
@@ -280,6 +298,7 @@ export const STRINGS_ES = {
             addTag: 'Añadir etiqueta',
             removeTag: 'Eliminar etiqueta',
             removeAllTags: 'Eliminar todas las etiquetas',
+            editProperties: 'Editar propiedades',
             changeIcon: 'Cambiar icono',
             changeColor: 'Cambiar color',
             // File-specific context menu items (non-markdown files)
@@ -299,6 +318,7 @@ export const STRINGS_ES = {
         folder: {
             newNote: 'Nueva nota',
             newNoteFromTemplate: 'Nueva nota desde plantilla',
+            newNoteFileName: 'Nombre de archivo de notas nuevas...',
             newFolder: 'Nueva carpeta',
             newCanvas: 'Nuevo lienzo',
             newBase: 'Nueva base de datos',
@@ -323,14 +343,24 @@ export const STRINGS_ES = {
             changeIcon: 'Cambiar icono',
             changeColor: 'Cambiar color',
             changeBackground: 'Cambiar fondo',
+            mergeTags: 'Fusionar etiquetas...',
+            splitTag: 'Dividir etiqueta...',
             showTag: 'Mostrar etiqueta',
             hideTag: 'Ocultar etiqueta'
         },
         property: {
             addKey: 'Configurar claves de propiedad',
             renameKey: 'Renombrar propiedad',
+            renameValue: 'Renombrar valor',
+            mergeValue: 'Fusionar en valor...',
             deleteKey: 'Eliminar propiedad'
         },
+        smartFolder: {
+            newSmartFolder: 'Nueva carpeta inteligente',
+            newNestedSmartFolder: 'Nueva carpeta inteligente anidada',
+            editSmartFolder: 'Editar carpeta inteligente',
+            deleteSmartFolder: 'Eliminar carpeta inteligente'
+        },
         navigation: {
             addSeparator: 'Agregar separador',
             removeSeparator: 'Eliminar separador'
@@ -356,11 +386,25 @@ export const STRINGS_ES = {
     folderAppearance: {
         standardPreset: 'Estándar',
         compactPreset: 'Compacto',
+        gridPreset: 'Cuadrícula',
+        boardPreset: 'Tablero...',
+        boardPresetOption: (property: string) => `Tablero (${property})`,
+        boardPropertyAction: 'Columnas del tablero según propiedad',
+        boardPropertyPlaceholder: 'Clave de propiedad',
+        tileSize: 'Tamaño de mosaico',
+        tileSizeOptions: {
+            small: 'Mosaicos pequeños',
+            medium: 'Mosaicos medianos',
+            large: 'Mosaicos grandes'
+        },
         defaultSuffix: '(predeterminado)',
         defaultLabel: 'Predeterminado',
         titleRows: 'Filas de título',
         previewRows: 'Filas de vista previa',
         groupBy: 'Agrupar por',
+        groupByPropertyAction: 'Agrupar por propiedad...',
+        groupByPropertyPlaceholder: 'Clave de propiedad',
+        groupByPropertyOption: (property: string) => `Agrupar por propiedad (${property})`,
         defaultTitleOption: (rows: number) => `Filas de título predeterminadas (${rows})`,
         defaultPreviewOption: (rows: number) => `Filas de vista previa predeterminadas (${rows})`,
         defaultGroupOption: (groupLabel: string) => `Agrupación predeterminada (${groupLabel})`,
@@ -384,6 +428,90 @@ export const STRINGS_ES = {
         fileIconRuleEditor: {
             addRuleAria: 'Añadir regla'
         },
+        sortChain: {
+            title: 'Cadena de ordenación personalizada',
+            description:
+                'Las notas se ordenan por la primera clave. Cada clave siguiente ordena las notas que son iguales en las claves anteriores.',
+            propertyPlaceholder: 'Clave de propiedad',
+            ascending: 'Ascendente',
+            descending: 'Descendente',
+            addKey: 'Añadir clave de ordenación',
+            moveUp: 'Subir',
+            moveDown: 'Bajar',
+            save: 'Guardar',
+            fields: {
+                modified: 'Fecha de edición',
+                created: 'Fecha de creación',
+                title: 'Título',
+                filename: 'Nombre de archivo',
+                property: 'Propiedad',
+                wordcount: 'Número de palabras',
+                tasks: 'Tareas abiertas',
+                size: 'Tamaño de archivo'
+            }
+        },
+        noteTemplateRules: {
+            title: 'Reglas de plantillas de notas',
+            description:
+                'Las notas creadas desde una carpeta, etiqueta o propiedad usan la plantilla y el nombre de archivo de la primera regla que coincida. Los nombres de archivo admiten {{date}}, {{date:FORMAT}}, {{time}} y {{title}}.',
+            folderPatternPlaceholder: 'Ruta de carpeta, p. ej. Meetings o Projects/*/Notes',
+            tagPatternPlaceholder: 'Etiqueta, p. ej. meeting',
+            propertyPatternPlaceholder: 'Propiedad, p. ej. type o type=meeting',
+            templatePlaceholder: 'Archivo de plantilla',
+            fileNamePlaceholder: 'Patrón de nombre, p. ej. {{date}} Meeting',
+            emptyState: 'No hay reglas. Las notas nuevas se crean vacías.',
+            addRule: 'Añadir regla',
+            moveUp: 'Subir',
+            moveDown: 'Bajar',
+            save: 'Guardar',
+            targets: {
+                folder: 'Carpeta',
+                tag: 'Etiqueta',
+                property: 'Propiedad'
+            }
+        },
+        fileStyleRules: {
+            title: 'Reglas de estilo de archivos',
+            description:
+                'Los archivos que coinciden con la consulta de una regla reciben su icono y color. Las consultas usan la sintaxis del filtro de búsqueda. Las reglas se comprueban de arriba abajo: la primera regla coincidente con icono fija el icono y la primera con color fija el color. Los iconos y colores asignados a un archivo tienen prioridad.',
+            queryPlaceholder: 'Consulta de filtro, p. ej. .status=done, #meeting o folder:archive',
+            emptyState: 'No hay reglas.',
+            setIcon: 'Establecer icono',
+            setColor: 'Establecer color',
+            addRule: 'Añadir regla',
+            moveUp: 'Subir',
+            moveDown: 'Bajar',
+            save: 'Guardar'
+        },
+        configBundleImport: {
+            title: 'Importar paquete de configuración',
+            description:
+                'Elige un archivo JSON de paquete de la bóveda y luego las secciones que quieres importar. Los valores importados se validan como los ajustes normales.',
+            filePlaceholder: 'Ruta del paquete, p. ej. notebook-navigator-config.json',
+            sectionsLabel: 'Secciones a importar',
+            strategyLabel: 'Ajustes existentes',
+            strategies: {
+                merge: 'Combinar, ganan las entradas del paquete',
+                replace: 'Reemplazar secciones seleccionadas'
+            },
+            bundleInfo: 'Exportado el {date} desde Notebook Navigator {version}',
+            importButton: 'Importar',
+            sections: {
+                vaultProfiles: 'Perfiles de bóveda y accesos directos',
+                styling: 'Iconos y colores de carpetas, etiquetas y propiedades',
+                appearances: 'Apariencia de carpetas y etiquetas',
+                sortOverrides: 'Órdenes personalizados',
+                iconMaps: 'Mapas de iconos e iconos de interfaz',
+                keyboardShortcuts: 'Atajos de teclado'
+            },
+            errors: {
+                invalidJson: 'El archivo no es JSON válido.',
+                invalidFormat: 'El archivo no es un paquete de configuración de Notebook Navigator.',
+                unsupportedVersion: 'Este paquete se creó con una versión más reciente de Notebook Navigator.',
+                empty: 'El paquete no contiene secciones que se puedan importar.',
+                readFailed: 'No se pudo leer el archivo.'
+            }
+        },
         interfaceIcons: {
             title: 'Iconos de interfaz',
             fileItemsSection: 'Elementos de archivo',
@@ -414,6 +542,8 @@ export const STRINGS_ES = {
                 'nav-properties': 'Propiedades',
                 'nav-property': 'Propiedad',
                 'nav-property-value': 'Valor',
+                'nav-smart-folders': 'Carpetas inteligentes',
+                'nav-smart-folder': 'Carpeta inteligente',
                 'list-pinned': 'Elementos fijados',
                 'file-unfinished-task': 'Tareas pendientes',
                 'file-word-count': 'Conteo de palabras'
@@ -494,6 +624,111 @@ export const STRINGS_ES = {
             deleteSettingsUpdateFailed: 'Propiedad {property} eliminada. No se pudieron actualizar los ajustes.',
             invalidKeyName: 'Ingrese un nombre de propiedad válido.'
         },
+        propertyValueEdit: {
+            title: 'Editar propiedades',
+            description: 'Cambiar una propiedad en {count} {files}.',
+            keyLabel: 'Propiedad',
+            keyPlaceholder: 'Nombre de la propiedad',
+            modeLabel: 'Acción',
+            modes: {
+                set: 'Establecer valor',
+                append: 'Añadir a la lista',
+                remove: 'Eliminar propiedad'
+            },
+            valueLabel: 'Valor',
+            valuePlaceholder: 'Valor',
+            emptyValue: '(vacío)',
+            previewTitle: 'Vista previa',
+            changeSummary: 'Cambiarán {count} de {total} notas',
+            noChanges: 'Ninguna nota necesita cambios.',
+            apply: 'Aplicar',
+            successSingle: 'Propiedad {property} actualizada en 1 nota',
+            successMultiple: 'Propiedad {property} actualizada en {count} notas',
+            partialFailure: 'Propiedad {property} actualizada en {count} notas. No se pudieron actualizar {failed} notas.'
+        },
+        propertyValueRename: {
+            renameTitle: 'Renombrar valor {value}',
+            renameWarning: 'Renombrar {property}: {value} modificará {count} {files}. Introducir un valor existente fusiona ambos valores.',
+            newValuePrompt: 'Nuevo valor',
+            newValuePlaceholder: 'Introduce el nuevo valor',
+            confirmRename: 'Renombrar valor',
+            mergeTitle: 'Fusionar valor {value}',
+            mergeWarning:
+                'Fusionar {oldValue} en {newValue} modificará {count} {files}. {newValue} conserva su propio icono, color y accesos directos.',
+            mergePlaceholder: 'Fusionar {value} en...',
+            mergeInstruction: 'para fusionar',
+            confirmMerge: 'Fusionar valores',
+            noOtherValues: 'La propiedad {property} no tiene otros valores',
+            nestedTarget: 'Un valor no se puede renombrar a uno de sus valores anidados.',
+            invalidValue: 'Introduce un valor válido.',
+            noChanges: '{oldValue} → {newValue} (sin cambios)',
+            successSingle: '{oldValue} → {newValue} renombrado en 1 nota',
+            successMultiple: '{oldValue} → {newValue} renombrado en {count} notas',
+            partialFailure: '{oldValue} → {newValue} renombrado en {count} notas. No se pudieron actualizar {failed} notas.'
+        },
+        tagOperationSummary: {
+            close: 'Cerrar',
+            updatedNotes: 'Notas actualizadas',
+            skippedNotes: 'Notas omitidas',
+            skippedDescription: 'Estas notas cambiaron después de la vista previa o no tenían nada que actualizar.',
+            failedNotes: 'Notas con errores',
+            reportSummary: 'Se actualizaron {changed} de {total} notas.'
+        },
+        tagMerge: {
+            title: 'Fusionar etiquetas',
+            description: 'Fusiona varias etiquetas en una. Las etiquetas anidadas se mueven junto con su etiqueta superior.',
+            sourcesLabel: 'Etiquetas a fusionar',
+            sourcesPlaceholder: 'Etiquetas separadas por comas',
+            targetLabel: 'Fusionar en',
+            targetPlaceholder: 'Etiqueta de destino',
+            preview: 'Vista previa',
+            nothingToMerge:
+                'No hay etiquetas para fusionar. Comprueba que las etiquetas se usan en notas y son distintas de la etiqueta de destino.',
+            previewTitle: 'Fusionar en {tag}',
+            previewDescription: 'Fusionar {tags} en {tag} modificará {count} notas.',
+            confirm: 'Fusionar etiquetas',
+            affectedNotes: 'Notas afectadas',
+            skippedTags: 'Etiquetas omitidas',
+            skipReasons: {
+                sameAsTarget: 'igual que la etiqueta de destino',
+                containsTarget: 'la etiqueta de destino está anidada bajo esta etiqueta',
+                nestedInSource: 'se fusiona junto con su etiqueta superior',
+                noNotes: 'no se usa en ninguna nota'
+            },
+            alreadyTagged: 'Notas que ya tienen {tag}',
+            alreadyTaggedDescription: 'Estas notas contendrán la etiqueta de destino más de una vez.',
+            multipleSources: 'Notas con varias etiquetas fusionadas',
+            multipleSourcesDescription: 'Cada una de estas notas contendrá la etiqueta de destino más de una vez.',
+            nestedCollisions: 'Colisiones de etiquetas anidadas',
+            nestedCollisionsDescription: 'Estas etiquetas anidadas se fusionan en etiquetas anidadas que ya existen.',
+            notFinalized: 'Metadatos no movidos',
+            notFinalizedDescription:
+                'Algunas notas con estas etiquetas no se actualizaron, por lo que se conservaron sus iconos, colores y accesos directos.',
+            reportTitle: 'Fusionado en {tag}'
+        },
+        tagSplit: {
+            title: 'Dividir etiqueta {tag}',
+            description:
+                '{count} {files} con exactamente {tag}. Cada nota pasa a la etiqueta hija de la primera regla que coincida. Las notas sin regla coincidente conservan {tag}.',
+            childPlaceholder: 'Etiqueta hija',
+            kinds: {
+                folder: 'Carpeta',
+                query: 'Consulta de filtro'
+            },
+            folderPlaceholder: 'Ruta de carpeta (incluye subcarpetas)',
+            queryPlaceholder: 'Consulta de filtro de búsqueda',
+            addRule: 'Añadir regla',
+            preview: 'Vista previa',
+            nothingMatched: 'Ninguna nota coincide con las reglas.',
+            previewTitle: 'Dividir {tag}',
+            previewDescription: '{count} de {total} notas con {tag} pasarán a una etiqueta hija.',
+            confirm: 'Dividir etiqueta',
+            invalidRules: 'Reglas que no se pueden evaluar',
+            invalidRulesDescription: 'Las consultas de filtro necesitan criterios de búsqueda y una caché de notas lista.',
+            unmatched: 'Notas sin regla coincidente',
+            unmatchedDescription: 'Estas notas conservan {tag}.',
+            reportTitle: '{tag} dividida'
+        },
         fileSystem: {
             newFolderTitle: 'Nueva carpeta',
             renameFolderTitle: 'Renombrar carpeta',
@@ -503,6 +738,10 @@ export const STRINGS_ES = {
             deleteFileAttachmentsTitle: '¿Eliminar archivos adjuntos?',
             moveFileConflictTitle: 'Conflicto de movimiento',
             folderNamePrompt: 'Introduce el nombre de la carpeta:',
+            newNoteTitle: 'Nueva nota',
+            noteTitlePrompt: 'Introduce el título de la nota:',
+            createNoteButton: 'Crear',
+            newNoteFileNamePrompt: 'Patrón de nombre, p. ej. {{date:YYYYMMDDHHmm}} {{title}}. Déjalo vacío para usar el predeterminado.',
             hideInOtherVaultProfiles: 'Ocultar en otros perfiles de bóveda',
             renamePrompt: 'Introduce el nuevo nombre:',
             renameVaultTitle: 'Cambiar nombre de visualización del vault',
@@ -596,6 +835,23 @@ export const STRINGS_ES = {
             applyButton: 'Aplicar',
             emptyState: 'No se encontraron claves de propiedad.'
         },
+        smartFolder: {
+            newTitle: 'Nueva carpeta inteligente',
+            newNestedTitle: 'Nueva carpeta inteligente en {name}',
+            editTitle: 'Editar carpeta inteligente',
+            nameLabel: 'Nombre',
+            namePlaceholder: 'Nombre de la carpeta inteligente',
+            queryLabel: 'Consulta de filtro',
+            queryPlaceholder: '#project AND -#archived',
+            queryDescription:
+                'Usa la sintaxis de búsqueda por filtro. Las carpetas inteligentes anidadas solo muestran notas que también coinciden con las consultas de sus carpetas superiores.',
+            create: 'Crear',
+            save: 'Guardar',
+            emptyName: 'El nombre de la carpeta inteligente no puede estar vacío',
+            duplicateName: 'Ya existe aquí una carpeta inteligente con este nombre',
+            deleteTitle: '¿Eliminar la carpeta inteligente "{name}"?',
+            deleteMessage: 'Las carpetas inteligentes anidadas también se eliminan. Las notas no se modifican.'
+        },
         welcome: {
             title: 'Bienvenido a {pluginName}',
             introText:
@@ -679,6 +935,10 @@ export const STRINGS_ES = {
             iconPackUpdated: '{provider} actualizado ({version})',
             iconPackRemoved: '{provider} eliminado',
             iconPackLoadFailed: 'No se pudo cargar {provider}',
+            folderMetadataWritten: 'Metadatos escritos para {count} carpetas',
+            folderMetadataLoaded: 'Metadatos cargados para {count} carpetas',
+            folderMetadataStorageDisabled:
+                'Elige primero el almacenamiento en nota de carpeta o archivo auxiliar en los ajustes de Carpetas',
             hiddenFileReveal: 'El archivo está oculto. Activa "Mostrar elementos ocultos" para mostrarlo'
         },
         confirmations: {
@@ -708,7 +968,62 @@ export const STRINGS_ES = {
             filesAlreadyHaveProperty: '{count} archivos ya tienen esta propiedad',
             noTagsToClear: 'No hay etiquetas para eliminar',
             fileImported: '1 archivo importado',
-            filesImported: '{count} archivos importados'
+            filesImported: '{count} archivos importados',
+            filesMoved: '{count} archivos movidos a {folder}'
+        }
+    },
+
+    // Undo history
+    undoHistory: {
+        undo: 'Deshacer',
+        undone: 'Deshecho: {action}',
+        redone: 'Rehecho: {action}',
+        nothingToUndo: 'Nada que deshacer',
+        nothingToRedo: 'Nada que rehacer',
+        failed: 'No se pudo revertir "{action}": {error}',
+        partial: 'No se pudieron restaurar {count} elementos',
+        actions: {
+            moveFile: 'Mover "{name}"',
+            moveFiles: 'Mover {count} archivos',
+            moveFolder: 'Mover carpeta "{name}"',
+            renameFile: 'Renombrar "{name}"',
+            renameFolder: 'Renombrar carpeta "{name}"',
+            addTag: 'Añadir etiqueta #{tag}',
+            removeTag: 'Eliminar etiqueta #{tag}',
+            renameProperty: 'Renombrar propiedad {oldKey} → {newKey}',
+            editProperty: 'Editar propiedad {property}',
+            renamePropertyValue: 'Renombrar valor de {property} {oldValue} → {newValue}',
+            changeAppearance: 'Cambiar apariencia de "{name}"'
+        }
+    },
+
+    // Vault statistics dashboard
+    statisticsDashboard: {
+        refresh: 'Actualizar',
+        loading: 'Esperando la caché de notas...',
+        unavailable: 'No se pudieron calcular las estadísticas.',
+        empty: 'Sin datos',
+        weekLabel: 'Semana del {date}',
+        createdCount: '{count} creadas',
+        modifiedCount: '{count} modificadas',
+        summary: {
+            notes: 'Notas',
+            words: 'Palabras',
+            openTasks: 'Tareas abiertas',
+            untagged: 'Notas sin etiquetas',
+            orphaned: 'Notas huérfanas',
+            orphanedDescription: 'Notas a las que no enlaza ninguna otra nota'
+        },
+        sections: {
+            activity: 'Notas creadas y modificadas por semana',
+            wordsPerFolder: 'Palabras por carpeta',
+            openTasksPerFolder: 'Tareas abiertas por carpeta',
+            topTags: 'Etiquetas principales',
+            topProperties: 'Propiedades principales'
+        },
+        legend: {
+            created: 'Creadas',
+            modified: 'Modificadas'
         }
     },
 
@@ -733,8 +1048,10 @@ export const STRINGS_ES = {
         revealFile: 'Revelar archivo', // Command palette: Reveals and selects the currently active file in the navigator (English: Reveal file)
         search: 'Buscar', // Command palette: Toggle search in the file list (English: Search)
         searchVaultRoot: 'Buscar en la raíz de la bóveda', // Command palette: Selects the vault root folder and focuses search (English: Search in vault root)
+        createSmartFolder: 'Crear carpeta inteligente desde la búsqueda',
         toggleDualPane: 'Alternar diseño de doble panel', // Command palette: Toggles between single-pane and dual-pane layout (English: Toggle dual pane layout)
         toggleCalendar: 'Alternar calendario', // Command palette: Toggles showing the calendar overlay in the navigation pane (English: Toggle calendar)
+        openStatistics: 'Abrir estadísticas de la bóveda', // Command palette: Opens the vault statistics dashboard (English: Open vault statistics)
         selectVaultProfile: 'Cambiar perfil de bóveda', // Command palette: Opens a modal to choose a different vault profile (English: Switch vault profile)
         selectVaultProfile1: 'Cambiar al perfil de bóveda 1', // Command palette: Activates the first vault profile without opening the modal (English: Select vault profile 1)
         selectVaultProfile2: 'Cambiar al perfil de bóveda 2', // Command palette: Activates the second vault profile without opening the modal (English: Select vault profile 2)
@@ -743,12 +1060,18 @@ export const STRINGS_ES = {
         createNewNote: 'Crear nueva nota', // Command palette: Creates a new note in the currently selected folder (English: Create new note)
         createNewNoteFromTemplate: 'Nueva nota desde plantilla', // Command palette: Creates a new note from a template in the currently selected folder (English: Create new note from template)
         moveFiles: 'Mover archivos', // Command palette: Move selected files to another folder (English: Move files)
+        undo: 'Deshacer operación de archivo', // Command palette: Reverse the most recent file operation (English: Undo file operation)
+        redo: 'Rehacer operación de archivo', // Command palette: Reapply the most recently undone file operation (English: Redo file operation)
         selectNextFile: 'Seleccionar siguiente archivo', // Command palette: Selects the next file in the current view (English: Select next file)
         selectPreviousFile: 'Seleccionar archivo anterior', // Command palette: Selects the previous file in the current view (English: Select previous file)
         convertToFolderNote: 'Convertir en nota de carpeta', // Command palette: Converts the active file into a folder note with a new folder (English: Convert to folder note)
         setAsFolderNote: 'Establecer como nota de carpeta', // Command palette: Renames the active file to its folder note name (English: Set as folder note)
         detachFolderNote: 'Desvincular nota de carpeta', // Command palette: Renames the active folder note to a new name (English: Detach folder note)
         pinAllFolderNotes: 'Fijar todas las notas de carpeta', // Command palette: Pins all folder notes to shortcuts (English: Pin all folder notes)
+        writeFolderMetadataFiles: 'Escribir metadatos de carpetas en archivos', // Command palette: Writes folder icons, colors, sort overrides and appearances to folder notes or sidecars (English: Write folder metadata to files)
+        reloadFolderMetadataFiles: 'Recargar metadatos de carpetas desde archivos', // Command palette: Reads folder metadata from folder notes or sidecars into settings (English: Reload folder metadata from files)
+        exportConfiguration: 'Exportar paquete de configuración', // Command palette: Writes a configuration bundle JSON file to the vault root (English: Export configuration bundle)
+        importConfiguration: 'Importar paquete de configuración', // Command palette: Opens a dialog to import sections of a configuration bundle (English: Import configuration bundle)
         navigateToFolder: 'Navegar a carpeta', // Command palette: Navigate to a folder using fuzzy search (English: Navigate to folder)
         navigateToTag: 'Navegar a etiqueta', // Command palette: Navigate to a tag using fuzzy search (English: Navigate to tag)
         navigateToProperty: 'Navegar a propiedad', // Command palette: Navigate to a property key or value using fuzzy search (English: Navigate to property)
@@ -762,6 +1085,8 @@ export const STRINGS_ES = {
         addTag: 'Añadir etiqueta a archivos seleccionados', // Command palette: Opens a dialog to add a tag to selected files (English: Add tag to selected files)
         removeTag: 'Eliminar etiqueta de archivos seleccionados', // Command palette: Opens a dialog to remove a tag from selected files (English: Remove tag from selected files)
         removeAllTags: 'Eliminar todas las etiquetas de archivos seleccionados', // Command palette: Removes all tags from selected files (English: Remove all tags from selected files)
+        mergeTags: 'Fusionar etiquetas', // Command palette: Opens a dialog to merge several tags into one tag (English: Merge tags)
+        editProperties: 'Editar propiedades de los archivos seleccionados', // Command palette: Opens a dialog to set, append to, or remove a property on selected files (English: Edit properties of selected files)
         openAllFiles: 'Abrir todos los archivos', // Command palette: Opens all files in the current folder or tag (English: Open all files)
         rebuildCache: 'Reconstruir caché' // Command palette: Rebuilds the local Notebook Navigator cache (English: Rebuild cache)
     },
@@ -770,6 +1095,7 @@ export const STRINGS_ES = {
     plugin: {
         viewName: 'Navegador de Cuadernos', // Name shown in the view header/tab (English: Notebook Navigator)
         calendarViewName: 'Calendario', // Name shown in the view header/tab (English: Calendar)
+        statisticsViewName: 'Estadísticas de la bóveda', // Name shown in the statistics view header/tab (English: Vault statistics)
         ribbonTooltip: 'Navegador de Cuadernos', // Tooltip for the ribbon icon in the left sidebar (English: Notebook Navigator)
         revealInNavigator: 'Mostrar en el Navegador de Cuadernos' // Context menu item to reveal a file in the navigator (English: Reveal in Notebook Navigator)
     },
@@ -868,7 +1194,13 @@ export const STRINGS_ES = {
                     'filename-asc': 'Nombre de archivo (A arriba)',
                     'filename-desc': 'Nombre de archivo (Z arriba)',
                     'property-asc': 'Propiedad (A arriba)',
-                    'property-desc': 'Propiedad (Z arriba)'
+                    'property-desc': 'Propiedad (Z arriba)',
+                    'wordcount-desc': 'Número de palabras (más arriba)',
+                    'wordcount-asc': 'Número de palabras (menos arriba)',
+                    'tasks-desc': 'Tareas abiertas (más arriba)',
+                    'tasks-asc': 'Tareas abiertas (menos arriba)',
+                    'size-desc': 'Tamaño de archivo (mayor arriba)',
+                    'size-asc': 'Tamaño de archivo (menor arriba)'
                 },
                 propertyOverride: {
                     asc: 'Propiedad ‘{property}’ (A arriba)',
@@ -894,6 +1226,10 @@ export const STRINGS_ES = {
                 name: 'Desplazar al archivo seleccionado cuando cambia la lista',
                 desc: 'Desplazar al archivo seleccionado al anclar notas, mostrar notas descendientes, cambiar la apariencia de carpetas o ejecutar operaciones de archivos.'
             },
+            searchNoteContent: {
+                name: 'Buscar en el contenido de las notas',
+                desc: 'Crea un índice local de texto completo del cuerpo de las notas para la búsqueda por filtros. Activa los filtros `content:` y hace que las palabras sueltas coincidan con el texto además del nombre. No requiere Omnisearch.'
+            },
             includeDescendantNotes: {
                 name: 'Mostrar notas de subcarpetas / descendientes',
                 desc: 'Incluir notas de subcarpetas y descendientes de etiquetas al ver una carpeta o etiqueta.'
@@ -908,11 +1244,13 @@ export const STRINGS_ES = {
             },
             groupNotes: {
                 name: 'Agrupar notas',
-                desc: 'Muestra encabezados entre notas agrupadas por fecha o carpeta. Las vistas de etiquetas usan grupos por fecha cuando la agrupación por carpeta está activada.',
+                desc: 'Muestra encabezados entre notas agrupadas por fecha, carpeta, etiqueta, primera letra o valor de propiedad. Las vistas de etiquetas usan grupos por fecha cuando la agrupación por carpeta está activada.',
                 options: {
                     none: 'No agrupar',
                     date: 'Agrupar por fecha',
-                    folder: 'Agrupar por carpeta'
+                    folder: 'Agrupar por carpeta',
+                    tag: 'Agrupar por etiqueta',
+                    alphabetical: 'Agrupar alfabéticamente'
                 }
             },
             showPinnedGroupHeader: {
@@ -959,6 +1297,11 @@ export const STRINGS_ES = {
                 placeholder: '# Extension=icon\ncpp=LiFileCode\npdf=RaBook',
                 editTooltip: 'Editar asignaciones'
             },
+            fileStyleRules: {
+                name: 'Reglas de estilo de archivos',
+                desc: 'Asigna un icono y un color a los archivos que coinciden con una consulta del filtro de búsqueda, p. ej. una marca de verificación para .status=done o gris para folder:archive. Las reglas se guardan en el perfil de la bóveda.',
+                buttonText: 'Editar reglas'
+            },
             optimizeNoteHeight: {
                 name: 'Altura de nota variable',
                 desc: 'Usar altura compacta para notas ancladas y notas sin texto de vista previa.'
@@ -1039,6 +1382,15 @@ export const STRINGS_ES = {
                 name: 'Abrir notas nuevas en pestaña nueva',
                 desc: 'Cuando está activado, el comando Crear nueva nota abre las notas en una pestaña nueva. Cuando está desactivado, las notas reemplazan la pestaña actual.'
             },
+            newNoteFileNamePattern: {
+                name: 'Nombre de archivo de notas nuevas',
+                desc: 'Patrón de nombre de archivo para notas nuevas. Admite {{date}}, {{date:FORMAT}}, {{time}} y {{title}}. Las carpetas pueden sobrescribirlo desde su menú. Déjalo vacío para "Sin título".',
+                placeholder: '{{date:YYYY-MM-DD}} {{title}}'
+            },
+            promptForNewNoteTitle: {
+                name: 'Pedir título al crear notas',
+                desc: 'Muestra una solicitud de título antes de crear una nota. El título rellena {{title}} en el patrón, o se convierte en el nombre de archivo si no hay patrón.'
+            },
             autoRevealActiveNote: {
                 name: 'Mostrar automáticamente la nota activa',
                 desc: 'Muestra automáticamente las notas cuando se abren desde el Conmutador rápido, enlaces o búsqueda.'
@@ -1215,6 +1567,11 @@ export const STRINGS_ES = {
                 desc: 'El selector de archivos de plantilla muestra notas de esta carpeta.',
                 placeholder: 'Templates'
             },
+            noteTemplateRules: {
+                name: 'Reglas de plantillas de notas',
+                desc: 'Aplicar una plantilla y un patrón de nombre a las notas creadas desde una carpeta, etiqueta o propiedad.',
+                buttonText: 'Editar reglas'
+            },
             calendarCustomFilePattern: {
                 name: 'Notas diarias',
                 desc: 'Formatear ruta usando formato de fecha de Moment. Envuelve los nombres de subcarpetas entre corchetes, ej. [Work]/YYYY. Haz clic en el icono de plantilla para establecer una plantilla. Establecer ubicación de carpeta de plantillas en General > Plantillas.',
@@ -1270,6 +1627,16 @@ export const STRINGS_ES = {
                 notice: 'Ajustes restablecidos. Reinicia Obsidian o vuelve a abrir Notebook Navigator para aplicar.',
                 error: 'Error al restablecer los ajustes.'
             },
+            configBundle: {
+                name: 'Paquete de configuración',
+                desc: 'Exporta perfiles de bóveda, accesos directos, estilos, apariencias, órdenes personalizados, mapas de iconos y atajos de teclado a un archivo JSON en la raíz de la bóveda, o importa un paquete para configurar otra bóveda.',
+                exportButton: 'Exportar',
+                importButton: 'Importar',
+                exportSuccess: 'Configuración exportada a {filename}',
+                exportFailed: 'No se pudo exportar la configuración.',
+                importSuccess: 'Configuración importada.',
+                importFailed: 'No se pudo importar la configuración.'
+            },
             multiSelectModifier: {
                 name: 'Modificador de selección múltiple',
                 desc: 'Elige qué tecla modificadora activa la selección múltiple. Cuando se selecciona Option/Alt, Cmd/Ctrl clic abre notas en una nueva pestaña.',
@@ -1294,6 +1661,14 @@ export const STRINGS_ES = {
                 name: 'Ctrl+Enter',
                 desc: 'Abrir el archivo seleccionado en una nueva pestaña, división o ventana al pulsar Ctrl+Enter.'
             },
+            vimKeyboardNavigation: {
+                name: 'Secuencias de teclas estilo Vim',
+                desc: 'Usa gg y G para ir al primer y último elemento, dd para eliminar, zc y zo para contraer y expandir, y / para abrir la búsqueda. Los atajos personalizados tienen prioridad.'
+            },
+            typeAheadFind: {
+                name: 'Búsqueda al escribir',
+                desc: 'Al escribir letras se salta a la primera carpeta, etiqueta o nota cuyo nombre empieza por el texto escrito. No disponible con las secuencias estilo Vim activadas.'
+            },
             excludedNotes: {
                 name: 'Ocultar notas con reglas de propiedades (perfil de bóveda)',
                 desc: 'Lista de reglas de frontmatter separadas por comas. Use entradas `key` o `key=value` (ej.: status=done, published=true, archived).',
@@ -1417,6 +1792,10 @@ export const STRINGS_ES = {
                     none: 'Ninguno'
                 }
             },
+            showTaskProgress: {
+                name: 'Progreso de tareas',
+                desc: 'Mostrar una barra de progreso y la próxima fecha de vencimiento en notas con tareas.'
+            },
             propertyFields: {
                 name: 'Claves de propiedades (perfil de bóveda)',
                 desc: 'Claves de propiedades de metadatos, con visibilidad por clave para la navegación y la lista de archivos.',
@@ -1529,6 +1908,15 @@ export const STRINGS_ES = {
                     alphaDesc: 'Z a A'
                 }
             },
+            folderMetadataStorage: {
+                name: 'Almacenamiento de metadatos de carpetas',
+                desc: 'Guarda también los iconos, colores, órdenes personalizados y apariencias de las carpetas en la bóveda para que viajen con la carpeta mediante sincronización o git. Los cambios se sincronizan en ambos sentidos. Ejecuta "Escribir metadatos de carpetas en archivos" para migrar los metadatos existentes.',
+                options: {
+                    settings: 'Solo ajustes del plugin',
+                    folderNote: 'Frontmatter de la nota de carpeta',
+                    sidecar: 'Archivo auxiliar .folder.yml'
+                }
+            },
             showNoteCount: {
                 name: 'Mostrar conteo de notas',
                 desc: 'Muestra el número de notas junto a cada carpeta y etiqueta.'
@@ -1644,6 +2032,11 @@ export const STRINGS_ES = {
                 name: 'Mostrar carpeta de propiedades',
                 desc: 'Mostrar "Propiedades" como una carpeta desplegable.'
             },
+            propertyHierarchies: {
+                name: 'Jerarquías de propiedades',
+                desc: 'Anidar notas en carpetas virtuales por valor de propiedad, un nivel por clave. Una jerarquía por línea como `Name: key > key > key`. Las claves también deben figurar en las claves de propiedades.',
+                placeholder: 'Research: type > status > project'
+            },
             hiddenTags: {
                 name: 'Ocultar etiquetas (perfil de bóveda)',
                 desc: 'Lista separada por comas de patrones de etiquetas. Patrones de nombre: tag* (empieza con), *tag (termina con). Patrones de ruta: archivo (etiqueta y descendientes), archivo/* (solo descendientes), proyectos/*/borradores (comodín intermedio).',
@@ -46,7 +46,10 @@ export const STRINGS_FA = {
         pinnedSection: 'سنجاق‌شده',
         notesSection: 'یادداشت‌ها',
         filesSection: 'فایل‌ها',
-        hiddenItemAriaLabel: '{name} (پنهان)'
+        noPropertyValue: 'بدون مقدار',
+        hiddenItemAriaLabel: '{name} (پنهان)',
+        taskProgressAriaLabel: '{completed} از {total} وظیفه تکمیل شده',
+        taskDue: 'سررسید {date}'
     },
 
     // Tag list
@@ -61,6 +64,7 @@ export const STRINGS_FA = {
         recentNotesHeader: 'یادداشت‌های اخیر',
         recentFilesHeader: 'فایل‌های اخیر',
         properties: 'ویژگی‌ها',
+        smartFolders: 'پوشه‌های هوشمند',
         reorderRootFoldersTitle: 'مرتب‌سازی مجدد ناوبری',
         reorderRootFoldersHint: 'از فلش‌ها یا کشیدن برای مرتب‌سازی استفاده کنید',
         vaultRootLabel: 'خزانه',
@@ -130,6 +134,7 @@ export const STRINGS_FA = {
         mobileBackToNavigation: 'بازگشت به ناوبری',
         changeSortOrder: 'تغییر ترتیب',
         defaultSort: 'پیش‌فرض',
+        customSortChain: 'زنجیره مرتب‌سازی سفارشی...',
         showFolders: 'نمایش ناوبری',
         reorderRootFolders: 'مرتب‌سازی مجدد ناوبری',
         finishRootFolderReorder: 'تمام',
@@ -170,6 +175,15 @@ export const STRINGS_FA = {
                         '`-word` یادداشت‌هایی با "word" در نام فایل را حذف کنید.'
                     ]
                 },
+                content: {
+                    title: 'محتوای یادداشت',
+                    items: [
+                        '`content:واژه` یادداشت‌هایی که متنشان واژه‌ای با شروع "واژه" دارد.',
+                        '`content:"دو واژه"` همه واژه‌ها باید در متن یادداشت باشند.',
+                        '`-content:واژه` حذف یادداشت‌هایی که متنشان واژه‌ای با شروع "واژه" دارد.',
+                        'نیازمند **جستجو در محتوای یادداشت** در تنظیمات پنل فهرست است. با فعال‌سازی، واژه‌های ساده نیز با متن یادداشت تطبیق می‌یابند.'
+                    ]
+                },
                 tags: {
                     title: 'برچسب‌ها',
                     items: [
@@ -193,6 +207,8 @@ export const STRINGS_FA = {
                         '`."Reading Status"="In Progress"` کلیدها و مقادیر حاوی فاصله باید در گیومه دوتایی قرار گیرند.',
                         '`-.key` حذف یادداشت‌هایی با کلید ویژگی.',
                         '`-.key=value` حذف یادداشت‌هایی با مقدار ویژگی.',
+                        '`.key>=3`, `.key<2026-11-01` مقایسه ویژگی‌های عددی یا تاریخی با `>`, `>=`, `<`, `<=`.',
+                        '`.key:thisweek`, `.key:1..5`, `.key:2026-11-01..2026-11-30` تطبیق با تاریخ نسبی، تاریخ، عدد یا بازه شامل.',
                         'Cmd/Ctrl+کلیک روی ویژگی برای افزودن با AND. Cmd/Ctrl+Shift+کلیک برای افزودن با OR.'
                     ]
                 },
@@ -201,6 +217,8 @@ export const STRINGS_FA = {
                     items: [
                         '`has:task` شامل یادداشت‌هایی با وظایف ناتمام.',
                         '`-has:task` حذف یادداشت‌هایی با وظایف ناتمام.',
+                        '`due:overdue`, `due:today`, `due:thisweek` شامل یادداشت‌هایی با وظیفه باز که سررسید آن در بازه است (تاریخ‌های `📅` افزونه Tasks یا فیلدهای `[due:: ]` در Dataview).',
+                        '`due:2026-11-01..2026-11-30` تطبیق با تاریخ سررسید یا بازه. `-due:...` یادداشت‌های دارای وظیفه باز منطبق را حذف می‌کند.',
                         '`folder:meetings` شامل یادداشت‌ها در جایی که نام پوشه شامل `meetings` باشد.',
                         '`folder:/work/meetings` شامل یادداشت‌ها فقط در `work/meetings` (بدون زیرپوشه‌ها).',
                         '`folder:/` شامل یادداشت‌ها فقط در ریشه خزانه.',
@@ -212,13 +230,13 @@ export const STRINGS_FA = {
                     ]
                 },
                 connectors: {
-                    title: 'رفتار AND/OR',
+                    title: 'AND/OR/NOT و گروه‌بندی',
                     items: [
-                        '`AND` و `OR` فقط در جستجوهای انحصاری برچسب/ویژگی عملگر هستند.',
-                        'جستجوهای انحصاری برچسب/ویژگی فقط شامل فیلترهای برچسب و ویژگی هستند: `#tag`، `-#tag`، `#`، `-#`، `.key`، `-.key`، `.key=value`، `-.key=value`.',
-                        'اگر جستجو شامل نام‌ها، تاریخ‌ها (`@...`)، فیلترهای وظیفه (`has:task`)، فیلترهای پوشه (`folder:...`) یا فیلترهای پسوند (`ext:...`) باشد، `AND` و `OR` به عنوان کلمه جستجو می‌شوند.',
-                        'نمونه جستجو با عملگر: `#work OR .status=started`.',
-                        'مثال جستجوی ترکیبی: `#work OR ext:md` (`OR` در نام فایل‌ها جستجو می‌شود).'
+                        'وقتی پرس‌وجو شامل فیلتر (`#tag`، `.key`، `@date`، `has:task`، `due:`، `folder:`، `ext:`، `content:`) یا پرانتز باشد، `AND`، `OR` و `NOT` عملگر هستند.',
+                        '`( )` شرط‌ها را گروه می‌کند: `(folder:Projects OR folder:Areas) AND #active AND -ext:pdf`.',
+                        '`NOT شرط` یا `-شرط` یک شرط را حذف می‌کند. `-( )` کل گروه را حذف می‌کند.',
+                        '`NOT` بر `AND` و `AND` بر `OR` اولویت دارد. شرط‌های کنار هم با AND ضمنی ترکیب می‌شوند.',
+                        'پرس‌وجوهایی که فقط واژه دارند و پرانتز ندارند، `AND`، `OR` و `NOT` را به‌عنوان واژه در نام فایل جستجو می‌کنند (مثلاً `black or white`).'
                     ]
                 },
                 dates: {
@@ -292,12 +310,14 @@ export const STRINGS_FA = {
             addTag: 'افزودن برچسب',
             removeTag: 'حذف برچسب',
             removeAllTags: 'حذف همه برچسب‌ها',
+            editProperties: 'ویرایش ویژگی‌ها',
             changeIcon: 'تغییر آیکون',
             changeColor: 'تغییر رنگ'
         },
         folder: {
             newNote: 'یادداشت جدید',
             newNoteFromTemplate: 'یادداشت جدید از قالب',
+            newNoteFileName: 'نام فایل یادداشت جدید...',
             newFolder: 'پوشه جدید',
             newCanvas: 'بوم جدید',
             newBase: 'پایگاه جدید',
@@ -322,14 +342,24 @@ export const STRINGS_FA = {
             changeIcon: 'تغییر آیکون',
             changeColor: 'تغییر رنگ',
             changeBackground: 'تغییر پس‌زمینه',
+            mergeTags: 'ادغام برچسب‌ها...',
+            splitTag: 'تقسیم برچسب...',
             showTag: 'نمایش برچسب',
             hideTag: 'مخفی کردن برچسب'
         },
         property: {
             addKey: 'پیکربندی کلیدهای ویژگی',
             renameKey: 'تغییر نام ویژگی',
+            renameValue: 'تغییر نام مقدار',
+            mergeValue: 'ادغام در مقدار...',
             deleteKey: 'حذف ویژگی'
         },
+        smartFolder: {
+            newSmartFolder: 'پوشه هوشمند جدید',
+            newNestedSmartFolder: 'پوشه هوشمند تودرتوی جدید',
+            editSmartFolder: 'ویرایش پوشه هوشمند',
+            deleteSmartFolder: 'حذف پوشه هوشمند'
+        },
         navigation: {
             addSeparator: 'افزودن جداکننده',
             removeSeparator: 'حذف جداکننده'
@@ -355,11 +385,25 @@ export const STRINGS_FA = {
     folderAppearance: {
         standardPreset: 'استاندارد',
         compactPreset: 'فشرده',
+        gridPreset: 'شبکه',
+        boardPreset: 'تخته...',
+        boardPresetOption: (property: string) => `تخته (${property})`,
+        boardPropertyAction: 'ستون‌های تخته بر اساس ویژگی',
+        boardPropertyPlaceholder: 'کلید ویژگی',
+        tileSize: 'اندازه کاشی',
+        tileSizeOptions: {
+            small: 'کاشی‌های کوچک',
+            medium: 'کاشی‌های متوسط',
+            large: 'کاشی‌های بزرگ'
+        },
         defaultSuffix: '(پیش‌فرض)',
         defaultLabel: 'پیش‌فرض',
         titleRows: 'ردیف‌های عنوان',
         previewRows: 'ردیف‌های پیش‌نمایش',
         groupBy: 'گروه‌بندی بر اساس',
+        groupByPropertyAction: 'گروه‌بندی بر اساس ویژگی...',
+        groupByPropertyPlaceholder: 'کلید ویژگی',
+        groupByPropertyOption: (property: string) => `گروه‌بندی بر اساس ویژگی (${property})`,
         defaultTitleOption: (rows: number) => `ردیف‌های عنوان پیش‌فرض (${rows})`,
         defaultPreviewOption: (rows: number) => `ردیف‌های پیش‌نمایش پیش‌فرض (${rows})`,
         defaultGroupOption: (groupLabel: string) => `گروه‌بندی پیش‌فرض (${groupLabel})`,
@@ -383,6 +427,89 @@ export const STRINGS_FA = {
         fileIconRuleEditor: {
             addRuleAria: 'افزودن قانون'
         },
+        sortChain: {
+            title: 'زنجیره مرتب‌سازی سفارشی',
+            description: 'یادداشت‌ها بر اساس کلید اول مرتب می‌شوند. هر کلید بعدی یادداشت‌هایی را که در کلیدهای بالاتر برابرند مرتب می‌کند.',
+            propertyPlaceholder: 'کلید ویژگی',
+            ascending: 'صعودی',
+            descending: 'نزولی',
+            addKey: 'افزودن کلید مرتب‌سازی',
+            moveUp: 'انتقال به بالا',
+            moveDown: 'انتقال به پایین',
+            save: 'ذخیره',
+            fields: {
+                modified: 'تاریخ ویرایش',
+                created: 'تاریخ ایجاد',
+                title: 'عنوان',
+                filename: 'نام فایل',
+                property: 'ویژگی',
+                wordcount: 'تعداد کلمات',
+                tasks: 'کارهای باز',
+                size: 'اندازه فایل'
+            }
+        },
+        noteTemplateRules: {
+            title: 'قوانین قالب یادداشت',
+            description:
+                'یادداشت‌هایی که از یک پوشه، برچسب یا ویژگی ساخته می‌شوند از قالب و نام فایل نخستین قانون منطبق استفاده می‌کنند. نام فایل از {{date}}، {{date:FORMAT}}، {{time}} و {{title}} پشتیبانی می‌کند.',
+            folderPatternPlaceholder: 'مسیر پوشه، مثلاً Meetings یا Projects/*/Notes',
+            tagPatternPlaceholder: 'برچسب، مثلاً meeting',
+            propertyPatternPlaceholder: 'ویژگی، مثلاً type یا type=meeting',
+            templatePlaceholder: 'فایل قالب',
+            fileNamePlaceholder: 'الگوی نام فایل، مثلاً {{date}} Meeting',
+            emptyState: 'قانونی وجود ندارد. یادداشت‌های جدید خالی ساخته می‌شوند.',
+            addRule: 'افزودن قانون',
+            moveUp: 'انتقال به بالا',
+            moveDown: 'انتقال به پایین',
+            save: 'ذخیره',
+            targets: {
+                folder: 'پوشه',
+                tag: 'برچسب',
+                property: 'ویژگی'
+            }
+        },
+        fileStyleRules: {
+            title: 'قواعد سبک فایل',
+            description:
+                'فایل‌هایی که با کوئری یک قاعده مطابقت دارند، نماد و رنگ آن را می‌گیرند. کوئری‌ها از نحو فیلتر جستجو استفاده می‌کنند. قواعد از بالا به پایین بررسی می‌شوند: اولین قاعده منطبق دارای نماد، نماد را و اولین قاعده منطبق دارای رنگ، رنگ را تعیین می‌کند. نمادها و رنگ‌های تنظیم‌شده روی فایل اولویت دارند.',
+            queryPlaceholder: 'کوئری فیلتر، مثلاً .status=done یا #meeting یا folder:archive',
+            emptyState: 'قاعده‌ای وجود ندارد.',
+            setIcon: 'تنظیم نماد',
+            setColor: 'تنظیم رنگ',
+            addRule: 'افزودن قانون',
+            moveUp: 'انتقال به بالا',
+            moveDown: 'انتقال به پایین',
+            save: 'ذخیره'
+        },
+        configBundleImport: {
+            title: 'درون‌ریزی بسته پیکربندی',
+            description:
+                'یک فایل JSON بسته را از خزانه انتخاب کنید، سپس بخش‌هایی را که باید درون‌ریزی شوند برگزینید. مقادیر درون‌ریزی‌شده مانند تنظیمات عادی اعتبارسنجی می‌شوند.',
+            filePlaceholder: 'مسیر بسته، مثلاً notebook-navigator-config.json',
+            sectionsLabel: 'بخش‌های درون‌ریزی',
+            strategyLabel: 'تنظیمات موجود',
+            strategies: {
+                merge: 'ادغام، ورودی‌های بسته اولویت دارند',
+                replace: 'جایگزینی بخش‌های انتخاب‌شده'
+            },
+            bundleInfo: 'برون‌بری در {date} از Notebook Navigator {version}',
+            importButton: 'درون‌ریزی',
+            sections: {
+                vaultProfiles: 'پروفایل‌های خزانه و میانبرها',
+                styling: 'نمادها و رنگ‌های پوشه، برچسب و ویژگی',
+                appearances: 'ظاهر پوشه‌ها و برچسب‌ها',
+                sortOverrides: 'ترتیب‌های سفارشی',
+                iconMaps: 'نگاشت نمادها و نمادهای رابط',
+                keyboardShortcuts: 'میانبرهای صفحه‌کلید'
+            },
+            errors: {
+                invalidJson: 'فایل JSON معتبر نیست.',
+                invalidFormat: 'فایل یک بسته پیکربندی Notebook Navigator نیست.',
+                unsupportedVersion: 'این بسته با نسخه جدیدتری از Notebook Navigator ساخته شده است.',
+                empty: 'بسته هیچ بخش قابل درون‌ریزی ندارد.',
+                readFailed: 'خواندن فایل ممکن نشد.'
+            }
+        },
         interfaceIcons: {
             title: 'آیکون‌های رابط کاربری',
             fileItemsSection: 'آیتم‌های فایل',
@@ -413,6 +540,8 @@ export const STRINGS_FA = {
                 'nav-properties': 'ویژگی‌ها',
                 'nav-property': 'ویژگی',
                 'nav-property-value': 'مقدار',
+                'nav-smart-folders': 'پوشه‌های هوشمند',
+                'nav-smart-folder': 'پوشه هوشمند',
                 'list-pinned': 'آیتم‌های سنجاق شده',
                 'file-unfinished-task': 'وظایف ناتمام',
                 'file-word-count': 'تعداد کلمات'
@@ -493,6 +622,110 @@ export const STRINGS_FA = {
             deleteSettingsUpdateFailed: 'ویژگی {property} حذف شد. به‌روزرسانی تنظیمات ناموفق بود.',
             invalidKeyName: 'یک نام ویژگی معتبر وارد کنید.'
         },
+        propertyValueEdit: {
+            title: 'ویرایش ویژگی‌ها',
+            description: 'تغییر یک ویژگی در {count} {files}.',
+            keyLabel: 'ویژگی',
+            keyPlaceholder: 'نام ویژگی',
+            modeLabel: 'عملیات',
+            modes: {
+                set: 'تنظیم مقدار',
+                append: 'افزودن به فهرست',
+                remove: 'حذف ویژگی'
+            },
+            valueLabel: 'مقدار',
+            valuePlaceholder: 'مقدار',
+            emptyValue: '(خالی)',
+            previewTitle: 'پیش‌نمایش',
+            changeSummary: '{count} از {total} یادداشت تغییر می‌کند',
+            noChanges: 'هیچ یادداشتی نیاز به تغییر ندارد.',
+            apply: 'اعمال',
+            successSingle: 'ویژگی {property} در ۱ یادداشت به‌روزرسانی شد',
+            successMultiple: 'ویژگی {property} در {count} یادداشت به‌روزرسانی شد',
+            partialFailure: 'ویژگی {property} در {count} یادداشت به‌روزرسانی شد. {failed} یادداشت به‌روزرسانی نشد.'
+        },
+        propertyValueRename: {
+            renameTitle: 'تغییر نام مقدار {value}',
+            renameWarning:
+                'تغییر نام {property}: {value} باعث تغییر {count} {files} می‌شود. وارد کردن مقداری موجود، دو مقدار را ادغام می‌کند.',
+            newValuePrompt: 'مقدار جدید',
+            newValuePlaceholder: 'مقدار جدید را وارد کنید',
+            confirmRename: 'تغییر نام مقدار',
+            mergeTitle: 'ادغام مقدار {value}',
+            mergeWarning:
+                'ادغام {oldValue} در {newValue} باعث تغییر {count} {files} می‌شود. {newValue} نماد، رنگ و میانبرهای خود را حفظ می‌کند.',
+            mergePlaceholder: 'ادغام {value} در...',
+            mergeInstruction: 'برای ادغام',
+            confirmMerge: 'ادغام مقادیر',
+            noOtherValues: 'ویژگی {property} مقدار دیگری ندارد',
+            nestedTarget: 'نمی‌توان نام یک مقدار را به یکی از مقادیر تودرتوی آن تغییر داد.',
+            invalidValue: 'یک مقدار معتبر وارد کنید.',
+            noChanges: '{oldValue} → {newValue} (بدون تغییر)',
+            successSingle: '{oldValue} → {newValue} در ۱ یادداشت تغییر نام یافت',
+            successMultiple: '{oldValue} → {newValue} در {count} یادداشت تغییر نام یافت',
+            partialFailure: '{oldValue} → {newValue} در {count} یادداشت تغییر نام یافت. {failed} یادداشت به‌روزرسانی نشد.'
+        },
+        tagOperationSummary: {
+            close: 'بستن',
+            updatedNotes: 'یادداشت‌های به‌روزشده',
+            skippedNotes: 'یادداشت‌های ردشده',
+            skippedDescription: 'این یادداشت‌ها پس از پیش‌نمایش تغییر کرده‌اند یا چیزی برای به‌روزرسانی نداشتند.',
+            failedNotes: 'یادداشت‌های ناموفق',
+            reportSummary: '{changed} از {total} یادداشت به‌روز شد.'
+        },
+        tagMerge: {
+            title: 'ادغام برچسب‌ها',
+            description: 'چند برچسب را در یک برچسب ادغام کنید. برچسب‌های تودرتو همراه با برچسب والد خود منتقل می‌شوند.',
+            sourcesLabel: 'برچسب‌های ادغام‌شونده',
+            sourcesPlaceholder: 'برچسب‌های جداشده با کاما',
+            targetLabel: 'ادغام در',
+            targetPlaceholder: 'برچسب مقصد',
+            preview: 'پیش‌نمایش ادغام',
+            nothingToMerge: 'برچسبی برای ادغام وجود ندارد. بررسی کنید که برچسب‌ها در یادداشت‌ها استفاده شده و با برچسب مقصد متفاوت باشند.',
+            previewTitle: 'ادغام در {tag}',
+            previewDescription: 'ادغام {tags} در {tag} باعث تغییر {count} یادداشت می‌شود.',
+            confirm: 'ادغام برچسب‌ها',
+            affectedNotes: 'یادداشت‌های تحت تأثیر',
+            skippedTags: 'برچسب‌های ردشده',
+            skipReasons: {
+                sameAsTarget: 'همان برچسب مقصد',
+                containsTarget: 'برچسب مقصد زیر این برچسب قرار دارد',
+                nestedInSource: 'همراه با برچسب والد ادغام می‌شود',
+                noNotes: 'در هیچ یادداشتی استفاده نشده'
+            },
+            alreadyTagged: 'یادداشت‌هایی که از قبل {tag} دارند',
+            alreadyTaggedDescription: 'این یادداشت‌ها برچسب مقصد را بیش از یک بار خواهند داشت.',
+            multipleSources: 'یادداشت‌های دارای چند برچسب ادغام‌شونده',
+            multipleSourcesDescription: 'هر یک از این یادداشت‌ها برچسب مقصد را بیش از یک بار خواهد داشت.',
+            nestedCollisions: 'تداخل برچسب‌های تودرتو',
+            nestedCollisionsDescription: 'این برچسب‌های تودرتو در برچسب‌های تودرتوی موجود ادغام می‌شوند.',
+            notFinalized: 'فراداده منتقل نشد',
+            notFinalizedDescription: 'برخی یادداشت‌های دارای این برچسب‌ها به‌روز نشدند، بنابراین نمادها، رنگ‌ها و میانبرهای آن‌ها حفظ شد.',
+            reportTitle: 'در {tag} ادغام شد'
+        },
+        tagSplit: {
+            title: 'تقسیم برچسب {tag}',
+            description:
+                '{count} {files} دقیقاً برچسب {tag} دارند. هر یادداشت به برچسب فرزند نخستین قاعده منطبق منتقل می‌شود. یادداشت‌های بدون قاعده منطبق {tag} را نگه می‌دارند.',
+            childPlaceholder: 'برچسب فرزند',
+            kinds: {
+                folder: 'پوشه',
+                query: 'پرس‌وجوی فیلتر'
+            },
+            folderPlaceholder: 'مسیر پوشه (شامل زیرپوشه‌ها)',
+            queryPlaceholder: 'پرس‌وجوی فیلتر جستجو',
+            addRule: 'افزودن قاعده',
+            preview: 'پیش‌نمایش تقسیم',
+            nothingMatched: 'هیچ یادداشتی با قواعد تقسیم منطبق نیست.',
+            previewTitle: 'تقسیم {tag}',
+            previewDescription: '{count} از {total} یادداشت دارای {tag} به یک برچسب فرزند منتقل می‌شوند.',
+            confirm: 'تقسیم برچسب',
+            invalidRules: 'قواعدی که قابل ارزیابی نیستند',
+            invalidRulesDescription: 'پرس‌وجوهای فیلتر به معیار جستجو و حافظه نهان آماده یادداشت‌ها نیاز دارند.',
+            unmatched: 'یادداشت‌های بدون قاعده منطبق',
+            unmatchedDescription: 'این یادداشت‌ها {tag} را نگه می‌دارند.',
+            reportTitle: '{tag} تقسیم شد'
+        },
         fileSystem: {
             newFolderTitle: 'پوشه جدید',
             renameFolderTitle: 'تغییر نام پوشه',
@@ -502,6 +735,10 @@ export const STRINGS_FA = {
             deleteFileAttachmentsTitle: 'حذف پیوست‌های فایل؟',
             moveFileConflictTitle: 'تعارض انتقال',
             folderNamePrompt: 'نام پوشه را وارد کنید:',
+            newNoteTitle: 'یادداشت جدید',
+            noteTitlePrompt: 'عنوان یادداشت را وارد کنید:',
+            createNoteButton: 'ایجاد',
+            newNoteFileNamePrompt: 'الگوی نام فایل، مثلاً {{date:YYYYMMDDHHmm}} {{title}}. برای پیش‌فرض خالی بگذارید.',
             hideInOtherVaultProfiles: 'مخفی کردن در پروفایل‌های خزانه دیگر',
             renamePrompt: 'نام جدید را وارد کنید:',
             renameVaultTitle: 'تغییر نام نمایشی خزانه',
@@ -596,6 +833,23 @@ export const STRINGS_FA = {
             applyButton: 'اعمال',
             emptyState: 'کلید ویژگی‌ای یافت نشد.'
         },
+        smartFolder: {
+            newTitle: 'پوشه هوشمند جدید',
+            newNestedTitle: 'پوشه هوشمند جدید در {name}',
+            editTitle: 'ویرایش پوشه هوشمند',
+            nameLabel: 'نام',
+            namePlaceholder: 'نام پوشه هوشمند',
+            queryLabel: 'پرس‌وجوی فیلتر',
+            queryPlaceholder: '#project AND -#archived',
+            queryDescription:
+                'از نحو جستجوی فیلتر استفاده می‌کند. پوشه‌های هوشمند تودرتو فقط یادداشت‌هایی را نشان می‌دهند که با پرس‌وجوی پوشه‌های والد نیز مطابقت دارند.',
+            create: 'ایجاد',
+            save: 'ذخیره',
+            emptyName: 'نام پوشه هوشمند نمی‌تواند خالی باشد',
+            duplicateName: 'یک پوشه هوشمند با این نام از قبل اینجا وجود دارد',
+            deleteTitle: 'پوشه هوشمند "{name}" حذف شود؟',
+            deleteMessage: 'پوشه‌های هوشمند تودرتو نیز حذف می‌شوند. یادداشت‌ها تغییر نمی‌کنند.'
+        },
         welcome: {
             title: 'به {pluginName} خوش آمدید',
             introText:
@@ -678,6 +932,9 @@ export const STRINGS_FA = {
             iconPackUpdated: '{provider} به‌روزرسانی شد ({version})',
             iconPackRemoved: '{provider} حذف شد',
             iconPackLoadFailed: 'بارگذاری {provider} ناموفق بود',
+            folderMetadataWritten: 'فراداده {count} پوشه نوشته شد',
+            folderMetadataLoaded: 'فراداده {count} پوشه بارگذاری شد',
+            folderMetadataStorageDisabled: 'ابتدا در تنظیمات پوشه‌ها ذخیره در یادداشت پوشه یا فایل جانبی را انتخاب کنید',
             hiddenFileReveal: 'فایل مخفی است. "نمایش آیتم‌های مخفی" را فعال کنید'
         },
         confirmations: {
@@ -707,7 +964,62 @@ export const STRINGS_FA = {
             filesAlreadyHaveProperty: '{count} فایل از قبل این ویژگی را دارند',
             noTagsToClear: 'برچسبی برای پاک کردن نیست',
             fileImported: '۱ فایل وارد شد',
-            filesImported: '{count} فایل وارد شد'
+            filesImported: '{count} فایل وارد شد',
+            filesMoved: '{count} فایل به {folder} منتقل شد'
+        }
+    },
+
+    // Undo history
+    undoHistory: {
+        undo: 'لغو',
+        undone: 'لغو شد: {action}',
+        redone: 'دوباره انجام شد: {action}',
+        nothingToUndo: 'چیزی برای لغو وجود ندارد',
+        nothingToRedo: 'چیزی برای انجام مجدد وجود ندارد',
+        failed: 'برگرداندن "{action}" ممکن نبود: {error}',
+        partial: '{count} مورد قابل بازیابی نبود',
+        actions: {
+            moveFile: 'انتقال "{name}"',
+            moveFiles: 'انتقال {count} فایل',
+            moveFolder: 'انتقال پوشه "{name}"',
+            renameFile: 'تغییر نام "{name}"',
+            renameFolder: 'تغییر نام پوشه "{name}"',
+            addTag: 'افزودن برچسب #{tag}',
+            removeTag: 'حذف برچسب #{tag}',
+            renameProperty: 'تغییر نام ویژگی {oldKey} → {newKey}',
+            editProperty: 'ویرایش ویژگی {property}',
+            renamePropertyValue: 'تغییر نام مقدار {property} از {oldValue} → {newValue}',
+            changeAppearance: 'تغییر ظاهر "{name}"'
+        }
+    },
+
+    // Vault statistics dashboard
+    statisticsDashboard: {
+        refresh: 'بازخوانی',
+        loading: 'در انتظار حافظه نهان یادداشت‌ها...',
+        unavailable: 'محاسبه آمار ممکن نبود.',
+        empty: 'داده‌ای وجود ندارد',
+        weekLabel: 'هفته {date}',
+        createdCount: '{count} ایجادشده',
+        modifiedCount: '{count} ویرایش‌شده',
+        summary: {
+            notes: 'یادداشت‌ها',
+            words: 'واژه‌ها',
+            openTasks: 'کارهای باز',
+            untagged: 'یادداشت‌های بدون برچسب',
+            orphaned: 'یادداشت‌های یتیم',
+            orphanedDescription: 'یادداشت‌هایی که هیچ یادداشت دیگری به آن‌ها پیوند نمی‌دهد'
+        },
+        sections: {
+            activity: 'یادداشت‌های ایجادشده و ویرایش‌شده در هر هفته',
+            wordsPerFolder: 'واژه‌ها در هر پوشه',
+            openTasksPerFolder: 'کارهای باز در هر پوشه',
+            topTags: 'برچسب‌های پرکاربرد',
+            topProperties: 'ویژگی‌های پرکاربرد'
+        },
+        legend: {
+            created: 'ایجادشده',
+            modified: 'ویرایش‌شده'
         }
     },
 
@@ -732,8 +1044,10 @@ export const STRINGS_FA = {
         revealFile: 'نمایش فایل',
         search: 'جستجو',
         searchVaultRoot: 'جستجو در ریشه خزانه',
+        createSmartFolder: 'ایجاد پوشه هوشمند از جستجو',
         toggleDualPane: 'تغییر نمای پنل دوگانه',
         toggleCalendar: 'تغییر تقویم',
+        openStatistics: 'باز کردن آمار گاوصندوق', // Command palette: Opens the vault statistics dashboard (English: Open vault statistics)
         selectVaultProfile: 'انتخاب پروفایل خزانه',
         selectVaultProfile1: 'انتخاب پروفایل خزانه ۱',
         selectVaultProfile2: 'انتخاب پروفایل خزانه ۲',
@@ -742,12 +1056,18 @@ export const STRINGS_FA = {
         createNewNote: 'ایجاد یادداشت جدید',
         createNewNoteFromTemplate: 'یادداشت جدید از قالب',
         moveFiles: 'انتقال فایل‌ها',
+        undo: 'لغو عملیات فایل',
+        redo: 'انجام مجدد عملیات فایل',
         selectNextFile: 'انتخاب فایل بعدی',
         selectPreviousFile: 'انتخاب فایل قبلی',
         convertToFolderNote: 'تبدیل به یادداشت پوشه',
         setAsFolderNote: 'تنظیم به عنوان یادداشت پوشه',
         detachFolderNote: 'جدا کردن یادداشت پوشه',
         pinAllFolderNotes: 'سنجاق کردن همه یادداشت‌های پوشه',
+        writeFolderMetadataFiles: 'نوشتن فراداده پوشه در فایل‌ها', // Command palette: Writes folder icons, colors, sort overrides and appearances to folder notes or sidecars (English: Write folder metadata to files)
+        reloadFolderMetadataFiles: 'بارگذاری دوباره فراداده پوشه از فایل‌ها', // Command palette: Reads folder metadata from folder notes or sidecars into settings (English: Reload folder metadata from files)
+        exportConfiguration: 'برون‌بری بسته پیکربندی', // Command palette: Writes a configuration bundle JSON file to the vault root (English: Export configuration bundle)
+        importConfiguration: 'درون‌ریزی بسته پیکربندی', // Command palette: Opens a dialog to import sections of a configuration bundle (English: Import configuration bundle)
         navigateToFolder: 'رفتن به پوشه',
         navigateToTag: 'رفتن به برچسب',
         navigateToProperty: 'رفتن به ویژگی',
@@ -761,6 +1081,8 @@ export const STRINGS_FA = {
         addTag: 'افزودن برچسب به فایل‌های انتخابی',
         removeTag: 'حذف برچسب از فایل‌های انتخابی',
         removeAllTags: 'حذف همه برچسب‌ها از فایل‌های انتخابی',
+        mergeTags: 'ادغام برچسب‌ها', // Command palette: Opens a dialog to merge several tags into one tag (English: Merge tags)
+        editProperties: 'ویرایش ویژگی‌های فایل‌های انتخاب‌شده', // Command palette: Opens a dialog to set, append to, or remove a property on selected files (English: Edit properties of selected files)
         openAllFiles: 'باز کردن همه فایل‌ها',
         rebuildCache: 'بازسازی کش'
     },
@@ -769,6 +1091,7 @@ export const STRINGS_FA = {
     plugin: {
         viewName: 'Notebook Navigator',
         calendarViewName: 'تقویم',
+        statisticsViewName: 'آمار گاوصندوق', // Name shown in the statistics view header/tab (English: Vault statistics)
         ribbonTooltip: 'Notebook Navigator',
         revealInNavigator: 'نمایش در Notebook Navigator'
     },
@@ -867,7 +1190,13 @@ export const STRINGS_FA = {
                     'filename-asc': 'نام فایل (الف بالا)',
                     'filename-desc': 'نام فایل (ی بالا)',
                     'property-asc': 'ویژگی (الف بالا)',
-                    'property-desc': 'ویژگی (ی بالا)'
+                    'property-desc': 'ویژگی (ی بالا)',
+                    'wordcount-desc': 'تعداد کلمات (بیشترین بالا)',
+                    'wordcount-asc': 'تعداد کلمات (کمترین بالا)',
+                    'tasks-desc': 'کارهای باز (بیشترین بالا)',
+                    'tasks-asc': 'کارهای باز (کمترین بالا)',
+                    'size-desc': 'اندازه فایل (بزرگ‌ترین بالا)',
+                    'size-asc': 'اندازه فایل (کوچک‌ترین بالا)'
                 },
                 propertyOverride: {
                     asc: 'ویژگی ‘{property}’ (الف بالا)',
@@ -893,6 +1222,10 @@ export const STRINGS_FA = {
                 name: 'اسکرول به فایل انتخابی هنگام تغییر لیست',
                 desc: 'هنگام سنجاق کردن یادداشت‌ها، نمایش یادداشت‌های زیرمجموعه، تغییر ظاهر پوشه، یا اجرای عملیات فایل به فایل انتخابی اسکرول کنید.'
             },
+            searchNoteContent: {
+                name: 'جستجو در محتوای یادداشت',
+                desc: 'یک نمایه متن کامل محلی از بدنه یادداشت‌ها برای جستجوی فیلتری می‌سازد. فیلترهای `content:` را فعال می‌کند و واژه‌های ساده علاوه بر نام فایل با متن یادداشت نیز تطبیق می‌یابند. به Omnisearch نیازی ندارد.'
+            },
             includeDescendantNotes: {
                 name: 'نمایش یادداشت‌ها از زیرپوشه‌ها / زیرمجموعه‌ها',
                 desc: 'یادداشت‌های زیرپوشه‌های تودرتو و زیرمجموعه‌های برچسب را هنگام مشاهده پوشه یا برچسب شامل کنید.'
@@ -907,11 +1240,13 @@ export const STRINGS_FA = {
             },
             groupNotes: {
                 name: 'گروه‌بندی یادداشت‌ها',
-                desc: 'هدرها بین یادداشت‌های گروه‌بندی شده بر اساس تاریخ یا پوشه نمایش دهید. نماهای برچسب از گروه‌های تاریخ هنگام فعال بودن گروه‌بندی پوشه استفاده می‌کنند.',
+                desc: 'هدرها بین یادداشت‌های گروه‌بندی شده بر اساس تاریخ، پوشه، برچسب، حرف اول یا مقدار ویژگی نمایش دهید. نماهای برچسب از گروه‌های تاریخ هنگام فعال بودن گروه‌بندی پوشه استفاده می‌کنند.',
                 options: {
                     none: 'گروه‌بندی نکن',
                     date: 'گروه‌بندی بر اساس تاریخ',
-                    folder: 'گروه‌بندی بر اساس پوشه'
+                    folder: 'گروه‌بندی بر اساس پوشه',
+                    tag: 'گروه‌بندی بر اساس برچسب',
+                    alphabetical: 'گروه‌بندی الفبایی'
                 }
             },
             showPinnedGroupHeader: {
@@ -958,6 +1293,11 @@ export const STRINGS_FA = {
                 placeholder: '# Extension=icon\ncpp=LiFileCode\npdf=RaBook',
                 editTooltip: 'ویرایش نگاشت‌ها'
             },
+            fileStyleRules: {
+                name: 'قواعد سبک فایل',
+                desc: 'به فایل‌های منطبق با کوئری فیلتر جستجو نماد و رنگ بدهید، مثلاً نماد تیک برای .status=done یا خاکستری برای folder:archive. قواعد در پروفایل خزانه ذخیره می‌شوند.',
+                buttonText: 'ویرایش قوانین'
+            },
             optimizeNoteHeight: {
                 name: 'ارتفاع متغیر یادداشت',
                 desc: 'استفاده از ارتفاع فشرده برای یادداشت‌های سنجاق‌شده و یادداشت‌های بدون متن پیش‌نمایش.'
@@ -1038,6 +1378,15 @@ export const STRINGS_FA = {
                 name: 'باز کردن یادداشت‌های جدید در زبانه جدید',
                 desc: 'وقتی فعال باشد، فرمان ایجاد یادداشت جدید یادداشت‌ها را در زبانه جدید باز می‌کند. وقتی غیرفعال باشد، یادداشت‌ها جایگزین زبانه فعلی می‌شوند.'
             },
+            newNoteFileNamePattern: {
+                name: 'نام فایل یادداشت جدید',
+                desc: 'الگوی نام فایل برای یادداشت‌های جدید. از {{date}}، {{date:FORMAT}}، {{time}} و {{title}} پشتیبانی می‌کند. پوشه‌ها می‌توانند آن را از منوی پوشه بازنویسی کنند. برای «Untitled» خالی بگذارید.',
+                placeholder: '{{date:YYYY-MM-DD}} {{title}}'
+            },
+            promptForNewNoteTitle: {
+                name: 'پرسیدن عنوان هنگام ایجاد یادداشت',
+                desc: 'پیش از ایجاد یادداشت، عنوان پرسیده می‌شود. عنوان جای {{title}} را در الگو پر می‌کند یا اگر الگویی نباشد نام فایل می‌شود.'
+            },
             autoRevealActiveNote: {
                 name: 'نمایش خودکار یادداشت فعال',
                 desc: 'یادداشت‌ها را هنگام باز شدن از Quick Switcher، لینک‌ها یا جستجو به طور خودکار نمایش دهید.'
@@ -1214,6 +1563,11 @@ export const STRINGS_FA = {
                 desc: 'انتخابگر فایل قالب یادداشت‌های این پوشه را نمایش می‌دهد.',
                 placeholder: 'Templates'
             },
+            noteTemplateRules: {
+                name: 'قوانین قالب یادداشت',
+                desc: 'اعمال قالب و الگوی نام فایل بر یادداشت‌هایی که از یک پوشه، برچسب یا ویژگی ساخته می‌شوند.',
+                buttonText: 'ویرایش قوانین'
+            },
             calendarCustomFilePattern: {
                 name: 'یادداشت‌های روزانه',
                 desc: 'قالب‌بندی مسیر با استفاده از فرمت تاریخ Moment. نام زیرپوشه‌ها را در کروشه قرار دهید، مثال [Work]/YYYY. روی نماد قالب کلیک کنید تا قالب تنظیم شود. محل پوشه الگوها را در عمومی > الگوها تنظیم کنید.',
@@ -1268,6 +1622,16 @@ export const STRINGS_FA = {
                 notice: 'همه تنظیمات بازنشانی شد. اوبسیدین را ری‌استارت کنید یا Notebook Navigator را دوباره باز کنید.',
                 error: 'بازنشانی تنظیمات ناموفق بود'
             },
+            configBundle: {
+                name: 'بسته پیکربندی',
+                desc: 'پروفایل‌های خزانه، میانبرها، سبک‌ها، ظاهر، ترتیب‌های سفارشی، نگاشت نمادها و میانبرهای صفحه‌کلید را در یک فایل JSON در ریشه خزانه برون‌بری کنید، یا برای راه‌اندازی خزانه‌ای دیگر یک بسته را درون‌ریزی کنید.',
+                exportButton: 'برون‌بری',
+                importButton: 'درون‌ریزی',
+                exportSuccess: 'پیکربندی در {filename} برون‌بری شد',
+                exportFailed: 'برون‌بری پیکربندی ناموفق بود.',
+                importSuccess: 'پیکربندی درون‌ریزی شد.',
+                importFailed: 'درون‌ریزی پیکربندی ناموفق بود.'
+            },
             multiSelectModifier: {
                 name: 'کلید تغییردهنده انتخاب چندگانه',
                 desc: 'کلید تغییردهنده‌ای که انتخاب چندگانه را فعال می‌کند را انتخاب کنید. وقتی Option/Alt انتخاب شود، کلیک Cmd/Ctrl یادداشت‌ها را در تب جدید باز می‌کند.',
@@ -1292,6 +1656,14 @@ export const STRINGS_FA = {
                 name: 'Ctrl+Enter',
                 desc: 'فایل انتخاب‌شده را در تب، تقسیم یا پنجره جدید با فشار Ctrl+Enter باز کنید.'
             },
+            vimKeyboardNavigation: {
+                name: 'توالی کلیدهای سبک Vim',
+                desc: 'با gg و G به اولین و آخرین مورد بروید، dd برای حذف، zc و zo برای جمع و باز کردن، و / برای باز کردن جستجو. کلیدهای میانبر سفارشی اولویت دارند.'
+            },
+            typeAheadFind: {
+                name: 'یافتن هنگام تایپ',
+                desc: 'تایپ حروف به اولین پوشه، برچسب یا یادداشتی می‌رود که نامش با متن تایپ‌شده شروع می‌شود. هنگام فعال بودن توالی کلیدهای Vim در دسترس نیست.'
+            },
             fileVisibility: {
                 name: 'نمایش انواع فایل (پروفایل خزانه)',
                 desc: 'فیلتر کنید کدام انواع فایل در ناوبر نمایش داده شوند. انواع فایل پشتیبانی‌نشده توسط اوبسیدین ممکن است در برنامه‌های خارجی باز شوند.',
@@ -1414,6 +1786,10 @@ export const STRINGS_FA = {
                     none: 'هیچ‌کدام'
                 }
             },
+            showTaskProgress: {
+                name: 'پیشرفت وظایف',
+                desc: 'نمایش نوار تکمیل و تاریخ سررسید بعدی برای یادداشت‌های دارای وظیفه.'
+            },
             propertyFields: {
                 name: 'کلیدهای ویژگی (پروفایل خزانه)',
                 desc: 'کلیدهای ویژگی فرانت‌متر، با قابلیت تنظیم نمایش هر کلید برای ناوبری و فهرست فایل.',
@@ -1526,6 +1902,15 @@ export const STRINGS_FA = {
                     alphaDesc: 'ی تا الف'
                 }
             },
+            folderMetadataStorage: {
+                name: 'محل ذخیره فراداده پوشه',
+                desc: 'نمادها، رنگ‌ها، ترتیب‌های سفارشی و ظاهر پوشه‌ها را در خزانه هم ذخیره کنید تا با همگام‌سازی یا git همراه پوشه منتقل شوند. تغییرات در هر دو جهت همگام می‌شوند. برای انتقال فراداده موجود، «نوشتن فراداده پوشه در فایل‌ها» را اجرا کنید.',
+                options: {
+                    settings: 'فقط تنظیمات افزونه',
+                    folderNote: 'فرانت‌متر یادداشت پوشه',
+                    sidecar: 'فایل جانبی .folder.yml'
+                }
+            },
             showNoteCount: {
                 name: 'نمایش تعداد یادداشت',
                 desc: 'تعداد یادداشت‌ها را کنار هر پوشه و برچسب نمایش دهید.'
@@ -1641,6 +2026,11 @@ export const STRINGS_FA = {
                 name: 'نمایش پوشه ویژگی‌ها',
                 desc: 'نمایش "ویژگی‌ها" به عنوان پوشه جمع‌شدنی.'
             },
+            propertyHierarchies: {
+                name: 'سلسله‌مراتب ویژگی‌ها',
+                desc: 'یادداشت‌ها را در پوشه‌های مجازی تو در تو برای هر مقدار ویژگی قرار دهید، یک سطح برای هر کلید. هر سلسله‌مراتب در یک خط به صورت `Name: key > key > key`. کلیدها باید در کلیدهای ویژگی نیز فهرست شده باشند.',
+                placeholder: 'Research: type > status > project'
+            },
             hiddenTags: {
                 name: 'مخفی کردن برچسب‌ها (پروفایل خزانه)',
                 desc: 'لیست الگوهای برچسب جدا شده با کاما. الگوهای نام: tag* (شروع با)، *tag (پایان با). الگوهای مسیر: archive (برچسب و فرزندان)، archive/* (فقط فرزندان)، projects/*/drafts (wildcard میانی).',
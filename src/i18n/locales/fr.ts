@@ -46,7 +46,10 @@ export const STRINGS_FR = {
         pinnedSection: 'Épinglées', // Header for the pinned notes section at the top of file list (English: Pinned)
         notesSection: 'Notes', // Header shown between pinned and regular items when showing documents only (English: Notes)
         filesSection: 'Fichiers', // Header shown between pinned and regular items when showing supported or all files (English: Files)
-        hiddenItemAriaLabel: '{name} (masqué)' // Accessibility label applied to list items that are normally hidden
+        noPropertyValue: 'Sans valeur', // Header for notes without a value when grouping by property (English: No value)
+        hiddenItemAriaLabel: '{name} (masqué)', // Accessibility label applied to list items that are normally hidden
+        taskProgressAriaLabel: '{completed} tâches terminées sur {total}', // Accessibility label for the task progress bar in file items
+        taskDue: 'Échéance {date}' // Next due date shown next to the task progress bar (English: Due {date})
     },
 
     // Tag list
@@ -60,6 +63,7 @@ export const STRINGS_FR = {
         recentNotesHeader: 'Notes récentes',
         recentFilesHeader: 'Fichiers récents',
         properties: 'Propriétés',
+        smartFolders: 'Dossiers intelligents',
         reorderRootFoldersTitle: 'Réorganiser la navigation',
         reorderRootFoldersHint: 'Utilisez les flèches ou glissez pour réorganiser',
         vaultRootLabel: 'Coffre',
@@ -129,6 +133,7 @@ export const STRINGS_FR = {
         mobileBackToNavigation: 'Retour à la navigation', // Mobile-only back button text to return to navigation pane (English: Back to navigation)
         changeSortOrder: "Changer l'ordre de tri", // Tooltip for the sort order toggle button (English: Change sort order)
         defaultSort: 'Par défaut', // Label for default sorting mode (English: Default)
+        customSortChain: 'Chaîne de tri personnalisée...',
         showFolders: 'Afficher la navigation', // Tooltip for button to show the navigation pane (English: Show navigation)
         reorderRootFolders: 'Réorganiser la navigation',
         finishRootFolderReorder: 'Terminé',
@@ -170,6 +175,15 @@ export const STRINGS_FR = {
                         '`-word` Exclure les notes avec "word" dans le nom de fichier.'
                     ]
                 },
+                content: {
+                    title: 'Contenu des notes',
+                    items: [
+                        '`content:mot` Trouve les notes dont le texte contient un mot commençant par "mot".',
+                        '`content:"deux mots"` Exige que chaque mot apparaisse dans le texte de la note.',
+                        '`-content:mot` Exclut les notes dont le texte contient un mot commençant par "mot".',
+                        'Nécessite **Rechercher dans le contenu des notes** dans les paramètres du panneau de liste. Une fois activé, les mots simples correspondent aussi au texte.'
+                    ]
+                },
                 tags: {
                     title: 'Étiquettes',
                     items: [
@@ -193,6 +207,8 @@ export const STRINGS_FR = {
                         '`."Reading Status"="In Progress"` Les clés et valeurs contenant des espaces doivent être entre guillemets doubles.',
                         '`-.key` Exclure les notes avec une clé de propriété.',
                         '`-.key=value` Exclure les notes avec une valeur de propriété.',
+                        '`.key>=3`, `.key<2026-11-01` Comparer des propriétés numériques ou de date avec `>`, `>=`, `<`, `<=`.',
+                        '`.key:thisweek`, `.key:1..5`, `.key:2026-11-01..2026-11-30` Correspondre à une date relative, une date, un nombre ou une plage inclusive.',
                         'Cmd/Ctrl+Clic sur une propriété pour ajouter avec AND. Cmd/Ctrl+Shift+Clic pour ajouter avec OR.'
                     ]
                 },
@@ -201,6 +217,8 @@ export const STRINGS_FR = {
                     items: [
                         '`has:task` Inclure les notes avec des tâches inachevées.',
                         '`-has:task` Exclure les notes avec des tâches inachevées.',
+                        "`due:overdue`, `due:today`, `due:thisweek` Inclure les notes ayant une tâche ouverte dont l'échéance est dans la plage (dates `📅` de Tasks ou champs `[due:: ]` de Dataview).",
+                        '`due:2026-11-01..2026-11-30` Correspondre à une échéance ou une plage. `-due:...` exclut les notes ayant une tâche ouverte correspondante.',
                         '`folder:meetings` Inclure les notes dont un nom de dossier contient `meetings`.',
                         '`folder:/work/meetings` Inclure les notes uniquement dans `work/meetings` (pas les sous-dossiers).',
                         '`folder:/` Inclure les notes uniquement à la racine du coffre.',
@@ -212,13 +230,13 @@ export const STRINGS_FR = {
                     ]
                 },
                 connectors: {
-                    title: 'Comportement AND/OR',
+                    title: 'AND/OR/NOT et regroupement',
                     items: [
-                        '`AND` et `OR` sont des opérateurs uniquement dans les requêtes composées exclusivement de tags et propriétés.',
-                        'Les requêtes exclusives de tags et propriétés ne contiennent que des filtres de tags et propriétés : `#tag`, `-#tag`, `#`, `-#`, `.key`, `-.key`, `.key=value`, `-.key=value`.',
-                        "Si une requête inclut des noms, des dates (`@...`), des filtres de tâches (`has:task`), des filtres de dossiers (`folder:...`) ou des filtres d'extension (`ext:...`), `AND` et `OR` sont recherchés comme des mots.",
-                        'Exemple de requête avec opérateurs : `#work OR .status=started`.',
-                        'Exemple de requête mixte : `#work OR ext:md` (`OR` est recherché dans les noms de fichiers).'
+                        "`AND`, `OR` et `NOT` sont des opérateurs lorsqu'une requête contient un filtre (`#tag`, `.key`, `@date`, `has:task`, `due:`, `folder:`, `ext:`, `content:`) ou des parenthèses.",
+                        '`( )` regroupe des termes : `(folder:Projects OR folder:Areas) AND #active AND -ext:pdf`.',
+                        '`NOT terme` ou `-terme` exclut un terme. `-( )` exclut un groupe entier.',
+                        '`NOT` est prioritaire sur `AND`, et `AND` sur `OR`. Les termes adjacents utilisent un AND implicite.',
+                        'Les requêtes composées uniquement de mots et sans parenthèses recherchent `AND`, `OR` et `NOT` comme mots dans les noms de fichiers (ex. `noir or blanc`).'
                     ]
                 },
                 dates: {
@@ -280,6 +298,7 @@ export const STRINGS_FR = {
             addTag: 'Ajouter une étiquette',
             removeTag: 'Supprimer l’étiquette',
             removeAllTags: 'Supprimer toutes les étiquettes',
+            editProperties: 'Modifier les propriétés',
             changeIcon: "Changer l'icône",
             changeColor: 'Changer la couleur',
             // File-specific context menu items (non-markdown files)
@@ -299,6 +318,7 @@ export const STRINGS_FR = {
         folder: {
             newNote: 'Nouvelle note',
             newNoteFromTemplate: 'Nouvelle note depuis un modèle',
+            newNoteFileName: 'Nom de fichier des nouvelles notes...',
             newFolder: 'Nouveau dossier',
             newCanvas: 'Nouveau canevas',
             newBase: 'Nouvelle base de données',
@@ -323,14 +343,24 @@ export const STRINGS_FR = {
             changeIcon: "Changer l'icône",
             changeColor: 'Changer la couleur',
             changeBackground: 'Changer l’arrière-plan',
+            mergeTags: 'Fusionner des étiquettes...',
+            splitTag: "Scinder l'étiquette...",
             showTag: 'Afficher l’étiquette',
             hideTag: 'Masquer l’étiquette'
         },
         property: {
             addKey: 'Configurer les clés de propriété',
             renameKey: 'Renommer la propriété',
+            renameValue: 'Renommer la valeur',
+            mergeValue: 'Fusionner dans une valeur...',
             deleteKey: 'Supprimer la propriété'
         },
+        smartFolder: {
+            newSmartFolder: 'Nouveau dossier intelligent',
+            newNestedSmartFolder: 'Nouveau dossier intelligent imbriqué',
+            editSmartFolder: 'Modifier le dossier intelligent',
+            deleteSmartFolder: 'Supprimer le dossier intelligent'
+        },
         navigation: {
             addSeparator: 'Ajouter un séparateur',
             removeSeparator: 'Supprimer le séparateur'
@@ -356,11 +386,25 @@ export const STRINGS_FR = {
     folderAppearance: {
         standardPreset: 'Standard',
         compactPreset: 'Compact',
+        gridPreset: 'Grille',
+        boardPreset: 'Tableau...',
+        boardPresetOption: (property: string) => `Tableau (${property})`,
+        boardPropertyAction: 'Colonnes du tableau selon la propriété',
+        boardPropertyPlaceholder: 'Clé de propriété',
+        tileSize: 'Taille des vignettes',
+        tileSizeOptions: {
+            small: 'Petites vignettes',
+            medium: 'Vignettes moyennes',
+            large: 'Grandes vignettes'
+        },
         defaultSuffix: '(par défaut)',
         defaultLabel: 'Par défaut',
         titleRows: 'Lignes de titre',
         previewRows: "Lignes d'aperçu",
         groupBy: 'Grouper par',
+        groupByPropertyAction: 'Grouper par propriété...',
+        groupByPropertyPlaceholder: 'Clé de propriété',
+        groupByPropertyOption: (property: string) => `Grouper par propriété (${property})`,
         defaultTitleOption: (rows: number) => `Lignes de titre par défaut (${rows})`,
         defaultPreviewOption: (rows: number) => `Lignes d'aperçu par défaut (${rows})`,
         defaultGroupOption: (groupLabel: string) => `Regroupement par défaut (${groupLabel})`,
@@ -384,6 +428,90 @@ export const STRINGS_FR = {
         fileIconRuleEditor: {
             addRuleAria: 'Ajouter une règle'
         },
+        sortChain: {
+            title: 'Chaîne de tri personnalisée',
+            description:
+                'Les notes sont triées selon la première clé. Chaque clé suivante ordonne les notes égales sur les clés précédentes.',
+            propertyPlaceholder: 'Clé de propriété',
+            ascending: 'Croissant',
+            descending: 'Décroissant',
+            addKey: 'Ajouter une clé de tri',
+            moveUp: 'Monter',
+            moveDown: 'Descendre',
+            save: 'Enregistrer',
+            fields: {
+                modified: 'Date de modification',
+                created: 'Date de création',
+                title: 'Titre',
+                filename: 'Nom de fichier',
+                property: 'Propriété',
+                wordcount: 'Nombre de mots',
+                tasks: 'Tâches ouvertes',
+                size: 'Taille du fichier'
+            }
+        },
+        noteTemplateRules: {
+            title: 'Règles de modèles de notes',
+            description:
+                'Les notes créées depuis un dossier, une étiquette ou une propriété utilisent le modèle et le nom de fichier de la première règle correspondante. Les noms de fichiers prennent en charge {{date}}, {{date:FORMAT}}, {{time}} et {{title}}.',
+            folderPatternPlaceholder: 'Chemin du dossier, ex. Meetings ou Projects/*/Notes',
+            tagPatternPlaceholder: 'Étiquette, ex. meeting',
+            propertyPatternPlaceholder: 'Propriété, ex. type ou type=meeting',
+            templatePlaceholder: 'Fichier modèle',
+            fileNamePlaceholder: 'Modèle de nom, ex. {{date}} Meeting',
+            emptyState: 'Aucune règle. Les nouvelles notes sont créées vides.',
+            addRule: 'Ajouter une règle',
+            moveUp: 'Monter',
+            moveDown: 'Descendre',
+            save: 'Enregistrer',
+            targets: {
+                folder: 'Dossier',
+                tag: 'Étiquette',
+                property: 'Propriété'
+            }
+        },
+        fileStyleRules: {
+            title: 'Règles de style des fichiers',
+            description:
+                "Les fichiers correspondant à la requête d'une règle reçoivent son icône et sa couleur. Les requêtes utilisent la syntaxe du filtre de recherche. Les règles sont vérifiées de haut en bas : la première règle correspondante avec une icône définit l'icône et la première avec une couleur définit la couleur. Les icônes et couleurs définies sur un fichier sont prioritaires.",
+            queryPlaceholder: 'Requête de filtre, p. ex. .status=done, #meeting ou folder:archive',
+            emptyState: 'Aucune règle.',
+            setIcon: "Définir l'icône",
+            setColor: 'Définir la couleur',
+            addRule: 'Ajouter une règle',
+            moveUp: 'Monter',
+            moveDown: 'Descendre',
+            save: 'Enregistrer'
+        },
+        configBundleImport: {
+            title: 'Importer un paquet de configuration',
+            description:
+                'Choisissez un fichier JSON de paquet dans le coffre, puis les sections à importer. Les valeurs importées sont validées comme des paramètres normaux.',
+            filePlaceholder: 'Chemin du paquet, p. ex. notebook-navigator-config.json',
+            sectionsLabel: 'Sections à importer',
+            strategyLabel: 'Paramètres existants',
+            strategies: {
+                merge: "Fusionner, les entrées du paquet l'emportent",
+                replace: 'Remplacer les sections sélectionnées'
+            },
+            bundleInfo: 'Exporté le {date} depuis Notebook Navigator {version}',
+            importButton: 'Importer',
+            sections: {
+                vaultProfiles: 'Profils de coffre et raccourcis',
+                styling: 'Icônes et couleurs des dossiers, étiquettes et propriétés',
+                appearances: 'Apparence des dossiers et étiquettes',
+                sortOverrides: 'Tris personnalisés',
+                iconMaps: "Correspondances d'icônes et icônes d'interface",
+                keyboardShortcuts: 'Raccourcis clavier'
+            },
+            errors: {
+                invalidJson: "Le fichier n'est pas un JSON valide.",
+                invalidFormat: "Le fichier n'est pas un paquet de configuration Notebook Navigator.",
+                unsupportedVersion: 'Ce paquet a été créé par une version plus récente de Notebook Navigator.',
+                empty: 'Le paquet ne contient aucune section importable.',
+                readFailed: 'Impossible de lire le fichier.'
+            }
+        },
         interfaceIcons: {
             title: "Icônes de l'interface",
             fileItemsSection: 'Éléments de fichier',
@@ -414,6 +542,8 @@ export const STRINGS_FR = {
                 'nav-properties': 'Propriétés',
                 'nav-property': 'Propriété',
                 'nav-property-value': 'Valeur',
+                'nav-smart-folders': 'Dossiers intelligents',
+                'nav-smart-folder': 'Dossier intelligent',
                 'list-pinned': 'Éléments épinglés',
                 'file-unfinished-task': 'Tâches inachevées',
                 'file-word-count': 'Nombre de mots'
@@ -494,6 +624,112 @@ export const STRINGS_FR = {
             deleteSettingsUpdateFailed: 'Propriété {property} supprimée. Échec de la mise à jour des paramètres.',
             invalidKeyName: 'Saisissez un nom de propriété valide.'
         },
+        propertyValueEdit: {
+            title: 'Modifier les propriétés',
+            description: 'Modifier une propriété dans {count} {files}.',
+            keyLabel: 'Propriété',
+            keyPlaceholder: 'Nom de la propriété',
+            modeLabel: 'Action',
+            modes: {
+                set: 'Définir la valeur',
+                append: 'Ajouter à la liste',
+                remove: 'Supprimer la propriété'
+            },
+            valueLabel: 'Valeur',
+            valuePlaceholder: 'Valeur',
+            emptyValue: '(vide)',
+            previewTitle: 'Aperçu',
+            changeSummary: '{count} notes sur {total} seront modifiées',
+            noChanges: 'Aucune note ne nécessite de modification.',
+            apply: 'Appliquer',
+            successSingle: 'Propriété {property} mise à jour dans 1 note',
+            successMultiple: 'Propriété {property} mise à jour dans {count} notes',
+            partialFailure: "Propriété {property} mise à jour dans {count} notes. {failed} notes n'ont pas pu être mises à jour."
+        },
+        propertyValueRename: {
+            renameTitle: 'Renommer la valeur {value}',
+            renameWarning:
+                'Renommer {property} : {value} modifiera {count} {files}. Saisir une valeur existante fusionne les deux valeurs.',
+            newValuePrompt: 'Nouvelle valeur',
+            newValuePlaceholder: 'Saisir la nouvelle valeur',
+            confirmRename: 'Renommer la valeur',
+            mergeTitle: 'Fusionner la valeur {value}',
+            mergeWarning:
+                'Fusionner {oldValue} dans {newValue} modifiera {count} {files}. {newValue} conserve ses propres icône, couleur et raccourcis.',
+            mergePlaceholder: 'Fusionner {value} dans...',
+            mergeInstruction: 'pour fusionner',
+            confirmMerge: 'Fusionner les valeurs',
+            noOtherValues: "La propriété {property} n'a pas d'autres valeurs",
+            nestedTarget: "Une valeur ne peut pas être renommée en l'une de ses valeurs imbriquées.",
+            invalidValue: 'Saisissez une valeur valide.',
+            noChanges: '{oldValue} → {newValue} (aucun changement)',
+            successSingle: '{oldValue} → {newValue} renommé dans 1 note',
+            successMultiple: '{oldValue} → {newValue} renommé dans {count} notes',
+            partialFailure: "{oldValue} → {newValue} renommé dans {count} notes. {failed} notes n'ont pas pu être mises à jour."
+        },
+        tagOperationSummary: {
+            close: 'Fermer',
+            updatedNotes: 'Notes mises à jour',
+            skippedNotes: 'Notes ignorées',
+            skippedDescription: "Ces notes ont changé après l'aperçu ou n'avaient rien à mettre à jour.",
+            failedNotes: 'Notes en échec',
+            reportSummary: '{changed} notes sur {total} mises à jour.'
+        },
+        tagMerge: {
+            title: 'Fusionner des étiquettes',
+            description: 'Fusionnez plusieurs étiquettes en une seule. Les étiquettes imbriquées suivent leur étiquette parente.',
+            sourcesLabel: 'Étiquettes à fusionner',
+            sourcesPlaceholder: 'Étiquettes séparées par des virgules',
+            targetLabel: 'Fusionner dans',
+            targetPlaceholder: 'Étiquette cible',
+            preview: 'Aperçu de la fusion',
+            nothingToMerge:
+                "Aucune étiquette à fusionner. Vérifiez que les étiquettes sont utilisées dans des notes et diffèrent de l'étiquette cible.",
+            previewTitle: 'Fusionner dans {tag}',
+            previewDescription: 'Fusionner {tags} dans {tag} modifiera {count} notes.',
+            confirm: 'Fusionner les étiquettes',
+            affectedNotes: 'Notes concernées',
+            skippedTags: 'Étiquettes ignorées',
+            skipReasons: {
+                sameAsTarget: "identique à l'étiquette cible",
+                containsTarget: "l'étiquette cible est imbriquée sous cette étiquette",
+                nestedInSource: 'fusionnée avec son étiquette parente',
+                noNotes: 'utilisée dans aucune note'
+            },
+            alreadyTagged: 'Notes ayant déjà {tag}',
+            alreadyTaggedDescription: "Ces notes contiendront l'étiquette cible plusieurs fois.",
+            multipleSources: 'Notes avec plusieurs étiquettes fusionnées',
+            multipleSourcesDescription: "Chacune de ces notes contiendra l'étiquette cible plusieurs fois.",
+            nestedCollisions: "Collisions d'étiquettes imbriquées",
+            nestedCollisionsDescription: 'Ces étiquettes imbriquées fusionnent avec des étiquettes imbriquées existantes.',
+            notFinalized: 'Métadonnées non déplacées',
+            notFinalizedDescription:
+                "Certaines notes avec ces étiquettes n'ont pas été mises à jour ; leurs icônes, couleurs et raccourcis ont donc été conservés.",
+            reportTitle: 'Fusionné dans {tag}'
+        },
+        tagSplit: {
+            title: "Scinder l'étiquette {tag}",
+            description:
+                "{count} {files} avec exactement {tag}. Chaque note passe à l'étiquette enfant de la première règle correspondante. Les notes sans règle correspondante gardent {tag}.",
+            childPlaceholder: 'Étiquette enfant',
+            kinds: {
+                folder: 'Dossier',
+                query: 'Requête de filtre'
+            },
+            folderPlaceholder: 'Chemin du dossier (sous-dossiers inclus)',
+            queryPlaceholder: 'Requête de filtre de recherche',
+            addRule: 'Ajouter une règle',
+            preview: 'Aperçu de la scission',
+            nothingMatched: 'Aucune note ne correspond aux règles.',
+            previewTitle: 'Scinder {tag}',
+            previewDescription: '{count} notes sur {total} avec {tag} passeront à une étiquette enfant.',
+            confirm: "Scinder l'étiquette",
+            invalidRules: 'Règles impossibles à évaluer',
+            invalidRulesDescription: 'Les requêtes de filtre nécessitent des critères de recherche et un cache de notes prêt.',
+            unmatched: 'Notes sans règle correspondante',
+            unmatchedDescription: 'Ces notes gardent {tag}.',
+            reportTitle: '{tag} scindée'
+        },
         fileSystem: {
             newFolderTitle: 'Nouveau dossier',
             renameFolderTitle: 'Renommer le dossier',
@@ -503,6 +739,10 @@ export const STRINGS_FR = {
             deleteFileAttachmentsTitle: 'Supprimer les pièces jointes ?',
             moveFileConflictTitle: 'Conflit de déplacement',
             folderNamePrompt: 'Entrez le nom du dossier :',
+            newNoteTitle: 'Nouvelle note',
+            noteTitlePrompt: 'Saisissez le titre de la note :',
+            createNoteButton: 'Créer',
+            newNoteFileNamePrompt: 'Modèle de nom, ex. {{date:YYYYMMDDHHmm}} {{title}}. Laisser vide pour utiliser la valeur par défaut.',
             hideInOtherVaultProfiles: 'Masquer dans les autres profils du coffre',
             renamePrompt: 'Entrez le nouveau nom :',
             renameVaultTitle: "Changer le nom d'affichage du coffre",
@@ -597,6 +837,23 @@ export const STRINGS_FR = {
             applyButton: 'Appliquer',
             emptyState: 'Aucune clé de propriété trouvée.'
         },
+        smartFolder: {
+            newTitle: 'Nouveau dossier intelligent',
+            newNestedTitle: 'Nouveau dossier intelligent dans {name}',
+            editTitle: 'Modifier le dossier intelligent',
+            nameLabel: 'Nom',
+            namePlaceholder: 'Nom du dossier intelligent',
+            queryLabel: 'Requête de filtre',
+            queryPlaceholder: '#project AND -#archived',
+            queryDescription:
+                'Utilise la syntaxe de recherche par filtre. Les dossiers intelligents imbriqués ne listent que les notes qui correspondent aussi aux requêtes de leurs parents.',
+            create: 'Créer',
+            save: 'Enregistrer',
+            emptyName: 'Le nom du dossier intelligent ne peut pas être vide',
+            duplicateName: 'Un dossier intelligent portant ce nom existe déjà ici',
+            deleteTitle: 'Supprimer le dossier intelligent "{name}" ?',
+            deleteMessage: 'Les dossiers intelligents imbriqués sont également supprimés. Les notes ne sont pas modifiées.'
+        },
         welcome: {
             title: 'Bienvenue dans {pluginName}',
             introText:
@@ -680,6 +937,10 @@ export const STRINGS_FR = {
             iconPackUpdated: '{provider} mis à jour ({version})',
             iconPackRemoved: '{provider} supprimé',
             iconPackLoadFailed: 'Échec du chargement de {provider}',
+            folderMetadataWritten: 'Métadonnées écrites pour {count} dossiers',
+            folderMetadataLoaded: 'Métadonnées chargées pour {count} dossiers',
+            folderMetadataStorageDisabled:
+                "Choisissez d'abord le stockage dans la note de dossier ou un fichier annexe dans les paramètres Dossiers",
             hiddenFileReveal: "Le fichier est masqué. Activer « Afficher les éléments masqués » pour l'afficher"
         },
         confirmations: {
@@ -709,7 +970,62 @@ export const STRINGS_FR = {
             filesAlreadyHaveProperty: '{count} fichiers possèdent déjà cette propriété',
             noTagsToClear: 'Aucune étiquette à supprimer',
             fileImported: '1 fichier importé',
-            filesImported: '{count} fichiers importés'
+            filesImported: '{count} fichiers importés',
+            filesMoved: '{count} fichiers déplacés vers {folder}'
+        }
+    },
+
+    // Undo history
+    undoHistory: {
+        undo: 'Annuler',
+        undone: 'Annulé : {action}',
+        redone: 'Rétabli : {action}',
+        nothingToUndo: 'Rien à annuler',
+        nothingToRedo: 'Rien à rétablir',
+        failed: "Impossible d'annuler « {action} » : {error}",
+        partial: "{count} éléments n'ont pas pu être restaurés",
+        actions: {
+            moveFile: 'Déplacer « {name} »',
+            moveFiles: 'Déplacer {count} fichiers',
+            moveFolder: 'Déplacer le dossier « {name} »',
+            renameFile: 'Renommer « {name} »',
+            renameFolder: 'Renommer le dossier « {name} »',
+            addTag: 'Ajouter le tag #{tag}',
+            removeTag: 'Retirer le tag #{tag}',
+            renameProperty: 'Renommer la propriété {oldKey} → {newKey}',
+            editProperty: 'Modifier la propriété {property}',
+            renamePropertyValue: 'Renommer la valeur de {property} {oldValue} → {newValue}',
+            changeAppearance: "Modifier l'apparence de « {name} »"
+        }
+    },
+
+    // Vault statistics dashboard
+    statisticsDashboard: {
+        refresh: 'Actualiser',
+        loading: 'En attente du cache des notes...',
+        unavailable: 'Impossible de calculer les statistiques.',
+        empty: 'Aucune donnée',
+        weekLabel: 'Semaine du {date}',
+        createdCount: '{count} créées',
+        modifiedCount: '{count} modifiées',
+        summary: {
+            notes: 'Notes',
+            words: 'Mots',
+            openTasks: 'Tâches ouvertes',
+            untagged: 'Notes sans étiquette',
+            orphaned: 'Notes orphelines',
+            orphanedDescription: 'Notes vers lesquelles aucune autre note ne pointe'
+        },
+        sections: {
+            activity: 'Notes créées et modifiées par semaine',
+            wordsPerFolder: 'Mots par dossier',
+            openTasksPerFolder: 'Tâches ouvertes par dossier',
+            topTags: 'Étiquettes principales',
+            topProperties: 'Propriétés principales'
+        },
+        legend: {
+            created: 'Créées',
+            modified: 'Modifiées'
         }
     },
 
@@ -734,8 +1050,10 @@ export const STRINGS_FR = {
         revealFile: 'Révéler le fichier', // Command palette: Reveals and selects the currently active file in the navigator (English: Reveal file)
         search: 'Rechercher', // Command palette: Toggle search in the file list (English: Search)
         searchVaultRoot: 'Rechercher dans la racine du coffre', // Command palette: Selects the vault root folder and focuses search (English: Search in vault root)
+        createSmartFolder: 'Créer un dossier intelligent depuis la recherche',
         toggleDualPane: 'Basculer la disposition à double panneau', // Command palette: Toggles between single-pane and dual-pane layout (English: Toggle dual pane layout)
         toggleCalendar: 'Afficher/masquer le calendrier', // Command palette: Toggles showing the calendar overlay in the navigation pane (English: Toggle calendar)
+        openStatistics: 'Ouvrir les statistiques du coffre', // Command palette: Opens the vault statistics dashboard (English: Open vault statistics)
         selectVaultProfile: 'Changer le profil du coffre', // Command palette: Opens a modal to choose a different vault profile (English: Switch vault profile)
         selectVaultProfile1: 'Changer vers le profil du coffre 1', // Command palette: Activates the first vault profile without opening the modal (English: Select vault profile 1)
         selectVaultProfile2: 'Changer vers le profil du coffre 2', // Command palette: Activates the second vault profile without opening the modal (English: Select vault profile 2)
@@ -744,12 +1062,18 @@ export const STRINGS_FR = {
         createNewNote: 'Créer une nouvelle note', // Command palette: Creates a new note in the currently selected folder (English: Create new note)
         createNewNoteFromTemplate: 'Nouvelle note depuis un modèle', // Command palette: Creates a new note from a template in the currently selected folder (English: Create new note from template)
         moveFiles: 'Déplacer les fichiers', // Command palette: Move selected files to another folder (English: Move files)
+        undo: "Annuler l'opération sur les fichiers", // Command palette: Reverse the most recent file operation (English: Undo file operation)
+        redo: "Rétablir l'opération sur les fichiers", // Command palette: Reapply the most recently undone file operation (English: Redo file operation)
         selectNextFile: 'Sélectionner le fichier suivant', // Command palette: Selects the next file in the current view (English: Select next file)
         selectPreviousFile: 'Sélectionner le fichier précédent', // Command palette: Selects the previous file in the current view (English: Select previous file)
         convertToFolderNote: 'Convertir en note de dossier', // Command palette: Converts the active file into a folder note with a new folder (English: Convert to folder note)
         setAsFolderNote: 'Définir comme note de dossier', // Command palette: Renames the active file to its folder note name (English: Set as folder note)
         detachFolderNote: 'Détacher la note de dossier', // Command palette: Renames the active folder note to a new name (English: Detach folder note)
         pinAllFolderNotes: 'Épingler toutes les notes de dossier', // Command palette: Pins all folder notes to shortcuts (English: Pin all folder notes)
+        writeFolderMetadataFiles: 'Écrire les métadonnées des dossiers dans des fichiers', // Command palette: Writes folder icons, colors, sort overrides and appearances to folder notes or sidecars (English: Write folder metadata to files)
+        reloadFolderMetadataFiles: 'Recharger les métadonnées des dossiers depuis les fichiers', // Command palette: Reads folder metadata from folder notes or sidecars into settings (English: Reload folder metadata from files)
+        exportConfiguration: 'Exporter un paquet de configuration', // Command palette: Writes a configuration bundle JSON file to the vault root (English: Export configuration bundle)
+        importConfiguration: 'Importer un paquet de configuration', // Command palette: Opens a dialog to import sections of a configuration bundle (English: Import configuration bundle)
         navigateToFolder: 'Naviguer vers le dossier', // Command palette: Navigate to a folder using fuzzy search (English: Navigate to folder)
         navigateToTag: "Naviguer vers l'étiquette", // Command palette: Navigate to a tag using fuzzy search (English: Navigate to tag)
         navigateToProperty: 'Naviguer vers la propriété', // Command palette: Navigate to a property key or value using fuzzy search (English: Navigate to property)
@@ -763,6 +1087,8 @@ export const STRINGS_FR = {
         addTag: 'Ajouter une étiquette aux fichiers sélectionnés', // Command palette: Opens a dialog to add a tag to selected files (English: Add tag to selected files)
         removeTag: 'Supprimer une étiquette des fichiers sélectionnés', // Command palette: Opens a dialog to remove a tag from selected files (English: Remove tag from selected files)
         removeAllTags: 'Supprimer toutes les étiquettes des fichiers sélectionnés', // Command palette: Removes all tags from selected files (English: Remove all tags from selected files)
+        mergeTags: 'Fusionner des étiquettes', // Command palette: Opens a dialog to merge several tags into one tag (English: Merge tags)
+        editProperties: 'Modifier les propriétés des fichiers sélectionnés', // Command palette: Opens a dialog to set, append to, or remove a property on selected files (English: Edit properties of selected files)
         openAllFiles: 'Ouvrir tous les fichiers', // Command palette: Opens all files in the current folder or tag (English: Open all files)
         rebuildCache: 'Reconstruire le cache' // Command palette: Rebuilds the local Notebook Navigator cache (English: Rebuild cache)
     },
@@ -771,6 +1097,7 @@ export const STRINGS_FR = {
     plugin: {
         viewName: 'Navigateur de Carnets', // Name shown in the view header/tab (English: Notebook Navigator)
         calendarViewName: 'Calendrier', // Name shown in the view header/tab (English: Calendar)
+        statisticsViewName: 'Statistiques du coffre', // Name shown in the statistics view header/tab (English: Vault statistics)
         ribbonTooltip: 'Navigateur de Carnets', // Tooltip for the ribbon icon in the left sidebar (English: Notebook Navigator)
         revealInNavigator: 'Révéler dans le Navigateur de Carnets' // Context menu item to reveal a file in the navigator (English: Reveal in Notebook Navigator)
     },
@@ -869,7 +1196,13 @@ export const STRINGS_FR = {
                     'filename-asc': 'Nom de fichier (A en haut)',
                     'filename-desc': 'Nom de fichier (Z en haut)',
                     'property-asc': 'Propriété (A en haut)',
-                    'property-desc': 'Propriété (Z en haut)'
+                    'property-desc': 'Propriété (Z en haut)',
+                    'wordcount-desc': 'Nombre de mots (plus en haut)',
+                    'wordcount-asc': 'Nombre de mots (moins en haut)',
+                    'tasks-desc': 'Tâches ouvertes (plus en haut)',
+                    'tasks-asc': 'Tâches ouvertes (moins en haut)',
+                    'size-desc': 'Taille du fichier (plus grand en haut)',
+                    'size-asc': 'Taille du fichier (plus petit en haut)'
                 },
                 propertyOverride: {
                     asc: 'Propriété ‘{property}’ (A en haut)',
@@ -895,6 +1228,10 @@ export const STRINGS_FR = {
                 name: 'Défiler vers le fichier sélectionné lors des changements de liste',
                 desc: "Défiler vers le fichier sélectionné lors de l'épinglage de notes, l'affichage de notes descendantes, le changement d'apparence de dossier ou l'exécution d'opérations sur les fichiers."
             },
+            searchNoteContent: {
+                name: 'Rechercher dans le contenu des notes',
+                desc: 'Construit un index plein texte local du corps des notes pour la recherche par filtre. Active les filtres `content:` et permet aux mots simples de correspondre au texte en plus des noms de fichiers. Ne nécessite pas Omnisearch.'
+            },
             includeDescendantNotes: {
                 name: 'Afficher les notes des sous-dossiers / descendants',
                 desc: "Inclure les notes des sous-dossiers imbriqués et des descendants d'étiquettes lors de l'affichage d'un dossier ou d'une étiquette."
@@ -909,11 +1246,13 @@ export const STRINGS_FR = {
             },
             groupNotes: {
                 name: 'Grouper les notes',
-                desc: 'Affiche des en-têtes entre les notes groupées par date ou par dossier. Les vues de tags utilisent des groupes de dates lorsque le regroupement par dossier est activé.',
+                desc: 'Affiche des en-têtes entre les notes groupées par date, dossier, tag, première lettre ou valeur de propriété. Les vues de tags utilisent des groupes de dates lorsque le regroupement par dossier est activé.',
                 options: {
                     none: 'Ne pas grouper',
                     date: 'Grouper par date',
-                    folder: 'Grouper par dossier'
+                    folder: 'Grouper par dossier',
+                    tag: 'Grouper par tag',
+                    alphabetical: 'Grouper par ordre alphabétique'
                 }
             },
             showPinnedGroupHeader: {
@@ -960,6 +1299,11 @@ export const STRINGS_FR = {
                 placeholder: '# Extension=icon\ncpp=LiFileCode\npdf=RaBook',
                 editTooltip: 'Modifier les correspondances'
             },
+            fileStyleRules: {
+                name: 'Règles de style des fichiers',
+                desc: 'Attribuer une icône et une couleur aux fichiers correspondant à une requête de filtre, p. ex. une coche pour .status=done ou du gris pour folder:archive. Les règles sont enregistrées dans le profil du coffre.',
+                buttonText: 'Modifier les règles'
+            },
             optimizeNoteHeight: {
                 name: 'Hauteur de note variable',
                 desc: "Utiliser une hauteur compacte pour les notes épinglées et les notes sans texte d'aperçu."
@@ -1040,6 +1384,15 @@ export const STRINGS_FR = {
                 name: 'Ouvrir les nouvelles notes dans un nouvel onglet',
                 desc: "Lorsque activé, la commande Créer une nouvelle note ouvre les notes dans un nouvel onglet. Lorsque désactivé, les notes remplacent l'onglet actuel."
             },
+            newNoteFileNamePattern: {
+                name: 'Nom de fichier des nouvelles notes',
+                desc: 'Modèle de nom de fichier pour les nouvelles notes. Prend en charge {{date}}, {{date:FORMAT}}, {{time}} et {{title}}. Les dossiers peuvent le remplacer depuis leur menu. Laisser vide pour « Sans titre ».',
+                placeholder: '{{date:YYYY-MM-DD}} {{title}}'
+            },
+            promptForNewNoteTitle: {
+                name: 'Demander un titre à la création',
+                desc: 'Demande un titre avant de créer une note. Le titre remplit {{title}} dans le modèle de nom, ou devient le nom du fichier sans modèle.'
+            },
             autoRevealActiveNote: {
                 name: 'Révéler automatiquement la note active',
                 desc: "Révéler automatiquement les notes lorsqu'elles sont ouvertes depuis le Commutateur rapide, les liens ou la recherche."
@@ -1216,6 +1569,11 @@ export const STRINGS_FR = {
                 desc: 'Le sélecteur de fichiers de modèles affiche les notes de ce dossier.',
                 placeholder: 'Templates'
             },
+            noteTemplateRules: {
+                name: 'Règles de modèles de notes',
+                desc: 'Appliquer un modèle et un modèle de nom aux notes créées depuis un dossier, une étiquette ou une propriété.',
+                buttonText: 'Modifier les règles'
+            },
             calendarCustomFilePattern: {
                 name: 'Notes quotidiennes',
                 desc: "Formater le chemin en utilisant le format de date Moment. Entourez les noms de sous-dossiers de crochets, par ex. [Work]/YYYY. Cliquez sur l'icône de modèle pour définir un modèle. Définir l'emplacement du dossier de modèles dans Général > Modèles.",
@@ -1272,6 +1630,16 @@ export const STRINGS_FR = {
                 notice: 'Tous les paramètres réinitialisés. Redémarrez Obsidian ou rouvrez Notebook Navigator pour appliquer.',
                 error: 'Échec de la réinitialisation des paramètres.'
             },
+            configBundle: {
+                name: 'Paquet de configuration',
+                desc: "Exporter les profils de coffre, raccourcis, styles, apparences, tris personnalisés, correspondances d'icônes et raccourcis clavier dans un fichier JSON à la racine du coffre, ou importer un paquet pour configurer un autre coffre.",
+                exportButton: 'Exporter',
+                importButton: 'Importer',
+                exportSuccess: 'Configuration exportée vers {filename}',
+                exportFailed: "Échec de l'export de la configuration.",
+                importSuccess: 'Configuration importée.',
+                importFailed: "Échec de l'import de la configuration."
+            },
             multiSelectModifier: {
                 name: 'Modificateur de sélection multiple',
                 desc: 'Choisissez quelle touche modificatrice active la sélection multiple. Quand Option/Alt est sélectionné, Cmd/Ctrl clic ouvre les notes dans un nouvel onglet.',
@@ -1296,6 +1664,14 @@ export const STRINGS_FR = {
                 name: 'Ctrl+Entrée',
                 desc: 'Ouvrir le fichier sélectionné dans un nouvel onglet, une division ou une fenêtre avec Ctrl+Entrée.'
             },
+            vimKeyboardNavigation: {
+                name: 'Séquences de touches style Vim',
+                desc: 'gg et G vont au premier et au dernier élément, dd supprime, zc et zo replient et déplient, / ouvre la recherche. Les raccourcis personnalisés sont prioritaires.'
+            },
+            typeAheadFind: {
+                name: 'Recherche à la frappe',
+                desc: 'Taper des lettres sélectionne le premier dossier, tag ou note dont le nom commence par le texte saisi. Indisponible lorsque les séquences style Vim sont actives.'
+            },
             excludedNotes: {
                 name: 'Masquer les notes avec des règles de propriétés (profil du coffre)',
                 desc: 'Liste de règles de métadonnées séparées par des virgules. Utilisez des entrées `key` ou `key=value` (ex. : status=done, published=true, archived).',
@@ -1420,6 +1796,10 @@ export const STRINGS_FR = {
                     none: 'Aucun'
                 }
             },
+            showTaskProgress: {
+                name: 'Progression des tâches',
+                desc: 'Afficher une barre de progression et la prochaine échéance pour les notes contenant des tâches.'
+            },
             propertyFields: {
                 name: 'Clés de propriétés (profil de coffre)',
                 desc: 'Clés de propriétés de métadonnées, avec visibilité par clé pour la navigation et la liste de fichiers.',
@@ -1532,6 +1912,15 @@ export const STRINGS_FR = {
                     alphaDesc: 'Z à A'
                 }
             },
+            folderMetadataStorage: {
+                name: 'Stockage des métadonnées de dossier',
+                desc: "Enregistrer aussi les icônes, couleurs, tris personnalisés et apparences des dossiers dans le coffre pour qu'ils suivent le dossier via la synchronisation ou git. Les modifications sont synchronisées dans les deux sens. Exécutez « Écrire les métadonnées des dossiers dans des fichiers » pour migrer les métadonnées existantes.",
+                options: {
+                    settings: 'Paramètres du plugin uniquement',
+                    folderNote: 'Frontmatter de la note de dossier',
+                    sidecar: 'Fichier annexe .folder.yml'
+                }
+            },
             showNoteCount: {
                 name: 'Afficher le nombre de notes',
                 desc: 'Afficher le nombre de notes à côté de chaque dossier et étiquette.'
@@ -1647,6 +2036,11 @@ export const STRINGS_FR = {
                 name: 'Afficher le dossier des propriétés',
                 desc: 'Afficher "Propriétés" comme un dossier repliable.'
             },
+            propertyHierarchies: {
+                name: 'Hiérarchies de propriétés',
+                desc: 'Imbriquer les notes dans des dossiers virtuels par valeur de propriété, un niveau par clé. Une hiérarchie par ligne sous la forme `Name: key > key > key`. Les clés doivent aussi figurer dans les clés de propriétés.',
+                placeholder: 'Research: type > status > project'
+            },
             hiddenTags: {
                 name: 'Masquer les étiquettes (profil du coffre)',
                 desc: "Liste séparée par des virgules de motifs d'étiquettes. Motifs de nom : tag* (commence par), *tag (termine par). Motifs de chemin : archive (étiquette et descendants), archive/* (descendants uniquement), projets/*/brouillons (joker intermédiaire).",
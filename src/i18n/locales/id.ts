@@ -46,7 +46,10 @@ export const STRINGS_ID = {
         pinnedSection: 'Disematkan',
         notesSection: 'Catatan',
         filesSection: 'File',
-        hiddenItemAriaLabel: '{name} (tersembunyi)'
+        noPropertyValue: 'Tanpa nilai',
+        hiddenItemAriaLabel: '{name} (tersembunyi)',
+        taskProgressAriaLabel: '{completed} dari {total} tugas selesai',
+        taskDue: 'Jatuh tempo {date}'
     },
 
     // Tag list
@@ -61,6 +64,7 @@ export const STRINGS_ID = {
         recentNotesHeader: 'Catatan terbaru',
         recentFilesHeader: 'File terbaru',
         properties: 'Properti',
+        smartFolders: 'Folder pintar',
         reorderRootFoldersTitle: 'Atur ulang navigasi',
         reorderRootFoldersHint: 'Gunakan panah atau seret untuk mengatur ulang',
         vaultRootLabel: 'Vault',
@@ -130,6 +134,7 @@ export const STRINGS_ID = {
         mobileBackToNavigation: 'Kembali ke navigasi',
         changeSortOrder: 'Ubah urutan',
         defaultSort: 'Default',
+        customSortChain: 'Rantai pengurutan kustom...',
         showFolders: 'Tampilkan navigasi',
         reorderRootFolders: 'Atur ulang navigasi',
         finishRootFolderReorder: 'Selesai',
@@ -171,6 +176,15 @@ export const STRINGS_ID = {
                         '`-word` Kecualikan catatan dengan "word" di nama file.'
                     ]
                 },
+                content: {
+                    title: 'Isi catatan',
+                    items: [
+                        '`content:kata` Cocokkan catatan yang teksnya berisi kata yang diawali "kata".',
+                        '`content:"dua kata"` Setiap kata harus muncul di teks catatan.',
+                        '`-content:kata` Kecualikan catatan yang teksnya berisi kata yang diawali "kata".',
+                        'Memerlukan **Cari isi catatan** di pengaturan panel daftar. Jika diaktifkan, kata biasa juga mencocokkan teks catatan.'
+                    ]
+                },
                 tags: {
                     title: 'Tag',
                     items: [
@@ -194,6 +208,8 @@ export const STRINGS_ID = {
                         '`."Reading Status"="In Progress"` Kunci dan nilai yang mengandung spasi harus diapit tanda kutip ganda.',
                         '`-.key` Kecualikan catatan dengan kunci properti.',
                         '`-.key=value` Kecualikan catatan dengan nilai properti.',
+                        '`.key>=3`, `.key<2026-11-01` Bandingkan properti angka atau tanggal dengan `>`, `>=`, `<`, `<=`.',
+                        '`.key:thisweek`, `.key:1..5`, `.key:2026-11-01..2026-11-30` Cocokkan tanggal relatif, tanggal, angka, atau rentang inklusif.',
                         'Cmd/Ctrl+Klik properti untuk menambahkan dengan AND. Cmd/Ctrl+Shift+Klik untuk menambahkan dengan OR.'
                     ]
                 },
@@ -202,6 +218,8 @@ export const STRINGS_ID = {
                     items: [
                         '`has:task` Sertakan catatan dengan tugas yang belum selesai.',
                         '`-has:task` Kecualikan catatan dengan tugas yang belum selesai.',
+                        '`due:overdue`, `due:today`, `due:thisweek` Sertakan catatan dengan tugas terbuka yang jatuh tempo dalam rentang (tanggal `📅` Tasks atau kolom `[due:: ]` Dataview).',
+                        '`due:2026-11-01..2026-11-30` Cocokkan tanggal jatuh tempo atau rentang. `-due:...` mengecualikan catatan dengan tugas terbuka yang cocok.',
                         '`folder:meetings` Sertakan catatan di mana nama folder mengandung `meetings`.',
                         '`folder:/work/meetings` Sertakan catatan hanya di `work/meetings` (tidak termasuk subfolder).',
                         '`folder:/` Sertakan catatan hanya di root vault.',
@@ -213,13 +231,13 @@ export const STRINGS_ID = {
                     ]
                 },
                 connectors: {
-                    title: 'Perilaku AND/OR',
+                    title: 'AND/OR/NOT dan pengelompokan',
                     items: [
-                        '`AND` dan `OR` adalah operator hanya dalam kueri yang khusus berisi tag dan properti.',
-                        'Kueri khusus tag dan properti hanya berisi filter tag dan properti: `#tag`, `-#tag`, `#`, `-#`, `.key`, `-.key`, `.key=value`, `-.key=value`.',
-                        'Jika kueri menyertakan nama, tanggal (`@...`), filter tugas (`has:task`), filter folder (`folder:...`), atau filter ekstensi (`ext:...`), `AND` dan `OR` dicocokkan sebagai kata.',
-                        'Contoh kueri operator: `#work OR .status=started`.',
-                        'Contoh kueri campuran: `#work OR ext:md` (`OR` dicocokkan dalam nama file).'
+                        '`AND`, `OR`, dan `NOT` menjadi operator saat kueri berisi filter (`#tag`, `.key`, `@date`, `has:task`, `due:`, `folder:`, `ext:`, `content:`) atau tanda kurung.',
+                        '`( )` mengelompokkan istilah: `(folder:Projects OR folder:Areas) AND #active AND -ext:pdf`.',
+                        '`NOT istilah` atau `-istilah` mengecualikan istilah. `-( )` mengecualikan seluruh grup.',
+                        '`NOT` lebih diutamakan daripada `AND`, dan `AND` daripada `OR`. Istilah yang berdampingan memakai AND implisit.',
+                        'Kueri yang hanya berisi kata tanpa tanda kurung mencocokkan `AND`, `OR`, dan `NOT` sebagai kata di nama file (mis. `hitam or putih`).'
                     ]
                 },
                 dates: {
@@ -293,12 +311,14 @@ export const STRINGS_ID = {
             addTag: 'Tambah tag',
             removeTag: 'Hapus tag',
             removeAllTags: 'Hapus semua tag',
+            editProperties: 'Edit properti',
             changeIcon: 'Ubah ikon',
             changeColor: 'Ubah warna'
         },
         folder: {
             newNote: 'Catatan baru',
             newNoteFromTemplate: 'Catatan baru dari template',
+            newNoteFileName: 'Nama file catatan baru...',
             newFolder: 'Folder baru',
             newCanvas: 'Canvas baru',
             newBase: 'Base baru',
@@ -323,14 +343,24 @@ export const STRINGS_ID = {
             changeIcon: 'Ubah ikon',
             changeColor: 'Ubah warna',
             changeBackground: 'Ubah latar belakang',
+            mergeTags: 'Gabungkan tag...',
+            splitTag: 'Pisahkan tag...',
             showTag: 'Tampilkan tag',
             hideTag: 'Sembunyikan tag'
         },
         property: {
             addKey: 'Konfigurasi kunci properti',
             renameKey: 'Ubah nama properti',
+            renameValue: 'Ganti nama nilai',
+            mergeValue: 'Gabungkan ke nilai...',
             deleteKey: 'Hapus properti'
         },
+        smartFolder: {
+            newSmartFolder: 'Folder pintar baru',
+            newNestedSmartFolder: 'Folder pintar bertingkat baru',
+            editSmartFolder: 'Edit folder pintar',
+            deleteSmartFolder: 'Hapus folder pintar'
+        },
         navigation: {
             addSeparator: 'Tambah pemisah',
             removeSeparator: 'Hapus pemisah'
@@ -356,11 +386,25 @@ export const STRINGS_ID = {
     folderAppearance: {
         standardPreset: 'Standar',
         compactPreset: 'Kompak',
+        gridPreset: 'Kisi',
+        boardPreset: 'Papan...',
+        boardPresetOption: (property: string) => `Papan (${property})`,
+        boardPropertyAction: 'Kolom papan dari properti',
+        boardPropertyPlaceholder: 'Kunci properti',
+        tileSize: 'Ukuran ubin',
+        tileSizeOptions: {
+            small: 'Ubin kecil',
+            medium: 'Ubin sedang',
+            large: 'Ubin besar'
+        },
         defaultSuffix: '(default)',
         defaultLabel: 'Bawaan',
         titleRows: 'Baris judul',
         previewRows: 'Baris pratinjau',
         groupBy: 'Kelompokkan berdasarkan',
+        groupByPropertyAction: 'Kelompokkan berdasarkan properti...',
+        groupByPropertyPlaceholder: 'Kunci properti',
+        groupByPropertyOption: (property: string) => `Kelompokkan berdasarkan properti (${property})`,
         defaultTitleOption: (rows: number) => `Baris judul default (${rows})`,
         defaultPreviewOption: (rows: number) => `Baris pratinjau default (${rows})`,
         defaultGroupOption: (groupLabel: string) => `Pengelompokan default (${groupLabel})`,
@@ -384,6 +428,90 @@ export const STRINGS_ID = {
         fileIconRuleEditor: {
             addRuleAria: 'Tambah aturan'
         },
+        sortChain: {
+            title: 'Rantai pengurutan kustom',
+            description:
+                'Catatan diurutkan menurut kunci pertama. Setiap kunci berikutnya mengurutkan catatan yang sama pada kunci di atasnya.',
+            propertyPlaceholder: 'Kunci properti',
+            ascending: 'Naik',
+            descending: 'Turun',
+            addKey: 'Tambah kunci pengurutan',
+            moveUp: 'Pindah ke atas',
+            moveDown: 'Pindah ke bawah',
+            save: 'Simpan',
+            fields: {
+                modified: 'Tanggal diedit',
+                created: 'Tanggal dibuat',
+                title: 'Judul',
+                filename: 'Nama file',
+                property: 'Properti',
+                wordcount: 'Jumlah kata',
+                tasks: 'Tugas terbuka',
+                size: 'Ukuran file'
+            }
+        },
+        noteTemplateRules: {
+            title: 'Aturan templat catatan',
+            description:
+                'Catatan yang dibuat dari folder, tag, atau properti memakai templat dan nama file dari aturan pertama yang cocok. Nama file mendukung {{date}}, {{date:FORMAT}}, {{time}}, dan {{title}}.',
+            folderPatternPlaceholder: 'Jalur folder, mis. Meetings atau Projects/*/Notes',
+            tagPatternPlaceholder: 'Tag, mis. meeting',
+            propertyPatternPlaceholder: 'Properti, mis. type atau type=meeting',
+            templatePlaceholder: 'File templat',
+            fileNamePlaceholder: 'Pola nama file, mis. {{date}} Meeting',
+            emptyState: 'Tidak ada aturan. Catatan baru dibuat kosong.',
+            addRule: 'Tambah aturan',
+            moveUp: 'Pindah ke atas',
+            moveDown: 'Pindah ke bawah',
+            save: 'Simpan',
+            targets: {
+                folder: 'Folder',
+                tag: 'Tag',
+                property: 'Properti'
+            }
+        },
+        fileStyleRules: {
+            title: 'Aturan gaya file',
+            description:
+                'File yang cocok dengan kueri aturan mendapat ikon dan warnanya. Kueri memakai sintaks filter pencarian. Aturan diperiksa dari atas ke bawah: aturan cocok pertama yang memiliki ikon menetapkan ikon dan aturan cocok pertama yang memiliki warna menetapkan warna. Ikon dan warna yang diatur pada file diutamakan.',
+            queryPlaceholder: 'Kueri filter, mis. .status=done, #meeting atau folder:archive',
+            emptyState: 'Tidak ada aturan.',
+            setIcon: 'Atur ikon',
+            setColor: 'Atur warna',
+            addRule: 'Tambah aturan',
+            moveUp: 'Pindah ke atas',
+            moveDown: 'Pindah ke bawah',
+            save: 'Simpan'
+        },
+        configBundleImport: {
+            title: 'Impor paket konfigurasi',
+            description:
+                'Pilih file JSON paket dari vault, lalu pilih bagian yang akan diimpor. Nilai yang diimpor divalidasi seperti pengaturan biasa.',
+            filePlaceholder: 'Jalur paket, mis. notebook-navigator-config.json',
+            sectionsLabel: 'Bagian yang diimpor',
+            strategyLabel: 'Pengaturan yang ada',
+            strategies: {
+                merge: 'Gabungkan, entri paket diutamakan',
+                replace: 'Ganti bagian yang dipilih'
+            },
+            bundleInfo: 'Diekspor {date} dari Notebook Navigator {version}',
+            importButton: 'Impor',
+            sections: {
+                vaultProfiles: 'Profil vault dan pintasan',
+                styling: 'Ikon dan warna folder, tag, dan properti',
+                appearances: 'Tampilan folder dan tag',
+                sortOverrides: 'Urutan khusus',
+                iconMaps: 'Peta ikon dan ikon antarmuka',
+                keyboardShortcuts: 'Pintasan keyboard'
+            },
+            errors: {
+                invalidJson: 'File bukan JSON yang valid.',
+                invalidFormat: 'File bukan paket konfigurasi Notebook Navigator.',
+                unsupportedVersion: 'Paket ini dibuat oleh versi Notebook Navigator yang lebih baru.',
+                empty: 'Paket tidak berisi bagian yang dapat diimpor.',
+                readFailed: 'Tidak dapat membaca file.'
+            }
+        },
         interfaceIcons: {
             title: 'Ikon antarmuka',
             fileItemsSection: 'Item file',
@@ -414,6 +542,8 @@ export const STRINGS_ID = {
                 'nav-properties': 'Properti',
                 'nav-property': 'Properti',
                 'nav-property-value': 'Nilai',
+                'nav-smart-folders': 'Folder pintar',
+                'nav-smart-folder': 'Folder pintar',
                 'list-pinned': 'Item tersemat',
                 'file-unfinished-task': 'Tugas belum selesai',
                 'file-word-count': 'Jumlah kata'
@@ -493,6 +623,111 @@ export const STRINGS_ID = {
             deleteSettingsUpdateFailed: 'Properti {property} dihapus. Gagal memperbarui pengaturan.',
             invalidKeyName: 'Masukkan nama properti yang valid.'
         },
+        propertyValueEdit: {
+            title: 'Edit properti',
+            description: 'Ubah properti pada {count} {files}.',
+            keyLabel: 'Properti',
+            keyPlaceholder: 'Nama properti',
+            modeLabel: 'Tindakan',
+            modes: {
+                set: 'Tetapkan nilai',
+                append: 'Tambahkan ke daftar',
+                remove: 'Hapus properti'
+            },
+            valueLabel: 'Nilai',
+            valuePlaceholder: 'Nilai',
+            emptyValue: '(kosong)',
+            previewTitle: 'Pratinjau',
+            changeSummary: '{count} dari {total} catatan akan berubah',
+            noChanges: 'Tidak ada catatan yang perlu diubah.',
+            apply: 'Terapkan',
+            successSingle: 'Properti {property} diperbarui di 1 catatan',
+            successMultiple: 'Properti {property} diperbarui di {count} catatan',
+            partialFailure: 'Properti {property} diperbarui di {count} catatan. {failed} catatan tidak dapat diperbarui.'
+        },
+        propertyValueRename: {
+            renameTitle: 'Ganti nama nilai {value}',
+            renameWarning:
+                'Mengganti nama {property}: {value} akan mengubah {count} {files}. Memasukkan nilai yang sudah ada akan menggabungkan kedua nilai.',
+            newValuePrompt: 'Nilai baru',
+            newValuePlaceholder: 'Masukkan nilai baru',
+            confirmRename: 'Ganti nama nilai',
+            mergeTitle: 'Gabungkan nilai {value}',
+            mergeWarning:
+                'Menggabungkan {oldValue} ke {newValue} akan mengubah {count} {files}. {newValue} mempertahankan ikon, warna, dan pintasannya sendiri.',
+            mergePlaceholder: 'Gabungkan {value} ke...',
+            mergeInstruction: 'untuk menggabungkan',
+            confirmMerge: 'Gabungkan nilai',
+            noOtherValues: 'Properti {property} tidak memiliki nilai lain',
+            nestedTarget: 'Nilai tidak dapat diganti namanya menjadi salah satu nilai bertingkatnya.',
+            invalidValue: 'Masukkan nilai yang valid.',
+            noChanges: '{oldValue} → {newValue} (tidak ada perubahan)',
+            successSingle: 'Mengganti nama {oldValue} → {newValue} di 1 catatan',
+            successMultiple: 'Mengganti nama {oldValue} → {newValue} di {count} catatan',
+            partialFailure: 'Mengganti nama {oldValue} → {newValue} di {count} catatan. {failed} catatan tidak dapat diperbarui.'
+        },
+        tagOperationSummary: {
+            close: 'Tutup',
+            updatedNotes: 'Catatan diperbarui',
+            skippedNotes: 'Catatan dilewati',
+            skippedDescription: 'Catatan ini berubah setelah pratinjau atau tidak ada yang perlu diperbarui.',
+            failedNotes: 'Catatan gagal',
+            reportSummary: 'Memperbarui {changed} dari {total} catatan.'
+        },
+        tagMerge: {
+            title: 'Gabungkan tag',
+            description: 'Gabungkan beberapa tag menjadi satu tag. Tag bertingkat ikut berpindah bersama tag induknya.',
+            sourcesLabel: 'Tag yang digabungkan',
+            sourcesPlaceholder: 'Tag dipisahkan koma',
+            targetLabel: 'Gabungkan ke',
+            targetPlaceholder: 'Tag tujuan',
+            preview: 'Pratinjau penggabungan',
+            nothingToMerge: 'Tidak ada tag untuk digabungkan. Pastikan tag digunakan dalam catatan dan berbeda dari tag tujuan.',
+            previewTitle: 'Gabungkan ke {tag}',
+            previewDescription: 'Menggabungkan {tags} ke {tag} akan mengubah {count} catatan.',
+            confirm: 'Gabungkan tag',
+            affectedNotes: 'Catatan terdampak',
+            skippedTags: 'Tag dilewati',
+            skipReasons: {
+                sameAsTarget: 'sama dengan tag tujuan',
+                containsTarget: 'tag tujuan berada di bawah tag ini',
+                nestedInSource: 'digabungkan bersama tag induknya',
+                noNotes: 'tidak digunakan di catatan mana pun'
+            },
+            alreadyTagged: 'Catatan yang sudah memiliki {tag}',
+            alreadyTaggedDescription: 'Catatan ini akan berisi tag tujuan lebih dari sekali.',
+            multipleSources: 'Catatan dengan beberapa tag yang digabungkan',
+            multipleSourcesDescription: 'Setiap catatan ini akan berisi tag tujuan lebih dari sekali.',
+            nestedCollisions: 'Bentrokan tag bertingkat',
+            nestedCollisionsDescription: 'Tag bertingkat ini bergabung ke tag bertingkat yang sudah ada.',
+            notFinalized: 'Metadata tidak dipindahkan',
+            notFinalizedDescription:
+                'Beberapa catatan dengan tag ini tidak diperbarui, sehingga ikon, warna, dan pintasannya dipertahankan.',
+            reportTitle: 'Digabungkan ke {tag}'
+        },
+        tagSplit: {
+            title: 'Pisahkan tag {tag}',
+            description:
+                '{count} {files} bertag tepat {tag}. Setiap catatan berpindah ke tag anak dari aturan pertama yang cocok. Catatan tanpa aturan yang cocok tetap memiliki {tag}.',
+            childPlaceholder: 'Tag anak',
+            kinds: {
+                folder: 'Folder',
+                query: 'Kueri filter'
+            },
+            folderPlaceholder: 'Jalur folder (termasuk subfolder)',
+            queryPlaceholder: 'Kueri filter pencarian',
+            addRule: 'Tambah aturan',
+            preview: 'Pratinjau pemisahan',
+            nothingMatched: 'Tidak ada catatan yang cocok dengan aturan.',
+            previewTitle: 'Pisahkan {tag}',
+            previewDescription: '{count} dari {total} catatan bertag {tag} akan pindah ke tag anak.',
+            confirm: 'Pisahkan tag',
+            invalidRules: 'Aturan yang tidak dapat dievaluasi',
+            invalidRulesDescription: 'Kueri filter memerlukan kriteria pencarian dan cache catatan yang siap.',
+            unmatched: 'Catatan tanpa aturan yang cocok',
+            unmatchedDescription: 'Catatan ini tetap memiliki {tag}.',
+            reportTitle: '{tag} dipisahkan'
+        },
         fileSystem: {
             newFolderTitle: 'Folder baru',
             renameFolderTitle: 'Ubah nama folder',
@@ -502,6 +737,10 @@ export const STRINGS_ID = {
             deleteFileAttachmentsTitle: 'Hapus lampiran file?',
             moveFileConflictTitle: 'Konflik pemindahan',
             folderNamePrompt: 'Masukkan nama folder:',
+            newNoteTitle: 'Catatan baru',
+            noteTitlePrompt: 'Masukkan judul catatan:',
+            createNoteButton: 'Buat',
+            newNoteFileNamePrompt: 'Pola nama file, mis. {{date:YYYYMMDDHHmm}} {{title}}. Kosongkan untuk memakai bawaan.',
             hideInOtherVaultProfiles: 'Sembunyikan di profil vault lain',
             renamePrompt: 'Masukkan nama baru:',
             renameVaultTitle: 'Ubah nama tampilan vault',
@@ -596,6 +835,23 @@ export const STRINGS_ID = {
             applyButton: 'Terapkan',
             emptyState: 'Tidak ditemukan kunci properti.'
         },
+        smartFolder: {
+            newTitle: 'Folder pintar baru',
+            newNestedTitle: 'Folder pintar baru di {name}',
+            editTitle: 'Edit folder pintar',
+            nameLabel: 'Nama',
+            namePlaceholder: 'Nama folder pintar',
+            queryLabel: 'Kueri filter',
+            queryPlaceholder: '#project AND -#archived',
+            queryDescription:
+                'Menggunakan sintaks pencarian filter. Folder pintar bertingkat hanya menampilkan catatan yang juga cocok dengan kueri folder induknya.',
+            create: 'Buat',
+            save: 'Simpan',
+            emptyName: 'Nama folder pintar tidak boleh kosong',
+            duplicateName: 'Folder pintar dengan nama ini sudah ada di sini',
+            deleteTitle: 'Hapus folder pintar "{name}"?',
+            deleteMessage: 'Folder pintar bertingkat juga dihapus. Catatan tidak diubah.'
+        },
         welcome: {
             title: 'Selamat datang di {pluginName}',
             introText:
@@ -678,6 +934,9 @@ export const STRINGS_ID = {
             iconPackUpdated: '{provider} diperbarui ({version})',
             iconPackRemoved: '{provider} dihapus',
             iconPackLoadFailed: 'Gagal memuat {provider}',
+            folderMetadataWritten: 'Metadata ditulis untuk {count} folder',
+            folderMetadataLoaded: 'Metadata dimuat untuk {count} folder',
+            folderMetadataStorageDisabled: 'Pilih dulu penyimpanan catatan folder atau file pendamping di pengaturan Folder',
             hiddenFileReveal: 'File tersembunyi. Aktifkan "Tampilkan item tersembunyi" untuk menampilkannya'
         },
         confirmations: {
@@ -707,7 +966,62 @@ export const STRINGS_ID = {
             filesAlreadyHaveProperty: '{count} file sudah memiliki properti ini',
             noTagsToClear: 'Tidak ada tag untuk dihapus',
             fileImported: 'Mengimpor 1 file',
-            filesImported: 'Mengimpor {count} file'
+            filesImported: 'Mengimpor {count} file',
+            filesMoved: '{count} file dipindahkan ke {folder}'
+        }
+    },
+
+    // Undo history
+    undoHistory: {
+        undo: 'Urungkan',
+        undone: 'Diurungkan: {action}',
+        redone: 'Diulangi: {action}',
+        nothingToUndo: 'Tidak ada yang dapat diurungkan',
+        nothingToRedo: 'Tidak ada yang dapat diulangi',
+        failed: 'Tidak dapat membalikkan "{action}": {error}',
+        partial: '{count} item tidak dapat dipulihkan',
+        actions: {
+            moveFile: 'Pindahkan "{name}"',
+            moveFiles: 'Pindahkan {count} file',
+            moveFolder: 'Pindahkan folder "{name}"',
+            renameFile: 'Ganti nama "{name}"',
+            renameFolder: 'Ganti nama folder "{name}"',
+            addTag: 'Tambah tag #{tag}',
+            removeTag: 'Hapus tag #{tag}',
+            renameProperty: 'Ganti nama properti {oldKey} → {newKey}',
+            editProperty: 'Edit properti {property}',
+            renamePropertyValue: 'Ganti nama nilai {property} {oldValue} → {newValue}',
+            changeAppearance: 'Ubah tampilan "{name}"'
+        }
+    },
+
+    // Vault statistics dashboard
+    statisticsDashboard: {
+        refresh: 'Segarkan',
+        loading: 'Menunggu cache catatan...',
+        unavailable: 'Statistik tidak dapat dihitung.',
+        empty: 'Tidak ada data',
+        weekLabel: 'Minggu {date}',
+        createdCount: '{count} dibuat',
+        modifiedCount: '{count} diubah',
+        summary: {
+            notes: 'Catatan',
+            words: 'Kata',
+            openTasks: 'Tugas terbuka',
+            untagged: 'Catatan tanpa tag',
+            orphaned: 'Catatan yatim',
+            orphanedDescription: 'Catatan yang tidak ditautkan oleh catatan lain'
+        },
+        sections: {
+            activity: 'Catatan dibuat dan diubah per minggu',
+            wordsPerFolder: 'Kata per folder',
+            openTasksPerFolder: 'Tugas terbuka per folder',
+            topTags: 'Tag teratas',
+            topProperties: 'Properti teratas'
+        },
+        legend: {
+            created: 'Dibuat',
+            modified: 'Diubah'
         }
     },
 
@@ -732,8 +1046,10 @@ export const STRINGS_ID = {
         revealFile: 'Tampilkan file',
         search: 'Cari',
         searchVaultRoot: 'Cari di root vault',
+        createSmartFolder: 'Buat folder pintar dari pencarian',
         toggleDualPane: 'Alihkan tata letak panel ganda',
         toggleCalendar: 'Alihkan kalender',
+        openStatistics: 'Buka statistik vault', // Command palette: Opens the vault statistics dashboard (English: Open vault statistics)
         selectVaultProfile: 'Pilih profil vault',
         selectVaultProfile1: 'Pilih profil vault 1',
         selectVaultProfile2: 'Pilih profil vault 2',
@@ -742,12 +1058,18 @@ export const STRINGS_ID = {
         createNewNote: 'Buat catatan baru',
         createNewNoteFromTemplate: 'Catatan baru dari template',
         moveFiles: 'Pindahkan file',
+        undo: 'Urungkan operasi file',
+        redo: 'Ulangi operasi file',
         selectNextFile: 'Pilih file berikutnya',
         selectPreviousFile: 'Pilih file sebelumnya',
         convertToFolderNote: 'Konversi ke catatan folder',
         setAsFolderNote: 'Atur sebagai catatan folder',
         detachFolderNote: 'Lepaskan catatan folder',
         pinAllFolderNotes: 'Sematkan semua catatan folder',
+        writeFolderMetadataFiles: 'Tulis metadata folder ke file', // Command palette: Writes folder icons, colors, sort overrides and appearances to folder notes or sidecars (English: Write folder metadata to files)
+        reloadFolderMetadataFiles: 'Muat ulang metadata folder dari file', // Command palette: Reads folder metadata from folder notes or sidecars into settings (English: Reload folder metadata from files)
+        exportConfiguration: 'Ekspor paket konfigurasi', // Command palette: Writes a configuration bundle JSON file to the vault root (English: Export configuration bundle)
+        importConfiguration: 'Impor paket konfigurasi', // Command palette: Opens a dialog to import sections of a configuration bundle (English: Import configuration bundle)
         navigateToFolder: 'Navigasi ke folder',
         navigateToTag: 'Navigasi ke tag',
         navigateToProperty: 'Navigasi ke properti',
@@ -761,6 +1083,8 @@ export const STRINGS_ID = {
         addTag: 'Tambah tag ke file yang dipilih',
         removeTag: 'Hapus tag dari file yang dipilih',
         removeAllTags: 'Hapus semua tag dari file yang dipilih',
+        mergeTags: 'Gabungkan tag', // Command palette: Opens a dialog to merge several tags into one tag (English: Merge tags)
+        editProperties: 'Edit properti file yang dipilih', // Command palette: Opens a dialog to set, append to, or remove a property on selected files (English: Edit properties of selected files)
         openAllFiles: 'Buka semua file',
         rebuildCache: 'Bangun ulang cache'
     },
@@ -769,6 +1093,7 @@ export const STRINGS_ID = {
     plugin: {
         viewName: 'Notebook Navigator',
         calendarViewName: 'Kalender',
+        statisticsViewName: 'Statistik vault', // Name shown in the statistics view header/tab (English: Vault statistics)
         ribbonTooltip: 'Notebook Navigator',
         revealInNavigator: 'Tampilkan di Notebook Navigator'
     },
@@ -867,7 +1192,13 @@ export const STRINGS_ID = {
                     'filename-asc': 'Nama file (A di atas)',
                     'filename-desc': 'Nama file (Z di atas)',
                     'property-asc': 'Properti (A di atas)',
-                    'property-desc': 'Properti (Z di atas)'
+                    'property-desc': 'Properti (Z di atas)',
+                    'wordcount-desc': 'Jumlah kata (terbanyak di atas)',
+                    'wordcount-asc': 'Jumlah kata (tersedikit di atas)',
+                    'tasks-desc': 'Tugas terbuka (terbanyak di atas)',
+                    'tasks-asc': 'Tugas terbuka (tersedikit di atas)',
+                    'size-desc': 'Ukuran file (terbesar di atas)',
+                    'size-asc': 'Ukuran file (terkecil di atas)'
                 },
                 propertyOverride: {
                     asc: 'Properti ‘{property}’ (A di atas)',
@@ -893,6 +1224,10 @@ export const STRINGS_ID = {
                 name: 'Gulir ke file yang dipilih saat perubahan daftar',
                 desc: 'Gulir ke file yang dipilih saat menyematkan catatan, menampilkan catatan turunan, mengubah tampilan folder, atau menjalankan operasi file.'
             },
+            searchNoteContent: {
+                name: 'Cari isi catatan',
+                desc: 'Membangun indeks teks lengkap lokal dari isi catatan untuk pencarian filter. Mengaktifkan filter `content:` dan membuat kata pencarian biasa juga mencocokkan teks catatan selain nama file. Tidak memerlukan Omnisearch.'
+            },
             includeDescendantNotes: {
                 name: 'Tampilkan catatan dari subfolder / turunan',
                 desc: 'Sertakan catatan dari subfolder bersarang dan turunan tag saat melihat folder atau tag.'
@@ -907,11 +1242,13 @@ export const STRINGS_ID = {
             },
             groupNotes: {
                 name: 'Kelompokkan catatan',
-                desc: 'Tampilkan header antara catatan yang dikelompokkan berdasarkan tanggal atau folder. Tampilan tag menggunakan grup tanggal saat pengelompokan folder diaktifkan.',
+                desc: 'Tampilkan header antara catatan yang dikelompokkan berdasarkan tanggal, folder, tag, huruf pertama, atau nilai properti. Tampilan tag menggunakan grup tanggal saat pengelompokan folder diaktifkan.',
                 options: {
                     none: 'Jangan kelompokkan',
                     date: 'Kelompokkan berdasarkan tanggal',
-                    folder: 'Kelompokkan berdasarkan folder'
+                    folder: 'Kelompokkan berdasarkan folder',
+                    tag: 'Kelompokkan berdasarkan tag',
+                    alphabetical: 'Kelompokkan menurut abjad'
                 }
             },
             showPinnedGroupHeader: {
@@ -958,6 +1295,11 @@ export const STRINGS_ID = {
                 placeholder: '# Extension=icon\ncpp=LiFileCode\npdf=RaBook',
                 editTooltip: 'Edit pemetaan'
             },
+            fileStyleRules: {
+                name: 'Aturan gaya file',
+                desc: 'Beri ikon dan warna pada file yang cocok dengan kueri filter pencarian, mis. ikon centang untuk .status=done atau abu-abu untuk folder:archive. Aturan disimpan di profil vault.',
+                buttonText: 'Edit aturan'
+            },
             optimizeNoteHeight: {
                 name: 'Tinggi catatan variabel',
                 desc: 'Gunakan tinggi ringkas untuk catatan yang disematkan dan catatan tanpa teks pratinjau.'
@@ -1038,6 +1380,15 @@ export const STRINGS_ID = {
                 name: 'Buka catatan baru di tab baru',
                 desc: 'Jika diaktifkan, perintah Buat catatan baru membuka catatan di tab baru. Jika dinonaktifkan, catatan menggantikan tab saat ini.'
             },
+            newNoteFileNamePattern: {
+                name: 'Nama file catatan baru',
+                desc: 'Pola nama file untuk catatan baru. Mendukung {{date}}, {{date:FORMAT}}, {{time}}, dan {{title}}. Folder dapat menimpanya dari menu folder. Kosongkan untuk "Untitled".',
+                placeholder: '{{date:YYYY-MM-DD}} {{title}}'
+            },
+            promptForNewNoteTitle: {
+                name: 'Tanyakan judul saat membuat catatan',
+                desc: 'Tampilkan permintaan judul sebelum membuat catatan. Judul mengisi {{title}} dalam pola nama file, atau menjadi nama file jika tidak ada pola.'
+            },
             autoRevealActiveNote: {
                 name: 'Auto-tampilkan catatan aktif',
                 desc: 'Secara otomatis menampilkan catatan saat dibuka dari Quick Switcher, tautan, atau pencarian.'
@@ -1214,6 +1565,11 @@ export const STRINGS_ID = {
                 desc: 'Pemilih file template menampilkan catatan dari folder ini.',
                 placeholder: 'Templates'
             },
+            noteTemplateRules: {
+                name: 'Aturan templat catatan',
+                desc: 'Terapkan templat dan pola nama file ke catatan yang dibuat dari folder, tag, atau properti.',
+                buttonText: 'Edit aturan'
+            },
             calendarCustomFilePattern: {
                 name: 'Catatan harian',
                 desc: 'Format jalur menggunakan format tanggal Moment. Bungkus nama subfolder dalam tanda kurung, misal [Work]/YYYY. Klik ikon template untuk mengatur template. Atur lokasi folder templat di Umum > Templat.',
@@ -1268,6 +1624,16 @@ export const STRINGS_ID = {
                 notice: 'Semua pengaturan diatur ulang. Mulai ulang Obsidian atau buka kembali Notebook Navigator untuk menerapkan.',
                 error: 'Gagal mengatur ulang pengaturan.'
             },
+            configBundle: {
+                name: 'Paket konfigurasi',
+                desc: 'Ekspor profil vault, pintasan, gaya, tampilan, urutan khusus, peta ikon, dan pintasan keyboard ke file JSON di root vault, atau impor paket untuk menyiapkan vault lain.',
+                exportButton: 'Ekspor',
+                importButton: 'Impor',
+                exportSuccess: 'Konfigurasi diekspor ke {filename}',
+                exportFailed: 'Gagal mengekspor konfigurasi.',
+                importSuccess: 'Konfigurasi diimpor.',
+                importFailed: 'Gagal mengimpor konfigurasi.'
+            },
             multiSelectModifier: {
                 name: 'Modifier multi-pilih',
                 desc: 'Pilih tombol modifier mana yang mengalihkan multi-pilih. Ketika Option/Alt dipilih, klik Cmd/Ctrl membuka catatan di tab baru.',
@@ -1292,6 +1658,14 @@ export const STRINGS_ID = {
                 name: 'Ctrl+Enter',
                 desc: 'Buka file yang dipilih di tab baru, split, atau jendela saat menekan Ctrl+Enter.'
             },
+            vimKeyboardNavigation: {
+                name: 'Urutan tombol gaya Vim',
+                desc: 'Gunakan gg dan G untuk melompat ke item pertama dan terakhir, dd untuk menghapus, zc dan zo untuk menciutkan dan membentangkan, serta / untuk membuka pencarian. Pintasan kustom diutamakan.'
+            },
+            typeAheadFind: {
+                name: 'Cari sambil mengetik',
+                desc: 'Mengetik huruf melompat ke folder, tag, atau catatan pertama yang namanya diawali teks yang diketik. Tidak tersedia saat urutan tombol gaya Vim aktif.'
+            },
             fileVisibility: {
                 name: 'Tampilkan jenis file (profil vault)',
                 desc: 'Filter jenis file mana yang ditampilkan di navigator. Jenis file yang tidak didukung oleh Obsidian mungkin terbuka di aplikasi eksternal.',
@@ -1415,6 +1789,10 @@ export const STRINGS_ID = {
                     none: 'Tidak ada'
                 }
             },
+            showTaskProgress: {
+                name: 'Kemajuan tugas',
+                desc: 'Tampilkan bilah penyelesaian dan tanggal jatuh tempo berikutnya untuk catatan dengan tugas.'
+            },
             propertyFields: {
                 name: 'Kunci properti (profil brankas)',
                 desc: 'Kunci properti frontmatter, dengan visibilitas per kunci untuk navigasi dan daftar file.',
@@ -1527,6 +1905,15 @@ export const STRINGS_ID = {
                     alphaDesc: 'Z ke A'
                 }
             },
+            folderMetadataStorage: {
+                name: 'Penyimpanan metadata folder',
+                desc: 'Simpan juga ikon, warna, urutan khusus, dan tampilan folder di vault agar ikut berpindah bersama folder melalui sinkronisasi atau git. Perubahan disinkronkan dua arah. Jalankan "Tulis metadata folder ke file" untuk memigrasikan metadata yang ada.',
+                options: {
+                    settings: 'Hanya pengaturan plugin',
+                    folderNote: 'Frontmatter catatan folder',
+                    sidecar: 'File pendamping .folder.yml'
+                }
+            },
             showNoteCount: {
                 name: 'Tampilkan jumlah catatan',
                 desc: 'Tampilkan jumlah catatan di sebelah setiap folder dan tag.'
@@ -1642,6 +2029,11 @@ export const STRINGS_ID = {
                 name: 'Tampilkan folder properti',
                 desc: 'Tampilkan "Properti" sebagai folder yang dapat dilipat.'
             },
+            propertyHierarchies: {
+                name: 'Hierarki properti',
+                desc: 'Susun catatan dalam folder virtual bertingkat per nilai properti, satu tingkat per kunci. Satu hierarki per baris sebagai `Name: key > key > key`. Kunci juga harus tercantum di kunci properti.',
+                placeholder: 'Research: type > status > project'
+            },
             hiddenTags: {
                 name: 'Sembunyikan tag (profil vault)',
                 desc: 'Daftar pola tag yang dipisahkan koma. Pola nama: tag* (dimulai dengan), *tag (diakhiri dengan). Pola jalur: arsip (tag dan turunan), arsip/* (hanya turunan), proyek/*/draf (wildcard tengah).',
@@ -46,7 +46,10 @@ export const STRINGS_IT = {
         pinnedSection: 'Fissate', // Header for the pinned notes section at the top of file list (English: Pinned)
         notesSection: 'Note', // Header shown between pinned and regular items when showing documents only (English: Notes)
         filesSection: 'File', // Header shown between pinned and regular items when showing supported or all files (English: Files)
-        hiddenItemAriaLabel: '{name} (nascosto)' // Accessibility label applied to list items that are normally hidden
+        noPropertyValue: 'Nessun valore', // Header for notes without a value when grouping by property (English: No value)
+        hiddenItemAriaLabel: '{name} (nascosto)', // Accessibility label applied to list items that are normally hidden
+        taskProgressAriaLabel: '{completed} di {total} attività completate', // Accessibility label for the task progress bar in file items
+        taskDue: 'Scadenza {date}' // Next due date shown next to the task progress bar (English: Due {date})
     },
 
     // Tag list
@@ -61,6 +64,7 @@ export const STRINGS_IT = {
         recentNotesHeader: 'Note recenti', // Header label for recent notes section in navigation pane (English: Recent notes)
         recentFilesHeader: 'File recenti', // Header label when showing recent non-note files in navigation pane (English: Recent files)
         properties: 'Proprietà',
+        smartFolders: 'Cartelle intelligenti',
         reorderRootFoldersTitle: 'Riordina navigazione',
         reorderRootFoldersHint: 'Usa frecce o trascina per riordinare',
         vaultRootLabel: 'Vault',
@@ -130,6 +134,7 @@ export const STRINGS_IT = {
         mobileBackToNavigation: 'Torna alla navigazione', // Mobile-only back button text to return to navigation pane (English: Back to navigation)
         changeSortOrder: 'Cambia ordine', // Tooltip for the sort order toggle button (English: Change sort order)
         defaultSort: 'Predefinito', // Label for default sorting mode (English: Default)
+        customSortChain: 'Catena di ordinamento personalizzata...',
         showFolders: 'Mostra navigazione', // Tooltip for button to show the navigation pane (English: Show navigation)
         reorderRootFolders: 'Riordina navigazione',
         finishRootFolderReorder: 'Fatto',
@@ -170,6 +175,15 @@ export const STRINGS_IT = {
                         '`-word` Escludi note con "word" nel nome del file.'
                     ]
                 },
+                content: {
+                    title: 'Contenuto delle note',
+                    items: [
+                        '`content:parola` Trova le note il cui testo contiene una parola che inizia con "parola".',
+                        '`content:"due parole"` Richiede che ogni parola compaia nel testo della nota.',
+                        '`-content:parola` Esclude le note il cui testo contiene una parola che inizia con "parola".',
+                        'Richiede **Cerca nel contenuto delle note** nelle impostazioni del pannello elenco. Se attivo, anche le parole semplici corrispondono al testo.'
+                    ]
+                },
                 tags: {
                     title: 'Tag',
                     items: [
@@ -193,6 +207,8 @@ export const STRINGS_IT = {
                         '`."Reading Status"="In Progress"` Chiavi e valori con spazi devono essere racchiusi tra virgolette doppie.',
                         '`-.key` Escludi note con chiave di proprietà.',
                         '`-.key=value` Escludi note con valore di proprietà.',
+                        '`.key>=3`, `.key<2026-11-01` Confronta proprietà numeriche o di data con `>`, `>=`, `<`, `<=`.',
+                        '`.key:thisweek`, `.key:1..5`, `.key:2026-11-01..2026-11-30` Corrisponde a una data relativa, data, numero o intervallo inclusivo.',
                         'Cmd/Ctrl+Clic su una proprietà per aggiungere con AND. Cmd/Ctrl+Shift+Clic per aggiungere con OR.'
                     ]
                 },
@@ -201,6 +217,8 @@ export const STRINGS_IT = {
                     items: [
                         '`has:task` Includi note con attività non completate.',
                         '`-has:task` Escludi note con attività non completate.',
+                        "`due:overdue`, `due:today`, `due:thisweek` Includi le note con un'attività aperta in scadenza nell'intervallo (date `📅` di Tasks o campi `[due:: ]` di Dataview).",
+                        "`due:2026-11-01..2026-11-30` Corrisponde a una scadenza o a un intervallo. `-due:...` esclude le note con un'attività aperta corrispondente.",
                         '`folder:meetings` Includi note in cui un nome di cartella contiene `meetings`.',
                         '`folder:/work/meetings` Includi note solo in `work/meetings` (non sottocartelle).',
                         '`folder:/` Includi note solo nella radice del vault.',
@@ -212,13 +230,13 @@ export const STRINGS_IT = {
                     ]
                 },
                 connectors: {
-                    title: 'Comportamento AND/OR',
+                    title: 'AND/OR/NOT e raggruppamento',
                     items: [
-                        '`AND` e `OR` sono operatori solo nelle query composte esclusivamente da tag e proprietà.',
-                        'Le query esclusive di tag e proprietà contengono solo filtri di tag e proprietà: `#tag`, `-#tag`, `#`, `-#`, `.key`, `-.key`, `.key=value`, `-.key=value`.',
-                        'Se una query include nomi, date (`@...`), filtri attività (`has:task`), filtri cartella (`folder:...`) o filtri estensione (`ext:...`), `AND` e `OR` vengono cercati come parole.',
-                        'Esempio di query con operatori: `#work OR .status=started`.',
-                        'Esempio di query mista: `#work OR ext:md` (`OR` viene cercato nei nomi dei file).'
+                        '`AND`, `OR` e `NOT` sono operatori quando una query contiene un filtro (`#tag`, `.key`, `@date`, `has:task`, `due:`, `folder:`, `ext:`, `content:`) o parentesi.',
+                        '`( )` raggruppa i termini: `(folder:Projects OR folder:Areas) AND #active AND -ext:pdf`.',
+                        '`NOT termine` o `-termine` esclude un termine. `-( )` esclude un intero gruppo.',
+                        '`NOT` ha precedenza su `AND`, e `AND` su `OR`. I termini adiacenti usano AND implicito.',
+                        'Le query composte solo da parole e senza parentesi cercano `AND`, `OR` e `NOT` come parole nei nomi dei file (es. `bianco or nero`).'
                     ]
                 },
                 dates: {
@@ -292,12 +310,14 @@ export const STRINGS_IT = {
             addTag: 'Aggiungi tag',
             removeTag: 'Rimuovi tag',
             removeAllTags: 'Rimuovi tutti i tag',
+            editProperties: 'Modifica proprietà',
             changeIcon: 'Cambia icona',
             changeColor: 'Cambia colore'
         },
         folder: {
             newNote: 'Nuova nota',
             newNoteFromTemplate: 'Nuova nota da modello',
+            newNoteFileName: 'Nome file nuove note...',
             newFolder: 'Nuova cartella',
             newCanvas: 'Nuova canvas',
             newBase: 'Nuovo base',
@@ -322,14 +342,24 @@ export const STRINGS_IT = {
             changeIcon: 'Cambia icona',
             changeColor: 'Cambia colore',
             changeBackground: 'Cambia sfondo',
+            mergeTags: 'Unisci tag...',
+            splitTag: 'Dividi tag...',
             showTag: 'Mostra tag',
             hideTag: 'Nascondi tag'
         },
         property: {
             addKey: 'Configura chiavi proprietà',
             renameKey: 'Rinomina proprietà',
+            renameValue: 'Rinomina valore',
+            mergeValue: 'Unisci nel valore...',
             deleteKey: 'Elimina proprietà'
         },
+        smartFolder: {
+            newSmartFolder: 'Nuova cartella intelligente',
+            newNestedSmartFolder: 'Nuova cartella intelligente annidata',
+            editSmartFolder: 'Modifica cartella intelligente',
+            deleteSmartFolder: 'Elimina cartella intelligente'
+        },
         navigation: {
             addSeparator: 'Aggiungi separatore',
             removeSeparator: 'Rimuovi separatore'
@@ -355,11 +385,25 @@ export const STRINGS_IT = {
     folderAppearance: {
         standardPreset: 'Standard',
         compactPreset: 'Compatto',
+        gridPreset: 'Griglia',
+        boardPreset: 'Bacheca...',
+        boardPresetOption: (property: string) => `Bacheca (${property})`,
+        boardPropertyAction: 'Colonne della bacheca dalla proprietà',
+        boardPropertyPlaceholder: 'Chiave della proprietà',
+        tileSize: 'Dimensione riquadri',
+        tileSizeOptions: {
+            small: 'Riquadri piccoli',
+            medium: 'Riquadri medi',
+            large: 'Riquadri grandi'
+        },
         defaultSuffix: '(predefinito)',
         defaultLabel: 'Predefinito',
         titleRows: 'Righe titolo',
         previewRows: 'Righe anteprima',
         groupBy: 'Raggruppa per',
+        groupByPropertyAction: 'Raggruppa per proprietà...',
+        groupByPropertyPlaceholder: 'Chiave proprietà',
+        groupByPropertyOption: (property: string) => `Raggruppa per proprietà (${property})`,
         defaultTitleOption: (rows: number) => `Righe titolo predefinite (${rows})`,
         defaultPreviewOption: (rows: number) => `Righe anteprima predefinite (${rows})`,
         defaultGroupOption: (groupLabel: string) => `Raggruppamento predefinito (${groupLabel})`,
@@ -383,6 +427,90 @@ export const STRINGS_IT = {
         fileIconRuleEditor: {
             addRuleAria: 'Aggiungi regola'
         },
+        sortChain: {
+            title: 'Catena di ordinamento personalizzata',
+            description:
+                'Le note sono ordinate in base alla prima chiave. Ogni chiave successiva ordina le note che sono uguali nelle chiavi precedenti.',
+            propertyPlaceholder: 'Chiave proprietà',
+            ascending: 'Crescente',
+            descending: 'Decrescente',
+            addKey: 'Aggiungi chiave di ordinamento',
+            moveUp: 'Sposta su',
+            moveDown: 'Sposta giù',
+            save: 'Salva',
+            fields: {
+                modified: 'Data modifica',
+                created: 'Data creazione',
+                title: 'Titolo',
+                filename: 'Nome file',
+                property: 'Proprietà',
+                wordcount: 'Numero di parole',
+                tasks: 'Attività aperte',
+                size: 'Dimensione file'
+            }
+        },
+        noteTemplateRules: {
+            title: 'Regole dei modelli di nota',
+            description:
+                'Le note create da una cartella, un tag o una proprietà usano il modello e il nome file della prima regola corrispondente. I nomi file supportano {{date}}, {{date:FORMAT}}, {{time}} e {{title}}.',
+            folderPatternPlaceholder: 'Percorso cartella, es. Meetings o Projects/*/Notes',
+            tagPatternPlaceholder: 'Tag, es. meeting',
+            propertyPatternPlaceholder: 'Proprietà, es. type o type=meeting',
+            templatePlaceholder: 'File modello',
+            fileNamePlaceholder: 'Schema nome file, es. {{date}} Meeting',
+            emptyState: 'Nessuna regola. Le nuove note vengono create vuote.',
+            addRule: 'Aggiungi regola',
+            moveUp: 'Sposta su',
+            moveDown: 'Sposta giù',
+            save: 'Salva',
+            targets: {
+                folder: 'Cartella',
+                tag: 'Tag',
+                property: 'Proprietà'
+            }
+        },
+        fileStyleRules: {
+            title: 'Regole di stile dei file',
+            description:
+                "I file che corrispondono alla query di una regola ricevono la sua icona e il suo colore. Le query usano la sintassi del filtro di ricerca. Le regole sono verificate dall'alto in basso: la prima regola corrispondente con un'icona imposta l'icona e la prima con un colore imposta il colore. Icone e colori impostati su un file hanno la precedenza.",
+            queryPlaceholder: 'Query di filtro, es. .status=done, #meeting o folder:archive',
+            emptyState: 'Nessuna regola.',
+            setIcon: 'Imposta icona',
+            setColor: 'Imposta colore',
+            addRule: 'Aggiungi regola',
+            moveUp: 'Sposta su',
+            moveDown: 'Sposta giù',
+            save: 'Salva'
+        },
+        configBundleImport: {
+            title: 'Importa pacchetto di configurazione',
+            description:
+                'Scegli un file JSON del pacchetto dal vault, poi le sezioni da importare. I valori importati vengono convalidati come le normali impostazioni.',
+            filePlaceholder: 'Percorso del pacchetto, es. notebook-navigator-config.json',
+            sectionsLabel: 'Sezioni da importare',
+            strategyLabel: 'Impostazioni esistenti',
+            strategies: {
+                merge: 'Unisci, prevalgono le voci del pacchetto',
+                replace: 'Sostituisci le sezioni selezionate'
+            },
+            bundleInfo: 'Esportato il {date} da Notebook Navigator {version}',
+            importButton: 'Importa',
+            sections: {
+                vaultProfiles: 'Profili del vault e scorciatoie',
+                styling: 'Icone e colori di cartelle, tag e proprietà',
+                appearances: 'Aspetto di cartelle e tag',
+                sortOverrides: 'Ordinamenti personalizzati',
+                iconMaps: "Mappe delle icone e icone dell'interfaccia",
+                keyboardShortcuts: 'Scorciatoie da tastiera'
+            },
+            errors: {
+                invalidJson: 'Il file non è un JSON valido.',
+                invalidFormat: 'Il file non è un pacchetto di configurazione di Notebook Navigator.',
+                unsupportedVersion: 'Questo pacchetto è stato creato da una versione più recente di Notebook Navigator.',
+                empty: 'Il pacchetto non contiene sezioni importabili.',
+                readFailed: 'Impossibile leggere il file.'
+            }
+        },
         interfaceIcons: {
             title: "Icone dell'interfaccia",
             fileItemsSection: 'Elementi file',
@@ -413,6 +541,8 @@ export const STRINGS_IT = {
                 'nav-properties': 'Proprietà',
                 'nav-property': 'Proprietà',
                 'nav-property-value': 'Valore',
+                'nav-smart-folders': 'Cartelle intelligenti',
+                'nav-smart-folder': 'Cartella intelligente',
                 'list-pinned': 'Elementi fissati',
                 'file-unfinished-task': 'Attività incomplete',
                 'file-word-count': 'Conteggio parole'
@@ -490,6 +620,110 @@ export const STRINGS_IT = {
             deleteSettingsUpdateFailed: 'Proprietà {property} eliminata. Impossibile aggiornare le impostazioni.',
             invalidKeyName: 'Inserisci un nome di proprietà valido.'
         },
+        propertyValueEdit: {
+            title: 'Modifica proprietà',
+            description: 'Modifica una proprietà in {count} {files}.',
+            keyLabel: 'Proprietà',
+            keyPlaceholder: 'Nome della proprietà',
+            modeLabel: 'Azione',
+            modes: {
+                set: 'Imposta valore',
+                append: "Aggiungi all'elenco",
+                remove: 'Rimuovi proprietà'
+            },
+            valueLabel: 'Valore',
+            valuePlaceholder: 'Valore',
+            emptyValue: '(vuoto)',
+            previewTitle: 'Anteprima',
+            changeSummary: '{count} di {total} note verranno modificate',
+            noChanges: 'Nessuna nota richiede modifiche.',
+            apply: 'Applica',
+            successSingle: 'Proprietà {property} aggiornata in 1 nota',
+            successMultiple: 'Proprietà {property} aggiornata in {count} note',
+            partialFailure: 'Proprietà {property} aggiornata in {count} note. Impossibile aggiornare {failed} note.'
+        },
+        propertyValueRename: {
+            renameTitle: 'Rinomina valore {value}',
+            renameWarning: 'Rinominare {property}: {value} modificherà {count} {files}. Inserire un valore esistente unisce i due valori.',
+            newValuePrompt: 'Nuovo valore',
+            newValuePlaceholder: 'Inserisci il nuovo valore',
+            confirmRename: 'Rinomina valore',
+            mergeTitle: 'Unisci valore {value}',
+            mergeWarning:
+                'Unire {oldValue} in {newValue} modificherà {count} {files}. {newValue} mantiene icona, colore e scorciatoie propri.',
+            mergePlaceholder: 'Unisci {value} in...',
+            mergeInstruction: 'per unire',
+            confirmMerge: 'Unisci valori',
+            noOtherValues: 'La proprietà {property} non ha altri valori',
+            nestedTarget: 'Un valore non può essere rinominato in uno dei suoi valori annidati.',
+            invalidValue: 'Inserisci un valore valido.',
+            noChanges: '{oldValue} → {newValue} (nessuna modifica)',
+            successSingle: 'Rinominato {oldValue} → {newValue} in 1 nota',
+            successMultiple: 'Rinominato {oldValue} → {newValue} in {count} note',
+            partialFailure: 'Rinominato {oldValue} → {newValue} in {count} note. Impossibile aggiornare {failed} note.'
+        },
+        tagOperationSummary: {
+            close: 'Chiudi',
+            updatedNotes: 'Note aggiornate',
+            skippedNotes: 'Note saltate',
+            skippedDescription: "Queste note sono cambiate dopo l'anteprima o non avevano nulla da aggiornare.",
+            failedNotes: 'Note non riuscite',
+            reportSummary: 'Aggiornate {changed} note su {total}.'
+        },
+        tagMerge: {
+            title: 'Unisci tag',
+            description: 'Unisci più tag in un unico tag. I tag annidati si spostano insieme al loro tag padre.',
+            sourcesLabel: 'Tag da unire',
+            sourcesPlaceholder: 'Tag separati da virgole',
+            targetLabel: 'Unisci in',
+            targetPlaceholder: 'Tag di destinazione',
+            preview: 'Anteprima unione',
+            nothingToMerge: 'Nessun tag da unire. Verifica che i tag siano usati nelle note e siano diversi dal tag di destinazione.',
+            previewTitle: 'Unisci in {tag}',
+            previewDescription: 'Unire {tags} in {tag} modificherà {count} note.',
+            confirm: 'Unisci tag',
+            affectedNotes: 'Note interessate',
+            skippedTags: 'Tag saltati',
+            skipReasons: {
+                sameAsTarget: 'uguale al tag di destinazione',
+                containsTarget: 'il tag di destinazione è annidato sotto questo tag',
+                nestedInSource: 'unito insieme al suo tag padre',
+                noNotes: 'non usato in nessuna nota'
+            },
+            alreadyTagged: 'Note che hanno già {tag}',
+            alreadyTaggedDescription: 'Queste note conterranno il tag di destinazione più di una volta.',
+            multipleSources: 'Note con più tag uniti',
+            multipleSourcesDescription: 'Ognuna di queste note conterrà il tag di destinazione più di una volta.',
+            nestedCollisions: 'Collisioni di tag annidati',
+            nestedCollisionsDescription: 'Questi tag annidati confluiscono in tag annidati già esistenti.',
+            notFinalized: 'Metadati non spostati',
+            notFinalizedDescription:
+                'Alcune note con questi tag non sono state aggiornate, quindi icone, colori e scorciatoie sono stati mantenuti.',
+            reportTitle: 'Unito in {tag}'
+        },
+        tagSplit: {
+            title: 'Dividi tag {tag}',
+            description:
+                '{count} {files} con esattamente {tag}. Ogni nota passa al tag figlio della prima regola corrispondente. Le note senza regola corrispondente mantengono {tag}.',
+            childPlaceholder: 'Tag figlio',
+            kinds: {
+                folder: 'Cartella',
+                query: 'Query di filtro'
+            },
+            folderPlaceholder: 'Percorso cartella (incluse sottocartelle)',
+            queryPlaceholder: 'Query di filtro di ricerca',
+            addRule: 'Aggiungi regola',
+            preview: 'Anteprima divisione',
+            nothingMatched: 'Nessuna nota corrisponde alle regole.',
+            previewTitle: 'Dividi {tag}',
+            previewDescription: '{count} note su {total} con {tag} passeranno a un tag figlio.',
+            confirm: 'Dividi tag',
+            invalidRules: 'Regole che non possono essere valutate',
+            invalidRulesDescription: 'Le query di filtro richiedono criteri di ricerca e una cache delle note pronta.',
+            unmatched: 'Note senza regola corrispondente',
+            unmatchedDescription: 'Queste note mantengono {tag}.',
+            reportTitle: '{tag} diviso'
+        },
         fileSystem: {
             newFolderTitle: 'Nuova cartella',
             renameFolderTitle: 'Rinomina cartella',
@@ -499,6 +733,10 @@ export const STRINGS_IT = {
             deleteFileAttachmentsTitle: 'Eliminare gli allegati del file?',
             moveFileConflictTitle: 'Conflitto di spostamento',
             folderNamePrompt: 'Inserisci nome cartella:',
+            newNoteTitle: 'Nuova nota',
+            noteTitlePrompt: 'Inserisci il titolo della nota:',
+            createNoteButton: 'Crea',
+            newNoteFileNamePrompt: 'Schema nome file, es. {{date:YYYYMMDDHHmm}} {{title}}. Lascia vuoto per usare il predefinito.',
             hideInOtherVaultProfiles: 'Nascondi in altri profili vault',
             renamePrompt: 'Inserisci nuovo nome:',
             renameVaultTitle: 'Cambia nome visualizzato vault',
@@ -592,6 +830,23 @@ export const STRINGS_IT = {
             applyButton: 'Applica',
             emptyState: 'Nessuna chiave proprietà trovata.'
         },
+        smartFolder: {
+            newTitle: 'Nuova cartella intelligente',
+            newNestedTitle: 'Nuova cartella intelligente in {name}',
+            editTitle: 'Modifica cartella intelligente',
+            nameLabel: 'Nome',
+            namePlaceholder: 'Nome della cartella intelligente',
+            queryLabel: 'Query di filtro',
+            queryPlaceholder: '#project AND -#archived',
+            queryDescription:
+                'Usa la sintassi della ricerca con filtri. Le cartelle intelligenti annidate elencano solo le note che corrispondono anche alle query delle cartelle superiori.',
+            create: 'Crea',
+            save: 'Salva',
+            emptyName: 'Il nome della cartella intelligente non può essere vuoto',
+            duplicateName: 'Qui esiste già una cartella intelligente con questo nome',
+            deleteTitle: 'Eliminare la cartella intelligente "{name}"?',
+            deleteMessage: 'Anche le cartelle intelligenti annidate vengono eliminate. Le note non vengono modificate.'
+        },
         welcome: {
             title: 'Benvenuto in {pluginName}',
             introText:
@@ -674,6 +929,10 @@ export const STRINGS_IT = {
             iconPackUpdated: '{provider} aggiornato ({version})',
             iconPackRemoved: '{provider} rimosso',
             iconPackLoadFailed: 'Impossibile caricare {provider}',
+            folderMetadataWritten: 'Metadati scritti per {count} cartelle',
+            folderMetadataLoaded: 'Metadati caricati per {count} cartelle',
+            folderMetadataStorageDisabled:
+                "Scegli prima l'archiviazione nella nota cartella o nel file affiancato nelle impostazioni Cartelle",
             hiddenFileReveal: 'Il file è nascosto. Abilita "Mostra elementi nascosti" per visualizzarlo'
         },
         confirmations: {
@@ -703,7 +962,62 @@ export const STRINGS_IT = {
             filesAlreadyHaveProperty: '{count} file hanno già questa proprietà',
             noTagsToClear: 'Nessun tag da rimuovere',
             fileImported: 'Importato 1 file',
-            filesImported: 'Importati {count} file'
+            filesImported: 'Importati {count} file',
+            filesMoved: '{count} file spostati in {folder}'
+        }
+    },
+
+    // Undo history
+    undoHistory: {
+        undo: 'Annulla',
+        undone: 'Annullato: {action}',
+        redone: 'Ripetuto: {action}',
+        nothingToUndo: 'Niente da annullare',
+        nothingToRedo: 'Niente da ripetere',
+        failed: 'Impossibile annullare "{action}": {error}',
+        partial: 'Impossibile ripristinare {count} elementi',
+        actions: {
+            moveFile: 'Sposta "{name}"',
+            moveFiles: 'Sposta {count} file',
+            moveFolder: 'Sposta cartella "{name}"',
+            renameFile: 'Rinomina "{name}"',
+            renameFolder: 'Rinomina cartella "{name}"',
+            addTag: 'Aggiungi tag #{tag}',
+            removeTag: 'Rimuovi tag #{tag}',
+            renameProperty: 'Rinomina proprietà {oldKey} → {newKey}',
+            editProperty: 'Modifica proprietà {property}',
+            renamePropertyValue: 'Rinomina valore di {property} {oldValue} → {newValue}',
+            changeAppearance: 'Cambia aspetto di "{name}"'
+        }
+    },
+
+    // Vault statistics dashboard
+    statisticsDashboard: {
+        refresh: 'Aggiorna',
+        loading: 'In attesa della cache delle note...',
+        unavailable: 'Impossibile calcolare le statistiche.',
+        empty: 'Nessun dato',
+        weekLabel: 'Settimana del {date}',
+        createdCount: '{count} create',
+        modifiedCount: '{count} modificate',
+        summary: {
+            notes: 'Note',
+            words: 'Parole',
+            openTasks: 'Attività aperte',
+            untagged: 'Note senza tag',
+            orphaned: 'Note orfane',
+            orphanedDescription: "Note a cui nessun'altra nota rimanda"
+        },
+        sections: {
+            activity: 'Note create e modificate per settimana',
+            wordsPerFolder: 'Parole per cartella',
+            openTasksPerFolder: 'Attività aperte per cartella',
+            topTags: 'Tag principali',
+            topProperties: 'Proprietà principali'
+        },
+        legend: {
+            created: 'Create',
+            modified: 'Modificate'
         }
     },
 
@@ -728,8 +1042,10 @@ export const STRINGS_IT = {
         revealFile: 'Mostra file', // Command palette: Reveals and selects the currently active file in the navigator (English: Reveal file)
         search: 'Cerca', // Command palette: Toggle search in the file list (English: Search)
         searchVaultRoot: 'Cerca nella radice del vault', // Command palette: Selects the vault root folder and focuses search (English: Search in vault root)
+        createSmartFolder: 'Crea cartella intelligente dalla ricerca',
         toggleDualPane: 'Attiva/disattiva doppio pannello', // Command palette: Toggles between single-pane and dual-pane layout (English: Toggle dual pane layout)
         toggleCalendar: 'Attiva/disattiva calendario', // Command palette: Toggles showing the calendar overlay in the navigation pane (English: Toggle calendar)
+        openStatistics: 'Apri statistiche del vault', // Command palette: Opens the vault statistics dashboard (English: Open vault statistics)
         selectVaultProfile: 'Seleziona profilo vault', // Command palette: Opens a modal to choose a different vault profile (English: Select vault profile)
         selectVaultProfile1: 'Seleziona profilo vault 1', // Command palette: Activates the first vault profile without opening the modal (English: Select vault profile 1)
         selectVaultProfile2: 'Seleziona profilo vault 2', // Command palette: Activates the second vault profile without opening the modal (English: Select vault profile 2)
@@ -738,12 +1054,18 @@ export const STRINGS_IT = {
         createNewNote: 'Crea nuova nota', // Command palette: Creates a new note in the currently selected folder (English: Create new note)
         createNewNoteFromTemplate: 'Nuova nota da modello', // Command palette: Creates a new note from a template in the currently selected folder (English: Create new note from template)
         moveFiles: 'Sposta file', // Command palette: Move selected files to another folder (English: Move files)
+        undo: 'Annulla operazione sui file', // Command palette: Reverse the most recent file operation (English: Undo file operation)
+        redo: 'Ripeti operazione sui file', // Command palette: Reapply the most recently undone file operation (English: Redo file operation)
         selectNextFile: 'Seleziona file successivo', // Command palette: Selects the next file in the current view (English: Select next file)
         selectPreviousFile: 'Seleziona file precedente', // Command palette: Selects the previous file in the current view (English: Select previous file)
         convertToFolderNote: 'Converti in nota cartella', // Command palette: Converts the active file into a folder note with a new folder (English: Convert to folder note)
         setAsFolderNote: 'Imposta come nota cartella', // Command palette: Renames the active file to its folder note name (English: Set as folder note)
         detachFolderNote: 'Scollega nota cartella', // Command palette: Renames the active folder note to a new name (English: Detach folder note)
         pinAllFolderNotes: 'Fissa tutte le note cartella', // Command palette: Pins all folder notes to shortcuts (English: Pin all folder notes)
+        writeFolderMetadataFiles: 'Scrivi metadati delle cartelle nei file', // Command palette: Writes folder icons, colors, sort overrides and appearances to folder notes or sidecars (English: Write folder metadata to files)
+        reloadFolderMetadataFiles: 'Ricarica metadati delle cartelle dai file', // Command palette: Reads folder metadata from folder notes or sidecars into settings (English: Reload folder metadata from files)
+        exportConfiguration: 'Esporta pacchetto di configurazione', // Command palette: Writes a configuration bundle JSON file to the vault root (English: Export configuration bundle)
+        importConfiguration: 'Importa pacchetto di configurazione', // Command palette: Opens a dialog to import sections of a configuration bundle (English: Import configuration bundle)
         navigateToFolder: 'Vai alla cartella', // Command palette: Navigate to a folder using fuzzy search (English: Navigate to folder)
         navigateToTag: 'Vai al tag', // Command palette: Navigate to a tag using fuzzy search (English: Navigate to tag)
         navigateToProperty: 'Vai alla proprietà', // Command palette: Navigate to a property key or value using fuzzy search (English: Navigate to property)
@@ -757,6 +1079,8 @@ export const STRINGS_IT = {
         addTag: 'Aggiungi tag ai file selezionati', // Command palette: Opens a dialog to add a tag to selected files (English: Add tag to selected files)
         removeTag: 'Rimuovi tag dai file selezionati', // Command palette: Opens a dialog to remove a tag from selected files (English: Remove tag from selected files)
         removeAllTags: 'Rimuovi tutti i tag dai file selezionati', // Command palette: Removes all tags from selected files (English: Remove all tags from selected files)
+        mergeTags: 'Unisci tag', // Command palette: Opens a dialog to merge several tags into one tag (English: Merge tags)
+        editProperties: 'Modifica proprietà dei file selezionati', // Command palette: Opens a dialog to set, append to, or remove a property on selected files (English: Edit properties of selected files)
         openAllFiles: 'Apri tutti i file', // Command palette: Opens all files in the current folder or tag (English: Open all files)
         rebuildCache: 'Ricostruisci cache' // Command palette: Rebuilds the local Notebook Navigator cache (English: Rebuild cache)
     },
@@ -765,6 +1089,7 @@ export const STRINGS_IT = {
     plugin: {
         viewName: 'Notebook Navigator', // Name shown in the view header/tab (English: Notebook Navigator)
         calendarViewName: 'Calendario', // Name shown in the view header/tab (English: Calendar)
+        statisticsViewName: 'Statistiche del vault', // Name shown in the statistics view header/tab (English: Vault statistics)
         ribbonTooltip: 'Notebook Navigator', // Tooltip for the ribbon icon in the left sidebar (English: Notebook Navigator)
         revealInNavigator: 'Mostra in Notebook Navigator' // Context menu item to reveal a file in the navigator (English: Reveal in Notebook Navigator)
     },
@@ -863,7 +1188,13 @@ export const STRINGS_IT = {
                     'filename-asc': 'Nome file (A in alto)',
                     'filename-desc': 'Nome file (Z in alto)',
                     'property-asc': 'Proprietà (A in alto)',
-                    'property-desc': 'Proprietà (Z in alto)'
+                    'property-desc': 'Proprietà (Z in alto)',
+                    'wordcount-desc': 'Numero di parole (più in alto)',
+                    'wordcount-asc': 'Numero di parole (meno in alto)',
+                    'tasks-desc': 'Attività aperte (più in alto)',
+                    'tasks-asc': 'Attività aperte (meno in alto)',
+                    'size-desc': 'Dimensione file (più grandi in alto)',
+                    'size-asc': 'Dimensione file (più piccoli in alto)'
                 },
                 propertyOverride: {
                     asc: 'Proprietà ‘{property}’ (A in alto)',
@@ -889,6 +1220,10 @@ export const STRINGS_IT = {
                 name: 'Scorri al file selezionato quando la lista cambia',
                 desc: "Scorri al file selezionato quando fissi note, mostri note discendenti, cambi l'aspetto cartella o esegui operazioni sui file."
             },
+            searchNoteContent: {
+                name: 'Cerca nel contenuto delle note',
+                desc: 'Crea un indice full-text locale del corpo delle note per la ricerca con filtri. Abilita i filtri `content:` e fa corrispondere le parole semplici anche al testo oltre ai nomi dei file. Non richiede Omnisearch.'
+            },
             includeDescendantNotes: {
                 name: 'Mostra note da sottocartelle / discendenti',
                 desc: 'Includi note da sottocartelle nidificate e tag discendenti quando visualizzi una cartella o tag.'
@@ -903,11 +1238,13 @@ export const STRINGS_IT = {
             },
             groupNotes: {
                 name: 'Raggruppa note',
-                desc: 'Visualizza intestazioni tra note raggruppate per data o cartella. Le viste tag usano gruppi per data quando il raggruppamento per cartella è abilitato.',
+                desc: 'Visualizza intestazioni tra note raggruppate per data, cartella, tag, lettera iniziale o valore di proprietà. Le viste tag usano gruppi per data quando il raggruppamento per cartella è abilitato.',
                 options: {
                     none: 'Non raggruppare',
                     date: 'Raggruppa per data',
-                    folder: 'Raggruppa per cartella'
+                    folder: 'Raggruppa per cartella',
+                    tag: 'Raggruppa per tag',
+                    alphabetical: 'Raggruppa in ordine alfabetico'
                 }
             },
             showPinnedGroupHeader: {
@@ -954,6 +1291,11 @@ export const STRINGS_IT = {
                 placeholder: '# Extension=icon\ncpp=LiFileCode\npdf=RaBook',
                 editTooltip: 'Modifica mappature'
             },
+            fileStyleRules: {
+                name: 'Regole di stile dei file',
+                desc: "Assegna un'icona e un colore ai file che corrispondono a una query del filtro di ricerca, es. una spunta per .status=done o grigio per folder:archive. Le regole sono salvate nel profilo del vault.",
+                buttonText: 'Modifica regole'
+            },
             optimizeNoteHeight: {
                 name: 'Altezza nota variabile',
                 desc: 'Usa altezza compatta per note fissate e note senza testo anteprima.'
@@ -1034,6 +1376,15 @@ export const STRINGS_IT = {
                 name: 'Apri nuove note in una nuova scheda',
                 desc: 'Quando attivo, il comando Crea nuova nota apre le note in una nuova scheda. Quando disattivo, le note sostituiscono la scheda corrente.'
             },
+            newNoteFileNamePattern: {
+                name: 'Nome file nuove note',
+                desc: 'Schema del nome file per le nuove note. Supporta {{date}}, {{date:FORMAT}}, {{time}} e {{title}}. Le cartelle possono sovrascriverlo dal menu cartella. Lascia vuoto per "Senza titolo".',
+                placeholder: '{{date:YYYY-MM-DD}} {{title}}'
+            },
+            promptForNewNoteTitle: {
+                name: 'Chiedi il titolo alla creazione',
+                desc: "Mostra una richiesta di titolo prima di creare una nota. Il titolo riempie {{title}} nello schema, o diventa il nome file se non c'è uno schema."
+            },
             autoRevealActiveNote: {
                 name: 'Auto-mostra nota attiva',
                 desc: 'Mostra automaticamente le note quando aperte da Switcher rapido, link o ricerca.'
@@ -1210,6 +1561,11 @@ export const STRINGS_IT = {
                 desc: 'Il selettore file modello mostra le note da questa cartella.',
                 placeholder: 'Templates'
             },
+            noteTemplateRules: {
+                name: 'Regole dei modelli di nota',
+                desc: 'Applica un modello e uno schema di nome file alle note create da una cartella, un tag o una proprietà.',
+                buttonText: 'Modifica regole'
+            },
             calendarCustomFilePattern: {
                 name: 'Note giornaliere',
                 desc: "Formatta percorso usando formato data Moment. Racchiudi i nomi delle sottocartelle tra parentesi quadre, es. [Work]/YYYY. Clicca sull'icona del modello per impostare un modello. Impostare la posizione della cartella modelli in Generale > Modelli.",
@@ -1266,6 +1622,16 @@ export const STRINGS_IT = {
                 notice: 'Impostazioni ripristinate. Riavvia Obsidian o riapri Notebook Navigator per applicare.',
                 error: 'Impossibile ripristinare le impostazioni.'
             },
+            configBundle: {
+                name: 'Pacchetto di configurazione',
+                desc: 'Esporta profili del vault, scorciatoie, stili, aspetto, ordinamenti personalizzati, mappe delle icone e scorciatoie da tastiera in un file JSON nella radice del vault, oppure importa un pacchetto per configurare un altro vault.',
+                exportButton: 'Esporta',
+                importButton: 'Importa',
+                exportSuccess: 'Configurazione esportata in {filename}',
+                exportFailed: 'Esportazione della configurazione non riuscita.',
+                importSuccess: 'Configurazione importata.',
+                importFailed: 'Importazione della configurazione non riuscita.'
+            },
             multiSelectModifier: {
                 name: 'Modificatore selezione multipla',
                 desc: 'Scegli quale tasto modificatore attiva la selezione multipla. Quando Option/Alt è selezionato, Cmd/Ctrl click apre le note in una nuova scheda.',
@@ -1290,6 +1656,14 @@ export const STRINGS_IT = {
                 name: 'Ctrl+Invio',
                 desc: 'Apri il file selezionato in una nuova scheda, divisione o finestra premendo Ctrl+Invio.'
             },
+            vimKeyboardNavigation: {
+                name: 'Sequenze di tasti stile Vim',
+                desc: "gg e G saltano al primo e all'ultimo elemento, dd elimina, zc e zo comprimono ed espandono, / apre la ricerca. Le scorciatoie personalizzate hanno la precedenza."
+            },
+            typeAheadFind: {
+                name: 'Ricerca durante la digitazione',
+                desc: 'Digitando lettere si passa alla prima cartella, tag o nota il cui nome inizia con il testo digitato. Non disponibile con le sequenze stile Vim attive.'
+            },
             fileVisibility: {
                 name: 'Mostra tipi file (profilo vault)',
                 desc: 'Filtra quali tipi di file vengono mostrati nel navigatore. I tipi file non supportati da Obsidian potrebbero aprirsi in applicazioni esterne.',
@@ -1413,6 +1787,10 @@ export const STRINGS_IT = {
                     none: 'Nessuno'
                 }
             },
+            showTaskProgress: {
+                name: 'Avanzamento attività',
+                desc: 'Mostra una barra di completamento e la prossima scadenza per le note con attività.'
+            },
             propertyFields: {
                 name: 'Chiavi proprietà (profilo cassaforte)',
                 desc: "Chiavi proprietà dei metadati, con visibilità per chiave per la navigazione e l'elenco file.",
@@ -1525,6 +1903,15 @@ export const STRINGS_IT = {
                     alphaDesc: 'Z a A'
                 }
             },
+            folderMetadataStorage: {
+                name: 'Archiviazione dei metadati delle cartelle',
+                desc: 'Salva anche icone, colori, ordinamenti personalizzati e aspetto delle cartelle nel vault, così viaggiano con la cartella tramite sincronizzazione o git. Le modifiche vengono sincronizzate in entrambe le direzioni. Esegui "Scrivi metadati delle cartelle nei file" per migrare i metadati esistenti.',
+                options: {
+                    settings: 'Solo impostazioni del plugin',
+                    folderNote: 'Frontmatter della nota cartella',
+                    sidecar: 'File affiancato .folder.yml'
+                }
+            },
             showNoteCount: {
                 name: 'Mostra conteggio note',
                 desc: 'Visualizza il numero di note accanto a ogni cartella e tag.'
@@ -1640,6 +2027,11 @@ export const STRINGS_IT = {
                 name: 'Mostra cartella proprietà',
                 desc: 'Visualizza "Proprietà" come cartella comprimibile.'
             },
+            propertyHierarchies: {
+                name: 'Gerarchie di proprietà',
+                desc: 'Annida le note in cartelle virtuali per valore di proprietà, un livello per chiave. Una gerarchia per riga come `Name: key > key > key`. Le chiavi devono essere elencate anche nelle chiavi delle proprietà.',
+                placeholder: 'Research: type > status > project'
+            },
             hiddenTags: {
                 name: 'Nascondi tag (profilo vault)',
                 desc: 'Lista di pattern tag separati da virgola. Pattern nome: tag* (inizia con), *tag (finisce con). Pattern percorso: archivio (tag e discendenti), archivio/* (solo discendenti), progetti/*/bozze (wildcard intermedio).',
@@ -46,7 +46,10 @@ export const STRINGS_JA = {
         pinnedSection: 'ピン留め', // Header for the pinned notes section at the top of file list (English: Pinned)
         notesSection: 'ノート', // Header shown between pinned and regular items when showing documents only (English: Notes)
         filesSection: 'ファイル', // Header shown between pinned and regular items when showing supported or all files (English: Files)
-        hiddenItemAriaLabel: '{name} (非表示)' // Accessibility label applied to list items that are normally hidden
+        noPropertyValue: '値なし', // Header for notes without a value when grouping by property (English: No value)
+        hiddenItemAriaLabel: '{name} (非表示)', // Accessibility label applied to list items that are normally hidden
+        taskProgressAriaLabel: '{total} 件中 {completed} 件のタスクが完了', // Accessibility label for the task progress bar in file items
+        taskDue: '期限 {date}' // Next due date shown next to the task progress bar (English: Due {date})
     },
 
     // Tag list
@@ -60,6 +63,7 @@ export const STRINGS_JA = {
         recentNotesHeader: '最近のノート',
         recentFilesHeader: '最近のファイル',
         properties: 'プロパティ',
+        smartFolders: 'スマートフォルダ',
         reorderRootFoldersTitle: 'ナビゲーションを並び替え',
         reorderRootFoldersHint: '矢印またはドラッグで並び替え',
         vaultRootLabel: 'ボールト',
@@ -129,6 +133,7 @@ export const STRINGS_JA = {
         mobileBackToNavigation: 'ナビゲーションに戻る', // Mobile-only back button text to return to navigation pane (English: Back to navigation)
         changeSortOrder: '並び順を変更', // Tooltip for the sort order toggle button (English: Change sort order)
         defaultSort: 'デフォルト', // Label for default sorting mode (English: Default)
+        customSortChain: 'カスタム並べ替えチェーン...',
         showFolders: 'ナビゲーションを表示', // Tooltip for button to show the navigation pane (English: Show navigation)
         reorderRootFolders: 'ナビゲーションを並び替え',
         finishRootFolderReorder: '完了',
@@ -169,6 +174,15 @@ export const STRINGS_JA = {
                         '`-word` ファイル名に「word」を含むノートを除外。'
                     ]
                 },
+                content: {
+                    title: 'ノートの本文',
+                    items: [
+                        '`content:単語` 本文に「単語」で始まる語を含むノートに一致します。',
+                        '`content:"二つ の語"` すべての語が本文に含まれている必要があります。',
+                        '`-content:単語` 本文に「単語」で始まる語を含むノートを除外します。',
+                        'リストペイン設定の **ノートの本文を検索** が必要です。有効にすると、通常の語も本文に一致します。'
+                    ]
+                },
                 tags: {
                     title: 'タグ',
                     items: [
@@ -192,6 +206,8 @@ export const STRINGS_JA = {
                         '`."Reading Status"="In Progress"` 空白を含むキーと値はダブルクォートで囲む必要があります。',
                         '`-.key` プロパティキーを持つノートを除外する。',
                         '`-.key=value` プロパティ値を持つノートを除外する。',
+                        '`.key>=3`, `.key<2026-11-01` 数値または日付のプロパティを `>`, `>=`, `<`, `<=` で比較する。',
+                        '`.key:thisweek`, `.key:1..5`, `.key:2026-11-01..2026-11-30` 相対日付、日付、数値、または両端を含む範囲に一致させる。',
                         'Cmd/Ctrl+クリックでプロパティをANDで追加。Cmd/Ctrl+Shift+クリックでORで追加。'
                     ]
                 },
@@ -200,6 +216,8 @@ export const STRINGS_JA = {
                     items: [
                         '`has:task` 未完了のタスクを含むノートを表示。',
                         '`-has:task` 未完了のタスクを含むノートを除外。',
+                        '`due:overdue`, `due:today`, `due:thisweek` 範囲内に期限がある未完了タスクを含むノートを表示（Tasks の `📅` 日付または Dataview の `[due:: ]` フィールド）。',
+                        '`due:2026-11-01..2026-11-30` 期限の日付または範囲に一致。`-due:...` は一致する未完了タスクを含むノートを除外します。',
                         '`folder:meetings` フォルダ名に `meetings` を含むノートを表示。',
                         '`folder:/work/meetings` `work/meetings` 内のノートのみを表示（サブフォルダを除く）。',
                         '`folder:/` ボールトルート内のノートのみを表示。',
@@ -211,13 +229,13 @@ export const STRINGS_JA = {
                     ]
                 },
                 connectors: {
-                    title: 'AND/ORの動作',
+                    title: 'AND/OR/NOT とグループ化',
                     items: [
-                        '`AND`と`OR`はタグ/プロパティのみのクエリでのみ演算子として機能します。',
-                        'タグ/プロパティのみのクエリにはタグとプロパティのフィルターのみが含まれます: `#tag`、`-#tag`、`#`、`-#`、`.key`、`-.key`、`.key=value`、`-.key=value`。',
-                        'クエリに名前、日付（`@...`）、タスクフィルター（`has:task`）、フォルダフィルター（`folder:...`）、または拡張子フィルター（`ext:...`）が含まれる場合、`AND`と`OR`は単語として検索されます。',
-                        '演算子クエリの例: `#work OR .status=started`。',
-                        '混合クエリの例: `#work OR ext:md`（`OR`はファイル名で検索されます）。'
+                        'クエリにフィルター（`#tag`、`.key`、`@date`、`has:task`、`due:`、`folder:`、`ext:`、`content:`）または括弧が含まれる場合、`AND`、`OR`、`NOT` は演算子になります。',
+                        '`( )` で条件をグループ化します: `(folder:Projects OR folder:Areas) AND #active AND -ext:pdf`。',
+                        '`NOT 条件` または `-条件` で条件を除外します。`-( )` でグループ全体を除外します。',
+                        '`NOT` は `AND` より、`AND` は `OR` より優先されます。隣接する条件は暗黙の AND で結合されます。',
+                        '単語のみで括弧のないクエリでは、`AND`、`OR`、`NOT` はファイル名の単語として照合されます（例: `black or white`）。'
                     ]
                 },
                 dates: {
@@ -279,6 +297,7 @@ export const STRINGS_JA = {
             addTag: 'タグを追加',
             removeTag: 'タグを削除',
             removeAllTags: 'すべてのタグを削除',
+            editProperties: 'プロパティを編集',
             changeIcon: 'アイコンを変更',
             changeColor: '色を変更',
             // File-specific context menu items (non-markdown files)
@@ -298,6 +317,7 @@ export const STRINGS_JA = {
         folder: {
             newNote: '新規ノート',
             newNoteFromTemplate: 'テンプレートから新規ノート',
+            newNoteFileName: '新規ノートのファイル名...',
             newFolder: '新規フォルダ',
             newCanvas: '新規キャンバス',
             newBase: '新規データベース',
@@ -322,14 +342,24 @@ export const STRINGS_JA = {
             changeIcon: 'アイコンを変更',
             changeColor: '色を変更',
             changeBackground: '背景色を変更',
+            mergeTags: 'タグを統合...',
+            splitTag: 'タグを分割...',
             showTag: 'タグを表示',
             hideTag: 'タグを非表示'
         },
         property: {
             addKey: 'プロパティキーを設定',
             renameKey: 'プロパティの名前を変更',
+            renameValue: '値の名前を変更',
+            mergeValue: '値に統合...',
             deleteKey: 'プロパティを削除'
         },
+        smartFolder: {
+            newSmartFolder: '新しいスマートフォルダ',
+            newNestedSmartFolder: '新しいネストされたスマートフォルダ',
+            editSmartFolder: 'スマートフォルダを編集',
+            deleteSmartFolder: 'スマートフォルダを削除'
+        },
         navigation: {
             addSeparator: '区切り線を追加',
             removeSeparator: '区切り線を削除'
@@ -355,11 +385,25 @@ export const STRINGS_JA = {
     folderAppearance: {
         standardPreset: '標準',
         compactPreset: 'コンパクト',
+        gridPreset: 'グリッド',
+        boardPreset: 'ボード...',
+        boardPresetOption: (property: string) => `ボード (${property})`,
+        boardPropertyAction: 'プロパティでボードの列を作成',
+        boardPropertyPlaceholder: 'プロパティキー',
+        tileSize: 'タイルサイズ',
+        tileSizeOptions: {
+            small: '小さいタイル',
+            medium: '中くらいのタイル',
+            large: '大きいタイル'
+        },
         defaultSuffix: '(デフォルト)',
         defaultLabel: 'デフォルト',
         titleRows: 'タイトル行数',
         previewRows: 'プレビュー行数',
         groupBy: 'グループ分け',
+        groupByPropertyAction: 'プロパティでグループ化...',
+        groupByPropertyPlaceholder: 'プロパティキー',
+        groupByPropertyOption: (property: string) => `プロパティでグループ化 (${property})`,
         defaultTitleOption: (rows: number) => `デフォルトタイトル行数 (${rows})`,
         defaultPreviewOption: (rows: number) => `デフォルトプレビュー行数 (${rows})`,
         defaultGroupOption: (groupLabel: string) => `デフォルトのグループ化 (${groupLabel})`,
@@ -383,6 +427,89 @@ export const STRINGS_JA = {
         fileIconRuleEditor: {
             addRuleAria: 'ルールを追加'
         },
+        sortChain: {
+            title: 'カスタム並べ替えチェーン',
+            description: 'ノートは最初のキーで並べ替えられます。後続の各キーは、上のキーで同じ値のノートを並べ替えます。',
+            propertyPlaceholder: 'プロパティキー',
+            ascending: '昇順',
+            descending: '降順',
+            addKey: '並べ替えキーを追加',
+            moveUp: '上へ移動',
+            moveDown: '下へ移動',
+            save: '保存',
+            fields: {
+                modified: '編集日時',
+                created: '作成日時',
+                title: 'タイトル',
+                filename: 'ファイル名',
+                property: 'プロパティ',
+                wordcount: '単語数',
+                tasks: '未完了タスク',
+                size: 'ファイルサイズ'
+            }
+        },
+        noteTemplateRules: {
+            title: 'ノートテンプレートルール',
+            description:
+                'フォルダ、タグ、プロパティから作成したノートには、最初に一致したルールのテンプレートとファイル名が使われます。ファイル名では {{date}}、{{date:FORMAT}}、{{time}}、{{title}} が使えます。',
+            folderPatternPlaceholder: 'フォルダパス（例: Meetings、Projects/*/Notes）',
+            tagPatternPlaceholder: 'タグ（例: meeting）',
+            propertyPatternPlaceholder: 'プロパティ（例: type、type=meeting）',
+            templatePlaceholder: 'テンプレートファイル',
+            fileNamePlaceholder: 'ファイル名パターン（例: {{date}} Meeting）',
+            emptyState: 'ルールがありません。新しいノートは空で作成されます。',
+            addRule: 'ルールを追加',
+            moveUp: '上へ移動',
+            moveDown: '下へ移動',
+            save: '保存',
+            targets: {
+                folder: 'フォルダ',
+                tag: 'タグ',
+                property: 'プロパティ'
+            }
+        },
+        fileStyleRules: {
+            title: 'ファイルスタイルルール',
+            description:
+                'ルールのクエリに一致するファイルにそのアイコンと色を適用します。クエリは検索フィルターの構文を使用します。ルールは上から順に評価され、アイコンを持つ最初の一致ルールがアイコンを、色を持つ最初の一致ルールが色を決定します。ファイルに直接設定したアイコンと色が優先されます。',
+            queryPlaceholder: 'フィルタークエリ（例: .status=done、#meeting、folder:archive）',
+            emptyState: 'ルールはありません。',
+            setIcon: 'アイコンを設定',
+            setColor: '色を設定',
+            addRule: 'ルールを追加',
+            moveUp: '上へ移動',
+            moveDown: '下へ移動',
+            save: '保存'
+        },
+        configBundleImport: {
+            title: '設定バンドルをインポート',
+            description:
+                '保管庫からバンドルの JSON ファイルを選び、インポートするセクションを選択します。インポートした値は通常の設定と同様に検証されます。',
+            filePlaceholder: 'バンドルのパス（例: notebook-navigator-config.json）',
+            sectionsLabel: 'インポートするセクション',
+            strategyLabel: '既存の設定',
+            strategies: {
+                merge: 'マージ（バンドルの項目を優先）',
+                replace: '選択したセクションを置き換え'
+            },
+            bundleInfo: '{date} に Notebook Navigator {version} からエクスポート',
+            importButton: 'インポート',
+            sections: {
+                vaultProfiles: '保管庫プロファイルとショートカット',
+                styling: 'フォルダ・タグ・プロパティのアイコンと色',
+                appearances: 'フォルダとタグの表示設定',
+                sortOverrides: '並び順の上書き',
+                iconMaps: 'アイコンマップとインターフェースアイコン',
+                keyboardShortcuts: 'キーボードショートカット'
+            },
+            errors: {
+                invalidJson: 'ファイルが有効な JSON ではありません。',
+                invalidFormat: 'ファイルは Notebook Navigator の設定バンドルではありません。',
+                unsupportedVersion: 'このバンドルは新しいバージョンの Notebook Navigator で作成されています。',
+                empty: 'バンドルにインポートできるセクションがありません。',
+                readFailed: 'ファイルを読み込めませんでした。'
+            }
+        },
         interfaceIcons: {
             title: 'インターフェースアイコン',
             fileItemsSection: 'ファイル項目',
@@ -413,6 +540,8 @@ export const STRINGS_JA = {
                 'nav-properties': 'プロパティ',
                 'nav-property': 'プロパティ',
                 'nav-property-value': '値',
+                'nav-smart-folders': 'スマートフォルダ',
+                'nav-smart-folder': 'スマートフォルダ',
                 'list-pinned': 'ピン留め項目',
                 'file-unfinished-task': '未完了タスク',
                 'file-word-count': '単語数'
@@ -492,6 +621,110 @@ export const STRINGS_JA = {
             deleteSettingsUpdateFailed: 'プロパティ {property} を削除しました。設定の更新に失敗しました。',
             invalidKeyName: '有効なプロパティ名を入力してください。'
         },
+        propertyValueEdit: {
+            title: 'プロパティを編集',
+            description: '{count} 件の{files}のプロパティを変更します。',
+            keyLabel: 'プロパティ',
+            keyPlaceholder: 'プロパティ名',
+            modeLabel: '操作',
+            modes: {
+                set: '値を設定',
+                append: 'リストに追加',
+                remove: 'プロパティを削除'
+            },
+            valueLabel: '値',
+            valuePlaceholder: '値',
+            emptyValue: '（空）',
+            previewTitle: 'プレビュー',
+            changeSummary: '{total} 件中 {count} 件のノートが変更されます',
+            noChanges: '変更が必要なノートはありません。',
+            apply: '適用',
+            successSingle: '1 件のノートでプロパティ {property} を更新しました',
+            successMultiple: '{count} 件のノートでプロパティ {property} を更新しました',
+            partialFailure: '{count} 件のノートでプロパティ {property} を更新しました。{failed} 件のノートを更新できませんでした。'
+        },
+        propertyValueRename: {
+            renameTitle: '値 {value} の名前を変更',
+            renameWarning:
+                '{property}: {value} の名前を変更すると {count} 件の{files}が変更されます。既存の値を入力すると 2 つの値が統合されます。',
+            newValuePrompt: '新しい値',
+            newValuePlaceholder: '新しい値を入力',
+            confirmRename: '値の名前を変更',
+            mergeTitle: '値 {value} を統合',
+            mergeWarning:
+                '{oldValue} を {newValue} に統合すると {count} 件の{files}が変更されます。{newValue} は独自のアイコン、色、ショートカットを保持します。',
+            mergePlaceholder: '{value} の統合先...',
+            mergeInstruction: '統合',
+            confirmMerge: '値を統合',
+            noOtherValues: 'プロパティ {property} に他の値はありません',
+            nestedTarget: '値をそのネストされた値の名前に変更することはできません。',
+            invalidValue: '有効な値を入力してください。',
+            noChanges: '{oldValue} → {newValue}（変更なし）',
+            successSingle: '1 件のノートで {oldValue} → {newValue} に名前を変更しました',
+            successMultiple: '{count} 件のノートで {oldValue} → {newValue} に名前を変更しました',
+            partialFailure: '{count} 件のノートで {oldValue} → {newValue} に名前を変更しました。{failed} 件のノートを更新できませんでした。'
+        },
+        tagOperationSummary: {
+            close: '閉じる',
+            updatedNotes: '更新されたノート',
+            skippedNotes: 'スキップされたノート',
+            skippedDescription: 'これらのノートはプレビュー後に変更されたか、更新する内容がありませんでした。',
+            failedNotes: '失敗したノート',
+            reportSummary: '{total} 件中 {changed} 件のノートを更新しました。'
+        },
+        tagMerge: {
+            title: 'タグを統合',
+            description: '複数のタグを 1 つのタグに統合します。ネストされたタグは親タグと一緒に移動します。',
+            sourcesLabel: '統合するタグ',
+            sourcesPlaceholder: 'カンマ区切りのタグ',
+            targetLabel: '統合先',
+            targetPlaceholder: '統合先のタグ',
+            preview: '統合をプレビュー',
+            nothingToMerge: '統合するタグがありません。タグがノートで使用されており、統合先のタグと異なることを確認してください。',
+            previewTitle: '{tag} に統合',
+            previewDescription: '{tags} を {tag} に統合すると {count} 件のノートが変更されます。',
+            confirm: 'タグを統合',
+            affectedNotes: '対象のノート',
+            skippedTags: 'スキップされたタグ',
+            skipReasons: {
+                sameAsTarget: '統合先のタグと同じ',
+                containsTarget: '統合先のタグがこのタグの下にネストされています',
+                nestedInSource: '親タグと一緒に統合されます',
+                noNotes: 'どのノートでも使用されていません'
+            },
+            alreadyTagged: 'すでに {tag} が付いているノート',
+            alreadyTaggedDescription: 'これらのノートには統合先のタグが複数含まれます。',
+            multipleSources: '複数の統合タグを持つノート',
+            multipleSourcesDescription: 'これらの各ノートには統合先のタグが複数含まれます。',
+            nestedCollisions: 'ネストされたタグの衝突',
+            nestedCollisionsDescription: 'これらのネストされたタグは既存のネストされたタグに統合されます。',
+            notFinalized: 'メタデータは移動されませんでした',
+            notFinalizedDescription: 'これらのタグを持つ一部のノートが更新されなかったため、アイコン、色、ショートカットは保持されました。',
+            reportTitle: '{tag} に統合しました'
+        },
+        tagSplit: {
+            title: 'タグ {tag} を分割',
+            description:
+                '{tag} が付いた{files}が {count} 件あります（子タグを除く）。各ノートは最初に一致したルールの子タグに移動します。どのルールにも一致しないノートは {tag} のままです。',
+            childPlaceholder: '子タグ',
+            kinds: {
+                folder: 'フォルダ',
+                query: 'フィルタークエリ'
+            },
+            folderPlaceholder: 'フォルダパス（サブフォルダを含む）',
+            queryPlaceholder: '検索フィルタークエリ',
+            addRule: 'ルールを追加',
+            preview: '分割をプレビュー',
+            nothingMatched: 'ルールに一致するノートはありません。',
+            previewTitle: '{tag} を分割',
+            previewDescription: '{tag} が付いた {total} 件中 {count} 件のノートが子タグに移動します。',
+            confirm: 'タグを分割',
+            invalidRules: '評価できないルール',
+            invalidRulesDescription: 'フィルタークエリには検索条件と準備済みのノートキャッシュが必要です。',
+            unmatched: '一致するルールのないノート',
+            unmatchedDescription: 'これらのノートは {tag} のままです。',
+            reportTitle: '{tag} を分割しました'
+        },
         fileSystem: {
             newFolderTitle: '新規フォルダ',
             renameFolderTitle: 'フォルダの名前を変更',
@@ -501,6 +734,10 @@ export const STRINGS_JA = {
             deleteFileAttachmentsTitle: 'ファイルの添付ファイルを削除しますか？',
             moveFileConflictTitle: '移動の競合',
             folderNamePrompt: 'フォルダ名を入力：',
+            newNoteTitle: '新規ノート',
+            noteTitlePrompt: 'ノートのタイトルを入力:',
+            createNoteButton: '作成',
+            newNoteFileNamePrompt: 'ファイル名パターン（例: {{date:YYYYMMDDHHmm}} {{title}}）。空欄で既定値を使用します。',
             hideInOtherVaultProfiles: '他の保管庫プロファイルで非表示にする',
             renamePrompt: '新しい名前を入力：',
             renameVaultTitle: 'ボールトの表示名を変更',
@@ -594,6 +831,23 @@ export const STRINGS_JA = {
             applyButton: '適用',
             emptyState: 'プロパティキーが見つかりません。'
         },
+        smartFolder: {
+            newTitle: '新しいスマートフォルダ',
+            newNestedTitle: '{name} 内の新しいスマートフォルダ',
+            editTitle: 'スマートフォルダを編集',
+            nameLabel: '名前',
+            namePlaceholder: 'スマートフォルダ名',
+            queryLabel: 'フィルタークエリ',
+            queryPlaceholder: '#project AND -#archived',
+            queryDescription:
+                'フィルター検索の構文を使用します。ネストされたスマートフォルダには、親フォルダのクエリにも一致するノートのみが表示されます。',
+            create: '作成',
+            save: '保存',
+            emptyName: 'スマートフォルダ名を空にすることはできません',
+            duplicateName: 'この場所には同じ名前のスマートフォルダが既にあります',
+            deleteTitle: 'スマートフォルダ「{name}」を削除しますか？',
+            deleteMessage: 'ネストされたスマートフォルダも削除されます。ノートは変更されません。'
+        },
         welcome: {
             title: '{pluginName}へようこそ',
             introText:
@@ -677,6 +931,9 @@ export const STRINGS_JA = {
             iconPackUpdated: '「{provider}」を更新しました ({version})',
             iconPackRemoved: '「{provider}」を削除しました',
             iconPackLoadFailed: '「{provider}」を読み込めませんでした',
+            folderMetadataWritten: '{count} 個のフォルダのメタデータを書き込みました',
+            folderMetadataLoaded: '{count} 個のフォルダのメタデータを読み込みました',
+            folderMetadataStorageDisabled: '先にフォルダ設定でフォルダノートまたはサイドカーへの保存を選択してください',
             hiddenFileReveal: 'ファイルは非表示です。表示するには「非表示項目を表示」を有効にしてください'
         },
         confirmations: {
@@ -706,7 +963,62 @@ export const STRINGS_JA = {
             filesAlreadyHaveProperty: '{count}個のファイルにはすでにこのプロパティがあります',
             noTagsToClear: 'クリアするタグがありません',
             fileImported: '1個のファイルをインポートしました',
-            filesImported: '{count}個のファイルをインポートしました'
+            filesImported: '{count}個のファイルをインポートしました',
+            filesMoved: '{count}個のファイルを{folder}に移動しました'
+        }
+    },
+
+    // Undo history
+    undoHistory: {
+        undo: '元に戻す',
+        undone: '元に戻しました: {action}',
+        redone: 'やり直しました: {action}',
+        nothingToUndo: '元に戻す操作はありません',
+        nothingToRedo: 'やり直す操作はありません',
+        failed: '「{action}」を元に戻せませんでした: {error}',
+        partial: '{count}個の項目を復元できませんでした',
+        actions: {
+            moveFile: '「{name}」を移動',
+            moveFiles: '{count}個のファイルを移動',
+            moveFolder: 'フォルダ「{name}」を移動',
+            renameFile: '「{name}」の名前を変更',
+            renameFolder: 'フォルダ「{name}」の名前を変更',
+            addTag: 'タグ #{tag} を追加',
+            removeTag: 'タグ #{tag} を削除',
+            renameProperty: 'プロパティ名を変更 {oldKey} → {newKey}',
+            editProperty: 'プロパティ {property} を編集',
+            renamePropertyValue: '{property} の値の名前を変更 {oldValue} → {newValue}',
+            changeAppearance: '「{name}」の外観を変更'
+        }
+    },
+
+    // Vault statistics dashboard
+    statisticsDashboard: {
+        refresh: '更新',
+        loading: 'ノートキャッシュを待機しています...',
+        unavailable: '統計を計算できませんでした。',
+        empty: 'データがありません',
+        weekLabel: '{date} の週',
+        createdCount: '{count} 件作成',
+        modifiedCount: '{count} 件変更',
+        summary: {
+            notes: 'ノート',
+            words: '単語',
+            openTasks: '未完了のタスク',
+            untagged: 'タグなしのノート',
+            orphaned: '孤立したノート',
+            orphanedDescription: '他のノートからリンクされていないノート'
+        },
+        sections: {
+            activity: '週ごとに作成・変更されたノート',
+            wordsPerFolder: 'フォルダごとの単語数',
+            openTasksPerFolder: 'フォルダごとの未完了タスク',
+            topTags: '上位のタグ',
+            topProperties: '上位のプロパティ'
+        },
+        legend: {
+            created: '作成',
+            modified: '変更'
         }
     },
 
@@ -731,8 +1043,10 @@ export const STRINGS_JA = {
         revealFile: 'ファイルを表示', // Command palette: Reveals and selects the currently active file in the navigator (English: Reveal file)
         search: '検索', // Command palette: Toggle search in the file list (English: Search)
         searchVaultRoot: '保管庫のルートで検索', // Command palette: Selects the vault root folder and focuses search (English: Search in vault root)
+        createSmartFolder: '検索からスマートフォルダを作成',
         toggleDualPane: 'デュアルペインレイアウトを切り替え', // Command palette: Toggles between single-pane and dual-pane layout (English: Toggle dual pane layout)
         toggleCalendar: 'カレンダーの切り替え', // Command palette: Toggles showing the calendar overlay in the navigation pane (English: Toggle calendar)
+        openStatistics: '保管庫の統計を開く', // Command palette: Opens the vault statistics dashboard (English: Open vault statistics)
         selectVaultProfile: '保管庫のプロファイルを変更', // Command palette: Opens a modal to choose a different vault profile (English: Switch vault profile)
         selectVaultProfile1: '保管庫プロファイル1を選択', // Command palette: Activates the first vault profile without opening the modal (English: Select vault profile 1)
         selectVaultProfile2: '保管庫プロファイル2を選択', // Command palette: Activates the second vault profile without opening the modal (English: Select vault profile 2)
@@ -741,12 +1055,18 @@ export const STRINGS_JA = {
         createNewNote: '新規ノートを作成', // Command palette: Creates a new note in the currently selected folder (English: Create new note)
         createNewNoteFromTemplate: 'テンプレートから新規ノート', // Command palette: Creates a new note from a template in the currently selected folder (English: Create new note from template)
         moveFiles: 'ファイルを移動', // Command palette: Move selected files to another folder (English: Move files)
+        undo: 'ファイル操作を元に戻す', // Command palette: Reverse the most recent file operation (English: Undo file operation)
+        redo: 'ファイル操作をやり直す', // Command palette: Reapply the most recently undone file operation (English: Redo file operation)
         selectNextFile: '次のファイルを選択', // Command palette: Selects the next file in the current view (English: Select next file)
         selectPreviousFile: '前のファイルを選択', // Command palette: Selects the previous file in the current view (English: Select previous file)
         convertToFolderNote: 'フォルダノートに変換', // Command palette: Converts the active file into a folder note with a new folder (English: Convert to folder note)
         setAsFolderNote: 'フォルダノートとして設定', // Command palette: Renames the active file to its folder note name (English: Set as folder note)
         detachFolderNote: 'フォルダノートを解除', // Command palette: Renames the active folder note to a new name (English: Detach folder note)
         pinAllFolderNotes: 'フォルダノートをすべてピン留め', // Command palette: Pins all folder notes to shortcuts (English: Pin all folder notes)
+        writeFolderMetadataFiles: 'フォルダメタデータをファイルに書き込む', // Command palette: Writes folder icons, colors, sort overrides and appearances to folder notes or sidecars (English: Write folder metadata to files)
+        reloadFolderMetadataFiles: 'フォルダメタデータをファイルから再読み込み', // Command palette: Reads folder metadata from folder notes or sidecars into settings (English: Reload folder metadata from files)
+        exportConfiguration: '設定バンドルをエクスポート', // Command palette: Writes a configuration bundle JSON file to the vault root (English: Export configuration bundle)
+        importConfiguration: '設定バンドルをインポート', // Command palette: Opens a dialog to import sections of a configuration bundle (English: Import configuration bundle)
         navigateToFolder: 'フォルダにナビゲート', // Command palette: Navigate to a folder using fuzzy search (English: Navigate to folder)
         navigateToTag: 'タグにナビゲート', // Command palette: Navigate to a tag using fuzzy search (English: Navigate to tag)
         navigateToProperty: 'プロパティに移動', // Command palette: Navigate to a property key or value using fuzzy search (English: Navigate to property)
@@ -760,6 +1080,8 @@ export const STRINGS_JA = {
         addTag: '選択したファイルにタグを追加', // Command palette: Opens a dialog to add a tag to selected files (English: Add tag to selected files)
         removeTag: '選択したファイルからタグを削除', // Command palette: Opens a dialog to remove a tag from selected files (English: Remove tag from selected files)
         removeAllTags: '選択したファイルからすべてのタグを削除', // Command palette: Removes all tags from selected files (English: Remove all tags from selected files)
+        mergeTags: 'タグを統合', // Command palette: Opens a dialog to merge several tags into one tag (English: Merge tags)
+        editProperties: '選択したファイルのプロパティを編集', // Command palette: Opens a dialog to set, append to, or remove a property on selected files (English: Edit properties of selected files)
         openAllFiles: 'すべてのファイルを開く', // Command palette: Opens all files in the current folder or tag (English: Open all files)
         rebuildCache: 'キャッシュを再構築' // Command palette: Rebuilds the local Notebook Navigator cache (English: Rebuild cache)
     },
@@ -768,6 +1090,7 @@ export const STRINGS_JA = {
     plugin: {
         viewName: 'ノートブックナビゲーター', // Name shown in the view header/tab (English: Notebook Navigator)
         calendarViewName: 'カレンダー', // Name shown in the view header/tab (English: Calendar)
+        statisticsViewName: '保管庫の統計', // Name shown in the statistics view header/tab (English: Vault statistics)
         ribbonTooltip: 'ノートブックナビゲーター', // Tooltip for the ribbon icon in the left sidebar (English: Notebook Navigator)
         revealInNavigator: 'ノートブックナビゲーターで表示' // Context menu item to reveal a file in the navigator (English: Reveal in Notebook Navigator)
     },
@@ -866,7 +1189,13 @@ export const STRINGS_JA = {
                     'filename-asc': 'ファイル名（昇順）',
                     'filename-desc': 'ファイル名（降順）',
                     'property-asc': 'プロパティ（昇順）',
-                    'property-desc': 'プロパティ（降順）'
+                    'property-desc': 'プロパティ（降順）',
+                    'wordcount-desc': '単語数（多いものが上）',
+                    'wordcount-asc': '単語数（少ないものが上）',
+                    'tasks-desc': '未完了タスク（多いものが上）',
+                    'tasks-asc': '未完了タスク（少ないものが上）',
+                    'size-desc': 'ファイルサイズ（大きいものが上）',
+                    'size-asc': 'ファイルサイズ（小さいものが上）'
                 },
                 propertyOverride: {
                     asc: 'プロパティ ‘{property}’（昇順）',
@@ -892,6 +1221,10 @@ export const STRINGS_JA = {
                 name: 'リスト変更時に選択ファイルへスクロール',
                 desc: 'ノートのピン留め、子孫ノートの表示、フォルダ外観の変更、ファイル操作の実行時に選択したファイルへスクロールします。'
             },
+            searchNoteContent: {
+                name: 'ノートの本文を検索',
+                desc: 'フィルター検索用にノート本文のローカル全文インデックスを作成します。`content:` フィルターが使えるようになり、通常の検索語がファイル名に加えて本文にも一致します。Omnisearch は不要です。'
+            },
             includeDescendantNotes: {
                 name: 'サブフォルダ / 子孫のノートを表示',
                 desc: 'フォルダまたはタグを表示するとき、入れ子のサブフォルダとタグの子孫にあるノートを含めます。'
@@ -906,11 +1239,13 @@ export const STRINGS_JA = {
             },
             groupNotes: {
                 name: 'ノートをグループ化',
-                desc: '日付またはフォルダでグループ化されたノート間に見出しを表示します。フォルダでのグループ化が有効な場合、タグビューは日付グループを使用します。',
+                desc: '日付、フォルダ、タグ、頭文字、またはプロパティ値でグループ化されたノート間に見出しを表示します。フォルダでのグループ化が有効な場合、タグビューは日付グループを使用します。',
                 options: {
                     none: 'グループ化しない',
                     date: '日付でグループ化',
-                    folder: 'フォルダでグループ化'
+                    folder: 'フォルダでグループ化',
+                    tag: 'タグでグループ化',
+                    alphabetical: '頭文字でグループ化'
                 }
             },
             showPinnedGroupHeader: {
@@ -957,6 +1292,11 @@ export const STRINGS_JA = {
                 placeholder: '# Extension=icon\ncpp=LiFileCode\npdf=RaBook',
                 editTooltip: 'マッピングを編集'
             },
+            fileStyleRules: {
+                name: 'ファイルスタイルルール',
+                desc: '検索フィルターのクエリに一致するファイルにアイコンと色を付けます（例: .status=done にチェックアイコン、folder:archive にグレー）。ルールは保管庫プロファイルに保存されます。',
+                buttonText: 'ルールを編集'
+            },
             optimizeNoteHeight: {
                 name: '可変ノート高さ',
                 desc: 'ピン留めされたノートとプレビューテキストのないノートにコンパクトな高さを使用。'
@@ -1037,6 +1377,15 @@ export const STRINGS_JA = {
                 name: '新しいノートを新しいタブで開く',
                 desc: '有効にすると、「新しいノートを作成」コマンドでノートが新しいタブに開きます。無効にすると、ノートは現在のタブに置き換わります。'
             },
+            newNoteFileNamePattern: {
+                name: '新規ノートのファイル名',
+                desc: '新規ノートのファイル名パターン。{{date}}、{{date:FORMAT}}、{{time}}、{{title}} が使えます。フォルダメニューからフォルダごとに上書きできます。空欄で「無題」になります。',
+                placeholder: '{{date:YYYY-MM-DD}} {{title}}'
+            },
+            promptForNewNoteTitle: {
+                name: 'ノート作成時にタイトルを尋ねる',
+                desc: 'ノートを作成する前にタイトルを尋ねます。タイトルはファイル名パターンの {{title}} に入り、パターンがない場合はファイル名になります。'
+            },
             autoRevealActiveNote: {
                 name: 'アクティブなノートを自動表示',
                 desc: 'クイックスイッチャー、リンク、検索から開いたときに自動的にノートを表示します。'
@@ -1213,6 +1562,11 @@ export const STRINGS_JA = {
                 desc: 'テンプレートファイルピッカーはこのフォルダからノートを表示します。',
                 placeholder: 'Templates'
             },
+            noteTemplateRules: {
+                name: 'ノートテンプレートルール',
+                desc: 'フォルダ、タグ、プロパティから作成したノートにテンプレートとファイル名パターンを適用します。',
+                buttonText: 'ルールを編集'
+            },
             calendarCustomFilePattern: {
                 name: 'デイリーノート',
                 desc: 'Moment 日付フォーマットを使用してパスを指定。サブフォルダ名は角括弧で囲みます（例：[Work]/YYYY）。テンプレートアイコンをクリックしてテンプレートを設定。 テンプレートフォルダの場所は一般 > テンプレートで設定してください。',
@@ -1267,6 +1621,16 @@ export const STRINGS_JA = {
                 notice: 'すべての設定がリセットされました。Obsidianを再起動するか、Notebook Navigatorを開き直して適用してください。',
                 error: '設定のリセットに失敗しました。'
             },
+            configBundle: {
+                name: '設定バンドル',
+                desc: '保管庫プロファイル、ショートカット、スタイル、表示設定、並び順の上書き、アイコンマップ、キーボードショートカットを保管庫のルートの JSON ファイルにエクスポートするか、バンドルをインポートして別の保管庫を設定します。',
+                exportButton: 'エクスポート',
+                importButton: 'インポート',
+                exportSuccess: '設定を {filename} にエクスポートしました',
+                exportFailed: '設定のエクスポートに失敗しました。',
+                importSuccess: '設定をインポートしました。',
+                importFailed: '設定のインポートに失敗しました。'
+            },
             multiSelectModifier: {
                 name: '複数選択モディファイア',
                 desc: '複数選択を切り替えるモディファイアキーを選択します。Option/Altが選択されている場合、Cmd/Ctrlクリックでノートを新しいタブで開きます。',
@@ -1291,6 +1655,14 @@ export const STRINGS_JA = {
                 name: 'Ctrl+Enter',
                 desc: 'Ctrl+Enterで選択したファイルを新しいタブ、分割、またはウィンドウで開きます。'
             },
+            vimKeyboardNavigation: {
+                name: 'Vim 風キーシーケンス',
+                desc: 'gg と G で最初と最後の項目へ移動、dd で削除、zc と zo で折りたたみと展開、/ で検索を開きます。カスタムホットキーが優先されます。'
+            },
+            typeAheadFind: {
+                name: '入力して検索',
+                desc: '文字を入力すると、名前が入力したテキストで始まる最初のフォルダ、タグ、ノートへ移動します。Vim 風キーシーケンスが有効な間は使用できません。'
+            },
             excludedNotes: {
                 name: 'プロパティルールでノートを非表示 (ボルトプロファイル)',
                 desc: 'カンマ区切りのフロントマタールールのリスト。`key` または `key=value` エントリを使用します（例：status=done, published=true, archived）。',
@@ -1415,6 +1787,10 @@ export const STRINGS_JA = {
                     none: 'なし'
                 }
             },
+            showTaskProgress: {
+                name: 'タスクの進捗',
+                desc: 'タスクを含むノートに完了バーと次の期限を表示します。'
+            },
             propertyFields: {
                 name: 'プロパティキー（保管庫プロファイル）',
                 desc: 'フロントマターのプロパティキー。キーごとにナビゲーションとファイルリストの表示を設定できます。',
@@ -1527,6 +1903,15 @@ export const STRINGS_JA = {
                     alphaDesc: 'Z から A'
                 }
             },
+            folderMetadataStorage: {
+                name: 'フォルダメタデータの保存先',
+                desc: 'フォルダのアイコン、色、並び順の上書き、表示設定を保管庫内にも保存し、同期や git でフォルダと一緒に移動できるようにします。変更は双方向に同期されます。既存のメタデータを移行するには「フォルダメタデータをファイルに書き込む」を実行してください。',
+                options: {
+                    settings: 'プラグイン設定のみ',
+                    folderNote: 'フォルダノートのフロントマター',
+                    sidecar: '.folder.yml サイドカーファイル'
+                }
+            },
             showNoteCount: {
                 name: 'ノート数を表示',
                 desc: '各フォルダとタグの横にノート数を表示します。'
@@ -1642,6 +2027,11 @@ export const STRINGS_JA = {
                 name: 'プロパティフォルダを表示',
                 desc: '「プロパティ」を折りたたみ可能なフォルダとして表示します。'
             },
+            propertyHierarchies: {
+                name: 'プロパティ階層',
+                desc: 'プロパティ値ごとの仮想フォルダーにノートを入れ子にします。キーごとに 1 階層です。1 行に 1 つの階層を `Name: key > key > key` の形式で記述します。キーはプロパティキーにも登録されている必要があります。',
+                placeholder: 'Research: type > status > project'
+            },
             hiddenTags: {
                 name: 'タグを非表示 (ボルトプロファイル)',
                 desc: 'カンマ区切りのタグパターンリスト。名前パターン: tag*（で始まる）、*tag（で終わる）。パスパターン: archive（タグと子孫）、archive/*（子孫のみ）、projects/*/drafts（中間ワイルドカード）。',
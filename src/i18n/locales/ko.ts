@@ -46,7 +46,10 @@ export const STRINGS_KO = {
         pinnedSection: '고정됨', // Header for the pinned notes section at the top of file list (English: Pinned)
         notesSection: '노트', // Header shown between pinned and regular items when showing documents only (English: Notes)
         filesSection: '파일', // Header shown between pinned and regular items when showing supported or all files (English: Files)
-        hiddenItemAriaLabel: '{name} (숨김)' // Accessibility label applied to list items that are normally hidden
+        noPropertyValue: '값 없음', // Header for notes without a value when grouping by property (English: No value)
+        hiddenItemAriaLabel: '{name} (숨김)', // Accessibility label applied to list items that are normally hidden
+        taskProgressAriaLabel: '작업 {total}개 중 {completed}개 완료', // Accessibility label for the task progress bar in file items
+        taskDue: '마감 {date}' // Next due date shown next to the task progress bar (English: Due {date})
     },
 
     // Tag list
@@ -60,6 +63,7 @@ export const STRINGS_KO = {
         recentNotesHeader: '최근 노트',
         recentFilesHeader: '최근 파일',
         properties: '속성',
+        smartFolders: '스마트 폴더',
         reorderRootFoldersTitle: '내비게이션 재정렬',
         reorderRootFoldersHint: '화살표 또는 드래그로 재정렬',
         vaultRootLabel: '보관함',
@@ -129,6 +133,7 @@ export const STRINGS_KO = {
         mobileBackToNavigation: '탐색으로 돌아가기', // Mobile-only back button text to return to navigation pane (English: Back to navigation)
         changeSortOrder: '정렬 순서 변경', // Tooltip for the sort order toggle button (English: Change sort order)
         defaultSort: '기본', // Label for default sorting mode (English: Default)
+        customSortChain: '사용자 지정 정렬 체인...',
         showFolders: '탐색 표시', // Tooltip for button to show the navigation pane (English: Show navigation)
         reorderRootFolders: '내비게이션 재정렬',
         finishRootFolderReorder: '완료',
@@ -169,6 +174,15 @@ export const STRINGS_KO = {
                         '`-word` 파일 이름에 "word"가 포함된 노트 제외.'
                     ]
                 },
+                content: {
+                    title: '노트 본문',
+                    items: [
+                        '`content:단어` 본문에 "단어"로 시작하는 단어가 있는 노트와 일치합니다.',
+                        '`content:"두 단어"` 모든 단어가 본문에 있어야 합니다.',
+                        '`-content:단어` 본문에 "단어"로 시작하는 단어가 있는 노트를 제외합니다.',
+                        '목록 창 설정에서 **노트 본문 검색**이 필요합니다. 켜면 일반 단어도 본문과 일치합니다.'
+                    ]
+                },
                 tags: {
                     title: '태그',
                     items: [
@@ -192,6 +206,8 @@ export const STRINGS_KO = {
                         '`."Reading Status"="In Progress"` 공백이 포함된 키와 값은 큰따옴표로 묶어야 합니다.',
                         '`-.key` 속성 키가 있는 노트를 제외합니다.',
                         '`-.key=value` 속성 값이 있는 노트를 제외합니다.',
+                        '`.key>=3`, `.key<2026-11-01` 숫자 또는 날짜 속성을 `>`, `>=`, `<`, `<=`로 비교합니다.',
+                        '`.key:thisweek`, `.key:1..5`, `.key:2026-11-01..2026-11-30` 상대 날짜, 날짜, 숫자 또는 양 끝을 포함하는 범위와 일치합니다.',
                         'Cmd/Ctrl+클릭으로 속성을 AND로 추가. Cmd/Ctrl+Shift+클릭으로 OR로 추가.'
                     ]
                 },
@@ -200,6 +216,8 @@ export const STRINGS_KO = {
                     items: [
                         '`has:task` 미완료 작업이 있는 노트를 포함.',
                         '`-has:task` 미완료 작업이 있는 노트를 제외.',
+                        '`due:overdue`, `due:today`, `due:thisweek` 범위 내에 마감되는 미완료 작업이 있는 노트를 포함합니다(Tasks `📅` 날짜 또는 Dataview `[due:: ]` 필드).',
+                        '`due:2026-11-01..2026-11-30` 마감일 또는 범위와 일치합니다. `-due:...`는 일치하는 미완료 작업이 있는 노트를 제외합니다.',
                         '`folder:meetings` 폴더 이름에 `meetings`를 포함하는 노트를 포함.',
                         '`folder:/work/meetings` `work/meetings` 내의 노트만 포함 (하위 폴더 제외).',
                         '`folder:/` 보관소 루트에 있는 노트만 포함.',
@@ -211,13 +229,13 @@ export const STRINGS_KO = {
                     ]
                 },
                 connectors: {
-                    title: 'AND/OR 동작',
+                    title: 'AND/OR/NOT 및 그룹화',
                     items: [
-                        '`AND`와 `OR`는 태그/속성 전용 쿼리에서만 연산자로 작동합니다.',
-                        '태그/속성 전용 쿼리에는 태그 및 속성 필터만 포함됩니다: `#tag`, `-#tag`, `#`, `-#`, `.key`, `-.key`, `.key=value`, `-.key=value`.',
-                        '쿼리에 이름, 날짜(`@...`), 작업 필터(`has:task`), 폴더 필터(`folder:...`), 또는 확장자 필터(`ext:...`)가 포함되면 `AND`와 `OR`는 단어로 검색됩니다.',
-                        '연산자 쿼리 예시: `#work OR .status=started`.',
-                        '혼합 쿼리 예시: `#work OR ext:md` (`OR`가 파일 이름에서 검색됩니다).'
+                        '쿼리에 필터(`#tag`, `.key`, `@date`, `has:task`, `due:`, `folder:`, `ext:`, `content:`)나 괄호가 있으면 `AND`, `OR`, `NOT`은 연산자로 동작합니다.',
+                        '`( )`로 조건을 묶습니다: `(folder:Projects OR folder:Areas) AND #active AND -ext:pdf`.',
+                        '`NOT 조건` 또는 `-조건`은 조건을 제외합니다. `-( )`는 그룹 전체를 제외합니다.',
+                        '`NOT`은 `AND`보다, `AND`는 `OR`보다 우선합니다. 인접한 조건은 암묵적 AND로 연결됩니다.',
+                        '단어만 있고 괄호가 없는 쿼리는 `AND`, `OR`, `NOT`을 파일 이름의 단어로 찾습니다(예: `black or white`).'
                     ]
                 },
                 dates: {
@@ -291,12 +309,14 @@ export const STRINGS_KO = {
             addTag: '태그 추가',
             removeTag: '태그 제거',
             removeAllTags: '모든 태그 제거',
+            editProperties: '속성 편집',
             changeIcon: '아이콘 변경',
             changeColor: '색상 변경'
         },
         folder: {
             newNote: '새 노트',
             newNoteFromTemplate: '템플릿으로 새 노트',
+            newNoteFileName: '새 노트 파일 이름...',
             newFolder: '새 폴더',
             newCanvas: '새 캔버스',
             newBase: '새 베이스',
@@ -321,14 +341,24 @@ export const STRINGS_KO = {
             changeIcon: '아이콘 변경',
             changeColor: '색상 변경',
             changeBackground: '배경색 변경',
+            mergeTags: '태그 병합...',
+            splitTag: '태그 분할...',
             showTag: '태그 표시',
             hideTag: '태그 숨기기'
         },
         property: {
             addKey: '속성 키 구성',
             renameKey: '속성 이름 변경',
+            renameValue: '값 이름 변경',
+            mergeValue: '값으로 병합...',
             deleteKey: '속성 삭제'
         },
+        smartFolder: {
+            newSmartFolder: '새 스마트 폴더',
+            newNestedSmartFolder: '새 중첩 스마트 폴더',
+            editSmartFolder: '스마트 폴더 편집',
+            deleteSmartFolder: '스마트 폴더 삭제'
+        },
         navigation: {
             addSeparator: '구분선 추가',
             removeSeparator: '구분선 제거'
@@ -354,11 +384,25 @@ export const STRINGS_KO = {
     folderAppearance: {
         standardPreset: '표준',
         compactPreset: '컴팩트',
+        gridPreset: '격자',
+        boardPreset: '보드...',
+        boardPresetOption: (property: string) => `보드 (${property})`,
+        boardPropertyAction: '속성으로 보드 열 만들기',
+        boardPropertyPlaceholder: '속성 키',
+        tileSize: '타일 크기',
+        tileSizeOptions: {
+            small: '작은 타일',
+            medium: '중간 타일',
+            large: '큰 타일'
+        },
         defaultSuffix: '(기본값)',
         defaultLabel: '기본',
         titleRows: '제목 행',
         previewRows: '미리보기 행',
         groupBy: '그룹화 기준',
+        groupByPropertyAction: '속성별 그룹...',
+        groupByPropertyPlaceholder: '속성 키',
+        groupByPropertyOption: (property: string) => `속성별 그룹 (${property})`,
         defaultTitleOption: (rows: number) => `기본 제목 행 (${rows})`,
         defaultPreviewOption: (rows: number) => `기본 미리보기 행 (${rows})`,
         defaultGroupOption: (groupLabel: string) => `기본 그룹화 (${groupLabel})`,
@@ -382,6 +426,88 @@ export const STRINGS_KO = {
         fileIconRuleEditor: {
             addRuleAria: '규칙 추가'
         },
+        sortChain: {
+            title: '사용자 지정 정렬 체인',
+            description: '노트는 첫 번째 키로 정렬됩니다. 다음 키는 위의 키에서 값이 같은 노트를 정렬합니다.',
+            propertyPlaceholder: '속성 키',
+            ascending: '오름차순',
+            descending: '내림차순',
+            addKey: '정렬 키 추가',
+            moveUp: '위로 이동',
+            moveDown: '아래로 이동',
+            save: '저장',
+            fields: {
+                modified: '수정 날짜',
+                created: '생성 날짜',
+                title: '제목',
+                filename: '파일 이름',
+                property: '속성',
+                wordcount: '단어 수',
+                tasks: '미완료 작업',
+                size: '파일 크기'
+            }
+        },
+        noteTemplateRules: {
+            title: '노트 템플릿 규칙',
+            description:
+                '폴더, 태그 또는 속성에서 만든 노트는 처음 일치하는 규칙의 템플릿과 파일 이름을 사용합니다. 파일 이름에는 {{date}}, {{date:FORMAT}}, {{time}}, {{title}}을 쓸 수 있습니다.',
+            folderPatternPlaceholder: '폴더 경로 (예: Meetings 또는 Projects/*/Notes)',
+            tagPatternPlaceholder: '태그 (예: meeting)',
+            propertyPatternPlaceholder: '속성 (예: type 또는 type=meeting)',
+            templatePlaceholder: '템플릿 파일',
+            fileNamePlaceholder: '파일 이름 패턴 (예: {{date}} Meeting)',
+            emptyState: '규칙이 없습니다. 새 노트는 빈 상태로 만들어집니다.',
+            addRule: '규칙 추가',
+            moveUp: '위로 이동',
+            moveDown: '아래로 이동',
+            save: '저장',
+            targets: {
+                folder: '폴더',
+                tag: '태그',
+                property: '속성'
+            }
+        },
+        fileStyleRules: {
+            title: '파일 스타일 규칙',
+            description:
+                '규칙 쿼리와 일치하는 파일에 해당 아이콘과 색상이 적용됩니다. 쿼리는 검색 필터 구문을 사용합니다. 규칙은 위에서 아래로 확인되며, 아이콘이 있는 첫 번째 일치 규칙이 아이콘을, 색상이 있는 첫 번째 일치 규칙이 색상을 정합니다. 파일에 직접 설정한 아이콘과 색상이 우선합니다.',
+            queryPlaceholder: '필터 쿼리, 예: .status=done, #meeting 또는 folder:archive',
+            emptyState: '규칙이 없습니다.',
+            setIcon: '아이콘 설정',
+            setColor: '색상 설정',
+            addRule: '규칙 추가',
+            moveUp: '위로 이동',
+            moveDown: '아래로 이동',
+            save: '저장'
+        },
+        configBundleImport: {
+            title: '구성 번들 가져오기',
+            description: '보관소에서 번들 JSON 파일을 선택한 다음 가져올 섹션을 고르세요. 가져온 값은 일반 설정과 동일하게 검증됩니다.',
+            filePlaceholder: '번들 경로, 예: notebook-navigator-config.json',
+            sectionsLabel: '가져올 섹션',
+            strategyLabel: '기존 설정',
+            strategies: {
+                merge: '병합, 번들 항목 우선',
+                replace: '선택한 섹션 바꾸기'
+            },
+            bundleInfo: '{date}에 Notebook Navigator {version}에서 내보냄',
+            importButton: '가져오기',
+            sections: {
+                vaultProfiles: '보관소 프로필과 바로가기',
+                styling: '폴더, 태그, 속성 아이콘과 색상',
+                appearances: '폴더와 태그 모양',
+                sortOverrides: '정렬 재정의',
+                iconMaps: '아이콘 맵과 인터페이스 아이콘',
+                keyboardShortcuts: '키보드 단축키'
+            },
+            errors: {
+                invalidJson: '파일이 올바른 JSON이 아닙니다.',
+                invalidFormat: '파일이 Notebook Navigator 구성 번들이 아닙니다.',
+                unsupportedVersion: '이 번들은 최신 버전의 Notebook Navigator에서 만들어졌습니다.',
+                empty: '번들에 가져올 수 있는 섹션이 없습니다.',
+                readFailed: '파일을 읽을 수 없습니다.'
+            }
+        },
         interfaceIcons: {
             title: '인터페이스 아이콘',
             fileItemsSection: '파일 항목',
@@ -412,6 +538,8 @@ export const STRINGS_KO = {
                 'nav-properties': '속성',
                 'nav-property': '속성',
                 'nav-property-value': '값',
+                'nav-smart-folders': '스마트 폴더',
+                'nav-smart-folder': '스마트 폴더',
                 'list-pinned': '고정 항목',
                 'file-unfinished-task': '미완료 작업',
                 'file-word-count': '단어 수'
@@ -492,6 +620,111 @@ export const STRINGS_KO = {
             deleteSettingsUpdateFailed: '속성 {property} 삭제됨. 설정 업데이트에 실패했습니다.',
             invalidKeyName: '유효한 속성 이름을 입력하세요.'
         },
+        propertyValueEdit: {
+            title: '속성 편집',
+            description: '{count}개 {files}의 속성을 변경합니다.',
+            keyLabel: '속성',
+            keyPlaceholder: '속성 이름',
+            modeLabel: '작업',
+            modes: {
+                set: '값 설정',
+                append: '목록에 추가',
+                remove: '속성 제거'
+            },
+            valueLabel: '값',
+            valuePlaceholder: '값',
+            emptyValue: '(비어 있음)',
+            previewTitle: '미리 보기',
+            changeSummary: '{total}개 노트 중 {count}개가 변경됩니다',
+            noChanges: '변경이 필요한 노트가 없습니다.',
+            apply: '적용',
+            successSingle: '노트 1개에서 속성 {property}을(를) 업데이트했습니다',
+            successMultiple: '노트 {count}개에서 속성 {property}을(를) 업데이트했습니다',
+            partialFailure: '노트 {count}개에서 속성 {property}을(를) 업데이트했습니다. 노트 {failed}개를 업데이트하지 못했습니다.'
+        },
+        propertyValueRename: {
+            renameTitle: '값 {value} 이름 변경',
+            renameWarning:
+                '{property}: {value}의 이름을 변경하면 {count}개 {files}이(가) 수정됩니다. 기존 값을 입력하면 두 값이 병합됩니다.',
+            newValuePrompt: '새 값',
+            newValuePlaceholder: '새 값 입력',
+            confirmRename: '값 이름 변경',
+            mergeTitle: '값 {value} 병합',
+            mergeWarning:
+                '{oldValue}을(를) {newValue}(으)로 병합하면 {count}개 {files}이(가) 수정됩니다. {newValue}은(는) 자체 아이콘, 색상 및 바로가기를 유지합니다.',
+            mergePlaceholder: '{value} 병합 대상...',
+            mergeInstruction: '병합',
+            confirmMerge: '값 병합',
+            noOtherValues: '속성 {property}에 다른 값이 없습니다',
+            nestedTarget: '값을 중첩된 하위 값으로 이름을 변경할 수 없습니다.',
+            invalidValue: '유효한 값을 입력하세요.',
+            noChanges: '{oldValue} → {newValue} (변경 없음)',
+            successSingle: '노트 1개에서 {oldValue} → {newValue}(으)로 이름을 변경했습니다',
+            successMultiple: '노트 {count}개에서 {oldValue} → {newValue}(으)로 이름을 변경했습니다',
+            partialFailure:
+                '노트 {count}개에서 {oldValue} → {newValue}(으)로 이름을 변경했습니다. 노트 {failed}개를 업데이트하지 못했습니다.'
+        },
+        tagOperationSummary: {
+            close: '닫기',
+            updatedNotes: '업데이트된 노트',
+            skippedNotes: '건너뛴 노트',
+            skippedDescription: '이 노트는 미리보기 이후 변경되었거나 업데이트할 내용이 없었습니다.',
+            failedNotes: '실패한 노트',
+            reportSummary: '{total}개 중 {changed}개 노트를 업데이트했습니다.'
+        },
+        tagMerge: {
+            title: '태그 병합',
+            description: '여러 태그를 하나의 태그로 병합합니다. 중첩된 태그는 상위 태그와 함께 이동합니다.',
+            sourcesLabel: '병합할 태그',
+            sourcesPlaceholder: '쉼표로 구분된 태그',
+            targetLabel: '병합 대상',
+            targetPlaceholder: '대상 태그',
+            preview: '병합 미리보기',
+            nothingToMerge: '병합할 태그가 없습니다. 태그가 노트에서 사용되고 대상 태그와 다른지 확인하세요.',
+            previewTitle: '{tag}(으)로 병합',
+            previewDescription: '{tags}을(를) {tag}(으)로 병합하면 노트 {count}개가 수정됩니다.',
+            confirm: '태그 병합',
+            affectedNotes: '영향받는 노트',
+            skippedTags: '건너뛴 태그',
+            skipReasons: {
+                sameAsTarget: '대상 태그와 동일',
+                containsTarget: '대상 태그가 이 태그 아래에 중첩되어 있음',
+                nestedInSource: '상위 태그와 함께 병합됨',
+                noNotes: '어떤 노트에서도 사용되지 않음'
+            },
+            alreadyTagged: '이미 {tag} 태그가 있는 노트',
+            alreadyTaggedDescription: '이 노트에는 대상 태그가 두 번 이상 포함됩니다.',
+            multipleSources: '병합되는 태그가 여러 개인 노트',
+            multipleSourcesDescription: '이 노트 각각에는 대상 태그가 두 번 이상 포함됩니다.',
+            nestedCollisions: '중첩 태그 충돌',
+            nestedCollisionsDescription: '이 중첩 태그는 이미 존재하는 중첩 태그로 병합됩니다.',
+            notFinalized: '메타데이터가 이동되지 않음',
+            notFinalizedDescription: '이 태그가 있는 일부 노트가 업데이트되지 않아 아이콘, 색상 및 바로가기가 유지되었습니다.',
+            reportTitle: '{tag}(으)로 병합됨'
+        },
+        tagSplit: {
+            title: '태그 {tag} 분할',
+            description:
+                '정확히 {tag} 태그가 있는 {files} {count}개. 각 노트는 처음 일치하는 규칙의 하위 태그로 이동합니다. 일치하는 규칙이 없는 노트는 {tag}을(를) 유지합니다.',
+            childPlaceholder: '하위 태그',
+            kinds: {
+                folder: '폴더',
+                query: '필터 쿼리'
+            },
+            folderPlaceholder: '폴더 경로(하위 폴더 포함)',
+            queryPlaceholder: '검색 필터 쿼리',
+            addRule: '규칙 추가',
+            preview: '분할 미리보기',
+            nothingMatched: '규칙과 일치하는 노트가 없습니다.',
+            previewTitle: '{tag} 분할',
+            previewDescription: '{tag} 태그가 있는 노트 {total}개 중 {count}개가 하위 태그로 이동합니다.',
+            confirm: '태그 분할',
+            invalidRules: '평가할 수 없는 규칙',
+            invalidRulesDescription: '필터 쿼리에는 검색 조건과 준비된 노트 캐시가 필요합니다.',
+            unmatched: '일치하는 규칙이 없는 노트',
+            unmatchedDescription: '이 노트는 {tag}을(를) 유지합니다.',
+            reportTitle: '{tag} 분할됨'
+        },
         fileSystem: {
             newFolderTitle: '새 폴더',
             renameFolderTitle: '폴더 이름 변경',
@@ -501,6 +734,10 @@ export const STRINGS_KO = {
             deleteFileAttachmentsTitle: '파일 첨부 파일을 삭제하시겠습니까?',
             moveFileConflictTitle: '이동 충돌',
             folderNamePrompt: '폴더 이름 입력:',
+            newNoteTitle: '새 노트',
+            noteTitlePrompt: '노트 제목 입력:',
+            createNoteButton: '만들기',
+            newNoteFileNamePrompt: '파일 이름 패턴 (예: {{date:YYYYMMDDHHmm}} {{title}}). 비워 두면 기본값을 사용합니다.',
             hideInOtherVaultProfiles: '다른 보관소 프로필에서 숨기기',
             renamePrompt: '새 이름 입력:',
             renameVaultTitle: '보관함 표시 이름 변경',
@@ -594,6 +831,22 @@ export const STRINGS_KO = {
             applyButton: '적용',
             emptyState: '속성 키를 찾을 수 없습니다.'
         },
+        smartFolder: {
+            newTitle: '새 스마트 폴더',
+            newNestedTitle: '{name}에 새 스마트 폴더',
+            editTitle: '스마트 폴더 편집',
+            nameLabel: '이름',
+            namePlaceholder: '스마트 폴더 이름',
+            queryLabel: '필터 쿼리',
+            queryPlaceholder: '#project AND -#archived',
+            queryDescription: '필터 검색 구문을 사용합니다. 중첩된 스마트 폴더는 상위 폴더의 쿼리와도 일치하는 노트만 표시합니다.',
+            create: '만들기',
+            save: '저장',
+            emptyName: '스마트 폴더 이름은 비워 둘 수 없습니다',
+            duplicateName: '이 위치에 같은 이름의 스마트 폴더가 이미 있습니다',
+            deleteTitle: '스마트 폴더 "{name}"을(를) 삭제하시겠습니까?',
+            deleteMessage: '중첩된 스마트 폴더도 삭제됩니다. 노트는 변경되지 않습니다.'
+        },
         welcome: {
             title: '{pluginName}에 오신 것을 환영합니다',
             introText:
@@ -677,6 +930,9 @@ export const STRINGS_KO = {
             iconPackUpdated: '{provider} 업데이트됨 ({version})',
             iconPackRemoved: '{provider} 제거됨',
             iconPackLoadFailed: '{provider} 로드에 실패했습니다',
+            folderMetadataWritten: '{count}개 폴더의 메타데이터를 썼습니다',
+            folderMetadataLoaded: '{count}개 폴더의 메타데이터를 불러왔습니다',
+            folderMetadataStorageDisabled: '먼저 폴더 설정에서 폴더 노트 또는 사이드카 저장을 선택하세요',
             hiddenFileReveal: '파일이 숨겨져 있습니다. 표시하려면 "숨겨진 항목 표시"를 활성화하세요'
         },
         confirmations: {
@@ -706,7 +962,62 @@ export const STRINGS_KO = {
             filesAlreadyHaveProperty: '{count}개 파일에 이미 이 속성이 있습니다',
             noTagsToClear: '지울 태그 없음',
             fileImported: '1개의 파일 가져옴',
-            filesImported: '{count}개의 파일 가져옴'
+            filesImported: '{count}개의 파일 가져옴',
+            filesMoved: '{count}개 파일을 {folder}(으)로 이동했습니다'
+        }
+    },
+
+    // Undo history
+    undoHistory: {
+        undo: '실행 취소',
+        undone: '실행 취소됨: {action}',
+        redone: '다시 실행됨: {action}',
+        nothingToUndo: '실행 취소할 작업이 없습니다',
+        nothingToRedo: '다시 실행할 작업이 없습니다',
+        failed: '"{action}"을(를) 되돌릴 수 없습니다: {error}',
+        partial: '{count}개 항목을 복원할 수 없습니다',
+        actions: {
+            moveFile: '"{name}" 이동',
+            moveFiles: '{count}개 파일 이동',
+            moveFolder: '폴더 "{name}" 이동',
+            renameFile: '"{name}" 이름 변경',
+            renameFolder: '폴더 "{name}" 이름 변경',
+            addTag: '태그 #{tag} 추가',
+            removeTag: '태그 #{tag} 제거',
+            renameProperty: '속성 이름 변경 {oldKey} → {newKey}',
+            editProperty: '속성 {property} 편집',
+            renamePropertyValue: '{property} 값 이름 변경 {oldValue} → {newValue}',
+            changeAppearance: '"{name}" 모양 변경'
+        }
+    },
+
+    // Vault statistics dashboard
+    statisticsDashboard: {
+        refresh: '새로 고침',
+        loading: '노트 캐시를 기다리는 중...',
+        unavailable: '통계를 계산할 수 없습니다.',
+        empty: '데이터 없음',
+        weekLabel: '{date} 주',
+        createdCount: '{count}개 생성',
+        modifiedCount: '{count}개 수정',
+        summary: {
+            notes: '노트',
+            words: '단어',
+            openTasks: '열린 작업',
+            untagged: '태그 없는 노트',
+            orphaned: '고립된 노트',
+            orphanedDescription: '다른 노트가 링크하지 않는 노트'
+        },
+        sections: {
+            activity: '주별 생성 및 수정된 노트',
+            wordsPerFolder: '폴더별 단어 수',
+            openTasksPerFolder: '폴더별 열린 작업',
+            topTags: '상위 태그',
+            topProperties: '상위 속성'
+        },
+        legend: {
+            created: '생성',
+            modified: '수정'
         }
     },
 
@@ -731,8 +1042,10 @@ export const STRINGS_KO = {
         revealFile: '파일 표시', // Command palette: Reveals and selects the currently active file in the navigator (English: Reveal file)
         search: '검색', // Command palette: Toggle search in the file list (English: Search)
         searchVaultRoot: '보관소 루트에서 검색', // Command palette: Selects the vault root folder and focuses search (English: Search in vault root)
+        createSmartFolder: '검색에서 스마트 폴더 만들기',
         toggleDualPane: '이중 창 레이아웃 전환', // Command palette: Toggles between single-pane and dual-pane layout (English: Toggle dual pane layout)
         toggleCalendar: '캘린더 전환', // Command palette: Toggles showing the calendar overlay in the navigation pane (English: Toggle calendar)
+        openStatistics: '보관함 통계 열기', // Command palette: Opens the vault statistics dashboard (English: Open vault statistics)
         selectVaultProfile: '보관소 프로필 변경', // Command palette: Opens a modal to choose a different vault profile (English: Switch vault profile)
         selectVaultProfile1: '보관소 프로필 1 선택', // Command palette: Activates the first vault profile without opening the modal (English: Select vault profile 1)
         selectVaultProfile2: '보관소 프로필 2 선택', // Command palette: Activates the second vault profile without opening the modal (English: Select vault profile 2)
@@ -741,12 +1054,18 @@ export const STRINGS_KO = {
         createNewNote: '새 노트 만들기', // Command palette: Creates a new note in the currently selected folder (English: Create new note)
         createNewNoteFromTemplate: '템플릿으로 새 노트', // Command palette: Creates a new note from a template in the currently selected folder (English: Create new note from template)
         moveFiles: '파일 이동', // Command palette: Move selected files to another folder (English: Move files)
+        undo: '파일 작업 실행 취소', // Command palette: Reverse the most recent file operation (English: Undo file operation)
+        redo: '파일 작업 다시 실행', // Command palette: Reapply the most recently undone file operation (English: Redo file operation)
         selectNextFile: '다음 파일 선택', // Command palette: Selects the next file in the current view (English: Select next file)
         selectPreviousFile: '이전 파일 선택', // Command palette: Selects the previous file in the current view (English: Select previous file)
         convertToFolderNote: '폴더 노트로 변환', // Command palette: Converts the active file into a folder note with a new folder (English: Convert to folder note)
         setAsFolderNote: '폴더 노트로 설정', // Command palette: Renames the active file to its folder note name (English: Set as folder note)
         detachFolderNote: '폴더 노트 해제', // Command palette: Renames the active folder note to a new name (English: Detach folder note)
         pinAllFolderNotes: '폴더 노트를 모두 고정', // Command palette: Pins all folder notes to shortcuts (English: Pin all folder notes)
+        writeFolderMetadataFiles: '폴더 메타데이터를 파일에 쓰기', // Command palette: Writes folder icons, colors, sort overrides and appearances to folder notes or sidecars (English: Write folder metadata to files)
+        reloadFolderMetadataFiles: '파일에서 폴더 메타데이터 다시 불러오기', // Command palette: Reads folder metadata from folder notes or sidecars into settings (English: Reload folder metadata from files)
+        exportConfiguration: '구성 번들 내보내기', // Command palette: Writes a configuration bundle JSON file to the vault root (English: Export configuration bundle)
+        importConfiguration: '구성 번들 가져오기', // Command palette: Opens a dialog to import sections of a configuration bundle (English: Import configuration bundle)
         navigateToFolder: '폴더로 이동', // Command palette: Navigate to a folder using fuzzy search (English: Navigate to folder)
         navigateToTag: '태그로 이동', // Command palette: Navigate to a tag using fuzzy search (English: Navigate to tag)
         navigateToProperty: '속성으로 이동', // Command palette: Navigate to a property key or value using fuzzy search (English: Navigate to property)
@@ -760,6 +1079,8 @@ export const STRINGS_KO = {
         addTag: '선택한 파일에 태그 추가', // Command palette: Opens a dialog to add a tag to selected files (English: Add tag to selected files)
         removeTag: '선택한 파일에서 태그 제거', // Command palette: Opens a dialog to remove a tag from selected files (English: Remove tag from selected files)
         removeAllTags: '선택한 파일에서 모든 태그 제거', // Command palette: Removes all tags from selected files (English: Remove all tags from selected files)
+        mergeTags: '태그 병합', // Command palette: Opens a dialog to merge several tags into one tag (English: Merge tags)
+        editProperties: '선택한 파일의 속성 편집', // Command palette: Opens a dialog to set, append to, or remove a property on selected files (English: Edit properties of selected files)
         openAllFiles: '모든 파일 열기', // Command palette: Opens all files in the current folder or tag (English: Open all files)
         rebuildCache: '캐시 다시 빌드' // Command palette: Rebuilds the local Notebook Navigator cache (English: Rebuild cache)
     },
@@ -768,6 +1089,7 @@ export const STRINGS_KO = {
     plugin: {
         viewName: 'Notebook Navigator', // Name shown in the view header/tab (English: Notebook Navigator)
         calendarViewName: '캘린더', // Name shown in the view header/tab (English: Calendar)
+        statisticsViewName: '보관함 통계', // Name shown in the statistics view header/tab (English: Vault statistics)
         ribbonTooltip: 'Notebook Navigator', // Tooltip for the ribbon icon in the left sidebar (English: Notebook Navigator)
         revealInNavigator: 'Notebook Navigator에서 표시' // Context menu item to reveal a file in the navigator (English: Reveal in Notebook Navigator)
     },
@@ -866,7 +1188,13 @@ export const STRINGS_KO = {
                     'filename-asc': '파일 이름 (가나다 상위)',
                     'filename-desc': '파일 이름 (역순 상위)',
                     'property-asc': '속성 (가나다 상위)',
-                    'property-desc': '속성 (역순 상위)'
+                    'property-desc': '속성 (역순 상위)',
+                    'wordcount-desc': '단어 수 (많은 순 상위)',
+                    'wordcount-asc': '단어 수 (적은 순 상위)',
+                    'tasks-desc': '미완료 작업 (많은 순 상위)',
+                    'tasks-asc': '미완료 작업 (적은 순 상위)',
+                    'size-desc': '파일 크기 (큰 순 상위)',
+                    'size-asc': '파일 크기 (작은 순 상위)'
                 },
                 propertyOverride: {
                     asc: '속성 ‘{property}’ (가나다 상위)',
@@ -892,6 +1220,10 @@ export const STRINGS_KO = {
                 name: '목록 변경 시 선택된 파일로 스크롤',
                 desc: '노트 고정, 하위 노트 표시, 폴더 모양 변경 또는 파일 작업 실행 시 선택된 파일로 스크롤합니다.'
             },
+            searchNoteContent: {
+                name: '노트 본문 검색',
+                desc: '필터 검색을 위해 노트 본문의 로컬 전문 색인을 만듭니다. `content:` 필터를 사용할 수 있고 일반 검색어가 파일 이름뿐 아니라 본문과도 일치합니다. Omnisearch가 필요하지 않습니다.'
+            },
             includeDescendantNotes: {
                 name: '하위 폴더 / 하위 항목 노트 표시',
                 desc: '폴더나 태그를 볼 때 중첩된 하위 폴더와 태그 하위 항목의 노트를 포함합니다.'
@@ -906,11 +1238,13 @@ export const STRINGS_KO = {
             },
             groupNotes: {
                 name: '노트 그룹화',
-                desc: '날짜 또는 폴더별로 그룹화된 노트 사이에 머리글을 표시합니다. 폴더 그룹화가 활성화되면 태그 보기는 날짜 그룹을 사용합니다.',
+                desc: '날짜, 폴더, 태그, 첫 글자 또는 속성 값별로 그룹화된 노트 사이에 머리글을 표시합니다. 폴더 그룹화가 활성화되면 태그 보기는 날짜 그룹을 사용합니다.',
                 options: {
                     none: '그룹화 안 함',
                     date: '날짜별 그룹',
-                    folder: '폴더별 그룹'
+                    folder: '폴더별 그룹',
+                    tag: '태그별 그룹',
+                    alphabetical: '알파벳순 그룹'
                 }
             },
             showPinnedGroupHeader: {
@@ -957,6 +1291,11 @@ export const STRINGS_KO = {
                 placeholder: '# Extension=icon\ncpp=LiFileCode\npdf=RaBook',
                 editTooltip: '매핑 편집'
             },
+            fileStyleRules: {
+                name: '파일 스타일 규칙',
+                desc: '검색 필터 쿼리와 일치하는 파일에 아이콘과 색상을 지정합니다. 예: .status=done에는 체크 아이콘, folder:archive에는 회색. 규칙은 보관소 프로필에 저장됩니다.',
+                buttonText: '규칙 편집'
+            },
             optimizeNoteHeight: {
                 name: '가변 노트 높이',
                 desc: '고정된 노트와 미리보기 텍스트가 없는 노트에 컴팩트한 높이를 사용합니다.'
@@ -1037,6 +1376,15 @@ export const STRINGS_KO = {
                 name: '새 노트를 새 탭에서 열기',
                 desc: '활성화하면 새 노트 만들기 명령이 새 탭에서 노트를 엽니다. 비활성화하면 노트가 현재 탭을 대체합니다.'
             },
+            newNoteFileNamePattern: {
+                name: '새 노트 파일 이름',
+                desc: '새 노트의 파일 이름 패턴입니다. {{date}}, {{date:FORMAT}}, {{time}}, {{title}}을 지원합니다. 폴더 메뉴에서 폴더별로 재정의할 수 있습니다. 비워 두면 "제목 없음"을 사용합니다.',
+                placeholder: '{{date:YYYY-MM-DD}} {{title}}'
+            },
+            promptForNewNoteTitle: {
+                name: '노트를 만들 때 제목 묻기',
+                desc: '노트를 만들기 전에 제목을 묻습니다. 제목은 파일 이름 패턴의 {{title}}을 채우거나, 패턴이 없으면 파일 이름이 됩니다.'
+            },
             autoRevealActiveNote: {
                 name: '활성 노트 자동 표시',
                 desc: '빠른 전환기, 링크 또는 검색에서 열 때 노트를 자동으로 표시합니다.'
@@ -1213,6 +1561,11 @@ export const STRINGS_KO = {
                 desc: '템플릿 파일 선택기가 이 폴더의 노트를 표시합니다.',
                 placeholder: 'Templates'
             },
+            noteTemplateRules: {
+                name: '노트 템플릿 규칙',
+                desc: '폴더, 태그 또는 속성에서 만든 노트에 템플릿과 파일 이름 패턴을 적용합니다.',
+                buttonText: '규칙 편집'
+            },
             calendarCustomFilePattern: {
                 name: '일일 노트',
                 desc: 'Moment 날짜 형식을 사용하여 경로 지정. 하위 폴더 이름은 대괄호로 감싸세요, 예: [Work]/YYYY. 템플릿 아이콘을 클릭하여 템플릿을 설정하세요. 템플릿 폴더 위치는 일반 > 템플릿에서 설정하세요.',
@@ -1267,6 +1620,16 @@ export const STRINGS_KO = {
                 notice: '모든 설정이 초기화되었습니다. Obsidian을 재시작하거나 Notebook Navigator를 다시 열어 적용하세요.',
                 error: '설정 초기화에 실패했습니다.'
             },
+            configBundle: {
+                name: '구성 번들',
+                desc: '보관소 프로필, 바로가기, 스타일, 모양, 정렬 재정의, 아이콘 맵, 키보드 단축키를 보관소 루트의 JSON 파일로 내보내거나, 번들을 가져와 다른 보관소를 설정합니다.',
+                exportButton: '내보내기',
+                importButton: '가져오기',
+                exportSuccess: '구성을 {filename}(으)로 내보냈습니다',
+                exportFailed: '구성을 내보내지 못했습니다.',
+                importSuccess: '구성을 가져왔습니다.',
+                importFailed: '구성을 가져오지 못했습니다.'
+            },
             multiSelectModifier: {
                 name: '다중 선택 수정자',
                 desc: '다중 선택을 전환하는 수정자 키를 선택하세요. Option/Alt를 선택하면 Cmd/Ctrl 클릭이 새 탭에서 노트를 엽니다.',
@@ -1291,6 +1654,14 @@ export const STRINGS_KO = {
                 name: 'Ctrl+Enter',
                 desc: 'Ctrl+Enter를 누르면 선택한 파일을 새 탭, 분할 또는 창에서 엽니다.'
             },
+            vimKeyboardNavigation: {
+                name: 'Vim 스타일 키 시퀀스',
+                desc: 'gg와 G로 첫 항목과 마지막 항목으로 이동하고, dd로 삭제, zc와 zo로 접기와 펼치기, /로 검색을 엽니다. 사용자 지정 단축키가 우선합니다.'
+            },
+            typeAheadFind: {
+                name: '입력하여 찾기',
+                desc: '문자를 입력하면 이름이 입력한 텍스트로 시작하는 첫 폴더, 태그 또는 노트로 이동합니다. Vim 스타일 키 시퀀스가 켜져 있으면 사용할 수 없습니다.'
+            },
             fileVisibility: {
                 name: '파일 유형 표시 (볼트 프로필)',
                 desc: '네비게이터에 표시할 파일 유형을 필터링합니다. Obsidian에서 지원하지 않는 파일 유형은 외부 응용 프로그램에서 열릴 수 있습니다.',
@@ -1413,6 +1784,10 @@ export const STRINGS_KO = {
                     none: '없음'
                 }
             },
+            showTaskProgress: {
+                name: '작업 진행률',
+                desc: '작업이 있는 노트에 완료 막대와 다음 마감일을 표시합니다.'
+            },
             propertyFields: {
                 name: '속성 키 (보관함 프로필)',
                 desc: '프론트매터 속성 키. 키별로 탐색 창 및 파일 목록의 표시 여부를 설정할 수 있습니다.',
@@ -1525,6 +1900,15 @@ export const STRINGS_KO = {
                     alphaDesc: 'Z부터 A까지'
                 }
             },
+            folderMetadataStorage: {
+                name: '폴더 메타데이터 저장 위치',
+                desc: '폴더 아이콘, 색상, 정렬 재정의, 모양을 보관소에도 저장하여 동기화나 git으로 폴더와 함께 이동하게 합니다. 변경 사항은 양방향으로 동기화됩니다. 기존 메타데이터를 옮기려면 "폴더 메타데이터를 파일에 쓰기"를 실행하세요.',
+                options: {
+                    settings: '플러그인 설정만',
+                    folderNote: '폴더 노트 프론트매터',
+                    sidecar: '.folder.yml 사이드카 파일'
+                }
+            },
             showNoteCount: {
                 name: '노트 수 표시',
                 desc: '각 폴더와 태그 옆에 노트 수를 표시합니다.'
@@ -1640,6 +2024,11 @@ export const STRINGS_KO = {
                 name: '속성 폴더 표시',
                 desc: '"속성"을 접을 수 있는 폴더로 표시합니다.'
             },
+            propertyHierarchies: {
+                name: '속성 계층',
+                desc: '속성 값별 가상 폴더에 노트를 중첩합니다. 키마다 한 단계입니다. 한 줄에 하나의 계층을 `Name: key > key > key` 형식으로 입력합니다. 키는 속성 키에도 등록되어 있어야 합니다.',
+                placeholder: 'Research: type > status > project'
+            },
             hiddenTags: {
                 name: '태그 숨기기 (볼트 프로필)',
                 desc: '쉼표로 구분된 태그 패턴 목록입니다. 이름 패턴: tag* (시작), *tag (끝). 경로 패턴: archive (태그와 하위), archive/* (하위만), projects/*/drafts (중간 와일드카드).',
@@ -46,7 +46,10 @@ export const STRINGS_NL = {
         pinnedSection: 'Vastgepind',
         notesSection: 'Notities',
         filesSection: 'Bestanden',
-        hiddenItemAriaLabel: '{name} (verborgen)'
+        noPropertyValue: 'Geen waarde',
+        hiddenItemAriaLabel: '{name} (verborgen)',
+        taskProgressAriaLabel: '{completed} van {total} taken voltooid',
+        taskDue: 'Vervalt {date}'
     },
 
     // Tag list
@@ -61,6 +64,7 @@ export const STRINGS_NL = {
         recentNotesHeader: 'Recente notities',
         recentFilesHeader: 'Recente bestanden',
         properties: 'Eigenschappen',
+        smartFolders: 'Slimme mappen',
         reorderRootFoldersTitle: 'Navigatie herschikken',
         reorderRootFoldersHint: 'Gebruik pijlen of sleep om te herschikken',
         vaultRootLabel: 'Kluis',
@@ -130,6 +134,7 @@ export const STRINGS_NL = {
         mobileBackToNavigation: 'Terug naar navigatie',
         changeSortOrder: 'Sorteervolgorde wijzigen',
         defaultSort: 'Standaard',
+        customSortChain: 'Aangepaste sorteerketen...',
         showFolders: 'Navigatie tonen',
         reorderRootFolders: 'Navigatie herschikken',
         finishRootFolderReorder: 'Klaar',
@@ -172,6 +177,15 @@ export const STRINGS_NL = {
                         '`-word` Notities met "word" in de bestandsnaam uitsluiten.'
                     ]
                 },
+                content: {
+                    title: 'Notitie-inhoud',
+                    items: [
+                        '`content:woord` Vind notities waarvan de tekst een woord bevat dat begint met "woord".',
+                        '`content:"twee woorden"` Elk woord moet in de notitietekst voorkomen.',
+                        '`-content:woord` Sluit notities uit waarvan de tekst een woord bevat dat begint met "woord".',
+                        'Vereist **Notitie-inhoud doorzoeken** in de instellingen van het lijstpaneel. Indien ingeschakeld komen losse woorden ook overeen met notitietekst.'
+                    ]
+                },
                 tags: {
                     title: 'Tags',
                     items: [
@@ -195,6 +209,8 @@ export const STRINGS_NL = {
                         '`."Reading Status"="In Progress"` Sleutels en waarden met spaties moeten tussen dubbele aanhalingstekens staan.',
                         '`-.key` Notities met eigenschapssleutel uitsluiten.',
                         '`-.key=value` Notities met eigenschapswaarde uitsluiten.',
+                        '`.key>=3`, `.key<2026-11-01` Numerieke of datumeigenschappen vergelijken met `>`, `>=`, `<`, `<=`.',
+                        '`.key:thisweek`, `.key:1..5`, `.key:2026-11-01..2026-11-30` Overeenkomen met een relatieve datum, datum, getal of inclusief bereik.',
                         'Cmd/Ctrl+Klik op een eigenschap om toe te voegen met AND. Cmd/Ctrl+Shift+Klik om toe te voegen met OR.'
                     ]
                 },
@@ -203,6 +219,8 @@ export const STRINGS_NL = {
                     items: [
                         '`has:task` Notities met onvoltooide taken opnemen.',
                         '`-has:task` Notities met onvoltooide taken uitsluiten.',
+                        '`due:overdue`, `due:today`, `due:thisweek` Notities opnemen met een open taak die binnen het bereik vervalt (Tasks-datums `📅` of Dataview-velden `[due:: ]`).',
+                        '`due:2026-11-01..2026-11-30` Overeenkomen met een vervaldatum of bereik. `-due:...` sluit notities met een overeenkomende open taak uit.',
                         '`folder:meetings` Notities opnemen waarvan een mapnaam `meetings` bevat.',
                         '`folder:/work/meetings` Notities alleen in `work/meetings` opnemen (geen submappen).',
                         '`folder:/` Notities alleen in de vault-root opnemen.',
@@ -214,13 +232,13 @@ export const STRINGS_NL = {
                     ]
                 },
                 connectors: {
-                    title: 'AND/OR-gedrag',
+                    title: 'AND/OR/NOT en groepering',
                     items: [
-                        "`AND` en `OR` zijn alleen operatoren in query's met uitsluitend tags en eigenschappen.",
-                        "Query's met uitsluitend tags en eigenschappen bevatten alleen tag- en eigenschapsfilters: `#tag`, `-#tag`, `#`, `-#`, `.key`, `-.key`, `.key=value`, `-.key=value`.",
-                        'Als een zoekopdracht namen, datums (`@...`), taakfilters (`has:task`), mapfilters (`folder:...`) of extensiefilters (`ext:...`) bevat, worden `AND` en `OR` als woorden gezocht.',
-                        'Voorbeeld operatorquery: `#work OR .status=started`.',
-                        'Voorbeeld gemengde zoekopdracht: `#work OR ext:md` (`OR` wordt gezocht in bestandsnamen).'
+                        '`AND`, `OR` en `NOT` zijn operatoren wanneer een zoekopdracht een filter (`#tag`, `.key`, `@date`, `has:task`, `due:`, `folder:`, `ext:`, `content:`) of haakjes bevat.',
+                        '`( )` groepeert termen: `(folder:Projects OR folder:Areas) AND #active AND -ext:pdf`.',
+                        '`NOT term` of `-term` sluit een term uit. `-( )` sluit een hele groep uit.',
+                        '`NOT` gaat voor `AND`, en `AND` gaat voor `OR`. Aangrenzende termen gebruiken impliciet AND.',
+                        'Zoekopdrachten met alleen woorden en zonder haakjes zoeken `AND`, `OR` en `NOT` als woorden in bestandsnamen (bijv. `zwart or wit`).'
                     ]
                 },
                 dates: {
@@ -294,12 +312,14 @@ export const STRINGS_NL = {
             addTag: 'Tag toevoegen',
             removeTag: 'Tag verwijderen',
             removeAllTags: 'Alle tags verwijderen',
+            editProperties: 'Eigenschappen bewerken',
             changeIcon: 'Pictogram wijzigen',
             changeColor: 'Kleur wijzigen'
         },
         folder: {
             newNote: 'Nieuwe notitie',
             newNoteFromTemplate: 'Nieuwe notitie uit sjabloon',
+            newNoteFileName: 'Bestandsnaam nieuwe notities...',
             newFolder: 'Nieuwe map',
             newCanvas: 'Nieuw canvas',
             newBase: 'Nieuwe base',
@@ -324,14 +344,24 @@ export const STRINGS_NL = {
             changeIcon: 'Pictogram wijzigen',
             changeColor: 'Kleur wijzigen',
             changeBackground: 'Achtergrond wijzigen',
+            mergeTags: 'Tags samenvoegen...',
+            splitTag: 'Tag splitsen...',
             showTag: 'Tag tonen',
             hideTag: 'Tag verbergen'
         },
         property: {
             addKey: 'Eigenschapssleutels configureren',
             renameKey: 'Eigenschap hernoemen',
+            renameValue: 'Waarde hernoemen',
+            mergeValue: 'Samenvoegen met waarde...',
             deleteKey: 'Eigenschap verwijderen'
         },
+        smartFolder: {
+            newSmartFolder: 'Nieuwe slimme map',
+            newNestedSmartFolder: 'Nieuwe geneste slimme map',
+            editSmartFolder: 'Slimme map bewerken',
+            deleteSmartFolder: 'Slimme map verwijderen'
+        },
         navigation: {
             addSeparator: 'Scheidingslijn toevoegen',
             removeSeparator: 'Scheidingslijn verwijderen'
@@ -357,11 +387,25 @@ export const STRINGS_NL = {
     folderAppearance: {
         standardPreset: 'Standaard',
         compactPreset: 'Compact',
+        gridPreset: 'Raster',
+        boardPreset: 'Bord...',
+        boardPresetOption: (property: string) => `Bord (${property})`,
+        boardPropertyAction: 'Bordkolommen op eigenschap',
+        boardPropertyPlaceholder: 'Eigenschapssleutel',
+        tileSize: 'Tegelgrootte',
+        tileSizeOptions: {
+            small: 'Kleine tegels',
+            medium: 'Middelgrote tegels',
+            large: 'Grote tegels'
+        },
         defaultSuffix: '(standaard)',
         defaultLabel: 'Standaard',
         titleRows: 'Titelrijen',
         previewRows: 'Voorbeeldrijen',
         groupBy: 'Groeperen op',
+        groupByPropertyAction: 'Groeperen op eigenschap...',
+        groupByPropertyPlaceholder: 'Eigenschapssleutel',
+        groupByPropertyOption: (property: string) => `Groeperen op eigenschap (${property})`,
         defaultTitleOption: (rows: number) => `Standaard titelrijen (${rows})`,
         defaultPreviewOption: (rows: number) => `Standaard voorbeeldrijen (${rows})`,
         defaultGroupOption: (groupLabel: string) => `Standaardgroepering (${groupLabel})`,
@@ -385,6 +429,90 @@ export const STRINGS_NL = {
         fileIconRuleEditor: {
             addRuleAria: 'Regel toevoegen'
         },
+        sortChain: {
+            title: 'Aangepaste sorteerketen',
+            description:
+                'Notities worden gesorteerd op de eerste sleutel. Elke volgende sleutel ordent notities die gelijk zijn op de sleutels erboven.',
+            propertyPlaceholder: 'Eigenschapssleutel',
+            ascending: 'Oplopend',
+            descending: 'Aflopend',
+            addKey: 'Sorteersleutel toevoegen',
+            moveUp: 'Omhoog',
+            moveDown: 'Omlaag',
+            save: 'Opslaan',
+            fields: {
+                modified: 'Datum bewerkt',
+                created: 'Datum aangemaakt',
+                title: 'Titel',
+                filename: 'Bestandsnaam',
+                property: 'Eigenschap',
+                wordcount: 'Aantal woorden',
+                tasks: 'Open taken',
+                size: 'Bestandsgrootte'
+            }
+        },
+        noteTemplateRules: {
+            title: 'Notitiesjabloonregels',
+            description:
+                'Notities die vanuit een map, tag of eigenschap worden gemaakt, gebruiken het sjabloon en de bestandsnaam van de eerste passende regel. Bestandsnamen ondersteunen {{date}}, {{date:FORMAT}}, {{time}} en {{title}}.',
+            folderPatternPlaceholder: 'Mappad, bijv. Meetings of Projects/*/Notes',
+            tagPatternPlaceholder: 'Tag, bijv. meeting',
+            propertyPatternPlaceholder: 'Eigenschap, bijv. type of type=meeting',
+            templatePlaceholder: 'Sjabloonbestand',
+            fileNamePlaceholder: 'Bestandsnaampatroon, bijv. {{date}} Meeting',
+            emptyState: 'Geen regels. Nieuwe notities worden leeg aangemaakt.',
+            addRule: 'Regel toevoegen',
+            moveUp: 'Omhoog',
+            moveDown: 'Omlaag',
+            save: 'Opslaan',
+            targets: {
+                folder: 'Map',
+                tag: 'Tag',
+                property: 'Eigenschap'
+            }
+        },
+        fileStyleRules: {
+            title: 'Bestandsstijlregels',
+            description:
+                'Bestanden die overeenkomen met de zoekopdracht van een regel krijgen het pictogram en de kleur ervan. Zoekopdrachten gebruiken de syntaxis van het zoekfilter. Regels worden van boven naar beneden gecontroleerd: de eerste overeenkomende regel met een pictogram bepaalt het pictogram en de eerste met een kleur bepaalt de kleur. Pictogrammen en kleuren die op een bestand zijn ingesteld hebben voorrang.',
+            queryPlaceholder: 'Filterzoekopdracht, bijv. .status=done, #meeting of folder:archive',
+            emptyState: 'Geen regels.',
+            setIcon: 'Pictogram instellen',
+            setColor: 'Kleur instellen',
+            addRule: 'Regel toevoegen',
+            moveUp: 'Omhoog',
+            moveDown: 'Omlaag',
+            save: 'Opslaan'
+        },
+        configBundleImport: {
+            title: 'Configuratiebundel importeren',
+            description:
+                'Kies een bundel-JSON-bestand uit de kluis en kies daarna de onderdelen om te importeren. Geïmporteerde waarden worden gevalideerd zoals gewone instellingen.',
+            filePlaceholder: 'Pad naar bundel, bijv. notebook-navigator-config.json',
+            sectionsLabel: 'Te importeren onderdelen',
+            strategyLabel: 'Bestaande instellingen',
+            strategies: {
+                merge: 'Samenvoegen, bundelitems winnen',
+                replace: 'Geselecteerde onderdelen vervangen'
+            },
+            bundleInfo: 'Geëxporteerd op {date} uit Notebook Navigator {version}',
+            importButton: 'Importeren',
+            sections: {
+                vaultProfiles: 'Kluisprofielen en snelkoppelingen',
+                styling: 'Pictogrammen en kleuren van mappen, tags en eigenschappen',
+                appearances: 'Weergave van mappen en tags',
+                sortOverrides: 'Sorteringsoverschrijvingen',
+                iconMaps: 'Pictogramtoewijzingen en interfacepictogrammen',
+                keyboardShortcuts: 'Sneltoetsen'
+            },
+            errors: {
+                invalidJson: 'Het bestand is geen geldige JSON.',
+                invalidFormat: 'Het bestand is geen Notebook Navigator-configuratiebundel.',
+                unsupportedVersion: 'Deze bundel is gemaakt met een nieuwere versie van Notebook Navigator.',
+                empty: 'De bundel bevat geen onderdelen die geïmporteerd kunnen worden.',
+                readFailed: 'Kan het bestand niet lezen.'
+            }
+        },
         interfaceIcons: {
             title: 'Interface-iconen',
             fileItemsSection: 'Bestandsitems',
@@ -415,6 +543,8 @@ export const STRINGS_NL = {
                 'nav-properties': 'Eigenschappen',
                 'nav-property': 'Eigenschap',
                 'nav-property-value': 'Waarde',
+                'nav-smart-folders': 'Slimme mappen',
+                'nav-smart-folder': 'Slimme map',
                 'list-pinned': 'Vastgezette items',
                 'file-unfinished-task': 'Onvoltooide taken',
                 'file-word-count': 'Aantal woorden'
@@ -494,6 +624,112 @@ export const STRINGS_NL = {
             deleteSettingsUpdateFailed: 'Eigenschap {property} verwijderd. Instellingen konden niet worden bijgewerkt.',
             invalidKeyName: 'Voer een geldige eigenschapnaam in.'
         },
+        propertyValueEdit: {
+            title: 'Eigenschappen bewerken',
+            description: 'Een eigenschap wijzigen in {count} {files}.',
+            keyLabel: 'Eigenschap',
+            keyPlaceholder: 'Naam van eigenschap',
+            modeLabel: 'Actie',
+            modes: {
+                set: 'Waarde instellen',
+                append: 'Aan lijst toevoegen',
+                remove: 'Eigenschap verwijderen'
+            },
+            valueLabel: 'Waarde',
+            valuePlaceholder: 'Waarde',
+            emptyValue: '(leeg)',
+            previewTitle: 'Voorbeeld',
+            changeSummary: '{count} van {total} notities worden gewijzigd',
+            noChanges: 'Geen notities hoeven te worden gewijzigd.',
+            apply: 'Toepassen',
+            successSingle: 'Eigenschap {property} bijgewerkt in 1 notitie',
+            successMultiple: 'Eigenschap {property} bijgewerkt in {count} notities',
+            partialFailure: 'Eigenschap {property} bijgewerkt in {count} notities. {failed} notities konden niet worden bijgewerkt.'
+        },
+        propertyValueRename: {
+            renameTitle: 'Waarde {value} hernoemen',
+            renameWarning:
+                'Het hernoemen van {property}: {value} wijzigt {count} {files}. Een bestaande waarde invoeren voegt de twee waarden samen.',
+            newValuePrompt: 'Nieuwe waarde',
+            newValuePlaceholder: 'Voer nieuwe waarde in',
+            confirmRename: 'Waarde hernoemen',
+            mergeTitle: 'Waarde {value} samenvoegen',
+            mergeWarning:
+                'Het samenvoegen van {oldValue} met {newValue} wijzigt {count} {files}. {newValue} behoudt een eigen pictogram, kleur en snelkoppelingen.',
+            mergePlaceholder: '{value} samenvoegen met...',
+            mergeInstruction: 'om samen te voegen',
+            confirmMerge: 'Waarden samenvoegen',
+            noOtherValues: 'Eigenschap {property} heeft geen andere waarden',
+            nestedTarget: 'Een waarde kan niet worden hernoemd naar een van de geneste waarden.',
+            invalidValue: 'Voer een geldige waarde in.',
+            noChanges: '{oldValue} → {newValue} (geen wijzigingen)',
+            successSingle: '{oldValue} → {newValue} hernoemd in 1 notitie',
+            successMultiple: '{oldValue} → {newValue} hernoemd in {count} notities',
+            partialFailure: '{oldValue} → {newValue} hernoemd in {count} notities. {failed} notities konden niet worden bijgewerkt.'
+        },
+        tagOperationSummary: {
+            close: 'Sluiten',
+            updatedNotes: 'Bijgewerkte notities',
+            skippedNotes: 'Overgeslagen notities',
+            skippedDescription: 'Deze notities zijn na het voorbeeld gewijzigd of hadden niets om bij te werken.',
+            failedNotes: 'Mislukte notities',
+            reportSummary: '{changed} van {total} notities bijgewerkt.'
+        },
+        tagMerge: {
+            title: 'Tags samenvoegen',
+            description: 'Voeg meerdere tags samen tot één tag. Geneste tags verhuizen mee met hun bovenliggende tag.',
+            sourcesLabel: 'Samen te voegen tags',
+            sourcesPlaceholder: "Door komma's gescheiden tags",
+            targetLabel: 'Samenvoegen met',
+            targetPlaceholder: 'Doeltag',
+            preview: 'Voorbeeld samenvoegen',
+            nothingToMerge:
+                'Geen tags om samen te voegen. Controleer of de tags in notities worden gebruikt en verschillen van de doeltag.',
+            previewTitle: 'Samenvoegen met {tag}',
+            previewDescription: 'Het samenvoegen van {tags} met {tag} wijzigt {count} notities.',
+            confirm: 'Tags samenvoegen',
+            affectedNotes: 'Betrokken notities',
+            skippedTags: 'Overgeslagen tags',
+            skipReasons: {
+                sameAsTarget: 'gelijk aan de doeltag',
+                containsTarget: 'de doeltag is genest onder deze tag',
+                nestedInSource: 'wordt samen met de bovenliggende tag samengevoegd',
+                noNotes: 'in geen enkele notitie gebruikt'
+            },
+            alreadyTagged: 'Notities die al {tag} hebben',
+            alreadyTaggedDescription: 'Deze notities bevatten de doeltag meer dan eens.',
+            multipleSources: 'Notities met meerdere samengevoegde tags',
+            multipleSourcesDescription: 'Elk van deze notities bevat de doeltag meer dan eens.',
+            nestedCollisions: 'Conflicten met geneste tags',
+            nestedCollisionsDescription: 'Deze geneste tags worden samengevoegd met geneste tags die al bestaan.',
+            notFinalized: 'Metadata niet verplaatst',
+            notFinalizedDescription:
+                'Sommige notities met deze tags zijn niet bijgewerkt, daarom zijn pictogrammen, kleuren en snelkoppelingen behouden.',
+            reportTitle: 'Samengevoegd met {tag}'
+        },
+        tagSplit: {
+            title: 'Tag {tag} splitsen',
+            description:
+                '{count} {files} met precies {tag}. Elke notitie verhuist naar de onderliggende tag van de eerste overeenkomende regel. Notities zonder overeenkomende regel behouden {tag}.',
+            childPlaceholder: 'Onderliggende tag',
+            kinds: {
+                folder: 'Map',
+                query: 'Filterquery'
+            },
+            folderPlaceholder: 'Mappad (inclusief submappen)',
+            queryPlaceholder: 'Zoekfilterquery',
+            addRule: 'Regel toevoegen',
+            preview: 'Voorbeeld splitsen',
+            nothingMatched: 'Geen notities komen overeen met de regels.',
+            previewTitle: '{tag} splitsen',
+            previewDescription: '{count} van {total} notities met {tag} verhuizen naar een onderliggende tag.',
+            confirm: 'Tag splitsen',
+            invalidRules: 'Regels die niet kunnen worden geëvalueerd',
+            invalidRulesDescription: "Filterquery's hebben zoekcriteria en een gereed notitiecache nodig.",
+            unmatched: 'Notities zonder overeenkomende regel',
+            unmatchedDescription: 'Deze notities behouden {tag}.',
+            reportTitle: '{tag} gesplitst'
+        },
         fileSystem: {
             newFolderTitle: 'Nieuwe map',
             renameFolderTitle: 'Map hernoemen',
@@ -503,6 +739,10 @@ export const STRINGS_NL = {
             deleteFileAttachmentsTitle: 'Bestandsbijlagen verwijderen?',
             moveFileConflictTitle: 'Verplaatsingsconflict',
             folderNamePrompt: 'Voer mapnaam in:',
+            newNoteTitle: 'Nieuwe notitie',
+            noteTitlePrompt: 'Voer de titel van de notitie in:',
+            createNoteButton: 'Maken',
+            newNoteFileNamePrompt: 'Bestandsnaampatroon, bijv. {{date:YYYYMMDDHHmm}} {{title}}. Leeg laten voor de standaard.',
             hideInOtherVaultProfiles: 'Verbergen in andere kluisprofielen',
             renamePrompt: 'Voer nieuwe naam in:',
             renameVaultTitle: 'Weergavenaam kluis wijzigen',
@@ -596,6 +836,23 @@ export const STRINGS_NL = {
             applyButton: 'Toepassen',
             emptyState: 'Geen eigenschapssleutels gevonden.'
         },
+        smartFolder: {
+            newTitle: 'Nieuwe slimme map',
+            newNestedTitle: 'Nieuwe slimme map in {name}',
+            editTitle: 'Slimme map bewerken',
+            nameLabel: 'Naam',
+            namePlaceholder: 'Naam van slimme map',
+            queryLabel: 'Filterzoekopdracht',
+            queryPlaceholder: '#project AND -#archived',
+            queryDescription:
+                'Gebruikt de syntaxis van filterzoeken. Geneste slimme mappen tonen alleen notities die ook overeenkomen met de zoekopdrachten van hun bovenliggende mappen.',
+            create: 'Maken',
+            save: 'Opslaan',
+            emptyName: 'De naam van de slimme map mag niet leeg zijn',
+            duplicateName: 'Hier bestaat al een slimme map met deze naam',
+            deleteTitle: 'Slimme map "{name}" verwijderen?',
+            deleteMessage: 'Geneste slimme mappen worden ook verwijderd. Notities worden niet gewijzigd.'
+        },
         welcome: {
             title: 'Welkom bij {pluginName}',
             introText:
@@ -679,6 +936,9 @@ export const STRINGS_NL = {
             iconPackUpdated: '{provider} bijgewerkt ({version})',
             iconPackRemoved: '{provider} verwijderd',
             iconPackLoadFailed: 'Kan {provider} niet laden',
+            folderMetadataWritten: 'Metadata geschreven voor {count} mappen',
+            folderMetadataLoaded: 'Metadata geladen voor {count} mappen',
+            folderMetadataStorageDisabled: 'Kies eerst opslag in mapnotitie of bijbestand in de instellingen voor Mappen',
             hiddenFileReveal: 'Bestand is verborgen. Schakel "Verborgen items tonen" in om het weer te geven'
         },
         confirmations: {
@@ -708,7 +968,62 @@ export const STRINGS_NL = {
             filesAlreadyHaveProperty: '{count} bestanden hebben deze eigenschap al',
             noTagsToClear: 'Geen tags om te wissen',
             fileImported: '1 bestand geïmporteerd',
-            filesImported: '{count} bestanden geïmporteerd'
+            filesImported: '{count} bestanden geïmporteerd',
+            filesMoved: '{count} bestanden verplaatst naar {folder}'
+        }
+    },
+
+    // Undo history
+    undoHistory: {
+        undo: 'Ongedaan maken',
+        undone: 'Ongedaan gemaakt: {action}',
+        redone: 'Opnieuw uitgevoerd: {action}',
+        nothingToUndo: 'Niets om ongedaan te maken',
+        nothingToRedo: 'Niets om opnieuw uit te voeren',
+        failed: 'Kon "{action}" niet terugdraaien: {error}',
+        partial: '{count} items konden niet worden hersteld',
+        actions: {
+            moveFile: '"{name}" verplaatsen',
+            moveFiles: '{count} bestanden verplaatsen',
+            moveFolder: 'Map "{name}" verplaatsen',
+            renameFile: '"{name}" hernoemen',
+            renameFolder: 'Map "{name}" hernoemen',
+            addTag: 'Tag #{tag} toevoegen',
+            removeTag: 'Tag #{tag} verwijderen',
+            renameProperty: 'Eigenschap {oldKey} → {newKey} hernoemen',
+            editProperty: 'Eigenschap {property} bewerken',
+            renamePropertyValue: 'Waarde van {property} hernoemen {oldValue} → {newValue}',
+            changeAppearance: 'Weergave van "{name}" wijzigen'
+        }
+    },
+
+    // Vault statistics dashboard
+    statisticsDashboard: {
+        refresh: 'Vernieuwen',
+        loading: 'Wachten op de notitiecache...',
+        unavailable: 'Statistieken konden niet worden berekend.',
+        empty: 'Geen gegevens',
+        weekLabel: 'Week van {date}',
+        createdCount: '{count} aangemaakt',
+        modifiedCount: '{count} gewijzigd',
+        summary: {
+            notes: 'Notities',
+            words: 'Woorden',
+            openTasks: 'Open taken',
+            untagged: 'Notities zonder tags',
+            orphaned: 'Verweesde notities',
+            orphanedDescription: 'Notities waarnaar geen andere notitie linkt'
+        },
+        sections: {
+            activity: 'Aangemaakte en gewijzigde notities per week',
+            wordsPerFolder: 'Woorden per map',
+            openTasksPerFolder: 'Open taken per map',
+            topTags: 'Meest gebruikte tags',
+            topProperties: 'Meest gebruikte eigenschappen'
+        },
+        legend: {
+            created: 'Aangemaakt',
+            modified: 'Gewijzigd'
         }
     },
 
@@ -733,8 +1048,10 @@ export const STRINGS_NL = {
         revealFile: 'Bestand tonen',
         search: 'Zoeken',
         searchVaultRoot: 'Zoeken in kluisroot',
+        createSmartFolder: 'Slimme map maken van zoekopdracht',
         toggleDualPane: 'Dubbel paneel in-/uitschakelen',
         toggleCalendar: 'Kalender in-/uitschakelen',
+        openStatistics: 'Kluisstatistieken openen', // Command palette: Opens the vault statistics dashboard (English: Open vault statistics)
         selectVaultProfile: 'Kluisprofiel wijzigen',
         selectVaultProfile1: 'Kluisprofiel 1 selecteren',
         selectVaultProfile2: 'Kluisprofiel 2 selecteren',
@@ -743,12 +1060,18 @@ export const STRINGS_NL = {
         createNewNote: 'Nieuwe notitie maken',
         createNewNoteFromTemplate: 'Nieuwe notitie uit sjabloon',
         moveFiles: 'Bestanden verplaatsen',
+        undo: 'Bestandsbewerking ongedaan maken',
+        redo: 'Bestandsbewerking opnieuw uitvoeren',
         selectNextFile: 'Volgend bestand selecteren',
         selectPreviousFile: 'Vorig bestand selecteren',
         convertToFolderNote: 'Converteren naar mapnotitie',
         setAsFolderNote: 'Als mapnotitie instellen',
         detachFolderNote: 'Mapnotitie loskoppelen',
         pinAllFolderNotes: 'Alle mapnotities vastpinnen',
+        writeFolderMetadataFiles: 'Mapmetadata naar bestanden schrijven', // Command palette: Writes folder icons, colors, sort overrides and appearances to folder notes or sidecars (English: Write folder metadata to files)
+        reloadFolderMetadataFiles: 'Mapmetadata opnieuw laden uit bestanden', // Command palette: Reads folder metadata from folder notes or sidecars into settings (English: Reload folder metadata from files)
+        exportConfiguration: 'Configuratiebundel exporteren', // Command palette: Writes a configuration bundle JSON file to the vault root (English: Export configuration bundle)
+        importConfiguration: 'Configuratiebundel importeren', // Command palette: Opens a dialog to import sections of a configuration bundle (English: Import configuration bundle)
         navigateToFolder: 'Navigeren naar map',
         navigateToTag: 'Navigeren naar tag',
         navigateToProperty: 'Navigeer naar eigenschap',
@@ -762,6 +1085,8 @@ export const STRINGS_NL = {
         addTag: 'Tag toevoegen aan geselecteerde bestanden',
         removeTag: 'Tag verwijderen van geselecteerde bestanden',
         removeAllTags: 'Alle tags verwijderen van geselecteerde bestanden',
+        mergeTags: 'Tags samenvoegen', // Command palette: Opens a dialog to merge several tags into one tag (English: Merge tags)
+        editProperties: 'Eigenschappen van geselecteerde bestanden bewerken', // Command palette: Opens a dialog to set, append to, or remove a property on selected files (English: Edit properties of selected files)
         openAllFiles: 'Alle bestanden openen',
         rebuildCache: 'Cache opnieuw opbouwen'
     },
@@ -770,6 +1095,7 @@ export const STRINGS_NL = {
     plugin: {
         viewName: 'Notebook Navigator',
         calendarViewName: 'Kalender',
+        statisticsViewName: 'Kluisstatistieken', // Name shown in the statistics view header/tab (English: Vault statistics)
         ribbonTooltip: 'Notebook Navigator',
         revealInNavigator: 'Tonen in Notebook Navigator'
     },
@@ -868,7 +1194,13 @@ export const STRINGS_NL = {
                     'filename-asc': 'Bestandsnaam (A bovenaan)',
                     'filename-desc': 'Bestandsnaam (Z bovenaan)',
                     'property-asc': 'Eigenschap (A bovenaan)',
-                    'property-desc': 'Eigenschap (Z bovenaan)'
+                    'property-desc': 'Eigenschap (Z bovenaan)',
+                    'wordcount-desc': 'Aantal woorden (meeste bovenaan)',
+                    'wordcount-asc': 'Aantal woorden (minste bovenaan)',
+                    'tasks-desc': 'Open taken (meeste bovenaan)',
+                    'tasks-asc': 'Open taken (minste bovenaan)',
+                    'size-desc': 'Bestandsgrootte (grootste bovenaan)',
+                    'size-asc': 'Bestandsgrootte (kleinste bovenaan)'
                 },
                 propertyOverride: {
                     asc: 'Eigenschap ‘{property}’ (A bovenaan)',
@@ -894,6 +1226,10 @@ export const STRINGS_NL = {
                 name: 'Scroll naar geselecteerd bestand bij lijstwijzigingen',
                 desc: 'Scroll naar het geselecteerde bestand bij het vastpinnen van notities, tonen van afstammelingen-notities, wijzigen van mapweergave of uitvoeren van bestandsoperaties.'
             },
+            searchNoteContent: {
+                name: 'Notitie-inhoud doorzoeken',
+                desc: 'Bouwt een lokale full-text index van notitieteksten voor filterzoeken. Schakelt `content:`-filters in en laat losse zoekwoorden naast bestandsnamen ook notitietekst vinden. Omnisearch is niet nodig.'
+            },
             includeDescendantNotes: {
                 name: 'Notities uit submappen / afstammelingen tonen',
                 desc: 'Notities uit geneste submappen en tag-afstammelingen opnemen bij het bekijken van een map of tag.'
@@ -908,11 +1244,13 @@ export const STRINGS_NL = {
             },
             groupNotes: {
                 name: 'Notities groeperen',
-                desc: 'Koppen tussen notities weergeven gegroepeerd op datum of map. Tagweergaven gebruiken datumgroepen wanneer mapgroepering is ingeschakeld.',
+                desc: 'Koppen tussen notities weergeven gegroepeerd op datum, map, tag, beginletter of eigenschapswaarde. Tagweergaven gebruiken datumgroepen wanneer mapgroepering is ingeschakeld.',
                 options: {
                     none: 'Niet groeperen',
                     date: 'Groeperen op datum',
-                    folder: 'Groeperen op map'
+                    folder: 'Groeperen op map',
+                    tag: 'Groeperen op tag',
+                    alphabetical: 'Alfabetisch groeperen'
                 }
             },
             showPinnedGroupHeader: {
@@ -959,6 +1297,11 @@ export const STRINGS_NL = {
                 placeholder: '# Extension=icon\ncpp=LiFileCode\npdf=RaBook',
                 editTooltip: 'Toewijzingen bewerken'
             },
+            fileStyleRules: {
+                name: 'Bestandsstijlregels',
+                desc: 'Geef bestanden die overeenkomen met een zoekfilter een pictogram en kleur, bijv. een vinkje voor .status=done of grijs voor folder:archive. Regels worden opgeslagen in het kluisprofiel.',
+                buttonText: 'Regels bewerken'
+            },
             optimizeNoteHeight: {
                 name: 'Variabele notitiehoogte',
                 desc: 'Compacte hoogte gebruiken voor vastgepinde notities en notities zonder voorbeeldtekst.'
@@ -1039,6 +1382,15 @@ export const STRINGS_NL = {
                 name: 'Nieuwe notities in nieuw tabblad openen',
                 desc: 'Wanneer ingeschakeld opent de opdracht Nieuwe notitie maken notities in een nieuw tabblad. Wanneer uitgeschakeld vervangen notities het huidige tabblad.'
             },
+            newNoteFileNamePattern: {
+                name: 'Bestandsnaam nieuwe notities',
+                desc: 'Bestandsnaampatroon voor nieuwe notities. Ondersteunt {{date}}, {{date:FORMAT}}, {{time}} en {{title}}. Mappen kunnen het overschrijven via het mapmenu. Leeg laten voor "Naamloos".',
+                placeholder: '{{date:YYYY-MM-DD}} {{title}}'
+            },
+            promptForNewNoteTitle: {
+                name: 'Titel vragen bij het maken van notities',
+                desc: 'Vraagt om een titel voordat een notitie wordt gemaakt. De titel vult {{title}} in het patroon, of wordt de bestandsnaam als er geen patroon is.'
+            },
             autoRevealActiveNote: {
                 name: 'Actieve notitie automatisch tonen',
                 desc: 'Notities automatisch tonen wanneer geopend vanuit Snelle Wisselaar, links of zoeken.'
@@ -1215,6 +1567,11 @@ export const STRINGS_NL = {
                 desc: 'De sjabloonbestandskiezer toont notities uit deze map.',
                 placeholder: 'Templates'
             },
+            noteTemplateRules: {
+                name: 'Notitiesjabloonregels',
+                desc: 'Een sjabloon en bestandsnaampatroon toepassen op notities die vanuit een map, tag of eigenschap worden gemaakt.',
+                buttonText: 'Regels bewerken'
+            },
             calendarCustomFilePattern: {
                 name: 'Dagelijkse notities',
                 desc: 'Pad formatteren met Moment-datumnotatie. Zet submapnamen tussen haakjes, bijv. [Work]/YYYY. Klik op het sjabloonpictogram om een sjabloon in te stellen. Stel de sjabloonmaplocatie in bij Algemeen > Sjablonen.',
@@ -1270,6 +1627,16 @@ export const STRINGS_NL = {
                 notice: 'Alle instellingen gereset. Herstart Obsidian of heropen Notebook Navigator om toe te passen.',
                 error: 'Instellingen resetten mislukt.'
             },
+            configBundle: {
+                name: 'Configuratiebundel',
+                desc: 'Exporteer kluisprofielen, snelkoppelingen, stijlen, weergaven, sorteringsoverschrijvingen, pictogramtoewijzingen en sneltoetsen naar een JSON-bestand in de kluishoofdmap, of importeer een bundel om een andere kluis in te richten.',
+                exportButton: 'Exporteren',
+                importButton: 'Importeren',
+                exportSuccess: 'Configuratie geëxporteerd naar {filename}',
+                exportFailed: 'Exporteren van configuratie mislukt.',
+                importSuccess: 'Configuratie geïmporteerd.',
+                importFailed: 'Importeren van configuratie mislukt.'
+            },
             multiSelectModifier: {
                 name: 'Meervoudige selectie modifier',
                 desc: 'Kies welke modificatortoets meervoudige selectie in-/uitschakelt. Wanneer Option/Alt is geselecteerd, opent Cmd/Ctrl klik notities in een nieuw tabblad.',
@@ -1294,6 +1661,14 @@ export const STRINGS_NL = {
                 name: 'Ctrl+Enter',
                 desc: 'Open het geselecteerde bestand in een nieuw tabblad, splitsing of venster met Ctrl+Enter.'
             },
+            vimKeyboardNavigation: {
+                name: 'Toetsreeksen in Vim-stijl',
+                desc: 'gg en G springen naar het eerste en laatste item, dd verwijdert, zc en zo klappen in en uit, / opent zoeken. Eigen sneltoetsen hebben voorrang.'
+            },
+            typeAheadFind: {
+                name: 'Zoeken tijdens typen',
+                desc: 'Letters typen springt naar de eerste map, tag of notitie waarvan de naam met de getypte tekst begint. Niet beschikbaar zolang toetsreeksen in Vim-stijl aan staan.'
+            },
             fileVisibility: {
                 name: 'Bestandstypes tonen (kluisprofiel)',
                 desc: 'Filter welke bestandstypes worden weergegeven in de navigator. Bestandstypes die niet door Obsidian worden ondersteund, kunnen in externe applicaties worden geopend.',
@@ -1417,6 +1792,10 @@ export const STRINGS_NL = {
                     none: 'Geen'
                 }
             },
+            showTaskProgress: {
+                name: 'Taakvoortgang',
+                desc: 'Toon een voortgangsbalk en de volgende vervaldatum voor notities met taken.'
+            },
             propertyFields: {
                 name: 'Eigenschapssleutels (kluisprofiel)',
                 desc: 'Frontmatter-eigenschapssleutels, met zichtbaarheid per sleutel voor navigatie en bestandslijst.',
@@ -1529,6 +1908,15 @@ export const STRINGS_NL = {
                     alphaDesc: 'Z tot A'
                 }
             },
+            folderMetadataStorage: {
+                name: 'Opslag van mapmetadata',
+                desc: 'Sla mappictogrammen, -kleuren, sorteringsoverschrijvingen en weergaven ook op in de kluis, zodat ze via synchronisatie of git met de map meereizen. Wijzigingen worden in beide richtingen gesynchroniseerd. Voer "Mapmetadata naar bestanden schrijven" uit om bestaande metadata te migreren.',
+                options: {
+                    settings: 'Alleen plugin-instellingen',
+                    folderNote: 'Frontmatter van de mapnotitie',
+                    sidecar: '.folder.yml-bijbestand'
+                }
+            },
             showNoteCount: {
                 name: 'Notitietelling tonen',
                 desc: 'Het aantal notities naast elke map en tag weergeven.'
@@ -1644,6 +2032,11 @@ export const STRINGS_NL = {
                 name: 'Eigenschappenmap tonen',
                 desc: '"Eigenschappen" als een inklapbare map tonen.'
             },
+            propertyHierarchies: {
+                name: 'Eigenschapshiërarchieën',
+                desc: 'Notities nesten in virtuele mappen per eigenschapswaarde, één niveau per sleutel. Eén hiërarchie per regel als `Name: key > key > key`. Sleutels moeten ook in de eigenschapssleutels staan.',
+                placeholder: 'Research: type > status > project'
+            },
             hiddenTags: {
                 name: 'Tags verbergen (kluisprofiel)',
                 desc: 'Kommagescheiden lijst van tagpatronen. Naampatronen: tag* (begint met), *tag (eindigt met). Padpatronen: archief (tag en afstammelingen), archief/* (alleen afstammelingen), projecten/*/concepten (wildcard in het midden).',
@@ -46,7 +46,10 @@ export const STRINGS_PL = {
         pinnedSection: 'Przypięte', // Header for the pinned notes section at the top of file list (English: Pinned)
         notesSection: 'Notatki', // Header shown between pinned and regular items when showing documents only (English: Notes)
         filesSection: 'Pliki', // Header shown between pinned and regular items when showing supported or all files (English: Files)
-        hiddenItemAriaLabel: '{name} (ukryte)' // Accessibility label applied to list items that are normally hidden
+        noPropertyValue: 'Brak wartości', // Header for notes without a value when grouping by property (English: No value)
+        hiddenItemAriaLabel: '{name} (ukryte)', // Accessibility label applied to list items that are normally hidden
+        taskProgressAriaLabel: 'Ukończono {completed} z {total} zadań', // Accessibility label for the task progress bar in file items
+        taskDue: 'Termin {date}' // Next due date shown next to the task progress bar (English: Due {date})
     },
 
     // Tag list
@@ -60,6 +63,7 @@ export const STRINGS_PL = {
         recentNotesHeader: 'Ostatnie notatki',
         recentFilesHeader: 'Ostatnie pliki',
         properties: 'Atrybuty',
+        smartFolders: 'Inteligentne foldery',
         reorderRootFoldersTitle: 'Zmień kolejność elementów',
         reorderRootFoldersHint: 'Użyj strzałek lub przeciągnij, aby zmienić kolejność',
         vaultRootLabel: 'Sejf',
@@ -129,6 +133,7 @@ export const STRINGS_PL = {
         mobileBackToNavigation: 'Wróć do nawigacji', // Mobile-only back button text to return to navigation pane (English: Back to navigation)
         changeSortOrder: 'Zmień kolejność sortowania', // Tooltip for the sort order toggle button (English: Change sort order)
         defaultSort: 'Domyślne', // Label for default sorting mode (English: Default)
+        customSortChain: 'Własny łańcuch sortowania...',
         showFolders: 'Pokaż nawigację', // Tooltip for button to show the navigation pane (English: Show navigation)
         reorderRootFolders: 'Zmień kolejność elementów',
         finishRootFolderReorder: 'Gotowe',
@@ -170,6 +175,15 @@ export const STRINGS_PL = {
                         '`-word` Wyklucz notatki zawierające słowo "word" w nazwie pliku.'
                     ]
                 },
+                content: {
+                    title: 'Treść notatek',
+                    items: [
+                        '`content:słowo` Notatki, których tekst zawiera słowo zaczynające się od "słowo".',
+                        '`content:"dwa słowa"` Każde słowo musi wystąpić w tekście notatki.',
+                        '`-content:słowo` Wyklucz notatki, których tekst zawiera słowo zaczynające się od "słowo".',
+                        'Wymaga opcji **Przeszukuj treść notatek** w ustawieniach panelu listy. Po włączeniu zwykłe słowa pasują też do tekstu.'
+                    ]
+                },
                 tags: {
                     title: 'Tagi',
                     items: [
@@ -193,6 +207,8 @@ export const STRINGS_PL = {
                         '`."Reading Status"="In Progress"` Atrybuty i ich wartości ze spacjami muszą być w podwójnych cudzysłowach.',
                         '`-.key` Wyklucz notatki z atrybutem.',
                         '`-.key=value` Wyklucz notatki z wartością atrybutu.',
+                        '`.key>=3`, `.key<2026-11-01` Porównaj właściwości liczbowe lub daty za pomocą `>`, `>=`, `<`, `<=`.',
+                        '`.key:thisweek`, `.key:1..5`, `.key:2026-11-01..2026-11-30` Dopasuj datę względną, datę, liczbę lub zakres włącznie.',
                         'Przytrzymaj Cmd/Ctrl i kliknij tag, aby dodać go za pomocą AND. Przytrzymaj Cmd/Ctrl i Shift, a następnie kliknij, aby dodać go za pomocą OR.'
                     ]
                 },
@@ -201,6 +217,8 @@ export const STRINGS_PL = {
                     items: [
                         '`has:task` Uwzględnij notatki z nieukończonymi zadaniami.',
                         '`-has:task` Wyklucz notatki z nieukończonymi zadaniami.',
+                        '`due:overdue`, `due:today`, `due:thisweek` Uwzględnij notatki z otwartym zadaniem o terminie w zakresie (daty `📅` z Tasks lub pola `[due:: ]` z Dataview).',
+                        '`due:2026-11-01..2026-11-30` Dopasuj termin lub zakres. `-due:...` wyklucza notatki z pasującym otwartym zadaniem.',
                         '`folder:meetings` Uwzględnij notatki z folderu o nazwie `meetings`.',
                         '`folder:/work/meetings` Uwzględnij notatki tylko z `work/meetings` (bez podfolderów).',
                         '`folder:/` Uwzględnij notatki tylko z folderu głównego sejfu.',
@@ -212,13 +230,13 @@ export const STRINGS_PL = {
                     ]
                 },
                 connectors: {
-                    title: 'Zachowanie AND/OR',
+                    title: 'AND/OR/NOT i grupowanie',
                     items: [
-                        '`AND` i `OR` są operatorami stosowanymi wyłącznie w zapytaniach zawierających tylko tagi.',
-                        'Zapytania zawierające wyłącznie tagi zawierają tylko filtry tagów: `#tag`, `-#tag`, `#`, `-#`.',
-                        'Jeśli zapytanie zawiera nazwy, daty (`@...`), filtry zadań (`has:task`), filtry folderów (`folder:...`) lub filtry rozszerzeń (`ext:...`), `AND` i `OR` są dopasowywane jako słowa.',
-                        'Przykładowe zapytanie z operatorem: `#work OR #home`.',
-                        'Przykładowe zapytanie mieszane: `#work OR ext:md` (`OR` jest wyszukiwane w nazwach plików).'
+                        '`AND`, `OR` i `NOT` są operatorami, gdy zapytanie zawiera filtr (`#tag`, `.key`, `@date`, `has:task`, `due:`, `folder:`, `ext:`, `content:`) lub nawiasy.',
+                        '`( )` grupuje warunki: `(folder:Projects OR folder:Areas) AND #active AND -ext:pdf`.',
+                        '`NOT warunek` lub `-warunek` wyklucza warunek. `-( )` wyklucza całą grupę.',
+                        '`NOT` ma pierwszeństwo przed `AND`, a `AND` przed `OR`. Sąsiednie warunki łączy niejawne AND.',
+                        'Zapytania złożone tylko ze słów i bez nawiasów traktują `AND`, `OR` i `NOT` jako słowa w nazwach plików (np. `czarny or biały`).'
                     ]
                 },
                 dates: {
@@ -292,12 +310,14 @@ export const STRINGS_PL = {
             addTag: 'Dodaj tag',
             removeTag: 'Usuń tag',
             removeAllTags: 'Usuń wszystkie tagi',
+            editProperties: 'Edytuj właściwości',
             changeIcon: 'Zmień ikonkę',
             changeColor: 'Zmień kolor'
         },
         folder: {
             newNote: 'Nowa notatka',
             newNoteFromTemplate: 'Nowa notatka na podstawie szablonu',
+            newNoteFileName: 'Nazwa pliku nowych notatek...',
             newFolder: 'Nowy folder',
             newCanvas: 'Nowa tablica',
             newBase: 'Nowa baza danych',
@@ -322,14 +342,24 @@ export const STRINGS_PL = {
             changeIcon: 'Zmień ikonkę',
             changeColor: 'Zmień kolor',
             changeBackground: 'Zmień tło',
+            mergeTags: 'Scal tagi...',
+            splitTag: 'Podziel tag...',
             showTag: 'Pokaż tag',
             hideTag: 'Ukryj tag'
         },
         property: {
             addKey: 'Konfiguruj klucze atrybutów',
             renameKey: 'Zmień nazwę właściwości',
+            renameValue: 'Zmień nazwę wartości',
+            mergeValue: 'Scal z wartością...',
             deleteKey: 'Usuń właściwość'
         },
+        smartFolder: {
+            newSmartFolder: 'Nowy inteligentny folder',
+            newNestedSmartFolder: 'Nowy zagnieżdżony inteligentny folder',
+            editSmartFolder: 'Edytuj inteligentny folder',
+            deleteSmartFolder: 'Usuń inteligentny folder'
+        },
         navigation: {
             addSeparator: 'Dodaj separator',
             removeSeparator: 'Usuń separator'
@@ -355,11 +385,25 @@ export const STRINGS_PL = {
     folderAppearance: {
         standardPreset: 'Standardowy',
         compactPreset: 'Kompaktowy',
+        gridPreset: 'Siatka',
+        boardPreset: 'Tablica...',
+        boardPresetOption: (property: string) => `Tablica (${property})`,
+        boardPropertyAction: 'Kolumny tablicy według atrybutu',
+        boardPropertyPlaceholder: 'Klucz atrybutu',
+        tileSize: 'Rozmiar kafelków',
+        tileSizeOptions: {
+            small: 'Małe kafelki',
+            medium: 'Średnie kafelki',
+            large: 'Duże kafelki'
+        },
         defaultSuffix: '(domyślne)',
         defaultLabel: 'Domyślne',
         titleRows: 'Wiersze tytułu',
         previewRows: 'Wiersze podglądu',
         groupBy: 'Grupuj według',
+        groupByPropertyAction: 'Grupuj według atrybutu...',
+        groupByPropertyPlaceholder: 'Klucz atrybutu',
+        groupByPropertyOption: (property: string) => `Grupuj według atrybutu (${property})`,
         defaultTitleOption: (rows: number) => `Domyślne wiersze tytułu (${rows})`,
         defaultPreviewOption: (rows: number) => `Domyślne wiersze podglądu (${rows})`,
         defaultGroupOption: (groupLabel: string) => `Domyślne grupowanie (${groupLabel})`,
@@ -385,6 +429,90 @@ export const STRINGS_PL = {
         fileIconRuleEditor: {
             addRuleAria: 'Dodaj regułę'
         },
+        sortChain: {
+            title: 'Własny łańcuch sortowania',
+            description:
+                'Notatki są sortowane według pierwszego klucza. Każdy kolejny klucz porządkuje notatki, które są równe według kluczy powyżej.',
+            propertyPlaceholder: 'Klucz atrybutu',
+            ascending: 'Rosnąco',
+            descending: 'Malejąco',
+            addKey: 'Dodaj klucz sortowania',
+            moveUp: 'Przenieś w górę',
+            moveDown: 'Przenieś w dół',
+            save: 'Zapisz',
+            fields: {
+                modified: 'Data edycji',
+                created: 'Data utworzenia',
+                title: 'Tytuł',
+                filename: 'Nazwa pliku',
+                property: 'Atrybut',
+                wordcount: 'Liczba słów',
+                tasks: 'Otwarte zadania',
+                size: 'Rozmiar pliku'
+            }
+        },
+        noteTemplateRules: {
+            title: 'Reguły szablonów notatek',
+            description:
+                'Notatki tworzone z folderu, tagu lub właściwości używają szablonu i nazwy pliku z pierwszej pasującej reguły. Nazwy plików obsługują {{date}}, {{date:FORMAT}}, {{time}} i {{title}}.',
+            folderPatternPlaceholder: 'Ścieżka folderu, np. Meetings lub Projects/*/Notes',
+            tagPatternPlaceholder: 'Tag, np. meeting',
+            propertyPatternPlaceholder: 'Właściwość, np. type lub type=meeting',
+            templatePlaceholder: 'Plik szablonu',
+            fileNamePlaceholder: 'Wzorzec nazwy pliku, np. {{date}} Meeting',
+            emptyState: 'Brak reguł. Nowe notatki są tworzone puste.',
+            addRule: 'Dodaj regułę',
+            moveUp: 'Przenieś w górę',
+            moveDown: 'Przenieś w dół',
+            save: 'Zapisz',
+            targets: {
+                folder: 'Folder',
+                tag: 'Tag',
+                property: 'Właściwość'
+            }
+        },
+        fileStyleRules: {
+            title: 'Reguły stylu plików',
+            description:
+                'Pliki pasujące do zapytania reguły otrzymują jej ikonę i kolor. Zapytania używają składni filtra wyszukiwania. Reguły są sprawdzane od góry do dołu: pierwsza pasująca reguła z ikoną ustawia ikonę, a pierwsza pasująca reguła z kolorem ustawia kolor. Ikony i kolory ustawione bezpośrednio na pliku mają pierwszeństwo.',
+            queryPlaceholder: 'Zapytanie filtra, np. .status=done, #meeting lub folder:archive',
+            emptyState: 'Brak reguł.',
+            setIcon: 'Ustaw ikonę',
+            setColor: 'Ustaw kolor',
+            addRule: 'Dodaj regułę',
+            moveUp: 'Przenieś w górę',
+            moveDown: 'Przenieś w dół',
+            save: 'Zapisz'
+        },
+        configBundleImport: {
+            title: 'Importuj pakiet konfiguracji',
+            description:
+                'Wybierz plik JSON pakietu z sejfu, a następnie sekcje do zaimportowania. Importowane wartości są sprawdzane tak jak zwykłe ustawienia.',
+            filePlaceholder: 'Ścieżka do pakietu, np. notebook-navigator-config.json',
+            sectionsLabel: 'Sekcje do zaimportowania',
+            strategyLabel: 'Istniejące ustawienia',
+            strategies: {
+                merge: 'Scal, wpisy z pakietu mają pierwszeństwo',
+                replace: 'Zastąp wybrane sekcje'
+            },
+            bundleInfo: 'Wyeksportowano {date} z Notebook Navigator {version}',
+            importButton: 'Importuj',
+            sections: {
+                vaultProfiles: 'Profile sejfu i skróty',
+                styling: 'Ikony i kolory folderów, tagów i właściwości',
+                appearances: 'Wygląd folderów i tagów',
+                sortOverrides: 'Nadpisania sortowania',
+                iconMaps: 'Mapy ikon i ikony interfejsu',
+                keyboardShortcuts: 'Skróty klawiszowe'
+            },
+            errors: {
+                invalidJson: 'Plik nie jest prawidłowym JSON.',
+                invalidFormat: 'Plik nie jest pakietem konfiguracji Notebook Navigator.',
+                unsupportedVersion: 'Ten pakiet utworzono w nowszej wersji Notebook Navigator.',
+                empty: 'Pakiet nie zawiera sekcji, które można zaimportować.',
+                readFailed: 'Nie można odczytać pliku.'
+            }
+        },
         interfaceIcons: {
             title: 'Ikonki interfejsu',
             fileItemsSection: 'Elementy pliku',
@@ -415,6 +543,8 @@ export const STRINGS_PL = {
                 'nav-properties': 'Atrybuty',
                 'nav-property': 'Atrybut',
                 'nav-property-value': 'Wartość',
+                'nav-smart-folders': 'Inteligentne foldery',
+                'nav-smart-folder': 'Inteligentny folder',
                 'list-pinned': 'Przypięte elementy',
                 'file-unfinished-task': 'Nieukończone zadania',
                 'file-word-count': 'Liczba słów'
@@ -495,6 +625,111 @@ export const STRINGS_PL = {
             deleteSettingsUpdateFailed: 'Usunięto właściwość {property}. Nie udało się zaktualizować ustawień.',
             invalidKeyName: 'Wprowadź prawidłową nazwę właściwości.'
         },
+        propertyValueEdit: {
+            title: 'Edytuj właściwości',
+            description: 'Zmień właściwość w {count} {files}.',
+            keyLabel: 'Właściwość',
+            keyPlaceholder: 'Nazwa właściwości',
+            modeLabel: 'Akcja',
+            modes: {
+                set: 'Ustaw wartość',
+                append: 'Dodaj do listy',
+                remove: 'Usuń właściwość'
+            },
+            valueLabel: 'Wartość',
+            valuePlaceholder: 'Wartość',
+            emptyValue: '(puste)',
+            previewTitle: 'Podgląd',
+            changeSummary: 'Zmieni się {count} z {total} notatek',
+            noChanges: 'Żadna notatka nie wymaga zmian.',
+            apply: 'Zastosuj',
+            successSingle: 'Zaktualizowano właściwość {property} w 1 notatce',
+            successMultiple: 'Zaktualizowano właściwość {property} w {count} notatkach',
+            partialFailure: 'Zaktualizowano właściwość {property} w {count} notatkach. Nie udało się zaktualizować {failed} notatek.'
+        },
+        propertyValueRename: {
+            renameTitle: 'Zmień nazwę wartości {value}',
+            renameWarning:
+                'Zmiana nazwy {property}: {value} zmodyfikuje {count} {files}. Wpisanie istniejącej wartości scali obie wartości.',
+            newValuePrompt: 'Nowa wartość',
+            newValuePlaceholder: 'Wpisz nową wartość',
+            confirmRename: 'Zmień nazwę wartości',
+            mergeTitle: 'Scal wartość {value}',
+            mergeWarning:
+                'Scalenie {oldValue} z {newValue} zmodyfikuje {count} {files}. {newValue} zachowuje własną ikonę, kolor i skróty.',
+            mergePlaceholder: 'Scal {value} z...',
+            mergeInstruction: 'aby scalić',
+            confirmMerge: 'Scal wartości',
+            noOtherValues: 'Właściwość {property} nie ma innych wartości',
+            nestedTarget: 'Nie można zmienić nazwy wartości na jedną z jej zagnieżdżonych wartości.',
+            invalidValue: 'Wpisz prawidłową wartość.',
+            noChanges: '{oldValue} → {newValue} (bez zmian)',
+            successSingle: 'Zmieniono nazwę {oldValue} → {newValue} w 1 notatce',
+            successMultiple: 'Zmieniono nazwę {oldValue} → {newValue} w {count} notatkach',
+            partialFailure: 'Zmieniono nazwę {oldValue} → {newValue} w {count} notatkach. Nie udało się zaktualizować {failed} notatek.'
+        },
+        tagOperationSummary: {
+            close: 'Zamknij',
+            updatedNotes: 'Zaktualizowane notatki',
+            skippedNotes: 'Pominięte notatki',
+            skippedDescription: 'Te notatki zmieniły się po podglądzie lub nie było w nich nic do zaktualizowania.',
+            failedNotes: 'Nieudane notatki',
+            reportSummary: 'Zaktualizowano {changed} z {total} notatek.'
+        },
+        tagMerge: {
+            title: 'Scal tagi',
+            description: 'Scal kilka tagów w jeden tag. Zagnieżdżone tagi przenoszą się razem z tagiem nadrzędnym.',
+            sourcesLabel: 'Tagi do scalenia',
+            sourcesPlaceholder: 'Tagi oddzielone przecinkami',
+            targetLabel: 'Scal w',
+            targetPlaceholder: 'Tag docelowy',
+            preview: 'Podgląd scalenia',
+            nothingToMerge: 'Brak tagów do scalenia. Sprawdź, czy tagi są używane w notatkach i różnią się od tagu docelowego.',
+            previewTitle: 'Scal w {tag}',
+            previewDescription: 'Scalenie {tags} w {tag} zmodyfikuje {count} notatek.',
+            confirm: 'Scal tagi',
+            affectedNotes: 'Zmieniane notatki',
+            skippedTags: 'Pominięte tagi',
+            skipReasons: {
+                sameAsTarget: 'taki sam jak tag docelowy',
+                containsTarget: 'tag docelowy jest zagnieżdżony pod tym tagiem',
+                nestedInSource: 'scalany razem z tagiem nadrzędnym',
+                noNotes: 'nieużywany w żadnej notatce'
+            },
+            alreadyTagged: 'Notatki, które już mają {tag}',
+            alreadyTaggedDescription: 'Te notatki będą zawierać tag docelowy więcej niż raz.',
+            multipleSources: 'Notatki z kilkoma scalanymi tagami',
+            multipleSourcesDescription: 'Każda z tych notatek będzie zawierać tag docelowy więcej niż raz.',
+            nestedCollisions: 'Kolizje zagnieżdżonych tagów',
+            nestedCollisionsDescription: 'Te zagnieżdżone tagi zostaną scalone z istniejącymi zagnieżdżonymi tagami.',
+            notFinalized: 'Metadane nie zostały przeniesione',
+            notFinalizedDescription:
+                'Niektóre notatki z tymi tagami nie zostały zaktualizowane, więc ich ikony, kolory i skróty zostały zachowane.',
+            reportTitle: 'Scalono w {tag}'
+        },
+        tagSplit: {
+            title: 'Podziel tag {tag}',
+            description:
+                '{count} {files} z dokładnie tagiem {tag}. Każda notatka trafia do tagu podrzędnego pierwszej pasującej reguły. Notatki bez pasującej reguły zachowują {tag}.',
+            childPlaceholder: 'Tag podrzędny',
+            kinds: {
+                folder: 'Folder',
+                query: 'Zapytanie filtra'
+            },
+            folderPlaceholder: 'Ścieżka folderu (z podfolderami)',
+            queryPlaceholder: 'Zapytanie filtra wyszukiwania',
+            addRule: 'Dodaj regułę',
+            preview: 'Podgląd podziału',
+            nothingMatched: 'Żadna notatka nie pasuje do reguł.',
+            previewTitle: 'Podziel {tag}',
+            previewDescription: '{count} z {total} notatek z tagiem {tag} trafi do tagu podrzędnego.',
+            confirm: 'Podziel tag',
+            invalidRules: 'Reguły, których nie można ocenić',
+            invalidRulesDescription: 'Zapytania filtra wymagają kryteriów wyszukiwania i gotowej pamięci podręcznej notatek.',
+            unmatched: 'Notatki bez pasującej reguły',
+            unmatchedDescription: 'Te notatki zachowują {tag}.',
+            reportTitle: 'Podzielono {tag}'
+        },
         fileSystem: {
             newFolderTitle: 'Nowy folder',
             renameFolderTitle: 'Zmień nazwę folderu',
@@ -504,6 +739,10 @@ export const STRINGS_PL = {
             deleteFileAttachmentsTitle: 'Usunąć załączniki pliku?',
             moveFileConflictTitle: 'Konflikt przenoszenia',
             folderNamePrompt: 'Wprowadź nazwę folderu:',
+            newNoteTitle: 'Nowa notatka',
+            noteTitlePrompt: 'Wpisz tytuł notatki:',
+            createNoteButton: 'Utwórz',
+            newNoteFileNamePrompt: 'Wzorzec nazwy pliku, np. {{date:YYYYMMDDHHmm}} {{title}}. Pozostaw puste, aby użyć domyślnego.',
             hideInOtherVaultProfiles: 'Ukryj w innych profilach sejfu',
             renamePrompt: 'Wprowadź nową nazwę:',
             renameVaultTitle: 'Zmień widoczną nazwę sejfu',
@@ -597,6 +836,23 @@ export const STRINGS_PL = {
             applyButton: 'Zastosuj',
             emptyState: 'Nie znaleziono kluczy atrybutów.'
         },
+        smartFolder: {
+            newTitle: 'Nowy inteligentny folder',
+            newNestedTitle: 'Nowy inteligentny folder w {name}',
+            editTitle: 'Edytuj inteligentny folder',
+            nameLabel: 'Nazwa',
+            namePlaceholder: 'Nazwa inteligentnego folderu',
+            queryLabel: 'Zapytanie filtra',
+            queryPlaceholder: '#project AND -#archived',
+            queryDescription:
+                'Używa składni wyszukiwania filtrem. Zagnieżdżone inteligentne foldery pokazują tylko notatki pasujące także do zapytań folderów nadrzędnych.',
+            create: 'Utwórz',
+            save: 'Zapisz',
+            emptyName: 'Nazwa inteligentnego folderu nie może być pusta',
+            duplicateName: 'Inteligentny folder o tej nazwie już tu istnieje',
+            deleteTitle: 'Usunąć inteligentny folder "{name}"?',
+            deleteMessage: 'Zagnieżdżone inteligentne foldery również zostaną usunięte. Notatki nie są zmieniane.'
+        },
         welcome: {
             title: 'Witaj w {pluginName}',
             introText:
@@ -680,6 +936,9 @@ export const STRINGS_PL = {
             iconPackUpdated: '{provider} zaktualizowano ({version})',
             iconPackRemoved: '{provider} usunięto',
             iconPackLoadFailed: 'Nie udało się wczytać {provider}',
+            folderMetadataWritten: 'Zapisano metadane dla {count} folderów',
+            folderMetadataLoaded: 'Wczytano metadane dla {count} folderów',
+            folderMetadataStorageDisabled: 'Najpierw wybierz przechowywanie w notatce folderu lub pliku pomocniczym w ustawieniach Foldery',
             hiddenFileReveal: 'Plik jest ukryty. Aby go wyświetlić, włącz opcję "Pokaż ukryte elementy".'
         },
         confirmations: {
@@ -709,7 +968,62 @@ export const STRINGS_PL = {
             filesAlreadyHaveProperty: 'Wiele plików ({count}) ma już ten atrybut',
             noTagsToClear: 'Brak tagów do wyczyszczenia',
             fileImported: 'Zaimportowano 1 plik',
-            filesImported: 'Zaimportowano wiele plików ({count})'
+            filesImported: 'Zaimportowano wiele plików ({count})',
+            filesMoved: 'Przeniesiono {count} plików do {folder}'
+        }
+    },
+
+    // Undo history
+    undoHistory: {
+        undo: 'Cofnij',
+        undone: 'Cofnięto: {action}',
+        redone: 'Ponowiono: {action}',
+        nothingToUndo: 'Nie ma nic do cofnięcia',
+        nothingToRedo: 'Nie ma nic do ponowienia',
+        failed: 'Nie można cofnąć „{action}”: {error}',
+        partial: 'Nie można przywrócić {count} elementów',
+        actions: {
+            moveFile: 'Przenieś „{name}”',
+            moveFiles: 'Przenieś {count} plików',
+            moveFolder: 'Przenieś folder „{name}”',
+            renameFile: 'Zmień nazwę „{name}”',
+            renameFolder: 'Zmień nazwę folderu „{name}”',
+            addTag: 'Dodaj tag #{tag}',
+            removeTag: 'Usuń tag #{tag}',
+            renameProperty: 'Zmień nazwę atrybutu {oldKey} → {newKey}',
+            editProperty: 'Edytuj właściwość {property}',
+            renamePropertyValue: 'Zmień nazwę wartości {property} {oldValue} → {newValue}',
+            changeAppearance: 'Zmień wygląd „{name}”'
+        }
+    },
+
+    // Vault statistics dashboard
+    statisticsDashboard: {
+        refresh: 'Odśwież',
+        loading: 'Oczekiwanie na pamięć podręczną notatek...',
+        unavailable: 'Nie udało się obliczyć statystyk.',
+        empty: 'Brak danych',
+        weekLabel: 'Tydzień od {date}',
+        createdCount: 'Utworzone: {count}',
+        modifiedCount: 'Zmienione: {count}',
+        summary: {
+            notes: 'Notatki',
+            words: 'Słowa',
+            openTasks: 'Otwarte zadania',
+            untagged: 'Notatki bez tagów',
+            orphaned: 'Osierocone notatki',
+            orphanedDescription: 'Notatki, do których nie linkuje żadna inna notatka'
+        },
+        sections: {
+            activity: 'Notatki utworzone i zmienione w tygodniu',
+            wordsPerFolder: 'Słowa w folderach',
+            openTasksPerFolder: 'Otwarte zadania w folderach',
+            topTags: 'Najczęstsze tagi',
+            topProperties: 'Najczęstsze właściwości'
+        },
+        legend: {
+            created: 'Utworzone',
+            modified: 'Zmienione'
         }
     },
 
@@ -734,8 +1048,10 @@ export const STRINGS_PL = {
         revealFile: 'Pokaż plik', // Command palette: Reveals and selects the currently active file in the navigator (English: Reveal file)
         search: 'Szukaj', // Command palette: Toggle search in the file list (English: Search)
         searchVaultRoot: 'Szukaj w katalogu głównym sejfu', // Command palette: Selects the vault root folder and focuses search (English: Search in vault root)
+        createSmartFolder: 'Utwórz inteligentny folder z wyszukiwania',
         toggleDualPane: 'Przełącz układ podwójnego panelu', // Command palette: Toggles between single-pane and dual-pane layout (English: Toggle dual pane layout)
         toggleCalendar: 'Przełącz kalendarz', // Command palette: Toggles showing the calendar overlay in the navigation pane (English: Toggle calendar)
+        openStatistics: 'Otwórz statystyki sejfu', // Command palette: Opens the vault statistics dashboard (English: Open vault statistics)
         selectVaultProfile: 'Wybierz profil sejfu', // Command palette: Opens a modal to choose a different vault profile (English: Switch vault profile)
         selectVaultProfile1: 'Wybierz profil sejfu 1', // Command palette: Activates the first vault profile without opening the modal (English: Select vault profile 1)
         selectVaultProfile2: 'Wybierz profil sejfu 2', // Command palette: Activates the second vault profile without opening the modal (English: Select vault profile 2)
@@ -744,12 +1060,18 @@ export const STRINGS_PL = {
         createNewNote: 'Utwórz nową notatkę', // Command palette: Creates a new note in the currently selected folder (English: Create new note)
         createNewNoteFromTemplate: 'Utwórz nową notatkę na podstawie szablonu', // Command palette: Creates a new note from a template in the currently selected folder (English: Create new note from template)
         moveFiles: 'Przenieś pliki', // Command palette: Move selected files to another folder (English: Move files)
+        undo: 'Cofnij operację na plikach', // Command palette: Reverse the most recent file operation (English: Undo file operation)
+        redo: 'Ponów operację na plikach', // Command palette: Reapply the most recently undone file operation (English: Redo file operation)
         selectNextFile: 'Wybierz następny plik', // Command palette: Selects the next file in the current view (English: Select next file)
         selectPreviousFile: 'Wybierz poprzedni plik', // Command palette: Selects the previous file in the current view (English: Select previous file)
         convertToFolderNote: 'Przekształć na notatkę folderu', // Command palette: Converts the active file into a folder note with a new folder (English: Convert to folder note)
         setAsFolderNote: 'Ustaw jako notatkę folderu', // Command palette: Renames the active file to its folder note name (English: Set as folder note)
         detachFolderNote: 'Odłącz notatkę folderu', // Command palette: Renames the active folder note to a new name (English: Detach folder note)
         pinAllFolderNotes: 'Przypnij wszystkie notatki folderu', // Command palette: Pins all folder notes to shortcuts (English: Pin all folder notes)
+        writeFolderMetadataFiles: 'Zapisz metadane folderów do plików', // Command palette: Writes folder icons, colors, sort overrides and appearances to folder notes or sidecars (English: Write folder metadata to files)
+        reloadFolderMetadataFiles: 'Wczytaj ponownie metadane folderów z plików', // Command palette: Reads folder metadata from folder notes or sidecars into settings (English: Reload folder metadata from files)
+        exportConfiguration: 'Eksportuj pakiet konfiguracji', // Command palette: Writes a configuration bundle JSON file to the vault root (English: Export configuration bundle)
+        importConfiguration: 'Importuj pakiet konfiguracji', // Command palette: Opens a dialog to import sections of a configuration bundle (English: Import configuration bundle)
         navigateToFolder: 'Przejdź do folderu', // Command palette: Navigate to a folder using fuzzy search (English: Navigate to folder)
         navigateToTag: 'Przejdź do tagu', // Command palette: Navigate to a tag using fuzzy search (English: Navigate to tag)
         navigateToProperty: 'Przejdź do atrybutu', // Command palette: Navigate to a property key or value using fuzzy search (English: Navigate to property)
@@ -763,6 +1085,8 @@ export const STRINGS_PL = {
         addTag: 'Dodaj tag do wybranych plików', // Command palette: Opens a dialog to add a tag to selected files (English: Add tag to selected files)
         removeTag: 'Usuń tag z wybranych plików', // Command palette: Opens a dialog to remove a tag from selected files (English: Remove tag from selected files)
         removeAllTags: 'Usuń wszystkie tagi z wybranych plików', // Command palette: Removes all tags from selected files (English: Remove all tags from selected files)
+        mergeTags: 'Scal tagi', // Command palette: Opens a dialog to merge several tags into one tag (English: Merge tags)
+        editProperties: 'Edytuj właściwości wybranych plików', // Command palette: Opens a dialog to set, append to, or remove a property on selected files (English: Edit properties of selected files)
         openAllFiles: 'Otwórz wszystkie pliki', // Command palette: Opens all files in the current folder or tag (English: Open all files)
         rebuildCache: 'Odbuduj pamięć podręczną' // Command palette: Rebuilds the local Notebook Navigator cache (English: Rebuild cache)
     },
@@ -771,6 +1095,7 @@ export const STRINGS_PL = {
     plugin: {
         viewName: 'Notebook Navigator', // Name shown in the view header/tab (English: Notebook Navigator)
         calendarViewName: 'Kalendarz', // Name shown in the view header/tab (English: Calendar)
+        statisticsViewName: 'Statystyki sejfu', // Name shown in the statistics view header/tab (English: Vault statistics)
         ribbonTooltip: 'Notebook Navigator', // Tooltip for the ribbon icon in the left sidebar (English: Notebook Navigator)
         revealInNavigator: 'Pokaż w Notebook Navigator' // Context menu item to reveal a file in the navigator (English: Reveal in Notebook Navigator)
     },
@@ -869,7 +1194,13 @@ export const STRINGS_PL = {
                     'filename-asc': 'nazwy (od A do Z)',
                     'filename-desc': 'nazwy (od Z do A)',
                     'property-asc': 'atrybutu (od A do Z)',
-                    'property-desc': 'atrybutu (od Z do A)'
+                    'property-desc': 'atrybutu (od Z do A)',
+                    'wordcount-desc': 'liczby słów (od największej)',
+                    'wordcount-asc': 'liczby słów (od najmniejszej)',
+                    'tasks-desc': 'otwartych zadań (od największej liczby)',
+                    'tasks-asc': 'otwartych zadań (od najmniejszej liczby)',
+                    'size-desc': 'rozmiaru pliku (od największych)',
+                    'size-asc': 'rozmiaru pliku (od najmniejszych)'
                 },
                 propertyOverride: {
                     asc: 'atrybut ‘{property}’ (od A do Z)',
@@ -895,6 +1226,10 @@ export const STRINGS_PL = {
                 name: 'Przewiń do wybranego pliku podczas zmian na liście',
                 desc: 'Przewiń do wybranego pliku podczas przypinania notatek, wyświetlania notatek podrzędnych, zmiany wyglądu folderu lub wykonywania operacji na plikach.'
             },
+            searchNoteContent: {
+                name: 'Przeszukuj treść notatek',
+                desc: 'Tworzy lokalny indeks pełnotekstowy treści notatek dla wyszukiwania filtrami. Włącza filtry `content:` i pozwala zwykłym słowom dopasowywać tekst notatek oprócz nazw plików. Nie wymaga Omnisearch.'
+            },
             includeDescendantNotes: {
                 name: 'Pokaż notatki z podfolderów / elementów podrzędnych',
                 desc: 'Podczas przeglądania folderu lub tagu uwzględnij notatki z podfolderów i tagów podrzędnych.'
@@ -909,11 +1244,13 @@ export const STRINGS_PL = {
             },
             groupNotes: {
                 name: 'Grupuj notatki',
-                desc: 'Wyświetla nagłówki pomiędzy grupami notatek na podstawie daty lub folderu. Tagi są grupowane według dat, gdy włączone jest grupowanie według folderów.',
+                desc: 'Wyświetla nagłówki pomiędzy grupami notatek na podstawie daty, folderu, tagu, pierwszej litery lub wartości atrybutu. Tagi są grupowane według dat, gdy włączone jest grupowanie według folderów.',
                 options: {
                     none: 'Nie grupuj',
                     date: 'Grupuj według daty',
-                    folder: 'Grupuj według folderu'
+                    folder: 'Grupuj według folderu',
+                    tag: 'Grupuj według tagu',
+                    alphabetical: 'Grupuj alfabetycznie'
                 }
             },
             showPinnedGroupHeader: {
@@ -960,6 +1297,11 @@ export const STRINGS_PL = {
                 placeholder: '# rozszerzenie=ikonka\ncpp=LiFileCode\npdf=RaBook',
                 editTooltip: 'Edytuj przypisania'
             },
+            fileStyleRules: {
+                name: 'Reguły stylu plików',
+                desc: 'Nadaj plikom pasującym do zapytania filtra wyszukiwania ikonę i kolor, np. znacznik dla .status=done lub szary dla folder:archive. Reguły są zapisywane w profilu sejfu.',
+                buttonText: 'Edytuj reguły'
+            },
             optimizeNoteHeight: {
                 name: 'Zmienna wysokość notatek',
                 desc: 'Używa kompaktowej wysokości dla przypiętych notatek i notatek bez podglądu treści.'
@@ -1040,6 +1382,15 @@ export const STRINGS_PL = {
                 name: 'Otwieraj nowe notatki w nowej karcie',
                 desc: 'Gdy włączone, polecenie Utwórz nową notatkę otwiera notatki w nowej karcie. Gdy wyłączone, notatki zastępują bieżącą kartę.'
             },
+            newNoteFileNamePattern: {
+                name: 'Nazwa pliku nowych notatek',
+                desc: 'Wzorzec nazwy pliku dla nowych notatek. Obsługuje {{date}}, {{date:FORMAT}}, {{time}} i {{title}}. Foldery mogą go nadpisać z menu folderu. Pozostaw puste dla „Bez tytułu”.',
+                placeholder: '{{date:YYYY-MM-DD}} {{title}}'
+            },
+            promptForNewNoteTitle: {
+                name: 'Pytaj o tytuł przy tworzeniu notatek',
+                desc: 'Przed utworzeniem notatki pyta o tytuł. Tytuł wypełnia {{title}} we wzorcu lub staje się nazwą pliku, gdy wzorca brak.'
+            },
             autoRevealActiveNote: {
                 name: 'Pokaż aktywną notatkę',
                 desc: 'Automatycznie wyświetla notatki po otwarciu za pomocą okna szybkiego wyboru, linków lub wyszukiwania.'
@@ -1216,6 +1567,11 @@ export const STRINGS_PL = {
                 desc: 'Wybór pliku szablonu pokazuje notatki z tego folderu.',
                 placeholder: 'Templates'
             },
+            noteTemplateRules: {
+                name: 'Reguły szablonów notatek',
+                desc: 'Zastosuj szablon i wzorzec nazwy pliku do notatek tworzonych z folderu, tagu lub właściwości.',
+                buttonText: 'Edytuj reguły'
+            },
             calendarCustomFilePattern: {
                 name: 'Notatki dzienne',
                 desc: 'Sformatuj ścieżkę przy użyciu formatu daty Moment. Nazwy podfolderów umieść w nawiasach, np. [Work]/YYYY. Kliknij ikonkę szablonu, aby ustawić szablon. Ustaw lokalizację folderu szablonów w sekcji Ogólne > Szablony.',
@@ -1271,6 +1627,16 @@ export const STRINGS_PL = {
                 notice: 'Przywrócono wszystkie ustawienia. Uruchom ponownie Obsidian lub ponownie otwórz Notebook Navigator, aby zastosować zmiany.',
                 error: 'Nie udało się przywrócić ustawień.'
             },
+            configBundle: {
+                name: 'Pakiet konfiguracji',
+                desc: 'Eksportuj profile sejfu, skróty, style, wygląd, nadpisania sortowania, mapy ikon i skróty klawiszowe do pliku JSON w katalogu głównym sejfu lub zaimportuj pakiet, aby skonfigurować inny sejf.',
+                exportButton: 'Eksportuj',
+                importButton: 'Importuj',
+                exportSuccess: 'Wyeksportowano konfigurację do {filename}',
+                exportFailed: 'Nie udało się wyeksportować konfiguracji.',
+                importSuccess: 'Zaimportowano konfigurację.',
+                importFailed: 'Nie udało się zaimportować konfiguracji.'
+            },
             multiSelectModifier: {
                 name: 'Zaznaczanie wielu elementów',
                 desc: 'Wybierz, który klawisz umożliwia zaznaczanie wielu elementów. Gdy wybrano Option/Alt, kliknięcie z Cmd/Ctrl otwiera notatki w nowej karcie.',
@@ -1295,6 +1661,14 @@ export const STRINGS_PL = {
                 name: 'Ctrl+Enter',
                 desc: 'Otwórz wybrany plik w nowej karcie, grupie lub oknie po kliknięciu Ctrl+Enter.'
             },
+            vimKeyboardNavigation: {
+                name: 'Sekwencje klawiszy w stylu Vim',
+                desc: 'gg i G przechodzą do pierwszego i ostatniego elementu, dd usuwa, zc i zo zwijają i rozwijają, / otwiera wyszukiwanie. Własne skróty mają pierwszeństwo.'
+            },
+            typeAheadFind: {
+                name: 'Wyszukiwanie podczas pisania',
+                desc: 'Wpisywanie liter przechodzi do pierwszego folderu, tagu lub notatki, których nazwa zaczyna się od wpisanego tekstu. Niedostępne przy włączonych sekwencjach w stylu Vim.'
+            },
             fileVisibility: {
                 name: 'Pokaż typy plików (profil sejfu)',
                 desc: 'Filtruj typy plików widoczne w przeglądarce. Pliki nieobsługiwane przez Obsidian mogą być otwierane w aplikacjach zewnętrznych.',
@@ -1418,6 +1792,10 @@ export const STRINGS_PL = {
                     none: 'Brak'
                 }
             },
+            showTaskProgress: {
+                name: 'Postęp zadań',
+                desc: 'Wyświetlaj pasek ukończenia i najbliższy termin dla notatek z zadaniami.'
+            },
             propertyFields: {
                 name: 'Klucze atrybutów (profil sejfu)',
                 desc: 'Klucze atrybutów frontmatter z kontrolą widoczności per klucz dla nawigacji i listy plików.',
@@ -1530,6 +1908,15 @@ export const STRINGS_PL = {
                     alphaDesc: 'od Z do A'
                 }
             },
+            folderMetadataStorage: {
+                name: 'Przechowywanie metadanych folderów',
+                desc: 'Zapisuj też ikony, kolory, nadpisania sortowania i wygląd folderów w sejfie, aby przenosiły się z folderem przez synchronizację lub git. Zmiany są synchronizowane w obu kierunkach. Uruchom „Zapisz metadane folderów do plików”, aby przenieść istniejące metadane.',
+                options: {
+                    settings: 'Tylko ustawienia wtyczki',
+                    folderNote: 'Frontmatter notatki folderu',
+                    sidecar: 'Plik pomocniczy .folder.yml'
+                }
+            },
             showNoteCount: {
                 name: 'Pokaż liczbę notatek',
                 desc: 'Wyświetla liczbę notatek obok każdego folderu i tagu.'
@@ -1645,6 +2032,11 @@ export const STRINGS_PL = {
                 name: 'Pokaż folder atrybutów',
                 desc: 'Wyświetl "Atrybuty" jako zwijany folder.'
             },
+            propertyHierarchies: {
+                name: 'Hierarchie atrybutów',
+                desc: 'Zagnieżdżaj notatki w wirtualnych folderach według wartości atrybutu, jeden poziom na klucz. Jedna hierarchia na wiersz w formacie `Name: key > key > key`. Klucze muszą też być na liście kluczy atrybutów.',
+                placeholder: 'Research: type > status > project'
+            },
             hiddenTags: {
                 name: 'Ukryj tagi (profil sejfu)',
                 desc: 'Lista tagów rozdzielonych przecinkami. Format nazw: tag* (zaczynające się od), *tag (kończące się na). Format ścieżek: archiwum (tag i elementy podrzędne), archiwum/* (tylko elementy podrzędne), projekty/*/szkice (dowolne w środku).',
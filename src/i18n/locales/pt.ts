@@ -46,7 +46,10 @@ export const STRINGS_PT = {
         pinnedSection: 'Fixadas', // Header for the pinned notes section at the top of file list (English: Pinned)
         notesSection: 'Notas', // Header shown between pinned and regular items when showing documents only (English: Notes)
         filesSection: 'Ficheiros', // Header shown between pinned and regular items when showing supported or all files (English: Files)
-        hiddenItemAriaLabel: '{name} (oculto)' // Accessibility label applied to list items that are normally hidden
+        noPropertyValue: 'Sem valor', // Header for notes without a value when grouping by property (English: No value)
+        hiddenItemAriaLabel: '{name} (oculto)', // Accessibility label applied to list items that are normally hidden
+        taskProgressAriaLabel: '{completed} de {total} tarefas concluídas', // Accessibility label for the task progress bar in file items
+        taskDue: 'Prazo {date}' // Next due date shown next to the task progress bar (English: Due {date})
     },
 
     // Tag list
@@ -61,6 +64,7 @@ export const STRINGS_PT = {
         recentNotesHeader: 'Notas recentes', // Header label for recent notes section in navigation pane (English: Recent notes)
         recentFilesHeader: 'Ficheiros recentes', // Header label when showing recent non-note files in navigation pane (English: Recent files)
         properties: 'Propriedades',
+        smartFolders: 'Pastas inteligentes',
         reorderRootFoldersTitle: 'Reordenar navegação',
         reorderRootFoldersHint: 'Use setas ou arraste para reordenar',
         vaultRootLabel: 'Cofre',
@@ -130,6 +134,7 @@ export const STRINGS_PT = {
         mobileBackToNavigation: 'Voltar à navegação', // Mobile-only back button text to return to navigation pane (English: Back to navigation)
         changeSortOrder: 'Alterar ordem de ordenação', // Tooltip for the sort order toggle button (English: Change sort order)
         defaultSort: 'Predefinido', // Label for default sorting mode (English: Default)
+        customSortChain: 'Cadeia de ordenação personalizada...',
         showFolders: 'Mostrar navegação', // Tooltip for button to show the navigation pane (English: Show navigation)
         reorderRootFolders: 'Reordenar navegação',
         finishRootFolderReorder: 'Concluído',
@@ -171,6 +176,15 @@ export const STRINGS_PT = {
                         '`-word` Excluir notas com "word" no nome do ficheiro.'
                     ]
                 },
+                content: {
+                    title: 'Conteúdo da nota',
+                    items: [
+                        '`content:palavra` Encontra notas cujo texto contém uma palavra que começa por "palavra".',
+                        '`content:"duas palavras"` Exige que cada palavra apareça no texto da nota.',
+                        '`-content:palavra` Exclui notas cujo texto contém uma palavra que começa por "palavra".',
+                        'Requer **Pesquisar conteúdo das notas** nas definições do painel de lista. Quando ativado, palavras simples também correspondem ao texto.'
+                    ]
+                },
                 tags: {
                     title: 'Etiquetas',
                     items: [
@@ -194,6 +208,8 @@ export const STRINGS_PT = {
                         '`."Reading Status"="In Progress"` Chaves e valores com espaços devem estar entre aspas duplas.',
                         '`-.key` Excluir notas com chave de propriedade.',
                         '`-.key=value` Excluir notas com valor de propriedade.',
+                        '`.key>=3`, `.key<2026-11-01` Comparar propriedades numéricas ou de data com `>`, `>=`, `<`, `<=`.',
+                        '`.key:thisweek`, `.key:1..5`, `.key:2026-11-01..2026-11-30` Corresponder a uma data relativa, data, número ou intervalo inclusivo.',
                         'Cmd/Ctrl+Clique numa propriedade para adicionar com AND. Cmd/Ctrl+Shift+Clique para adicionar com OR.'
                     ]
                 },
@@ -202,6 +218,8 @@ export const STRINGS_PT = {
                     items: [
                         '`has:task` Incluir notas com tarefas por concluir.',
                         '`-has:task` Excluir notas com tarefas por concluir.',
+                        '`due:overdue`, `due:today`, `due:thisweek` Incluir notas com uma tarefa aberta com prazo no intervalo (datas `📅` do Tasks ou campos `[due:: ]` do Dataview).',
+                        '`due:2026-11-01..2026-11-30` Corresponder a uma data limite ou intervalo. `-due:...` exclui notas com uma tarefa aberta correspondente.',
                         '`folder:meetings` Incluir notas onde um nome de pasta contém `meetings`.',
                         '`folder:/work/meetings` Incluir notas apenas em `work/meetings` (não subpastas).',
                         '`folder:/` Incluir notas apenas na raiz do cofre.',
@@ -213,13 +231,13 @@ export const STRINGS_PT = {
                     ]
                 },
                 connectors: {
-                    title: 'Comportamento AND/OR',
+                    title: 'AND/OR/NOT e agrupamento',
                     items: [
-                        '`AND` e `OR` são operadores apenas em consultas exclusivas de tags e propriedades.',
-                        'As consultas exclusivas de tags e propriedades contêm apenas filtros de tags e propriedades: `#tag`, `-#tag`, `#`, `-#`, `.key`, `-.key`, `.key=value`, `-.key=value`.',
-                        'Se uma consulta incluir nomes, datas (`@...`), filtros de tarefas (`has:task`), filtros de pasta (`folder:...`) ou filtros de extensão (`ext:...`), `AND` e `OR` são pesquisados como palavras.',
-                        'Exemplo de consulta com operadores: `#work OR .status=started`.',
-                        'Exemplo de consulta mista: `#work OR ext:md` (`OR` é pesquisado nos nomes dos ficheiros).'
+                        '`AND`, `OR` e `NOT` são operadores quando uma consulta contém um filtro (`#tag`, `.key`, `@date`, `has:task`, `due:`, `folder:`, `ext:`, `content:`) ou parênteses.',
+                        '`( )` agrupa termos: `(folder:Projects OR folder:Areas) AND #active AND -ext:pdf`.',
+                        '`NOT termo` ou `-termo` exclui um termo. `-( )` exclui um grupo inteiro.',
+                        '`NOT` tem precedência sobre `AND`, e `AND` sobre `OR`. Termos adjacentes usam AND implícito.',
+                        'Consultas só com palavras e sem parênteses procuram `AND`, `OR` e `NOT` como palavras nos nomes de ficheiro (ex.: `preto or branco`).'
                     ]
                 },
                 dates: {
@@ -293,12 +311,14 @@ export const STRINGS_PT = {
             addTag: 'Adicionar etiqueta',
             removeTag: 'Remover etiqueta',
             removeAllTags: 'Remover todas as etiquetas',
+            editProperties: 'Editar propriedades',
             changeIcon: 'Alterar ícone',
             changeColor: 'Alterar cor'
         },
         folder: {
             newNote: 'Nova nota',
             newNoteFromTemplate: 'Nova nota a partir de modelo',
+            newNoteFileName: 'Nome de ficheiro das novas notas...',
             newFolder: 'Nova pasta',
             newCanvas: 'Nova tela',
             newBase: 'Nova base de dados',
@@ -323,14 +343,24 @@ export const STRINGS_PT = {
             changeIcon: 'Alterar ícone',
             changeColor: 'Alterar cor',
             changeBackground: 'Alterar fundo',
+            mergeTags: 'Fundir etiquetas...',
+            splitTag: 'Dividir etiqueta...',
             showTag: 'Mostrar etiqueta',
             hideTag: 'Ocultar etiqueta'
         },
         property: {
             addKey: 'Configurar chaves de propriedade',
             renameKey: 'Renomear propriedade',
+            renameValue: 'Mudar o nome do valor',
+            mergeValue: 'Fundir no valor...',
             deleteKey: 'Eliminar propriedade'
         },
+        smartFolder: {
+            newSmartFolder: 'Nova pasta inteligente',
+            newNestedSmartFolder: 'Nova pasta inteligente aninhada',
+            editSmartFolder: 'Editar pasta inteligente',
+            deleteSmartFolder: 'Eliminar pasta inteligente'
+        },
         navigation: {
             addSeparator: 'Adicionar separador',
             removeSeparator: 'Remover separador'
@@ -356,11 +386,25 @@ export const STRINGS_PT = {
     folderAppearance: {
         standardPreset: 'Padrão',
         compactPreset: 'Compacto',
+        gridPreset: 'Grelha',
+        boardPreset: 'Quadro...',
+        boardPresetOption: (property: string) => `Quadro (${property})`,
+        boardPropertyAction: 'Colunas do quadro por propriedade',
+        boardPropertyPlaceholder: 'Chave da propriedade',
+        tileSize: 'Tamanho dos mosaicos',
+        tileSizeOptions: {
+            small: 'Mosaicos pequenos',
+            medium: 'Mosaicos médios',
+            large: 'Mosaicos grandes'
+        },
         defaultSuffix: '(predefinido)',
         defaultLabel: 'Predefinido',
         titleRows: 'Linhas de título',
         previewRows: 'Linhas de pré-visualização',
         groupBy: 'Agrupar por',
+        groupByPropertyAction: 'Agrupar por propriedade...',
+        groupByPropertyPlaceholder: 'Chave da propriedade',
+        groupByPropertyOption: (property: string) => `Agrupar por propriedade (${property})`,
         defaultTitleOption: (rows: number) => `Linhas de título predefinidas (${rows})`,
         defaultPreviewOption: (rows: number) => `Linhas de pré-visualização predefinidas (${rows})`,
         defaultGroupOption: (groupLabel: string) => `Agrupamento predefinido (${groupLabel})`,
@@ -384,6 +428,89 @@ export const STRINGS_PT = {
         fileIconRuleEditor: {
             addRuleAria: 'Adicionar regra'
         },
+        sortChain: {
+            title: 'Cadeia de ordenação personalizada',
+            description: 'As notas são ordenadas pela primeira chave. Cada chave seguinte ordena as notas que são iguais nas chaves acima.',
+            propertyPlaceholder: 'Chave da propriedade',
+            ascending: 'Ascendente',
+            descending: 'Descendente',
+            addKey: 'Adicionar chave de ordenação',
+            moveUp: 'Mover para cima',
+            moveDown: 'Mover para baixo',
+            save: 'Guardar',
+            fields: {
+                modified: 'Data de edição',
+                created: 'Data de criação',
+                title: 'Título',
+                filename: 'Nome do ficheiro',
+                property: 'Propriedade',
+                wordcount: 'Número de palavras',
+                tasks: 'Tarefas abertas',
+                size: 'Tamanho do ficheiro'
+            }
+        },
+        noteTemplateRules: {
+            title: 'Regras de modelos de notas',
+            description:
+                'As notas criadas a partir de uma pasta, etiqueta ou propriedade usam o modelo e o nome de ficheiro da primeira regra correspondente. Os nomes de ficheiro suportam {{date}}, {{date:FORMAT}}, {{time}} e {{title}}.',
+            folderPatternPlaceholder: 'Caminho da pasta, p. ex. Meetings ou Projects/*/Notes',
+            tagPatternPlaceholder: 'Etiqueta, p. ex. meeting',
+            propertyPatternPlaceholder: 'Propriedade, p. ex. type ou type=meeting',
+            templatePlaceholder: 'Ficheiro de modelo',
+            fileNamePlaceholder: 'Padrão de nome, p. ex. {{date}} Meeting',
+            emptyState: 'Sem regras. As novas notas são criadas vazias.',
+            addRule: 'Adicionar regra',
+            moveUp: 'Mover para cima',
+            moveDown: 'Mover para baixo',
+            save: 'Guardar',
+            targets: {
+                folder: 'Pasta',
+                tag: 'Etiqueta',
+                property: 'Propriedade'
+            }
+        },
+        fileStyleRules: {
+            title: 'Regras de estilo de ficheiros',
+            description:
+                'Os ficheiros que correspondem à consulta de uma regra recebem o seu ícone e cor. As consultas usam a sintaxe do filtro de pesquisa. As regras são verificadas de cima para baixo: a primeira regra correspondente com ícone define o ícone e a primeira com cor define a cor. Ícones e cores definidos num ficheiro têm prioridade.',
+            queryPlaceholder: 'Consulta de filtro, p. ex. .status=done, #meeting ou folder:archive',
+            emptyState: 'Sem regras.',
+            setIcon: 'Definir ícone',
+            setColor: 'Definir cor',
+            addRule: 'Adicionar regra',
+            moveUp: 'Mover para cima',
+            moveDown: 'Mover para baixo',
+            save: 'Guardar'
+        },
+        configBundleImport: {
+            title: 'Importar pacote de configuração',
+            description:
+                'Escolha um ficheiro JSON de pacote no cofre e depois as secções a importar. Os valores importados são validados como as definições normais.',
+            filePlaceholder: 'Caminho do pacote, p. ex. notebook-navigator-config.json',
+            sectionsLabel: 'Secções a importar',
+            strategyLabel: 'Definições existentes',
+            strategies: {
+                merge: 'Combinar, as entradas do pacote prevalecem',
+                replace: 'Substituir secções selecionadas'
+            },
+            bundleInfo: 'Exportado em {date} a partir do Notebook Navigator {version}',
+            importButton: 'Importar',
+            sections: {
+                vaultProfiles: 'Perfis do cofre e atalhos',
+                styling: 'Ícones e cores de pastas, etiquetas e propriedades',
+                appearances: 'Aparência de pastas e etiquetas',
+                sortOverrides: 'Ordenações personalizadas',
+                iconMaps: 'Mapas de ícones e ícones da interface',
+                keyboardShortcuts: 'Atalhos de teclado'
+            },
+            errors: {
+                invalidJson: 'O ficheiro não é JSON válido.',
+                invalidFormat: 'O ficheiro não é um pacote de configuração do Notebook Navigator.',
+                unsupportedVersion: 'Este pacote foi criado por uma versão mais recente do Notebook Navigator.',
+                empty: 'O pacote não contém secções que possam ser importadas.',
+                readFailed: 'Não foi possível ler o ficheiro.'
+            }
+        },
         interfaceIcons: {
             title: 'Ícones de interface',
             fileItemsSection: 'Itens de ficheiro',
@@ -414,6 +541,8 @@ export const STRINGS_PT = {
                 'nav-properties': 'Propriedades',
                 'nav-property': 'Propriedade',
                 'nav-property-value': 'Valor',
+                'nav-smart-folders': 'Pastas inteligentes',
+                'nav-smart-folder': 'Pasta inteligente',
                 'list-pinned': 'Itens fixados',
                 'file-unfinished-task': 'Tarefas inacabadas',
                 'file-word-count': 'Contagem de palavras'
@@ -494,6 +623,111 @@ export const STRINGS_PT = {
             deleteSettingsUpdateFailed: 'Propriedade {property} eliminada. Não foi possível atualizar as definições.',
             invalidKeyName: 'Introduza um nome de propriedade válido.'
         },
+        propertyValueEdit: {
+            title: 'Editar propriedades',
+            description: 'Alterar uma propriedade em {count} {files}.',
+            keyLabel: 'Propriedade',
+            keyPlaceholder: 'Nome da propriedade',
+            modeLabel: 'Ação',
+            modes: {
+                set: 'Definir valor',
+                append: 'Adicionar à lista',
+                remove: 'Remover propriedade'
+            },
+            valueLabel: 'Valor',
+            valuePlaceholder: 'Valor',
+            emptyValue: '(vazio)',
+            previewTitle: 'Pré-visualização',
+            changeSummary: '{count} de {total} notas serão alteradas',
+            noChanges: 'Nenhuma nota precisa de alterações.',
+            apply: 'Aplicar',
+            successSingle: 'Propriedade {property} atualizada em 1 nota',
+            successMultiple: 'Propriedade {property} atualizada em {count} notas',
+            partialFailure: 'Propriedade {property} atualizada em {count} notas. Não foi possível atualizar {failed} notas.'
+        },
+        propertyValueRename: {
+            renameTitle: 'Mudar o nome do valor {value}',
+            renameWarning:
+                'Mudar o nome de {property}: {value} irá modificar {count} {files}. Introduzir um valor existente funde os dois valores.',
+            newValuePrompt: 'Novo valor',
+            newValuePlaceholder: 'Introduza o novo valor',
+            confirmRename: 'Mudar o nome do valor',
+            mergeTitle: 'Fundir valor {value}',
+            mergeWarning:
+                'Fundir {oldValue} em {newValue} irá modificar {count} {files}. {newValue} mantém o seu próprio ícone, cor e atalhos.',
+            mergePlaceholder: 'Fundir {value} em...',
+            mergeInstruction: 'para fundir',
+            confirmMerge: 'Fundir valores',
+            noOtherValues: 'A propriedade {property} não tem outros valores',
+            nestedTarget: 'Não é possível mudar o nome de um valor para um dos seus valores aninhados.',
+            invalidValue: 'Introduza um valor válido.',
+            noChanges: '{oldValue} → {newValue} (sem alterações)',
+            successSingle: 'Nome alterado {oldValue} → {newValue} em 1 nota',
+            successMultiple: 'Nome alterado {oldValue} → {newValue} em {count} notas',
+            partialFailure: 'Nome alterado {oldValue} → {newValue} em {count} notas. Não foi possível atualizar {failed} notas.'
+        },
+        tagOperationSummary: {
+            close: 'Fechar',
+            updatedNotes: 'Notas atualizadas',
+            skippedNotes: 'Notas ignoradas',
+            skippedDescription: 'Estas notas mudaram após a pré-visualização ou não tinham nada a atualizar.',
+            failedNotes: 'Notas com falha',
+            reportSummary: '{changed} de {total} notas atualizadas.'
+        },
+        tagMerge: {
+            title: 'Fundir etiquetas',
+            description: 'Funda várias etiquetas numa só. As etiquetas aninhadas movem-se com a etiqueta principal.',
+            sourcesLabel: 'Etiquetas a fundir',
+            sourcesPlaceholder: 'Etiquetas separadas por vírgulas',
+            targetLabel: 'Fundir em',
+            targetPlaceholder: 'Etiqueta de destino',
+            preview: 'Pré-visualizar fusão',
+            nothingToMerge: 'Não há etiquetas para fundir. Verifique se as etiquetas são usadas em notas e diferem da etiqueta de destino.',
+            previewTitle: 'Fundir em {tag}',
+            previewDescription: 'Fundir {tags} em {tag} irá modificar {count} notas.',
+            confirm: 'Fundir etiquetas',
+            affectedNotes: 'Notas afetadas',
+            skippedTags: 'Etiquetas ignoradas',
+            skipReasons: {
+                sameAsTarget: 'igual à etiqueta de destino',
+                containsTarget: 'a etiqueta de destino está aninhada nesta etiqueta',
+                nestedInSource: 'fundida juntamente com a etiqueta principal',
+                noNotes: 'não usada em nenhuma nota'
+            },
+            alreadyTagged: 'Notas que já têm {tag}',
+            alreadyTaggedDescription: 'Estas notas irão conter a etiqueta de destino mais de uma vez.',
+            multipleSources: 'Notas com várias etiquetas fundidas',
+            multipleSourcesDescription: 'Cada uma destas notas irá conter a etiqueta de destino mais de uma vez.',
+            nestedCollisions: 'Colisões de etiquetas aninhadas',
+            nestedCollisionsDescription: 'Estas etiquetas aninhadas fundem-se com etiquetas aninhadas que já existem.',
+            notFinalized: 'Metadados não movidos',
+            notFinalizedDescription:
+                'Algumas notas com estas etiquetas não foram atualizadas, por isso os ícones, cores e atalhos foram mantidos.',
+            reportTitle: 'Fundido em {tag}'
+        },
+        tagSplit: {
+            title: 'Dividir etiqueta {tag}',
+            description:
+                '{count} {files} com exatamente {tag}. Cada nota passa para a etiqueta filha da primeira regra correspondente. As notas sem regra correspondente mantêm {tag}.',
+            childPlaceholder: 'Etiqueta filha',
+            kinds: {
+                folder: 'Pasta',
+                query: 'Consulta de filtro'
+            },
+            folderPlaceholder: 'Caminho da pasta (inclui subpastas)',
+            queryPlaceholder: 'Consulta de filtro de pesquisa',
+            addRule: 'Adicionar regra',
+            preview: 'Pré-visualizar divisão',
+            nothingMatched: 'Nenhuma nota corresponde às regras.',
+            previewTitle: 'Dividir {tag}',
+            previewDescription: '{count} de {total} notas com {tag} passarão para uma etiqueta filha.',
+            confirm: 'Dividir etiqueta',
+            invalidRules: 'Regras que não podem ser avaliadas',
+            invalidRulesDescription: 'As consultas de filtro precisam de critérios de pesquisa e de uma cache de notas pronta.',
+            unmatched: 'Notas sem regra correspondente',
+            unmatchedDescription: 'Estas notas mantêm {tag}.',
+            reportTitle: '{tag} dividida'
+        },
         fileSystem: {
             newFolderTitle: 'Nova pasta',
             renameFolderTitle: 'Renomear pasta',
@@ -503,6 +737,10 @@ export const STRINGS_PT = {
             deleteFileAttachmentsTitle: 'Eliminar anexos do ficheiro?',
             moveFileConflictTitle: 'Conflito de movimentação',
             folderNamePrompt: 'Introduza o nome da pasta:',
+            newNoteTitle: 'Nova nota',
+            noteTitlePrompt: 'Introduza o título da nota:',
+            createNoteButton: 'Criar',
+            newNoteFileNamePrompt: 'Padrão de nome, p. ex. {{date:YYYYMMDDHHmm}} {{title}}. Deixe vazio para usar o predefinido.',
             hideInOtherVaultProfiles: 'Ocultar noutros perfis do cofre',
             renamePrompt: 'Introduza o novo nome:',
             renameVaultTitle: 'Alterar nome de exibição do cofre',
@@ -596,6 +834,23 @@ export const STRINGS_PT = {
             applyButton: 'Aplicar',
             emptyState: 'Nenhuma chave de propriedade encontrada.'
         },
+        smartFolder: {
+            newTitle: 'Nova pasta inteligente',
+            newNestedTitle: 'Nova pasta inteligente em {name}',
+            editTitle: 'Editar pasta inteligente',
+            nameLabel: 'Nome',
+            namePlaceholder: 'Nome da pasta inteligente',
+            queryLabel: 'Consulta de filtro',
+            queryPlaceholder: '#project AND -#archived',
+            queryDescription:
+                'Usa a sintaxe da pesquisa por filtro. As pastas inteligentes aninhadas só listam notas que também correspondem às consultas das pastas superiores.',
+            create: 'Criar',
+            save: 'Guardar',
+            emptyName: 'O nome da pasta inteligente não pode estar vazio',
+            duplicateName: 'Já existe aqui uma pasta inteligente com este nome',
+            deleteTitle: 'Eliminar a pasta inteligente "{name}"?',
+            deleteMessage: 'As pastas inteligentes aninhadas também são eliminadas. As notas não são alteradas.'
+        },
         welcome: {
             title: 'Bem-vindo ao {pluginName}',
             introText:
@@ -678,6 +933,10 @@ export const STRINGS_PT = {
             iconPackUpdated: '{provider} atualizado ({version})',
             iconPackRemoved: '{provider} removido',
             iconPackLoadFailed: 'Falha ao carregar {provider}',
+            folderMetadataWritten: 'Metadados escritos para {count} pastas',
+            folderMetadataLoaded: 'Metadados carregados para {count} pastas',
+            folderMetadataStorageDisabled:
+                'Escolha primeiro o armazenamento na nota de pasta ou ficheiro auxiliar nas definições de Pastas',
             hiddenFileReveal: 'O ficheiro está oculto. Ative "Mostrar itens ocultos" para o exibir'
         },
         confirmations: {
@@ -707,7 +966,62 @@ export const STRINGS_PT = {
             filesAlreadyHaveProperty: '{count} ficheiros já têm esta propriedade',
             noTagsToClear: 'Sem etiquetas para limpar',
             fileImported: '1 ficheiro importado',
-            filesImported: '{count} ficheiros importados'
+            filesImported: '{count} ficheiros importados',
+            filesMoved: '{count} ficheiros movidos para {folder}'
+        }
+    },
+
+    // Undo history
+    undoHistory: {
+        undo: 'Anular',
+        undone: 'Anulado: {action}',
+        redone: 'Refeito: {action}',
+        nothingToUndo: 'Nada para anular',
+        nothingToRedo: 'Nada para refazer',
+        failed: 'Não foi possível reverter "{action}": {error}',
+        partial: 'Não foi possível restaurar {count} itens',
+        actions: {
+            moveFile: 'Mover "{name}"',
+            moveFiles: 'Mover {count} ficheiros',
+            moveFolder: 'Mover pasta "{name}"',
+            renameFile: 'Renomear "{name}"',
+            renameFolder: 'Renomear pasta "{name}"',
+            addTag: 'Adicionar etiqueta #{tag}',
+            removeTag: 'Remover etiqueta #{tag}',
+            renameProperty: 'Renomear propriedade {oldKey} → {newKey}',
+            editProperty: 'Editar propriedade {property}',
+            renamePropertyValue: 'Mudar o nome do valor de {property} {oldValue} → {newValue}',
+            changeAppearance: 'Alterar aparência de "{name}"'
+        }
+    },
+
+    // Vault statistics dashboard
+    statisticsDashboard: {
+        refresh: 'Atualizar',
+        loading: 'A aguardar a cache de notas...',
+        unavailable: 'Não foi possível calcular as estatísticas.',
+        empty: 'Sem dados',
+        weekLabel: 'Semana de {date}',
+        createdCount: '{count} criadas',
+        modifiedCount: '{count} modificadas',
+        summary: {
+            notes: 'Notas',
+            words: 'Palavras',
+            openTasks: 'Tarefas abertas',
+            untagged: 'Notas sem etiquetas',
+            orphaned: 'Notas órfãs',
+            orphanedDescription: 'Notas para as quais nenhuma outra nota aponta'
+        },
+        sections: {
+            activity: 'Notas criadas e modificadas por semana',
+            wordsPerFolder: 'Palavras por pasta',
+            openTasksPerFolder: 'Tarefas abertas por pasta',
+            topTags: 'Etiquetas principais',
+            topProperties: 'Propriedades principais'
+        },
+        legend: {
+            created: 'Criadas',
+            modified: 'Modificadas'
         }
     },
 
@@ -732,8 +1046,10 @@ export const STRINGS_PT = {
         revealFile: 'Revelar ficheiro', // Command palette: Reveals and selects the currently active file in the navigator (English: Reveal file)
         search: 'Pesquisar', // Command palette: Toggle search in the file list (English: Search)
         searchVaultRoot: 'Pesquisar na raiz do cofre', // Command palette: Selects the vault root folder and focuses search (English: Search in vault root)
+        createSmartFolder: 'Criar pasta inteligente a partir da pesquisa',
         toggleDualPane: 'Alternar layout de painel duplo', // Command palette: Toggles between single-pane and dual-pane layout (English: Toggle dual pane layout)
         toggleCalendar: 'Alternar calendário', // Command palette: Toggles showing the calendar overlay in the navigation pane (English: Toggle calendar)
+        openStatistics: 'Abrir estatísticas do cofre', // Command palette: Opens the vault statistics dashboard (English: Open vault statistics)
         selectVaultProfile: 'Selecionar perfil do cofre', // Command palette: Opens a modal to choose a different vault profile (English: Select vault profile)
         selectVaultProfile1: 'Selecionar perfil do cofre 1', // Command palette: Activates the first vault profile without opening the modal (English: Select vault profile 1)
         selectVaultProfile2: 'Selecionar perfil do cofre 2', // Command palette: Activates the second vault profile without opening the modal (English: Select vault profile 2)
@@ -742,12 +1058,18 @@ export const STRINGS_PT = {
         createNewNote: 'Criar nova nota', // Command palette: Creates a new note in the currently selected folder (English: Create new note)
         createNewNoteFromTemplate: 'Nova nota a partir de modelo', // Command palette: Creates a new note from a template in the currently selected folder (English: Create new note from template)
         moveFiles: 'Mover ficheiros', // Command palette: Move selected files to another folder (English: Move files)
+        undo: 'Anular operação de ficheiro', // Command palette: Reverse the most recent file operation (English: Undo file operation)
+        redo: 'Refazer operação de ficheiro', // Command palette: Reapply the most recently undone file operation (English: Redo file operation)
         selectNextFile: 'Selecionar ficheiro seguinte', // Command palette: Selects the next file in the current view (English: Select next file)
         selectPreviousFile: 'Selecionar ficheiro anterior', // Command palette: Selects the previous file in the current view (English: Select previous file)
         convertToFolderNote: 'Converter em nota de pasta', // Command palette: Converts the active file into a folder note with a new folder (English: Convert to folder note)
         setAsFolderNote: 'Definir como nota de pasta', // Command palette: Renames the active file to its folder note name (English: Set as folder note)
         detachFolderNote: 'Desvincular nota de pasta', // Command palette: Renames the active folder note to a new name (English: Detach folder note)
         pinAllFolderNotes: 'Fixar todas as notas de pasta', // Command palette: Pins all folder notes to shortcuts (English: Pin all folder notes)
+        writeFolderMetadataFiles: 'Escrever metadados das pastas em ficheiros', // Command palette: Writes folder icons, colors, sort overrides and appearances to folder notes or sidecars (English: Write folder metadata to files)
+        reloadFolderMetadataFiles: 'Recarregar metadados das pastas a partir de ficheiros', // Command palette: Reads folder metadata from folder notes or sidecars into settings (English: Reload folder metadata from files)
+        exportConfiguration: 'Exportar pacote de configuração', // Command palette: Writes a configuration bundle JSON file to the vault root (English: Export configuration bundle)
+        importConfiguration: 'Importar pacote de configuração', // Command palette: Opens a dialog to import sections of a configuration bundle (English: Import configuration bundle)
         navigateToFolder: 'Navegar para pasta', // Command palette: Navigate to a folder using fuzzy search (English: Navigate to folder)
         navigateToTag: 'Navegar para etiqueta', // Command palette: Navigate to a tag using fuzzy search (English: Navigate to tag)
         navigateToProperty: 'Navegar para propriedade', // Command palette: Navigate to a property key or value using fuzzy search (English: Navigate to property)
@@ -761,6 +1083,8 @@ export const STRINGS_PT = {
         addTag: 'Adicionar etiqueta aos ficheiros selecionados', // Command palette: Opens a dialog to add a tag to selected files (English: Add tag to selected files)
         removeTag: 'Remover etiqueta dos ficheiros selecionados', // Command palette: Opens a dialog to remove a tag from selected files (English: Remove tag from selected files)
         removeAllTags: 'Remover todas as etiquetas dos ficheiros selecionados', // Command palette: Removes all tags from selected files (English: Remove all tags from selected files)
+        mergeTags: 'Fundir etiquetas', // Command palette: Opens a dialog to merge several tags into one tag (English: Merge tags)
+        editProperties: 'Editar propriedades dos ficheiros selecionados', // Command palette: Opens a dialog to set, append to, or remove a property on selected files (English: Edit properties of selected files)
         openAllFiles: 'Abrir todos os ficheiros', // Command palette: Opens all files in the current folder or tag (English: Open all files)
         rebuildCache: 'Reconstruir cache' // Command palette: Rebuilds the local Notebook Navigator cache (English: Rebuild cache)
     },
@@ -769,6 +1093,7 @@ export const STRINGS_PT = {
     plugin: {
         viewName: 'Notebook Navigator', // Name shown in the view header/tab (English: Notebook Navigator)
         calendarViewName: 'Calendário', // Name shown in the view header/tab (English: Calendar)
+        statisticsViewName: 'Estatísticas do cofre', // Name shown in the statistics view header/tab (English: Vault statistics)
         ribbonTooltip: 'Notebook Navigator', // Tooltip for the ribbon icon in the left sidebar (English: Notebook Navigator)
         revealInNavigator: 'Revelar no Notebook Navigator' // Context menu item to reveal a file in the navigator (English: Reveal in Notebook Navigator)
     },
@@ -867,7 +1192,13 @@ export const STRINGS_PT = {
                     'filename-asc': 'Nome do ficheiro (A no topo)',
                     'filename-desc': 'Nome do ficheiro (Z no topo)',
                     'property-asc': 'Propriedade (A no topo)',
-                    'property-desc': 'Propriedade (Z no topo)'
+                    'property-desc': 'Propriedade (Z no topo)',
+                    'wordcount-desc': 'Número de palavras (mais no topo)',
+                    'wordcount-asc': 'Número de palavras (menos no topo)',
+                    'tasks-desc': 'Tarefas abertas (mais no topo)',
+                    'tasks-asc': 'Tarefas abertas (menos no topo)',
+                    'size-desc': 'Tamanho do ficheiro (maior no topo)',
+                    'size-asc': 'Tamanho do ficheiro (menor no topo)'
                 },
                 propertyOverride: {
                     asc: 'Propriedade ‘{property}’ (A no topo)',
@@ -893,6 +1224,10 @@ export const STRINGS_PT = {
                 name: 'Deslocar para ficheiro selecionado em alterações da lista',
                 desc: 'Deslocar para o ficheiro selecionado ao fixar notas, mostrar notas descendentes, alterar aparência da pasta ou executar operações de ficheiros.'
             },
+            searchNoteContent: {
+                name: 'Pesquisar conteúdo das notas',
+                desc: 'Cria um índice local de texto integral do corpo das notas para a pesquisa por filtros. Ativa os filtros `content:` e faz com que palavras simples correspondam ao texto além dos nomes de ficheiro. Não requer Omnisearch.'
+            },
             includeDescendantNotes: {
                 name: 'Mostrar notas de subpastas / descendentes',
                 desc: 'Incluir notas de subpastas aninhadas e descendentes de etiquetas ao visualizar uma pasta ou etiqueta.'
@@ -907,11 +1242,13 @@ export const STRINGS_PT = {
             },
             groupNotes: {
                 name: 'Agrupar notas',
-                desc: 'Exibir cabeçalhos entre notas agrupadas por data ou pasta. As vistas de etiquetas usam grupos de data quando o agrupamento por pasta está ativado.',
+                desc: 'Exibir cabeçalhos entre notas agrupadas por data, pasta, etiqueta, primeira letra ou valor de propriedade. As vistas de etiquetas usam grupos de data quando o agrupamento por pasta está ativado.',
                 options: {
                     none: 'Não agrupar',
                     date: 'Agrupar por data',
-                    folder: 'Agrupar por pasta'
+                    folder: 'Agrupar por pasta',
+                    tag: 'Agrupar por etiqueta',
+                    alphabetical: 'Agrupar alfabeticamente'
                 }
             },
             showPinnedGroupHeader: {
@@ -958,6 +1295,11 @@ export const STRINGS_PT = {
                 placeholder: '# Extension=icon\ncpp=LiFileCode\npdf=RaBook',
                 editTooltip: 'Editar mapeamentos'
             },
+            fileStyleRules: {
+                name: 'Regras de estilo de ficheiros',
+                desc: 'Atribua um ícone e uma cor aos ficheiros que correspondem a uma consulta do filtro de pesquisa, p. ex. um visto para .status=done ou cinzento para folder:archive. As regras são guardadas no perfil do cofre.',
+                buttonText: 'Editar regras'
+            },
             optimizeNoteHeight: {
                 name: 'Altura de nota variável',
                 desc: 'Usar altura compacta para notas fixadas e notas sem texto de pré-visualização.'
@@ -1038,6 +1380,15 @@ export const STRINGS_PT = {
                 name: 'Abrir novas notas num novo separador',
                 desc: 'Quando ativado, o comando Criar nova nota abre as notas num novo separador. Quando desativado, as notas substituem o separador atual.'
             },
+            newNoteFileNamePattern: {
+                name: 'Nome de ficheiro das novas notas',
+                desc: 'Padrão de nome de ficheiro para novas notas. Suporta {{date}}, {{date:FORMAT}}, {{time}} e {{title}}. As pastas podem substituí-lo no menu da pasta. Deixe vazio para "Sem título".',
+                placeholder: '{{date:YYYY-MM-DD}} {{title}}'
+            },
+            promptForNewNoteTitle: {
+                name: 'Pedir título ao criar notas',
+                desc: 'Pede um título antes de criar uma nota. O título preenche {{title}} no padrão, ou torna-se o nome do ficheiro quando não há padrão.'
+            },
             autoRevealActiveNote: {
                 name: 'Revelar nota ativa automaticamente',
                 desc: 'Revelar notas automaticamente quando abertas pelo Alternador Rápido, links ou pesquisa.'
@@ -1214,6 +1565,11 @@ export const STRINGS_PT = {
                 desc: 'O seletor de arquivos de modelo mostra notas desta pasta.',
                 placeholder: 'Templates'
             },
+            noteTemplateRules: {
+                name: 'Regras de modelos de notas',
+                desc: 'Aplicar um modelo e um padrão de nome de ficheiro às notas criadas a partir de uma pasta, etiqueta ou propriedade.',
+                buttonText: 'Editar regras'
+            },
             calendarCustomFilePattern: {
                 name: 'Notas diárias',
                 desc: 'Formatar caminho usando formato de data Moment. Coloque nomes de subpastas entre colchetes, ex. [Work]/YYYY. Clique no ícone de modelo para definir um modelo. Definir localização da pasta de modelos em Geral > Modelos.',
@@ -1270,6 +1626,16 @@ export const STRINGS_PT = {
                 notice: 'Todas as definições repostas. Reinicie o Obsidian ou reabra o Notebook Navigator para aplicar.',
                 error: 'Falha ao repor as definições.'
             },
+            configBundle: {
+                name: 'Pacote de configuração',
+                desc: 'Exporte perfis do cofre, atalhos, estilos, aparências, ordenações personalizadas, mapas de ícones e atalhos de teclado para um ficheiro JSON na raiz do cofre, ou importe um pacote para configurar outro cofre.',
+                exportButton: 'Exportar',
+                importButton: 'Importar',
+                exportSuccess: 'Configuração exportada para {filename}',
+                exportFailed: 'Falha ao exportar a configuração.',
+                importSuccess: 'Configuração importada.',
+                importFailed: 'Falha ao importar a configuração.'
+            },
             multiSelectModifier: {
                 name: 'Modificador de seleção múltipla',
                 desc: 'Escolha qual tecla modificadora alterna a seleção múltipla. Quando Option/Alt é selecionado, Cmd/Ctrl abre notas num novo separador.',
@@ -1294,6 +1660,14 @@ export const STRINGS_PT = {
                 name: 'Ctrl+Enter',
                 desc: 'Abrir o ficheiro selecionado num novo separador, divisão ou janela ao premir Ctrl+Enter.'
             },
+            vimKeyboardNavigation: {
+                name: 'Sequências de teclas estilo Vim',
+                desc: 'gg e G saltam para o primeiro e o último item, dd elimina, zc e zo recolhem e expandem, / abre a pesquisa. Os atalhos personalizados têm prioridade.'
+            },
+            typeAheadFind: {
+                name: 'Pesquisa ao escrever',
+                desc: 'Escrever letras salta para a primeira pasta, etiqueta ou nota cujo nome começa pelo texto escrito. Indisponível com as sequências estilo Vim ativas.'
+            },
             fileVisibility: {
                 name: 'Mostrar tipos de ficheiro (perfil do cofre)',
                 desc: 'Filtrar quais tipos de ficheiro são mostrados no navegador. Tipos de ficheiro não suportados pelo Obsidian podem abrir em aplicações externas.',
@@ -1417,6 +1791,10 @@ export const STRINGS_PT = {
                     none: 'Nenhum'
                 }
             },
+            showTaskProgress: {
+                name: 'Progresso das tarefas',
+                desc: 'Mostrar uma barra de conclusão e a próxima data limite em notas com tarefas.'
+            },
             propertyFields: {
                 name: 'Chaves de propriedades (perfil do cofre)',
                 desc: 'Chaves de propriedades de metadados, com visibilidade por chave para navegação e lista de ficheiros.',
@@ -1529,6 +1907,15 @@ export const STRINGS_PT = {
                     alphaDesc: 'Z a A'
                 }
             },
+            folderMetadataStorage: {
+                name: 'Armazenamento de metadados de pastas',
+                desc: 'Guarde também os ícones, cores, ordenações personalizadas e aparências das pastas no cofre para que acompanhem a pasta via sincronização ou git. As alterações são sincronizadas nos dois sentidos. Execute "Escrever metadados das pastas em ficheiros" para migrar os metadados existentes.',
+                options: {
+                    settings: 'Apenas definições do plugin',
+                    folderNote: 'Frontmatter da nota de pasta',
+                    sidecar: 'Ficheiro auxiliar .folder.yml'
+                }
+            },
             showNoteCount: {
                 name: 'Mostrar contagem de notas',
                 desc: 'Exibir o número de notas junto a cada pasta e etiqueta.'
@@ -1644,6 +2031,11 @@ export const STRINGS_PT = {
                 name: 'Mostrar pasta de propriedades',
                 desc: 'Exibir "Propriedades" como uma pasta recolhível.'
             },
+            propertyHierarchies: {
+                name: 'Hierarquias de propriedades',
+                desc: 'Aninhar notas em pastas virtuais por valor de propriedade, um nível por chave. Uma hierarquia por linha como `Name: key > key > key`. As chaves também devem constar nas chaves de propriedades.',
+                placeholder: 'Research: type > status > project'
+            },
             hiddenTags: {
                 name: 'Ocultar etiquetas (perfil do cofre)',
                 desc: 'Lista de padrões de etiquetas separados por vírgulas. Padrões de nome: tag* (começa com), *tag (termina com). Padrões de caminho: arquivo (etiqueta e descendentes), arquivo/* (apenas descendentes), projetos/*/rascunhos (curinga intermédio).',
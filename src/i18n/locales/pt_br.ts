@@ -46,7 +46,10 @@ export const STRINGS_PT_BR = {
         pinnedSection: 'Fixadas',
         notesSection: 'Notas',
         filesSection: 'Arquivos',
-        hiddenItemAriaLabel: '{name} (oculto)'
+        noPropertyValue: 'Sem valor',
+        hiddenItemAriaLabel: '{name} (oculto)',
+        taskProgressAriaLabel: '{completed} de {total} tarefas concluídas',
+        taskDue: 'Prazo {date}'
     },
 
     // Tag list
@@ -61,6 +64,7 @@ export const STRINGS_PT_BR = {
         recentNotesHeader: 'Notas recentes',
         recentFilesHeader: 'Arquivos recentes',
         properties: 'Propriedades',
+        smartFolders: 'Pastas inteligentes',
         reorderRootFoldersTitle: 'Reordenar navegação',
         reorderRootFoldersHint: 'Use setas ou arraste para reordenar',
         vaultRootLabel: 'Cofre',
@@ -130,6 +134,7 @@ export const STRINGS_PT_BR = {
         mobileBackToNavigation: 'Voltar à navegação',
         changeSortOrder: 'Alterar ordem de classificação',
         defaultSort: 'Padrão',
+        customSortChain: 'Cadeia de ordenação personalizada...',
         showFolders: 'Mostrar navegação',
         reorderRootFolders: 'Reordenar navegação',
         finishRootFolderReorder: 'Concluído',
@@ -172,6 +177,15 @@ export const STRINGS_PT_BR = {
                         '`-word` Excluir notas com "word" no nome do arquivo.'
                     ]
                 },
+                content: {
+                    title: 'Conteúdo da nota',
+                    items: [
+                        '`content:palavra` Encontra notas cujo texto contém uma palavra que começa com "palavra".',
+                        '`content:"duas palavras"` Exige que cada palavra apareça no texto da nota.',
+                        '`-content:palavra` Exclui notas cujo texto contém uma palavra que começa com "palavra".',
+                        'Requer **Pesquisar conteúdo das notas** nas configurações do painel de lista. Quando ativado, palavras simples também correspondem ao texto.'
+                    ]
+                },
                 tags: {
                     title: 'Tags',
                     items: [
@@ -195,6 +209,8 @@ export const STRINGS_PT_BR = {
                         '`."Reading Status"="In Progress"` Chaves e valores com espaços devem estar entre aspas duplas.',
                         '`-.key` Excluir notas com chave de propriedade.',
                         '`-.key=value` Excluir notas com valor de propriedade.',
+                        '`.key>=3`, `.key<2026-11-01` Comparar propriedades numéricas ou de data com `>`, `>=`, `<`, `<=`.',
+                        '`.key:thisweek`, `.key:1..5`, `.key:2026-11-01..2026-11-30` Corresponder a uma data relativa, data, número ou intervalo inclusivo.',
                         'Cmd/Ctrl+Clique em uma propriedade para adicionar com AND. Cmd/Ctrl+Shift+Clique para adicionar com OR.'
                     ]
                 },
@@ -203,6 +219,8 @@ export const STRINGS_PT_BR = {
                     items: [
                         '`has:task` Incluir notas com tarefas pendentes.',
                         '`-has:task` Excluir notas com tarefas pendentes.',
+                        '`due:overdue`, `due:today`, `due:thisweek` Incluir notas com uma tarefa aberta com prazo no intervalo (datas `📅` do Tasks ou campos `[due:: ]` do Dataview).',
+                        '`due:2026-11-01..2026-11-30` Corresponder a um prazo ou intervalo. `-due:...` exclui notas com uma tarefa aberta correspondente.',
                         '`folder:meetings` Incluir notas onde um nome de pasta contém `meetings`.',
                         '`folder:/work/meetings` Incluir notas apenas em `work/meetings` (não subpastas).',
                         '`folder:/` Incluir notas apenas na raiz do cofre.',
@@ -214,13 +232,13 @@ export const STRINGS_PT_BR = {
                     ]
                 },
                 connectors: {
-                    title: 'Comportamento AND/OR',
+                    title: 'AND/OR/NOT e agrupamento',
                     items: [
-                        '`AND` e `OR` são operadores apenas em consultas exclusivas de tags e propriedades.',
-                        'As consultas exclusivas de tags e propriedades contêm apenas filtros de tags e propriedades: `#tag`, `-#tag`, `#`, `-#`, `.key`, `-.key`, `.key=value`, `-.key=value`.',
-                        'Se uma consulta incluir nomes, datas (`@...`), filtros de tarefas (`has:task`), filtros de pasta (`folder:...`) ou filtros de extensão (`ext:...`), `AND` e `OR` são pesquisados como palavras.',
-                        'Exemplo de consulta com operadores: `#work OR .status=started`.',
-                        'Exemplo de consulta mista: `#work OR ext:md` (`OR` é pesquisado nos nomes dos arquivos).'
+                        '`AND`, `OR` e `NOT` são operadores quando uma consulta contém um filtro (`#tag`, `.key`, `@date`, `has:task`, `due:`, `folder:`, `ext:`, `content:`) ou parênteses.',
+                        '`( )` agrupa termos: `(folder:Projects OR folder:Areas) AND #active AND -ext:pdf`.',
+                        '`NOT termo` ou `-termo` exclui um termo. `-( )` exclui um grupo inteiro.',
+                        '`NOT` tem precedência sobre `AND`, e `AND` sobre `OR`. Termos adjacentes usam AND implícito.',
+                        'Consultas só com palavras e sem parênteses buscam `AND`, `OR` e `NOT` como palavras nos nomes de arquivo (ex.: `preto or branco`).'
                     ]
                 },
                 dates: {
@@ -294,12 +312,14 @@ export const STRINGS_PT_BR = {
             addTag: 'Adicionar tag',
             removeTag: 'Remover tag',
             removeAllTags: 'Remover todas as tags',
+            editProperties: 'Editar propriedades',
             changeIcon: 'Alterar ícone',
             changeColor: 'Alterar cor'
         },
         folder: {
             newNote: 'Nova nota',
             newNoteFromTemplate: 'Nova nota a partir de modelo',
+            newNoteFileName: 'Nome de arquivo das novas notas...',
             newFolder: 'Nova pasta',
             newCanvas: 'Nova tela',
             newBase: 'Nova base',
@@ -324,14 +344,24 @@ export const STRINGS_PT_BR = {
             changeIcon: 'Alterar ícone',
             changeColor: 'Alterar cor',
             changeBackground: 'Alterar plano de fundo',
+            mergeTags: 'Mesclar tags...',
+            splitTag: 'Dividir tag...',
             showTag: 'Mostrar tag',
             hideTag: 'Ocultar tag'
         },
         property: {
             addKey: 'Configurar chaves de propriedade',
             renameKey: 'Renomear propriedade',
+            renameValue: 'Renomear valor',
+            mergeValue: 'Mesclar no valor...',
             deleteKey: 'Excluir propriedade'
         },
+        smartFolder: {
+            newSmartFolder: 'Nova pasta inteligente',
+            newNestedSmartFolder: 'Nova pasta inteligente aninhada',
+            editSmartFolder: 'Editar pasta inteligente',
+            deleteSmartFolder: 'Excluir pasta inteligente'
+        },
         navigation: {
             addSeparator: 'Adicionar separador',
             removeSeparator: 'Remover separador'
@@ -357,11 +387,25 @@ export const STRINGS_PT_BR = {
     folderAppearance: {
         standardPreset: 'Padrão',
         compactPreset: 'Compacto',
+        gridPreset: 'Grade',
+        boardPreset: 'Quadro...',
+        boardPresetOption: (property: string) => `Quadro (${property})`,
+        boardPropertyAction: 'Colunas do quadro por propriedade',
+        boardPropertyPlaceholder: 'Chave da propriedade',
+        tileSize: 'Tamanho dos blocos',
+        tileSizeOptions: {
+            small: 'Blocos pequenos',
+            medium: 'Blocos médios',
+            large: 'Blocos grandes'
+        },
         defaultSuffix: '(padrão)',
         defaultLabel: 'Padrão',
         titleRows: 'Linhas do título',
         previewRows: 'Linhas de visualização',
         groupBy: 'Agrupar por',
+        groupByPropertyAction: 'Agrupar por propriedade...',
+        groupByPropertyPlaceholder: 'Chave da propriedade',
+        groupByPropertyOption: (property: string) => `Agrupar por propriedade (${property})`,
         defaultTitleOption: (rows: number) => `Linhas de título padrão (${rows})`,
         defaultPreviewOption: (rows: number) => `Linhas de visualização padrão (${rows})`,
         defaultGroupOption: (groupLabel: string) => `Agrupamento padrão (${groupLabel})`,
@@ -385,6 +429,89 @@ export const STRINGS_PT_BR = {
         fileIconRuleEditor: {
             addRuleAria: 'Adicionar regra'
         },
+        sortChain: {
+            title: 'Cadeia de ordenação personalizada',
+            description: 'As notas são ordenadas pela primeira chave. Cada chave seguinte ordena as notas que são iguais nas chaves acima.',
+            propertyPlaceholder: 'Chave da propriedade',
+            ascending: 'Crescente',
+            descending: 'Decrescente',
+            addKey: 'Adicionar chave de ordenação',
+            moveUp: 'Mover para cima',
+            moveDown: 'Mover para baixo',
+            save: 'Salvar',
+            fields: {
+                modified: 'Data de edição',
+                created: 'Data de criação',
+                title: 'Título',
+                filename: 'Nome do arquivo',
+                property: 'Propriedade',
+                wordcount: 'Número de palavras',
+                tasks: 'Tarefas abertas',
+                size: 'Tamanho do arquivo'
+            }
+        },
+        noteTemplateRules: {
+            title: 'Regras de modelos de notas',
+            description:
+                'Notas criadas a partir de uma pasta, tag ou propriedade usam o modelo e o nome de arquivo da primeira regra correspondente. Os nomes de arquivo suportam {{date}}, {{date:FORMAT}}, {{time}} e {{title}}.',
+            folderPatternPlaceholder: 'Caminho da pasta, ex. Meetings ou Projects/*/Notes',
+            tagPatternPlaceholder: 'Tag, ex. meeting',
+            propertyPatternPlaceholder: 'Propriedade, ex. type ou type=meeting',
+            templatePlaceholder: 'Arquivo de modelo',
+            fileNamePlaceholder: 'Padrão de nome, ex. {{date}} Meeting',
+            emptyState: 'Nenhuma regra. Novas notas são criadas vazias.',
+            addRule: 'Adicionar regra',
+            moveUp: 'Mover para cima',
+            moveDown: 'Mover para baixo',
+            save: 'Salvar',
+            targets: {
+                folder: 'Pasta',
+                tag: 'Tag',
+                property: 'Propriedade'
+            }
+        },
+        fileStyleRules: {
+            title: 'Regras de estilo de arquivos',
+            description:
+                'Os arquivos que correspondem à consulta de uma regra recebem seu ícone e cor. As consultas usam a sintaxe do filtro de busca. As regras são verificadas de cima para baixo: a primeira regra correspondente com ícone define o ícone e a primeira com cor define a cor. Ícones e cores definidos em um arquivo têm prioridade.',
+            queryPlaceholder: 'Consulta de filtro, ex. .status=done, #meeting ou folder:archive',
+            emptyState: 'Nenhuma regra.',
+            setIcon: 'Definir ícone',
+            setColor: 'Definir cor',
+            addRule: 'Adicionar regra',
+            moveUp: 'Mover para cima',
+            moveDown: 'Mover para baixo',
+            save: 'Salvar'
+        },
+        configBundleImport: {
+            title: 'Importar pacote de configuração',
+            description:
+                'Escolha um arquivo JSON de pacote no cofre e depois as seções a importar. Os valores importados são validados como as configurações normais.',
+            filePlaceholder: 'Caminho do pacote, ex. notebook-navigator-config.json',
+            sectionsLabel: 'Seções a importar',
+            strategyLabel: 'Configurações existentes',
+            strategies: {
+                merge: 'Mesclar, as entradas do pacote prevalecem',
+                replace: 'Substituir seções selecionadas'
+            },
+            bundleInfo: 'Exportado em {date} do Notebook Navigator {version}',
+            importButton: 'Importar',
+            sections: {
+                vaultProfiles: 'Perfis do cofre e atalhos',
+                styling: 'Ícones e cores de pastas, tags e propriedades',
+                appearances: 'Aparência de pastas e tags',
+                sortOverrides: 'Ordenações personalizadas',
+                iconMaps: 'Mapas de ícones e ícones da interface',
+                keyboardShortcuts: 'Atalhos de teclado'
+            },
+            errors: {
+                invalidJson: 'O arquivo não é um JSON válido.',
+                invalidFormat: 'O arquivo não é um pacote de configuração do Notebook Navigator.',
+                unsupportedVersion: 'Este pacote foi criado por uma versão mais recente do Notebook Navigator.',
+                empty: 'O pacote não contém seções que possam ser importadas.',
+                readFailed: 'Não foi possível ler o arquivo.'
+            }
+        },
         interfaceIcons: {
             title: 'Ícones da interface',
             fileItemsSection: 'Itens de arquivo',
@@ -415,6 +542,8 @@ export const STRINGS_PT_BR = {
                 'nav-properties': 'Propriedades',
                 'nav-property': 'Propriedade',
                 'nav-property-value': 'Valor',
+                'nav-smart-folders': 'Pastas inteligentes',
+                'nav-smart-folder': 'Pasta inteligente',
                 'list-pinned': 'Itens fixados',
                 'file-unfinished-task': 'Tarefas inacabadas',
                 'file-word-count': 'Contagem de palavras'
@@ -495,6 +624,110 @@ export const STRINGS_PT_BR = {
             deleteSettingsUpdateFailed: 'Propriedade {property} excluída. Não foi possível atualizar as configurações.',
             invalidKeyName: 'Digite um nome de propriedade válido.'
         },
+        propertyValueEdit: {
+            title: 'Editar propriedades',
+            description: 'Alterar uma propriedade em {count} {files}.',
+            keyLabel: 'Propriedade',
+            keyPlaceholder: 'Nome da propriedade',
+            modeLabel: 'Ação',
+            modes: {
+                set: 'Definir valor',
+                append: 'Adicionar à lista',
+                remove: 'Remover propriedade'
+            },
+            valueLabel: 'Valor',
+            valuePlaceholder: 'Valor',
+            emptyValue: '(vazio)',
+            previewTitle: 'Prévia',
+            changeSummary: '{count} de {total} notas serão alteradas',
+            noChanges: 'Nenhuma nota precisa de alterações.',
+            apply: 'Aplicar',
+            successSingle: 'Propriedade {property} atualizada em 1 nota',
+            successMultiple: 'Propriedade {property} atualizada em {count} notas',
+            partialFailure: 'Propriedade {property} atualizada em {count} notas. Não foi possível atualizar {failed} notas.'
+        },
+        propertyValueRename: {
+            renameTitle: 'Renomear valor {value}',
+            renameWarning: 'Renomear {property}: {value} modificará {count} {files}. Inserir um valor existente mescla os dois valores.',
+            newValuePrompt: 'Novo valor',
+            newValuePlaceholder: 'Digite o novo valor',
+            confirmRename: 'Renomear valor',
+            mergeTitle: 'Mesclar valor {value}',
+            mergeWarning:
+                'Mesclar {oldValue} em {newValue} modificará {count} {files}. {newValue} mantém seu próprio ícone, cor e atalhos.',
+            mergePlaceholder: 'Mesclar {value} em...',
+            mergeInstruction: 'para mesclar',
+            confirmMerge: 'Mesclar valores',
+            noOtherValues: 'A propriedade {property} não tem outros valores',
+            nestedTarget: 'Um valor não pode ser renomeado para um de seus valores aninhados.',
+            invalidValue: 'Digite um valor válido.',
+            noChanges: '{oldValue} → {newValue} (sem alterações)',
+            successSingle: '{oldValue} → {newValue} renomeado em 1 nota',
+            successMultiple: '{oldValue} → {newValue} renomeado em {count} notas',
+            partialFailure: '{oldValue} → {newValue} renomeado em {count} notas. Não foi possível atualizar {failed} notas.'
+        },
+        tagOperationSummary: {
+            close: 'Fechar',
+            updatedNotes: 'Notas atualizadas',
+            skippedNotes: 'Notas ignoradas',
+            skippedDescription: 'Estas notas mudaram após a prévia ou não tinham nada para atualizar.',
+            failedNotes: 'Notas com falha',
+            reportSummary: '{changed} de {total} notas atualizadas.'
+        },
+        tagMerge: {
+            title: 'Mesclar tags',
+            description: 'Mescle várias tags em uma só. Tags aninhadas se movem junto com a tag pai.',
+            sourcesLabel: 'Tags para mesclar',
+            sourcesPlaceholder: 'Tags separadas por vírgulas',
+            targetLabel: 'Mesclar em',
+            targetPlaceholder: 'Tag de destino',
+            preview: 'Prévia da mesclagem',
+            nothingToMerge: 'Não há tags para mesclar. Verifique se as tags são usadas em notas e diferem da tag de destino.',
+            previewTitle: 'Mesclar em {tag}',
+            previewDescription: 'Mesclar {tags} em {tag} modificará {count} notas.',
+            confirm: 'Mesclar tags',
+            affectedNotes: 'Notas afetadas',
+            skippedTags: 'Tags ignoradas',
+            skipReasons: {
+                sameAsTarget: 'igual à tag de destino',
+                containsTarget: 'a tag de destino está aninhada nesta tag',
+                nestedInSource: 'mesclada junto com a tag pai',
+                noNotes: 'não usada em nenhuma nota'
+            },
+            alreadyTagged: 'Notas que já têm {tag}',
+            alreadyTaggedDescription: 'Estas notas conterão a tag de destino mais de uma vez.',
+            multipleSources: 'Notas com várias tags mescladas',
+            multipleSourcesDescription: 'Cada uma destas notas conterá a tag de destino mais de uma vez.',
+            nestedCollisions: 'Colisões de tags aninhadas',
+            nestedCollisionsDescription: 'Estas tags aninhadas serão mescladas em tags aninhadas que já existem.',
+            notFinalized: 'Metadados não movidos',
+            notFinalizedDescription:
+                'Algumas notas com estas tags não foram atualizadas, então seus ícones, cores e atalhos foram mantidos.',
+            reportTitle: 'Mesclado em {tag}'
+        },
+        tagSplit: {
+            title: 'Dividir tag {tag}',
+            description:
+                '{count} {files} com exatamente {tag}. Cada nota vai para a tag filha da primeira regra correspondente. Notas sem regra correspondente mantêm {tag}.',
+            childPlaceholder: 'Tag filha',
+            kinds: {
+                folder: 'Pasta',
+                query: 'Consulta de filtro'
+            },
+            folderPlaceholder: 'Caminho da pasta (inclui subpastas)',
+            queryPlaceholder: 'Consulta de filtro de pesquisa',
+            addRule: 'Adicionar regra',
+            preview: 'Prévia da divisão',
+            nothingMatched: 'Nenhuma nota corresponde às regras.',
+            previewTitle: 'Dividir {tag}',
+            previewDescription: '{count} de {total} notas com {tag} irão para uma tag filha.',
+            confirm: 'Dividir tag',
+            invalidRules: 'Regras que não podem ser avaliadas',
+            invalidRulesDescription: 'Consultas de filtro precisam de critérios de pesquisa e de um cache de notas pronto.',
+            unmatched: 'Notas sem regra correspondente',
+            unmatchedDescription: 'Estas notas mantêm {tag}.',
+            reportTitle: '{tag} dividida'
+        },
         fileSystem: {
             newFolderTitle: 'Nova pasta',
             renameFolderTitle: 'Renomear pasta',
@@ -504,6 +737,10 @@ export const STRINGS_PT_BR = {
             deleteFileAttachmentsTitle: 'Excluir anexos do arquivo?',
             moveFileConflictTitle: 'Conflito de movimentação',
             folderNamePrompt: 'Digite o nome da pasta:',
+            newNoteTitle: 'Nova nota',
+            noteTitlePrompt: 'Digite o título da nota:',
+            createNoteButton: 'Criar',
+            newNoteFileNamePrompt: 'Padrão de nome, ex. {{date:YYYYMMDDHHmm}} {{title}}. Deixe vazio para usar o padrão.',
             hideInOtherVaultProfiles: 'Ocultar em outros perfis do cofre',
             renamePrompt: 'Digite o novo nome:',
             renameVaultTitle: 'Alterar nome de exibição do cofre',
@@ -597,6 +834,23 @@ export const STRINGS_PT_BR = {
             applyButton: 'Aplicar',
             emptyState: 'Nenhuma chave de propriedade encontrada.'
         },
+        smartFolder: {
+            newTitle: 'Nova pasta inteligente',
+            newNestedTitle: 'Nova pasta inteligente em {name}',
+            editTitle: 'Editar pasta inteligente',
+            nameLabel: 'Nome',
+            namePlaceholder: 'Nome da pasta inteligente',
+            queryLabel: 'Consulta de filtro',
+            queryPlaceholder: '#project AND -#archived',
+            queryDescription:
+                'Usa a sintaxe da pesquisa por filtro. Pastas inteligentes aninhadas só listam notas que também correspondem às consultas das pastas superiores.',
+            create: 'Criar',
+            save: 'Salvar',
+            emptyName: 'O nome da pasta inteligente não pode ficar vazio',
+            duplicateName: 'Já existe aqui uma pasta inteligente com este nome',
+            deleteTitle: 'Excluir a pasta inteligente "{name}"?',
+            deleteMessage: 'Pastas inteligentes aninhadas também são excluídas. As notas não são alteradas.'
+        },
         welcome: {
             title: 'Bem-vindo ao {pluginName}',
             introText:
@@ -680,6 +934,10 @@ export const STRINGS_PT_BR = {
             iconPackUpdated: '{provider} atualizado ({version})',
             iconPackRemoved: '{provider} removido',
             iconPackLoadFailed: 'Falha ao carregar {provider}',
+            folderMetadataWritten: 'Metadados gravados para {count} pastas',
+            folderMetadataLoaded: 'Metadados carregados para {count} pastas',
+            folderMetadataStorageDisabled:
+                'Escolha primeiro o armazenamento na nota de pasta ou arquivo auxiliar nas configurações de Pastas',
             hiddenFileReveal: 'Arquivo está oculto. Ative "Mostrar itens ocultos" para exibi-lo'
         },
         confirmations: {
@@ -709,7 +967,62 @@ export const STRINGS_PT_BR = {
             filesAlreadyHaveProperty: '{count} arquivos já possuem esta propriedade',
             noTagsToClear: 'Sem tags para remover',
             fileImported: '1 arquivo importado',
-            filesImported: '{count} arquivos importados'
+            filesImported: '{count} arquivos importados',
+            filesMoved: '{count} arquivos movidos para {folder}'
+        }
+    },
+
+    // Undo history
+    undoHistory: {
+        undo: 'Desfazer',
+        undone: 'Desfeito: {action}',
+        redone: 'Refeito: {action}',
+        nothingToUndo: 'Nada para desfazer',
+        nothingToRedo: 'Nada para refazer',
+        failed: 'Não foi possível reverter "{action}": {error}',
+        partial: 'Não foi possível restaurar {count} itens',
+        actions: {
+            moveFile: 'Mover "{name}"',
+            moveFiles: 'Mover {count} arquivos',
+            moveFolder: 'Mover pasta "{name}"',
+            renameFile: 'Renomear "{name}"',
+            renameFolder: 'Renomear pasta "{name}"',
+            addTag: 'Adicionar tag #{tag}',
+            removeTag: 'Remover tag #{tag}',
+            renameProperty: 'Renomear propriedade {oldKey} → {newKey}',
+            editProperty: 'Editar propriedade {property}',
+            renamePropertyValue: 'Renomear valor de {property} {oldValue} → {newValue}',
+            changeAppearance: 'Alterar aparência de "{name}"'
+        }
+    },
+
+    // Vault statistics dashboard
+    statisticsDashboard: {
+        refresh: 'Atualizar',
+        loading: 'Aguardando o cache de notas...',
+        unavailable: 'Não foi possível calcular as estatísticas.',
+        empty: 'Sem dados',
+        weekLabel: 'Semana de {date}',
+        createdCount: '{count} criadas',
+        modifiedCount: '{count} modificadas',
+        summary: {
+            notes: 'Notas',
+            words: 'Palavras',
+            openTasks: 'Tarefas abertas',
+            untagged: 'Notas sem tags',
+            orphaned: 'Notas órfãs',
+            orphanedDescription: 'Notas que nenhuma outra nota vincula'
+        },
+        sections: {
+            activity: 'Notas criadas e modificadas por semana',
+            wordsPerFolder: 'Palavras por pasta',
+            openTasksPerFolder: 'Tarefas abertas por pasta',
+            topTags: 'Tags principais',
+            topProperties: 'Propriedades principais'
+        },
+        legend: {
+            created: 'Criadas',
+            modified: 'Modificadas'
         }
     },
 
@@ -734,8 +1047,10 @@ export const STRINGS_PT_BR = {
         revealFile: 'Revelar arquivo',
         search: 'Pesquisar',
         searchVaultRoot: 'Pesquisar na raiz do cofre',
+        createSmartFolder: 'Criar pasta inteligente a partir da pesquisa',
         toggleDualPane: 'Alternar layout de painel duplo',
         toggleCalendar: 'Alternar calendário',
+        openStatistics: 'Abrir estatísticas do cofre', // Command palette: Opens the vault statistics dashboard (English: Open vault statistics)
         selectVaultProfile: 'Alterar perfil do cofre',
         selectVaultProfile1: 'Alterar para o perfil do cofre 1',
         selectVaultProfile2: 'Alterar para o perfil do cofre 2',
@@ -744,12 +1059,18 @@ export const STRINGS_PT_BR = {
         createNewNote: 'Criar nova nota',
         createNewNoteFromTemplate: 'Nova nota a partir de modelo',
         moveFiles: 'Mover arquivos',
+        undo: 'Desfazer operação de arquivo',
+        redo: 'Refazer operação de arquivo',
         selectNextFile: 'Selecionar próximo arquivo',
         selectPreviousFile: 'Selecionar arquivo anterior',
         convertToFolderNote: 'Converter em nota de pasta',
         setAsFolderNote: 'Definir como nota de pasta',
         detachFolderNote: 'Desvincular nota de pasta',
         pinAllFolderNotes: 'Fixar todas as notas de pasta',
+        writeFolderMetadataFiles: 'Gravar metadados das pastas em arquivos', // Command palette: Writes folder icons, colors, sort overrides and appearances to folder notes or sidecars (English: Write folder metadata to files)
+        reloadFolderMetadataFiles: 'Recarregar metadados das pastas a partir de arquivos', // Command palette: Reads folder metadata from folder notes or sidecars into settings (English: Reload folder metadata from files)
+        exportConfiguration: 'Exportar pacote de configuração', // Command palette: Writes a configuration bundle JSON file to the vault root (English: Export configuration bundle)
+        importConfiguration: 'Importar pacote de configuração', // Command palette: Opens a dialog to import sections of a configuration bundle (English: Import configuration bundle)
         navigateToFolder: 'Navegar para pasta',
         navigateToTag: 'Navegar para tag',
         navigateToProperty: 'Navegar para propriedade',
@@ -763,6 +1084,8 @@ export const STRINGS_PT_BR = {
         addTag: 'Adicionar tag aos arquivos selecionados',
         removeTag: 'Remover tag dos arquivos selecionados',
         removeAllTags: 'Remover todas as tags dos arquivos selecionados',
+        mergeTags: 'Mesclar tags', // Command palette: Opens a dialog to merge several tags into one tag (English: Merge tags)
+        editProperties: 'Editar propriedades dos arquivos selecionados', // Command palette: Opens a dialog to set, append to, or remove a property on selected files (English: Edit properties of selected files)
         openAllFiles: 'Abrir todos os arquivos',
         rebuildCache: 'Reconstruir cache'
     },
@@ -771,6 +1094,7 @@ export const STRINGS_PT_BR = {
     plugin: {
         viewName: 'Notebook Navigator',
         calendarViewName: 'Calendário',
+        statisticsViewName: 'Estatísticas do cofre', // Name shown in the statistics view header/tab (English: Vault statistics)
         ribbonTooltip: 'Notebook Navigator',
         revealInNavigator: 'Revelar no Notebook Navigator'
     },
@@ -869,7 +1193,13 @@ export const STRINGS_PT_BR = {
                     'filename-asc': 'Nome do arquivo (A no topo)',
                     'filename-desc': 'Nome do arquivo (Z no topo)',
                     'property-asc': 'Propriedade (A no topo)',
-                    'property-desc': 'Propriedade (Z no topo)'
+                    'property-desc': 'Propriedade (Z no topo)',
+                    'wordcount-desc': 'Número de palavras (mais no topo)',
+                    'wordcount-asc': 'Número de palavras (menos no topo)',
+                    'tasks-desc': 'Tarefas abertas (mais no topo)',
+                    'tasks-asc': 'Tarefas abertas (menos no topo)',
+                    'size-desc': 'Tamanho do arquivo (maior no topo)',
+                    'size-asc': 'Tamanho do arquivo (menor no topo)'
                 },
                 propertyOverride: {
                     asc: 'Propriedade ‘{property}’ (A no topo)',
@@ -895,6 +1225,10 @@ export const STRINGS_PT_BR = {
                 name: 'Rolar para o arquivo selecionado em mudanças da lista',
                 desc: 'Rolar para o arquivo selecionado ao fixar notas, mostrar notas descendentes, mudar aparência de pastas ou executar operações de arquivo.'
             },
+            searchNoteContent: {
+                name: 'Pesquisar conteúdo das notas',
+                desc: 'Cria um índice local de texto completo do corpo das notas para a pesquisa por filtros. Ativa os filtros `content:` e faz com que palavras simples correspondam ao texto além dos nomes de arquivo. Não requer Omnisearch.'
+            },
             includeDescendantNotes: {
                 name: 'Mostrar notas de subpastas / descendentes',
                 desc: 'Incluir notas de subpastas aninhadas e descendentes de tags ao visualizar uma pasta ou tag.'
@@ -909,11 +1243,13 @@ export const STRINGS_PT_BR = {
             },
             groupNotes: {
                 name: 'Agrupar notas',
-                desc: 'Exibir cabeçalhos entre notas agrupadas por data ou pasta. Visualizações de tags usam grupos de data quando o agrupamento de pastas está ativado.',
+                desc: 'Exibir cabeçalhos entre notas agrupadas por data, pasta, tag, primeira letra ou valor de propriedade. Visualizações de tags usam grupos de data quando o agrupamento de pastas está ativado.',
                 options: {
                     none: 'Não agrupar',
                     date: 'Agrupar por data',
-                    folder: 'Agrupar por pasta'
+                    folder: 'Agrupar por pasta',
+                    tag: 'Agrupar por tag',
+                    alphabetical: 'Agrupar alfabeticamente'
                 }
             },
             showPinnedGroupHeader: {
@@ -960,6 +1296,11 @@ export const STRINGS_PT_BR = {
                 placeholder: '# Extension=icon\ncpp=LiFileCode\npdf=RaBook',
                 editTooltip: 'Editar mapeamentos'
             },
+            fileStyleRules: {
+                name: 'Regras de estilo de arquivos',
+                desc: 'Atribua um ícone e uma cor aos arquivos que correspondem a uma consulta do filtro de busca, ex. um ícone de marcação para .status=done ou cinza para folder:archive. As regras são salvas no perfil do cofre.',
+                buttonText: 'Editar regras'
+            },
             optimizeNoteHeight: {
                 name: 'Altura de nota variável',
                 desc: 'Usar altura compacta para notas fixadas e notas sem texto de visualização.'
@@ -1040,6 +1381,15 @@ export const STRINGS_PT_BR = {
                 name: 'Abrir novas notas em nova aba',
                 desc: 'Quando ativado, o comando Criar nova nota abre as notas em uma nova aba. Quando desativado, as notas substituem a aba atual.'
             },
+            newNoteFileNamePattern: {
+                name: 'Nome de arquivo das novas notas',
+                desc: 'Padrão de nome de arquivo para novas notas. Suporta {{date}}, {{date:FORMAT}}, {{time}} e {{title}}. Pastas podem substituí-lo pelo menu da pasta. Deixe vazio para "Sem título".',
+                placeholder: '{{date:YYYY-MM-DD}} {{title}}'
+            },
+            promptForNewNoteTitle: {
+                name: 'Pedir título ao criar notas',
+                desc: 'Pede um título antes de criar uma nota. O título preenche {{title}} no padrão, ou vira o nome do arquivo quando não há padrão.'
+            },
             autoRevealActiveNote: {
                 name: 'Revelar automaticamente a nota ativa',
                 desc: 'Revelar automaticamente notas quando abertas pelo Alternador Rápido, links ou pesquisa.'
@@ -1216,6 +1566,11 @@ export const STRINGS_PT_BR = {
                 desc: 'O seletor de arquivos de modelo mostra notas desta pasta.',
                 placeholder: 'Templates'
             },
+            noteTemplateRules: {
+                name: 'Regras de modelos de notas',
+                desc: 'Aplicar um modelo e um padrão de nome de arquivo às notas criadas a partir de uma pasta, tag ou propriedade.',
+                buttonText: 'Editar regras'
+            },
             calendarCustomFilePattern: {
                 name: 'Notas diárias',
                 desc: 'Formatar caminho usando formato de data Moment. Coloque nomes de subpastas entre colchetes, ex. [Work]/YYYY. Clique no ícone de modelo para definir um modelo. Definir localização da pasta de modelos em Geral > Modelos.',
@@ -1272,6 +1627,16 @@ export const STRINGS_PT_BR = {
                 notice: 'Configurações redefinidas. Reinicie o Obsidian ou reabra o Notebook Navigator para aplicar.',
                 error: 'Falha ao redefinir as configurações.'
             },
+            configBundle: {
+                name: 'Pacote de configuração',
+                desc: 'Exporte perfis do cofre, atalhos, estilos, aparências, ordenações personalizadas, mapas de ícones e atalhos de teclado para um arquivo JSON na raiz do cofre, ou importe um pacote para configurar outro cofre.',
+                exportButton: 'Exportar',
+                importButton: 'Importar',
+                exportSuccess: 'Configuração exportada para {filename}',
+                exportFailed: 'Falha ao exportar a configuração.',
+                importSuccess: 'Configuração importada.',
+                importFailed: 'Falha ao importar a configuração.'
+            },
             multiSelectModifier: {
                 name: 'Modificador de seleção múltipla',
                 desc: 'Escolha qual tecla modificadora alterna a seleção múltipla. Quando Opção/Alt está selecionado, Cmd/Ctrl clique abre notas em uma nova aba.',
@@ -1296,6 +1661,14 @@ export const STRINGS_PT_BR = {
                 name: 'Ctrl+Enter',
                 desc: 'Abrir o arquivo selecionado em uma nova aba, divisão ou janela ao pressionar Ctrl+Enter.'
             },
+            vimKeyboardNavigation: {
+                name: 'Sequências de teclas estilo Vim',
+                desc: 'gg e G pulam para o primeiro e o último item, dd exclui, zc e zo recolhem e expandem, / abre a busca. Atalhos personalizados têm prioridade.'
+            },
+            typeAheadFind: {
+                name: 'Busca ao digitar',
+                desc: 'Digitar letras pula para a primeira pasta, tag ou nota cujo nome começa com o texto digitado. Indisponível com as sequências estilo Vim ativadas.'
+            },
             fileVisibility: {
                 name: 'Mostrar tipos de arquivo (perfil do cofre)',
                 desc: 'Filtrar quais tipos de arquivo são mostrados no navegador. Tipos de arquivo não suportados pelo Obsidian podem abrir em aplicativos externos.',
@@ -1419,6 +1792,10 @@ export const STRINGS_PT_BR = {
                     none: 'Nenhum'
                 }
             },
+            showTaskProgress: {
+                name: 'Progresso das tarefas',
+                desc: 'Mostrar uma barra de conclusão e o próximo prazo em notas com tarefas.'
+            },
             propertyFields: {
                 name: 'Chaves de propriedades (perfil do cofre)',
                 desc: 'Chaves de propriedades de metadados, com visibilidade por chave para navegação e lista de arquivos.',
@@ -1531,6 +1908,15 @@ export const STRINGS_PT_BR = {
                     alphaDesc: 'Z a A'
                 }
             },
+            folderMetadataStorage: {
+                name: 'Armazenamento de metadados de pastas',
+                desc: 'Salve também os ícones, cores, ordenações personalizadas e aparências das pastas no cofre para que acompanhem a pasta via sincronização ou git. As alterações são sincronizadas nos dois sentidos. Execute "Gravar metadados das pastas em arquivos" para migrar os metadados existentes.',
+                options: {
+                    settings: 'Somente configurações do plugin',
+                    folderNote: 'Frontmatter da nota de pasta',
+                    sidecar: 'Arquivo auxiliar .folder.yml'
+                }
+            },
             showNoteCount: {
                 name: 'Mostrar contagem de notas',
                 desc: 'Exibir o número de notas ao lado de cada pasta e tag.'
@@ -1646,6 +2032,11 @@ export const STRINGS_PT_BR = {
                 name: 'Mostrar pasta de propriedades',
                 desc: 'Exibir "Propriedades" como uma pasta recolhível.'
             },
+            propertyHierarchies: {
+                name: 'Hierarquias de propriedades',
+                desc: 'Aninhar notas em pastas virtuais por valor de propriedade, um nível por chave. Uma hierarquia por linha como `Name: key > key > key`. As chaves também precisam estar nas chaves de propriedades.',
+                placeholder: 'Research: type > status > project'
+            },
             hiddenTags: {
                 name: 'Ocultar tags (perfil do cofre)',
                 desc: 'Lista de padrões de tags separados por vírgulas. Padrões de nome: tag* (começa com), *tag (termina com). Padrões de caminho: arquivo (tag e descendentes), arquivo/* (apenas descendentes), projetos/*/rascunhos (curinga intermediário).',
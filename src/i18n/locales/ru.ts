@@ -46,7 +46,10 @@ export const STRINGS_RU = {
         pinnedSection: 'Закреплённые', // Header for the pinned notes section at the top of file list (English: Pinned)
         notesSection: 'Заметки', // Header shown between pinned and regular items when showing documents only (English: Notes)
         filesSection: 'Файлы', // Header shown between pinned and regular items when showing supported or all files (English: Files)
-        hiddenItemAriaLabel: '{name} (скрыто)' // Accessibility label applied to list items that are normally hidden
+        noPropertyValue: 'Без значения', // Header for notes without a value when grouping by property (English: No value)
+        hiddenItemAriaLabel: '{name} (скрыто)', // Accessibility label applied to list items that are normally hidden
+        taskProgressAriaLabel: 'Выполнено {completed} из {total} задач', // Accessibility label for the task progress bar in file items
+        taskDue: 'Срок {date}' // Next due date shown next to the task progress bar (English: Due {date})
     },
 
     // Tag list
@@ -61,6 +64,7 @@ export const STRINGS_RU = {
         recentNotesHeader: 'Недавние заметки', // Header label for recent notes section in navigation pane (English: Recent notes)
         recentFilesHeader: 'Недавние файлы', // Header label when showing recent non-note files in navigation pane (English: Recent files)
         properties: 'Свойства',
+        smartFolders: 'Умные папки',
         reorderRootFoldersTitle: 'Изменить порядок навигации',
         reorderRootFoldersHint: 'Используйте стрелки или перетаскивание',
         vaultRootLabel: 'Хранилище',
@@ -130,6 +134,7 @@ export const STRINGS_RU = {
         mobileBackToNavigation: 'Назад к навигации', // Mobile-only back button text to return to navigation pane (English: Back to navigation)
         changeSortOrder: 'Изменить сортировку', // Tooltip for the sort order toggle button (English: Change sort order)
         defaultSort: 'По умолчанию', // Label for default sorting mode (English: Default)
+        customSortChain: 'Пользовательская цепочка сортировки...',
         showFolders: 'Показать навигацию', // Tooltip for button to show the navigation pane (English: Show navigation)
         reorderRootFolders: 'Изменить порядок навигации',
         finishRootFolderReorder: 'Готово',
@@ -171,6 +176,15 @@ export const STRINGS_RU = {
                         '`-word` Исключить заметки со словом "word" в имени файла.'
                     ]
                 },
+                content: {
+                    title: 'Содержимое заметок',
+                    items: [
+                        '`content:слово` Заметки, текст которых содержит слово, начинающееся с "слово".',
+                        '`content:"два слова"` Каждое слово должно встречаться в тексте заметки.',
+                        '`-content:слово` Исключить заметки, текст которых содержит слово, начинающееся с "слово".',
+                        'Требуется **Поиск по содержимому заметок** в настройках панели списка. Когда включено, простые слова также ищутся в тексте.'
+                    ]
+                },
                 tags: {
                     title: 'Теги',
                     items: [
@@ -194,6 +208,8 @@ export const STRINGS_RU = {
                         '`."Reading Status"="In Progress"` Ключи и значения с пробелами должны быть заключены в двойные кавычки.',
                         '`-.key` Исключить заметки с ключом свойства.',
                         '`-.key=value` Исключить заметки с значением свойства.',
+                        '`.key>=3`, `.key<2026-11-01` Сравнить числовые свойства или свойства-даты с помощью `>`, `>=`, `<`, `<=`.',
+                        '`.key:thisweek`, `.key:1..5`, `.key:2026-11-01..2026-11-30` Совпадение с относительной датой, датой, числом или включающим диапазоном.',
                         'Cmd/Ctrl+Клик по свойству для добавления с AND. Cmd/Ctrl+Shift+Клик для добавления с OR.'
                     ]
                 },
@@ -202,6 +218,8 @@ export const STRINGS_RU = {
                     items: [
                         '`has:task` Включить заметки с незавершёнными задачами.',
                         '`-has:task` Исключить заметки с незавершёнными задачами.',
+                        '`due:overdue`, `due:today`, `due:thisweek` Включить заметки с открытой задачей, срок которой попадает в диапазон (даты `📅` Tasks или поля `[due:: ]` Dataview).',
+                        '`due:2026-11-01..2026-11-30` Совпадение со сроком или диапазоном. `-due:...` исключает заметки с подходящей открытой задачей.',
                         '`folder:meetings` Включить заметки, где имя папки содержит `meetings`.',
                         '`folder:/work/meetings` Включить заметки только в `work/meetings` (не подпапки).',
                         '`folder:/` Включить заметки только в корне хранилища.',
@@ -213,13 +231,13 @@ export const STRINGS_RU = {
                     ]
                 },
                 connectors: {
-                    title: 'Поведение AND/OR',
+                    title: 'AND/OR/NOT и группировка',
                     items: [
-                        '`AND` и `OR` являются операторами только в запросах, состоящих исключительно из тегов и свойств.',
-                        'Запросы только с тегами и свойствами содержат только фильтры тегов и свойств: `#tag`, `-#tag`, `#`, `-#`, `.key`, `-.key`, `.key=value`, `-.key=value`.',
-                        'Если запрос включает имена, даты (`@...`), фильтры задач (`has:task`), фильтры папок (`folder:...`) или фильтры расширений (`ext:...`), `AND` и `OR` ищутся как слова.',
-                        'Пример запроса с операторами: `#work OR .status=started`.',
-                        'Пример смешанного запроса: `#work OR ext:md` (`OR` ищется в именах файлов).'
+                        '`AND`, `OR` и `NOT` работают как операторы, если запрос содержит фильтр (`#tag`, `.key`, `@date`, `has:task`, `due:`, `folder:`, `ext:`, `content:`) или скобки.',
+                        '`( )` группирует условия: `(folder:Projects OR folder:Areas) AND #active AND -ext:pdf`.',
+                        '`NOT условие` или `-условие` исключает условие. `-( )` исключает всю группу.',
+                        '`NOT` имеет приоритет над `AND`, а `AND` над `OR`. Соседние условия объединяются неявным AND.',
+                        'В запросах только из слов и без скобок `AND`, `OR` и `NOT` ищутся как слова в именах файлов (например, `чёрный or белый`).'
                     ]
                 },
                 dates: {
@@ -293,12 +311,14 @@ export const STRINGS_RU = {
             addTag: 'Добавить тег',
             removeTag: 'Удалить тег',
             removeAllTags: 'Удалить все теги',
+            editProperties: 'Изменить свойства',
             changeIcon: 'Изменить иконку',
             changeColor: 'Изменить цвет'
         },
         folder: {
             newNote: 'Новая заметка',
             newNoteFromTemplate: 'Новая заметка из шаблона',
+            newNoteFileName: 'Имя файла новых заметок...',
             newFolder: 'Новая папка',
             newCanvas: 'Новый холст',
             newBase: 'Новая база',
@@ -323,14 +343,24 @@ export const STRINGS_RU = {
             changeIcon: 'Изменить иконку',
             changeColor: 'Изменить цвет',
             changeBackground: 'Изменить фон',
+            mergeTags: 'Объединить теги...',
+            splitTag: 'Разделить тег...',
             showTag: 'Показать тег',
             hideTag: 'Скрыть тег'
         },
         property: {
             addKey: 'Настроить ключи свойств',
             renameKey: 'Переименовать свойство',
+            renameValue: 'Переименовать значение',
+            mergeValue: 'Объединить со значением...',
             deleteKey: 'Удалить свойство'
         },
+        smartFolder: {
+            newSmartFolder: 'Новая умная папка',
+            newNestedSmartFolder: 'Новая вложенная умная папка',
+            editSmartFolder: 'Изменить умную папку',
+            deleteSmartFolder: 'Удалить умную папку'
+        },
         navigation: {
             addSeparator: 'Добавить разделитель',
             removeSeparator: 'Удалить разделитель'
@@ -356,11 +386,25 @@ export const STRINGS_RU = {
     folderAppearance: {
         standardPreset: 'Стандартный',
         compactPreset: 'Компактный',
+        gridPreset: 'Сетка',
+        boardPreset: 'Доска...',
+        boardPresetOption: (property: string) => `Доска (${property})`,
+        boardPropertyAction: 'Столбцы доски по свойству',
+        boardPropertyPlaceholder: 'Ключ свойства',
+        tileSize: 'Размер плиток',
+        tileSizeOptions: {
+            small: 'Маленькие плитки',
+            medium: 'Средние плитки',
+            large: 'Большие плитки'
+        },
         defaultSuffix: '(по умолчанию)',
         defaultLabel: 'По умолчанию',
         titleRows: 'Строки заголовка',
         previewRows: 'Строки превью',
         groupBy: 'Группировать по',
+        groupByPropertyAction: 'Группировать по свойству...',
+        groupByPropertyPlaceholder: 'Ключ свойства',
+        groupByPropertyOption: (property: string) => `Группировать по свойству (${property})`,
         defaultTitleOption: (rows: number) => `Строк заголовка по умолчанию (${rows})`,
         defaultPreviewOption: (rows: number) => `Строк превью по умолчанию (${rows})`,
         defaultGroupOption: (groupLabel: string) => `Группировка по умолчанию (${groupLabel})`,
@@ -384,6 +428,89 @@ export const STRINGS_RU = {
         fileIconRuleEditor: {
             addRuleAria: 'Добавить правило'
         },
+        sortChain: {
+            title: 'Пользовательская цепочка сортировки',
+            description: 'Заметки сортируются по первому ключу. Каждый следующий ключ упорядочивает заметки, равные по ключам выше.',
+            propertyPlaceholder: 'Ключ свойства',
+            ascending: 'По возрастанию',
+            descending: 'По убыванию',
+            addKey: 'Добавить ключ сортировки',
+            moveUp: 'Вверх',
+            moveDown: 'Вниз',
+            save: 'Сохранить',
+            fields: {
+                modified: 'Дата изменения',
+                created: 'Дата создания',
+                title: 'Заголовок',
+                filename: 'Имя файла',
+                property: 'Свойство',
+                wordcount: 'Число слов',
+                tasks: 'Открытые задачи',
+                size: 'Размер файла'
+            }
+        },
+        noteTemplateRules: {
+            title: 'Правила шаблонов заметок',
+            description:
+                'Заметки, созданные из папки, тега или свойства, используют шаблон и имя файла первого подходящего правила. В именах файлов поддерживаются {{date}}, {{date:FORMAT}}, {{time}} и {{title}}.',
+            folderPatternPlaceholder: 'Путь к папке, например Meetings или Projects/*/Notes',
+            tagPatternPlaceholder: 'Тег, например meeting',
+            propertyPatternPlaceholder: 'Свойство, например type или type=meeting',
+            templatePlaceholder: 'Файл шаблона',
+            fileNamePlaceholder: 'Шаблон имени файла, например {{date}} Meeting',
+            emptyState: 'Правил нет. Новые заметки создаются пустыми.',
+            addRule: 'Добавить правило',
+            moveUp: 'Вверх',
+            moveDown: 'Вниз',
+            save: 'Сохранить',
+            targets: {
+                folder: 'Папка',
+                tag: 'Тег',
+                property: 'Свойство'
+            }
+        },
+        fileStyleRules: {
+            title: 'Правила стиля файлов',
+            description:
+                'Файлы, соответствующие запросу правила, получают его значок и цвет. Запросы используют синтаксис фильтра поиска. Правила проверяются сверху вниз: первое подходящее правило со значком задаёт значок, а первое подходящее правило с цветом задаёт цвет. Значки и цвета, заданные для файла напрямую, имеют приоритет.',
+            queryPlaceholder: 'Запрос фильтра, например .status=done, #meeting или folder:archive',
+            emptyState: 'Нет правил.',
+            setIcon: 'Задать значок',
+            setColor: 'Задать цвет',
+            addRule: 'Добавить правило',
+            moveUp: 'Вверх',
+            moveDown: 'Вниз',
+            save: 'Сохранить'
+        },
+        configBundleImport: {
+            title: 'Импорт пакета конфигурации',
+            description:
+                'Выберите JSON-файл пакета в хранилище, затем разделы для импорта. Импортируемые значения проверяются так же, как обычные настройки.',
+            filePlaceholder: 'Путь к пакету, например notebook-navigator-config.json',
+            sectionsLabel: 'Разделы для импорта',
+            strategyLabel: 'Существующие настройки',
+            strategies: {
+                merge: 'Объединить, записи пакета имеют приоритет',
+                replace: 'Заменить выбранные разделы'
+            },
+            bundleInfo: 'Экспортировано {date} из Notebook Navigator {version}',
+            importButton: 'Импортировать',
+            sections: {
+                vaultProfiles: 'Профили хранилища и ярлыки',
+                styling: 'Значки и цвета папок, тегов и свойств',
+                appearances: 'Вид папок и тегов',
+                sortOverrides: 'Переопределения сортировки',
+                iconMaps: 'Сопоставления значков и значки интерфейса',
+                keyboardShortcuts: 'Сочетания клавиш'
+            },
+            errors: {
+                invalidJson: 'Файл не является корректным JSON.',
+                invalidFormat: 'Файл не является пакетом конфигурации Notebook Navigator.',
+                unsupportedVersion: 'Этот пакет создан более новой версией Notebook Navigator.',
+                empty: 'В пакете нет разделов, которые можно импортировать.',
+                readFailed: 'Не удалось прочитать файл.'
+            }
+        },
         interfaceIcons: {
             title: 'Иконки интерфейса',
             fileItemsSection: 'Элементы файла',
@@ -414,6 +541,8 @@ export const STRINGS_RU = {
                 'nav-properties': 'Свойства',
                 'nav-property': 'Свойство',
                 'nav-property-value': 'Значение',
+                'nav-smart-folders': 'Умные папки',
+                'nav-smart-folder': 'Умная папка',
                 'list-pinned': 'Закреплённые элементы',
                 'file-unfinished-task': 'Незавершённые задачи',
                 'file-word-count': 'Количество слов'
@@ -491,6 +620,109 @@ export const STRINGS_RU = {
             deleteSettingsUpdateFailed: 'Свойство {property} удалено. Не удалось обновить настройки.',
             invalidKeyName: 'Введите допустимое имя свойства.'
         },
+        propertyValueEdit: {
+            title: 'Изменить свойства',
+            description: 'Изменить свойство в {count} {files}.',
+            keyLabel: 'Свойство',
+            keyPlaceholder: 'Имя свойства',
+            modeLabel: 'Действие',
+            modes: {
+                set: 'Задать значение',
+                append: 'Добавить в список',
+                remove: 'Удалить свойство'
+            },
+            valueLabel: 'Значение',
+            valuePlaceholder: 'Значение',
+            emptyValue: '(пусто)',
+            previewTitle: 'Предпросмотр',
+            changeSummary: 'Будет изменено заметок: {count} из {total}',
+            noChanges: 'Нет заметок, требующих изменений.',
+            apply: 'Применить',
+            successSingle: 'Свойство {property} обновлено в 1 заметке',
+            successMultiple: 'Свойство {property} обновлено в заметках: {count}',
+            partialFailure: 'Свойство {property} обновлено в заметках: {count}. Не удалось обновить заметок: {failed}.'
+        },
+        propertyValueRename: {
+            renameTitle: 'Переименовать значение {value}',
+            renameWarning:
+                'Переименование {property}: {value} изменит {count} {files}. Ввод существующего значения объединит два значения.',
+            newValuePrompt: 'Новое значение',
+            newValuePlaceholder: 'Введите новое значение',
+            confirmRename: 'Переименовать значение',
+            mergeTitle: 'Объединить значение {value}',
+            mergeWarning: 'Объединение {oldValue} с {newValue} изменит {count} {files}. {newValue} сохранит свои значок, цвет и ярлыки.',
+            mergePlaceholder: 'Объединить {value} с...',
+            mergeInstruction: 'для объединения',
+            confirmMerge: 'Объединить значения',
+            noOtherValues: 'У свойства {property} нет других значений',
+            nestedTarget: 'Значение нельзя переименовать в одно из его вложенных значений.',
+            invalidValue: 'Введите допустимое значение.',
+            noChanges: '{oldValue} → {newValue} (без изменений)',
+            successSingle: 'Переименовано {oldValue} → {newValue} в 1 заметке',
+            successMultiple: 'Переименовано {oldValue} → {newValue} в заметках: {count}',
+            partialFailure: 'Переименовано {oldValue} → {newValue} в заметках: {count}. Не удалось обновить заметок: {failed}.'
+        },
+        tagOperationSummary: {
+            close: 'Закрыть',
+            updatedNotes: 'Обновлённые заметки',
+            skippedNotes: 'Пропущенные заметки',
+            skippedDescription: 'Эти заметки изменились после предпросмотра или не требовали обновления.',
+            failedNotes: 'Заметки с ошибками',
+            reportSummary: 'Обновлено заметок: {changed} из {total}.'
+        },
+        tagMerge: {
+            title: 'Объединить теги',
+            description: 'Объедините несколько тегов в один. Вложенные теги перемещаются вместе с родительским тегом.',
+            sourcesLabel: 'Теги для объединения',
+            sourcesPlaceholder: 'Теги через запятую',
+            targetLabel: 'Объединить в',
+            targetPlaceholder: 'Целевой тег',
+            preview: 'Предпросмотр объединения',
+            nothingToMerge: 'Нет тегов для объединения. Убедитесь, что теги используются в заметках и отличаются от целевого тега.',
+            previewTitle: 'Объединить в {tag}',
+            previewDescription: 'Объединение {tags} в {tag} изменит заметок: {count}.',
+            confirm: 'Объединить теги',
+            affectedNotes: 'Затронутые заметки',
+            skippedTags: 'Пропущенные теги',
+            skipReasons: {
+                sameAsTarget: 'совпадает с целевым тегом',
+                containsTarget: 'целевой тег вложен в этот тег',
+                nestedInSource: 'объединяется вместе с родительским тегом',
+                noNotes: 'не используется ни в одной заметке'
+            },
+            alreadyTagged: 'Заметки, уже содержащие {tag}',
+            alreadyTaggedDescription: 'Эти заметки будут содержать целевой тег несколько раз.',
+            multipleSources: 'Заметки с несколькими объединяемыми тегами',
+            multipleSourcesDescription: 'Каждая из этих заметок будет содержать целевой тег несколько раз.',
+            nestedCollisions: 'Конфликты вложенных тегов',
+            nestedCollisionsDescription: 'Эти вложенные теги объединятся с уже существующими вложенными тегами.',
+            notFinalized: 'Метаданные не перенесены',
+            notFinalizedDescription: 'Некоторые заметки с этими тегами не были обновлены, поэтому их значки, цвета и ярлыки сохранены.',
+            reportTitle: 'Объединено в {tag}'
+        },
+        tagSplit: {
+            title: 'Разделить тег {tag}',
+            description:
+                '{files} с тегом ровно {tag}: {count}. Каждая заметка переходит в дочерний тег первого подходящего правила. Заметки без подходящего правила сохраняют {tag}.',
+            childPlaceholder: 'Дочерний тег',
+            kinds: {
+                folder: 'Папка',
+                query: 'Запрос фильтра'
+            },
+            folderPlaceholder: 'Путь к папке (включая подпапки)',
+            queryPlaceholder: 'Запрос фильтра поиска',
+            addRule: 'Добавить правило',
+            preview: 'Предпросмотр разделения',
+            nothingMatched: 'Ни одна заметка не подходит под правила.',
+            previewTitle: 'Разделить {tag}',
+            previewDescription: 'В дочерний тег перейдут заметок: {count} из {total} с тегом {tag}.',
+            confirm: 'Разделить тег',
+            invalidRules: 'Правила, которые нельзя проверить',
+            invalidRulesDescription: 'Запросам фильтра нужны условия поиска и готовый кэш заметок.',
+            unmatched: 'Заметки без подходящего правила',
+            unmatchedDescription: 'Эти заметки сохраняют {tag}.',
+            reportTitle: 'Тег {tag} разделён'
+        },
         fileSystem: {
             newFolderTitle: 'Новая папка',
             renameFolderTitle: 'Переименовать папку',
@@ -500,6 +732,11 @@ export const STRINGS_RU = {
             deleteFileAttachmentsTitle: 'Удалить вложения файла?',
             moveFileConflictTitle: 'Конфликт перемещения',
             folderNamePrompt: 'Введите название папки:',
+            newNoteTitle: 'Новая заметка',
+            noteTitlePrompt: 'Введите название заметки:',
+            createNoteButton: 'Создать',
+            newNoteFileNamePrompt:
+                'Шаблон имени файла, например {{date:YYYYMMDDHHmm}} {{title}}. Оставьте пустым для значения по умолчанию.',
             hideInOtherVaultProfiles: 'Скрыть в других профилях хранилища',
             renamePrompt: 'Введите новое название:',
             renameVaultTitle: 'Изменить отображаемое имя хранилища',
@@ -593,6 +830,23 @@ export const STRINGS_RU = {
             applyButton: 'Применить',
             emptyState: 'Ключи свойств не найдены.'
         },
+        smartFolder: {
+            newTitle: 'Новая умная папка',
+            newNestedTitle: 'Новая умная папка в {name}',
+            editTitle: 'Изменить умную папку',
+            nameLabel: 'Название',
+            namePlaceholder: 'Название умной папки',
+            queryLabel: 'Запрос фильтра',
+            queryPlaceholder: '#project AND -#archived',
+            queryDescription:
+                'Использует синтаксис поиска по фильтру. Вложенные умные папки показывают только заметки, которые также соответствуют запросам родительских папок.',
+            create: 'Создать',
+            save: 'Сохранить',
+            emptyName: 'Название умной папки не может быть пустым',
+            duplicateName: 'Здесь уже есть умная папка с таким названием',
+            deleteTitle: 'Удалить умную папку "{name}"?',
+            deleteMessage: 'Вложенные умные папки тоже будут удалены. Заметки не изменяются.'
+        },
         welcome: {
             title: 'Добро пожаловать в {pluginName}',
             introText:
@@ -675,6 +929,9 @@ export const STRINGS_RU = {
             iconPackUpdated: '{provider} обновлён ({version})',
             iconPackRemoved: '{provider} удалён',
             iconPackLoadFailed: 'Не удалось загрузить {provider}',
+            folderMetadataWritten: 'Записаны метаданные для папок: {count}',
+            folderMetadataLoaded: 'Загружены метаданные для папок: {count}',
+            folderMetadataStorageDisabled: 'Сначала выберите хранение в заметке папки или сопутствующем файле в настройках папок',
             hiddenFileReveal: 'Файл скрыт. Включите "Показать скрытые элементы" для отображения'
         },
         confirmations: {
@@ -704,7 +961,62 @@ export const STRINGS_RU = {
             filesAlreadyHaveProperty: '{count} файлов уже имеют это свойство',
             noTagsToClear: 'Нет тегов для очистки',
             fileImported: 'Импортирован 1 файл',
-            filesImported: 'Импортировано файлов: {count}'
+            filesImported: 'Импортировано файлов: {count}',
+            filesMoved: 'Перемещено файлов в {folder}: {count}'
+        }
+    },
+
+    // Undo history
+    undoHistory: {
+        undo: 'Отменить',
+        undone: 'Отменено: {action}',
+        redone: 'Повторено: {action}',
+        nothingToUndo: 'Нечего отменять',
+        nothingToRedo: 'Нечего повторять',
+        failed: 'Не удалось отменить «{action}»: {error}',
+        partial: 'Не удалось восстановить элементов: {count}',
+        actions: {
+            moveFile: 'Переместить «{name}»',
+            moveFiles: 'Переместить файлы: {count}',
+            moveFolder: 'Переместить папку «{name}»',
+            renameFile: 'Переименовать «{name}»',
+            renameFolder: 'Переименовать папку «{name}»',
+            addTag: 'Добавить тег #{tag}',
+            removeTag: 'Удалить тег #{tag}',
+            renameProperty: 'Переименовать свойство {oldKey} → {newKey}',
+            editProperty: 'Изменить свойство {property}',
+            renamePropertyValue: 'Переименовать значение {property} {oldValue} → {newValue}',
+            changeAppearance: 'Изменить оформление «{name}»'
+        }
+    },
+
+    // Vault statistics dashboard
+    statisticsDashboard: {
+        refresh: 'Обновить',
+        loading: 'Ожидание кэша заметок...',
+        unavailable: 'Не удалось вычислить статистику.',
+        empty: 'Нет данных',
+        weekLabel: 'Неделя с {date}',
+        createdCount: 'Создано: {count}',
+        modifiedCount: 'Изменено: {count}',
+        summary: {
+            notes: 'Заметки',
+            words: 'Слова',
+            openTasks: 'Открытые задачи',
+            untagged: 'Заметки без тегов',
+            orphaned: 'Заметки-сироты',
+            orphanedDescription: 'Заметки, на которые не ссылается ни одна другая заметка'
+        },
+        sections: {
+            activity: 'Созданные и изменённые заметки по неделям',
+            wordsPerFolder: 'Слова по папкам',
+            openTasksPerFolder: 'Открытые задачи по папкам',
+            topTags: 'Популярные теги',
+            topProperties: 'Популярные свойства'
+        },
+        legend: {
+            created: 'Созданы',
+            modified: 'Изменены'
         }
     },
 
@@ -729,8 +1041,10 @@ export const STRINGS_RU = {
         revealFile: 'Показать файл', // Command palette: Reveals and selects the currently active file in the navigator (English: Reveal file)
         search: 'Поиск', // Command palette: Toggle search in the file list (English: Search)
         searchVaultRoot: 'Поиск в корне хранилища', // Command palette: Selects the vault root folder and focuses search (English: Search in vault root)
+        createSmartFolder: 'Создать умную папку из поиска',
         toggleDualPane: 'Переключить двухпанельный режим', // Command palette: Toggles between single-pane and dual-pane layout (English: Toggle dual pane layout)
         toggleCalendar: 'Переключить календарь', // Command palette: Toggles showing the calendar overlay in the navigation pane (English: Toggle calendar)
+        openStatistics: 'Открыть статистику хранилища', // Command palette: Opens the vault statistics dashboard (English: Open vault statistics)
         selectVaultProfile: 'Выбрать профиль хранилища', // Command palette: Opens a modal to choose a different vault profile (English: Select vault profile)
         selectVaultProfile1: 'Выбрать профиль хранилища 1', // Command palette: Activates the first vault profile without opening the modal (English: Select vault profile 1)
         selectVaultProfile2: 'Выбрать профиль хранилища 2', // Command palette: Activates the second vault profile without opening the modal (English: Select vault profile 2)
@@ -739,12 +1053,18 @@ export const STRINGS_RU = {
         createNewNote: 'Создать новую заметку', // Command palette: Creates a new note in the currently selected folder (English: Create new note)
         createNewNoteFromTemplate: 'Новая заметка из шаблона', // Command palette: Creates a new note from a template in the currently selected folder (English: Create new note from template)
         moveFiles: 'Переместить файлы', // Command palette: Move selected files to another folder (English: Move files)
+        undo: 'Отменить операцию с файлами', // Command palette: Reverse the most recent file operation (English: Undo file operation)
+        redo: 'Повторить операцию с файлами', // Command palette: Reapply the most recently undone file operation (English: Redo file operation)
         selectNextFile: 'Выбрать следующий файл', // Command palette: Selects the next file in the current view (English: Select next file)
         selectPreviousFile: 'Выбрать предыдущий файл', // Command palette: Selects the previous file in the current view (English: Select previous file)
         convertToFolderNote: 'Конвертировать в заметку папки', // Command palette: Converts the active file into a folder note with a new folder (English: Convert to folder note)
         setAsFolderNote: 'Назначить заметкой папки', // Command palette: Renames the active file to its folder note name (English: Set as folder note)
         detachFolderNote: 'Отвязать заметку папки', // Command palette: Renames the active folder note to a new name (English: Detach folder note)
         pinAllFolderNotes: 'Закрепить все заметки папок', // Command palette: Pins all folder notes to shortcuts (English: Pin all folder notes)
+        writeFolderMetadataFiles: 'Записать метаданные папок в файлы', // Command palette: Writes folder icons, colors, sort overrides and appearances to folder notes or sidecars (English: Write folder metadata to files)
+        reloadFolderMetadataFiles: 'Перезагрузить метаданные папок из файлов', // Command palette: Reads folder metadata from folder notes or sidecars into settings (English: Reload folder metadata from files)
+        exportConfiguration: 'Экспорт пакета конфигурации', // Command palette: Writes a configuration bundle JSON file to the vault root (English: Export configuration bundle)
+        importConfiguration: 'Импорт пакета конфигурации', // Command palette: Opens a dialog to import sections of a configuration bundle (English: Import configuration bundle)
         navigateToFolder: 'Перейти к папке', // Command palette: Navigate to a folder using fuzzy search (English: Navigate to folder)
         navigateToTag: 'Перейти к тегу', // Command palette: Navigate to a tag using fuzzy search (English: Navigate to tag)
         navigateToProperty: 'Перейти к свойству', // Command palette: Navigate to a property key or value using fuzzy search (English: Navigate to property)
@@ -758,6 +1078,8 @@ export const STRINGS_RU = {
         addTag: 'Добавить тег к выбранным файлам', // Command palette: Opens a dialog to add a tag to selected files (English: Add tag to selected files)
         removeTag: 'Удалить тег из выбранных файлов', // Command palette: Opens a dialog to remove a tag from selected files (English: Remove tag from selected files)
         removeAllTags: 'Удалить все теги из выбранных файлов', // Command palette: Removes all tags from selected files (English: Remove all tags from selected files)
+        mergeTags: 'Объединить теги', // Command palette: Opens a dialog to merge several tags into one tag (English: Merge tags)
+        editProperties: 'Изменить свойства выбранных файлов', // Command palette: Opens a dialog to set, append to, or remove a property on selected files (English: Edit properties of selected files)
         openAllFiles: 'Открыть все файлы', // Command palette: Opens all files in the current folder or tag (English: Open all files)
         rebuildCache: 'Пересобрать кэш' // Command palette: Rebuilds the local Notebook Navigator cache (English: Rebuild cache)
     },
@@ -766,6 +1088,7 @@ export const STRINGS_RU = {
     plugin: {
         viewName: 'Notebook Navigator', // Name shown in the view header/tab (English: Notebook Navigator)
         calendarViewName: 'Календарь', // Name shown in the view header/tab (English: Calendar)
+        statisticsViewName: 'Статистика хранилища', // Name shown in the statistics view header/tab (English: Vault statistics)
         ribbonTooltip: 'Notebook Navigator', // Tooltip for the ribbon icon in the left sidebar (English: Notebook Navigator)
         revealInNavigator: 'Показать в Notebook Navigator' // Context menu item to reveal a file in the navigator (English: Reveal in Notebook Navigator)
     },
@@ -864,7 +1187,13 @@ export const STRINGS_RU = {
                     'filename-asc': 'Имя файла (А сверху)',
                     'filename-desc': 'Имя файла (Я сверху)',
                     'property-asc': 'Свойство (А сверху)',
-                    'property-desc': 'Свойство (Я сверху)'
+                    'property-desc': 'Свойство (Я сверху)',
+                    'wordcount-desc': 'По числу слов (больше сверху)',
+                    'wordcount-asc': 'По числу слов (меньше сверху)',
+                    'tasks-desc': 'По открытым задачам (больше сверху)',
+                    'tasks-asc': 'По открытым задачам (меньше сверху)',
+                    'size-desc': 'По размеру файла (крупные сверху)',
+                    'size-asc': 'По размеру файла (мелкие сверху)'
                 },
                 propertyOverride: {
                     asc: 'Свойство ‘{property}’ (А сверху)',
@@ -890,6 +1219,10 @@ export const STRINGS_RU = {
                 name: 'Прокрутка к выбранному файлу при изменениях списка',
                 desc: 'Прокручивать к выбранному файлу при закреплении заметок, показе потомков, изменении внешнего вида папки или выполнении файловых операций.'
             },
+            searchNoteContent: {
+                name: 'Поиск по содержимому заметок',
+                desc: 'Создаёт локальный полнотекстовый индекс текста заметок для фильтра поиска. Включает фильтры `content:` и позволяет простым словам находить текст заметок, а не только имена файлов. Omnisearch не требуется.'
+            },
             includeDescendantNotes: {
                 name: 'Показывать заметки из подпапок / потомков',
                 desc: 'Включать заметки из вложенных подпапок и потомков тегов при просмотре папки или тега.'
@@ -904,11 +1237,13 @@ export const STRINGS_RU = {
             },
             groupNotes: {
                 name: 'Группировка заметок',
-                desc: 'Показывать заголовки между заметками, сгруппированными по дате или папке. При просмотре тегов используются группы по дате, если включена группировка по папкам.',
+                desc: 'Показывать заголовки между заметками, сгруппированными по дате, папке, тегу, первой букве или значению свойства. При просмотре тегов используются группы по дате, если включена группировка по папкам.',
                 options: {
                     none: 'Не группировать',
                     date: 'Группировать по дате',
-                    folder: 'Группировать по папке'
+                    folder: 'Группировать по папке',
+                    tag: 'Группировать по тегу',
+                    alphabetical: 'Группировать по алфавиту'
                 }
             },
             showPinnedGroupHeader: {
@@ -955,6 +1290,11 @@ export const STRINGS_RU = {
                 placeholder: '# Extension=icon\ncpp=LiFileCode\npdf=RaBook',
                 editTooltip: 'Редактировать сопоставления'
             },
+            fileStyleRules: {
+                name: 'Правила стиля файлов',
+                desc: 'Назначайте значок и цвет файлам, соответствующим запросу фильтра поиска, например галочку для .status=done или серый для folder:archive. Правила хранятся в профиле хранилища.',
+                buttonText: 'Изменить правила'
+            },
             optimizeNoteHeight: {
                 name: 'Переменная высота заметок',
                 desc: 'Использовать компактную высоту для закреплённых заметок и заметок без превью.'
@@ -1035,6 +1375,15 @@ export const STRINGS_RU = {
                 name: 'Открывать новые заметки в новой вкладке',
                 desc: 'Если включено, команда «Создать новую заметку» открывает заметки в новой вкладке. Если выключено, заметки заменяют текущую вкладку.'
             },
+            newNoteFileNamePattern: {
+                name: 'Имя файла новых заметок',
+                desc: 'Шаблон имени файла для новых заметок. Поддерживает {{date}}, {{date:FORMAT}}, {{time}} и {{title}}. Папки могут переопределить его в меню папки. Оставьте пустым для «Без названия».',
+                placeholder: '{{date:YYYY-MM-DD}} {{title}}'
+            },
+            promptForNewNoteTitle: {
+                name: 'Спрашивать название при создании заметок',
+                desc: 'Перед созданием заметки запрашивается название. Оно подставляется в {{title}} шаблона или становится именем файла, если шаблон не задан.'
+            },
             autoRevealActiveNote: {
                 name: 'Автопоказ активной заметки',
                 desc: 'Автоматически показывать заметки, открытые из быстрого переключателя, ссылок или поиска.'
@@ -1211,6 +1560,11 @@ export const STRINGS_RU = {
                 desc: 'Выбор файла шаблона показывает заметки из этой папки.',
                 placeholder: 'Templates'
             },
+            noteTemplateRules: {
+                name: 'Правила шаблонов заметок',
+                desc: 'Применять шаблон и шаблон имени файла к заметкам, созданным из папки, тега или свойства.',
+                buttonText: 'Изменить правила'
+            },
             calendarCustomFilePattern: {
                 name: 'Ежедневные заметки',
                 desc: 'Формат пути с использованием формата даты Moment. Заключайте названия подпапок в скобки, напр. [Work]/YYYY. Нажмите на значок шаблона, чтобы задать шаблон. Укажите расположение папки шаблонов в Общие > Шаблоны.',
@@ -1265,6 +1619,16 @@ export const STRINGS_RU = {
                 notice: 'Все настройки сброшены. Перезапустите Obsidian или переоткройте Notebook Navigator для применения.',
                 error: 'Не удалось сбросить настройки.'
             },
+            configBundle: {
+                name: 'Пакет конфигурации',
+                desc: 'Экспортируйте профили хранилища, ярлыки, стили, вид, переопределения сортировки, сопоставления значков и сочетания клавиш в JSON-файл в корне хранилища или импортируйте пакет, чтобы настроить другое хранилище.',
+                exportButton: 'Экспортировать',
+                importButton: 'Импортировать',
+                exportSuccess: 'Конфигурация экспортирована в {filename}',
+                exportFailed: 'Не удалось экспортировать конфигурацию.',
+                importSuccess: 'Конфигурация импортирована.',
+                importFailed: 'Не удалось импортировать конфигурацию.'
+            },
             multiSelectModifier: {
                 name: 'Модификатор множественного выбора',
                 desc: 'Выберите, какая клавиша-модификатор переключает множественный выбор. При выборе Option/Alt, клик с Cmd/Ctrl открывает заметки в новой вкладке.',
@@ -1289,6 +1653,14 @@ export const STRINGS_RU = {
                 name: 'Ctrl+Enter',
                 desc: 'Открыть выбранный файл в новой вкладке, разделении или окне при нажатии Ctrl+Enter.'
             },
+            vimKeyboardNavigation: {
+                name: 'Последовательности клавиш в стиле Vim',
+                desc: 'gg и G переходят к первому и последнему элементу, dd удаляет, zc и zo сворачивают и разворачивают, / открывает поиск. Пользовательские горячие клавиши имеют приоритет.'
+            },
+            typeAheadFind: {
+                name: 'Поиск при вводе',
+                desc: 'Ввод букв переходит к первой папке, тегу или заметке, имя которых начинается с введённого текста. Недоступно при включённых последовательностях в стиле Vim.'
+            },
             fileVisibility: {
                 name: 'Показывать типы файлов (профиль хранилища)',
                 desc: 'Фильтруйте, какие типы файлов отображаются в навигаторе. Типы файлов, не поддерживаемые Obsidian, могут открываться во внешних приложениях.',
@@ -1412,6 +1784,10 @@ export const STRINGS_RU = {
                     none: 'Нет'
                 }
             },
+            showTaskProgress: {
+                name: 'Прогресс задач',
+                desc: 'Показывать полосу выполнения и ближайший срок для заметок с задачами.'
+            },
             propertyFields: {
                 name: 'Ключи свойств (профиль хранилища)',
                 desc: 'Ключи свойств метаданных с настройкой видимости для каждого ключа в навигации и списке файлов.',
@@ -1524,6 +1900,15 @@ export const STRINGS_RU = {
                     alphaDesc: 'От Я до А'
                 }
             },
+            folderMetadataStorage: {
+                name: 'Хранение метаданных папок',
+                desc: 'Также сохранять значки, цвета, переопределения сортировки и вид папок в хранилище, чтобы они переносились вместе с папкой через синхронизацию или git. Изменения синхронизируются в обе стороны. Выполните «Записать метаданные папок в файлы», чтобы перенести существующие метаданные.',
+                options: {
+                    settings: 'Только настройки плагина',
+                    folderNote: 'Frontmatter заметки папки',
+                    sidecar: 'Сопутствующий файл .folder.yml'
+                }
+            },
             showNoteCount: {
                 name: 'Показывать количество заметок',
                 desc: 'Отображать количество заметок рядом с каждой папкой и тегом.'
@@ -1639,6 +2024,11 @@ export const STRINGS_RU = {
                 name: 'Показать папку свойств',
                 desc: 'Отображать «Свойства» как сворачиваемую папку.'
             },
+            propertyHierarchies: {
+                name: 'Иерархии свойств',
+                desc: 'Вкладывать заметки в виртуальные папки по значениям свойств, один уровень на ключ. Одна иерархия на строку в формате `Name: key > key > key`. Ключи также должны быть указаны в ключах свойств.',
+                placeholder: 'Research: type > status > project'
+            },
             hiddenTags: {
                 name: 'Скрыть теги (профиль хранилища)',
                 desc: 'Список шаблонов тегов через запятую. Шаблоны имён: тег* (начинается с), *тег (заканчивается на). Шаблоны путей: архив (тег и потомки), архив/* (только потомки), проекты/*/черновики (подстановочный знак в середине).',
@@ -46,7 +46,10 @@ export const STRINGS_TH = {
         pinnedSection: 'ปักหมุด',
         notesSection: 'โน้ต',
         filesSection: 'ไฟล์',
-        hiddenItemAriaLabel: '{name} (ซ่อนอยู่)'
+        noPropertyValue: 'ไม่มีค่า',
+        hiddenItemAriaLabel: '{name} (ซ่อนอยู่)',
+        taskProgressAriaLabel: 'เสร็จแล้ว {completed} จาก {total} งาน',
+        taskDue: 'ครบกำหนด {date}'
     },
 
     // Tag list
@@ -61,6 +64,7 @@ export const STRINGS_TH = {
         recentNotesHeader: 'โน้ตล่าสุด',
         recentFilesHeader: 'ไฟล์ล่าสุด',
         properties: 'คุณสมบัติ',
+        smartFolders: 'โฟลเดอร์อัจฉริยะ',
         reorderRootFoldersTitle: 'จัดเรียงการนำทางใหม่',
         reorderRootFoldersHint: 'ใช้ลูกศรหรือลากเพื่อจัดเรียงใหม่',
         vaultRootLabel: 'ห้องนิรภัย',
@@ -130,6 +134,7 @@ export const STRINGS_TH = {
         mobileBackToNavigation: 'กลับไปการนำทาง',
         changeSortOrder: 'เปลี่ยนลำดับการเรียง',
         defaultSort: 'ค่าเริ่มต้น',
+        customSortChain: 'ลำดับการเรียงแบบกำหนดเอง...',
         showFolders: 'แสดงการนำทาง',
         reorderRootFolders: 'จัดเรียงการนำทางใหม่',
         finishRootFolderReorder: 'เสร็จสิ้น',
@@ -170,6 +175,15 @@ export const STRINGS_TH = {
                         '`-word` ไม่รวมโน้ตที่มี "word" ในชื่อไฟล์'
                     ]
                 },
+                content: {
+                    title: 'เนื้อหาโน้ต',
+                    items: [
+                        '`content:คำ` ค้นหาโน้ตที่ข้อความมีคำที่ขึ้นต้นด้วย "คำ"',
+                        '`content:"สอง คำ"` ทุกคำต้องปรากฏในข้อความโน้ต',
+                        '`-content:คำ` ยกเว้นโน้ตที่ข้อความมีคำที่ขึ้นต้นด้วย "คำ"',
+                        'ต้องเปิด **ค้นหาเนื้อหาโน้ต** ในการตั้งค่าแผงรายการ เมื่อเปิดใช้ คำทั่วไปจะตรงกับข้อความโน้ตด้วย'
+                    ]
+                },
                 tags: {
                     title: 'แท็ก',
                     items: [
@@ -193,6 +207,8 @@ export const STRINGS_TH = {
                         '`."Reading Status"="In Progress"` คีย์และค่าที่มีช่องว่างต้องอยู่ในเครื่องหมายคำพูดคู่',
                         '`-.key` ไม่รวมโน้ตที่มีคีย์คุณสมบัติ',
                         '`-.key=value` ไม่รวมโน้ตที่มีค่าคุณสมบัติ',
+                        '`.key>=3`, `.key<2026-11-01` เปรียบเทียบคุณสมบัติตัวเลขหรือวันที่ด้วย `>`, `>=`, `<`, `<=`',
+                        '`.key:thisweek`, `.key:1..5`, `.key:2026-11-01..2026-11-30` จับคู่วันที่แบบสัมพัทธ์ วันที่ ตัวเลข หรือช่วงแบบรวมปลาย',
                         'Cmd/Ctrl+คลิกคุณสมบัติเพื่อเพิ่มด้วย AND Cmd/Ctrl+Shift+คลิกเพื่อเพิ่มด้วย OR'
                     ]
                 },
@@ -201,6 +217,8 @@ export const STRINGS_TH = {
                     items: [
                         '`has:task` รวมบันทึกที่มีงานที่ยังไม่เสร็จ',
                         '`-has:task` ไม่รวมบันทึกที่มีงานที่ยังไม่เสร็จ',
+                        '`due:overdue`, `due:today`, `due:thisweek` รวมโน้ตที่มีงานค้างซึ่งครบกำหนดในช่วง (วันที่ `📅` ของ Tasks หรือฟิลด์ `[due:: ]` ของ Dataview)',
+                        '`due:2026-11-01..2026-11-30` จับคู่วันครบกำหนดหรือช่วง `-due:...` ไม่รวมโน้ตที่มีงานค้างที่ตรงกัน',
                         '`folder:meetings` รวมบันทึกที่ชื่อโฟลเดอร์มี `meetings`',
                         '`folder:/work/meetings` รวมบันทึกเฉพาะใน `work/meetings` (ไม่รวมโฟลเดอร์ย่อย)',
                         '`folder:/` รวมบันทึกเฉพาะในรากของห้องนิรภัย',
@@ -212,13 +230,13 @@ export const STRINGS_TH = {
                     ]
                 },
                 connectors: {
-                    title: 'พฤติกรรม AND/OR',
+                    title: 'AND/OR/NOT และการจัดกลุ่ม',
                     items: [
-                        '`AND` และ `OR` เป็นตัวดำเนินการเฉพาะในการค้นหาที่มีแท็กและคุณสมบัติเท่านั้น',
-                        'การค้นหาเฉพาะแท็กและคุณสมบัติประกอบด้วยตัวกรองแท็กและคุณสมบัติเท่านั้น: `#tag`, `-#tag`, `#`, `-#`, `.key`, `-.key`, `.key=value`, `-.key=value`',
-                        'หากคิวรีรวมชื่อ วันที่ (`@...`) ตัวกรองงาน (`has:task`) ตัวกรองโฟลเดอร์ (`folder:...`) หรือตัวกรองนามสกุล (`ext:...`) `AND` และ `OR` จะถูกค้นหาเป็นคำ',
-                        'ตัวอย่างการค้นหาด้วยตัวดำเนินการ: `#work OR .status=started`',
-                        'ตัวอย่างคิวรีผสม: `#work OR ext:md` (`OR` ถูกค้นหาในชื่อไฟล์)'
+                        '`AND`, `OR` และ `NOT` เป็นตัวดำเนินการเมื่อคำค้นมีตัวกรอง (`#tag`, `.key`, `@date`, `has:task`, `due:`, `folder:`, `ext:`, `content:`) หรือวงเล็บ',
+                        '`( )` จัดกลุ่มเงื่อนไข: `(folder:Projects OR folder:Areas) AND #active AND -ext:pdf`',
+                        '`NOT เงื่อนไข` หรือ `-เงื่อนไข` ยกเว้นเงื่อนไข `-( )` ยกเว้นทั้งกลุ่ม',
+                        '`NOT` มีลำดับความสำคัญสูงกว่า `AND` และ `AND` สูงกว่า `OR` เงื่อนไขที่อยู่ติดกันใช้ AND โดยปริยาย',
+                        'คำค้นที่มีแต่คำและไม่มีวงเล็บจะจับคู่ `AND`, `OR` และ `NOT` เป็นคำในชื่อไฟล์ (เช่น `black or white`)'
                     ]
                 },
                 dates: {
@@ -292,12 +310,14 @@ export const STRINGS_TH = {
             addTag: 'เพิ่มแท็ก',
             removeTag: 'นำแท็กออก',
             removeAllTags: 'นำแท็กทั้งหมดออก',
+            editProperties: 'แก้ไขคุณสมบัติ',
             changeIcon: 'เปลี่ยนไอคอน',
             changeColor: 'เปลี่ยนสี'
         },
         folder: {
             newNote: 'โน้ตใหม่',
             newNoteFromTemplate: 'โน้ตใหม่จากเทมเพลต',
+            newNoteFileName: 'ชื่อไฟล์โน้ตใหม่...',
             newFolder: 'โฟลเดอร์ใหม่',
             newCanvas: 'Canvas ใหม่',
             newBase: 'Base ใหม่',
@@ -322,14 +342,24 @@ export const STRINGS_TH = {
             changeIcon: 'เปลี่ยนไอคอน',
             changeColor: 'เปลี่ยนสี',
             changeBackground: 'เปลี่ยนพื้นหลัง',
+            mergeTags: 'รวมแท็ก...',
+            splitTag: 'แยกแท็ก...',
             showTag: 'แสดงแท็ก',
             hideTag: 'ซ่อนแท็ก'
         },
         property: {
             addKey: 'กำหนดค่าคีย์คุณสมบัติ',
             renameKey: 'เปลี่ยนชื่อคุณสมบัติ',
+            renameValue: 'เปลี่ยนชื่อค่า',
+            mergeValue: 'รวมเข้ากับค่า...',
             deleteKey: 'ลบคุณสมบัติ'
         },
+        smartFolder: {
+            newSmartFolder: 'โฟลเดอร์อัจฉริยะใหม่',
+            newNestedSmartFolder: 'โฟลเดอร์อัจฉริยะซ้อนใหม่',
+            editSmartFolder: 'แก้ไขโฟลเดอร์อัจฉริยะ',
+            deleteSmartFolder: 'ลบโฟลเดอร์อัจฉริยะ'
+        },
         navigation: {
             addSeparator: 'เพิ่มตัวคั่น',
             removeSeparator: 'นำตัวคั่นออก'
@@ -355,11 +385,25 @@ export const STRINGS_TH = {
     folderAppearance: {
         standardPreset: 'มาตรฐาน',
         compactPreset: 'กะทัดรัด',
+        gridPreset: 'ตาราง',
+        boardPreset: 'บอร์ด...',
+        boardPresetOption: (property: string) => `บอร์ด (${property})`,
+        boardPropertyAction: 'คอลัมน์บอร์ดตามคุณสมบัติ',
+        boardPropertyPlaceholder: 'คีย์คุณสมบัติ',
+        tileSize: 'ขนาดไทล์',
+        tileSizeOptions: {
+            small: 'ไทล์ขนาดเล็ก',
+            medium: 'ไทล์ขนาดกลาง',
+            large: 'ไทล์ขนาดใหญ่'
+        },
         defaultSuffix: '(ค่าเริ่มต้น)',
         defaultLabel: 'ค่าเริ่มต้น',
         titleRows: 'แถวชื่อเรื่อง',
         previewRows: 'แถวตัวอย่าง',
         groupBy: 'จัดกลุ่มตาม',
+        groupByPropertyAction: 'จัดกลุ่มตามคุณสมบัติ...',
+        groupByPropertyPlaceholder: 'คีย์คุณสมบัติ',
+        groupByPropertyOption: (property: string) => `จัดกลุ่มตามคุณสมบัติ (${property})`,
         defaultTitleOption: (rows: number) => `แถวชื่อเรื่องเริ่มต้น (${rows})`,
         defaultPreviewOption: (rows: number) => `แถวตัวอย่างเริ่มต้น (${rows})`,
         defaultGroupOption: (groupLabel: string) => `การจัดกลุ่มเริ่มต้น (${groupLabel})`,
@@ -383,6 +427,88 @@ export const STRINGS_TH = {
         fileIconRuleEditor: {
             addRuleAria: 'เพิ่มกฎ'
         },
+        sortChain: {
+            title: 'ลำดับการเรียงแบบกำหนดเอง',
+            description: 'โน้ตจะเรียงตามคีย์แรก คีย์ถัดไปแต่ละคีย์จะเรียงโน้ตที่มีค่าเท่ากันในคีย์ก่อนหน้า',
+            propertyPlaceholder: 'คีย์คุณสมบัติ',
+            ascending: 'น้อยไปมาก',
+            descending: 'มากไปน้อย',
+            addKey: 'เพิ่มคีย์การเรียง',
+            moveUp: 'ย้ายขึ้น',
+            moveDown: 'ย้ายลง',
+            save: 'บันทึก',
+            fields: {
+                modified: 'วันที่แก้ไข',
+                created: 'วันที่สร้าง',
+                title: 'ชื่อเรื่อง',
+                filename: 'ชื่อไฟล์',
+                property: 'คุณสมบัติ',
+                wordcount: 'จำนวนคำ',
+                tasks: 'งานที่ยังไม่เสร็จ',
+                size: 'ขนาดไฟล์'
+            }
+        },
+        noteTemplateRules: {
+            title: 'กฎเทมเพลตโน้ต',
+            description:
+                'โน้ตที่สร้างจากโฟลเดอร์ แท็ก หรือพร็อพเพอร์ตี้จะใช้เทมเพลตและชื่อไฟล์จากกฎแรกที่ตรงกัน ชื่อไฟล์รองรับ {{date}}, {{date:FORMAT}}, {{time}} และ {{title}}',
+            folderPatternPlaceholder: 'พาธโฟลเดอร์ เช่น Meetings หรือ Projects/*/Notes',
+            tagPatternPlaceholder: 'แท็ก เช่น meeting',
+            propertyPatternPlaceholder: 'พร็อพเพอร์ตี้ เช่น type หรือ type=meeting',
+            templatePlaceholder: 'ไฟล์เทมเพลต',
+            fileNamePlaceholder: 'รูปแบบชื่อไฟล์ เช่น {{date}} Meeting',
+            emptyState: 'ไม่มีกฎ โน้ตใหม่จะถูกสร้างแบบว่าง',
+            addRule: 'เพิ่มกฎ',
+            moveUp: 'เลื่อนขึ้น',
+            moveDown: 'เลื่อนลง',
+            save: 'บันทึก',
+            targets: {
+                folder: 'โฟลเดอร์',
+                tag: 'แท็ก',
+                property: 'พร็อพเพอร์ตี้'
+            }
+        },
+        fileStyleRules: {
+            title: 'กฎสไตล์ไฟล์',
+            description:
+                'ไฟล์ที่ตรงกับคิวรีของกฎจะได้รับไอคอนและสีของกฎนั้น คิวรีใช้ไวยากรณ์ตัวกรองการค้นหา กฎจะถูกตรวจจากบนลงล่าง: กฎแรกที่ตรงและมีไอคอนจะกำหนดไอคอน และกฎแรกที่ตรงและมีสีจะกำหนดสี ไอคอนและสีที่ตั้งไว้บนไฟล์โดยตรงมีลำดับความสำคัญก่อน',
+            queryPlaceholder: 'คิวรีตัวกรอง เช่น .status=done, #meeting หรือ folder:archive',
+            emptyState: 'ไม่มีกฎ',
+            setIcon: 'ตั้งไอคอน',
+            setColor: 'ตั้งสี',
+            addRule: 'เพิ่มกฎ',
+            moveUp: 'เลื่อนขึ้น',
+            moveDown: 'เลื่อนลง',
+            save: 'บันทึก'
+        },
+        configBundleImport: {
+            title: 'นำเข้าชุดการกำหนดค่า',
+            description: 'เลือกไฟล์ JSON ของชุดจากห้องนิรภัย แล้วเลือกส่วนที่จะนำเข้า ค่าที่นำเข้าจะถูกตรวจสอบเหมือนการตั้งค่าปกติ',
+            filePlaceholder: 'พาธของชุด เช่น notebook-navigator-config.json',
+            sectionsLabel: 'ส่วนที่จะนำเข้า',
+            strategyLabel: 'การตั้งค่าที่มีอยู่',
+            strategies: {
+                merge: 'รวม โดยรายการในชุดมีผลเหนือกว่า',
+                replace: 'แทนที่ส่วนที่เลือก'
+            },
+            bundleInfo: 'ส่งออกเมื่อ {date} จาก Notebook Navigator {version}',
+            importButton: 'นำเข้า',
+            sections: {
+                vaultProfiles: 'โปรไฟล์ห้องนิรภัยและทางลัด',
+                styling: 'ไอคอนและสีของโฟลเดอร์ แท็ก และพร็อพเพอร์ตี้',
+                appearances: 'รูปลักษณ์ของโฟลเดอร์และแท็ก',
+                sortOverrides: 'การเรียงลำดับที่กำหนดเอง',
+                iconMaps: 'แผนที่ไอคอนและไอคอนอินเทอร์เฟซ',
+                keyboardShortcuts: 'แป้นพิมพ์ลัด'
+            },
+            errors: {
+                invalidJson: 'ไฟล์ไม่ใช่ JSON ที่ถูกต้อง',
+                invalidFormat: 'ไฟล์ไม่ใช่ชุดการกำหนดค่าของ Notebook Navigator',
+                unsupportedVersion: 'ชุดนี้สร้างโดย Notebook Navigator เวอร์ชันที่ใหม่กว่า',
+                empty: 'ชุดไม่มีส่วนที่นำเข้าได้',
+                readFailed: 'ไม่สามารถอ่านไฟล์ได้'
+            }
+        },
         interfaceIcons: {
             title: 'ไอคอนอินเทอร์เฟซ',
             fileItemsSection: 'รายการไฟล์',
@@ -413,6 +539,8 @@ export const STRINGS_TH = {
                 'nav-properties': 'คุณสมบัติ',
                 'nav-property': 'คุณสมบัติ',
                 'nav-property-value': 'ค่า',
+                'nav-smart-folders': 'โฟลเดอร์อัจฉริยะ',
+                'nav-smart-folder': 'โฟลเดอร์อัจฉริยะ',
                 'list-pinned': 'รายการที่ปักหมุด',
                 'file-unfinished-task': 'งานที่ยังไม่เสร็จ',
                 'file-word-count': 'จำนวนคำ'
@@ -490,6 +618,108 @@ export const STRINGS_TH = {
             deleteSettingsUpdateFailed: 'ลบคุณสมบัติ {property} แล้ว ไม่สามารถอัปเดตการตั้งค่าได้',
             invalidKeyName: 'กรุณาป้อนชื่อคุณสมบัติที่ถูกต้อง'
         },
+        propertyValueEdit: {
+            title: 'แก้ไขคุณสมบัติ',
+            description: 'เปลี่ยนคุณสมบัติใน {count} {files}',
+            keyLabel: 'คุณสมบัติ',
+            keyPlaceholder: 'ชื่อคุณสมบัติ',
+            modeLabel: 'การดำเนินการ',
+            modes: {
+                set: 'ตั้งค่า',
+                append: 'เพิ่มลงในรายการ',
+                remove: 'ลบคุณสมบัติ'
+            },
+            valueLabel: 'ค่า',
+            valuePlaceholder: 'ค่า',
+            emptyValue: '(ว่าง)',
+            previewTitle: 'ตัวอย่าง',
+            changeSummary: 'โน้ต {count} จาก {total} รายการจะเปลี่ยนแปลง',
+            noChanges: 'ไม่มีโน้ตที่ต้องเปลี่ยนแปลง',
+            apply: 'ใช้',
+            successSingle: 'อัปเดตคุณสมบัติ {property} ในโน้ต 1 รายการแล้ว',
+            successMultiple: 'อัปเดตคุณสมบัติ {property} ในโน้ต {count} รายการแล้ว',
+            partialFailure: 'อัปเดตคุณสมบัติ {property} ในโน้ต {count} รายการแล้ว ไม่สามารถอัปเดตโน้ต {failed} รายการ'
+        },
+        propertyValueRename: {
+            renameTitle: 'เปลี่ยนชื่อค่า {value}',
+            renameWarning: 'การเปลี่ยนชื่อ {property}: {value} จะแก้ไข {count} {files} การป้อนค่าที่มีอยู่แล้วจะรวมทั้งสองค่าเข้าด้วยกัน',
+            newValuePrompt: 'ค่าใหม่',
+            newValuePlaceholder: 'ป้อนค่าใหม่',
+            confirmRename: 'เปลี่ยนชื่อค่า',
+            mergeTitle: 'รวมค่า {value}',
+            mergeWarning: 'การรวม {oldValue} เข้ากับ {newValue} จะแก้ไข {count} {files} {newValue} จะคงไอคอน สี และทางลัดของตนเองไว้',
+            mergePlaceholder: 'รวม {value} เข้ากับ...',
+            mergeInstruction: 'เพื่อรวม',
+            confirmMerge: 'รวมค่า',
+            noOtherValues: 'คุณสมบัติ {property} ไม่มีค่าอื่น',
+            nestedTarget: 'ไม่สามารถเปลี่ยนชื่อค่าเป็นค่าที่ซ้อนอยู่ภายในได้',
+            invalidValue: 'ป้อนค่าที่ถูกต้อง',
+            noChanges: '{oldValue} → {newValue} (ไม่มีการเปลี่ยนแปลง)',
+            successSingle: 'เปลี่ยนชื่อ {oldValue} → {newValue} ในโน้ต 1 รายการแล้ว',
+            successMultiple: 'เปลี่ยนชื่อ {oldValue} → {newValue} ในโน้ต {count} รายการแล้ว',
+            partialFailure: 'เปลี่ยนชื่อ {oldValue} → {newValue} ในโน้ต {count} รายการแล้ว ไม่สามารถอัปเดตโน้ต {failed} รายการ'
+        },
+        tagOperationSummary: {
+            close: 'ปิด',
+            updatedNotes: 'โน้ตที่อัปเดตแล้ว',
+            skippedNotes: 'โน้ตที่ข้าม',
+            skippedDescription: 'โน้ตเหล่านี้เปลี่ยนแปลงหลังการแสดงตัวอย่างหรือไม่มีสิ่งที่ต้องอัปเดต',
+            failedNotes: 'โน้ตที่ล้มเหลว',
+            reportSummary: 'อัปเดตโน้ต {changed} จาก {total} รายการแล้ว'
+        },
+        tagMerge: {
+            title: 'รวมแท็ก',
+            description: 'รวมหลายแท็กเป็นแท็กเดียว แท็กที่ซ้อนกันจะย้ายไปพร้อมกับแท็กหลัก',
+            sourcesLabel: 'แท็กที่จะรวม',
+            sourcesPlaceholder: 'แท็กคั่นด้วยจุลภาค',
+            targetLabel: 'รวมเข้ากับ',
+            targetPlaceholder: 'แท็กปลายทาง',
+            preview: 'แสดงตัวอย่างการรวม',
+            nothingToMerge: 'ไม่มีแท็กที่จะรวม ตรวจสอบว่าแท็กถูกใช้ในโน้ตและแตกต่างจากแท็กปลายทาง',
+            previewTitle: 'รวมเข้ากับ {tag}',
+            previewDescription: 'การรวม {tags} เข้ากับ {tag} จะแก้ไขโน้ต {count} รายการ',
+            confirm: 'รวมแท็ก',
+            affectedNotes: 'โน้ตที่ได้รับผลกระทบ',
+            skippedTags: 'แท็กที่ข้าม',
+            skipReasons: {
+                sameAsTarget: 'เหมือนกับแท็กปลายทาง',
+                containsTarget: 'แท็กปลายทางซ้อนอยู่ภายใต้แท็กนี้',
+                nestedInSource: 'รวมไปพร้อมกับแท็กหลัก',
+                noNotes: 'ไม่ได้ใช้ในโน้ตใดเลย'
+            },
+            alreadyTagged: 'โน้ตที่มี {tag} อยู่แล้ว',
+            alreadyTaggedDescription: 'โน้ตเหล่านี้จะมีแท็กปลายทางมากกว่าหนึ่งครั้ง',
+            multipleSources: 'โน้ตที่มีแท็กที่จะรวมหลายแท็ก',
+            multipleSourcesDescription: 'โน้ตแต่ละรายการนี้จะมีแท็กปลายทางมากกว่าหนึ่งครั้ง',
+            nestedCollisions: 'แท็กซ้อนที่ชนกัน',
+            nestedCollisionsDescription: 'แท็กซ้อนเหล่านี้จะรวมเข้ากับแท็กซ้อนที่มีอยู่แล้ว',
+            notFinalized: 'ไม่ได้ย้ายข้อมูลเมตา',
+            notFinalizedDescription: 'โน้ตบางรายการที่มีแท็กเหล่านี้ไม่ได้รับการอัปเดต จึงคงไอคอน สี และทางลัดไว้',
+            reportTitle: 'รวมเข้ากับ {tag} แล้ว'
+        },
+        tagSplit: {
+            title: 'แยกแท็ก {tag}',
+            description:
+                '{files} ที่มีแท็ก {tag} พอดี {count} รายการ โน้ตแต่ละรายการจะย้ายไปยังแท็กย่อยของกฎแรกที่ตรงกัน โน้ตที่ไม่ตรงกับกฎใดจะคง {tag} ไว้',
+            childPlaceholder: 'แท็กย่อย',
+            kinds: {
+                folder: 'โฟลเดอร์',
+                query: 'คิวรีตัวกรอง'
+            },
+            folderPlaceholder: 'พาธโฟลเดอร์ (รวมโฟลเดอร์ย่อย)',
+            queryPlaceholder: 'คิวรีตัวกรองการค้นหา',
+            addRule: 'เพิ่มกฎ',
+            preview: 'แสดงตัวอย่างการแยก',
+            nothingMatched: 'ไม่มีโน้ตที่ตรงกับกฎ',
+            previewTitle: 'แยก {tag}',
+            previewDescription: 'โน้ต {count} จาก {total} รายการที่มี {tag} จะย้ายไปยังแท็กย่อย',
+            confirm: 'แยกแท็ก',
+            invalidRules: 'กฎที่ไม่สามารถประเมินได้',
+            invalidRulesDescription: 'คิวรีตัวกรองต้องมีเงื่อนไขการค้นหาและแคชโน้ตที่พร้อมใช้งาน',
+            unmatched: 'โน้ตที่ไม่มีกฎที่ตรงกัน',
+            unmatchedDescription: 'โน้ตเหล่านี้คง {tag} ไว้',
+            reportTitle: 'แยก {tag} แล้ว'
+        },
         fileSystem: {
             newFolderTitle: 'โฟลเดอร์ใหม่',
             renameFolderTitle: 'เปลี่ยนชื่อโฟลเดอร์',
@@ -499,6 +729,10 @@ export const STRINGS_TH = {
             deleteFileAttachmentsTitle: 'ลบไฟล์แนบ?',
             moveFileConflictTitle: 'ข้อขัดแย้งการย้าย',
             folderNamePrompt: 'กรอกชื่อโฟลเดอร์:',
+            newNoteTitle: 'โน้ตใหม่',
+            noteTitlePrompt: 'ป้อนชื่อโน้ต:',
+            createNoteButton: 'สร้าง',
+            newNoteFileNamePrompt: 'รูปแบบชื่อไฟล์ เช่น {{date:YYYYMMDDHHmm}} {{title}} เว้นว่างเพื่อใช้ค่าเริ่มต้น',
             hideInOtherVaultProfiles: 'ซ่อนในโปรไฟล์ห้องนิรภัยอื่น',
             renamePrompt: 'กรอกชื่อใหม่:',
             renameVaultTitle: 'เปลี่ยนชื่อแสดงห้องนิรภัย',
@@ -592,6 +826,22 @@ export const STRINGS_TH = {
             applyButton: 'นำไปใช้',
             emptyState: 'ไม่พบคีย์คุณสมบัติ'
         },
+        smartFolder: {
+            newTitle: 'โฟลเดอร์อัจฉริยะใหม่',
+            newNestedTitle: 'โฟลเดอร์อัจฉริยะใหม่ใน {name}',
+            editTitle: 'แก้ไขโฟลเดอร์อัจฉริยะ',
+            nameLabel: 'ชื่อ',
+            namePlaceholder: 'ชื่อโฟลเดอร์อัจฉริยะ',
+            queryLabel: 'คิวรีตัวกรอง',
+            queryPlaceholder: '#project AND -#archived',
+            queryDescription: 'ใช้ไวยากรณ์การค้นหาแบบตัวกรอง โฟลเดอร์อัจฉริยะที่ซ้อนอยู่จะแสดงเฉพาะโน้ตที่ตรงกับคิวรีของโฟลเดอร์แม่ด้วย',
+            create: 'สร้าง',
+            save: 'บันทึก',
+            emptyName: 'ชื่อโฟลเดอร์อัจฉริยะต้องไม่ว่าง',
+            duplicateName: 'มีโฟลเดอร์อัจฉริยะชื่อนี้อยู่แล้วที่นี่',
+            deleteTitle: 'ลบโฟลเดอร์อัจฉริยะ "{name}" หรือไม่?',
+            deleteMessage: 'โฟลเดอร์อัจฉริยะที่ซ้อนอยู่จะถูกลบด้วย โน้ตจะไม่ถูกเปลี่ยนแปลง'
+        },
         welcome: {
             title: 'ยินดีต้อนรับสู่ {pluginName}',
             introText:
@@ -674,6 +924,9 @@ export const STRINGS_TH = {
             iconPackUpdated: 'อัปเดต {provider} แล้ว ({version})',
             iconPackRemoved: 'นำ {provider} ออกแล้ว',
             iconPackLoadFailed: 'โหลด {provider} ล้มเหลว',
+            folderMetadataWritten: 'เขียนข้อมูลเมตาของ {count} โฟลเดอร์แล้ว',
+            folderMetadataLoaded: 'โหลดข้อมูลเมตาของ {count} โฟลเดอร์แล้ว',
+            folderMetadataStorageDisabled: 'เลือกการเก็บในโน้ตโฟลเดอร์หรือไฟล์ประกอบในการตั้งค่าโฟลเดอร์ก่อน',
             hiddenFileReveal: 'ไฟล์ซ่อนอยู่ เปิดใช้งาน "แสดงรายการที่ซ่อน" เพื่อแสดง'
         },
         confirmations: {
@@ -703,7 +956,62 @@ export const STRINGS_TH = {
             filesAlreadyHaveProperty: '{count} ไฟล์มีคุณสมบัตินี้อยู่แล้ว',
             noTagsToClear: 'ไม่มีแท็กให้ล้าง',
             fileImported: 'นำเข้า 1 ไฟล์แล้ว',
-            filesImported: 'นำเข้า {count} ไฟล์แล้ว'
+            filesImported: 'นำเข้า {count} ไฟล์แล้ว',
+            filesMoved: 'ย้าย {count} ไฟล์ไปยัง {folder} แล้ว'
+        }
+    },
+
+    // Undo history
+    undoHistory: {
+        undo: 'เลิกทำ',
+        undone: 'เลิกทำแล้ว: {action}',
+        redone: 'ทำซ้ำแล้ว: {action}',
+        nothingToUndo: 'ไม่มีสิ่งที่จะเลิกทำ',
+        nothingToRedo: 'ไม่มีสิ่งที่จะทำซ้ำ',
+        failed: 'ไม่สามารถย้อนกลับ "{action}": {error}',
+        partial: 'ไม่สามารถกู้คืน {count} รายการ',
+        actions: {
+            moveFile: 'ย้าย "{name}"',
+            moveFiles: 'ย้าย {count} ไฟล์',
+            moveFolder: 'ย้ายโฟลเดอร์ "{name}"',
+            renameFile: 'เปลี่ยนชื่อ "{name}"',
+            renameFolder: 'เปลี่ยนชื่อโฟลเดอร์ "{name}"',
+            addTag: 'เพิ่มแท็ก #{tag}',
+            removeTag: 'ลบแท็ก #{tag}',
+            renameProperty: 'เปลี่ยนชื่อคุณสมบัติ {oldKey} → {newKey}',
+            editProperty: 'แก้ไขคุณสมบัติ {property}',
+            renamePropertyValue: 'เปลี่ยนชื่อค่า {property} {oldValue} → {newValue}',
+            changeAppearance: 'เปลี่ยนรูปลักษณ์ของ "{name}"'
+        }
+    },
+
+    // Vault statistics dashboard
+    statisticsDashboard: {
+        refresh: 'รีเฟรช',
+        loading: 'กำลังรอแคชโน้ต...',
+        unavailable: 'ไม่สามารถคำนวณสถิติได้',
+        empty: 'ไม่มีข้อมูล',
+        weekLabel: 'สัปดาห์ของ {date}',
+        createdCount: 'สร้าง {count} รายการ',
+        modifiedCount: 'แก้ไข {count} รายการ',
+        summary: {
+            notes: 'โน้ต',
+            words: 'คำ',
+            openTasks: 'งานที่ยังเปิดอยู่',
+            untagged: 'โน้ตที่ไม่มีแท็ก',
+            orphaned: 'โน้ตกำพร้า',
+            orphanedDescription: 'โน้ตที่ไม่มีโน้ตอื่นลิงก์มา'
+        },
+        sections: {
+            activity: 'โน้ตที่สร้างและแก้ไขต่อสัปดาห์',
+            wordsPerFolder: 'จำนวนคำต่อโฟลเดอร์',
+            openTasksPerFolder: 'งานที่ยังเปิดอยู่ต่อโฟลเดอร์',
+            topTags: 'แท็กยอดนิยม',
+            topProperties: 'คุณสมบัติยอดนิยม'
+        },
+        legend: {
+            created: 'สร้าง',
+            modified: 'แก้ไข'
         }
     },
 
@@ -728,8 +1036,10 @@ export const STRINGS_TH = {
         revealFile: 'แสดงไฟล์',
         search: 'ค้นหา',
         searchVaultRoot: 'ค้นหาในรูทห้องนิรภัย',
+        createSmartFolder: 'สร้างโฟลเดอร์อัจฉริยะจากการค้นหา',
         toggleDualPane: 'สลับรูปแบบแผงคู่',
         toggleCalendar: 'สลับปฏิทิน',
+        openStatistics: 'เปิดสถิติห้องนิรภัย', // Command palette: Opens the vault statistics dashboard (English: Open vault statistics)
         selectVaultProfile: 'เลือกโปรไฟล์ห้องนิรภัย',
         selectVaultProfile1: 'เลือกโปรไฟล์ห้องนิรภัย 1',
         selectVaultProfile2: 'เลือกโปรไฟล์ห้องนิรภัย 2',
@@ -738,12 +1048,18 @@ export const STRINGS_TH = {
         createNewNote: 'สร้างโน้ตใหม่',
         createNewNoteFromTemplate: 'โน้ตใหม่จากเทมเพลต',
         moveFiles: 'ย้ายไฟล์',
+        undo: 'เลิกทำการดำเนินการไฟล์',
+        redo: 'ทำซ้ำการดำเนินการไฟล์',
         selectNextFile: 'เลือกไฟล์ถัดไป',
         selectPreviousFile: 'เลือกไฟล์ก่อนหน้า',
         convertToFolderNote: 'แปลงเป็นโน้ตโฟลเดอร์',
         setAsFolderNote: 'ตั้งเป็นโน้ตโฟลเดอร์',
         detachFolderNote: 'แยกโน้ตโฟลเดอร์',
         pinAllFolderNotes: 'ปักหมุดโน้ตโฟลเดอร์ทั้งหมด',
+        writeFolderMetadataFiles: 'เขียนข้อมูลเมตาของโฟลเดอร์ลงไฟล์', // Command palette: Writes folder icons, colors, sort overrides and appearances to folder notes or sidecars (English: Write folder metadata to files)
+        reloadFolderMetadataFiles: 'โหลดข้อมูลเมตาของโฟลเดอร์จากไฟล์ใหม่', // Command palette: Reads folder metadata from folder notes or sidecars into settings (English: Reload folder metadata from files)
+        exportConfiguration: 'ส่งออกชุดการกำหนดค่า', // Command palette: Writes a configuration bundle JSON file to the vault root (English: Export configuration bundle)
+        importConfiguration: 'นำเข้าชุดการกำหนดค่า', // Command palette: Opens a dialog to import sections of a configuration bundle (English: Import configuration bundle)
         navigateToFolder: 'นำทางไปยังโฟลเดอร์',
         navigateToTag: 'นำทางไปยังแท็ก',
         navigateToProperty: 'นำทางไปยังคุณสมบัติ',
@@ -757,6 +1073,8 @@ export const STRINGS_TH = {
         addTag: 'เพิ่มแท็กในไฟล์ที่เลือก',
         removeTag: 'นำแท็กออกจากไฟล์ที่เลือก',
         removeAllTags: 'นำแท็กทั้งหมดออกจากไฟล์ที่เลือก',
+        mergeTags: 'รวมแท็ก', // Command palette: Opens a dialog to merge several tags into one tag (English: Merge tags)
+        editProperties: 'แก้ไขคุณสมบัติของไฟล์ที่เลือก', // Command palette: Opens a dialog to set, append to, or remove a property on selected files (English: Edit properties of selected files)
         openAllFiles: 'เปิดไฟล์ทั้งหมด',
         rebuildCache: 'สร้างแคชใหม่'
     },
@@ -765,6 +1083,7 @@ export const STRINGS_TH = {
     plugin: {
         viewName: 'Notebook Navigator',
         calendarViewName: 'ปฏิทิน',
+        statisticsViewName: 'สถิติห้องนิรภัย', // Name shown in the statistics view header/tab (English: Vault statistics)
         ribbonTooltip: 'Notebook Navigator',
         revealInNavigator: 'แสดงใน Notebook Navigator'
     },
@@ -863,7 +1182,13 @@ export const STRINGS_TH = {
                     'filename-asc': 'ชื่อไฟล์ (A บน)',
                     'filename-desc': 'ชื่อไฟล์ (Z บน)',
                     'property-asc': 'คุณสมบัติ (A บน)',
-                    'property-desc': 'คุณสมบัติ (Z บน)'
+                    'property-desc': 'คุณสมบัติ (Z บน)',
+                    'wordcount-desc': 'จำนวนคำ (มากสุดบน)',
+                    'wordcount-asc': 'จำนวนคำ (น้อยสุดบน)',
+                    'tasks-desc': 'งานที่ยังไม่เสร็จ (มากสุดบน)',
+                    'tasks-asc': 'งานที่ยังไม่เสร็จ (น้อยสุดบน)',
+                    'size-desc': 'ขนาดไฟล์ (ใหญ่สุดบน)',
+                    'size-asc': 'ขนาดไฟล์ (เล็กสุดบน)'
                 },
                 propertyOverride: {
                     asc: 'คุณสมบัติ ‘{property}’ (A บน)',
@@ -889,6 +1214,10 @@ export const STRINGS_TH = {
                 name: 'เลื่อนไปยังไฟล์ที่เลือกเมื่อรายการเปลี่ยนแปลง',
                 desc: 'เลื่อนไปยังไฟล์ที่เลือกเมื่อปักหมุดโน้ต แสดงโน้ตลูกหลาน เปลี่ยนลักษณะโฟลเดอร์ หรือเรียกใช้การดำเนินการไฟล์'
             },
+            searchNoteContent: {
+                name: 'ค้นหาเนื้อหาโน้ต',
+                desc: 'สร้างดัชนีข้อความเต็มในเครื่องจากเนื้อหาโน้ตสำหรับการค้นหาแบบตัวกรอง เปิดใช้ตัวกรอง `content:` และให้คำค้นหาทั่วไปตรงกับข้อความโน้ตนอกเหนือจากชื่อไฟล์ ไม่ต้องใช้ Omnisearch'
+            },
             includeDescendantNotes: {
                 name: 'แสดงโน้ตจากโฟลเดอร์ย่อย / ลูกหลาน',
                 desc: 'รวมโน้ตจากโฟลเดอร์ย่อยที่ซ้อนกันและลูกหลานแท็กเมื่อดูโฟลเดอร์หรือแท็ก'
@@ -903,11 +1232,13 @@ export const STRINGS_TH = {
             },
             groupNotes: {
                 name: 'จัดกลุ่มโน้ต',
-                desc: 'แสดงส่วนหัวระหว่างโน้ตที่จัดกลุ่มตามวันที่หรือโฟลเดอร์ มุมมองแท็กใช้กลุ่มวันที่เมื่อเปิดใช้งานการจัดกลุ่มโฟลเดอร์',
+                desc: 'แสดงส่วนหัวระหว่างโน้ตที่จัดกลุ่มตามวันที่ โฟลเดอร์ แท็ก ตัวอักษรแรก หรือค่าคุณสมบัติ มุมมองแท็กใช้กลุ่มวันที่เมื่อเปิดใช้งานการจัดกลุ่มโฟลเดอร์',
                 options: {
                     none: 'ไม่จัดกลุ่ม',
                     date: 'จัดกลุ่มตามวันที่',
-                    folder: 'จัดกลุ่มตามโฟลเดอร์'
+                    folder: 'จัดกลุ่มตามโฟลเดอร์',
+                    tag: 'จัดกลุ่มตามแท็ก',
+                    alphabetical: 'จัดกลุ่มตามตัวอักษร'
                 }
             },
             showPinnedGroupHeader: {
@@ -954,6 +1285,11 @@ export const STRINGS_TH = {
                 placeholder: '# Extension=icon\ncpp=LiFileCode\npdf=RaBook',
                 editTooltip: 'แก้ไขการแมป'
             },
+            fileStyleRules: {
+                name: 'กฎสไตล์ไฟล์',
+                desc: 'กำหนดไอคอนและสีให้ไฟล์ที่ตรงกับคิวรีตัวกรองการค้นหา เช่น ไอคอนเครื่องหมายถูกสำหรับ .status=done หรือสีเทาสำหรับ folder:archive กฎจะถูกบันทึกในโปรไฟล์ห้องนิรภัย',
+                buttonText: 'แก้ไขกฎ'
+            },
             optimizeNoteHeight: {
                 name: 'ความสูงโน้ตแบบปรับได้',
                 desc: 'ใช้ความสูงแบบกะทัดรัดสำหรับโน้ตที่ปักหมุดและโน้ตที่ไม่มีข้อความตัวอย่าง'
@@ -1034,6 +1370,15 @@ export const STRINGS_TH = {
                 name: 'เปิดโน้ตใหม่ในแท็บใหม่',
                 desc: 'เมื่อเปิดใช้งาน คำสั่งสร้างโน้ตใหม่จะเปิดโน้ตในแท็บใหม่ เมื่อปิดใช้งาน โน้ตจะแทนที่แท็บปัจจุบัน'
             },
+            newNoteFileNamePattern: {
+                name: 'ชื่อไฟล์โน้ตใหม่',
+                desc: 'รูปแบบชื่อไฟล์สำหรับโน้ตใหม่ รองรับ {{date}}, {{date:FORMAT}}, {{time}} และ {{title}} โฟลเดอร์สามารถแทนที่ได้จากเมนูโฟลเดอร์ เว้นว่างเพื่อใช้ "Untitled"',
+                placeholder: '{{date:YYYY-MM-DD}} {{title}}'
+            },
+            promptForNewNoteTitle: {
+                name: 'ถามชื่อเมื่อสร้างโน้ต',
+                desc: 'ถามชื่อก่อนสร้างโน้ต ชื่อจะแทน {{title}} ในรูปแบบชื่อไฟล์ หรือเป็นชื่อไฟล์เมื่อไม่ได้ตั้งรูปแบบ'
+            },
             autoRevealActiveNote: {
                 name: 'แสดงโน้ตที่ใช้งานอัตโนมัติ',
                 desc: 'แสดงโน้ตอัตโนมัติเมื่อเปิดจาก Quick Switcher, ลิงก์, หรือการค้นหา'
@@ -1210,6 +1555,11 @@ export const STRINGS_TH = {
                 desc: 'ตัวเลือกไฟล์เทมเพลตแสดงโน้ตจากโฟลเดอร์นี้',
                 placeholder: 'Templates'
             },
+            noteTemplateRules: {
+                name: 'กฎเทมเพลตโน้ต',
+                desc: 'ใช้เทมเพลตและรูปแบบชื่อไฟล์กับโน้ตที่สร้างจากโฟลเดอร์ แท็ก หรือพร็อพเพอร์ตี้',
+                buttonText: 'แก้ไขกฎ'
+            },
             calendarCustomFilePattern: {
                 name: 'โน้ตรายวัน',
                 desc: 'กำหนดเส้นทางโดยใช้รูปแบบวันที่ Moment ใส่ชื่อโฟลเดอร์ย่อยในวงเล็บเหลี่ยม เช่น [Work]/YYYY คลิกไอคอนเทมเพลตเพื่อตั้งค่าเทมเพลต ตั้งค่าตำแหน่งโฟลเดอร์เทมเพลตในทั่วไป > เทมเพลต',
@@ -1264,6 +1614,16 @@ export const STRINGS_TH = {
                 notice: 'รีเซ็ตการตั้งค่าทั้งหมดแล้ว รีสตาร์ท Obsidian หรือเปิด Notebook Navigator ใหม่เพื่อใช้งาน',
                 error: 'รีเซ็ตการตั้งค่าล้มเหลว'
             },
+            configBundle: {
+                name: 'ชุดการกำหนดค่า',
+                desc: 'ส่งออกโปรไฟล์ห้องนิรภัย ทางลัด สไตล์ รูปลักษณ์ การเรียงลำดับที่กำหนดเอง แผนที่ไอคอน และแป้นพิมพ์ลัดไปยังไฟล์ JSON ที่รากของห้องนิรภัย หรือนำเข้าชุดเพื่อตั้งค่าห้องนิรภัยอื่น',
+                exportButton: 'ส่งออก',
+                importButton: 'นำเข้า',
+                exportSuccess: 'ส่งออกการกำหนดค่าไปยัง {filename} แล้ว',
+                exportFailed: 'ส่งออกการกำหนดค่าไม่สำเร็จ',
+                importSuccess: 'นำเข้าการกำหนดค่าแล้ว',
+                importFailed: 'นำเข้าการกำหนดค่าไม่สำเร็จ'
+            },
             multiSelectModifier: {
                 name: 'ตัวปรับแต่งเลือกหลายรายการ',
                 desc: 'เลือกปุ่มตัวปรับแต่งที่จะสลับการเลือกหลายรายการ เมื่อเลือก Option/Alt การคลิก Cmd/Ctrl จะเปิดโน้ตในแท็บใหม่',
@@ -1288,6 +1648,14 @@ export const STRINGS_TH = {
                 name: 'Ctrl+Enter',
                 desc: 'เปิดไฟล์ที่เลือกในแท็บใหม่ แยก หรือหน้าต่างเมื่อกด Ctrl+Enter'
             },
+            vimKeyboardNavigation: {
+                name: 'ลำดับปุ่มแบบ Vim',
+                desc: 'ใช้ gg และ G เพื่อไปยังรายการแรกและสุดท้าย dd เพื่อลบ zc และ zo เพื่อยุบและขยาย และ / เพื่อเปิดการค้นหา ปุ่มลัดที่กำหนดเองมีลำดับความสำคัญก่อน'
+            },
+            typeAheadFind: {
+                name: 'ค้นหาขณะพิมพ์',
+                desc: 'การพิมพ์ตัวอักษรจะไปยังโฟลเดอร์ แท็ก หรือโน้ตแรกที่ชื่อขึ้นต้นด้วยข้อความที่พิมพ์ ใช้ไม่ได้ขณะเปิดลำดับปุ่มแบบ Vim'
+            },
             fileVisibility: {
                 name: 'แสดงประเภทไฟล์ (โปรไฟล์ห้องนิรภัย)',
                 desc: 'กรองประเภทไฟล์ที่จะแสดงใน navigator ประเภทไฟล์ที่ Obsidian ไม่รองรับอาจเปิดในแอปภายนอก',
@@ -1410,6 +1778,10 @@ export const STRINGS_TH = {
                     none: 'ไม่มี'
                 }
             },
+            showTaskProgress: {
+                name: 'ความคืบหน้างาน',
+                desc: 'แสดงแถบความสำเร็จและวันครบกำหนดถัดไปสำหรับโน้ตที่มีงาน'
+            },
             propertyFields: {
                 name: 'คีย์คุณสมบัติ (โปรไฟล์ห้องนิรภัย)',
                 desc: 'คีย์คุณสมบัติ frontmatter พร้อมการตั้งค่าการแสดงผลแต่ละคีย์สำหรับการนำทางและรายการไฟล์',
@@ -1522,6 +1894,15 @@ export const STRINGS_TH = {
                     alphaDesc: 'ฮ ถึง ก'
                 }
             },
+            folderMetadataStorage: {
+                name: 'ที่เก็บข้อมูลเมตาของโฟลเดอร์',
+                desc: 'เก็บไอคอน สี การเรียงลำดับที่กำหนดเอง และรูปลักษณ์ของโฟลเดอร์ไว้ในห้องนิรภัยด้วย เพื่อให้ติดไปกับโฟลเดอร์ผ่านการซิงค์หรือ git การเปลี่ยนแปลงจะซิงค์ทั้งสองทาง เรียกใช้ "เขียนข้อมูลเมตาของโฟลเดอร์ลงไฟล์" เพื่อย้ายข้อมูลเมตาที่มีอยู่',
+                options: {
+                    settings: 'การตั้งค่าปลั๊กอินเท่านั้น',
+                    folderNote: 'ฟรอนต์แมตเตอร์ของโน้ตโฟลเดอร์',
+                    sidecar: 'ไฟล์ประกอบ .folder.yml'
+                }
+            },
             showNoteCount: {
                 name: 'แสดงจำนวนโน้ต',
                 desc: 'แสดงจำนวนโน้ตข้างแต่ละโฟลเดอร์และแท็ก'
@@ -1637,6 +2018,11 @@ export const STRINGS_TH = {
                 name: 'แสดงโฟลเดอร์คุณสมบัติ',
                 desc: 'แสดง "คุณสมบัติ" เป็นโฟลเดอร์ที่พับได้'
             },
+            propertyHierarchies: {
+                name: 'ลำดับชั้นคุณสมบัติ',
+                desc: 'จัดโน้ตซ้อนในโฟลเดอร์เสมือนตามค่าคุณสมบัติ หนึ่งระดับต่อหนึ่งคีย์ หนึ่งลำดับชั้นต่อบรรทัดในรูปแบบ `Name: key > key > key` คีย์ต้องอยู่ในรายการคีย์คุณสมบัติด้วย',
+                placeholder: 'Research: type > status > project'
+            },
             hiddenTags: {
                 name: 'ซ่อนแท็ก (โปรไฟล์ห้องนิรภัย)',
                 desc: 'รายการรูปแบบแท็กคั่นด้วยเครื่องหมายจุลภาค รูปแบบชื่อ: tag* (ขึ้นต้นด้วย), *tag (ลงท้ายด้วย) รูปแบบเส้นทาง: archive (แท็กและลูกหลาน), archive/* (ลูกหลานเท่านั้น), projects/*/drafts (wildcard ตรงกลาง)',
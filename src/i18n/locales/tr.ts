@@ -46,7 +46,10 @@ export const STRINGS_TR = {
         pinnedSection: 'Sabitlenmiş', // Header for the pinned notes section at the top of file list (English: Pinned)
         notesSection: 'Notlar', // Header shown between pinned and regular items when showing documents only (English: Notes)
         filesSection: 'Dosyalar', // Header shown between pinned and regular items when showing supported or all files (English: Files)
-        hiddenItemAriaLabel: '{name} (gizli)' // Accessibility label applied to list items that are normally hidden
+        noPropertyValue: 'Değer yok', // Header for notes without a value when grouping by property (English: No value)
+        hiddenItemAriaLabel: '{name} (gizli)', // Accessibility label applied to list items that are normally hidden
+        taskProgressAriaLabel: '{total} görevden {completed} tanesi tamamlandı', // Accessibility label for the task progress bar in file items
+        taskDue: 'Bitiş {date}' // Next due date shown next to the task progress bar (English: Due {date})
     },
 
     // Tag list
@@ -61,6 +64,7 @@ export const STRINGS_TR = {
         recentNotesHeader: 'Son notlar', // Header label for recent notes section in navigation pane (English: Recent notes)
         recentFilesHeader: 'Son dosyalar', // Header label when showing recent non-note files in navigation pane (English: Recent files)
         properties: 'Özellikler',
+        smartFolders: 'Akıllı klasörler',
         reorderRootFoldersTitle: 'Gezinmeyi yeniden sırala',
         reorderRootFoldersHint: 'Yeniden sıralamak için okları veya sürüklemeyi kullanın',
         vaultRootLabel: 'Kasa',
@@ -130,6 +134,7 @@ export const STRINGS_TR = {
         mobileBackToNavigation: 'Gezinmeye dön', // Mobile-only back button text to return to navigation pane (English: Back to navigation)
         changeSortOrder: 'Sıralama düzenini değiştir', // Tooltip for the sort order toggle button (English: Change sort order)
         defaultSort: 'Varsayılan', // Label for default sorting mode (English: Default)
+        customSortChain: 'Özel sıralama zinciri...',
         showFolders: 'Gezinmeyi göster', // Tooltip for button to show the navigation pane (English: Show navigation)
         reorderRootFolders: 'Gezinmeyi yeniden sırala',
         finishRootFolderReorder: 'Tamamlandı',
@@ -171,6 +176,15 @@ export const STRINGS_TR = {
                         '`-word` Dosya adında "word" olan notları hariç tut.'
                     ]
                 },
+                content: {
+                    title: 'Not içeriği',
+                    items: [
+                        '`content:kelime` Metninde "kelime" ile başlayan bir kelime geçen notları bulur.',
+                        '`content:"iki kelime"` Her kelimenin not metninde geçmesini gerektirir.',
+                        '`-content:kelime` Metninde "kelime" ile başlayan bir kelime geçen notları hariç tutar.',
+                        'Liste bölmesi ayarlarında **Not içeriğinde ara** gerekir. Etkinleştirildiğinde düz kelimeler de not metniyle eşleşir.'
+                    ]
+                },
                 tags: {
                     title: 'Etiketler',
                     items: [
@@ -194,6 +208,8 @@ export const STRINGS_TR = {
                         '`."Reading Status"="In Progress"` Boşluk içeren anahtarlar ve değerler çift tırnak içine alınmalıdır.',
                         '`-.key` Özellik anahtarına sahip notları hariç tut.',
                         '`-.key=value` Özellik değerine sahip notları hariç tut.',
+                        '`.key>=3`, `.key<2026-11-01` Sayı veya tarih özelliklerini `>`, `>=`, `<`, `<=` ile karşılaştır.',
+                        '`.key:thisweek`, `.key:1..5`, `.key:2026-11-01..2026-11-30` Göreli tarih, tarih, sayı veya kapsayıcı aralıkla eşleştir.',
                         'Cmd/Ctrl+Tıklayarak özelliği AND ile ekleyin. Cmd/Ctrl+Shift+Tıklayarak OR ile ekleyin.'
                     ]
                 },
@@ -202,6 +218,8 @@ export const STRINGS_TR = {
                     items: [
                         '`has:task` Tamamlanmamış görevleri olan notları dahil et.',
                         '`-has:task` Tamamlanmamış görevleri olan notları hariç tut.',
+                        '`due:overdue`, `due:today`, `due:thisweek` Aralıkta bitiş tarihi olan açık bir görev içeren notları dahil et (Tasks `📅` tarihleri veya Dataview `[due:: ]` alanları).',
+                        '`due:2026-11-01..2026-11-30` Bir bitiş tarihi veya aralıkla eşleştir. `-due:...` eşleşen açık görevi olan notları hariç tutar.',
                         '`folder:meetings` Klasör adı `meetings` içeren notları dahil et.',
                         '`folder:/work/meetings` Yalnızca `work/meetings` içindeki notları dahil et (alt klasörler hariç).',
                         '`folder:/` Yalnızca kasa kök dizinindeki notları dahil et.',
@@ -213,13 +231,13 @@ export const STRINGS_TR = {
                     ]
                 },
                 connectors: {
-                    title: 'AND/OR davranışı',
+                    title: 'AND/OR/NOT ve gruplama',
                     items: [
-                        '`AND` ve `OR` yalnızca etiket ve özellik sorgularında operatör olarak çalışır.',
-                        'Etiket ve özellik sorguları yalnızca etiket ve özellik filtrelerini içerir: `#tag`, `-#tag`, `#`, `-#`, `.key`, `-.key`, `.key=value`, `-.key=value`.',
-                        'Bir sorgu adlar, tarihler (`@...`), görev filtreleri (`has:task`), klasör filtreleri (`folder:...`) veya uzantı filtreleri (`ext:...`) içeriyorsa, `AND` ve `OR` kelime olarak aranır.',
-                        'Örnek operatör sorgusu: `#work OR .status=started`.',
-                        'Karma sorgu örneği: `#work OR ext:md` (`OR` dosya adlarında aranır).'
+                        'Sorgu bir filtre (`#tag`, `.key`, `@date`, `has:task`, `due:`, `folder:`, `ext:`, `content:`) veya parantez içerdiğinde `AND`, `OR` ve `NOT` operatör olarak çalışır.',
+                        '`( )` terimleri gruplar: `(folder:Projects OR folder:Areas) AND #active AND -ext:pdf`.',
+                        '`NOT terim` veya `-terim` bir terimi hariç tutar. `-( )` bütün bir grubu hariç tutar.',
+                        "`NOT`, `AND`'den; `AND` de `OR`'dan önceliklidir. Yan yana terimler örtük AND kullanır.",
+                        'Yalnızca kelimelerden oluşan ve parantez içermeyen sorgular `AND`, `OR` ve `NOT` kelimelerini dosya adlarında arar (ör. `siyah or beyaz`).'
                     ]
                 },
                 dates: {
@@ -293,12 +311,14 @@ export const STRINGS_TR = {
             addTag: 'Etiket ekle',
             removeTag: 'Etiketi kaldır',
             removeAllTags: 'Tüm etiketleri kaldır',
+            editProperties: 'Özellikleri düzenle',
             changeIcon: 'Simgeyi değiştir',
             changeColor: 'Rengi değiştir'
         },
         folder: {
             newNote: 'Yeni not',
             newNoteFromTemplate: 'Şablondan yeni not',
+            newNoteFileName: 'Yeni not dosya adı...',
             newFolder: 'Yeni klasör',
             newCanvas: 'Yeni tuval',
             newBase: 'Yeni veritabanı',
@@ -323,14 +343,24 @@ export const STRINGS_TR = {
             changeIcon: 'Simgeyi değiştir',
             changeColor: 'Rengi değiştir',
             changeBackground: 'Arka planı değiştir',
+            mergeTags: 'Etiketleri birleştir...',
+            splitTag: 'Etiketi böl...',
             showTag: 'Etiketi göster',
             hideTag: 'Etiketi gizle'
         },
         property: {
             addKey: 'Özellik anahtarlarını yapılandır',
             renameKey: 'Özelliği yeniden adlandır',
+            renameValue: 'Değeri yeniden adlandır',
+            mergeValue: 'Değerle birleştir...',
             deleteKey: 'Özelliği sil'
         },
+        smartFolder: {
+            newSmartFolder: 'Yeni akıllı klasör',
+            newNestedSmartFolder: 'Yeni iç içe akıllı klasör',
+            editSmartFolder: 'Akıllı klasörü düzenle',
+            deleteSmartFolder: 'Akıllı klasörü sil'
+        },
         navigation: {
             addSeparator: 'Ayırıcı ekle',
             removeSeparator: 'Ayırıcıyı kaldır'
@@ -356,11 +386,25 @@ export const STRINGS_TR = {
     folderAppearance: {
         standardPreset: 'Standart',
         compactPreset: 'Kompakt',
+        gridPreset: 'Izgara',
+        boardPreset: 'Pano...',
+        boardPresetOption: (property: string) => `Pano (${property})`,
+        boardPropertyAction: 'Özelliğe göre pano sütunları',
+        boardPropertyPlaceholder: 'Özellik anahtarı',
+        tileSize: 'Döşeme boyutu',
+        tileSizeOptions: {
+            small: 'Küçük döşemeler',
+            medium: 'Orta döşemeler',
+            large: 'Büyük döşemeler'
+        },
         defaultSuffix: '(varsayılan)',
         defaultLabel: 'Varsayılan',
         titleRows: 'Başlık satırları',
         previewRows: 'Önizleme satırları',
         groupBy: 'Grupla',
+        groupByPropertyAction: 'Özelliğe göre grupla...',
+        groupByPropertyPlaceholder: 'Özellik anahtarı',
+        groupByPropertyOption: (property: string) => `Özelliğe göre grupla (${property})`,
         defaultTitleOption: (rows: number) => `Varsayılan başlık satırları (${rows})`,
         defaultPreviewOption: (rows: number) => `Varsayılan önizleme satırları (${rows})`,
         defaultGroupOption: (groupLabel: string) => `Varsayılan gruplama (${groupLabel})`,
@@ -384,6 +428,89 @@ export const STRINGS_TR = {
         fileIconRuleEditor: {
             addRuleAria: 'Kural ekle'
         },
+        sortChain: {
+            title: 'Özel sıralama zinciri',
+            description: 'Notlar ilk anahtara göre sıralanır. Sonraki her anahtar, üstteki anahtarlarda eşit olan notları sıralar.',
+            propertyPlaceholder: 'Özellik anahtarı',
+            ascending: 'Artan',
+            descending: 'Azalan',
+            addKey: 'Sıralama anahtarı ekle',
+            moveUp: 'Yukarı taşı',
+            moveDown: 'Aşağı taşı',
+            save: 'Kaydet',
+            fields: {
+                modified: 'Düzenleme tarihi',
+                created: 'Oluşturma tarihi',
+                title: 'Başlık',
+                filename: 'Dosya adı',
+                property: 'Özellik',
+                wordcount: 'Kelime sayısı',
+                tasks: 'Açık görevler',
+                size: 'Dosya boyutu'
+            }
+        },
+        noteTemplateRules: {
+            title: 'Not şablonu kuralları',
+            description:
+                'Bir klasör, etiket veya özellikten oluşturulan notlar, eşleşen ilk kuralın şablonunu ve dosya adını kullanır. Dosya adları {{date}}, {{date:FORMAT}}, {{time}} ve {{title}} destekler.',
+            folderPatternPlaceholder: 'Klasör yolu, ör. Meetings veya Projects/*/Notes',
+            tagPatternPlaceholder: 'Etiket, ör. meeting',
+            propertyPatternPlaceholder: 'Özellik, ör. type veya type=meeting',
+            templatePlaceholder: 'Şablon dosyası',
+            fileNamePlaceholder: 'Dosya adı deseni, ör. {{date}} Meeting',
+            emptyState: 'Kural yok. Yeni notlar boş oluşturulur.',
+            addRule: 'Kural ekle',
+            moveUp: 'Yukarı taşı',
+            moveDown: 'Aşağı taşı',
+            save: 'Kaydet',
+            targets: {
+                folder: 'Klasör',
+                tag: 'Etiket',
+                property: 'Özellik'
+            }
+        },
+        fileStyleRules: {
+            title: 'Dosya stili kuralları',
+            description:
+                'Bir kuralın sorgusuyla eşleşen dosyalar o kuralın simgesini ve rengini alır. Sorgular arama filtresi sözdizimini kullanır. Kurallar yukarıdan aşağıya kontrol edilir: simgesi olan ilk eşleşen kural simgeyi, rengi olan ilk eşleşen kural rengi belirler. Dosyaya doğrudan atanan simgeler ve renkler önceliklidir.',
+            queryPlaceholder: 'Filtre sorgusu, ör. .status=done, #meeting veya folder:archive',
+            emptyState: 'Kural yok.',
+            setIcon: 'Simge ayarla',
+            setColor: 'Renk ayarla',
+            addRule: 'Kural ekle',
+            moveUp: 'Yukarı taşı',
+            moveDown: 'Aşağı taşı',
+            save: 'Kaydet'
+        },
+        configBundleImport: {
+            title: 'Yapılandırma paketini içe aktar',
+            description:
+                'Kasadan bir paket JSON dosyası seçin, ardından içe aktarılacak bölümleri seçin. İçe aktarılan değerler normal ayarlar gibi doğrulanır.',
+            filePlaceholder: 'Paket yolu, ör. notebook-navigator-config.json',
+            sectionsLabel: 'İçe aktarılacak bölümler',
+            strategyLabel: 'Mevcut ayarlar',
+            strategies: {
+                merge: 'Birleştir, paket girdileri öncelikli',
+                replace: 'Seçili bölümleri değiştir'
+            },
+            bundleInfo: '{date} tarihinde Notebook Navigator {version} sürümünden dışa aktarıldı',
+            importButton: 'İçe aktar',
+            sections: {
+                vaultProfiles: 'Kasa profilleri ve kısayollar',
+                styling: 'Klasör, etiket ve özellik simgeleri ile renkleri',
+                appearances: 'Klasör ve etiket görünümleri',
+                sortOverrides: 'Sıralama geçersiz kılmaları',
+                iconMaps: 'Simge eşlemeleri ve arayüz simgeleri',
+                keyboardShortcuts: 'Klavye kısayolları'
+            },
+            errors: {
+                invalidJson: 'Dosya geçerli bir JSON değil.',
+                invalidFormat: 'Dosya bir Notebook Navigator yapılandırma paketi değil.',
+                unsupportedVersion: "Bu paket Notebook Navigator'ın daha yeni bir sürümüyle oluşturulmuş.",
+                empty: 'Pakette içe aktarılabilecek bölüm yok.',
+                readFailed: 'Dosya okunamadı.'
+            }
+        },
         interfaceIcons: {
             title: 'Arayüz simgeleri',
             fileItemsSection: 'Dosya öğeleri',
@@ -414,6 +541,8 @@ export const STRINGS_TR = {
                 'nav-properties': 'Özellikler',
                 'nav-property': 'Özellik',
                 'nav-property-value': 'Değer',
+                'nav-smart-folders': 'Akıllı klasörler',
+                'nav-smart-folder': 'Akıllı klasör',
                 'list-pinned': 'Sabitlenmiş öğeler',
                 'file-unfinished-task': 'Tamamlanmamış görevler',
                 'file-word-count': 'Kelime sayısı'
@@ -494,6 +623,111 @@ export const STRINGS_TR = {
             deleteSettingsUpdateFailed: '{property} özelliği silindi. Ayarlar güncellenemedi.',
             invalidKeyName: 'Geçerli bir özellik adı girin.'
         },
+        propertyValueEdit: {
+            title: 'Özellikleri düzenle',
+            description: '{count} {files} içinde bir özelliği değiştir.',
+            keyLabel: 'Özellik',
+            keyPlaceholder: 'Özellik adı',
+            modeLabel: 'İşlem',
+            modes: {
+                set: 'Değer ata',
+                append: 'Listeye ekle',
+                remove: 'Özelliği kaldır'
+            },
+            valueLabel: 'Değer',
+            valuePlaceholder: 'Değer',
+            emptyValue: '(boş)',
+            previewTitle: 'Önizleme',
+            changeSummary: '{total} nottan {count} tanesi değişecek',
+            noChanges: 'Değişiklik gerektiren not yok.',
+            apply: 'Uygula',
+            successSingle: '{property} özelliği 1 notta güncellendi',
+            successMultiple: '{property} özelliği {count} notta güncellendi',
+            partialFailure: '{property} özelliği {count} notta güncellendi. {failed} not güncellenemedi.'
+        },
+        propertyValueRename: {
+            renameTitle: '{value} değerini yeniden adlandır',
+            renameWarning:
+                '{property}: {value} değerini yeniden adlandırmak {count} {files} değiştirecek. Var olan bir değer girmek iki değeri birleştirir.',
+            newValuePrompt: 'Yeni değer',
+            newValuePlaceholder: 'Yeni değeri girin',
+            confirmRename: 'Değeri yeniden adlandır',
+            mergeTitle: '{value} değerini birleştir',
+            mergeWarning:
+                '{oldValue} değerini {newValue} ile birleştirmek {count} {files} değiştirecek. {newValue} kendi simgesini, rengini ve kısayollarını korur.',
+            mergePlaceholder: '{value} değerini şununla birleştir...',
+            mergeInstruction: 'birleştirmek için',
+            confirmMerge: 'Değerleri birleştir',
+            noOtherValues: '{property} özelliğinin başka değeri yok',
+            nestedTarget: 'Bir değer, iç içe değerlerinden birine yeniden adlandırılamaz.',
+            invalidValue: 'Geçerli bir değer girin.',
+            noChanges: '{oldValue} → {newValue} (değişiklik yok)',
+            successSingle: '{oldValue} → {newValue} 1 notta yeniden adlandırıldı',
+            successMultiple: '{oldValue} → {newValue} {count} notta yeniden adlandırıldı',
+            partialFailure: '{oldValue} → {newValue} {count} notta yeniden adlandırıldı. {failed} not güncellenemedi.'
+        },
+        tagOperationSummary: {
+            close: 'Kapat',
+            updatedNotes: 'Güncellenen notlar',
+            skippedNotes: 'Atlanan notlar',
+            skippedDescription: 'Bu notlar önizlemeden sonra değişti veya güncellenecek bir şey yoktu.',
+            failedNotes: 'Başarısız notlar',
+            reportSummary: '{total} nottan {changed} tanesi güncellendi.'
+        },
+        tagMerge: {
+            title: 'Etiketleri birleştir',
+            description: 'Birden çok etiketi tek bir etikette birleştirin. İç içe etiketler üst etiketleriyle birlikte taşınır.',
+            sourcesLabel: 'Birleştirilecek etiketler',
+            sourcesPlaceholder: 'Virgülle ayrılmış etiketler',
+            targetLabel: 'Şununla birleştir',
+            targetPlaceholder: 'Hedef etiket',
+            preview: 'Birleştirmeyi önizle',
+            nothingToMerge:
+                'Birleştirilecek etiket yok. Etiketlerin notlarda kullanıldığını ve hedef etiketten farklı olduğunu kontrol edin.',
+            previewTitle: '{tag} ile birleştir',
+            previewDescription: '{tags} etiketlerini {tag} ile birleştirmek {count} notu değiştirecek.',
+            confirm: 'Etiketleri birleştir',
+            affectedNotes: 'Etkilenen notlar',
+            skippedTags: 'Atlanan etiketler',
+            skipReasons: {
+                sameAsTarget: 'hedef etiketle aynı',
+                containsTarget: 'hedef etiket bu etiketin altında',
+                nestedInSource: 'üst etiketiyle birlikte birleştirilir',
+                noNotes: 'hiçbir notta kullanılmıyor'
+            },
+            alreadyTagged: 'Zaten {tag} etiketine sahip notlar',
+            alreadyTaggedDescription: 'Bu notlar hedef etiketi birden fazla kez içerecek.',
+            multipleSources: 'Birden çok birleştirilen etikete sahip notlar',
+            multipleSourcesDescription: 'Bu notların her biri hedef etiketi birden fazla kez içerecek.',
+            nestedCollisions: 'İç içe etiket çakışmaları',
+            nestedCollisionsDescription: 'Bu iç içe etiketler zaten var olan iç içe etiketlerle birleşir.',
+            notFinalized: 'Meta veriler taşınmadı',
+            notFinalizedDescription: 'Bu etiketlere sahip bazı notlar güncellenmediği için simgeleri, renkleri ve kısayolları korundu.',
+            reportTitle: '{tag} ile birleştirildi'
+        },
+        tagSplit: {
+            title: '{tag} etiketini böl',
+            description:
+                'Tam olarak {tag} etiketli {count} {files}. Her not, eşleşen ilk kuralın alt etiketine taşınır. Hiçbir kuralla eşleşmeyen notlar {tag} etiketini korur.',
+            childPlaceholder: 'Alt etiket',
+            kinds: {
+                folder: 'Klasör',
+                query: 'Filtre sorgusu'
+            },
+            folderPlaceholder: 'Klasör yolu (alt klasörler dahil)',
+            queryPlaceholder: 'Arama filtresi sorgusu',
+            addRule: 'Kural ekle',
+            preview: 'Bölmeyi önizle',
+            nothingMatched: 'Kurallarla eşleşen not yok.',
+            previewTitle: '{tag} etiketini böl',
+            previewDescription: '{tag} etiketli {total} nottan {count} tanesi bir alt etikete taşınacak.',
+            confirm: 'Etiketi böl',
+            invalidRules: 'Değerlendirilemeyen kurallar',
+            invalidRulesDescription: 'Filtre sorguları arama ölçütleri ve hazır bir not önbelleği gerektirir.',
+            unmatched: 'Eşleşen kuralı olmayan notlar',
+            unmatchedDescription: 'Bu notlar {tag} etiketini korur.',
+            reportTitle: '{tag} bölündü'
+        },
         fileSystem: {
             newFolderTitle: 'Yeni klasör',
             renameFolderTitle: 'Klasörü yeniden adlandır',
@@ -503,6 +737,10 @@ export const STRINGS_TR = {
             deleteFileAttachmentsTitle: 'Dosya ekleri silinsin mi?',
             moveFileConflictTitle: 'Taşıma çakışması',
             folderNamePrompt: 'Klasör adını girin:',
+            newNoteTitle: 'Yeni not',
+            noteTitlePrompt: 'Not başlığını girin:',
+            createNoteButton: 'Oluştur',
+            newNoteFileNamePrompt: 'Dosya adı deseni, ör. {{date:YYYYMMDDHHmm}} {{title}}. Varsayılan için boş bırakın.',
             hideInOtherVaultProfiles: 'Diğer kasa profillerinde gizle',
             renamePrompt: 'Yeni adı girin:',
             renameVaultTitle: 'Kasa görünen adını değiştir',
@@ -596,6 +834,23 @@ export const STRINGS_TR = {
             applyButton: 'Uygula',
             emptyState: 'Özellik anahtarı bulunamadı.'
         },
+        smartFolder: {
+            newTitle: 'Yeni akıllı klasör',
+            newNestedTitle: '{name} içinde yeni akıllı klasör',
+            editTitle: 'Akıllı klasörü düzenle',
+            nameLabel: 'Ad',
+            namePlaceholder: 'Akıllı klasör adı',
+            queryLabel: 'Filtre sorgusu',
+            queryPlaceholder: '#project AND -#archived',
+            queryDescription:
+                'Filtre arama sözdizimini kullanır. İç içe akıllı klasörler yalnızca üst klasörlerin sorgularıyla da eşleşen notları listeler.',
+            create: 'Oluştur',
+            save: 'Kaydet',
+            emptyName: 'Akıllı klasör adı boş olamaz',
+            duplicateName: 'Burada bu ada sahip bir akıllı klasör zaten var',
+            deleteTitle: '"{name}" akıllı klasörü silinsin mi?',
+            deleteMessage: 'İç içe akıllı klasörler de silinir. Notlar değiştirilmez.'
+        },
         welcome: {
             title: '{pluginName} uygulamasına hoş geldiniz',
             introText:
@@ -678,6 +933,9 @@ export const STRINGS_TR = {
             iconPackUpdated: '{provider} güncellendi ({version})',
             iconPackRemoved: '{provider} kaldırıldı',
             iconPackLoadFailed: '{provider} yüklenemedi',
+            folderMetadataWritten: '{count} klasörün meta verisi yazıldı',
+            folderMetadataLoaded: '{count} klasörün meta verisi yüklendi',
+            folderMetadataStorageDisabled: 'Önce Klasörler ayarlarında klasör notu veya yan dosya depolamasını seçin',
             hiddenFileReveal: 'Dosya gizli. Görüntülemek için "Gizli öğeleri göster" seçeneğini etkinleştirin'
         },
         confirmations: {
@@ -707,7 +965,62 @@ export const STRINGS_TR = {
             filesAlreadyHaveProperty: '{count} dosya zaten bu özelliğe sahip',
             noTagsToClear: 'Temizlenecek etiket yok',
             fileImported: '1 dosya içe aktarıldı',
-            filesImported: '{count} dosya içe aktarıldı'
+            filesImported: '{count} dosya içe aktarıldı',
+            filesMoved: '{count} dosya {folder} konumuna taşındı'
+        }
+    },
+
+    // Undo history
+    undoHistory: {
+        undo: 'Geri al',
+        undone: 'Geri alındı: {action}',
+        redone: 'Yinelendi: {action}',
+        nothingToUndo: 'Geri alınacak bir şey yok',
+        nothingToRedo: 'Yinelenecek bir şey yok',
+        failed: '"{action}" geri alınamadı: {error}',
+        partial: '{count} öğe geri yüklenemedi',
+        actions: {
+            moveFile: '"{name}" taşı',
+            moveFiles: '{count} dosya taşı',
+            moveFolder: '"{name}" klasörünü taşı',
+            renameFile: '"{name}" yeniden adlandır',
+            renameFolder: '"{name}" klasörünü yeniden adlandır',
+            addTag: '#{tag} etiketini ekle',
+            removeTag: '#{tag} etiketini kaldır',
+            renameProperty: 'Özelliği yeniden adlandır {oldKey} → {newKey}',
+            editProperty: '{property} özelliğini düzenle',
+            renamePropertyValue: '{property} değerini yeniden adlandır {oldValue} → {newValue}',
+            changeAppearance: '"{name}" görünümünü değiştir'
+        }
+    },
+
+    // Vault statistics dashboard
+    statisticsDashboard: {
+        refresh: 'Yenile',
+        loading: 'Not önbelleği bekleniyor...',
+        unavailable: 'İstatistikler hesaplanamadı.',
+        empty: 'Veri yok',
+        weekLabel: '{date} haftası',
+        createdCount: '{count} oluşturuldu',
+        modifiedCount: '{count} değiştirildi',
+        summary: {
+            notes: 'Notlar',
+            words: 'Kelimeler',
+            openTasks: 'Açık görevler',
+            untagged: 'Etiketsiz notlar',
+            orphaned: 'Yetim notlar',
+            orphanedDescription: 'Başka hiçbir notun bağlantı vermediği notlar'
+        },
+        sections: {
+            activity: 'Haftalık oluşturulan ve değiştirilen notlar',
+            wordsPerFolder: 'Klasör başına kelime',
+            openTasksPerFolder: 'Klasör başına açık görev',
+            topTags: 'En çok kullanılan etiketler',
+            topProperties: 'En çok kullanılan özellikler'
+        },
+        legend: {
+            created: 'Oluşturulan',
+            modified: 'Değiştirilen'
         }
     },
 
@@ -732,8 +1045,10 @@ export const STRINGS_TR = {
         revealFile: 'Dosyayı göster', // Command palette: Reveals and selects the currently active file in the navigator (English: Reveal file)
         search: 'Ara', // Command palette: Toggle search in the file list (English: Search)
         searchVaultRoot: 'Kasa kökünde ara', // Command palette: Selects the vault root folder and focuses search (English: Search in vault root)
+        createSmartFolder: 'Aramadan akıllı klasör oluştur',
         toggleDualPane: 'Çift bölme düzenini aç/kapat', // Command palette: Toggles between single-pane and dual-pane layout (English: Toggle dual pane layout)
         toggleCalendar: 'Takvimi aç/kapat', // Command palette: Toggles showing the calendar overlay in the navigation pane (English: Toggle calendar)
+        openStatistics: 'Kasa istatistiklerini aç', // Command palette: Opens the vault statistics dashboard (English: Open vault statistics)
         selectVaultProfile: 'Kasa profili seç', // Command palette: Opens a modal to choose a different vault profile (English: Select vault profile)
         selectVaultProfile1: 'Kasa profili 1 seç', // Command palette: Activates the first vault profile without opening the modal (English: Select vault profile 1)
         selectVaultProfile2: 'Kasa profili 2 seç', // Command palette: Activates the second vault profile without opening the modal (English: Select vault profile 2)
@@ -742,12 +1057,18 @@ export const STRINGS_TR = {
         createNewNote: 'Yeni not oluştur', // Command palette: Creates a new note in the currently selected folder (English: Create new note)
         createNewNoteFromTemplate: 'Şablondan yeni not', // Command palette: Creates a new note from a template in the currently selected folder (English: Create new note from template)
         moveFiles: 'Dosyaları taşı', // Command palette: Move selected files to another folder (English: Move files)
+        undo: 'Dosya işlemini geri al', // Command palette: Reverse the most recent file operation (English: Undo file operation)
+        redo: 'Dosya işlemini yinele', // Command palette: Reapply the most recently undone file operation (English: Redo file operation)
         selectNextFile: 'Sonraki dosyayı seç', // Command palette: Selects the next file in the current view (English: Select next file)
         selectPreviousFile: 'Önceki dosyayı seç', // Command palette: Selects the previous file in the current view (English: Select previous file)
         convertToFolderNote: 'Klasör notuna dönüştür', // Command palette: Converts the active file into a folder note with a new folder (English: Convert to folder note)
         setAsFolderNote: 'Klasör notu olarak ayarla', // Command palette: Renames the active file to its folder note name (English: Set as folder note)
         detachFolderNote: 'Klasör notunu ayır', // Command palette: Renames the active folder note to a new name (English: Detach folder note)
         pinAllFolderNotes: 'Tüm klasör notlarını sabitle', // Command palette: Pins all folder notes to shortcuts (English: Pin all folder notes)
+        writeFolderMetadataFiles: 'Klasör meta verilerini dosyalara yaz', // Command palette: Writes folder icons, colors, sort overrides and appearances to folder notes or sidecars (English: Write folder metadata to files)
+        reloadFolderMetadataFiles: 'Klasör meta verilerini dosyalardan yeniden yükle', // Command palette: Reads folder metadata from folder notes or sidecars into settings (English: Reload folder metadata from files)
+        exportConfiguration: 'Yapılandırma paketini dışa aktar', // Command palette: Writes a configuration bundle JSON file to the vault root (English: Export configuration bundle)
+        importConfiguration: 'Yapılandırma paketini içe aktar', // Command palette: Opens a dialog to import sections of a configuration bundle (English: Import configuration bundle)
         navigateToFolder: 'Klasöre git', // Command palette: Navigate to a folder using fuzzy search (English: Navigate to folder)
         navigateToTag: 'Etikete git', // Command palette: Navigate to a tag using fuzzy search (English: Navigate to tag)
         navigateToProperty: 'Özelliğe git', // Command palette: Navigate to a property key or value using fuzzy search (English: Navigate to property)
@@ -761,6 +1082,8 @@ export const STRINGS_TR = {
         addTag: 'Seçili dosyalara etiket ekle', // Command palette: Opens a dialog to add a tag to selected files (English: Add tag to selected files)
         removeTag: 'Seçili dosyalardan etiket kaldır', // Command palette: Opens a dialog to remove a tag from selected files (English: Remove tag from selected files)
         removeAllTags: 'Seçili dosyalardan tüm etiketleri kaldır', // Command palette: Removes all tags from selected files (English: Remove all tags from selected files)
+        mergeTags: 'Etiketleri birleştir', // Command palette: Opens a dialog to merge several tags into one tag (English: Merge tags)
+        editProperties: 'Seçili dosyaların özelliklerini düzenle', // Command palette: Opens a dialog to set, append to, or remove a property on selected files (English: Edit properties of selected files)
         openAllFiles: 'Tüm dosyaları aç', // Command palette: Opens all files in the current folder or tag (English: Open all files)
         rebuildCache: 'Önbelleği yeniden oluştur' // Command palette: Rebuilds the local Notebook Navigator cache (English: Rebuild cache)
     },
@@ -769,6 +1092,7 @@ export const STRINGS_TR = {
     plugin: {
         viewName: 'Notebook Navigator', // Name shown in the view header/tab (English: Notebook Navigator)
         calendarViewName: 'Takvim', // Name shown in the view header/tab (English: Calendar)
+        statisticsViewName: 'Kasa istatistikleri', // Name shown in the statistics view header/tab (English: Vault statistics)
         ribbonTooltip: 'Notebook Navigator', // Tooltip for the ribbon icon in the left sidebar (English: Notebook Navigator)
         revealInNavigator: "Notebook Navigator'da göster" // Context menu item to reveal a file in the navigator (English: Reveal in Notebook Navigator)
     },
@@ -867,7 +1191,13 @@ export const STRINGS_TR = {
                     'filename-asc': 'Dosya adı (A üstte)',
                     'filename-desc': 'Dosya adı (Z üstte)',
                     'property-asc': 'Özellik (A üstte)',
-                    'property-desc': 'Özellik (Z üstte)'
+                    'property-desc': 'Özellik (Z üstte)',
+                    'wordcount-desc': 'Kelime sayısı (en çok üstte)',
+                    'wordcount-asc': 'Kelime sayısı (en az üstte)',
+                    'tasks-desc': 'Açık görevler (en çok üstte)',
+                    'tasks-asc': 'Açık görevler (en az üstte)',
+                    'size-desc': 'Dosya boyutu (en büyük üstte)',
+                    'size-asc': 'Dosya boyutu (en küçük üstte)'
                 },
                 propertyOverride: {
                     asc: 'Özellik ‘{property}’ (A üstte)',
@@ -893,6 +1223,10 @@ export const STRINGS_TR = {
                 name: 'Liste değişikliklerinde seçili dosyaya kaydır',
                 desc: 'Notları sabitleme, alt notları gösterme, klasör görünümünü değiştirme veya dosya işlemleri çalıştırma sırasında seçili dosyaya kaydır.'
             },
+            searchNoteContent: {
+                name: 'Not içeriğinde ara',
+                desc: 'Filtre araması için not gövdelerinin yerel tam metin dizinini oluşturur. `content:` filtrelerini etkinleştirir ve düz arama kelimelerinin dosya adlarının yanı sıra not metniyle de eşleşmesini sağlar. Omnisearch gerektirmez.'
+            },
             includeDescendantNotes: {
                 name: 'Alt klasörlerden / alt öğelerden notları göster',
                 desc: 'Klasör veya etiket görüntülerken iç içe alt klasörlerden ve etiket alt öğelerinden notları dahil et.'
@@ -907,11 +1241,13 @@ export const STRINGS_TR = {
             },
             groupNotes: {
                 name: 'Notları grupla',
-                desc: 'Tarihe veya klasöre göre gruplandırılmış notlar arasında başlıklar görüntüle. Etiket görünümleri klasör gruplandırması etkinken tarih gruplarını kullanır.',
+                desc: 'Tarihe, klasöre, etikete, ilk harfe veya özellik değerine göre gruplandırılmış notlar arasında başlıklar görüntüle. Etiket görünümleri klasör gruplandırması etkinken tarih gruplarını kullanır.',
                 options: {
                     none: 'Gruplama yok',
                     date: 'Tarihe göre grupla',
-                    folder: 'Klasöre göre grupla'
+                    folder: 'Klasöre göre grupla',
+                    tag: 'Etikete göre grupla',
+                    alphabetical: 'Alfabetik grupla'
                 }
             },
             showPinnedGroupHeader: {
@@ -958,6 +1294,11 @@ export const STRINGS_TR = {
                 placeholder: '# Extension=icon\ncpp=LiFileCode\npdf=RaBook',
                 editTooltip: 'Eşlemeleri düzenle'
             },
+            fileStyleRules: {
+                name: 'Dosya stili kuralları',
+                desc: 'Bir arama filtresi sorgusuyla eşleşen dosyalara simge ve renk verin, ör. .status=done için onay simgesi veya folder:archive için gri. Kurallar kasa profilinde saklanır.',
+                buttonText: 'Kuralları düzenle'
+            },
             optimizeNoteHeight: {
                 name: 'Değişken not yüksekliği',
                 desc: 'Sabitlenmiş notlar ve önizleme metni olmayan notlar için kompakt yükseklik kullan.'
@@ -1038,6 +1379,15 @@ export const STRINGS_TR = {
                 name: 'Yeni notları yeni sekmede aç',
                 desc: 'Etkinleştirildiğinde, Yeni not oluştur komutu notları yeni bir sekmede açar. Devre dışı bırakıldığında, notlar mevcut sekmenin yerini alır.'
             },
+            newNoteFileNamePattern: {
+                name: 'Yeni not dosya adı',
+                desc: 'Yeni notlar için dosya adı deseni. {{date}}, {{date:FORMAT}}, {{time}} ve {{title}} desteklenir. Klasörler bunu klasör menüsünden geçersiz kılabilir. "Adsız" için boş bırakın.',
+                placeholder: '{{date:YYYY-MM-DD}} {{title}}'
+            },
+            promptForNewNoteTitle: {
+                name: 'Not oluştururken başlık sor',
+                desc: 'Not oluşturmadan önce başlık sorar. Başlık desendeki {{title}} yerine geçer veya desen yoksa dosya adı olur.'
+            },
             autoRevealActiveNote: {
                 name: 'Aktif notu otomatik göster',
                 desc: 'Hızlı Geçiş, bağlantılar veya aramadan açıldığında notları otomatik olarak göster.'
@@ -1214,6 +1564,11 @@ export const STRINGS_TR = {
                 desc: 'Şablon dosya seçici bu klasördeki notları gösterir.',
                 placeholder: 'Templates'
             },
+            noteTemplateRules: {
+                name: 'Not şablonu kuralları',
+                desc: 'Bir klasör, etiket veya özellikten oluşturulan notlara şablon ve dosya adı deseni uygula.',
+                buttonText: 'Kuralları düzenle'
+            },
             calendarCustomFilePattern: {
                 name: 'Günlük notlar',
                 desc: 'Moment tarih biçimini kullanarak yolu biçimlendir. Alt klasör adlarını köşeli parantez içine alın, örn. [Work]/YYYY. Şablon ayarlamak için şablon simgesine tıklayın. Şablon klasörü konumunu Genel > Şablonlar bölümünden ayarlayın.',
@@ -1268,6 +1623,16 @@ export const STRINGS_TR = {
                 notice: "Tüm ayarlar sıfırlandı. Uygulamak için Obsidian'ı yeniden başlatın veya Notebook Navigator'ı yeniden açın.",
                 error: 'Ayarları sıfırlama başarısız.'
             },
+            configBundle: {
+                name: 'Yapılandırma paketi',
+                desc: 'Kasa profillerini, kısayolları, stilleri, görünümleri, sıralama geçersiz kılmalarını, simge eşlemelerini ve klavye kısayollarını kasa kökünde bir JSON dosyasına aktarın veya başka bir kasayı kurmak için bir paketi içe aktarın.',
+                exportButton: 'Dışa aktar',
+                importButton: 'İçe aktar',
+                exportSuccess: 'Yapılandırma {filename} dosyasına aktarıldı',
+                exportFailed: 'Yapılandırma dışa aktarılamadı.',
+                importSuccess: 'Yapılandırma içe aktarıldı.',
+                importFailed: 'Yapılandırma içe aktarılamadı.'
+            },
             multiSelectModifier: {
                 name: 'Çoklu seçim değiştirici',
                 desc: 'Hangi değiştirici tuşun çoklu seçimi değiştireceğini seçin. Option/Alt seçildiğinde, Cmd/Ctrl tıklaması notları yeni sekmede açar.',
@@ -1292,6 +1657,14 @@ export const STRINGS_TR = {
                 name: 'Ctrl+Enter',
                 desc: 'Ctrl+Enter ile seçili dosyayı yeni sekmede, bölmede veya pencerede aç.'
             },
+            vimKeyboardNavigation: {
+                name: 'Vim tarzı tuş dizileri',
+                desc: 'gg ve G ilk ve son öğeye atlar, dd siler, zc ve zo daraltır ve genişletir, / aramayı açar. Özel kısayollar önceliklidir.'
+            },
+            typeAheadFind: {
+                name: 'Yazarak bul',
+                desc: 'Harf yazmak, adı yazılan metinle başlayan ilk klasöre, etikete veya nota atlar. Vim tarzı tuş dizileri açıkken kullanılamaz.'
+            },
             fileVisibility: {
                 name: 'Dosya türlerini göster (kasa profili)',
                 desc: 'Gezginde hangi dosya türlerinin gösterileceğini filtrele. Obsidian tarafından desteklenmeyen dosya türleri harici uygulamalarda açılabilir.',
@@ -1414,6 +1787,10 @@ export const STRINGS_TR = {
                     none: 'Hiçbiri'
                 }
             },
+            showTaskProgress: {
+                name: 'Görev ilerlemesi',
+                desc: 'Görev içeren notlarda tamamlanma çubuğunu ve sonraki bitiş tarihini göster.'
+            },
             propertyFields: {
                 name: 'Özellik anahtarları (kasa profili)',
                 desc: 'Gezinme ve dosya listesi için anahtar bazında görünürlük ayarlı ön bilgi özellik anahtarları.',
@@ -1526,6 +1903,15 @@ export const STRINGS_TR = {
                     alphaDesc: "Z'den A'ya"
                 }
             },
+            folderMetadataStorage: {
+                name: 'Klasör meta verisi depolama',
+                desc: 'Klasör simgelerini, renklerini, sıralama geçersiz kılmalarını ve görünümlerini kasada da saklayın; böylece eşitleme veya git ile klasörle birlikte taşınırlar. Değişiklikler iki yönde eşitlenir. Mevcut meta verileri taşımak için "Klasör meta verilerini dosyalara yaz" komutunu çalıştırın.',
+                options: {
+                    settings: 'Yalnızca eklenti ayarları',
+                    folderNote: 'Klasör notu ön bilgisi',
+                    sidecar: '.folder.yml yan dosyası'
+                }
+            },
             showNoteCount: {
                 name: 'Not sayısını göster',
                 desc: 'Her klasör ve etiketin yanında not sayısını görüntüle.'
@@ -1641,6 +2027,11 @@ export const STRINGS_TR = {
                 name: 'Özellikler klasörünü göster',
                 desc: '"Özellikler"i daraltılabilir klasör olarak görüntüle.'
             },
+            propertyHierarchies: {
+                name: 'Özellik hiyerarşileri',
+                desc: 'Notları özellik değerine göre sanal klasörlerde iç içe yerleştirin, her anahtar için bir düzey. Her satıra bir hiyerarşi, `Name: key > key > key` biçiminde. Anahtarlar özellik anahtarlarında da listelenmelidir.',
+                placeholder: 'Research: type > status > project'
+            },
             hiddenTags: {
                 name: 'Etiketleri gizle (kasa profili)',
                 desc: 'Virgülle ayrılmış etiket kalıpları listesi. Ad kalıpları: etiket* (ile başlayan), *etiket (ile biten). Yol kalıpları: arşiv (etiket ve alt öğeler), arşiv/* (yalnızca alt öğeler), projeler/*/taslaklar (ortada joker).',
@@ -46,7 +46,10 @@ export const STRINGS_UK = {
         pinnedSection: 'Закріплені', // Header for the pinned notes section at the top of file list (English: Pinned)
         notesSection: 'Нотатки', // Header shown between pinned and regular items when showing documents only (English: Notes)
         filesSection: 'Файли', // Header shown between pinned and regular items when showing supported or all files (English: Files)
-        hiddenItemAriaLabel: '{name} (приховано)' // Accessibility label applied to list items that are normally hidden
+        noPropertyValue: 'Без значення', // Header for notes without a value when grouping by property (English: No value)
+        hiddenItemAriaLabel: '{name} (приховано)', // Accessibility label applied to list items that are normally hidden
+        taskProgressAriaLabel: 'Виконано {completed} з {total} завдань', // Accessibility label for the task progress bar in file items
+        taskDue: 'Термін {date}' // Next due date shown next to the task progress bar (English: Due {date})
     },
 
     // Tag list
@@ -61,6 +64,7 @@ export const STRINGS_UK = {
         recentNotesHeader: 'Останні нотатки', // Header label for recent notes section in navigation pane (English: Recent notes)
         recentFilesHeader: 'Останні файли', // Header label when showing recent non-note files in navigation pane (English: Recent files)
         properties: 'Властивості',
+        smartFolders: 'Розумні папки',
         reorderRootFoldersTitle: 'Змінити порядок навігації',
         reorderRootFoldersHint: 'Використовуйте стрілки або перетягування',
         vaultRootLabel: 'Сховище',
@@ -130,6 +134,7 @@ export const STRINGS_UK = {
         mobileBackToNavigation: 'Назад до навігації', // Mobile-only back button text to return to navigation pane (English: Back to navigation)
         changeSortOrder: 'Змінити порядок сортування', // Tooltip for the sort order toggle button (English: Change sort order)
         defaultSort: 'За замовчуванням', // Label for default sorting mode (English: Default)
+        customSortChain: 'Власний ланцюжок сортування...',
         showFolders: 'Показати навігацію', // Tooltip for button to show the navigation pane (English: Show navigation)
         reorderRootFolders: 'Змінити порядок навігації',
         finishRootFolderReorder: 'Готово',
@@ -171,6 +176,15 @@ export const STRINGS_UK = {
                         '`-word` Виключити нотатки зі словом "word" в імені файлу.'
                     ]
                 },
+                content: {
+                    title: 'Вміст нотаток',
+                    items: [
+                        '`content:слово` Нотатки, текст яких містить слово, що починається з "слово".',
+                        '`content:"два слова"` Кожне слово має бути в тексті нотатки.',
+                        '`-content:слово` Виключити нотатки, текст яких містить слово, що починається з "слово".',
+                        'Потрібно ввімкнути **Пошук у вмісті нотаток** у налаштуваннях панелі списку. Коли ввімкнено, прості слова також шукаються в тексті.'
+                    ]
+                },
                 tags: {
                     title: 'Теги',
                     items: [
@@ -194,6 +208,8 @@ export const STRINGS_UK = {
                         '`."Reading Status"="In Progress"` Ключі та значення з пробілами повинні бути в подвійних лапках.',
                         '`-.key` Виключити нотатки з ключем властивості.',
                         '`-.key=value` Виключити нотатки з значенням властивості.',
+                        '`.key>=3`, `.key<2026-11-01` Порівняти числові властивості або властивості-дати за допомогою `>`, `>=`, `<`, `<=`.',
+                        '`.key:thisweek`, `.key:1..5`, `.key:2026-11-01..2026-11-30` Збіг з відносною датою, датою, числом або включним діапазоном.',
                         'Cmd/Ctrl+Клік на властивість для додавання з AND. Cmd/Ctrl+Shift+Клік для додавання з OR.'
                     ]
                 },
@@ -202,6 +218,8 @@ export const STRINGS_UK = {
                     items: [
                         '`has:task` Включити нотатки з незавершеними завданнями.',
                         '`-has:task` Виключити нотатки з незавершеними завданнями.',
+                        '`due:overdue`, `due:today`, `due:thisweek` Включити нотатки з відкритим завданням, термін якого потрапляє в діапазон (дати `📅` Tasks або поля `[due:: ]` Dataview).',
+                        '`due:2026-11-01..2026-11-30` Збіг із терміном або діапазоном. `-due:...` виключає нотатки з відповідним відкритим завданням.',
                         '`folder:meetings` Включити нотатки, де назва папки містить `meetings`.',
                         '`folder:/work/meetings` Включити нотатки лише в `work/meetings` (не підпапки).',
                         '`folder:/` Включити нотатки лише в корені сховища.',
@@ -213,13 +231,13 @@ export const STRINGS_UK = {
                     ]
                 },
                 connectors: {
-                    title: 'Поведінка AND/OR',
+                    title: 'AND/OR/NOT і групування',
                     items: [
-                        '`AND` та `OR` є операторами лише в запитах, що складаються виключно з тегів та властивостей.',
-                        'Запити виключно з тегів та властивостей містять лише фільтри тегів та властивостей: `#tag`, `-#tag`, `#`, `-#`, `.key`, `-.key`, `.key=value`, `-.key=value`.',
-                        'Якщо запит включає імена, дати (`@...`), фільтри завдань (`has:task`), фільтри папок (`folder:...`) або фільтри розширень (`ext:...`), `AND` та `OR` шукаються як слова.',
-                        'Приклад запиту з операторами: `#work OR .status=started`.',
-                        'Приклад змішаного запиту: `#work OR ext:md` (`OR` шукається в іменах файлів).'
+                        '`AND`, `OR` і `NOT` є операторами, якщо запит містить фільтр (`#tag`, `.key`, `@date`, `has:task`, `due:`, `folder:`, `ext:`, `content:`) або дужки.',
+                        '`( )` групує умови: `(folder:Projects OR folder:Areas) AND #active AND -ext:pdf`.',
+                        '`NOT умова` або `-умова` виключає умову. `-( )` виключає всю групу.',
+                        '`NOT` має пріоритет над `AND`, а `AND` над `OR`. Сусідні умови поєднуються неявним AND.',
+                        'У запитах лише зі слів і без дужок `AND`, `OR` і `NOT` шукаються як слова в назвах файлів (наприклад, `чорний or білий`).'
                     ]
                 },
                 dates: {
@@ -293,12 +311,14 @@ export const STRINGS_UK = {
             addTag: 'Додати тег',
             removeTag: 'Вилучити тег',
             removeAllTags: 'Вилучити всі теги',
+            editProperties: 'Редагувати властивості',
             changeIcon: 'Змінити іконку',
             changeColor: 'Змінити колір'
         },
         folder: {
             newNote: 'Нова нотатка',
             newNoteFromTemplate: 'Нова нотатка з шаблону',
+            newNoteFileName: 'Назва файлу нових нотаток...',
             newFolder: 'Нова папка',
             newCanvas: 'Нове полотно',
             newBase: 'Нова база даних',
@@ -323,14 +343,24 @@ export const STRINGS_UK = {
             changeIcon: 'Змінити іконку',
             changeColor: 'Змінити колір',
             changeBackground: 'Змінити фон',
+            mergeTags: 'Об’єднати теги...',
+            splitTag: 'Розділити тег...',
             showTag: 'Показати тег',
             hideTag: 'Сховати тег'
         },
         property: {
             addKey: 'Налаштувати ключі властивостей',
             renameKey: 'Перейменувати властивість',
+            renameValue: 'Перейменувати значення',
+            mergeValue: 'Об’єднати зі значенням...',
             deleteKey: 'Видалити властивість'
         },
+        smartFolder: {
+            newSmartFolder: 'Нова розумна папка',
+            newNestedSmartFolder: 'Нова вкладена розумна папка',
+            editSmartFolder: 'Редагувати розумну папку',
+            deleteSmartFolder: 'Видалити розумну папку'
+        },
         navigation: {
             addSeparator: 'Додати роздільник',
             removeSeparator: 'Вилучити роздільник'
@@ -356,11 +386,25 @@ export const STRINGS_UK = {
     folderAppearance: {
         standardPreset: 'Стандартний',
         compactPreset: 'Компактний',
+        gridPreset: 'Сітка',
+        boardPreset: 'Дошка...',
+        boardPresetOption: (property: string) => `Дошка (${property})`,
+        boardPropertyAction: 'Стовпці дошки за властивістю',
+        boardPropertyPlaceholder: 'Ключ властивості',
+        tileSize: 'Розмір плиток',
+        tileSizeOptions: {
+            small: 'Малі плитки',
+            medium: 'Середні плитки',
+            large: 'Великі плитки'
+        },
         defaultSuffix: '(за замовчуванням)',
         defaultLabel: 'За замовчуванням',
         titleRows: 'Рядки заголовка',
         previewRows: 'Рядки попереднього перегляду',
         groupBy: 'Групувати за',
+        groupByPropertyAction: 'Групувати за властивістю...',
+        groupByPropertyPlaceholder: 'Ключ властивості',
+        groupByPropertyOption: (property: string) => `Групувати за властивістю (${property})`,
         defaultTitleOption: (rows: number) => `Рядки заголовка за замовчуванням (${rows})`,
         defaultPreviewOption: (rows: number) => `Рядки попереднього перегляду за замовчуванням (${rows})`,
         defaultGroupOption: (groupLabel: string) => `Групування за замовчуванням (${groupLabel})`,
@@ -384,6 +428,89 @@ export const STRINGS_UK = {
         fileIconRuleEditor: {
             addRuleAria: 'Додати правило'
         },
+        sortChain: {
+            title: 'Власний ланцюжок сортування',
+            description: 'Нотатки сортуються за першим ключем. Кожен наступний ключ упорядковує нотатки, рівні за ключами вище.',
+            propertyPlaceholder: 'Ключ властивості',
+            ascending: 'За зростанням',
+            descending: 'За спаданням',
+            addKey: 'Додати ключ сортування',
+            moveUp: 'Вгору',
+            moveDown: 'Вниз',
+            save: 'Зберегти',
+            fields: {
+                modified: 'Дата редагування',
+                created: 'Дата створення',
+                title: 'Заголовок',
+                filename: 'Назва файлу',
+                property: 'Властивість',
+                wordcount: 'Кількість слів',
+                tasks: 'Відкриті завдання',
+                size: 'Розмір файлу'
+            }
+        },
+        noteTemplateRules: {
+            title: 'Правила шаблонів нотаток',
+            description:
+                'Нотатки, створені з теки, тегу або властивості, використовують шаблон і назву файлу першого відповідного правила. Назви файлів підтримують {{date}}, {{date:FORMAT}}, {{time}} і {{title}}.',
+            folderPatternPlaceholder: 'Шлях до теки, напр. Meetings або Projects/*/Notes',
+            tagPatternPlaceholder: 'Тег, напр. meeting',
+            propertyPatternPlaceholder: 'Властивість, напр. type або type=meeting',
+            templatePlaceholder: 'Файл шаблону',
+            fileNamePlaceholder: 'Шаблон назви файлу, напр. {{date}} Meeting',
+            emptyState: 'Правил немає. Нові нотатки створюються порожніми.',
+            addRule: 'Додати правило',
+            moveUp: 'Вгору',
+            moveDown: 'Вниз',
+            save: 'Зберегти',
+            targets: {
+                folder: 'Тека',
+                tag: 'Тег',
+                property: 'Властивість'
+            }
+        },
+        fileStyleRules: {
+            title: 'Правила стилю файлів',
+            description:
+                'Файли, що відповідають запиту правила, отримують його значок і колір. Запити використовують синтаксис фільтра пошуку. Правила перевіряються згори донизу: перше відповідне правило зі значком задає значок, а перше відповідне правило з кольором задає колір. Значки й кольори, задані для файлу напряму, мають пріоритет.',
+            queryPlaceholder: 'Запит фільтра, наприклад .status=done, #meeting або folder:archive',
+            emptyState: 'Немає правил.',
+            setIcon: 'Задати значок',
+            setColor: 'Задати колір',
+            addRule: 'Додати правило',
+            moveUp: 'Вгору',
+            moveDown: 'Вниз',
+            save: 'Зберегти'
+        },
+        configBundleImport: {
+            title: 'Імпорт пакета конфігурації',
+            description:
+                'Виберіть JSON-файл пакета у сховищі, а потім розділи для імпорту. Імпортовані значення перевіряються так само, як звичайні налаштування.',
+            filePlaceholder: 'Шлях до пакета, наприклад notebook-navigator-config.json',
+            sectionsLabel: 'Розділи для імпорту',
+            strategyLabel: 'Наявні налаштування',
+            strategies: {
+                merge: 'Об’єднати, записи пакета мають пріоритет',
+                replace: 'Замінити вибрані розділи'
+            },
+            bundleInfo: 'Експортовано {date} з Notebook Navigator {version}',
+            importButton: 'Імпортувати',
+            sections: {
+                vaultProfiles: 'Профілі сховища та ярлики',
+                styling: 'Значки й кольори папок, тегів і властивостей',
+                appearances: 'Вигляд папок і тегів',
+                sortOverrides: 'Перевизначення сортування',
+                iconMaps: 'Зіставлення значків і значки інтерфейсу',
+                keyboardShortcuts: 'Сполучення клавіш'
+            },
+            errors: {
+                invalidJson: 'Файл не є коректним JSON.',
+                invalidFormat: 'Файл не є пакетом конфігурації Notebook Navigator.',
+                unsupportedVersion: 'Цей пакет створено новішою версією Notebook Navigator.',
+                empty: 'Пакет не містить розділів, які можна імпортувати.',
+                readFailed: 'Не вдалося прочитати файл.'
+            }
+        },
         interfaceIcons: {
             title: 'Іконки інтерфейсу',
             fileItemsSection: 'Елементи файлу',
@@ -414,6 +541,8 @@ export const STRINGS_UK = {
                 'nav-properties': 'Властивості',
                 'nav-property': 'Властивість',
                 'nav-property-value': 'Значення',
+                'nav-smart-folders': 'Розумні папки',
+                'nav-smart-folder': 'Розумна папка',
                 'list-pinned': 'Закріплені елементи',
                 'file-unfinished-task': 'Незавершені завдання',
                 'file-word-count': 'Кількість слів'
@@ -491,6 +620,109 @@ export const STRINGS_UK = {
             deleteSettingsUpdateFailed: 'Властивість {property} видалено. Не вдалося оновити налаштування.',
             invalidKeyName: 'Введіть допустиму назву властивості.'
         },
+        propertyValueEdit: {
+            title: 'Редагувати властивості',
+            description: 'Змінити властивість у {count} {files}.',
+            keyLabel: 'Властивість',
+            keyPlaceholder: 'Назва властивості',
+            modeLabel: 'Дія',
+            modes: {
+                set: 'Встановити значення',
+                append: 'Додати до списку',
+                remove: 'Видалити властивість'
+            },
+            valueLabel: 'Значення',
+            valuePlaceholder: 'Значення',
+            emptyValue: '(порожньо)',
+            previewTitle: 'Попередній перегляд',
+            changeSummary: 'Буде змінено нотаток: {count} з {total}',
+            noChanges: 'Немає нотаток, що потребують змін.',
+            apply: 'Застосувати',
+            successSingle: 'Властивість {property} оновлено в 1 нотатці',
+            successMultiple: 'Властивість {property} оновлено в нотатках: {count}',
+            partialFailure: 'Властивість {property} оновлено в нотатках: {count}. Не вдалося оновити нотаток: {failed}.'
+        },
+        propertyValueRename: {
+            renameTitle: 'Перейменувати значення {value}',
+            renameWarning: 'Перейменування {property}: {value} змінить {count} {files}. Введення наявного значення об’єднає два значення.',
+            newValuePrompt: 'Нове значення',
+            newValuePlaceholder: 'Введіть нове значення',
+            confirmRename: 'Перейменувати значення',
+            mergeTitle: 'Об’єднати значення {value}',
+            mergeWarning: 'Об’єднання {oldValue} з {newValue} змінить {count} {files}. {newValue} збереже власні значок, колір і ярлики.',
+            mergePlaceholder: 'Об’єднати {value} з...',
+            mergeInstruction: 'для об’єднання',
+            confirmMerge: 'Об’єднати значення',
+            noOtherValues: 'Властивість {property} не має інших значень',
+            nestedTarget: 'Значення не можна перейменувати на одне з його вкладених значень.',
+            invalidValue: 'Введіть дійсне значення.',
+            noChanges: '{oldValue} → {newValue} (без змін)',
+            successSingle: 'Перейменовано {oldValue} → {newValue} в 1 нотатці',
+            successMultiple: 'Перейменовано {oldValue} → {newValue} у нотатках: {count}',
+            partialFailure: 'Перейменовано {oldValue} → {newValue} у нотатках: {count}. Не вдалося оновити нотаток: {failed}.'
+        },
+        tagOperationSummary: {
+            close: 'Закрити',
+            updatedNotes: 'Оновлені нотатки',
+            skippedNotes: 'Пропущені нотатки',
+            skippedDescription: 'Ці нотатки змінилися після попереднього перегляду або не потребували оновлення.',
+            failedNotes: 'Нотатки з помилками',
+            reportSummary: 'Оновлено нотаток: {changed} з {total}.'
+        },
+        tagMerge: {
+            title: 'Об’єднати теги',
+            description: 'Об’єднайте кілька тегів в один. Вкладені теги переміщуються разом із батьківським тегом.',
+            sourcesLabel: 'Теги для об’єднання',
+            sourcesPlaceholder: 'Теги через кому',
+            targetLabel: 'Об’єднати в',
+            targetPlaceholder: 'Цільовий тег',
+            preview: 'Попередній перегляд об’єднання',
+            nothingToMerge:
+                'Немає тегів для об’єднання. Переконайтеся, що теги використовуються в нотатках і відрізняються від цільового тегу.',
+            previewTitle: 'Об’єднати в {tag}',
+            previewDescription: 'Об’єднання {tags} в {tag} змінить нотаток: {count}.',
+            confirm: 'Об’єднати теги',
+            affectedNotes: 'Зачеплені нотатки',
+            skippedTags: 'Пропущені теги',
+            skipReasons: {
+                sameAsTarget: 'збігається з цільовим тегом',
+                containsTarget: 'цільовий тег вкладений у цей тег',
+                nestedInSource: 'об’єднується разом із батьківським тегом',
+                noNotes: 'не використовується в жодній нотатці'
+            },
+            alreadyTagged: 'Нотатки, що вже містять {tag}',
+            alreadyTaggedDescription: 'Ці нотатки міститимуть цільовий тег кілька разів.',
+            multipleSources: 'Нотатки з кількома об’єднуваними тегами',
+            multipleSourcesDescription: 'Кожна з цих нотаток міститиме цільовий тег кілька разів.',
+            nestedCollisions: 'Конфлікти вкладених тегів',
+            nestedCollisionsDescription: 'Ці вкладені теги об’єднаються з уже наявними вкладеними тегами.',
+            notFinalized: 'Метадані не перенесено',
+            notFinalizedDescription: 'Деякі нотатки з цими тегами не було оновлено, тому їхні значки, кольори та ярлики збережено.',
+            reportTitle: 'Об’єднано в {tag}'
+        },
+        tagSplit: {
+            title: 'Розділити тег {tag}',
+            description:
+                '{files} з тегом рівно {tag}: {count}. Кожна нотатка переходить до дочірнього тегу першого відповідного правила. Нотатки без відповідного правила зберігають {tag}.',
+            childPlaceholder: 'Дочірній тег',
+            kinds: {
+                folder: 'Папка',
+                query: 'Запит фільтра'
+            },
+            folderPlaceholder: 'Шлях до папки (включно з підпапками)',
+            queryPlaceholder: 'Запит фільтра пошуку',
+            addRule: 'Додати правило',
+            preview: 'Попередній перегляд розділення',
+            nothingMatched: 'Жодна нотатка не відповідає правилам.',
+            previewTitle: 'Розділити {tag}',
+            previewDescription: 'До дочірнього тегу перейде нотаток: {count} з {total} з тегом {tag}.',
+            confirm: 'Розділити тег',
+            invalidRules: 'Правила, які неможливо перевірити',
+            invalidRulesDescription: 'Запитам фільтра потрібні умови пошуку та готовий кеш нотаток.',
+            unmatched: 'Нотатки без відповідного правила',
+            unmatchedDescription: 'Ці нотатки зберігають {tag}.',
+            reportTitle: 'Тег {tag} розділено'
+        },
         fileSystem: {
             newFolderTitle: 'Нова папка',
             renameFolderTitle: 'Перейменувати папку',
@@ -500,6 +732,10 @@ export const STRINGS_UK = {
             deleteFileAttachmentsTitle: 'Видалити вкладення файлу?',
             moveFileConflictTitle: 'Конфлікт переміщення',
             folderNamePrompt: 'Введіть назву папки:',
+            newNoteTitle: 'Нова нотатка',
+            noteTitlePrompt: 'Введіть назву нотатки:',
+            createNoteButton: 'Створити',
+            newNoteFileNamePrompt: 'Шаблон назви файлу, напр. {{date:YYYYMMDDHHmm}} {{title}}. Залиште порожнім для типового значення.',
             hideInOtherVaultProfiles: 'Сховати в інших профілях сховища',
             renamePrompt: 'Введіть нову назву:',
             renameVaultTitle: 'Змінити відображувану назву сховища',
@@ -593,6 +829,23 @@ export const STRINGS_UK = {
             applyButton: 'Застосувати',
             emptyState: 'Ключі властивостей не знайдено.'
         },
+        smartFolder: {
+            newTitle: 'Нова розумна папка',
+            newNestedTitle: 'Нова розумна папка в {name}',
+            editTitle: 'Редагувати розумну папку',
+            nameLabel: 'Назва',
+            namePlaceholder: 'Назва розумної папки',
+            queryLabel: 'Запит фільтра',
+            queryPlaceholder: '#project AND -#archived',
+            queryDescription:
+                'Використовує синтаксис пошуку за фільтром. Вкладені розумні папки показують лише нотатки, які також відповідають запитам батьківських папок.',
+            create: 'Створити',
+            save: 'Зберегти',
+            emptyName: 'Назва розумної папки не може бути порожньою',
+            duplicateName: 'Тут уже є розумна папка з такою назвою',
+            deleteTitle: 'Видалити розумну папку "{name}"?',
+            deleteMessage: 'Вкладені розумні папки також буде видалено. Нотатки не змінюються.'
+        },
         welcome: {
             title: 'Ласкаво просимо до {pluginName}',
             introText:
@@ -675,6 +928,9 @@ export const STRINGS_UK = {
             iconPackUpdated: '{provider} оновлено ({version})',
             iconPackRemoved: '{provider} вилучено',
             iconPackLoadFailed: 'Не вдалося завантажити {provider}',
+            folderMetadataWritten: 'Записано метадані для папок: {count}',
+            folderMetadataLoaded: 'Завантажено метадані для папок: {count}',
+            folderMetadataStorageDisabled: 'Спершу виберіть зберігання в нотатці папки або супровідному файлі в налаштуваннях папок',
             hiddenFileReveal: 'Файл прихований. Увімкніть "Показати приховані елементи" для відображення'
         },
         confirmations: {
@@ -704,7 +960,62 @@ export const STRINGS_UK = {
             filesAlreadyHaveProperty: '{count} файлів вже мають цю властивість',
             noTagsToClear: 'Немає тегів для очищення',
             fileImported: 'Імпортовано 1 файл',
-            filesImported: 'Імпортовано {count} файлів'
+            filesImported: 'Імпортовано {count} файлів',
+            filesMoved: 'Переміщено файлів до {folder}: {count}'
+        }
+    },
+
+    // Undo history
+    undoHistory: {
+        undo: 'Скасувати',
+        undone: 'Скасовано: {action}',
+        redone: 'Повторено: {action}',
+        nothingToUndo: 'Нічого скасовувати',
+        nothingToRedo: 'Нічого повторювати',
+        failed: 'Не вдалося скасувати «{action}»: {error}',
+        partial: 'Не вдалося відновити елементів: {count}',
+        actions: {
+            moveFile: 'Перемістити «{name}»',
+            moveFiles: 'Перемістити файли: {count}',
+            moveFolder: 'Перемістити папку «{name}»',
+            renameFile: 'Перейменувати «{name}»',
+            renameFolder: 'Перейменувати папку «{name}»',
+            addTag: 'Додати тег #{tag}',
+            removeTag: 'Видалити тег #{tag}',
+            renameProperty: 'Перейменувати властивість {oldKey} → {newKey}',
+            editProperty: 'Редагувати властивість {property}',
+            renamePropertyValue: 'Перейменувати значення {property} {oldValue} → {newValue}',
+            changeAppearance: 'Змінити вигляд «{name}»'
+        }
+    },
+
+    // Vault statistics dashboard
+    statisticsDashboard: {
+        refresh: 'Оновити',
+        loading: 'Очікування кешу нотаток...',
+        unavailable: 'Не вдалося обчислити статистику.',
+        empty: 'Немає даних',
+        weekLabel: 'Тиждень з {date}',
+        createdCount: 'Створено: {count}',
+        modifiedCount: 'Змінено: {count}',
+        summary: {
+            notes: 'Нотатки',
+            words: 'Слова',
+            openTasks: 'Відкриті завдання',
+            untagged: 'Нотатки без тегів',
+            orphaned: 'Нотатки-сироти',
+            orphanedDescription: 'Нотатки, на які не посилається жодна інша нотатка'
+        },
+        sections: {
+            activity: 'Створені та змінені нотатки за тижнями',
+            wordsPerFolder: 'Слова за папками',
+            openTasksPerFolder: 'Відкриті завдання за папками',
+            topTags: 'Популярні теги',
+            topProperties: 'Популярні властивості'
+        },
+        legend: {
+            created: 'Створені',
+            modified: 'Змінені'
         }
     },
 
@@ -729,8 +1040,10 @@ export const STRINGS_UK = {
         revealFile: 'Показати файл', // Command palette: Reveals and selects the currently active file in the navigator (English: Reveal file)
         search: 'Пошук', // Command palette: Toggle search in the file list (English: Search)
         searchVaultRoot: 'Пошук у корені сховища', // Command palette: Selects the vault root folder and focuses search (English: Search in vault root)
+        createSmartFolder: 'Створити розумну папку з пошуку',
         toggleDualPane: 'Перемкнути подвійну панель', // Command palette: Toggles between single-pane and dual-pane layout (English: Toggle dual pane layout)
         toggleCalendar: 'Перемкнути календар', // Command palette: Toggles showing the calendar overlay in the navigation pane (English: Toggle calendar)
+        openStatistics: 'Відкрити статистику сховища', // Command palette: Opens the vault statistics dashboard (English: Open vault statistics)
         selectVaultProfile: 'Вибрати профіль сховища', // Command palette: Opens a modal to choose a different vault profile (English: Select vault profile)
         selectVaultProfile1: 'Вибрати профіль сховища 1', // Command palette: Activates the first vault profile without opening the modal (English: Select vault profile 1)
         selectVaultProfile2: 'Вибрати профіль сховища 2', // Command palette: Activates the second vault profile without opening the modal (English: Select vault profile 2)
@@ -739,12 +1052,18 @@ export const STRINGS_UK = {
         createNewNote: 'Створити нову нотатку', // Command palette: Creates a new note in the currently selected folder (English: Create new note)
         createNewNoteFromTemplate: 'Нова нотатка з шаблону', // Command palette: Creates a new note from a template in the currently selected folder (English: Create new note from template)
         moveFiles: 'Перемістити файли', // Command palette: Move selected files to another folder (English: Move files)
+        undo: 'Скасувати операцію з файлами', // Command palette: Reverse the most recent file operation (English: Undo file operation)
+        redo: 'Повторити операцію з файлами', // Command palette: Reapply the most recently undone file operation (English: Redo file operation)
         selectNextFile: 'Вибрати наступний файл', // Command palette: Selects the next file in the current view (English: Select next file)
         selectPreviousFile: 'Вибрати попередній файл', // Command palette: Selects the previous file in the current view (English: Select previous file)
         convertToFolderNote: 'Конвертувати в нотатку папки', // Command palette: Converts the active file into a folder note with a new folder (English: Convert to folder note)
         setAsFolderNote: 'Встановити як нотатку папки', // Command palette: Renames the active file to its folder note name (English: Set as folder note)
         detachFolderNote: "Від'єднати нотатку папки", // Command palette: Renames the active folder note to a new name (English: Detach folder note)
         pinAllFolderNotes: 'Закріпити всі нотатки папок', // Command palette: Pins all folder notes to shortcuts (English: Pin all folder notes)
+        writeFolderMetadataFiles: 'Записати метадані папок у файли', // Command palette: Writes folder icons, colors, sort overrides and appearances to folder notes or sidecars (English: Write folder metadata to files)
+        reloadFolderMetadataFiles: 'Перезавантажити метадані папок із файлів', // Command palette: Reads folder metadata from folder notes or sidecars into settings (English: Reload folder metadata from files)
+        exportConfiguration: 'Експорт пакета конфігурації', // Command palette: Writes a configuration bundle JSON file to the vault root (English: Export configuration bundle)
+        importConfiguration: 'Імпорт пакета конфігурації', // Command palette: Opens a dialog to import sections of a configuration bundle (English: Import configuration bundle)
         navigateToFolder: 'Перейти до папки', // Command palette: Navigate to a folder using fuzzy search (English: Navigate to folder)
         navigateToTag: 'Перейти до тегу', // Command palette: Navigate to a tag using fuzzy search (English: Navigate to tag)
         navigateToProperty: 'Перейти до властивості', // Command palette: Navigate to a property key or value using fuzzy search (English: Navigate to property)
@@ -758,6 +1077,8 @@ export const STRINGS_UK = {
         addTag: 'Додати тег до вибраних файлів', // Command palette: Opens a dialog to add a tag to selected files (English: Add tag to selected files)
         removeTag: 'Вилучити тег з вибраних файлів', // Command palette: Opens a dialog to remove a tag from selected files (English: Remove tag from selected files)
         removeAllTags: 'Вилучити всі теги з вибраних файлів', // Command palette: Removes all tags from selected files (English: Remove all tags from selected files)
+        mergeTags: 'Об’єднати теги', // Command palette: Opens a dialog to merge several tags into one tag (English: Merge tags)
+        editProperties: 'Редагувати властивості вибраних файлів', // Command palette: Opens a dialog to set, append to, or remove a property on selected files (English: Edit properties of selected files)
         openAllFiles: 'Відкрити всі файли', // Command palette: Opens all files in the current folder or tag (English: Open all files)
         rebuildCache: 'Перебудувати кеш' // Command palette: Rebuilds the local Notebook Navigator cache (English: Rebuild cache)
     },
@@ -766,6 +1087,7 @@ export const STRINGS_UK = {
     plugin: {
         viewName: 'Notebook Navigator', // Name shown in the view header/tab (English: Notebook Navigator)
         calendarViewName: 'Календар', // Name shown in the view header/tab (English: Calendar)
+        statisticsViewName: 'Статистика сховища', // Name shown in the statistics view header/tab (English: Vault statistics)
         ribbonTooltip: 'Notebook Navigator', // Tooltip for the ribbon icon in the left sidebar (English: Notebook Navigator)
         revealInNavigator: 'Показати в Notebook Navigator' // Context menu item to reveal a file in the navigator (English: Reveal in Notebook Navigator)
     },
@@ -864,7 +1186,13 @@ export const STRINGS_UK = {
                     'filename-asc': "Ім'я файлу (А зверху)",
                     'filename-desc': "Ім'я файлу (Я зверху)",
                     'property-asc': 'Властивість (А зверху)',
-                    'property-desc': 'Властивість (Я зверху)'
+                    'property-desc': 'Властивість (Я зверху)',
+                    'wordcount-desc': 'Кількість слів (найбільше зверху)',
+                    'wordcount-asc': 'Кількість слів (найменше зверху)',
+                    'tasks-desc': 'Відкриті завдання (найбільше зверху)',
+                    'tasks-asc': 'Відкриті завдання (найменше зверху)',
+                    'size-desc': 'Розмір файлу (найбільші зверху)',
+                    'size-asc': 'Розмір файлу (найменші зверху)'
                 },
                 propertyOverride: {
                     asc: 'Властивість ‘{property}’ (А зверху)',
@@ -890,6 +1218,10 @@ export const STRINGS_UK = {
                 name: 'Прокручувати до вибраного файлу при змінах списку',
                 desc: 'Прокручувати до вибраного файлу при закріпленні нотаток, показі нотаток нащадків, зміні вигляду папки або виконанні файлових операцій.'
             },
+            searchNoteContent: {
+                name: 'Пошук у вмісті нотаток',
+                desc: 'Створює локальний повнотекстовий індекс тексту нотаток для фільтра пошуку. Вмикає фільтри `content:` і дозволяє простим словам знаходити текст нотаток, а не лише імена файлів. Omnisearch не потрібен.'
+            },
             includeDescendantNotes: {
                 name: 'Показувати нотатки з підпапок / нащадків',
                 desc: 'Включати нотатки з вкладених підпапок та нащадків тегів при перегляді папки або тегу.'
@@ -904,11 +1236,13 @@ export const STRINGS_UK = {
             },
             groupNotes: {
                 name: 'Групувати нотатки',
-                desc: 'Відображати заголовки між нотатками, згрупованими за датою або папкою. Перегляди тегів використовують групи за датою, коли увімкнено групування за папками.',
+                desc: 'Відображати заголовки між нотатками, згрупованими за датою, папкою, тегом, першою літерою або значенням властивості. Перегляди тегів використовують групи за датою, коли увімкнено групування за папками.',
                 options: {
                     none: 'Не групувати',
                     date: 'Групувати за датою',
-                    folder: 'Групувати за папкою'
+                    folder: 'Групувати за папкою',
+                    tag: 'Групувати за тегом',
+                    alphabetical: 'Групувати за алфавітом'
                 }
             },
             showPinnedGroupHeader: {
@@ -955,6 +1289,11 @@ export const STRINGS_UK = {
                 placeholder: '# Extension=icon\ncpp=LiFileCode\npdf=RaBook',
                 editTooltip: 'Редагувати зіставлення'
             },
+            fileStyleRules: {
+                name: 'Правила стилю файлів',
+                desc: 'Призначайте значок і колір файлам, що відповідають запиту фільтра пошуку, наприклад позначку для .status=done або сірий для folder:archive. Правила зберігаються в профілі сховища.',
+                buttonText: 'Редагувати правила'
+            },
             optimizeNoteHeight: {
                 name: 'Змінна висота нотаток',
                 desc: 'Використовувати компактну висоту для закріплених нотаток та нотаток без тексту попереднього перегляду.'
@@ -1035,6 +1374,15 @@ export const STRINGS_UK = {
                 name: 'Відкривати нові нотатки в новій вкладці',
                 desc: 'Якщо увімкнено, команда «Створити нову нотатку» відкриває нотатки в новій вкладці. Якщо вимкнено, нотатки замінюють поточну вкладку.'
             },
+            newNoteFileNamePattern: {
+                name: 'Назва файлу нових нотаток',
+                desc: 'Шаблон назви файлу для нових нотаток. Підтримує {{date}}, {{date:FORMAT}}, {{time}} і {{title}}. Теки можуть перевизначити його в меню теки. Залиште порожнім для «Без назви».',
+                placeholder: '{{date:YYYY-MM-DD}} {{title}}'
+            },
+            promptForNewNoteTitle: {
+                name: 'Запитувати назву під час створення нотаток',
+                desc: 'Перед створенням нотатки запитується назва. Вона підставляється в {{title}} шаблону або стає назвою файлу, якщо шаблон не задано.'
+            },
             autoRevealActiveNote: {
                 name: 'Автоматично показувати активну нотатку',
                 desc: 'Автоматично показувати нотатки при відкритті з Швидкого перемикача, посилань або пошуку.'
@@ -1211,6 +1559,11 @@ export const STRINGS_UK = {
                 desc: 'Вибір файлу шаблону показує нотатки з цієї папки.',
                 placeholder: 'Templates'
             },
+            noteTemplateRules: {
+                name: 'Правила шаблонів нотаток',
+                desc: 'Застосовувати шаблон і шаблон назви файлу до нотаток, створених з теки, тегу або властивості.',
+                buttonText: 'Редагувати правила'
+            },
             calendarCustomFilePattern: {
                 name: 'Щоденні нотатки',
                 desc: 'Формат шляху з використанням формату дати Moment. Беріть назви підпапок у квадратні дужки, напр. [Work]/YYYY. Натисніть на іконку шаблону, щоб задати шаблон. Вкажіть розташування теки шаблонів у Загальне > Шаблони.',
@@ -1265,6 +1618,16 @@ export const STRINGS_UK = {
                 notice: 'Усі налаштування скинуто. Перезапустіть Obsidian або відкрийте Notebook Navigator знову для застосування.',
                 error: 'Не вдалося скинути налаштування.'
             },
+            configBundle: {
+                name: 'Пакет конфігурації',
+                desc: 'Експортуйте профілі сховища, ярлики, стилі, вигляд, перевизначення сортування, зіставлення значків і сполучення клавіш у JSON-файл у корені сховища або імпортуйте пакет, щоб налаштувати інше сховище.',
+                exportButton: 'Експортувати',
+                importButton: 'Імпортувати',
+                exportSuccess: 'Конфігурацію експортовано до {filename}',
+                exportFailed: 'Не вдалося експортувати конфігурацію.',
+                importSuccess: 'Конфігурацію імпортовано.',
+                importFailed: 'Не вдалося імпортувати конфігурацію.'
+            },
             multiSelectModifier: {
                 name: 'Модифікатор множинного вибору',
                 desc: 'Виберіть, яка клавіша-модифікатор перемикає множинний вибір. При виборі Option/Alt натискання Cmd/Ctrl відкриває нотатки в новій вкладці.',
@@ -1289,6 +1652,14 @@ export const STRINGS_UK = {
                 name: 'Ctrl+Enter',
                 desc: 'Відкрити вибраний файл у новій вкладці, розділенні або вікні при натисканні Ctrl+Enter.'
             },
+            vimKeyboardNavigation: {
+                name: 'Послідовності клавіш у стилі Vim',
+                desc: 'gg і G переходять до першого й останнього елемента, dd видаляє, zc і zo згортають і розгортають, / відкриває пошук. Власні гарячі клавіші мають пріоритет.'
+            },
+            typeAheadFind: {
+                name: 'Пошук під час введення',
+                desc: 'Введення літер переходить до першої теки, тегу або нотатки, назва яких починається з введеного тексту. Недоступно, коли ввімкнено послідовності в стилі Vim.'
+            },
             fileVisibility: {
                 name: 'Показувати типи файлів (профіль сховища)',
                 desc: 'Фільтрувати, які типи файлів показуються в навігаторі. Типи файлів, не підтримувані Obsidian, можуть відкриватися в зовнішніх програмах.',
@@ -1412,6 +1783,10 @@ export const STRINGS_UK = {
                     none: 'Немає'
                 }
             },
+            showTaskProgress: {
+                name: 'Прогрес завдань',
+                desc: 'Показувати смугу виконання та найближчий термін для нотаток із завданнями.'
+            },
             propertyFields: {
                 name: 'Ключі властивостей (профіль сховища)',
                 desc: 'Ключі властивостей метаданих з налаштуванням видимості для кожного ключа в навігації та списку файлів.',
@@ -1524,6 +1899,15 @@ export const STRINGS_UK = {
                     alphaDesc: 'Від Я до А'
                 }
             },
+            folderMetadataStorage: {
+                name: 'Зберігання метаданих папок',
+                desc: 'Також зберігати значки, кольори, перевизначення сортування та вигляд папок у сховищі, щоб вони переносилися разом із папкою через синхронізацію або git. Зміни синхронізуються в обидва боки. Виконайте «Записати метадані папок у файли», щоб перенести наявні метадані.',
+                options: {
+                    settings: 'Лише налаштування плагіна',
+                    folderNote: 'Frontmatter нотатки папки',
+                    sidecar: 'Супровідний файл .folder.yml'
+                }
+            },
             showNoteCount: {
                 name: 'Показувати кількість нотаток',
                 desc: 'Відображати кількість нотаток поряд з кожною папкою та тегом.'
@@ -1639,6 +2023,11 @@ export const STRINGS_UK = {
                 name: 'Показати папку властивостей',
                 desc: 'Відображати «Властивості» як згортувану папку.'
             },
+            propertyHierarchies: {
+                name: 'Ієрархії властивостей',
+                desc: 'Вкладати нотатки у віртуальні папки за значеннями властивостей, один рівень на ключ. Одна ієрархія на рядок у форматі `Name: key > key > key`. Ключі також мають бути вказані в ключах властивостей.',
+                placeholder: 'Research: type > status > project'
+            },
             hiddenTags: {
                 name: 'Приховати теги (профіль сховища)',
                 desc: 'Список шаблонів тегів, розділених комами. Шаблони назв: тег* (починається з), *тег (закінчується на). Шаблони шляхів: архів (тег і нащадки), архів/* (лише нащадки), проекти/*/чернетки (символ підстановки посередині).',
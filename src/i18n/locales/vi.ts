@@ -46,7 +46,10 @@ export const STRINGS_VI = {
         pinnedSection: 'Đã ghim', // Header for the pinned notes section at the top of file list (English: Pinned)
         notesSection: 'Ghi chú', // Header shown between pinned and regular items when showing documents only (English: Notes)
         filesSection: 'Tệp', // Header shown between pinned and regular items when showing supported or all files (English: Files)
-        hiddenItemAriaLabel: '{name} (ẩn)' // Accessibility label applied to list items that are normally hidden
+        noPropertyValue: 'Không có giá trị', // Header for notes without a value when grouping by property (English: No value)
+        hiddenItemAriaLabel: '{name} (ẩn)', // Accessibility label applied to list items that are normally hidden
+        taskProgressAriaLabel: 'Đã hoàn thành {completed}/{total} công việc', // Accessibility label for the task progress bar in file items
+        taskDue: 'Hạn {date}' // Next due date shown next to the task progress bar (English: Due {date})
     },
 
     // Tag list
@@ -61,6 +64,7 @@ export const STRINGS_VI = {
         recentNotesHeader: 'Ghi chú gần đây', // Header label for recent notes section in navigation pane (English: Recent notes)
         recentFilesHeader: 'Tệp gần đây', // Header label when showing recent non-note files in navigation pane (English: Recent files)
         properties: 'Thuộc tính',
+        smartFolders: 'Thư mục thông minh',
         reorderRootFoldersTitle: 'Sắp xếp lại điều hướng',
         reorderRootFoldersHint: 'Dùng mũi tên hoặc kéo để sắp xếp lại',
         vaultRootLabel: 'Vault',
@@ -130,6 +134,7 @@ export const STRINGS_VI = {
         mobileBackToNavigation: 'Quay lại điều hướng', // Mobile-only back button text to return to navigation pane (English: Back to navigation)
         changeSortOrder: 'Đổi thứ tự sắp xếp', // Tooltip for the sort order toggle button (English: Change sort order)
         defaultSort: 'Mặc định', // Label for default sorting mode (English: Default)
+        customSortChain: 'Chuỗi sắp xếp tùy chỉnh...',
         showFolders: 'Hiện điều hướng', // Tooltip for button to show the navigation pane (English: Show navigation)
         reorderRootFolders: 'Sắp xếp lại điều hướng',
         finishRootFolderReorder: 'Hoàn tất',
@@ -170,6 +175,15 @@ export const STRINGS_VI = {
                         '`-word` Loại trừ ghi chú có "word" trong tên tệp.'
                     ]
                 },
+                content: {
+                    title: 'Nội dung ghi chú',
+                    items: [
+                        '`content:từ` Tìm ghi chú có văn bản chứa từ bắt đầu bằng "từ".',
+                        '`content:"hai từ"` Yêu cầu mọi từ xuất hiện trong văn bản ghi chú.',
+                        '`-content:từ` Loại trừ ghi chú có văn bản chứa từ bắt đầu bằng "từ".',
+                        'Cần bật **Tìm trong nội dung ghi chú** trong cài đặt khung danh sách. Khi bật, các từ đơn cũng khớp với văn bản ghi chú.'
+                    ]
+                },
                 tags: {
                     title: 'Thẻ',
                     items: [
@@ -193,6 +207,8 @@ export const STRINGS_VI = {
                         '`."Reading Status"="In Progress"` Khóa và giá trị có khoảng trắng phải được đặt trong dấu ngoặc kép.',
                         '`-.key` Loại trừ ghi chú có khóa thuộc tính.',
                         '`-.key=value` Loại trừ ghi chú có giá trị thuộc tính.',
+                        '`.key>=3`, `.key<2026-11-01` So sánh thuộc tính số hoặc ngày bằng `>`, `>=`, `<`, `<=`.',
+                        '`.key:thisweek`, `.key:1..5`, `.key:2026-11-01..2026-11-30` Khớp ngày tương đối, ngày, số hoặc khoảng bao gồm hai đầu.',
                         'Cmd/Ctrl+Nhấp vào thuộc tính để thêm với AND. Cmd/Ctrl+Shift+Nhấp để thêm với OR.'
                     ]
                 },
@@ -201,6 +217,8 @@ export const STRINGS_VI = {
                     items: [
                         '`has:task` Bao gồm ghi chú có nhiệm vụ chưa hoàn thành.',
                         '`-has:task` Loại trừ ghi chú có nhiệm vụ chưa hoàn thành.',
+                        '`due:overdue`, `due:today`, `due:thisweek` Bao gồm ghi chú có công việc chưa xong đến hạn trong khoảng (ngày `📅` của Tasks hoặc trường `[due:: ]` của Dataview).',
+                        '`due:2026-11-01..2026-11-30` Khớp một ngày hạn hoặc khoảng. `-due:...` loại trừ ghi chú có công việc chưa xong phù hợp.',
                         '`folder:meetings` Bao gồm ghi chú có tên thư mục chứa `meetings`.',
                         '`folder:/work/meetings` Bao gồm ghi chú chỉ trong `work/meetings` (không bao gồm thư mục con).',
                         '`folder:/` Bao gồm ghi chú chỉ trong thư mục gốc của kho.',
@@ -212,13 +230,13 @@ export const STRINGS_VI = {
                     ]
                 },
                 connectors: {
-                    title: 'Hành vi AND/OR',
+                    title: 'AND/OR/NOT và nhóm',
                     items: [
-                        '`AND` và `OR` là toán tử chỉ trong các truy vấn chỉ chứa thẻ và thuộc tính.',
-                        'Truy vấn chỉ chứa thẻ và thuộc tính chỉ bao gồm bộ lọc thẻ và thuộc tính: `#tag`, `-#tag`, `#`, `-#`, `.key`, `-.key`, `.key=value`, `-.key=value`.',
-                        'Nếu truy vấn bao gồm tên, ngày (`@...`), bộ lọc nhiệm vụ (`has:task`), bộ lọc thư mục (`folder:...`) hoặc bộ lọc phần mở rộng (`ext:...`), `AND` và `OR` được tìm kiếm như từ.',
-                        'Ví dụ truy vấn toán tử: `#work OR .status=started`.',
-                        'Ví dụ truy vấn hỗn hợp: `#work OR ext:md` (`OR` được tìm kiếm trong tên tệp).'
+                        '`AND`, `OR` và `NOT` là toán tử khi truy vấn chứa bộ lọc (`#tag`, `.key`, `@date`, `has:task`, `due:`, `folder:`, `ext:`, `content:`) hoặc dấu ngoặc.',
+                        '`( )` nhóm các điều kiện: `(folder:Projects OR folder:Areas) AND #active AND -ext:pdf`.',
+                        '`NOT điều_kiện` hoặc `-điều_kiện` loại trừ một điều kiện. `-( )` loại trừ cả nhóm.',
+                        '`NOT` ưu tiên hơn `AND`, và `AND` ưu tiên hơn `OR`. Các điều kiện liền kề dùng AND ngầm định.',
+                        'Truy vấn chỉ gồm từ và không có dấu ngoặc sẽ khớp `AND`, `OR` và `NOT` như từ trong tên tệp (ví dụ: `đen or trắng`).'
                     ]
                 },
                 dates: {
@@ -292,12 +310,14 @@ export const STRINGS_VI = {
             addTag: 'Thêm thẻ',
             removeTag: 'Gỡ thẻ',
             removeAllTags: 'Gỡ tất cả thẻ',
+            editProperties: 'Chỉnh sửa thuộc tính',
             changeIcon: 'Đổi biểu tượng',
             changeColor: 'Đổi màu'
         },
         folder: {
             newNote: 'Ghi chú mới',
             newNoteFromTemplate: 'Ghi chú mới từ mẫu',
+            newNoteFileName: 'Tên tệp ghi chú mới...',
             newFolder: 'Thư mục mới',
             newCanvas: 'Canvas mới',
             newBase: 'Cơ sở dữ liệu mới',
@@ -322,14 +342,24 @@ export const STRINGS_VI = {
             changeIcon: 'Đổi biểu tượng',
             changeColor: 'Đổi màu',
             changeBackground: 'Đổi nền',
+            mergeTags: 'Hợp nhất thẻ...',
+            splitTag: 'Tách thẻ...',
             showTag: 'Hiện thẻ',
             hideTag: 'Ẩn thẻ'
         },
         property: {
             addKey: 'Cấu hình khóa thuộc tính',
             renameKey: 'Đổi tên thuộc tính',
+            renameValue: 'Đổi tên giá trị',
+            mergeValue: 'Hợp nhất vào giá trị...',
             deleteKey: 'Xóa thuộc tính'
         },
+        smartFolder: {
+            newSmartFolder: 'Thư mục thông minh mới',
+            newNestedSmartFolder: 'Thư mục thông minh lồng nhau mới',
+            editSmartFolder: 'Sửa thư mục thông minh',
+            deleteSmartFolder: 'Xóa thư mục thông minh'
+        },
         navigation: {
             addSeparator: 'Thêm dấu phân cách',
             removeSeparator: 'Gỡ dấu phân cách'
@@ -355,11 +385,25 @@ export const STRINGS_VI = {
     folderAppearance: {
         standardPreset: 'Chuẩn',
         compactPreset: 'Gọn',
+        gridPreset: 'Lưới',
+        boardPreset: 'Bảng...',
+        boardPresetOption: (property: string) => `Bảng (${property})`,
+        boardPropertyAction: 'Cột bảng theo thuộc tính',
+        boardPropertyPlaceholder: 'Khóa thuộc tính',
+        tileSize: 'Kích thước ô',
+        tileSizeOptions: {
+            small: 'Ô nhỏ',
+            medium: 'Ô vừa',
+            large: 'Ô lớn'
+        },
         defaultSuffix: '(mặc định)',
         defaultLabel: 'Mặc định',
         titleRows: 'Dòng tiêu đề',
         previewRows: 'Dòng xem trước',
         groupBy: 'Nhóm theo',
+        groupByPropertyAction: 'Nhóm theo thuộc tính...',
+        groupByPropertyPlaceholder: 'Khóa thuộc tính',
+        groupByPropertyOption: (property: string) => `Nhóm theo thuộc tính (${property})`,
         defaultTitleOption: (rows: number) => `Dòng tiêu đề mặc định (${rows})`,
         defaultPreviewOption: (rows: number) => `Dòng xem trước mặc định (${rows})`,
         defaultGroupOption: (groupLabel: string) => `Nhóm mặc định (${groupLabel})`,
@@ -383,6 +427,89 @@ export const STRINGS_VI = {
         fileIconRuleEditor: {
             addRuleAria: 'Thêm quy tắc'
         },
+        sortChain: {
+            title: 'Chuỗi sắp xếp tùy chỉnh',
+            description: 'Ghi chú được sắp xếp theo khóa đầu tiên. Mỗi khóa tiếp theo sắp xếp các ghi chú bằng nhau ở các khóa phía trên.',
+            propertyPlaceholder: 'Khóa thuộc tính',
+            ascending: 'Tăng dần',
+            descending: 'Giảm dần',
+            addKey: 'Thêm khóa sắp xếp',
+            moveUp: 'Di chuyển lên',
+            moveDown: 'Di chuyển xuống',
+            save: 'Lưu',
+            fields: {
+                modified: 'Ngày sửa',
+                created: 'Ngày tạo',
+                title: 'Tiêu đề',
+                filename: 'Tên tệp',
+                property: 'Thuộc tính',
+                wordcount: 'Số từ',
+                tasks: 'Nhiệm vụ mở',
+                size: 'Kích thước tệp'
+            }
+        },
+        noteTemplateRules: {
+            title: 'Quy tắc mẫu ghi chú',
+            description:
+                'Ghi chú được tạo từ thư mục, thẻ hoặc thuộc tính sẽ dùng mẫu và tên tệp của quy tắc khớp đầu tiên. Tên tệp hỗ trợ {{date}}, {{date:FORMAT}}, {{time}} và {{title}}.',
+            folderPatternPlaceholder: 'Đường dẫn thư mục, vd. Meetings hoặc Projects/*/Notes',
+            tagPatternPlaceholder: 'Thẻ, vd. meeting',
+            propertyPatternPlaceholder: 'Thuộc tính, vd. type hoặc type=meeting',
+            templatePlaceholder: 'Tệp mẫu',
+            fileNamePlaceholder: 'Mẫu tên tệp, vd. {{date}} Meeting',
+            emptyState: 'Không có quy tắc. Ghi chú mới được tạo trống.',
+            addRule: 'Thêm quy tắc',
+            moveUp: 'Di chuyển lên',
+            moveDown: 'Di chuyển xuống',
+            save: 'Lưu',
+            targets: {
+                folder: 'Thư mục',
+                tag: 'Thẻ',
+                property: 'Thuộc tính'
+            }
+        },
+        fileStyleRules: {
+            title: 'Quy tắc kiểu tệp',
+            description:
+                'Các tệp khớp với truy vấn của quy tắc sẽ nhận biểu tượng và màu của quy tắc đó. Truy vấn dùng cú pháp bộ lọc tìm kiếm. Quy tắc được kiểm tra từ trên xuống: quy tắc khớp đầu tiên có biểu tượng đặt biểu tượng và quy tắc khớp đầu tiên có màu đặt màu. Biểu tượng và màu đặt trực tiếp trên tệp được ưu tiên.',
+            queryPlaceholder: 'Truy vấn bộ lọc, vd. .status=done, #meeting hoặc folder:archive',
+            emptyState: 'Không có quy tắc.',
+            setIcon: 'Đặt biểu tượng',
+            setColor: 'Đặt màu',
+            addRule: 'Thêm quy tắc',
+            moveUp: 'Di chuyển lên',
+            moveDown: 'Di chuyển xuống',
+            save: 'Lưu'
+        },
+        configBundleImport: {
+            title: 'Nhập gói cấu hình',
+            description:
+                'Chọn tệp JSON của gói trong kho, rồi chọn các phần cần nhập. Giá trị được nhập sẽ được kiểm tra như cài đặt thông thường.',
+            filePlaceholder: 'Đường dẫn gói, vd. notebook-navigator-config.json',
+            sectionsLabel: 'Các phần cần nhập',
+            strategyLabel: 'Cài đặt hiện có',
+            strategies: {
+                merge: 'Gộp, mục trong gói được ưu tiên',
+                replace: 'Thay thế các phần đã chọn'
+            },
+            bundleInfo: 'Xuất lúc {date} từ Notebook Navigator {version}',
+            importButton: 'Nhập',
+            sections: {
+                vaultProfiles: 'Hồ sơ kho và lối tắt',
+                styling: 'Biểu tượng và màu của thư mục, thẻ và thuộc tính',
+                appearances: 'Giao diện thư mục và thẻ',
+                sortOverrides: 'Thứ tự sắp xếp tùy chỉnh',
+                iconMaps: 'Bản đồ biểu tượng và biểu tượng giao diện',
+                keyboardShortcuts: 'Phím tắt'
+            },
+            errors: {
+                invalidJson: 'Tệp không phải JSON hợp lệ.',
+                invalidFormat: 'Tệp không phải gói cấu hình Notebook Navigator.',
+                unsupportedVersion: 'Gói này được tạo bởi phiên bản Notebook Navigator mới hơn.',
+                empty: 'Gói không có phần nào có thể nhập.',
+                readFailed: 'Không thể đọc tệp.'
+            }
+        },
         interfaceIcons: {
             title: 'Biểu tượng giao diện',
             fileItemsSection: 'Mục tệp',
@@ -413,6 +540,8 @@ export const STRINGS_VI = {
                 'nav-properties': 'Thuộc tính',
                 'nav-property': 'Thuộc tính',
                 'nav-property-value': 'Giá trị',
+                'nav-smart-folders': 'Thư mục thông minh',
+                'nav-smart-folder': 'Thư mục thông minh',
                 'list-pinned': 'Mục đã ghim',
                 'file-unfinished-task': 'Nhiệm vụ chưa hoàn thành',
                 'file-word-count': 'Số từ'
@@ -493,6 +622,109 @@ export const STRINGS_VI = {
             deleteSettingsUpdateFailed: 'Đã xóa thuộc tính {property}. Không thể cập nhật cài đặt.',
             invalidKeyName: 'Nhập tên thuộc tính hợp lệ.'
         },
+        propertyValueEdit: {
+            title: 'Chỉnh sửa thuộc tính',
+            description: 'Thay đổi một thuộc tính trên {count} {files}.',
+            keyLabel: 'Thuộc tính',
+            keyPlaceholder: 'Tên thuộc tính',
+            modeLabel: 'Hành động',
+            modes: {
+                set: 'Đặt giá trị',
+                append: 'Thêm vào danh sách',
+                remove: 'Xóa thuộc tính'
+            },
+            valueLabel: 'Giá trị',
+            valuePlaceholder: 'Giá trị',
+            emptyValue: '(trống)',
+            previewTitle: 'Xem trước',
+            changeSummary: '{count} trên {total} ghi chú sẽ thay đổi',
+            noChanges: 'Không có ghi chú nào cần thay đổi.',
+            apply: 'Áp dụng',
+            successSingle: 'Đã cập nhật thuộc tính {property} trong 1 ghi chú',
+            successMultiple: 'Đã cập nhật thuộc tính {property} trong {count} ghi chú',
+            partialFailure: 'Đã cập nhật thuộc tính {property} trong {count} ghi chú. Không thể cập nhật {failed} ghi chú.'
+        },
+        propertyValueRename: {
+            renameTitle: 'Đổi tên giá trị {value}',
+            renameWarning: 'Đổi tên {property}: {value} sẽ sửa đổi {count} {files}. Nhập một giá trị đã có sẽ hợp nhất hai giá trị.',
+            newValuePrompt: 'Giá trị mới',
+            newValuePlaceholder: 'Nhập giá trị mới',
+            confirmRename: 'Đổi tên giá trị',
+            mergeTitle: 'Hợp nhất giá trị {value}',
+            mergeWarning:
+                'Hợp nhất {oldValue} vào {newValue} sẽ sửa đổi {count} {files}. {newValue} giữ biểu tượng, màu sắc và lối tắt riêng.',
+            mergePlaceholder: 'Hợp nhất {value} vào...',
+            mergeInstruction: 'để hợp nhất',
+            confirmMerge: 'Hợp nhất giá trị',
+            noOtherValues: 'Thuộc tính {property} không có giá trị khác',
+            nestedTarget: 'Không thể đổi tên một giá trị thành một trong các giá trị lồng nhau của nó.',
+            invalidValue: 'Nhập một giá trị hợp lệ.',
+            noChanges: '{oldValue} → {newValue} (không có thay đổi)',
+            successSingle: 'Đã đổi tên {oldValue} → {newValue} trong 1 ghi chú',
+            successMultiple: 'Đã đổi tên {oldValue} → {newValue} trong {count} ghi chú',
+            partialFailure: 'Đã đổi tên {oldValue} → {newValue} trong {count} ghi chú. Không thể cập nhật {failed} ghi chú.'
+        },
+        tagOperationSummary: {
+            close: 'Đóng',
+            updatedNotes: 'Ghi chú đã cập nhật',
+            skippedNotes: 'Ghi chú đã bỏ qua',
+            skippedDescription: 'Các ghi chú này đã thay đổi sau khi xem trước hoặc không có gì để cập nhật.',
+            failedNotes: 'Ghi chú thất bại',
+            reportSummary: 'Đã cập nhật {changed} trên {total} ghi chú.'
+        },
+        tagMerge: {
+            title: 'Hợp nhất thẻ',
+            description: 'Hợp nhất nhiều thẻ thành một thẻ. Các thẻ lồng nhau di chuyển cùng thẻ cha.',
+            sourcesLabel: 'Thẻ cần hợp nhất',
+            sourcesPlaceholder: 'Các thẻ phân cách bằng dấu phẩy',
+            targetLabel: 'Hợp nhất vào',
+            targetPlaceholder: 'Thẻ đích',
+            preview: 'Xem trước hợp nhất',
+            nothingToMerge: 'Không có thẻ nào để hợp nhất. Kiểm tra rằng các thẻ được dùng trong ghi chú và khác thẻ đích.',
+            previewTitle: 'Hợp nhất vào {tag}',
+            previewDescription: 'Hợp nhất {tags} vào {tag} sẽ sửa đổi {count} ghi chú.',
+            confirm: 'Hợp nhất thẻ',
+            affectedNotes: 'Ghi chú bị ảnh hưởng',
+            skippedTags: 'Thẻ đã bỏ qua',
+            skipReasons: {
+                sameAsTarget: 'giống thẻ đích',
+                containsTarget: 'thẻ đích nằm lồng trong thẻ này',
+                nestedInSource: 'được hợp nhất cùng thẻ cha',
+                noNotes: 'không được dùng trong ghi chú nào'
+            },
+            alreadyTagged: 'Ghi chú đã có {tag}',
+            alreadyTaggedDescription: 'Các ghi chú này sẽ chứa thẻ đích nhiều lần.',
+            multipleSources: 'Ghi chú có nhiều thẻ được hợp nhất',
+            multipleSourcesDescription: 'Mỗi ghi chú này sẽ chứa thẻ đích nhiều lần.',
+            nestedCollisions: 'Xung đột thẻ lồng nhau',
+            nestedCollisionsDescription: 'Các thẻ lồng nhau này hợp nhất vào thẻ lồng nhau đã tồn tại.',
+            notFinalized: 'Chưa di chuyển siêu dữ liệu',
+            notFinalizedDescription: 'Một số ghi chú có các thẻ này chưa được cập nhật nên biểu tượng, màu sắc và lối tắt được giữ nguyên.',
+            reportTitle: 'Đã hợp nhất vào {tag}'
+        },
+        tagSplit: {
+            title: 'Tách thẻ {tag}',
+            description:
+                '{count} {files} có đúng thẻ {tag}. Mỗi ghi chú chuyển sang thẻ con của quy tắc khớp đầu tiên. Ghi chú không khớp quy tắc nào giữ {tag}.',
+            childPlaceholder: 'Thẻ con',
+            kinds: {
+                folder: 'Thư mục',
+                query: 'Truy vấn bộ lọc'
+            },
+            folderPlaceholder: 'Đường dẫn thư mục (gồm thư mục con)',
+            queryPlaceholder: 'Truy vấn bộ lọc tìm kiếm',
+            addRule: 'Thêm quy tắc',
+            preview: 'Xem trước tách',
+            nothingMatched: 'Không có ghi chú nào khớp quy tắc.',
+            previewTitle: 'Tách {tag}',
+            previewDescription: '{count} trên {total} ghi chú có {tag} sẽ chuyển sang thẻ con.',
+            confirm: 'Tách thẻ',
+            invalidRules: 'Quy tắc không thể đánh giá',
+            invalidRulesDescription: 'Truy vấn bộ lọc cần tiêu chí tìm kiếm và bộ nhớ đệm ghi chú sẵn sàng.',
+            unmatched: 'Ghi chú không có quy tắc khớp',
+            unmatchedDescription: 'Các ghi chú này giữ {tag}.',
+            reportTitle: 'Đã tách {tag}'
+        },
         fileSystem: {
             newFolderTitle: 'Thư mục mới',
             renameFolderTitle: 'Đổi tên thư mục',
@@ -502,6 +734,10 @@ export const STRINGS_VI = {
             deleteFileAttachmentsTitle: 'Xóa tệp đính kèm?',
             moveFileConflictTitle: 'Xung đột di chuyển',
             folderNamePrompt: 'Nhập tên thư mục:',
+            newNoteTitle: 'Ghi chú mới',
+            noteTitlePrompt: 'Nhập tiêu đề ghi chú:',
+            createNoteButton: 'Tạo',
+            newNoteFileNamePrompt: 'Mẫu tên tệp, vd. {{date:YYYYMMDDHHmm}} {{title}}. Để trống để dùng mặc định.',
             hideInOtherVaultProfiles: 'Ẩn trong các hồ sơ vault khác',
             renamePrompt: 'Nhập tên mới:',
             renameVaultTitle: 'Đổi tên hiển thị vault',
@@ -597,6 +833,23 @@ export const STRINGS_VI = {
             applyButton: 'Áp dụng',
             emptyState: 'Không tìm thấy khóa thuộc tính.'
         },
+        smartFolder: {
+            newTitle: 'Thư mục thông minh mới',
+            newNestedTitle: 'Thư mục thông minh mới trong {name}',
+            editTitle: 'Sửa thư mục thông minh',
+            nameLabel: 'Tên',
+            namePlaceholder: 'Tên thư mục thông minh',
+            queryLabel: 'Truy vấn bộ lọc',
+            queryPlaceholder: '#project AND -#archived',
+            queryDescription:
+                'Dùng cú pháp tìm kiếm bộ lọc. Thư mục thông minh lồng nhau chỉ liệt kê ghi chú cũng khớp với truy vấn của thư mục cha.',
+            create: 'Tạo',
+            save: 'Lưu',
+            emptyName: 'Tên thư mục thông minh không được để trống',
+            duplicateName: 'Đã có thư mục thông minh với tên này ở đây',
+            deleteTitle: 'Xóa thư mục thông minh "{name}"?',
+            deleteMessage: 'Các thư mục thông minh lồng nhau cũng bị xóa. Ghi chú không bị thay đổi.'
+        },
         welcome: {
             title: 'Chào mừng đến với {pluginName}',
             introText:
@@ -679,6 +932,9 @@ export const STRINGS_VI = {
             iconPackUpdated: 'Đã cập nhật {provider} ({version})',
             iconPackRemoved: 'Đã gỡ {provider}',
             iconPackLoadFailed: 'Không thể tải {provider}',
+            folderMetadataWritten: 'Đã ghi siêu dữ liệu cho {count} thư mục',
+            folderMetadataLoaded: 'Đã tải siêu dữ liệu cho {count} thư mục',
+            folderMetadataStorageDisabled: 'Hãy chọn lưu trong ghi chú thư mục hoặc tệp đi kèm trong cài đặt Thư mục trước',
             hiddenFileReveal: 'Tệp bị ẩn. Bật "Hiện mục ẩn" để hiển thị'
         },
         confirmations: {
@@ -708,7 +964,62 @@ export const STRINGS_VI = {
             filesAlreadyHaveProperty: '{count} tệp đã có thuộc tính này',
             noTagsToClear: 'Không có thẻ để xóa',
             fileImported: 'Đã nhập 1 tệp',
-            filesImported: 'Đã nhập {count} tệp'
+            filesImported: 'Đã nhập {count} tệp',
+            filesMoved: 'Đã di chuyển {count} tệp đến {folder}'
+        }
+    },
+
+    // Undo history
+    undoHistory: {
+        undo: 'Hoàn tác',
+        undone: 'Đã hoàn tác: {action}',
+        redone: 'Đã làm lại: {action}',
+        nothingToUndo: 'Không có gì để hoàn tác',
+        nothingToRedo: 'Không có gì để làm lại',
+        failed: 'Không thể đảo ngược "{action}": {error}',
+        partial: 'Không thể khôi phục {count} mục',
+        actions: {
+            moveFile: 'Di chuyển "{name}"',
+            moveFiles: 'Di chuyển {count} tệp',
+            moveFolder: 'Di chuyển thư mục "{name}"',
+            renameFile: 'Đổi tên "{name}"',
+            renameFolder: 'Đổi tên thư mục "{name}"',
+            addTag: 'Thêm thẻ #{tag}',
+            removeTag: 'Xóa thẻ #{tag}',
+            renameProperty: 'Đổi tên thuộc tính {oldKey} → {newKey}',
+            editProperty: 'Chỉnh sửa thuộc tính {property}',
+            renamePropertyValue: 'Đổi tên giá trị {property} {oldValue} → {newValue}',
+            changeAppearance: 'Thay đổi giao diện của "{name}"'
+        }
+    },
+
+    // Vault statistics dashboard
+    statisticsDashboard: {
+        refresh: 'Làm mới',
+        loading: 'Đang chờ bộ nhớ đệm ghi chú...',
+        unavailable: 'Không thể tính thống kê.',
+        empty: 'Không có dữ liệu',
+        weekLabel: 'Tuần {date}',
+        createdCount: '{count} đã tạo',
+        modifiedCount: '{count} đã sửa',
+        summary: {
+            notes: 'Ghi chú',
+            words: 'Từ',
+            openTasks: 'Việc chưa xong',
+            untagged: 'Ghi chú không có thẻ',
+            orphaned: 'Ghi chú mồ côi',
+            orphanedDescription: 'Ghi chú không được ghi chú nào khác liên kết đến'
+        },
+        sections: {
+            activity: 'Ghi chú được tạo và sửa mỗi tuần',
+            wordsPerFolder: 'Số từ theo thư mục',
+            openTasksPerFolder: 'Việc chưa xong theo thư mục',
+            topTags: 'Thẻ hàng đầu',
+            topProperties: 'Thuộc tính hàng đầu'
+        },
+        legend: {
+            created: 'Đã tạo',
+            modified: 'Đã sửa'
         }
     },
 
@@ -733,8 +1044,10 @@ export const STRINGS_VI = {
         revealFile: 'Hiện tệp', // Command palette: Reveals and selects the currently active file in the navigator (English: Reveal file)
         search: 'Tìm kiếm', // Command palette: Toggle search in the file list (English: Search)
         searchVaultRoot: 'Tìm kiếm trong thư mục gốc vault', // Command palette: Selects the vault root folder and focuses search (English: Search in vault root)
+        createSmartFolder: 'Tạo thư mục thông minh từ tìm kiếm',
         toggleDualPane: 'Bật/tắt hai ngăn', // Command palette: Toggles between single-pane and dual-pane layout (English: Toggle dual pane layout)
         toggleCalendar: 'Bật/tắt lịch', // Command palette: Toggles showing the calendar overlay in the navigation pane (English: Toggle calendar)
+        openStatistics: 'Mở thống kê kho', // Command palette: Opens the vault statistics dashboard (English: Open vault statistics)
         selectVaultProfile: 'Chọn hồ sơ vault', // Command palette: Opens a modal to choose a different vault profile (English: Select vault profile)
         selectVaultProfile1: 'Chọn hồ sơ vault 1', // Command palette: Activates the first vault profile without opening the modal (English: Select vault profile 1)
         selectVaultProfile2: 'Chọn hồ sơ vault 2', // Command palette: Activates the second vault profile without opening the modal (English: Select vault profile 2)
@@ -743,12 +1056,18 @@ export const STRINGS_VI = {
         createNewNote: 'Tạo ghi chú mới', // Command palette: Creates a new note in the currently selected folder (English: Create new note)
         createNewNoteFromTemplate: 'Ghi chú mới từ mẫu', // Command palette: Creates a new note from a template in the currently selected folder (English: Create new note from template)
         moveFiles: 'Di chuyển tệp', // Command palette: Move selected files to another folder (English: Move files)
+        undo: 'Hoàn tác thao tác tệp', // Command palette: Reverse the most recent file operation (English: Undo file operation)
+        redo: 'Làm lại thao tác tệp', // Command palette: Reapply the most recently undone file operation (English: Redo file operation)
         selectNextFile: 'Chọn tệp tiếp theo', // Command palette: Selects the next file in the current view (English: Select next file)
         selectPreviousFile: 'Chọn tệp trước', // Command palette: Selects the previous file in the current view (English: Select previous file)
         convertToFolderNote: 'Chuyển thành ghi chú thư mục', // Command palette: Converts the active file into a folder note with a new folder (English: Convert to folder note)
         setAsFolderNote: 'Đặt làm ghi chú thư mục', // Command palette: Renames the active file to its folder note name (English: Set as folder note)
         detachFolderNote: 'Tách ghi chú thư mục', // Command palette: Renames the active folder note to a new name (English: Detach folder note)
         pinAllFolderNotes: 'Ghim tất cả ghi chú thư mục', // Command palette: Pins all folder notes to shortcuts (English: Pin all folder notes)
+        writeFolderMetadataFiles: 'Ghi siêu dữ liệu thư mục vào tệp', // Command palette: Writes folder icons, colors, sort overrides and appearances to folder notes or sidecars (English: Write folder metadata to files)
+        reloadFolderMetadataFiles: 'Tải lại siêu dữ liệu thư mục từ tệp', // Command palette: Reads folder metadata from folder notes or sidecars into settings (English: Reload folder metadata from files)
+        exportConfiguration: 'Xuất gói cấu hình', // Command palette: Writes a configuration bundle JSON file to the vault root (English: Export configuration bundle)
+        importConfiguration: 'Nhập gói cấu hình', // Command palette: Opens a dialog to import sections of a configuration bundle (English: Import configuration bundle)
         navigateToFolder: 'Chuyển đến thư mục', // Command palette: Navigate to a folder using fuzzy search (English: Navigate to folder)
         navigateToTag: 'Chuyển đến thẻ', // Command palette: Navigate to a tag using fuzzy search (English: Navigate to tag)
         navigateToProperty: 'Điều hướng đến thuộc tính', // Command palette: Navigate to a property key or value using fuzzy search (English: Navigate to property)
@@ -762,6 +1081,8 @@ export const STRINGS_VI = {
         addTag: 'Thêm thẻ vào tệp đã chọn', // Command palette: Opens a dialog to add a tag to selected files (English: Add tag to selected files)
         removeTag: 'Gỡ thẻ khỏi tệp đã chọn', // Command palette: Opens a dialog to remove a tag from selected files (English: Remove tag from selected files)
         removeAllTags: 'Gỡ tất cả thẻ khỏi tệp đã chọn', // Command palette: Removes all tags from selected files (English: Remove all tags from selected files)
+        mergeTags: 'Hợp nhất thẻ', // Command palette: Opens a dialog to merge several tags into one tag (English: Merge tags)
+        editProperties: 'Chỉnh sửa thuộc tính của các tệp đã chọn', // Command palette: Opens a dialog to set, append to, or remove a property on selected files (English: Edit properties of selected files)
         openAllFiles: 'Mở tất cả tệp', // Command palette: Opens all files in the current folder or tag (English: Open all files)
         rebuildCache: 'Xây dựng lại cache' // Command palette: Rebuilds the local Notebook Navigator cache (English: Rebuild cache)
     },
@@ -770,6 +1091,7 @@ export const STRINGS_VI = {
     plugin: {
         viewName: 'Notebook Navigator', // Name shown in the view header/tab (English: Notebook Navigator)
         calendarViewName: 'Lịch', // Name shown in the view header/tab (English: Calendar)
+        statisticsViewName: 'Thống kê kho', // Name shown in the statistics view header/tab (English: Vault statistics)
         ribbonTooltip: 'Notebook Navigator', // Tooltip for the ribbon icon in the left sidebar (English: Notebook Navigator)
         revealInNavigator: 'Hiện trong Notebook Navigator' // Context menu item to reveal a file in the navigator (English: Reveal in Notebook Navigator)
     },
@@ -868,7 +1190,13 @@ export const STRINGS_VI = {
                     'filename-asc': 'Tên tệp (A trên)',
                     'filename-desc': 'Tên tệp (Z trên)',
                     'property-asc': 'Thuộc tính (A trên)',
-                    'property-desc': 'Thuộc tính (Z trên)'
+                    'property-desc': 'Thuộc tính (Z trên)',
+                    'wordcount-desc': 'Số từ (nhiều nhất trên)',
+                    'wordcount-asc': 'Số từ (ít nhất trên)',
+                    'tasks-desc': 'Nhiệm vụ mở (nhiều nhất trên)',
+                    'tasks-asc': 'Nhiệm vụ mở (ít nhất trên)',
+                    'size-desc': 'Kích thước tệp (lớn nhất trên)',
+                    'size-asc': 'Kích thước tệp (nhỏ nhất trên)'
                 },
                 propertyOverride: {
                     asc: 'Thuộc tính ‘{property}’ (A trên)',
@@ -894,6 +1222,10 @@ export const STRINGS_VI = {
                 name: 'Cuộn đến tệp đã chọn khi danh sách thay đổi',
                 desc: 'Cuộn đến tệp đã chọn khi ghim ghi chú, hiện ghi chú con, đổi giao diện thư mục hoặc thao tác tệp.'
             },
+            searchNoteContent: {
+                name: 'Tìm trong nội dung ghi chú',
+                desc: 'Tạo chỉ mục toàn văn cục bộ cho nội dung ghi chú để dùng với tìm kiếm bộ lọc. Bật bộ lọc `content:` và cho phép từ tìm kiếm đơn khớp cả văn bản ghi chú ngoài tên tệp. Không cần Omnisearch.'
+            },
             includeDescendantNotes: {
                 name: 'Hiện ghi chú từ thư mục con / phần tử con',
                 desc: 'Bao gồm ghi chú từ thư mục con lồng nhau và phần tử con của thẻ khi xem thư mục hoặc thẻ.'
@@ -908,11 +1240,13 @@ export const STRINGS_VI = {
             },
             groupNotes: {
                 name: 'Nhóm ghi chú',
-                desc: 'Hiển thị header giữa các ghi chú được nhóm theo ngày hoặc thư mục. Chế độ xem thẻ dùng nhóm ngày khi bật nhóm thư mục.',
+                desc: 'Hiển thị header giữa các ghi chú được nhóm theo ngày, thư mục, thẻ, chữ cái đầu hoặc giá trị thuộc tính. Chế độ xem thẻ dùng nhóm ngày khi bật nhóm thư mục.',
                 options: {
                     none: 'Không nhóm',
                     date: 'Nhóm theo ngày',
-                    folder: 'Nhóm theo thư mục'
+                    folder: 'Nhóm theo thư mục',
+                    tag: 'Nhóm theo thẻ',
+                    alphabetical: 'Nhóm theo bảng chữ cái'
                 }
             },
             showPinnedGroupHeader: {
@@ -959,6 +1293,11 @@ export const STRINGS_VI = {
                 placeholder: '# Extension=icon\ncpp=LiFileCode\npdf=RaBook',
                 editTooltip: 'Chỉnh sửa ánh xạ'
             },
+            fileStyleRules: {
+                name: 'Quy tắc kiểu tệp',
+                desc: 'Gán biểu tượng và màu cho các tệp khớp với truy vấn bộ lọc tìm kiếm, vd. dấu kiểm cho .status=done hoặc màu xám cho folder:archive. Quy tắc được lưu trong hồ sơ kho.',
+                buttonText: 'Sửa quy tắc'
+            },
             optimizeNoteHeight: {
                 name: 'Chiều cao ghi chú thay đổi',
                 desc: 'Sử dụng chiều cao gọn cho ghi chú đã ghim và ghi chú không có văn bản xem trước.'
@@ -1039,6 +1378,15 @@ export const STRINGS_VI = {
                 name: 'Mở ghi chú mới trong tab mới',
                 desc: 'Khi bật, lệnh Tạo ghi chú mới sẽ mở ghi chú trong tab mới. Khi tắt, ghi chú sẽ thay thế tab hiện tại.'
             },
+            newNoteFileNamePattern: {
+                name: 'Tên tệp ghi chú mới',
+                desc: 'Mẫu tên tệp cho ghi chú mới. Hỗ trợ {{date}}, {{date:FORMAT}}, {{time}} và {{title}}. Thư mục có thể ghi đè từ menu thư mục. Để trống để dùng "Untitled".',
+                placeholder: '{{date:YYYY-MM-DD}} {{title}}'
+            },
+            promptForNewNoteTitle: {
+                name: 'Hỏi tiêu đề khi tạo ghi chú',
+                desc: 'Hỏi tiêu đề trước khi tạo ghi chú. Tiêu đề điền vào {{title}} trong mẫu tên tệp, hoặc trở thành tên tệp khi không có mẫu.'
+            },
             autoRevealActiveNote: {
                 name: 'Tự động hiện ghi chú đang hoạt động',
                 desc: 'Tự động hiện ghi chú khi mở từ Quick Switcher, liên kết hoặc tìm kiếm.'
@@ -1215,6 +1563,11 @@ export const STRINGS_VI = {
                 desc: 'Trình chọn tệp mẫu hiển thị ghi chú từ thư mục này.',
                 placeholder: 'Templates'
             },
+            noteTemplateRules: {
+                name: 'Quy tắc mẫu ghi chú',
+                desc: 'Áp dụng mẫu và mẫu tên tệp cho ghi chú được tạo từ thư mục, thẻ hoặc thuộc tính.',
+                buttonText: 'Sửa quy tắc'
+            },
             calendarCustomFilePattern: {
                 name: 'Ghi chú hàng ngày',
                 desc: 'Định dạng đường dẫn sử dụng định dạng ngày Moment. Đặt tên thư mục con trong dấu ngoặc vuông, vd: [Work]/YYYY. Nhấp vào biểu tượng mẫu để đặt mẫu. Đặt vị trí thư mục mẫu trong Chung > Mẫu.',
@@ -1269,6 +1622,16 @@ export const STRINGS_VI = {
                 notice: 'Đã đặt lại tất cả cài đặt. Khởi động lại Obsidian hoặc mở lại Notebook Navigator để áp dụng.',
                 error: 'Đặt lại cài đặt thất bại'
             },
+            configBundle: {
+                name: 'Gói cấu hình',
+                desc: 'Xuất hồ sơ kho, lối tắt, kiểu dáng, giao diện, thứ tự sắp xếp tùy chỉnh, bản đồ biểu tượng và phím tắt ra tệp JSON ở thư mục gốc của kho, hoặc nhập một gói để thiết lập kho khác.',
+                exportButton: 'Xuất',
+                importButton: 'Nhập',
+                exportSuccess: 'Đã xuất cấu hình ra {filename}',
+                exportFailed: 'Không thể xuất cấu hình.',
+                importSuccess: 'Đã nhập cấu hình.',
+                importFailed: 'Không thể nhập cấu hình.'
+            },
             multiSelectModifier: {
                 name: 'Phím bổ trợ chọn nhiều',
                 desc: 'Chọn phím bổ trợ để bật/tắt chọn nhiều. Khi chọn Option/Alt, nhấn Cmd/Ctrl mở ghi chú trong tab mới.',
@@ -1293,6 +1656,14 @@ export const STRINGS_VI = {
                 name: 'Ctrl+Enter',
                 desc: 'Mở tệp đã chọn trong tab mới, chia đôi hoặc cửa sổ khi nhấn Ctrl+Enter.'
             },
+            vimKeyboardNavigation: {
+                name: 'Chuỗi phím kiểu Vim',
+                desc: 'Dùng gg và G để tới mục đầu và cuối, dd để xóa, zc và zo để thu gọn và mở rộng, / để mở tìm kiếm. Phím tắt tùy chỉnh được ưu tiên.'
+            },
+            typeAheadFind: {
+                name: 'Tìm khi gõ',
+                desc: 'Gõ chữ sẽ nhảy tới thư mục, thẻ hoặc ghi chú đầu tiên có tên bắt đầu bằng văn bản đã gõ. Không khả dụng khi bật chuỗi phím kiểu Vim.'
+            },
             fileVisibility: {
                 name: 'Hiện loại tệp (hồ sơ vault)',
                 desc: 'Lọc loại tệp hiển thị trong trình điều hướng. Loại tệp không được Obsidian hỗ trợ có thể mở bằng ứng dụng ngoài.',
@@ -1415,6 +1786,10 @@ export const STRINGS_VI = {
                     none: 'Không'
                 }
             },
+            showTaskProgress: {
+                name: 'Tiến độ công việc',
+                desc: 'Hiển thị thanh hoàn thành và hạn tiếp theo cho ghi chú có công việc.'
+            },
             propertyFields: {
                 name: 'Khóa thuộc tính (hồ sơ kho)',
                 desc: 'Các khóa thuộc tính frontmatter, với khả năng thiết lập hiển thị từng khóa cho điều hướng và danh sách tệp.',
@@ -1527,6 +1902,15 @@ export const STRINGS_VI = {
                     alphaDesc: 'Z đến A'
                 }
             },
+            folderMetadataStorage: {
+                name: 'Lưu trữ siêu dữ liệu thư mục',
+                desc: 'Lưu cả biểu tượng, màu, thứ tự sắp xếp tùy chỉnh và giao diện của thư mục trong kho để chúng đi cùng thư mục qua đồng bộ hoặc git. Thay đổi được đồng bộ hai chiều. Chạy "Ghi siêu dữ liệu thư mục vào tệp" để chuyển siêu dữ liệu hiện có.',
+                options: {
+                    settings: 'Chỉ cài đặt plugin',
+                    folderNote: 'Frontmatter của ghi chú thư mục',
+                    sidecar: 'Tệp đi kèm .folder.yml'
+                }
+            },
             showNoteCount: {
                 name: 'Hiện số lượng ghi chú',
                 desc: 'Hiển thị số lượng ghi chú bên cạnh mỗi thư mục và thẻ.'
@@ -1642,6 +2026,11 @@ export const STRINGS_VI = {
                 name: 'Hiển thị thư mục thuộc tính',
                 desc: 'Hiển thị "Thuộc tính" dưới dạng thư mục có thể thu gọn.'
             },
+            propertyHierarchies: {
+                name: 'Phân cấp thuộc tính',
+                desc: 'Lồng ghi chú vào thư mục ảo theo giá trị thuộc tính, mỗi khóa một cấp. Mỗi dòng một phân cấp theo dạng `Name: key > key > key`. Các khóa cũng phải có trong danh sách khóa thuộc tính.',
+                placeholder: 'Research: type > status > project'
+            },
             hiddenTags: {
                 name: 'Ẩn thẻ (hồ sơ vault)',
                 desc: 'Danh sách mẫu thẻ phân cách bằng dấu phẩy. Mẫu tên: tag* (bắt đầu bằng), *tag (kết thúc bằng). Mẫu đường dẫn: archive (thẻ và con cháu), archive/* (chỉ con cháu), projects/*/drafts (ký tự đại diện ở giữa).',
@@ -46,7 +46,10 @@ export const STRINGS_ZH_CN = {
         pinnedSection: '已固定', // Header for the pinned notes section at the top of file list (English: Pinned)
         notesSection: '笔记', // Header shown between pinned and regular items when showing documents only (English: Notes)
         filesSection: '文件', // Header shown between pinned and regular items when showing supported or all files (English: Files)
-        hiddenItemAriaLabel: '{name} (已隐藏)' // Accessibility label applied to list items that are normally hidden
+        noPropertyValue: '无值', // Header for notes without a value when grouping by property (English: No value)
+        hiddenItemAriaLabel: '{name} (已隐藏)', // Accessibility label applied to list items that are normally hidden
+        taskProgressAriaLabel: '已完成 {completed}/{total} 个任务', // Accessibility label for the task progress bar in file items
+        taskDue: '截止 {date}' // Next due date shown next to the task progress bar (English: Due {date})
     },
 
     // Tag list
@@ -60,6 +63,7 @@ export const STRINGS_ZH_CN = {
         recentNotesHeader: '最近笔记',
         recentFilesHeader: '最近文件',
         properties: '属性',
+        smartFolders: '智能文件夹',
         reorderRootFoldersTitle: '重新排列导航',
         reorderRootFoldersHint: '使用箭头或拖动来重新排列',
         vaultRootLabel: '仓库',
@@ -129,6 +133,7 @@ export const STRINGS_ZH_CN = {
         mobileBackToNavigation: '返回导航', // Mobile-only back button text to return to navigation pane (English: Back to navigation)
         changeSortOrder: '更改排序方式', // Tooltip for the sort order toggle button (English: Change sort order)
         defaultSort: '默认', // Label for default sorting mode (English: Default)
+        customSortChain: '自定义排序链...',
         showFolders: '显示导航', // Tooltip for button to show the navigation pane (English: Show navigation)
         reorderRootFolders: '重新排列导航',
         finishRootFolderReorder: '完成',
@@ -169,6 +174,15 @@ export const STRINGS_ZH_CN = {
                         '`-word` 排除文件名中含有 "word" 的笔记。'
                     ]
                 },
+                content: {
+                    title: '笔记内容',
+                    items: [
+                        '`content:词` 匹配正文包含以“词”开头的词语的笔记。',
+                        '`content:"两个 词"` 要求每个词都出现在笔记正文中。',
+                        '`-content:词` 排除正文包含以“词”开头的词语的笔记。',
+                        '需要在列表面板设置中启用 **搜索笔记内容**。启用后，普通词语也会匹配笔记正文。'
+                    ]
+                },
                 tags: {
                     title: '标签',
                     items: [
@@ -192,6 +206,8 @@ export const STRINGS_ZH_CN = {
                         '`."Reading Status"="In Progress"` 包含空格的键和值必须用双引号括起来。',
                         '`-.key` 排除具有属性键的笔记。',
                         '`-.key=value` 排除具有属性值的笔记。',
+                        '`.key>=3`, `.key<2026-11-01` 使用 `>`, `>=`, `<`, `<=` 比较数字或日期属性。',
+                        '`.key:thisweek`, `.key:1..5`, `.key:2026-11-01..2026-11-30` 匹配相对日期、日期、数字或包含端点的范围。',
                         'Cmd/Ctrl+点击属性以 AND 方式添加。Cmd/Ctrl+Shift+点击以 OR 方式添加。'
                     ]
                 },
@@ -200,6 +216,8 @@ export const STRINGS_ZH_CN = {
                     items: [
                         '`has:task` 包含有未完成任务的笔记。',
                         '`-has:task` 排除有未完成任务的笔记。',
+                        '`due:overdue`, `due:today`, `due:thisweek` 包含在范围内到期的未完成任务的笔记（Tasks 的 `📅` 日期或 Dataview 的 `[due:: ]` 字段）。',
+                        '`due:2026-11-01..2026-11-30` 匹配截止日期或范围。`-due:...` 排除包含匹配未完成任务的笔记。',
                         '`folder:meetings` 包含文件夹名称含有 `meetings` 的笔记。',
                         '`folder:/work/meetings` 仅包含 `work/meetings` 中的笔记（不含子文件夹）。',
                         '`folder:/` 仅包含仓库根目录中的笔记。',
@@ -211,13 +229,13 @@ export const STRINGS_ZH_CN = {
                     ]
                 },
                 connectors: {
-                    title: 'AND/OR 行为',
+                    title: 'AND/OR/NOT 与分组',
                     items: [
-                        '`AND` 和 `OR` 仅在纯标签/属性查询中作为运算符。',
-                        '纯标签/属性查询仅包含标签和属性过滤器: `#tag`、`-#tag`、`#`、`-#`、`.key`、`-.key`、`.key=value`、`-.key=value`。',
-                        '如果查询包含名称、日期（`@...`）、任务过滤器（`has:task`）、文件夹过滤器（`folder:...`）或扩展名过滤器（`ext:...`），`AND` 和 `OR` 将作为词语进行匹配。',
-                        '运算符查询示例: `#work OR .status=started`。',
-                        '混合查询示例：`#work OR ext:md`（`OR` 在文件名中进行匹配）。'
+                        '当查询包含筛选条件（`#tag`、`.key`、`@date`、`has:task`、`due:`、`folder:`、`ext:`、`content:`）或括号时，`AND`、`OR` 和 `NOT` 作为运算符。',
+                        '`( )` 用于分组：`(folder:Projects OR folder:Areas) AND #active AND -ext:pdf`。',
+                        '`NOT 条件` 或 `-条件` 排除一个条件。`-( )` 排除整个分组。',
+                        '`NOT` 优先于 `AND`，`AND` 优先于 `OR`。相邻条件隐式使用 AND。',
+                        '仅包含词语且没有括号的查询会把 `AND`、`OR` 和 `NOT` 当作文件名中的词语匹配（例如 `black or white`）。'
                     ]
                 },
                 dates: {
@@ -279,6 +297,7 @@ export const STRINGS_ZH_CN = {
             addTag: '添加标签',
             removeTag: '移除标签',
             removeAllTags: '移除所有标签',
+            editProperties: '编辑属性',
             changeIcon: '更改图标',
             changeColor: '更改颜色',
             // File-specific context menu items (non-markdown files)
@@ -298,6 +317,7 @@ export const STRINGS_ZH_CN = {
         folder: {
             newNote: '新笔记',
             newNoteFromTemplate: '从模板新建笔记',
+            newNoteFileName: '新笔记文件名...',
             newFolder: '新建文件夹',
             newCanvas: '新建画布',
             newBase: '新建数据库',
@@ -322,14 +342,24 @@ export const STRINGS_ZH_CN = {
             changeIcon: '更改图标',
             changeColor: '更改颜色',
             changeBackground: '更改背景',
+            mergeTags: '合并标签...',
+            splitTag: '拆分标签...',
             showTag: '显示标签',
             hideTag: '隐藏标签'
         },
         property: {
             addKey: '配置属性键',
             renameKey: '重命名属性',
+            renameValue: '重命名值',
+            mergeValue: '合并到值...',
             deleteKey: '删除属性'
         },
+        smartFolder: {
+            newSmartFolder: '新建智能文件夹',
+            newNestedSmartFolder: '新建嵌套智能文件夹',
+            editSmartFolder: '编辑智能文件夹',
+            deleteSmartFolder: '删除智能文件夹'
+        },
         navigation: {
             addSeparator: '添加分隔符',
             removeSeparator: '移除分隔符'
@@ -355,11 +385,25 @@ export const STRINGS_ZH_CN = {
     folderAppearance: {
         standardPreset: '标准',
         compactPreset: '紧凑',
+        gridPreset: '网格',
+        boardPreset: '看板...',
+        boardPresetOption: (property: string) => `看板 (${property})`,
+        boardPropertyAction: '按属性生成看板列',
+        boardPropertyPlaceholder: '属性键',
+        tileSize: '磁贴大小',
+        tileSizeOptions: {
+            small: '小磁贴',
+            medium: '中磁贴',
+            large: '大磁贴'
+        },
         defaultSuffix: '(默认)',
         defaultLabel: '默认',
         titleRows: '标题行数',
         previewRows: '预览行数',
         groupBy: '分组依据',
+        groupByPropertyAction: '按属性分组...',
+        groupByPropertyPlaceholder: '属性键',
+        groupByPropertyOption: (property: string) => `按属性分组 (${property})`,
         defaultTitleOption: (rows: number) => `默认标题行数 (${rows})`,
         defaultPreviewOption: (rows: number) => `默认预览行数 (${rows})`,
         defaultGroupOption: (groupLabel: string) => `默认分组 (${groupLabel})`,
@@ -383,6 +427,88 @@ export const STRINGS_ZH_CN = {
         fileIconRuleEditor: {
             addRuleAria: '添加规则'
         },
+        sortChain: {
+            title: '自定义排序链',
+            description: '笔记先按第一个键排序。后续每个键对前面键值相同的笔记排序。',
+            propertyPlaceholder: '属性键',
+            ascending: '升序',
+            descending: '降序',
+            addKey: '添加排序键',
+            moveUp: '上移',
+            moveDown: '下移',
+            save: '保存',
+            fields: {
+                modified: '编辑日期',
+                created: '创建日期',
+                title: '标题',
+                filename: '文件名',
+                property: '属性',
+                wordcount: '字数',
+                tasks: '未完成任务',
+                size: '文件大小'
+            }
+        },
+        noteTemplateRules: {
+            title: '笔记模板规则',
+            description:
+                '从文件夹、标签或属性创建的笔记会使用第一条匹配规则的模板和文件名。文件名支持 {{date}}、{{date:FORMAT}}、{{time}} 和 {{title}}。',
+            folderPatternPlaceholder: '文件夹路径，例如 Meetings 或 Projects/*/Notes',
+            tagPatternPlaceholder: '标签，例如 meeting',
+            propertyPatternPlaceholder: '属性，例如 type 或 type=meeting',
+            templatePlaceholder: '模板文件',
+            fileNamePlaceholder: '文件名模式，例如 {{date}} Meeting',
+            emptyState: '没有规则。新笔记将创建为空白笔记。',
+            addRule: '添加规则',
+            moveUp: '上移',
+            moveDown: '下移',
+            save: '保存',
+            targets: {
+                folder: '文件夹',
+                tag: '标签',
+                property: '属性'
+            }
+        },
+        fileStyleRules: {
+            title: '文件样式规则',
+            description:
+                '匹配规则查询的文件会使用该规则的图标和颜色。查询使用搜索筛选语法。规则从上到下检查：第一个带图标的匹配规则决定图标，第一个带颜色的匹配规则决定颜色。直接为文件设置的图标和颜色优先。',
+            queryPlaceholder: '筛选查询，例如 .status=done、#meeting 或 folder:archive',
+            emptyState: '没有规则。',
+            setIcon: '设置图标',
+            setColor: '设置颜色',
+            addRule: '添加规则',
+            moveUp: '上移',
+            moveDown: '下移',
+            save: '保存'
+        },
+        configBundleImport: {
+            title: '导入配置包',
+            description: '从库中选择一个配置包 JSON 文件，然后选择要导入的部分。导入的值会像普通设置一样进行校验。',
+            filePlaceholder: '配置包路径，例如 notebook-navigator-config.json',
+            sectionsLabel: '要导入的部分',
+            strategyLabel: '已有设置',
+            strategies: {
+                merge: '合并，以配置包条目为准',
+                replace: '替换所选部分'
+            },
+            bundleInfo: '于 {date} 从 Notebook Navigator {version} 导出',
+            importButton: '导入',
+            sections: {
+                vaultProfiles: '库配置文件和快捷方式',
+                styling: '文件夹、标签和属性的图标与颜色',
+                appearances: '文件夹和标签外观',
+                sortOverrides: '排序覆盖',
+                iconMaps: '图标映射和界面图标',
+                keyboardShortcuts: '键盘快捷键'
+            },
+            errors: {
+                invalidJson: '文件不是有效的 JSON。',
+                invalidFormat: '文件不是 Notebook Navigator 配置包。',
+                unsupportedVersion: '此配置包由更新版本的 Notebook Navigator 创建。',
+                empty: '配置包中没有可导入的部分。',
+                readFailed: '无法读取文件。'
+            }
+        },
         interfaceIcons: {
             title: '界面图标',
             fileItemsSection: '文件项目',
@@ -413,6 +539,8 @@ export const STRINGS_ZH_CN = {
                 'nav-properties': '属性',
                 'nav-property': '属性',
                 'nav-property-value': '值',
+                'nav-smart-folders': '智能文件夹',
+                'nav-smart-folder': '智能文件夹',
                 'list-pinned': '固定项目',
                 'file-unfinished-task': '未完成任务',
                 'file-word-count': '字数统计'
@@ -489,6 +617,107 @@ export const STRINGS_ZH_CN = {
             deleteSettingsUpdateFailed: '已删除属性 {property}。更新设置失败。',
             invalidKeyName: '请输入有效的属性名称。'
         },
+        propertyValueEdit: {
+            title: '编辑属性',
+            description: '更改 {count} 个{files}中的属性。',
+            keyLabel: '属性',
+            keyPlaceholder: '属性名称',
+            modeLabel: '操作',
+            modes: {
+                set: '设置值',
+                append: '添加到列表',
+                remove: '删除属性'
+            },
+            valueLabel: '值',
+            valuePlaceholder: '值',
+            emptyValue: '（空）',
+            previewTitle: '预览',
+            changeSummary: '{total} 篇笔记中有 {count} 篇将被更改',
+            noChanges: '没有需要更改的笔记。',
+            apply: '应用',
+            successSingle: '已在 1 篇笔记中更新属性 {property}',
+            successMultiple: '已在 {count} 篇笔记中更新属性 {property}',
+            partialFailure: '已在 {count} 篇笔记中更新属性 {property}。{failed} 篇笔记无法更新。'
+        },
+        propertyValueRename: {
+            renameTitle: '重命名值 {value}',
+            renameWarning: '重命名 {property}: {value} 将修改 {count} 个{files}。输入已有的值会合并这两个值。',
+            newValuePrompt: '新值',
+            newValuePlaceholder: '输入新值',
+            confirmRename: '重命名值',
+            mergeTitle: '合并值 {value}',
+            mergeWarning: '将 {oldValue} 合并到 {newValue} 将修改 {count} 个{files}。{newValue} 保留其自身的图标、颜色和快捷方式。',
+            mergePlaceholder: '将 {value} 合并到...',
+            mergeInstruction: '合并',
+            confirmMerge: '合并值',
+            noOtherValues: '属性 {property} 没有其他值',
+            nestedTarget: '不能将值重命名为其嵌套值之一。',
+            invalidValue: '请输入有效的值。',
+            noChanges: '{oldValue} → {newValue}（无更改）',
+            successSingle: '已在 1 篇笔记中将 {oldValue} 重命名为 {newValue}',
+            successMultiple: '已在 {count} 篇笔记中将 {oldValue} 重命名为 {newValue}',
+            partialFailure: '已在 {count} 篇笔记中将 {oldValue} 重命名为 {newValue}。{failed} 篇笔记无法更新。'
+        },
+        tagOperationSummary: {
+            close: '关闭',
+            updatedNotes: '已更新的笔记',
+            skippedNotes: '已跳过的笔记',
+            skippedDescription: '这些笔记在预览后已更改，或没有需要更新的内容。',
+            failedNotes: '失败的笔记',
+            reportSummary: '已更新 {changed}/{total} 篇笔记。'
+        },
+        tagMerge: {
+            title: '合并标签',
+            description: '将多个标签合并为一个标签。嵌套标签会随其父标签一起移动。',
+            sourcesLabel: '要合并的标签',
+            sourcesPlaceholder: '以逗号分隔的标签',
+            targetLabel: '合并到',
+            targetPlaceholder: '目标标签',
+            preview: '预览合并',
+            nothingToMerge: '没有可合并的标签。请检查这些标签是否在笔记中使用且不同于目标标签。',
+            previewTitle: '合并到 {tag}',
+            previewDescription: '将 {tags} 合并到 {tag} 将修改 {count} 篇笔记。',
+            confirm: '合并标签',
+            affectedNotes: '受影响的笔记',
+            skippedTags: '已跳过的标签',
+            skipReasons: {
+                sameAsTarget: '与目标标签相同',
+                containsTarget: '目标标签嵌套在此标签下',
+                nestedInSource: '随其父标签一起合并',
+                noNotes: '未在任何笔记中使用'
+            },
+            alreadyTagged: '已带有 {tag} 的笔记',
+            alreadyTaggedDescription: '这些笔记将多次包含目标标签。',
+            multipleSources: '包含多个待合并标签的笔记',
+            multipleSourcesDescription: '这些笔记中的每一篇都将多次包含目标标签。',
+            nestedCollisions: '嵌套标签冲突',
+            nestedCollisionsDescription: '这些嵌套标签将合并到已存在的嵌套标签中。',
+            notFinalized: '元数据未移动',
+            notFinalizedDescription: '带有这些标签的部分笔记未更新，因此保留了它们的图标、颜色和快捷方式。',
+            reportTitle: '已合并到 {tag}'
+        },
+        tagSplit: {
+            title: '拆分标签 {tag}',
+            description: '恰好带有 {tag} 的{files}共 {count} 个。每篇笔记会移动到第一个匹配规则的子标签。没有匹配规则的笔记保留 {tag}。',
+            childPlaceholder: '子标签',
+            kinds: {
+                folder: '文件夹',
+                query: '筛选查询'
+            },
+            folderPlaceholder: '文件夹路径（包含子文件夹）',
+            queryPlaceholder: '搜索筛选查询',
+            addRule: '添加规则',
+            preview: '预览拆分',
+            nothingMatched: '没有笔记匹配这些规则。',
+            previewTitle: '拆分 {tag}',
+            previewDescription: '带有 {tag} 的 {total} 篇笔记中有 {count} 篇将移动到子标签。',
+            confirm: '拆分标签',
+            invalidRules: '无法评估的规则',
+            invalidRulesDescription: '筛选查询需要搜索条件和已就绪的笔记缓存。',
+            unmatched: '没有匹配规则的笔记',
+            unmatchedDescription: '这些笔记保留 {tag}。',
+            reportTitle: '已拆分 {tag}'
+        },
         fileSystem: {
             newFolderTitle: '新建文件夹',
             renameFolderTitle: '重命名文件夹',
@@ -498,6 +727,10 @@ export const STRINGS_ZH_CN = {
             deleteFileAttachmentsTitle: '删除文件附件？',
             moveFileConflictTitle: '移动冲突',
             folderNamePrompt: '输入文件夹名称：',
+            newNoteTitle: '新笔记',
+            noteTitlePrompt: '输入笔记标题：',
+            createNoteButton: '创建',
+            newNoteFileNamePrompt: '文件名模式，例如 {{date:YYYYMMDDHHmm}} {{title}}。留空则使用默认值。',
             hideInOtherVaultProfiles: '在其他仓库配置中隐藏',
             renamePrompt: '输入新名称：',
             renameVaultTitle: '更改仓库显示名称',
@@ -591,6 +824,22 @@ export const STRINGS_ZH_CN = {
             applyButton: '应用',
             emptyState: '未找到属性键。'
         },
+        smartFolder: {
+            newTitle: '新建智能文件夹',
+            newNestedTitle: '在 {name} 中新建智能文件夹',
+            editTitle: '编辑智能文件夹',
+            nameLabel: '名称',
+            namePlaceholder: '智能文件夹名称',
+            queryLabel: '筛选查询',
+            queryPlaceholder: '#project AND -#archived',
+            queryDescription: '使用筛选搜索语法。嵌套的智能文件夹只列出同时匹配其父文件夹查询的笔记。',
+            create: '创建',
+            save: '保存',
+            emptyName: '智能文件夹名称不能为空',
+            duplicateName: '此处已存在同名的智能文件夹',
+            deleteTitle: '删除智能文件夹"{name}"？',
+            deleteMessage: '嵌套的智能文件夹也会被删除。笔记不会被修改。'
+        },
         welcome: {
             title: '欢迎使用 {pluginName}',
             introText: '您好！在开始之前，强烈建议您观看下面视频的前五分钟，以了解面板和开关"显示子文件夹中的笔记"是如何工作的。',
@@ -672,6 +921,9 @@ export const STRINGS_ZH_CN = {
             iconPackUpdated: '{provider} 已更新 ({version})',
             iconPackRemoved: '{provider} 已移除',
             iconPackLoadFailed: '{provider} 加载失败',
+            folderMetadataWritten: '已写入 {count} 个文件夹的元数据',
+            folderMetadataLoaded: '已加载 {count} 个文件夹的元数据',
+            folderMetadataStorageDisabled: '请先在文件夹设置中选择文件夹笔记或附属文件存储',
             hiddenFileReveal: '文件已隐藏。启用「显示隐藏项目」以显示它'
         },
         confirmations: {
@@ -701,7 +953,62 @@ export const STRINGS_ZH_CN = {
             filesAlreadyHaveProperty: '{count} 个文件已拥有此属性',
             noTagsToClear: '没有要清除的标签',
             fileImported: '已导入 1 个文件',
-            filesImported: '已导入 {count} 个文件'
+            filesImported: '已导入 {count} 个文件',
+            filesMoved: '已将 {count} 个文件移动到 {folder}'
+        }
+    },
+
+    // Undo history
+    undoHistory: {
+        undo: '撤销',
+        undone: '已撤销：{action}',
+        redone: '已重做：{action}',
+        nothingToUndo: '没有可撤销的操作',
+        nothingToRedo: '没有可重做的操作',
+        failed: '无法撤销"{action}"：{error}',
+        partial: '{count} 个项目无法恢复',
+        actions: {
+            moveFile: '移动"{name}"',
+            moveFiles: '移动 {count} 个文件',
+            moveFolder: '移动文件夹"{name}"',
+            renameFile: '重命名"{name}"',
+            renameFolder: '重命名文件夹"{name}"',
+            addTag: '添加标签 #{tag}',
+            removeTag: '移除标签 #{tag}',
+            renameProperty: '重命名属性 {oldKey} → {newKey}',
+            editProperty: '编辑属性 {property}',
+            renamePropertyValue: '重命名 {property} 的值 {oldValue} → {newValue}',
+            changeAppearance: '更改"{name}"的外观'
+        }
+    },
+
+    // Vault statistics dashboard
+    statisticsDashboard: {
+        refresh: '刷新',
+        loading: '正在等待笔记缓存...',
+        unavailable: '无法计算统计信息。',
+        empty: '无数据',
+        weekLabel: '{date} 当周',
+        createdCount: '创建 {count} 篇',
+        modifiedCount: '修改 {count} 篇',
+        summary: {
+            notes: '笔记',
+            words: '字数',
+            openTasks: '未完成任务',
+            untagged: '无标签笔记',
+            orphaned: '孤立笔记',
+            orphanedDescription: '没有其他笔记链接到的笔记'
+        },
+        sections: {
+            activity: '每周创建和修改的笔记',
+            wordsPerFolder: '各文件夹字数',
+            openTasksPerFolder: '各文件夹未完成任务',
+            topTags: '常用标签',
+            topProperties: '常用属性'
+        },
+        legend: {
+            created: '创建',
+            modified: '修改'
         }
     },
 
@@ -726,8 +1033,10 @@ export const STRINGS_ZH_CN = {
         revealFile: '定位文件', // Command palette: Reveals and selects the currently active file in the navigator (English: Reveal file)
         search: '搜索', // Command palette: Toggle search in the file list (English: Search)
         searchVaultRoot: '在仓库根目录搜索', // Command palette: Selects the vault root folder and focuses search (English: Search in vault root)
+        createSmartFolder: '从搜索创建智能文件夹',
         toggleDualPane: '切换双窗格布局', // Command palette: Toggles between single-pane and dual-pane layout (English: Toggle dual pane layout)
         toggleCalendar: '切换日历', // Command palette: Toggles showing the calendar overlay in the navigation pane (English: Toggle calendar)
+        openStatistics: '打开库统计', // Command palette: Opens the vault statistics dashboard (English: Open vault statistics)
         selectVaultProfile: '更改仓库配置文件', // Command palette: Opens a modal to choose a different vault profile (English: Switch vault profile)
         selectVaultProfile1: '切换到仓库配置文件 1', // Command palette: Activates the first vault profile without opening the modal (English: Select vault profile 1)
         selectVaultProfile2: '切换到仓库配置文件 2', // Command palette: Activates the second vault profile without opening the modal (English: Select vault profile 2)
@@ -736,12 +1045,18 @@ export const STRINGS_ZH_CN = {
         createNewNote: '创建新笔记', // Command palette: Creates a new note in the currently selected folder (English: Create new note)
         createNewNoteFromTemplate: '从模板新建笔记', // Command palette: Creates a new note from a template in the currently selected folder (English: Create new note from template)
         moveFiles: '移动文件', // Command palette: Move selected files to another folder (English: Move files)
+        undo: '撤销文件操作', // Command palette: Reverse the most recent file operation (English: Undo file operation)
+        redo: '重做文件操作', // Command palette: Reapply the most recently undone file operation (English: Redo file operation)
         selectNextFile: '选择下一个文件', // Command palette: Selects the next file in the current view (English: Select next file)
         selectPreviousFile: '选择上一个文件', // Command palette: Selects the previous file in the current view (English: Select previous file)
         convertToFolderNote: '转换为文件夹笔记', // Command palette: Converts the active file into a folder note with a new folder (English: Convert to folder note)
         setAsFolderNote: '设为文件夹笔记', // Command palette: Renames the active file to its folder note name (English: Set as folder note)
         detachFolderNote: '解除文件夹笔记', // Command palette: Renames the active folder note to a new name (English: Detach folder note)
         pinAllFolderNotes: '固定所有文件夹笔记', // Command palette: Pins all folder notes to shortcuts (English: Pin all folder notes)
+        writeFolderMetadataFiles: '将文件夹元数据写入文件', // Command palette: Writes folder icons, colors, sort overrides and appearances to folder notes or sidecars (English: Write folder metadata to files)
+        reloadFolderMetadataFiles: '从文件重新加载文件夹元数据', // Command palette: Reads folder metadata from folder notes or sidecars into settings (English: Reload folder metadata from files)
+        exportConfiguration: '导出配置包', // Command palette: Writes a configuration bundle JSON file to the vault root (English: Export configuration bundle)
+        importConfiguration: '导入配置包', // Command palette: Opens a dialog to import sections of a configuration bundle (English: Import configuration bundle)
         navigateToFolder: '导航到文件夹', // Command palette: Navigate to a folder using fuzzy search (English: Navigate to folder)
         navigateToTag: '导航到标签', // Command palette: Navigate to a tag using fuzzy search (English: Navigate to tag)
         navigateToProperty: '导航到属性', // Command palette: Navigate to a property key or value using fuzzy search (English: Navigate to property)
@@ -755,6 +1070,8 @@ export const STRINGS_ZH_CN = {
         addTag: '为选定文件添加标签', // Command palette: Opens a dialog to add a tag to selected files (English: Add tag to selected files)
         removeTag: '从选定文件移除标签', // Command palette: Opens a dialog to remove a tag from selected files (English: Remove tag from selected files)
         removeAllTags: '从选定文件移除所有标签', // Command palette: Removes all tags from selected files (English: Remove all tags from selected files)
+        mergeTags: '合并标签', // Command palette: Opens a dialog to merge several tags into one tag (English: Merge tags)
+        editProperties: '编辑所选文件的属性', // Command palette: Opens a dialog to set, append to, or remove a property on selected files (English: Edit properties of selected files)
         openAllFiles: '打开所有文件', // Command palette: Opens all files in the current folder or tag (English: Open all files)
         rebuildCache: '重建缓存' // Command palette: Rebuilds the local Notebook Navigator cache (English: Rebuild cache)
     },
@@ -763,6 +1080,7 @@ export const STRINGS_ZH_CN = {
     plugin: {
         viewName: '笔记本导航器', // Name shown in the view header/tab (English: Notebook Navigator)
         calendarViewName: '日历', // Name shown in the view header/tab (English: Calendar)
+        statisticsViewName: '库统计', // Name shown in the statistics view header/tab (English: Vault statistics)
         ribbonTooltip: '笔记本导航器', // Tooltip for the ribbon icon in the left sidebar (English: Notebook Navigator)
         revealInNavigator: '在笔记本导航器中定位' // Context menu item to reveal a file in the navigator (English: Reveal in Notebook Navigator)
     },
@@ -861,7 +1179,13 @@ export const STRINGS_ZH_CN = {
                     'filename-asc': '文件名（升序）',
                     'filename-desc': '文件名（降序）',
                     'property-asc': '属性（升序）',
-                    'property-desc': '属性（降序）'
+                    'property-desc': '属性（降序）',
+                    'wordcount-desc': '字数（最多在顶部）',
+                    'wordcount-asc': '字数（最少在顶部）',
+                    'tasks-desc': '未完成任务（最多在顶部）',
+                    'tasks-asc': '未完成任务（最少在顶部）',
+                    'size-desc': '文件大小（最大在顶部）',
+                    'size-asc': '文件大小（最小在顶部）'
                 },
                 propertyOverride: {
                     asc: '属性 ‘{property}’（升序）',
@@ -887,6 +1211,10 @@ export const STRINGS_ZH_CN = {
                 name: '列表变更时滚动到选定文件',
                 desc: '在固定笔记、显示后代笔记、更改文件夹外观或执行文件操作时滚动到选定的文件。'
             },
+            searchNoteContent: {
+                name: '搜索笔记内容',
+                desc: '为筛选搜索构建笔记正文的本地全文索引。启用 `content:` 筛选，并让普通搜索词除文件名外也匹配笔记正文。无需 Omnisearch。'
+            },
             includeDescendantNotes: {
                 name: '显示子文件夹/后代的笔记',
                 desc: '在查看文件夹或标签时包含嵌套子文件夹和标签后代中的笔记。'
@@ -901,11 +1229,13 @@ export const STRINGS_ZH_CN = {
             },
             groupNotes: {
                 name: '分组笔记',
-                desc: '在按日期或文件夹分组的笔记之间显示标题。启用文件夹分组时，标签视图使用日期分组。',
+                desc: '在按日期、文件夹、标签、首字母或属性值分组的笔记之间显示标题。启用文件夹分组时，标签视图使用日期分组。',
                 options: {
                     none: '不分组',
                     date: '按日期分组',
-                    folder: '按文件夹分组'
+                    folder: '按文件夹分组',
+                    tag: '按标签分组',
+                    alphabetical: '按首字母分组'
                 }
             },
             showPinnedGroupHeader: {
@@ -952,6 +1282,11 @@ export const STRINGS_ZH_CN = {
                 placeholder: '# Extension=icon\ncpp=LiFileCode\npdf=RaBook',
                 editTooltip: '编辑映射'
             },
+            fileStyleRules: {
+                name: '文件样式规则',
+                desc: '为匹配搜索筛选查询的文件设置图标和颜色，例如为 .status=done 设置对勾图标，为 folder:archive 设置灰色。规则保存在库配置文件中。',
+                buttonText: '编辑规则'
+            },
             optimizeNoteHeight: {
                 name: '可变笔记高度',
                 desc: '为固定笔记和无预览文本的笔记使用紧凑高度。'
@@ -1032,6 +1367,15 @@ export const STRINGS_ZH_CN = {
                 name: '在新标签页中打开新笔记',
                 desc: '启用后，"创建新笔记"命令会在新标签页中打开笔记。禁用后，笔记将替换当前标签页。'
             },
+            newNoteFileNamePattern: {
+                name: '新笔记文件名',
+                desc: '新笔记的文件名模式。支持 {{date}}、{{date:FORMAT}}、{{time}} 和 {{title}}。可在文件夹菜单中为文件夹单独设置。留空则使用“未命名”。',
+                placeholder: '{{date:YYYY-MM-DD}} {{title}}'
+            },
+            promptForNewNoteTitle: {
+                name: '创建笔记时询问标题',
+                desc: '创建笔记前询问标题。标题会填入文件名模式中的 {{title}}，未设置模式时则作为文件名。'
+            },
             autoRevealActiveNote: {
                 name: '自动定位活动笔记',
                 desc: '从快速切换器、链接或搜索打开笔记时自动显示。'
@@ -1208,6 +1552,11 @@ export const STRINGS_ZH_CN = {
                 desc: '模板文件选择器显示此文件夹中的笔记。',
                 placeholder: 'Templates'
             },
+            noteTemplateRules: {
+                name: '笔记模板规则',
+                desc: '为从文件夹、标签或属性创建的笔记应用模板和文件名模式。',
+                buttonText: '编辑规则'
+            },
             calendarCustomFilePattern: {
                 name: '日记',
                 desc: '使用 Moment 日期格式设置路径。将子文件夹名称用方括号括起来，例如 [Work]/YYYY。点击模板图标设置模板。在常规 > 模板中设置模板文件夹位置。',
@@ -1262,6 +1611,16 @@ export const STRINGS_ZH_CN = {
                 notice: '所有设置已重置。重启 Obsidian 或重新打开 Notebook Navigator 以应用。',
                 error: '重置设置失败。'
             },
+            configBundle: {
+                name: '配置包',
+                desc: '将库配置文件、快捷方式、样式、外观、排序覆盖、图标映射和键盘快捷键导出到库根目录的 JSON 文件，或导入配置包来设置另一个库。',
+                exportButton: '导出',
+                importButton: '导入',
+                exportSuccess: '已将配置导出到 {filename}',
+                exportFailed: '导出配置失败。',
+                importSuccess: '已导入配置。',
+                importFailed: '导入配置失败。'
+            },
             multiSelectModifier: {
                 name: '多选修饰键',
                 desc: '选择哪个修饰键切换多选模式。选择 Option/Alt 时，Cmd/Ctrl 点击会在新标签页中打开笔记。',
@@ -1286,6 +1645,14 @@ export const STRINGS_ZH_CN = {
                 name: 'Ctrl+Enter',
                 desc: '按 Ctrl+Enter 在新标签页、分栏或窗口中打开所选文件。'
             },
+            vimKeyboardNavigation: {
+                name: 'Vim 风格按键序列',
+                desc: '使用 gg 和 G 跳到第一项和最后一项，dd 删除，zc 和 zo 折叠和展开，/ 打开搜索。自定义快捷键优先。'
+            },
+            typeAheadFind: {
+                name: '输入即查找',
+                desc: '输入字母会跳到名称以所输入文本开头的第一个文件夹、标签或笔记。启用 Vim 风格按键序列时不可用。'
+            },
             excludedNotes: {
                 name: '按属性规则隐藏笔记 (库配置)',
                 desc: '逗号分隔的前置元数据规则列表。使用 `key` 或 `key=value` 条目（例如：status=done, published=true, archived）。',
@@ -1409,6 +1776,10 @@ export const STRINGS_ZH_CN = {
                     none: '无'
                 }
             },
+            showTaskProgress: {
+                name: '任务进度',
+                desc: '为包含任务的笔记显示完成进度条和下一个截止日期。'
+            },
             propertyFields: {
                 name: '属性键（保险库配置）',
                 desc: 'Frontmatter 属性键，可按键设置导航和文件列表的可见性。',
@@ -1521,6 +1892,15 @@ export const STRINGS_ZH_CN = {
                     alphaDesc: 'Z 到 A'
                 }
             },
+            folderMetadataStorage: {
+                name: '文件夹元数据存储',
+                desc: '同时将文件夹图标、颜色、排序覆盖和外观保存在库中，使其通过同步或 git 随文件夹一起迁移。更改会双向同步。运行“将文件夹元数据写入文件”以迁移现有元数据。',
+                options: {
+                    settings: '仅插件设置',
+                    folderNote: '文件夹笔记的 frontmatter',
+                    sidecar: '.folder.yml 附属文件'
+                }
+            },
             showNoteCount: {
                 name: '显示笔记数',
                 desc: '在每个文件夹和标签旁显示笔记数量。'
@@ -1636,6 +2016,11 @@ export const STRINGS_ZH_CN = {
                 name: '显示属性文件夹',
                 desc: '将"属性"显示为可折叠文件夹。'
             },
+            propertyHierarchies: {
+                name: '属性层级',
+                desc: '按属性值将笔记嵌套到虚拟文件夹中，每个键一层。每行一个层级，格式为 `Name: key > key > key`。这些键也必须列在属性键中。',
+                placeholder: 'Research: type > status > project'
+            },
             hiddenTags: {
                 name: '隐藏标签 (库配置)',
                 desc: '逗号分隔的标签模式列表。名称模式：tag*（以...开头）、*tag（以...结尾）。路径模式：archive（标签及其后代）、archive/*（仅后代）、projects/*/drafts（中间通配符）。',
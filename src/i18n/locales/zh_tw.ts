@@ -46,7 +46,10 @@ export const STRINGS_ZH_TW = {
         pinnedSection: '已釘選',
         notesSection: '筆記',
         filesSection: '檔案',
-        hiddenItemAriaLabel: '{name} (已隱藏)'
+        noPropertyValue: '無值',
+        hiddenItemAriaLabel: '{name} (已隱藏)',
+        taskProgressAriaLabel: '已完成 {completed}/{total} 個任務',
+        taskDue: '截止 {date}'
     },
 
     // Tag list
@@ -60,6 +63,7 @@ export const STRINGS_ZH_TW = {
         recentNotesHeader: '最近筆記',
         recentFilesHeader: '最近檔案',
         properties: '屬性',
+        smartFolders: '智慧資料夾',
         reorderRootFoldersTitle: '重新排列導覽',
         reorderRootFoldersHint: '使用方向鍵或拖曳來重新排列',
         vaultRootLabel: '保險庫',
@@ -129,6 +133,7 @@ export const STRINGS_ZH_TW = {
         mobileBackToNavigation: '返回導覽',
         changeSortOrder: '變更排序方式',
         defaultSort: '預設',
+        customSortChain: '自訂排序鏈...',
         showFolders: '顯示導覽',
         reorderRootFolders: '重新排列導覽',
         finishRootFolderReorder: '完成重新排列',
@@ -169,6 +174,15 @@ export const STRINGS_ZH_TW = {
                         '`-word` 排除檔案名稱中含有 "word" 的筆記。'
                     ]
                 },
+                content: {
+                    title: '筆記內容',
+                    items: [
+                        '`content:詞` 符合內文包含以「詞」開頭之詞語的筆記。',
+                        '`content:"兩個 詞"` 要求每個詞都出現在筆記內文中。',
+                        '`-content:詞` 排除內文包含以「詞」開頭之詞語的筆記。',
+                        '需要在清單窗格設定中啟用 **搜尋筆記內容**。啟用後，一般詞語也會符合筆記內文。'
+                    ]
+                },
                 tags: {
                     title: '標籤',
                     items: [
@@ -192,6 +206,8 @@ export const STRINGS_ZH_TW = {
                         '`."Reading Status"="In Progress"` 包含空格的鍵和值必須用雙引號括起來。',
                         '`-.key` 排除具有屬性鍵的筆記。',
                         '`-.key=value` 排除具有屬性值的筆記。',
+                        '`.key>=3`, `.key<2026-11-01` 使用 `>`, `>=`, `<`, `<=` 比較數字或日期屬性。',
+                        '`.key:thisweek`, `.key:1..5`, `.key:2026-11-01..2026-11-30` 比對相對日期、日期、數字或包含端點的範圍。',
                         'Cmd/Ctrl+點擊屬性以 AND 方式新增。Cmd/Ctrl+Shift+點擊以 OR 方式新增。'
                     ]
                 },
@@ -200,6 +216,8 @@ export const STRINGS_ZH_TW = {
                     items: [
                         '`has:task` 包含有未完成任務的筆記。',
                         '`-has:task` 排除有未完成任務的筆記。',
+                        '`due:overdue`, `due:today`, `due:thisweek` 包含在範圍內到期的未完成任務的筆記（Tasks 的 `📅` 日期或 Dataview 的 `[due:: ]` 欄位）。',
+                        '`due:2026-11-01..2026-11-30` 比對截止日期或範圍。`-due:...` 排除包含相符未完成任務的筆記。',
                         '`folder:meetings` 包含資料夾名稱含有 `meetings` 的筆記。',
                         '`folder:/work/meetings` 僅包含 `work/meetings` 中的筆記（不含子資料夾）。',
                         '`folder:/` 僅包含保管庫根目錄中的筆記。',
@@ -211,13 +229,13 @@ export const STRINGS_ZH_TW = {
                     ]
                 },
                 connectors: {
-                    title: 'AND/OR 行為',
+                    title: 'AND/OR/NOT 與分組',
                     items: [
-                        '`AND` 和 `OR` 僅在純標籤/屬性查詢中作為運算子。',
-                        '純標籤/屬性查詢僅包含標籤和屬性篩選器: `#tag`、`-#tag`、`#`、`-#`、`.key`、`-.key`、`.key=value`、`-.key=value`。',
-                        '如果查詢包含名稱、日期（`@...`）、任務篩選器（`has:task`）、資料夾篩選器（`folder:...`）或副檔名篩選器（`ext:...`），`AND` 和 `OR` 將作為詞語進行比對。',
-                        '運算子查詢範例: `#work OR .status=started`。',
-                        '混合查詢範例：`#work OR ext:md`（`OR` 在檔案名稱中進行比對）。'
+                        '當查詢包含篩選條件（`#tag`、`.key`、`@date`、`has:task`、`due:`、`folder:`、`ext:`、`content:`）或括號時，`AND`、`OR` 和 `NOT` 作為運算子。',
+                        '`( )` 用於分組：`(folder:Projects OR folder:Areas) AND #active AND -ext:pdf`。',
+                        '`NOT 條件` 或 `-條件` 排除一個條件。`-( )` 排除整個分組。',
+                        '`NOT` 優先於 `AND`，`AND` 優先於 `OR`。相鄰條件隱含使用 AND。',
+                        '僅包含詞語且沒有括號的查詢會將 `AND`、`OR` 和 `NOT` 視為檔名中的詞語比對（例如 `black or white`）。'
                     ]
                 },
                 dates: {
@@ -279,6 +297,7 @@ export const STRINGS_ZH_TW = {
             addTag: '新增標籤',
             removeTag: '移除標籤',
             removeAllTags: '移除所有標籤',
+            editProperties: '編輯屬性',
             changeIcon: '變更圖示',
             changeColor: '變更顏色',
             // File-specific context menu items (non-markdown files)
@@ -298,6 +317,7 @@ export const STRINGS_ZH_TW = {
         folder: {
             newNote: '新筆記',
             newNoteFromTemplate: '從範本新建筆記',
+            newNoteFileName: '新筆記檔名...',
             newFolder: '新建資料夾',
             newCanvas: '新建畫布',
             newBase: '新建資料庫',
@@ -322,14 +342,24 @@ export const STRINGS_ZH_TW = {
             changeIcon: '變更圖示',
             changeColor: '變更顏色',
             changeBackground: '變更背景',
+            mergeTags: '合併標籤...',
+            splitTag: '拆分標籤...',
             showTag: '顯示標籤',
             hideTag: '隱藏標籤'
         },
         property: {
             addKey: '設定屬性鍵',
             renameKey: '重新命名屬性',
+            renameValue: '重新命名值',
+            mergeValue: '合併到值...',
             deleteKey: '刪除屬性'
         },
+        smartFolder: {
+            newSmartFolder: '新增智慧資料夾',
+            newNestedSmartFolder: '新增巢狀智慧資料夾',
+            editSmartFolder: '編輯智慧資料夾',
+            deleteSmartFolder: '刪除智慧資料夾'
+        },
         navigation: {
             addSeparator: '新增分隔線',
             removeSeparator: '移除分隔線'
@@ -355,11 +385,25 @@ export const STRINGS_ZH_TW = {
     folderAppearance: {
         standardPreset: '標準',
         compactPreset: '精簡',
+        gridPreset: '網格',
+        boardPreset: '看板...',
+        boardPresetOption: (property: string) => `看板 (${property})`,
+        boardPropertyAction: '按屬性產生看板列',
+        boardPropertyPlaceholder: '屬性鍵',
+        tileSize: '磚塊大小',
+        tileSizeOptions: {
+            small: '小磚塊',
+            medium: '中磚塊',
+            large: '大磚塊'
+        },
         defaultSuffix: '(預設)',
         defaultLabel: '預設',
         titleRows: '標題行數',
         previewRows: '預覽行數',
         groupBy: '分組依據',
+        groupByPropertyAction: '按屬性分組...',
+        groupByPropertyPlaceholder: '屬性鍵',
+        groupByPropertyOption: (property: string) => `按屬性分組 (${property})`,
         defaultTitleOption: (rows: number) => `預設標題行數 (${rows})`,
         defaultPreviewOption: (rows: number) => `預設預覽行數 (${rows})`,
         defaultGroupOption: (groupLabel: string) => `預設分組 (${groupLabel})`,
@@ -383,6 +427,88 @@ export const STRINGS_ZH_TW = {
         fileIconRuleEditor: {
             addRuleAria: '新增規則'
         },
+        sortChain: {
+            title: '自訂排序鏈',
+            description: '筆記先依第一個鍵排序。後續每個鍵會排序前面鍵值相同的筆記。',
+            propertyPlaceholder: '屬性鍵',
+            ascending: '升冪',
+            descending: '降冪',
+            addKey: '新增排序鍵',
+            moveUp: '上移',
+            moveDown: '下移',
+            save: '儲存',
+            fields: {
+                modified: '編輯日期',
+                created: '建立日期',
+                title: '標題',
+                filename: '檔案名稱',
+                property: '屬性',
+                wordcount: '字數',
+                tasks: '未完成任務',
+                size: '檔案大小'
+            }
+        },
+        noteTemplateRules: {
+            title: '筆記範本規則',
+            description:
+                '從資料夾、標籤或屬性建立的筆記會使用第一條符合規則的範本和檔名。檔名支援 {{date}}、{{date:FORMAT}}、{{time}} 和 {{title}}。',
+            folderPatternPlaceholder: '資料夾路徑，例如 Meetings 或 Projects/*/Notes',
+            tagPatternPlaceholder: '標籤，例如 meeting',
+            propertyPatternPlaceholder: '屬性，例如 type 或 type=meeting',
+            templatePlaceholder: '範本檔案',
+            fileNamePlaceholder: '檔名模式，例如 {{date}} Meeting',
+            emptyState: '沒有規則。新筆記將建立為空白筆記。',
+            addRule: '新增規則',
+            moveUp: '上移',
+            moveDown: '下移',
+            save: '儲存',
+            targets: {
+                folder: '資料夾',
+                tag: '標籤',
+                property: '屬性'
+            }
+        },
+        fileStyleRules: {
+            title: '檔案樣式規則',
+            description:
+                '符合規則查詢的檔案會使用該規則的圖示和顏色。查詢使用搜尋篩選語法。規則由上到下檢查：第一個帶圖示的符合規則決定圖示，第一個帶顏色的符合規則決定顏色。直接為檔案設定的圖示和顏色優先。',
+            queryPlaceholder: '篩選查詢，例如 .status=done、#meeting 或 folder:archive',
+            emptyState: '沒有規則。',
+            setIcon: '設定圖示',
+            setColor: '設定顏色',
+            addRule: '新增規則',
+            moveUp: '上移',
+            moveDown: '下移',
+            save: '儲存'
+        },
+        configBundleImport: {
+            title: '匯入設定包',
+            description: '從儲存庫選擇一個設定包 JSON 檔案，然後選擇要匯入的部分。匯入的值會像一般設定一樣進行驗證。',
+            filePlaceholder: '設定包路徑，例如 notebook-navigator-config.json',
+            sectionsLabel: '要匯入的部分',
+            strategyLabel: '現有設定',
+            strategies: {
+                merge: '合併，以設定包項目為準',
+                replace: '取代所選部分'
+            },
+            bundleInfo: '於 {date} 從 Notebook Navigator {version} 匯出',
+            importButton: '匯入',
+            sections: {
+                vaultProfiles: '儲存庫設定檔和捷徑',
+                styling: '資料夾、標籤和屬性的圖示與顏色',
+                appearances: '資料夾和標籤外觀',
+                sortOverrides: '排序覆寫',
+                iconMaps: '圖示對應和介面圖示',
+                keyboardShortcuts: '鍵盤快捷鍵'
+            },
+            errors: {
+                invalidJson: '檔案不是有效的 JSON。',
+                invalidFormat: '檔案不是 Notebook Navigator 設定包。',
+                unsupportedVersion: '此設定包由較新版本的 Notebook Navigator 建立。',
+                empty: '設定包中沒有可匯入的部分。',
+                readFailed: '無法讀取檔案。'
+            }
+        },
         interfaceIcons: {
             title: '介面圖示',
             fileItemsSection: '檔案項目',
@@ -413,6 +539,8 @@ export const STRINGS_ZH_TW = {
                 'nav-properties': '屬性',
                 'nav-property': '屬性',
                 'nav-property-value': '值',
+                'nav-smart-folders': '智慧資料夾',
+                'nav-smart-folder': '智慧資料夾',
                 'list-pinned': '釘選項目',
                 'file-unfinished-task': '未完成任務',
                 'file-word-count': '字數統計'
@@ -489,6 +617,107 @@ export const STRINGS_ZH_TW = {
             deleteSettingsUpdateFailed: '已刪除屬性 {property}。更新設定失敗。',
             invalidKeyName: '請輸入有效的屬性名稱。'
         },
+        propertyValueEdit: {
+            title: '編輯屬性',
+            description: '變更 {count} 個{files}中的屬性。',
+            keyLabel: '屬性',
+            keyPlaceholder: '屬性名稱',
+            modeLabel: '操作',
+            modes: {
+                set: '設定值',
+                append: '加入清單',
+                remove: '移除屬性'
+            },
+            valueLabel: '值',
+            valuePlaceholder: '值',
+            emptyValue: '（空）',
+            previewTitle: '預覽',
+            changeSummary: '{total} 篇筆記中有 {count} 篇將被變更',
+            noChanges: '沒有需要變更的筆記。',
+            apply: '套用',
+            successSingle: '已在 1 篇筆記中更新屬性 {property}',
+            successMultiple: '已在 {count} 篇筆記中更新屬性 {property}',
+            partialFailure: '已在 {count} 篇筆記中更新屬性 {property}。{failed} 篇筆記無法更新。'
+        },
+        propertyValueRename: {
+            renameTitle: '重新命名值 {value}',
+            renameWarning: '重新命名 {property}: {value} 將修改 {count} 個{files}。輸入已存在的值會合併這兩個值。',
+            newValuePrompt: '新值',
+            newValuePlaceholder: '輸入新值',
+            confirmRename: '重新命名值',
+            mergeTitle: '合併值 {value}',
+            mergeWarning: '將 {oldValue} 合併到 {newValue} 將修改 {count} 個{files}。{newValue} 保留其自身的圖示、顏色和捷徑。',
+            mergePlaceholder: '將 {value} 合併到...',
+            mergeInstruction: '合併',
+            confirmMerge: '合併值',
+            noOtherValues: '屬性 {property} 沒有其他值',
+            nestedTarget: '無法將值重新命名為其巢狀值之一。',
+            invalidValue: '請輸入有效的值。',
+            noChanges: '{oldValue} → {newValue}（無變更）',
+            successSingle: '已在 1 篇筆記中將 {oldValue} 重新命名為 {newValue}',
+            successMultiple: '已在 {count} 篇筆記中將 {oldValue} 重新命名為 {newValue}',
+            partialFailure: '已在 {count} 篇筆記中將 {oldValue} 重新命名為 {newValue}。{failed} 篇筆記無法更新。'
+        },
+        tagOperationSummary: {
+            close: '關閉',
+            updatedNotes: '已更新的筆記',
+            skippedNotes: '已略過的筆記',
+            skippedDescription: '這些筆記在預覽後已變更，或沒有需要更新的內容。',
+            failedNotes: '失敗的筆記',
+            reportSummary: '已更新 {changed}/{total} 篇筆記。'
+        },
+        tagMerge: {
+            title: '合併標籤',
+            description: '將多個標籤合併為一個標籤。巢狀標籤會隨其父標籤一起移動。',
+            sourcesLabel: '要合併的標籤',
+            sourcesPlaceholder: '以逗號分隔的標籤',
+            targetLabel: '合併到',
+            targetPlaceholder: '目標標籤',
+            preview: '預覽合併',
+            nothingToMerge: '沒有可合併的標籤。請檢查這些標籤是否在筆記中使用且不同於目標標籤。',
+            previewTitle: '合併到 {tag}',
+            previewDescription: '將 {tags} 合併到 {tag} 將修改 {count} 篇筆記。',
+            confirm: '合併標籤',
+            affectedNotes: '受影響的筆記',
+            skippedTags: '已略過的標籤',
+            skipReasons: {
+                sameAsTarget: '與目標標籤相同',
+                containsTarget: '目標標籤巢狀於此標籤下',
+                nestedInSource: '隨其父標籤一起合併',
+                noNotes: '未在任何筆記中使用'
+            },
+            alreadyTagged: '已帶有 {tag} 的筆記',
+            alreadyTaggedDescription: '這些筆記將多次包含目標標籤。',
+            multipleSources: '包含多個待合併標籤的筆記',
+            multipleSourcesDescription: '這些筆記中的每一篇都將多次包含目標標籤。',
+            nestedCollisions: '巢狀標籤衝突',
+            nestedCollisionsDescription: '這些巢狀標籤將合併到已存在的巢狀標籤中。',
+            notFinalized: '中繼資料未移動',
+            notFinalizedDescription: '帶有這些標籤的部分筆記未更新，因此保留了它們的圖示、顏色和捷徑。',
+            reportTitle: '已合併到 {tag}'
+        },
+        tagSplit: {
+            title: '拆分標籤 {tag}',
+            description: '恰好帶有 {tag} 的{files}共 {count} 個。每篇筆記會移動到第一個符合規則的子標籤。沒有符合規則的筆記保留 {tag}。',
+            childPlaceholder: '子標籤',
+            kinds: {
+                folder: '資料夾',
+                query: '篩選查詢'
+            },
+            folderPlaceholder: '資料夾路徑（包含子資料夾）',
+            queryPlaceholder: '搜尋篩選查詢',
+            addRule: '新增規則',
+            preview: '預覽拆分',
+            nothingMatched: '沒有筆記符合這些規則。',
+            previewTitle: '拆分 {tag}',
+            previewDescription: '帶有 {tag} 的 {total} 篇筆記中有 {count} 篇將移動到子標籤。',
+            confirm: '拆分標籤',
+            invalidRules: '無法評估的規則',
+            invalidRulesDescription: '篩選查詢需要搜尋條件和已就緒的筆記快取。',
+            unmatched: '沒有符合規則的筆記',
+            unmatchedDescription: '這些筆記保留 {tag}。',
+            reportTitle: '已拆分 {tag}'
+        },
         fileSystem: {
             newFolderTitle: '新建資料夾',
             renameFolderTitle: '重新命名資料夾',
@@ -498,6 +727,10 @@ export const STRINGS_ZH_TW = {
             deleteFileAttachmentsTitle: '刪除檔案附件？',
             moveFileConflictTitle: '移動衝突',
             folderNamePrompt: '輸入資料夾名稱：',
+            newNoteTitle: '新筆記',
+            noteTitlePrompt: '輸入筆記標題：',
+            createNoteButton: '建立',
+            newNoteFileNamePrompt: '檔名模式，例如 {{date:YYYYMMDDHHmm}} {{title}}。留空則使用預設值。',
             hideInOtherVaultProfiles: '在其他保險庫設定檔中隱藏',
             renamePrompt: '輸入新名稱：',
             renameVaultTitle: '變更保險庫顯示名稱',
@@ -591,6 +824,22 @@ export const STRINGS_ZH_TW = {
             applyButton: '套用',
             emptyState: '未找到屬性鍵。'
         },
+        smartFolder: {
+            newTitle: '新增智慧資料夾',
+            newNestedTitle: '在 {name} 中新增智慧資料夾',
+            editTitle: '編輯智慧資料夾',
+            nameLabel: '名稱',
+            namePlaceholder: '智慧資料夾名稱',
+            queryLabel: '篩選查詢',
+            queryPlaceholder: '#project AND -#archived',
+            queryDescription: '使用篩選搜尋語法。巢狀智慧資料夾只會列出同時符合其上層資料夾查詢的筆記。',
+            create: '建立',
+            save: '儲存',
+            emptyName: '智慧資料夾名稱不能為空',
+            duplicateName: '此處已存在同名的智慧資料夾',
+            deleteTitle: '刪除智慧資料夾「{name}」？',
+            deleteMessage: '巢狀智慧資料夾也會被刪除。筆記不會被修改。'
+        },
         welcome: {
             title: '歡迎使用 {pluginName}',
             introText: '您好！在開始之前，強烈建議您觀看下方影片的前五分鐘，以了解面板和「顯示子資料夾中的筆記」開關是如何運作的。',
@@ -672,6 +921,9 @@ export const STRINGS_ZH_TW = {
             iconPackUpdated: '{provider} 已更新 ({version})',
             iconPackRemoved: '{provider} 已移除',
             iconPackLoadFailed: '{provider} 載入失敗',
+            folderMetadataWritten: '已寫入 {count} 個資料夾的中繼資料',
+            folderMetadataLoaded: '已載入 {count} 個資料夾的中繼資料',
+            folderMetadataStorageDisabled: '請先在資料夾設定中選擇資料夾筆記或附屬檔案儲存',
             hiddenFileReveal: '檔案已隱藏。啟用「顯示隱藏項目」以顯示它'
         },
         confirmations: {
@@ -701,7 +953,62 @@ export const STRINGS_ZH_TW = {
             filesAlreadyHaveProperty: '{count} 個檔案已擁有此屬性',
             noTagsToClear: '沒有要清除的標籤',
             fileImported: '已匯入 1 個檔案',
-            filesImported: '已匯入 {count} 個檔案'
+            filesImported: '已匯入 {count} 個檔案',
+            filesMoved: '已將 {count} 個檔案移動到 {folder}'
+        }
+    },
+
+    // Undo history
+    undoHistory: {
+        undo: '復原',
+        undone: '已復原：{action}',
+        redone: '已重做：{action}',
+        nothingToUndo: '沒有可復原的操作',
+        nothingToRedo: '沒有可重做的操作',
+        failed: '無法復原「{action}」：{error}',
+        partial: '{count} 個項目無法還原',
+        actions: {
+            moveFile: '移動「{name}」',
+            moveFiles: '移動 {count} 個檔案',
+            moveFolder: '移動資料夾「{name}」',
+            renameFile: '重新命名「{name}」',
+            renameFolder: '重新命名資料夾「{name}」',
+            addTag: '新增標籤 #{tag}',
+            removeTag: '移除標籤 #{tag}',
+            renameProperty: '重新命名屬性 {oldKey} → {newKey}',
+            editProperty: '編輯屬性 {property}',
+            renamePropertyValue: '重新命名 {property} 的值 {oldValue} → {newValue}',
+            changeAppearance: '變更「{name}」的外觀'
+        }
+    },
+
+    // Vault statistics dashboard
+    statisticsDashboard: {
+        refresh: '重新整理',
+        loading: '正在等待筆記快取...',
+        unavailable: '無法計算統計資訊。',
+        empty: '無資料',
+        weekLabel: '{date} 當週',
+        createdCount: '建立 {count} 篇',
+        modifiedCount: '修改 {count} 篇',
+        summary: {
+            notes: '筆記',
+            words: '字數',
+            openTasks: '未完成任務',
+            untagged: '無標籤筆記',
+            orphaned: '孤立筆記',
+            orphanedDescription: '沒有其他筆記連結到的筆記'
+        },
+        sections: {
+            activity: '每週建立和修改的筆記',
+            wordsPerFolder: '各資料夾字數',
+            openTasksPerFolder: '各資料夾未完成任務',
+            topTags: '常用標籤',
+            topProperties: '常用屬性'
+        },
+        legend: {
+            created: '建立',
+            modified: '修改'
         }
     },
 
@@ -726,8 +1033,10 @@ export const STRINGS_ZH_TW = {
         revealFile: '定位檔案',
         search: '搜尋',
         searchVaultRoot: '在保險庫根目錄搜尋',
+        createSmartFolder: '從搜尋建立智慧資料夾',
         toggleDualPane: '切換雙窗格布局',
         toggleCalendar: '切換日曆',
+        openStatistics: '開啟庫統計', // Command palette: Opens the vault statistics dashboard (English: Open vault statistics)
         selectVaultProfile: '變更保險庫設定檔',
         selectVaultProfile1: '切換到保險庫設定檔 1',
         selectVaultProfile2: '切換到保險庫設定檔 2',
@@ -736,12 +1045,18 @@ export const STRINGS_ZH_TW = {
         createNewNote: '建立新筆記',
         createNewNoteFromTemplate: '從範本新建筆記',
         moveFiles: '移動檔案',
+        undo: '復原檔案操作',
+        redo: '重做檔案操作',
         selectNextFile: '選擇下一個檔案',
         selectPreviousFile: '選擇上一個檔案',
         convertToFolderNote: '轉換為資料夾筆記',
         setAsFolderNote: '設為資料夾筆記',
         detachFolderNote: '解除資料夾筆記',
         pinAllFolderNotes: '釘選所有資料夾筆記',
+        writeFolderMetadataFiles: '將資料夾中繼資料寫入檔案', // Command palette: Writes folder icons, colors, sort overrides and appearances to folder notes or sidecars (English: Write folder metadata to files)
+        reloadFolderMetadataFiles: '從檔案重新載入資料夾中繼資料', // Command palette: Reads folder metadata from folder notes or sidecars into settings (English: Reload folder metadata from files)
+        exportConfiguration: '匯出設定包', // Command palette: Writes a configuration bundle JSON file to the vault root (English: Export configuration bundle)
+        importConfiguration: '匯入設定包', // Command palette: Opens a dialog to import sections of a configuration bundle (English: Import configuration bundle)
         navigateToFolder: '導覽至資料夾',
         navigateToTag: '導覽至標籤',
         navigateToProperty: '導航到屬性',
@@ -755,6 +1070,8 @@ export const STRINGS_ZH_TW = {
         addTag: '為選定檔案新增標籤',
         removeTag: '從選定檔案移除標籤',
         removeAllTags: '從選定檔案移除所有標籤',
+        mergeTags: '合併標籤', // Command palette: Opens a dialog to merge several tags into one tag (English: Merge tags)
+        editProperties: '編輯所選檔案的屬性', // Command palette: Opens a dialog to set, append to, or remove a property on selected files (English: Edit properties of selected files)
         openAllFiles: '開啟所有檔案',
         rebuildCache: '重建快取'
     },
@@ -763,6 +1080,7 @@ export const STRINGS_ZH_TW = {
     plugin: {
         viewName: '筆記本導覽器',
         calendarViewName: '日曆',
+        statisticsViewName: '庫統計', // Name shown in the statistics view header/tab (English: Vault statistics)
         ribbonTooltip: '筆記本導覽器',
         revealInNavigator: '在筆記本導覽器中定位'
     },
@@ -861,7 +1179,13 @@ export const STRINGS_ZH_TW = {
                     'filename-asc': '檔案名稱（升序）',
                     'filename-desc': '檔案名稱（降序）',
                     'property-asc': '屬性（升序）',
-                    'property-desc': '屬性（降序）'
+                    'property-desc': '屬性（降序）',
+                    'wordcount-desc': '字數（最多在頂部）',
+                    'wordcount-asc': '字數（最少在頂部）',
+                    'tasks-desc': '未完成任務（最多在頂部）',
+                    'tasks-asc': '未完成任務（最少在頂部）',
+                    'size-desc': '檔案大小（最大在頂部）',
+                    'size-asc': '檔案大小（最小在頂部）'
                 },
                 propertyOverride: {
                     asc: '屬性 ‘{property}’（升序）',
@@ -887,6 +1211,10 @@ export const STRINGS_ZH_TW = {
                 name: '列表變更時捲動到選定檔案',
                 desc: '在釘選筆記、顯示後代筆記、變更資料夾外觀或執行檔案操作時捲動到選定的檔案。'
             },
+            searchNoteContent: {
+                name: '搜尋筆記內容',
+                desc: '為篩選搜尋建立筆記內文的本機全文索引。啟用 `content:` 篩選，並讓一般搜尋詞除檔名外也符合筆記內文。不需要 Omnisearch。'
+            },
             includeDescendantNotes: {
                 name: '顯示子資料夾/後代的筆記',
                 desc: '在檢視資料夾或標籤時包含巢狀子資料夾和標籤後代中的筆記。'
@@ -901,11 +1229,13 @@ export const STRINGS_ZH_TW = {
             },
             groupNotes: {
                 name: '分組筆記',
-                desc: '在按日期或資料夾分組的筆記之間顯示標題。啟用資料夾分組時，標籤檢視使用日期分組。',
+                desc: '在按日期、資料夾、標籤、首字母或屬性值分組的筆記之間顯示標題。啟用資料夾分組時，標籤檢視使用日期分組。',
                 options: {
                     none: '不分組',
                     date: '按日期分組',
-                    folder: '按資料夾分組'
+                    folder: '按資料夾分組',
+                    tag: '按標籤分組',
+                    alphabetical: '按首字母分組'
                 }
             },
             showPinnedGroupHeader: {
@@ -952,6 +1282,11 @@ export const STRINGS_ZH_TW = {
                 placeholder: '# 副檔名=圖示\ncpp=LiFileCode\npdf=RaBook',
                 editTooltip: '編輯對應'
             },
+            fileStyleRules: {
+                name: '檔案樣式規則',
+                desc: '為符合搜尋篩選查詢的檔案設定圖示和顏色，例如為 .status=done 設定勾號圖示，為 folder:archive 設定灰色。規則儲存在儲存庫設定檔中。',
+                buttonText: '編輯規則'
+            },
             optimizeNoteHeight: {
                 name: '可變筆記高度',
                 desc: '為釘選筆記和無預覽文字的筆記使用精簡高度。'
@@ -1032,6 +1367,15 @@ export const STRINGS_ZH_TW = {
                 name: '在新分頁中開啟新筆記',
                 desc: '啟用後，「建立新筆記」命令會在新分頁中開啟筆記。停用後，筆記將取代目前的分頁。'
             },
+            newNoteFileNamePattern: {
+                name: '新筆記檔名',
+                desc: '新筆記的檔名模式。支援 {{date}}、{{date:FORMAT}}、{{time}} 和 {{title}}。可在資料夾選單中為資料夾個別設定。留空則使用「未命名」。',
+                placeholder: '{{date:YYYY-MM-DD}} {{title}}'
+            },
+            promptForNewNoteTitle: {
+                name: '建立筆記時詢問標題',
+                desc: '建立筆記前詢問標題。標題會填入檔名模式中的 {{title}}，未設定模式時則作為檔名。'
+            },
             autoRevealActiveNote: {
                 name: '自動定位使用中的筆記',
                 desc: '從快速切換器、連結或搜尋開啟筆記時自動顯示。'
@@ -1208,6 +1552,11 @@ export const STRINGS_ZH_TW = {
                 desc: '範本檔案選擇器顯示此資料夾中的筆記。',
                 placeholder: 'Templates'
             },
+            noteTemplateRules: {
+                name: '筆記範本規則',
+                desc: '為從資料夾、標籤或屬性建立的筆記套用範本和檔名模式。',
+                buttonText: '編輯規則'
+            },
             calendarCustomFilePattern: {
                 name: '日記',
                 desc: '使用 Moment 日期格式設定路徑。將子資料夾名稱用方括號括起來，例如 [Work]/YYYY。點擊範本圖示設定範本。在一般 > 範本中設定範本資料夾位置。',
@@ -1262,6 +1611,16 @@ export const STRINGS_ZH_TW = {
                 notice: '所有設定已重設。重新啟動 Obsidian 或重新開啟 Notebook Navigator 以套用。',
                 error: '重設設定失敗。'
             },
+            configBundle: {
+                name: '設定包',
+                desc: '將儲存庫設定檔、捷徑、樣式、外觀、排序覆寫、圖示對應和鍵盤快捷鍵匯出到儲存庫根目錄的 JSON 檔案，或匯入設定包來設定另一個儲存庫。',
+                exportButton: '匯出',
+                importButton: '匯入',
+                exportSuccess: '已將設定匯出到 {filename}',
+                exportFailed: '匯出設定失敗。',
+                importSuccess: '已匯入設定。',
+                importFailed: '匯入設定失敗。'
+            },
             multiSelectModifier: {
                 name: '多選修飾鍵',
                 desc: '選擇哪個修飾鍵切換多選模式。選擇 Option/Alt 時，Cmd/Ctrl 點按會在新分頁中開啟筆記。',
@@ -1286,6 +1645,14 @@ export const STRINGS_ZH_TW = {
                 name: 'Ctrl+Enter',
                 desc: '按 Ctrl+Enter 在新分頁、分割或視窗中開啟所選檔案。'
             },
+            vimKeyboardNavigation: {
+                name: 'Vim 風格按鍵序列',
+                desc: '使用 gg 和 G 跳到第一項和最後一項，dd 刪除，zc 和 zo 摺疊和展開，/ 開啟搜尋。自訂快捷鍵優先。'
+            },
+            typeAheadFind: {
+                name: '輸入即尋找',
+                desc: '輸入字母會跳到名稱以所輸入文字開頭的第一個資料夾、標籤或筆記。啟用 Vim 風格按鍵序列時無法使用。'
+            },
             excludedNotes: {
                 name: '依屬性規則隱藏筆記（保險庫設定檔）',
                 desc: '逗號分隔的前置中繼資料規則列表。使用 `key` 或 `key=value` 條目（例如：status=done, published=true, archived）。',
@@ -1408,6 +1775,10 @@ export const STRINGS_ZH_TW = {
                     none: '無'
                 }
             },
+            showTaskProgress: {
+                name: '任務進度',
+                desc: '為包含任務的筆記顯示完成進度列和下一個截止日期。'
+            },
             propertyFields: {
                 name: '屬性鍵（保險庫設定檔）',
                 desc: 'Frontmatter 屬性鍵，可按鍵設定導覽和檔案清單的可見性。',
@@ -1520,6 +1891,15 @@ export const STRINGS_ZH_TW = {
                     alphaDesc: 'Z 到 A'
                 }
             },
+            folderMetadataStorage: {
+                name: '資料夾中繼資料儲存',
+                desc: '同時將資料夾圖示、顏色、排序覆寫和外觀儲存在儲存庫中，使其透過同步或 git 隨資料夾一起移動。變更會雙向同步。執行「將資料夾中繼資料寫入檔案」以移轉現有中繼資料。',
+                options: {
+                    settings: '僅外掛設定',
+                    folderNote: '資料夾筆記的 frontmatter',
+                    sidecar: '.folder.yml 附屬檔案'
+                }
+            },
             showNoteCount: {
                 name: '顯示筆記數',
                 desc: '在每個資料夾和標籤旁顯示筆記數量。'
@@ -1635,6 +2015,11 @@ export const STRINGS_ZH_TW = {
                 name: '顯示屬性資料夾',
                 desc: '將「屬性」顯示為可摺疊資料夾。'
             },
+            propertyHierarchies: {
+                name: '屬性階層',
+                desc: '依屬性值將筆記巢狀放入虛擬資料夾，每個鍵一層。每行一個階層，格式為 `Name: key > key > key`。這些鍵也必須列在屬性鍵中。',
+                placeholder: 'Research: type > status > project'
+            },
             hiddenTags: {
                 name: '隱藏標籤（保險庫設定檔）',
                 desc: '逗號分隔的標籤模式列表。名稱模式：tag*（以...開頭）、*tag（以...結尾）。路徑模式：archive（標籤及其後代）、archive/*（僅後代）、projects/*/drafts（中間萬用字元）。',
@@ -19,12 +19,26 @@
 import { TFile } from 'obsidian';
 import { NotebookNavigatorSettings } from '../settings';
 
+/**
+ * Content providers built into the plugin.
+ *
+ * Each built-in provider tracks its processed mtime in a dedicated `FileData` field.
+ */
+export type BuiltInContentProviderType = 'fileThumbnails' | 'metadata' | 'tags' | 'markdownPipeline';
+
+/**
+ * Content providers registered by other plugins through the public API.
+ *
+ * The suffix is the provider id; values and processed mtimes are stored in `FileData.providerValues`.
+ */
+export type ExternalContentProviderType = `external:${string}`;
+
 /**
  * Types of content providers.
  *
  * These values identify providers in the ContentProviderRegistry include/exclude lists.
  */
-export type ContentProviderType = 'fileThumbnails' | 'metadata' | 'tags' | 'markdownPipeline';
+export type ContentProviderType = BuiltInContentProviderType | ExternalContentProviderType;
 
 /**
  * Types of file content that can be generated and stored.
@@ -20,6 +20,14 @@ import { Platform, Plugin, TFile, FileView, TFolder, WorkspaceLeaf, addIcon } fr
 import { NotebookNavigatorSettings, DEFAULT_SETTINGS, NotebookNavigatorSettingTab } from './settings';
 import { migrateRecentColors, migrateReleaseCheckState } from './settings/migrations/localPreferences';
 import { migrateMomentDateFormats } from './settings/migrations/momentFormats';
+import {
+    applyConfigBundle,
+    createConfigBundle,
+    serializeConfigBundle,
+    type ConfigBundle,
+    type ConfigBundleConflictStrategy,
+    type ConfigBundleSectionId
+} from './settings/configBundle';
 import {
     applyExistingUserDefaults,
     applyLegacyPropertyFieldsMigration,
@@ -39,6 +47,7 @@ import {
     MAX_PANE_TRANSITION_DURATION_MS,
     MIN_PANE_TRANSITION_DURATION_MS,
     NOTEBOOK_NAVIGATOR_CALENDAR_VIEW,
+    NOTEBOOK_NAVIGATOR_STATISTICS_VIEW,
     NOTEBOOK_NAVIGATOR_VIEW,
     STORAGE_KEYS,
     type DualPaneOrientation,
@@ -52,6 +61,7 @@ import { TagOperations } from './services/TagOperations';
 import { TagTreeService } from './services/TagTreeService';
 import { PropertyTreeService } from './services/PropertyTreeService';
 import { CommandQueueService } from './services/CommandQueueService';
+import { UndoHistoryService } from './services/UndoHistoryService';
 import { OmnisearchService } from './services/OmnisearchService';
 import { FileSystemOperations } from './services/FileSystemService';
 import { getIconService } from './services/icons';
@@ -64,11 +74,13 @@ import type { NavigateToFolderOptions } from './hooks/useNavigatorReveal';
 import ReleaseCheckService, { type ReleaseUpdateNotice } from './services/ReleaseCheckService';
 import { NotebookNavigatorView } from './view/NotebookNavigatorView';
 import { NotebookNavigatorCalendarView } from './view/NotebookNavigatorCalendarView';
+import { NotebookNavigatorStatisticsView } from './view/NotebookNavigatorStatisticsView';
 import { getDefaultDateFormat, getDefaultTimeFormat } from './i18n';
 import { localStorage, LOCALSTORAGE_VERSION } from './utils/localStorage';
 import { NotebookNavigatorAPI } from './api/NotebookNavigatorAPI';
 import { initializeDatabase, shutdownDatabase } from './storage/fileOperations';
 import { ExtendedApp } from './types/obsidian-extended';
+import { normalizePropertyHierarchies } from './types/propertyHierarchies';
 import { getLeafSplitLocation } from './utils/workspaceSplit';
 import { sanitizeKeyboardShortcuts } from './utils/keyboardShortcuts';
 import {
@@ -106,6 +118,7 @@ import {
     isCalendarWeekendDays,
     isAlphaSortOrder,
     isRecentNotesHideMode,
+    isFolderMetadataStorage,
     isPropertySortSecondaryOption,
     resolveDeleteAttachmentsSetting,
     resolveMoveFileConflictsSetting,
@@ -115,11 +128,15 @@ import {
     SYNC_MODE_SETTING_IDS,
     type SettingSyncMode,
     type SyncModeSettingId,
+    type SortChainKey,
     type SortOption,
     type TagSortOrder,
     type VaultProfile
 } from './settings/types';
 import { clearHiddenTagPatternCache } from './utils/tagPrefixMatcher';
+import { normalizeSortChain } from './utils/sortUtils';
+import { buildFilePathInFolder, generateUniqueFilename } from './utils/fileCreationUtils';
+import { normalizeNoteTemplateRules } from './utils/noteTemplateRules';
 import { getPathPatternCacheKey } from './utils/pathPatternMatcher';
 import { sanitizeUIScale } from './utils/uiScale';
 import { MAX_RECENT_COLORS } from './constants/colorPalette';
@@ -200,6 +217,7 @@ export default class NotebookNavigatorPlugin extends Plugin implements ISettings
     tagTreeService: TagTreeService | null = null;
     propertyTreeService: PropertyTreeService | null = null;
     commandQueue: CommandQueueService | null = null;
+    undoHistory: UndoHistoryService | null = null;
     fileSystemOps: FileSystemOperations | null = null;
     omnisearchService: OmnisearchService | null = null;
     externalIconController: ExternalIconProviderController | null = null;
@@ -508,6 +526,10 @@ export default class NotebookNavigatorPlugin extends Plugin implements ISettings
             this.settings.folderSortOrder = DEFAULT_SETTINGS.folderSortOrder;
         }
 
+        if (!isFolderMetadataStorage(this.settings.folderMetadataStorage)) {
+            this.settings.folderMetadataStorage = DEFAULT_SETTINGS.folderMetadataStorage;
+        }
+
         this.settings.deleteAttachments = resolveDeleteAttachmentsSetting(
             this.settings.deleteAttachments,
             DEFAULT_SETTINGS.deleteAttachments
@@ -542,6 +564,8 @@ export default class NotebookNavigatorPlugin extends Plugin implements ISettings
             this.settings.rootPropertyOrder = [];
         }
 
+        this.settings.noteTemplateRules = normalizeNoteTemplateRules(this.settings.noteTemplateRules);
+
         const migratedReleaseState = migrateReleaseCheckState({ settings: this.settings, storedData, keys: this.keys });
         const migratedRecentColors = migrateRecentColors({ settings: this.settings, storedData, keys: this.keys });
         const hadLocalValuesInSettings = Boolean(
@@ -959,23 +983,28 @@ export default class NotebookNavigatorPlugin extends Plugin implements ISettings
         // Initialize services
         this.tagTreeService = new TagTreeService();
         this.propertyTreeService = new PropertyTreeService();
+        this.undoHistory = new UndoHistoryService();
         this.metadataService = new MetadataService(
             this.app,
             this,
             () => this.tagTreeService,
-            () => this.propertyTreeService
+            () => this.propertyTreeService,
+            () => this.undoHistory
         );
         this.tagOperations = new TagOperations(
             this.app,
             () => this.settings,
             () => this.tagTreeService,
-            () => this.metadataService
+            () => this.metadataService,
+            () => this.undoHistory
         );
         this.propertyOperations = new PropertyOperations(
             this.app,
             () => this.settings,
             () => this.saveSettingsAndUpdate(),
-            () => this.propertyTreeService
+            () => this.propertyTreeService,
+            () => this.undoHistory,
+            () => this.metadataService
         );
         this.commandQueue = new CommandQueueService();
         this.fileSystemOps = new FileSystemOperations(
@@ -988,7 +1017,8 @@ export default class NotebookNavigatorPlugin extends Plugin implements ISettings
                 includeDescendantNotes: this.uxPreferences.includeDescendantNotes,
                 showHiddenItems: this.uxPreferences.showHiddenItems
             }),
-            this
+            this,
+            () => this.undoHistory
         );
         this.omnisearchService = new OmnisearchService(this.app);
         if (this.settings.searchProvider === 'omnisearch' && !this.omnisearchService.isAvailable()) {
@@ -1037,6 +1067,9 @@ export default class NotebookNavigatorPlugin extends Plugin implements ISettings
         this.registerView(NOTEBOOK_NAVIGATOR_CALENDAR_VIEW, leaf => {
             return new NotebookNavigatorCalendarView(leaf, this);
         });
+        this.registerView(NOTEBOOK_NAVIGATOR_STATISTICS_VIEW, leaf => {
+            return new NotebookNavigatorStatisticsView(leaf, this);
+        });
 
         // Register commands
         registerNavigatorCommands(this);
@@ -1061,6 +1094,9 @@ export default class NotebookNavigatorPlugin extends Plugin implements ISettings
 
                 await this.homepageController?.handleWorkspaceReady({ shouldActivateOnStartup });
 
+                // Load folder metadata shared through folder notes or sidecars before the user starts editing styles
+                await this.metadataService?.startFolderMetadataFileSync();
+
                 if (isFirstLaunch) {
                     const { WelcomeModal } = await import('./modals/WelcomeModal');
                     new WelcomeModal(this.app).open();
@@ -1859,6 +1895,12 @@ export default class NotebookNavigatorPlugin extends Plugin implements ISettings
             this.commandQueue = null;
         }
 
+        // Drop undo history so replayed operations cannot reach disposed services
+        if (this.undoHistory) {
+            this.undoHistory.clear();
+            this.undoHistory = null;
+        }
+
         // Clean up the ribbon icon
         this.ribbonIconEl?.remove();
         this.ribbonIconEl = undefined;
@@ -1890,6 +1932,16 @@ export default class NotebookNavigatorPlugin extends Plugin implements ISettings
         // Type-specific sanitizers that validate values match expected types
         const sanitizeStringMap = (record?: Record<string, string>): Record<string, string> => sanitizeRecord(record, isStringRecordValue);
         const sanitizeSortMap = (record?: Record<string, SortOption>): Record<string, SortOption> => sanitizeRecord(record, isSortOption);
+        const sanitizeSortChainMap = (record?: Record<string, SortChainKey[]>): Record<string, SortChainKey[]> => {
+            const sanitized = sanitizeRecord<SortChainKey[]>(undefined);
+            Object.entries(sanitizeRecord(record)).forEach(([path, chain]) => {
+                const normalized = normalizeSortChain(chain);
+                if (normalized.length > 0) {
+                    sanitized[path] = normalized;
+                }
+            });
+            return sanitized;
+        };
         const sanitizeAlphaSortOrderMap = (
             record?: Record<string, 'alpha-asc' | 'alpha-desc'>
         ): Record<string, 'alpha-asc' | 'alpha-desc'> => sanitizeRecord(record, isAlphaSortOrder);
@@ -1910,11 +1962,13 @@ export default class NotebookNavigatorPlugin extends Plugin implements ISettings
         this.settings.propertyColors = sanitizeStringMap(this.settings.propertyColors);
         this.settings.propertyBackgroundColors = sanitizeStringMap(this.settings.propertyBackgroundColors);
         this.settings.folderSortOverrides = sanitizeSortMap(this.settings.folderSortOverrides);
+        this.settings.folderSortChains = sanitizeSortChainMap(this.settings.folderSortChains);
         this.settings.tagSortOverrides = sanitizeSortMap(this.settings.tagSortOverrides);
         this.settings.folderTreeSortOverrides = sanitizeAlphaSortOrderMap(this.settings.folderTreeSortOverrides);
         this.settings.tagTreeSortOverrides = sanitizeAlphaSortOrderMap(this.settings.tagTreeSortOverrides);
         this.settings.propertyTreeSortOverrides = sanitizeAlphaSortOrderMap(this.settings.propertyTreeSortOverrides);
         this.settings.folderAppearances = sanitizeAppearanceMap(this.settings.folderAppearances);
+        this.settings.folderNewNotePatterns = sanitizeStringMap(this.settings.folderNewNotePatterns);
         this.settings.tagAppearances = sanitizeAppearanceMap(this.settings.tagAppearances);
         this.settings.navigationSeparators = sanitizeBooleanMap(this.settings.navigationSeparators);
         this.settings.externalIconProviders = sanitizeBooleanMap(this.settings.externalIconProviders);
@@ -1968,6 +2022,12 @@ export default class NotebookNavigatorPlugin extends Plugin implements ISettings
             settings.showFileIconUnfinishedTask = DEFAULT_SETTINGS.showFileIconUnfinishedTask;
         }
 
+        if (typeof settings.showTaskProgress !== 'boolean') {
+            settings.showTaskProgress = DEFAULT_SETTINGS.showTaskProgress;
+        }
+
+        settings.propertyHierarchies = normalizePropertyHierarchies(settings.propertyHierarchies);
+
         if (typeof settings.showFilenameMatchIcons !== 'boolean') {
             settings.showFilenameMatchIcons = DEFAULT_SETTINGS.showFilenameMatchIcons;
         }
@@ -2187,6 +2247,40 @@ export default class NotebookNavigatorPlugin extends Plugin implements ISettings
         this.notifyUXPreferencesUpdate();
     }
 
+    /**
+     * Writes a configuration bundle with every shareable section to the vault root.
+     * Returns the path of the created file.
+     */
+    public async exportConfigBundle(): Promise<string> {
+        const bundle = createConfigBundle(this.settings, this.manifest.version);
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+        // Exports within the same second share a timestamp, so the name gets a counter when taken
+        const fileName = generateUniqueFilename('/', `notebook-navigator-config-${timestamp}`, 'json', this.app);
+        const path = buildFilePathInFolder('/', fileName, 'json');
+        await this.app.vault.create(path, serializeConfigBundle(bundle));
+        return path;
+    }
+
+    /**
+     * Applies the selected sections of a configuration bundle.
+     * The combined data is reloaded through loadSettings so imported values pass the same sanitizers and migrations as data.json.
+     */
+    public async importConfigBundle(
+        bundle: ConfigBundle,
+        sectionIds: readonly ConfigBundleSectionId[],
+        strategy: ConfigBundleConflictStrategy
+    ): Promise<void> {
+        if (this.isUnloading) {
+            throw new Error('Plugin is unloading');
+        }
+
+        const persisted = this.getPersistableSettings() as unknown as Record<string, unknown>;
+        await this.saveData(applyConfigBundle(persisted, bundle, sectionIds, strategy));
+        await this.loadSettings();
+        this.initializeRecentDataManager();
+        await this.saveSettingsAndUpdate();
+    }
+
     /**
      * Notifies all registered listeners that settings have changed
      */
@@ -2282,6 +2376,12 @@ export default class NotebookNavigatorPlugin extends Plugin implements ISettings
             if (this.api.metadata) {
                 this.api.metadata.updateFromSettings(this.settings);
             }
+            if (this.api.profiles) {
+                this.api.profiles.updateFromSettings(this.settings);
+            }
+            if (this.api.shortcuts) {
+                this.api.shortcuts.updateFromSettings(this.settings);
+            }
         }
 
         // Create a copy of listeners to avoid issues if a callback modifies the map
@@ -2329,6 +2429,13 @@ export default class NotebookNavigatorPlugin extends Plugin implements ISettings
         return this.workspaceCoordinator?.activateNavigatorView() ?? null;
     }
 
+    /**
+     * Opens the vault statistics dashboard in the main workspace area
+     */
+    async openStatisticsView(): Promise<void> {
+        await this.workspaceCoordinator?.openStatisticsView();
+    }
+
     /**
      * Gets all workspace leaves containing the navigator view
      */
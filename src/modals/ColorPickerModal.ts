@@ -152,7 +152,7 @@ export class ColorPickerModal extends Modal {
         itemPath: string,
         itemType: typeof ItemType.FOLDER | typeof ItemType.TAG | typeof ItemType.PROPERTY | typeof ItemType.FILE = ItemType.FOLDER,
         colorMode: ColorPickerMode = 'foreground',
-        options?: { titleOverride?: string }
+        options?: { titleOverride?: string; currentColor?: string | null }
     ) {
         super(app);
         this.metadataService = metadataService;
@@ -167,7 +167,8 @@ export class ColorPickerModal extends Modal {
         this.customColors = [];
         this.paletteMode = ColorPickerModal.getLastPaletteMode();
 
-        const initialColor = this.resolveInitialColor();
+        // Callers editing values outside metadata (e.g. file style rules) pass the current color directly
+        const initialColor = options?.currentColor !== undefined ? options.currentColor : this.resolveInitialColor();
         if (initialColor) {
             this.currentColor = initialColor;
             const parsedInitial = this.parseColorString(initialColor);
@@ -0,0 +1,192 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { App, Modal, TFile } from 'obsidian';
+import { strings } from '../i18n';
+import {
+    getConfigBundleSectionIds,
+    isConfigBundleConflictStrategy,
+    parseConfigBundle,
+    type ConfigBundle,
+    type ConfigBundleConflictStrategy,
+    type ConfigBundleSectionId
+} from '../settings/configBundle';
+import { FilePathInputSuggest } from '../suggest/FilePathInputSuggest';
+import { runAsyncAction } from '../utils/async';
+
+interface ConfigBundleImportModalOptions {
+    onImport: (bundle: ConfigBundle, sectionIds: ConfigBundleSectionId[], strategy: ConfigBundleConflictStrategy) => Promise<void>;
+}
+
+/**
+ * Modal for importing a configuration bundle from a JSON file in the vault.
+ * Lists the sections found in the bundle and lets the user pick sections and a conflict strategy.
+ */
+export class ConfigBundleImportModal extends Modal {
+    private readonly options: ConfigBundleImportModalOptions;
+
+    private fileInputEl!: HTMLInputElement;
+    private statusEl!: HTMLDivElement;
+    private sectionsEl!: HTMLDivElement;
+    private strategySelectEl!: HTMLSelectElement;
+    private submitBtn!: HTMLButtonElement;
+    private bundle: ConfigBundle | null = null;
+    private selectedSectionIds = new Set<ConfigBundleSectionId>();
+    private loadRequestId = 0;
+
+    constructor(app: App, options: ConfigBundleImportModalOptions) {
+        super(app);
+        this.options = options;
+    }
+
+    onOpen(): void {
+        this.titleEl.setText(strings.modals.configBundleImport.title);
+
+        const description = this.contentEl.createDiv('nn-config-bundle-modal-description');
+        description.setText(strings.modals.configBundleImport.description);
+
+        this.fileInputEl = this.contentEl.createEl('input', {
+            type: 'text',
+            cls: 'nn-input',
+            placeholder: strings.modals.configBundleImport.filePlaceholder
+        });
+        const fileSuggest = new FilePathInputSuggest(this.app, this.fileInputEl, {
+            includeFile: file => file.extension === 'json'
+        });
+        this.fileInputEl.addEventListener('click', () => fileSuggest.open());
+        this.fileInputEl.addEventListener('input', () => {
+            runAsyncAction(() => this.loadBundle());
+        });
+
+        this.statusEl = this.contentEl.createDiv('nn-config-bundle-modal-status');
+        this.sectionsEl = this.contentEl.createDiv('nn-config-bundle-modal-sections');
+
+        const strategyRow = this.contentEl.createDiv('nn-config-bundle-modal-strategy');
+        const strategyLabel = strategyRow.createEl('label', { text: strings.modals.configBundleImport.strategyLabel });
+        strategyLabel.htmlFor = 'nn-config-bundle-strategy';
+        this.strategySelectEl = strategyRow.createEl('select', { cls: 'dropdown', attr: { id: 'nn-config-bundle-strategy' } });
+        this.strategySelectEl.createEl('option', { value: 'merge', text: strings.modals.configBundleImport.strategies.merge });
+        this.strategySelectEl.createEl('option', { value: 'replace', text: strings.modals.configBundleImport.strategies.replace });
+        this.strategySelectEl.value = 'merge';
+
+        const buttonContainer = this.contentEl.createDiv('nn-button-container');
+        const cancelBtn = buttonContainer.createEl('button', { text: strings.common.cancel });
+        cancelBtn.addEventListener('click', () => this.close());
+
+        this.submitBtn = buttonContainer.createEl('button', { text: strings.modals.configBundleImport.importButton, cls: 'mod-cta' });
+        this.submitBtn.addEventListener('click', () => {
+            runAsyncAction(() => this.handleSubmit());
+        });
+
+        this.renderSections();
+        this.updateSubmitState();
+        this.fileInputEl.focus();
+    }
+
+    onClose(): void {
+        this.loadRequestId += 1;
+        this.contentEl.empty();
+    }
+
+    // Reads and parses the selected file; stale reads are ignored when the path changes again
+    private async loadBundle(): Promise<void> {
+        const requestId = ++this.loadRequestId;
+        this.bundle = null;
+        this.statusEl.setText('');
+        this.statusEl.removeClass('is-error');
+
+        const file = this.app.vault.getAbstractFileByPath(this.fileInputEl.value.trim());
+        if (file instanceof TFile && file.extension === 'json') {
+            let text: string | null = null;
+            try {
+                text = await this.app.vault.cachedRead(file);
+            } catch (error) {
+                console.error('Failed to read configuration bundle', error);
+            }
+            if (requestId !== this.loadRequestId) {
+                return;
+            }
+
+            const result = text === null ? null : parseConfigBundle(text);
+            if (result?.ok) {
+                this.bundle = result.bundle;
+                this.selectedSectionIds = new Set(getConfigBundleSectionIds(result.bundle));
+                this.statusEl.setText(
+                    strings.modals.configBundleImport.bundleInfo
+                        .replace('{date}', result.bundle.exportedAt ? new Date(result.bundle.exportedAt).toLocaleString() : '-')
+                        .replace('{version}', result.bundle.pluginVersion || '-')
+                );
+            } else {
+                this.statusEl.setText(
+                    result ? strings.modals.configBundleImport.errors[result.error] : strings.modals.configBundleImport.errors.readFailed
+                );
+                this.statusEl.addClass('is-error');
+            }
+        }
+
+        this.renderSections();
+        this.updateSubmitState();
+    }
+
+    private renderSections(): void {
+        this.sectionsEl.empty();
+        const bundle = this.bundle;
+        if (!bundle) {
+            return;
+        }
+
+        this.sectionsEl.createDiv({ cls: 'nn-config-bundle-modal-sections-label', text: strings.modals.configBundleImport.sectionsLabel });
+        getConfigBundleSectionIds(bundle).forEach(sectionId => {
+            const row = this.sectionsEl.createEl('label', { cls: 'nn-input-checkbox-row' });
+            const checkbox = row.createEl('input', { type: 'checkbox' });
+            checkbox.checked = this.selectedSectionIds.has(sectionId);
+            checkbox.addEventListener('change', () => {
+                if (checkbox.checked) {
+                    this.selectedSectionIds.add(sectionId);
+                } else {
+                    this.selectedSectionIds.delete(sectionId);
+                }
+                this.updateSubmitState();
+            });
+            row.createSpan({ text: strings.modals.configBundleImport.sections[sectionId] });
+        });
+    }
+
+    private updateSubmitState(): boolean {
+        const canSubmit = this.bundle !== null && this.selectedSectionIds.size > 0;
+        this.submitBtn.toggleClass('mod-disabled', !canSubmit);
+        this.submitBtn.disabled = !canSubmit;
+        return canSubmit;
+    }
+
+    private async handleSubmit(): Promise<void> {
+        const bundle = this.bundle;
+        if (!bundle || !this.updateSubmitState()) {
+            return;
+        }
+
+        const strategy = isConfigBundleConflictStrategy(this.strategySelectEl.value) ? this.strategySelectEl.value : 'merge';
+        const sectionIds = getConfigBundleSectionIds(bundle).filter(sectionId => this.selectedSectionIds.has(sectionId));
+        this.submitBtn.disabled = true;
+        try {
+            await this.options.onImport(bundle, sectionIds, strategy);
+            this.close();
+        } finally {
+            this.updateSubmitState();
+        }
+    }
+}
@@ -0,0 +1,341 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { App, Modal, setIcon } from 'obsidian';
+import { strings } from '../i18n';
+import { getIconService } from '../services/icons';
+import { MetadataService } from '../services/MetadataService';
+import { ItemType } from '../types';
+import { normalizeFileStyleRules, type FileStyleRule } from '../types/fileStyleRules';
+import { runAsyncAction } from '../utils/async';
+import { addAsyncEventListener } from '../utils/domEventListeners';
+import { filterSearchHasActiveCriteria, parseFilterSearchTokens } from '../utils/filterSearch';
+import { deserializeIconFromFrontmatter, normalizeCanonicalIconId } from '../utils/iconizeFormat';
+
+/** Configuration options for the file style rule editor modal */
+interface FileStyleRulesModalOptions {
+    initialRules: FileStyleRule[];
+    metadataService: MetadataService;
+    onSave: (rules: FileStyleRule[]) => Promise<void> | void;
+}
+
+/** Internal representation of a single rule row */
+interface FileStyleRuleRow {
+    id: string;
+    query: string;
+    iconId: string | null;
+    color: string | null;
+}
+
+/**
+ * Modal for editing the ordered file style rules of the active vault profile.
+ * Each rule pairs a filter search query with an icon, a color, or both.
+ */
+export class FileStyleRulesModal extends Modal {
+    private iconService = getIconService();
+    private rows: FileStyleRuleRow[];
+    private listEl: HTMLDivElement | null = null;
+    private rowDisposers: (() => void)[] = [];
+    private footerDisposers: (() => void)[] = [];
+    private saveButton: HTMLButtonElement | null = null;
+    private rowIdCounter = 0;
+
+    constructor(
+        app: App,
+        private options: FileStyleRulesModalOptions
+    ) {
+        super(app);
+        this.rows = options.initialRules.map(rule => ({
+            id: this.nextRowId(),
+            query: rule.query,
+            iconId: rule.icon ? deserializeIconFromFrontmatter(rule.icon) : null,
+            color: rule.color ?? null
+        }));
+    }
+
+    onOpen(): void {
+        this.modalEl.addClass('nn-file-style-rules-modal');
+        this.titleEl.setText(strings.modals.fileStyleRules.title);
+        this.contentEl.empty();
+
+        this.contentEl.createDiv({ cls: 'nn-file-style-rules-description', text: strings.modals.fileStyleRules.description });
+        const scrollContainer = this.contentEl.createDiv({ cls: 'nn-file-style-rules-scroll' });
+        this.listEl = scrollContainer.createDiv({ cls: 'nn-file-style-rules-list' });
+        this.renderRows();
+        this.renderFooter();
+        this.updateSaveButtonState();
+    }
+
+    onClose(): void {
+        this.disposeListeners(this.rowDisposers);
+        this.disposeListeners(this.footerDisposers);
+        this.listEl = null;
+        this.saveButton = null;
+        this.modalEl.removeClass('nn-file-style-rules-modal');
+        this.contentEl.empty();
+    }
+
+    /** Generates a unique identifier for a new row */
+    private nextRowId(): string {
+        this.rowIdCounter += 1;
+        return `file-style-rule-${this.rowIdCounter}`;
+    }
+
+    /** Runs and clears a list of event listener disposers */
+    private disposeListeners(disposers: (() => void)[]): void {
+        disposers.splice(0).forEach(disposer => {
+            try {
+                disposer();
+            } catch (error) {
+                console.error('[FileStyleRulesModal] Failed to dispose handler', error);
+            }
+        });
+    }
+
+    /** Creates an icon button inside a row and registers its click handler */
+    private createRowButton(rowEl: HTMLElement, icon: string, label: string, disabled: boolean, onClick: () => void): void {
+        const button = rowEl.createEl('button', {
+            cls: 'nn-action-btn',
+            attr: { type: 'button', 'aria-label': label }
+        });
+        setIcon(button, icon);
+        button.disabled = disabled;
+        this.rowDisposers.push(addAsyncEventListener(button, 'click', onClick));
+    }
+
+    /** Rebuilds the rule list UI from the current rows state */
+    private renderRows(): void {
+        if (!this.listEl) {
+            return;
+        }
+
+        this.disposeListeners(this.rowDisposers);
+        this.listEl.empty();
+
+        if (this.rows.length === 0) {
+            this.listEl.createDiv({ cls: 'nn-file-style-rules-empty', text: strings.modals.fileStyleRules.emptyState });
+        }
+
+        this.rows.forEach((row, index) => {
+            const rowEl = this.listEl?.createDiv({ cls: 'nn-file-style-rules-row' });
+            if (!rowEl) {
+                return;
+            }
+
+            rowEl.createSpan({ cls: 'nn-file-style-rules-index', text: `${index + 1}.` });
+
+            const queryInput = rowEl.createEl('input', {
+                cls: 'nn-input nn-file-style-rules-query',
+                attr: {
+                    type: 'text',
+                    placeholder: strings.modals.fileStyleRules.queryPlaceholder,
+                    'aria-label': strings.modals.fileStyleRules.queryPlaceholder
+                }
+            });
+            queryInput.value = row.query;
+            queryInput.toggleClass('nn-file-style-rules-invalid', !this.isQueryValid(row));
+            this.rowDisposers.push(
+                addAsyncEventListener(queryInput, 'input', () => {
+                    row.query = queryInput.value;
+                    queryInput.toggleClass('nn-file-style-rules-invalid', !this.isQueryValid(row));
+                    this.updateSaveButtonState();
+                })
+            );
+
+            const iconButton = rowEl.createEl('button', {
+                cls: 'nn-action-btn nn-file-style-rules-icon',
+                attr: { type: 'button', 'aria-label': strings.modals.fileStyleRules.setIcon }
+            });
+            const iconSpan = iconButton.createSpan();
+            if (row.iconId) {
+                this.iconService.renderIcon(iconSpan, row.iconId, 16);
+            } else {
+                iconButton.addClass('nn-file-style-rules-unset');
+                setIcon(iconSpan, 'lucide-image-plus');
+            }
+            this.rowDisposers.push(
+                addAsyncEventListener(iconButton, 'click', () => {
+                    this.openIconPicker(row);
+                })
+            );
+
+            const colorButton = rowEl.createEl('button', {
+                cls: 'nn-action-btn nn-file-style-rules-color',
+                attr: { type: 'button', 'aria-label': strings.modals.fileStyleRules.setColor }
+            });
+            const swatchEl = colorButton.createSpan({ cls: 'nn-file-style-rules-swatch' });
+            if (row.color) {
+                swatchEl.style.setProperty('--nn-file-style-rule-color', row.color);
+            } else {
+                colorButton.addClass('nn-file-style-rules-unset');
+                setIcon(swatchEl, 'lucide-palette');
+            }
+            this.rowDisposers.push(
+                addAsyncEventListener(colorButton, 'click', () => {
+                    this.openColorPicker(row);
+                })
+            );
+
+            this.createRowButton(rowEl, 'lucide-arrow-up', strings.modals.fileStyleRules.moveUp, index === 0, () => {
+                this.moveRow(index, index - 1);
+            });
+            this.createRowButton(rowEl, 'lucide-arrow-down', strings.modals.fileStyleRules.moveDown, index === this.rows.length - 1, () => {
+                this.moveRow(index, index + 1);
+            });
+            this.createRowButton(rowEl, 'lucide-trash-2', strings.common.remove, false, () => {
+                this.rows.splice(index, 1);
+                this.renderRows();
+            });
+        });
+
+        this.updateSaveButtonState();
+    }
+
+    /** Creates the modal footer with add, cancel, and save buttons */
+    private renderFooter(): void {
+        this.disposeListeners(this.footerDisposers);
+
+        const footer = this.contentEl.createDiv({ cls: 'nn-file-style-rules-footer nn-button-container' });
+
+        const addButton = footer.createEl('button', {
+            attr: { type: 'button', 'aria-label': strings.modals.fileStyleRules.addRule }
+        });
+        setIcon(addButton, 'lucide-plus');
+        this.footerDisposers.push(
+            addAsyncEventListener(addButton, 'click', () => {
+                this.rows.push({ id: this.nextRowId(), query: '', iconId: null, color: null });
+                this.renderRows();
+                const inputs = this.listEl?.querySelectorAll<HTMLInputElement>('.nn-file-style-rules-query');
+                const lastInput = inputs?.item(inputs.length - 1);
+                lastInput?.focus();
+                // Ensure the new row is visible when the list is scrollable
+                lastInput?.scrollIntoView({ block: 'nearest' });
+            })
+        );
+
+        const cancelButton = footer.createEl('button', { text: strings.common.cancel, attr: { type: 'button' } });
+        this.footerDisposers.push(
+            addAsyncEventListener(cancelButton, 'click', () => {
+                this.close();
+            })
+        );
+
+        this.saveButton = footer.createEl('button', {
+            cls: 'mod-cta',
+            text: strings.modals.fileStyleRules.save,
+            attr: { type: 'button' }
+        });
+        this.footerDisposers.push(
+            addAsyncEventListener(this.saveButton, 'click', () => {
+                this.saveChanges();
+            })
+        );
+    }
+
+    /** Moves a row to a new position */
+    private moveRow(fromIndex: number, toIndex: number): void {
+        if (toIndex < 0 || toIndex >= this.rows.length) {
+            return;
+        }
+        const [row] = this.rows.splice(fromIndex, 1);
+        this.rows.splice(toIndex, 0, row);
+        this.renderRows();
+    }
+
+    /** Opens the icon picker for a rule row; removing the icon clears it from the rule */
+    private openIconPicker(row: FileStyleRuleRow): void {
+        runAsyncAction(async () => {
+            const { IconPickerModal } = await import('./IconPickerModal');
+            const query = row.query.trim();
+            const titleOverride = query ? `${strings.modals.fileStyleRules.title}: ${query}` : strings.modals.fileStyleRules.title;
+
+            const picker = new IconPickerModal(this.app, this.options.metadataService, '', ItemType.FILE, {
+                titleOverride,
+                currentIconId: row.iconId,
+                showRemoveButton: row.iconId !== null,
+                disableMetadataUpdates: true
+            });
+
+            picker.onChooseIcon = async iconId => {
+                row.iconId = iconId ? normalizeCanonicalIconId(iconId) : null;
+                this.renderRows();
+                return { handled: true };
+            };
+
+            picker.open();
+        });
+    }
+
+    /** Opens the color picker for a rule row; removing the color clears it from the rule */
+    private openColorPicker(row: FileStyleRuleRow): void {
+        runAsyncAction(async () => {
+            const { ColorPickerModal } = await import('./ColorPickerModal');
+            const query = row.query.trim();
+            const titleOverride = query ? `${strings.modals.fileStyleRules.title}: ${query}` : strings.modals.fileStyleRules.title;
+
+            const picker = new ColorPickerModal(this.app, this.options.metadataService, '', ItemType.FILE, 'foreground', {
+                titleOverride,
+                currentColor: row.color
+            });
+
+            picker.onChooseColor = color => {
+                row.color = color;
+                this.renderRows();
+                return { handled: true };
+            };
+
+            picker.open();
+        });
+    }
+
+    /** A rule needs a query with at least one search criterion */
+    private isQueryValid(row: FileStyleRuleRow): boolean {
+        return filterSearchHasActiveCriteria(parseFilterSearchTokens(row.query.trim()));
+    }
+
+    /** Returns true when every rule has a valid query and an icon or color */
+    private isValid(): boolean {
+        return this.rows.every(row => this.isQueryValid(row) && (row.iconId !== null || row.color !== null));
+    }
+
+    /** Enables or disables the save button */
+    private updateSaveButtonState(): void {
+        if (this.saveButton) {
+            this.saveButton.disabled = !this.isValid();
+        }
+    }
+
+    /** Normalizes and persists the current rules, then closes the modal */
+    private saveChanges(): void {
+        if (!this.isValid()) {
+            return;
+        }
+
+        const rules = normalizeFileStyleRules(
+            this.rows.map(row => ({
+                query: row.query,
+                icon: row.iconId ?? undefined,
+                color: row.color ?? undefined
+            }))
+        );
+        runAsyncAction(async () => {
+            await this.options.onSave(rules);
+            this.close();
+        });
+    }
+}
@@ -0,0 +1,337 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { App, Modal, setIcon } from 'obsidian';
+import { strings } from '../i18n';
+import { NOTE_TEMPLATE_RULE_TARGETS, type NoteTemplateRule, type NoteTemplateRuleTarget } from '../settings/types';
+import { FilePathInputSuggest } from '../suggest/FilePathInputSuggest';
+import { FolderPathInputSuggest } from '../suggest/FolderPathInputSuggest';
+import { runAsyncAction } from '../utils/async';
+import { addAsyncEventListener } from '../utils/domEventListeners';
+import { normalizeNoteTemplateRules } from '../utils/noteTemplateRules';
+
+/** Configuration options for the note template rule editor modal */
+interface NoteTemplateRulesModalOptions {
+    initialRules: NoteTemplateRule[];
+    /** Folder used to scope template path suggestions */
+    templateFolder: string;
+    onSave: (rules: NoteTemplateRule[]) => Promise<void> | void;
+}
+
+/** Internal representation of a single rule row */
+interface NoteTemplateRuleRow {
+    id: string;
+    target: NoteTemplateRuleTarget;
+    pattern: string;
+    templatePath: string;
+    fileNamePattern: string;
+}
+
+/**
+ * Modal for editing the ordered note template rules.
+ * The first rule matching the folder, tag or property a note is created from supplies its template and file name.
+ */
+export class NoteTemplateRulesModal extends Modal {
+    private rows: NoteTemplateRuleRow[];
+    private listEl: HTMLDivElement | null = null;
+    private rowDisposers: (() => void)[] = [];
+    private footerDisposers: (() => void)[] = [];
+    private saveButton: HTMLButtonElement | null = null;
+    private rowIdCounter = 0;
+
+    constructor(
+        app: App,
+        private options: NoteTemplateRulesModalOptions
+    ) {
+        super(app);
+        this.rows = options.initialRules.map(rule => ({
+            id: this.nextRowId(),
+            target: rule.target,
+            pattern: rule.pattern,
+            templatePath: rule.templatePath,
+            fileNamePattern: rule.fileNamePattern
+        }));
+    }
+
+    onOpen(): void {
+        this.modalEl.addClass('nn-note-template-rules-modal');
+        this.titleEl.setText(strings.modals.noteTemplateRules.title);
+        this.contentEl.empty();
+
+        this.contentEl.createDiv({ cls: 'nn-note-template-rules-description', text: strings.modals.noteTemplateRules.description });
+        const scrollContainer = this.contentEl.createDiv({ cls: 'nn-note-template-rules-scroll' });
+        this.listEl = scrollContainer.createDiv({ cls: 'nn-note-template-rules-list' });
+        this.renderRows();
+        this.renderFooter();
+        this.updateSaveButtonState();
+    }
+
+    onClose(): void {
+        this.disposeListeners(this.rowDisposers);
+        this.disposeListeners(this.footerDisposers);
+        this.listEl = null;
+        this.saveButton = null;
+        this.modalEl.removeClass('nn-note-template-rules-modal');
+        this.contentEl.empty();
+    }
+
+    /** Generates a unique identifier for a new row */
+    private nextRowId(): string {
+        this.rowIdCounter += 1;
+        return `note-template-rule-${this.rowIdCounter}`;
+    }
+
+    /** Runs and clears a list of event listener disposers */
+    private disposeListeners(disposers: (() => void)[]): void {
+        disposers.splice(0).forEach(disposer => {
+            try {
+                disposer();
+            } catch (error) {
+                console.error('[NoteTemplateRulesModal] Failed to dispose handler', error);
+            }
+        });
+    }
+
+    /** Creates an icon button inside a row and registers its click handler */
+    private createRowButton(rowEl: HTMLElement, icon: string, label: string, disabled: boolean, onClick: () => void): void {
+        const button = rowEl.createEl('button', {
+            cls: 'nn-action-btn',
+            attr: { type: 'button', 'aria-label': label }
+        });
+        setIcon(button, icon);
+        button.disabled = disabled;
+        this.rowDisposers.push(addAsyncEventListener(button, 'click', onClick));
+    }
+
+    /** Creates a text input bound to a row field */
+    private createRowInput(
+        parentEl: HTMLElement,
+        cls: string,
+        placeholder: string,
+        value: string,
+        onInput: (value: string, inputEl: HTMLInputElement) => void
+    ): HTMLInputElement {
+        const inputEl = parentEl.createEl('input', {
+            cls: `nn-input ${cls}`,
+            attr: { type: 'text', placeholder, 'aria-label': placeholder }
+        });
+        inputEl.value = value;
+        this.rowDisposers.push(
+            addAsyncEventListener(inputEl, 'input', () => {
+                onInput(inputEl.value, inputEl);
+                this.updateSaveButtonState();
+            })
+        );
+        return inputEl;
+    }
+
+    /** Returns the pattern placeholder for a rule target */
+    private getPatternPlaceholder(target: NoteTemplateRuleTarget): string {
+        switch (target) {
+            case 'tag':
+                return strings.modals.noteTemplateRules.tagPatternPlaceholder;
+            case 'property':
+                return strings.modals.noteTemplateRules.propertyPatternPlaceholder;
+            default:
+                return strings.modals.noteTemplateRules.folderPatternPlaceholder;
+        }
+    }
+
+    /** Rebuilds the rule list UI from the current rows state */
+    private renderRows(): void {
+        if (!this.listEl) {
+            return;
+        }
+
+        this.disposeListeners(this.rowDisposers);
+        this.listEl.empty();
+
+        if (this.rows.length === 0) {
+            this.listEl.createDiv({ cls: 'nn-note-template-rules-empty', text: strings.modals.noteTemplateRules.emptyState });
+        }
+
+        this.rows.forEach((row, index) => {
+            const rowEl = this.listEl?.createDiv({ cls: 'nn-note-template-rules-row' });
+            if (!rowEl) {
+                return;
+            }
+
+            const headerEl = rowEl.createDiv({ cls: 'nn-note-template-rules-row-header' });
+            headerEl.createSpan({ cls: 'nn-note-template-rules-index', text: `${index + 1}.` });
+
+            const targetSelect = headerEl.createEl('select', { cls: 'dropdown nn-note-template-rules-target' });
+            NOTE_TEMPLATE_RULE_TARGETS.forEach(target => {
+                targetSelect.createEl('option', { value: target, text: strings.modals.noteTemplateRules.targets[target] });
+            });
+            targetSelect.value = row.target;
+            this.rowDisposers.push(
+                addAsyncEventListener(targetSelect, 'change', () => {
+                    row.target = targetSelect.value as NoteTemplateRuleTarget;
+                    // Re-render to update the pattern placeholder and suggestions
+                    this.renderRows();
+                })
+            );
+
+            const patternInput = this.createRowInput(
+                headerEl,
+                'nn-note-template-rules-pattern',
+                this.getPatternPlaceholder(row.target),
+                row.pattern,
+                (value, inputEl) => {
+                    row.pattern = value;
+                    inputEl.toggleClass('nn-note-template-rules-invalid', !this.isPatternValid(row));
+                }
+            );
+            patternInput.toggleClass('nn-note-template-rules-invalid', !this.isPatternValid(row));
+            if (row.target === 'folder') {
+                const folderSuggest = new FolderPathInputSuggest(this.app, patternInput);
+                this.rowDisposers.push(addAsyncEventListener(patternInput, 'click', () => folderSuggest.open()));
+            }
+
+            this.createRowButton(headerEl, 'lucide-arrow-up', strings.modals.noteTemplateRules.moveUp, index === 0, () => {
+                this.moveRow(index, index - 1);
+            });
+            this.createRowButton(
+                headerEl,
+                'lucide-arrow-down',
+                strings.modals.noteTemplateRules.moveDown,
+                index === this.rows.length - 1,
+                () => {
+                    this.moveRow(index, index + 1);
+                }
+            );
+            this.createRowButton(headerEl, 'lucide-trash-2', strings.common.remove, false, () => {
+                this.rows.splice(index, 1);
+                this.renderRows();
+            });
+
+            const detailsEl = rowEl.createDiv({ cls: 'nn-note-template-rules-row-details' });
+            const templateInput = this.createRowInput(
+                detailsEl,
+                'nn-note-template-rules-template',
+                strings.modals.noteTemplateRules.templatePlaceholder,
+                row.templatePath,
+                value => {
+                    row.templatePath = value;
+                }
+            );
+            const templateSuggest = new FilePathInputSuggest(this.app, templateInput, {
+                getBaseFolder: () => this.options.templateFolder,
+                includeFile: file => file.extension === 'md'
+            });
+            this.rowDisposers.push(addAsyncEventListener(templateInput, 'click', () => templateSuggest.open()));
+
+            this.createRowInput(
+                detailsEl,
+                'nn-note-template-rules-file-name',
+                strings.modals.noteTemplateRules.fileNamePlaceholder,
+                row.fileNamePattern,
+                value => {
+                    row.fileNamePattern = value;
+                }
+            );
+        });
+
+        this.updateSaveButtonState();
+    }
+
+    /** Creates the modal footer with add, cancel, and save buttons */
+    private renderFooter(): void {
+        this.disposeListeners(this.footerDisposers);
+
+        const footer = this.contentEl.createDiv({ cls: 'nn-note-template-rules-footer nn-button-container' });
+
+        const addButton = footer.createEl('button', {
+            attr: { type: 'button', 'aria-label': strings.modals.noteTemplateRules.addRule }
+        });
+        setIcon(addButton, 'lucide-plus');
+        this.footerDisposers.push(
+            addAsyncEventListener(addButton, 'click', () => {
+                this.rows.push({ id: this.nextRowId(), target: 'folder', pattern: '', templatePath: '', fileNamePattern: '' });
+                this.renderRows();
+            })
+        );
+
+        const cancelButton = footer.createEl('button', { text: strings.common.cancel, attr: { type: 'button' } });
+        this.footerDisposers.push(
+            addAsyncEventListener(cancelButton, 'click', () => {
+                this.close();
+            })
+        );
+
+        this.saveButton = footer.createEl('button', {
+            cls: 'mod-cta',
+            text: strings.modals.noteTemplateRules.save,
+            attr: { type: 'button' }
+        });
+        this.footerDisposers.push(
+            addAsyncEventListener(this.saveButton, 'click', () => {
+                this.saveChanges();
+            })
+        );
+    }
+
+    /** Moves a row to a new position */
+    private moveRow(fromIndex: number, toIndex: number): void {
+        if (toIndex < 0 || toIndex >= this.rows.length) {
+            return;
+        }
+        const [row] = this.rows.splice(fromIndex, 1);
+        this.rows.splice(toIndex, 0, row);
+        this.renderRows();
+    }
+
+    /** Tag and property rules need a pattern; an empty folder pattern matches every folder */
+    private isPatternValid(row: NoteTemplateRuleRow): boolean {
+        return row.target === 'folder' || row.pattern.trim().length > 0;
+    }
+
+    /** Returns true when every rule has a valid pattern and a template or file name pattern */
+    private isValid(): boolean {
+        return this.rows.every(
+            row => this.isPatternValid(row) && (row.templatePath.trim().length > 0 || row.fileNamePattern.trim().length > 0)
+        );
+    }
+
+    /** Enables or disables the save button */
+    private updateSaveButtonState(): void {
+        if (this.saveButton) {
+            this.saveButton.disabled = !this.isValid();
+        }
+    }
+
+    /** Normalizes and persists the current rules, then closes the modal */
+    private saveChanges(): void {
+        if (!this.isValid()) {
+            return;
+        }
+
+        const rules = normalizeNoteTemplateRules(
+            this.rows.map(row => ({
+                target: row.target,
+                pattern: row.pattern,
+                templatePath: row.templatePath,
+                fileNamePattern: row.fileNamePattern
+            }))
+        );
+        runAsyncAction(async () => {
+            await this.options.onSave(rules);
+            this.close();
+        });
+    }
+}
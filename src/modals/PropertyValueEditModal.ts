@@ -0,0 +1,218 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { App, Modal } from 'obsidian';
+import { strings } from '../i18n';
+import type { PropertyValueEdit, PropertyValueEditMode, PropertyValueEditPreview } from '../services/propertyOperations/types';
+import { runAsyncAction } from '../utils/async';
+
+interface PropertyValueEditModalOptions {
+    fileCount: number;
+    keySuggestions: string[];
+    getPreview: (edit: PropertyValueEdit) => PropertyValueEditPreview;
+    onSubmit: (edit: PropertyValueEdit) => Promise<boolean> | boolean;
+}
+
+const PROPERTY_VALUE_EDIT_MODES: PropertyValueEditMode[] = ['set', 'append', 'remove'];
+
+function isPropertyValueEditMode(value: string): value is PropertyValueEditMode {
+    return PROPERTY_VALUE_EDIT_MODES.some(mode => mode === value);
+}
+
+/**
+ * Formats a frontmatter value for the change preview.
+ */
+function formatPreviewValue(value: unknown): string {
+    if (value === undefined || value === null || value === '') {
+        return strings.modals.propertyValueEdit.emptyValue;
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => formatPreviewValue(item)).join(', ');
+    }
+    if (typeof value === 'string') {
+        return value;
+    }
+    if (typeof value === 'number' || typeof value === 'boolean') {
+        return value.toString();
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * Modal dialog that sets, appends to, or removes a property on several notes and previews the changes.
+ */
+export class PropertyValueEditModal extends Modal {
+    private keyInputEl!: HTMLInputElement;
+    private modeSelectEl!: HTMLSelectElement;
+    private valueRowEl!: HTMLDivElement;
+    private valueInputEl!: HTMLInputElement;
+    private previewEl!: HTMLDivElement;
+    private submitBtn!: HTMLButtonElement;
+    private changedCount = 0;
+
+    constructor(
+        app: App,
+        private readonly options: PropertyValueEditModalOptions
+    ) {
+        super(app);
+    }
+
+    onOpen(): void {
+        const countLabel = this.options.fileCount === 1 ? strings.modals.tagOperation.file : strings.modals.tagOperation.files;
+
+        this.titleEl.setText(strings.modals.propertyValueEdit.title);
+        this.contentEl.createDiv({
+            cls: 'nn-property-value-edit-description',
+            text: strings.modals.propertyValueEdit.description
+                .replace('{count}', this.options.fileCount.toString())
+                .replace('{files}', countLabel)
+        });
+
+        const keyRow = this.createRow(strings.modals.propertyValueEdit.keyLabel, 'nn-property-value-edit-key');
+        this.keyInputEl = keyRow.createEl('input', {
+            type: 'text',
+            cls: 'nn-input',
+            attr: { id: 'nn-property-value-edit-key', list: 'nn-property-value-edit-key-suggestions' },
+            placeholder: strings.modals.propertyValueEdit.keyPlaceholder
+        });
+        const suggestionsEl = keyRow.createEl('datalist', { attr: { id: 'nn-property-value-edit-key-suggestions' } });
+        this.options.keySuggestions.forEach(key => {
+            suggestionsEl.createEl('option', { value: key });
+        });
+
+        const modeRow = this.createRow(strings.modals.propertyValueEdit.modeLabel, 'nn-property-value-edit-mode');
+        this.modeSelectEl = modeRow.createEl('select', { cls: 'dropdown', attr: { id: 'nn-property-value-edit-mode' } });
+        PROPERTY_VALUE_EDIT_MODES.forEach(mode => {
+            this.modeSelectEl.createEl('option', { value: mode, text: strings.modals.propertyValueEdit.modes[mode] });
+        });
+
+        this.valueRowEl = this.createRow(strings.modals.propertyValueEdit.valueLabel, 'nn-property-value-edit-value');
+        this.valueInputEl = this.valueRowEl.createEl('input', {
+            type: 'text',
+            cls: 'nn-input',
+            attr: { id: 'nn-property-value-edit-value' },
+            placeholder: strings.modals.propertyValueEdit.valuePlaceholder
+        });
+
+        this.previewEl = this.contentEl.createDiv('nn-property-value-edit-preview');
+
+        const warning = this.contentEl.createEl('p', { text: strings.modals.tagOperation.modificationWarning });
+        warning.addClass('nn-tag-rename-warning');
+
+        const buttonContainer = this.contentEl.createDiv('nn-button-container');
+        const cancelBtn = buttonContainer.createEl('button', { text: strings.common.cancel });
+        cancelBtn.addEventListener('click', () => this.close());
+
+        this.submitBtn = buttonContainer.createEl('button', { text: strings.modals.propertyValueEdit.apply, cls: 'mod-cta' });
+        this.submitBtn.addEventListener('click', () => {
+            runAsyncAction(() => this.handleSubmit());
+        });
+
+        this.keyInputEl.addEventListener('input', () => this.updatePreview());
+        this.valueInputEl.addEventListener('input', () => this.updatePreview());
+        this.modeSelectEl.addEventListener('change', () => this.updatePreview());
+
+        this.scope.register([], 'Enter', event => {
+            if (document.activeElement === this.keyInputEl || document.activeElement === this.valueInputEl) {
+                event.preventDefault();
+                runAsyncAction(() => this.handleSubmit());
+            }
+        });
+
+        this.updatePreview();
+        this.keyInputEl.focus();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    private createRow(label: string, inputId: string): HTMLDivElement {
+        const row = this.contentEl.createDiv('nn-property-value-edit-row');
+        const labelEl = row.createEl('label', { text: label });
+        labelEl.htmlFor = inputId;
+        return row;
+    }
+
+    private getEdit(): PropertyValueEdit {
+        const mode = this.modeSelectEl.value;
+        return {
+            key: this.keyInputEl.value.trim(),
+            value: this.valueInputEl.value.trim(),
+            mode: isPropertyValueEditMode(mode) ? mode : 'set'
+        };
+    }
+
+    /** Recomputes the change preview and enables the apply button when at least one note changes */
+    private updatePreview(): void {
+        const edit = this.getEdit();
+        this.valueRowEl.toggle(edit.mode !== 'remove');
+        this.previewEl.empty();
+
+        const needsValue = edit.mode !== 'remove';
+        const isComplete = edit.key.length > 0 && (!needsValue || edit.value.length > 0);
+        const preview = isComplete ? this.options.getPreview(edit) : { changed: 0, sample: [] };
+        this.changedCount = preview.changed;
+
+        if (isComplete) {
+            this.previewEl.createEl('h4', { text: strings.modals.propertyValueEdit.previewTitle });
+            this.previewEl.createEl('p', {
+                cls: 'nn-property-value-edit-summary',
+                text:
+                    preview.changed === 0
+                        ? strings.modals.propertyValueEdit.noChanges
+                        : strings.modals.propertyValueEdit.changeSummary
+                              .replace('{count}', preview.changed.toString())
+                              .replace('{total}', this.options.fileCount.toString())
+            });
+
+            if (preview.sample.length > 0) {
+                const list = this.previewEl.createEl('ul');
+                preview.sample.forEach(entry => {
+                    const item = list.createEl('li');
+                    item.createSpan({ cls: 'nn-property-value-edit-file', text: entry.fileName });
+                    item.createSpan({ cls: 'nn-property-value-edit-before', text: formatPreviewValue(entry.before) });
+                    item.createSpan({ text: ' → ' });
+                    item.createSpan({ text: formatPreviewValue(entry.after) });
+                });
+
+                const remaining = preview.changed - preview.sample.length;
+                if (remaining > 0) {
+                    this.previewEl.createEl('p', {
+                        text: strings.modals.tagOperation.andMore.replace('{count}', remaining.toString())
+                    });
+                }
+            }
+        }
+
+        const disabled = this.changedCount === 0;
+        this.submitBtn.toggleClass('mod-disabled', disabled);
+        this.submitBtn.disabled = disabled;
+    }
+
+    private async handleSubmit(): Promise<void> {
+        if (this.changedCount === 0) {
+            return;
+        }
+
+        const shouldClose = await this.options.onSubmit(this.getEdit());
+        if (shouldClose) {
+            this.close();
+        }
+    }
+}
@@ -0,0 +1,132 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { App, Modal } from 'obsidian';
+import { strings } from '../i18n';
+import { runAsyncAction } from '../utils/async';
+import { renderAffectedFilesPreview } from '../services/operations/OperationBatchUtils';
+
+interface PropertyValueRenameModalOptions {
+    propertyKey: string;
+    value: string;
+    affectedCount: number;
+    sampleFiles: string[];
+    /** Existing values of the same property, offered as merge targets */
+    valueSuggestions: string[];
+    onSubmit: (newValue: string) => Promise<boolean> | boolean;
+}
+
+/**
+ * Modal dialog used to collect a new name for a property value and show affected files.
+ * Entering an existing value merges the two values.
+ */
+export class PropertyValueRenameModal extends Modal {
+    private inputEl!: HTMLInputElement;
+    private submitBtn!: HTMLButtonElement;
+
+    constructor(
+        app: App,
+        private readonly options: PropertyValueRenameModalOptions
+    ) {
+        super(app);
+    }
+
+    onOpen(): void {
+        const { propertyKey, value, affectedCount, sampleFiles } = this.options;
+        const countLabel = affectedCount === 1 ? strings.modals.tagOperation.file : strings.modals.tagOperation.files;
+
+        this.titleEl.setText(strings.modals.propertyValueRename.renameTitle.replace('{value}', value));
+
+        const description = this.contentEl.createDiv('nn-tag-rename-description');
+        description.setText(
+            strings.modals.propertyValueRename.renameWarning
+                .replace('{property}', propertyKey)
+                .replace('{value}', value)
+                .replace('{count}', affectedCount.toString())
+                .replace('{files}', countLabel)
+        );
+
+        const inputContainer = this.contentEl.createDiv('nn-tag-rename-input-container');
+        const label = inputContainer.createEl('label', { text: strings.modals.propertyValueRename.newValuePrompt });
+        label.htmlFor = 'nn-property-value-rename-input';
+
+        this.inputEl = inputContainer.createEl('input', {
+            type: 'text',
+            attr: { id: 'nn-property-value-rename-input', list: 'nn-property-value-rename-suggestions' },
+            value,
+            placeholder: strings.modals.propertyValueRename.newValuePlaceholder
+        });
+        this.inputEl.addClass('nn-input');
+        this.inputEl.addEventListener('input', () => this.updateSubmitState());
+
+        const suggestionsEl = inputContainer.createEl('datalist', { attr: { id: 'nn-property-value-rename-suggestions' } });
+        this.options.valueSuggestions.forEach(suggestion => {
+            suggestionsEl.createEl('option', { value: suggestion });
+        });
+
+        const warning = this.contentEl.createEl('p', { text: strings.modals.tagOperation.modificationWarning });
+        warning.addClass('nn-tag-rename-warning');
+
+        renderAffectedFilesPreview(this.contentEl, { total: affectedCount, sample: sampleFiles });
+
+        const buttonContainer = this.contentEl.createDiv('nn-button-container');
+        const cancelBtn = buttonContainer.createEl('button', { text: strings.common.cancel });
+        cancelBtn.addEventListener('click', () => this.close());
+
+        this.submitBtn = buttonContainer.createEl('button', { text: strings.modals.propertyValueRename.confirmRename, cls: 'mod-cta' });
+        this.submitBtn.addEventListener('click', () => {
+            runAsyncAction(() => this.handleSubmit());
+        });
+
+        this.scope.register([], 'Enter', event => {
+            if (document.activeElement === this.inputEl) {
+                event.preventDefault();
+                runAsyncAction(() => this.handleSubmit());
+            }
+        });
+
+        this.updateSubmitState();
+        this.inputEl.focus();
+        this.inputEl.select();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    private updateSubmitState(): void {
+        if (!this.submitBtn) {
+            return;
+        }
+
+        const disabled = this.inputEl.value.trim().length === 0;
+        this.submitBtn.toggleClass('mod-disabled', disabled);
+        this.submitBtn.disabled = disabled;
+    }
+
+    private async handleSubmit(): Promise<void> {
+        const newValue = this.inputEl.value.trim();
+        if (newValue.length === 0) {
+            return;
+        }
+
+        const shouldClose = await this.options.onSubmit(newValue);
+        if (shouldClose) {
+            this.close();
+        }
+    }
+}
@@ -0,0 +1,131 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { App, Modal } from 'obsidian';
+import { strings } from '../i18n';
+import { runAsyncAction } from '../utils/async';
+
+export interface SmartFolderModalValues {
+    name: string;
+    query: string;
+}
+
+interface SmartFolderModalOptions {
+    title: string;
+    submitLabel: string;
+    initialName?: string;
+    initialQuery?: string;
+    /** Returns a localized error message for an invalid name, or null when the name can be used */
+    validateName: (name: string) => string | null;
+    onSubmit: (values: SmartFolderModalValues) => Promise<void> | void;
+}
+
+/**
+ * Modal dialog for creating and editing smart folders.
+ * Collects a name and the filter query that decides which notes the smart folder lists.
+ */
+export class SmartFolderModal extends Modal {
+    private readonly options: SmartFolderModalOptions;
+
+    private nameInputEl!: HTMLInputElement;
+    private queryInputEl!: HTMLInputElement;
+    private errorEl!: HTMLDivElement;
+    private submitBtn!: HTMLButtonElement;
+
+    constructor(app: App, options: SmartFolderModalOptions) {
+        super(app);
+        this.options = options;
+    }
+
+    onOpen(): void {
+        this.titleEl.setText(this.options.title);
+
+        const nameLabel = this.contentEl.createEl('label', { text: strings.modals.smartFolder.nameLabel });
+        nameLabel.htmlFor = 'nn-smart-folder-name-input';
+        this.nameInputEl = this.contentEl.createEl('input', {
+            type: 'text',
+            attr: { id: 'nn-smart-folder-name-input' },
+            value: this.options.initialName ?? '',
+            placeholder: strings.modals.smartFolder.namePlaceholder
+        });
+        this.nameInputEl.addClass('nn-input');
+        this.nameInputEl.addEventListener('input', () => this.updateSubmitState());
+
+        const queryLabel = this.contentEl.createEl('label', { text: strings.modals.smartFolder.queryLabel });
+        queryLabel.htmlFor = 'nn-smart-folder-query-input';
+        this.queryInputEl = this.contentEl.createEl('input', {
+            type: 'text',
+            attr: { id: 'nn-smart-folder-query-input' },
+            value: this.options.initialQuery ?? '',
+            placeholder: strings.modals.smartFolder.queryPlaceholder
+        });
+        this.queryInputEl.addClass('nn-input');
+
+        const description = this.contentEl.createDiv('nn-smart-folder-modal-description');
+        description.setText(strings.modals.smartFolder.queryDescription);
+
+        this.errorEl = this.contentEl.createDiv('nn-smart-folder-modal-error');
+
+        const buttonContainer = this.contentEl.createDiv('nn-button-container');
+        const cancelBtn = buttonContainer.createEl('button', { text: strings.common.cancel });
+        cancelBtn.addEventListener('click', () => this.close());
+
+        this.submitBtn = buttonContainer.createEl('button', { text: this.options.submitLabel, cls: 'mod-cta' });
+        this.submitBtn.addEventListener('click', () => {
+            runAsyncAction(() => this.handleSubmit());
+        });
+
+        this.scope.register([], 'Enter', event => {
+            if (document.activeElement === this.nameInputEl || document.activeElement === this.queryInputEl) {
+                event.preventDefault();
+                runAsyncAction(() => this.handleSubmit());
+            }
+        });
+
+        this.updateSubmitState();
+        this.nameInputEl.focus();
+        this.nameInputEl.select();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    // Shows the name validation error and disables submit while the name is invalid
+    private updateSubmitState(): string | null {
+        const error = this.options.validateName(this.nameInputEl.value);
+        // Empty names only disable the button; the message is reserved for names that can be fixed by editing
+        const isEmpty = this.nameInputEl.value.trim().length === 0;
+        this.errorEl.setText(error && !isEmpty ? error : '');
+        this.submitBtn.toggleClass('mod-disabled', error !== null);
+        this.submitBtn.disabled = error !== null;
+        return error;
+    }
+
+    private async handleSubmit(): Promise<void> {
+        if (this.updateSubmitState() !== null) {
+            return;
+        }
+
+        await this.options.onSubmit({
+            name: this.nameInputEl.value.trim(),
+            query: this.queryInputEl.value.trim()
+        });
+        this.close();
+    }
+}
@@ -0,0 +1,263 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { App, Modal, setIcon } from 'obsidian';
+import { strings } from '../i18n';
+import { SORT_CHAIN_FIELDS, type SortChainField, type SortChainKey, type SortDirection } from '../settings/types';
+import { runAsyncAction } from '../utils/async';
+import { addAsyncEventListener } from '../utils/domEventListeners';
+import { normalizeSortChain } from '../utils/sortUtils';
+
+/** Configuration options for the sort chain editor modal */
+interface SortChainModalOptions {
+    title: string;
+    initialChain: SortChainKey[];
+    onSave: (chain: SortChainKey[]) => Promise<void> | void;
+}
+
+/** Internal representation of a single sort key row */
+interface SortKeyRow {
+    id: string;
+    field: SortChainField;
+    direction: SortDirection;
+    property: string;
+}
+
+/**
+ * Modal for editing an ordered list of sort keys.
+ * Notes are sorted by the first key and each following key breaks ties left by the keys above it.
+ */
+export class SortChainModal extends Modal {
+    private rows: SortKeyRow[];
+    private listEl: HTMLDivElement | null = null;
+    private rowDisposers: (() => void)[] = [];
+    private footerDisposers: (() => void)[] = [];
+    private saveButton: HTMLButtonElement | null = null;
+    private rowIdCounter = 0;
+
+    constructor(
+        app: App,
+        private options: SortChainModalOptions
+    ) {
+        super(app);
+        this.rows = options.initialChain.map(key => ({
+            id: this.nextRowId(),
+            field: key.field,
+            direction: key.direction,
+            property: key.property ?? ''
+        }));
+    }
+
+    onOpen(): void {
+        this.modalEl.addClass('nn-sort-chain-modal');
+        this.titleEl.setText(this.options.title);
+        this.contentEl.empty();
+
+        this.contentEl.createDiv({ cls: 'nn-sort-chain-description', text: strings.modals.sortChain.description });
+        const scrollContainer = this.contentEl.createDiv({ cls: 'nn-sort-chain-scroll' });
+        this.listEl = scrollContainer.createDiv({ cls: 'nn-sort-chain-list' });
+        this.renderRows();
+        this.renderFooter();
+        this.updateSaveButtonState();
+    }
+
+    onClose(): void {
+        this.disposeListeners(this.rowDisposers);
+        this.disposeListeners(this.footerDisposers);
+        this.listEl = null;
+        this.saveButton = null;
+        this.modalEl.removeClass('nn-sort-chain-modal');
+        this.contentEl.empty();
+    }
+
+    /** Generates a unique identifier for a new row */
+    private nextRowId(): string {
+        this.rowIdCounter += 1;
+        return `sort-key-${this.rowIdCounter}`;
+    }
+
+    /** Runs and clears a list of event listener disposers */
+    private disposeListeners(disposers: (() => void)[]): void {
+        disposers.splice(0).forEach(disposer => {
+            try {
+                disposer();
+            } catch (error) {
+                console.error('[SortChainModal] Failed to dispose handler', error);
+            }
+        });
+    }
+
+    /** Creates an icon button inside a row and registers its click handler */
+    private createRowButton(rowEl: HTMLElement, icon: string, label: string, disabled: boolean, onClick: () => void): void {
+        const button = rowEl.createEl('button', {
+            cls: 'nn-action-btn',
+            attr: { type: 'button', 'aria-label': label }
+        });
+        setIcon(button, icon);
+        button.disabled = disabled;
+        this.rowDisposers.push(addAsyncEventListener(button, 'click', onClick));
+    }
+
+    /** Rebuilds the sort key list UI from the current rows state */
+    private renderRows(): void {
+        if (!this.listEl) {
+            return;
+        }
+
+        this.disposeListeners(this.rowDisposers);
+        this.listEl.empty();
+
+        this.rows.forEach((row, index) => {
+            const rowEl = this.listEl?.createDiv({ cls: 'nn-sort-chain-row' });
+            if (!rowEl) {
+                return;
+            }
+
+            rowEl.createSpan({ cls: 'nn-sort-chain-index', text: `${index + 1}.` });
+
+            const fieldSelect = rowEl.createEl('select', { cls: 'dropdown nn-sort-chain-field' });
+            SORT_CHAIN_FIELDS.forEach(field => {
+                fieldSelect.createEl('option', { value: field, text: strings.modals.sortChain.fields[field] });
+            });
+            fieldSelect.value = row.field;
+            this.rowDisposers.push(
+                addAsyncEventListener(fieldSelect, 'change', () => {
+                    row.field = fieldSelect.value as SortChainField;
+                    // Re-render to show or hide the property input
+                    this.renderRows();
+                })
+            );
+
+            if (row.field === 'property') {
+                const propertyInput = rowEl.createEl('input', {
+                    cls: 'nn-input nn-sort-chain-property',
+                    attr: { type: 'text', placeholder: strings.modals.sortChain.propertyPlaceholder }
+                });
+                propertyInput.value = row.property;
+                propertyInput.toggleClass('nn-sort-chain-property-invalid', row.property.trim().length === 0);
+                this.rowDisposers.push(
+                    addAsyncEventListener(propertyInput, 'input', () => {
+                        row.property = propertyInput.value;
+                        propertyInput.toggleClass('nn-sort-chain-property-invalid', row.property.trim().length === 0);
+                        this.updateSaveButtonState();
+                    })
+                );
+            }
+
+            const directionSelect = rowEl.createEl('select', { cls: 'dropdown nn-sort-chain-direction' });
+            directionSelect.createEl('option', { value: 'asc', text: strings.modals.sortChain.ascending });
+            directionSelect.createEl('option', { value: 'desc', text: strings.modals.sortChain.descending });
+            directionSelect.value = row.direction;
+            this.rowDisposers.push(
+                addAsyncEventListener(directionSelect, 'change', () => {
+                    row.direction = directionSelect.value === 'desc' ? 'desc' : 'asc';
+                })
+            );
+
+            this.createRowButton(rowEl, 'lucide-arrow-up', strings.modals.sortChain.moveUp, index === 0, () => {
+                this.moveRow(index, index - 1);
+            });
+            this.createRowButton(rowEl, 'lucide-arrow-down', strings.modals.sortChain.moveDown, index === this.rows.length - 1, () => {
+                this.moveRow(index, index + 1);
+            });
+            this.createRowButton(rowEl, 'lucide-trash-2', strings.common.remove, false, () => {
+                this.rows.splice(index, 1);
+                this.renderRows();
+            });
+        });
+
+        this.updateSaveButtonState();
+    }
+
+    /** Creates the modal footer with add, cancel, and save buttons */
+    private renderFooter(): void {
+        this.disposeListeners(this.footerDisposers);
+
+        const footer = this.contentEl.createDiv({ cls: 'nn-sort-chain-footer nn-button-container' });
+
+        const addButton = footer.createEl('button', {
+            attr: { type: 'button', 'aria-label': strings.modals.sortChain.addKey }
+        });
+        setIcon(addButton, 'lucide-plus');
+        this.footerDisposers.push(
+            addAsyncEventListener(addButton, 'click', () => {
+                this.rows.push({ id: this.nextRowId(), field: 'title', direction: 'asc', property: '' });
+                this.renderRows();
+            })
+        );
+
+        const cancelButton = footer.createEl('button', { text: strings.common.cancel, attr: { type: 'button' } });
+        this.footerDisposers.push(
+            addAsyncEventListener(cancelButton, 'click', () => {
+                this.close();
+            })
+        );
+
+        this.saveButton = footer.createEl('button', {
+            cls: 'mod-cta',
+            text: strings.modals.sortChain.save,
+            attr: { type: 'button' }
+        });
+        this.footerDisposers.push(
+            addAsyncEventListener(this.saveButton, 'click', () => {
+                this.saveChanges();
+            })
+        );
+    }
+
+    /** Moves a row to a new position */
+    private moveRow(fromIndex: number, toIndex: number): void {
+        if (toIndex < 0 || toIndex >= this.rows.length) {
+            return;
+        }
+        const [row] = this.rows.splice(fromIndex, 1);
+        this.rows.splice(toIndex, 0, row);
+        this.renderRows();
+    }
+
+    /** Returns true when the chain has at least one key and every property key names a property */
+    private isValid(): boolean {
+        return this.rows.length > 0 && this.rows.every(row => row.field !== 'property' || row.property.trim().length > 0);
+    }
+
+    /** Enables or disables the save button */
+    private updateSaveButtonState(): void {
+        if (this.saveButton) {
+            this.saveButton.disabled = !this.isValid();
+        }
+    }
+
+    /** Normalizes and persists the current sort keys, then closes the modal */
+    private saveChanges(): void {
+        if (!this.isValid()) {
+            return;
+        }
+
+        const chain = normalizeSortChain(
+            this.rows.map(row => ({
+                field: row.field,
+                direction: row.direction,
+                property: row.property
+            }))
+        );
+        runAsyncAction(async () => {
+            await this.options.onSave(chain);
+            this.close();
+        });
+    }
+}
@@ -0,0 +1,137 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { App, Modal } from 'obsidian';
+import { strings } from '../i18n';
+import { runAsyncAction } from '../utils/async';
+
+interface TagMergeModalOptions {
+    sourceTags: string[];
+    tagSuggestions: string[];
+    onSubmit: (sourceTags: string[], targetTag: string) => Promise<boolean> | boolean;
+}
+
+/**
+ * Splits a comma-separated tag list into trimmed tag names without # prefix.
+ */
+function parseTagList(value: string): string[] {
+    return value
+        .split(',')
+        .map(entry => entry.trim().replace(/^#/u, ''))
+        .filter(entry => entry.length > 0);
+}
+
+/**
+ * Modal dialog that collects the tags to merge and the tag they merge into.
+ */
+export class TagMergeModal extends Modal {
+    private sourcesInputEl!: HTMLInputElement;
+    private targetInputEl!: HTMLInputElement;
+    private submitBtn!: HTMLButtonElement;
+
+    constructor(
+        app: App,
+        private readonly options: TagMergeModalOptions
+    ) {
+        super(app);
+    }
+
+    onOpen(): void {
+        this.titleEl.setText(strings.modals.tagMerge.title);
+        this.contentEl.createDiv({ cls: 'nn-tag-operation-summary-description', text: strings.modals.tagMerge.description });
+
+        const sourcesRow = this.createRow(strings.modals.tagMerge.sourcesLabel, 'nn-tag-merge-sources');
+        this.sourcesInputEl = sourcesRow.createEl('input', {
+            type: 'text',
+            cls: 'nn-input',
+            attr: { id: 'nn-tag-merge-sources' },
+            value: this.options.sourceTags.join(', '),
+            placeholder: strings.modals.tagMerge.sourcesPlaceholder
+        });
+
+        const targetRow = this.createRow(strings.modals.tagMerge.targetLabel, 'nn-tag-merge-target');
+        this.targetInputEl = targetRow.createEl('input', {
+            type: 'text',
+            cls: 'nn-input',
+            attr: { id: 'nn-tag-merge-target', list: 'nn-tag-merge-target-suggestions' },
+            placeholder: strings.modals.tagMerge.targetPlaceholder
+        });
+        const suggestionsEl = targetRow.createEl('datalist', { attr: { id: 'nn-tag-merge-target-suggestions' } });
+        this.options.tagSuggestions.forEach(tag => {
+            suggestionsEl.createEl('option', { value: tag });
+        });
+
+        const buttonContainer = this.contentEl.createDiv('nn-button-container');
+        const cancelBtn = buttonContainer.createEl('button', { text: strings.common.cancel });
+        cancelBtn.addEventListener('click', () => this.close());
+
+        this.submitBtn = buttonContainer.createEl('button', { text: strings.modals.tagMerge.preview, cls: 'mod-cta' });
+        this.submitBtn.addEventListener('click', () => {
+            runAsyncAction(() => this.handleSubmit());
+        });
+
+        this.sourcesInputEl.addEventListener('input', () => this.updateSubmitState());
+        this.targetInputEl.addEventListener('input', () => this.updateSubmitState());
+
+        this.scope.register([], 'Enter', event => {
+            if (document.activeElement === this.sourcesInputEl || document.activeElement === this.targetInputEl) {
+                event.preventDefault();
+                runAsyncAction(() => this.handleSubmit());
+            }
+        });
+
+        this.updateSubmitState();
+        if (this.options.sourceTags.length > 0) {
+            this.targetInputEl.focus();
+        } else {
+            this.sourcesInputEl.focus();
+        }
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    private createRow(label: string, inputId: string): HTMLDivElement {
+        const row = this.contentEl.createDiv('nn-property-value-edit-row');
+        const labelEl = row.createEl('label', { text: label });
+        labelEl.htmlFor = inputId;
+        return row;
+    }
+
+    private isComplete(): boolean {
+        return parseTagList(this.sourcesInputEl.value).length > 0 && this.targetInputEl.value.trim().replace(/^#/u, '').length > 0;
+    }
+
+    private updateSubmitState(): void {
+        const disabled = !this.isComplete();
+        this.submitBtn.toggleClass('mod-disabled', disabled);
+        this.submitBtn.disabled = disabled;
+    }
+
+    private async handleSubmit(): Promise<void> {
+        if (!this.isComplete()) {
+            return;
+        }
+
+        const shouldClose = await this.options.onSubmit(parseTagList(this.sourcesInputEl.value), this.targetInputEl.value.trim());
+        if (shouldClose) {
+            this.close();
+        }
+    }
+}
@@ -0,0 +1,117 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { App, Modal } from 'obsidian';
+import { strings } from '../i18n';
+import { buildUsageSummaryFromPaths } from '../services/operations/OperationBatchUtils';
+import { runAsyncAction } from '../utils/async';
+
+const ITEM_SAMPLE_LIMIT = 8;
+
+export interface TagOperationSummarySection {
+    heading: string;
+    /** Optional explanation shown under the heading */
+    description?: string;
+    /** File paths, listed by name with a remaining count */
+    paths?: readonly string[];
+    /** Plain entries such as tag collisions, listed as-is */
+    items?: readonly string[];
+    /** Highlights the section as a conflict or problem */
+    warning?: boolean;
+}
+
+interface TagOperationSummaryModalOptions {
+    title: string;
+    description: string;
+    sections: TagOperationSummarySection[];
+    /** Confirm button label; the modal acts as a read-only report when omitted */
+    confirmLabel?: string;
+    onConfirm?: () => Promise<void> | void;
+}
+
+/**
+ * Modal dialog that lists the files and conflicts of a tag merge or split.
+ * Used both as the dry-run summary before applying changes and as the report afterwards.
+ */
+export class TagOperationSummaryModal extends Modal {
+    constructor(
+        app: App,
+        private readonly options: TagOperationSummaryModalOptions
+    ) {
+        super(app);
+    }
+
+    onOpen(): void {
+        this.titleEl.setText(this.options.title);
+        this.contentEl.createDiv({ cls: 'nn-tag-operation-summary-description', text: this.options.description });
+
+        this.options.sections.forEach(section => this.renderSection(section));
+
+        const buttonContainer = this.contentEl.createDiv('nn-button-container');
+        const onConfirm = this.options.onConfirm;
+        if (!onConfirm) {
+            const closeBtn = buttonContainer.createEl('button', { text: strings.modals.tagOperationSummary.close, cls: 'mod-cta' });
+            closeBtn.addEventListener('click', () => this.close());
+            return;
+        }
+
+        const cancelBtn = buttonContainer.createEl('button', { text: strings.common.cancel });
+        cancelBtn.addEventListener('click', () => this.close());
+
+        const confirmBtn = buttonContainer.createEl('button', {
+            text: this.options.confirmLabel ?? strings.common.submit,
+            cls: 'mod-cta'
+        });
+        confirmBtn.addEventListener('click', () => {
+            this.close();
+            runAsyncAction(() => onConfirm());
+        });
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    private renderSection(section: TagOperationSummarySection): void {
+        const count = section.paths?.length ?? section.items?.length ?? 0;
+        const sectionEl = this.contentEl.createDiv('nn-tag-operation-summary-section');
+        sectionEl.toggleClass('nn-tag-operation-summary-section--warning', Boolean(section.warning));
+        sectionEl.createEl('h4', { text: `${section.heading} (${count})` });
+
+        if (section.description) {
+            sectionEl.createEl('p', { cls: 'nn-tag-operation-summary-note', text: section.description });
+        }
+
+        const usage = section.paths
+            ? buildUsageSummaryFromPaths(this.app, section.paths)
+            : { total: count, sample: (section.items ?? []).slice(0, ITEM_SAMPLE_LIMIT) };
+        if (usage.sample.length === 0) {
+            return;
+        }
+
+        const list = sectionEl.createEl('ul');
+        usage.sample.forEach(entry => {
+            list.createEl('li', { text: entry });
+        });
+
+        const remaining = usage.total - usage.sample.length;
+        if (remaining > 0) {
+            sectionEl.createEl('p', { text: strings.modals.tagOperation.andMore.replace('{count}', remaining.toString()) });
+        }
+    }
+}
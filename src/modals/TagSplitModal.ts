@@ -0,0 +1,204 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { App, Modal, setIcon } from 'obsidian';
+import { strings } from '../i18n';
+import type { TagSplitRule, TagSplitRuleKind } from '../services/tagOperations/types';
+import { runAsyncAction } from '../utils/async';
+import { addAsyncEventListener } from '../utils/domEventListeners';
+
+interface TagSplitModalOptions {
+    tagPath: string;
+    fileCount: number;
+    onSubmit: (rules: TagSplitRule[]) => Promise<boolean> | boolean;
+}
+
+const TAG_SPLIT_RULE_KINDS: TagSplitRuleKind[] = ['folder', 'query'];
+
+function isTagSplitRuleKind(value: string): value is TagSplitRuleKind {
+    return TAG_SPLIT_RULE_KINDS.some(kind => kind === value);
+}
+
+/**
+ * Modal dialog that collects the rules used to split a tag into child tags.
+ * Rules are checked in order and each note moves to the child tag of the first matching rule.
+ */
+export class TagSplitModal extends Modal {
+    private rules: TagSplitRule[] = [
+        { childTag: '', kind: 'folder', value: '' },
+        { childTag: '', kind: 'folder', value: '' }
+    ];
+    private listEl: HTMLDivElement | null = null;
+    private submitBtn: HTMLButtonElement | null = null;
+    private rowDisposers: (() => void)[] = [];
+
+    constructor(
+        app: App,
+        private readonly options: TagSplitModalOptions
+    ) {
+        super(app);
+    }
+
+    onOpen(): void {
+        const tagLabel = `#${this.options.tagPath}`;
+        const countLabel = this.options.fileCount === 1 ? strings.modals.tagOperation.file : strings.modals.tagOperation.files;
+
+        this.titleEl.setText(strings.modals.tagSplit.title.replace('{tag}', tagLabel));
+        this.contentEl.createDiv({
+            cls: 'nn-tag-operation-summary-description',
+            text: strings.modals.tagSplit.description
+                .replace('{tag}', tagLabel)
+                .replace('{count}', this.options.fileCount.toString())
+                .replace('{files}', countLabel)
+        });
+
+        this.listEl = this.contentEl.createDiv('nn-tag-split-rules');
+        this.renderRows();
+
+        const buttonContainer = this.contentEl.createDiv('nn-button-container');
+        const addButton = buttonContainer.createEl('button', { attr: { type: 'button', 'aria-label': strings.modals.tagSplit.addRule } });
+        setIcon(addButton, 'lucide-plus');
+        addButton.addEventListener('click', () => {
+            this.rules.push({ childTag: '', kind: 'folder', value: '' });
+            this.renderRows();
+        });
+
+        const cancelBtn = buttonContainer.createEl('button', { text: strings.common.cancel });
+        cancelBtn.addEventListener('click', () => this.close());
+
+        this.submitBtn = buttonContainer.createEl('button', { text: strings.modals.tagSplit.preview, cls: 'mod-cta' });
+        this.submitBtn.addEventListener('click', () => {
+            runAsyncAction(() => this.handleSubmit());
+        });
+
+        this.updateSubmitState();
+    }
+
+    onClose(): void {
+        this.disposeRowListeners();
+        this.listEl = null;
+        this.submitBtn = null;
+        this.contentEl.empty();
+    }
+
+    private disposeRowListeners(): void {
+        this.rowDisposers.splice(0).forEach(disposer => disposer());
+    }
+
+    /** Rebuilds the rule rows from the current rules state */
+    private renderRows(): void {
+        if (!this.listEl) {
+            return;
+        }
+
+        this.disposeRowListeners();
+        this.listEl.empty();
+
+        this.rules.forEach((rule, index) => {
+            const rowEl = this.listEl?.createDiv('nn-tag-split-rule');
+            if (!rowEl) {
+                return;
+            }
+
+            rowEl.createSpan({ cls: 'nn-tag-split-prefix', text: `#${this.options.tagPath}/` });
+            const childInput = rowEl.createEl('input', {
+                type: 'text',
+                cls: 'nn-input nn-tag-split-child',
+                value: rule.childTag,
+                placeholder: strings.modals.tagSplit.childPlaceholder
+            });
+            this.rowDisposers.push(
+                addAsyncEventListener(childInput, 'input', () => {
+                    rule.childTag = childInput.value;
+                    this.updateSubmitState();
+                })
+            );
+
+            const kindSelect = rowEl.createEl('select', { cls: 'dropdown' });
+            TAG_SPLIT_RULE_KINDS.forEach(kind => {
+                kindSelect.createEl('option', { value: kind, text: strings.modals.tagSplit.kinds[kind] });
+            });
+            kindSelect.value = rule.kind;
+
+            const valueInput = rowEl.createEl('input', {
+                type: 'text',
+                cls: 'nn-input nn-tag-split-value',
+                value: rule.value,
+                placeholder: this.getValuePlaceholder(rule.kind)
+            });
+            this.rowDisposers.push(
+                addAsyncEventListener(kindSelect, 'change', () => {
+                    rule.kind = isTagSplitRuleKind(kindSelect.value) ? kindSelect.value : 'folder';
+                    valueInput.placeholder = this.getValuePlaceholder(rule.kind);
+                    this.updateSubmitState();
+                }),
+                addAsyncEventListener(valueInput, 'input', () => {
+                    rule.value = valueInput.value;
+                    this.updateSubmitState();
+                })
+            );
+
+            const removeButton = rowEl.createEl('button', {
+                cls: 'nn-action-btn',
+                attr: { type: 'button', 'aria-label': strings.common.remove }
+            });
+            setIcon(removeButton, 'lucide-trash-2');
+            removeButton.disabled = this.rules.length === 1;
+            this.rowDisposers.push(
+                addAsyncEventListener(removeButton, 'click', () => {
+                    this.rules.splice(index, 1);
+                    this.renderRows();
+                })
+            );
+        });
+
+        this.updateSubmitState();
+    }
+
+    private getValuePlaceholder(kind: TagSplitRuleKind): string {
+        return kind === 'folder' ? strings.modals.tagSplit.folderPlaceholder : strings.modals.tagSplit.queryPlaceholder;
+    }
+
+    /** Returns true when every rule names a child tag and every query rule has a query */
+    private isValid(): boolean {
+        return (
+            this.rules.length > 0 &&
+            this.rules.every(rule => rule.childTag.trim().length > 0 && (rule.kind === 'folder' || rule.value.trim().length > 0))
+        );
+    }
+
+    private updateSubmitState(): void {
+        if (!this.submitBtn) {
+            return;
+        }
+        const disabled = !this.isValid();
+        this.submitBtn.toggleClass('mod-disabled', disabled);
+        this.submitBtn.disabled = disabled;
+    }
+
+    private async handleSubmit(): Promise<void> {
+        if (!this.isValid()) {
+            return;
+        }
+
+        const shouldClose = await this.options.onSubmit(this.rules.map(rule => ({ ...rule })));
+        if (shouldClose) {
+            this.close();
+        }
+    }
+}
@@ -32,8 +32,11 @@ import {
     buildPathInFolder,
     createFileWithOptions,
     createDatabaseContent,
+    createMarkdownFileFromTemplate,
     generateUniqueFilename
 } from '../utils/fileCreationUtils';
+import { formatFileNamePattern, resolveNewNoteFileNamePattern } from '../utils/fileNamePattern';
+import { findNoteTemplateRule, type NoteTemplateContext } from '../utils/noteTemplateRules';
 import { cleanupExclusionPatterns, isPathInExcludedFolder } from '../utils/fileFilters';
 import {
     containsForbiddenNameCharactersAllPlatforms,
@@ -54,9 +57,17 @@ import { getErrorMessage } from '../utils/errorUtils';
 import { TagTreeService } from './TagTreeService';
 import type { PropertyTreeService } from './PropertyTreeService';
 import { CommandQueueService, type MoveFilesCommandData } from './CommandQueueService';
+import type { UndoableOperation, UndoHistoryService } from './UndoHistoryService';
 import type { MaybePromise } from '../utils/async';
 import { showNotice } from '../utils/noticeUtils';
-import { normalizePropertyNodeId, parsePropertyNodeId, type PropertySelectionNodeId } from '../utils/propertyTree';
+import {
+    findPropertyHierarchyNode,
+    getPropertyHierarchyNodeLineage,
+    isPropertyHierarchyNodeId,
+    normalizePropertyNodeId,
+    parsePropertyNodeId,
+    type PropertySelectionNodeId
+} from '../utils/propertyTree';
 import type { ISettingsProvider } from '../interfaces/ISettingsProvider';
 import { casefold, ensureRecord, isStringRecordValue } from '../utils/recordUtils';
 import type { MetadataService } from './MetadataService';
@@ -72,6 +83,7 @@ import { createDrawingWithPlugin, DrawingType, getDrawingFilePath, getDrawingTem
 import { resolveFolderDisplayName } from '../utils/folderDisplayName';
 import { normalizeTagPath } from '../utils/tagUtils';
 import { isPrimaryDocumentFile } from '../utils/fileTypeUtils';
+import { getParentFolderPath, getPathBaseName } from '../utils/pathUtils';
 import {
     type DeleteAttachmentsSetting,
     type MoveFileConflictsSetting,
@@ -88,6 +100,7 @@ interface SelectionContext {
     selectedFolder?: TFolder;
     selectedTag?: string;
     selectedProperty?: PropertySelectionNodeId;
+    selectedSmartFolder?: string;
 }
 
 /**
@@ -106,6 +119,8 @@ interface MoveFilesOptions {
     };
     /** Whether to show notifications (default: true) */
     showNotifications?: boolean;
+    /** Whether to show a notice with an Undo button after moving multiple files (default: false) */
+    offerUndo?: boolean;
 }
 
 /**
@@ -140,6 +155,7 @@ interface DeferredMoveConflict {
 interface PlannedMoveExecutionOutcomeMoved {
     status: 'moved';
     originalPath: string;
+    targetPath: string;
 }
 
 interface PlannedMoveExecutionOutcomeSkipped {
@@ -159,6 +175,14 @@ type PlannedMoveExecutionOutcome =
 
 const FILE_MOVE_BATCH_SIZE = 12;
 
+/**
+ * Path change made by moving or renaming a file or folder
+ */
+interface PathMove {
+    from: string;
+    to: string;
+}
+
 /**
  * Result of a folder move initiated from the context menu
  */
@@ -186,6 +210,31 @@ export class FolderMoveError extends Error {
     }
 }
 
+/**
+ * Input modal that handles cancellation events.
+ * Invokes a callback whenever the modal closes; callers ignore it after a submitted value was handled.
+ */
+class CancelAwareInputModal extends InputModal {
+    constructor(
+        app: App,
+        title: string,
+        placeholder: string,
+        onSubmit: (value: string) => MaybePromise,
+        private readonly onCancel: () => void,
+        options?: ConstructorParameters<typeof InputModal>[5]
+    ) {
+        super(app, title, placeholder, onSubmit, '', options);
+    }
+
+    /**
+     * Invokes the cancellation callback when modal is closed
+     */
+    onClose(): void {
+        super.onClose();
+        this.onCancel();
+    }
+}
+
 /**
  * Folder suggest modal that handles cancellation events.
  * Invokes a callback when the modal is closed without selection.
@@ -224,6 +273,7 @@ export class FileSystemOperations {
      * @param getPropertyTreeService - Function to get the PropertyTreeService instance
      * @param getCommandQueue - Function to get the CommandQueueService instance
      * @param getMetadataService - Function to get the MetadataService instance
+     * @param getUndoHistory - Function to get the UndoHistoryService instance
      */
     constructor(
         private app: App,
@@ -232,7 +282,8 @@ export class FileSystemOperations {
         private getCommandQueue: () => CommandQueueService | null,
         private getMetadataService: () => MetadataService | null,
         private getVisibilityPreferences: () => VisibilityPreferences, // Function to get current visibility preferences for descendant/hidden items state
-        private settingsProvider: ISettingsProvider
+        private settingsProvider: ISettingsProvider,
+        private getUndoHistory: () => UndoHistoryService | null = () => null
     ) {}
 
     /**
@@ -521,6 +572,58 @@ export class FileSystemOperations {
         }
     }
 
+    /**
+     * Records moves in the undo history
+     * Steps run in order; moves within a step are independent of each other
+     */
+    private recordPathMoves(label: string, steps: PathMove[][]): UndoableOperation | null {
+        const undoHistory = this.getUndoHistory();
+        const recordedSteps = steps.filter(step => step.length > 0);
+        if (!undoHistory || recordedSteps.length === 0) {
+            return null;
+        }
+
+        const reversedSteps = recordedSteps.map(step => step.map(move => ({ from: move.to, to: move.from }))).reverse();
+        return undoHistory.record({
+            label,
+            undo: () => this.applyPathMoves(reversedSteps),
+            redo: () => this.applyPathMoves(recordedSteps)
+        });
+    }
+
+    /**
+     * Replays recorded moves, skipping entries whose source is gone or whose destination is taken
+     */
+    private async applyPathMoves(steps: PathMove[][]): Promise<void> {
+        let skippedCount = 0;
+
+        for (const step of steps) {
+            for (let index = 0; index < step.length; index += FILE_MOVE_BATCH_SIZE) {
+                const batch = step.slice(index, index + FILE_MOVE_BATCH_SIZE);
+                const outcomes = await Promise.all(batch.map(move => this.applyPathMove(move)));
+                skippedCount += outcomes.filter(moved => !moved).length;
+            }
+        }
+
+        if (skippedCount > 0) {
+            showNotice(strings.undoHistory.partial.replace('{count}', skippedCount.toString()), { variant: 'warning' });
+        }
+    }
+
+    private async applyPathMove(move: PathMove): Promise<boolean> {
+        const entry = this.app.vault.getAbstractFileByPath(move.from);
+        const parent = this.app.vault.getAbstractFileByPath(getParentFolderPath(move.to));
+        if (!entry || !(parent instanceof TFolder) || this.app.vault.getAbstractFileByPath(move.to)) {
+            return false;
+        }
+
+        await this.app.fileManager.renameFile(entry, move.to);
+        if (entry instanceof TFolder) {
+            await this.syncHiddenFolderPathChange(move.from, move.to);
+        }
+        return true;
+    }
+
     private async removeHiddenFolderPathMatch(targetPath: string): Promise<void> {
         const removed = removeHiddenFolderExactMatches(this.settingsProvider.settings, targetPath);
         if (!removed) {
@@ -832,22 +935,126 @@ export class FileSystemOperations {
      * Creates a new markdown file with auto-generated "Untitled" name
      * Automatically increments name if "Untitled" already exists
      * Opens the file and triggers rename mode for immediate naming
+     * Applies the template and file name pattern of the first matching folder template rule,
+     * otherwise the folder's new note file name pattern, and asks for a title first when enabled
      * @param parent - The parent folder to create the file in
      * @param openInNewTab - Whether the file should open in a new tab
-     * @returns The created file or null if creation failed
+     * @returns The created file or null if creation failed or was cancelled
      */
     async createNewFile(parent: TFolder, openInNewTab = false): Promise<TFile | null> {
-        return createFileWithOptions(parent, this.app, {
-            extension: 'md',
-            content: '',
-            openInNewTab,
-            errorKey: 'createFile'
+        const settings = this.settingsProvider.settings;
+        const usesDefaultName =
+            !settings.promptForNewNoteTitle &&
+            !resolveNewNoteFileNamePattern(settings, parent.path) &&
+            !findNoteTemplateRule(settings.noteTemplateRules, { target: 'folder', folderPath: parent.path });
+        if (usesDefaultName) {
+            return createFileWithOptions(parent, this.app, {
+                extension: 'md',
+                content: '',
+                openInNewTab,
+                errorKey: 'createFile'
+            });
+        }
+
+        try {
+            const created = await this.createMarkdownFileForContext(parent, { target: 'folder', folderPath: parent.path });
+            if (!created) {
+                return null;
+            }
+            const { file, triggerRename } = created;
+
+            const leaf = this.app.workspace.getLeaf(openInNewTab);
+            await leaf.openFile(file, { state: { mode: 'source' }, active: true });
+
+            if (triggerRename) {
+                window.setTimeout(() => {
+                    executeCommand(this.app, OBSIDIAN_COMMANDS.EDIT_FILE_TITLE);
+                }, TIMEOUTS.FILE_OPERATION_DELAY);
+            }
+
+            return file;
+        } catch (error) {
+            this.notifyError(strings.fileSystem.errors.createFile, error);
+            return null;
+        }
+    }
+
+    /**
+     * Creates a markdown note in a folder using the first note template rule that matches the creation context.
+     * The file name comes from the rule's file name pattern, then the folder or global new note pattern, then the untitled name.
+     * The template is rendered with Templater when enabled.
+     * Rename mode is only requested when the note received the default untitled name.
+     * @returns The created file, or null when the title prompt was cancelled
+     */
+    private async createMarkdownFileForContext(
+        folder: TFolder,
+        context: NoteTemplateContext
+    ): Promise<{ file: TFile; triggerRename: boolean } | null> {
+        const settings = this.settingsProvider.settings;
+        const rule = findNoteTemplateRule(settings.noteTemplateRules, context);
+        const untitledName = strings.fileSystem.defaultNames.untitled;
+
+        let title: string | null = null;
+        if (settings.promptForNewNoteTitle) {
+            const input = await this.promptForNewNoteTitle();
+            if (input === null) {
+                return null;
+            }
+            title = input || null;
+        }
+
+        const pattern = rule?.fileNamePattern || resolveNewNoteFileNamePattern(settings, folder.path);
+        const patternName = formatFileNamePattern(pattern, { title: title ?? untitledName });
+        const fileName = generateUniqueFilename(folder.path, patternName ?? title ?? untitledName, 'md', this.app);
+        const file = await createMarkdownFileFromTemplate({
+            app: this.app,
+            folder,
+            baseName: fileName,
+            templatePath: rule?.templatePath || null,
+            templateErrorContext: 'Note',
+            processWithTemplater: true
+        });
+        return { file, triggerRename: patternName === null && title === null };
+    }
+
+    /**
+     * Asks for the title of a new note.
+     * @returns The filtered title (empty when left blank), or null when the prompt was cancelled
+     */
+    private promptForNewNoteTitle(): Promise<string | null> {
+        return new Promise(resolve => {
+            let isResolved = false;
+
+            const finish = (result: string | null) => {
+                if (!isResolved) {
+                    isResolved = true;
+                    resolve(result);
+                }
+            };
+
+            const modal = new CancelAwareInputModal(
+                this.app,
+                strings.modals.fileSystem.newNoteTitle,
+                strings.modals.fileSystem.noteTitlePrompt,
+                value => {
+                    finish(this.filterNameInputFinal(value));
+                    modal.close();
+                },
+                () => finish(null),
+                {
+                    closeOnSubmit: false,
+                    inputFilter: value => this.filterNameInputLive(value),
+                    submitButtonText: strings.modals.fileSystem.createNoteButton
+                }
+            );
+            modal.open();
         });
     }
 
     /**
      * Creates a new markdown file in the user's configured default location and adds the selected tag in frontmatter.
      * Uses Obsidian's markdown file creation API so plugin hooks run on creation.
+     * Applies the template and file name pattern of the first matching tag template rule.
      * @param tagPath - Canonical tag path without # prefix
      * @param sourcePath - Current file path used for "same folder as current file" preference
      * @param openInNewTab - Whether the file should open in a new tab
@@ -868,8 +1075,14 @@ export class FileSystemOperations {
             const sourceFilePath = sourcePath?.trim().length ? sourcePath : activeFilePath;
             const defaultParent = this.app.fileManager.getNewFileParent(sourceFilePath ?? '');
             const targetFolder = defaultParent instanceof TFolder ? defaultParent : this.app.vault.getRoot();
-            const fileName = generateUniqueFilename(targetFolder.path, strings.fileSystem.defaultNames.untitled, 'md', this.app);
-            const file = await this.app.fileManager.createNewMarkdownFile(targetFolder, fileName);
+            const created = await this.createMarkdownFileForContext(targetFolder, {
+                target: 'tag',
+                tagPath: resolvedTagPath
+            });
+            if (!created) {
+                return null;
+            }
+            const { file, triggerRename } = created;
 
             try {
                 // Mutate frontmatter through Obsidian's API so YAML serialization matches other tag operations.
@@ -884,9 +1097,11 @@ export class FileSystemOperations {
             const leaf = this.app.workspace.getLeaf(openInNewTab);
             await leaf.openFile(file, { state: { mode: 'source' }, active: true });
 
-            window.setTimeout(() => {
-                executeCommand(this.app, OBSIDIAN_COMMANDS.EDIT_FILE_TITLE);
-            }, TIMEOUTS.FILE_OPERATION_DELAY);
+            if (triggerRename) {
+                window.setTimeout(() => {
+                    executeCommand(this.app, OBSIDIAN_COMMANDS.EDIT_FILE_TITLE);
+                }, TIMEOUTS.FILE_OPERATION_DELAY);
+            }
 
             return file;
         } catch (error) {
@@ -897,8 +1112,10 @@ export class FileSystemOperations {
 
     /**
      * Creates a new markdown file in the user's configured default location and applies the selected property.
+     * Property hierarchy nodes apply the value of every level on the path to the node.
      * Uses Obsidian's markdown file creation API so plugin hooks run on creation.
-     * @param propertyNodeId - Canonical property node id (`key:<property>` or `key:<property>=<value>`)
+     * Applies the template and file name pattern of the first matching property template rule.
+     * @param propertyNodeId - Canonical property node id (`key:<property>`, `key:<property>=<value>` or a `hierarchy:` id)
      * @param sourcePath - Current file path used for "same folder as current file" preference
      * @param openInNewTab - Whether the file should open in a new tab
      * @returns The created file or null when creation fails
@@ -908,6 +1125,62 @@ export class FileSystemOperations {
             return null;
         }
 
+        const frontmatterValues = isPropertyHierarchyNodeId(propertyNodeId)
+            ? this.resolvePropertyHierarchyFrontmatterValues(propertyNodeId)
+            : this.resolvePropertyFrontmatterValues(propertyNodeId);
+        if (!frontmatterValues || frontmatterValues.length === 0) {
+            return null;
+        }
+
+        try {
+            const activeFilePath = this.app.workspace.getActiveFile()?.path ?? '';
+            const sourceFilePath = sourcePath?.trim().length ? sourcePath : activeFilePath;
+            const defaultParent = this.app.fileManager.getNewFileParent(sourceFilePath ?? '');
+            const targetFolder = defaultParent instanceof TFolder ? defaultParent : this.app.vault.getRoot();
+            const created = await this.createMarkdownFileForContext(targetFolder, {
+                target: 'property',
+                frontmatterValues
+            });
+            if (!created) {
+                return null;
+            }
+            const { file, triggerRename } = created;
+
+            try {
+                // Mutate frontmatter through Obsidian's API so YAML serialization matches other property operations.
+                await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+                    frontmatterValues.forEach(([propertyKey, propertyValue]) => {
+                        frontmatter[propertyKey] = propertyValue;
+                    });
+                });
+            } catch (error) {
+                console.error('[Notebook Navigator] Failed to update created note properties', error);
+                showNotice(
+                    strings.dragDrop.errors.failedToSetProperty.replace('{error}', getErrorMessage(error, strings.common.unknownError)),
+                    { variant: 'warning' }
+                );
+            }
+
+            const leaf = this.app.workspace.getLeaf(openInNewTab);
+            await leaf.openFile(file, { state: { mode: 'source' }, active: true });
+
+            if (triggerRename) {
+                window.setTimeout(() => {
+                    executeCommand(this.app, OBSIDIAN_COMMANDS.EDIT_FILE_TITLE);
+                }, TIMEOUTS.FILE_OPERATION_DELAY);
+            }
+
+            return file;
+        } catch (error) {
+            this.notifyError(strings.fileSystem.errors.createFile, error);
+            return null;
+        }
+    }
+
+    /**
+     * Resolves the frontmatter key and value applied to notes created for a property key/value node.
+     */
+    private resolvePropertyFrontmatterValues(propertyNodeId: string): [string, unknown][] | null {
         const requestedNode = parsePropertyNodeId(propertyNodeId);
         if (!requestedNode) {
             return null;
@@ -940,39 +1213,35 @@ export class FileSystemOperations {
                   ? valueNode.name.trim()
                   : requestedValuePath || parsed.valuePath;
 
-        try {
-            const activeFilePath = this.app.workspace.getActiveFile()?.path ?? '';
-            const sourceFilePath = sourcePath?.trim().length ? sourcePath : activeFilePath;
-            const defaultParent = this.app.fileManager.getNewFileParent(sourceFilePath ?? '');
-            const targetFolder = defaultParent instanceof TFolder ? defaultParent : this.app.vault.getRoot();
-            const fileName = generateUniqueFilename(targetFolder.path, strings.fileSystem.defaultNames.untitled, 'md', this.app);
-            const file = await this.app.fileManager.createNewMarkdownFile(targetFolder, fileName);
-
-            try {
-                // Mutate frontmatter through Obsidian's API so YAML serialization matches other property operations.
-                await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
-                    frontmatter[propertyKey] = propertyValue;
-                });
-            } catch (error) {
-                console.error('[Notebook Navigator] Failed to update created note properties', error);
-                showNotice(
-                    strings.dragDrop.errors.failedToSetProperty.replace('{error}', getErrorMessage(error, strings.common.unknownError)),
-                    { variant: 'warning' }
-                );
-            }
-
-            const leaf = this.app.workspace.getLeaf(openInNewTab);
-            await leaf.openFile(file, { state: { mode: 'source' }, active: true });
+        return [[propertyKey, propertyValue]];
+    }
 
-            window.setTimeout(() => {
-                executeCommand(this.app, OBSIDIAN_COMMANDS.EDIT_FILE_TITLE);
-            }, TIMEOUTS.FILE_OPERATION_DELAY);
+    /**
+     * Resolves the frontmatter keys and values applied to notes created for a property hierarchy node.
+     * Each level on the path to the node contributes its key and the display value of the node at that level.
+     */
+    private resolvePropertyHierarchyFrontmatterValues(propertyNodeId: string): [string, unknown][] | null {
+        const propertyTreeService = this.getPropertyTreeService();
+        if (!propertyTreeService) {
+            return null;
+        }
 
-            return file;
-        } catch (error) {
-            this.notifyError(strings.fileSystem.errors.createFile, error);
+        const propertyHierarchyTree = propertyTreeService.getPropertyHierarchyTree();
+        if (!findPropertyHierarchyNode(propertyHierarchyTree, propertyNodeId)) {
             return null;
         }
+
+        const lineage = getPropertyHierarchyNodeLineage(propertyHierarchyTree, propertyNodeId);
+        const frontmatterValues: [string, unknown][] = [];
+        lineage.forEach(node => {
+            if (node.kind !== 'value') {
+                return;
+            }
+            const keyNode = propertyTreeService.getKeyNode(node.key);
+            const propertyKey = keyNode?.name?.trim() || this.resolveConfiguredPropertyDisplayKey(node.key) || node.key;
+            frontmatterValues.push([propertyKey, node.name.trim() || node.valuePath]);
+        });
+        return frontmatterValues;
     }
 
     /**
@@ -1026,12 +1295,20 @@ export class FileSystemOperations {
                     // Rename the folder (moves contents including the folder note)
                     await this.app.fileManager.renameFile(folder, newFolderPath);
                     await this.syncHiddenFolderPathChange(previousFolderPath, newFolderPath);
+                    const folderNoteMoves: PathMove[] = [];
 
                     // Rename folder note when naming is tied to the folder name.
                     if (folderNote && renamedFolderNoteFileName !== null) {
+                        const movedNotePath = folderNote.path;
                         const newNotePath = buildPathInFolder(newFolderPath, renamedFolderNoteFileName);
                         await this.app.fileManager.renameFile(folderNote, newNotePath);
+                        folderNoteMoves.push({ from: movedNotePath, to: newNotePath });
                     }
+
+                    this.recordPathMoves(strings.undoHistory.actions.renameFolder.replace('{name}', filteredName), [
+                        [{ from: previousFolderPath, to: newFolderPath }],
+                        folderNoteMoves
+                    ]);
                 } catch (error) {
                     this.notifyError(strings.fileSystem.errors.renameFolder, error);
                 }
@@ -1108,8 +1385,12 @@ export class FileSystemOperations {
 
                 try {
                     const parentPath = file.parent?.path ?? '/';
+                    const previousPath = file.path;
                     const newPath = buildPathInFolder(parentPath, finalFileName);
                     await this.app.fileManager.renameFile(file, newPath);
+                    this.recordPathMoves(strings.undoHistory.actions.renameFile.replace('{name}', finalFileName), [
+                        [{ from: previousPath, to: newPath }]
+                    ]);
                 } catch (error) {
                     this.notifyError(strings.fileSystem.errors.renameFile, error);
                 }
@@ -1255,7 +1536,8 @@ export class FileSystemOperations {
                 selectionType: selectionContext.selectionType,
                 selectedFolder: selectionContext.selectedFolder ?? null,
                 selectedTag: selectionContext.selectedTag ?? null,
-                selectedProperty: selectionContext.selectedProperty ?? null
+                selectedProperty: selectionContext.selectedProperty ?? null,
+                selectedSmartFolder: selectionContext.selectedSmartFolder ?? null
             },
             settings,
             visibility,
@@ -1333,7 +1615,7 @@ export class FileSystemOperations {
      * @returns Result object with moved count, skipped count, and errors
      */
     async moveFilesToFolder(options: MoveFilesOptions): Promise<MoveFilesResult> {
-        const { files, targetFolder, selectionContext, showNotifications = true } = options;
+        const { files, targetFolder, selectionContext, showNotifications = true, offerUndo = false } = options;
         const result: MoveFilesResult = { movedCount: 0, skippedCount: 0, cancelledCount: 0, errors: [] };
 
         if (files.length === 0) return result;
@@ -1344,6 +1626,7 @@ export class FileSystemOperations {
         if (commandQueue) {
             const moveConflictsSetting = this.resolveMoveFileConflictsSetting();
             const targetFolderLabel = this.resolveFolderDisplayLabel(targetFolder);
+            const pathMoves: PathMove[] = [];
 
             const performMove = async (): Promise<MoveFilesCommandData> => {
                 let cancelledCount = 0;
@@ -1478,7 +1761,8 @@ export class FileSystemOperations {
                         await this.app.fileManager.renameFile(plan.file, finalTargetPath);
                         return {
                             status: 'moved',
-                            originalPath: plan.originalPath
+                            originalPath: plan.originalPath,
+                            targetPath: finalTargetPath
                         };
                     } catch (error) {
                         console.error('Error moving file:', plan.originalPath, error);
@@ -1498,6 +1782,7 @@ export class FileSystemOperations {
                         if (outcome.status === 'moved') {
                             movedCount++;
                             movedSourcePaths.push(outcome.originalPath);
+                            pathMoves.push({ from: outcome.originalPath, to: outcome.targetPath });
                             continue;
                         }
 
@@ -1526,6 +1811,20 @@ export class FileSystemOperations {
             result.skippedCount = moveResult.data.skippedCount;
             result.cancelledCount = moveResult.data.cancelledCount;
 
+            const undoLabel =
+                pathMoves.length === 1
+                    ? strings.undoHistory.actions.moveFile.replace('{name}', getPathBaseName(pathMoves[0].from))
+                    : strings.undoHistory.actions.moveFiles.replace('{count}', pathMoves.length.toString());
+            const undoOperation = this.recordPathMoves(undoLabel, [pathMoves]);
+            if (offerUndo && undoOperation && pathMoves.length > 1) {
+                this.getUndoHistory()?.showUndoNotice(
+                    strings.dragDrop.notifications.filesMoved
+                        .replace('{count}', pathMoves.length.toString())
+                        .replace('{folder}', targetFolderLabel),
+                    undoOperation
+                );
+            }
+
             // Handle selection updates if needed
             if (selectionContext && selectedFileOriginalPath) {
                 const movedPathSet = new Set(moveResult.data.movedSourcePaths);
@@ -1742,6 +2041,7 @@ export class FileSystemOperations {
         }
 
         await this.syncHiddenFolderPathChange(oldPath, newPath);
+        this.recordPathMoves(strings.undoHistory.actions.moveFolder.replace('{name}', folder.name), [[{ from: oldPath, to: newPath }]]);
 
         return { oldPath, newPath, targetFolder };
     }
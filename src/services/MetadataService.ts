@@ -17,7 +17,7 @@
  */
 
 import { App, TFolder } from 'obsidian';
-import { SortOption, type AlphaSortOrder, type NotebookNavigatorSettings } from '../settings';
+import { SortOption, type AlphaSortOrder, type NotebookNavigatorSettings, type SortChainKey } from '../settings';
 import { ISettingsProvider } from '../interfaces/ISettingsProvider';
 import { ITagTreeProvider } from '../interfaces/ITagTreeProvider';
 import type { IPropertyTreeProvider } from '../interfaces/IPropertyTreeProvider';
@@ -30,6 +30,7 @@ import {
     type FolderDisplayData,
     type TagColorData,
     type PropertyColorData,
+    type PropertyValueAppearanceSnapshot,
     type FileMetadataMigrationResult
 } from './metadata';
 import { TagTreeNode } from '../types/storage';
@@ -37,6 +38,9 @@ import type { FileData } from '../storage/IndexedDBStorage';
 import { getDBInstance } from '../storage/fileOperations';
 import { NavigatorContext } from '../types';
 import type { NavigationSeparatorTarget } from '../utils/navigationSeparators';
+import { normalizePropertyNodeId } from '../utils/propertyTree';
+import { strings } from '../i18n';
+import type { UndoHistoryService } from './UndoHistoryService';
 
 /**
  * Validators object containing all data needed for cleanup operations
@@ -58,6 +62,19 @@ export interface MetadataCleanupSummary {
     total: number;
 }
 
+/**
+ * Colors, icons and separators of property value nodes captured before a value rename or merge
+ */
+export interface PropertyValueMetadataSnapshot {
+    nodeIds: string[];
+    appearance: PropertyValueAppearanceSnapshot;
+    separators: Record<string, boolean>;
+}
+
+type AppearanceTarget = 'folder' | 'tag' | 'property' | 'file';
+type AppearanceField = 'icon' | 'color' | 'backgroundColor';
+type AppearanceValues = Partial<Record<AppearanceField, string | undefined>>;
+
 /**
  * Service for managing all folder, tag, and file metadata operations
  * Delegates to specialized sub-services for better organization
@@ -70,6 +87,7 @@ export class MetadataService {
     private propertyService: PropertyMetadataService;
     private navigationSeparatorService: NavigationSeparatorService;
     private settingsProvider: ISettingsProvider;
+    private getUndoHistory: () => UndoHistoryService | null;
 
     /**
      * Creates a new MetadataService instance
@@ -77,14 +95,17 @@ export class MetadataService {
      * @param settingsProvider - Provider for accessing and saving settings
      * @param getTagTreeProvider - Function to get the tag tree provider
      * @param getPropertyTreeProvider - Function to get the property tree provider
+     * @param getUndoHistory - Function to get the undo history for icon and color changes
      */
     constructor(
         app: App,
         settingsProvider: ISettingsProvider,
         getTagTreeProvider: () => ITagTreeProvider | null,
-        getPropertyTreeProvider?: () => IPropertyTreeProvider | null
+        getPropertyTreeProvider?: () => IPropertyTreeProvider | null,
+        getUndoHistory: () => UndoHistoryService | null = () => null
     ) {
         this.settingsProvider = settingsProvider;
+        this.getUndoHistory = getUndoHistory;
         // Initialize sub-services
         this.folderService = new FolderMetadataService(app, settingsProvider);
         this.tagService = new TagMetadataService(app, settingsProvider, getTagTreeProvider);
@@ -121,11 +142,13 @@ export class MetadataService {
     // ========== Folder Methods (delegated to FolderMetadataService) ==========
 
     async setFolderColor(folderPath: string, color: string): Promise<void> {
-        return this.folderService.setFolderColor(folderPath, color);
+        return this.changeAppearance('folder', folderPath, { color }, () => this.folderService.setFolderColor(folderPath, color));
     }
 
     async setFolderBackgroundColor(folderPath: string, color: string): Promise<void> {
-        return this.folderService.setFolderBackgroundColor(folderPath, color);
+        return this.changeAppearance('folder', folderPath, { backgroundColor: color }, () =>
+            this.folderService.setFolderBackgroundColor(folderPath, color)
+        );
     }
 
     async setFolderStyle(
@@ -136,15 +159,23 @@ export class MetadataService {
             backgroundColor?: string | null;
         }
     ): Promise<void> {
-        return this.folderService.setFolderStyle(folderPath, style);
+        const values: AppearanceValues = {};
+        (['icon', 'color', 'backgroundColor'] as const).forEach(field => {
+            if (style[field] !== undefined) {
+                values[field] = style[field] ?? undefined;
+            }
+        });
+        return this.changeAppearance('folder', folderPath, values, () => this.folderService.setFolderStyle(folderPath, style));
     }
 
     async removeFolderColor(folderPath: string): Promise<void> {
-        return this.folderService.removeFolderColor(folderPath);
+        return this.changeAppearance('folder', folderPath, { color: undefined }, () => this.folderService.removeFolderColor(folderPath));
     }
 
     async removeFolderBackgroundColor(folderPath: string): Promise<void> {
-        return this.folderService.removeFolderBackgroundColor(folderPath);
+        return this.changeAppearance('folder', folderPath, { backgroundColor: undefined }, () =>
+            this.folderService.removeFolderBackgroundColor(folderPath)
+        );
     }
 
     getFolderColor(folderPath: string): string | undefined {
@@ -156,11 +187,11 @@ export class MetadataService {
     }
 
     async setFolderIcon(folderPath: string, iconId: string): Promise<void> {
-        return this.folderService.setFolderIcon(folderPath, iconId);
+        return this.changeAppearance('folder', folderPath, { icon: iconId }, () => this.folderService.setFolderIcon(folderPath, iconId));
     }
 
     async removeFolderIcon(folderPath: string): Promise<void> {
-        return this.folderService.removeFolderIcon(folderPath);
+        return this.changeAppearance('folder', folderPath, { icon: undefined }, () => this.folderService.removeFolderIcon(folderPath));
     }
 
     getFolderIcon(folderPath: string): string | undefined {
@@ -200,6 +231,14 @@ export class MetadataService {
         return this.folderService.getFolderSortOverride(folderPath);
     }
 
+    async setFolderSortChain(folderPath: string, chain: SortChainKey[]): Promise<void> {
+        return this.folderService.setFolderSortChain(folderPath, chain);
+    }
+
+    getFolderSortChain(folderPath: string): SortChainKey[] | undefined {
+        return this.folderService.getFolderSortChain(folderPath);
+    }
+
     async setFolderChildSortOrderOverride(folderPath: string, sortOrder: AlphaSortOrder): Promise<void> {
         return this.folderService.setFolderChildSortOrderOverride(folderPath, sortOrder);
     }
@@ -212,6 +251,30 @@ export class MetadataService {
         return this.folderService.getFolderChildSortOrderOverride(folderPath);
     }
 
+    async setFolderNewNotePattern(folderPath: string, pattern: string): Promise<void> {
+        return this.folderService.setFolderNewNotePattern(folderPath, pattern);
+    }
+
+    async removeFolderNewNotePattern(folderPath: string): Promise<void> {
+        return this.folderService.removeFolderNewNotePattern(folderPath);
+    }
+
+    getFolderNewNotePattern(folderPath: string): string | undefined {
+        return this.folderService.getFolderNewNotePattern(folderPath);
+    }
+
+    async startFolderMetadataFileSync(): Promise<void> {
+        await this.folderService.startFolderMetadataFileSync();
+    }
+
+    async importFolderMetadataFiles(): Promise<number> {
+        return this.folderService.importFolderMetadataFiles();
+    }
+
+    async exportFolderMetadataFiles(): Promise<number> {
+        return this.folderService.exportFolderMetadataFiles();
+    }
+
     async handleFolderRename(oldPath: string, newPath: string): Promise<void> {
         await this.folderService.handleFolderRename(oldPath, newPath, settings =>
             this.navigationSeparatorService.applyFolderRename(settings, oldPath, newPath)
@@ -227,19 +290,23 @@ export class MetadataService {
     // ========== Tag Methods (delegated to TagMetadataService) ==========
 
     async setTagColor(tagPath: string, color: string): Promise<void> {
-        return this.tagService.setTagColor(tagPath, color);
+        return this.changeAppearance('tag', tagPath, { color }, () => this.tagService.setTagColor(tagPath, color));
     }
 
     async setTagBackgroundColor(tagPath: string, color: string): Promise<void> {
-        return this.tagService.setTagBackgroundColor(tagPath, color);
+        return this.changeAppearance('tag', tagPath, { backgroundColor: color }, () =>
+            this.tagService.setTagBackgroundColor(tagPath, color)
+        );
     }
 
     async removeTagColor(tagPath: string): Promise<void> {
-        return this.tagService.removeTagColor(tagPath);
+        return this.changeAppearance('tag', tagPath, { color: undefined }, () => this.tagService.removeTagColor(tagPath));
     }
 
     async removeTagBackgroundColor(tagPath: string): Promise<void> {
-        return this.tagService.removeTagBackgroundColor(tagPath);
+        return this.changeAppearance('tag', tagPath, { backgroundColor: undefined }, () =>
+            this.tagService.removeTagBackgroundColor(tagPath)
+        );
     }
 
     getTagColor(tagPath: string): string | undefined {
@@ -256,11 +323,11 @@ export class MetadataService {
     }
 
     async setTagIcon(tagPath: string, iconId: string): Promise<void> {
-        return this.tagService.setTagIcon(tagPath, iconId);
+        return this.changeAppearance('tag', tagPath, { icon: iconId }, () => this.tagService.setTagIcon(tagPath, iconId));
     }
 
     async removeTagIcon(tagPath: string): Promise<void> {
-        return this.tagService.removeTagIcon(tagPath);
+        return this.changeAppearance('tag', tagPath, { icon: undefined }, () => this.tagService.removeTagIcon(tagPath));
     }
 
     getTagIcon(tagPath: string): string | undefined {
@@ -310,19 +377,23 @@ export class MetadataService {
     // ========== Property Methods (delegated to PropertyMetadataService) ==========
 
     async setPropertyColor(nodeId: string, color: string): Promise<void> {
-        return this.propertyService.setPropertyColor(nodeId, color);
+        return this.changeAppearance('property', nodeId, { color }, () => this.propertyService.setPropertyColor(nodeId, color));
     }
 
     async setPropertyBackgroundColor(nodeId: string, color: string): Promise<void> {
-        return this.propertyService.setPropertyBackgroundColor(nodeId, color);
+        return this.changeAppearance('property', nodeId, { backgroundColor: color }, () =>
+            this.propertyService.setPropertyBackgroundColor(nodeId, color)
+        );
     }
 
     async removePropertyColor(nodeId: string): Promise<void> {
-        return this.propertyService.removePropertyColor(nodeId);
+        return this.changeAppearance('property', nodeId, { color: undefined }, () => this.propertyService.removePropertyColor(nodeId));
     }
 
     async removePropertyBackgroundColor(nodeId: string): Promise<void> {
-        return this.propertyService.removePropertyBackgroundColor(nodeId);
+        return this.changeAppearance('property', nodeId, { backgroundColor: undefined }, () =>
+            this.propertyService.removePropertyBackgroundColor(nodeId)
+        );
     }
 
     getPropertyColor(nodeId: string): string | undefined {
@@ -338,11 +409,11 @@ export class MetadataService {
     }
 
     async setPropertyIcon(nodeId: string, iconId: string): Promise<void> {
-        return this.propertyService.setPropertyIcon(nodeId, iconId);
+        return this.changeAppearance('property', nodeId, { icon: iconId }, () => this.propertyService.setPropertyIcon(nodeId, iconId));
     }
 
     async removePropertyIcon(nodeId: string): Promise<void> {
-        return this.propertyService.removePropertyIcon(nodeId);
+        return this.changeAppearance('property', nodeId, { icon: undefined }, () => this.propertyService.removePropertyIcon(nodeId));
     }
 
     getPropertyIcon(nodeId: string): string | undefined {
@@ -361,6 +432,36 @@ export class MetadataService {
         return this.propertyService.getPropertyChildSortOrderOverride(nodeId);
     }
 
+    /**
+     * Moves property value colors, icons and separators when a value is renamed
+     */
+    async handlePropertyValueRename(oldNodeId: string, newNodeId: string, preserveExisting = false): Promise<void> {
+        await this.propertyService.handlePropertyValueRename(oldNodeId, newNodeId, preserveExisting, settings =>
+            this.navigationSeparatorService.applyPropertyRename(settings, oldNodeId, newNodeId, preserveExisting)
+        );
+    }
+
+    /**
+     * Captures colors, icons and separators of property value nodes and the values nested below them
+     */
+    capturePropertyValueMetadata(nodeIds: readonly string[]): PropertyValueMetadataSnapshot {
+        const normalizedIds = nodeIds.flatMap(nodeId => normalizePropertyNodeId(nodeId) ?? []);
+        return {
+            nodeIds: normalizedIds,
+            appearance: this.propertyService.capturePropertyValueAppearance(normalizedIds),
+            separators: this.navigationSeparatorService.capturePropertySeparators(normalizedIds)
+        };
+    }
+
+    /**
+     * Restores captured property value metadata, e.g. when a value rename or merge is undone
+     */
+    async restorePropertyValueMetadata(snapshot: PropertyValueMetadataSnapshot): Promise<void> {
+        await this.propertyService.restorePropertyValueAppearance(snapshot.nodeIds, snapshot.appearance, settings =>
+            this.navigationSeparatorService.applyPropertySeparatorRestore(settings, snapshot.nodeIds, snapshot.separators)
+        );
+    }
+
     // ========== Navigation Separator Methods ==========
 
     getNavigationSeparators(): Record<string, boolean> {
@@ -406,11 +507,11 @@ export class MetadataService {
     }
 
     async setFileIcon(filePath: string, iconId: string): Promise<void> {
-        return this.fileService.setFileIcon(filePath, iconId);
+        return this.changeAppearance('file', filePath, { icon: iconId }, () => this.fileService.setFileIcon(filePath, iconId));
     }
 
     async removeFileIcon(filePath: string): Promise<void> {
-        return this.fileService.removeFileIcon(filePath);
+        return this.changeAppearance('file', filePath, { icon: undefined }, () => this.fileService.removeFileIcon(filePath));
     }
 
     /**
@@ -434,11 +535,11 @@ export class MetadataService {
     }
 
     async setFileColor(filePath: string, color: string): Promise<void> {
-        return this.fileService.setFileColor(filePath, color);
+        return this.changeAppearance('file', filePath, { color }, () => this.fileService.setFileColor(filePath, color));
     }
 
     async removeFileColor(filePath: string): Promise<void> {
-        return this.fileService.removeFileColor(filePath);
+        return this.changeAppearance('file', filePath, { color: undefined }, () => this.fileService.removeFileColor(filePath));
     }
 
     /**
@@ -551,7 +652,9 @@ export class MetadataService {
             settings.folderBackgroundColors,
             settings.folderIcons,
             settings.folderSortOverrides,
-            settings.folderAppearances
+            settings.folderSortChains,
+            settings.folderAppearances,
+            settings.folderNewNotePatterns
         ]);
 
         const tagKeys = MetadataService.collectUniqueKeys([
@@ -628,4 +731,101 @@ export class MetadataService {
             vaultFolders
         };
     }
+
+    // ========== Undo Support ==========
+
+    /**
+     * Runs an icon or color change and records it in the undo history
+     * @param values - Values the change applies; undefined clears a field
+     */
+    private async changeAppearance(
+        target: AppearanceTarget,
+        path: string,
+        values: AppearanceValues,
+        change: () => Promise<void>
+    ): Promise<void> {
+        const fields = Object.keys(values) as AppearanceField[];
+        const previous: AppearanceValues = {};
+        fields.forEach(field => {
+            previous[field] = this.readAppearance(target, path, field);
+        });
+
+        await change();
+
+        const undoHistory = this.getUndoHistory();
+        if (!undoHistory || fields.every(field => previous[field] === values[field])) {
+            return;
+        }
+
+        undoHistory.record({
+            label: strings.undoHistory.actions.changeAppearance.replace('{name}', path),
+            undo: () => this.writeAppearance(target, path, previous),
+            redo: () => this.writeAppearance(target, path, values)
+        });
+    }
+
+    private readAppearance(target: AppearanceTarget, path: string, field: AppearanceField): string | undefined {
+        switch (target) {
+            case 'folder':
+                return field === 'icon'
+                    ? this.getFolderIcon(path)
+                    : field === 'color'
+                      ? this.getFolderColor(path)
+                      : this.getFolderBackgroundColor(path);
+            case 'tag':
+                return field === 'icon'
+                    ? this.getTagIcon(path)
+                    : field === 'color'
+                      ? this.getTagColor(path)
+                      : this.getTagBackgroundColor(path);
+            case 'property':
+                return field === 'icon'
+                    ? this.getPropertyIcon(path)
+                    : field === 'color'
+                      ? this.getPropertyColor(path)
+                      : this.getPropertyBackgroundColor(path);
+            case 'file':
+                return field === 'icon' ? this.getFileIcon(path) : field === 'color' ? this.getFileColor(path) : undefined;
+        }
+    }
+
+    // Writes values through the sub-services so replayed changes are not recorded again
+    private async writeAppearance(target: AppearanceTarget, path: string, values: AppearanceValues): Promise<void> {
+        for (const field of Object.keys(values) as AppearanceField[]) {
+            const value = values[field];
+            if (target === 'folder') {
+                if (field === 'icon') {
+                    await (value ? this.folderService.setFolderIcon(path, value) : this.folderService.removeFolderIcon(path));
+                } else if (field === 'color') {
+                    await (value ? this.folderService.setFolderColor(path, value) : this.folderService.removeFolderColor(path));
+                } else {
+                    await (value
+                        ? this.folderService.setFolderBackgroundColor(path, value)
+                        : this.folderService.removeFolderBackgroundColor(path));
+                }
+            } else if (target === 'tag') {
+                if (field === 'icon') {
+                    await (value ? this.tagService.setTagIcon(path, value) : this.tagService.removeTagIcon(path));
+                } else if (field === 'color') {
+                    await (value ? this.tagService.setTagColor(path, value) : this.tagService.removeTagColor(path));
+                } else {
+                    await (value ? this.tagService.setTagBackgroundColor(path, value) : this.tagService.removeTagBackgroundColor(path));
+                }
+            } else if (target === 'property') {
+                if (field === 'icon') {
+                    await (value ? this.propertyService.setPropertyIcon(path, value) : this.propertyService.removePropertyIcon(path));
+                } else if (field === 'color') {
+                    await (value ? this.propertyService.setPropertyColor(path, value) : this.propertyService.removePropertyColor(path));
+                } else {
+                    await (value
+                        ? this.propertyService.setPropertyBackgroundColor(path, value)
+                        : this.propertyService.removePropertyBackgroundColor(path));
+                }
+            } else if (field === 'icon') {
+                await (value ? this.fileService.setFileIcon(path, value) : this.fileService.removeFileIcon(path));
+            } else if (field === 'color') {
+                await (value ? this.fileService.setFileColor(path, value) : this.fileService.removeFileColor(path));
+            }
+        }
+    }
 }
@@ -22,28 +22,51 @@ import type { IPropertyTreeProvider } from '../interfaces/IPropertyTreeProvider'
 import { strings } from '../i18n';
 import { ConfirmModal } from '../modals/ConfirmModal';
 import { PropertyKeyRenameModal } from '../modals/PropertyKeyRenameModal';
+import { PropertyNodeSuggestModal } from '../modals/PropertyNodeSuggestModal';
+import { PropertyValueEditModal } from '../modals/PropertyValueEditModal';
+import { PropertyValueRenameModal } from '../modals/PropertyValueRenameModal';
 import { LIMITS } from '../constants/limits';
 import { casefold } from '../utils/recordUtils';
 import { showNotice } from '../utils/noticeUtils';
 import { runAsyncAction } from '../utils/async';
-import { removePropertyField, renamePropertyField } from '../utils/propertyUtils';
+import { collectVaultPropertyKeys, normalizePropertyTreeValuePath, removePropertyField, renamePropertyField } from '../utils/propertyUtils';
+import { buildPropertyValueNodeId, normalizePropertyNodeId } from '../utils/propertyTree';
+import { resolveBoardColumnMove, type BoardColumnValue } from '../utils/listBoard';
+import { naturalCompare } from '../utils/sortUtils';
 import { isRecord } from '../utils/typeGuards';
 import { buildUsageSummaryFromPaths, renderAffectedFilesPreview, yieldToEventLoop } from './operations/OperationBatchUtils';
 import { PropertyFileMutations } from './propertyOperations/PropertyFileMutations';
-import type { PropertyKeyDeleteEventPayload, PropertyKeyRenameEventPayload } from './propertyOperations/types';
+import { PropertyShortcutMutations, type PropertyShortcutSnapshot } from './propertyOperations/PropertyShortcutMutations';
+import { containsPropertyValuePath, findFrontmatterKey, resolvePropertyValueChange } from './propertyOperations/propertyValueEdits';
+import type {
+    PropertyKeyDeleteEventPayload,
+    PropertyKeyRenameEventPayload,
+    PropertyValueChange,
+    PropertyValueEdit,
+    PropertyValueEditPreview,
+    PropertyValueEditPreviewEntry,
+    PropertyValueRename
+} from './propertyOperations/types';
 import { getActivePropertyFields, setActivePropertyFields } from '../utils/vaultProfiles';
+import { throwIfReplayIncomplete, type UndoHistoryService } from './UndoHistoryService';
+import type { MetadataService, PropertyValueMetadataSnapshot } from './MetadataService';
+import type { PropertyTreeNode } from '../types/storage';
 
 export type { PropertyKeyRenameEventPayload, PropertyKeyDeleteEventPayload } from './propertyOperations/types';
 
 const MUTATION_BATCH_SIZE = LIMITS.operations.metadataMutationYieldBatchSize;
+const VALUE_EDIT_PREVIEW_SAMPLE_LIMIT = 8;
 type RenameConflictSnapshot = Map<string, Set<string>>;
+type PropertyValueNodes = { keyNode: PropertyTreeNode; valueNode: PropertyTreeNode & { valuePath: string } };
+type PropertyValueRenameSnapshot = { nodeIds: string[]; metadata: PropertyValueMetadataSnapshot; shortcuts: PropertyShortcutSnapshot };
 
 /**
- * Facade for property key rename/delete operations across the vault.
+ * Facade for property key rename/delete and value rename/merge operations across the vault, and batch value edits on selected notes.
  *
  * Contract:
  * - Mutates YAML frontmatter in markdown files via `processFrontMatter`.
  * - Updates active-profile property keys and `propertySortKey` when at least one note changed and no file mutation failed.
+ * - Moves value colors, icons, separators and shortcuts to the renamed value under the same condition.
  * - Emits rename/delete events only when settings updates are attempted.
  * - Relies on existing Obsidian modify/metadata listeners for reindexing.
  */
@@ -52,14 +75,18 @@ export class PropertyOperations {
     private readonly propertyKeyDeleteListeners = new Set<(payload: PropertyKeyDeleteEventPayload) => void>();
 
     private readonly fileMutations: PropertyFileMutations;
+    private readonly shortcutMutations: PropertyShortcutMutations;
 
     constructor(
         private readonly app: App,
         private readonly getSettings: () => NotebookNavigatorSettings,
         private readonly saveSettingsAndUpdate: () => Promise<void>,
-        private readonly getPropertyTreeService: () => IPropertyTreeProvider | null
+        private readonly getPropertyTreeService: () => IPropertyTreeProvider | null,
+        private readonly getUndoHistory: () => UndoHistoryService | null = () => null,
+        private readonly getMetadataService: () => MetadataService | null = () => null
     ) {
         this.fileMutations = new PropertyFileMutations(this.app);
+        this.shortcutMutations = new PropertyShortcutMutations(this.getMetadataService);
     }
 
     addPropertyKeyRenameListener(listener: (payload: PropertyKeyRenameEventPayload) => void): () => void {
@@ -170,56 +197,547 @@ export class PropertyOperations {
         modal.open();
     }
 
-    protected async runPropertyKeyRename(params: {
-        oldKeyNormalized: string;
-        oldKeyDisplay: string;
-        newKeyDisplay: string;
+    /**
+     * Opens the rename modal for a property value node.
+     * Entering a value that already exists for the same property merges the two values.
+     */
+    promptRenamePropertyValue(nodeId: string): void {
+        const nodes = this.resolvePropertyValueNodes(nodeId);
+        if (!nodes) {
+            showNotice(strings.fileSystem.notifications.propertyOperationsNotAvailable, { variant: 'warning' });
+            return;
+        }
+
+        const { keyNode, valueNode } = nodes;
+        const affectedPaths = this.collectPropertyValuePathsFromVault(keyNode.key, valueNode.valuePath);
+        const usage = buildUsageSummaryFromPaths(this.app, affectedPaths);
+        const siblings = this.getSiblingValueNodes(nodes);
+
+        const modal = new PropertyValueRenameModal(this.app, {
+            propertyKey: keyNode.name,
+            value: valueNode.name,
+            affectedCount: usage.total,
+            sampleFiles: usage.sample,
+            valueSuggestions: siblings.map(sibling => sibling.name),
+            onSubmit: async newValue => {
+                const trimmed = newValue.trim();
+                if (!trimmed || trimmed.includes('\n') || trimmed.includes('\r')) {
+                    showNotice(strings.modals.propertyValueRename.invalidValue, { variant: 'warning' });
+                    return false;
+                }
+
+                const newValuePath = normalizePropertyTreeValuePath(trimmed);
+                const target = siblings.find(sibling => sibling.valuePath === newValuePath);
+                if (target && !(await this.confirmPropertyValueMerge(valueNode.name, target.name, affectedPaths))) {
+                    return false;
+                }
+
+                return await this.runPropertyValueRename({
+                    keyNode,
+                    valueNode,
+                    newValue: trimmed,
+                    affectedPaths,
+                    merge: Boolean(target)
+                });
+            }
+        });
+        modal.open();
+    }
+
+    /**
+     * Lets the user pick another value of the same property and merges the value node into it.
+     */
+    promptMergePropertyValue(nodeId: string): void {
+        const nodes = this.resolvePropertyValueNodes(nodeId);
+        if (!nodes) {
+            showNotice(strings.fileSystem.notifications.propertyOperationsNotAvailable, { variant: 'warning' });
+            return;
+        }
+
+        const { keyNode, valueNode } = nodes;
+        const siblings = this.getSiblingValueNodes(nodes);
+        if (siblings.length === 0) {
+            showNotice(strings.modals.propertyValueRename.noOtherValues.replace('{property}', keyNode.name), { variant: 'warning' });
+            return;
+        }
+
+        const suggestions = siblings.map(sibling => ({
+            nodeId: sibling.id,
+            label: sibling.displayPath,
+            searchText: sibling.displayPath,
+            noteCount: sibling.notesWithValue.size
+        }));
+
+        const modal = new PropertyNodeSuggestModal(
+            this.app,
+            suggestions,
+            async targetNodeId => {
+                const target = siblings.find(sibling => sibling.id === targetNodeId);
+                if (!target) {
+                    return;
+                }
+
+                const affectedPaths = this.collectPropertyValuePathsFromVault(keyNode.key, valueNode.valuePath);
+                if (!(await this.confirmPropertyValueMerge(valueNode.name, target.name, affectedPaths))) {
+                    return;
+                }
+
+                await this.runPropertyValueRename({
+                    keyNode,
+                    valueNode,
+                    newValue: this.resolveRawPropertyValue(keyNode, target),
+                    affectedPaths,
+                    merge: true
+                });
+            },
+            strings.modals.propertyValueRename.mergePlaceholder.replace('{value}', valueNode.name),
+            strings.modals.propertyValueRename.mergeInstruction
+        );
+        modal.open();
+    }
+
+    protected async runPropertyValueRename(params: {
+        keyNode: PropertyTreeNode;
+        valueNode: PropertyTreeNode & { valuePath: string };
+        newValue: string;
         affectedPaths: Set<string>;
+        merge: boolean;
     }): Promise<boolean> {
-        const oldKeyNormalized = casefold(params.oldKeyNormalized);
-        const oldKeyDisplay = params.oldKeyDisplay.trim();
-        const newKeyDisplay = params.newKeyDisplay.trim();
-        const newKeyNormalized = casefold(newKeyDisplay);
+        const { keyNode, valueNode, affectedPaths, merge } = params;
+        const oldValueDisplay = valueNode.name;
+        const newValue = params.newValue.trim();
+        const newValuePath = normalizePropertyTreeValuePath(newValue);
 
-        if (!oldKeyNormalized || !newKeyNormalized || !newKeyDisplay) {
-            showNotice(strings.modals.propertyOperation.invalidKeyName, { variant: 'warning' });
+        if (!newValuePath) {
+            showNotice(strings.modals.propertyValueRename.invalidValue, { variant: 'warning' });
             return false;
         }
 
-        if (oldKeyDisplay === newKeyDisplay) {
+        if (newValuePath.startsWith(`${valueNode.valuePath}/`)) {
+            showNotice(strings.modals.propertyValueRename.nestedTarget, { variant: 'warning' });
+            return false;
+        }
+
+        if (newValue === oldValueDisplay) {
             showNotice(
-                strings.modals.propertyOperation.renameNoChanges.replace('{oldKey}', oldKeyDisplay).replace('{newKey}', newKeyDisplay),
+                strings.modals.propertyValueRename.noChanges.replace('{oldValue}', oldValueDisplay).replace('{newValue}', newValue),
                 { variant: 'warning' }
             );
             return false;
         }
 
-        let renamed = 0;
+        const rename: PropertyValueRename = { key: keyNode.name, oldValuePath: valueNode.valuePath, newValue };
+        const { changes, failed } = await this.renamePropertyValueInPaths(affectedPaths, rename);
+        const oldNodeId = valueNode.id;
+        const newNodeId = buildPropertyValueNodeId(keyNode.key, newValuePath);
+
+        const metadataSnapshot = this.capturePropertyValueRenameMetadata([oldNodeId, newNodeId]);
+        if (failed === 0 && changes.size > 0) {
+            await this.migratePropertyValueMetadata(oldNodeId, newNodeId, merge);
+        }
+        this.recordPropertyValueRename({ keyNode, oldValueDisplay, rename, changes, oldNodeId, newNodeId, merge, metadataSnapshot });
+
+        const changed = changes.size;
+        if (failed > 0) {
+            showNotice(
+                strings.modals.propertyValueRename.partialFailure
+                    .replace('{oldValue}', oldValueDisplay)
+                    .replace('{newValue}', newValue)
+                    .replace('{count}', changed.toString())
+                    .replace('{failed}', failed.toString()),
+                { variant: 'warning' }
+            );
+        } else if (changed === 0) {
+            showNotice(
+                strings.modals.propertyValueRename.noChanges.replace('{oldValue}', oldValueDisplay).replace('{newValue}', newValue),
+                { variant: 'warning' }
+            );
+        } else {
+            const template =
+                changed === 1 ? strings.modals.propertyValueRename.successSingle : strings.modals.propertyValueRename.successMultiple;
+            showNotice(
+                template.replace('{oldValue}', oldValueDisplay).replace('{newValue}', newValue).replace('{count}', changed.toString()),
+                { variant: 'success' }
+            );
+        }
+
+        return true;
+    }
+
+    /**
+     * Renames a property value in the markdown files at the given paths and collects the applied changes by path
+     */
+    private async renamePropertyValueInPaths(
+        paths: Iterable<string>,
+        rename: PropertyValueRename
+    ): Promise<{ changes: Map<string, PropertyValueChange>; failed: number }> {
+        const changes = new Map<string, PropertyValueChange>();
         let failed = 0;
-        let processedMarkdown = 0;
         let processed = 0;
 
-        for (const path of params.affectedPaths) {
-            const abstract = this.app.vault.getAbstractFileByPath(path);
-            if (!(abstract instanceof TFile)) {
-                processed += 1;
-                continue;
+        for (const path of paths) {
+            const file = this.app.vault.getFileByPath(path);
+            if (file) {
+                try {
+                    const change = await this.fileMutations.renamePropertyValueInFile(file, rename);
+                    if (change) {
+                        changes.set(path, change);
+                    }
+                } catch (error: unknown) {
+                    failed += 1;
+                    console.error(`[Notebook Navigator] Failed to rename property value ${rename.oldValuePath} in ${path}`, error);
+                }
             }
 
-            try {
-                if (!this.fileMutations.isMarkdownFile(abstract)) {
-                    processed += 1;
-                    continue;
+            processed += 1;
+            if (processed % MUTATION_BATCH_SIZE === 0) {
+                await yieldToEventLoop();
+            }
+        }
+
+        return { changes, failed };
+    }
+
+    /**
+     * Moves colors, icons, separators and shortcuts from the old value node to the new one.
+     * When merging, the destination keeps its own metadata.
+     */
+    private async migratePropertyValueMetadata(oldNodeId: string, newNodeId: string, preserveDestination: boolean): Promise<void> {
+        const metadataService = this.getMetadataService();
+        if (!metadataService) {
+            return;
+        }
+
+        try {
+            await metadataService.handlePropertyValueRename(oldNodeId, newNodeId, preserveDestination);
+            await this.shortcutMutations.updatePropertyShortcutsAfterRename(oldNodeId, newNodeId);
+        } catch (error: unknown) {
+            console.error('[Notebook Navigator] Failed to update property value metadata after rename', error);
+        }
+    }
+
+    /**
+     * Captures colors, icons, separators and shortcuts of the source and target values before they are moved
+     */
+    private capturePropertyValueRenameMetadata(nodeIds: string[]): PropertyValueRenameSnapshot | null {
+        const metadataService = this.getMetadataService();
+        if (!metadataService) {
+            return null;
+        }
+
+        return {
+            nodeIds,
+            metadata: metadataService.capturePropertyValueMetadata(nodeIds),
+            shortcuts: this.shortcutMutations.capturePropertyShortcuts(nodeIds)
+        };
+    }
+
+    private async restorePropertyValueRenameMetadata(snapshot: PropertyValueRenameSnapshot | null): Promise<void> {
+        const metadataService = this.getMetadataService();
+        if (!metadataService || !snapshot) {
+            return;
+        }
+
+        try {
+            await metadataService.restorePropertyValueMetadata(snapshot.metadata);
+            await this.shortcutMutations.restorePropertyShortcuts(snapshot.nodeIds, snapshot.shortcuts);
+        } catch (error: unknown) {
+            console.error('[Notebook Navigator] Failed to restore property value metadata', error);
+        }
+    }
+
+    /**
+     * Records a property value rename in the undo history
+     * Undo writes back the previous value of each changed note and restores the metadata of both values as captured before the rename.
+     */
+    private recordPropertyValueRename(params: {
+        keyNode: PropertyTreeNode;
+        oldValueDisplay: string;
+        rename: PropertyValueRename;
+        changes: Map<string, PropertyValueChange>;
+        oldNodeId: string;
+        newNodeId: string;
+        merge: boolean;
+        metadataSnapshot: PropertyValueRenameSnapshot | null;
+    }): void {
+        const { keyNode, oldValueDisplay, rename, changes, oldNodeId, newNodeId, merge, metadataSnapshot } = params;
+        const undoHistory = this.getUndoHistory();
+        if (!undoHistory || changes.size === 0) {
+            return;
+        }
+
+        undoHistory.record({
+            label: strings.undoHistory.actions.renamePropertyValue
+                .replace('{property}', keyNode.name)
+                .replace('{oldValue}', oldValueDisplay)
+                .replace('{newValue}', rename.newValue),
+            undo: async () => {
+                for (const [path, change] of changes) {
+                    const file = this.app.vault.getFileByPath(path);
+                    if (file) {
+                        await this.fileMutations.restorePropertyValueInFile(file, change.key, change.before);
+                    }
                 }
-                processedMarkdown += 1;
+                await this.restorePropertyValueRenameMetadata(metadataSnapshot);
+            },
+            redo: async () => {
+                const { changes: renamed, failed } = await this.renamePropertyValueInPaths(changes.keys(), rename);
+                // Metadata only moves once every note uses the new value
+                throwIfReplayIncomplete(failed);
+                if (renamed.size > 0) {
+                    await this.migratePropertyValueMetadata(oldNodeId, newNodeId, merge);
+                }
+            }
+        });
+    }
 
-                const didChange = await this.fileMutations.renamePropertyKeyInFile(abstract, { oldKey: oldKeyDisplay, newKeyDisplay });
-                if (didChange) {
-                    renamed += 1;
+    private async confirmPropertyValueMerge(
+        oldValueDisplay: string,
+        newValueDisplay: string,
+        affectedPaths: Set<string>
+    ): Promise<boolean> {
+        const usage = buildUsageSummaryFromPaths(this.app, affectedPaths);
+        const countLabel = usage.total === 1 ? strings.modals.tagOperation.file : strings.modals.tagOperation.files;
+
+        return await new Promise<boolean>(resolve => {
+            const modal = new ConfirmModal(
+                this.app,
+                strings.modals.propertyValueRename.mergeTitle.replace('{value}', oldValueDisplay),
+                strings.modals.propertyValueRename.mergeWarning
+                    .replace(/\{oldValue\}/g, oldValueDisplay)
+                    .replace(/\{newValue\}/g, newValueDisplay)
+                    .replace('{count}', usage.total.toString())
+                    .replace('{files}', countLabel),
+                () => resolve(true),
+                strings.modals.propertyValueRename.confirmMerge,
+                {
+                    buildContent: container => renderAffectedFilesPreview(container, usage),
+                    onCancel: () => resolve(false)
+                }
+            );
+            modal.open();
+        });
+    }
+
+    private resolvePropertyValueNodes(nodeId: string): PropertyValueNodes | null {
+        const propertyTree = this.getPropertyTreeService();
+        const normalizedNodeId = normalizePropertyNodeId(nodeId);
+        if (!propertyTree || !normalizedNodeId) {
+            return null;
+        }
+
+        const valueNode = propertyTree.findNode(normalizedNodeId);
+        if (!valueNode || valueNode.kind !== 'value' || !valueNode.valuePath) {
+            return null;
+        }
+
+        const keyNode = propertyTree.getKeyNode(valueNode.key);
+        if (!keyNode) {
+            return null;
+        }
+
+        return { keyNode, valueNode: { ...valueNode, valuePath: valueNode.valuePath } };
+    }
+
+    /**
+     * Returns the other values of the same property, excluding values nested below the source value
+     */
+    private getSiblingValueNodes({ keyNode, valueNode }: PropertyValueNodes): PropertyTreeNode[] {
+        const nestedPrefix = `${valueNode.valuePath}/`;
+        return Array.from(keyNode.children.values())
+            .filter(child => child.id !== valueNode.id && !child.valuePath?.startsWith(nestedPrefix))
+            .sort((a, b) => naturalCompare(a.displayPath, b.displayPath));
+    }
+
+    /**
+     * Reads the value as written in frontmatter so merging into a wiki link value keeps the link
+     */
+    private resolveRawPropertyValue(keyNode: PropertyTreeNode, valueNode: PropertyTreeNode): string {
+        for (const path of valueNode.notesWithValue) {
+            const file = this.app.vault.getFileByPath(path);
+            const frontmatter = file ? this.app.metadataCache.getFileCache(file)?.frontmatter : null;
+            if (!isRecord(frontmatter)) {
+                continue;
+            }
+
+            const frontmatterKey = findFrontmatterKey(frontmatter, keyNode.key);
+            const value: unknown = frontmatterKey !== undefined ? frontmatter[frontmatterKey] : undefined;
+            const entries: unknown[] = Array.isArray(value) ? value : [value];
+            const match = entries.find(
+                (entry): entry is string => typeof entry === 'string' && normalizePropertyTreeValuePath(entry) === valueNode.valuePath
+            );
+            if (match) {
+                return match.trim();
+            }
+        }
+
+        return valueNode.name;
+    }
+
+    private collectPropertyValuePathsFromVault(normalizedKey: string, valuePath: string): Set<string> {
+        const targetKey = casefold(normalizedKey);
+        const paths = new Set<string>();
+        if (!targetKey || !valuePath) {
+            return paths;
+        }
+
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+            if (!isRecord(frontmatter)) {
+                continue;
+            }
+
+            const matches = Object.keys(frontmatter).some(
+                key => casefold(key) === targetKey && containsPropertyValuePath(frontmatter[key], valuePath)
+            );
+            if (matches) {
+                paths.add(file.path);
+            }
+        }
+
+        return paths;
+    }
+
+    /**
+     * Opens the batch property editor for the provided notes.
+     * Non-markdown files are skipped because they have no frontmatter.
+     */
+    promptEditPropertyValues(files: readonly TFile[]): void {
+        const markdownFiles = files.filter(file => this.fileMutations.isMarkdownFile(file));
+        if (markdownFiles.length === 0) {
+            showNotice(strings.fileSystem.notifications.propertiesRequireMarkdown, { variant: 'warning' });
+            return;
+        }
+
+        const modal = new PropertyValueEditModal(this.app, {
+            fileCount: markdownFiles.length,
+            keySuggestions: collectVaultPropertyKeys(this.app).map(suggestion => suggestion.key),
+            getPreview: edit => this.previewPropertyValueEdit(markdownFiles, edit),
+            onSubmit: edit => this.runPropertyValueEdit(markdownFiles, edit)
+        });
+        modal.open();
+    }
+
+    /**
+     * Computes the changes a property value edit would make, based on the cached frontmatter of each note.
+     */
+    previewPropertyValueEdit(files: readonly TFile[], edit: PropertyValueEdit): PropertyValueEditPreview {
+        const sample: PropertyValueEditPreviewEntry[] = [];
+        let changed = 0;
+
+        for (const file of files) {
+            if (!this.fileMutations.isMarkdownFile(file)) {
+                continue;
+            }
+
+            const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+            const change = resolvePropertyValueChange(isRecord(frontmatter) ? frontmatter : null, edit);
+            if (!change) {
+                continue;
+            }
+
+            changed += 1;
+            if (sample.length < VALUE_EDIT_PREVIEW_SAMPLE_LIMIT) {
+                sample.push({ ...change, fileName: file.basename });
+            }
+        }
+
+        return { changed, sample };
+    }
+
+    protected async runPropertyValueEdit(files: readonly TFile[], edit: PropertyValueEdit): Promise<boolean> {
+        const propertyKey = edit.key.trim();
+        if (!casefold(propertyKey) || propertyKey.includes('\n') || propertyKey.includes('\r')) {
+            showNotice(strings.modals.propertyOperation.invalidKeyName, { variant: 'warning' });
+            return false;
+        }
+
+        const { changes, failed } = await this.applyPropertyValueEditToFiles(files, edit);
+        this.recordPropertyValueEdit(edit, changes);
+
+        const changed = changes.size;
+        if (failed > 0) {
+            showNotice(
+                strings.modals.propertyValueEdit.partialFailure
+                    .replace('{property}', propertyKey)
+                    .replace('{count}', changed.toString())
+                    .replace('{failed}', failed.toString()),
+                { variant: 'warning' }
+            );
+        } else if (changed === 0) {
+            showNotice(strings.modals.propertyValueEdit.noChanges, { variant: 'warning' });
+        } else if (changed === 1) {
+            showNotice(strings.modals.propertyValueEdit.successSingle.replace('{property}', propertyKey), { variant: 'success' });
+        } else {
+            showNotice(
+                strings.modals.propertyValueEdit.successMultiple.replace('{property}', propertyKey).replace('{count}', changed.toString()),
+                { variant: 'success' }
+            );
+        }
+
+        return true;
+    }
+
+    /**
+     * Moves notes into a board column value, or removes the property when the value is null.
+     * List values only replace the entry that placed the note in its current column.
+     * Used when notes are dropped on a board column; only failures are reported because the board shows the result.
+     */
+    async setPropertyValueForFiles(files: readonly TFile[], key: string, value: BoardColumnValue | null): Promise<boolean> {
+        const markdownFiles = files.filter(file => this.fileMutations.isMarkdownFile(file));
+        if (markdownFiles.length === 0) {
+            showNotice(strings.fileSystem.notifications.propertiesRequireMarkdown, { variant: 'warning' });
+            return false;
+        }
+
+        const resolveChange = (frontmatter: Record<string, unknown>) => resolveBoardColumnMove(frontmatter, key, value);
+        const { changes, failed } = await this.applyPropertyValueChangeToFiles(markdownFiles, key, resolveChange);
+        this.recordPropertyValueChanges(key, changes, targets => this.applyPropertyValueChangeToFiles(targets, key, resolveChange));
+
+        if (failed > 0) {
+            showNotice(
+                strings.modals.propertyValueEdit.partialFailure
+                    .replace('{property}', key.trim())
+                    .replace('{count}', changes.size.toString())
+                    .replace('{failed}', failed.toString()),
+                { variant: 'warning' }
+            );
+        }
+
+        return changes.size > 0;
+    }
+
+    /**
+     * Applies a property value edit to each markdown file and collects the applied changes by path
+     */
+    private async applyPropertyValueEditToFiles(
+        files: readonly TFile[],
+        edit: PropertyValueEdit
+    ): Promise<{ changes: Map<string, PropertyValueChange>; failed: number }> {
+        return this.applyPropertyValueChangeToFiles(files, edit.key, frontmatter => resolvePropertyValueChange(frontmatter, edit));
+    }
+
+    /**
+     * Applies the change resolved from each markdown file's frontmatter and collects the applied changes by path
+     */
+    private async applyPropertyValueChangeToFiles(
+        files: readonly TFile[],
+        key: string,
+        resolveChange: (frontmatter: Record<string, unknown>) => PropertyValueChange | null
+    ): Promise<{ changes: Map<string, PropertyValueChange>; failed: number }> {
+        const changes = new Map<string, PropertyValueChange>();
+        let failed = 0;
+        let processed = 0;
+
+        for (const file of files) {
+            try {
+                const change = await this.fileMutations.applyPropertyValueChangeToFile(file, key, resolveChange);
+                if (change) {
+                    changes.set(file.path, change);
                 }
             } catch (error: unknown) {
                 failed += 1;
-                console.error(`[Notebook Navigator] Failed to rename property key ${oldKeyDisplay} → ${newKeyDisplay} in ${path}`, error);
+                console.error(`[Notebook Navigator] Failed to edit property ${key} in ${file.path}`, error);
             }
 
             processed += 1;
@@ -228,6 +746,80 @@ export class PropertyOperations {
             }
         }
 
+        return { changes, failed };
+    }
+
+    /**
+     * Records a batch property value edit in the undo history
+     * Undo writes back the previous value of each changed note; redo applies the edit again
+     */
+    private recordPropertyValueEdit(edit: PropertyValueEdit, changes: Map<string, PropertyValueChange>): void {
+        this.recordPropertyValueChanges(edit.key, changes, targets => this.applyPropertyValueEditToFiles(targets, edit));
+    }
+
+    private recordPropertyValueChanges(
+        key: string,
+        changes: Map<string, PropertyValueChange>,
+        reapply: (files: TFile[]) => Promise<{ failed: number }>
+    ): void {
+        const undoHistory = this.getUndoHistory();
+        if (!undoHistory || changes.size === 0) {
+            return;
+        }
+
+        const resolveFiles = (): TFile[] =>
+            Array.from(changes.keys())
+                .map(path => this.app.vault.getFileByPath(path))
+                .filter((file): file is TFile => file instanceof TFile);
+
+        undoHistory.record({
+            label: strings.undoHistory.actions.editProperty.replace('{property}', key.trim()),
+            undo: async () => {
+                for (const file of resolveFiles()) {
+                    const change = changes.get(file.path);
+                    if (change) {
+                        await this.fileMutations.restorePropertyValueInFile(file, change.key, change.before);
+                    }
+                }
+            },
+            redo: async () => {
+                const { failed } = await reapply(resolveFiles());
+                throwIfReplayIncomplete(failed);
+            }
+        });
+    }
+
+    protected async runPropertyKeyRename(params: {
+        oldKeyNormalized: string;
+        oldKeyDisplay: string;
+        newKeyDisplay: string;
+        affectedPaths: Set<string>;
+    }): Promise<boolean> {
+        const oldKeyNormalized = casefold(params.oldKeyNormalized);
+        const oldKeyDisplay = params.oldKeyDisplay.trim();
+        const newKeyDisplay = params.newKeyDisplay.trim();
+        const newKeyNormalized = casefold(newKeyDisplay);
+
+        if (!oldKeyNormalized || !newKeyNormalized || !newKeyDisplay) {
+            showNotice(strings.modals.propertyOperation.invalidKeyName, { variant: 'warning' });
+            return false;
+        }
+
+        if (oldKeyDisplay === newKeyDisplay) {
+            showNotice(
+                strings.modals.propertyOperation.renameNoChanges.replace('{oldKey}', oldKeyDisplay).replace('{newKey}', newKeyDisplay),
+                { variant: 'warning' }
+            );
+            return false;
+        }
+
+        const { renamedPaths, failed, processedMarkdown } = await this.renamePropertyKeyInPaths(
+            params.affectedPaths,
+            oldKeyDisplay,
+            newKeyDisplay
+        );
+        const renamed = renamedPaths.length;
+
         const shouldFinalize = failed === 0 && renamed > 0;
         if (!shouldFinalize) {
             showNotice(
@@ -246,6 +838,7 @@ export class PropertyOperations {
         }
 
         this.notifyPropertyKeyRenamed({ oldKey: oldKeyNormalized, newKey: newKeyNormalized });
+        this.recordPropertyKeyRename(oldKeyDisplay, newKeyDisplay, renamedPaths);
 
         if (settingsUpdateFailed) {
             showNotice(
@@ -266,6 +859,75 @@ export class PropertyOperations {
         return true;
     }
 
+    /**
+     * Renames a property key in the markdown files at the given paths
+     */
+    private async renamePropertyKeyInPaths(
+        paths: Iterable<string>,
+        oldKeyDisplay: string,
+        newKeyDisplay: string
+    ): Promise<{ renamedPaths: string[]; failed: number; processedMarkdown: number }> {
+        const renamedPaths: string[] = [];
+        let failed = 0;
+        let processedMarkdown = 0;
+        let processed = 0;
+
+        for (const path of paths) {
+            const abstract = this.app.vault.getAbstractFileByPath(path);
+            if (!(abstract instanceof TFile)) {
+                processed += 1;
+                continue;
+            }
+
+            try {
+                if (!this.fileMutations.isMarkdownFile(abstract)) {
+                    processed += 1;
+                    continue;
+                }
+                processedMarkdown += 1;
+
+                const didChange = await this.fileMutations.renamePropertyKeyInFile(abstract, { oldKey: oldKeyDisplay, newKeyDisplay });
+                if (didChange) {
+                    renamedPaths.push(path);
+                }
+            } catch (error: unknown) {
+                failed += 1;
+                console.error(`[Notebook Navigator] Failed to rename property key ${oldKeyDisplay} → ${newKeyDisplay} in ${path}`, error);
+            }
+
+            processed += 1;
+            if (processed % MUTATION_BATCH_SIZE === 0) {
+                await yieldToEventLoop();
+            }
+        }
+
+        return { renamedPaths, failed, processedMarkdown };
+    }
+
+    /**
+     * Records a completed property key rename in the undo history
+     */
+    private recordPropertyKeyRename(oldKeyDisplay: string, newKeyDisplay: string, renamedPaths: string[]): void {
+        const undoHistory = this.getUndoHistory();
+        if (!undoHistory || renamedPaths.length === 0) {
+            return;
+        }
+
+        const apply = async (fromKey: string, toKey: string): Promise<void> => {
+            const { failed } = await this.renamePropertyKeyInPaths(renamedPaths, fromKey, toKey);
+            // Settings follow the new key only once every note uses it
+            throwIfReplayIncomplete(failed);
+            await this.updateSettingsAfterRename(casefold(fromKey), toKey);
+            this.notifyPropertyKeyRenamed({ oldKey: casefold(fromKey), newKey: casefold(toKey) });
+        };
+
+        undoHistory.record({
+            label: strings.undoHistory.actions.renameProperty.replace('{oldKey}', oldKeyDisplay).replace('{newKey}', newKeyDisplay),
+            undo: () => apply(newKeyDisplay, oldKeyDisplay),
+            redo: () => apply(oldKeyDisplay, newKeyDisplay)
+        });
+    }
+
     protected async runPropertyKeyDelete(params: {
         keyNodeName: string;
         normalizedKey: string;
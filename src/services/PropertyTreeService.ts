@@ -21,6 +21,7 @@ import type { PropertyTreeNode } from '../types/storage';
 import {
     collectPropertyKeyFilePaths,
     collectPropertyValueFilePaths,
+    isPropertyHierarchyNodeId,
     resolvePropertySelectionNodeId,
     type PropertySelectionNodeId
 } from '../utils/propertyTree';
@@ -31,6 +32,7 @@ import {
  */
 export class PropertyTreeService implements IPropertyTreeProvider {
     private propertyTree: Map<string, PropertyTreeNode> = new Map();
+    private propertyHierarchyTree: Map<string, PropertyTreeNode> = new Map();
     private propertyNodeById: Map<string, PropertyTreeNode> = new Map();
     private descendantNodeIdsByNode: WeakMap<PropertyTreeNode, readonly string[]> = new WeakMap();
     private filePathsByNodeAndMode: WeakMap<
@@ -41,10 +43,12 @@ export class PropertyTreeService implements IPropertyTreeProvider {
 
     /**
      * Updates the property tree data from StorageContext.
+     * Hierarchy trees are keyed by property hierarchy id and indexed alongside the key nodes.
      */
-    updatePropertyTree(tree: Map<string, PropertyTreeNode>): void {
+    updatePropertyTree(tree: Map<string, PropertyTreeNode>, hierarchyTree: Map<string, PropertyTreeNode> = new Map()): void {
         this.propertyTree = tree;
-        this.rebuildIndexes(tree);
+        this.propertyHierarchyTree = hierarchyTree;
+        this.rebuildIndexes([tree, hierarchyTree]);
         this.descendantNodeIdsByNode = new WeakMap();
         this.filePathsByNodeAndMode = new WeakMap();
         this.notifyTreeUpdateListeners();
@@ -57,6 +61,13 @@ export class PropertyTreeService implements IPropertyTreeProvider {
         return this.propertyTree;
     }
 
+    /**
+     * Gets the current property hierarchy trees keyed by hierarchy id.
+     */
+    getPropertyHierarchyTree(): Map<string, PropertyTreeNode> {
+        return this.propertyHierarchyTree;
+    }
+
     /**
      * Returns whether the property tree has any indexed nodes.
      */
@@ -93,7 +104,7 @@ export class PropertyTreeService implements IPropertyTreeProvider {
      * Resolves a property selection id against the current property tree.
      */
     resolveSelectionNodeId(selectionNodeId: PropertySelectionNodeId): PropertySelectionNodeId {
-        return resolvePropertySelectionNodeId(this.propertyTree, selectionNodeId);
+        return resolvePropertySelectionNodeId(this.propertyTree, selectionNodeId, this.propertyHierarchyTree);
     }
 
     /**
@@ -139,7 +150,8 @@ export class PropertyTreeService implements IPropertyTreeProvider {
             return new Set();
         }
 
-        if (node.kind === 'value') {
+        // Hierarchy value nodes have nested levels, so they are cached per mode like key nodes
+        if (node.kind === 'value' && !isPropertyHierarchyNodeId(node.id)) {
             const cachedValuePaths = this.filePathsByNodeAndMode.get(node);
             const cached = cachedValuePaths?.direct ?? cachedValuePaths?.withDescendants;
             if (cached) {
@@ -186,7 +198,7 @@ export class PropertyTreeService implements IPropertyTreeProvider {
         return filePaths;
     }
 
-    private rebuildIndexes(tree: Map<string, PropertyTreeNode>): void {
+    private rebuildIndexes(trees: readonly Map<string, PropertyTreeNode>[]): void {
         const nodeById = new Map<string, PropertyTreeNode>();
         const visited = new Set<PropertyTreeNode>();
 
@@ -203,8 +215,10 @@ export class PropertyTreeService implements IPropertyTreeProvider {
             }
         };
 
-        for (const rootNode of tree.values()) {
-            visitNode(rootNode);
+        for (const tree of trees) {
+            for (const rootNode of tree.values()) {
+                visitNode(rootNode);
+            }
         }
 
         this.propertyNodeById = nodeById;
@@ -217,7 +231,7 @@ export class PropertyTreeService implements IPropertyTreeProvider {
     }
 
     private collectNodeFilePaths(node: PropertyTreeNode, includeDescendants: boolean): Set<string> {
-        if (node.kind === 'key') {
+        if (node.kind === 'key' || isPropertyHierarchyNodeId(node.id)) {
             return collectPropertyKeyFilePaths(node, includeDescendants);
         }
 
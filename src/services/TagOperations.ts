@@ -16,17 +16,21 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import type { App, TFile } from 'obsidian';
+import { TFile, type App } from 'obsidian';
+import { strings } from '../i18n';
 import type { NotebookNavigatorSettings } from '../settings/types';
 import type { ITagTreeProvider } from '../interfaces/ITagTreeProvider';
 import type { MetadataService } from './MetadataService';
+import { throwIfReplayIncomplete, type UndoHistoryService } from './UndoHistoryService';
 import type { RenameFile, TagDescriptor } from './tagRename/TagRenameEngine';
 import { TagBatchOperations } from './tagOperations/TagBatchOperations';
 import { TagDeleteWorkflow, type TagDeleteHooks } from './tagOperations/TagDeleteWorkflow';
 import { TagFileMutations } from './tagOperations/TagFileMutations';
+import { TagMergeWorkflow } from './tagOperations/TagMergeWorkflow';
 import { TagRenameWorkflow, type TagRenameAnalysis, type TagRenameHooks, type TagRenameResult } from './tagOperations/TagRenameWorkflow';
 import { TagShortcutMutations } from './tagOperations/TagShortcutMutations';
-import type { TagDeleteEventPayload, TagRenameEventPayload } from './tagOperations/types';
+import { TagSplitWorkflow } from './tagOperations/TagSplitWorkflow';
+import type { FileTagSnapshot, TagDeleteEventPayload, TagRenameEventPayload } from './tagOperations/types';
 import { TAGGED_TAG_ID, UNTAGGED_TAG_ID } from '../types';
 import { resolveDisplayTagPath } from './tagOperations/TagOperationUtils';
 
@@ -45,12 +49,15 @@ export class TagOperations {
     private readonly shortcutMutations: TagShortcutMutations;
     private readonly renameWorkflow: TagRenameWorkflow;
     private readonly deleteWorkflow: TagDeleteWorkflow;
+    private readonly mergeWorkflow: TagMergeWorkflow;
+    private readonly splitWorkflow: TagSplitWorkflow;
 
     constructor(
         private readonly app: App,
         private readonly getSettings: () => NotebookNavigatorSettings,
         private readonly getTagTreeService: () => ITagTreeProvider | null,
-        private readonly getMetadataService: () => MetadataService | null
+        private readonly getMetadataService: () => MetadataService | null,
+        private readonly getUndoHistory: () => UndoHistoryService | null = () => null
     ) {
         this.fileMutations = new TagFileMutations(this.app, this.getSettings);
         this.batchOperations = new TagBatchOperations(this.fileMutations);
@@ -66,6 +73,16 @@ export class TagOperations {
         this.deleteWorkflow = new TagDeleteWorkflow(this.app, this.fileMutations, this.getTagTreeService, this.getMetadataService, () =>
             this.createDeleteHooks()
         );
+        this.mergeWorkflow = new TagMergeWorkflow(
+            this.app,
+            this.fileMutations,
+            this.getTagTreeService,
+            tagPath => this.resolveDisplayTagPath(tagPath),
+            () => this.createRenameHooks()
+        );
+        this.splitWorkflow = new TagSplitWorkflow(this.app, this.fileMutations, this.getSettings, tagPath =>
+            this.resolveDisplayTagPath(tagPath)
+        );
     }
 
     /**
@@ -91,7 +108,13 @@ export class TagOperations {
     }
 
     async addTagToFiles(tag: string, files: TFile[]): Promise<{ added: number; skipped: number }> {
-        return this.batchOperations.addTagToFiles(tag, files);
+        const snapshots = await this.captureTagSnapshots(files);
+        const { added, skipped } = await this.batchOperations.addTagToFiles(tag, files);
+        await this.recordTagChange(strings.undoHistory.actions.addTag.replace('{tag}', tag), added, snapshots, async targets => {
+            const result = await this.batchOperations.addTagToFiles(tag, targets);
+            return result.added;
+        });
+        return { added: added.length, skipped };
     }
 
     getTagsFromFiles(files: TFile[]): string[] {
@@ -99,7 +122,12 @@ export class TagOperations {
     }
 
     async removeTagFromFiles(tag: string, files: TFile[]): Promise<number> {
-        return this.batchOperations.removeTagFromFiles(tag, files);
+        const snapshots = await this.captureTagSnapshots(files);
+        const removed = await this.batchOperations.removeTagFromFiles(tag, files);
+        await this.recordTagChange(strings.undoHistory.actions.removeTag.replace('{tag}', tag), removed, snapshots, targets =>
+            this.batchOperations.removeTagFromFiles(tag, targets)
+        );
+        return removed.length;
     }
 
     async clearAllTagsFromFiles(files: TFile[]): Promise<number> {
@@ -147,6 +175,24 @@ export class TagOperations {
         await this.openRenameModal(sourceDisplay, newPath);
     }
 
+    /**
+     * Prompts to merge several tags into one tag
+     * The provided tag paths prefill the list of tags to merge
+     */
+    promptMergeTags(tagPaths: readonly string[] = []): void {
+        this.mergeWorkflow.promptMergeTags(tagPaths.filter(tagPath => tagPath !== TAGGED_TAG_ID && tagPath !== UNTAGGED_TAG_ID));
+    }
+
+    /**
+     * Prompts to split a tag into child tags by folder or filter query
+     */
+    promptSplitTag(tagPath: string): void {
+        if (tagPath === TAGGED_TAG_ID || tagPath === UNTAGGED_TAG_ID) {
+            return;
+        }
+        this.splitWorkflow.promptSplitTag(tagPath);
+    }
+
     async promptDeleteTag(tagPath: string): Promise<void> {
         await this.deleteWorkflow.promptDeleteTag(tagPath);
     }
@@ -191,6 +237,48 @@ export class TagOperations {
         await this.shortcutMutations.removeTagShortcutsAfterDelete(tagPath);
     }
 
+    // Snapshots are only needed when the change can be undone
+    private async captureTagSnapshots(files: TFile[]): Promise<Map<string, FileTagSnapshot> | null> {
+        return this.getUndoHistory() ? this.batchOperations.captureTagSnapshots(files) : null;
+    }
+
+    /**
+     * Records a batch tag change in the undo history
+     * Undo restores each changed file from the snapshot taken before the change, including descendant and inline tags
+     * the change removed. Files are resolved by path when the change is reversed or applied again.
+     */
+    private async recordTagChange(
+        label: string,
+        changedFiles: TFile[],
+        snapshots: Map<string, FileTagSnapshot> | null,
+        applyChange: (targets: TFile[]) => Promise<TFile[]>
+    ): Promise<void> {
+        const undoHistory = this.getUndoHistory();
+        if (!undoHistory || !snapshots || changedFiles.length === 0) {
+            return;
+        }
+
+        let changedSnapshots = await this.batchOperations.completeTagSnapshots(changedFiles, snapshots);
+        const resolveFiles = (): TFile[] =>
+            Array.from(changedSnapshots.keys())
+                .map(path => this.app.vault.getFileByPath(path))
+                .filter((file): file is TFile => file instanceof TFile);
+
+        undoHistory.record({
+            label,
+            undo: async () => {
+                throwIfReplayIncomplete(await this.batchOperations.restoreTagSnapshots(resolveFiles(), changedSnapshots));
+            },
+            redo: async () => {
+                // Capture again so the next undo reverses the change as it was applied this time
+                const targets = resolveFiles();
+                const nextSnapshots = await this.batchOperations.captureTagSnapshots(targets);
+                const changed = await applyChange(targets);
+                changedSnapshots = await this.batchOperations.completeTagSnapshots(changed, nextSnapshots);
+            }
+        });
+    }
+
     /**
      * Creates hook callbacks for tag rename workflow
      * Provides controlled access to internal methods
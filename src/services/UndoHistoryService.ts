@@ -0,0 +1,197 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { strings } from '../i18n';
+import { LIMITS } from '../constants/limits';
+import { TIMEOUTS } from '../types/obsidian-extended';
+import { runAsyncAction } from '../utils/async';
+import { getErrorMessage } from '../utils/errorUtils';
+import { showNotice } from '../utils/noticeUtils';
+
+/**
+ * Reversible operation recorded in the undo history
+ */
+export interface UndoableOperation {
+    /** Short description shown in notices (e.g. 'Move 12 files') */
+    label: string;
+    /** Reverses the operation */
+    undo: () => Promise<void>;
+    /** Applies the operation again after it was undone */
+    redo: () => Promise<void>;
+}
+
+/**
+ * Throws when some items of an undo or redo step failed
+ * The operation then stays on its stack so the step can be retried.
+ */
+export function throwIfReplayIncomplete(failed: number): void {
+    if (failed > 0) {
+        throw new Error(strings.undoHistory.partial.replace('{count}', failed.toString()));
+    }
+}
+
+/**
+ * Service that keeps undo and redo stacks for file and metadata operations.
+ * Operations record themselves after they complete; recording is ignored while
+ * an undo or redo is running so reversals do not create new history entries.
+ */
+export class UndoHistoryService {
+    private undoStack: UndoableOperation[] = [];
+    private redoStack: UndoableOperation[] = [];
+    private isReplaying = false;
+
+    /**
+     * Records a completed operation and clears the redo stack
+     * @returns The recorded operation, or null when recording is suppressed
+     */
+    record(operation: UndoableOperation): UndoableOperation | null {
+        if (this.isReplaying) {
+            return null;
+        }
+
+        this.undoStack.push(operation);
+        if (this.undoStack.length > LIMITS.operations.undoHistorySize) {
+            this.undoStack.shift();
+        }
+        this.redoStack = [];
+        return operation;
+    }
+
+    canUndo(): boolean {
+        return !this.isReplaying && this.undoStack.length > 0;
+    }
+
+    canRedo(): boolean {
+        return !this.isReplaying && this.redoStack.length > 0;
+    }
+
+    /**
+     * Reverses the most recent operation
+     * @param expected - Only undo when this operation is the most recent one
+     * @returns The reversed operation, or null when nothing was undone
+     */
+    async undo(expected?: UndoableOperation): Promise<UndoableOperation | null> {
+        const operation = this.undoStack[this.undoStack.length - 1];
+        if (!operation || this.isReplaying || (expected && expected !== operation)) {
+            return null;
+        }
+
+        // Keep the operation on the undo stack until it is reversed so a failed undo can be retried
+        await this.replay(operation, 'undo');
+        this.moveTopOperation(this.undoStack, this.redoStack, operation);
+        return operation;
+    }
+
+    /**
+     * Applies the most recently undone operation again
+     * @returns The applied operation, or null when nothing was redone
+     */
+    async redo(): Promise<UndoableOperation | null> {
+        const operation = this.redoStack[this.redoStack.length - 1];
+        if (!operation || this.isReplaying) {
+            return null;
+        }
+
+        await this.replay(operation, 'redo');
+        this.moveTopOperation(this.redoStack, this.undoStack, operation);
+        return operation;
+    }
+
+    /**
+     * Runs undo and shows the outcome as a notice
+     */
+    async undoWithNotice(expected?: UndoableOperation): Promise<void> {
+        const label = expected?.label ?? this.undoStack[this.undoStack.length - 1]?.label ?? '';
+        try {
+            const operation = await this.undo(expected);
+            if (!operation) {
+                showNotice(strings.undoHistory.nothingToUndo);
+                return;
+            }
+            showNotice(strings.undoHistory.undone.replace('{action}', operation.label), { variant: 'success' });
+        } catch (error) {
+            console.error('[Notebook Navigator] Undo failed', error);
+            showNotice(strings.undoHistory.failed.replace('{action}', label).replace('{error}', getErrorMessage(error)), {
+                variant: 'warning'
+            });
+        }
+    }
+
+    /**
+     * Runs redo and shows the outcome as a notice
+     */
+    async redoWithNotice(): Promise<void> {
+        const label = this.redoStack[this.redoStack.length - 1]?.label ?? '';
+        try {
+            const operation = await this.redo();
+            if (!operation) {
+                showNotice(strings.undoHistory.nothingToRedo);
+                return;
+            }
+            showNotice(strings.undoHistory.redone.replace('{action}', operation.label), { variant: 'success' });
+        } catch (error) {
+            console.error('[Notebook Navigator] Redo failed', error);
+            showNotice(strings.undoHistory.failed.replace('{action}', label).replace('{error}', getErrorMessage(error)), {
+                variant: 'warning'
+            });
+        }
+    }
+
+    /**
+     * Shows a notice with an Undo button that reverses the given operation
+     */
+    showUndoNotice(message: string, operation: UndoableOperation): void {
+        const fragment = document.createDocumentFragment();
+        const wrapper = fragment.createDiv({ cls: 'nn-undo-notice' });
+        wrapper.createSpan({ text: message });
+        const button = wrapper.createEl('button', { cls: 'nn-undo-notice-button', text: strings.undoHistory.undo });
+
+        const notice = showNotice(fragment, { timeout: TIMEOUTS.NOTICE_HELP });
+        button.addEventListener('click', event => {
+            event.stopPropagation();
+            notice.hide();
+            runAsyncAction(() => this.undoWithNotice(operation));
+        });
+    }
+
+    /**
+     * Clears both stacks
+     */
+    clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+    }
+
+    // Recording is blocked while replaying, so the operation is still on top unless the history was cleared
+    private moveTopOperation(from: UndoableOperation[], to: UndoableOperation[], operation: UndoableOperation): void {
+        if (from[from.length - 1] !== operation) {
+            return;
+        }
+        from.pop();
+        to.push(operation);
+    }
+
+    private async replay(operation: UndoableOperation, direction: 'undo' | 'redo'): Promise<void> {
+        this.isReplaying = true;
+        try {
+            await operation[direction]();
+        } finally {
+            this.isReplaying = false;
+        }
+    }
+}
@@ -44,8 +44,10 @@ import { getEffectiveFrontmatterExclusions, isFileHiddenBySettings } from '../..
 import { runAsyncAction } from '../../utils/async';
 import { getMomentApi, resolveMomentLocale, type MomentInstance } from '../../utils/moment';
 import { NotebookNavigatorView } from '../../view/NotebookNavigatorView';
-import { getActiveHiddenFolders, getActiveVaultProfile } from '../../utils/vaultProfiles';
+import { getActiveHiddenFolders, getActiveSmartFolders, getActiveVaultProfile } from '../../utils/vaultProfiles';
+import { findSmartFolder } from '../../utils/smartFolders';
 import { showNotice } from '../../utils/noticeUtils';
+import { exportConfigBundleWithNotice, openImportConfigBundleModal } from '../../utils/configBundleModalHelpers';
 import { ConfirmModal } from '../../modals/ConfirmModal';
 import { SelectVaultProfileModal } from '../../modals/SelectVaultProfileModal';
 import { localStorage } from '../../utils/localStorage';
@@ -131,10 +133,11 @@ function getNavigatorViewIfMounted(plugin: NotebookNavigatorPlugin, existingLeav
  * Selects the adjacent file based on persisted navigation context without opening the navigator view.
  */
 interface CommandNavigationSelectionScope {
-    selectionType: 'folder' | 'tag' | 'property' | null;
+    selectionType: 'folder' | 'tag' | 'property' | 'smart-folder' | null;
     selectedFolder: TFolder | null;
     selectedTag: string | null;
     selectedProperty: PropertySelectionNodeId | null;
+    selectedSmartFolder?: string | null;
 }
 
 function getCommandVisibility(plugin: NotebookNavigatorPlugin): VisibilityPreferences {
@@ -162,6 +165,21 @@ function resolveStoredCommandSelection(plugin: NotebookNavigatorPlugin, currentF
     let selectedTag: string | null = null;
     let selectedFolder: TFolder | null = null;
 
+    try {
+        const savedSmartFolderId = localStorage.get<string>(STORAGE_KEYS.selectedSmartFolderKey);
+        if (savedSmartFolderId && findSmartFolder(getActiveSmartFolders(plugin.settings), savedSmartFolderId)) {
+            return {
+                selectionType: ItemType.SMART_FOLDER,
+                selectedFolder: null,
+                selectedTag: null,
+                selectedProperty: null,
+                selectedSmartFolder: savedSmartFolderId
+            };
+        }
+    } catch (error) {
+        console.error('Failed to load selected smart folder from localStorage:', error);
+    }
+
     if (plugin.settings.showProperties) {
         try {
             const savedPropertyRaw = localStorage.get<unknown>(STORAGE_KEYS.selectedPropertyKey);
@@ -797,6 +815,15 @@ export default function registerNavigatorCommands(plugin: NotebookNavigatorPlugi
         }
     });
 
+    // Command to open the vault statistics dashboard
+    plugin.addCommand({
+        id: 'open-statistics',
+        name: strings.commands.openStatistics,
+        callback: () => {
+            runAsyncAction(() => plugin.openStatisticsView());
+        }
+    });
+
     plugin.addCommand({
         id: 'open-daily-note',
         name: strings.commands.openDailyNote,
@@ -935,6 +962,38 @@ export default function registerNavigatorCommands(plugin: NotebookNavigatorPlugi
         }
     });
 
+    // Command to reverse the most recent move, rename, tag, property or appearance change
+    plugin.addCommand({
+        id: 'undo-file-operation',
+        name: strings.commands.undo,
+        checkCallback: (checking: boolean) => {
+            const undoHistory = plugin.undoHistory;
+            if (!undoHistory || !undoHistory.canUndo()) {
+                return false;
+            }
+            if (!checking) {
+                runAsyncAction(() => undoHistory.undoWithNotice());
+            }
+            return true;
+        }
+    });
+
+    // Command to reapply the most recently undone operation
+    plugin.addCommand({
+        id: 'redo-file-operation',
+        name: strings.commands.redo,
+        checkCallback: (checking: boolean) => {
+            const undoHistory = plugin.undoHistory;
+            if (!undoHistory || !undoHistory.canRedo()) {
+                return false;
+            }
+            if (!checking) {
+                runAsyncAction(() => undoHistory.redoWithNotice());
+            }
+            return true;
+        }
+    });
+
     // Command to select the next file in the current view
     plugin.addCommand({
         id: 'select-next-file',
@@ -1168,6 +1227,70 @@ export default function registerNavigatorCommands(plugin: NotebookNavigatorPlugi
         }
     });
 
+    // Commands to move folder metadata between settings and folder notes or sidecars
+    plugin.addCommand({
+        id: 'write-folder-metadata',
+        name: strings.commands.writeFolderMetadataFiles,
+        callback: () => {
+            runAsyncAction(async () => {
+                const metadataService = plugin.metadataService;
+                if (!metadataService) {
+                    return;
+                }
+
+                if (plugin.settings.folderMetadataStorage === 'settings') {
+                    showNotice(strings.fileSystem.notifications.folderMetadataStorageDisabled, { variant: 'warning' });
+                    return;
+                }
+
+                const writtenCount = await metadataService.exportFolderMetadataFiles();
+                showNotice(strings.fileSystem.notifications.folderMetadataWritten.replace('{count}', writtenCount.toString()), {
+                    variant: 'success'
+                });
+            });
+        }
+    });
+
+    plugin.addCommand({
+        id: 'reload-folder-metadata',
+        name: strings.commands.reloadFolderMetadataFiles,
+        callback: () => {
+            runAsyncAction(async () => {
+                const metadataService = plugin.metadataService;
+                if (!metadataService) {
+                    return;
+                }
+
+                if (plugin.settings.folderMetadataStorage === 'settings') {
+                    showNotice(strings.fileSystem.notifications.folderMetadataStorageDisabled, { variant: 'warning' });
+                    return;
+                }
+
+                const loadedCount = await metadataService.importFolderMetadataFiles();
+                showNotice(strings.fileSystem.notifications.folderMetadataLoaded.replace('{count}', loadedCount.toString()), {
+                    variant: 'success'
+                });
+            });
+        }
+    });
+
+    // Commands to move a curated setup between vaults
+    plugin.addCommand({
+        id: 'export-configuration',
+        name: strings.commands.exportConfiguration,
+        callback: () => {
+            runAsyncAction(() => exportConfigBundleWithNotice({ app: plugin.app, plugin }));
+        }
+    });
+
+    plugin.addCommand({
+        id: 'import-configuration',
+        name: strings.commands.importConfiguration,
+        callback: () => {
+            openImportConfigBundleModal({ app: plugin.app, plugin });
+        }
+    });
+
     // Command to delete the currently active file
     plugin.addCommand({
         id: 'delete-files',
@@ -1249,6 +1372,29 @@ export default function registerNavigatorCommands(plugin: NotebookNavigatorPlugi
         }
     });
 
+    // Command to merge several tags into one tag across the vault
+    plugin.addCommand({
+        id: 'merge-tags',
+        name: strings.commands.mergeTags,
+        callback: () => {
+            plugin.tagOperations?.promptMergeTags();
+        }
+    });
+
+    // Command to set, append to, or remove a property on selected files
+    plugin.addCommand({
+        id: 'edit-properties',
+        name: strings.commands.editProperties,
+        callback: () => {
+            runAsyncAction(async () => {
+                const view = await ensureNavigatorOpen(plugin);
+                if (view) {
+                    view.editPropertiesOfSelectedFiles();
+                }
+            });
+        }
+    });
+
     // Command to show a modal for navigating to any folder
     plugin.addCommand({
         id: 'navigate-to-folder',
@@ -1411,4 +1557,18 @@ export default function registerNavigatorCommands(plugin: NotebookNavigatorPlugi
             return true;
         }
     });
+
+    // Command to save the current filter search as a smart folder
+    plugin.addCommand({
+        id: 'create-smart-folder',
+        name: strings.commands.createSmartFolder,
+        callback: () => {
+            runAsyncAction(async () => {
+                const view = await ensureNavigatorOpen(plugin);
+                if (view) {
+                    view.createSmartFolderFromSearch();
+                }
+            });
+        }
+    });
 }
@@ -19,9 +19,9 @@
 import { App, TFile } from 'obsidian';
 import { IContentProvider, type ContentProviderType } from '../../interfaces/IContentProvider';
 import { NotebookNavigatorSettings } from '../../settings';
-import { FileData } from '../../storage/IndexedDBStorage';
+import { FileData, type OpenTaskItem, type ProviderValue } from '../../storage/IndexedDBStorage';
 import { getDBInstance, isShutdownInProgress } from '../../storage/fileOperations';
-import { getProviderProcessedMtimeField } from '../../storage/providerMtime';
+import { getProviderProcessedMtime } from '../../storage/providerMtime';
 import { runAsyncAction } from '../../utils/async';
 import { ContentReadCache } from './ContentReadCache';
 import { LIMITS } from '../../constants/limits';
@@ -37,11 +37,13 @@ export type ContentProviderUpdate = {
     wordCount?: number | null;
     taskTotal?: number | null;
     taskUnfinished?: number | null;
+    openTasks?: OpenTaskItem[] | null;
     preview?: string;
     featureImage?: Blob | null;
     featureImageKey?: string | null;
     metadata?: FileData['metadata'];
     properties?: FileData['properties'];
+    providerValues?: Record<string, ProviderValue | null>;
 };
 
 export type ContentProviderProcessResult = {
@@ -372,7 +374,7 @@ export abstract class BaseContentProvider implements IContentProvider {
                     // The file no longer requires processing; remove any queued retry entry to avoid indefinite idle waits.
                     this.clearRetryForPath(canonicalPath);
                 }
-                const expectedProviderMtime = fileData ? fileData[getProviderProcessedMtimeField(type)] : 0;
+                const expectedProviderMtime = fileData ? getProviderProcessedMtime(fileData, type) : 0;
                 jobsWithData.push({ job: { file, path: canonicalPath }, fileData, needsProcessing, expectedProviderMtime });
             }
 
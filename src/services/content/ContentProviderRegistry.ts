@@ -17,8 +17,14 @@
  */
 
 import { TFile } from 'obsidian';
-import { IContentProvider, type ContentProviderClearContext, type ContentProviderType } from '../../interfaces/IContentProvider';
+import {
+    IContentProvider,
+    type ContentProviderClearContext,
+    type ContentProviderType,
+    type ExternalContentProviderType
+} from '../../interfaces/IContentProvider';
 import { NotebookNavigatorSettings } from '../../settings';
+import { isExternalContentProviderType } from '../../storage/providerMtime';
 
 /**
  * Registry for managing content providers
@@ -35,6 +41,19 @@ export class ContentProviderRegistry {
         this.providers.set(provider.getContentType(), provider);
     }
 
+    /**
+     * Unregisters a content provider and stops its processing
+     * @param type - The provider type to remove
+     */
+    unregisterProvider(type: ContentProviderType): void {
+        const provider = this.providers.get(type);
+        if (!provider) {
+            return;
+        }
+        provider.stopProcessing();
+        this.providers.delete(type);
+    }
+
     /**
      * Gets all registered providers
      */
@@ -49,6 +68,13 @@ export class ContentProviderRegistry {
         return this.providers.get(type);
     }
 
+    /**
+     * Gets the provider types registered through the content providers API
+     */
+    getExternalProviderTypes(): ExternalContentProviderType[] {
+        return Array.from(this.providers.keys()).filter(isExternalContentProviderType);
+    }
+
     /**
      * Gets all settings that affect any content generation
      */
@@ -0,0 +1,118 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { App, TFile } from 'obsidian';
+import type { ContentProviderDefinition } from '../../api/types';
+import { type ExternalContentProviderType } from '../../interfaces/IContentProvider';
+import { NotebookNavigatorSettings } from '../../settings';
+import { FileData } from '../../storage/IndexedDBStorage';
+import { getDBInstance } from '../../storage/fileOperations';
+import { isProviderValue } from '../../storage/indexeddb/fileData';
+import { getExternalContentProviderType } from '../../storage/providerMtime';
+import { BaseContentProvider, type ContentProviderProcessResult } from './BaseContentProvider';
+import { ContentReadCache } from './ContentReadCache';
+
+/**
+ * Content provider that computes values through a definition registered by another plugin
+ * Values are stored per file in `FileData.providerValues` under the provider id
+ */
+export class ExternalContentProvider extends BaseContentProvider {
+    private readonly extensions: Set<string>;
+
+    constructor(
+        app: App,
+        private readonly definition: ContentProviderDefinition,
+        readCache: ContentReadCache | null = null
+    ) {
+        super(app, readCache);
+        this.extensions = new Set(definition.extensions ?? ['md']);
+    }
+
+    getContentType(): ExternalContentProviderType {
+        return getExternalContentProviderType(this.definition.id);
+    }
+
+    getRelevantSettings(): (keyof NotebookNavigatorSettings)[] {
+        return [];
+    }
+
+    shouldRegenerate(_oldSettings: NotebookNavigatorSettings, _newSettings: NotebookNavigatorSettings): boolean {
+        return false;
+    }
+
+    async clearContent(_context?: { oldSettings: NotebookNavigatorSettings; newSettings: NotebookNavigatorSettings }): Promise<void> {
+        const db = getDBInstance();
+        await db.batchClearProviderValues(this.definition.id);
+    }
+
+    /**
+     * Returns true when the file extension is handled by this provider
+     */
+    matchesFile(file: TFile): boolean {
+        return this.extensions.has(file.extension.toLowerCase());
+    }
+
+    /**
+     * Returns the files whose stored value is missing or older than the file
+     */
+    getFilesNeedingProcessing(files: TFile[]): TFile[] {
+        const db = getDBInstance();
+        return files.filter(file => this.hasStaleValue(db.getFile(file.path), file));
+    }
+
+    protected needsProcessing(fileData: FileData | null, file: TFile, _settings: NotebookNavigatorSettings): boolean {
+        return this.hasStaleValue(fileData, file);
+    }
+
+    private hasStaleValue(fileData: FileData | null, file: TFile): boolean {
+        if (!this.matchesFile(file)) {
+            return false;
+        }
+
+        const entry = fileData?.providerValues[this.definition.id];
+        return !entry || entry.mtime !== file.stat.mtime;
+    }
+
+    protected async processFile(
+        job: { file: TFile; path: string },
+        fileData: FileData | null,
+        _settings: NotebookNavigatorSettings
+    ): Promise<ContentProviderProcessResult> {
+        if (!this.matchesFile(job.file)) {
+            return { update: null, processed: true };
+        }
+
+        try {
+            const result = await this.definition.compute(job.file, { read: () => this.readFileContent(job.file) });
+            const value = isProviderValue(result) ? result : null;
+            if (result !== null && result !== undefined && value === null) {
+                console.error(`Content provider "${this.definition.id}" returned an unsupported value for ${job.path}`);
+            }
+
+            // Only return update if the value changed
+            const existing = fileData?.providerValues[this.definition.id];
+            if (existing && existing.value === value) {
+                return { update: null, processed: true };
+            }
+
+            return { update: { path: job.path, providerValues: { [this.definition.id]: value } }, processed: true };
+        } catch (error) {
+            console.error(`Content provider "${this.definition.id}" failed for ${job.path}:`, error);
+            return { update: null, processed: false };
+        }
+    }
+}
@@ -20,10 +20,11 @@ import { Platform, type CachedMetadata, type FrontMatterCache, type TFile } from
 import { LIMITS } from '../../constants/limits';
 import { type ContentProviderType } from '../../interfaces/IContentProvider';
 import { NotebookNavigatorSettings } from '../../settings';
-import { type PropertyItem, type PropertyValueKind, FileData } from '../../storage/IndexedDBStorage';
+import { type OpenTaskItem, type PropertyItem, type PropertyValueKind, FileData } from '../../storage/IndexedDBStorage';
 import { getDBInstance } from '../../storage/fileOperations';
 import { getCachedCommaSeparatedList } from '../../utils/commaSeparatedListUtils';
 import { areStringArraysEqual } from '../../utils/arrayUtils';
+import { extractContentSearchTerms } from '../../utils/contentSearchUtils';
 import { arePropertyItemsEqual, hasPropertyFrontmatterFields } from '../../utils/propertyUtils';
 import { getActivePropertyFields } from '../../utils/vaultProfiles';
 import {
@@ -36,6 +37,7 @@ import {
 } from '../../utils/codeRangeUtils';
 import { PreviewTextUtils } from '../../utils/previewTextUtils';
 import { createCaseInsensitiveKeyMatcher } from '../../utils/recordUtils';
+import { areOpenTasksEqual, parseOpenTaskText } from '../../utils/taskUtils';
 import { countWordsForNoteProperty } from '../../utils/wordCountUtils';
 import type { ContentProviderProcessResult } from './BaseContentProvider';
 import { findFeatureImageReference, type FeatureImageReference } from './featureImageReferenceResolver';
@@ -50,6 +52,7 @@ type MarkdownPipelineContext = {
     bodyStartIndex: number;
     isExcalidraw: boolean;
     fileModified: boolean;
+    needsContentIndex: boolean;
     propertiesEnabled: boolean;
     propertyNameFields: readonly string[];
     hasContent: boolean;
@@ -61,13 +64,15 @@ type MarkdownPipelineUpdate = {
     wordCount?: number | null;
     taskTotal?: number | null;
     taskUnfinished?: number | null;
+    openTasks?: OpenTaskItem[] | null;
     preview?: string;
+    contentTerms?: string[];
     properties?: FileData['properties'];
     featureImageKey?: string | null;
     featureImage?: Blob | null;
 };
 
-type MarkdownPipelineProcessorId = 'preview' | 'wordCount' | 'tasks' | 'properties' | 'featureImage';
+type MarkdownPipelineProcessorId = 'preview' | 'contentIndex' | 'wordCount' | 'tasks' | 'properties' | 'featureImage';
 
 type MarkdownPipelineProcessor = {
     id: MarkdownPipelineProcessorId;
@@ -94,7 +99,7 @@ function resolveMarkdownBodyStartIndex(metadata: CachedMetadata, content: string
     return index;
 }
 
-type MarkdownTaskMarker = 'complete' | 'unfinished';
+type MarkdownTaskMarker = { status: 'complete' | 'unfinished'; textStart: number };
 function parseMarkdownTaskMarker(line: string, startIndex: number): MarkdownTaskMarker | null {
     let index = skipMarkdownWhitespace(line, startIndex);
     if (index >= line.length) {
@@ -139,22 +144,27 @@ function parseMarkdownTaskMarker(line: string, startIndex: number): MarkdownTask
 
     const marker = line[index + 1];
     if (marker === ' ') {
-        return 'unfinished';
+        return { status: 'unfinished', textStart: index + 3 };
     }
     if (marker === 'x' || marker === 'X') {
-        return 'complete';
+        return { status: 'complete', textStart: index + 3 };
     }
     return null;
 }
 
-function countMarkdownTasks(content: string, bodyStartIndex: number): { taskTotal: number; taskUnfinished: number } {
+type MarkdownTaskSummary = { taskTotal: number; taskUnfinished: number; openTasks: OpenTaskItem[] };
+
+// Counts checkbox tasks outside code fences and collects the text and due date of open tasks
+function collectMarkdownTasks(content: string, bodyStartIndex: number): MarkdownTaskSummary {
     const safeBodyStartIndex = Math.min(Math.max(0, bodyStartIndex), content.length);
     const body = safeBodyStartIndex === 0 ? content : content.slice(safeBodyStartIndex);
 
     if (body.length === 0) {
-        return { taskTotal: 0, taskUnfinished: 0 };
+        return { taskTotal: 0, taskUnfinished: 0, openTasks: [] };
     }
 
+    const { maxTasksPerFile, maxTextLength } = LIMITS.markdown.openTasks;
+    const openTasks: OpenTaskItem[] = [];
     let taskTotal = 0;
     let taskUnfinished = 0;
     let lineStart = 0;
@@ -190,8 +200,11 @@ function countMarkdownTasks(content: string, bodyStartIndex: number): { taskTota
                 const marker = parseMarkdownTaskMarker(line, prefix.nextIndex);
                 if (marker) {
                     taskTotal += 1;
-                    if (marker === 'unfinished') {
+                    if (marker.status === 'unfinished') {
                         taskUnfinished += 1;
+                        if (openTasks.length < maxTasksPerFile) {
+                            openTasks.push(parseOpenTaskText(line.slice(marker.textStart), maxTextLength));
+                        }
                     }
                 }
             }
@@ -204,7 +217,7 @@ function countMarkdownTasks(content: string, bodyStartIndex: number): { taskTota
         lineStart = lineEnd + 1;
     }
 
-    return { taskTotal, taskUnfinished };
+    return { taskTotal, taskUnfinished, openTasks };
 }
 
 type ExtractedPropertyValue = {
@@ -290,6 +303,11 @@ export class MarkdownPipelineContentProvider extends FeatureImageContentProvider
             },
             run: async context => await this.processPreview(context)
         },
+        {
+            id: 'contentIndex',
+            needsProcessing: context => context.needsContentIndex && (context.hasContent || context.isExcalidraw),
+            run: async context => await this.processContentIndex(context)
+        },
         {
             id: 'wordCount',
             needsProcessing: context => {
@@ -308,7 +326,8 @@ export class MarkdownPipelineContentProvider extends FeatureImageContentProvider
                     !context.fileData ||
                     context.fileModified ||
                     context.fileData.taskTotal === null ||
-                    context.fileData.taskUnfinished === null
+                    context.fileData.taskUnfinished === null ||
+                    context.fileData.openTasks === null
                 ) {
                     return context.isExcalidraw || context.hasContent;
                 }
@@ -356,6 +375,7 @@ export class MarkdownPipelineContentProvider extends FeatureImageContentProvider
     getRelevantSettings(): (keyof NotebookNavigatorSettings)[] {
         return [
             'showFilePreview',
+            'searchNoteContent',
             'skipHeadingsInPreview',
             'skipCodeBlocksInPreview',
             'stripHtmlInPreview',
@@ -380,12 +400,14 @@ export class MarkdownPipelineContentProvider extends FeatureImageContentProvider
 
     private getClearFlags(context: { oldSettings: NotebookNavigatorSettings; newSettings: NotebookNavigatorSettings } | undefined): {
         shouldClearPreview: boolean;
+        shouldClearContentIndex: boolean;
         shouldClearProperties: boolean;
         shouldClearFeatureImage: boolean;
     } {
         if (!context) {
             return {
                 shouldClearPreview: true,
+                shouldClearContentIndex: true,
                 shouldClearProperties: true,
                 shouldClearFeatureImage: true
             };
@@ -403,6 +425,9 @@ export class MarkdownPipelineContentProvider extends FeatureImageContentProvider
             // Enabling preview requires regenerated text because files may have changed while preview extraction was disabled.
             (!oldSettings.showFilePreview && newSettings.showFilePreview);
 
+        // Clear on both transitions: disabling drops stored terms, enabling must not reuse terms that went stale while disabled.
+        const shouldClearContentIndex = oldSettings.searchNoteContent !== newSettings.searchNoteContent;
+
         const shouldClearProperties = getActivePropertyFields(oldSettings) !== getActivePropertyFields(newSettings);
 
         const featureImagePropertiesChanged = !areStringArraysEqual(oldSettings.featureImageProperties, newSettings.featureImageProperties);
@@ -417,18 +442,21 @@ export class MarkdownPipelineContentProvider extends FeatureImageContentProvider
             (newSettings.showFeatureImage &&
                 (featureImagePropertiesChanged || oldSettings.downloadExternalFeatureImages !== newSettings.downloadExternalFeatureImages));
 
-        return { shouldClearPreview, shouldClearProperties, shouldClearFeatureImage };
+        return { shouldClearPreview, shouldClearContentIndex, shouldClearProperties, shouldClearFeatureImage };
     }
 
     shouldRegenerate(oldSettings: NotebookNavigatorSettings, newSettings: NotebookNavigatorSettings): boolean {
-        const { shouldClearPreview, shouldClearProperties, shouldClearFeatureImage } = this.getClearFlags({ oldSettings, newSettings });
-        return shouldClearPreview || shouldClearProperties || shouldClearFeatureImage;
+        const { shouldClearPreview, shouldClearContentIndex, shouldClearProperties, shouldClearFeatureImage } = this.getClearFlags({
+            oldSettings,
+            newSettings
+        });
+        return shouldClearPreview || shouldClearContentIndex || shouldClearProperties || shouldClearFeatureImage;
     }
 
     async clearContent(context?: { oldSettings: NotebookNavigatorSettings; newSettings: NotebookNavigatorSettings }): Promise<void> {
-        const { shouldClearPreview, shouldClearProperties, shouldClearFeatureImage } = this.getClearFlags(context);
+        const { shouldClearPreview, shouldClearContentIndex, shouldClearProperties, shouldClearFeatureImage } = this.getClearFlags(context);
 
-        if (!shouldClearPreview && !shouldClearProperties && !shouldClearFeatureImage) {
+        if (!shouldClearPreview && !shouldClearContentIndex && !shouldClearProperties && !shouldClearFeatureImage) {
             return;
         }
 
@@ -438,6 +466,10 @@ export class MarkdownPipelineContentProvider extends FeatureImageContentProvider
             await db.batchClearAllFileContent('preview');
         }
 
+        if (shouldClearContentIndex) {
+            await db.clearContentIndex();
+        }
+
         if (shouldClearProperties) {
             await db.batchClearAllFileContent('properties');
         }
@@ -466,9 +498,10 @@ export class MarkdownPipelineContentProvider extends FeatureImageContentProvider
             settings.showFeatureImage && (fileData.featureImageKey === null || fileData.featureImageStatus === 'unprocessed');
         const needsProperties = propertiesEnabled && fileData.properties === null;
         const needsWordCount = fileData.wordCount === null;
-        const needsTasks = fileData.taskTotal === null || fileData.taskUnfinished === null;
+        const needsTasks = fileData.taskTotal === null || fileData.taskUnfinished === null || fileData.openTasks === null;
+        const needsContentIndex = settings.searchNoteContent && !getDBInstance().hasContentIndexEntry(file.path);
 
-        return needsPreview || needsFeatureImage || needsProperties || needsWordCount || needsTasks;
+        return needsPreview || needsFeatureImage || needsProperties || needsWordCount || needsTasks || needsContentIndex;
     }
 
     protected async processFile(
@@ -509,8 +542,12 @@ export class MarkdownPipelineContentProvider extends FeatureImageContentProvider
             settings.showFilePreview && (!fileData || fileModified || fileData.previewStatus === 'unprocessed') && !isExcalidraw;
         const needsWordCount = !fileData || fileModified || fileData.wordCount === null;
         const needsWordCountContent = needsWordCount && !isExcalidraw;
-        const needsTasks = !fileData || fileModified || fileData.taskTotal === null || fileData.taskUnfinished === null;
+        const needsTasks =
+            !fileData || fileModified || fileData.taskTotal === null || fileData.taskUnfinished === null || fileData.openTasks === null;
         const needsTasksContent = needsTasks && !isExcalidraw;
+        const needsContentIndex =
+            settings.searchNoteContent && (!fileData || fileModified || !getDBInstance().hasContentIndexEntry(job.path));
+        const needsContentIndexContent = needsContentIndex && !isExcalidraw;
         const needsFeatureImage =
             settings.showFeatureImage &&
             (!fileData || fileModified || fileData.featureImageKey === null || fileData.featureImageStatus === 'unprocessed') &&
@@ -530,6 +567,7 @@ export class MarkdownPipelineContentProvider extends FeatureImageContentProvider
 
         const needsContent =
             needsPreview ||
+            needsContentIndexContent ||
             needsWordCountContent ||
             needsTasksContent ||
             (needsFeatureImage && !featureImageExcluded && !frontmatterFeatureImageReference);
@@ -539,7 +577,9 @@ export class MarkdownPipelineContentProvider extends FeatureImageContentProvider
             wordCount?: number | null;
             taskTotal?: number | null;
             taskUnfinished?: number | null;
+            openTasks?: OpenTaskItem[] | null;
             preview?: string;
+            contentTerms?: string[];
             featureImage?: Blob | null;
             featureImageKey?: string | null;
             properties?: FileData['properties'];
@@ -556,9 +596,13 @@ export class MarkdownPipelineContentProvider extends FeatureImageContentProvider
                     hasSafeUpdate = true;
                 }
 
-                if (needsTasksContent && (!fileData || fileData.taskTotal !== 0 || fileData.taskUnfinished !== 0)) {
+                if (
+                    needsTasksContent &&
+                    (!fileData || fileData.taskTotal !== 0 || fileData.taskUnfinished !== 0 || fileData.openTasks?.length !== 0)
+                ) {
                     update.taskTotal = 0;
                     update.taskUnfinished = 0;
+                    update.openTasks = [];
                     hasSafeUpdate = true;
                 }
 
@@ -578,6 +622,12 @@ export class MarkdownPipelineContentProvider extends FeatureImageContentProvider
                     }
                 }
 
+                if (needsContentIndexContent) {
+                    // Record an empty term list so oversized files are not re-read on every scan.
+                    update.contentTerms = [];
+                    hasSafeUpdate = true;
+                }
+
                 if (needsFeatureImage && (frontmatterFeatureImageReference || featureImageExcluded)) {
                     const featureImageUpdate = await this.processMarkdownFeatureImage({
                         file: job.file,
@@ -645,10 +695,11 @@ export class MarkdownPipelineContentProvider extends FeatureImageContentProvider
                     !fileData ||
                     fileData.taskTotal === null ||
                     fileData.taskUnfinished === null ||
-                    (shouldFallback && (fileData.taskTotal !== 0 || fileData.taskUnfinished !== 0));
+                    (shouldFallback && (fileData.taskTotal !== 0 || fileData.taskUnfinished !== 0 || fileData.openTasks?.length !== 0));
                 if (shouldSetTasksZero) {
                     update.taskTotal = 0;
                     update.taskUnfinished = 0;
+                    update.openTasks = [];
                     hasSafeUpdate = true;
                 }
             }
@@ -669,6 +720,11 @@ export class MarkdownPipelineContentProvider extends FeatureImageContentProvider
                 }
             }
 
+            if (needsContentIndexContent && shouldFallback) {
+                update.contentTerms = [];
+                hasSafeUpdate = true;
+            }
+
             if (needsFeatureImage && frontmatterFeatureImageReference) {
                 const featureImageUpdate = await this.processMarkdownFeatureImage({
                     file: job.file,
@@ -732,6 +788,7 @@ export class MarkdownPipelineContentProvider extends FeatureImageContentProvider
             bodyStartIndex,
             isExcalidraw,
             fileModified,
+            needsContentIndex,
             propertiesEnabled,
             propertyNameFields,
             hasContent,
@@ -758,9 +815,15 @@ export class MarkdownPipelineContentProvider extends FeatureImageContentProvider
             if (processorUpdate.taskUnfinished !== undefined) {
                 update.taskUnfinished = processorUpdate.taskUnfinished;
             }
+            if (processorUpdate.openTasks !== undefined) {
+                update.openTasks = processorUpdate.openTasks;
+            }
             if (processorUpdate.preview !== undefined) {
                 update.preview = processorUpdate.preview;
             }
+            if (processorUpdate.contentTerms !== undefined) {
+                update.contentTerms = processorUpdate.contentTerms;
+            }
             if (processorUpdate.properties !== undefined) {
                 update.properties = processorUpdate.properties;
             }
@@ -776,7 +839,9 @@ export class MarkdownPipelineContentProvider extends FeatureImageContentProvider
             update.wordCount !== undefined ||
             update.taskTotal !== undefined ||
             update.taskUnfinished !== undefined ||
+            update.openTasks !== undefined ||
             update.preview !== undefined ||
+            update.contentTerms !== undefined ||
             update.properties !== undefined ||
             update.featureImageKey !== undefined;
 
@@ -819,6 +884,18 @@ export class MarkdownPipelineContentProvider extends FeatureImageContentProvider
         }
     }
 
+    private async processContentIndex(context: MarkdownPipelineContext): Promise<MarkdownPipelineUpdate | null> {
+        try {
+            const contentTerms = context.isExcalidraw
+                ? []
+                : extractContentSearchTerms(context.content, context.bodyStartIndex, LIMITS.markdown.contentIndex.maxTermsPerFile);
+            return { contentTerms };
+        } catch (error) {
+            console.error(`Error indexing content for ${context.file.path}:`, error);
+            return { contentTerms: [] };
+        }
+    }
+
     private async processWordCount(context: MarkdownPipelineContext): Promise<MarkdownPipelineUpdate | null> {
         try {
             const count = context.isExcalidraw ? 0 : countWordsForNoteProperty(context.content, context.bodyStartIndex);
@@ -837,28 +914,36 @@ export class MarkdownPipelineContentProvider extends FeatureImageContentProvider
 
     private async processTasks(context: MarkdownPipelineContext): Promise<MarkdownPipelineUpdate | null> {
         try {
-            const counts = context.isExcalidraw
-                ? { taskTotal: 0, taskUnfinished: 0 }
-                : countMarkdownTasks(context.content, context.bodyStartIndex);
+            const summary: MarkdownTaskSummary = context.isExcalidraw
+                ? { taskTotal: 0, taskUnfinished: 0, openTasks: [] }
+                : collectMarkdownTasks(context.content, context.bodyStartIndex);
 
             if (
                 !context.fileData ||
                 context.fileData.taskTotal === null ||
                 context.fileData.taskUnfinished === null ||
-                context.fileData.taskTotal !== counts.taskTotal ||
-                context.fileData.taskUnfinished !== counts.taskUnfinished
+                context.fileData.openTasks === null ||
+                context.fileData.taskTotal !== summary.taskTotal ||
+                context.fileData.taskUnfinished !== summary.taskUnfinished ||
+                !areOpenTasksEqual(context.fileData.openTasks, summary.openTasks)
             ) {
                 return {
-                    taskTotal: counts.taskTotal,
-                    taskUnfinished: counts.taskUnfinished
+                    taskTotal: summary.taskTotal,
+                    taskUnfinished: summary.taskUnfinished,
+                    openTasks: summary.openTasks
                 };
             }
 
             return null;
         } catch (error) {
             console.error(`Error generating tasks for ${context.file.path}:`, error);
-            if (!context.fileData || context.fileData.taskTotal === null || context.fileData.taskUnfinished === null) {
-                return { taskTotal: 0, taskUnfinished: 0 };
+            if (
+                !context.fileData ||
+                context.fileData.taskTotal === null ||
+                context.fileData.taskUnfinished === null ||
+                context.fileData.openTasks === null
+            ) {
+                return { taskTotal: 0, taskUnfinished: 0, openTasks: [] };
             }
             return null;
         }
@@ -17,7 +17,7 @@
  */
 
 import { App } from 'obsidian';
-import { NotebookNavigatorSettings, SortOption, type AlphaSortOrder } from '../../settings';
+import { NotebookNavigatorSettings, SortOption, type AlphaSortOrder, type SortChainKey } from '../../settings';
 import { ItemType } from '../../types';
 import { ISettingsProvider } from '../../interfaces/ISettingsProvider';
 import { FolderAppearance, TagAppearance } from '../../hooks/useListPaneAppearance';
@@ -35,8 +35,10 @@ type MetadataFields = {
     folderColors: Record<string, string>;
     folderBackgroundColors: Record<string, string>;
     folderSortOverrides: Record<string, SortOption>;
+    folderSortChains: Record<string, SortChainKey[]>;
     folderTreeSortOverrides: Record<string, AlphaSortOrder>;
     folderAppearances: Record<string, FolderAppearance>;
+    folderNewNotePatterns: Record<string, string>;
     fileIcons: Record<string, string>;
     fileColors: Record<string, string>;
     tagColors: Record<string, string>;
@@ -388,6 +390,12 @@ export abstract class BaseMetadataService {
                 const next = sanitizeRecord(overrides);
                 next[path] = sortOption;
                 settings.folderSortOverrides = next;
+                // A single sort option replaces any sort chain stored for the folder
+                if (settings.folderSortChains?.[path]) {
+                    const chains = sanitizeRecord(ensureRecord(settings.folderSortChains));
+                    delete chains[path];
+                    settings.folderSortChains = chains;
+                }
             } else {
                 const overrides = ensureRecord(settings.tagSortOverrides);
                 const next = sanitizeRecord(overrides);
@@ -403,12 +411,18 @@ export abstract class BaseMetadataService {
      * @param path - Path of the entity
      */
     protected async removeEntitySortOverride(entityType: EntityType, path: string): Promise<void> {
-        if (entityType === ItemType.FOLDER && this.settingsProvider.settings.folderSortOverrides?.[path]) {
+        if (
+            entityType === ItemType.FOLDER &&
+            (this.settingsProvider.settings.folderSortOverrides?.[path] || this.settingsProvider.settings.folderSortChains?.[path])
+        ) {
             await this.saveAndUpdate(settings => {
                 const overrides = ensureRecord(settings.folderSortOverrides);
                 const next = sanitizeRecord(overrides);
                 delete next[path];
                 settings.folderSortOverrides = next;
+                const chains = sanitizeRecord(ensureRecord(settings.folderSortChains));
+                delete chains[path];
+                settings.folderSortChains = chains;
             });
         } else if (entityType === ItemType.TAG && this.settingsProvider.settings.tagSortOverrides?.[path]) {
             await this.saveAndUpdate(settings => {
@@ -633,6 +647,22 @@ export abstract class BaseMetadataService {
         return changed;
     }
 
+    /**
+     * Checks if updateNestedPaths would modify a metadata record without mutating it
+     */
+    protected willUpdateNestedPaths<T>(
+        metadata: Record<string, T> | undefined,
+        oldPath: string,
+        newPath: string,
+        preserveExisting: boolean
+    ): boolean {
+        if (!metadata) {
+            return false;
+        }
+        const clone = { ...metadata };
+        return this.updateNestedPaths(clone, oldPath, newPath, preserveExisting);
+    }
+
     /**
      * Deletes nested paths when a parent is deleted
      * Removes both the exact match and all children
@@ -357,7 +357,7 @@ export class FileMetadataService extends BaseMetadataService {
     /**
      * Toggles the pinned state of a note in a specific context
      * @param filePath - Path of the file to pin/unpin
-     * @param context - Context to toggle ('folder', 'tag', or 'property')
+     * @param context - Context to toggle ('folder', 'tag', 'property', or 'smart-folder')
      */
     async togglePinnedNote(filePath: string, context: NavigatorContext): Promise<void> {
         await this.saveAndUpdate(settings => {
@@ -371,7 +371,8 @@ export class FileMetadataService extends BaseMetadataService {
                 settings.pinnedNotes[filePath] = {
                     folder: context === 'folder',
                     tag: context === 'tag',
-                    property: context === 'property'
+                    property: context === 'property',
+                    'smart-folder': context === 'smart-folder'
                 };
             } else {
                 const normalized = normalizePinnedNoteContext(existing);
@@ -381,7 +382,7 @@ export class FileMetadataService extends BaseMetadataService {
                 normalized[context] = !normalized[context];
 
                 // Remove if unpinned from all contexts
-                if (!normalized.folder && !normalized.tag && !normalized.property) {
+                if (!normalized.folder && !normalized.tag && !normalized.property && !normalized['smart-folder']) {
                     delete settings.pinnedNotes[filePath];
                 }
             }
@@ -391,7 +392,7 @@ export class FileMetadataService extends BaseMetadataService {
     /**
      * Pins multiple notes in a single settings update.
      * @param filePaths - Paths of files to pin
-     * @param context - Context to pin ('folder', 'tag', or 'property')
+     * @param context - Context to pin ('folder', 'tag', 'property', or 'smart-folder')
      * @returns Number of notes newly pinned in the given context
      */
     async pinNotes(filePaths: string[], context: NavigatorContext): Promise<number> {
@@ -413,7 +414,8 @@ export class FileMetadataService extends BaseMetadataService {
                     settings.pinnedNotes[filePath] = {
                         folder: context === 'folder',
                         tag: context === 'tag',
-                        property: context === 'property'
+                        property: context === 'property',
+                        'smart-folder': context === 'smart-folder'
                     };
                     changed = true;
                     pinnedCount += 1;
@@ -438,7 +440,7 @@ export class FileMetadataService extends BaseMetadataService {
     /**
      * Checks if a note is pinned
      * @param filePath - Path of the file to check
-     * @param context - Optional context to check ('folder', 'tag', or 'property')
+     * @param context - Optional context to check ('folder', 'tag', 'property', or 'smart-folder')
      * @returns True if the note is pinned (in any context or specified context)
      */
     isPinned(filePath: string, context?: NavigatorContext): boolean {
@@ -448,7 +450,7 @@ export class FileMetadataService extends BaseMetadataService {
         const contexts = normalizePinnedNoteContext(rawContexts);
 
         if (!context) {
-            return contexts.folder || contexts.tag || contexts.property;
+            return contexts.folder || contexts.tag || contexts.property || contexts['smart-folder'];
         }
 
         return contexts[context] || false;
@@ -456,7 +458,7 @@ export class FileMetadataService extends BaseMetadataService {
 
     /**
      * Gets all pinned notes
-     * @param context - Optional context filter ('folder', 'tag', or 'property')
+     * @param context - Optional context filter ('folder', 'tag', 'property', or 'smart-folder')
      * @returns Array of pinned file paths
      */
     getPinnedNotes(context?: NavigatorContext): string[] {
@@ -16,8 +16,9 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { EventRef, TFile } from 'obsidian';
-import { SortOption, type AlphaSortOrder, type NotebookNavigatorSettings } from '../../settings';
+import { EventRef, TFile, TFolder, parseYaml, stringifyYaml } from 'obsidian';
+import { SortOption, type AlphaSortOrder, type NotebookNavigatorSettings, type SortChainKey } from '../../settings';
+import type { FolderMetadataStorage } from '../../settings/types';
 import { ItemType } from '../../types';
 import { isFolderShortcut } from '../../types/shortcuts';
 import { BaseMetadataService } from './BaseMetadataService';
@@ -27,8 +28,22 @@ import { resolveFolderNoteName } from '../../utils/folderNoteName';
 import { getDBInstanceOrNull } from '../../storage/fileOperations';
 import type { FileContentChange } from '../../storage/IndexedDBStorage';
 import { normalizeCanonicalIconId, serializeIconForFrontmatter } from '../../utils/iconizeFormat';
-import { ensureRecord, isStringRecordValue } from '../../utils/recordUtils';
+import { ensureRecord, isStringRecordValue, sanitizeRecord } from '../../utils/recordUtils';
+import { getFolderSortChain, getSortChainKeyOption, normalizeSortChain } from '../../utils/sortUtils';
 import { getParentFolderPath } from '../../utils/pathUtils';
+import { runAsyncAction } from '../../utils/async';
+import {
+    FOLDER_METADATA_FRONTMATTER_KEY,
+    applyPortableFolderMetadataToSettings,
+    collectPortableFolderMetadataPaths,
+    getFolderMetadataSidecarPath,
+    getFolderPathForMetadataSidecar,
+    getPortableFolderMetadataKey,
+    normalizePortableFolderMetadata,
+    readPortableFolderMetadataFromSettings,
+    serializePortableFolderMetadata,
+    type PortableFolderMetadata
+} from '../../utils/folderMetadataFile';
 
 /**
  * Service for managing folder-specific metadata operations
@@ -86,6 +101,11 @@ interface FolderDisplayCacheSettingsSnapshot {
     frontmatterBackgroundField: string;
 }
 
+interface FolderMetadataFileEntry {
+    folderPath: string;
+    metadata: PortableFolderMetadata;
+}
+
 interface FolderStyleRecordSnapshot {
     icons: Record<string, string> | null;
     colors: Record<string, string> | null;
@@ -121,6 +141,14 @@ export class FolderMetadataService extends BaseMetadataService {
     private folderDisplayCacheUnsubscribe: (() => void) | null = null;
     private folderDisplayNameVersion = 0;
     private folderDisplayNameListeners = new Set<(version: number) => void>();
+    // Last synced metadata key per folder, used to detect outbound changes and skip echoes of our own writes
+    private readonly folderMetadataFileKeys = new Map<string, string>();
+    private folderMetadataFileStorage: FolderMetadataStorage | null = null;
+    private folderMetadataFileSettingsListenerProvider: SettingsUpdateListenerProvider | null = null;
+    private readonly folderMetadataFileSettingsListenerId: string;
+    private folderMetadataFileCacheRef: EventRef | null = null;
+    private folderMetadataSidecarRef: EventRef | null = null;
+    private folderMetadataFileWriteQueue: Promise<void> = Promise.resolve();
     private static readonly FOLDER_DISPLAY_CACHE_MAX_ENTRIES = 1000;
     private static readonly FOLDER_NOTE_CANDIDATE_EXTENSIONS = new Set<string>(['md', 'canvas', 'base']);
     private static readonly EXCALIDRAW_BASENAME_SUFFIX = '.excalidraw';
@@ -130,6 +158,7 @@ export class FolderMetadataService extends BaseMetadataService {
         super(...args);
         FolderMetadataService.folderDisplayCacheSettingsListenerCounter += 1;
         this.folderDisplayCacheSettingsListenerId = `folder-display-cache-${FolderMetadataService.folderDisplayCacheSettingsListenerCounter}`;
+        this.folderMetadataFileSettingsListenerId = `folder-metadata-files-${FolderMetadataService.folderDisplayCacheSettingsListenerCounter}`;
     }
 
     private clearFolderDisplayDataCache(): void {
@@ -708,6 +737,19 @@ export class FolderMetadataService extends BaseMetadataService {
             });
             this.folderDisplayCacheVaultEventRefs.length = 0;
         }
+        if (this.folderMetadataFileSettingsListenerProvider) {
+            this.folderMetadataFileSettingsListenerProvider.unregisterSettingsUpdateListener(this.folderMetadataFileSettingsListenerId);
+            this.folderMetadataFileSettingsListenerProvider = null;
+        }
+        if (this.folderMetadataFileCacheRef) {
+            this.app.metadataCache.offref(this.folderMetadataFileCacheRef);
+            this.folderMetadataFileCacheRef = null;
+        }
+        if (this.folderMetadataSidecarRef) {
+            this.app.vault.offref(this.folderMetadataSidecarRef);
+            this.folderMetadataSidecarRef = null;
+        }
+        this.folderMetadataFileKeys.clear();
         this.clearFolderDisplayDataCache();
     }
 
@@ -1393,6 +1435,40 @@ export class FolderMetadataService extends BaseMetadataService {
         return this.getEntitySortOverride(ItemType.FOLDER, folderPath);
     }
 
+    /**
+     * Sets a custom sort chain for a folder.
+     * The first key is also stored as the folder's sort override so date grouping and the sort icon follow it.
+     * @param folderPath - Path of the folder
+     * @param chain - Sort keys in priority order
+     */
+    async setFolderSortChain(folderPath: string, chain: SortChainKey[]): Promise<void> {
+        if (!this.validateFolder(folderPath)) {
+            return;
+        }
+        const normalized = normalizeSortChain(chain);
+        if (normalized.length === 0) {
+            return this.removeFolderSortOverride(folderPath);
+        }
+
+        await this.saveAndUpdate(settings => {
+            const overrides = sanitizeRecord(ensureRecord(settings.folderSortOverrides));
+            overrides[folderPath] = getSortChainKeyOption(normalized[0]);
+            settings.folderSortOverrides = overrides;
+            const chains = sanitizeRecord(ensureRecord(settings.folderSortChains));
+            chains[folderPath] = normalized;
+            settings.folderSortChains = chains;
+        });
+    }
+
+    /**
+     * Gets the custom sort chain for a folder
+     * @param folderPath - Path of the folder
+     * @returns The sort keys or undefined when the folder has no sort chain
+     */
+    getFolderSortChain(folderPath: string): SortChainKey[] | undefined {
+        return getFolderSortChain(this.settingsProvider.settings, folderPath) ?? undefined;
+    }
+
     /**
      * Sets a custom alphabetical sort order for the folder's child folders in the navigation pane.
      */
@@ -1417,6 +1493,337 @@ export class FolderMetadataService extends BaseMetadataService {
         return this.getEntityChildSortOrderOverride(ItemType.FOLDER, folderPath);
     }
 
+    /**
+     * Sets the new note file name pattern used for notes created in the folder and its subfolders.
+     * An empty pattern removes the override.
+     */
+    async setFolderNewNotePattern(folderPath: string, pattern: string): Promise<void> {
+        if (!this.validateFolder(folderPath)) {
+            return;
+        }
+        const trimmed = pattern.trim();
+        if (!trimmed) {
+            return this.removeFolderNewNotePattern(folderPath);
+        }
+
+        await this.saveAndUpdate(settings => {
+            const patterns = sanitizeRecord(ensureRecord(settings.folderNewNotePatterns));
+            patterns[folderPath] = trimmed;
+            settings.folderNewNotePatterns = patterns;
+        });
+    }
+
+    /**
+     * Removes the new note file name pattern override from a folder.
+     */
+    async removeFolderNewNotePattern(folderPath: string): Promise<void> {
+        if (!this.settingsProvider.settings.folderNewNotePatterns?.[folderPath]) {
+            return;
+        }
+
+        await this.saveAndUpdate(settings => {
+            const patterns = sanitizeRecord(ensureRecord(settings.folderNewNotePatterns));
+            delete patterns[folderPath];
+            settings.folderNewNotePatterns = patterns;
+        });
+    }
+
+    /**
+     * Gets the new note file name pattern set directly on a folder.
+     */
+    getFolderNewNotePattern(folderPath: string): string | undefined {
+        return this.settingsProvider.settings.folderNewNotePatterns?.[folderPath];
+    }
+
+    private getFolderMetadataStorage(): FolderMetadataStorage {
+        return this.settingsProvider.settings.folderMetadataStorage ?? 'settings';
+    }
+
+    /** Records the current settings metadata as the baseline for outbound file sync */
+    private captureFolderMetadataFileKeys(): void {
+        const settings = this.settingsProvider.settings;
+        this.folderMetadataFileKeys.clear();
+        collectPortableFolderMetadataPaths(settings).forEach(folderPath => {
+            const key = getPortableFolderMetadataKey(readPortableFolderMetadataFromSettings(settings, folderPath));
+            if (key) {
+                this.folderMetadataFileKeys.set(folderPath, key);
+            }
+        });
+    }
+
+    private setFolderMetadataFileKey(folderPath: string, key: string): void {
+        if (key) {
+            this.folderMetadataFileKeys.set(folderPath, key);
+        } else {
+            this.folderMetadataFileKeys.delete(folderPath);
+        }
+    }
+
+    private readFolderNoteMetadataBlock(folderNote: TFile): PortableFolderMetadata | null {
+        const frontmatter = this.app.metadataCache.getFileCache(folderNote)?.frontmatter;
+        if (!frontmatter) {
+            return null;
+        }
+        return normalizePortableFolderMetadata(frontmatter[FOLDER_METADATA_FRONTMATTER_KEY]);
+    }
+
+    private async readFolderMetadataFile(folderPath: string, storage: FolderMetadataStorage): Promise<PortableFolderMetadata | null> {
+        if (storage === 'folderNote') {
+            const folderNote = this.getFolderNoteFile(folderPath);
+            return folderNote ? this.readFolderNoteMetadataBlock(folderNote) : null;
+        }
+
+        if (storage !== 'sidecar') {
+            return null;
+        }
+
+        // Sidecars are dotfiles, which the vault does not index, so they are read through the adapter
+        const adapter = this.app.vault.adapter;
+        const sidecarPath = getFolderMetadataSidecarPath(folderPath);
+        try {
+            if (!(await adapter.exists(sidecarPath))) {
+                return null;
+            }
+            const content = await adapter.read(sidecarPath);
+            return normalizePortableFolderMetadata(content.trim().length > 0 ? parseYaml(content) : {});
+        } catch (error: unknown) {
+            console.error('Failed to read folder metadata sidecar', { folderPath, sidecarPath, error });
+            return null;
+        }
+    }
+
+    private async writeFolderMetadataFile(folderPath: string, storage: FolderMetadataStorage): Promise<boolean> {
+        if (!this.validateFolder(folderPath)) {
+            return false;
+        }
+
+        const metadata = readPortableFolderMetadataFromSettings(this.settingsProvider.settings, folderPath);
+        const serialized = serializePortableFolderMetadata(metadata);
+
+        if (storage === 'folderNote') {
+            const folderNote = this.getFolderNoteFile(folderPath);
+            if (!folderNote) {
+                return false;
+            }
+            try {
+                await this.app.fileManager.processFrontMatter(folderNote, (frontmatter: Record<string, unknown>) => {
+                    if (serialized) {
+                        frontmatter[FOLDER_METADATA_FRONTMATTER_KEY] = serialized;
+                    } else if (Reflect.has(frontmatter, FOLDER_METADATA_FRONTMATTER_KEY)) {
+                        delete frontmatter[FOLDER_METADATA_FRONTMATTER_KEY];
+                    }
+                });
+                return true;
+            } catch (error: unknown) {
+                console.error('Failed to write folder metadata to folder note', { folderPath, folderNotePath: folderNote.path, error });
+                return false;
+            }
+        }
+
+        if (storage !== 'sidecar') {
+            return false;
+        }
+
+        const adapter = this.app.vault.adapter;
+        const sidecarPath = getFolderMetadataSidecarPath(folderPath);
+        try {
+            if (serialized) {
+                await adapter.write(sidecarPath, stringifyYaml(serialized));
+            } else if (await adapter.exists(sidecarPath)) {
+                await adapter.remove(sidecarPath);
+            }
+            return true;
+        } catch (error: unknown) {
+            console.error('Failed to write folder metadata sidecar', { folderPath, sidecarPath, error });
+            return false;
+        }
+    }
+
+    // Serializes file writes so rapid settings changes land in order
+    private enqueueFolderMetadataFileWrites(folderPaths: string[], storage: FolderMetadataStorage): Promise<number> {
+        const task = this.folderMetadataFileWriteQueue.then(async () => {
+            let written = 0;
+            for (const folderPath of folderPaths) {
+                if (await this.writeFolderMetadataFile(folderPath, storage)) {
+                    written += 1;
+                }
+            }
+            return written;
+        });
+        this.folderMetadataFileWriteQueue = task.then(
+            () => undefined,
+            () => undefined
+        );
+        return task;
+    }
+
+    // Applies file metadata to settings and moves the baseline so the change is not written back
+    private async applyFolderMetadataFromFiles(entries: FolderMetadataFileEntry[]): Promise<number> {
+        let applied = 0;
+        await this.saveAndUpdate(settings => {
+            entries.forEach(({ folderPath, metadata }) => {
+                if (applyPortableFolderMetadataToSettings(settings, folderPath, metadata)) {
+                    applied += 1;
+                }
+                this.setFolderMetadataFileKey(
+                    folderPath,
+                    getPortableFolderMetadataKey(readPortableFolderMetadataFromSettings(settings, folderPath))
+                );
+            });
+            return applied > 0;
+        });
+        return applied;
+    }
+
+    private handleFolderMetadataFileSettingsUpdate(): void {
+        const storage = this.getFolderMetadataStorage();
+        if (storage !== this.folderMetadataFileStorage) {
+            // Switching storage loads existing files; writing everything out is left to the migration command
+            this.folderMetadataFileStorage = storage;
+            this.captureFolderMetadataFileKeys();
+            if (storage !== 'settings') {
+                runAsyncAction(async () => {
+                    await this.importFolderMetadataFiles();
+                });
+            }
+            return;
+        }
+
+        if (storage === 'settings') {
+            return;
+        }
+
+        const settings = this.settingsProvider.settings;
+        const folderPaths = new Set<string>([...this.folderMetadataFileKeys.keys(), ...collectPortableFolderMetadataPaths(settings)]);
+        const changedPaths: string[] = [];
+        folderPaths.forEach(folderPath => {
+            const key = getPortableFolderMetadataKey(readPortableFolderMetadataFromSettings(settings, folderPath));
+            if (key === (this.folderMetadataFileKeys.get(folderPath) ?? '')) {
+                return;
+            }
+            this.setFolderMetadataFileKey(folderPath, key);
+            changedPaths.push(folderPath);
+        });
+
+        if (changedPaths.length > 0) {
+            runAsyncAction(async () => {
+                await this.enqueueFolderMetadataFileWrites(changedPaths, storage);
+            });
+        }
+    }
+
+    private handleFolderMetadataFileCacheChange(file: TFile): void {
+        if (this.getFolderMetadataStorage() !== 'folderNote') {
+            return;
+        }
+
+        const folder = file.parent;
+        if (!folder || this.getFolderNoteFile(folder.path)?.path !== file.path) {
+            return;
+        }
+
+        // A folder note without the metadata block leaves the folder's settings untouched
+        const metadata = this.readFolderNoteMetadataBlock(file);
+        if (!metadata || getPortableFolderMetadataKey(metadata) === (this.folderMetadataFileKeys.get(folder.path) ?? '')) {
+            return;
+        }
+
+        runAsyncAction(async () => {
+            await this.applyFolderMetadataFromFiles([{ folderPath: folder.path, metadata }]);
+        });
+    }
+
+    private handleFolderMetadataSidecarChange(path: string): void {
+        if (this.getFolderMetadataStorage() !== 'sidecar') {
+            return;
+        }
+
+        const folderPath = getFolderPathForMetadataSidecar(path);
+        if (folderPath === null || !this.validateFolder(folderPath)) {
+            return;
+        }
+
+        runAsyncAction(async () => {
+            // Let queued writes land first so the plugin's own sidecar writes are not read back as edits
+            await this.folderMetadataFileWriteQueue;
+            // A deleted or unreadable sidecar leaves the folder's settings untouched
+            const metadata = await this.readFolderMetadataFile(folderPath, 'sidecar');
+            if (!metadata || getPortableFolderMetadataKey(metadata) === (this.folderMetadataFileKeys.get(folderPath) ?? '')) {
+                return;
+            }
+            await this.applyFolderMetadataFromFiles([{ folderPath, metadata }]);
+        });
+    }
+
+    /**
+     * Loads folder metadata files into settings and starts two-way sync.
+     * Metadata found in files replaces the matching settings entries.
+     */
+    async startFolderMetadataFileSync(): Promise<void> {
+        if (this.folderMetadataFileSettingsListenerProvider) {
+            return;
+        }
+
+        const provider = this.getSettingsUpdateListenerProvider();
+        if (!provider) {
+            return;
+        }
+
+        this.folderMetadataFileStorage = this.getFolderMetadataStorage();
+        this.captureFolderMetadataFileKeys();
+        provider.registerSettingsUpdateListener(this.folderMetadataFileSettingsListenerId, () => {
+            this.handleFolderMetadataFileSettingsUpdate();
+        });
+        this.folderMetadataFileSettingsListenerProvider = provider;
+        this.folderMetadataFileCacheRef = this.app.metadataCache.on('changed', file => {
+            this.handleFolderMetadataFileCacheChange(file);
+        });
+        // Sidecars are dotfiles, so changes arrive through raw file system events instead of the metadata cache
+        this.folderMetadataSidecarRef = this.app.vault.on('raw', path => {
+            this.handleFolderMetadataSidecarChange(path);
+        });
+
+        await this.importFolderMetadataFiles();
+    }
+
+    /**
+     * Reads metadata from every folder's note or sidecar into settings.
+     * Returns the number of folders whose settings changed.
+     */
+    async importFolderMetadataFiles(): Promise<number> {
+        const storage = this.getFolderMetadataStorage();
+        if (storage === 'settings') {
+            return 0;
+        }
+
+        const entries: FolderMetadataFileEntry[] = [];
+        for (const file of this.app.vault.getAllLoadedFiles()) {
+            if (!(file instanceof TFolder)) {
+                continue;
+            }
+            const metadata = await this.readFolderMetadataFile(file.path, storage);
+            if (metadata) {
+                entries.push({ folderPath: file.path, metadata });
+            }
+        }
+
+        return entries.length > 0 ? this.applyFolderMetadataFromFiles(entries) : 0;
+    }
+
+    /**
+     * Writes all folder metadata from settings to the configured storage.
+     * Returns the number of folders written.
+     */
+    async exportFolderMetadataFiles(): Promise<number> {
+        const storage = this.getFolderMetadataStorage();
+        if (storage === 'settings') {
+            return 0;
+        }
+
+        this.captureFolderMetadataFileKeys();
+        return this.enqueueFolderMetadataFileWrites(collectPortableFolderMetadataPaths(this.settingsProvider.settings), storage);
+    }
+
     /**
      * Handles folder rename by updating all associated metadata
      * @param oldPath - Previous folder path
@@ -1431,8 +1838,10 @@ export class FolderMetadataService extends BaseMetadataService {
             changed = this.updateNestedPaths(settings.folderBackgroundColors, oldPath, newPath) || changed;
             changed = this.updateNestedPaths(settings.folderIcons, oldPath, newPath) || changed;
             changed = this.updateNestedPaths(settings.folderSortOverrides, oldPath, newPath) || changed;
+            changed = this.updateNestedPaths(settings.folderSortChains, oldPath, newPath) || changed;
             changed = this.updateNestedPaths(settings.folderTreeSortOverrides, oldPath, newPath) || changed;
             changed = this.updateNestedPaths(settings.folderAppearances, oldPath, newPath) || changed;
+            changed = this.updateNestedPaths(settings.folderNewNotePatterns, oldPath, newPath) || changed;
 
             const shortcutsChanged = this.updateShortcuts(settings, shortcut => {
                 if (!isFolderShortcut(shortcut) || shortcut.path !== oldPath) {
@@ -1467,8 +1876,10 @@ export class FolderMetadataService extends BaseMetadataService {
             changed = this.deleteNestedPaths(settings.folderBackgroundColors, folderPath) || changed;
             changed = this.deleteNestedPaths(settings.folderIcons, folderPath) || changed;
             changed = this.deleteNestedPaths(settings.folderSortOverrides, folderPath) || changed;
+            changed = this.deleteNestedPaths(settings.folderSortChains, folderPath) || changed;
             changed = this.deleteNestedPaths(settings.folderTreeSortOverrides, folderPath) || changed;
             changed = this.deleteNestedPaths(settings.folderAppearances, folderPath) || changed;
+            changed = this.deleteNestedPaths(settings.folderNewNotePatterns, folderPath) || changed;
 
             const shortcutsChanged = this.updateShortcuts(settings, shortcut => {
                 if (!isFolderShortcut(shortcut)) {
@@ -1499,8 +1910,10 @@ export class FolderMetadataService extends BaseMetadataService {
             this.cleanupMetadata(targetSettings, 'folderBackgroundColors', validator),
             this.cleanupMetadata(targetSettings, 'folderIcons', validator),
             this.cleanupMetadata(targetSettings, 'folderSortOverrides', validator),
+            this.cleanupMetadata(targetSettings, 'folderSortChains', validator),
             this.cleanupMetadata(targetSettings, 'folderTreeSortOverrides', validator),
-            this.cleanupMetadata(targetSettings, 'folderAppearances', validator)
+            this.cleanupMetadata(targetSettings, 'folderAppearances', validator),
+            this.cleanupMetadata(targetSettings, 'folderNewNotePatterns', validator)
         ]);
 
         return results.some(changed => changed);
@@ -1540,8 +1953,10 @@ export class FolderMetadataService extends BaseMetadataService {
             this.cleanupMetadata(targetSettings, 'folderBackgroundColors', validator),
             this.cleanupMetadata(targetSettings, 'folderIcons', validator),
             this.cleanupMetadata(targetSettings, 'folderSortOverrides', validator),
+            this.cleanupMetadata(targetSettings, 'folderSortChains', validator),
             this.cleanupMetadata(targetSettings, 'folderTreeSortOverrides', validator),
-            this.cleanupMetadata(targetSettings, 'folderAppearances', validator)
+            this.cleanupMetadata(targetSettings, 'folderAppearances', validator),
+            this.cleanupMetadata(targetSettings, 'folderNewNotePatterns', validator)
         ]);
 
         return results.some(changed => changed);
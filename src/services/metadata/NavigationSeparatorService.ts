@@ -31,7 +31,12 @@ import {
     buildTagSeparatorKey,
     parseNavigationSeparatorKey
 } from '../../utils/navigationSeparators';
-import { createConfiguredPropertyNodeValidator, normalizePropertyNodeId } from '../../utils/propertyTree';
+import {
+    createConfiguredPropertyNodeValidator,
+    normalizePropertyNodeId,
+    pickPropertySubtreeEntries,
+    replacePropertySubtreeEntries
+} from '../../utils/propertyTree';
 import { normalizeTagPath } from '../../utils/tagUtils';
 import { TAGGED_TAG_ID, UNTAGGED_TAG_ID } from '../../types';
 import { ensureRecord, isBooleanRecordValue } from '../../utils/recordUtils';
@@ -40,6 +45,7 @@ import { getActivePropertyFields } from '../../utils/vaultProfiles';
 
 const FOLDER_PREFIX = 'folder:';
 const TAG_PREFIX = 'tag:';
+const PROPERTY_PREFIX = 'property:';
 const VIRTUAL_TAG_PATHS = new Set([TAGGED_TAG_ID, UNTAGGED_TAG_ID]);
 
 /**
@@ -187,6 +193,48 @@ export class NavigationSeparatorService extends BaseMetadataService {
         return changed;
     }
 
+    /** Applies property value rename mutations without triggering a save */
+    applyPropertyRename(
+        targetSettings: NotebookNavigatorSettings,
+        oldNodeId: string,
+        newNodeId: string,
+        preserveExisting = false
+    ): boolean {
+        const store = targetSettings.navigationSeparators;
+        if (!store) {
+            return false;
+        }
+        const normalizedOld = normalizePropertyNodeId(oldNodeId);
+        const normalizedNew = normalizePropertyNodeId(newNodeId);
+        if (!normalizedOld || !normalizedNew) {
+            return false;
+        }
+        const changed = this.updatePrefixedPaths(store, PROPERTY_PREFIX, normalizedOld, normalizedNew, preserveExisting);
+        if (changed) {
+            this.markSeparatorsChangedIfLive(targetSettings);
+        }
+        return changed;
+    }
+
+    /** Returns separators of the given normalized property value nodes and the values nested below them */
+    capturePropertySeparators(nodeIds: readonly string[]): Record<string, boolean> {
+        return pickPropertySubtreeEntries(this.settingsProvider.settings.navigationSeparators, nodeIds.map(buildPropertySeparatorKey));
+    }
+
+    /** Replaces separators of the given normalized property value nodes with captured entries */
+    applyPropertySeparatorRestore(
+        targetSettings: NotebookNavigatorSettings,
+        nodeIds: readonly string[],
+        entries: Record<string, boolean>
+    ): boolean {
+        const store = this.ensureStore(targetSettings);
+        const changed = replacePropertySubtreeEntries(store, nodeIds.map(buildPropertySeparatorKey), entries);
+        if (changed) {
+            this.markSeparatorsChangedIfLive(targetSettings);
+        }
+        return changed;
+    }
+
     /** Removes separators that reference folders or tags that no longer exist */
     async cleanupSeparators(targetSettings: NotebookNavigatorSettings = this.settingsProvider.settings): Promise<boolean> {
         const tagLookup = this.getKnownTagPaths();
@@ -27,16 +27,27 @@ import {
     createConfiguredPropertyNodeValidator,
     getPropertyKeyNodeIdFromNodeId,
     normalizePropertyKeyNodeId,
-    normalizePropertyNodeId
+    normalizePropertyNodeId,
+    pickPropertySubtreeEntries,
+    replacePropertySubtreeEntries
 } from '../../utils/propertyTree';
 import { getActivePropertyFields } from '../../utils/vaultProfiles';
 import { BaseMetadataService } from './BaseMetadataService';
 
+type SettingsMutation = (settings: NotebookNavigatorSettings) => boolean;
+
 export interface PropertyColorData {
     color?: string;
     background?: string;
 }
 
+/** Colors and icons of property value nodes and the values nested below them */
+export interface PropertyValueAppearanceSnapshot {
+    propertyColors: Record<string, string>;
+    propertyBackgroundColors: Record<string, string>;
+    propertyIcons: Record<string, string>;
+}
+
 export class PropertyMetadataService extends BaseMetadataService {
     constructor(app: App, settingsProvider: ISettingsProvider) {
         super(app, settingsProvider);
@@ -187,6 +198,89 @@ export class PropertyMetadataService extends BaseMetadataService {
         return this.getEntityChildSortOrderOverride(ItemType.PROPERTY, keyNodeId);
     }
 
+    /**
+     * Moves property value colors and icons when a value is renamed.
+     * Values nested below the renamed value (`old/child`) move along with it.
+     */
+    async handlePropertyValueRename(
+        oldNodeId: string,
+        newNodeId: string,
+        preserveExisting = false,
+        extraMutation?: SettingsMutation
+    ): Promise<void> {
+        const normalizedOld = normalizePropertyNodeId(oldNodeId);
+        const normalizedNew = normalizePropertyNodeId(newNodeId);
+        if (!normalizedOld || !normalizedNew || normalizedOld === normalizedNew) {
+            if (extraMutation) {
+                await this.saveAndUpdate(settings => extraMutation(settings));
+            }
+            return;
+        }
+
+        const settingsSnapshot = this.settingsProvider.settings;
+        const requiresUpdate =
+            this.willUpdateNestedPaths(settingsSnapshot.propertyColors, normalizedOld, normalizedNew, preserveExisting) ||
+            this.willUpdateNestedPaths(settingsSnapshot.propertyBackgroundColors, normalizedOld, normalizedNew, preserveExisting) ||
+            this.willUpdateNestedPaths(settingsSnapshot.propertyIcons, normalizedOld, normalizedNew, preserveExisting);
+
+        if (!requiresUpdate && !extraMutation) {
+            return;
+        }
+
+        await this.saveAndUpdate(settings => {
+            let changed = false;
+            if (requiresUpdate) {
+                changed = this.updateNestedPaths(settings.propertyColors, normalizedOld, normalizedNew, preserveExisting) || changed;
+                changed =
+                    this.updateNestedPaths(settings.propertyBackgroundColors, normalizedOld, normalizedNew, preserveExisting) || changed;
+                changed = this.updateNestedPaths(settings.propertyIcons, normalizedOld, normalizedNew, preserveExisting) || changed;
+            }
+
+            if (extraMutation) {
+                changed = extraMutation(settings) || changed;
+            }
+
+            return changed;
+        });
+    }
+
+    /**
+     * Captures colors and icons of the given normalized value nodes and the values nested below them
+     */
+    capturePropertyValueAppearance(nodeIds: readonly string[]): PropertyValueAppearanceSnapshot {
+        const settings = this.settingsProvider.settings;
+        return {
+            propertyColors: pickPropertySubtreeEntries(settings.propertyColors, nodeIds),
+            propertyBackgroundColors: pickPropertySubtreeEntries(settings.propertyBackgroundColors, nodeIds),
+            propertyIcons: pickPropertySubtreeEntries(settings.propertyIcons, nodeIds)
+        };
+    }
+
+    /**
+     * Restores captured colors and icons; entries added for the nodes after the capture are removed
+     */
+    async restorePropertyValueAppearance(
+        nodeIds: readonly string[],
+        snapshot: PropertyValueAppearanceSnapshot,
+        extraMutation?: SettingsMutation
+    ): Promise<void> {
+        await this.saveAndUpdate(settings => {
+            settings.propertyColors ??= {};
+            settings.propertyBackgroundColors ??= {};
+            settings.propertyIcons ??= {};
+            let changed = replacePropertySubtreeEntries(settings.propertyColors, nodeIds, snapshot.propertyColors);
+            changed =
+                replacePropertySubtreeEntries(settings.propertyBackgroundColors, nodeIds, snapshot.propertyBackgroundColors) || changed;
+            changed = replacePropertySubtreeEntries(settings.propertyIcons, nodeIds, snapshot.propertyIcons) || changed;
+
+            if (extraMutation) {
+                changed = extraMutation(settings) || changed;
+            }
+
+            return changed;
+        });
+    }
+
     private createPropertyNodeValidator(
         targetSettings: NotebookNavigatorSettings,
         validators: CleanupValidators
@@ -349,22 +349,6 @@ export class TagMetadataService extends BaseMetadataService {
         return changed;
     }
 
-    /**
-     * Checks if updateNestedPaths would modify a metadata record without mutating it
-     */
-    private willUpdateNestedPaths<T>(
-        metadata: Record<string, T> | undefined,
-        oldPath: string,
-        newPath: string,
-        preserveExisting: boolean
-    ): boolean {
-        if (!metadata) {
-            return false;
-        }
-        const clone = { ...metadata };
-        return this.updateNestedPaths(clone, oldPath, newPath, preserveExisting);
-    }
-
     /**
      * Updates all tag metadata entries when a tag is renamed.
      * Migrates direct entries and nested descendants to the new path.
@@ -18,6 +18,8 @@
 
 import type { App, TFile } from 'obsidian';
 import { casefold } from '../../utils/recordUtils';
+import { resolvePropertyValueChange, resolvePropertyValueRename, writePropertyValue } from './propertyValueEdits';
+import type { PropertyValueChange, PropertyValueEdit, PropertyValueRename } from './types';
 
 export class PropertyFileMutations {
     constructor(private readonly app: App) {}
@@ -117,4 +119,94 @@ export class PropertyFileMutations {
 
         return changed;
     }
+
+    /**
+     * Applies a set/append/remove property value edit to a markdown file.
+     * Returns the applied change, or null when the file was left unchanged.
+     */
+    async applyPropertyValueEditToFile(file: TFile, edit: PropertyValueEdit): Promise<PropertyValueChange | null> {
+        return this.applyPropertyValueChangeToFile(file, edit.key, frontmatter => resolvePropertyValueChange(frontmatter, edit));
+    }
+
+    /**
+     * Applies the change resolved from a markdown file's current frontmatter.
+     * Returns the applied change, or null when the resolver left the file unchanged.
+     */
+    async applyPropertyValueChangeToFile(
+        file: TFile,
+        key: string,
+        resolveChange: (frontmatter: Record<string, unknown>) => PropertyValueChange | null
+    ): Promise<PropertyValueChange | null> {
+        if (!this.isMarkdownFile(file)) {
+            return null;
+        }
+
+        let applied: PropertyValueChange | null = null;
+        try {
+            await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+                const change = resolveChange(frontmatter);
+                if (!change) {
+                    return;
+                }
+                writePropertyValue(frontmatter, change.key, change.after);
+                applied = change;
+            });
+        } catch (error: unknown) {
+            console.error(`[Notebook Navigator] Failed to edit property "${key}" in ${file.path}`, error);
+            throw error;
+        }
+
+        return applied;
+    }
+
+    /**
+     * Renames a property value, and values nested below it, in a markdown file.
+     * Returns the applied change, or null when the file has no matching value.
+     */
+    async renamePropertyValueInFile(file: TFile, rename: PropertyValueRename): Promise<PropertyValueChange | null> {
+        if (!this.isMarkdownFile(file)) {
+            return null;
+        }
+
+        let applied: PropertyValueChange | null = null;
+        try {
+            await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+                const change = resolvePropertyValueRename(frontmatter, rename);
+                if (!change) {
+                    return;
+                }
+                writePropertyValue(frontmatter, change.key, change.after);
+                applied = change;
+            });
+        } catch (error: unknown) {
+            console.error(
+                `[Notebook Navigator] Failed to rename property value "${rename.key}: ${rename.oldValuePath}" → "${rename.newValue}" in ${file.path}`,
+                error
+            );
+            throw error;
+        }
+
+        return applied;
+    }
+
+    /**
+     * Writes a previously captured property value back to a markdown file.
+     * An undefined value removes the key.
+     */
+    async restorePropertyValueInFile(file: TFile, key: string, value: unknown): Promise<boolean> {
+        if (!this.isMarkdownFile(file) || !casefold(key)) {
+            return false;
+        }
+
+        try {
+            await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+                writePropertyValue(frontmatter, key, value);
+            });
+        } catch (error: unknown) {
+            console.error(`[Notebook Navigator] Failed to restore property "${key}" in ${file.path}`, error);
+            throw error;
+        }
+
+        return true;
+    }
 }
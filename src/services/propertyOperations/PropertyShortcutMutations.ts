@@ -0,0 +1,172 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import type { ShortcutEntry } from '../../types/shortcuts';
+import { isPropertyShortcut } from '../../types/shortcuts';
+import { isInPropertyNodeSubtree, normalizePropertyNodeId } from '../../utils/propertyTree';
+import { mutateVaultProfileShortcuts } from '../../utils/vaultProfiles';
+import type { MetadataService } from '../MetadataService';
+
+/** Property shortcuts captured per vault profile id with their position in the shortcut list */
+export type PropertyShortcutSnapshot = Map<string, { index: number; shortcut: ShortcutEntry }[]>;
+
+/**
+ * Handles updates to property shortcuts when property values are renamed
+ */
+export class PropertyShortcutMutations {
+    constructor(private readonly getMetadataService: () => MetadataService | null) {}
+
+    /**
+     * Updates property shortcuts after a value is renamed
+     * Handles both the value node and values nested below it; shortcuts that collide with an existing one are dropped
+     */
+    async updatePropertyShortcutsAfterRename(oldNodeId: string, newNodeId: string): Promise<void> {
+        const normalizedOld = normalizePropertyNodeId(oldNodeId);
+        const normalizedNew = normalizePropertyNodeId(newNodeId);
+        if (!normalizedOld || !normalizedNew || normalizedOld === normalizedNew) {
+            return;
+        }
+
+        const metadataService = this.getMetadataService();
+        const settingsProvider = metadataService?.getSettingsProvider();
+        if (!settingsProvider) {
+            return;
+        }
+
+        const prefix = `${normalizedOld}/`;
+        const resolveNodeId = (nodeId: string): string => normalizePropertyNodeId(nodeId) ?? nodeId;
+
+        const didChange = mutateVaultProfileShortcuts(settingsProvider.settings.vaultProfiles, shortcuts => {
+            const preservedNodeIds = new Set<string>();
+            for (const shortcut of shortcuts) {
+                if (isPropertyShortcut(shortcut)) {
+                    const nodeId = resolveNodeId(shortcut.nodeId);
+                    if (nodeId !== normalizedOld && !nodeId.startsWith(prefix)) {
+                        preservedNodeIds.add(nodeId);
+                    }
+                }
+            }
+
+            const occupiedNodeIds = new Set<string>();
+            let changed = false;
+            const updated: ShortcutEntry[] = [];
+
+            for (const shortcut of shortcuts) {
+                if (!isPropertyShortcut(shortcut)) {
+                    updated.push(shortcut);
+                    continue;
+                }
+
+                const currentNodeId = resolveNodeId(shortcut.nodeId);
+                const isDirectMatch = currentNodeId === normalizedOld;
+                const isDescendantMatch = currentNodeId.startsWith(prefix);
+                if (!isDirectMatch && !isDescendantMatch) {
+                    updated.push(shortcut);
+                    occupiedNodeIds.add(currentNodeId);
+                    continue;
+                }
+
+                changed = true;
+                const targetNodeId = isDirectMatch ? normalizedNew : `${normalizedNew}/${currentNodeId.slice(prefix.length)}`;
+                if (preservedNodeIds.has(targetNodeId) || occupiedNodeIds.has(targetNodeId)) {
+                    continue;
+                }
+
+                updated.push({ ...shortcut, nodeId: targetNodeId });
+                occupiedNodeIds.add(targetNodeId);
+            }
+
+            return changed ? updated : null;
+        });
+
+        if (!didChange) {
+            return;
+        }
+
+        try {
+            await settingsProvider.saveSettingsAndUpdate();
+        } catch (error) {
+            console.error('[Notebook Navigator] Failed to update property shortcuts after rename', error);
+        }
+    }
+
+    /**
+     * Captures shortcuts of the given value nodes and the values nested below them
+     */
+    capturePropertyShortcuts(nodeIds: readonly string[]): PropertyShortcutSnapshot {
+        const snapshot: PropertyShortcutSnapshot = new Map();
+        const rootIds = this.normalizeNodeIds(nodeIds);
+        const profiles = this.getMetadataService()?.getSettingsProvider().settings.vaultProfiles ?? [];
+        profiles.forEach(profile => {
+            const captured: { index: number; shortcut: ShortcutEntry }[] = [];
+            (profile.shortcuts ?? []).forEach((shortcut, index) => {
+                if (this.isShortcutInSubtree(shortcut, rootIds)) {
+                    captured.push({ index, shortcut: { ...shortcut } });
+                }
+            });
+            snapshot.set(profile.id, captured);
+        });
+        return snapshot;
+    }
+
+    /**
+     * Puts captured shortcuts back at their previous positions and removes shortcuts added for the nodes since
+     */
+    async restorePropertyShortcuts(nodeIds: readonly string[], snapshot: PropertyShortcutSnapshot): Promise<void> {
+        const settingsProvider = this.getMetadataService()?.getSettingsProvider();
+        if (!settingsProvider) {
+            return;
+        }
+
+        const rootIds = this.normalizeNodeIds(nodeIds);
+        let didChange = false;
+        settingsProvider.settings.vaultProfiles.forEach(profile => {
+            const current = profile.shortcuts ?? [];
+            const captured = snapshot.get(profile.id) ?? [];
+            const restored = current.filter(shortcut => !this.isShortcutInSubtree(shortcut, rootIds));
+            if (restored.length === current.length && captured.length === 0) {
+                return;
+            }
+            captured.forEach(({ index, shortcut }) => {
+                restored.splice(Math.min(index, restored.length), 0, { ...shortcut });
+            });
+            profile.shortcuts = restored;
+            didChange = true;
+        });
+
+        if (!didChange) {
+            return;
+        }
+
+        try {
+            await settingsProvider.saveSettingsAndUpdate();
+        } catch (error) {
+            console.error('[Notebook Navigator] Failed to restore property shortcuts', error);
+        }
+    }
+
+    private normalizeNodeIds(nodeIds: readonly string[]): string[] {
+        return nodeIds.flatMap(nodeId => normalizePropertyNodeId(nodeId) ?? []);
+    }
+
+    private isShortcutInSubtree(shortcut: ShortcutEntry, rootIds: readonly string[]): boolean {
+        if (!isPropertyShortcut(shortcut)) {
+            return false;
+        }
+        return isInPropertyNodeSubtree(normalizePropertyNodeId(shortcut.nodeId) ?? shortcut.nodeId, rootIds);
+    }
+}
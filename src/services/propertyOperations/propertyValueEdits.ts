@@ -0,0 +1,237 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { normalizePropertyTreeValuePath, parseStrictWikiLink } from '../../utils/propertyUtils';
+import { casefold } from '../../utils/recordUtils';
+import type { PropertyValueChange, PropertyValueEdit, PropertyValueRename } from './types';
+
+function isEmptyPropertyValue(value: unknown): boolean {
+    return value === undefined || value === null || value === '';
+}
+
+// Compares list entries case-insensitively so appending "Done" to ["done"] is a no-op
+function matchesListValue(item: unknown, value: string): boolean {
+    if (typeof item !== 'string' && typeof item !== 'number' && typeof item !== 'boolean') {
+        return false;
+    }
+    return casefold(String(item)) === casefold(value);
+}
+
+// Converts entered text to the type of an existing value so numbers and checkboxes keep their YAML type
+function coercePropertyInput(value: string, reference: unknown): string | number | boolean {
+    if (typeof reference === 'number') {
+        const parsed = Number(value);
+        return Number.isFinite(parsed) ? parsed : value;
+    }
+    if (typeof reference === 'boolean') {
+        const normalized = casefold(value);
+        if (normalized === 'true' || normalized === 'false') {
+            return normalized === 'true';
+        }
+    }
+    return value;
+}
+
+/**
+ * Finds the frontmatter key that case-insensitively matches the provided key.
+ */
+export function findFrontmatterKey(frontmatter: Record<string, unknown> | null | undefined, key: string): string | undefined {
+    const normalizedKey = casefold(key);
+    if (!frontmatter || !normalizedKey) {
+        return undefined;
+    }
+    return Object.keys(frontmatter).find(candidate => casefold(candidate) === normalizedKey);
+}
+
+/**
+ * Resolves how a property value edit changes one note's frontmatter.
+ * Returns null when the edit is invalid or the note already matches the requested state.
+ */
+export function resolvePropertyValueChange(
+    frontmatter: Record<string, unknown> | null | undefined,
+    edit: PropertyValueEdit
+): PropertyValueChange | null {
+    const displayKey = edit.key.trim();
+    if (!casefold(displayKey)) {
+        return null;
+    }
+
+    const existingKey = findFrontmatterKey(frontmatter, displayKey);
+    const key = existingKey ?? displayKey;
+    const before = existingKey !== undefined && frontmatter ? frontmatter[existingKey] : undefined;
+    const value = edit.value.trim();
+
+    switch (edit.mode) {
+        case 'set': {
+            if (!value) {
+                return null;
+            }
+            const after = coercePropertyInput(value, before);
+            if (before === after) {
+                return null;
+            }
+            return { key, before, after };
+        }
+        case 'append': {
+            if (!value) {
+                return null;
+            }
+            const current: unknown[] = Array.isArray(before) ? before : isEmptyPropertyValue(before) ? [] : [before];
+            if (current.some(item => matchesListValue(item, value))) {
+                return null;
+            }
+            const reference = current.find(item => !isEmptyPropertyValue(item));
+            return { key, before, after: [...current, coercePropertyInput(value, reference)] };
+        }
+        case 'remove':
+            if (existingKey === undefined) {
+                return null;
+            }
+            return { key, before, after: undefined };
+    }
+}
+
+/**
+ * Writes a property value into mutable frontmatter.
+ * Other casing variants of the key are removed; an undefined value removes the key.
+ */
+export function writePropertyValue(frontmatter: Record<string, unknown>, key: string, value: unknown): void {
+    const normalizedKey = casefold(key);
+    Object.keys(frontmatter).forEach(candidate => {
+        if (candidate !== key && casefold(candidate) === normalizedKey) {
+            delete frontmatter[candidate];
+        }
+    });
+
+    if (value === undefined) {
+        delete frontmatter[key];
+        return;
+    }
+    frontmatter[key] = value;
+}
+
+// Keeps a renamed wiki link a link: `[[Foo]]` becomes `[[Bar]]` and `[[Foo|Alias]]` keeps its target and becomes `[[Foo|Bar]]`
+function formatRenamedWikiLink(raw: string, newValue: string): string {
+    const link = parseStrictWikiLink(raw);
+    if (!link || parseStrictWikiLink(newValue)) {
+        return newValue;
+    }
+    const inner = raw.trim().slice(2, -2);
+    return inner.includes('|') ? `[[${link.target}|${newValue}]]` : `[[${newValue}]]`;
+}
+
+// Renames a single scalar when it matches the old value path or sits below it (`old/child` → `new/child`).
+// Wiki links only match exactly because their path is the link display text.
+function renameScalarPropertyValue(value: string | number | boolean, oldValuePath: string, newValue: string): string | null {
+    const raw = typeof value === 'string' ? value.trim() : value.toString();
+    const normalized = normalizePropertyTreeValuePath(raw);
+    if (normalized === oldValuePath) {
+        return typeof value === 'string' ? formatRenamedWikiLink(raw, newValue) : newValue;
+    }
+
+    if (typeof value !== 'string' || parseStrictWikiLink(raw) || !normalized.startsWith(`${oldValuePath}/`)) {
+        return null;
+    }
+
+    const segments = raw.split('/');
+    const prefixLength = oldValuePath.split('/').length;
+    if (casefold(segments.slice(0, prefixLength).join('/')) !== oldValuePath) {
+        return null;
+    }
+
+    const suffix = segments.slice(prefixLength).join('/');
+    return suffix.length > 0 ? `${newValue}/${suffix}` : newValue;
+}
+
+/**
+ * Renames matching entries in a frontmatter value.
+ * Lists are renamed entry by entry and renamed entries that collide with an existing entry are dropped (merge).
+ * Returns the original value when nothing matched.
+ */
+function renamePropertyValueEntries(value: unknown, oldValuePath: string, newValue: string): unknown {
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        return renameScalarPropertyValue(value, oldValuePath, newValue) ?? value;
+    }
+
+    if (!Array.isArray(value)) {
+        return value;
+    }
+
+    let changed = false;
+    const renamed = value.map(item => {
+        const next = renamePropertyValueEntries(item, oldValuePath, newValue);
+        if (next !== item) {
+            changed = true;
+        }
+        return next;
+    });
+
+    if (!changed) {
+        return value;
+    }
+
+    const seen = new Set<string>();
+    return renamed.filter(item => {
+        if (typeof item !== 'string' && typeof item !== 'number' && typeof item !== 'boolean') {
+            return true;
+        }
+        const normalized = normalizePropertyTreeValuePath(typeof item === 'string' ? item : item.toString());
+        if (seen.has(normalized)) {
+            return false;
+        }
+        seen.add(normalized);
+        return true;
+    });
+}
+
+/**
+ * Resolves how a property value rename changes one note's frontmatter.
+ * Returns null when the note has no matching value.
+ */
+export function resolvePropertyValueRename(
+    frontmatter: Record<string, unknown> | null | undefined,
+    rename: PropertyValueRename
+): PropertyValueChange | null {
+    const oldValuePath = normalizePropertyTreeValuePath(rename.oldValuePath);
+    const newValue = rename.newValue.trim();
+    const key = findFrontmatterKey(frontmatter, rename.key);
+    if (!oldValuePath || !newValue || key === undefined || !frontmatter) {
+        return null;
+    }
+
+    const before = frontmatter[key];
+    const after = renamePropertyValueEntries(before, oldValuePath, newValue);
+    if (after === before) {
+        return null;
+    }
+
+    return { key, before, after };
+}
+
+/**
+ * Returns true when a frontmatter value contains the value path or a value nested below it.
+ */
+export function containsPropertyValuePath(value: unknown, valuePath: string): boolean {
+    if (Array.isArray(value)) {
+        return value.some(item => containsPropertyValuePath(item, valuePath));
+    }
+    if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+        return false;
+    }
+    return renameScalarPropertyValue(value, valuePath, valuePath) !== null;
+}
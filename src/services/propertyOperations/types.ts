@@ -24,3 +24,52 @@ export interface PropertyKeyRenameEventPayload {
 export interface PropertyKeyDeleteEventPayload {
     key: string;
 }
+
+/**
+ * How a batch edit changes a property on each note.
+ * - `set`: replaces the value
+ * - `append`: adds the value to a list, converting a single value into a list
+ * - `remove`: deletes the property key
+ */
+export type PropertyValueEditMode = 'set' | 'append' | 'remove';
+
+export interface PropertyValueEdit {
+    key: string;
+    value: string;
+    mode: PropertyValueEditMode;
+}
+
+/**
+ * Resolved change for one note.
+ * `key` is the frontmatter key that is written, keeping the casing already used in the note.
+ * `before` and `after` are undefined when the key is missing or removed.
+ */
+export interface PropertyValueChange {
+    key: string;
+    before: unknown;
+    after: unknown;
+}
+
+export interface PropertyValueEditPreviewEntry extends PropertyValueChange {
+    fileName: string;
+}
+
+/**
+ * Preview of a batch property edit.
+ * `changed` counts every note that would change; `sample` lists the first few for display.
+ */
+export interface PropertyValueEditPreview {
+    changed: number;
+    sample: PropertyValueEditPreviewEntry[];
+}
+
+/**
+ * Renames one property value across notes.
+ * `oldValuePath` is the normalized value path of the value node; values nested below it (`old/child`) are renamed too.
+ * `newValue` is written as entered.
+ */
+export interface PropertyValueRename {
+    key: string;
+    oldValuePath: string;
+    newValue: string;
+}
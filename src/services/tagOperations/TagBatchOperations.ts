@@ -18,6 +18,7 @@
 
 import type { TFile } from 'obsidian';
 import { TagFileMutations } from './TagFileMutations';
+import type { FileTagSnapshot } from './types';
 
 /**
  * Handles batch tag operations on multiple files
@@ -28,9 +29,10 @@ export class TagBatchOperations {
     /**
      * Adds a tag to multiple files
      * Skips non-markdown files and files that already have the tag or its ancestor
+     * Returns the files that received the tag
      */
-    async addTagToFiles(tag: string, files: TFile[]): Promise<{ added: number; skipped: number }> {
-        let added = 0;
+    async addTagToFiles(tag: string, files: TFile[]): Promise<{ added: TFile[]; skipped: number }> {
+        const added: TFile[] = [];
         let skipped = 0;
 
         for (const file of files) {
@@ -45,7 +47,7 @@ export class TagBatchOperations {
             }
 
             await this.fileMutations.addTagToFile(file, tag);
-            added++;
+            added.push(file);
         }
 
         return { added, skipped };
@@ -53,10 +55,10 @@ export class TagBatchOperations {
 
     /**
      * Removes a specific tag from multiple files
-     * Returns count of files where the tag was actually removed
+     * Returns the files where the tag was actually removed
      */
-    async removeTagFromFiles(tag: string, files: TFile[]): Promise<number> {
-        let removed = 0;
+    async removeTagFromFiles(tag: string, files: TFile[]): Promise<TFile[]> {
+        const removed: TFile[] = [];
 
         for (const file of files) {
             if (!this.fileMutations.isMarkdownFile(file)) {
@@ -65,7 +67,7 @@ export class TagBatchOperations {
 
             try {
                 if (await this.fileMutations.removeTagFromFile(file, tag)) {
-                    removed++;
+                    removed.push(file);
                 }
             } catch (error: unknown) {
                 console.error(`[Notebook Navigator] Failed to remove tag ${tag} from ${file.path}`, error);
@@ -102,4 +104,62 @@ export class TagBatchOperations {
     getTagsFromFiles(files: TFile[]): string[] {
         return this.fileMutations.getTagsFromFiles(files);
     }
+
+    /**
+     * Captures the tag state of multiple files before a tag change
+     * Returns snapshots keyed by file path
+     */
+    async captureTagSnapshots(files: TFile[]): Promise<Map<string, FileTagSnapshot>> {
+        const snapshots = new Map<string, FileTagSnapshot>();
+
+        for (const file of files) {
+            const snapshot = await this.fileMutations.captureTagSnapshot(file);
+            if (snapshot) {
+                snapshots.set(file.path, snapshot);
+            }
+        }
+
+        return snapshots;
+    }
+
+    /**
+     * Records the content of changed files after a tag change
+     * Returns the snapshots of the changed files only
+     */
+    async completeTagSnapshots(changedFiles: TFile[], snapshots: Map<string, FileTagSnapshot>): Promise<Map<string, FileTagSnapshot>> {
+        const completed = new Map<string, FileTagSnapshot>();
+
+        for (const file of changedFiles) {
+            const snapshot = snapshots.get(file.path);
+            if (snapshot) {
+                completed.set(file.path, await this.fileMutations.completeTagSnapshot(file, snapshot));
+            }
+        }
+
+        return completed;
+    }
+
+    /**
+     * Restores the tag state of multiple files from snapshots
+     * Returns the number of files that could not be restored
+     */
+    async restoreTagSnapshots(files: TFile[], snapshots: Map<string, FileTagSnapshot>): Promise<number> {
+        let failed = 0;
+
+        for (const file of files) {
+            const snapshot = snapshots.get(file.path);
+            if (!snapshot) {
+                continue;
+            }
+
+            try {
+                await this.fileMutations.restoreTagSnapshot(file, snapshot);
+            } catch (error: unknown) {
+                failed++;
+                console.error(`[Notebook Navigator] Failed to restore tags in ${file.path}`, error);
+            }
+        }
+
+        return failed;
+    }
 }
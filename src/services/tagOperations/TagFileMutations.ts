@@ -31,6 +31,7 @@ import { mutateFrontmatterTagFields } from '../tagRename/frontmatterTagMutator';
 import { mergeRanges, NumericRange } from '../../utils/arrayUtils';
 import { findFencedCodeBlockRanges, findInlineCodeRanges, isIndexInRanges } from '../../utils/codeRangeUtils';
 import { parseCommaSeparatedList } from '../../utils/commaSeparatedListUtils';
+import type { FileTagSnapshot } from './types';
 
 /**
  * Type for frontmatter objects that may contain a tags property
@@ -228,6 +229,56 @@ export class TagFileMutations {
         };
     }
 
+    /**
+     * Captures the tag and alias frontmatter fields and content of a file before a tag change
+     * Returns null for non-markdown files
+     */
+    async captureTagSnapshot(file: TFile): Promise<FileTagSnapshot | null> {
+        if (!this.isMarkdownFile(file)) {
+            return null;
+        }
+
+        const frontmatterFields: FileTagSnapshot['frontmatterFields'] = {};
+        const frontmatter: Record<string, unknown> = { ...(this.app.metadataCache.getFileCache(file)?.frontmatter ?? {}) };
+        mutateFrontmatterTagFields(frontmatter, field => {
+            frontmatterFields[field.key] = Array.isArray(field.value) ? [...field.value] : field.value;
+        });
+
+        return { frontmatterFields, contentBefore: await this.app.vault.read(file), contentAfter: null };
+    }
+
+    /**
+     * Records the content of a file right after a tag change in its snapshot
+     */
+    async completeTagSnapshot(file: TFile, snapshot: FileTagSnapshot): Promise<FileTagSnapshot> {
+        return { ...snapshot, contentAfter: await this.app.vault.read(file) };
+    }
+
+    /**
+     * Restores a file's tags from a snapshot
+     * While the note still matches its content right after the change, the previous content is written back,
+     * which also restores inline tags and descendant tags removed by the change.
+     * After later edits only the tag and alias frontmatter fields are restored so those edits are kept.
+     */
+    async restoreTagSnapshot(file: TFile, snapshot: FileTagSnapshot): Promise<void> {
+        const current = await this.app.vault.read(file);
+        if (snapshot.contentAfter !== null && current === snapshot.contentAfter) {
+            await this.app.vault.modify(file, snapshot.contentBefore);
+            return;
+        }
+
+        await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+            mutateFrontmatterTagFields(frontmatter, field => {
+                if (!Object.prototype.hasOwnProperty.call(snapshot.frontmatterFields, field.key)) {
+                    field.remove();
+                }
+            });
+            Object.entries(snapshot.frontmatterFields).forEach(([key, value]) => {
+                frontmatter[key] = Array.isArray(value) ? [...value] : value;
+            });
+        });
+    }
+
     /**
      * Removes all tags from a file's frontmatter and inline content
      * Returns true if any tags were removed
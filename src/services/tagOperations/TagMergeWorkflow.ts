@@ -0,0 +1,337 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import type { App } from 'obsidian';
+import { strings } from '../../i18n';
+import type { ITagTreeProvider } from '../../interfaces/ITagTreeProvider';
+import { TagMergeModal } from '../../modals/TagMergeModal';
+import { TagOperationSummaryModal, type TagOperationSummarySection } from '../../modals/TagOperationSummaryModal';
+import { showNotice } from '../../utils/noticeUtils';
+import { normalizeTagPathValue } from '../../utils/tagPrefixMatcher';
+import {
+    collectMergeFiles,
+    collectRenameFiles,
+    isDescendantRename,
+    type RenameFile,
+    TagDescriptor,
+    TagReplacement
+} from '../tagRename/TagRenameEngine';
+import { applyTagReplacements, buildTagBatchReportSections, confirmInlineTagParsingRisk } from './TagOperationUtils';
+import type { TagFileMutations } from './TagFileMutations';
+import type { TagRenameHooks } from './TagRenameWorkflow';
+import type { TagBatchReport } from './types';
+
+export type TagMergeSkipReason = 'sameAsTarget' | 'containsTarget' | 'nestedInSource' | 'noNotes';
+
+export interface TagMergeSource {
+    tag: TagDescriptor;
+    /** Notes containing the tag or one of its descendants */
+    paths: string[];
+}
+
+export interface TagMergePlan {
+    target: TagDescriptor;
+    sources: TagMergeSource[];
+    skippedSources: { tag: TagDescriptor; reason: TagMergeSkipReason }[];
+    /** One entry per affected note, covering every source tag in that note */
+    targets: RenameFile[];
+    /** Affected notes that already contain the target tag */
+    targetTaggedPaths: string[];
+    /** Notes that contain more than one of the source tags */
+    multiSourcePaths: string[];
+    /** Nested tags that end up on an existing nested tag, formatted as "#old → #new" */
+    nestedCollisions: string[];
+}
+
+export interface TagMergeResult {
+    report: TagBatchReport;
+    /** Sources whose metadata and shortcuts were kept because some of their notes were not updated */
+    unfinalizedSources: TagDescriptor[];
+}
+
+export type TagMergeHooks = Pick<TagRenameHooks, 'updateTagMetadataAfterRename' | 'updateTagShortcutsAfterRename' | 'notifyTagRenamed'>;
+
+function stripHashPrefix(value: string): string {
+    const trimmed = value.trim();
+    return trimmed.startsWith('#') ? trimmed.slice(1) : trimmed;
+}
+
+/**
+ * Handles merging several tags into one tag across the vault
+ * Shows a dry-run summary with conflicts before any note is changed and a report afterwards
+ */
+export class TagMergeWorkflow {
+    constructor(
+        private readonly app: App,
+        private readonly fileMutations: TagFileMutations,
+        private readonly getTagTreeService: () => ITagTreeProvider | null,
+        private readonly resolveDisplayTagPathInternal: (tagPath: string) => string,
+        private readonly getHooks: () => TagMergeHooks
+    ) {}
+
+    /**
+     * Prompts for the tags to merge and the target tag
+     * The provided tag paths prefill the source list
+     */
+    promptMergeTags(tagPaths: readonly string[]): void {
+        const tagTree = this.getTagTreeService();
+        const tagSuggestions = tagTree ? tagTree.getAllTagPaths().map(path => this.resolveDisplayTagPathInternal(path)) : [];
+
+        const modal = new TagMergeModal(this.app, {
+            sourceTags: tagPaths.map(path => this.resolveDisplayTagPathInternal(path)),
+            tagSuggestions,
+            onSubmit: async (sourceTags, targetTag) => {
+                const targetName = stripHashPrefix(targetTag);
+                if (!this.fileMutations.isValidTagName(targetName)) {
+                    showNotice(strings.modals.tagOperation.invalidTagName, { variant: 'warning' });
+                    return false;
+                }
+
+                const shouldContinue = await confirmInlineTagParsingRisk(this.app, targetName);
+                if (!shouldContinue) {
+                    return false;
+                }
+
+                const plan = this.buildMergePlan(sourceTags, targetName);
+                if (plan.sources.length === 0) {
+                    showNotice(strings.modals.tagMerge.nothingToMerge, { variant: 'warning' });
+                    return false;
+                }
+
+                this.openMergeSummary(plan);
+                return true;
+            }
+        });
+        modal.open();
+    }
+
+    /**
+     * Analyzes a merge without changing any note
+     * Drops sources that cannot be merged and collects notes and tags that will collide
+     */
+    buildMergePlan(sourceTags: readonly string[], targetTag: string): TagMergePlan {
+        const target = new TagDescriptor(stripHashPrefix(targetTag));
+        const descriptors: TagDescriptor[] = [];
+        const seen = new Set<string>();
+        sourceTags.forEach(value => {
+            const tag = new TagDescriptor(stripHashPrefix(value));
+            if (tag.canonicalName.length === 0 || seen.has(tag.canonical)) {
+                return;
+            }
+            seen.add(tag.canonical);
+            descriptors.push(tag);
+        });
+
+        const sources: TagMergeSource[] = [];
+        const skippedSources: TagMergePlan['skippedSources'] = [];
+        descriptors.forEach(tag => {
+            const reason = this.getSkipReason(tag, target, descriptors);
+            if (reason) {
+                skippedSources.push({ tag, reason });
+                return;
+            }
+            const paths = collectRenameFiles(this.app, tag).map(file => file.filePath);
+            if (paths.length === 0) {
+                skippedSources.push({ tag, reason: 'noNotes' });
+                return;
+            }
+            sources.push({ tag, paths });
+        });
+
+        if (sources.length === 0) {
+            return { target, sources, skippedSources, targets: [], targetTaggedPaths: [], multiSourcePaths: [], nestedCollisions: [] };
+        }
+
+        const targets = collectMergeFiles(
+            this.app,
+            sources.map(source => source.tag)
+        );
+        const sourceCounts = new Map<string, number>();
+        sources.forEach(source => {
+            source.paths.forEach(path => sourceCounts.set(path, (sourceCounts.get(path) ?? 0) + 1));
+        });
+        const targetTaggedPaths = collectRenameFiles(this.app, target, { includeDescendants: false })
+            .map(file => file.filePath)
+            .filter(path => sourceCounts.has(path));
+        const multiSourcePaths = Array.from(sourceCounts.entries())
+            .filter(([, count]) => count > 1)
+            .map(([path]) => path);
+
+        return {
+            target,
+            sources,
+            skippedSources,
+            targets,
+            targetTaggedPaths,
+            multiSourcePaths,
+            nestedCollisions: this.collectNestedCollisions(sources, target)
+        };
+    }
+
+    /**
+     * Rewrites every affected note, then moves metadata and shortcuts of each fully merged source
+     */
+    async runMerge(plan: TagMergePlan): Promise<TagMergeResult> {
+        const hooks = this.getHooks();
+        const replacements = plan.sources.map(source => new TagReplacement(source.tag, plan.target));
+        const report = await applyTagReplacements(plan.targets, replacements);
+
+        const notUpdated = new Set([...report.skipped, ...report.failed]);
+        const unfinalizedSources: TagDescriptor[] = [];
+        for (const source of plan.sources) {
+            // Metadata and shortcuts follow the tag only when every note of this source was rewritten
+            if (source.paths.some(path => notUpdated.has(path))) {
+                unfinalizedSources.push(source.tag);
+                continue;
+            }
+
+            await hooks.updateTagMetadataAfterRename(source.tag.name, plan.target.name, true);
+            await hooks.updateTagShortcutsAfterRename(source.tag.name, plan.target.name);
+            hooks.notifyTagRenamed({
+                oldPath: source.tag.name,
+                newPath: plan.target.name,
+                oldCanonicalPath: source.tag.canonicalName,
+                newCanonicalPath: plan.target.canonicalName,
+                mergedIntoExisting: true
+            });
+        }
+
+        return { report, unfinalizedSources };
+    }
+
+    private getSkipReason(tag: TagDescriptor, target: TagDescriptor, descriptors: readonly TagDescriptor[]): TagMergeSkipReason | null {
+        if (tag.canonical === target.canonical) {
+            return 'sameAsTarget';
+        }
+        if (isDescendantRename(tag, target)) {
+            return 'containsTarget';
+        }
+        // Nested sources move together with their listed ancestor
+        if (descriptors.some(other => other !== tag && tag.canonical.startsWith(other.canonicalPrefix))) {
+            return 'nestedInSource';
+        }
+        return null;
+    }
+
+    /**
+     * Finds nested tags under the sources that end up on a nested tag that already exists
+     * or that another source also produces
+     */
+    private collectNestedCollisions(sources: readonly TagMergeSource[], target: TagDescriptor): string[] {
+        const tagTree = this.getTagTreeService();
+        if (!tagTree) {
+            return [];
+        }
+
+        const existing = new Set(tagTree.getAllTagPaths().map(path => normalizeTagPathValue(path)));
+        const produced = new Set<string>();
+        const collisions: string[] = [];
+        sources.forEach(source => {
+            const prefix = `${source.tag.canonicalName}/`;
+            existing.forEach(path => {
+                if (!path.startsWith(prefix)) {
+                    return;
+                }
+                const renamed = `${target.canonicalName}${path.slice(source.tag.canonicalName.length)}`;
+                if (existing.has(renamed) || produced.has(renamed)) {
+                    collisions.push(`#${path} → #${renamed}`);
+                }
+                produced.add(renamed);
+            });
+        });
+        return collisions;
+    }
+
+    private openMergeSummary(plan: TagMergePlan): void {
+        const merge = strings.modals.tagMerge;
+        const sections: TagOperationSummarySection[] = [{ heading: merge.affectedNotes, paths: plan.targets.map(file => file.filePath) }];
+        if (plan.skippedSources.length > 0) {
+            sections.push({
+                heading: merge.skippedTags,
+                items: plan.skippedSources.map(entry => `${entry.tag.tag}: ${merge.skipReasons[entry.reason]}`),
+                warning: true
+            });
+        }
+        if (plan.targetTaggedPaths.length > 0) {
+            sections.push({
+                heading: merge.alreadyTagged.replace('{tag}', plan.target.tag),
+                description: merge.alreadyTaggedDescription,
+                paths: plan.targetTaggedPaths,
+                warning: true
+            });
+        }
+        if (plan.multiSourcePaths.length > 0) {
+            sections.push({
+                heading: merge.multipleSources,
+                description: merge.multipleSourcesDescription,
+                paths: plan.multiSourcePaths,
+                warning: true
+            });
+        }
+        if (plan.nestedCollisions.length > 0) {
+            sections.push({
+                heading: merge.nestedCollisions,
+                description: merge.nestedCollisionsDescription,
+                items: plan.nestedCollisions,
+                warning: true
+            });
+        }
+
+        const modal = new TagOperationSummaryModal(this.app, {
+            title: merge.previewTitle.replace('{tag}', plan.target.tag),
+            description: `${merge.previewDescription
+                .replace('{tags}', plan.sources.map(source => source.tag.tag).join(', '))
+                .replace('{tag}', plan.target.tag)
+                .replace('{count}', plan.targets.length.toString())} ${strings.modals.tagOperation.modificationWarning}`,
+            sections,
+            confirmLabel: merge.confirm,
+            onConfirm: async () => {
+                const result = await this.runMerge(plan);
+                this.openMergeReport(plan, result);
+            }
+        });
+        modal.open();
+    }
+
+    private openMergeReport(plan: TagMergePlan, result: TagMergeResult): void {
+        const merge = strings.modals.tagMerge;
+        const { report, unfinalizedSources } = result;
+        const sections = buildTagBatchReportSections(report);
+        if (unfinalizedSources.length > 0) {
+            sections.push({
+                heading: merge.notFinalized,
+                description: merge.notFinalizedDescription,
+                items: unfinalizedSources.map(tag => tag.tag),
+                warning: true
+            });
+        }
+
+        const hasIssues = report.skipped.length > 0 || report.failed.length > 0;
+        const summary = strings.modals.tagOperationSummary.reportSummary
+            .replace('{changed}', report.changed.length.toString())
+            .replace('{total}', plan.targets.length.toString());
+        showNotice(`${merge.reportTitle.replace('{tag}', plan.target.tag)}: ${summary}`, { variant: hasIssues ? 'warning' : 'success' });
+
+        const modal = new TagOperationSummaryModal(this.app, {
+            title: merge.reportTitle.replace('{tag}', plan.target.tag),
+            description: summary,
+            sections
+        });
+        modal.open();
+    }
+}
@@ -17,11 +17,13 @@
  */
 
 import type { App } from 'obsidian';
+import { LIMITS } from '../../constants/limits';
 import { strings } from '../../i18n';
 import { ConfirmModal } from '../../modals/ConfirmModal';
+import type { TagOperationSummarySection } from '../../modals/TagOperationSummaryModal';
 import type { ITagTreeProvider } from '../../interfaces/ITagTreeProvider';
-import { collectRenameFiles, type RenameFile, type TagDescriptor } from '../tagRename/TagRenameEngine';
-import type { TagUsageSummary } from './types';
+import { collectRenameFiles, type RenameFile, type TagDescriptor, type TagReplacement } from '../tagRename/TagRenameEngine';
+import type { TagBatchReport, TagUsageSummary } from './types';
 import { normalizeTagPathValue } from '../../utils/tagPrefixMatcher';
 import { isInlineTagValueCompatible } from '../../utils/tagUtils';
 import { buildUsageSummaryFromPaths as buildOperationUsageSummaryFromPaths, yieldToEventLoop } from '../operations/OperationBatchUtils';
@@ -57,6 +59,59 @@ export function buildUsageSummary(app: App, targets: RenameFile[]): TagUsageSumm
     );
 }
 
+/**
+ * Applies tag replacements to each target file and groups the paths by outcome
+ * Yields to the event loop between batches to keep the UI responsive
+ */
+export async function applyTagReplacements(
+    targets: readonly RenameFile[],
+    replacements: readonly TagReplacement[]
+): Promise<TagBatchReport> {
+    const report: TagBatchReport = { changed: [], skipped: [], failed: [] };
+    const batchSize = LIMITS.operations.metadataMutationYieldBatchSize;
+
+    for (let index = 0; index < targets.length; index++) {
+        const target = targets[index];
+        try {
+            const result = await target.renamedWithAll(replacements);
+            if (result.outcome === 'changed') {
+                report.changed.push(target.filePath);
+            } else {
+                report.skipped.push(target.filePath);
+            }
+        } catch (error: unknown) {
+            report.failed.push(target.filePath);
+            console.error(`[Notebook Navigator] Failed to replace tag in ${target.filePath}`, error);
+        }
+        if ((index + 1) % batchSize === 0) {
+            await yieldToEventLoop();
+        }
+    }
+
+    return report;
+}
+
+/**
+ * Builds the report sections shared by tag merge and split results
+ * Sections without files are omitted
+ */
+export function buildTagBatchReportSections(report: TagBatchReport): TagOperationSummarySection[] {
+    const summary = strings.modals.tagOperationSummary;
+    const sections: TagOperationSummarySection[] = [{ heading: summary.updatedNotes, paths: report.changed }];
+    if (report.skipped.length > 0) {
+        sections.push({ heading: summary.skippedNotes, description: summary.skippedDescription, paths: report.skipped, warning: true });
+    }
+    if (report.failed.length > 0) {
+        sections.push({
+            heading: summary.failedNotes,
+            description: strings.modals.tagOperation.checkConsoleForDetails,
+            paths: report.failed,
+            warning: true
+        });
+    }
+    return sections;
+}
+
 /**
  * Resolves canonical tag path to its display path using the tag tree
  * Returns original path if tag tree is unavailable or tag not found
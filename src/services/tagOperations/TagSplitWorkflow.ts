@@ -0,0 +1,252 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { TFile, type App } from 'obsidian';
+import { strings } from '../../i18n';
+import { TagOperationSummaryModal, type TagOperationSummarySection } from '../../modals/TagOperationSummaryModal';
+import { TagSplitModal } from '../../modals/TagSplitModal';
+import type { NotebookNavigatorSettings } from '../../settings/types';
+import { createFilterQueryFileMatcher } from '../../utils/fileFinder';
+import { showNotice } from '../../utils/noticeUtils';
+import { collectRenameFiles, TagDescriptor, TagReplacement, type RenameFile } from '../tagRename/TagRenameEngine';
+import { applyTagReplacements, buildTagBatchReportSections, confirmInlineTagParsingRisk } from './TagOperationUtils';
+import type { TagFileMutations } from './TagFileMutations';
+import type { TagBatchReport, TagSplitRule } from './types';
+
+export interface TagSplitGroup {
+    rule: TagSplitRule;
+    /** Child tag that receives the notes matched by the rule */
+    target: TagDescriptor;
+    targets: RenameFile[];
+}
+
+export interface TagSplitPlan {
+    source: TagDescriptor;
+    groups: TagSplitGroup[];
+    /** Notes tagged with the source tag that no rule matched; they keep the source tag */
+    unmatchedPaths: string[];
+    /** Query rules that cannot be evaluated, either because the query is empty or the database is not ready */
+    invalidRules: TagSplitRule[];
+}
+
+function normalizeChildTag(value: string): string {
+    return value
+        .trim()
+        .replace(/^#/u, '')
+        .replace(/^\/+|\/+$/gu, '');
+}
+
+function normalizeFolderPath(value: string): string {
+    return value.trim().replace(/^\/+|\/+$/gu, '');
+}
+
+/**
+ * Handles splitting a tag into child tags by folder location or filter query
+ * Only notes tagged with the exact tag are moved; notes with nested tags are left unchanged
+ */
+export class TagSplitWorkflow {
+    constructor(
+        private readonly app: App,
+        private readonly fileMutations: TagFileMutations,
+        private readonly getSettings: () => NotebookNavigatorSettings,
+        private readonly resolveDisplayTagPathInternal: (tagPath: string) => string
+    ) {}
+
+    /**
+     * Prompts for split rules, then shows the dry-run summary
+     */
+    promptSplitTag(tagPath: string): void {
+        const displayPath = this.resolveDisplayTagPathInternal(tagPath);
+        const source = new TagDescriptor(displayPath);
+        const fileCount = collectRenameFiles(this.app, source, { includeDescendants: false }).length;
+        if (fileCount === 0) {
+            showNotice(`${source.tag}: ${strings.listPane.emptyStateNoNotes}`, { variant: 'warning' });
+            return;
+        }
+
+        const modal = new TagSplitModal(this.app, {
+            tagPath: source.name,
+            fileCount,
+            onSubmit: async rules => {
+                const invalidChild = rules.find(rule => {
+                    const childTag = normalizeChildTag(rule.childTag);
+                    return childTag.length === 0 || !this.fileMutations.isValidTagName(`${source.name}/${childTag}`);
+                });
+                if (invalidChild) {
+                    showNotice(strings.modals.tagOperation.invalidTagName, { variant: 'warning' });
+                    return false;
+                }
+
+                for (const rule of rules) {
+                    const shouldContinue = await confirmInlineTagParsingRisk(
+                        this.app,
+                        `${source.name}/${normalizeChildTag(rule.childTag)}`
+                    );
+                    if (!shouldContinue) {
+                        return false;
+                    }
+                }
+
+                const plan = this.buildSplitPlan(source.name, rules);
+                if (plan.groups.every(group => group.targets.length === 0)) {
+                    showNotice(strings.modals.tagSplit.nothingMatched, { variant: 'warning' });
+                    return false;
+                }
+
+                this.openSplitSummary(plan);
+                return true;
+            }
+        });
+        modal.open();
+    }
+
+    /**
+     * Assigns every note tagged exactly with the source tag to the first matching rule
+     * Runs without changing any note
+     */
+    buildSplitPlan(tagPath: string, rules: readonly TagSplitRule[]): TagSplitPlan {
+        const source = new TagDescriptor(tagPath);
+        const matchers = rules.map(rule => this.createRuleMatcher(rule));
+        const groups: TagSplitGroup[] = rules.map(rule => ({
+            rule,
+            target: new TagDescriptor(`${source.name}/${normalizeChildTag(rule.childTag)}`),
+            targets: []
+        }));
+        const unmatchedPaths: string[] = [];
+
+        collectRenameFiles(this.app, source, { includeDescendants: false }).forEach(target => {
+            const file = this.app.vault.getAbstractFileByPath(target.filePath);
+            const index = file instanceof TFile ? matchers.findIndex(matches => matches !== null && matches(file)) : -1;
+            if (index === -1) {
+                unmatchedPaths.push(target.filePath);
+                return;
+            }
+            groups[index].targets.push(target);
+        });
+
+        return {
+            source,
+            groups,
+            unmatchedPaths,
+            invalidRules: rules.filter((_rule, index) => matchers[index] === null)
+        };
+    }
+
+    /**
+     * Replaces the exact source tag with the child tag of each rule
+     */
+    async runSplit(plan: TagSplitPlan): Promise<TagBatchReport> {
+        const report: TagBatchReport = { changed: [], skipped: [], failed: [] };
+        for (const group of plan.groups) {
+            if (group.targets.length === 0) {
+                continue;
+            }
+            const groupReport = await applyTagReplacements(group.targets, [new TagReplacement(plan.source, group.target, false)]);
+            report.changed.push(...groupReport.changed);
+            report.skipped.push(...groupReport.skipped);
+            report.failed.push(...groupReport.failed);
+        }
+        return report;
+    }
+
+    private createRuleMatcher(rule: TagSplitRule): ((file: TFile) => boolean) | null {
+        if (rule.kind === 'query') {
+            return createFilterQueryFileMatcher(rule.value, this.getSettings(), this.app);
+        }
+
+        // Folder rules include subfolders; an empty path or "/" matches the whole vault
+        const folderPath = normalizeFolderPath(rule.value);
+        if (folderPath.length === 0) {
+            return () => true;
+        }
+        const prefix = `${folderPath.toLowerCase()}/`;
+        return file => file.path.toLowerCase().startsWith(prefix);
+    }
+
+    private describeRule(rule: TagSplitRule): string {
+        const split = strings.modals.tagSplit;
+        const value = rule.kind === 'folder' ? normalizeFolderPath(rule.value) || '/' : rule.value.trim();
+        return `${split.kinds[rule.kind]}: ${value}`;
+    }
+
+    private openSplitSummary(plan: TagSplitPlan): void {
+        const split = strings.modals.tagSplit;
+        const sections: TagOperationSummarySection[] = plan.groups.map(group => ({
+            heading: `${plan.source.tag} → ${group.target.tag}`,
+            description: this.describeRule(group.rule),
+            paths: group.targets.map(target => target.filePath)
+        }));
+        if (plan.invalidRules.length > 0) {
+            sections.push({
+                heading: split.invalidRules,
+                description: split.invalidRulesDescription,
+                items: plan.invalidRules.map(rule => this.describeRule(rule)),
+                warning: true
+            });
+        }
+        if (plan.unmatchedPaths.length > 0) {
+            sections.push({
+                heading: split.unmatched,
+                description: split.unmatchedDescription.replace('{tag}', plan.source.tag),
+                paths: plan.unmatchedPaths,
+                warning: true
+            });
+        }
+
+        const movedCount = plan.groups.reduce((total, group) => total + group.targets.length, 0);
+        const modal = new TagOperationSummaryModal(this.app, {
+            title: split.previewTitle.replace('{tag}', plan.source.tag),
+            description: `${split.previewDescription
+                .replace('{count}', movedCount.toString())
+                .replace('{total}', (movedCount + plan.unmatchedPaths.length).toString())
+                .replace('{tag}', plan.source.tag)} ${strings.modals.tagOperation.modificationWarning}`,
+            sections,
+            confirmLabel: split.confirm,
+            onConfirm: async () => {
+                const report = await this.runSplit(plan);
+                this.openSplitReport(plan, report, movedCount);
+            }
+        });
+        modal.open();
+    }
+
+    private openSplitReport(plan: TagSplitPlan, report: TagBatchReport, movedCount: number): void {
+        const split = strings.modals.tagSplit;
+        const sections = buildTagBatchReportSections(report);
+        if (plan.unmatchedPaths.length > 0) {
+            sections.push({
+                heading: split.unmatched,
+                description: split.unmatchedDescription.replace('{tag}', plan.source.tag),
+                paths: plan.unmatchedPaths
+            });
+        }
+
+        const hasIssues = report.skipped.length > 0 || report.failed.length > 0;
+        const summary = strings.modals.tagOperationSummary.reportSummary
+            .replace('{changed}', report.changed.length.toString())
+            .replace('{total}', movedCount.toString());
+        showNotice(`${split.reportTitle.replace('{tag}', plan.source.tag)}: ${summary}`, { variant: hasIssues ? 'warning' : 'success' });
+
+        const modal = new TagOperationSummaryModal(this.app, {
+            title: split.reportTitle.replace('{tag}', plan.source.tag),
+            description: summary,
+            sections
+        });
+        modal.open();
+    }
+}
@@ -44,6 +44,34 @@ export interface TagUsageSummary {
     sample: string[];
 }
 
+/** Paths grouped by outcome after a tag replacement batch */
+export interface TagBatchReport {
+    changed: string[];
+    skipped: string[];
+    failed: string[];
+}
+
+/** Tag state of a note captured before an add or remove tag change so the change can be reversed */
+export interface FileTagSnapshot {
+    /** Tag and alias frontmatter fields before the change */
+    frontmatterFields: Record<string, string | unknown[]>;
+    /** Note content before the change */
+    contentBefore: string;
+    /** Note content right after the change, or null until the change has been applied */
+    contentAfter: string | null;
+}
+
+export type TagSplitRuleKind = 'folder' | 'query';
+
+/** Moves notes tagged exactly with the split tag into a child tag when they match the rule */
+export interface TagSplitRule {
+    /** Child tag path appended to the split tag (without # prefix) */
+    childTag: string;
+    kind: TagSplitRuleKind;
+    /** Folder path for folder rules, filter search query for query rules */
+    value: string;
+}
+
 export interface TagPreviewCollector {
     collectPreviewPaths(app: App, tag: TagDescriptor): string[];
 }
@@ -57,6 +57,17 @@ export class TagDescriptor {
         return normalized === this.canonicalName || normalized.startsWith(`${this.canonicalName}/`);
     }
 
+    /**
+     * Checks whether the provided text represents this exact tag, ignoring descendants.
+     */
+    matchesExactly(text: string): boolean {
+        if (!text) {
+            return false;
+        }
+        const normalized = normalizeTagPathValue(text);
+        return normalized.length > 0 && normalized === this.canonicalName;
+    }
+
     toString(): string {
         return this.tag;
     }
@@ -85,13 +96,15 @@ export function isDescendantRename(source: TagDescriptor, target: TagDescriptor)
  * Performs string substitutions for tag rename operations.
  * Maintains a cache to reuse computed replacements across different variants
  * (e.g., original casing, lowercase, nested paths).
+ * When includeDescendants is false, only the exact source tag is replaced and nested tags are left as-is.
  */
 export class TagReplacement {
     private readonly cache: Map<string, string>;
 
     constructor(
         private readonly fromTag: TagDescriptor,
-        private readonly toTag: TagDescriptor
+        private readonly toTag: TagDescriptor,
+        private readonly includeDescendants = true
     ) {
         this.cache = new Map();
         // Pre-cache common transformations for faster lookup
@@ -153,6 +166,10 @@ export class TagReplacement {
                 return this.cacheValue(value, lowercase, lowercaseCached);
             }
 
+            if (!this.includeDescendants) {
+                return value;
+            }
+
             if (lowercase.startsWith(this.fromTag.canonicalPrefix)) {
                 const substituted = this.inString(value);
                 return this.cacheValue(value, lowercase, substituted);
@@ -243,6 +260,14 @@ export class RenameFile {
      * @returns Result describing whether updates were applied, or why the file was skipped.
      */
     async renamed(replacement: TagReplacement): Promise<RenameFileApplyResult> {
+        return this.renamedWithAll([replacement]);
+    }
+
+    /**
+     * Applies several replacements in a single pass, used when merging tags that share files.
+     * Each inline position is replaced by the replacement whose source tag matches it.
+     */
+    async renamedWithAll(replacements: readonly TagReplacement[]): Promise<RenameFileApplyResult> {
         const file = this.app.vault.getAbstractFileByPath(this.path);
         if (!file || !(file instanceof TFile)) {
             return { outcome: 'skipped', reason: 'file-missing' };
@@ -250,15 +275,16 @@ export class RenameFile {
 
         const original = await this.app.vault.read(file);
         let updatedText = original;
-        const sourceTag = replacement.getSourceTag();
 
         for (const tagCache of this.tagPositions) {
             const { start, end } = tagCache.position;
             const extracted = original.slice(start.offset, end.offset);
             const cacheTag = tagCache.tag;
-            const matchesExtracted = sourceTag.matches(extracted);
-            const matchesCache = typeof cacheTag === 'string' ? sourceTag.matches(cacheTag) : false;
-            if (!matchesExtracted || !matchesCache) {
+            const replacement = replacements.find(candidate => {
+                const sourceTag = candidate.getSourceTag();
+                return sourceTag.matches(extracted) && typeof cacheTag === 'string' && sourceTag.matches(cacheTag);
+            });
+            if (!replacement) {
                 return { outcome: 'skipped', reason: 'file-changed' };
             }
             updatedText = replacement.inString(updatedText, start.offset);
@@ -269,14 +295,14 @@ export class RenameFile {
             await this.app.vault.modify(file, updatedText);
         }
 
-        const frontmatterChanged = this.hasFrontMatterMatches ? await this.renameFrontmatter(replacement) : false;
+        const frontmatterChanged = this.hasFrontMatterMatches ? await this.renameFrontmatter(replacements) : false;
         if (inlineChanged || frontmatterChanged) {
             return { outcome: 'changed' };
         }
         return { outcome: 'skipped', reason: 'no-op' };
     }
 
-    private async renameFrontmatter(replacement: TagReplacement): Promise<boolean> {
+    private async renameFrontmatter(replacements: readonly TagReplacement[]): Promise<boolean> {
         const file = this.app.vault.getAbstractFileByPath(this.path);
         if (!file || !(file instanceof TFile)) {
             return false;
@@ -287,7 +313,10 @@ export class RenameFile {
         await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
             const renameStringValue = (value: string, isAlias: boolean): [string, boolean] => {
                 const segments = value.split(isAlias ? /(^\s+|\s*,\s*|\s+$)/u : /([\s,]+)/u);
-                const replacedSegments = replacement.inArray(segments, true, isAlias);
+                const replacedSegments = replacements.reduce<unknown[]>(
+                    (current, replacement) => replacement.inArray(current, true, isAlias),
+                    segments
+                );
                 const nextValue = replacedSegments.map(segment => (typeof segment === 'string' ? segment : String(segment))).join('');
                 return [nextValue, nextValue !== value];
             };
@@ -298,7 +327,10 @@ export class RenameFile {
                     if (typeof entry !== 'string') {
                         return entry;
                     }
-                    const result = replacement.inArray([entry], false, isAlias)[0];
+                    const result = replacements.reduce<unknown>(
+                        (current, replacement) => replacement.inArray([current], false, isAlias)[0],
+                        entry
+                    );
                     if (result !== entry) {
                         localChanged = true;
                     }
@@ -333,12 +365,30 @@ export class RenameFile {
     }
 }
 
+export interface CollectRenameFilesOptions {
+    /** Include files that only contain descendant tags (defaults to true) */
+    includeDescendants?: boolean;
+}
+
 /**
  * Collects files that contain the specified tag or any descendant tags.
  * Produces a list of RenameFile instances that capture inline tag positions
  * and whether matching values exist in frontmatter.
  */
-export function collectRenameFiles(app: App, tag: TagDescriptor): RenameFile[] {
+export function collectRenameFiles(app: App, tag: TagDescriptor, options: CollectRenameFilesOptions = {}): RenameFile[] {
+    const includeDescendants = options.includeDescendants ?? true;
+    return collectMatchingFiles(app, value => (includeDescendants ? tag.matches(value) : tag.matchesExactly(value)));
+}
+
+/**
+ * Collects files that contain any of the specified tags or their descendants.
+ * Each file is returned once with the positions of every matching tag, so a merge can rewrite it in one pass.
+ */
+export function collectMergeFiles(app: App, tags: readonly TagDescriptor[]): RenameFile[] {
+    return collectMatchingFiles(app, value => tags.some(tag => tag.matches(value)));
+}
+
+function collectMatchingFiles(app: App, matchesTag: (value: string) => boolean): RenameFile[] {
     const targets: RenameFile[] = [];
     const metadataCache = app.metadataCache;
     const filesToInspect = app.vault.getMarkdownFiles();
@@ -351,15 +401,15 @@ export function collectRenameFiles(app: App, tag: TagDescriptor): RenameFile[] {
         }
 
         const inlineTags = Array.isArray(cache.tags)
-            ? cache.tags.filter(tagCache => typeof tagCache.tag === 'string' && tag.matches(tagCache.tag)).reverse()
+            ? cache.tags.filter(tagCache => typeof tagCache.tag === 'string' && matchesTag(tagCache.tag)).reverse()
             : [];
 
         const frontmatter = cache.frontmatter;
         const frontmatterTags = (parseFrontMatterTags(frontmatter) ?? []).map(value => TagDescriptor.ensureHashPrefix(value));
         const aliasValues = (parseFrontMatterAliases(frontmatter) ?? []).filter(value => TagDescriptor.isTag(value));
 
-        const frontmatterMatches = frontmatterTags.filter(value => tag.matches(value));
-        const aliasMatches = aliasValues.filter(value => tag.matches(value));
+        const frontmatterMatches = frontmatterTags.filter(value => matchesTag(value));
+        const aliasMatches = aliasValues.filter(value => matchesTag(value));
         const hasFrontmatter = frontmatterMatches.length > 0 || aliasMatches.length > 0;
 
         if (inlineTags.length === 0 && !hasFrontmatter) {
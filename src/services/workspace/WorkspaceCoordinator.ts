@@ -18,7 +18,7 @@
 
 import { TFile, WorkspaceLeaf } from 'obsidian';
 import type NotebookNavigatorPlugin from '../../main';
-import { NOTEBOOK_NAVIGATOR_CALENDAR_VIEW, NOTEBOOK_NAVIGATOR_VIEW } from '../../types';
+import { NOTEBOOK_NAVIGATOR_CALENDAR_VIEW, NOTEBOOK_NAVIGATOR_STATISTICS_VIEW, NOTEBOOK_NAVIGATOR_VIEW } from '../../types';
 import { NotebookNavigatorView } from '../../view/NotebookNavigatorView';
 import type { RevealFileOptions } from '../../hooks/useNavigatorReveal';
 
@@ -100,6 +100,24 @@ export default class WorkspaceCoordinator {
         return leaf;
     }
 
+    /**
+     * Reveals the statistics dashboard, opening it in a new tab when no instance exists.
+     */
+    async openStatisticsView(): Promise<WorkspaceLeaf> {
+        const { workspace } = this.plugin.app;
+
+        const existingLeaf = workspace.getLeavesOfType(NOTEBOOK_NAVIGATOR_STATISTICS_VIEW)[0];
+        if (existingLeaf) {
+            await workspace.revealLeaf(existingLeaf);
+            return existingLeaf;
+        }
+
+        const leaf = workspace.getLeaf('tab');
+        await leaf.setViewState({ type: NOTEBOOK_NAVIGATOR_STATISTICS_VIEW, active: true });
+        await workspace.revealLeaf(leaf);
+        return leaf;
+    }
+
     /**
      * Retrieves all workspace leaves hosting the navigator view.
      */
@@ -1117,6 +1117,9 @@ export type {
     DeleteAttachmentsSetting,
     ListPaneTitleOption,
     PropertySortSecondaryOption,
+    SortChainField,
+    SortChainKey,
+    SortDirection,
     AlphabeticalDateMode,
     NotePropertyType
 } from './settings/types';
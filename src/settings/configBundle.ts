@@ -0,0 +1,251 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { isPlainObjectRecordValue } from '../utils/recordUtils';
+import type { NotebookNavigatorSettings } from './types';
+
+/** Identifies exported configuration bundles */
+export const CONFIG_BUNDLE_FORMAT = 'notebook-navigator-config';
+
+/** Current bundle version; bumped when the section layout changes incompatibly */
+export const CONFIG_BUNDLE_VERSION = 1;
+
+/** Sections that can be exported and selected individually on import */
+const CONFIG_BUNDLE_SECTION_IDS = ['vaultProfiles', 'styling', 'appearances', 'sortOverrides', 'iconMaps', 'keyboardShortcuts'] as const;
+
+export type ConfigBundleSectionId = (typeof CONFIG_BUNDLE_SECTION_IDS)[number];
+
+/** How imported sections combine with the current settings */
+export type ConfigBundleConflictStrategy = 'merge' | 'replace';
+
+export function isConfigBundleConflictStrategy(value: unknown): value is ConfigBundleConflictStrategy {
+    return value === 'merge' || value === 'replace';
+}
+
+/**
+ * Settings keys stored in each section.
+ * Device-local settings (sync modes, pane sizes, UX preferences) are deliberately left out.
+ */
+const CONFIG_BUNDLE_SECTION_KEYS: Record<ConfigBundleSectionId, readonly (keyof NotebookNavigatorSettings)[]> = {
+    vaultProfiles: ['vaultProfiles'],
+    styling: [
+        'folderIcons',
+        'folderColors',
+        'folderBackgroundColors',
+        'tagIcons',
+        'tagColors',
+        'tagBackgroundColors',
+        'propertyIcons',
+        'propertyColors',
+        'propertyBackgroundColors'
+    ],
+    appearances: ['folderAppearances', 'tagAppearances'],
+    sortOverrides: [
+        'folderSortOverrides',
+        'folderSortChains',
+        'folderTreeSortOverrides',
+        'tagSortOverrides',
+        'tagTreeSortOverrides',
+        'propertyTreeSortOverrides'
+    ],
+    iconMaps: ['fileNameIconMap', 'fileTypeIconMap', 'interfaceIcons'],
+    keyboardShortcuts: ['keyboardShortcuts', 'vimKeyboardNavigation', 'typeAheadFind']
+};
+
+export type ConfigBundleSection = Record<string, unknown>;
+
+export interface ConfigBundle {
+    format: typeof CONFIG_BUNDLE_FORMAT;
+    version: number;
+    pluginVersion: string;
+    exportedAt: string;
+    sections: Partial<Record<ConfigBundleSectionId, ConfigBundleSection>>;
+}
+
+export type ConfigBundleParseError = 'invalidJson' | 'invalidFormat' | 'unsupportedVersion' | 'empty';
+
+export type ConfigBundleParseResult = { ok: true; bundle: ConfigBundle } | { ok: false; error: ConfigBundleParseError };
+
+// Bundles hold plain JSON data; a JSON round trip drops null prototypes and non-serializable values
+function cloneJsonValue<T>(value: T): T {
+    if (value === undefined) {
+        return value;
+    }
+    return JSON.parse(JSON.stringify(value)) as T;
+}
+
+/** Builds a bundle with every section from the current settings */
+export function createConfigBundle(
+    settings: NotebookNavigatorSettings,
+    pluginVersion: string,
+    exportedAt: Date = new Date()
+): ConfigBundle {
+    const sections: Partial<Record<ConfigBundleSectionId, ConfigBundleSection>> = {};
+    CONFIG_BUNDLE_SECTION_IDS.forEach(sectionId => {
+        const section: ConfigBundleSection = {};
+        CONFIG_BUNDLE_SECTION_KEYS[sectionId].forEach(key => {
+            const value = settings[key];
+            if (value !== undefined) {
+                section[key] = cloneJsonValue(value);
+            }
+        });
+        sections[sectionId] = section;
+    });
+
+    return {
+        format: CONFIG_BUNDLE_FORMAT,
+        version: CONFIG_BUNDLE_VERSION,
+        pluginVersion,
+        exportedAt: exportedAt.toISOString(),
+        sections
+    };
+}
+
+/** Serializes a bundle for writing to disk */
+export function serializeConfigBundle(bundle: ConfigBundle): string {
+    return `${JSON.stringify(bundle, null, 2)}\n`;
+}
+
+/**
+ * Parses bundle JSON and keeps only known sections and keys.
+ * Values are validated later by the settings load pipeline.
+ */
+export function parseConfigBundle(text: string): ConfigBundleParseResult {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        return { ok: false, error: 'invalidJson' };
+    }
+
+    if (!isPlainObjectRecordValue(parsed) || parsed.format !== CONFIG_BUNDLE_FORMAT || !isPlainObjectRecordValue(parsed.sections)) {
+        return { ok: false, error: 'invalidFormat' };
+    }
+
+    const version = parsed.version;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1 || version > CONFIG_BUNDLE_VERSION) {
+        return { ok: false, error: 'unsupportedVersion' };
+    }
+
+    const sourceSections = parsed.sections;
+    const sections: Partial<Record<ConfigBundleSectionId, ConfigBundleSection>> = {};
+    CONFIG_BUNDLE_SECTION_IDS.forEach(sectionId => {
+        const source = sourceSections[sectionId];
+        if (!isPlainObjectRecordValue(source)) {
+            return;
+        }
+        const section: ConfigBundleSection = {};
+        CONFIG_BUNDLE_SECTION_KEYS[sectionId].forEach(key => {
+            if (Object.prototype.hasOwnProperty.call(source, key) && source[key] !== undefined && source[key] !== null) {
+                section[key] = source[key];
+            }
+        });
+        if (Object.keys(section).length > 0) {
+            sections[sectionId] = section;
+        }
+    });
+
+    if (Object.keys(sections).length === 0) {
+        return { ok: false, error: 'empty' };
+    }
+
+    return {
+        ok: true,
+        bundle: {
+            format: CONFIG_BUNDLE_FORMAT,
+            version,
+            pluginVersion: typeof parsed.pluginVersion === 'string' ? parsed.pluginVersion : '',
+            exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : '',
+            sections
+        }
+    };
+}
+
+/** Returns the sections present in a bundle, in display order */
+export function getConfigBundleSectionIds(bundle: ConfigBundle): ConfigBundleSectionId[] {
+    return CONFIG_BUNDLE_SECTION_IDS.filter(sectionId => bundle.sections[sectionId] !== undefined);
+}
+
+// Merges profile lists by id; imported profiles replace profiles with the same id and new ones are appended
+function mergeProfileArrays(current: unknown[], incoming: unknown[]): unknown[] {
+    const getId = (profile: unknown): string | null =>
+        isPlainObjectRecordValue(profile) && typeof profile.id === 'string' ? profile.id : null;
+    const incomingById = new Map<string, unknown>();
+    incoming.forEach(profile => {
+        const id = getId(profile);
+        if (id) {
+            incomingById.set(id, profile);
+        }
+    });
+
+    const merged = current.map(profile => {
+        const id = getId(profile);
+        if (id === null || !incomingById.has(id)) {
+            return profile;
+        }
+        const replacement = incomingById.get(id);
+        incomingById.delete(id);
+        return replacement;
+    });
+    incoming.forEach(profile => {
+        const id = getId(profile);
+        if (id === null || incomingById.has(id)) {
+            merged.push(profile);
+            if (id !== null) {
+                incomingById.delete(id);
+            }
+        }
+    });
+    return merged;
+}
+
+function mergeValue(current: unknown, incoming: unknown): unknown {
+    if (Array.isArray(current) && Array.isArray(incoming)) {
+        return mergeProfileArrays(current, incoming);
+    }
+    if (isPlainObjectRecordValue(current) && isPlainObjectRecordValue(incoming)) {
+        return { ...current, ...incoming };
+    }
+    return incoming;
+}
+
+/**
+ * Applies the selected bundle sections to persisted settings data and returns the new data.
+ * Merge keeps existing entries and lets bundle entries win on conflicts; replace overwrites each key.
+ */
+export function applyConfigBundle(
+    data: Record<string, unknown>,
+    bundle: ConfigBundle,
+    sectionIds: readonly ConfigBundleSectionId[],
+    strategy: ConfigBundleConflictStrategy
+): Record<string, unknown> {
+    const next: Record<string, unknown> = { ...data };
+    sectionIds.forEach(sectionId => {
+        const section = bundle.sections[sectionId];
+        if (!section) {
+            return;
+        }
+        CONFIG_BUNDLE_SECTION_KEYS[sectionId].forEach(key => {
+            if (!Object.prototype.hasOwnProperty.call(section, key)) {
+                return;
+            }
+            const incoming = cloneJsonValue(section[key]);
+            next[key] = strategy === 'merge' ? mergeValue(cloneJsonValue(next[key]), incoming) : incoming;
+        });
+    });
+    return next;
+}
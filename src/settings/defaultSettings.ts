@@ -57,7 +57,10 @@ export const DEFAULT_SETTINGS: NotebookNavigatorSettings = {
             hiddenFileProperties: [],
             navigationBanner: null,
             periodicNotesFolder: '',
-            shortcuts: []
+            shortcuts: [],
+            smartFolders: [],
+            smartFolderOrder: [],
+            fileStyleRules: []
         }
     ],
     vaultProfile: 'default',
@@ -66,6 +69,8 @@ export const DEFAULT_SETTINGS: NotebookNavigatorSettings = {
 
     // General tab - Behavior
     createNewNotesInNewTab: false,
+    newNoteFileNamePattern: '',
+    promptForNewNoteTitle: false,
     autoRevealActiveFile: true,
     autoRevealShortestPath: true,
     autoRevealIgnoreRightSidebar: true,
@@ -76,6 +81,8 @@ export const DEFAULT_SETTINGS: NotebookNavigatorSettings = {
     enterToOpenFiles: false,
     shiftEnterOpenContext: 'tab',
     cmdCtrlEnterOpenContext: 'split',
+    vimKeyboardNavigation: false,
+    typeAheadFind: false,
 
     // General tab - View
     startView: 'files',
@@ -127,6 +134,7 @@ export const DEFAULT_SETTINGS: NotebookNavigatorSettings = {
     dateFormat: 'MMM D, YYYY',
     timeFormat: 'h:mm a',
     calendarTemplateFolder: '',
+    noteTemplateRules: [],
 
     // Files tab
     confirmBeforeDelete: true,
@@ -173,6 +181,7 @@ export const DEFAULT_SETTINGS: NotebookNavigatorSettings = {
     showRootFolder: true,
     inheritFolderColors: false,
     folderSortOrder: 'alpha-asc',
+    folderMetadataStorage: 'settings',
     enableFolderNotes: false,
     folderNoteType: 'markdown',
     folderNoteName: '',
@@ -197,6 +206,7 @@ export const DEFAULT_SETTINGS: NotebookNavigatorSettings = {
     inheritPropertyColors: true,
     propertySortOrder: 'alpha-asc',
     showAllPropertiesFolder: true,
+    propertyHierarchies: [],
 
     // List pane tab
     defaultListMode: 'standard',
@@ -260,6 +270,7 @@ export const DEFAULT_SETTINGS: NotebookNavigatorSettings = {
     notePropertyType: 'none',
     showFilePropertiesInCompactMode: false,
     showPropertiesOnSeparateRows: false,
+    showTaskProgress: false,
     showFileDate: true,
     // Default to showing modified date when sorting alphabetically
     alphabeticalDateMode: 'modified',
@@ -296,6 +307,7 @@ export const DEFAULT_SETTINGS: NotebookNavigatorSettings = {
 
     // Search settings and hotkeys
     searchProvider: 'internal',
+    searchNoteContent: false,
     keyboardShortcuts: getDefaultKeyboardShortcuts(),
 
     // Runtime state and cached data
@@ -307,8 +319,10 @@ export const DEFAULT_SETTINGS: NotebookNavigatorSettings = {
     folderColors: {},
     folderBackgroundColors: {},
     folderSortOverrides: {},
+    folderSortChains: {},
     folderTreeSortOverrides: {},
     folderAppearances: {} as Record<string, FolderAppearance>,
+    folderNewNotePatterns: {},
     tagIcons: {},
     tagColors: {},
     tagBackgroundColors: {},
@@ -119,7 +119,14 @@ export function migrateLegacySyncedSettings(params: {
     delete mutableSettings['autoExpandFoldersTags'];
 
     // Validate noteGrouping value and reset to default if invalid
-    if (settings.noteGrouping !== 'none' && settings.noteGrouping !== 'date' && settings.noteGrouping !== 'folder') {
+    // Property grouping is only available as a folder, tag or smart folder override
+    if (
+        settings.noteGrouping !== 'none' &&
+        settings.noteGrouping !== 'date' &&
+        settings.noteGrouping !== 'folder' &&
+        settings.noteGrouping !== 'tag' &&
+        settings.noteGrouping !== 'alphabetical'
+    ) {
         settings.noteGrouping = defaultSettings.noteGrouping;
     }
 
@@ -25,6 +25,7 @@ import { getNavigationPaneSizing } from '../../utils/paneSizing';
 import { localStorage } from '../../utils/localStorage';
 import { runAsyncAction } from '../../utils/async';
 import { showNotice } from '../../utils/noticeUtils';
+import { exportConfigBundleWithNotice, openImportConfigBundleModal } from '../../utils/configBundleModalHelpers';
 import { createSettingGroupFactory } from '../settingGroups';
 
 /** Renders the advanced settings tab */
@@ -98,6 +99,29 @@ export function renderAdvancedTab(context: SettingsTabContext): void {
             });
     });
 
+    advancedGroup.addSetting(setting => {
+        setting
+            .setName(strings.settings.items.configBundle.name)
+            .setDesc(strings.settings.items.configBundle.desc)
+            .addButton(button =>
+                button.setButtonText(strings.settings.items.configBundle.exportButton).onClick(() => {
+                    runAsyncAction(async () => {
+                        button.setDisabled(true);
+                        try {
+                            await exportConfigBundleWithNotice({ app: context.app, plugin });
+                        } finally {
+                            button.setDisabled(false);
+                        }
+                    });
+                })
+            )
+            .addButton(button =>
+                button.setButtonText(strings.settings.items.configBundle.importButton).onClick(() => {
+                    openImportConfigBundleModal({ app: context.app, plugin });
+                })
+            );
+    });
+
     let metadataCleanupButton: ButtonComponent | null = null;
     let metadataCleanupInfoText: HTMLDivElement | null = null;
 
@@ -19,7 +19,7 @@
 import { Setting } from 'obsidian';
 import { strings } from '../../i18n';
 import { isFolderNoteCreationPreference } from '../../types/folderNote';
-import { isAlphaSortOrder } from '../types';
+import { isAlphaSortOrder, isFolderMetadataStorage } from '../types';
 import type { SettingsTabContext } from './SettingsTabContext';
 import { createSettingGroupFactory } from '../settingGroups';
 import { addSettingSyncModeToggle } from '../syncModeToggle';
@@ -83,6 +83,24 @@ export function renderFoldersTab(context: SettingsTabContext): void {
 
     addSettingSyncModeToggle({ setting: folderSortOrderSetting, plugin, settingId: 'folderSortOrder' });
 
+    foldersGroup.addSetting(setting => {
+        setting.setName(strings.settings.items.folderMetadataStorage.name).setDesc(strings.settings.items.folderMetadataStorage.desc);
+        setting.addDropdown(dropdown => {
+            dropdown
+                .addOption('settings', strings.settings.items.folderMetadataStorage.options.settings)
+                .addOption('folderNote', strings.settings.items.folderMetadataStorage.options.folderNote)
+                .addOption('sidecar', strings.settings.items.folderMetadataStorage.options.sidecar)
+                .setValue(plugin.settings.folderMetadataStorage)
+                .onChange(async value => {
+                    if (!isFolderMetadataStorage(value)) {
+                        return;
+                    }
+                    plugin.settings.folderMetadataStorage = value;
+                    await plugin.saveSettingsAndUpdate();
+                });
+        });
+    });
+
     const folderNotesGroup = createGroup(strings.settings.sections.folderNotes);
 
     const enableFolderNotesSetting = folderNotesGroup.addSetting(setting => {
@@ -575,6 +575,26 @@ export function renderGeneralTab(context: SettingsTabContext): void {
         templateFolderInputEl.addEventListener('click', () => folderSuggest.open());
     }
 
+    templatesGroup.addSetting(setting => {
+        setting.setName(strings.settings.items.noteTemplateRules.name).setDesc(strings.settings.items.noteTemplateRules.desc);
+        setting.addButton(button => {
+            button.setButtonText(strings.settings.items.noteTemplateRules.buttonText).onClick(() => {
+                runAsyncAction(async () => {
+                    const { NoteTemplateRulesModal } = await import('../../modals/NoteTemplateRulesModal');
+                    const modal = new NoteTemplateRulesModal(context.app, {
+                        initialRules: plugin.settings.noteTemplateRules,
+                        templateFolder: plugin.settings.calendarTemplateFolder,
+                        onSave: async rules => {
+                            plugin.settings.noteTemplateRules = rules;
+                            await plugin.saveSettingsAndUpdate();
+                        }
+                    });
+                    modal.open();
+                });
+            });
+        });
+    });
+
     const behaviorGroup = createGroup(strings.settings.groups.general.behavior);
 
     addToggleSetting(
@@ -587,6 +607,30 @@ export function renderGeneralTab(context: SettingsTabContext): void {
         }
     );
 
+    const newNoteFileNameSetting = behaviorGroup.addSetting(setting => {
+        configureDebouncedTextSetting(
+            setting,
+            strings.settings.items.newNoteFileNamePattern.name,
+            strings.settings.items.newNoteFileNamePattern.desc,
+            strings.settings.items.newNoteFileNamePattern.placeholder,
+            () => plugin.settings.newNoteFileNamePattern,
+            value => {
+                plugin.settings.newNoteFileNamePattern = value.trim();
+            }
+        );
+    });
+    newNoteFileNameSetting.controlEl.addClass('nn-setting-wide-input');
+
+    addToggleSetting(
+        behaviorGroup.addSetting,
+        strings.settings.items.promptForNewNoteTitle.name,
+        strings.settings.items.promptForNewNoteTitle.desc,
+        () => plugin.settings.promptForNewNoteTitle,
+        value => {
+            plugin.settings.promptForNewNoteTitle = value;
+        }
+    );
+
     const autoRevealSetting = behaviorGroup.addSetting(setting => {
         setting.setName(strings.settings.items.autoRevealActiveNote.name).setDesc(strings.settings.items.autoRevealActiveNote.desc);
     });
@@ -730,6 +774,26 @@ export function renderGeneralTab(context: SettingsTabContext): void {
                         await plugin.saveSettingsAndUpdate();
                     })
             );
+
+        addToggleSetting(
+            keyboardNavigationGroup.addSetting,
+            strings.settings.items.vimKeyboardNavigation.name,
+            strings.settings.items.vimKeyboardNavigation.desc,
+            () => plugin.settings.vimKeyboardNavigation,
+            value => {
+                plugin.settings.vimKeyboardNavigation = value;
+            }
+        );
+
+        addToggleSetting(
+            keyboardNavigationGroup.addSetting,
+            strings.settings.items.typeAheadFind.name,
+            strings.settings.items.typeAheadFind.desc,
+            () => plugin.settings.typeAheadFind,
+            value => {
+                plugin.settings.typeAheadFind = value;
+            }
+        );
     }
 
     if (!Platform.isMobile) {
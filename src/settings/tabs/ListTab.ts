@@ -121,6 +121,16 @@ export function renderListPaneTab(context: SettingsTabContext): void {
         }
     );
 
+    addToggleSetting(
+        topGroup.addSetting,
+        strings.settings.items.searchNoteContent.name,
+        strings.settings.items.searchNoteContent.desc,
+        () => plugin.settings.searchNoteContent,
+        value => {
+            plugin.settings.searchNoteContent = value;
+        }
+    );
+
     if (!Platform.isMobile) {
         const quickActionsSetting = topGroup.addSetting(setting => {
             setting.setName(strings.settings.items.showQuickActions.name).setDesc(strings.settings.items.showQuickActions.desc);
@@ -284,6 +294,8 @@ export function renderListPaneTab(context: SettingsTabContext): void {
                     .addOption('none', strings.settings.items.groupNotes.options.none)
                     .addOption('date', strings.settings.items.groupNotes.options.date)
                     .addOption('folder', strings.settings.items.groupNotes.options.folder)
+                    .addOption('tag', strings.settings.items.groupNotes.options.tag)
+                    .addOption('alphabetical', strings.settings.items.groupNotes.options.alphabetical)
                     .setValue(plugin.settings.noteGrouping)
                     .onChange(async (value: ListNoteGroupingOption) => {
                         plugin.settings.noteGrouping = value;
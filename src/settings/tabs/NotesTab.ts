@@ -31,6 +31,7 @@ import {
     type IconMapParseResult
 } from '../../utils/iconizeFormat';
 import { formatCommaSeparatedList, parseCommaSeparatedList } from '../../utils/commaSeparatedListUtils';
+import { getActiveVaultProfile } from '../../utils/vaultProfiles';
 
 function parseFileTypeIconMapText(value: string): IconMapParseResult {
     return parseIconMapText(value, normalizeFileTypeIconMapKey);
@@ -226,6 +227,32 @@ export function renderNotesTab(context: SettingsTabContext): void {
     };
     updateFileTypeIconMapVisibility();
 
+    iconGroup.addSetting(setting => {
+        setting.setName(strings.settings.items.fileStyleRules.name).setDesc(strings.settings.items.fileStyleRules.desc);
+        setting.addButton(button => {
+            button.setButtonText(strings.settings.items.fileStyleRules.buttonText).onClick(() => {
+                runAsyncAction(async () => {
+                    const metadataService = plugin.metadataService;
+                    if (!metadataService) {
+                        showNotice(strings.common.unknownError, { variant: 'warning' });
+                        return;
+                    }
+
+                    const { FileStyleRulesModal } = await import('../../modals/FileStyleRulesModal');
+                    const modal = new FileStyleRulesModal(app, {
+                        initialRules: getActiveVaultProfile(plugin.settings).fileStyleRules,
+                        metadataService,
+                        onSave: async rules => {
+                            getActiveVaultProfile(plugin.settings).fileStyleRules = rules;
+                            await plugin.saveSettingsAndUpdate();
+                        }
+                    });
+                    modal.open();
+                });
+            });
+        });
+    });
+
     titleGroup.addSetting(setting => {
         setting
             .setName(strings.settings.items.fileNameRows.name)
@@ -502,6 +529,18 @@ export function renderNotesTab(context: SettingsTabContext): void {
         );
     });
 
+    notePropertyGroup.addSetting(setting => {
+        setting
+            .setName(strings.settings.items.showTaskProgress.name)
+            .setDesc(strings.settings.items.showTaskProgress.desc)
+            .addToggle(toggle =>
+                toggle.setValue(plugin.settings.showTaskProgress).onChange(async value => {
+                    plugin.settings.showTaskProgress = value;
+                    await plugin.saveSettingsAndUpdate();
+                })
+            );
+    });
+
     const showFileDateSetting = dateGroup.addSetting(setting => {
         setting.setName(strings.settings.items.showFileDate.name).setDesc(strings.settings.items.showFileDate.desc);
     });
@@ -24,6 +24,7 @@ import { createSettingGroupFactory } from '../settingGroups';
 import { addSettingSyncModeToggle } from '../syncModeToggle';
 import { wireToggleSettingWithSubSettings } from '../subSettings';
 import { createInlineActionLinkText } from './externalLink';
+import { parsePropertyHierarchiesText, serializePropertyHierarchies } from '../../types/propertyHierarchies';
 
 /** Renders the properties settings tab */
 export function renderPropertiesTab(context: SettingsTabContext): void {
@@ -98,6 +99,22 @@ export function renderPropertiesTab(context: SettingsTabContext): void {
             })
         );
 
+    const propertyHierarchiesSetting = context.createDebouncedTextAreaSetting(
+        propertiesSubSettingsEl,
+        strings.settings.items.propertyHierarchies.name,
+        strings.settings.items.propertyHierarchies.desc,
+        strings.settings.items.propertyHierarchies.placeholder,
+        () => serializePropertyHierarchies(plugin.settings.propertyHierarchies),
+        value => {
+            plugin.settings.propertyHierarchies = parsePropertyHierarchiesText(value).hierarchies;
+        },
+        {
+            rows: 3,
+            validator: value => parsePropertyHierarchiesText(value).invalidLines.length === 0
+        }
+    );
+    propertyHierarchiesSetting.controlEl.addClass('nn-setting-wide-input');
+
     const propertyKeysInfoSetting = new Setting(propertiesSubSettingsEl).setName('').setDesc('');
     propertyKeysInfoSetting.settingEl.addClass('nn-setting-info-container');
     propertyKeysInfoSetting.settingEl.addClass('nn-setting-info-centered');
@@ -22,6 +22,9 @@ import type { BackgroundMode, DualPaneOrientation, PinnedNotes } from '../types'
 import type { FolderNoteCreationPreference } from '../types/folderNote';
 import type { KeyboardShortcutConfig } from '../utils/keyboardShortcuts';
 import type { ShortcutEntry } from '../types/shortcuts';
+import type { SmartFolder } from '../types/smartFolders';
+import type { FileStyleRule } from '../types/fileStyleRules';
+import type { PropertyHierarchy } from '../types/propertyHierarchies';
 import type { SearchProvider } from '../types/search';
 
 export type SettingSyncMode = 'local' | 'synced';
@@ -87,7 +90,13 @@ export type SortOption =
     | 'filename-asc'
     | 'filename-desc'
     | 'property-asc'
-    | 'property-desc';
+    | 'property-desc'
+    | 'wordcount-desc'
+    | 'wordcount-asc'
+    | 'tasks-desc'
+    | 'tasks-asc'
+    | 'size-desc'
+    | 'size-asc';
 
 /** Ordered list of sort options for validation and UI choices */
 export const SORT_OPTIONS: SortOption[] = [
@@ -100,7 +109,13 @@ export const SORT_OPTIONS: SortOption[] = [
     'filename-asc',
     'filename-desc',
     'property-asc',
-    'property-desc'
+    'property-desc',
+    'wordcount-desc',
+    'wordcount-asc',
+    'tasks-desc',
+    'tasks-asc',
+    'size-desc',
+    'size-asc'
 ];
 
 /** Type guard for validating sort option values */
@@ -117,6 +132,45 @@ export function isPropertySortSecondaryOption(value: unknown): value is Property
     return value === 'title' || value === 'filename' || value === 'created' || value === 'modified';
 }
 
+/** Fields available as keys in a custom sort chain. Each field matches the prefix of its sort options. */
+export type SortChainField = 'modified' | 'created' | 'title' | 'filename' | 'property' | 'wordcount' | 'tasks' | 'size';
+
+export const SORT_CHAIN_FIELDS: SortChainField[] = ['modified', 'created', 'title', 'filename', 'property', 'wordcount', 'tasks', 'size'];
+
+export type SortDirection = 'asc' | 'desc';
+
+/** Single key in a custom sort chain */
+export interface SortChainKey {
+    field: SortChainField;
+    direction: SortDirection;
+    /** Frontmatter property key, used when field is 'property' */
+    property?: string;
+}
+
+export function isSortChainField(value: unknown): value is SortChainField {
+    return typeof value === 'string' && SORT_CHAIN_FIELDS.includes(value as SortChainField);
+}
+
+/** Navigator context a note template rule applies to */
+export type NoteTemplateRuleTarget = 'folder' | 'tag' | 'property';
+
+export const NOTE_TEMPLATE_RULE_TARGETS: NoteTemplateRuleTarget[] = ['folder', 'tag', 'property'];
+
+/** Maps notes created from a folder, tag or property context to a template file and file name pattern */
+export interface NoteTemplateRule {
+    target: NoteTemplateRuleTarget;
+    /** Folder path pattern, tag path, or property `key` / `key=value` */
+    pattern: string;
+    /** Vault path of the markdown template, empty for no template */
+    templatePath: string;
+    /** File name pattern with date tokens, empty for the default untitled name */
+    fileNamePattern: string;
+}
+
+export function isNoteTemplateRuleTarget(value: unknown): value is NoteTemplateRuleTarget {
+    return typeof value === 'string' && NOTE_TEMPLATE_RULE_TARGETS.includes(value as NoteTemplateRuleTarget);
+}
+
 /** Alphabetical ordering options used by navigation trees. */
 export type AlphaSortOrder = 'alpha-asc' | 'alpha-desc';
 
@@ -160,6 +214,13 @@ export function isRecentNotesHideMode(value: unknown): value is RecentNotesHideM
 /** Number of calendar week rows shown in the navigation pane */
 export type CalendarWeeksToShow = 1 | 2 | 3 | 4 | 5 | 6;
 
+/** Where folder icons, colors, sort overrides and appearances are mirrored for sharing with the vault. */
+export type FolderMetadataStorage = 'settings' | 'folderNote' | 'sidecar';
+
+export function isFolderMetadataStorage(value: unknown): value is FolderMetadataStorage {
+    return value === 'settings' || value === 'folderNote' || value === 'sidecar';
+}
+
 /** Where the calendar is shown in the navigator UI. */
 export type CalendarPlacement = 'left-sidebar' | 'right-sidebar';
 
@@ -184,11 +245,18 @@ export function isCalendarWeekendDays(value: unknown): value is CalendarWeekendD
 /** Source used for calendar notes in the navigation pane */
 export type CalendarIntegrationMode = 'daily-notes' | 'notebook-navigator';
 
-/** Default display modes for list items */
-export type ListDisplayMode = 'standard' | 'compact';
+/**
+ * Display modes for list items. `board` renders notes as cards in columns keyed by a frontmatter property,
+ * `grid` renders files as thumbnail tiles
+ */
+export type ListDisplayMode = 'standard' | 'compact' | 'board' | 'grid';
+
+export function isListDisplayMode(value: unknown): value is ListDisplayMode {
+    return value === 'standard' || value === 'compact' || value === 'board' || value === 'grid';
+}
 
-/** Grouping options for list pane notes */
-export type ListNoteGroupingOption = 'none' | 'date' | 'folder';
+/** Grouping options for list pane notes. `property:<key>` groups notes by the value of a frontmatter property */
+export type ListNoteGroupingOption = 'none' | 'date' | 'folder' | 'tag' | 'alphabetical' | `property:${string}`;
 
 /** Date source to display when alphabetical sorting is active */
 export type AlphabeticalDateMode = 'created' | 'modified';
@@ -234,6 +302,9 @@ export interface VaultProfile {
     navigationBanner: string | null;
     periodicNotesFolder: string;
     shortcuts: ShortcutEntry[];
+    smartFolders: SmartFolder[];
+    smartFolderOrder: string[];
+    fileStyleRules: FileStyleRule[];
 }
 
 /**
@@ -248,6 +319,8 @@ export interface NotebookNavigatorSettings {
 
     // General tab - Behavior
     createNewNotesInNewTab: boolean;
+    newNoteFileNamePattern: string;
+    promptForNewNoteTitle: boolean;
     autoRevealActiveFile: boolean;
     autoRevealShortestPath: boolean;
     autoRevealIgnoreRightSidebar: boolean;
@@ -258,6 +331,8 @@ export interface NotebookNavigatorSettings {
     enterToOpenFiles: boolean;
     shiftEnterOpenContext: FileOpenContext;
     cmdCtrlEnterOpenContext: FileOpenContext;
+    vimKeyboardNavigation: boolean;
+    typeAheadFind: boolean;
 
     // General tab - View
     startView: 'navigation' | 'files';
@@ -291,6 +366,7 @@ export interface NotebookNavigatorSettings {
     dateFormat: string;
     timeFormat: string;
     calendarTemplateFolder: string;
+    noteTemplateRules: NoteTemplateRule[];
 
     // Files tab
     confirmBeforeDelete: boolean;
@@ -337,6 +413,7 @@ export interface NotebookNavigatorSettings {
     showRootFolder: boolean;
     inheritFolderColors: boolean;
     folderSortOrder: AlphaSortOrder;
+    folderMetadataStorage: FolderMetadataStorage;
     enableFolderNotes: boolean;
     folderNoteType: FolderNoteCreationPreference;
     folderNoteName: string;
@@ -361,6 +438,7 @@ export interface NotebookNavigatorSettings {
     inheritPropertyColors: boolean;
     propertySortOrder: TagSortOrder;
     showAllPropertiesFolder: boolean;
+    propertyHierarchies: PropertyHierarchy[];
 
     // List pane tab
     defaultListMode: ListDisplayMode;
@@ -424,6 +502,7 @@ export interface NotebookNavigatorSettings {
     notePropertyType: NotePropertyType;
     showFilePropertiesInCompactMode: boolean;
     showPropertiesOnSeparateRows: boolean;
+    showTaskProgress: boolean;
     showFileDate: boolean;
     alphabeticalDateMode: AlphabeticalDateMode;
     showParentFolder: boolean;
@@ -459,6 +538,7 @@ export interface NotebookNavigatorSettings {
 
     // Search settings and hotkeys
     searchProvider: SearchProvider | null;
+    searchNoteContent: boolean;
     keyboardShortcuts: KeyboardShortcutConfig;
 
     // Runtime state and cached data
@@ -470,8 +550,10 @@ export interface NotebookNavigatorSettings {
     folderColors: Record<string, string>;
     folderBackgroundColors: Record<string, string>;
     folderSortOverrides: Record<string, SortOption>;
+    folderSortChains: Record<string, SortChainKey[]>;
     folderTreeSortOverrides: Record<string, AlphaSortOrder>;
     folderAppearances: Record<string, FolderAppearance>;
+    folderNewNotePatterns: Record<string, string>;
     tagIcons: Record<string, string>;
     tagColors: Record<string, string>;
     tagBackgroundColors: Record<string, string>;
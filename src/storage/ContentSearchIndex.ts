@@ -0,0 +1,74 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { sortedTermsContainPrefix } from '../utils/contentSearchUtils';
+
+/**
+ * ContentSearchIndex - In-memory mirror of the content index store.
+ *
+ * Holds the sorted term list for every indexed markdown file.
+ * A path with an empty list has been indexed but contains no searchable text.
+ */
+export class ContentSearchIndex {
+    private termsByPath = new Map<string, readonly string[]>();
+
+    has(path: string): boolean {
+        return this.termsByPath.has(path);
+    }
+
+    get(path: string): readonly string[] | null {
+        return this.termsByPath.get(path) ?? null;
+    }
+
+    set(path: string, terms: readonly string[]): void {
+        this.termsByPath.set(path, terms);
+    }
+
+    delete(path: string): void {
+        this.termsByPath.delete(path);
+    }
+
+    move(oldPath: string, newPath: string): void {
+        const terms = this.termsByPath.get(oldPath);
+        if (terms === undefined) {
+            return;
+        }
+        this.termsByPath.delete(oldPath);
+        this.termsByPath.set(newPath, terms);
+    }
+
+    clear(): void {
+        this.termsByPath.clear();
+    }
+
+    getEntryCount(): number {
+        return this.termsByPath.size;
+    }
+
+    /**
+     * Checks if every query term is a prefix of at least one indexed term for the path.
+     * Unindexed paths never match.
+     */
+    matches(path: string, queryTerms: readonly string[]): boolean {
+        const terms = this.termsByPath.get(path);
+        if (terms === undefined) {
+            return false;
+        }
+        return queryTerms.every(term => sortedTermsContainPrefix(terms, term));
+    }
+}
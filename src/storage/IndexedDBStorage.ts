@@ -22,10 +22,13 @@ import type { ContentProviderType, FileContentType } from '../interfaces/IConten
 import { isMarkdownPath } from '../utils/fileTypeUtils';
 import { DEFAULT_FEATURE_IMAGE_CACHE_MAX, FEATURE_IMAGE_STORE_NAME, FeatureImageBlobStore } from './FeatureImageBlobStore';
 import { MemoryFileCache } from './MemoryFileCache';
+import { ContentSearchIndex } from './ContentSearchIndex';
+import { ContentIndexCoordinator } from './indexeddb/contentIndexOps';
 import { FeatureImageCoordinator } from './indexeddb/featureImageOps';
 import { PreviewTextCoordinator } from './indexeddb/previewTextOps';
 import { hydrateCacheFromMainStore } from './indexeddb/cacheHydration';
 import {
+    CONTENT_INDEX_STORE_NAME,
     DB_CONTENT_VERSION,
     DB_SCHEMA_VERSION,
     DEFAULT_PREVIEW_LOAD_MAX_BATCH,
@@ -41,7 +44,17 @@ import {
 import { normalizeFileData as normalizeFileDataValue } from './indexeddb/normalizeFileData';
 import { handleUpgradeNeeded } from './indexeddb/schemaUpgrade';
 import { createDefaultFileData, METADATA_SENTINEL } from './indexeddb/fileData';
-import type { PropertyItem, PropertyValueKind, FeatureImageStatus, FileContentChange, FileData, PreviewStatus } from './indexeddb/fileData';
+import type {
+    PropertyItem,
+    PropertyValueKind,
+    FeatureImageStatus,
+    FileContentChange,
+    FileData,
+    OpenTaskItem,
+    PreviewStatus,
+    ProviderValue,
+    ProviderValueEntry
+} from './indexeddb/fileData';
 import {
     runBatchUpdateFileContentAndProviderProcessedMtimes,
     type BatchUpdateFileContentAndProviderProcessedMtimesParams
@@ -50,13 +63,24 @@ import {
     runBatchClearAllFileContent,
     runBatchClearFeatureImageContent,
     runBatchClearFileContent,
+    runBatchClearProviderValues,
     runClearFileContent,
     runUpdateFileContent,
     runUpdateFileMetadata
 } from './indexeddb/contentMutationOperations';
 
 export { createDefaultFileData, METADATA_SENTINEL };
-export type { PropertyItem, PropertyValueKind, FeatureImageStatus, FileContentChange, FileData, PreviewStatus };
+export type {
+    PropertyItem,
+    PropertyValueKind,
+    FeatureImageStatus,
+    FileContentChange,
+    FileData,
+    OpenTaskItem,
+    PreviewStatus,
+    ProviderValue,
+    ProviderValueEntry
+};
 
 interface IndexedDBStorageOptions {
     featureImageCacheMaxEntries?: number;
@@ -93,6 +117,9 @@ export class IndexedDBStorage {
     private featureImageBlobs: FeatureImageBlobStore;
     private readonly featureImages: FeatureImageCoordinator;
     private readonly previewTexts: PreviewTextCoordinator;
+    // In-memory mirror of the content index store used by filter search.
+    private readonly contentIndex = new ContentSearchIndex();
+    private readonly contentIndexEntries: ContentIndexCoordinator;
     private fileChangeListeners = new Map<string, Set<(changes: FileContentChange['changes']) => void>>();
     private isClosing = false;
     private initPromise: Promise<void> | null = null;
@@ -124,6 +151,12 @@ export class IndexedDBStorage {
             previewTextCacheMaxEntries: normalizedPreviewTextCacheMaxEntries,
             previewLoadMaxBatch
         });
+        this.contentIndexEntries = new ContentIndexCoordinator({
+            index: this.contentIndex,
+            getDb: () => this.db,
+            init: () => this.init(),
+            isClosing: () => this.isClosing
+        });
     }
 
     consumePendingRebuildNotice(): boolean {
@@ -418,6 +451,7 @@ export class IndexedDBStorage {
                 // Initialize the cache with all data from IndexedDB
                 if (skipCacheLoad) {
                     this.cache.resetToEmpty();
+                    this.contentIndex.clear();
                 } else {
                     try {
                         const db = this.db;
@@ -427,12 +461,14 @@ export class IndexedDBStorage {
                             return;
                         }
                         await hydrateCacheFromMainStore({ db, cache: this.cache });
+                        await this.contentIndexEntries.hydrate(db);
                     } catch (error: unknown) {
                         console.error('[DB Cache] Failed to initialize cache:', error);
                         console.error(
                             '[DB Cache] IndexedDB cache hydration failed. Run Notebook Navigator: Rebuild cache to reset the database.'
                         );
                         this.cache.resetToEmpty();
+                        this.contentIndex.clear();
                     }
                 }
 
@@ -452,10 +488,14 @@ export class IndexedDBStorage {
         if (!this.db) throw new Error('Database not initialized');
 
         // Clear stores in one transaction to keep the cache consistent.
-        const transaction = this.db.transaction([STORE_NAME, FEATURE_IMAGE_STORE_NAME, PREVIEW_STORE_NAME], 'readwrite');
+        const transaction = this.db.transaction(
+            [STORE_NAME, FEATURE_IMAGE_STORE_NAME, PREVIEW_STORE_NAME, CONTENT_INDEX_STORE_NAME],
+            'readwrite'
+        );
         const store = transaction.objectStore(STORE_NAME);
         const blobStore = transaction.objectStore(FEATURE_IMAGE_STORE_NAME);
         const previewStore = transaction.objectStore(PREVIEW_STORE_NAME);
+        const contentIndexStore = transaction.objectStore(CONTENT_INDEX_STORE_NAME);
 
         return new Promise((resolve, reject) => {
             const op = 'clear';
@@ -488,8 +528,18 @@ export class IndexedDBStorage {
                     message: previewRequest.error?.message
                 });
             };
+            const contentIndexRequest = contentIndexStore.clear();
+            contentIndexRequest.onerror = () => {
+                lastRequestError = contentIndexRequest.error || null;
+                console.error('[IndexedDB] clear failed', {
+                    store: CONTENT_INDEX_STORE_NAME,
+                    name: contentIndexRequest.error?.name,
+                    message: contentIndexRequest.error?.message
+                });
+            };
             transaction.oncomplete = () => {
                 this.cache.resetToEmpty();
+                this.contentIndex.clear();
                 // Drop any in-memory blobs after clearing the database.
                 this.featureImageBlobs.clearMemoryCaches();
                 resolve();
@@ -612,10 +662,14 @@ export class IndexedDBStorage {
         await this.init();
         if (!this.db) throw new Error('Database not initialized');
 
-        const transaction = this.db.transaction([STORE_NAME, FEATURE_IMAGE_STORE_NAME, PREVIEW_STORE_NAME], 'readwrite');
+        const transaction = this.db.transaction(
+            [STORE_NAME, FEATURE_IMAGE_STORE_NAME, PREVIEW_STORE_NAME, CONTENT_INDEX_STORE_NAME],
+            'readwrite'
+        );
         const store = transaction.objectStore(STORE_NAME);
         const blobStore = transaction.objectStore(FEATURE_IMAGE_STORE_NAME);
         const previewStore = transaction.objectStore(PREVIEW_STORE_NAME);
+        const contentIndexStore = transaction.objectStore(CONTENT_INDEX_STORE_NAME);
 
         return new Promise((resolve, reject) => {
             const op = 'delete';
@@ -651,8 +705,19 @@ export class IndexedDBStorage {
                     message: previewRequest.error?.message
                 });
             };
+            const contentIndexRequest = contentIndexStore.delete(path);
+            contentIndexRequest.onerror = () => {
+                lastRequestError = contentIndexRequest.error || null;
+                console.error('[IndexedDB] delete failed', {
+                    store: CONTENT_INDEX_STORE_NAME,
+                    path,
+                    name: contentIndexRequest.error?.name,
+                    message: contentIndexRequest.error?.message
+                });
+            };
             transaction.oncomplete = () => {
                 this.cache.deleteFile(path);
+                this.contentIndex.delete(path);
                 this.featureImageBlobs.deleteFromCache(path);
                 resolve();
             };
@@ -867,10 +932,14 @@ export class IndexedDBStorage {
         await this.init();
         if (!this.db) throw new Error('Database not initialized');
 
-        const transaction = this.db.transaction([STORE_NAME, FEATURE_IMAGE_STORE_NAME, PREVIEW_STORE_NAME], 'readwrite');
+        const transaction = this.db.transaction(
+            [STORE_NAME, FEATURE_IMAGE_STORE_NAME, PREVIEW_STORE_NAME, CONTENT_INDEX_STORE_NAME],
+            'readwrite'
+        );
         const store = transaction.objectStore(STORE_NAME);
         const blobStore = transaction.objectStore(FEATURE_IMAGE_STORE_NAME);
         const previewStore = transaction.objectStore(PREVIEW_STORE_NAME);
+        const contentIndexStore = transaction.objectStore(CONTENT_INDEX_STORE_NAME);
 
         return new Promise((resolve, reject) => {
             const op = 'delete:batch';
@@ -912,10 +981,21 @@ export class IndexedDBStorage {
                         message: previewRequest.error?.message
                     });
                 };
+                const contentIndexRequest = contentIndexStore.delete(path);
+                contentIndexRequest.onerror = () => {
+                    lastRequestError = contentIndexRequest.error || null;
+                    console.error('[IndexedDB] delete failed', {
+                        store: CONTENT_INDEX_STORE_NAME,
+                        path,
+                        name: contentIndexRequest.error?.name,
+                        message: contentIndexRequest.error?.message
+                    });
+                };
             });
 
             transaction.oncomplete = () => {
                 this.cache.batchDelete(paths);
+                paths.forEach(path => this.contentIndex.delete(path));
                 paths.forEach(path => this.featureImageBlobs.deleteFromCache(path));
                 resolve();
             };
@@ -1018,7 +1098,9 @@ export class IndexedDBStorage {
                 (type === 'featureImage' && (data.featureImageKey === null || data.featureImageStatus === 'unprocessed')) ||
                 (type === 'metadata' && isMarkdownPath(path) && data.metadata === null) ||
                 (type === 'wordCount' && isMarkdownPath(path) && data.wordCount === null) ||
-                (type === 'tasks' && isMarkdownPath(path) && (data.taskTotal === null || data.taskUnfinished === null)) ||
+                (type === 'tasks' &&
+                    isMarkdownPath(path) &&
+                    (data.taskTotal === null || data.taskUnfinished === null || data.openTasks === null)) ||
                 (type === 'properties' && isMarkdownPath(path) && data.properties === null)
             ) {
                 result.add(path);
@@ -1049,7 +1131,7 @@ export class IndexedDBStorage {
                 (needsFeatureImage && (data.featureImageKey === null || data.featureImageStatus === 'unprocessed')) ||
                 (needsMetadata && isMarkdown && data.metadata === null) ||
                 (needsWordCount && isMarkdown && data.wordCount === null) ||
-                (needsTasks && isMarkdown && (data.taskTotal === null || data.taskUnfinished === null)) ||
+                (needsTasks && isMarkdown && (data.taskTotal === null || data.taskUnfinished === null || data.openTasks === null)) ||
                 (needsProperties && isMarkdown && data.properties === null)
             ) {
                 result.add(path);
@@ -1255,6 +1337,30 @@ export class IndexedDBStorage {
         );
     }
 
+    /**
+     * Remove the stored values of one external content provider from all files.
+     * Emits change notifications for affected files.
+     *
+     * @param providerId - Id the provider was registered with
+     */
+    async batchClearProviderValues(providerId: string): Promise<void> {
+        await this.init();
+        if (!this.db) throw new Error('Database not initialized');
+        await runBatchClearProviderValues(
+            {
+                db: this.db,
+                cache: this.cache,
+                featureImageBlobs: this.featureImageBlobs,
+                normalizeFileData: data => this.normalizeFileData(data),
+                emitChanges: changes => this.emitChanges(changes),
+                normalizeIdbError: (error, fallbackMessage) => this.normalizeIdbError(error, fallbackMessage),
+                rejectWithTransactionError: (reject, transaction, lastRequestError, fallbackMessage) =>
+                    this.rejectWithTransactionError(reject, transaction, lastRequestError, fallbackMessage)
+            },
+            { providerId }
+        );
+    }
+
     /**
      * Clear content for specific files in batch.
      * More efficient than multiple clearFileContent calls.
@@ -1316,6 +1422,7 @@ export class IndexedDBStorage {
                 cache: this.cache,
                 normalizeFileData: data => this.normalizeFileData(data),
                 featureImageBlobs: this.featureImageBlobs,
+                contentIndex: this.contentIndex,
                 emitChanges: changes => this.emitChanges(changes)
             },
             params
@@ -1398,6 +1505,42 @@ export class IndexedDBStorage {
         await this.previewTexts.deletePreviewText(path);
     }
 
+    /**
+     * Check if a file has a content index entry synchronously.
+     * Files with an empty term list count as indexed.
+     *
+     * @param path - File path to check
+     * @returns True if the file has been indexed for content search
+     */
+    hasContentIndexEntry(path: string): boolean {
+        return this.contentIndex.has(path);
+    }
+
+    /**
+     * Check if a file's indexed content contains every query term (prefix match).
+     *
+     * @param path - File path to check
+     * @param queryTerms - Normalized terms from `splitContentSearchQuery`
+     * @returns True when every term matches; false for files without an index entry
+     */
+    contentMatchesTerms(path: string, queryTerms: readonly string[]): boolean {
+        return this.contentIndex.matches(path, queryTerms);
+    }
+
+    /**
+     * Move a content index entry between paths.
+     */
+    async moveContentIndexEntry(oldPath: string, newPath: string): Promise<void> {
+        await this.contentIndexEntries.moveEntry(oldPath, newPath);
+    }
+
+    /**
+     * Remove all content index entries from storage and memory.
+     */
+    async clearContentIndex(): Promise<void> {
+        await this.contentIndexEntries.clearAll();
+    }
+
     /**
      * Get tags from memory cache, returning empty array if none.
      * Helper method for UI components that need tag data.
@@ -1469,6 +1612,7 @@ export class IndexedDBStorage {
         }
         this.initPromise = null;
         this.cache.clear();
+        this.contentIndex.clear();
         this.previewTexts.close();
         this.featureImages.close();
         this.featureImageBlobs.clearMemoryCaches();
@@ -32,8 +32,10 @@ function cloneFileData(data: FileData): FileData {
         wordCount: data.wordCount,
         taskTotal: data.taskTotal,
         taskUnfinished: data.taskUnfinished,
+        openTasks: data.openTasks ? data.openTasks.map(task => ({ ...task })) : null,
         // Clone property items to prevent consumers from mutating cached records.
         properties: clonePropertyItems(data.properties),
+        providerValues: { ...data.providerValues },
         previewStatus: data.previewStatus,
         // Feature image blobs are stored in IndexedDB, not in the memory cache.
         featureImage: null,
@@ -316,7 +316,9 @@ export async function recordFileChanges(
                 wordCount: renamed.wordCount,
                 taskTotal: renamed.taskTotal,
                 taskUnfinished: renamed.taskUnfinished,
+                openTasks: renamed.openTasks,
                 properties: renamed.properties,
+                providerValues: renamed.providerValues,
                 previewStatus: renamed.previewStatus,
                 featureImageStatus: renamed.featureImageStatus,
                 featureImageKey: renamed.featureImageKey,
@@ -360,12 +362,17 @@ export async function markFilesForRegeneration(files: TFile[]): Promise<void> {
             updates.push({ path: file.path, create: createDefaultFileData({ mtime: file.stat.mtime, path: file.path }) });
         } else {
             // Force regeneration by resetting provider processed mtimes without clearing existing content fields.
+            const providerValues: FileData['providerValues'] = {};
+            Object.entries(existing.providerValues).forEach(([providerId, entry]) => {
+                providerValues[providerId] = { value: entry.value, mtime: 0 };
+            });
             const patch: Partial<FileData> = {
                 mtime: file.stat.mtime,
                 markdownPipelineMtime: 0,
                 tagsMtime: 0,
                 metadataMtime: 0,
-                fileThumbnailsMtime: 0
+                fileThumbnailsMtime: 0,
+                providerValues
             };
             const createdData: FileData = { ...existing, ...patch };
             updates.push({ path: file.path, create: createdData, patch });
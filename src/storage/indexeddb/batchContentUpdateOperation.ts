@@ -18,16 +18,20 @@
 
 import type { ContentProviderType } from '../../interfaces/IContentProvider';
 import { FeatureImageBlobStore, FEATURE_IMAGE_STORE_NAME, computeFeatureImageMutation } from '../FeatureImageBlobStore';
+import { ContentSearchIndex } from '../ContentSearchIndex';
 import { MemoryFileCache } from '../MemoryFileCache';
-import { getProviderProcessedMtimeField } from '../providerMtime';
-import { PREVIEW_STORE_NAME, STORE_NAME } from './constants';
+import { getProviderProcessedMtime, setProviderProcessedMtime } from '../providerMtime';
+import { CONTENT_INDEX_STORE_NAME, PREVIEW_STORE_NAME, STORE_NAME } from './constants';
 import {
     createDefaultFileData,
     hasMetadataNameChanged,
+    normalizeOpenTasks,
     normalizeTaskCounters,
     type FileContentChange,
     type FileData,
-    type PreviewStatus
+    type OpenTaskItem,
+    type PreviewStatus,
+    type ProviderValue
 } from './fileData';
 import { rejectWithTransactionError } from './idbErrors';
 
@@ -37,11 +41,15 @@ export interface BatchContentUpdate {
     wordCount?: number | null;
     taskTotal?: number | null;
     taskUnfinished?: number | null;
+    openTasks?: OpenTaskItem[] | null;
     preview?: string;
+    contentTerms?: string[];
     featureImage?: Blob | null;
     featureImageKey?: string | null;
     metadata?: FileData['metadata'];
     properties?: FileData['properties'];
+    // External provider values keyed by provider id; processed mtimes are written separately.
+    providerValues?: Record<string, ProviderValue | null>;
 }
 
 export interface ProviderProcessedMtimeUpdate {
@@ -61,6 +69,7 @@ interface BatchContentUpdateOperationDeps {
     cache: MemoryFileCache;
     normalizeFileData: (data: Partial<FileData> & { preview?: string | null }) => FileData;
     featureImageBlobs: Pick<FeatureImageBlobStore, 'deleteFromCache'>;
+    contentIndex: Pick<ContentSearchIndex, 'set'>;
     emitChanges: (changes: FileContentChange[]) => void;
 }
 
@@ -107,15 +116,21 @@ export async function runBatchUpdateFileContentAndProviderProcessedMtimes(
     if (needsPreviewStore) {
         storeNames.push(PREVIEW_STORE_NAME);
     }
+    const needsContentIndexStore = contentUpdates.some(update => update.contentTerms !== undefined);
+    if (needsContentIndexStore) {
+        storeNames.push(CONTENT_INDEX_STORE_NAME);
+    }
 
     const transaction = deps.db.transaction(storeNames, 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
     const blobStore = needsFeatureImageStore ? transaction.objectStore(FEATURE_IMAGE_STORE_NAME) : null;
     const previewStore = needsPreviewStore ? transaction.objectStore(PREVIEW_STORE_NAME) : null;
+    const contentIndexStore = needsContentIndexStore ? transaction.objectStore(CONTENT_INDEX_STORE_NAME) : null;
     const filesToUpdate: { path: string; data: FileData }[] = [];
     const changeNotifications: FileContentChange[] = [];
     const featureImageCacheUpdates = new Set<string>();
     const previewTextUpdates: { path: string; previewText: string; previewStatus: PreviewStatus }[] = [];
+    const contentIndexUpdates: { path: string; terms: string[] }[] = [];
     let createdRecordWithoutKnownMtime = 0;
     const createdRecordWithoutKnownMtimeExamples: string[] = [];
 
@@ -143,12 +158,10 @@ export async function runBatchUpdateFileContentAndProviderProcessedMtimes(
                 const changes: FileContentChange['changes'] = {};
                 let metadataNameChanged = false;
                 let hasContentChanges = false;
-                const providerField = provider ? getProviderProcessedMtimeField(provider) : null;
                 const shouldApplyProviderContent =
                     !provider ||
                     !processedMtimeUpdate ||
-                    !providerField ||
-                    newData[providerField] === processedMtimeUpdate.expectedPreviousMtime;
+                    getProviderProcessedMtime(newData, provider) === processedMtimeUpdate.expectedPreviousMtime;
                 const guardedUpdate = shouldApplyProviderContent ? update : null;
                 const hasFeatureImageUpdate = guardedUpdate?.featureImageKey !== undefined || guardedUpdate?.featureImage !== undefined;
                 const featureImageMutation =
@@ -182,11 +195,26 @@ export async function runBatchUpdateFileContentAndProviderProcessedMtimes(
                         changes.taskUnfinished = normalizedTaskCounters.taskUnfinished;
                         hasContentChanges = true;
                     }
+                    if (guardedUpdate.openTasks !== undefined) {
+                        const normalizedOpenTasks = normalizeOpenTasks(guardedUpdate.openTasks);
+                        newData.openTasks = normalizedOpenTasks;
+                        changes.openTasks = normalizedOpenTasks;
+                        hasContentChanges = true;
+                    }
                     if (guardedUpdate.properties !== undefined) {
                         newData.properties = guardedUpdate.properties;
                         changes.properties = guardedUpdate.properties;
                         hasContentChanges = true;
                     }
+                    if (guardedUpdate.providerValues !== undefined) {
+                        const providerValues = { ...newData.providerValues };
+                        Object.entries(guardedUpdate.providerValues).forEach(([providerId, value]) => {
+                            providerValues[providerId] = { value, mtime: providerValues[providerId]?.mtime ?? 0 };
+                        });
+                        newData.providerValues = providerValues;
+                        changes.providerValues = providerValues;
+                        hasContentChanges = true;
+                    }
                     if (guardedUpdate.preview !== undefined) {
                         const previewStatus: PreviewStatus = guardedUpdate.preview.length > 0 ? 'has' : 'none';
                         newData.previewStatus = previewStatus;
@@ -220,6 +248,25 @@ export async function runBatchUpdateFileContentAndProviderProcessedMtimes(
                         }
                     }
 
+                    if (guardedUpdate.contentTerms !== undefined && contentIndexStore) {
+                        // Content index records always exist for indexed files; an empty list marks "indexed, no terms".
+                        const contentTerms = guardedUpdate.contentTerms;
+                        const contentIndexReq = contentIndexStore.put(contentTerms, path);
+                        contentIndexReq.onerror = () => {
+                            lastRequestError = contentIndexReq.error || null;
+                            console.error('[IndexedDB] put failed', {
+                                store: CONTENT_INDEX_STORE_NAME,
+                                op,
+                                path,
+                                name: contentIndexReq.error?.name,
+                                message: contentIndexReq.error?.message
+                            });
+                        };
+                        changes.contentTerms = contentTerms;
+                        hasContentChanges = true;
+                        contentIndexUpdates.push({ path, terms: contentTerms });
+                    }
+
                     if (featureImageMutation) {
                         if (featureImageMutation.changes.featureImageKey !== undefined) {
                             changes.featureImageKey = featureImageMutation.changes.featureImageKey;
@@ -250,9 +297,9 @@ export async function runBatchUpdateFileContentAndProviderProcessedMtimes(
                 let hasProviderMtimeChanges = false;
                 if (processedMtimeUpdate && provider) {
                     const { mtime, expectedPreviousMtime } = processedMtimeUpdate;
-                    const field = getProviderProcessedMtimeField(provider);
-                    if (newData[field] === expectedPreviousMtime && newData[field] !== mtime) {
-                        newData[field] = mtime;
+                    const previousMtime = getProviderProcessedMtime(newData, provider);
+                    if (previousMtime === expectedPreviousMtime && previousMtime !== mtime) {
+                        setProviderProcessedMtime(newData, provider, mtime);
                         hasProviderMtimeChanges = true;
                     }
                 }
@@ -306,12 +353,15 @@ export async function runBatchUpdateFileContentAndProviderProcessedMtimes(
                     if (hasContentChanges) {
                         const hasContentUpdates =
                             changes.preview !== undefined ||
+                            changes.contentTerms !== undefined ||
                             changes.featureImageKey !== undefined ||
                             changes.featureImageStatus !== undefined ||
                             changes.wordCount !== undefined ||
                             changes.taskTotal !== undefined ||
                             changes.taskUnfinished !== undefined ||
-                            changes.properties !== undefined;
+                            changes.openTasks !== undefined ||
+                            changes.properties !== undefined ||
+                            changes.providerValues !== undefined;
                         const hasMetadataUpdates = changes.metadata !== undefined || changes.tags !== undefined;
                         const updateType = hasContentUpdates && hasMetadataUpdates ? 'both' : hasContentUpdates ? 'content' : 'metadata';
                         const contentChange: FileContentChange = { path, changes, changeType: updateType };
@@ -367,6 +417,7 @@ export async function runBatchUpdateFileContentAndProviderProcessedMtimes(
                 deps.cache.updateFileContent(update.path, { previewText: update.previewText, previewStatus: update.previewStatus });
             });
         }
+        contentIndexUpdates.forEach(update => deps.contentIndex.set(update.path, update.terms));
         if (changeNotifications.length > 0) {
             deps.emitChanges(changeNotifications);
         }
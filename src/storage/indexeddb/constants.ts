@@ -20,8 +20,9 @@ import { LIMITS } from '../../constants/limits';
 
 export const STORE_NAME = 'keyvaluepairs';
 export const PREVIEW_STORE_NAME = 'filePreviews';
+export const CONTENT_INDEX_STORE_NAME = 'fileContentIndex';
 
-export const DB_SCHEMA_VERSION = 3; // IndexedDB structure version
+export const DB_SCHEMA_VERSION = 4; // IndexedDB structure version
 export const DB_CONTENT_VERSION = 4; // Data format version
 
 // Default limits for preview text caching and load batching.
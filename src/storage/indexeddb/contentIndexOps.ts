@@ -0,0 +1,255 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ContentSearchIndex } from '../ContentSearchIndex';
+import { CONTENT_INDEX_STORE_NAME } from './constants';
+import { normalizeIdbError, rejectWithTransactionError } from './idbErrors';
+
+interface ContentIndexCoordinatorDeps {
+    index: ContentSearchIndex;
+    getDb: () => IDBDatabase | null;
+    init: () => Promise<void>;
+    isClosing: () => boolean;
+}
+
+// Accepts only string arrays; anything else is treated as a missing entry so the file is re-indexed.
+const readStoredTerms = (value: unknown): string[] | null => {
+    if (!Array.isArray(value)) {
+        return null;
+    }
+    const terms: string[] = [];
+    for (const entry of value) {
+        if (typeof entry !== 'string') {
+            return null;
+        }
+        terms.push(entry);
+    }
+    return terms;
+};
+
+/**
+ * Loads, moves, and clears content index records.
+ * Writes from content providers go through the batch content update transaction instead.
+ */
+export class ContentIndexCoordinator {
+    private readonly index: ContentSearchIndex;
+    private readonly getDb: () => IDBDatabase | null;
+    private readonly init: () => Promise<void>;
+    private readonly isClosing: () => boolean;
+
+    constructor(deps: ContentIndexCoordinatorDeps) {
+        this.index = deps.index;
+        this.getDb = deps.getDb;
+        this.init = deps.init;
+        this.isClosing = deps.isClosing;
+    }
+
+    /**
+     * Populates the in-memory index from the content index store.
+     * Called while the database connection is opened, before the cache is marked ready for providers.
+     */
+    async hydrate(db: IDBDatabase): Promise<void> {
+        this.index.clear();
+
+        const transaction = db.transaction([CONTENT_INDEX_STORE_NAME], 'readonly');
+        const store = transaction.objectStore(CONTENT_INDEX_STORE_NAME);
+
+        await new Promise<void>((resolve, reject) => {
+            const op = 'hydrateContentIndex';
+            let lastRequestError: DOMException | Error | null = null;
+
+            const request = store.openCursor();
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (!cursor) {
+                    return;
+                }
+
+                const path = cursor.key;
+                const terms = readStoredTerms(cursor.value);
+                if (typeof path === 'string' && terms) {
+                    this.index.set(path, terms);
+                }
+
+                cursor.continue();
+            };
+            request.onerror = () => {
+                const requestError = request.error;
+                lastRequestError = requestError || null;
+                console.error('[IndexedDB] openCursor failed', {
+                    store: CONTENT_INDEX_STORE_NAME,
+                    op,
+                    name: requestError?.name,
+                    message: requestError?.message
+                });
+                reject(normalizeIdbError(requestError, 'Cursor request failed'));
+            };
+
+            transaction.oncomplete = () => resolve();
+            transaction.onabort = () => {
+                console.error('[IndexedDB] transaction aborted', {
+                    store: CONTENT_INDEX_STORE_NAME,
+                    op,
+                    txError: transaction.error?.message,
+                    reqError: lastRequestError?.message
+                });
+                rejectWithTransactionError(reject, transaction, lastRequestError, 'Transaction aborted');
+            };
+            transaction.onerror = () => {
+                console.error('[IndexedDB] transaction error', {
+                    store: CONTENT_INDEX_STORE_NAME,
+                    op,
+                    txError: transaction.error?.message,
+                    reqError: lastRequestError?.message
+                });
+                rejectWithTransactionError(reject, transaction, lastRequestError, 'Transaction error');
+            };
+        });
+    }
+
+    /**
+     * Moves an indexed term list between paths.
+     * The in-memory entry moves immediately so search results stay stable during renames.
+     */
+    async moveEntry(oldPath: string, newPath: string): Promise<void> {
+        if (oldPath === newPath) {
+            return;
+        }
+
+        const terms = this.index.get(oldPath);
+        if (terms === null) {
+            return;
+        }
+        this.index.move(oldPath, newPath);
+
+        try {
+            await this.init();
+            const db = this.getDb();
+            if (!db) throw new Error('Database not initialized');
+
+            const transaction = db.transaction([CONTENT_INDEX_STORE_NAME], 'readwrite');
+            const store = transaction.objectStore(CONTENT_INDEX_STORE_NAME);
+
+            await new Promise<void>((resolve, reject) => {
+                const op = 'moveContentIndexEntry';
+                let lastRequestError: DOMException | Error | null = null;
+
+                const putReq = store.put(terms, newPath);
+                putReq.onerror = () => {
+                    lastRequestError = putReq.error || null;
+                    console.error('[IndexedDB] put failed', {
+                        store: CONTENT_INDEX_STORE_NAME,
+                        op,
+                        path: newPath,
+                        name: putReq.error?.name,
+                        message: putReq.error?.message
+                    });
+                };
+                const deleteReq = store.delete(oldPath);
+                deleteReq.onerror = () => {
+                    lastRequestError = deleteReq.error || null;
+                    console.error('[IndexedDB] delete failed', {
+                        store: CONTENT_INDEX_STORE_NAME,
+                        op,
+                        path: oldPath,
+                        name: deleteReq.error?.name,
+                        message: deleteReq.error?.message
+                    });
+                };
+
+                transaction.oncomplete = () => resolve();
+                transaction.onabort = () => {
+                    console.error('[IndexedDB] transaction aborted', {
+                        store: CONTENT_INDEX_STORE_NAME,
+                        op,
+                        txError: transaction.error?.message,
+                        reqError: lastRequestError?.message
+                    });
+                    rejectWithTransactionError(reject, transaction, lastRequestError, 'Transaction aborted');
+                };
+                transaction.onerror = () => {
+                    console.error('[IndexedDB] transaction error', {
+                        store: CONTENT_INDEX_STORE_NAME,
+                        op,
+                        txError: transaction.error?.message,
+                        reqError: lastRequestError?.message
+                    });
+                    rejectWithTransactionError(reject, transaction, lastRequestError, 'Transaction error');
+                };
+            });
+        } catch (error: unknown) {
+            // The markdown pipeline re-indexes renamed files, so a failed move only delays search results.
+            this.index.delete(newPath);
+            if (!this.isClosing()) {
+                console.error('[ContentIndex] Failed to move content index entry', { oldPath, newPath, error });
+            }
+        }
+    }
+
+    /**
+     * Removes every content index record.
+     * Used when content search is disabled so stale terms do not linger in storage.
+     */
+    async clearAll(): Promise<void> {
+        await this.init();
+        const db = this.getDb();
+        if (!db) throw new Error('Database not initialized');
+
+        const transaction = db.transaction([CONTENT_INDEX_STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(CONTENT_INDEX_STORE_NAME);
+
+        await new Promise<void>((resolve, reject) => {
+            const op = 'clearContentIndex';
+            let lastRequestError: DOMException | Error | null = null;
+
+            const request = store.clear();
+            request.onerror = () => {
+                lastRequestError = request.error || null;
+                console.error('[IndexedDB] clear failed', {
+                    store: CONTENT_INDEX_STORE_NAME,
+                    op,
+                    name: request.error?.name,
+                    message: request.error?.message
+                });
+            };
+
+            transaction.oncomplete = () => {
+                this.index.clear();
+                resolve();
+            };
+            transaction.onabort = () => {
+                console.error('[IndexedDB] transaction aborted', {
+                    store: CONTENT_INDEX_STORE_NAME,
+                    op,
+                    txError: transaction.error?.message,
+                    reqError: lastRequestError?.message
+                });
+                rejectWithTransactionError(reject, transaction, lastRequestError, 'Transaction aborted');
+            };
+            transaction.onerror = () => {
+                console.error('[IndexedDB] transaction error', {
+                    store: CONTENT_INDEX_STORE_NAME,
+                    op,
+                    txError: transaction.error?.message,
+                    reqError: lastRequestError?.message
+                });
+                rejectWithTransactionError(reject, transaction, lastRequestError, 'Transaction error');
+            };
+        });
+    }
+}
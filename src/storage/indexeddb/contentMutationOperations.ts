@@ -580,6 +580,11 @@ export async function runBatchClearAllFileContent(
                     changes.properties = null;
                     hasChanges = true;
                 }
+                if (type === 'all' && Object.keys(updated.providerValues).length > 0) {
+                    updated.providerValues = {};
+                    changes.providerValues = {};
+                    hasChanges = true;
+                }
 
                 if (hasChanges) {
                     const updateReq = cursor.update(updated);
@@ -603,7 +608,8 @@ export async function runBatchClearAllFileContent(
                         changes.preview === null ||
                         changes.featureImageKey === null ||
                         changes.featureImageStatus !== undefined ||
-                        changes.properties === null;
+                        changes.properties === null ||
+                        changes.providerValues !== undefined;
                     const hasMetadataCleared = changes.metadata === null || changes.tags !== undefined;
                     const clearType = hasContentCleared && hasMetadataCleared ? 'both' : hasContentCleared ? 'content' : 'metadata';
                     const contentChange: FileContentChange = { path, changes, changeType: clearType };
@@ -799,6 +805,100 @@ export async function runBatchClearFeatureImageContent(
     }
 }
 
+export async function runBatchClearProviderValues(deps: ContentMutationOperationDeps, params: { providerId: string }): Promise<void> {
+    const { providerId } = params;
+    const transaction = deps.db.transaction([STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const changeNotifications: FileContentChange[] = [];
+    const cacheUpdates: { path: string; data: FileData }[] = [];
+    const op = 'batchClearProviderValues';
+    let lastRequestError: DOMException | Error | null = null;
+
+    await new Promise<void>((resolve, reject) => {
+        const request = store.openCursor();
+
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) {
+                return;
+            }
+
+            const path = cursor.key;
+            if (typeof path !== 'string') {
+                cursor.continue();
+                return;
+            }
+
+            const current = deps.normalizeFileData(cursor.value as Partial<FileData>);
+            if (!Object.prototype.hasOwnProperty.call(current.providerValues, providerId)) {
+                cursor.continue();
+                return;
+            }
+
+            const providerValues = { ...current.providerValues };
+            delete providerValues[providerId];
+            const updated: FileData = { ...current, providerValues };
+            const updateReq = cursor.update(updated);
+            updateReq.onerror = () => {
+                lastRequestError = updateReq.error || null;
+                console.error('[IndexedDB] cursor.update failed', {
+                    store: STORE_NAME,
+                    op,
+                    path,
+                    name: updateReq.error?.name,
+                    message: updateReq.error?.message
+                });
+                try {
+                    transaction.abort();
+                } catch (e) {
+                    void e;
+                }
+            };
+            cacheUpdates.push({ path, data: updated });
+            changeNotifications.push({ path, changes: { providerValues }, changeType: 'content' });
+
+            cursor.continue();
+        };
+
+        request.onerror = () => {
+            const requestError = request.error;
+            lastRequestError = requestError || null;
+            console.error('[IndexedDB] openCursor failed', {
+                store: STORE_NAME,
+                op,
+                name: requestError?.name,
+                message: requestError?.message
+            });
+            reject(deps.normalizeIdbError(requestError, 'Cursor request failed'));
+        };
+
+        transaction.oncomplete = () => resolve();
+        transaction.onabort = () => {
+            console.error('[IndexedDB] transaction aborted', {
+                store: STORE_NAME,
+                op,
+                txError: transaction.error?.message,
+                reqError: lastRequestError?.message
+            });
+            deps.rejectWithTransactionError(reject, transaction, lastRequestError, 'Transaction aborted');
+        };
+        transaction.onerror = () => {
+            console.error('[IndexedDB] transaction error', {
+                store: STORE_NAME,
+                op,
+                txError: transaction.error?.message,
+                reqError: lastRequestError?.message
+            });
+            deps.rejectWithTransactionError(reject, transaction, lastRequestError, 'Transaction error');
+        };
+    });
+
+    if (cacheUpdates.length > 0) {
+        deps.cache.batchUpdate(cacheUpdates);
+        deps.emitChanges(changeNotifications);
+    }
+}
+
 export async function runBatchClearFileContent(
     deps: ContentMutationOperationDeps,
     params: { paths: string[]; type: 'preview' | 'featureImage' | 'metadata' | 'tags' | 'properties' | 'all' }
@@ -878,6 +978,11 @@ export async function runBatchClearFileContent(
                     changes.properties = null;
                     hasChanges = true;
                 }
+                if (type === 'all' && Object.keys(file.providerValues).length > 0) {
+                    file.providerValues = {};
+                    changes.providerValues = {};
+                    hasChanges = true;
+                }
                 if (hasChanges) {
                     const putReq = store.put(file, path);
                     putReq.onerror = () => {
@@ -909,7 +1014,8 @@ export async function runBatchClearFileContent(
                         changes.preview === null ||
                         changes.featureImageKey === null ||
                         changes.featureImageStatus !== undefined ||
-                        changes.properties === null;
+                        changes.properties === null ||
+                        changes.providerValues !== undefined;
                     const hasMetadataCleared = changes.metadata === null || changes.tags !== undefined;
                     const clearType = hasContentCleared && hasMetadataCleared ? 'both' : hasContentCleared ? 'content' : 'metadata';
                     const contentChange: FileContentChange = { path, changes, changeType: clearType };
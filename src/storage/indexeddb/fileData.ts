@@ -71,6 +71,78 @@ export function isPropertyData(value: unknown): value is PropertyItem[] {
     return value.every(entry => isPropertyItem(entry));
 }
 
+/**
+ * Value computed by an external content provider.
+ * Persisted data must remain JSON-compatible.
+ */
+export type ProviderValue = string | number | boolean;
+
+export interface ProviderValueEntry {
+    // Computed value; null when the provider processed the file but produced no value.
+    value: ProviderValue | null;
+    // Last file mtime processed by the provider. 0 forces the provider to run again.
+    mtime: number;
+}
+
+export function isProviderValue(value: unknown): value is ProviderValue {
+    return typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value));
+}
+
+/**
+ * Normalizes persisted external provider values.
+ * Invalid entries are dropped so the owning provider regenerates them.
+ */
+export function normalizeProviderValues(value: unknown): Record<string, ProviderValueEntry> {
+    if (!isPlainObjectRecordValue(value)) {
+        return {};
+    }
+
+    const normalized: Record<string, ProviderValueEntry> = {};
+    for (const [providerId, entry] of Object.entries(value)) {
+        if (!isPlainObjectRecordValue(entry)) {
+            continue;
+        }
+        const rawValue = entry['value'];
+        const rawMtime = entry['mtime'];
+        if ((rawValue !== null && !isProviderValue(rawValue)) || typeof rawMtime !== 'number') {
+            continue;
+        }
+        normalized[providerId] = { value: rawValue, mtime: rawMtime };
+    }
+    return normalized;
+}
+
+/**
+ * Unfinished task extracted from a markdown note body.
+ */
+export interface OpenTaskItem {
+    // Task text without the list marker, checkbox, and due date annotation
+    text: string;
+    // Due date as YYYY-MM-DD, or null when the task has no due date
+    due: string | null;
+}
+
+const OPEN_TASK_DUE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isOpenTaskItem(value: unknown): value is OpenTaskItem {
+    if (!isPlainObjectRecordValue(value)) {
+        return false;
+    }
+    const due = value['due'];
+    return typeof value['text'] === 'string' && (due === null || (typeof due === 'string' && OPEN_TASK_DUE_PATTERN.test(due)));
+}
+
+/**
+ * Normalizes persisted open tasks.
+ * Returns null for invalid data so the markdown pipeline extracts the tasks again.
+ */
+export function normalizeOpenTasks(value: unknown): OpenTaskItem[] | null {
+    if (!Array.isArray(value) || !value.every(isOpenTaskItem)) {
+        return null;
+    }
+    return value.map(task => ({ text: task.text, due: task.due }));
+}
+
 // Task counters are stored and updated as a pair.
 //
 // Valid states:
@@ -116,7 +188,9 @@ export function createDefaultFileData(params: { mtime: number; path: string }):
         wordCount: isMarkdown ? null : 0,
         taskTotal: isMarkdown ? null : 0,
         taskUnfinished: isMarkdown ? null : 0,
+        openTasks: isMarkdown ? null : [],
         properties: null,
+        providerValues: {},
         previewStatus: getDefaultPreviewStatusForPath(params.path),
         featureImage: null,
         featureImageStatus: 'unprocessed',
@@ -166,7 +240,17 @@ export interface FileData {
     wordCount: number | null; // null = not generated yet
     taskTotal: number | null; // null = not generated yet
     taskUnfinished: number | null; // null = not generated yet
+    /**
+     * Unfinished tasks in document order, capped by `LIMITS.markdown.openTasks`.
+     * null = not generated yet
+     */
+    openTasks: OpenTaskItem[] | null;
     properties: PropertyItem[] | null; // null = not generated yet
+    /**
+     * Values computed by external content providers, keyed by provider id.
+     * A missing entry means the provider has not processed the file yet.
+     */
+    providerValues: Record<string, ProviderValueEntry>;
     /**
      * Preview text processing state.
      *
@@ -218,6 +302,7 @@ export interface FileContentChange {
     path: string;
     changes: {
         preview?: string | null;
+        contentTerms?: string[] | null;
         featureImage?: Blob | null;
         featureImageKey?: string | null;
         featureImageStatus?: FeatureImageStatus;
@@ -226,7 +311,9 @@ export interface FileContentChange {
         wordCount?: number | null;
         taskTotal?: number | null;
         taskUnfinished?: number | null;
+        openTasks?: OpenTaskItem[] | null;
         properties?: FileData['properties'];
+        providerValues?: FileData['providerValues'];
     };
     changeType?: 'metadata' | 'content' | 'both';
     /** True when metadata.name changes between persisted values */
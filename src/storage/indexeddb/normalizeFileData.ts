@@ -16,7 +16,15 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { type FeatureImageStatus, type FileData, getDefaultPreviewStatusForPath, isPropertyData, normalizeTaskCounters } from './fileData';
+import {
+    type FeatureImageStatus,
+    type FileData,
+    getDefaultPreviewStatusForPath,
+    isPropertyData,
+    normalizeOpenTasks,
+    normalizeProviderValues,
+    normalizeTaskCounters
+} from './fileData';
 
 type MutableFileData = Partial<FileData> & { preview?: string | null; customProperty?: unknown };
 
@@ -55,11 +63,13 @@ export function normalizeFileDataInPlace(data: MutableFileData, pathForDefaults?
     const normalizedTaskCounters = normalizeTaskCounters(data.taskTotal, data.taskUnfinished);
     data.taskTotal = normalizedTaskCounters.taskTotal;
     data.taskUnfinished = normalizedTaskCounters.taskUnfinished;
+    data.openTasks = normalizeOpenTasks(data.openTasks);
     const rawProperties = data.properties ?? data.customProperty;
     data.properties = isPropertyData(rawProperties) ? rawProperties : null;
     if ('customProperty' in data) {
         delete data.customProperty;
     }
+    data.providerValues = normalizeProviderValues(data.providerValues);
     data.previewStatus = previewStatus;
     // Feature image blobs are stored separately from the main record.
     // The MemoryFileCache is used for synchronous rendering and should not hold blob payloads.
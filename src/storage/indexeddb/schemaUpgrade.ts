@@ -18,7 +18,7 @@
 
 import { FEATURE_IMAGE_STORE_NAME } from '../FeatureImageBlobStore';
 import { isPlainObjectRecordValue } from '../../utils/recordUtils';
-import { PREVIEW_STORE_NAME, STORE_NAME } from './constants';
+import { CONTENT_INDEX_STORE_NAME, PREVIEW_STORE_NAME, STORE_NAME } from './constants';
 import type { PreviewStatus } from './fileData';
 
 export function handleUpgradeNeeded(event: IDBVersionChangeEvent): void {
@@ -44,6 +44,12 @@ export function handleUpgradeNeeded(event: IDBVersionChangeEvent): void {
         db.createObjectStore(PREVIEW_STORE_NAME);
     }
 
+    // Schema v4 introduces a dedicated content index store (sorted term lists keyed by path).
+    // The store starts empty; the markdown pipeline fills it when content search is enabled.
+    if (!db.objectStoreNames.contains(CONTENT_INDEX_STORE_NAME)) {
+        db.createObjectStore(CONTENT_INDEX_STORE_NAME);
+    }
+
     const transaction = target.transaction;
     if (!transaction) {
         return;
@@ -1,6 +1,9 @@
-import type { ContentProviderType } from '../interfaces/IContentProvider';
+import type { BuiltInContentProviderType, ContentProviderType, ExternalContentProviderType } from '../interfaces/IContentProvider';
+import type { FileData } from './indexeddb/fileData';
 
-export type ProviderProcessedMtimeField = `${ContentProviderType}Mtime`;
+export type ProviderProcessedMtimeField = `${BuiltInContentProviderType}Mtime`;
+
+const EXTERNAL_PROVIDER_PREFIX = 'external:';
 
 function describeProvider(value: never): string {
     return String(value);
@@ -10,7 +13,19 @@ function assertNever(value: never): never {
     throw new Error(`Unsupported content provider type: ${describeProvider(value)}`);
 }
 
-export function getProviderProcessedMtimeField(provider: ContentProviderType): ProviderProcessedMtimeField {
+export function getExternalContentProviderType(providerId: string): ExternalContentProviderType {
+    return `${EXTERNAL_PROVIDER_PREFIX}${providerId}`;
+}
+
+export function isExternalContentProviderType(provider: ContentProviderType): provider is ExternalContentProviderType {
+    return provider.startsWith(EXTERNAL_PROVIDER_PREFIX);
+}
+
+function getExternalContentProviderId(provider: ExternalContentProviderType): string {
+    return provider.slice(EXTERNAL_PROVIDER_PREFIX.length);
+}
+
+function getProviderProcessedMtimeField(provider: BuiltInContentProviderType): ProviderProcessedMtimeField {
     switch (provider) {
         case 'markdownPipeline':
             return 'markdownPipelineMtime';
@@ -24,3 +39,28 @@ export function getProviderProcessedMtimeField(provider: ContentProviderType): P
             return assertNever(provider);
     }
 }
+
+/**
+ * Reads the last file mtime processed by a provider.
+ * External providers keep their processed mtime next to the stored value; 0 means not processed yet.
+ */
+export function getProviderProcessedMtime(data: FileData, provider: ContentProviderType): number {
+    if (isExternalContentProviderType(provider)) {
+        return data.providerValues[getExternalContentProviderId(provider)]?.mtime ?? 0;
+    }
+    return data[getProviderProcessedMtimeField(provider)];
+}
+
+/**
+ * Writes the processed mtime for a provider into a mutable record.
+ * External provider entries are created with a null value when they do not exist yet.
+ */
+export function setProviderProcessedMtime(data: FileData, provider: ContentProviderType, mtime: number): void {
+    if (isExternalContentProviderType(provider)) {
+        const providerId = getExternalContentProviderId(provider);
+        const existing = data.providerValues[providerId];
+        data.providerValues = { ...data.providerValues, [providerId]: { value: existing?.value ?? null, mtime } };
+        return;
+    }
+    data[getProviderProcessedMtimeField(provider)] = mtime;
+}
@@ -16,8 +16,11 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
+import type { App } from 'obsidian';
 import type { NotebookNavigatorSettings } from '../settings';
 import { isPathInExcludedFolder } from '../utils/fileFilters';
+import { getParentFolderPath } from '../utils/pathUtils';
+import { casefold } from '../utils/recordUtils';
 import { getActiveHiddenFolders } from '../utils/vaultProfiles';
 import { getDBInstance } from './fileOperations';
 import { METADATA_SENTINEL, type FileData } from './IndexedDBStorage';
@@ -31,7 +34,7 @@ import { METADATA_SENTINEL, type FileData } from './IndexedDBStorage';
  * - Estimates total cache size in megabytes
  *
  * Relationships:
- * - Used by: Settings UI (displays cache statistics)
+ * - Used by: Settings UI (displays cache statistics), statistics dashboard view (vault overview)
  * - Uses: IndexedDBStorage (streams file data for analysis)
  *
  * Key responsibilities:
@@ -39,6 +42,7 @@ import { METADATA_SENTINEL, type FileData } from './IndexedDBStorage';
  * - Count content types (previews, images, metadata)
  * - Calculate total storage size using JSON serialization
  * - Return statistics for display in settings
+ * - Aggregate vault statistics (activity per week, words and open tasks per folder, top tags and properties)
  */
 
 export interface CacheStatistics {
@@ -341,3 +345,261 @@ export async function calculateCacheStatistics(
         return null;
     }
 }
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Per-note input for the vault statistics aggregation */
+export interface VaultStatisticsNote {
+    path: string;
+    created: number;
+    modified: number;
+    data: FileData | null;
+    // Whether any other note links to this note
+    hasBacklinks: boolean;
+}
+
+/** Notes created and modified inside one week. `end` is the last millisecond of the week. */
+export interface VaultStatisticsWeek {
+    start: number;
+    end: number;
+    created: number;
+    modified: number;
+}
+
+export interface VaultStatisticsFolderValue {
+    folderPath: string;
+    value: number;
+}
+
+export interface VaultStatisticsCount {
+    // Normalized key used for navigation (lowercase tag path or property key)
+    key: string;
+    // First spelling seen in the vault
+    label: string;
+    count: number;
+}
+
+export interface VaultStatistics {
+    totalNotes: number;
+    totalWords: number;
+    openTasks: number;
+    untaggedNotes: number;
+    orphanedNotes: number;
+    weeks: VaultStatisticsWeek[];
+    wordsPerFolder: VaultStatisticsFolderValue[];
+    openTasksPerFolder: VaultStatisticsFolderValue[];
+    topTags: VaultStatisticsCount[];
+    topProperties: VaultStatisticsCount[];
+}
+
+export interface VaultStatisticsOptions {
+    // Reference time for the weekly buckets
+    now: number;
+    // Number of weeks to include, ending with the week containing `now`
+    weekCount: number;
+    // Maximum entries in folder, tag, and property rankings
+    topCount: number;
+}
+
+export const DEFAULT_VAULT_STATISTICS_OPTIONS: Omit<VaultStatisticsOptions, 'now'> = {
+    weekCount: 12,
+    topCount: 10
+};
+
+// Returns the local-time Monday at 00:00 of the week containing the timestamp
+function getLocalWeekStart(timestamp: number): Date {
+    const date = new Date(timestamp);
+    const daysSinceMonday = (date.getDay() + 6) % 7;
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() - daysSinceMonday);
+}
+
+function buildWeekBuckets(now: number, weekCount: number): VaultStatisticsWeek[] {
+    const currentWeekStart = getLocalWeekStart(now);
+    const weeks: VaultStatisticsWeek[] = [];
+    for (let index = weekCount - 1; index >= 0; index--) {
+        // Build each boundary from calendar fields so daylight saving shifts do not skew the buckets
+        const start = new Date(currentWeekStart.getFullYear(), currentWeekStart.getMonth(), currentWeekStart.getDate() - index * 7);
+        const nextStart = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7);
+        weeks.push({ start: start.getTime(), end: nextStart.getTime() - 1, created: 0, modified: 0 });
+    }
+    return weeks;
+}
+
+function findWeekIndex(weeks: VaultStatisticsWeek[], timestamp: number): number {
+    if (weeks.length === 0 || timestamp < weeks[0].start || timestamp > weeks[weeks.length - 1].end) {
+        return -1;
+    }
+    // Approximate the bucket from the day offset, then correct for daylight saving boundaries
+    let index = Math.min(weeks.length - 1, Math.floor((timestamp - weeks[0].start) / (7 * DAY_MS)));
+    while (index > 0 && timestamp < weeks[index].start) {
+        index--;
+    }
+    while (index < weeks.length - 1 && timestamp > weeks[index].end) {
+        index++;
+    }
+    return index;
+}
+
+function incrementCount(counts: Map<string, VaultStatisticsCount>, label: string): void {
+    const key = casefold(label);
+    if (!key) {
+        return;
+    }
+    const existing = counts.get(key);
+    if (existing) {
+        existing.count++;
+        return;
+    }
+    counts.set(key, { key, label: label.trim(), count: 1 });
+}
+
+function rankCounts(counts: Map<string, VaultStatisticsCount>, limit: number): VaultStatisticsCount[] {
+    return Array.from(counts.values())
+        .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key))
+        .slice(0, limit);
+}
+
+function rankFolderValues(values: Map<string, number>, limit: number): VaultStatisticsFolderValue[] {
+    return Array.from(values.entries())
+        .filter(([, value]) => value > 0)
+        .map(([folderPath, value]) => ({ folderPath, value }))
+        .sort((a, b) => b.value - a.value || a.folderPath.localeCompare(b.folderPath))
+        .slice(0, limit);
+}
+
+/**
+ * Aggregates vault statistics from per-note records.
+ * Folder values count notes in their direct parent folder; notes without generated content count as zero.
+ */
+export function aggregateVaultStatistics(notes: Iterable<VaultStatisticsNote>, options: VaultStatisticsOptions): VaultStatistics {
+    const weeks = buildWeekBuckets(options.now, options.weekCount);
+    const wordsByFolder = new Map<string, number>();
+    const openTasksByFolder = new Map<string, number>();
+    const tagCounts = new Map<string, VaultStatisticsCount>();
+    const propertyCounts = new Map<string, VaultStatisticsCount>();
+
+    const stats: VaultStatistics = {
+        totalNotes: 0,
+        totalWords: 0,
+        openTasks: 0,
+        untaggedNotes: 0,
+        orphanedNotes: 0,
+        weeks,
+        wordsPerFolder: [],
+        openTasksPerFolder: [],
+        topTags: [],
+        topProperties: []
+    };
+
+    for (const note of notes) {
+        stats.totalNotes++;
+
+        const createdIndex = findWeekIndex(weeks, note.created);
+        if (createdIndex !== -1) {
+            weeks[createdIndex].created++;
+        }
+        const modifiedIndex = findWeekIndex(weeks, note.modified);
+        if (modifiedIndex !== -1) {
+            weeks[modifiedIndex].modified++;
+        }
+
+        if (!note.hasBacklinks) {
+            stats.orphanedNotes++;
+        }
+
+        const folderPath = getParentFolderPath(note.path);
+        const data = note.data;
+
+        const wordCount = data?.wordCount ?? 0;
+        stats.totalWords += wordCount;
+        wordsByFolder.set(folderPath, (wordsByFolder.get(folderPath) ?? 0) + wordCount);
+
+        const openTasks = data?.taskUnfinished ?? 0;
+        stats.openTasks += openTasks;
+        openTasksByFolder.set(folderPath, (openTasksByFolder.get(folderPath) ?? 0) + openTasks);
+
+        const tags = data?.tags ?? [];
+        if (tags.length === 0) {
+            stats.untaggedNotes++;
+        }
+        for (const tag of new Set(tags)) {
+            incrementCount(tagCounts, tag);
+        }
+
+        // Count each property key once per note, even when it produced several values
+        const propertyKeys = new Map<string, string>();
+        for (const property of data?.properties ?? []) {
+            const key = casefold(property.fieldKey);
+            if (key && !propertyKeys.has(key)) {
+                propertyKeys.set(key, property.fieldKey);
+            }
+        }
+        for (const fieldKey of propertyKeys.values()) {
+            incrementCount(propertyCounts, fieldKey);
+        }
+    }
+
+    stats.wordsPerFolder = rankFolderValues(wordsByFolder, options.topCount);
+    stats.openTasksPerFolder = rankFolderValues(openTasksByFolder, options.topCount);
+    stats.topTags = rankCounts(tagCounts, options.topCount);
+    stats.topProperties = rankCounts(propertyCounts, options.topCount);
+    return stats;
+}
+
+// Uses a frontmatter timestamp when it holds a parsed date, otherwise the file system timestamp
+function resolveNoteTimestamp(frontmatterValue: number | undefined, fallback: number): number {
+    return frontmatterValue !== undefined && frontmatterValue > 0 ? frontmatterValue : fallback;
+}
+
+/**
+ * Calculate vault statistics for visible markdown notes.
+ * Reads cached content from the database and backlinks from the metadata cache.
+ *
+ * @returns Vault statistics or null on error
+ */
+export function calculateVaultStatistics(
+    app: App,
+    settings: NotebookNavigatorSettings,
+    showHiddenItems: boolean,
+    options: VaultStatisticsOptions
+): VaultStatistics | null {
+    try {
+        const db = getDBInstance();
+
+        const hiddenFolders = getActiveHiddenFolders(settings);
+        const excludedFolderPatterns = showHiddenItems ? [] : hiddenFolders;
+
+        const linkedPaths = new Set<string>();
+        const { resolvedLinks } = app.metadataCache;
+        for (const sourcePath of Object.keys(resolvedLinks)) {
+            const destinations = resolvedLinks[sourcePath];
+            for (const targetPath of Object.keys(destinations)) {
+                if (targetPath !== sourcePath) {
+                    linkedPaths.add(targetPath);
+                }
+            }
+        }
+
+        const notes: VaultStatisticsNote[] = [];
+        for (const file of app.vault.getMarkdownFiles()) {
+            if (excludedFolderPatterns.length > 0 && isPathInExcludedFolder(file.path, excludedFolderPatterns)) {
+                continue;
+            }
+
+            const data = db.getFile(file.path);
+            const metadata = settings.useFrontmatterMetadata ? data?.metadata : null;
+            notes.push({
+                path: file.path,
+                created: resolveNoteTimestamp(metadata?.created, file.stat.ctime),
+                modified: resolveNoteTimestamp(metadata?.modified, file.stat.mtime),
+                data,
+                hasBacklinks: linkedPaths.has(file.path)
+            });
+        }
+
+        return aggregateVaultStatistics(notes, options);
+    } catch (error) {
+        console.error('Failed to calculate vault statistics:', error);
+        return null;
+    }
+}
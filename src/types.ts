@@ -36,6 +36,12 @@ export const NOTEBOOK_NAVIGATOR_VIEW = 'notebook-navigator';
  */
 export const NOTEBOOK_NAVIGATOR_CALENDAR_VIEW = 'notebook-navigator-calendar';
 
+/**
+ * Unique identifier for the Notebook Navigator statistics view type.
+ * Used by Obsidian to register and manage the vault statistics dashboard.
+ */
+export const NOTEBOOK_NAVIGATOR_STATISTICS_VIEW = 'notebook-navigator-statistics';
+
 /**
  * Virtual tag collection id for notes without tags.
  * Stored in tag selection state and used as a tag filter token.
@@ -60,6 +66,12 @@ export const TAGS_ROOT_VIRTUAL_FOLDER_ID = 'tags-root';
  */
 export const PROPERTIES_ROOT_VIRTUAL_FOLDER_ID = 'properties-root';
 
+/**
+ * Virtual folder id for the root Smart folders row in navigation.
+ * Used by virtual-folder expansion state and smart folder section rendering.
+ */
+export const SMART_FOLDERS_ROOT_VIRTUAL_FOLDER_ID = 'smart-folders-root';
+
 /**
  * Identifies which pane currently has keyboard focus
  * Used for keyboard navigation between folder tree and file list
@@ -76,7 +88,8 @@ export const ItemType = {
     FILE: 'file',
     FOLDER: 'folder',
     TAG: 'tag',
-    PROPERTY: 'property'
+    PROPERTY: 'property',
+    SMART_FOLDER: 'smart-folder'
 } as const;
 
 /**
@@ -104,7 +117,7 @@ export const PINNED_SECTION_HEADER_KEY = 'header-pinned';
  * Navigator context type for context-aware features like pinning
  * Represents different browsing contexts in the navigator
  */
-export type NavigatorContext = 'folder' | 'tag' | 'property';
+export type NavigatorContext = 'folder' | 'tag' | 'property' | 'smart-folder';
 
 /**
  * Type alias for pinned notes storage structure
@@ -123,6 +136,7 @@ export const NavigationPaneItemType = {
     UNTAGGED: 'untagged',
     PROPERTY_KEY: 'property-key',
     PROPERTY_VALUE: 'property-value',
+    SMART_FOLDER: 'smart-folder',
     SHORTCUT_HEADER: 'shortcut-header',
     SHORTCUT_FOLDER: 'shortcut-folder',
     SHORTCUT_NOTE: 'shortcut-note',
@@ -149,7 +163,8 @@ export const NavigationSectionId = {
     RECENT: 'recent',
     FOLDERS: 'folders',
     TAGS: 'tags',
-    PROPERTIES: 'properties'
+    PROPERTIES: 'properties',
+    SMART_FOLDERS: 'smart-folders'
 } as const;
 
 /**
@@ -165,7 +180,8 @@ export const DEFAULT_NAVIGATION_SECTION_ORDER: NavigationSectionId[] = [
     NavigationSectionId.RECENT,
     NavigationSectionId.FOLDERS,
     NavigationSectionId.TAGS,
-    NavigationSectionId.PROPERTIES
+    NavigationSectionId.PROPERTIES,
+    NavigationSectionId.SMART_FOLDERS
 ];
 
 /**
@@ -229,10 +245,10 @@ export type ItemType = (typeof ItemType)[keyof typeof ItemType];
 
 /**
  * Types of items that can be selected in the navigation pane
- * Either a folder from the file tree or a tag from the tag tree
+ * A folder, tag, property node, or smart folder
  * This is a subset of ItemType that excludes 'file'
  */
-export type NavigationItemType = typeof ItemType.FOLDER | typeof ItemType.TAG | typeof ItemType.PROPERTY;
+export type NavigationItemType = typeof ItemType.FOLDER | typeof ItemType.TAG | typeof ItemType.PROPERTY | typeof ItemType.SMART_FOLDER;
 
 /**
  * Keys used for persisting state in browser localStorage
@@ -245,6 +261,7 @@ export interface LocalStorageKeys {
     expandedVirtualFoldersKey: string;
     selectedFolderKey: string;
     selectedPropertyKey: string;
+    selectedSmartFolderKey: string;
     selectedFileKey: string;
     selectedFilesKey: string;
     selectedTagKey: string;
@@ -298,6 +315,7 @@ export const STORAGE_KEYS: LocalStorageKeys = {
     expandedVirtualFoldersKey: 'notebook-navigator-expanded-virtual-folders',
     selectedFolderKey: 'notebook-navigator-selected-folder',
     selectedPropertyKey: 'notebook-navigator-selected-property',
+    selectedSmartFolderKey: 'notebook-navigator-selected-smart-folder',
     selectedFileKey: 'notebook-navigator-selected-file',
     selectedFilesKey: 'notebook-navigator-selected-files',
     selectedTagKey: 'notebook-navigator-selected-tag',
@@ -0,0 +1,84 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { isPlainObjectRecordValue } from '../utils/recordUtils';
+
+/**
+ * Ordered rule that styles every file matching a filter search query.
+ * Rules are evaluated top to bottom; the first matching rule with an icon supplies the icon
+ * and the first matching rule with a color supplies the color.
+ */
+export interface FileStyleRule {
+    query: string;
+    /** Canonical icon id applied to matching files */
+    icon?: string;
+    /** CSS color applied to matching files */
+    color?: string;
+}
+
+// Validates a single stored rule, returning null when the query is empty or the rule has no style
+const normalizeFileStyleRuleEntry = (value: unknown): FileStyleRule | null => {
+    if (!isPlainObjectRecordValue(value)) {
+        return null;
+    }
+
+    const query = typeof value.query === 'string' ? value.query.trim() : '';
+    const icon = typeof value.icon === 'string' ? value.icon.trim() : '';
+    const color = typeof value.color === 'string' ? value.color.trim() : '';
+    if (!query || (!icon && !color)) {
+        return null;
+    }
+
+    const rule: FileStyleRule = { query };
+    if (icon) {
+        rule.icon = icon;
+    }
+    if (color) {
+        rule.color = color;
+    }
+    return rule;
+};
+
+/**
+ * Normalizes stored file style rules, dropping entries without a query or without an icon and color.
+ * Rule order is preserved.
+ */
+export function normalizeFileStyleRules(value: unknown): FileStyleRule[] {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+
+    const rules: FileStyleRule[] = [];
+    value.forEach(entry => {
+        const rule = normalizeFileStyleRuleEntry(entry);
+        if (rule) {
+            rules.push(rule);
+        }
+    });
+    return rules;
+}
+
+/**
+ * Creates a copy of file style rules to prevent shared references between profiles.
+ */
+export function cloneFileStyleRules(rules: FileStyleRule[] | undefined): FileStyleRule[] {
+    if (!Array.isArray(rules)) {
+        return [];
+    }
+    return rules.map(rule => ({ ...rule }));
+}
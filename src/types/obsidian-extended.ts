@@ -223,6 +223,11 @@ declare module 'obsidian' {
     interface FileManager {
         createNewMarkdownFile(folder: import('obsidian').TFolder, fileName: string): Promise<TFile>;
     }
+
+    interface Vault {
+        /** Fires for every file system change, including dotfiles the vault does not index */
+        on(name: 'raw', callback: (path: string) => void, ctx?: unknown): import('obsidian').EventRef;
+    }
 }
 
 /**
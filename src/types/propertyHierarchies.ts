@@ -0,0 +1,142 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { casefold, isPlainObjectRecordValue } from '../utils/recordUtils';
+
+/**
+ * User-defined property hierarchy shown in the properties section.
+ * Each level groups notes by the values of one property key, nesting the next level below every value.
+ */
+export interface PropertyHierarchy {
+    /** Stable id derived from the casefolded name */
+    id: string;
+    name: string;
+    /** Property keys for each level, from the outermost level inward */
+    keys: string[];
+}
+
+export interface PropertyHierarchyParseResult {
+    hierarchies: PropertyHierarchy[];
+    invalidLines: string[];
+}
+
+const PROPERTY_HIERARCHY_NAME_SEPARATOR = ':';
+const PROPERTY_HIERARCHY_LEVEL_SEPARATOR = '>';
+
+// Builds a hierarchy from raw name and keys, dropping empty and repeated keys
+const createPropertyHierarchy = (rawName: string, rawKeys: readonly unknown[]): PropertyHierarchy | null => {
+    const name = rawName.trim();
+    const id = casefold(name);
+    if (!name || !id) {
+        return null;
+    }
+
+    const keys: string[] = [];
+    const seenKeys = new Set<string>();
+    rawKeys.forEach(rawKey => {
+        const key = typeof rawKey === 'string' ? rawKey.trim() : '';
+        const normalizedKey = casefold(key);
+        if (!key || !normalizedKey || seenKeys.has(normalizedKey)) {
+            return;
+        }
+        seenKeys.add(normalizedKey);
+        keys.push(key);
+    });
+
+    if (keys.length === 0) {
+        return null;
+    }
+
+    return { id, name, keys };
+};
+
+/**
+ * Normalizes stored property hierarchies.
+ * Drops entries without a name or keys and entries whose name repeats an earlier hierarchy.
+ */
+export function normalizePropertyHierarchies(value: unknown): PropertyHierarchy[] {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+
+    const hierarchies: PropertyHierarchy[] = [];
+    const seenIds = new Set<string>();
+    value.forEach(entry => {
+        if (!isPlainObjectRecordValue(entry) || typeof entry.name !== 'string' || !Array.isArray(entry.keys)) {
+            return;
+        }
+
+        const hierarchy = createPropertyHierarchy(entry.name, entry.keys);
+        if (!hierarchy || seenIds.has(hierarchy.id)) {
+            return;
+        }
+        seenIds.add(hierarchy.id);
+        hierarchies.push(hierarchy);
+    });
+
+    return hierarchies;
+}
+
+/**
+ * Parses property hierarchies from settings text.
+ * Each line uses the form `Name: key > key > key`. Blank lines and lines starting with # are ignored.
+ */
+export function parsePropertyHierarchiesText(value: string): PropertyHierarchyParseResult {
+    const hierarchies: PropertyHierarchy[] = [];
+    const invalidLines: string[] = [];
+    const seenIds = new Set<string>();
+
+    value
+        .replace(/\r\n/g, '\n')
+        .split('\n')
+        .forEach(rawLine => {
+            const trimmed = rawLine.trim();
+            if (!trimmed || trimmed.startsWith('#')) {
+                return;
+            }
+
+            const separatorIndex = trimmed.indexOf(PROPERTY_HIERARCHY_NAME_SEPARATOR);
+            if (separatorIndex === -1) {
+                invalidLines.push(trimmed);
+                return;
+            }
+
+            const rawKeys = trimmed.substring(separatorIndex + 1).split(PROPERTY_HIERARCHY_LEVEL_SEPARATOR);
+            const hierarchy = createPropertyHierarchy(trimmed.substring(0, separatorIndex), rawKeys);
+            if (!hierarchy || seenIds.has(hierarchy.id)) {
+                invalidLines.push(trimmed);
+                return;
+            }
+
+            seenIds.add(hierarchy.id);
+            hierarchies.push(hierarchy);
+        });
+
+    return { hierarchies, invalidLines };
+}
+
+/**
+ * Serializes property hierarchies to the settings text format.
+ */
+export function serializePropertyHierarchies(hierarchies: readonly PropertyHierarchy[]): string {
+    return hierarchies
+        .map(
+            hierarchy =>
+                `${hierarchy.name}${PROPERTY_HIERARCHY_NAME_SEPARATOR} ${hierarchy.keys.join(` ${PROPERTY_HIERARCHY_LEVEL_SEPARATOR} `)}`
+        )
+        .join('\n');
+}
@@ -0,0 +1,158 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import type { FolderAppearance } from '../hooks/useListPaneAppearance';
+import { isSortOption, type SortOption } from '../settings/types';
+import { isPlainObjectRecordValue } from '../utils/recordUtils';
+
+/**
+ * Saved filter query shown as a navigation tree node.
+ * Nested smart folders refine their parent: a note is listed only when it matches every query on the path from the root.
+ */
+export interface SmartFolder {
+    id: string;
+    name: string;
+    query: string;
+    /** Id of the parent smart folder, or null for root smart folders */
+    parentId: string | null;
+    /** List sort override for this smart folder */
+    sortOverride?: SortOption;
+    /** List appearance overrides (mode, rows, grouping) for this smart folder */
+    appearance?: FolderAppearance;
+}
+
+// Copies appearance overrides, dropping undefined entries
+const cloneSmartFolderAppearance = (appearance: unknown): FolderAppearance | undefined => {
+    if (!isPlainObjectRecordValue(appearance)) {
+        return undefined;
+    }
+
+    const cloned: FolderAppearance = { ...appearance };
+    (Object.keys(cloned) as (keyof FolderAppearance)[]).forEach(key => {
+        if (cloned[key] === undefined) {
+            delete cloned[key];
+        }
+    });
+    return Object.keys(cloned).length > 0 ? cloned : undefined;
+};
+
+// Validates a single stored smart folder entry, returning null when required fields are missing
+const normalizeSmartFolderEntry = (value: unknown): SmartFolder | null => {
+    if (!isPlainObjectRecordValue(value)) {
+        return null;
+    }
+
+    const id = typeof value.id === 'string' ? value.id.trim() : '';
+    const name = typeof value.name === 'string' ? value.name.trim() : '';
+    const query = typeof value.query === 'string' ? value.query.trim() : '';
+    if (!id || !name) {
+        return null;
+    }
+
+    const parentId = typeof value.parentId === 'string' && value.parentId.trim().length > 0 ? value.parentId.trim() : null;
+    const folder: SmartFolder = { id, name, query, parentId };
+    if (isSortOption(value.sortOverride)) {
+        folder.sortOverride = value.sortOverride;
+    }
+    const appearance = cloneSmartFolderAppearance(value.appearance);
+    if (appearance) {
+        folder.appearance = appearance;
+    }
+    return folder;
+};
+
+/**
+ * Normalizes stored smart folders.
+ * Drops invalid and duplicate entries, moves entries with a missing parent to the root,
+ * and detaches entries whose parent chain loops back on itself.
+ */
+export function normalizeSmartFolders(value: unknown): SmartFolder[] {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+
+    const folders: SmartFolder[] = [];
+    const byId = new Map<string, SmartFolder>();
+    value.forEach(entry => {
+        const folder = normalizeSmartFolderEntry(entry);
+        if (!folder || byId.has(folder.id)) {
+            return;
+        }
+        byId.set(folder.id, folder);
+        folders.push(folder);
+    });
+
+    folders.forEach(folder => {
+        if (folder.parentId === null) {
+            return;
+        }
+        if (!byId.has(folder.parentId)) {
+            folder.parentId = null;
+            return;
+        }
+
+        const visited = new Set<string>([folder.id]);
+        let parentId: string | null = folder.parentId;
+        while (parentId !== null) {
+            if (visited.has(parentId)) {
+                folder.parentId = null;
+                return;
+            }
+            visited.add(parentId);
+            parentId = byId.get(parentId)?.parentId ?? null;
+        }
+    });
+
+    return folders;
+}
+
+/**
+ * Normalizes the root smart folder order, keeping only ids of existing root smart folders.
+ */
+export function normalizeSmartFolderOrder(order: unknown, folders: SmartFolder[]): string[] {
+    if (!Array.isArray(order)) {
+        return [];
+    }
+
+    const rootIds = new Set(folders.filter(folder => folder.parentId === null).map(folder => folder.id));
+    const seen = new Set<string>();
+    const normalized: string[] = [];
+    order.forEach(entry => {
+        if (typeof entry !== 'string' || !rootIds.has(entry) || seen.has(entry)) {
+            return;
+        }
+        seen.add(entry);
+        normalized.push(entry);
+    });
+    return normalized;
+}
+
+/**
+ * Creates a deep copy of smart folders to prevent shared references between profiles.
+ */
+export function cloneSmartFolders(folders: SmartFolder[] | undefined): SmartFolder[] {
+    if (!Array.isArray(folders)) {
+        return [];
+    }
+    return folders.map(folder => {
+        const cloned: SmartFolder = { ...folder };
+        if (folder.appearance) {
+            cloned.appearance = { ...folder.appearance };
+        }
+        return cloned;
+    });
+}
@@ -37,7 +37,8 @@ export interface TagTreeNode {
     notesWithTag: Set<string>;
 }
 
-export type PropertyTreeNodeId = `key:${string}` | `key:${string}=${string}`;
+/** Property key/value node ids, plus `hierarchy:` ids for nodes of user-defined property hierarchies */
+export type PropertyTreeNodeId = `key:${string}` | `key:${string}=${string}` | `hierarchy:${string}`;
 
 export interface PropertyTreeNode {
     id: PropertyTreeNodeId;
@@ -21,6 +21,7 @@ import { ListPaneItemType, NavigationPaneItemType, VirtualFolder } from '../type
 import type { SearchResultMeta } from './search';
 import { PropertyTreeNode, TagTreeNode } from '../types/storage';
 import type { SearchShortcut, ShortcutEntry } from '../types/shortcuts';
+import type { SmartFolder } from '../types/smartFolders';
 import type { NoteCountInfo } from '../types/noteCounts';
 
 export interface VirtualItem<T> {
@@ -105,6 +106,17 @@ export interface PropertyValueTreeItem {
     icon?: string;
 }
 
+export interface SmartFolderTreeItem {
+    type: typeof NavigationPaneItemType.SMART_FOLDER;
+    data: SmartFolder;
+    level: number;
+    key: string;
+    hasChildren: boolean;
+    color?: string;
+    backgroundColor?: string;
+    icon?: string;
+}
+
 export interface VirtualFolderItem {
     type: typeof NavigationPaneItemType.VIRTUAL_FOLDER;
     data: VirtualFolder;
@@ -208,6 +220,7 @@ export type CombinedNavigationItem =
     | UntaggedItem
     | PropertyKeyTreeItem
     | PropertyValueTreeItem
+    | SmartFolderTreeItem
     | ShortcutHeaderItem
     | ShortcutFolderNavItem
     | ShortcutNoteNavItem
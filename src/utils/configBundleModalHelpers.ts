@@ -0,0 +1,58 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import type { App } from 'obsidian';
+import type NotebookNavigatorPlugin from '../main';
+import { ConfigBundleImportModal } from '../modals/ConfigBundleImportModal';
+import { strings } from '../i18n';
+import { showNotice } from './noticeUtils';
+
+interface ConfigBundleActionParams {
+    app: App;
+    plugin: NotebookNavigatorPlugin;
+}
+
+/**
+ * Exports the configuration bundle to the vault root and reports the result in a notice.
+ */
+export async function exportConfigBundleWithNotice({ plugin }: ConfigBundleActionParams): Promise<void> {
+    try {
+        const path = await plugin.exportConfigBundle();
+        showNotice(strings.settings.items.configBundle.exportSuccess.replace('{filename}', path), { variant: 'success' });
+    } catch (error) {
+        console.error('Failed to export configuration bundle', error);
+        showNotice(strings.settings.items.configBundle.exportFailed, { variant: 'warning' });
+    }
+}
+
+/**
+ * Opens the configuration bundle import modal and applies the chosen sections.
+ */
+export function openImportConfigBundleModal({ app, plugin }: ConfigBundleActionParams): void {
+    const modal = new ConfigBundleImportModal(app, {
+        onImport: async (bundle, sectionIds, strategy) => {
+            try {
+                await plugin.importConfigBundle(bundle, sectionIds, strategy);
+                showNotice(strings.settings.items.configBundle.importSuccess, { variant: 'success' });
+            } catch (error) {
+                console.error('Failed to import configuration bundle', error);
+                showNotice(strings.settings.items.configBundle.importFailed, { variant: 'warning' });
+            }
+        }
+    });
+    modal.open();
+}
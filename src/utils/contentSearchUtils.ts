@@ -0,0 +1,90 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { LIMITS } from '../constants/limits';
+
+// Letter and digit runs form searchable terms; punctuation and markdown syntax act as separators.
+const CONTENT_TERM_PATTERN = /[\p{L}\p{N}\p{M}]+/gu;
+
+// Lowercases and truncates a raw term so stored terms and query terms share the same shape.
+const normalizeContentTerm = (value: string): string => {
+    const lowercase = value.toLowerCase();
+    return lowercase.length > LIMITS.markdown.contentIndex.maxTermLength
+        ? lowercase.slice(0, LIMITS.markdown.contentIndex.maxTermLength)
+        : lowercase;
+};
+
+/**
+ * Extracts the sorted, de-duplicated list of lowercase terms in a note body.
+ * Terms are sorted by code unit order so prefix lookups can use binary search.
+ *
+ * @param content - Full markdown content
+ * @param bodyStartIndex - Offset where the body starts (after frontmatter)
+ * @param maxTerms - Maximum number of unique terms to keep
+ */
+export function extractContentSearchTerms(content: string, bodyStartIndex: number, maxTerms: number): string[] {
+    const text = bodyStartIndex > 0 ? content.slice(bodyStartIndex) : content;
+    const terms = new Set<string>();
+
+    CONTENT_TERM_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = CONTENT_TERM_PATTERN.exec(text)) !== null) {
+        terms.add(normalizeContentTerm(match[0]));
+        if (terms.size >= maxTerms) {
+            break;
+        }
+    }
+
+    return Array.from(terms).sort();
+}
+
+/**
+ * Splits a search token into normalized content terms.
+ * Multi-word tokens (quoted phrases) require every word to be present.
+ */
+export function splitContentSearchQuery(value: string): string[] {
+    const terms: string[] = [];
+    CONTENT_TERM_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = CONTENT_TERM_PATTERN.exec(value)) !== null) {
+        terms.push(normalizeContentTerm(match[0]));
+    }
+    return terms;
+}
+
+/**
+ * Checks if a sorted term list contains a term starting with `prefix`.
+ */
+export function sortedTermsContainPrefix(terms: readonly string[], prefix: string): boolean {
+    if (!prefix) {
+        return true;
+    }
+
+    let low = 0;
+    let high = terms.length;
+    while (low < high) {
+        const mid = (low + high) >>> 1;
+        if (terms[mid] < prefix) {
+            low = mid + 1;
+        } else {
+            high = mid;
+        }
+    }
+
+    return low < terms.length && terms[low].startsWith(prefix);
+}
@@ -123,7 +123,8 @@ export function buildFileMenu(params: FileMenuBuilderParams): void {
                 selectionType: selectionState.selectionType,
                 selectedFolder: selectionState.selectedFolder,
                 selectedTag: selectionState.selectedTag,
-                selectedProperty: selectionState.selectedProperty
+                selectedProperty: selectionState.selectedProperty,
+                selectedSmartFolder: selectionState.selectedSmartFolder
             },
             settings,
             visibility,
@@ -218,6 +219,13 @@ export function buildFileMenu(params: FileMenuBuilderParams): void {
             }
         }
 
+        // Edit properties - set, append to, or remove a property on every file
+        menu.addItem((item: MenuItem) => {
+            setAsyncOnClick(item.setTitle(strings.contextMenu.file.editProperties).setIcon('lucide-list-plus'), () => {
+                services.propertyOperations.promptEditPropertyValues(filesForTagOps);
+            });
+        });
+
         menu.addSeparator();
     }
 
@@ -273,7 +281,9 @@ export function buildFileMenu(params: FileMenuBuilderParams): void {
                 ? 'tag'
                 : selectionState.selectionType === ItemType.PROPERTY
                   ? 'property'
-                  : 'folder';
+                  : selectionState.selectionType === ItemType.SMART_FOLDER
+                    ? 'smart-folder'
+                    : 'folder';
         addSingleFilePinOption(menu, file, metadataService, pinContext);
 
         menu.addSeparator();
@@ -290,7 +300,9 @@ export function buildFileMenu(params: FileMenuBuilderParams): void {
                 ? 'tag'
                 : selectionState.selectionType === ItemType.PROPERTY
                   ? 'property'
-                  : 'folder';
+                  : selectionState.selectionType === ItemType.SMART_FOLDER
+                    ? 'smart-folder'
+                    : 'folder';
         addMultipleFilesPinOption(menu, cachedSelectedFiles, metadataService, pinContext);
 
         menu.addSeparator();
@@ -944,7 +956,8 @@ function addSingleFileDeleteOption(
                         selectionType: selectionState.selectionType,
                         selectedFolder: selectionState.selectedFolder || undefined,
                         selectedTag: selectionState.selectedTag || undefined,
-                        selectedProperty: selectionState.selectedProperty ?? undefined
+                        selectedProperty: selectionState.selectedProperty ?? undefined,
+                        selectedSmartFolder: selectionState.selectedSmartFolder ?? undefined
                     },
                     selectionDispatch,
                     settings.confirmBeforeDelete
@@ -303,6 +303,24 @@ export function buildFolderMenu(params: FolderMenuBuilderParams): void {
         });
     }
 
+    // New note file name pattern for notes created in this folder and its subfolders
+    menu.addItem((item: MenuItem) => {
+        const currentPattern = metadataService.getFolderNewNotePattern(folder.path) ?? '';
+        setAsyncOnClick(item.setTitle(strings.contextMenu.folder.newNoteFileName).setIcon('lucide-file-text'), async () => {
+            const { InputModal } = await import('../../modals/InputModal');
+            const modal = new InputModal(
+                app,
+                strings.contextMenu.folder.newNoteFileName,
+                strings.modals.fileSystem.newNoteFileNamePrompt,
+                async value => {
+                    await metadataService.setFolderNewNotePattern(folder.path, value);
+                },
+                currentPattern
+            );
+            modal.open();
+        });
+    });
+
     const folderSeparatorTarget = { type: 'folder', path: folder.path } as const;
     const hasSeparator = metadataService.hasNavigationSeparator(folderSeparatorTarget);
     const disableNavigationSeparatorActions = Boolean(options?.disableNavigationSeparatorActions);
@@ -20,5 +20,6 @@ export * from './menuTypes';
 export { buildFolderMenu } from './folderMenuBuilder';
 export { buildTagMenu } from './tagMenuBuilder';
 export { buildPropertyMenu } from './propertyMenuBuilder';
+export { buildSmartFolderMenu } from './smartFolderMenuBuilder';
 export { buildFileMenu } from './fileMenuBuilder';
 export { buildEmptyListMenu } from './emptyListMenuBuilder';
@@ -57,6 +57,10 @@ export type MenuConfig =
           type: typeof ItemType.PROPERTY;
           item: string; // Property node id
       }
+    | {
+          type: typeof ItemType.SMART_FOLDER;
+          item: string; // Smart folder id
+      }
     | {
           type: typeof EMPTY_LIST_MENU_TYPE;
           item: TFolder | null;
@@ -146,6 +150,13 @@ export interface PropertyMenuBuilderParams extends MenuBuilderParams {
     options?: PropertyMenuOptions;
 }
 
+/**
+ * Parameters for smart folder menu builder
+ */
+export interface SmartFolderMenuBuilderParams extends MenuBuilderParams {
+    smartFolderId: string;
+}
+
 /**
  * Parameters for file menu builder
  */
@@ -333,6 +333,22 @@ export function buildPropertyMenu(params: PropertyMenuBuilderParams): void {
         });
     }
 
+    if (propertyNode?.kind === 'value') {
+        menu.addSeparator();
+
+        menu.addItem((item: MenuItem) => {
+            item.setTitle(strings.contextMenu.property.renameValue)
+                .setIcon('lucide-pencil')
+                .onClick(() => propertyOperations.promptRenamePropertyValue(normalizedNodeId));
+        });
+
+        menu.addItem((item: MenuItem) => {
+            item.setTitle(strings.contextMenu.property.mergeValue)
+                .setIcon('lucide-merge')
+                .onClick(() => propertyOperations.promptMergePropertyValue(normalizedNodeId));
+        });
+    }
+
     if (propertyKey) {
         menu.addSeparator();
 
@@ -0,0 +1,84 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { MenuItem } from 'obsidian';
+import type { SmartFolderMenuBuilderParams } from './menuTypes';
+import { strings } from '../../i18n';
+import { SMART_FOLDERS_ROOT_VIRTUAL_FOLDER_ID } from '../../types';
+import { findSmartFolder } from '../smartFolders';
+import { confirmDeleteSmartFolder, openCreateSmartFolderModal, openEditSmartFolderModal } from '../smartFolderModalHelpers';
+import { getActiveSmartFolders } from '../vaultProfiles';
+
+/**
+ * Builds the context menu for a smart folder.
+ */
+export function buildSmartFolderMenu(params: SmartFolderMenuBuilderParams): void {
+    const { smartFolderId, menu, services, settings, dispatchers } = params;
+    const { app, plugin, isMobile } = services;
+    const { selectionDispatch, expansionDispatch } = dispatchers;
+
+    const smartFolder = findSmartFolder(getActiveSmartFolders(settings), smartFolderId);
+    if (!smartFolder) {
+        return;
+    }
+
+    if (isMobile) {
+        menu.addItem((item: MenuItem) => {
+            item.setTitle(smartFolder.name).setIsLabel(true);
+        });
+        menu.addSeparator();
+    }
+
+    menu.addItem((item: MenuItem) => {
+        item.setTitle(strings.contextMenu.smartFolder.newNestedSmartFolder)
+            .setIcon('lucide-folder-plus')
+            .onClick(() => {
+                openCreateSmartFolderModal({
+                    app,
+                    plugin,
+                    parentId: smartFolder.id,
+                    onCreated: created => {
+                        // Reveal the new nested smart folder under its parent
+                        expansionDispatch({
+                            type: 'EXPAND_VIRTUAL_FOLDERS',
+                            folderIds: [SMART_FOLDERS_ROOT_VIRTUAL_FOLDER_ID, smartFolder.id]
+                        });
+                        selectionDispatch({ type: 'SET_SELECTED_SMART_FOLDER', smartFolderId: created.id });
+                    }
+                });
+            });
+    });
+
+    menu.addItem((item: MenuItem) => {
+        item.setTitle(strings.contextMenu.smartFolder.editSmartFolder)
+            .setIcon('lucide-pencil')
+            .onClick(() => {
+                openEditSmartFolderModal({ app, plugin, smartFolderId: smartFolder.id });
+            });
+    });
+
+    menu.addSeparator();
+
+    menu.addItem((item: MenuItem) => {
+        item.setTitle(strings.contextMenu.smartFolder.deleteSmartFolder)
+            .setIcon('lucide-trash')
+            .onClick(() => {
+                confirmDeleteSmartFolder({ app, plugin, smartFolderId: smartFolder.id });
+            });
+    });
+}
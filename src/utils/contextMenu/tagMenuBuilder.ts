@@ -348,6 +348,18 @@ export function buildTagMenu(params: TagMenuBuilderParams): void {
                 });
             });
 
+            menu.addItem((item: MenuItem) => {
+                item.setTitle(strings.contextMenu.tag.mergeTags)
+                    .setIcon('lucide-merge')
+                    .onClick(() => services.tagOperations.promptMergeTags([tagPath]));
+            });
+
+            menu.addItem((item: MenuItem) => {
+                item.setTitle(strings.contextMenu.tag.splitTag)
+                    .setIcon('lucide-split')
+                    .onClick(() => services.tagOperations.promptSplitTag(tagPath));
+            });
+
             menu.addItem((item: MenuItem) => {
                 setAsyncOnClick(item.setTitle(strings.modals.tagOperation.confirmDelete).setIcon('lucide-trash'), async () => {
                     await services.tagOperations.promptDeleteTag(tagPath);
@@ -62,7 +62,8 @@ export async function deleteSelectedFiles({
                 selectionType: selectionState.selectionType,
                 selectedFolder: selectionState.selectedFolder,
                 selectedTag: selectionState.selectedTag,
-                selectedProperty: selectionState.selectedProperty
+                selectedProperty: selectionState.selectedProperty,
+                selectedSmartFolder: selectionState.selectedSmartFolder
             },
             settings,
             visibility,
@@ -87,7 +88,8 @@ export async function deleteSelectedFiles({
                 selectionType: selectionState.selectionType,
                 selectedFolder: selectionState.selectedFolder || undefined,
                 selectedTag: selectionState.selectedTag || undefined,
-                selectedProperty: selectionState.selectedProperty ?? undefined
+                selectedProperty: selectionState.selectedProperty ?? undefined,
+                selectedSmartFolder: selectionState.selectedSmartFolder ?? undefined
             },
             selectionDispatch,
             settings.confirmBeforeDelete
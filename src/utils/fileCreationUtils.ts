@@ -22,6 +22,7 @@ import { TIMEOUTS, OBSIDIAN_COMMANDS } from '../types/obsidian-extended';
 import { executeCommand } from './typeGuards';
 import { showNotice } from './noticeUtils';
 import { normalizeOptionalVaultFilePath } from './pathUtils';
+import { getTemplaterWriteTemplateToFile } from './templaterIntegration';
 
 /**
  * Options for creating a new file
@@ -56,6 +57,8 @@ interface CreateMarkdownFileFromTemplateOptions {
     baseName: string;
     templatePath?: string | null;
     templateErrorContext: string;
+    /** Renders the template with Templater when it is enabled instead of copying the raw content */
+    processWithTemplater?: boolean;
 }
 
 /**
@@ -174,7 +177,8 @@ export async function createMarkdownFileFromTemplate({
     folder,
     baseName,
     templatePath,
-    templateErrorContext
+    templateErrorContext,
+    processWithTemplater = false
 }: CreateMarkdownFileFromTemplateOptions): Promise<TFile> {
     const created = await app.fileManager.createNewMarkdownFile(folder, baseName);
 
@@ -194,6 +198,12 @@ export async function createMarkdownFileFromTemplate({
                 return created;
             }
 
+            const writeTemplateToFile = processWithTemplater ? getTemplaterWriteTemplateToFile(app) : null;
+            if (writeTemplateToFile) {
+                await writeTemplateToFile(entry, created);
+                return created;
+            }
+
             const content = await app.vault.read(entry);
             await app.vault.modify(created, content);
         } catch (error) {
@@ -17,7 +17,7 @@
  */
 
 import { TFile, TFolder, App } from 'obsidian';
-import type { NotebookNavigatorSettings } from '../settings';
+import type { NotebookNavigatorSettings, SortChainKey } from '../settings';
 import type { NavigatorContext, PinnedNotes, VisibilityPreferences } from '../types';
 import { ItemType, PROPERTIES_ROOT_VIRTUAL_FOLDER_ID, TAGGED_TAG_ID, UNTAGGED_TAG_ID } from '../types';
 import {
@@ -31,10 +31,18 @@ import {
     isFolderInExcludedFolder
 } from './fileFilters';
 import { shouldDisplayFile, FILE_VISIBILITY } from './fileTypeUtils';
-import { getEffectiveSortOption, isPropertySortOption, sortFiles } from './sortUtils';
+import {
+    getEffectiveSortOption,
+    getFolderSortChain,
+    isPropertySortOption,
+    resolveDefaultDateField,
+    sortFiles,
+    sortFilesByChain,
+    type FileSortMetrics
+} from './sortUtils';
 import { getDBInstanceOrNull } from '../storage/fileOperations';
 import { extractMetadata } from '../utils/metadataExtractor';
-import { METADATA_SENTINEL } from '../storage/IndexedDBStorage';
+import { METADATA_SENTINEL, type IndexedDBStorage } from '../storage/IndexedDBStorage';
 import { getFileDisplayName as getDisplayName } from './fileNameUtils';
 import { getFolderNote, getFolderNoteDetectionSettings } from './folderNotes';
 import { createHiddenTagVisibility, normalizeTagPathValue } from './tagPrefixMatcher';
@@ -46,22 +54,30 @@ import {
     getActiveHiddenFileProperties,
     getActiveHiddenFolders,
     getActiveHiddenTags,
-    getActivePropertyKeySet
+    getActivePropertyKeySet,
+    getActiveSmartFolders
 } from './vaultProfiles';
 import { getCachedFileTags } from './tagUtils';
 import { casefold, normalizePinnedNoteContext } from './recordUtils';
 import { getParentFolderPath } from './pathUtils';
 import {
+    buildPropertyHierarchyTreesFromDatabase,
     buildPropertyKeyNodeId,
     buildPropertyValueNodeId,
+    collectPropertyKeyFilePaths,
+    findPropertyHierarchyNode,
     isPropertyKeyOnlyValuePath,
     matchesPropertyValuePath,
     type PropertySelectionNodeId,
     normalizePropertyTreeValuePath,
+    parsePropertyHierarchyNodeId,
     parsePropertyNodeId
 } from './propertyTree';
 import type { IPropertyTreeProvider } from '../interfaces/IPropertyTreeProvider';
 import type { ITagTreeProvider } from '../interfaces/ITagTreeProvider';
+import { filterSearchHasActiveCriteria, parseFilterSearchTokens } from './filterSearch';
+import { createFilterSearchFileMatcher } from './filterSearchMatcher';
+import { getSmartFolderLineage } from './smartFolders';
 
 interface CollectPinnedPathsOptions {
     restrictToFolderPath?: string;
@@ -79,7 +95,7 @@ function matchesPathSelection(candidatePath: string, selectedPath: string, inclu
     return candidatePath.startsWith(`${selectedPath}/`);
 }
 
-function getFilteredMarkdownFilesForSelection(
+function getFilteredFilesForSelection(
     app: App,
     settings: NotebookNavigatorSettings,
     showHiddenItems: boolean,
@@ -91,11 +107,18 @@ function getFilteredMarkdownFilesForSelection(
             ? getFilteredDocumentFiles(app, settings, { showHiddenItems })
             : getFilteredFiles(app, settings, { showHiddenItems });
 
-    const baseFiles = showHiddenItems
+    return showHiddenItems
         ? allFiles
         : allFiles.filter(file => excludedFolderPatterns.length === 0 || !isPathInExcludedFolder(file.path, excludedFolderPatterns));
+}
 
-    return baseFiles.filter(file => file.extension === 'md');
+function getFilteredMarkdownFilesForSelection(
+    app: App,
+    settings: NotebookNavigatorSettings,
+    showHiddenItems: boolean,
+    excludedFolderPatterns: string[]
+): TFile[] {
+    return getFilteredFilesForSelection(app, settings, showHiddenItems, excludedFolderPatterns).filter(file => file.extension === 'md');
 }
 
 function isFileVisibleForScopedSelection(
@@ -223,16 +246,31 @@ function createPropertySortValueGetter(app: App, propertySortKey: string): (file
     };
 }
 
+// Reads word and task counts from the content cache; counts are null until the content provider has generated them
+function createFileSortMetrics(): FileSortMetrics {
+    const db = getDBInstanceOrNull();
+    return {
+        getWordCount: file => db?.getFile(file.path)?.wordCount ?? null,
+        getTaskCounts: file => {
+            const record = db?.getFile(file.path);
+            if (!record || record.taskTotal === null || record.taskUnfinished === null) {
+                return null;
+            }
+            return { unfinished: record.taskUnfinished, total: record.taskTotal };
+        }
+    };
+}
+
 function sortNavigationFiles(
     files: TFile[],
     settings: NotebookNavigatorSettings,
     app: App,
-    sortOption: ReturnType<typeof getEffectiveSortOption>
+    sortOption: ReturnType<typeof getEffectiveSortOption>,
+    sortChain: readonly SortChainKey[] | null = null
 ): void {
-    const isPropertySort = isPropertySortOption(sortOption);
-    const propertySortKey = settings.propertySortKey.trim();
-    const getPropertySortValue =
-        isPropertySort && propertySortKey.length > 0 ? createPropertySortValueGetter(app, propertySortKey) : undefined;
+    let getCreatedTime = (file: TFile) => file.stat.ctime;
+    let getModifiedTime = (file: TFile) => file.stat.mtime;
+    let getTitle = (file: TFile) => file.basename;
 
     if (settings.useFrontmatterMetadata) {
         const metadataCache = new Map<string, ReturnType<typeof extractMetadata>>();
@@ -245,7 +283,7 @@ function sortNavigationFiles(
             return metadata;
         };
 
-        const getCreatedTime = (file: TFile) => {
+        getCreatedTime = (file: TFile) => {
             const metadata = getCached(file);
             if (
                 metadata.fc === undefined ||
@@ -257,7 +295,7 @@ function sortNavigationFiles(
             return metadata.fc;
         };
 
-        const getModifiedTime = (file: TFile) => {
+        getModifiedTime = (file: TFile) => {
             const metadata = getCached(file);
             if (
                 metadata.fm === undefined ||
@@ -269,19 +307,34 @@ function sortNavigationFiles(
             return metadata.fm;
         };
 
-        const getTitle = (file: TFile) => {
+        getTitle = (file: TFile) => {
             const metadata = getCached(file);
             return getDisplayName(file, { fn: metadata.fn }, settings);
         };
+    }
+
+    const metrics = createFileSortMetrics();
 
-        sortFiles(files, sortOption, getCreatedTime, getModifiedTime, getTitle, getPropertySortValue, settings.propertySortSecondary);
+    if (sortChain && sortChain.length > 0) {
+        // Each property key in the chain gets its own cached value getter
+        const propertyGetters = new Map<string, (file: TFile) => string | null>();
+        const getPropertyValue = (file: TFile, property: string) => {
+            let getter = propertyGetters.get(property);
+            if (!getter) {
+                getter = createPropertySortValueGetter(app, property);
+                propertyGetters.set(property, getter);
+            }
+            return getter(file);
+        };
+        sortFilesByChain(files, sortChain, { getCreatedTime, getModifiedTime, getDisplayName: getTitle, getPropertyValue, metrics });
         return;
     }
 
-    const getCreatedTime = (file: TFile) => file.stat.ctime;
-    const getModifiedTime = (file: TFile) => file.stat.mtime;
-    const getTitle = (file: TFile) => file.basename;
-    sortFiles(files, sortOption, getCreatedTime, getModifiedTime, getTitle, getPropertySortValue, settings.propertySortSecondary);
+    const isPropertySort = isPropertySortOption(sortOption);
+    const propertySortKey = settings.propertySortKey.trim();
+    const getPropertySortValue =
+        isPropertySort && propertySortKey.length > 0 ? createPropertySortValueGetter(app, propertySortKey) : undefined;
+    sortFiles(files, sortOption, getCreatedTime, getModifiedTime, getTitle, getPropertySortValue, settings.propertySortSecondary, metrics);
 }
 
 /**
@@ -447,7 +500,7 @@ export function getFilesForFolder(
     }
 
     const sortOption = getEffectiveSortOption(settings, 'folder', folder);
-    sortNavigationFiles(allFiles, settings, app, sortOption);
+    sortNavigationFiles(allFiles, settings, app, sortOption, getFolderSortChain(settings, folder.path));
 
     const pinnedOrderingOptions = settings.filterPinnedByFolder ? { restrictToFolderPath: folder.path } : undefined;
     return applyPinnedOrdering(allFiles, settings, 'folder', pinnedOrderingOptions);
@@ -605,6 +658,10 @@ export function getFilesForProperty(
     app: App,
     propertyTreeService: IPropertyTreeProvider | null = null
 ): TFile[] {
+    if (parsePropertyHierarchyNodeId(propertyNodeId)) {
+        return getFilesForPropertyHierarchyNode(propertyNodeId, settings, visibility, app, propertyTreeService);
+    }
+
     const includesAnyProperty = propertyNodeId === PROPERTIES_ROOT_VIRTUAL_FOLDER_ID;
     // Root properties selection includes every configured key that is enabled in either
     // navigation or list visibility modes.
@@ -748,3 +805,235 @@ export function getFilesForProperty(
 
     return applyPinnedOrdering(matchedFiles, settings, 'property');
 }
+
+/**
+ * Gets a sorted list of files for a node of a user-defined property hierarchy.
+ * Builds the hierarchy from the cache when the property tree service has not indexed it yet.
+ */
+function getFilesForPropertyHierarchyNode(
+    propertyNodeId: PropertySelectionNodeId,
+    settings: NotebookNavigatorSettings,
+    visibility: VisibilityPreferences,
+    app: App,
+    propertyTreeService: IPropertyTreeProvider | null
+): TFile[] {
+    const parsed = parsePropertyHierarchyNodeId(propertyNodeId);
+    const hierarchy = parsed ? settings.propertyHierarchies.find(entry => entry.id === parsed.hierarchyId) : undefined;
+    if (!hierarchy) {
+        return [];
+    }
+
+    const excludedFolderPatterns = getActiveHiddenFolders(settings);
+    const excludedFilePropertyMatcher = createFrontmatterPropertyExclusionMatcher(getActiveHiddenFileProperties(settings));
+    const fileNameMatcher = createHiddenFileNameMatcherForVisibility(getActiveHiddenFileNames(settings), visibility.showHiddenItems);
+    const hiddenFileTagVisibility = createHiddenTagVisibility(getActiveHiddenFileTags(settings), visibility.showHiddenItems);
+    const shouldFilterHiddenFileTags = hiddenFileTagVisibility.hasHiddenRules && !visibility.showHiddenItems;
+    const db = getDBInstanceOrNull();
+
+    const candidatePaths = (() => {
+        if (propertyTreeService && propertyTreeService.hasNodes()) {
+            return propertyTreeService.collectFilePaths(propertyNodeId, visibility.includeDescendantNotes);
+        }
+
+        const markdownFiles = getFilteredMarkdownFilesForSelection(app, settings, visibility.showHiddenItems, excludedFolderPatterns);
+        const hierarchyTree = buildPropertyHierarchyTreesFromDatabase(
+            {
+                forEachFile: callback => {
+                    markdownFiles.forEach(file => {
+                        const fileData = db?.getFile(file.path);
+                        if (fileData) {
+                            callback(file.path, fileData);
+                        }
+                    });
+                }
+            },
+            [hierarchy]
+        );
+        const node = findPropertyHierarchyNode(hierarchyTree, propertyNodeId);
+        return node ? collectPropertyKeyFilePaths(node, visibility.includeDescendantNotes) : new Set<string>();
+    })();
+
+    const matchedFiles = collectVisibleMarkdownFilesFromPaths(candidatePaths, app, file =>
+        isFileVisibleForScopedSelection(file, {
+            showHiddenItems: visibility.showHiddenItems,
+            excludedFolderPatterns,
+            excludedFilePropertyMatcher,
+            fileNameMatcher,
+            shouldFilterHiddenFileTags,
+            hiddenFileTagVisibility,
+            app,
+            db
+        })
+    );
+
+    const sortOption = getEffectiveSortOption(settings, ItemType.PROPERTY, null, null);
+    sortNavigationFiles(matchedFiles, settings, app, sortOption);
+
+    return applyPinnedOrdering(matchedFiles, settings, 'property');
+}
+
+// Builds one matcher per query with shared metadata lookups; queries without criteria (empty or only connectors) are skipped
+function createQueryFileMatchers(
+    queries: string[],
+    settings: NotebookNavigatorSettings,
+    app: App,
+    db: IndexedDBStorage,
+    defaultDateField: 'created' | 'modified'
+): ((file: TFile) => boolean)[] {
+    const metadataCache = new Map<string, ReturnType<typeof extractMetadata>>();
+    const getMetadata = (file: TFile) => {
+        let metadata = metadataCache.get(file.path);
+        if (!metadata) {
+            metadata = extractMetadata(app, file, settings);
+            metadataCache.set(file.path, metadata);
+        }
+        return metadata;
+    };
+    const getLowercaseName = (file: TFile): string => {
+        const frontmatterName = settings.useFrontmatterMetadata ? getMetadata(file).fn : undefined;
+        return (frontmatterName || getDisplayName(file, undefined, settings)).toLowerCase();
+    };
+    const getFileTimestamps = (file: TFile): { created: number; modified: number } => {
+        if (!settings.useFrontmatterMetadata) {
+            return { created: file.stat.ctime, modified: file.stat.mtime };
+        }
+        const metadata = getMetadata(file);
+        return {
+            created:
+                metadata.fc === undefined ||
+                metadata.fc === METADATA_SENTINEL.FIELD_NOT_CONFIGURED ||
+                metadata.fc === METADATA_SENTINEL.PARSE_FAILED
+                    ? file.stat.ctime
+                    : metadata.fc,
+            modified:
+                metadata.fm === undefined ||
+                metadata.fm === METADATA_SENTINEL.FIELD_NOT_CONFIGURED ||
+                metadata.fm === METADATA_SENTINEL.PARSE_FAILED
+                    ? file.stat.mtime
+                    : metadata.fm
+        };
+    };
+
+    return queries
+        .map(query => parseFilterSearchTokens(query))
+        .filter(tokens => filterSearchHasActiveCriteria(tokens))
+        .map(tokens =>
+            createFilterSearchFileMatcher({
+                app,
+                db,
+                tokens,
+                defaultDateField,
+                nameTokensMatchContent: settings.searchNoteContent,
+                getLowercaseName,
+                getFileTimestamps
+            })
+        );
+}
+
+/**
+ * Collects the visible files matching a smart folder, in vault order.
+ * A file must match the query of the smart folder and of every ancestor smart folder.
+ * @param smartFolderId - Id of the smart folder in the active profile
+ * @param settings - Plugin settings for filtering
+ * @param visibility - Visibility preferences for hidden items display
+ * @param app - Obsidian app instance
+ */
+export function collectSmartFolderFiles(
+    smartFolderId: string,
+    settings: NotebookNavigatorSettings,
+    visibility: VisibilityPreferences,
+    app: App
+): TFile[] {
+    const lineage = getSmartFolderLineage(getActiveSmartFolders(settings), smartFolderId);
+    const db = getDBInstanceOrNull();
+    if (lineage.length === 0 || !db) {
+        return [];
+    }
+
+    const files = getFilteredFilesForSelection(app, settings, visibility.showHiddenItems, getActiveHiddenFolders(settings));
+    const sortOption = getEffectiveSortOption(settings, ItemType.SMART_FOLDER, null, null, smartFolderId);
+    const defaultDateField = resolveDefaultDateField(sortOption, settings.alphabeticalDateMode ?? 'modified');
+    const matchers = createQueryFileMatchers(
+        lineage.map(folder => folder.query),
+        settings,
+        app,
+        db,
+        defaultDateField
+    );
+
+    if (matchers.length === 0) {
+        return files;
+    }
+    return files.filter(file => matchers.every(matches => matches(file)));
+}
+
+/**
+ * Gets the visible files matching a filter search query, sorted by the default folder sort.
+ * Queries without criteria match every visible file.
+ * @param query - Filter search query using the search box syntax
+ * @param settings - Plugin settings for filtering and sorting
+ * @param visibility - Visibility preferences for hidden items display
+ * @param app - Obsidian app instance
+ */
+export function getFilesMatchingQuery(
+    query: string,
+    settings: NotebookNavigatorSettings,
+    visibility: VisibilityPreferences,
+    app: App
+): TFile[] {
+    const db = getDBInstanceOrNull();
+    if (!db) {
+        return [];
+    }
+
+    const files = getFilteredFilesForSelection(app, settings, visibility.showHiddenItems, getActiveHiddenFolders(settings));
+    const sortOption = settings.defaultFolderSort;
+    const defaultDateField = resolveDefaultDateField(sortOption, settings.alphabeticalDateMode ?? 'modified');
+    const matchers = createQueryFileMatchers([query], settings, app, db, defaultDateField);
+    const matchedFiles = matchers.length === 0 ? files : files.filter(file => matchers.every(matches => matches(file)));
+
+    sortNavigationFiles(matchedFiles, settings, app, sortOption);
+    return matchedFiles;
+}
+
+/**
+ * Creates a matcher for a single filter search query, using the default folder sort for date criteria.
+ * Returns null when the query has no criteria or the database is not ready.
+ * @param query - Filter search query using the search box syntax
+ * @param settings - Plugin settings for name and date lookups
+ * @param app - Obsidian app instance
+ */
+export function createFilterQueryFileMatcher(
+    query: string,
+    settings: NotebookNavigatorSettings,
+    app: App
+): ((file: TFile) => boolean) | null {
+    const db = getDBInstanceOrNull();
+    if (!db) {
+        return null;
+    }
+
+    const defaultDateField = resolveDefaultDateField(settings.defaultFolderSort, settings.alphabeticalDateMode ?? 'modified');
+    return createQueryFileMatchers([query], settings, app, db, defaultDateField)[0] ?? null;
+}
+
+/**
+ * Gets a sorted list of files for a smart folder, respecting all plugin settings.
+ * @param smartFolderId - Id of the smart folder in the active profile
+ * @param settings - Plugin settings for sorting and filtering
+ * @param visibility - Visibility preferences for hidden items display
+ * @param app - Obsidian app instance
+ */
+export function getFilesForSmartFolder(
+    smartFolderId: string,
+    settings: NotebookNavigatorSettings,
+    visibility: VisibilityPreferences,
+    app: App
+): TFile[] {
+    const matchedFiles = collectSmartFolderFiles(smartFolderId, settings, visibility, app);
+
+    const sortOption = getEffectiveSortOption(settings, ItemType.SMART_FOLDER, null, null, smartFolderId);
+    sortNavigationFiles(matchedFiles, settings, app, sortOption);
+
+    return applyPinnedOrdering(matchedFiles, settings, 'smart-folder');
+}
@@ -44,6 +44,8 @@ export interface FileNameIconNeedle {
 
 export interface ResolveFileIconIdOptions {
     customIconId?: IconId | null;
+    /** Icon supplied by the first matching file style rule; applies after the custom icon */
+    ruleIconId?: IconId | null;
     metadataCache?: MetadataCacheLike;
     isExternalFile?: boolean;
     allowCategoryIcons?: boolean;
@@ -158,6 +160,10 @@ export function resolveFileIconId(
         return customIconId;
     }
 
+    if (options.ruleIconId) {
+        return options.ruleIconId;
+    }
+
     if (settings.showFilenameMatchIcons) {
         const fileNameNeedles = options.fileNameNeedles ?? buildFileNameIconNeedles(settings.fileNameIconMap);
         const fileNameForMatch = options.fileNameForMatch ?? file.basename;
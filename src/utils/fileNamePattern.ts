@@ -0,0 +1,120 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import type { NotebookNavigatorSettings } from '../settings/types';
+import {
+    stripForbiddenNameCharactersAllPlatforms,
+    stripForbiddenNameCharactersWindows,
+    stripInvalidLinkCharacters,
+    stripLeadingPeriods
+} from './fileNameUtils';
+import { getMomentApi, type MomentApi } from './moment';
+import { getParentFolderPath } from './pathUtils';
+
+const DEFAULT_DATE_TOKEN_FORMAT = 'YYYY-MM-DD';
+const DEFAULT_TIME_TOKEN_FORMAT = 'HH-mm';
+
+// Matches {{name}} and {{name:format}} placeholders
+const FILE_NAME_TOKEN_PATTERN = /\{\{\s*(date|time|title)(?::([^}]*))?\s*\}\}/giu;
+
+export interface FileNamePatternContext {
+    /** Value substituted for {{title}} */
+    title: string;
+    /** Creation time used for date and time tokens (default: now) */
+    date?: Date;
+    /** Moment instance used for formatting (default: Obsidian's window.moment) */
+    momentApi?: MomentApi | null;
+}
+
+/**
+ * Formats a date token, falling back to an ISO date or time when moment is unavailable.
+ */
+function formatDateToken(date: Date, format: string, fallbackKind: 'date' | 'time', momentApi: MomentApi | null): string {
+    if (momentApi) {
+        const value = momentApi(date);
+        if (value.isValid()) {
+            return value.format(format);
+        }
+    }
+
+    const iso = date.toISOString();
+    return fallbackKind === 'date' ? iso.slice(0, 10) : iso.slice(11, 16).replace(':', '-');
+}
+
+/**
+ * Removes characters that are not allowed in file names or that break links, and collapses whitespace.
+ */
+function sanitizeFileNameSegment(value: string): string {
+    const stripped = stripInvalidLinkCharacters(stripForbiddenNameCharactersWindows(stripForbiddenNameCharactersAllPlatforms(value)));
+    return stripLeadingPeriods(stripped.replace(/\s+/gu, ' ').trim()).trim();
+}
+
+/**
+ * Expands a file name pattern such as `{{date:YYYY-MM-DD}} {{title}}`.
+ * Supported tokens: `{{date}}`, `{{date:FORMAT}}`, `{{time}}`, `{{time:FORMAT}}` and `{{title}}`.
+ * Returns null when the pattern is empty or expands to an empty name.
+ */
+export function formatFileNamePattern(pattern: string | null | undefined, context: FileNamePatternContext): string | null {
+    if (typeof pattern !== 'string' || pattern.trim().length === 0) {
+        return null;
+    }
+
+    const date = context.date ?? new Date();
+    const momentApi = context.momentApi === undefined ? getMomentApi() : context.momentApi;
+
+    const expanded = pattern.replace(FILE_NAME_TOKEN_PATTERN, (_match, token: string, format: string | undefined) => {
+        const trimmedFormat = format?.trim() ?? '';
+        switch (token.toLowerCase()) {
+            case 'date':
+                return formatDateToken(date, trimmedFormat || DEFAULT_DATE_TOKEN_FORMAT, 'date', momentApi);
+            case 'time':
+                return formatDateToken(date, trimmedFormat || DEFAULT_TIME_TOKEN_FORMAT, 'time', momentApi);
+            default:
+                return context.title;
+        }
+    });
+
+    const sanitized = sanitizeFileNameSegment(expanded);
+    return sanitized.length > 0 ? sanitized : null;
+}
+
+/**
+ * Resolves the new note file name pattern for a folder.
+ * Uses the pattern set on the folder or its nearest ancestor, then the global pattern. Returns '' when neither is set.
+ */
+export function resolveNewNoteFileNamePattern(
+    settings: Pick<NotebookNavigatorSettings, 'newNoteFileNamePattern' | 'folderNewNotePatterns'>,
+    folderPath: string
+): string {
+    const folderPatterns = settings.folderNewNotePatterns;
+    if (folderPatterns) {
+        let currentPath = folderPath || '/';
+        while (true) {
+            const pattern = folderPatterns[currentPath];
+            if (typeof pattern === 'string' && pattern.trim().length > 0) {
+                return pattern.trim();
+            }
+            if (currentPath === '/') {
+                break;
+            }
+            currentPath = getParentFolderPath(currentPath);
+        }
+    }
+
+    return settings.newNoteFileNamePattern?.trim() ?? '';
+}
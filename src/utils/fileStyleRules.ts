@@ -0,0 +1,132 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import type { App, TFile } from 'obsidian';
+import type { IconId } from '../services/icons/types';
+import type { IndexedDBStorage } from '../storage/IndexedDBStorage';
+import type { FileStyleRule } from '../types/fileStyleRules';
+import { filterSearchHasActiveCriteria, parseFilterSearchTokens, type FilterSearchTokens } from './filterSearch';
+import { createFilterSearchFileMatcher } from './filterSearchMatcher';
+import { deserializeIconFromFrontmatter } from './iconizeFormat';
+
+/** File style rule with its query parsed into filter search tokens */
+export interface CompiledFileStyleRule {
+    tokens: FilterSearchTokens;
+    iconId: IconId | null;
+    color: string | null;
+}
+
+/** Icon and color resolved from the file style rules for a single file */
+export interface FileStyleRuleMatch {
+    iconId: IconId | null;
+    color: string | null;
+}
+
+export const EMPTY_FILE_STYLE_RULE_MATCH: FileStyleRuleMatch = Object.freeze({ iconId: null, color: null });
+
+/** Lookups used to evaluate file style rules against cached file data */
+export interface FileStyleRuleMatchContext {
+    app: App;
+    db: IndexedDBStorage;
+    /** Date field used by date tokens that do not name a field */
+    defaultDateField: 'created' | 'modified';
+    /** Display name matched by name tokens */
+    displayName: string;
+    getFileTimestamps: (file: TFile) => { created: number; modified: number };
+}
+
+/**
+ * Parses the queries of file style rules.
+ * Rules whose query has no criteria or that resolve to neither an icon nor a color are skipped.
+ */
+export function compileFileStyleRules(rules: readonly FileStyleRule[] | undefined): CompiledFileStyleRule[] {
+    if (!rules) {
+        return [];
+    }
+
+    const compiled: CompiledFileStyleRule[] = [];
+    rules.forEach(rule => {
+        const iconId = rule.icon ? deserializeIconFromFrontmatter(rule.icon) : null;
+        const color = rule.color ? rule.color : null;
+        if (!iconId && !color) {
+            return;
+        }
+
+        const tokens = parseFilterSearchTokens(rule.query);
+        if (!filterSearchHasActiveCriteria(tokens)) {
+            return;
+        }
+        compiled.push({ tokens, iconId, color });
+    });
+    return compiled;
+}
+
+/**
+ * Evaluates file style rules in order against a file's cached metadata.
+ * The icon comes from the first matching rule that defines an icon and the color from the first matching rule that defines a color.
+ */
+export function resolveFileStyleRuleMatch(
+    file: TFile,
+    rules: readonly CompiledFileStyleRule[],
+    context: FileStyleRuleMatchContext
+): FileStyleRuleMatch {
+    if (rules.length === 0) {
+        return EMPTY_FILE_STYLE_RULE_MATCH;
+    }
+
+    const lowercaseName = context.displayName.toLowerCase();
+    let iconId: IconId | null = null;
+    let color: string | null = null;
+
+    for (const rule of rules) {
+        const needsIcon = iconId === null && rule.iconId !== null;
+        const needsColor = color === null && rule.color !== null;
+        if (!needsIcon && !needsColor) {
+            continue;
+        }
+
+        // Matchers cache tags and properties per path, so a fresh matcher keeps results in sync with the database
+        const matches = createFilterSearchFileMatcher({
+            app: context.app,
+            db: context.db,
+            tokens: rule.tokens,
+            defaultDateField: context.defaultDateField,
+            nameTokensMatchContent: false,
+            getLowercaseName: () => lowercaseName,
+            getFileTimestamps: context.getFileTimestamps
+        })(file);
+        if (!matches) {
+            continue;
+        }
+
+        if (needsIcon) {
+            iconId = rule.iconId;
+        }
+        if (needsColor) {
+            color = rule.color;
+        }
+        if (iconId !== null && color !== null) {
+            break;
+        }
+    }
+
+    if (iconId === null && color === null) {
+        return EMPTY_FILE_STYLE_RULE_MATCH;
+    }
+    return { iconId, color };
+}
@@ -19,8 +19,8 @@
 import { casefold } from './recordUtils';
 import { matchesPropertyValuePath, normalizePropertyTreeValuePath } from './propertyTree';
 
-// Determines evaluation mode for search tokens (filter uses AND for all, tag uses expression tree)
-export type FilterMode = 'filter' | 'tag';
+// Determines evaluation mode for search tokens (filter uses AND for all, tag and expression use an expression tree)
+export type FilterMode = 'filter' | 'tag' | 'expression';
 
 // Logical operator for combining tag filter expressions
 export type InclusionOperator = 'AND' | 'OR';
@@ -39,6 +39,14 @@ interface DateFilterRange {
     endMs: number | null;
 }
 
+// Range matched against the due dates of a note's open tasks
+interface DueFilterRange {
+    /** Inclusive lower bound in milliseconds since epoch (local time). */
+    startMs: number | null;
+    /** Exclusive upper bound in milliseconds since epoch (local time). */
+    endMs: number | null;
+}
+
 export interface FolderFilterToken {
     mode: 'exact' | 'segment';
     value: string;
@@ -47,10 +55,31 @@ export interface FolderFilterToken {
 export interface PropertySearchToken {
     key: string;
     value: string | null;
+    comparison?: PropertyValueComparison;
+}
+
+// Numeric bounds for a property comparison (null = open end)
+export interface PropertyNumberRange {
+    min: number | null;
+    minInclusive: boolean;
+    max: number | null;
+    maxInclusive: boolean;
 }
 
-// Operands in a tag/property filter expression tree
-type TagExpressionOperand =
+/**
+ * Comparison parsed from `.key>value`, `.key>=value`, `.key<value`, `.key<=value` or `.key:value`.
+ * The value is read both as a number and as a date; property values are compared against
+ * whichever interpretation matches their own type.
+ */
+export interface PropertyValueComparison {
+    // Operator and value as typed, used when serializing the token back into a query
+    source: string;
+    number: PropertyNumberRange | null;
+    date: { startMs: number | null; endMs: number | null } | null;
+}
+
+// Operands in a filter expression tree
+type FilterExpressionOperand =
     | {
           kind: 'tag';
           value: string;
@@ -72,14 +101,44 @@ type TagExpressionOperand =
     | {
           kind: 'notProperty';
           value: PropertySearchToken;
+      }
+    | {
+          kind: 'name';
+          value: string;
+      }
+    | {
+          kind: 'folder';
+          value: FolderFilterToken;
+      }
+    | {
+          kind: 'extension';
+          value: string;
+      }
+    | {
+          kind: 'content';
+          value: string;
+      }
+    | {
+          kind: 'date';
+          range: DateFilterRange;
+      }
+    | {
+          kind: 'due';
+          range: DueFilterRange;
+      }
+    | {
+          kind: 'unfinishedTask';
       };
 
-// Tokens in a tag filter expression (operands and operators)
-type TagExpressionToken =
-    | TagExpressionOperand
+// Tokens in a postfix filter expression (operands, binary operators, and unary NOT)
+type FilterExpressionToken =
+    | FilterExpressionOperand
     | {
           kind: 'operator';
           operator: InclusionOperator;
+      }
+    | {
+          kind: 'not';
       };
 
 /**
@@ -87,7 +146,7 @@ type TagExpressionToken =
  */
 export interface FilterSearchTokens {
     mode: FilterMode;
-    expression: TagExpressionToken[];
+    expression: FilterExpressionToken[];
     hasInclusions: boolean;
     requiresTags: boolean;
     allRequireTags: boolean;
@@ -100,6 +159,7 @@ export interface FilterSearchTokens {
     nameTokens: string[];
     tagTokens: string[];
     dateRanges: DateFilterRange[];
+    dueRanges: DueFilterRange[];
     requireTagged: boolean;
     includeUntagged: boolean;
     excludeNameTokens: string[];
@@ -108,7 +168,10 @@ export interface FilterSearchTokens {
     excludeFolderTokens: FolderFilterToken[];
     extensionTokens: string[];
     excludeExtensionTokens: string[];
+    contentTokens: string[];
+    excludeContentTokens: string[];
     excludeDateRanges: DateFilterRange[];
+    excludeDueRanges: DueFilterRange[];
     excludeTagged: boolean;
 }
 
@@ -125,6 +188,7 @@ const EMPTY_TOKENS: FilterSearchTokens = {
     nameTokens: [],
     tagTokens: [],
     dateRanges: [],
+    dueRanges: [],
     requireTagged: false,
     includeUntagged: false,
     propertyTokens: [],
@@ -136,7 +200,10 @@ const EMPTY_TOKENS: FilterSearchTokens = {
     excludeFolderTokens: [],
     extensionTokens: [],
     excludeExtensionTokens: [],
+    contentTokens: [],
+    excludeContentTokens: [],
     excludeDateRanges: [],
+    excludeDueRanges: [],
     excludeTagged: false
 };
 const EMPTY_PROPERTY_VALUE_MAP = new Map<string, string[]>();
@@ -149,6 +216,10 @@ const OPERATOR_PRECEDENCE: Record<InclusionOperator, number> = {
 
 // Set of recognized connector words in search queries
 const CONNECTOR_TOKEN_SET = new Set(['and', 'or']);
+const NOT_OPERATOR_TOKEN = 'not';
+const GROUP_START_TOKEN = '(';
+const NEGATED_GROUP_START_TOKEN = '-(';
+const GROUP_END_TOKEN = ')';
 const UNFINISHED_TASK_FILTER_TOKEN_SET = new Set(['has:task', 'has:tasks']);
 
 // Checks if a tag token matches a lowercase tag path (exact or descendant)
@@ -169,7 +240,13 @@ const isPropertyFilterCandidate = (token: string): boolean => {
     return token.startsWith(PROPERTY_FILTER_PREFIX);
 };
 
-const findPropertyFilterValueSeparator = (content: string): number => {
+type PropertyComparisonOperator = '>' | '>=' | '<' | '<=' | ':';
+
+const PROPERTY_VALUE_SEPARATORS: ReadonlySet<string> = new Set(['=']);
+const PROPERTY_COMPARISON_SEPARATORS: ReadonlySet<string> = new Set(['=', '<', '>', ':']);
+
+// Returns the index of the first unquoted, unescaped separator character in a property filter
+const findPropertyFilterValueSeparator = (content: string, separators: ReadonlySet<string>): number => {
     let escaped = false;
     let inQuotes = false;
 
@@ -190,7 +267,7 @@ const findPropertyFilterValueSeparator = (content: string): number => {
             continue;
         }
 
-        if (char === '=' && !inQuotes) {
+        if (!inQuotes && separators.has(char)) {
             return index;
         }
     }
@@ -232,7 +309,7 @@ const unescapePropertyFilterPart = (value: string): string => {
         }
 
         const nextChar = value[index + 1];
-        if (nextChar === '=' || nextChar === '\\' || nextChar === '"') {
+        if (nextChar === '\\' || nextChar === '"' || PROPERTY_COMPARISON_SEPARATORS.has(nextChar)) {
             result += nextChar;
             index += 1;
             continue;
@@ -254,7 +331,26 @@ const parsePropertyFilterToken = (token: string): PropertySearchToken | null =>
         return null;
     }
 
-    const separatorIndex = findPropertyFilterValueSeparator(content);
+    const comparisonIndex = findPropertyFilterValueSeparator(content, PROPERTY_COMPARISON_SEPARATORS);
+    if (comparisonIndex !== -1 && content[comparisonIndex] !== '=') {
+        const isRangeOperator = content[comparisonIndex] === ':';
+        const operatorEnd = !isRangeOperator && content[comparisonIndex + 1] === '=' ? comparisonIndex + 2 : comparisonIndex + 1;
+        const operator = content.slice(comparisonIndex, operatorEnd) as PropertyComparisonOperator;
+        const rawKey = unescapePropertyFilterPart(tryUnquotePropertyFilterPart(content.slice(0, comparisonIndex)));
+        const rawValue = unescapePropertyFilterPart(tryUnquotePropertyFilterPart(content.slice(operatorEnd)));
+        const normalizedKey = normalizePropertyFilterKey(rawKey);
+        const comparison = normalizedKey ? parsePropertyValueComparison(operator, rawValue.trim().toLowerCase()) : null;
+        if (comparison) {
+            return { key: normalizedKey, value: null, comparison };
+        }
+        // Ignore partial/invalid `<` and `>` comparisons until the token is complete.
+        // `:` values that are neither numbers nor dates are part of the key (for example `.status:done`).
+        if (!isRangeOperator) {
+            return null;
+        }
+    }
+
+    const separatorIndex = findPropertyFilterValueSeparator(content, PROPERTY_VALUE_SEPARATORS);
     if (separatorIndex === -1) {
         const normalizedKey = normalizePropertyFilterKey(unescapePropertyFilterPart(tryUnquotePropertyFilterPart(content)));
         return normalizedKey ? { key: normalizedKey, value: null } : null;
@@ -312,6 +408,26 @@ function tokenizeFilterSearchQuery(query: string): string[] {
             continue;
         }
 
+        // Split grouping parentheses into separate tokens. An opening parenthesis only groups at the start of a
+        // token (optionally negated with `-`), and a closing parenthesis only groups when it does not close a
+        // parenthesis inside the token, so names like `draft(v2)` stay intact.
+        if (!inQuotes && char === '(' && (current.length === 0 || current === '-')) {
+            tokens.push(`${current}(`);
+            current = '';
+            index += 1;
+            continue;
+        }
+
+        if (!inQuotes && char === ')' && !hasUnclosedParenthesis(current)) {
+            if (current.length > 0) {
+                tokens.push(current);
+                current = '';
+            }
+            tokens.push(GROUP_END_TOKEN);
+            index += 1;
+            continue;
+        }
+
         current += char;
         index += 1;
     }
@@ -323,12 +439,35 @@ function tokenizeFilterSearchQuery(query: string): string[] {
     return tokens;
 }
 
+// Checks whether a partial token contains an opening parenthesis that has not been closed yet.
+function hasUnclosedParenthesis(value: string): boolean {
+    let depth = 0;
+    for (const char of value) {
+        if (char === '(') {
+            depth += 1;
+        } else if (char === ')' && depth > 0) {
+            depth -= 1;
+        }
+    }
+    return depth > 0;
+}
+
 // Intermediate token representation during classification
 type ClassifiedToken =
     | {
           kind: 'operator';
           operator: InclusionOperator;
       }
+    | {
+          kind: 'not';
+      }
+    | {
+          kind: 'groupStart';
+          negated: boolean;
+      }
+    | {
+          kind: 'groupEnd';
+      }
     | {
           kind: 'tag';
           value: string | null;
@@ -353,6 +492,14 @@ type ClassifiedToken =
           kind: 'dateNegation';
           range: DateFilterRange;
       }
+    | {
+          kind: 'due';
+          range: DueFilterRange;
+      }
+    | {
+          kind: 'dueNegation';
+          range: DueFilterRange;
+      }
     | {
           kind: 'folder';
           value: FolderFilterToken;
@@ -369,6 +516,14 @@ type ClassifiedToken =
           kind: 'extensionNegation';
           value: string;
       }
+    | {
+          kind: 'content';
+          value: string;
+      }
+    | {
+          kind: 'contentNegation';
+          value: string;
+      }
     | {
           kind: 'unfinishedTask';
       }
@@ -389,6 +544,9 @@ interface TokenClassificationResult {
     tokens: ClassifiedToken[];
     hasTagOperand: boolean;
     hasNonTagOperand: boolean;
+    hasFilterOperand: boolean;
+    hasOperatorSyntax: boolean;
+    hasGrouping: boolean;
     hasInvalidToken: boolean;
 }
 
@@ -399,12 +557,24 @@ const canUseTagMode = (classification: TokenClassificationResult): boolean => {
     // - Rejects any non-tag operand (name/date/task tokens)
     // - Rejects malformed/dangling syntax
     //
-    // This keeps AND/OR operator behavior scoped to tag-only queries.
-    // Mixed queries intentionally fall back to regular filter mode where
-    // AND/OR are interpreted as literal words in file names.
+    // Pure tag/property queries keep their dedicated mode so navigation
+    // highlighting and tag-only query mutations stay unchanged.
     return classification.hasTagOperand && !classification.hasNonTagOperand && !classification.hasInvalidToken;
 };
 
+// Checks if a mixed token set can use the general expression mode
+const canUseExpressionMode = (classification: TokenClassificationResult): boolean => {
+    // Expression mode applies AND/OR/NOT and parentheses to every operand kind.
+    // Connector words only act as operators when the query also contains a
+    // filter operand (tag, property, date, task, folder, extension, content)
+    // or explicit parentheses. Plain word queries like `black or white` keep
+    // matching connector words literally in file names.
+    if (!classification.hasOperatorSyntax || classification.hasInvalidToken) {
+        return false;
+    }
+    return classification.hasFilterOperand || classification.hasGrouping;
+};
+
 // Detects a token prefix used to negate an operand.
 const getNegationPrefix = (token: string): '-' | null => {
     if (!token) {
@@ -425,6 +595,8 @@ const isUnfinishedTaskFilterToken = (token: string): boolean => {
 
 const FOLDER_FILTER_PREFIX = 'folder:';
 const EXT_FILTER_PREFIX = 'ext:';
+const CONTENT_FILTER_PREFIX = 'content:';
+const DUE_FILTER_PREFIX = 'due:';
 
 // Normalizes folder filter values for exact (`folder:/path`) and segment (`folder:name`) matching.
 const normalizeFolderFilterToken = (value: string): FolderFilterToken | null => {
@@ -497,6 +669,43 @@ const parseExtensionFilterToken = (token: string): string | null => {
     return lastSegment;
 };
 
+// Checks if a token starts with the content filter prefix.
+const isContentFilterCandidate = (token: string): boolean => {
+    return token.startsWith(CONTENT_FILTER_PREFIX);
+};
+
+// Parses content:... tokens into the lowercase text searched in note bodies.
+const parseContentFilterToken = (token: string): string | null => {
+    const value = token.slice(CONTENT_FILTER_PREFIX.length).trim();
+    return value.length > 0 ? value : null;
+};
+
+// Checks if a token starts with the due date filter prefix.
+const isDueFilterCandidate = (token: string): boolean => {
+    return token.startsWith(DUE_FILTER_PREFIX);
+};
+
+// Parses due:... tokens (`overdue`, relative keywords, dates and ranges) into a due date range.
+const parseDueFilterToken = (token: string): DueFilterRange | null => {
+    const value = token.slice(DUE_FILTER_PREFIX.length).trim();
+    if (!value) {
+        return null;
+    }
+
+    if (value === 'overdue') {
+        const now = new Date();
+        const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+        return { startMs: null, endMs: todayStart.getTime() };
+    }
+
+    // Reuse the @date grammar; created/modified prefixes have no meaning for due dates
+    const range = parseDateFilterRange(`@${value}`);
+    if (!range || range.field !== 'default') {
+        return null;
+    }
+    return { startMs: range.startMs, endMs: range.endMs };
+};
+
 const normalizeFolderPathForMatch = (folderPath: string): string => {
     if (!folderPath) {
         return '';
@@ -548,6 +757,11 @@ const propertyTokenMatches = (propertiesByKey: Map<string, string[]>, token: Pro
         return false;
     }
 
+    const comparison = token.comparison;
+    if (comparison) {
+        return values.some(value => propertyValueMatchesComparison(value, comparison));
+    }
+
     if (token.value === null) {
         return true;
     }
@@ -1011,6 +1225,163 @@ const parseDateFilterRange = (token: string): DateFilterRange | null => {
     return { field, startMs: day.startMs, endMs: day.endMs };
 };
 
+// Matches plain decimal numbers such as `3`, `-2` or `1.5`
+const PROPERTY_NUMBER_PATTERN = /^[-+]?(?:\d+(?:\.\d*)?|\.\d+)$/;
+
+// Matches ISO dates and date-times stored in frontmatter (`2026-11-01`, `2026-11-01t09:30`)
+const PROPERTY_DATE_VALUE_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[t ](\d{1,2}):(\d{2})(?::(\d{2}))?)?/;
+
+const parsePropertyNumber = (value: string): number | null => {
+    const trimmed = value.trim();
+    if (!PROPERTY_NUMBER_PATTERN.test(trimmed)) {
+        return null;
+    }
+
+    const parsed = Number(trimmed);
+    return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Resolves a property comparison operand to a date range (relative keyword or absolute date)
+const parsePropertyComparisonDate = (value: string): { startMs: number; endMs: number } | null => {
+    if (DATE_FILTER_RELATIVE_KEYWORD_SET.has(value)) {
+        return resolveRelativeDateRange(value);
+    }
+    return parseDateToken(value);
+};
+
+// Parses `a..b` (open ends allowed) into inclusive numeric and date bounds
+const parsePropertyComparisonRange = (source: string, left: string, right: string): PropertyValueComparison | null => {
+    if (!left && !right) {
+        return null;
+    }
+
+    const leftNumber = left ? parsePropertyNumber(left) : null;
+    const rightNumber = right ? parsePropertyNumber(right) : null;
+    const hasNumberRange =
+        (!left || leftNumber !== null) &&
+        (!right || rightNumber !== null) &&
+        (leftNumber === null || rightNumber === null || leftNumber <= rightNumber);
+
+    const leftDate = left ? parsePropertyComparisonDate(left) : null;
+    const rightDate = right ? parsePropertyComparisonDate(right) : null;
+    const hasDateRange =
+        (!left || leftDate !== null) && (!right || rightDate !== null) && (!leftDate || !rightDate || leftDate.startMs < rightDate.endMs);
+
+    if (!hasNumberRange && !hasDateRange) {
+        return null;
+    }
+
+    return {
+        source,
+        number: hasNumberRange ? { min: leftNumber, minInclusive: true, max: rightNumber, maxInclusive: true } : null,
+        date: hasDateRange ? { startMs: leftDate?.startMs ?? null, endMs: rightDate?.endMs ?? null } : null
+    };
+};
+
+// Parses the value side of a property comparison into numeric and date bounds
+const parsePropertyValueComparison = (operator: PropertyComparisonOperator, value: string): PropertyValueComparison | null => {
+    if (!value) {
+        return null;
+    }
+
+    const source = `${operator}${value}`;
+    if (operator === ':') {
+        const rangeDelimiter = value.indexOf('..');
+        if (rangeDelimiter !== -1) {
+            return parsePropertyComparisonRange(source, value.slice(0, rangeDelimiter).trim(), value.slice(rangeDelimiter + 2).trim());
+        }
+    }
+
+    const numberValue = parsePropertyNumber(value);
+    const dateValue = parsePropertyComparisonDate(value);
+    if (numberValue === null && !dateValue) {
+        return null;
+    }
+
+    let number: PropertyNumberRange | null = null;
+    let date: PropertyValueComparison['date'] = null;
+    switch (operator) {
+        case '>':
+            number = numberValue === null ? null : { min: numberValue, minInclusive: false, max: null, maxInclusive: false };
+            date = dateValue ? { startMs: dateValue.endMs, endMs: null } : null;
+            break;
+        case '>=':
+            number = numberValue === null ? null : { min: numberValue, minInclusive: true, max: null, maxInclusive: false };
+            date = dateValue ? { startMs: dateValue.startMs, endMs: null } : null;
+            break;
+        case '<':
+            number = numberValue === null ? null : { min: null, minInclusive: false, max: numberValue, maxInclusive: false };
+            date = dateValue ? { startMs: null, endMs: dateValue.startMs } : null;
+            break;
+        case '<=':
+            number = numberValue === null ? null : { min: null, minInclusive: false, max: numberValue, maxInclusive: true };
+            date = dateValue ? { startMs: null, endMs: dateValue.endMs } : null;
+            break;
+        case ':':
+            number = numberValue === null ? null : { min: numberValue, minInclusive: true, max: numberValue, maxInclusive: true };
+            date = dateValue ? { startMs: dateValue.startMs, endMs: dateValue.endMs } : null;
+            break;
+    }
+
+    return { source, number, date };
+};
+
+// Reads a frontmatter date or date-time value as a local timestamp
+const parsePropertyDateValue = (value: string): number | null => {
+    const match = value.trim().match(PROPERTY_DATE_VALUE_PATTERN);
+    if (!match) {
+        return null;
+    }
+
+    const year = Number(match[1]);
+    const month = Number(match[2]);
+    const day = Number(match[3]);
+    const dayRange = createLocalDayRange(year, month, day);
+    if (!dayRange) {
+        return null;
+    }
+    if (match[4] === undefined) {
+        return dayRange.startMs;
+    }
+
+    const hours = Number(match[4]);
+    const minutes = Number(match[5]);
+    const seconds = match[6] === undefined ? 0 : Number(match[6]);
+    if (hours > 23 || minutes > 59 || seconds > 59) {
+        return null;
+    }
+
+    return new Date(year, month - 1, day, hours, minutes, seconds).getTime();
+};
+
+const numberMatchesRange = (value: number, range: PropertyNumberRange): boolean => {
+    if (range.min !== null && (range.minInclusive ? value < range.min : value <= range.min)) {
+        return false;
+    }
+    if (range.max !== null && (range.maxInclusive ? value > range.max : value >= range.max)) {
+        return false;
+    }
+    return true;
+};
+
+// Compares a single property value using its own type: dates against the date bounds, numbers against the numeric bounds
+const propertyValueMatchesComparison = (value: string, comparison: PropertyValueComparison): boolean => {
+    const timestamp = parsePropertyDateValue(value);
+    if (timestamp !== null) {
+        const range = comparison.date;
+        if (!range) {
+            return false;
+        }
+        return (range.startMs === null || timestamp >= range.startMs) && (range.endMs === null || timestamp < range.endMs);
+    }
+
+    const numberValue = parsePropertyNumber(value);
+    if (numberValue === null || !comparison.number) {
+        return false;
+    }
+    return numberMatchesRange(numberValue, comparison.number);
+};
+
 // Checks if a token looks like a date filter (starts with @ followed by digits, dots, or relative keywords)
 const isDateFilterCandidate = (token: string): boolean => {
     if (!token.startsWith('@')) {
@@ -1043,6 +1414,8 @@ const classifyRawTokens = (rawTokens: string[]): TokenClassificationResult => {
     const tokens: ClassifiedToken[] = [];
     let hasTagOperand = false;
     let hasNonTagOperand = false;
+    let hasOperatorSyntax = false;
+    let hasGrouping = false;
     let hasInvalidToken = false;
 
     for (const token of rawTokens) {
@@ -1050,17 +1423,39 @@ const classifyRawTokens = (rawTokens: string[]): TokenClassificationResult => {
             continue;
         }
 
-        // Classify connector words first. Whether they behave as operators
-        // or literal words is decided later by mode selection:
-        // - expression mode (pure tag/property queries): operators
-        // - filter mode (mixed queries): literal name tokens
+        // Classify connector words and parentheses first. Whether they behave
+        // as operators or literal words is decided later by mode selection:
+        // - tag/expression mode: operators
+        // - filter mode (plain word queries): literal name tokens
         if (token === 'and') {
             tokens.push({ kind: 'operator', operator: 'AND' });
+            hasOperatorSyntax = true;
             continue;
         }
 
         if (token === 'or') {
             tokens.push({ kind: 'operator', operator: 'OR' });
+            hasOperatorSyntax = true;
+            continue;
+        }
+
+        if (token === NOT_OPERATOR_TOKEN) {
+            tokens.push({ kind: 'not' });
+            hasOperatorSyntax = true;
+            continue;
+        }
+
+        if (token === GROUP_START_TOKEN || token === NEGATED_GROUP_START_TOKEN) {
+            tokens.push({ kind: 'groupStart', negated: token === NEGATED_GROUP_START_TOKEN });
+            hasOperatorSyntax = true;
+            hasGrouping = true;
+            continue;
+        }
+
+        if (token === GROUP_END_TOKEN) {
+            tokens.push({ kind: 'groupEnd' });
+            hasOperatorSyntax = true;
+            hasGrouping = true;
             continue;
         }
 
@@ -1074,8 +1469,7 @@ const classifyRawTokens = (rawTokens: string[]): TokenClassificationResult => {
 
             if (isUnfinishedTaskFilterToken(negatedToken)) {
                 tokens.push({ kind: 'unfinishedTaskNegation' });
-                // Task filters make the query non-tag, so AND/OR must not
-                // be interpreted as tag-expression operators.
+                // Task filters are non-tag operands.
                 hasNonTagOperand = true;
                 continue;
             }
@@ -1087,9 +1481,7 @@ const classifyRawTokens = (rawTokens: string[]): TokenClassificationResult => {
                     const range = parseDateFilterRange(negatedToken);
                     if (range) {
                         tokens.push({ kind: 'dateNegation', range });
-                        // Date filters are non-tag operands by design.
-                        // Their presence forces filter mode so AND/OR are
-                        // treated as literal words.
+                        // Date filters are non-tag operands.
                         hasNonTagOperand = true;
                     }
                     continue;
@@ -1122,6 +1514,28 @@ const classifyRawTokens = (rawTokens: string[]): TokenClassificationResult => {
                 continue;
             }
 
+            if (isContentFilterCandidate(negatedToken)) {
+                const contentValue = parseContentFilterToken(negatedToken);
+                if (contentValue) {
+                    tokens.push({ kind: 'contentNegation', value: contentValue });
+                    // Content filters are non-tag operands.
+                    hasNonTagOperand = true;
+                }
+                // Ignore partial content filters (for example `-content:`) until the token is complete.
+                continue;
+            }
+
+            if (isDueFilterCandidate(negatedToken)) {
+                const dueRange = parseDueFilterToken(negatedToken);
+                if (dueRange) {
+                    tokens.push({ kind: 'dueNegation', range: dueRange });
+                    // Due date filters are non-tag operands.
+                    hasNonTagOperand = true;
+                }
+                // Ignore partial/invalid due filters (for example `-due:`) until the token is complete.
+                continue;
+            }
+
             if (isPropertyFilterCandidate(negatedToken)) {
                 const propertyValue = parsePropertyFilterToken(negatedToken);
                 if (propertyValue) {
@@ -1190,6 +1604,28 @@ const classifyRawTokens = (rawTokens: string[]): TokenClassificationResult => {
             continue;
         }
 
+        if (isContentFilterCandidate(token)) {
+            const contentValue = parseContentFilterToken(token);
+            if (contentValue) {
+                tokens.push({ kind: 'content', value: contentValue });
+                // Content filters are non-tag operands.
+                hasNonTagOperand = true;
+            }
+            // Ignore partial content filters (for example `content:`) until the token is complete.
+            continue;
+        }
+
+        if (isDueFilterCandidate(token)) {
+            const dueRange = parseDueFilterToken(token);
+            if (dueRange) {
+                tokens.push({ kind: 'due', range: dueRange });
+                // Due date filters are non-tag operands.
+                hasNonTagOperand = true;
+            }
+            // Ignore partial/invalid due filters (for example `due:`) until the token is complete.
+            continue;
+        }
+
         if (isPropertyFilterCandidate(token)) {
             const propertyValue = parsePropertyFilterToken(token);
             if (propertyValue) {
@@ -1214,49 +1650,92 @@ const classifyRawTokens = (rawTokens: string[]): TokenClassificationResult => {
         tokens,
         hasTagOperand,
         hasNonTagOperand,
+        hasFilterOperand: tokens.some(token => isFilterOperandToken(token)),
+        hasOperatorSyntax,
+        hasGrouping,
         hasInvalidToken
     };
 };
 
-// Result of building a tag expression tree from classified tokens
-interface TagExpressionBuildResult {
-    expression: TagExpressionToken[];
+// Checks if a classified token is an operand other than a plain name word
+const isFilterOperandToken = (token: ClassifiedToken): boolean => {
+    switch (token.kind) {
+        case 'operator':
+        case 'not':
+        case 'groupStart':
+        case 'groupEnd':
+        case 'name':
+        case 'nameNegation':
+            return false;
+        default:
+            return true;
+    }
+};
+
+// Result of building a filter expression tree from classified tokens
+interface FilterExpressionBuildResult {
+    expression: FilterExpressionToken[];
     includeUntagged: boolean;
     requireTagged: boolean;
     includedTagTokens: string[];
+    excludedTagTokens: string[];
     includedPropertyTokens: PropertySearchToken[];
+    excludedPropertyTokens: PropertySearchToken[];
 }
 
-// Builds a postfix expression tree from classified tokens using operator precedence
-const buildTagExpression = (classifiedTokens: ClassifiedToken[]): TagExpressionBuildResult | null => {
-    const expression: TagExpressionToken[] = [];
-    const operatorStack: InclusionOperator[] = [];
-    const positiveTags = new Set<string>();
-    const positiveProperties = new Map<string, PropertySearchToken>();
-
+// Entries on the operator stack while converting to postfix ('GROUP' marks an open parenthesis)
+type ExpressionStackEntry = InclusionOperator | 'NOT' | 'GROUP';
+
+// Builds a postfix expression tree from classified tokens using operator precedence (NOT > AND > OR)
+const buildFilterExpression = (classifiedTokens: ClassifiedToken[]): FilterExpressionBuildResult | null => {
+    const expression: FilterExpressionToken[] = [];
+    const operatorStack: ExpressionStackEntry[] = [];
+    const includedTags = new Set<string>();
+    const excludedTags = new Set<string>();
+    const includedProperties = new Map<string, PropertySearchToken>();
+    const excludedProperties = new Map<string, PropertySearchToken>();
+    // Negation state of each open group, used to report tag/property polarity for navigation highlighting
+    const groupNegations: boolean[] = [false];
+
+    let pendingNegation = false;
     let expectOperand = true;
     let includeUntagged = false;
     let requireTagged = false;
     let hasOperand = false;
 
-    // Pushes an operator to the expression, respecting precedence
+    // Checks if the next operand is negated by NOT operators or enclosing negated groups
+    const isNegatedContext = (): boolean => {
+        return groupNegations[groupNegations.length - 1] !== pendingNegation;
+    };
+
+    // Moves the top operator from the stack to the expression
+    const popOperator = (): boolean => {
+        const entry = operatorStack.pop();
+        if (!entry || entry === 'GROUP') {
+            return false;
+        }
+        expression.push(entry === 'NOT' ? { kind: 'not' } : { kind: 'operator', operator: entry });
+        return true;
+    };
+
+    // Pushes a binary operator to the stack, respecting precedence
     const pushOperator = (operator: InclusionOperator): boolean => {
         if (expectOperand) {
             return false;
         }
 
-        // Pop higher or equal precedence operators from stack
+        // Pop NOT and higher or equal precedence operators until the enclosing group
         while (operatorStack.length > 0) {
             const top = operatorStack[operatorStack.length - 1];
-            if (OPERATOR_PRECEDENCE[top] >= OPERATOR_PRECEDENCE[operator]) {
-                const popped = operatorStack.pop();
-                if (!popped) {
-                    return false;
-                }
-                expression.push({ kind: 'operator', operator: popped });
-            } else {
+            if (top === 'GROUP') {
                 break;
             }
+            if (top !== 'NOT' && OPERATOR_PRECEDENCE[top] < OPERATOR_PRECEDENCE[operator]) {
+                break;
+            }
+            if (!popOperator()) {
+                return false;
+            }
         }
 
         operatorStack.push(operator);
@@ -1264,21 +1743,43 @@ const buildTagExpression = (classifiedTokens: ClassifiedToken[]): TagExpressionB
         return true;
     };
 
-    // Pushes an operand to the expression, inserting implicit AND if needed
-    const pushOperand = (operand: TagExpressionOperand): boolean => {
-        if (!expectOperand) {
-            // Insert implicit AND between adjacent operands
-            if (!pushOperator('AND')) {
-                return false;
-            }
+    // Inserts an implicit AND when an operand, NOT, or group follows a complete operand
+    const prepareOperandPosition = (): boolean => {
+        return expectOperand || pushOperator('AND');
+    };
+
+    // Pushes an operand to the expression, optionally followed by NOT for negated operands
+    const pushOperand = (operand: FilterExpressionOperand, negated = false): boolean => {
+        if (!prepareOperandPosition()) {
+            return false;
         }
 
         expression.push(operand);
+        if (negated) {
+            expression.push({ kind: 'not' });
+        }
+        pendingNegation = false;
         expectOperand = false;
         hasOperand = true;
         return true;
     };
 
+    const addTagPolarity = (value: string, negated: boolean) => {
+        (negated ? excludedTags : includedTags).add(value);
+    };
+
+    const addPropertyPolarity = (value: PropertySearchToken, negated: boolean) => {
+        const target = negated ? excludedProperties : includedProperties;
+        const propertyKey = value.comparison
+            ? `${value.key}${value.comparison.source}`
+            : value.value
+              ? `${value.key}=${value.value}`
+              : value.key;
+        if (!target.has(propertyKey)) {
+            target.set(propertyKey, value);
+        }
+    };
+
     for (const token of classifiedTokens) {
         if (token.kind === 'operator') {
             if (!pushOperator(token.operator)) {
@@ -1287,17 +1788,61 @@ const buildTagExpression = (classifiedTokens: ClassifiedToken[]): TagExpressionB
             continue;
         }
 
+        if (token.kind === 'not') {
+            if (!prepareOperandPosition()) {
+                return null;
+            }
+            operatorStack.push('NOT');
+            pendingNegation = !pendingNegation;
+            continue;
+        }
+
+        if (token.kind === 'groupStart') {
+            if (!prepareOperandPosition()) {
+                return null;
+            }
+            if (token.negated) {
+                operatorStack.push('NOT');
+                pendingNegation = !pendingNegation;
+            }
+            groupNegations.push(isNegatedContext());
+            pendingNegation = false;
+            operatorStack.push('GROUP');
+            continue;
+        }
+
+        if (token.kind === 'groupEnd') {
+            // Reject empty groups, dangling operators, and unmatched closing parentheses
+            if (expectOperand || groupNegations.length === 1) {
+                return null;
+            }
+            while (operatorStack.length > 0 && operatorStack[operatorStack.length - 1] !== 'GROUP') {
+                if (!popOperator()) {
+                    return null;
+                }
+            }
+            operatorStack.pop();
+            groupNegations.pop();
+            continue;
+        }
+
+        const negatedContext = isNegatedContext();
+
         if (token.kind === 'tag') {
             if (token.value === null) {
                 if (!pushOperand({ kind: 'requireTagged' })) {
                     return null;
                 }
-                requireTagged = true;
+                if (negatedContext) {
+                    includeUntagged = true;
+                } else {
+                    requireTagged = true;
+                }
             } else {
                 if (!pushOperand({ kind: 'tag', value: token.value })) {
                     return null;
                 }
-                positiveTags.add(token.value);
+                addTagPolarity(token.value, negatedContext);
             }
             continue;
         }
@@ -1307,11 +1852,16 @@ const buildTagExpression = (classifiedTokens: ClassifiedToken[]): TagExpressionB
                 if (!pushOperand({ kind: 'untagged' })) {
                     return null;
                 }
-                includeUntagged = true;
+                if (negatedContext) {
+                    requireTagged = true;
+                } else {
+                    includeUntagged = true;
+                }
             } else {
                 if (!pushOperand({ kind: 'notTag', value: token.value })) {
                     return null;
                 }
+                addTagPolarity(token.value, !negatedContext);
             }
             continue;
         }
@@ -1320,10 +1870,7 @@ const buildTagExpression = (classifiedTokens: ClassifiedToken[]): TagExpressionB
             if (!pushOperand({ kind: 'property', value: token.value })) {
                 return null;
             }
-            const propertyKey = token.value.value ? `${token.value.key}=${token.value.value}` : token.value.key;
-            if (!positiveProperties.has(propertyKey)) {
-                positiveProperties.set(propertyKey, token.value);
-            }
+            addPropertyPolarity(token.value, negatedContext);
             continue;
         }
 
@@ -1331,10 +1878,44 @@ const buildTagExpression = (classifiedTokens: ClassifiedToken[]): TagExpressionB
             if (!pushOperand({ kind: 'notProperty', value: token.value })) {
                 return null;
             }
+            addPropertyPolarity(token.value, !negatedContext);
             continue;
         }
 
-        return null;
+        let pushed = false;
+        switch (token.kind) {
+            case 'name':
+            case 'nameNegation':
+                pushed = pushOperand({ kind: 'name', value: token.value }, token.kind === 'nameNegation');
+                break;
+            case 'folder':
+            case 'folderNegation':
+                pushed = pushOperand({ kind: 'folder', value: token.value }, token.kind === 'folderNegation');
+                break;
+            case 'extension':
+            case 'extensionNegation':
+                pushed = pushOperand({ kind: 'extension', value: token.value }, token.kind === 'extensionNegation');
+                break;
+            case 'content':
+            case 'contentNegation':
+                pushed = pushOperand({ kind: 'content', value: token.value }, token.kind === 'contentNegation');
+                break;
+            case 'date':
+            case 'dateNegation':
+                pushed = pushOperand({ kind: 'date', range: token.range }, token.kind === 'dateNegation');
+                break;
+            case 'due':
+            case 'dueNegation':
+                pushed = pushOperand({ kind: 'due', range: token.range }, token.kind === 'dueNegation');
+                break;
+            case 'unfinishedTask':
+            case 'unfinishedTaskNegation':
+                pushed = pushOperand({ kind: 'unfinishedTask' }, token.kind === 'unfinishedTaskNegation');
+                break;
+        }
+        if (!pushed) {
+            return null;
+        }
     }
 
     // Validate expression is not incomplete
@@ -1342,13 +1923,17 @@ const buildTagExpression = (classifiedTokens: ClassifiedToken[]): TagExpressionB
         return null;
     }
 
-    // Pop remaining operators from stack
+    // Pop remaining operators from stack. Unclosed groups are closed implicitly so
+    // results stay stable while the closing parenthesis is still being typed.
     while (operatorStack.length > 0) {
-        const operator = operatorStack.pop();
-        if (!operator) {
-            break;
+        const entry = operatorStack[operatorStack.length - 1];
+        if (entry === 'GROUP') {
+            operatorStack.pop();
+            continue;
+        }
+        if (!popOperator()) {
+            return null;
         }
-        expression.push({ kind: 'operator', operator });
     }
 
     // Validate expression has at least one operand
@@ -1356,7 +1941,7 @@ const buildTagExpression = (classifiedTokens: ClassifiedToken[]): TagExpressionB
         return null;
     }
 
-    // Validate postfix expression structure (each operator consumes two operands)
+    // Validate postfix expression structure (binary operators consume two operands, NOT consumes one)
     let depth = 0;
     for (const token of expression) {
         if (token.kind === 'operator') {
@@ -1364,6 +1949,10 @@ const buildTagExpression = (classifiedTokens: ClassifiedToken[]): TagExpressionB
                 return null;
             }
             depth -= 1;
+        } else if (token.kind === 'not') {
+            if (depth < 1) {
+                return null;
+            }
         } else {
             depth += 1;
         }
@@ -1378,16 +1967,17 @@ const buildTagExpression = (classifiedTokens: ClassifiedToken[]): TagExpressionB
         expression,
         includeUntagged,
         requireTagged,
-        includedTagTokens: Array.from(positiveTags),
-        includedPropertyTokens: Array.from(positiveProperties.values())
+        includedTagTokens: Array.from(includedTags),
+        excludedTagTokens: Array.from(excludedTags),
+        includedPropertyTokens: Array.from(includedProperties.values()),
+        excludedPropertyTokens: Array.from(excludedProperties.values())
     };
 };
 
-// Evaluates a postfix tag expression against a file's tags
-const evaluateTagExpression = (
-    expression: TagExpressionToken[],
-    lowercaseTags: string[],
-    propertyValuesByKey: Map<string, string[]>
+// Evaluates a postfix filter expression, resolving each operand with the provided matcher
+const evaluateFilterExpression = (
+    expression: FilterExpressionToken[],
+    matchesOperand: (operand: FilterExpressionOperand) => boolean
 ): boolean => {
     if (expression.length === 0) {
         return true;
@@ -1395,15 +1985,6 @@ const evaluateTagExpression = (
 
     const stack: boolean[] = [];
 
-    const hasTagMatch = (token: string): boolean => {
-        for (const tag of lowercaseTags) {
-            if (tagMatchesToken(tag, token)) {
-                return true;
-            }
-        }
-        return false;
-    };
-
     for (const token of expression) {
         if (token.kind === 'operator') {
             const right = stack.pop();
@@ -1415,41 +1996,25 @@ const evaluateTagExpression = (
             continue;
         }
 
-        let value = false;
-        if (token.kind === 'tag') {
-            value = hasTagMatch(token.value);
-        } else if (token.kind === 'notTag') {
-            value = !hasTagMatch(token.value);
-        } else if (token.kind === 'requireTagged') {
-            value = lowercaseTags.length > 0;
-        } else if (token.kind === 'untagged') {
-            value = lowercaseTags.length === 0;
-        } else if (token.kind === 'property') {
-            value = propertyTokenMatches(propertyValuesByKey, token.value);
-        } else if (token.kind === 'notProperty') {
-            value = !propertyTokenMatches(propertyValuesByKey, token.value);
+        if (token.kind === 'not') {
+            const value = stack.pop();
+            if (value === undefined) {
+                return false;
+            }
+            stack.push(!value);
+            continue;
         }
-        stack.push(value);
+
+        stack.push(matchesOperand(token));
     }
 
     return stack.length === 0 ? true : Boolean(stack[stack.length - 1]);
 };
 
-const evaluateTagRequirementExpression = (expression: TagExpressionToken[], lowercaseTags: string[]): boolean => {
-    if (expression.length === 0) {
-        return true;
-    }
-
-    const stack: boolean[] = [];
-
-    const hasTagMatch = (token: string): boolean => {
-        for (const tag of lowercaseTags) {
-            if (tagMatchesToken(tag, token)) {
-                return true;
-            }
-        }
-        return false;
-    };
+// Checks if an expression fails for every file without tags.
+// Operands unrelated to tags are unknown (null), so a clause only counts when it fails regardless of other criteria.
+const expressionRequiresTags = (expression: FilterExpressionToken[]): boolean => {
+    const stack: (boolean | null)[] = [];
 
     for (const token of expression) {
         if (token.kind === 'operator') {
@@ -1458,73 +2023,91 @@ const evaluateTagRequirementExpression = (expression: TagExpressionToken[], lowe
             if (left === undefined || right === undefined) {
                 return false;
             }
-            stack.push(token.operator === 'AND' ? left && right : left || right);
+            if (token.operator === 'AND') {
+                stack.push(left === false || right === false ? false : left === true && right === true ? true : null);
+            } else {
+                stack.push(left === true || right === true ? true : left === false && right === false ? false : null);
+            }
             continue;
         }
 
-        let value = false;
-        if (token.kind === 'tag') {
-            value = hasTagMatch(token.value);
-        } else if (token.kind === 'notTag') {
-            value = !hasTagMatch(token.value);
-        } else if (token.kind === 'requireTagged') {
-            value = lowercaseTags.length > 0;
-        } else if (token.kind === 'untagged') {
-            value = lowercaseTags.length === 0;
-        } else if (token.kind === 'property' || token.kind === 'notProperty') {
-            value = true;
+        if (token.kind === 'not') {
+            const value = stack.pop();
+            if (value === undefined) {
+                return false;
+            }
+            stack.push(value === null ? null : !value);
+            continue;
+        }
+
+        if (token.kind === 'tag' || token.kind === 'requireTagged') {
+            stack.push(false);
+        } else if (token.kind === 'notTag' || token.kind === 'untagged') {
+            stack.push(true);
+        } else {
+            stack.push(null);
         }
-        stack.push(value);
     }
 
-    return stack.length === 0 ? true : Boolean(stack[stack.length - 1]);
+    return stack.length > 0 && stack[stack.length - 1] === false;
 };
 
-// Parses tokens into tag expression mode with OR/AND precedence
-const parseTagModeTokens = (
-    classifiedTokens: ClassifiedToken[],
-    excludeTagTokens: string[],
-    excludePropertyTokens: PropertySearchToken[]
-): FilterSearchTokens | null => {
-    const tagExpressionTokens: ClassifiedToken[] = [];
-    for (const token of classifiedTokens) {
-        if (
-            token.kind === 'tag' ||
-            token.kind === 'tagNegation' ||
-            token.kind === 'property' ||
-            token.kind === 'propertyNegation' ||
-            token.kind === 'operator'
-        ) {
-            tagExpressionTokens.push(token);
-            continue;
-        }
+// Checks if an expression contains an operand of the given kind
+const expressionHasOperand = (expression: FilterExpressionToken[], kind: FilterExpressionOperand['kind']): boolean => {
+    return expression.some(token => token.kind === kind);
+};
 
-        // Tag mode accepts only tag/property operands and connectors.
-        // Non-tag operands are handled in filter mode.
-        return null;
+// Parses tokens into an expression tree with NOT/AND/OR precedence and grouping.
+// Tag mode accepts only tag/property operands; expression mode accepts every operand kind.
+const parseExpressionModeTokens = (classifiedTokens: ClassifiedToken[], mode: 'tag' | 'expression'): FilterSearchTokens | null => {
+    if (mode === 'tag') {
+        const hasNonTagOperand = classifiedTokens.some(token => {
+            switch (token.kind) {
+                case 'tag':
+                case 'tagNegation':
+                case 'property':
+                case 'propertyNegation':
+                case 'operator':
+                case 'not':
+                case 'groupStart':
+                case 'groupEnd':
+                    return false;
+                default:
+                    return true;
+            }
+        });
+        // Non-tag operands are handled in expression or filter mode.
+        if (hasNonTagOperand) {
+            return null;
+        }
     }
 
-    const buildResult = buildTagExpression(tagExpressionTokens);
+    const buildResult = buildFilterExpression(classifiedTokens);
     if (!buildResult) {
         return null;
     }
 
-    const { expression, includeUntagged, requireTagged, includedTagTokens, includedPropertyTokens } = buildResult;
+    const {
+        expression,
+        includeUntagged,
+        requireTagged,
+        includedTagTokens,
+        excludedTagTokens,
+        includedPropertyTokens,
+        excludedPropertyTokens
+    } = buildResult;
     const hasInclusions = expression.length > 0;
     const requiresTags = expression.some(token => {
-        return (
-            token.kind !== 'operator' &&
-            (token.kind === 'tag' || token.kind === 'notTag' || token.kind === 'requireTagged' || token.kind === 'untagged')
-        );
+        return token.kind === 'tag' || token.kind === 'notTag' || token.kind === 'requireTagged' || token.kind === 'untagged';
     });
     const requiresProperties = expression.some(token => {
-        return token.kind !== 'operator' && (token.kind === 'property' || token.kind === 'notProperty');
+        return token.kind === 'property' || token.kind === 'notProperty';
     });
-    // Check if empty tag array would fail (meaning all clauses require tags)
-    const allRequireTags = hasInclusions ? !evaluateTagRequirementExpression(expression, []) : false;
+    // Check if an empty tag array would fail (meaning all clauses require tags)
+    const allRequireTags = hasInclusions ? expressionRequiresTags(expression) : false;
 
     return {
-        mode: 'tag',
+        mode,
         expression,
         hasInclusions,
         requiresTags,
@@ -1533,42 +2116,48 @@ const parseTagModeTokens = (
         excludeUnfinishedTasks: false,
         includedTagTokens,
         propertyTokens: includedPropertyTokens,
-        excludePropertyTokens,
+        excludePropertyTokens: excludedPropertyTokens,
         requiresProperties,
         nameTokens: [],
         tagTokens: includedTagTokens.slice(),
         dateRanges: [],
+        dueRanges: [],
         requireTagged,
         includeUntagged,
         excludeNameTokens: [],
-        excludeTagTokens,
+        excludeTagTokens: excludedTagTokens,
         folderTokens: [],
         excludeFolderTokens: [],
         extensionTokens: [],
         excludeExtensionTokens: [],
+        contentTokens: [],
+        excludeContentTokens: [],
         excludeDateRanges: [],
+        excludeDueRanges: [],
         excludeTagged: false
     };
 };
 
 // Parses tokens into filter mode with simple AND semantics
-const parseFilterModeTokens = (
-    classifiedTokens: ClassifiedToken[],
-    excludeTagTokens: string[],
-    excludePropertyTokens: PropertySearchToken[],
-    hasUntaggedOperand: boolean
-): FilterSearchTokens => {
+const parseFilterModeTokens = (classifiedTokens: ClassifiedToken[]): FilterSearchTokens => {
+    const excludeTagTokens: string[] = [];
+    const excludePropertyTokens: PropertySearchToken[] = [];
+    let hasUntaggedOperand = false;
     const nameTokens: string[] = [];
     const tagTokens: string[] = [];
     const propertyTokens: PropertySearchToken[] = [];
     const folderTokens: FolderFilterToken[] = [];
     const extensionTokens: string[] = [];
+    const contentTokens: string[] = [];
     const dateRanges: DateFilterRange[] = [];
+    const dueRanges: DueFilterRange[] = [];
     const connectorCandidates: string[] = [];
     const excludeNameTokens: string[] = [];
     const excludeFolderTokens: FolderFilterToken[] = [];
     const excludeExtensionTokens: string[] = [];
+    const excludeContentTokens: string[] = [];
     const excludeDateRanges: DateFilterRange[] = [];
+    const excludeDueRanges: DueFilterRange[] = [];
     let requireUnfinishedTasks = false;
     let excludeUnfinishedTasks = false;
     let requireTagged = false;
@@ -1597,9 +2186,15 @@ const parseFilterModeTokens = (
             case 'extension':
                 extensionTokens.push(token.value);
                 break;
+            case 'content':
+                contentTokens.push(token.value);
+                break;
             case 'date':
                 dateRanges.push(token.range);
                 break;
+            case 'due':
+                dueRanges.push(token.range);
+                break;
             case 'unfinishedTask':
                 requireUnfinishedTasks = true;
                 break;
@@ -1609,9 +2204,28 @@ const parseFilterModeTokens = (
             case 'operator':
                 connectorCandidates.push(token.operator.toLowerCase());
                 break;
+            case 'not':
+                connectorCandidates.push(NOT_OPERATOR_TOKEN);
+                break;
+            case 'groupStart':
+                if (token.negated) {
+                    excludeNameTokens.push(GROUP_START_TOKEN);
+                } else {
+                    connectorCandidates.push(GROUP_START_TOKEN);
+                }
+                break;
+            case 'groupEnd':
+                connectorCandidates.push(GROUP_END_TOKEN);
+                break;
             case 'tagNegation':
+                if (token.value === null) {
+                    hasUntaggedOperand = true;
+                } else {
+                    excludeTagTokens.push(token.value);
+                }
                 break;
             case 'propertyNegation':
+                excludePropertyTokens.push(token.value);
                 break;
             case 'folderNegation':
                 excludeFolderTokens.push(token.value);
@@ -1619,15 +2233,21 @@ const parseFilterModeTokens = (
             case 'extensionNegation':
                 excludeExtensionTokens.push(token.value);
                 break;
+            case 'contentNegation':
+                excludeContentTokens.push(token.value);
+                break;
             case 'dateNegation':
                 excludeDateRanges.push(token.range);
                 break;
+            case 'dueNegation':
+                excludeDueRanges.push(token.range);
+                break;
         }
     }
 
-    // Treat connector words as literal tokens when not in tag mode.
-    // This allows users to search for "and"/"or" in file names while
-    // keeping explicit operator behavior exclusive to pure tag queries.
+    // Treat connector words and parentheses as literal tokens when the query
+    // is not an expression. This allows users to search for "and"/"or" in
+    // file names with plain word queries.
     if (connectorCandidates.length > 0) {
         nameTokens.push(...connectorCandidates);
     }
@@ -1638,7 +2258,9 @@ const parseFilterModeTokens = (
         propertyTokens.length > 0 ||
         folderTokens.length > 0 ||
         extensionTokens.length > 0 ||
+        contentTokens.length > 0 ||
         dateRanges.length > 0 ||
+        dueRanges.length > 0 ||
         requireTagged ||
         requireUnfinishedTasks;
     const requiresTags = requireTagged || tagTokens.length > 0;
@@ -1661,6 +2283,7 @@ const parseFilterModeTokens = (
         nameTokens,
         tagTokens,
         dateRanges,
+        dueRanges,
         requireTagged,
         includeUntagged: hasUntaggedOperand,
         excludeNameTokens,
@@ -1669,7 +2292,10 @@ const parseFilterModeTokens = (
         excludeFolderTokens,
         extensionTokens,
         excludeExtensionTokens,
+        contentTokens,
+        excludeContentTokens,
         excludeDateRanges,
+        excludeDueRanges,
         excludeTagged: hasUntaggedOperand
     };
 };
@@ -1689,28 +2315,36 @@ const parseFilterModeTokens = (
  * - @YYYY-MM-DD..YYYY-MM-DD - Include notes matching the default date field inside an inclusive day range (open ends supported)
  * - @c:... / @m:... - Target created/modified date field for a date token
  * - has:task - Include notes with unfinished tasks
+ * - due:overdue / due:thisweek / due:YYYY-MM-DD..YYYY-MM-DD - Include notes with an open task due in the range
  * - folder:meetings - Include notes where any folder segment contains "meetings"
  * - folder:/work/meetings - Include notes whose parent folder path is exactly "work/meetings"
  * - folder:/ - Include notes in the vault root
  * - ext:md - Include notes with extension "md"
- * - word - Include notes with "word" in their name
+ * - content:word - Include notes whose body contains a word starting with "word" (internal content index)
+ * - .key>=3 / .key<2026-11-01 - Include notes whose number or date property satisfies the comparison (>, >=, <, <=)
+ * - .key:thisweek / .key:1..5 - Include notes whose property falls inside a relative date, date, number, or inclusive range
+ * - word - Include notes with "word" in their name (or body, when bare terms match content)
  *
  * Exclusion patterns (must NOT match):
  * - -#tag - Exclude notes with tags containing "tag"
  * - -# - Exclude all tagged notes (show only untagged)
  * - -@... - Exclude notes matching a date token or range
  * - -has:task - Exclude notes with unfinished tasks
+ * - -due:... - Exclude notes with an open task due in the range
  * - -folder:archive - Exclude notes where any folder segment contains "archive"
  * - -folder:/archive - Exclude notes whose parent folder path is exactly "archive"
  * - -ext:pdf - Exclude notes with extension "pdf"
- * - -word - Exclude notes with "word" in their name
+ * - -content:word - Exclude notes whose body contains a word starting with "word"
+ * - -word - Exclude notes with "word" in their name (or body, when bare terms match content)
  *
- * Special handling:
- * - AND/OR act as operators only in pure tag queries
- * - Mixed queries treat AND/OR as literal name tokens
- * - In pure tag queries, AND has higher precedence than OR
+ * Expressions:
+ * - AND/OR/NOT act as operators when the query contains a filter token (tag, property, date, task, due date,
+ *   folder, extension, content) or parentheses, for example `(folder:projects OR folder:areas) AND #active AND -ext:pdf`
+ * - ( ... ) groups terms and -( ... ) negates a group; unclosed groups are closed at the end of the query
+ * - NOT binds tighter than AND, and AND binds tighter than OR
  * - Adjacent tokens without connectors implicitly use AND
- * - Leading or consecutive connectors are treated as literal text tokens in filter mode
+ * - Plain word queries without parentheses treat AND/OR/NOT as literal name tokens
+ * - Malformed expressions (leading, trailing, or consecutive connectors) fall back to filter mode with literal connectors
  * - All tokens are normalized to lowercase for case-insensitive matching
  *
  * @param query - Raw search query from the UI
@@ -1732,36 +2366,25 @@ export function parseFilterSearchTokens(query: string): FilterSearchTokens {
     const classification = classifyRawTokens(rawTokens);
     const { tokens: classifiedTokens } = classification;
 
-    const excludeTagTokens: string[] = [];
-    const excludePropertyTokens: PropertySearchToken[] = [];
-    let hasUntaggedOperand = false;
-    for (const token of classifiedTokens) {
-        if (token.kind === 'tagNegation') {
-            if (token.value === null) {
-                hasUntaggedOperand = true;
-            } else {
-                excludeTagTokens.push(token.value);
-            }
-            continue;
-        }
-
-        if (token.kind === 'propertyNegation') {
-            excludePropertyTokens.push(token.value);
-        }
-    }
-
     if (canUseTagMode(classification)) {
         // Tag mode is only allowed for pure tag expressions.
-        // Once a query includes any non-tag operand (name/date/task),
-        // we intentionally stay in filter mode so connector words are
-        // evaluated as literal name tokens.
-        const tagTokens = parseTagModeTokens(classifiedTokens, excludeTagTokens, excludePropertyTokens);
+        const tagTokens = parseExpressionModeTokens(classifiedTokens, 'tag');
         if (tagTokens) {
             return tagTokens;
         }
     }
 
-    return parseFilterModeTokens(classifiedTokens, excludeTagTokens, excludePropertyTokens, hasUntaggedOperand);
+    if (canUseExpressionMode(classification)) {
+        // Mixed queries with operators or parentheses evaluate as one expression
+        // across every operand kind. Malformed expressions (dangling operators,
+        // unmatched closing parentheses) fall back to filter mode below.
+        const expressionTokens = parseExpressionModeTokens(classifiedTokens, 'expression');
+        if (expressionTokens) {
+            return expressionTokens;
+        }
+    }
+
+    return parseFilterModeTokens(classifiedTokens);
 }
 
 // Checks if a token is a recognized connector word
@@ -1772,6 +2395,21 @@ const isConnectorToken = (value: string | undefined): boolean => {
     return CONNECTOR_TOKEN_SET.has(value.toLowerCase());
 };
 
+// Checks if a token is the NOT operator word
+const isNotOperatorToken = (value: string | undefined): boolean => {
+    return value !== undefined && value.toLowerCase() === NOT_OPERATOR_TOKEN;
+};
+
+// Checks if a token opens a group (`(` or `-(`)
+const isGroupStartToken = (value: string | undefined): boolean => {
+    return value === GROUP_START_TOKEN || value === NEGATED_GROUP_START_TOKEN;
+};
+
+// Checks if a token closes a group
+const isGroupEndToken = (value: string | undefined): boolean => {
+    return value === GROUP_END_TOKEN;
+};
+
 // Checks whether a query contains only tag/property operands and connector words.
 const isTagOnlyMutationQuery = (query: string): boolean => {
     const trimmed = query.trim();
@@ -1784,7 +2422,7 @@ const isTagOnlyMutationQuery = (query: string): boolean => {
 
     for (const token of tokens) {
         const lowercaseToken = token.toLowerCase();
-        if (isConnectorToken(lowercaseToken)) {
+        if (isConnectorToken(lowercaseToken) || isNotOperatorToken(lowercaseToken) || isGroupStartToken(token) || isGroupEndToken(token)) {
             continue;
         }
 
@@ -1809,6 +2447,14 @@ const isTagOnlyMutationQuery = (query: string): boolean => {
     return hasTagOperand;
 };
 
+// Checks whether query mutations should maintain connector operators (tag-only or mixed expression queries).
+const isExpressionMutationQuery = (query: string): boolean => {
+    if (isTagOnlyMutationQuery(query)) {
+        return true;
+    }
+    return parseFilterSearchTokens(query).mode === 'expression';
+};
+
 const escapeQuotedTokenValue = (value: string): string => {
     return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
 };
@@ -1821,9 +2467,10 @@ const escapePropertyFilterPartForQuery = (value: string): string => {
     return value.replace(/\\/g, '\\\\').replace(/=/g, '\\=');
 };
 
-const formatPropertyFilterPartForQuery = (value: string): string => {
+// Keys are also quoted when they contain comparison characters so they are not read as `.key<value` or `.key:value`
+const formatPropertyFilterPartForQuery = (value: string, isKey = false): string => {
     const escaped = escapePropertyFilterPartForQuery(value);
-    if (!shouldQuoteQueryTokenPart(value)) {
+    if (!shouldQuoteQueryTokenPart(value) && !(isKey && /[<>:]/.test(value))) {
         return escaped;
     }
 
@@ -1833,7 +2480,10 @@ const formatPropertyFilterPartForQuery = (value: string): string => {
 
 const formatPropertyTokenForQuery = (propertyToken: PropertySearchToken, negated = false): string => {
     const prefix = negated ? '-.' : '.';
-    const serializedKey = formatPropertyFilterPartForQuery(propertyToken.key);
+    const serializedKey = formatPropertyFilterPartForQuery(propertyToken.key, true);
+    if (propertyToken.comparison) {
+        return `${prefix}${serializedKey}${propertyToken.comparison.source}`;
+    }
     if (propertyToken.value === null) {
         return `${prefix}${serializedKey}`;
     }
@@ -1853,7 +2503,14 @@ const serializeMutationToken = (token: string): string => {
         }
     }
 
-    if (/\s/.test(token) || token.includes('"') || token.includes('\\')) {
+    if (isGroupStartToken(token) || isGroupEndToken(token)) {
+        return token;
+    }
+
+    // Quote literal text that would otherwise be split into grouping parentheses
+    const hasGroupingEdge =
+        token.startsWith('(') || token.startsWith('-(') || (token.endsWith(')') && !hasUnclosedParenthesis(token.slice(0, -1)));
+    if (/\s/.test(token) || token.includes('"') || token.includes('\\') || hasGroupingEdge) {
         return `"${escapeQuotedTokenValue(token)}"`;
     }
 
@@ -1861,10 +2518,16 @@ const serializeMutationToken = (token: string): string => {
 };
 
 const serializeMutationTokens = (tokens: string[]): string => {
-    return tokens
-        .map(token => serializeMutationToken(token))
-        .join(' ')
-        .trim();
+    let query = '';
+    let previousToken: string | undefined;
+    for (const token of tokens) {
+        const serialized = serializeMutationToken(token);
+        // Keep parentheses attached to the tokens they enclose
+        const needsSpace = query.length > 0 && !isGroupStartToken(previousToken) && !isGroupEndToken(token);
+        query += needsSpace ? ` ${serialized}` : serialized;
+        previousToken = token;
+    }
+    return query.trim();
 };
 
 export interface UpdateFilterQueryWithTagResult {
@@ -1892,26 +2555,48 @@ const removeMutationToken = (tokens: string[], removalIndex: number, expressionM
         return updatedTokens;
     }
 
-    const precedingIndex = removalIndex - 1;
+    let precedingIndex = removalIndex - 1;
+    // A NOT directly before the removed operand applied only to that operand
+    if (precedingIndex >= 0 && isNotOperatorToken(updatedTokens[precedingIndex])) {
+        updatedTokens.splice(precedingIndex, 1);
+        precedingIndex -= 1;
+    }
     if (precedingIndex >= 0 && isConnectorToken(updatedTokens[precedingIndex])) {
         updatedTokens.splice(precedingIndex, 1);
     }
 
-    while (updatedTokens.length > 0 && isConnectorToken(updatedTokens[0])) {
-        updatedTokens.shift();
-    }
+    // Remove connectors and NOT operators left without operands, and groups left empty
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (let index = 0; index < updatedTokens.length; index += 1) {
+            const token = updatedTokens[index];
+            const previous = index > 0 ? updatedTokens[index - 1] : undefined;
+            const next = index + 1 < updatedTokens.length ? updatedTokens[index + 1] : undefined;
+
+            const isDanglingConnector =
+                isConnectorToken(token) &&
+                (previous === undefined ||
+                    isConnectorToken(previous) ||
+                    isNotOperatorToken(previous) ||
+                    isGroupStartToken(previous) ||
+                    next === undefined ||
+                    isGroupEndToken(next));
+            const isDanglingNot = isNotOperatorToken(token) && (next === undefined || isConnectorToken(next) || isGroupEndToken(next));
+            if (isDanglingConnector || isDanglingNot) {
+                updatedTokens.splice(index, 1);
+                changed = true;
+                break;
+            }
 
-    for (let index = 0; index < updatedTokens.length - 1; index += 1) {
-        if (isConnectorToken(updatedTokens[index]) && isConnectorToken(updatedTokens[index + 1])) {
-            updatedTokens.splice(index + 1, 1);
-            index -= 1;
+            if (isGroupStartToken(token) && isGroupEndToken(next)) {
+                updatedTokens.splice(index, 2);
+                changed = true;
+                break;
+            }
         }
     }
 
-    while (updatedTokens.length > 0 && isConnectorToken(updatedTokens[updatedTokens.length - 1])) {
-        updatedTokens.pop();
-    }
-
     return updatedTokens;
 };
 
@@ -1923,9 +2608,10 @@ const appendMutationToken = (tokens: string[], token: string, operator: Inclusio
     }
 
     const connector = operator === 'OR' ? 'OR' : 'AND';
-    if (nextTokens.length === 0) {
+    const lastToken = nextTokens[nextTokens.length - 1];
+    if (nextTokens.length === 0 || isGroupStartToken(lastToken) || isNotOperatorToken(lastToken)) {
         nextTokens.push(token);
-    } else if (isConnectorToken(nextTokens[nextTokens.length - 1])) {
+    } else if (isConnectorToken(lastToken)) {
         nextTokens[nextTokens.length - 1] = connector;
         nextTokens.push(token);
     } else {
@@ -1937,8 +2623,8 @@ const appendMutationToken = (tokens: string[], token: string, operator: Inclusio
 
 /**
  * Toggle a normalized tag inside a raw query string.
- * In tag-only queries, connectors are inserted/cleaned as expression operators.
- * In mixed queries, tags are appended/removed without connector mutation.
+ * In tag-only and expression queries, connectors are inserted/cleaned as expression operators.
+ * In other mixed queries, tags are appended/removed without connector mutation.
  * Returns the updated query string and whether the operation modified the input.
  */
 export function updateFilterQueryWithTag(
@@ -1957,12 +2643,12 @@ export function updateFilterQueryWithTag(
 
     const formattedTag = `#${normalizedTag}`;
     const tokens = trimmed.length > 0 ? tokenizeFilterSearchQuery(trimmed) : [];
-    const tagOnlyQuery = isTagOnlyMutationQuery(trimmed);
+    const expressionQuery = isExpressionMutationQuery(trimmed);
     const lowerTarget = formattedTag.toLowerCase();
     const removalIndex = tokens.findIndex(token => token.toLowerCase() === lowerTarget);
 
     if (removalIndex !== -1) {
-        const updatedTokens = removeMutationToken(tokens, removalIndex, tagOnlyQuery);
+        const updatedTokens = removeMutationToken(tokens, removalIndex, expressionQuery);
 
         const nextQuery = serializeMutationTokens(updatedTokens);
         return {
@@ -1972,7 +2658,7 @@ export function updateFilterQueryWithTag(
         };
     }
 
-    const nextTokens = appendMutationToken(tokens, formattedTag, operator, tagOnlyQuery);
+    const nextTokens = appendMutationToken(tokens, formattedTag, operator, expressionQuery);
 
     const nextQuery = serializeMutationTokens(nextTokens);
     return {
@@ -2014,7 +2700,7 @@ export function updateFilterQueryWithProperty(
     const propertyToken: PropertySearchToken = { key: normalizedKey, value: normalizedValue };
     const formattedToken = formatPropertyTokenForQuery(propertyToken);
     const tokens = trimmed.length > 0 ? tokenizeFilterSearchQuery(trimmed) : [];
-    const tagOnlyQuery = isTagOnlyMutationQuery(trimmed);
+    const expressionQuery = isExpressionMutationQuery(trimmed);
 
     const removalIndex = tokens.findIndex(token => {
         const normalizedToken = token.toLowerCase();
@@ -2025,11 +2711,11 @@ export function updateFilterQueryWithProperty(
         if (!parsed) {
             return false;
         }
-        return parsed.key === propertyToken.key && parsed.value === propertyToken.value;
+        return !parsed.comparison && parsed.key === propertyToken.key && parsed.value === propertyToken.value;
     });
 
     if (removalIndex !== -1) {
-        const updatedTokens = removeMutationToken(tokens, removalIndex, tagOnlyQuery);
+        const updatedTokens = removeMutationToken(tokens, removalIndex, expressionQuery);
 
         const nextQuery = serializeMutationTokens(updatedTokens);
         return {
@@ -2039,7 +2725,7 @@ export function updateFilterQueryWithProperty(
         };
     }
 
-    const nextTokens = appendMutationToken(tokens, formattedToken, operator, tagOnlyQuery);
+    const nextTokens = appendMutationToken(tokens, formattedToken, operator, expressionQuery);
 
     const nextQuery = serializeMutationTokens(nextTokens);
     return {
@@ -2079,7 +2765,9 @@ export function filterSearchHasActiveCriteria(tokens: FilterSearchTokens): boole
         tokens.excludePropertyTokens.length > 0 ||
         tokens.excludeFolderTokens.length > 0 ||
         tokens.excludeExtensionTokens.length > 0 ||
+        tokens.excludeContentTokens.length > 0 ||
         tokens.excludeDateRanges.length > 0 ||
+        tokens.excludeDueRanges.length > 0 ||
         tokens.excludeUnfinishedTasks ||
         tokens.excludeTagged
     );
@@ -2099,6 +2787,64 @@ export function filterSearchNeedsPropertyLookup(tokens: FilterSearchTokens): boo
     return tokens.requiresProperties || tokens.excludePropertyTokens.length > 0;
 }
 
+/**
+ * Check if evaluating the parsed tokens requires the content index.
+ *
+ * @param tokens - Parsed query tokens
+ * @param nameTokensMatchContent - True when bare terms also match note content
+ */
+export function filterSearchNeedsContentLookup(tokens: FilterSearchTokens, nameTokensMatchContent: boolean): boolean {
+    if (tokens.contentTokens.length > 0 || tokens.excludeContentTokens.length > 0) {
+        return true;
+    }
+    if (expressionHasOperand(tokens.expression, 'content')) {
+        return true;
+    }
+    if (!nameTokensMatchContent) {
+        return false;
+    }
+    return tokens.nameTokens.length > 0 || tokens.excludeNameTokens.length > 0 || expressionHasOperand(tokens.expression, 'name');
+}
+
+/**
+ * Check if evaluating the parsed tokens requires the file's unfinished task count.
+ */
+export function filterSearchNeedsTaskLookup(tokens: FilterSearchTokens): boolean {
+    return tokens.requireUnfinishedTasks || tokens.excludeUnfinishedTasks || expressionHasOperand(tokens.expression, 'unfinishedTask');
+}
+
+/**
+ * Check if evaluating the parsed tokens requires the due dates of the file's open tasks.
+ */
+export function filterSearchNeedsDueLookup(tokens: FilterSearchTokens): boolean {
+    return tokens.dueRanges.length > 0 || tokens.excludeDueRanges.length > 0 || expressionHasOperand(tokens.expression, 'due');
+}
+
+/**
+ * Check if evaluating the parsed tokens requires file timestamps.
+ */
+export function filterSearchNeedsDateLookup(tokens: FilterSearchTokens): boolean {
+    return tokens.dateRanges.length > 0 || tokens.excludeDateRanges.length > 0 || expressionHasOperand(tokens.expression, 'date');
+}
+
+/**
+ * Check if evaluating the parsed tokens requires the file's parent folder path.
+ */
+export function filterSearchNeedsFolderLookup(tokens: FilterSearchTokens): boolean {
+    return tokens.folderTokens.length > 0 || tokens.excludeFolderTokens.length > 0 || expressionHasOperand(tokens.expression, 'folder');
+}
+
+/**
+ * Check if evaluating the parsed tokens requires the file extension.
+ */
+export function filterSearchNeedsExtensionLookup(tokens: FilterSearchTokens): boolean {
+    return (
+        tokens.extensionTokens.length > 0 ||
+        tokens.excludeExtensionTokens.length > 0 ||
+        expressionHasOperand(tokens.expression, 'extension')
+    );
+}
+
 /**
  * Check if every matching clause requires tagged files.
  */
@@ -2111,21 +2857,29 @@ export interface FilterSearchMatchOptions {
     lowercaseFolderPath?: string;
     lowercaseExtension?: string;
     propertyValuesByKey?: Map<string, string[]>;
+    /** Checks a lowercase search value against the file's indexed content. Content tokens never match without it. */
+    contentMatcher?: (value: string) => boolean;
+    /** When true, bare name tokens match either the file name or the indexed content. */
+    nameTokensMatchContent?: boolean;
+    /** File timestamps for date operands inside expressions. Filter mode checks dates with `fileMatchesDateFilterTokens`. */
+    dates?: FilterSearchFileDateContext;
+    /** Local-midnight timestamps of the due dates on the file's open tasks. Due tokens never match without them. */
+    openTaskDueDates?: readonly number[];
 }
 
 /**
  * Check if a file matches parsed filter search tokens.
  *
  * Filtering logic:
- * - Inclusion clauses are evaluated with AND semantics; the file must satisfy every token inside a clause
- * - If any clause matches, the file is accepted (OR across clauses)
- * - All exclusion tokens (-name, -#tag, -folder:..., -ext:...) are ANDed - file must match NONE
+ * - Filter mode: every inclusion token must match and every exclusion token (-name, -#tag, -folder:..., -ext:...,
+ *   -content:..., -due:...) must not match
+ * - Tag and expression mode: the postfix expression is evaluated with NOT/AND/OR semantics
  * - Tag requirements (# or -#) control whether tagged/untagged notes are shown
  *
  * @param lowercaseName - File display name in lowercase
  * @param lowercaseTags - File tags in lowercase
  * @param tokens - Parsed query tokens with include/exclude criteria
- * @param options - Match options containing task, folder path, and extension context
+ * @param options - Match options containing task, folder path, extension, and content context
  * @returns True when the file passes all filter criteria
  */
 export function fileMatchesFilterTokens(
@@ -2138,6 +2892,11 @@ export function fileMatchesFilterTokens(
     const lowercaseFolderPath = options?.lowercaseFolderPath ?? '';
     const lowercaseExtension = options?.lowercaseExtension ?? '';
     const propertyValuesByKey = options?.propertyValuesByKey ?? EMPTY_PROPERTY_VALUE_MAP;
+    const contentMatcher = options?.contentMatcher;
+    const nameContentMatcher = options?.nameTokensMatchContent ? contentMatcher : undefined;
+    const matchesNameToken = (token: string): boolean => {
+        return lowercaseName.includes(token) || (nameContentMatcher !== undefined && nameContentMatcher(token));
+    };
 
     if (tokens.excludeUnfinishedTasks && hasUnfinishedTasks) {
         return false;
@@ -2147,6 +2906,19 @@ export function fileMatchesFilterTokens(
         return false;
     }
 
+    const openTaskDueDates = options?.openTaskDueDates ?? [];
+    const hasTaskDueInRange = (range: DueFilterRange): boolean => {
+        return openTaskDueDates.some(timestamp => timestampMatchesDateRange(timestamp, range));
+    };
+
+    if (tokens.excludeDueRanges.some(hasTaskDueInRange)) {
+        return false;
+    }
+
+    if (!tokens.dueRanges.every(hasTaskDueInRange)) {
+        return false;
+    }
+
     if (tokens.mode === 'filter') {
         const hasFolderCriteria = tokens.excludeFolderTokens.length > 0 || tokens.folderTokens.length > 0;
         const normalizedFolderPath = hasFolderCriteria ? normalizeFolderPathForMatch(lowercaseFolderPath) : '';
@@ -2157,7 +2929,7 @@ export function fileMatchesFilterTokens(
         const folderSegments = needsFolderSegments ? normalizedFolderPath.split('/').filter(Boolean) : null;
 
         if (tokens.excludeNameTokens.length > 0) {
-            const hasExcludedName = tokens.excludeNameTokens.some(token => lowercaseName.includes(token));
+            const hasExcludedName = tokens.excludeNameTokens.some(matchesNameToken);
             if (hasExcludedName) {
                 return false;
             }
@@ -2197,13 +2969,30 @@ export function fileMatchesFilterTokens(
             }
         }
 
+        if (tokens.excludeContentTokens.length > 0 && contentMatcher) {
+            const hasExcludedContent = tokens.excludeContentTokens.some(token => contentMatcher(token));
+            if (hasExcludedContent) {
+                return false;
+            }
+        }
+
         if (tokens.nameTokens.length > 0) {
-            const matchesName = tokens.nameTokens.every(token => lowercaseName.includes(token));
+            const matchesName = tokens.nameTokens.every(matchesNameToken);
             if (!matchesName) {
                 return false;
             }
         }
 
+        if (tokens.contentTokens.length > 0) {
+            if (!contentMatcher) {
+                return false;
+            }
+            const matchesContent = tokens.contentTokens.every(token => contentMatcher(token));
+            if (!matchesContent) {
+                return false;
+            }
+        }
+
         if (tokens.folderTokens.length > 0) {
             const matchesFolders = tokens.folderTokens.every(token =>
                 folderMatchesTokenWithNormalizedPath(normalizedFolderPath, folderSegments, token)
@@ -2252,7 +3041,53 @@ export function fileMatchesFilterTokens(
         return true;
     }
 
-    return evaluateTagExpression(tokens.expression, lowercaseTags, propertyValuesByKey);
+    const hasTagMatch = (token: string): boolean => {
+        return lowercaseTags.some(tag => tagMatchesToken(tag, token));
+    };
+
+    // Folder path normalization is deferred until a folder operand is evaluated
+    let normalizedFolderPath: string | null = null;
+    let folderSegments: string[] | null = null;
+    const matchesFolderToken = (token: FolderFilterToken): boolean => {
+        if (normalizedFolderPath === null) {
+            normalizedFolderPath = normalizeFolderPathForMatch(lowercaseFolderPath);
+            folderSegments = normalizedFolderPath.split('/').filter(Boolean);
+        }
+        return folderMatchesTokenWithNormalizedPath(normalizedFolderPath, folderSegments, token);
+    };
+
+    const dates = options?.dates;
+
+    return evaluateFilterExpression(tokens.expression, operand => {
+        switch (operand.kind) {
+            case 'tag':
+                return hasTagMatch(operand.value);
+            case 'notTag':
+                return !hasTagMatch(operand.value);
+            case 'requireTagged':
+                return lowercaseTags.length > 0;
+            case 'untagged':
+                return lowercaseTags.length === 0;
+            case 'property':
+                return propertyTokenMatches(propertyValuesByKey, operand.value);
+            case 'notProperty':
+                return !propertyTokenMatches(propertyValuesByKey, operand.value);
+            case 'name':
+                return matchesNameToken(operand.value);
+            case 'folder':
+                return matchesFolderToken(operand.value);
+            case 'extension':
+                return extensionMatchesToken(lowercaseExtension, operand.value);
+            case 'content':
+                return contentMatcher !== undefined && contentMatcher(operand.value);
+            case 'date':
+                return dates !== undefined && timestampMatchesDateRange(resolveDateFilterTimestamp(dates, operand.range), operand.range);
+            case 'due':
+                return hasTaskDueInRange(operand.range);
+            case 'unfinishedTask':
+                return hasUnfinishedTasks;
+        }
+    });
 }
 
 // File date context passed to date filter matching functions
@@ -2263,7 +3098,7 @@ interface FilterSearchFileDateContext {
 }
 
 // Checks if a timestamp falls within a date range (start inclusive, end exclusive)
-const timestampMatchesDateRange = (timestamp: number, range: DateFilterRange): boolean => {
+const timestampMatchesDateRange = (timestamp: number, range: DateFilterRange | DueFilterRange): boolean => {
     if (!Number.isFinite(timestamp)) {
         return false;
     }
@@ -2277,35 +3112,37 @@ const timestampMatchesDateRange = (timestamp: number, range: DateFilterRange): b
     return true;
 };
 
+// Resolves which timestamp a date range targets (explicit @c:/@m: field or the default field)
+const resolveDateFilterTimestamp = (date: FilterSearchFileDateContext, range: DateFilterRange): number => {
+    if (range.field === 'created') {
+        return date.created;
+    }
+    if (range.field === 'modified') {
+        return date.modified;
+    }
+
+    return date.defaultField === 'created' ? date.created : date.modified;
+};
+
 /**
  * Check if a file's timestamps match all date filter tokens.
  * All inclusion ranges must match AND all exclusion ranges must not match.
+ * Date operands inside tag/expression mode queries are evaluated by `fileMatchesFilterTokens`.
  */
 export function fileMatchesDateFilterTokens(date: FilterSearchFileDateContext, tokens: FilterSearchTokens): boolean {
     if (tokens.dateRanges.length === 0 && tokens.excludeDateRanges.length === 0) {
         return true;
     }
 
-    const resolveTimestamp = (range: DateFilterRange): number => {
-        if (range.field === 'created') {
-            return date.created;
-        }
-        if (range.field === 'modified') {
-            return date.modified;
-        }
-
-        return date.defaultField === 'created' ? date.created : date.modified;
-    };
-
     for (const range of tokens.dateRanges) {
-        const timestamp = resolveTimestamp(range);
+        const timestamp = resolveDateFilterTimestamp(date, range);
         if (!timestampMatchesDateRange(timestamp, range)) {
             return false;
         }
     }
 
     for (const range of tokens.excludeDateRanges) {
-        const timestamp = resolveTimestamp(range);
+        const timestamp = resolveDateFilterTimestamp(date, range);
         if (timestampMatchesDateRange(timestamp, range)) {
             return false;
         }
@@ -0,0 +1,268 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import type { App, TFile } from 'obsidian';
+import type { FileData, IndexedDBStorage } from '../storage/IndexedDBStorage';
+import { splitContentSearchQuery } from './contentSearchUtils';
+import {
+    fileMatchesDateFilterTokens,
+    fileMatchesFilterTokens,
+    filterSearchNeedsContentLookup,
+    filterSearchNeedsDateLookup,
+    filterSearchNeedsDueLookup,
+    filterSearchNeedsExtensionLookup,
+    filterSearchNeedsFolderLookup,
+    filterSearchNeedsPropertyLookup,
+    filterSearchNeedsTagLookup,
+    filterSearchNeedsTaskLookup,
+    filterSearchRequiresTagsForEveryMatch,
+    type FilterSearchMatchOptions,
+    type FilterSearchTokens
+} from './filterSearch';
+import { normalizePropertyTreeValuePath } from './propertyTree';
+import { casefold } from './recordUtils';
+import { normalizeTagPathValue } from './tagPrefixMatcher';
+import { getCachedFileTags } from './tagUtils';
+import { getOpenTaskDueTimestamps } from './taskUtils';
+
+/**
+ * Returns the frontmatter properties of a file plus the values stored by content providers registered through the API.
+ * Provider values are keyed by provider id so `.id=value` tokens match them.
+ */
+function getSearchablePropertyEntries(fileData: FileData | null): { fieldKey: string; value: string }[] | null {
+    if (!fileData) {
+        return null;
+    }
+
+    const providerEntries = Object.entries(fileData.providerValues);
+    if (providerEntries.length === 0) {
+        return fileData.properties;
+    }
+
+    const entries: { fieldKey: string; value: string }[] = [...(fileData.properties ?? [])];
+    providerEntries.forEach(([providerId, entry]) => {
+        if (entry.value !== null) {
+            entries.push({ fieldKey: providerId, value: String(entry.value) });
+        }
+    });
+    return entries;
+}
+
+// Shared sentinel array used when only tag presence is required
+const TAG_PRESENCE_SENTINEL = ['__nn_tag_present__'];
+
+export interface FilterSearchFileMatcherOptions {
+    app: App;
+    db: IndexedDBStorage;
+    tokens: FilterSearchTokens;
+    /** Date field used by date tokens that do not name a field */
+    defaultDateField: 'created' | 'modified';
+    /** When true, bare name tokens match either the file name or the indexed content */
+    nameTokensMatchContent: boolean;
+    /** Returns the lowercase display name matched by name tokens */
+    getLowercaseName: (file: TFile) => string;
+    getFileTimestamps: (file: TFile) => { created: number; modified: number };
+}
+
+/**
+ * Creates a predicate that checks files against parsed filter search tokens.
+ *
+ * Tag, property, task, due date, content, and date lookups only run when the tokens reference them.
+ * Normalized tag and property values are cached per file path for the lifetime of the matcher,
+ * so create a new matcher for each pass over the vault.
+ *
+ * @param options - Tokens plus the lookups used to resolve file names, timestamps, and cached metadata
+ * @returns Predicate returning true when a file matches the tokens
+ */
+export function createFilterSearchFileMatcher(options: FilterSearchFileMatcherOptions): (file: TFile) => boolean {
+    const { app, db, tokens, defaultDateField, nameTokensMatchContent, getLowercaseName, getFileTimestamps } = options;
+
+    // Check if date filtering is needed
+    const needsDateLookup = filterSearchNeedsDateLookup(tokens);
+    // Expression mode evaluates date operands inside the expression instead of in a separate date pass
+    const hasExpressionDateFilters = needsDateLookup && tokens.mode !== 'filter';
+    const hasDateFilters = needsDateLookup && !hasExpressionDateFilters;
+    const hasTaskFilters = filterSearchNeedsTaskLookup(tokens);
+    const hasDueFilters = filterSearchNeedsDueLookup(tokens);
+    const hasFolderFilters = filterSearchNeedsFolderLookup(tokens);
+    const hasExtensionFilters = filterSearchNeedsExtensionLookup(tokens);
+
+    // Check if we need to access tag metadata for any file
+    const needsTagLookup = filterSearchNeedsTagLookup(tokens);
+    const needsPropertyLookup = filterSearchNeedsPropertyLookup(tokens);
+    // Check if all inclusion clauses require files to have tags
+    const requireTaggedMatches = filterSearchRequiresTagsForEveryMatch(tokens);
+    const requiresNormalizedTagValues = tokens.mode !== 'filter' || tokens.tagTokens.length > 0 || tokens.excludeTagTokens.length > 0;
+    const needsContentLookup = filterSearchNeedsContentLookup(tokens, nameTokensMatchContent);
+
+    // Cache content query terms per search value; every file is checked against the same values
+    const contentQueryTermCache = new Map<string, string[]>();
+    const resolveContentQueryTerms = (value: string): string[] => {
+        const cached = contentQueryTermCache.get(value);
+        if (cached) {
+            return cached;
+        }
+        const terms = splitContentSearchQuery(value);
+        contentQueryTermCache.set(value, terms);
+        return terms;
+    };
+
+    // Cache normalized tag arrays to avoid repeated string transformations
+    const normalizedTagCache = new Map<string, string[]>();
+    const emptyTags: string[] = [];
+    const normalizedPropertyCache = new Map<string, Map<string, string[]>>();
+    const emptyProperties = new Map<string, string[]>();
+
+    // Get or compute normalized tags for a file path
+    const resolveNormalizedTags = (path: string, rawTags: readonly string[]): string[] => {
+        const cached = normalizedTagCache.get(path);
+        if (cached !== undefined) {
+            return cached;
+        }
+        const normalized = rawTags.map(tag => normalizeTagPathValue(tag)).filter((value): value is string => value.length > 0);
+        normalizedTagCache.set(path, normalized);
+        return normalized;
+    };
+
+    const resolveNormalizedProperties = (path: string, properties: { fieldKey: string; value: string }[] | null): Map<string, string[]> => {
+        const cached = normalizedPropertyCache.get(path);
+        if (cached) {
+            return cached;
+        }
+
+        if (!properties || properties.length === 0) {
+            normalizedPropertyCache.set(path, emptyProperties);
+            return emptyProperties;
+        }
+
+        const normalizedValues = new Map<string, Set<string>>();
+        properties.forEach(entry => {
+            const normalizedKey = casefold(entry.fieldKey);
+            if (!normalizedKey) {
+                return;
+            }
+
+            let values = normalizedValues.get(normalizedKey);
+            if (!values) {
+                values = new Set<string>();
+                normalizedValues.set(normalizedKey, values);
+            }
+
+            const normalizedValue = normalizePropertyTreeValuePath(entry.value);
+            if (!normalizedValue) {
+                return;
+            }
+            values.add(normalizedValue);
+        });
+
+        const normalized = new Map<string, string[]>();
+        normalizedValues.forEach((values, key) => {
+            normalized.set(key, Array.from(values));
+        });
+
+        normalizedPropertyCache.set(path, normalized);
+        return normalized;
+    };
+
+    const matchesDateTokens = (file: TFile): boolean => {
+        if (!hasDateFilters) {
+            return true;
+        }
+
+        const timestamps = getFileTimestamps(file);
+        return fileMatchesDateFilterTokens(
+            { created: timestamps.created, modified: timestamps.modified, defaultField: defaultDateField },
+            tokens
+        );
+    };
+
+    return (file: TFile): boolean => {
+        const lowercaseName = getLowercaseName(file);
+        const fileData = hasTaskFilters || hasDueFilters || needsTagLookup || needsPropertyLookup ? db.getFile(file.path) : null;
+        const hasUnfinishedTasks = hasTaskFilters && typeof fileData?.taskUnfinished === 'number' && fileData.taskUnfinished > 0;
+        const needsMatchOptions =
+            hasTaskFilters || hasDueFilters || hasFolderFilters || hasExtensionFilters || needsContentLookup || hasExpressionDateFilters;
+        let matchOptions: FilterSearchMatchOptions | undefined;
+        if (needsMatchOptions) {
+            matchOptions = { hasUnfinishedTasks };
+
+            if (needsContentLookup) {
+                matchOptions.contentMatcher = value => {
+                    const terms = resolveContentQueryTerms(value);
+                    return terms.length > 0 && db.contentMatchesTerms(file.path, terms);
+                };
+                matchOptions.nameTokensMatchContent = nameTokensMatchContent;
+            }
+
+            if (hasFolderFilters) {
+                matchOptions.lowercaseFolderPath = (file.parent?.path ?? '').toLowerCase();
+            }
+
+            if (hasExtensionFilters) {
+                matchOptions.lowercaseExtension = file.extension.toLowerCase();
+            }
+
+            if (hasDueFilters) {
+                matchOptions.openTaskDueDates = getOpenTaskDueTimestamps(fileData?.openTasks ?? null);
+            }
+
+            if (hasExpressionDateFilters) {
+                const timestamps = getFileTimestamps(file);
+                matchOptions.dates = { created: timestamps.created, modified: timestamps.modified, defaultField: defaultDateField };
+            }
+        }
+
+        if (needsPropertyLookup) {
+            const propertyValuesByKey = resolveNormalizedProperties(file.path, getSearchablePropertyEntries(fileData));
+            if (matchOptions) {
+                matchOptions = { ...matchOptions, propertyValuesByKey };
+            } else {
+                matchOptions = { hasUnfinishedTasks, propertyValuesByKey };
+            }
+        }
+
+        // Skip tag lookup if tokens do not reference tags
+        if (!needsTagLookup) {
+            if (!fileMatchesFilterTokens(lowercaseName, emptyTags, tokens, matchOptions)) {
+                return false;
+            }
+            return matchesDateTokens(file);
+        }
+
+        const rawTags = getCachedFileTags({ app, file, db, fileData });
+        const hasTags = rawTags.length > 0;
+
+        // Early return if file must have tags but has none
+        if (requireTaggedMatches && !hasTags) {
+            return false;
+        }
+
+        let lowercaseTags: string[];
+        if (!hasTags) {
+            lowercaseTags = emptyTags;
+        } else if (requiresNormalizedTagValues) {
+            lowercaseTags = resolveNormalizedTags(file.path, rawTags);
+        } else {
+            lowercaseTags = TAG_PRESENCE_SENTINEL;
+        }
+
+        if (!fileMatchesFilterTokens(lowercaseName, lowercaseTags, tokens, matchOptions)) {
+            return false;
+        }
+        return matchesDateTokens(file);
+    };
+}
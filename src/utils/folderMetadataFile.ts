@@ -0,0 +1,338 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import type { FolderAppearance } from '../hooks/useListPaneAppearance';
+import {
+    isListDisplayMode,
+    isNotePropertyType,
+    isSortOption,
+    type NotebookNavigatorSettings,
+    type SortChainKey,
+    type SortOption
+} from '../settings/types';
+import { deserializeIconFromFrontmatter, normalizeCanonicalIconId, serializeIconForFrontmatter } from './iconizeFormat';
+import { isListNoteGroupingOption } from './listGrouping';
+import { ensureRecord, isPlainObjectRecordValue } from './recordUtils';
+import { getSortChainKeyOption, normalizeSortChain } from './sortUtils';
+
+/** File name of the per-folder YAML sidecar used by the `sidecar` storage mode */
+const FOLDER_METADATA_SIDECAR_NAME = '.folder.yml';
+
+/** Frontmatter property that holds folder metadata in folder notes */
+export const FOLDER_METADATA_FRONTMATTER_KEY = 'notebook-navigator';
+
+/**
+ * Folder metadata that can be shared through the vault.
+ * Icons are stored in their frontmatter form so other tools can read them.
+ */
+export interface PortableFolderMetadata {
+    icon?: string;
+    color?: string;
+    background?: string;
+    sort?: SortOption;
+    sortChain?: SortChainKey[];
+    appearance?: FolderAppearance;
+}
+
+/** Returns the vault-relative sidecar path for a folder; the vault root maps to a sidecar at the vault root */
+export function getFolderMetadataSidecarPath(folderPath: string): string {
+    if (folderPath === '/' || folderPath === '') {
+        return FOLDER_METADATA_SIDECAR_NAME;
+    }
+    return `${folderPath}/${FOLDER_METADATA_SIDECAR_NAME}`;
+}
+
+/** Returns the folder path a sidecar belongs to, or null when the path is not a sidecar */
+export function getFolderPathForMetadataSidecar(path: string): string | null {
+    if (path === FOLDER_METADATA_SIDECAR_NAME) {
+        return '/';
+    }
+    const suffix = `/${FOLDER_METADATA_SIDECAR_NAME}`;
+    return path.endsWith(suffix) ? path.slice(0, -suffix.length) : null;
+}
+
+/** Returns true when the metadata has no fields set */
+function isPortableFolderMetadataEmpty(metadata: PortableFolderMetadata): boolean {
+    return (
+        metadata.icon === undefined &&
+        metadata.color === undefined &&
+        metadata.background === undefined &&
+        metadata.sort === undefined &&
+        metadata.sortChain === undefined &&
+        metadata.appearance === undefined
+    );
+}
+
+function readTrimmedString(value: unknown): string | undefined {
+    if (typeof value !== 'string') {
+        return undefined;
+    }
+    const trimmed = value.trim();
+    return trimmed.length > 0 ? trimmed : undefined;
+}
+
+function readIntegerInRange(value: unknown, min: number, max: number): number | undefined {
+    return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max ? value : undefined;
+}
+
+// Keeps only the appearance fields the list pane understands, with the values its menus can set
+function normalizeFolderAppearance(value: unknown): FolderAppearance | undefined {
+    if (!isPlainObjectRecordValue(value)) {
+        return undefined;
+    }
+
+    const appearance: FolderAppearance = {};
+    if (isListDisplayMode(value.mode)) {
+        appearance.mode = value.mode;
+    }
+    const titleRows = readIntegerInRange(value.titleRows, 1, 2);
+    if (titleRows !== undefined) {
+        appearance.titleRows = titleRows;
+    }
+    const previewRows = readIntegerInRange(value.previewRows, 1, 5);
+    if (previewRows !== undefined) {
+        appearance.previewRows = previewRows;
+    }
+    if (typeof value.notePropertyType === 'string' && isNotePropertyType(value.notePropertyType)) {
+        appearance.notePropertyType = value.notePropertyType;
+    }
+    if (isListNoteGroupingOption(value.groupBy)) {
+        appearance.groupBy = value.groupBy;
+    }
+    const boardProperty = readTrimmedString(value.boardProperty);
+    if (boardProperty) {
+        appearance.boardProperty = boardProperty;
+    }
+    if (typeof value.gridTileSize === 'number' && Number.isFinite(value.gridTileSize) && value.gridTileSize > 0) {
+        appearance.gridTileSize = Math.round(value.gridTileSize);
+    }
+
+    return Object.keys(appearance).length > 0 ? appearance : undefined;
+}
+
+/**
+ * Normalizes metadata parsed from a sidecar or folder note frontmatter.
+ * Unknown keys and invalid values are dropped. Returns null when the input is not an object.
+ */
+export function normalizePortableFolderMetadata(value: unknown): PortableFolderMetadata | null {
+    if (!isPlainObjectRecordValue(value)) {
+        return null;
+    }
+
+    const metadata: PortableFolderMetadata = {};
+    const icon = readTrimmedString(value.icon);
+    if (icon) {
+        const iconId = deserializeIconFromFrontmatter(icon);
+        const serialized = iconId ? serializeIconForFrontmatter(iconId) : null;
+        if (serialized) {
+            metadata.icon = serialized;
+        }
+    }
+
+    const color = readTrimmedString(value.color);
+    if (color) {
+        metadata.color = color;
+    }
+
+    const background = readTrimmedString(value.background);
+    if (background) {
+        metadata.background = background;
+    }
+
+    if (isSortOption(value.sort)) {
+        metadata.sort = value.sort;
+    }
+
+    const sortChain = normalizeSortChain(value.sortChain);
+    if (sortChain.length > 0) {
+        metadata.sortChain = sortChain;
+        // The folder's sort override always mirrors the first chain key
+        metadata.sort = getSortChainKeyOption(sortChain[0]);
+    }
+
+    const appearance = normalizeFolderAppearance(value.appearance);
+    if (appearance) {
+        metadata.appearance = appearance;
+    }
+
+    return metadata;
+}
+
+/** Reads the portable metadata for a folder from the settings records */
+export function readPortableFolderMetadataFromSettings(settings: NotebookNavigatorSettings, folderPath: string): PortableFolderMetadata {
+    const metadata: PortableFolderMetadata = {};
+    const has = (record: object | undefined) => Boolean(record && Object.prototype.hasOwnProperty.call(record, folderPath));
+
+    if (has(settings.folderIcons)) {
+        const serialized = serializeIconForFrontmatter(settings.folderIcons[folderPath]);
+        if (serialized) {
+            metadata.icon = serialized;
+        }
+    }
+    if (has(settings.folderColors)) {
+        metadata.color = settings.folderColors[folderPath];
+    }
+    if (has(settings.folderBackgroundColors)) {
+        metadata.background = settings.folderBackgroundColors[folderPath];
+    }
+    if (has(settings.folderSortOverrides)) {
+        metadata.sort = settings.folderSortOverrides[folderPath];
+    }
+    if (has(settings.folderSortChains) && settings.folderSortChains[folderPath].length > 0) {
+        metadata.sortChain = settings.folderSortChains[folderPath].map(key => ({ ...key }));
+    }
+    if (has(settings.folderAppearances) && Object.keys(settings.folderAppearances[folderPath]).length > 0) {
+        metadata.appearance = { ...settings.folderAppearances[folderPath] };
+    }
+
+    return metadata;
+}
+
+function applyRecordValue<T>(
+    record: Record<string, T> | undefined,
+    folderPath: string,
+    value: T | undefined,
+    isEqual: (left: T, right: T) => boolean
+): { record: Record<string, T>; changed: boolean } {
+    const target = ensureRecord(record);
+    const hasCurrent = Object.prototype.hasOwnProperty.call(target, folderPath) === true;
+    if (value === undefined) {
+        if (!hasCurrent) {
+            return { record: target, changed: false };
+        }
+        delete target[folderPath];
+        return { record: target, changed: true };
+    }
+    if (hasCurrent && isEqual(target[folderPath], value)) {
+        return { record: target, changed: false };
+    }
+    target[folderPath] = value;
+    return { record: target, changed: true };
+}
+
+const isSameValue = <T>(left: T, right: T): boolean => left === right;
+const isSameAppearance = (left: FolderAppearance, right: FolderAppearance): boolean => JSON.stringify(left) === JSON.stringify(right);
+const isSameSortChain = (left: SortChainKey[], right: SortChainKey[]): boolean =>
+    JSON.stringify(serializeSortChain(left)) === JSON.stringify(serializeSortChain(right));
+
+// Writes chain keys with a stable key order so YAML round trips compare equal
+function serializeSortChain(chain: SortChainKey[]): Record<string, unknown>[] {
+    return chain.map(key =>
+        key.property !== undefined
+            ? { field: key.field, direction: key.direction, property: key.property }
+            : { field: key.field, direction: key.direction }
+    );
+}
+
+/**
+ * Writes portable metadata for a folder into the settings records.
+ * Fields missing from the metadata are removed from the records. Returns true when any record changed.
+ */
+export function applyPortableFolderMetadataToSettings(
+    settings: NotebookNavigatorSettings,
+    folderPath: string,
+    metadata: PortableFolderMetadata
+): boolean {
+    const iconId = metadata.icon ? deserializeIconFromFrontmatter(metadata.icon) : null;
+    const canonicalIcon = iconId ? normalizeCanonicalIconId(iconId) || undefined : undefined;
+
+    const icons = applyRecordValue(settings.folderIcons, folderPath, canonicalIcon, isSameValue);
+    settings.folderIcons = icons.record;
+    const colors = applyRecordValue(settings.folderColors, folderPath, metadata.color, isSameValue);
+    settings.folderColors = colors.record;
+    const backgrounds = applyRecordValue(settings.folderBackgroundColors, folderPath, metadata.background, isSameValue);
+    settings.folderBackgroundColors = backgrounds.record;
+    const sorts = applyRecordValue(settings.folderSortOverrides, folderPath, metadata.sort, isSameValue);
+    settings.folderSortOverrides = sorts.record;
+    const sortChains = applyRecordValue(
+        settings.folderSortChains,
+        folderPath,
+        metadata.sortChain ? metadata.sortChain.map(key => ({ ...key })) : undefined,
+        isSameSortChain
+    );
+    settings.folderSortChains = sortChains.record;
+    const appearances = applyRecordValue(
+        settings.folderAppearances,
+        folderPath,
+        metadata.appearance ? { ...metadata.appearance } : undefined,
+        isSameAppearance
+    );
+    settings.folderAppearances = appearances.record;
+
+    return icons.changed || colors.changed || backgrounds.changed || sorts.changed || sortChains.changed || appearances.changed;
+}
+
+/** Converts metadata to a plain object with a stable key order, or null when it is empty */
+export function serializePortableFolderMetadata(metadata: PortableFolderMetadata): Record<string, unknown> | null {
+    if (isPortableFolderMetadataEmpty(metadata)) {
+        return null;
+    }
+
+    const output: Record<string, unknown> = {};
+    if (metadata.icon !== undefined) {
+        output.icon = metadata.icon;
+    }
+    if (metadata.color !== undefined) {
+        output.color = metadata.color;
+    }
+    if (metadata.background !== undefined) {
+        output.background = metadata.background;
+    }
+    if (metadata.sort !== undefined) {
+        output.sort = metadata.sort;
+    }
+    if (metadata.sortChain !== undefined) {
+        output.sortChain = serializeSortChain(metadata.sortChain);
+    }
+    if (metadata.appearance !== undefined) {
+        // Sort appearance keys so YAML round trips compare equal to the settings record
+        const appearance = metadata.appearance as Record<string, unknown>;
+        const sortedAppearance: Record<string, unknown> = {};
+        Object.keys(appearance)
+            .sort()
+            .forEach(key => {
+                sortedAppearance[key] = appearance[key];
+            });
+        output.appearance = sortedAppearance;
+    }
+    return output;
+}
+
+/** Returns a string key for change detection; empty metadata maps to an empty string */
+export function getPortableFolderMetadataKey(metadata: PortableFolderMetadata): string {
+    const serialized = serializePortableFolderMetadata(metadata);
+    return serialized ? JSON.stringify(serialized) : '';
+}
+
+/** Collects every folder path that has portable metadata in the settings records */
+export function collectPortableFolderMetadataPaths(settings: NotebookNavigatorSettings): string[] {
+    const paths = new Set<string>();
+    const records: (object | undefined)[] = [
+        settings.folderIcons,
+        settings.folderColors,
+        settings.folderBackgroundColors,
+        settings.folderSortOverrides,
+        settings.folderSortChains,
+        settings.folderAppearances
+    ];
+    records.forEach(record => {
+        if (record) {
+            Object.keys(record).forEach(path => paths.add(path));
+        }
+    });
+    return Array.from(paths);
+}
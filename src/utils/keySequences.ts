@@ -0,0 +1,75 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Actions triggered by Vim-style key sequences in the navigator panes
+ */
+export type VimKeyAction = 'first' | 'last' | 'delete' | 'collapse' | 'expand' | 'search';
+
+interface VimKeySequence {
+    keys: string;
+    action: VimKeyAction;
+}
+
+/**
+ * Supported sequences. Keys are compared case-sensitively so `G` and `gg` stay distinct.
+ */
+const VIM_KEY_SEQUENCES: readonly VimKeySequence[] = [
+    { keys: 'gg', action: 'first' },
+    { keys: 'G', action: 'last' },
+    { keys: 'dd', action: 'delete' },
+    { keys: 'zc', action: 'collapse' },
+    { keys: 'zo', action: 'expand' },
+    { keys: '/', action: 'search' }
+];
+
+/** Time allowed between keys of a sequence before the pending keys are discarded */
+export const KEY_SEQUENCE_TIMEOUT_MS = 1000;
+
+export type VimKeySequenceResult = { type: 'match'; action: VimKeyAction } | { type: 'pending'; buffer: string } | { type: 'none' };
+
+/**
+ * Returns true for single printable characters typed without Ctrl, Cmd or Alt.
+ * Shift is allowed so uppercase letters and shifted symbols can be typed.
+ */
+export function isPlainCharacterKey(event: KeyboardEvent): boolean {
+    return event.key.length === 1 && !event.ctrlKey && !event.metaKey && !event.altKey;
+}
+
+function resolveCandidate(candidate: string): VimKeySequenceResult {
+    const exactMatch = VIM_KEY_SEQUENCES.find(sequence => sequence.keys === candidate);
+    if (exactMatch) {
+        return { type: 'match', action: exactMatch.action };
+    }
+    if (VIM_KEY_SEQUENCES.some(sequence => sequence.keys.startsWith(candidate))) {
+        return { type: 'pending', buffer: candidate };
+    }
+    return { type: 'none' };
+}
+
+/**
+ * Appends a key to the pending sequence buffer and resolves the result.
+ * When the combined keys match nothing, the key is retried on its own so `gG` still resolves `G`.
+ */
+export function resolveVimKeySequence(buffer: string, key: string): VimKeySequenceResult {
+    const result = resolveCandidate(`${buffer}${key}`);
+    if (result.type !== 'none' || buffer.length === 0) {
+        return result;
+    }
+    return resolveCandidate(key);
+}
@@ -33,6 +33,22 @@ export const KeyboardShortcutAction = {
     NAV_EXPAND_OR_FOCUS_LIST: 'navigation:expand-or-focus-list',
     NAV_FOCUS_LIST: 'navigation:focus-list',
     DELETE_SELECTED: 'pane:delete-selected',
+    PANE_RENAME: 'pane:rename',
+    PANE_MOVE_TO_FOLDER: 'pane:move-to-folder',
+    PANE_DUPLICATE: 'pane:duplicate',
+    PANE_ADD_TO_SHORTCUTS: 'pane:add-to-shortcuts',
+    PANE_OPEN_IN_NEW_TAB: 'pane:open-in-new-tab',
+    PANE_OPEN_IN_SPLIT: 'pane:open-in-split',
+    PANE_REVEAL_IN_SYSTEM_EXPLORER: 'pane:reveal-in-system-explorer',
+    PANE_OPEN_SHORTCUT_1: 'pane:open-shortcut-1',
+    PANE_OPEN_SHORTCUT_2: 'pane:open-shortcut-2',
+    PANE_OPEN_SHORTCUT_3: 'pane:open-shortcut-3',
+    PANE_OPEN_SHORTCUT_4: 'pane:open-shortcut-4',
+    PANE_OPEN_SHORTCUT_5: 'pane:open-shortcut-5',
+    PANE_OPEN_SHORTCUT_6: 'pane:open-shortcut-6',
+    PANE_OPEN_SHORTCUT_7: 'pane:open-shortcut-7',
+    PANE_OPEN_SHORTCUT_8: 'pane:open-shortcut-8',
+    PANE_OPEN_SHORTCUT_9: 'pane:open-shortcut-9',
     LIST_FOCUS_NAVIGATION: 'list:focus-navigation',
     LIST_FOCUS_EDITOR: 'list:focus-editor',
     LIST_SELECT_ALL: 'list:select-all',
@@ -40,6 +56,8 @@ export const KeyboardShortcutAction = {
     LIST_EXTEND_SELECTION_DOWN: 'list:extend-selection-down',
     LIST_RANGE_TO_START: 'list:range-to-start',
     LIST_RANGE_TO_END: 'list:range-to-end',
+    LIST_TOGGLE_PIN: 'list:toggle-pin',
+    LIST_ADD_TAG: 'list:add-tag',
     SEARCH_FOCUS_LIST: 'search:focus-list',
     SEARCH_FOCUS_NAVIGATION: 'search:focus-navigation',
     SEARCH_CLOSE: 'search:close'
@@ -52,6 +70,21 @@ export type KeyboardShortcutAction = (typeof KeyboardShortcutAction)[keyof typeo
  */
 export type KeyboardShortcutConfig = Record<KeyboardShortcutAction, Hotkey[]>;
 
+/**
+ * Shortcut jump actions ordered by shortcut number (index 0 opens shortcut 1)
+ */
+const OPEN_SHORTCUT_ACTIONS: readonly KeyboardShortcutAction[] = [
+    KeyboardShortcutAction.PANE_OPEN_SHORTCUT_1,
+    KeyboardShortcutAction.PANE_OPEN_SHORTCUT_2,
+    KeyboardShortcutAction.PANE_OPEN_SHORTCUT_3,
+    KeyboardShortcutAction.PANE_OPEN_SHORTCUT_4,
+    KeyboardShortcutAction.PANE_OPEN_SHORTCUT_5,
+    KeyboardShortcutAction.PANE_OPEN_SHORTCUT_6,
+    KeyboardShortcutAction.PANE_OPEN_SHORTCUT_7,
+    KeyboardShortcutAction.PANE_OPEN_SHORTCUT_8,
+    KeyboardShortcutAction.PANE_OPEN_SHORTCUT_9
+];
+
 /**
  * Default keyboard shortcuts for all actions
  */
@@ -69,6 +102,23 @@ const DEFAULT_KEYBOARD_SHORTCUTS: KeyboardShortcutConfig = {
         { modifiers: [], key: 'Delete' },
         { modifiers: [], key: 'Backspace' }
     ],
+    // File operation actions are unbound by default so they never shadow Obsidian hotkeys
+    [KeyboardShortcutAction.PANE_RENAME]: [],
+    [KeyboardShortcutAction.PANE_MOVE_TO_FOLDER]: [],
+    [KeyboardShortcutAction.PANE_DUPLICATE]: [],
+    [KeyboardShortcutAction.PANE_ADD_TO_SHORTCUTS]: [],
+    [KeyboardShortcutAction.PANE_OPEN_IN_NEW_TAB]: [],
+    [KeyboardShortcutAction.PANE_OPEN_IN_SPLIT]: [],
+    [KeyboardShortcutAction.PANE_REVEAL_IN_SYSTEM_EXPLORER]: [],
+    [KeyboardShortcutAction.PANE_OPEN_SHORTCUT_1]: [],
+    [KeyboardShortcutAction.PANE_OPEN_SHORTCUT_2]: [],
+    [KeyboardShortcutAction.PANE_OPEN_SHORTCUT_3]: [],
+    [KeyboardShortcutAction.PANE_OPEN_SHORTCUT_4]: [],
+    [KeyboardShortcutAction.PANE_OPEN_SHORTCUT_5]: [],
+    [KeyboardShortcutAction.PANE_OPEN_SHORTCUT_6]: [],
+    [KeyboardShortcutAction.PANE_OPEN_SHORTCUT_7]: [],
+    [KeyboardShortcutAction.PANE_OPEN_SHORTCUT_8]: [],
+    [KeyboardShortcutAction.PANE_OPEN_SHORTCUT_9]: [],
     [KeyboardShortcutAction.LIST_FOCUS_NAVIGATION]: [
         { modifiers: [], key: 'ArrowLeft' },
         { modifiers: ['Shift'], key: 'Tab' }
@@ -82,6 +132,8 @@ const DEFAULT_KEYBOARD_SHORTCUTS: KeyboardShortcutConfig = {
     [KeyboardShortcutAction.LIST_EXTEND_SELECTION_DOWN]: [{ modifiers: ['Shift'], key: 'ArrowDown' }],
     [KeyboardShortcutAction.LIST_RANGE_TO_START]: [{ modifiers: ['Shift'], key: 'Home' }],
     [KeyboardShortcutAction.LIST_RANGE_TO_END]: [{ modifiers: ['Shift'], key: 'End' }],
+    [KeyboardShortcutAction.LIST_TOGGLE_PIN]: [],
+    [KeyboardShortcutAction.LIST_ADD_TAG]: [],
     [KeyboardShortcutAction.SEARCH_FOCUS_LIST]: [
         { modifiers: [], key: 'Tab' },
         { modifiers: [], key: 'Enter' }
@@ -317,3 +369,19 @@ export function matchesShortcut(
 
     return false;
 }
+
+/**
+ * Returns the shortcut number (1-9) whose jump action matches the event, or null when none match.
+ */
+export function getMatchingShortcutNumber(event: KeyboardEvent, config: KeyboardShortcutConfig): number | null {
+    const index = OPEN_SHORTCUT_ACTIONS.findIndex(action => matchesShortcut(event, config, action));
+    return index === -1 ? null : index + 1;
+}
+
+/**
+ * Returns true when the event matches a hotkey bound to any action.
+ * Used to keep configured bindings ahead of key sequences and type-ahead find.
+ */
+export function matchesAnyShortcut(event: KeyboardEvent, config: KeyboardShortcutConfig): boolean {
+    return (Object.keys(config) as KeyboardShortcutAction[]).some(action => matchesShortcut(event, config, action));
+}
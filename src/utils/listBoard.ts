@@ -0,0 +1,164 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import type { TFile } from 'obsidian';
+import { findFrontmatterKey } from '../services/propertyOperations/propertyValueEdits';
+import type { PropertyValueChange } from '../services/propertyOperations/types';
+import { getPropertyGroupValue, groupFilesByValue } from './listGrouping';
+
+/** Board column value as stored in frontmatter; numbers and booleans keep their type when notes are moved */
+export type BoardColumnValue = string | number | boolean;
+
+export interface ListBoardColumn {
+    key: string;
+    label: string;
+    /** Value written to the board property for notes moved into the column. Null for the column of notes without a value */
+    value: BoardColumnValue | null;
+    files: TFile[];
+}
+
+/**
+ * Resolves the board column of a frontmatter property value.
+ * Lists use their first non-empty scalar entry. The key is case-insensitive so `Done` and `done` share a column.
+ */
+export function getBoardColumnValue(value: unknown): { key: string; label: string; value: BoardColumnValue } | null {
+    if (Array.isArray(value)) {
+        for (const entry of value) {
+            const column = getBoardColumnValue(entry);
+            if (column) {
+                return column;
+            }
+        }
+        return null;
+    }
+
+    if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+        return null;
+    }
+
+    const label = getPropertyGroupValue(value);
+    if (label === null) {
+        return null;
+    }
+    return { key: label.toLowerCase(), label, value: typeof value === 'string' ? value.trim() : value };
+}
+
+/** Restores a column value read from a drop zone attribute to the type it has in frontmatter */
+export function parseBoardColumnValue(value: string | null, valueType: string | null): BoardColumnValue | null {
+    if (value === null) {
+        return null;
+    }
+    if (valueType === 'number') {
+        const parsed = Number(value);
+        return Number.isFinite(parsed) ? parsed : value;
+    }
+    if (valueType === 'boolean') {
+        return value === 'true';
+    }
+    return value;
+}
+
+/**
+ * Resolves how moving a note into a board column changes its frontmatter.
+ * In lists only the entry that placed the note in its current column is replaced, so other entries are kept.
+ * A null column value removes the property. Returns null when the note is unchanged.
+ */
+export function resolveBoardColumnMove(
+    frontmatter: Record<string, unknown> | null | undefined,
+    propertyKey: string,
+    value: BoardColumnValue | null
+): PropertyValueChange | null {
+    const existingKey = findFrontmatterKey(frontmatter, propertyKey);
+    const key = existingKey ?? propertyKey.trim();
+    const before = existingKey !== undefined && frontmatter ? frontmatter[existingKey] : undefined;
+
+    if (value === null) {
+        return existingKey === undefined ? null : { key, before, after: undefined };
+    }
+
+    if (Array.isArray(before)) {
+        const entries: unknown[] = before;
+        const columnIndex = entries.findIndex(entry => getBoardColumnValue(entry) !== null);
+        if (columnIndex === -1) {
+            return { key, before, after: [...entries, value] };
+        }
+
+        // Entries that already match the target column are dropped so the moved entry does not appear twice
+        const targetKey = getBoardColumnValue(value)?.key;
+        const after: unknown[] = [];
+        entries.forEach((entry, index) => {
+            if (index === columnIndex) {
+                after.push(value);
+            } else if (getBoardColumnValue(entry)?.key !== targetKey) {
+                after.push(entry);
+            }
+        });
+        return { key, before, after };
+    }
+
+    return before === value ? null : { key, before, after: value };
+}
+
+/** Reads the board column key of a note's frontmatter, matching the property key case-insensitively. Returns '' without a value */
+export function getBoardColumnKey(frontmatter: Record<string, unknown> | null | undefined, propertyKey: string): string {
+    const matchedKey = findFrontmatterKey(frontmatter, propertyKey);
+    if (!frontmatter || matchedKey === undefined) {
+        return '';
+    }
+    return getBoardColumnValue(frontmatter[matchedKey])?.key ?? '';
+}
+
+/**
+ * Builds board columns from the values of a frontmatter property.
+ * Columns are ordered naturally by label, notes keep their list order within each column,
+ * and notes without a value are collected in a trailing column.
+ */
+export function buildBoardColumns(
+    files: readonly TFile[],
+    getFrontmatter: (file: TFile) => Record<string, unknown> | null | undefined,
+    propertyKey: string,
+    missingLabel: string
+): ListBoardColumn[] {
+    const columnValues = new Map<string, BoardColumnValue>();
+
+    const groups = groupFilesByValue(
+        files,
+        file => {
+            const frontmatter = getFrontmatter(file);
+            const matchedKey = findFrontmatterKey(frontmatter, propertyKey);
+            if (!frontmatter || matchedKey === undefined) {
+                return null;
+            }
+            const column = getBoardColumnValue(frontmatter[matchedKey]);
+            if (!column) {
+                return null;
+            }
+            if (!columnValues.has(column.key)) {
+                columnValues.set(column.key, column.value);
+            }
+            return { key: column.key, label: column.label };
+        },
+        { missingLabel }
+    );
+
+    return groups.map(group => ({
+        key: group.key,
+        label: group.label,
+        value: columnValues.get(group.key) ?? null,
+        files: group.files
+    }));
+}
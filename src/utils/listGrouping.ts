@@ -16,15 +16,24 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
+import type { TFile } from 'obsidian';
+import { strings } from '../i18n';
 import { ItemType } from '../types';
 import type { NotebookNavigatorSettings } from '../settings';
 import type { ListNoteGroupingOption } from '../settings/types';
+import type { FolderAppearance } from '../hooks/useListPaneAppearance';
+import { naturalCompare } from './sortUtils';
+
+const PROPERTY_GROUPING_PREFIX = 'property:';
+const BASIC_GROUPING_OPTIONS: readonly string[] = ['none', 'date', 'folder', 'tag', 'alphabetical'];
 
 interface ResolveListGroupingParams {
     settings: Pick<NotebookNavigatorSettings, 'noteGrouping' | 'folderAppearances' | 'tagAppearances'>;
     selectionType?: ItemType;
     folderPath?: string | null;
     tag?: string | null;
+    /** Appearance overrides of the selected smart folder */
+    smartFolderAppearance?: FolderAppearance | null;
 }
 
 interface ListGroupingResolution {
@@ -34,16 +43,202 @@ interface ListGroupingResolution {
     hasCustomOverride: boolean;
 }
 
+/**
+ * Returns the property key of a `property:<key>` grouping option, or null for other options.
+ */
+export function getPropertyGroupingKey(option: ListNoteGroupingOption | undefined): string | null {
+    if (!option || !option.startsWith(PROPERTY_GROUPING_PREFIX)) {
+        return null;
+    }
+    const key = option.slice(PROPERTY_GROUPING_PREFIX.length).trim();
+    return key.length > 0 ? key : null;
+}
+
+/**
+ * Builds the grouping option that groups notes by the value of a frontmatter property.
+ */
+export function createPropertyGroupingOption(propertyKey: string): ListNoteGroupingOption {
+    return `${PROPERTY_GROUPING_PREFIX}${propertyKey.trim()}`;
+}
+
+/**
+ * Validates stored grouping values, including `property:<key>` options with a non-empty key.
+ */
+export function isListNoteGroupingOption(value: unknown): value is ListNoteGroupingOption {
+    if (typeof value !== 'string') {
+        return false;
+    }
+    return BASIC_GROUPING_OPTIONS.includes(value) || getPropertyGroupingKey(value as ListNoteGroupingOption) !== null;
+}
+
+/**
+ * Returns the menu and settings label for a grouping option.
+ */
+export function getListGroupingLabel(option: ListNoteGroupingOption): string {
+    const propertyKey = getPropertyGroupingKey(option);
+    if (propertyKey) {
+        return strings.folderAppearance.groupByPropertyOption(propertyKey);
+    }
+    switch (option) {
+        case 'date':
+            return strings.settings.items.groupNotes.options.date;
+        case 'folder':
+            return strings.settings.items.groupNotes.options.folder;
+        case 'tag':
+            return strings.settings.items.groupNotes.options.tag;
+        case 'alphabetical':
+            return strings.settings.items.groupNotes.options.alphabetical;
+        default:
+            return strings.settings.items.groupNotes.options.none;
+    }
+}
+
+// Strips wiki link syntax so link properties group by their display text
+const formatPropertyGroupText = (text: string): string => {
+    const trimmed = text.trim();
+    const linkMatch = trimmed.match(/^\[\[([^\]|]+)(?:\|([^\]]+))?\]\]$/);
+    if (!linkMatch) {
+        return trimmed;
+    }
+    return (linkMatch[2] ?? linkMatch[1]).trim();
+};
+
+/**
+ * Resolves the group label for a frontmatter property value.
+ * List values group by their first non-empty entry; objects and empty values return null.
+ */
+export function getPropertyGroupValue(value: unknown): string | null {
+    if (Array.isArray(value)) {
+        for (const entry of value) {
+            const entryValue = getPropertyGroupValue(entry);
+            if (entryValue !== null) {
+                return entryValue;
+            }
+        }
+        return null;
+    }
+
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        const text = formatPropertyGroupText(String(value));
+        return text.length > 0 ? text : null;
+    }
+
+    return null;
+}
+
+/**
+ * Resolves the tag group for a note.
+ * Without a parent tag the first tag's top-level segment is used. With a parent tag, notes group by the
+ * first child segment below it, and notes that only carry the parent tag itself use the parent tag group.
+ */
+export function getTagGroup(tags: readonly string[], parentTag: string | null): { key: string; label: string } | null {
+    const normalizedParent = parentTag ? parentTag.toLowerCase() : null;
+    let parentMatch: { key: string; label: string } | null = null;
+
+    for (const tag of tags) {
+        if (!normalizedParent) {
+            const [topLevel] = tag.split('/');
+            if (topLevel) {
+                return { key: topLevel.toLowerCase(), label: topLevel };
+            }
+            continue;
+        }
+
+        const normalizedTag = tag.toLowerCase();
+        if (normalizedTag === normalizedParent) {
+            parentMatch ??= { key: normalizedParent, label: tag };
+            continue;
+        }
+
+        if (normalizedTag.startsWith(`${normalizedParent}/`)) {
+            const [child] = tag.slice(normalizedParent.length + 1).split('/');
+            if (child) {
+                return { key: `${normalizedParent}/${child.toLowerCase()}`, label: child };
+            }
+        }
+    }
+
+    return parentMatch;
+}
+
+/**
+ * Returns the A-Z header for a note name. Names that do not start with a letter use "#".
+ */
+export function getAlphabeticalGroupLabel(name: string): string {
+    const firstChar = Array.from(name.trim())[0];
+    if (!firstChar || !/\p{L}/u.test(firstChar)) {
+        return '#';
+    }
+    return firstChar.toLocaleUpperCase();
+}
+
+export interface ListFileGroup {
+    key: string;
+    label: string;
+    files: TFile[];
+}
+
+/**
+ * Collects files into groups ordered naturally by label, keeping files in their sorted order within each group.
+ * The group matching `leadingKey` is placed first and files without a group are collected in a trailing group.
+ */
+export function groupFilesByValue(
+    files: readonly TFile[],
+    resolveGroup: (file: TFile) => { key: string; label: string } | null,
+    options: { missingLabel: string; leadingKey?: string | null }
+): ListFileGroup[] {
+    const groups = new Map<string, ListFileGroup>();
+    const missingFiles: TFile[] = [];
+
+    files.forEach(file => {
+        const resolved = resolveGroup(file);
+        if (!resolved) {
+            missingFiles.push(file);
+            return;
+        }
+        let group = groups.get(resolved.key);
+        if (!group) {
+            group = { key: resolved.key, label: resolved.label, files: [] };
+            groups.set(resolved.key, group);
+        }
+        group.files.push(file);
+    });
+
+    const leadingKey = options.leadingKey ?? null;
+    const ordered = Array.from(groups.values()).sort((a, b) => {
+        if (a.key === leadingKey || b.key === leadingKey) {
+            return a.key === leadingKey ? -1 : 1;
+        }
+        const labelCompare = naturalCompare(a.label, b.label);
+        if (labelCompare !== 0) {
+            return labelCompare;
+        }
+        return a.key < b.key ? -1 : a.key > b.key ? 1 : 0;
+    });
+
+    if (missingFiles.length > 0) {
+        ordered.push({ key: '', label: options.missingLabel, files: missingFiles });
+    }
+    return ordered;
+}
+
 /**
  * Calculates effective list grouping for the current selection.
  * Normalizes legacy tag overrides that stored "folder" by falling back to the tag default.
  */
-export function resolveListGrouping({ settings, selectionType, folderPath, tag }: ResolveListGroupingParams): ListGroupingResolution {
+export function resolveListGrouping({
+    settings,
+    selectionType,
+    folderPath,
+    tag,
+    smartFolderAppearance
+}: ResolveListGroupingParams): ListGroupingResolution {
     const globalDefault: ListNoteGroupingOption = settings.noteGrouping ?? 'none';
 
     // Folder selection: use folder-specific override if set, otherwise use global default
     if (selectionType === ItemType.FOLDER && folderPath) {
-        const rawOverride = settings.folderAppearances?.[folderPath]?.groupBy;
+        const storedOverride = settings.folderAppearances?.[folderPath]?.groupBy;
+        const rawOverride = isListNoteGroupingOption(storedOverride) ? storedOverride : undefined;
         return {
             defaultGrouping: globalDefault,
             effectiveGrouping: rawOverride ?? globalDefault,
@@ -52,9 +247,11 @@ export function resolveListGrouping({ settings, selectionType, folderPath, tag }
         };
     }
 
-    // Tag selection: tags don't support "folder" grouping, so normalize default and overrides
-    if (selectionType === ItemType.TAG && tag) {
-        const rawOverride = settings.tagAppearances?.[tag]?.groupBy;
+    // Tag and smart folder selections: "folder" grouping is not supported, so normalize default and overrides
+    const isTagSelection = selectionType === ItemType.TAG && Boolean(tag);
+    if (isTagSelection || selectionType === ItemType.SMART_FOLDER) {
+        const storedOverride = isTagSelection && tag ? settings.tagAppearances?.[tag]?.groupBy : smartFolderAppearance?.groupBy;
+        const rawOverride = isListNoteGroupingOption(storedOverride) ? storedOverride : undefined;
         // If global default is "folder", fall back to "date" for tags
         const defaultTagGrouping: ListNoteGroupingOption = globalDefault === 'folder' ? 'date' : globalDefault;
 
@@ -68,7 +265,7 @@ export function resolveListGrouping({ settings, selectionType, folderPath, tag }
             };
         }
 
-        // Valid custom override for tag (none or date)
+        // Valid custom override for tag (any option except folder)
         return {
             defaultGrouping: defaultTagGrouping,
             effectiveGrouping: rawOverride,
@@ -72,6 +72,7 @@ function isIndentGuideTreeItem(item: IndentGuideItem): item is IndentGuideItem &
         item.type === NavigationPaneItemType.UNTAGGED ||
         item.type === NavigationPaneItemType.PROPERTY_KEY ||
         item.type === NavigationPaneItemType.PROPERTY_VALUE ||
+        item.type === NavigationPaneItemType.SMART_FOLDER ||
         item.type === NavigationPaneItemType.VIRTUAL_FOLDER
     );
 }
@@ -24,7 +24,8 @@ const SECTION_KEY_BY_ID: Record<NavigationSectionId, string> = {
     [NavigationSectionId.RECENT]: 'recent',
     [NavigationSectionId.FOLDERS]: 'folders',
     [NavigationSectionId.TAGS]: 'tags',
-    [NavigationSectionId.PROPERTIES]: 'properties'
+    [NavigationSectionId.PROPERTIES]: 'properties',
+    [NavigationSectionId.SMART_FOLDERS]: 'smart-folders'
 };
 
 /** Accepts canonical keys and documented aliases when parsing section entries */
@@ -34,7 +35,8 @@ const SECTION_ID_BY_KEY: Record<string, NavigationSectionId> = {
     recents: NavigationSectionId.RECENT,
     folders: NavigationSectionId.FOLDERS,
     tags: NavigationSectionId.TAGS,
-    properties: NavigationSectionId.PROPERTIES
+    properties: NavigationSectionId.PROPERTIES,
+    'smart-folders': NavigationSectionId.SMART_FOLDERS
 };
 
 export type SectionSeparatorTarget = {
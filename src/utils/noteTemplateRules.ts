@@ -0,0 +1,164 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { isNoteTemplateRuleTarget, type NoteTemplateRule } from '../settings/types';
+import { isPlainObjectRecordValue } from './recordUtils';
+import { normalizeTagPath } from './tagUtils';
+
+/** Navigator context a new note is created from */
+export type NoteTemplateContext =
+    | { target: 'folder'; folderPath: string }
+    | { target: 'tag'; tagPath: string }
+    | { target: 'property'; frontmatterValues: readonly (readonly [string, unknown])[] };
+
+/**
+ * Normalizes stored note template rules, dropping entries with an invalid target or no template and no file name pattern.
+ * Folder rules keep an empty pattern, which matches every folder.
+ */
+export function normalizeNoteTemplateRules(value: unknown): NoteTemplateRule[] {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+
+    const rules: NoteTemplateRule[] = [];
+    value.forEach(entry => {
+        if (!isPlainObjectRecordValue(entry) || !isNoteTemplateRuleTarget(entry.target)) {
+            return;
+        }
+
+        const pattern = typeof entry.pattern === 'string' ? entry.pattern.trim() : '';
+        const templatePath = typeof entry.templatePath === 'string' ? entry.templatePath.trim() : '';
+        const fileNamePattern = typeof entry.fileNamePattern === 'string' ? entry.fileNamePattern.trim() : '';
+        if (!templatePath && !fileNamePattern) {
+            return;
+        }
+        if (entry.target !== 'folder' && !pattern) {
+            return;
+        }
+
+        rules.push({ target: entry.target, pattern, templatePath, fileNamePattern });
+    });
+    return rules;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/gu, '\\$&');
+}
+
+/**
+ * Builds a matcher for a folder path pattern.
+ * A plain path matches the folder and its descendants, `*` matches within one path segment and `**` matches any number of segments.
+ */
+function buildFolderPatternRegExp(pattern: string): RegExp {
+    const segments = pattern.split('/').filter(segment => segment.length > 0);
+    const source = segments
+        .map(segment => {
+            if (segment === '**') {
+                return '(?:/[^/]+)*';
+            }
+            return `/${segment.split('*').map(escapeRegExp).join('[^/]*')}`;
+        })
+        .join('');
+    return new RegExp(`^${source}(?:/.*)?$`, 'u');
+}
+
+/**
+ * Checks whether a folder path matches a folder rule pattern. Empty and "/" patterns match every folder.
+ */
+export function matchesFolderPattern(pattern: string, folderPath: string): boolean {
+    const normalizedFolderPath = folderPath === '/' ? '' : `/${folderPath.replace(/^\/+|\/+$/gu, '')}`;
+    return buildFolderPatternRegExp(pattern.trim()).test(normalizedFolderPath);
+}
+
+/**
+ * Checks whether a tag matches a tag rule pattern. The pattern matches the tag and its descendants, ignoring case and a leading #.
+ */
+export function matchesTagPattern(pattern: string, tagPath: string): boolean {
+    const normalizedPattern = normalizeTagPath(pattern);
+    const normalizedTag = normalizeTagPath(tagPath);
+    if (!normalizedPattern || !normalizedTag) {
+        return false;
+    }
+    return normalizedTag === normalizedPattern || normalizedTag.startsWith(`${normalizedPattern}/`);
+}
+
+function propertyValueMatches(value: unknown, expected: string): boolean {
+    if (Array.isArray(value)) {
+        return value.some(item => propertyValueMatches(item, expected));
+    }
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        return String(value).trim().toLowerCase() === expected;
+    }
+    return false;
+}
+
+/**
+ * Checks whether the frontmatter values applied to a new note match a property rule pattern.
+ * `key` matches any value of the property and `key=value` matches one value, both ignoring case.
+ */
+export function matchesPropertyPattern(pattern: string, frontmatterValues: readonly (readonly [string, unknown])[]): boolean {
+    const separatorIndex = pattern.indexOf('=');
+    const key = (separatorIndex === -1 ? pattern : pattern.slice(0, separatorIndex)).trim().toLowerCase();
+    const expectedValue =
+        separatorIndex === -1
+            ? null
+            : pattern
+                  .slice(separatorIndex + 1)
+                  .trim()
+                  .toLowerCase();
+    if (!key) {
+        return false;
+    }
+
+    return frontmatterValues.some(([propertyKey, propertyValue]) => {
+        if (propertyKey.trim().toLowerCase() !== key) {
+            return false;
+        }
+        return expectedValue === null || propertyValueMatches(propertyValue, expectedValue);
+    });
+}
+
+/**
+ * Returns the first rule that applies to the context a note is created from, or null when no rule applies.
+ */
+export function findNoteTemplateRule(rules: readonly NoteTemplateRule[], context: NoteTemplateContext): NoteTemplateRule | null {
+    for (const rule of rules) {
+        if (rule.target !== context.target) {
+            continue;
+        }
+
+        switch (context.target) {
+            case 'folder':
+                if (matchesFolderPattern(rule.pattern, context.folderPath)) {
+                    return rule;
+                }
+                break;
+            case 'tag':
+                if (matchesTagPattern(rule.pattern, context.tagPath)) {
+                    return rule;
+                }
+                break;
+            case 'property':
+                if (matchesPropertyPattern(rule.pattern, context.frontmatterValues)) {
+                    return rule;
+                }
+                break;
+        }
+    }
+    return null;
+}
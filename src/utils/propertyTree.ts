@@ -21,6 +21,7 @@ import type { PropertyTreeNode, PropertyTreeNodeId } from '../types/storage';
 import { PROPERTIES_ROOT_VIRTUAL_FOLDER_ID } from '../types';
 import type { NotebookNavigatorSettings } from '../settings';
 import type { IPropertyTreeProvider } from '../interfaces/IPropertyTreeProvider';
+import type { PropertyHierarchy } from '../types/propertyHierarchies';
 import { isPathInExcludedFolder } from './fileFilters';
 import { getCachedCommaSeparatedList } from './commaSeparatedListUtils';
 import { normalizePropertyTreeValuePath, parseStrictWikiLink } from './propertyUtils';
@@ -198,7 +199,7 @@ export function isPropertyFeatureEnabled(settings: NotebookNavigatorSettings): b
         return false;
     }
 
-    return getActivePropertyKeySet(settings, 'any').size > 0;
+    return getActivePropertyKeySet(settings, 'any').size > 0 || settings.propertyHierarchies.length > 0;
 }
 
 export function determinePropertyToReveal(
@@ -494,6 +495,10 @@ export function isPropertySelectionNodeIdConfigured(
         return true;
     }
 
+    if (isPropertyHierarchyNodeId(selectionNodeId)) {
+        return isPropertyHierarchyConfigured(settings, selectionNodeId);
+    }
+
     const parsed = parsePropertyNodeId(selectionNodeId);
     if (!parsed) {
         return false;
@@ -510,6 +515,10 @@ export function isPropertySelectionNodeIdVisibleInNavigation(
         return true;
     }
 
+    if (isPropertyHierarchyNodeId(selectionNodeId)) {
+        return isPropertyHierarchyConfigured(settings, selectionNodeId);
+    }
+
     const parsed = parsePropertyNodeId(selectionNodeId);
     if (!parsed) {
         return false;
@@ -530,19 +539,31 @@ export function canRestorePropertySelectionNodeId(settings: NotebookNavigatorSet
     return isPropertySelectionNodeIdVisibleInNavigation(settings, selectionNodeId);
 }
 
+function isPropertyHierarchyConfigured(settings: NotebookNavigatorSettings, nodeId: string): boolean {
+    const parsed = parsePropertyHierarchyNodeId(nodeId);
+    return parsed !== null && settings.propertyHierarchies.some(hierarchy => hierarchy.id === parsed.hierarchyId);
+}
+
 /**
  * Resolves a property selection id against the current property tree.
  * Falls back to the key node when a value node no longer exists.
  * Falls back to properties root when the key does not exist.
+ * Hierarchy nodes fall back to their nearest existing ancestor.
  */
 export function resolvePropertySelectionNodeId(
     propertyTree: ReadonlyMap<string, PropertyTreeNode>,
-    selectionNodeId: PropertySelectionNodeId
+    selectionNodeId: PropertySelectionNodeId,
+    propertyHierarchyTree: ReadonlyMap<string, PropertyTreeNode> = new Map()
 ): PropertySelectionNodeId {
     if (selectionNodeId === PROPERTIES_ROOT_VIRTUAL_FOLDER_ID) {
         return selectionNodeId;
     }
 
+    if (isPropertyHierarchyNodeId(selectionNodeId)) {
+        const lineage = getPropertyHierarchyNodeLineage(propertyHierarchyTree, selectionNodeId);
+        return lineage.length > 0 ? lineage[lineage.length - 1].id : PROPERTIES_ROOT_VIRTUAL_FOLDER_ID;
+    }
+
     const parsed = parsePropertyNodeId(selectionNodeId);
     if (!parsed) {
         return PROPERTIES_ROOT_VIRTUAL_FOLDER_ID;
@@ -689,6 +710,54 @@ export function getPropertyKeyNodeIdFromNodeId(nodeId: string): string | null {
     return nodeId.slice(0, valueDelimiterIndex);
 }
 
+/**
+ * Returns true when a key equals one of the root keys or is nested below it (`root/child`).
+ */
+export function isInPropertyNodeSubtree(key: string, rootKeys: readonly string[]): boolean {
+    return rootKeys.some(rootKey => key === rootKey || key.startsWith(`${rootKey}/`));
+}
+
+/**
+ * Copies the record entries stored for the root keys and the keys nested below them.
+ */
+export function pickPropertySubtreeEntries<T>(record: Record<string, T> | undefined, rootKeys: readonly string[]): Record<string, T> {
+    const entries: Record<string, T> = {};
+    if (!record) {
+        return entries;
+    }
+    Object.keys(record).forEach(key => {
+        if (isInPropertyNodeSubtree(key, rootKeys)) {
+            entries[key] = record[key];
+        }
+    });
+    return entries;
+}
+
+/**
+ * Replaces the record entries stored for the root keys and the keys nested below them.
+ * @returns True when the record changed
+ */
+export function replacePropertySubtreeEntries<T>(
+    record: Record<string, T>,
+    rootKeys: readonly string[],
+    entries: Record<string, T>
+): boolean {
+    let changed = false;
+    Object.keys(record).forEach(key => {
+        if (isInPropertyNodeSubtree(key, rootKeys) && !Object.prototype.hasOwnProperty.call(entries, key)) {
+            delete record[key];
+            changed = true;
+        }
+    });
+    Object.entries(entries).forEach(([key, value]) => {
+        if (record[key] !== value) {
+            record[key] = value;
+            changed = true;
+        }
+    });
+    return changed;
+}
+
 export function parsePropertyNodeId(nodeId: string): { key: string; valuePath: string | null } | null {
     if (!nodeId.startsWith(PROPERTY_NODE_ID_PREFIX)) {
         return null;
@@ -794,7 +863,7 @@ export function parseStoredPropertySelectionNodeId(value: unknown): PropertySele
         if (value === PROPERTIES_ROOT_VIRTUAL_FOLDER_ID) {
             return PROPERTIES_ROOT_VIRTUAL_FOLDER_ID;
         }
-        return isPropertyTreeNodeId(value) ? value : null;
+        return isPropertyTreeNodeId(value) || isPropertyHierarchyNodeId(value) ? value : null;
     }
 
     const legacySelection = parseLegacyStoredPropertySelection(value);
@@ -907,3 +976,226 @@ export function buildPropertyTreeFromDatabase(
 
     return sortPropertyTreeNodes(tree);
 }
+
+const PROPERTY_HIERARCHY_NODE_ID_PREFIX = 'hierarchy:';
+const PROPERTY_HIERARCHY_NODE_ID_SEGMENT_DELIMITER = '/';
+
+function encodePropertyHierarchySegment(value: string): string {
+    return value.replace(/%/g, '%25').replace(/\//g, '%2F');
+}
+
+function decodePropertyHierarchySegment(value: string): string {
+    return value.replace(/%2[fF]/g, '/').replace(/%25/g, '%');
+}
+
+/**
+ * Builds the node id for a property hierarchy root (no value paths) or a nested hierarchy value.
+ * Value paths list the normalized value selected at each level, from the outermost level inward.
+ */
+export function buildPropertyHierarchyNodeId(hierarchyId: string, valuePaths: readonly string[] = []): PropertyTreeNodeId {
+    const segments = [hierarchyId, ...valuePaths].map(encodePropertyHierarchySegment);
+    return `${PROPERTY_HIERARCHY_NODE_ID_PREFIX}${segments.join(PROPERTY_HIERARCHY_NODE_ID_SEGMENT_DELIMITER)}`;
+}
+
+export function parsePropertyHierarchyNodeId(nodeId: string): { hierarchyId: string; valuePaths: string[] } | null {
+    if (!nodeId.startsWith(PROPERTY_HIERARCHY_NODE_ID_PREFIX)) {
+        return null;
+    }
+
+    const segments = nodeId
+        .slice(PROPERTY_HIERARCHY_NODE_ID_PREFIX.length)
+        .split(PROPERTY_HIERARCHY_NODE_ID_SEGMENT_DELIMITER)
+        .map(decodePropertyHierarchySegment);
+    if (segments.some(segment => segment.length === 0)) {
+        return null;
+    }
+
+    const [hierarchyId, ...valuePaths] = segments;
+    return { hierarchyId, valuePaths };
+}
+
+export function isPropertyHierarchyNodeId(value: string): value is PropertyTreeNodeId {
+    return parsePropertyHierarchyNodeId(value) !== null;
+}
+
+/**
+ * Returns the parent node id of a nested hierarchy node, or null for hierarchy roots and non-hierarchy ids.
+ */
+export function getPropertyHierarchyParentNodeId(nodeId: string): PropertyTreeNodeId | null {
+    const parsed = parsePropertyHierarchyNodeId(nodeId);
+    if (!parsed || parsed.valuePaths.length === 0) {
+        return null;
+    }
+
+    return buildPropertyHierarchyNodeId(parsed.hierarchyId, parsed.valuePaths.slice(0, -1));
+}
+
+/**
+ * Returns the existing hierarchy nodes on the path to a hierarchy node id, starting at the hierarchy root.
+ * Stops at the deepest node that still exists, so the last entry is the nearest existing ancestor.
+ */
+export function getPropertyHierarchyNodeLineage(
+    propertyHierarchyTree: ReadonlyMap<string, PropertyTreeNode>,
+    nodeId: string
+): PropertyTreeNode[] {
+    const parsed = parsePropertyHierarchyNodeId(nodeId);
+    if (!parsed) {
+        return [];
+    }
+
+    let node = propertyHierarchyTree.get(parsed.hierarchyId);
+    if (!node) {
+        return [];
+    }
+
+    const lineage: PropertyTreeNode[] = [node];
+    for (let level = 0; level < parsed.valuePaths.length; level += 1) {
+        const childId = buildPropertyHierarchyNodeId(parsed.hierarchyId, parsed.valuePaths.slice(0, level + 1));
+        const child: PropertyTreeNode | undefined = node.children.get(childId);
+        if (!child) {
+            break;
+        }
+        lineage.push(child);
+        node = child;
+    }
+
+    return lineage;
+}
+
+/**
+ * Finds the hierarchy node with the exact node id, or null when any level on its path no longer exists.
+ */
+export function findPropertyHierarchyNode(
+    propertyHierarchyTree: ReadonlyMap<string, PropertyTreeNode>,
+    nodeId: string
+): PropertyTreeNode | null {
+    const lineage = getPropertyHierarchyNodeLineage(propertyHierarchyTree, nodeId);
+    const node = lineage[lineage.length - 1];
+    return node && node.id === nodeId ? node : null;
+}
+
+function sortPropertyHierarchyChildren(node: PropertyTreeNode): void {
+    node.children = sortPropertyValueChildren(node.children);
+    node.children.forEach(child => sortPropertyHierarchyChildren(child));
+}
+
+/**
+ * Builds one nested tree per property hierarchy from the IndexedDB cache.
+ *
+ * Notes:
+ * - Tree roots are keyed by hierarchy id and include every note that has the first level key.
+ * - Each level nests the values of its key below every value of the previous level.
+ * - Notes with several values for a key appear below each value.
+ * - Notes without a value for the next level key stay on their deepest matching node.
+ */
+export function buildPropertyHierarchyTreesFromDatabase(
+    db: PropertyTreeDatabaseLike,
+    hierarchies: readonly PropertyHierarchy[],
+    options: Pick<BuildPropertyTreeOptions, 'excludedFolderPatterns'> = {}
+): Map<string, PropertyTreeNode> {
+    const trees = new Map<string, PropertyTreeNode>();
+    if (hierarchies.length === 0) {
+        return trees;
+    }
+
+    const levelKeysByHierarchy = new Map<string, string[]>();
+    hierarchies.forEach(hierarchy => {
+        const levelKeys = hierarchy.keys.map(normalizePropertyTreeKey);
+        levelKeysByHierarchy.set(hierarchy.id, levelKeys);
+        trees.set(hierarchy.id, {
+            id: buildPropertyHierarchyNodeId(hierarchy.id),
+            kind: 'key',
+            key: levelKeys[0] ?? '',
+            valuePath: null,
+            name: hierarchy.name,
+            displayPath: hierarchy.name,
+            children: new Map(),
+            notesWithValue: new Set()
+        });
+    });
+
+    const excludedFolderPatterns = options.excludedFolderPatterns ?? [];
+    const hasExcludedFolders = excludedFolderPatterns.length > 0;
+
+    db.forEachFile((path, fileData) => {
+        if (hasExcludedFolders && isPathInExcludedFolder(path, excludedFolderPatterns)) {
+            return;
+        }
+
+        const properties = fileData.properties;
+        if (!properties || properties.length === 0) {
+            return;
+        }
+
+        const keysInFile = new Set<string>();
+        const valuesByKey = new Map<string, Map<string, string>>();
+        for (const propertyEntry of properties) {
+            const normalizedKey = normalizePropertyTreeKey(propertyEntry.fieldKey);
+            if (!normalizedKey) {
+                continue;
+            }
+            keysInFile.add(normalizedKey);
+
+            const normalizedValuePath = normalizePropertyTreeValuePath(propertyEntry.value);
+            if (isPropertyKeyOnlyValuePath(normalizedValuePath, propertyEntry.valueKind)) {
+                continue;
+            }
+
+            const displayValuePath = normalizePropertyTreeDisplayValuePath(propertyEntry.value);
+            if (!displayValuePath) {
+                continue;
+            }
+
+            let values = valuesByKey.get(normalizedKey);
+            if (!values) {
+                values = new Map();
+                valuesByKey.set(normalizedKey, values);
+            }
+            if (!values.has(normalizedValuePath)) {
+                values.set(normalizedValuePath, displayValuePath);
+            }
+        }
+
+        hierarchies.forEach(hierarchy => {
+            const levelKeys = levelKeysByHierarchy.get(hierarchy.id) ?? [];
+            const rootNode = trees.get(hierarchy.id);
+            if (!rootNode || levelKeys.length === 0 || !keysInFile.has(levelKeys[0])) {
+                return;
+            }
+
+            const addToLevel = (parentNode: PropertyTreeNode, level: number, valuePaths: string[]) => {
+                parentNode.notesWithValue.add(path);
+                const levelKey = levelKeys[level];
+                const values = levelKey ? valuesByKey.get(levelKey) : undefined;
+                if (!values) {
+                    return;
+                }
+
+                values.forEach((displayValuePath, normalizedValuePath) => {
+                    const childValuePaths = [...valuePaths, normalizedValuePath];
+                    const nodeId = buildPropertyHierarchyNodeId(hierarchy.id, childValuePaths);
+                    let childNode = parentNode.children.get(nodeId);
+                    if (!childNode) {
+                        childNode = {
+                            id: nodeId,
+                            kind: 'value',
+                            key: levelKey,
+                            valuePath: normalizedValuePath,
+                            name: displayValuePath,
+                            displayPath: displayValuePath,
+                            children: new Map(),
+                            notesWithValue: new Set()
+                        };
+                        parentNode.children.set(nodeId, childNode);
+                    }
+                    addToLevel(childNode, level + 1, childValuePaths);
+                });
+            };
+
+            addToLevel(rootNode, 0, []);
+        });
+    });
+
+    trees.forEach(rootNode => sortPropertyHierarchyChildren(rootNode));
+    return trees;
+}
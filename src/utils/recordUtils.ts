@@ -88,6 +88,7 @@ export interface PinnedNoteContextValue {
     folder: boolean;
     tag: boolean;
     property: boolean;
+    'smart-folder': boolean;
 }
 
 /**
@@ -95,18 +96,22 @@ export interface PinnedNoteContextValue {
  */
 export function normalizePinnedNoteContext(value: unknown): PinnedNoteContextValue {
     if (!isPlainObjectRecordValue(value)) {
-        return { folder: false, tag: false, property: false };
+        return { folder: false, tag: false, property: false, 'smart-folder': false };
     }
 
     const folder = value.folder === true;
     const tag = value.tag === true;
+    // Legacy pinned context values only stored folder+tag.
+    // Treating both as true implies the file was pinned everywhere before property context existed.
+    const property = value.property === true || (!Object.prototype.hasOwnProperty.call(value, 'property') && folder && tag);
 
     return {
         folder,
         tag,
-        // Legacy pinned context values only stored folder+tag.
-        // Treating both as true implies the file was pinned everywhere before property context existed.
-        property: value.property === true || (!Object.prototype.hasOwnProperty.call(value, 'property') && folder && tag)
+        property,
+        // Values stored before smart folders existed are pinned there only when pinned in every other context
+        'smart-folder':
+            value['smart-folder'] === true || (!Object.prototype.hasOwnProperty.call(value, 'smart-folder') && folder && tag && property)
     };
 }
 
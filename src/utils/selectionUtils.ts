@@ -22,14 +22,14 @@ import { ItemType, type NavigationItemType, type VisibilityPreferences } from '.
 import { NotebookNavigatorSettings } from '../settings';
 import type { IPropertyTreeProvider } from '../interfaces/IPropertyTreeProvider';
 import type { ITagTreeProvider } from '../interfaces/ITagTreeProvider';
-import { getFilesForFolder, getFilesForProperty, getFilesForTag } from './fileFinder';
+import { getFilesForFolder, getFilesForProperty, getFilesForSmartFolder, getFilesForTag } from './fileFinder';
 
 /**
  * Utilities for managing file selection operations
  */
 
 /**
- * Get the path of the currently selected folder or tag
+ * Get the path of the currently selected folder, tag, property, or smart folder
  * @param selectionState The current selection state
  * @returns The path string or null if nothing is selected
  */
@@ -43,6 +43,9 @@ export function getSelectedPath(selectionState: SelectionState): string | null {
     if (selectionState.selectionType === ItemType.PROPERTY && selectionState.selectedProperty) {
         return selectionState.selectedProperty;
     }
+    if (selectionState.selectionType === ItemType.SMART_FOLDER && selectionState.selectedSmartFolder) {
+        return selectionState.selectedSmartFolder;
+    }
     return null;
 }
 
@@ -68,7 +71,8 @@ export function getFilesForSelection(
             selectionType: selectionState.selectionType,
             selectedFolder: selectionState.selectedFolder,
             selectedTag: selectionState.selectedTag,
-            selectedProperty: selectionState.selectedProperty
+            selectedProperty: selectionState.selectedProperty,
+            selectedSmartFolder: selectionState.selectedSmartFolder
         },
         settings,
         visibility,
@@ -83,6 +87,7 @@ export interface NavigationSelectionScope {
     selectedFolder?: SelectionState['selectedFolder'];
     selectedTag?: SelectionState['selectedTag'];
     selectedProperty?: SelectionState['selectedProperty'];
+    selectedSmartFolder?: SelectionState['selectedSmartFolder'];
 }
 
 export function getFilesForNavigationSelection(
@@ -102,6 +107,9 @@ export function getFilesForNavigationSelection(
     if (selectionScope.selectionType === ItemType.PROPERTY && selectionScope.selectedProperty) {
         return getFilesForProperty(selectionScope.selectedProperty, settings, visibility, app, propertyTreeService);
     }
+    if (selectionScope.selectionType === ItemType.SMART_FOLDER && selectionScope.selectedSmartFolder) {
+        return getFilesForSmartFolder(selectionScope.selectedSmartFolder, settings, visibility, app);
+    }
     return [];
 }
 
@@ -0,0 +1,128 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import type { App } from 'obsidian';
+import type NotebookNavigatorPlugin from '../main';
+import { ConfirmModal } from '../modals/ConfirmModal';
+import { SmartFolderModal } from '../modals/SmartFolderModal';
+import { strings } from '../i18n';
+import type { SmartFolder } from '../types/smartFolders';
+import {
+    addActiveSmartFolder,
+    createSmartFolderId,
+    findSmartFolder,
+    removeActiveSmartFolder,
+    updateActiveSmartFolder,
+    validateSmartFolderName
+} from './smartFolders';
+import { getActiveSmartFolders } from './vaultProfiles';
+
+interface CreateSmartFolderParams {
+    app: App;
+    plugin: NotebookNavigatorPlugin;
+    /** Parent smart folder id for nested smart folders */
+    parentId?: string | null;
+    /** Query prefilled in the modal, typically the current search */
+    initialQuery?: string;
+    onCreated?: (folder: SmartFolder) => void;
+}
+
+interface SmartFolderActionParams {
+    app: App;
+    plugin: NotebookNavigatorPlugin;
+    smartFolderId: string;
+}
+
+/**
+ * Opens the smart folder modal and adds the new smart folder to the active profile.
+ */
+export function openCreateSmartFolderModal({ app, plugin, parentId = null, initialQuery, onCreated }: CreateSmartFolderParams): void {
+    const parent = parentId ? findSmartFolder(getActiveSmartFolders(plugin.settings), parentId) : null;
+    if (parentId && !parent) {
+        return;
+    }
+
+    const modal = new SmartFolderModal(app, {
+        title: parent ? strings.modals.smartFolder.newNestedTitle.replace('{name}', parent.name) : strings.modals.smartFolder.newTitle,
+        submitLabel: strings.modals.smartFolder.create,
+        initialQuery,
+        validateName: name => validateSmartFolderName(getActiveSmartFolders(plugin.settings), name, parent?.id ?? null),
+        onSubmit: async ({ name, query }) => {
+            const folder: SmartFolder = {
+                id: createSmartFolderId(),
+                name,
+                query,
+                parentId: parent?.id ?? null
+            };
+            addActiveSmartFolder(plugin.settings, folder);
+            await plugin.saveSettingsAndUpdate();
+            onCreated?.(folder);
+        }
+    });
+    modal.open();
+}
+
+/**
+ * Opens the smart folder modal to rename a smart folder or change its query.
+ */
+export function openEditSmartFolderModal({ app, plugin, smartFolderId }: SmartFolderActionParams): void {
+    const folder = findSmartFolder(getActiveSmartFolders(plugin.settings), smartFolderId);
+    if (!folder) {
+        return;
+    }
+
+    const modal = new SmartFolderModal(app, {
+        title: strings.modals.smartFolder.editTitle,
+        submitLabel: strings.modals.smartFolder.save,
+        initialName: folder.name,
+        initialQuery: folder.query,
+        validateName: name => validateSmartFolderName(getActiveSmartFolders(plugin.settings), name, folder.parentId, folder.id),
+        onSubmit: async ({ name, query }) => {
+            const updated = updateActiveSmartFolder(plugin.settings, smartFolderId, target => {
+                target.name = name;
+                target.query = query;
+            });
+            if (updated) {
+                await plugin.saveSettingsAndUpdate();
+            }
+        }
+    });
+    modal.open();
+}
+
+/**
+ * Confirms and removes a smart folder together with its nested smart folders.
+ */
+export function confirmDeleteSmartFolder({ app, plugin, smartFolderId }: SmartFolderActionParams): void {
+    const folder = findSmartFolder(getActiveSmartFolders(plugin.settings), smartFolderId);
+    if (!folder) {
+        return;
+    }
+
+    const modal = new ConfirmModal(
+        app,
+        strings.modals.smartFolder.deleteTitle.replace('{name}', folder.name),
+        strings.modals.smartFolder.deleteMessage,
+        async () => {
+            if (removeActiveSmartFolder(plugin.settings, smartFolderId)) {
+                await plugin.saveSettingsAndUpdate();
+            }
+        }
+    );
+    modal.open();
+}
@@ -0,0 +1,194 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { strings } from '../i18n';
+import type { NotebookNavigatorSettings } from '../settings';
+import type { SmartFolder } from '../types/smartFolders';
+import { naturalCompare } from './sortUtils';
+import { getActiveVaultProfile } from './vaultProfiles';
+
+/**
+ * Generates a unique smart folder id.
+ */
+export function createSmartFolderId(): string {
+    return `smart-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Finds a smart folder by id.
+ */
+export function findSmartFolder(folders: readonly SmartFolder[], id: string | null | undefined): SmartFolder | null {
+    if (!id) {
+        return null;
+    }
+    return folders.find(folder => folder.id === id) ?? null;
+}
+
+/**
+ * Returns the smart folders from the root down to the target, or an empty array when the id is unknown.
+ * Every query in the lineage must match for a note to be listed in the target smart folder.
+ */
+export function getSmartFolderLineage(folders: readonly SmartFolder[], id: string): SmartFolder[] {
+    const byId = new Map(folders.map(folder => [folder.id, folder]));
+    const lineage: SmartFolder[] = [];
+    const visited = new Set<string>();
+    let current = byId.get(id) ?? null;
+    while (current && !visited.has(current.id)) {
+        visited.add(current.id);
+        lineage.unshift(current);
+        current = current.parentId ? (byId.get(current.parentId) ?? null) : null;
+    }
+    return lineage;
+}
+
+/**
+ * Returns the direct children of a smart folder sorted by name.
+ */
+export function getSmartFolderChildren(folders: readonly SmartFolder[], parentId: string): SmartFolder[] {
+    return folders.filter(folder => folder.parentId === parentId).sort((a, b) => naturalCompare(a.name, b.name));
+}
+
+/**
+ * Returns root smart folders in custom order.
+ * Folders missing from the order follow the ordered ones, sorted by name.
+ */
+export function getOrderedRootSmartFolders(folders: readonly SmartFolder[], order: readonly string[]): SmartFolder[] {
+    const roots = folders.filter(folder => folder.parentId === null);
+    const orderIndex = new Map(order.map((id, index) => [id, index]));
+    return roots.sort((a, b) => {
+        const indexA = orderIndex.get(a.id);
+        const indexB = orderIndex.get(b.id);
+        if (indexA !== undefined && indexB !== undefined) {
+            return indexA - indexB;
+        }
+        if (indexA !== undefined) {
+            return -1;
+        }
+        if (indexB !== undefined) {
+            return 1;
+        }
+        return naturalCompare(a.name, b.name);
+    });
+}
+
+/**
+ * Collects the ids of a smart folder and all of its descendants.
+ */
+function collectSmartFolderSubtreeIds(folders: readonly SmartFolder[], id: string): Set<string> {
+    const ids = new Set<string>([id]);
+    let added = true;
+    while (added) {
+        added = false;
+        folders.forEach(folder => {
+            if (folder.parentId !== null && ids.has(folder.parentId) && !ids.has(folder.id)) {
+                ids.add(folder.id);
+                added = true;
+            }
+        });
+    }
+    return ids;
+}
+
+/**
+ * Removes a smart folder and its descendants.
+ * @returns The remaining folders and root order, or null when the id is unknown
+ */
+export function removeSmartFolder(
+    folders: readonly SmartFolder[],
+    order: readonly string[],
+    id: string
+): { folders: SmartFolder[]; order: string[] } | null {
+    if (!findSmartFolder(folders, id)) {
+        return null;
+    }
+
+    const removedIds = collectSmartFolderSubtreeIds(folders, id);
+    return {
+        folders: folders.filter(folder => !removedIds.has(folder.id)),
+        order: order.filter(entry => !removedIds.has(entry))
+    };
+}
+
+/**
+ * Validates a smart folder name against its siblings.
+ * @param excludeId - Id of the smart folder being renamed, skipped in the duplicate check
+ * @returns Localized error message, or null when the name is valid
+ */
+export function validateSmartFolderName(
+    folders: readonly SmartFolder[],
+    name: string,
+    parentId: string | null,
+    excludeId?: string
+): string | null {
+    const trimmed = name.trim();
+    if (!trimmed) {
+        return strings.modals.smartFolder.emptyName;
+    }
+
+    const normalized = trimmed.toLowerCase();
+    const hasDuplicate = folders.some(
+        folder => folder.id !== excludeId && folder.parentId === parentId && folder.name.trim().toLowerCase() === normalized
+    );
+    return hasDuplicate ? strings.modals.smartFolder.duplicateName : null;
+}
+
+/**
+ * Adds a smart folder to the active profile.
+ * Root smart folders are appended to a custom root order; an empty order keeps alphabetical sorting.
+ */
+export function addActiveSmartFolder(settings: NotebookNavigatorSettings, folder: SmartFolder): void {
+    const profile = getActiveVaultProfile(settings);
+    profile.smartFolders = [...(profile.smartFolders ?? []), folder];
+    const order = profile.smartFolderOrder ?? [];
+    if (folder.parentId === null && order.length > 0) {
+        profile.smartFolderOrder = [...order, folder.id];
+    }
+}
+
+/**
+ * Applies a mutation to a smart folder in the active profile.
+ * @returns True when the smart folder exists and the mutation was applied
+ */
+export function updateActiveSmartFolder(settings: NotebookNavigatorSettings, id: string, mutate: (folder: SmartFolder) => void): boolean {
+    const profile = getActiveVaultProfile(settings);
+    const folders = profile.smartFolders ?? [];
+    const index = folders.findIndex(folder => folder.id === id);
+    if (index === -1) {
+        return false;
+    }
+
+    const next = { ...folders[index] };
+    mutate(next);
+    profile.smartFolders = [...folders.slice(0, index), next, ...folders.slice(index + 1)];
+    return true;
+}
+
+/**
+ * Removes a smart folder and its descendants from the active profile.
+ * @returns True when the smart folder existed
+ */
+export function removeActiveSmartFolder(settings: NotebookNavigatorSettings, id: string): boolean {
+    const profile = getActiveVaultProfile(settings);
+    const result = removeSmartFolder(profile.smartFolders ?? [], profile.smartFolderOrder ?? [], id);
+    if (!result) {
+        return false;
+    }
+
+    profile.smartFolders = result.folders;
+    profile.smartFolderOrder = result.order;
+    return true;
+}
@@ -17,8 +17,20 @@
  */
 
 import { TFile, TFolder } from 'obsidian';
-import type { AlphabeticalDateMode, AlphaSortOrder, SortOption, NotebookNavigatorSettings, PropertySortSecondaryOption } from '../settings';
+import type {
+    AlphabeticalDateMode,
+    AlphaSortOrder,
+    SortOption,
+    NotebookNavigatorSettings,
+    PropertySortSecondaryOption,
+    SortChainField,
+    SortChainKey,
+    SortDirection
+} from '../settings';
+import { isSortChainField } from '../settings/types';
 import { NavigationItemType, ItemType } from '../types';
+import { isPlainObjectRecordValue } from './recordUtils';
+import { getActiveSmartFolders } from './vaultProfiles';
 
 export { SORT_OPTIONS } from '../settings/types';
 
@@ -34,12 +46,108 @@ export function isPropertySortOption(sortOption: SortOption): sortOption is 'pro
     return sortOption === 'property-asc' || sortOption === 'property-desc';
 }
 
-export function shouldRefreshOnFileModifyForSort(sortOption: SortOption, propertySortSecondary: PropertySortSecondaryOption): boolean {
-    return sortOption.startsWith('modified') || (isPropertySortOption(sortOption) && propertySortSecondary === 'modified');
+/**
+ * Splits a sort option into its field and direction.
+ */
+export function parseSortOption(sortOption: SortOption): { field: SortChainField; direction: SortDirection } {
+    const separatorIndex = sortOption.lastIndexOf('-');
+    return {
+        field: sortOption.slice(0, separatorIndex) as SortChainField,
+        direction: sortOption.endsWith('-desc') ? 'desc' : 'asc'
+    };
+}
+
+/**
+ * Returns the sort option matching a sort chain key.
+ */
+export function getSortChainKeyOption(key: SortChainKey): SortOption {
+    return `${key.field}-${key.direction}` as SortOption;
+}
+
+/**
+ * Normalizes a stored sort chain, dropping invalid keys and property keys without a property name.
+ */
+export function normalizeSortChain(value: unknown): SortChainKey[] {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+
+    const chain: SortChainKey[] = [];
+    value.forEach(entry => {
+        if (!isPlainObjectRecordValue(entry) || !isSortChainField(entry.field)) {
+            return;
+        }
+        const direction: SortDirection = entry.direction === 'desc' ? 'desc' : 'asc';
+        if (entry.field !== 'property') {
+            chain.push({ field: entry.field, direction });
+            return;
+        }
+        const property = typeof entry.property === 'string' ? entry.property.trim() : '';
+        if (property) {
+            chain.push({ field: 'property', direction, property });
+        }
+    });
+    return chain;
+}
+
+/**
+ * Returns the custom sort chain stored for a folder, or null when the folder uses a single sort option.
+ */
+export function getFolderSortChain(
+    settings: Pick<NotebookNavigatorSettings, 'folderSortChains'>,
+    folderPath: string
+): SortChainKey[] | null {
+    const chains = settings.folderSortChains;
+    if (!chains || !Object.prototype.hasOwnProperty.call(chains, folderPath)) {
+        return null;
+    }
+    const chain = chains[folderPath];
+    return Array.isArray(chain) && chain.length > 0 ? chain : null;
+}
+
+/**
+ * Determines the custom sort chain for a given context.
+ * Sort chains are stored per folder; other selections always use a single sort option.
+ */
+export function getEffectiveSortChain(
+    settings: Pick<NotebookNavigatorSettings, 'folderSortChains'>,
+    selectionType: ItemType | null,
+    selectedFolder: TFolder | null
+): SortChainKey[] | null {
+    if (selectionType !== ItemType.FOLDER || !selectedFolder) {
+        return null;
+    }
+    return getFolderSortChain(settings, selectedFolder.path);
+}
+
+/**
+ * Returns true when the sort order depends on word or task counts from the content cache.
+ */
+export function shouldRefreshOnContentChangeForSort(sortOption: SortOption, sortChain?: readonly SortChainKey[] | null): boolean {
+    if (sortChain && sortChain.length > 0) {
+        return sortChain.some(key => key.field === 'wordcount' || key.field === 'tasks');
+    }
+    return sortOption.startsWith('wordcount') || sortOption.startsWith('tasks');
+}
+
+export function shouldRefreshOnFileModifyForSort(
+    sortOption: SortOption,
+    propertySortSecondary: PropertySortSecondaryOption,
+    sortChain?: readonly SortChainKey[] | null
+): boolean {
+    if (sortChain && sortChain.length > 0) {
+        return sortChain.some(key => key.field === 'modified' || key.field === 'size');
+    }
+    return (
+        sortOption.startsWith('modified') ||
+        sortOption.startsWith('size') ||
+        (isPropertySortOption(sortOption) && propertySortSecondary === 'modified')
+    );
 }
 
 export function shouldRefreshOnMetadataChangeForSort(params: {
     sortOption: SortOption;
+    sortChain?: readonly SortChainKey[] | null;
     propertySortKey: string;
     propertySortSecondary: PropertySortSecondaryOption;
     useFrontmatterMetadata: boolean;
@@ -49,6 +157,7 @@ export function shouldRefreshOnMetadataChangeForSort(params: {
 }): boolean {
     const {
         sortOption,
+        sortChain,
         propertySortKey,
         propertySortSecondary,
         useFrontmatterMetadata,
@@ -56,6 +165,28 @@ export function shouldRefreshOnMetadataChangeForSort(params: {
         frontmatterCreatedField,
         frontmatterModifiedField
     } = params;
+    if (sortChain && sortChain.length > 0) {
+        // Every chain key is checked; frontmatter-backed date and title keys only matter when configured
+        return sortChain.some(key => {
+            if (key.field === 'property') {
+                return true;
+            }
+            if (!useFrontmatterMetadata) {
+                return false;
+            }
+            if (key.field === 'created') {
+                return frontmatterCreatedField.trim().length > 0;
+            }
+            if (key.field === 'modified') {
+                return frontmatterModifiedField.trim().length > 0;
+            }
+            if (key.field === 'title') {
+                return frontmatterNameField.trim().length > 0;
+            }
+            return false;
+        });
+    }
+
     if (!isPropertySortOption(sortOption)) {
         // Date/title sorts depend on frontmatter values when configured; metadata changes must refresh the ordering.
         if (!useFrontmatterMetadata) {
@@ -172,19 +303,128 @@ function compareDates(a: TFile, b: TFile, getDate: (file: TFile) => number, desc
     return descending ? -cmp : cmp;
 }
 
+// Compares optional values; files without a value sort last in both directions
+function compareOptionalValues<T>(valueA: T | null, valueB: T | null, compare: (a: T, b: T) => number, descending: boolean): number {
+    if (valueA === null || valueB === null) {
+        if (valueA === valueB) {
+            return 0;
+        }
+        return valueA === null ? 1 : -1;
+    }
+    const cmp = compare(valueA, valueB);
+    return descending ? -cmp : cmp;
+}
+
+/**
+ * Accessors for values that are not stored on TFile.
+ * Word and task counts come from the content cache and are null until generated.
+ */
+export interface FileSortMetrics {
+    getWordCount: (file: TFile) => number | null;
+    getTaskCounts: (file: TFile) => { unfinished: number; total: number } | null;
+}
+
+/**
+ * Value accessors used by sort chains.
+ */
+export interface SortChainAccessors {
+    getCreatedTime: (file: TFile) => number;
+    getModifiedTime: (file: TFile) => number;
+    getDisplayName?: (file: TFile) => string;
+    getPropertyValue?: (file: TFile, property: string) => string | null;
+    metrics?: FileSortMetrics;
+}
+
+// Compares two files by a single sort chain key
+function compareBySortChainKey(a: TFile, b: TFile, key: SortChainKey, accessors: SortChainAccessors): number {
+    const descending = key.direction === 'desc';
+    switch (key.field) {
+        case 'modified':
+            return compareDates(a, b, accessors.getModifiedTime, descending);
+        case 'created':
+            return compareDates(a, b, accessors.getCreatedTime, descending);
+        case 'title':
+            return compareDisplayNames(a, b, accessors.getDisplayName, descending);
+        case 'filename':
+            return compareFileNames(a, b, descending);
+        case 'size':
+            return compareOptionalValues(a.stat.size, b.stat.size, (valueA, valueB) => valueA - valueB, descending);
+        case 'property': {
+            const property = key.property?.trim() ?? '';
+            const getValue = accessors.getPropertyValue;
+            if (!property || !getValue) {
+                return 0;
+            }
+            return compareOptionalValues(
+                getValue(a, property) || null,
+                getValue(b, property) || null,
+                (valueA, valueB) => compareTextValues(valueA, valueB, false),
+                descending
+            );
+        }
+        case 'wordcount': {
+            const getWordCount = accessors.metrics?.getWordCount;
+            if (!getWordCount) {
+                return 0;
+            }
+            return compareOptionalValues(getWordCount(a), getWordCount(b), (valueA, valueB) => valueA - valueB, descending);
+        }
+        case 'tasks': {
+            const getTaskCounts = accessors.metrics?.getTaskCounts;
+            if (!getTaskCounts) {
+                return 0;
+            }
+            // Unfinished tasks first, then total tasks
+            return compareOptionalValues(
+                getTaskCounts(a),
+                getTaskCounts(b),
+                (valueA, valueB) => valueA.unfinished - valueB.unfinished || valueA.total - valueB.total,
+                descending
+            );
+        }
+    }
+}
+
+/**
+ * Sorts files by an ordered list of sort keys.
+ * Files that compare equal on every key are ordered by title and then path.
+ * @param files - Array of files to sort (will be mutated)
+ * @param chain - Sort keys in priority order
+ * @param accessors - Value accessors for dates, titles, properties and content metrics
+ */
+export function sortFilesByChain(files: TFile[], chain: readonly SortChainKey[], accessors: SortChainAccessors): void {
+    files.sort((a, b) => {
+        for (const key of chain) {
+            const cmp = compareBySortChainKey(a, b, key, accessors);
+            if (cmp !== 0) {
+                return cmp;
+            }
+        }
+        if (!chain.some(key => key.field === 'title')) {
+            const titleCmp = compareDisplayNames(a, b, accessors.getDisplayName, false);
+            if (titleCmp !== 0) {
+                return titleCmp;
+            }
+        }
+        return a.path.localeCompare(b.path);
+    });
+}
+
 /**
  * Determines the effective sort option for a given context
  * @param settings - Plugin settings
  * @param selectionType - Whether folder or tag is selected
  * @param selectedFolder - The currently selected folder (if any)
  * @param selectedTag - The currently selected tag (if any)
+ * @param selectedSmartFolder - The currently selected smart folder id (if any)
  * @returns The sort option to use
  */
 export function getEffectiveSortOption(
     settings: NotebookNavigatorSettings,
     selectionType: NavigationItemType,
     selectedFolder: TFolder | null,
-    selectedTag?: string | null
+    selectedTag?: string | null,
+    selectedSmartFolder?: string | null
 ): SortOption {
     if (selectionType === ItemType.FOLDER && selectedFolder && settings.folderSortOverrides?.[selectedFolder.path]) {
         return settings.folderSortOverrides[selectedFolder.path];
@@ -192,6 +432,12 @@ export function getEffectiveSortOption(
     if (selectionType === ItemType.TAG && selectedTag && settings.tagSortOverrides?.[selectedTag]) {
         return settings.tagSortOverrides[selectedTag];
     }
+    if (selectionType === ItemType.SMART_FOLDER && selectedSmartFolder) {
+        const smartFolder = getActiveSmartFolders(settings).find(folder => folder.id === selectedSmartFolder);
+        if (smartFolder?.sortOverride) {
+            return smartFolder.sortOverride;
+        }
+    }
     return settings.defaultFolderSort;
 }
 
@@ -201,6 +447,7 @@ export function getEffectiveSortOption(
  * @param sortOption - How to sort the files
  * @param getCreatedTime - Function to get file created time
  * @param getModifiedTime - Function to get file modified time
+ * @param metrics - Word and task count accessors, required for word count and task sorts
  */
 export function sortFiles(
     files: TFile[],
@@ -209,7 +456,8 @@ export function sortFiles(
     getModifiedTime: (file: TFile) => number,
     getDisplayName?: (file: TFile) => string,
     getPropertyValue?: (file: TFile) => string | null,
-    propertySortSecondary: PropertySortSecondaryOption = 'title'
+    propertySortSecondary: PropertySortSecondaryOption = 'title',
+    metrics?: FileSortMetrics
 ): void {
     // Helper function to get timestamp for sorting
     const getTimestamp = (file: TFile, type: 'created' | 'modified'): number => {
@@ -302,6 +550,14 @@ export function sortFiles(
             });
             break;
         }
+        case 'wordcount-desc':
+        case 'wordcount-asc':
+        case 'tasks-desc':
+        case 'tasks-asc':
+        case 'size-desc':
+        case 'size-asc':
+            sortFilesByChain(files, [parseSortOption(sortOption)], { getCreatedTime, getModifiedTime, getDisplayName, metrics });
+            break;
     }
 }
 
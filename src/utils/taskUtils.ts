@@ -0,0 +1,124 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import type { OpenTaskItem } from '../storage/indexeddb/fileData';
+
+// Tasks plugin due date signifier, for example `📅 2026-11-01`
+const TASKS_PLUGIN_DUE_PATTERN = /\u{1F4C5}\u{FE0F}?\s*(\d{4}-\d{2}-\d{2})/u;
+// Dataview inline field, for example `[due:: 2026-11-01]` or `(due:: 2026-11-01T09:00)`
+const DATAVIEW_DUE_PATTERN = /[[(]\s*due\s*::\s*(\d{4}-\d{2}-\d{2})[^\])]*[\])]/iu;
+const DUE_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Returns the local start of day for a YYYY-MM-DD due date, or null when the date does not exist.
+ */
+export function getDueDateStartMs(due: string): number | null {
+    const match = DUE_DATE_PATTERN.exec(due);
+    if (!match) {
+        return null;
+    }
+
+    const year = Number(match[1]);
+    const month = Number(match[2]) - 1;
+    const day = Number(match[3]);
+    const date = new Date(year, month, day);
+    if (date.getFullYear() !== year || date.getMonth() !== month || date.getDate() !== day) {
+        return null;
+    }
+    return date.getTime();
+}
+
+/**
+ * Extracts the due date from the text of a markdown task.
+ * Supports the Tasks plugin signifier (`📅 YYYY-MM-DD`) and the Dataview `due::` inline field.
+ * The due date annotation is removed from the returned text.
+ *
+ * @param rawText - Task text after the checkbox
+ * @param maxTextLength - Maximum stored text length
+ */
+export function parseOpenTaskText(rawText: string, maxTextLength: number): OpenTaskItem {
+    let text = rawText;
+    let due: string | null = null;
+
+    for (const pattern of [TASKS_PLUGIN_DUE_PATTERN, DATAVIEW_DUE_PATTERN]) {
+        const match = pattern.exec(text);
+        if (!match) {
+            continue;
+        }
+        const value = match[1];
+        if (due === null && value && getDueDateStartMs(value) !== null) {
+            due = value;
+        }
+        text = `${text.slice(0, match.index)} ${text.slice(match.index + match[0].length)}`;
+    }
+
+    text = text.replace(/\s+/g, ' ').trim();
+    if (text.length > maxTextLength) {
+        text = text.slice(0, maxTextLength).trimEnd();
+    }
+
+    return { text, due };
+}
+
+/**
+ * Returns the earliest due date of the open tasks, or null when no task has a due date.
+ */
+export function getNextTaskDueDate(tasks: readonly OpenTaskItem[] | null): string | null {
+    if (!tasks) {
+        return null;
+    }
+
+    let next: string | null = null;
+    for (const task of tasks) {
+        // YYYY-MM-DD strings sort chronologically
+        if (task.due !== null && (next === null || task.due < next)) {
+            next = task.due;
+        }
+    }
+    return next;
+}
+
+/**
+ * Returns the local start-of-day timestamps of every valid due date on the open tasks.
+ */
+export function getOpenTaskDueTimestamps(tasks: readonly OpenTaskItem[] | null): number[] {
+    if (!tasks) {
+        return [];
+    }
+
+    const timestamps: number[] = [];
+    for (const task of tasks) {
+        const timestamp = task.due !== null ? getDueDateStartMs(task.due) : null;
+        if (timestamp !== null) {
+            timestamps.push(timestamp);
+        }
+    }
+    return timestamps;
+}
+
+/**
+ * Checks if two open task lists are equal.
+ */
+export function areOpenTasksEqual(first: readonly OpenTaskItem[] | null, second: readonly OpenTaskItem[] | null): boolean {
+    if (first === second) {
+        return true;
+    }
+    if (!first || !second || first.length !== second.length) {
+        return false;
+    }
+    return first.every((task, index) => task.text === second[index]?.text && task.due === second[index]?.due);
+}
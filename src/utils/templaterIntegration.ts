@@ -16,11 +16,12 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { App, Plugin, TFolder } from 'obsidian';
+import { App, Plugin, TFile, TFolder } from 'obsidian';
 import { TEMPLATER_PLUGIN_ID } from '../constants/pluginIds';
 import { getPluginById, getRecordValue, isRecord } from './typeGuards';
 
 export type TemplaterCreateNewNoteFromTemplateFn = (folder?: TFolder) => void | Promise<void>;
+export type TemplaterWriteTemplateToFileFn = (templateFile: TFile, file: TFile) => Promise<void>;
 
 interface TemplaterFuzzySuggesterApi {
     create_new_note_from_template: TemplaterCreateNewNoteFromTemplateFn;
@@ -30,6 +31,14 @@ interface TemplaterPluginApi extends Plugin {
     fuzzy_suggester: TemplaterFuzzySuggesterApi;
 }
 
+interface TemplaterCoreApi {
+    write_template_to_file: (templateFile: TFile, file: TFile) => void | Promise<void>;
+}
+
+interface TemplaterWriterPluginApi extends Plugin {
+    templater: TemplaterCoreApi;
+}
+
 function isTemplaterPlugin(plugin: Plugin | null): plugin is TemplaterPluginApi {
     if (!plugin) {
         return false;
@@ -58,3 +67,34 @@ export function getTemplaterCreateNewNoteFromTemplate(app: App): TemplaterCreate
         return plugin.fuzzy_suggester.create_new_note_from_template(folder);
     };
 }
+
+function isTemplaterWriterPlugin(plugin: Plugin | null): plugin is TemplaterWriterPluginApi {
+    if (!plugin) {
+        return false;
+    }
+
+    const templater = getRecordValue(plugin, 'templater');
+    if (!isRecord(templater)) {
+        return false;
+    }
+
+    return typeof getRecordValue(templater, 'write_template_to_file') === 'function';
+}
+
+/**
+ * Returns a function that renders a template into an existing file with Templater, or null when Templater is not enabled.
+ */
+export function getTemplaterWriteTemplateToFile(app: App): TemplaterWriteTemplateToFileFn | null {
+    if (!isTemplaterWriterPlugin(getPluginById(app, TEMPLATER_PLUGIN_ID))) {
+        return null;
+    }
+
+    return async (templateFile: TFile, file: TFile) => {
+        const plugin = getPluginById(app, TEMPLATER_PLUGIN_ID);
+        if (!isTemplaterWriterPlugin(plugin)) {
+            return;
+        }
+
+        await plugin.templater.write_template_to_file(templateFile, file);
+    };
+}
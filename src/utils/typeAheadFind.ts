@@ -0,0 +1,74 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/** Time after the last typed character before a new type-ahead query starts */
+export const TYPE_AHEAD_TIMEOUT_MS = 1000;
+
+export interface TypeAheadBuffer {
+    query: string;
+    timestamp: number;
+}
+
+/**
+ * Appends a typed character to the type-ahead query, starting over when the previous key is too old.
+ * A leading space is ignored so Space keeps its default behavior.
+ */
+export function appendTypeAheadKey(buffer: TypeAheadBuffer | null, key: string, now: number): TypeAheadBuffer | null {
+    const isExpired = !buffer || now - buffer.timestamp > TYPE_AHEAD_TIMEOUT_MS;
+    const previousQuery = isExpired ? '' : buffer.query;
+    if (!previousQuery && key.trim().length === 0) {
+        return null;
+    }
+    return { query: `${previousQuery}${key}`, timestamp: now };
+}
+
+/**
+ * Finds the index of the next row whose label starts with the query (case-insensitive).
+ *
+ * Longer queries start at the current row so the selection stays put while the prefix still matches.
+ * A single character, or the same character typed repeatedly, starts after the current row and
+ * cycles through all rows starting with that character.
+ *
+ * Returns -1 when no row matches.
+ */
+export function findTypeAheadMatch<T>(
+    items: readonly T[],
+    getLabel: (item: T) => string | null,
+    query: string,
+    currentIndex: number
+): number {
+    const normalizedQuery = query.toLocaleLowerCase();
+    if (!normalizedQuery || items.length === 0) {
+        return -1;
+    }
+
+    const firstCharacter = normalizedQuery.charAt(0);
+    const isRepeatedCharacter = Array.from(normalizedQuery).every(character => character === firstCharacter);
+    const prefix = isRepeatedCharacter ? firstCharacter : normalizedQuery;
+    const startIndex = currentIndex >= 0 ? currentIndex + (isRepeatedCharacter ? 1 : 0) : 0;
+
+    for (let step = 0; step < items.length; step++) {
+        const index = (startIndex + step) % items.length;
+        const label = getLabel(items[index]);
+        if (label && label.toLocaleLowerCase().startsWith(prefix)) {
+            return index;
+        }
+    }
+
+    return -1;
+}
@@ -40,6 +40,8 @@ export type UXIconId =
     | 'nav-properties'
     | 'nav-property'
     | 'nav-property-value'
+    | 'nav-smart-folders'
+    | 'nav-smart-folder'
     | 'list-search'
     | 'list-descendants'
     | 'list-sort-ascending'
@@ -79,6 +81,8 @@ export const UX_ICON_DEFINITIONS: UXIconDefinition[] = [
     { id: 'nav-properties', category: 'navigationPane', defaultIconId: 'file-code' },
     { id: 'nav-property', category: 'navigationPane', defaultIconId: 'align-left' },
     { id: 'nav-property-value', category: 'navigationPane', defaultIconId: 'equal' },
+    { id: 'nav-smart-folders', category: 'navigationPane', defaultIconId: 'folder-search' },
+    { id: 'nav-smart-folder', category: 'navigationPane', defaultIconId: 'folder-search-2' },
     { id: 'list-search', category: 'listPane', defaultIconId: 'search' },
     { id: 'list-descendants', category: 'listPane', defaultIconId: 'layers' },
     { id: 'list-sort-ascending', category: 'listPane', defaultIconId: 'sort-asc' },
@@ -19,6 +19,8 @@
 import type { NotebookNavigatorSettings } from '../settings';
 import type { VaultProfile, VaultProfilePropertyKey } from '../settings/types';
 import { isSearchShortcut, type ShortcutEntry } from '../types/shortcuts';
+import { cloneFileStyleRules, normalizeFileStyleRules, type FileStyleRule } from '../types/fileStyleRules';
+import { cloneSmartFolders, normalizeSmartFolderOrder, normalizeSmartFolders, type SmartFolder } from '../types/smartFolders';
 import { strings } from '../i18n';
 import { normalizeCalendarCustomRootFolder } from './calendarCustomNotePatterns';
 import { FILE_VISIBILITY, type FileVisibility } from './fileTypeUtils';
@@ -55,6 +57,9 @@ interface VaultProfileInitOptions {
     periodicNotesFolder?: string;
     propertyKeys?: VaultProfilePropertyKey[];
     shortcuts?: ShortcutEntry[];
+    smartFolders?: SmartFolder[];
+    smartFolderOrder?: string[];
+    fileStyleRules?: FileStyleRule[];
 }
 
 // Hidden folder pattern rules (all patterns must be absolute with a leading "/"):
@@ -493,7 +498,10 @@ export function createVaultProfile(name: string, options: VaultProfileInitOption
             typeof options.periodicNotesFolder === 'string' ? options.periodicNotesFolder : ''
         ),
         propertyKeys: clonePropertyKeys(options.propertyKeys),
-        shortcuts: cloneShortcuts(options.shortcuts)
+        shortcuts: cloneShortcuts(options.shortcuts),
+        smartFolders: cloneSmartFolders(options.smartFolders),
+        smartFolderOrder: Array.isArray(options.smartFolderOrder) ? [...options.smartFolderOrder] : [],
+        fileStyleRules: cloneFileStyleRules(options.fileStyleRules)
     };
 }
 
@@ -516,7 +524,10 @@ function createVaultProfileFromTemplate(name: string, template: VaultProfileTemp
         navigationBanner: source?.navigationBanner,
         periodicNotesFolder: source?.periodicNotesFolder,
         propertyKeys: source?.propertyKeys,
-        shortcuts: source?.shortcuts
+        shortcuts: source?.shortcuts,
+        smartFolders: source?.smartFolders,
+        smartFolderOrder: source?.smartFolderOrder,
+        fileStyleRules: source?.fileStyleRules
     });
 }
 
@@ -680,6 +691,9 @@ export function ensureVaultProfiles(settings: NotebookNavigatorSettings): void {
         profile.periodicNotesFolder = normalizeCalendarCustomRootFolder(profileRecordPeriodicNotesFolder ?? '');
         profile.propertyKeys = clonePropertyKeys(profile.propertyKeys);
         profile.shortcuts = cloneShortcuts(profile.shortcuts);
+        profile.smartFolders = normalizeSmartFolders(profile.smartFolders);
+        profile.smartFolderOrder = normalizeSmartFolderOrder(profile.smartFolderOrder, profile.smartFolders);
+        profile.fileStyleRules = normalizeFileStyleRules(profile.fileStyleRules);
     });
 
     const hasActiveProfile = settings.vaultProfiles.some(profile => profile.id === settings.vaultProfile);
@@ -753,6 +767,12 @@ export function getActiveFileVisibility(settings: NotebookNavigatorSettings): Fi
     return getActiveVaultProfile(settings).fileVisibility;
 }
 
+// Returns the smart folders defined in the active profile
+export function getActiveSmartFolders(settings: NotebookNavigatorSettings): SmartFolder[] {
+    const smartFolders = getActiveVaultProfile(settings).smartFolders;
+    return Array.isArray(smartFolders) ? smartFolders : [];
+}
+
 export function hasHiddenTagMatch(settings: NotebookNavigatorSettings, normalizedPath: string): boolean {
     ensureVaultProfiles(settings);
     if (!normalizedPath) {
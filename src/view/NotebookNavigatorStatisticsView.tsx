@@ -0,0 +1,80 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import React from 'react';
+import { Root, createRoot } from 'react-dom/client';
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import { SettingsProvider } from '../context/SettingsContext';
+import { ServicesProvider } from '../context/ServicesContext';
+import { VaultStatisticsDashboard } from '../components/VaultStatisticsDashboard';
+import { strings } from '../i18n';
+import NotebookNavigatorPlugin from '../main';
+import { NOTEBOOK_NAVIGATOR_STATISTICS_VIEW } from '../types';
+import { setupNotebookNavigatorViewContainer, teardownNotebookNavigatorViewContainer } from './NotebookNavigatorView';
+
+export class NotebookNavigatorStatisticsView extends ItemView {
+    private readonly plugin: NotebookNavigatorPlugin;
+    private root: Root | null = null;
+
+    constructor(leaf: WorkspaceLeaf, plugin: NotebookNavigatorPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType() {
+        return NOTEBOOK_NAVIGATOR_STATISTICS_VIEW;
+    }
+
+    getDisplayText() {
+        return strings.plugin.statisticsViewName;
+    }
+
+    getIcon() {
+        return 'lucide-bar-chart-3';
+    }
+
+    async onOpen() {
+        const container = this.containerEl.children[1];
+        if (!(container instanceof HTMLElement)) {
+            return;
+        }
+
+        setupNotebookNavigatorViewContainer(container);
+
+        this.root = createRoot(container);
+        this.root.render(
+            <React.StrictMode>
+                <SettingsProvider plugin={this.plugin}>
+                    <ServicesProvider plugin={this.plugin}>
+                        <VaultStatisticsDashboard />
+                    </ServicesProvider>
+                </SettingsProvider>
+            </React.StrictMode>
+        );
+    }
+
+    async onClose() {
+        const container = this.containerEl.children[1];
+        if (!(container instanceof HTMLElement)) {
+            return;
+        }
+
+        this.root?.unmount();
+        teardownNotebookNavigatorViewContainer(container);
+        this.root = null;
+    }
+}
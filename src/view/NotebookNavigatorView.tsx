@@ -448,6 +448,13 @@ export class NotebookNavigatorView extends ItemView {
         await this.componentRef.current?.removeTagFromSelectedFiles();
     }
 
+    /**
+     * Open the batch property editor for the currently selected files
+     */
+    editPropertiesOfSelectedFiles(): void {
+        this.componentRef.current?.editPropertiesOfSelectedFiles();
+    }
+
     /**
      * Remove all tags from the currently selected files
      */
@@ -462,6 +469,13 @@ export class NotebookNavigatorView extends ItemView {
         this.componentRef.current?.toggleSearch();
     }
 
+    /**
+     * Open the smart folder modal prefilled with the current filter search
+     */
+    createSmartFolderFromSearch(): void {
+        this.componentRef.current?.createSmartFolderFromSearch();
+    }
+
     /**
      * Trigger collapse/expand all
      */
@@ -0,0 +1,80 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { describe, expect, it } from 'vitest';
+import { ContentProvidersAPI, type ContentProviderDefinitionChange } from '../../src/api/modules/ContentProvidersAPI';
+import type { NotebookNavigatorAPI } from '../../src/api/NotebookNavigatorAPI';
+
+function createContentProvidersAPI(): ContentProvidersAPI {
+    return new ContentProvidersAPI({ isStorageReady: () => false } as unknown as NotebookNavigatorAPI);
+}
+
+describe('ContentProvidersAPI', () => {
+    it('registers providers with normalized extensions and emits changes', () => {
+        const contentProviders = createContentProvidersAPI();
+        const changes: ContentProviderDefinitionChange[] = [];
+        contentProviders.onDefinitionsChanged(change => changes.push(change));
+
+        const dispose = contentProviders.register({
+            id: 'reading-time',
+            name: 'Reading time',
+            extensions: ['.MD', 'pdf', 'md'],
+            compute: () => 1
+        });
+
+        expect(contentProviders.list()).toEqual([{ id: 'reading-time', name: 'Reading time', extensions: ['md', 'pdf'] }]);
+        expect(contentProviders.refresh('reading-time')).toBe(true);
+
+        dispose();
+        dispose();
+
+        expect(contentProviders.list()).toEqual([]);
+        expect(contentProviders.refresh('reading-time')).toBe(false);
+        expect(changes).toEqual([
+            { type: 'registered', id: 'reading-time' },
+            { type: 'refresh', id: 'reading-time' },
+            { type: 'unregistered', id: 'reading-time' }
+        ]);
+    });
+
+    it('defaults to markdown files and uses the id when the name is empty', () => {
+        const contentProviders = createContentProvidersAPI();
+        contentProviders.register({ id: 'score', name: ' ', compute: () => null });
+
+        expect(contentProviders.list()).toEqual([{ id: 'score', name: 'score', extensions: ['md'] }]);
+    });
+
+    it('rejects invalid and duplicate ids', () => {
+        const contentProviders = createContentProvidersAPI();
+        contentProviders.register({ id: 'score', name: 'Score', compute: () => 1 });
+
+        expect(() => contentProviders.register({ id: 'score', name: 'Other', compute: () => 2 })).toThrow();
+        expect(() => contentProviders.register({ id: 'has space', name: 'Invalid', compute: () => 1 })).toThrow();
+        expect(contentProviders.list().map(provider => provider.name)).toEqual(['Score']);
+    });
+
+    it('does not unregister a newer registration with a stale dispose function', () => {
+        const contentProviders = createContentProvidersAPI();
+        const disposeFirst = contentProviders.register({ id: 'score', name: 'First', compute: () => 1 });
+        contentProviders.unregister('score');
+        contentProviders.register({ id: 'score', name: 'Second', compute: () => 2 });
+
+        disposeFirst();
+
+        expect(contentProviders.getDefinition('score')?.name).toBe('Second');
+    });
+});
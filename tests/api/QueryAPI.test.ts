@@ -0,0 +1,122 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { QueryAPI } from '../../src/api/modules/QueryAPI';
+import type { NotebookNavigatorAPI } from '../../src/api/NotebookNavigatorAPI';
+import { createDefaultFileData, type FileData } from '../../src/storage/indexeddb/fileData';
+import { createTestTFile } from '../utils/createTestTFile';
+
+const records = new Map<string, FileData>();
+const previewTexts = new Map<string, string>();
+const ensurePreviewTextLoadedMock = vi.fn(async () => undefined);
+const getFeatureImageBlobMock = vi.fn(async (_path: string, _key: string): Promise<Blob | null> => null);
+
+// Replaces storage access with an in-memory record map
+vi.mock('../../src/storage/fileOperations', () => ({
+    getDBInstanceOrNull: () => ({
+        getFile: (path: string) => records.get(path) ?? null,
+        ensurePreviewTextLoaded: ensurePreviewTextLoadedMock,
+        getCachedPreviewText: (path: string) => previewTexts.get(path) ?? '',
+        getFeatureImageBlob: getFeatureImageBlobMock
+    })
+}));
+
+function createApi(existingPaths: string[], storageReady = true): NotebookNavigatorAPI {
+    const files = new Map(existingPaths.map(path => [path, createTestTFile(path)]));
+    return {
+        isStorageReady: () => storageReady,
+        getPlugin: () => {
+            throw new Error('Queries must not run before storage is ready');
+        },
+        app: {
+            vault: {
+                getFileByPath: (path: string) => files.get(path) ?? null
+            }
+        }
+    } as unknown as NotebookNavigatorAPI;
+}
+
+describe('QueryAPI', () => {
+    beforeEach(() => {
+        records.clear();
+        previewTexts.clear();
+        ensurePreviewTextLoadedMock.mockClear();
+        getFeatureImageBlobMock.mockClear();
+    });
+
+    it('returns listed files in order and skips files that no longer exist', () => {
+        const queryAPI = new QueryAPI(createApi(['b.md', 'a.md']));
+        queryAPI.updateListedFiles(['b.md', 'deleted.md', 'a.md'].map(path => createTestTFile(path)));
+
+        expect(queryAPI.getListedFiles().map(file => file.path)).toEqual(['b.md', 'a.md']);
+    });
+
+    it('reads cached preview text, counts, feature image, and provider values', async () => {
+        const blob = new Blob(['thumbnail']);
+        getFeatureImageBlobMock.mockResolvedValueOnce(blob);
+        records.set('note.md', {
+            ...createDefaultFileData({ mtime: 1, path: 'note.md' }),
+            previewStatus: 'has',
+            wordCount: 42,
+            taskTotal: 3,
+            taskUnfinished: 1,
+            featureImageStatus: 'has',
+            featureImageKey: 'f:image.png@1',
+            providerValues: {
+                'reading-time': { value: 4, mtime: 1 },
+                'no-value': { value: null, mtime: 1 }
+            }
+        });
+        previewTexts.set('note.md', 'Preview text');
+
+        const content = await new QueryAPI(createApi(['note.md'])).getFileContent(createTestTFile('note.md'));
+
+        expect(ensurePreviewTextLoadedMock).toHaveBeenCalledWith('note.md');
+        expect(getFeatureImageBlobMock).toHaveBeenCalledWith('note.md', 'f:image.png@1');
+        expect(content).toEqual({
+            preview: 'Preview text',
+            wordCount: 42,
+            tasks: { total: 3, unfinished: 1 },
+            featureImage: blob,
+            values: { 'reading-time': 4 }
+        });
+    });
+
+    it('returns null values for content that has not been generated', async () => {
+        records.set('pending.md', createDefaultFileData({ mtime: 1, path: 'pending.md' }));
+        const queryAPI = new QueryAPI(createApi(['pending.md']));
+
+        expect(await queryAPI.getFileContent(createTestTFile('pending.md'))).toEqual({
+            preview: null,
+            wordCount: null,
+            tasks: null,
+            featureImage: null,
+            values: {}
+        });
+        expect(await queryAPI.getFileContent(createTestTFile('missing.md'))).toBeNull();
+        expect(getFeatureImageBlobMock).not.toHaveBeenCalled();
+    });
+
+    it('returns no results until storage is ready', async () => {
+        records.set('note.md', createDefaultFileData({ mtime: 1, path: 'note.md' }));
+        const queryAPI = new QueryAPI(createApi(['note.md'], false));
+
+        expect(queryAPI.findFiles('#project')).toEqual([]);
+        expect(await queryAPI.getFileContent(createTestTFile('note.md'))).toBeNull();
+    });
+});
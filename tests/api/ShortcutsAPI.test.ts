@@ -0,0 +1,119 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { describe, expect, it, vi } from 'vitest';
+import { TFolder } from 'obsidian';
+import { ProfilesAPI } from '../../src/api/modules/ProfilesAPI';
+import { ShortcutsAPI } from '../../src/api/modules/ShortcutsAPI';
+import type { NotebookNavigatorAPI } from '../../src/api/NotebookNavigatorAPI';
+import { DEFAULT_SETTINGS } from '../../src/settings/defaultSettings';
+import type { NotebookNavigatorSettings } from '../../src/settings/types';
+import { ShortcutType } from '../../src/types/shortcuts';
+import { createVaultProfile } from '../../src/utils/vaultProfiles';
+
+function createHost() {
+    const work = createVaultProfile('Work', { id: 'work', shortcuts: [{ type: ShortcutType.TAG, tagPath: 'work' }] });
+    const settings = {
+        ...DEFAULT_SETTINGS,
+        vaultProfiles: [createVaultProfile('Default', { id: 'default' }), work],
+        vaultProfile: 'default'
+    } as NotebookNavigatorSettings;
+
+    const trigger = vi.fn();
+    const folder = new TFolder();
+    folder.path = 'Projects';
+    const api = {
+        trigger,
+        app: {
+            vault: {
+                getFolderByPath: (path: string) => (path === folder.path ? folder : null),
+                getFileByPath: () => null
+            }
+        },
+        getPlugin: () => plugin
+    } as unknown as NotebookNavigatorAPI;
+
+    const plugin = {
+        settings,
+        saveSettingsAndUpdate: vi.fn(async () => {
+            shortcuts.updateFromSettings(settings);
+        }),
+        setVaultProfile: vi.fn((profileId: string) => {
+            settings.vaultProfile = profileId;
+            profiles.updateFromSettings(settings);
+            shortcuts.updateFromSettings(settings);
+        })
+    };
+
+    const shortcuts = new ShortcutsAPI(api);
+    const profiles = new ProfilesAPI(api);
+    return { settings, trigger, shortcuts, profiles, folder };
+}
+
+describe('ShortcutsAPI', () => {
+    it('adds shortcuts at an index and rejects duplicates', async () => {
+        const { shortcuts, trigger, folder } = createHost();
+
+        expect(await shortcuts.addTag('#Projects/Active')).toBe(true);
+        expect(await shortcuts.addFolder(folder, { index: 0 })).toBe(true);
+        expect(await shortcuts.addSearch({ name: ' Open tasks ', query: 'has:task' }, { index: 1 })).toBe(true);
+        expect(await shortcuts.addSearch({ name: 'open TASKS', query: 'todo' })).toBe(false);
+        expect(await shortcuts.addFolder(folder)).toBe(false);
+        expect(await shortcuts.addProperty('')).toBe(false);
+
+        expect(shortcuts.list()).toEqual([
+            { key: 'folder:Projects', type: 'folder', path: 'Projects', folder, alias: undefined },
+            { key: 'search:open tasks', type: 'search', name: 'Open tasks', query: 'has:task', provider: 'internal' },
+            { key: 'tag:projects/active', type: 'tag', tag: 'projects/active', alias: undefined }
+        ]);
+        expect(trigger).toHaveBeenCalledTimes(3);
+        expect(trigger).toHaveBeenLastCalledWith('shortcuts-changed', { shortcuts: shortcuts.list() });
+    });
+
+    it('removes and reorders shortcuts by key', async () => {
+        const { shortcuts, folder } = createHost();
+        await shortcuts.addFolder(folder);
+        await shortcuts.addTag('later');
+
+        expect(await shortcuts.reorder(['tag:later'])).toBe(false);
+        expect(await shortcuts.reorder(['tag:later', 'tag:later'])).toBe(false);
+        expect(await shortcuts.reorder(['tag:later', 'folder:Projects'])).toBe(true);
+        expect(shortcuts.list().map(shortcut => shortcut.key)).toEqual(['tag:later', 'folder:Projects']);
+
+        expect(await shortcuts.remove('tag:missing')).toBe(false);
+        expect(await shortcuts.remove('tag:later')).toBe(true);
+        expect(shortcuts.list().map(shortcut => shortcut.key)).toEqual(['folder:Projects']);
+    });
+});
+
+describe('ProfilesAPI', () => {
+    it('switches profiles and reports profile and shortcut changes', () => {
+        const { profiles, shortcuts, trigger } = createHost();
+
+        expect(profiles.list()).toEqual([
+            { id: 'default', name: 'Default' },
+            { id: 'work', name: 'Work' }
+        ]);
+        expect(profiles.switch('missing')).toBe(false);
+        expect(trigger).not.toHaveBeenCalled();
+
+        expect(profiles.switch('work')).toBe(true);
+        expect(profiles.getActive()).toEqual({ id: 'work', name: 'Work' });
+        expect(trigger).toHaveBeenCalledWith('profile-changed', { profile: { id: 'work', name: 'Work' } });
+        expect(trigger).toHaveBeenCalledWith('shortcuts-changed', { shortcuts: shortcuts.list() });
+    });
+});
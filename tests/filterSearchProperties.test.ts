@@ -16,7 +16,7 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { describe, expect, it } from 'vitest';
+import { afterEach, describe, expect, it, vi } from 'vitest';
 import { fileMatchesFilterTokens, parseFilterSearchTokens, updateFilterQueryWithProperty } from '../src/utils/filterSearch';
 
 describe('filterSearch property tokenization', () => {
@@ -134,6 +134,102 @@ describe('filterSearch property evaluation', () => {
     });
 });
 
+const matchesProperties = (query: string, properties: Record<string, string[]>): boolean => {
+    return fileMatchesFilterTokens('note', [], parseFilterSearchTokens(query), {
+        hasUnfinishedTasks: false,
+        propertyValuesByKey: new Map<string, string[]>(Object.entries(properties))
+    });
+};
+
+describe('filterSearch property comparisons', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('parses comparison operators into number and date bounds', () => {
+        const tokens = parseFilterSearchTokens('.priority>=3');
+        expect(tokens.mode).toBe('tag');
+        expect(tokens.propertyTokens).toEqual([
+            {
+                key: 'priority',
+                value: null,
+                comparison: {
+                    source: '>=3',
+                    number: { min: 3, minInclusive: true, max: null, maxInclusive: false },
+                    date: null
+                }
+            }
+        ]);
+    });
+
+    it('compares numeric property values', () => {
+        expect(matchesProperties('.priority>=3', { priority: ['3'] })).toBe(true);
+        expect(matchesProperties('.priority>=3', { priority: ['10'] })).toBe(true);
+        expect(matchesProperties('.priority>=3', { priority: ['2'] })).toBe(false);
+        expect(matchesProperties('.priority>3', { priority: ['3'] })).toBe(false);
+        expect(matchesProperties('.estimate<1.5', { estimate: ['0.5'] })).toBe(true);
+        expect(matchesProperties('.priority>=3', { priority: ['high'] })).toBe(false);
+        expect(matchesProperties('.priority>=3', {})).toBe(false);
+    });
+
+    it('compares date and date-time property values', () => {
+        expect(matchesProperties('.due<2026-11-01', { due: ['2026-10-31'] })).toBe(true);
+        expect(matchesProperties('.due<2026-11-01', { due: ['2026-10-31t23:30'] })).toBe(true);
+        expect(matchesProperties('.due<2026-11-01', { due: ['2026-11-01'] })).toBe(false);
+        expect(matchesProperties('.due<=2026-11', { due: ['2026-11-30'] })).toBe(true);
+        expect(matchesProperties('.due>2026-11', { due: ['2026-11-30'] })).toBe(false);
+        expect(matchesProperties('.due>2026-11', { due: ['2026-12-01'] })).toBe(true);
+    });
+
+    it('matches inclusive number and date ranges with open ends', () => {
+        expect(matchesProperties('.priority:1..3', { priority: ['1'] })).toBe(true);
+        expect(matchesProperties('.priority:1..3', { priority: ['3'] })).toBe(true);
+        expect(matchesProperties('.priority:1..3', { priority: ['4'] })).toBe(false);
+        expect(matchesProperties('.estimate:..2', { estimate: ['1.5'] })).toBe(true);
+        expect(matchesProperties('.due:2026-11-01..2026-11-30', { due: ['2026-11-30'] })).toBe(true);
+        expect(matchesProperties('.due:2026-11-01..2026-11-30', { due: ['2026-12-01'] })).toBe(false);
+    });
+
+    it('reuses relative date keywords', () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date(2026, 9, 21, 12));
+
+        expect(matchesProperties('.due:thisweek', { due: ['2026-10-19'] })).toBe(true);
+        expect(matchesProperties('.due:thisweek', { due: ['2026-10-26'] })).toBe(false);
+        expect(matchesProperties('.due<today', { due: ['2026-10-20'] })).toBe(true);
+        expect(matchesProperties('.due<today', { due: ['2026-10-21'] })).toBe(false);
+    });
+
+    it('keeps colon keys and ignores incomplete comparisons', () => {
+        expect(parseFilterSearchTokens('.status:done').propertyTokens).toEqual([{ key: 'status:done', value: null }]);
+        expect(parseFilterSearchTokens('.priority>=').propertyTokens).toEqual([]);
+        expect(parseFilterSearchTokens('.priority<high').propertyTokens).toEqual([]);
+    });
+
+    it('combines comparisons with tags and negation in expressions', () => {
+        const query = '#project AND (.priority>=3 OR .due<2026-11-01) AND -.estimate>8';
+        expect(matchesProperties(query, { priority: ['4'], estimate: ['2'] })).toBe(false);
+        expect(
+            fileMatchesFilterTokens('note', ['project'], parseFilterSearchTokens(query), {
+                hasUnfinishedTasks: false,
+                propertyValuesByKey: new Map<string, string[]>([
+                    ['priority', ['1']],
+                    ['due', ['2026-10-15']]
+                ])
+            })
+        ).toBe(true);
+        expect(
+            fileMatchesFilterTokens('note', ['project'], parseFilterSearchTokens(query), {
+                hasUnfinishedTasks: false,
+                propertyValuesByKey: new Map<string, string[]>([
+                    ['priority', ['5']],
+                    ['estimate', ['13']]
+                ])
+            })
+        ).toBe(false);
+    });
+});
+
 describe('updateFilterQueryWithProperty', () => {
     it('adds and removes key-only property tokens', () => {
         const added = updateFilterQueryWithProperty('', 'status', null, 'AND');
@@ -186,6 +282,22 @@ describe('updateFilterQueryWithProperty', () => {
         expect(parsed.propertyTokens).toEqual([{ key: 'status', value: 'in=progress' }]);
     });
 
+    it('keeps comparison tokens when toggling key-only tokens', () => {
+        const added = updateFilterQueryWithProperty('.priority>=3', 'priority', null, 'AND');
+        expect(added.query).toBe('.priority>=3 AND .priority');
+        expect(added.action).toBe('added');
+
+        const removed = updateFilterQueryWithProperty(added.query, 'priority', null, 'AND');
+        expect(removed.query).toBe('.priority>=3');
+        expect(removed.action).toBe('removed');
+    });
+
+    it('quotes keys containing comparison characters', () => {
+        const added = updateFilterQueryWithProperty('', 'Time:Zone', null, 'AND');
+        expect(added.query).toBe('."time:zone"');
+        expect(parseFilterSearchTokens(added.query).propertyTokens).toEqual([{ key: 'time:zone', value: null }]);
+    });
+
     it('appends tokens without connectors in mixed queries', () => {
         const result = updateFilterQueryWithProperty('meeting @today', 'status', 'in progress', 'OR');
         expect(result.query).toBe('meeting @today .status="in progress"');
@@ -0,0 +1,34 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_GRID_TILE_SIZE, getGridTileSize, resolveListMode } from '../../src/hooks/useListPaneAppearance';
+
+describe('grid list mode', () => {
+    it('resolves grid mode from folder appearances', () => {
+        expect(resolveListMode({ appearance: { mode: 'grid' }, defaultMode: 'standard' })).toBe('grid');
+        expect(resolveListMode({ appearance: {}, defaultMode: 'compact' })).toBe('compact');
+    });
+
+    it('falls back to the default tile size and clamps stored sizes', () => {
+        expect(getGridTileSize(undefined)).toBe(DEFAULT_GRID_TILE_SIZE);
+        expect(getGridTileSize({ gridTileSize: Number.NaN })).toBe(DEFAULT_GRID_TILE_SIZE);
+        expect(getGridTileSize({ gridTileSize: 200 })).toBe(200);
+        expect(getGridTileSize({ gridTileSize: 10 })).toBe(64);
+        expect(getGridTileSize({ gridTileSize: 1000 })).toBe(400);
+    });
+});
@@ -24,13 +24,18 @@ import {
     canRestorePropertySelectionNodeId,
     determinePropertyToReveal,
     type PropertyTreeDatabaseLike,
+    buildPropertyHierarchyNodeId,
+    buildPropertyHierarchyTreesFromDatabase,
     buildPropertyKeyNodeId,
     buildPropertyTreeFromDatabase,
     buildPropertyValueNodeId,
     collectPropertyKeyFilePaths,
     collectPropertyValueFilePaths,
     getDirectPropertyKeyNoteCount,
+    getPropertyHierarchyNodeLineage,
+    getPropertyHierarchyParentNodeId,
     getPropertyKeyNodeIdFromNodeId,
+    parsePropertyHierarchyNodeId,
     resolvePropertySelectionNodeId,
     getTotalPropertyNoteCount,
     normalizePropertyTreeValuePath,
@@ -54,7 +59,9 @@ function createFileData(properties: PropertyItem[] | null): FileData {
         wordCount: null,
         taskTotal: 0,
         taskUnfinished: 0,
+        openTasks: [],
         properties,
+        providerValues: {},
         previewStatus: 'unprocessed',
         featureImage: null,
         featureImageStatus: 'unprocessed',
@@ -554,6 +561,119 @@ describe('property selection resolution', () => {
     });
 });
 
+describe('buildPropertyHierarchyTreesFromDatabase', () => {
+    const hierarchy = { id: 'research', name: 'Research', keys: ['Type', 'status'] };
+
+    it('nests values of each level key below the previous level', () => {
+        const db = createMockDb([
+            {
+                path: 'notes/a.md',
+                properties: [
+                    { fieldKey: 'type', value: 'Paper' },
+                    { fieldKey: 'status', value: 'Draft' }
+                ]
+            },
+            {
+                path: 'notes/b.md',
+                properties: [{ fieldKey: 'type', value: 'paper' }]
+            },
+            {
+                path: 'notes/c.md',
+                properties: [{ fieldKey: 'status', value: 'Draft' }]
+            }
+        ]);
+
+        const trees = buildPropertyHierarchyTreesFromDatabase(db, [hierarchy]);
+        const root = trees.get('research');
+        expect(root?.id).toBe(buildPropertyHierarchyNodeId('research'));
+        expect(root?.name).toBe('Research');
+        expect(root?.key).toBe('type');
+        expect(root?.notesWithValue).toEqual(new Set(['notes/a.md', 'notes/b.md']));
+
+        const paper = root?.children.get(buildPropertyHierarchyNodeId('research', ['paper']));
+        expect(paper?.name).toBe('Paper');
+        expect(paper?.key).toBe('type');
+        expect(paper ? collectPropertyKeyFilePaths(paper, false) : null).toEqual(new Set(['notes/b.md']));
+        expect(paper ? collectPropertyKeyFilePaths(paper, true) : null).toEqual(new Set(['notes/a.md', 'notes/b.md']));
+
+        const draft = paper?.children.get(buildPropertyHierarchyNodeId('research', ['paper', 'draft']));
+        expect(draft?.key).toBe('status');
+        expect(draft?.valuePath).toBe('draft');
+        expect(draft?.notesWithValue).toEqual(new Set(['notes/a.md']));
+    });
+
+    it('adds notes with multiple values below every matching value', () => {
+        const db = createMockDb([
+            {
+                path: 'notes/a.md',
+                properties: [
+                    { fieldKey: 'type', value: 'Paper' },
+                    { fieldKey: 'type', value: 'Book' },
+                    { fieldKey: 'status', value: 'Draft' }
+                ]
+            }
+        ]);
+
+        const root = buildPropertyHierarchyTreesFromDatabase(db, [hierarchy]).get('research');
+        expect(Array.from(root?.children.values() ?? []).map(node => node.name)).toEqual(['Book', 'Paper']);
+        expect(root?.children.get(buildPropertyHierarchyNodeId('research', ['book']))?.children.size).toBe(1);
+        expect(root?.children.get(buildPropertyHierarchyNodeId('research', ['paper']))?.children.size).toBe(1);
+    });
+
+    it('skips files in excluded folders and keeps empty hierarchies', () => {
+        const db = createMockDb([
+            {
+                path: 'archive/a.md',
+                properties: [{ fieldKey: 'type', value: 'Paper' }]
+            }
+        ]);
+
+        const root = buildPropertyHierarchyTreesFromDatabase(db, [hierarchy], { excludedFolderPatterns: ['archive'] }).get('research');
+        expect(root?.notesWithValue.size).toBe(0);
+        expect(root?.children.size).toBe(0);
+    });
+
+    it('round-trips node ids and resolves lineage and parents', () => {
+        const db = createMockDb([
+            {
+                path: 'notes/a.md',
+                properties: [
+                    { fieldKey: 'type', value: 'Work/Paper' },
+                    { fieldKey: 'status', value: '100%' }
+                ]
+            }
+        ]);
+        const trees = buildPropertyHierarchyTreesFromDatabase(db, [hierarchy]);
+        const leafId = buildPropertyHierarchyNodeId('research', ['work/paper', '100%']);
+
+        expect(parsePropertyHierarchyNodeId(leafId)).toEqual({ hierarchyId: 'research', valuePaths: ['work/paper', '100%'] });
+        expect(getPropertyHierarchyParentNodeId(leafId)).toBe(buildPropertyHierarchyNodeId('research', ['work/paper']));
+        expect(getPropertyHierarchyParentNodeId(buildPropertyHierarchyNodeId('research'))).toBeNull();
+        expect(getPropertyHierarchyNodeLineage(trees, leafId).map(node => node.id)).toEqual([
+            buildPropertyHierarchyNodeId('research'),
+            buildPropertyHierarchyNodeId('research', ['work/paper']),
+            leafId
+        ]);
+    });
+
+    it('resolves missing hierarchy selections to the nearest existing ancestor', () => {
+        const db = createMockDb([
+            {
+                path: 'notes/a.md',
+                properties: [{ fieldKey: 'type', value: 'Paper' }]
+            }
+        ]);
+        const trees = buildPropertyHierarchyTreesFromDatabase(db, [hierarchy]);
+        const propertyTree = buildPropertyTreeFromDatabase(db, { includedPropertyKeys: new Set(['type']) });
+
+        const missingLeaf = buildPropertyHierarchyNodeId('research', ['paper', 'draft']);
+        expect(resolvePropertySelectionNodeId(propertyTree, missingLeaf, trees)).toBe(buildPropertyHierarchyNodeId('research', ['paper']));
+        expect(resolvePropertySelectionNodeId(propertyTree, buildPropertyHierarchyNodeId('missing'), trees)).toBe(
+            PROPERTIES_ROOT_VIRTUAL_FOLDER_ID
+        );
+    });
+});
+
 describe('property selection restore', () => {
     it('allows restoring properties root when properties section is shown and no fields are configured', () => {
         const settings = {
@@ -0,0 +1,102 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { describe, expect, it, vi } from 'vitest';
+import { App, TFile } from 'obsidian';
+import type { ContentProviderDefinition } from '../../src/api/types';
+import { ExternalContentProvider } from '../../src/services/content/ExternalContentProvider';
+import { DEFAULT_SETTINGS } from '../../src/settings/defaultSettings';
+import { createDefaultFileData, type FileData } from '../../src/storage/indexeddb/fileData';
+import { getProviderProcessedMtime, setProviderProcessedMtime } from '../../src/storage/providerMtime';
+import { createTestTFile } from '../utils/createTestTFile';
+
+class TestExternalContentProvider extends ExternalContentProvider {
+    async runProcessFile(file: TFile, fileData: FileData | null) {
+        return await this.processFile({ file, path: file.path }, fileData, DEFAULT_SETTINGS);
+    }
+
+    runNeedsProcessing(file: TFile, fileData: FileData | null) {
+        return this.needsProcessing(fileData, file, DEFAULT_SETTINGS);
+    }
+}
+
+function createProvider(compute: ContentProviderDefinition['compute']): TestExternalContentProvider {
+    const app = new App();
+    app.vault.cachedRead = async () => 'one two three';
+    return new TestExternalContentProvider(app, { id: 'words', name: 'Words', compute });
+}
+
+function createFile(path: string, mtime: number): TFile {
+    const file = createTestTFile(path);
+    file.stat.mtime = mtime;
+    return file;
+}
+
+describe('ExternalContentProvider', () => {
+    it('computes values from file contents', async () => {
+        const provider = createProvider(async (_file, context) => (await context.read()).split(' ').length);
+        const file = createFile('note.md', 10);
+
+        const result = await provider.runProcessFile(file, createDefaultFileData({ mtime: 10, path: 'note.md' }));
+
+        expect(provider.getContentType()).toBe('external:words');
+        expect(result).toEqual({ update: { path: 'note.md', providerValues: { words: 3 } }, processed: true });
+    });
+
+    it('skips unchanged values and processes only stale matching files', async () => {
+        const provider = createProvider(() => 3);
+        const file = createFile('note.md', 10);
+        const fileData = createDefaultFileData({ mtime: 10, path: 'note.md' });
+
+        expect(provider.runNeedsProcessing(file, fileData)).toBe(true);
+        expect(provider.runNeedsProcessing(createFile('doc.pdf', 10), null)).toBe(false);
+
+        fileData.providerValues = { words: { value: 3, mtime: 10 } };
+        expect(provider.runNeedsProcessing(file, fileData)).toBe(false);
+        expect(await provider.runProcessFile(file, fileData)).toEqual({ update: null, processed: true });
+
+        file.stat.mtime = 11;
+        expect(provider.runNeedsProcessing(file, fileData)).toBe(true);
+    });
+
+    it('stores null for unsupported values and retries when compute throws', async () => {
+        const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        const file = createFile('note.md', 10);
+        const fileData = createDefaultFileData({ mtime: 10, path: 'note.md' });
+
+        const unsupported = await createProvider(() => ({}) as unknown as string).runProcessFile(file, fileData);
+        const failed = await createProvider(() => {
+            throw new Error('boom');
+        }).runProcessFile(file, fileData);
+
+        expect(unsupported).toEqual({ update: { path: 'note.md', providerValues: { words: null } }, processed: true });
+        expect(failed).toEqual({ update: null, processed: false });
+        consoleError.mockRestore();
+    });
+
+    it('tracks processed mtimes next to the stored value', () => {
+        const fileData = createDefaultFileData({ mtime: 10, path: 'note.md' });
+
+        expect(getProviderProcessedMtime(fileData, 'external:words')).toBe(0);
+        setProviderProcessedMtime(fileData, 'external:words', 10);
+        expect(fileData.providerValues).toEqual({ words: { value: null, mtime: 10 } });
+
+        fileData.providerValues = { words: { value: 'kept', mtime: 10 } };
+        setProviderProcessedMtime(fileData, 'external:words', 12);
+        expect(fileData.providerValues.words).toEqual({ value: 'kept', mtime: 12 });
+    });
+});
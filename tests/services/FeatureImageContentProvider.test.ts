@@ -532,7 +532,9 @@ describe('FeatureImageContentProvider scanning', () => {
             wordCount: null,
             taskTotal: 0,
             taskUnfinished: 0,
+            openTasks: [],
             properties: null,
+            providerValues: {},
             previewStatus: 'unprocessed',
             featureImage: null,
             featureImageStatus: 'none',
@@ -566,7 +568,9 @@ describe('FeatureImageContentProvider scanning', () => {
             wordCount: null,
             taskTotal: 0,
             taskUnfinished: 0,
+            openTasks: [],
             properties: null,
+            providerValues: {},
             previewStatus: 'unprocessed',
             featureImage: null,
             featureImageStatus: 'has',
@@ -600,7 +604,9 @@ describe('FeatureImageContentProvider scanning', () => {
             wordCount: null,
             taskTotal: 0,
             taskUnfinished: 0,
+            openTasks: [],
             properties: null,
+            providerValues: {},
             previewStatus: 'unprocessed',
             featureImage: null,
             featureImageStatus: 'none',
@@ -637,7 +643,9 @@ describe('FeatureImageContentProvider scanning', () => {
             wordCount: null,
             taskTotal: 0,
             taskUnfinished: 0,
+            openTasks: [],
             properties: null,
+            providerValues: {},
             previewStatus: 'unprocessed',
             featureImage: null,
             featureImageStatus: 'none',
@@ -694,7 +702,9 @@ describe('FeatureImageContentProvider scanning', () => {
             wordCount: 0,
             taskTotal: 0,
             taskUnfinished: 0,
+            openTasks: [],
             properties: null,
+            providerValues: {},
             previewStatus: 'none',
             featureImage: null,
             featureImageStatus: 'unprocessed',
@@ -862,7 +872,9 @@ describe('FeatureImageContentProvider scanning', () => {
                 wordCount: 0,
                 taskTotal: 0,
                 taskUnfinished: 0,
+                openTasks: [],
                 properties: null,
+                providerValues: {},
                 previewStatus: 'unprocessed',
                 featureImage: null,
                 featureImageStatus: 'has',
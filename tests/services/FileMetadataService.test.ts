@@ -121,8 +121,18 @@ describe('FileMetadataService frontmatter integration', () => {
 
         expect(pinnedCount).toBe(2);
         expect(settingsProvider.saveSettingsAndUpdate).toHaveBeenCalledTimes(1);
-        expect(settingsProvider.settings.pinnedNotes?.['Vault/One.md']).toEqual({ folder: true, tag: false, property: false });
-        expect(settingsProvider.settings.pinnedNotes?.['Vault/Two.md']).toEqual({ folder: true, tag: false, property: false });
+        expect(settingsProvider.settings.pinnedNotes?.['Vault/One.md']).toEqual({
+            folder: true,
+            tag: false,
+            property: false,
+            'smart-folder': false
+        });
+        expect(settingsProvider.settings.pinnedNotes?.['Vault/Two.md']).toEqual({
+            folder: true,
+            tag: false,
+            property: false,
+            'smart-folder': false
+        });
     });
 
     it('pins notes in property context', async () => {
@@ -131,7 +141,12 @@ describe('FileMetadataService frontmatter integration', () => {
         const pinnedCount = await service.pinNotes(['Vault/One.md'], 'property');
 
         expect(pinnedCount).toBe(1);
-        expect(settingsProvider.settings.pinnedNotes?.['Vault/One.md']).toEqual({ folder: false, tag: false, property: true });
+        expect(settingsProvider.settings.pinnedNotes?.['Vault/One.md']).toEqual({
+            folder: false,
+            tag: false,
+            property: true,
+            'smart-folder': false
+        });
     });
 
     it('treats legacy folder+tag pins as pinned in property context', () => {
@@ -149,7 +164,12 @@ describe('FileMetadataService frontmatter integration', () => {
 
         await service.togglePinnedNote('Vault/Legacy.md', 'property');
 
-        expect(settingsProvider.settings.pinnedNotes?.['Vault/Legacy.md']).toEqual({ folder: true, tag: true, property: false });
+        expect(settingsProvider.settings.pinnedNotes?.['Vault/Legacy.md']).toEqual({
+            folder: true,
+            tag: true,
+            property: false,
+            'smart-folder': true
+        });
     });
 
     it('does not count legacy folder+tag pins as newly pinned in property context', async () => {
@@ -54,7 +54,9 @@ function createFileData(overrides: Partial<FileData>): FileData {
         wordCount: 0,
         taskTotal: 0,
         taskUnfinished: 0,
+        openTasks: [],
         properties: null,
+        providerValues: {},
         previewStatus: 'none',
         featureImage: null,
         featureImageStatus: 'none',
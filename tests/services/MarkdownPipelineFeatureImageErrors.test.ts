@@ -114,7 +114,9 @@ function createFileData(overrides: Partial<FileData>): FileData {
         wordCount: null,
         taskTotal: 0,
         taskUnfinished: 0,
+        openTasks: [],
         properties: null,
+        providerValues: {},
         previewStatus: 'unprocessed',
         featureImage: null,
         featureImageStatus: 'unprocessed',
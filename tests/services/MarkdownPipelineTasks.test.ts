@@ -138,7 +138,9 @@ function createFileData(overrides: Partial<FileData>): FileData {
         wordCount: 0,
         taskTotal: null,
         taskUnfinished: null,
+        openTasks: null,
         properties: null,
+        providerValues: {},
         previewStatus: 'unprocessed',
         featureImage: null,
         featureImageStatus: 'unprocessed',
@@ -163,6 +165,28 @@ describe('MarkdownPipelineContentProvider task counters', () => {
         expect(result).toEqual({ total: 3, unfinished: 1 });
     });
 
+    it('stores open task text with Tasks and Dataview due dates', async () => {
+        const context = createApp();
+        const settings = createSettings();
+        const provider = new TestMarkdownPipelineContentProvider(context.app);
+        const file = createFile('notes/note.md');
+        file.stat.mtime = 100;
+
+        setMarkdownContent(
+            context,
+            file,
+            '- [ ] Ship release 📅 2026-11-01\n- [x] Done 📅 2026-10-01\n* [ ] Review [due:: 2026-10-20] notes\n1. [ ] No date\n'
+        );
+        const fileData = createFileData({ mtime: file.stat.mtime, markdownPipelineMtime: file.stat.mtime });
+        const result = await provider.runProcessFile(file, fileData, settings);
+
+        expect(result.update?.openTasks).toEqual([
+            { text: 'Ship release', due: '2026-11-01' },
+            { text: 'Review notes', due: '2026-10-20' },
+            { text: 'No date', due: null }
+        ]);
+    });
+
     it('ignores plus markers and non-list checkboxes', async () => {
         const context = createApp();
         const settings = createSettings();
@@ -276,7 +300,7 @@ describe('MarkdownPipelineContentProvider task counters', () => {
         const result = await provider.runProcessFile(file, fileData, settings);
 
         expect(result.processed).toBe(true);
-        expect(result.update).toEqual({ path: file.path, taskTotal: 0, taskUnfinished: 0 });
+        expect(result.update).toEqual({ path: file.path, taskTotal: 0, taskUnfinished: 0, openTasks: [] });
     });
 
     it('sets 0/0 for pending tasks when file is too large to read', async () => {
@@ -298,7 +322,7 @@ describe('MarkdownPipelineContentProvider task counters', () => {
         const result = await provider.runProcessFile(file, fileData, settings);
 
         expect(result.processed).toBe(true);
-        expect(result.update).toEqual({ path: file.path, taskTotal: 0, taskUnfinished: 0 });
+        expect(result.update).toEqual({ path: file.path, taskTotal: 0, taskUnfinished: 0, openTasks: [] });
     });
 
     it('falls back to safe defaults after repeated read failures', async () => {
@@ -329,7 +353,7 @@ describe('MarkdownPipelineContentProvider task counters', () => {
 
         const result = await provider.runProcessFile(file, fileData, settings);
         expect(result.processed).toBe(true);
-        expect(result.update).toEqual({ path: file.path, taskTotal: 0, taskUnfinished: 0 });
+        expect(result.update).toEqual({ path: file.path, taskTotal: 0, taskUnfinished: 0, openTasks: [] });
     });
 
     it('sets 0/0 immediately when pending tasks cannot be read', async () => {
@@ -354,6 +378,6 @@ describe('MarkdownPipelineContentProvider task counters', () => {
 
         const result = await provider.runProcessFile(file, fileData, settings);
         expect(result.processed).toBe(false);
-        expect(result.update).toEqual({ path: file.path, taskTotal: 0, taskUnfinished: 0 });
+        expect(result.update).toEqual({ path: file.path, taskTotal: 0, taskUnfinished: 0, openTasks: [] });
     });
 });
@@ -165,6 +165,83 @@ describe('PropertyMetadataService cleanupWithValidators', () => {
     });
 });
 
+describe('PropertyMetadataService handlePropertyValueRename', () => {
+    const app = new App();
+
+    it('moves value and nested value metadata to the renamed value', async () => {
+        const settings = createSettings();
+        settings.propertyColors = {
+            [buildPropertyValueNodeId('area', 'work')]: '#111111',
+            [buildPropertyValueNodeId('area', 'work/alpha')]: '#222222',
+            [buildPropertyValueNodeId('area', 'home')]: '#333333'
+        };
+        settings.propertyIcons = {
+            [buildPropertyValueNodeId('area', 'work')]: 'lucide-briefcase'
+        };
+
+        const provider = new TestSettingsProvider(settings);
+        const service = new PropertyMetadataService(app, provider);
+
+        await service.handlePropertyValueRename(buildPropertyValueNodeId('area', 'work'), buildPropertyValueNodeId('area', 'job'));
+
+        expect(settings.propertyColors).toEqual({
+            [buildPropertyValueNodeId('area', 'job')]: '#111111',
+            [buildPropertyValueNodeId('area', 'job/alpha')]: '#222222',
+            [buildPropertyValueNodeId('area', 'home')]: '#333333'
+        });
+        expect(settings.propertyIcons).toEqual({
+            [buildPropertyValueNodeId('area', 'job')]: 'lucide-briefcase'
+        });
+        expect(provider.saveSettingsAndUpdate).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps destination metadata when merging values', async () => {
+        const settings = createSettings();
+        settings.propertyColors = {
+            [buildPropertyValueNodeId('status', 'in progres')]: '#111111',
+            [buildPropertyValueNodeId('status', 'in progress')]: '#222222'
+        };
+        settings.propertyIcons = {
+            [buildPropertyValueNodeId('status', 'in progres')]: 'lucide-timer'
+        };
+
+        const provider = new TestSettingsProvider(settings);
+        const service = new PropertyMetadataService(app, provider);
+
+        await service.handlePropertyValueRename(
+            buildPropertyValueNodeId('status', 'in progres'),
+            buildPropertyValueNodeId('status', 'in progress'),
+            true
+        );
+
+        expect(settings.propertyColors).toEqual({
+            [buildPropertyValueNodeId('status', 'in progress')]: '#222222'
+        });
+        expect(settings.propertyIcons).toEqual({
+            [buildPropertyValueNodeId('status', 'in progress')]: 'lucide-timer'
+        });
+    });
+
+    it('restores captured metadata after a merge', async () => {
+        const sourceId = buildPropertyValueNodeId('status', 'in progres');
+        const targetId = buildPropertyValueNodeId('status', 'in progress');
+        const settings = createSettings();
+        settings.propertyColors = { [sourceId]: '#111111', [targetId]: '#222222', [`${sourceId}/nested`]: '#444444' };
+        settings.propertyIcons = { [sourceId]: 'lucide-timer' };
+        const before = structuredClone({ colors: settings.propertyColors, icons: settings.propertyIcons });
+
+        const provider = new TestSettingsProvider(settings);
+        const service = new PropertyMetadataService(app, provider);
+        const snapshot = service.capturePropertyValueAppearance([sourceId, targetId]);
+
+        await service.handlePropertyValueRename(sourceId, targetId, true);
+        await service.restorePropertyValueAppearance([sourceId, targetId], snapshot);
+
+        expect(settings.propertyColors).toEqual(before.colors);
+        expect(settings.propertyIcons).toEqual(before.icons);
+    });
+});
+
 describe('PropertyMetadataService color inheritance', () => {
     const app = new App();
 
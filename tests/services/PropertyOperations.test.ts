@@ -23,6 +23,16 @@ import type { NotebookNavigatorSettings } from '../../src/settings';
 import { DEFAULT_SETTINGS } from '../../src/settings/defaultSettings';
 import { createTestTFile } from '../utils/createTestTFile';
 import { getActivePropertyFields, setActivePropertyFields } from '../../src/utils/vaultProfiles';
+import { UndoHistoryService } from '../../src/services/UndoHistoryService';
+import type { PropertyValueEdit } from '../../src/services/propertyOperations/types';
+import type { MetadataService } from '../../src/services/MetadataService';
+import type { PropertyTreeNode } from '../../src/types/storage';
+import { ShortcutType } from '../../src/types/shortcuts';
+import { buildPropertyKeyNodeId, buildPropertyValueNodeId } from '../../src/utils/propertyTree';
+
+vi.mock('../../src/modals/PropertyNodeSuggestModal', () => ({
+    PropertyNodeSuggestModal: class PropertyNodeSuggestModal {}
+}));
 
 class TestPropertyOperations extends PropertyOperations {
     public renameSettings(oldKeyNormalized: string, newKeyDisplay: string): Promise<void> {
@@ -46,6 +56,20 @@ class TestPropertyOperations extends PropertyOperations {
         return this.runPropertyKeyDelete(params);
     }
 
+    public runValueEditWorkflow(files: TFile[], edit: PropertyValueEdit): Promise<boolean> {
+        return this.runPropertyValueEdit(files, edit);
+    }
+
+    public runValueRenameWorkflow(params: {
+        keyNode: PropertyTreeNode;
+        valueNode: PropertyTreeNode & { valuePath: string };
+        newValue: string;
+        affectedPaths: Set<string>;
+        merge: boolean;
+    }): Promise<boolean> {
+        return this.runPropertyValueRename(params);
+    }
+
     public collectRenameConflicts(oldKeyNormalized: string, newKeyNormalized: string, affectedPaths: Set<string>): Set<string> {
         return this.collectRenameConflictPaths(oldKeyNormalized, newKeyNormalized, affectedPaths);
     }
@@ -202,3 +226,299 @@ describe('PropertyOperations rename conflict detection', () => {
         expect(conflicts).toEqual(new Set());
     });
 });
+
+describe('PropertyOperations batch value edits', () => {
+    let app: App;
+    let undoHistory: UndoHistoryService;
+    let operations: TestPropertyOperations;
+    let frontmatterByPath: Map<string, Record<string, unknown>>;
+    let files: TFile[];
+
+    beforeEach(() => {
+        app = new App();
+        undoHistory = new UndoHistoryService();
+        files = [createTestTFile('One.md'), createTestTFile('Two.md'), createTestTFile('Three.md')];
+        frontmatterByPath = new Map<string, Record<string, unknown>>([
+            ['One.md', { Status: 'todo' }],
+            ['Two.md', { status: 'done' }],
+            ['Three.md', {}]
+        ]);
+
+        const filesByPath = new Map(files.map(file => [file.path, file]));
+        app.vault.getFileByPath = (path: string) => filesByPath.get(path) ?? null;
+        app.metadataCache.getFileCache = (file: TFile) => ({ frontmatter: frontmatterByPath.get(file.path) });
+        app.fileManager.processFrontMatter = vi.fn((file: TFile, callback: (fm: Record<string, unknown>) => void) => {
+            callback(frontmatterByPath.get(file.path) ?? {});
+            return Promise.resolve();
+        });
+
+        const settings = structuredClone(DEFAULT_SETTINGS);
+        operations = new TestPropertyOperations(
+            app,
+            () => settings,
+            async () => {},
+            () => null,
+            () => undoHistory
+        );
+    });
+
+    it('previews only the notes that would change', () => {
+        const preview = operations.previewPropertyValueEdit(files, { key: 'status', value: 'done', mode: 'set' });
+
+        expect(preview.changed).toBe(2);
+        expect(preview.sample).toEqual([
+            { fileName: 'One', key: 'Status', before: 'todo', after: 'done' },
+            { fileName: 'Three', key: 'status', before: undefined, after: 'done' }
+        ]);
+    });
+
+    it('applies the edit and restores previous values on undo', async () => {
+        const result = await operations.runValueEditWorkflow(files, { key: 'status', value: 'done', mode: 'set' });
+
+        expect(result).toBe(true);
+        expect(frontmatterByPath.get('One.md')).toEqual({ Status: 'done' });
+        expect(frontmatterByPath.get('Three.md')).toEqual({ status: 'done' });
+
+        await undoHistory.undo();
+        expect(frontmatterByPath.get('One.md')).toEqual({ Status: 'todo' });
+        expect(frontmatterByPath.get('Two.md')).toEqual({ status: 'done' });
+        expect(frontmatterByPath.get('Three.md')).toEqual({});
+
+        await undoHistory.redo();
+        expect(frontmatterByPath.get('One.md')).toEqual({ Status: 'done' });
+        expect(frontmatterByPath.get('Three.md')).toEqual({ status: 'done' });
+    });
+
+    it('keeps number and boolean values typed', async () => {
+        frontmatterByPath.set('One.md', { priority: 2, done: false, scores: [1, 2] });
+        frontmatterByPath.set('Two.md', { priority: 3, done: true });
+
+        const preview = operations.previewPropertyValueEdit(files.slice(0, 2), { key: 'priority', value: '3', mode: 'set' });
+        expect(preview.changed).toBe(1);
+
+        await operations.runValueEditWorkflow(files.slice(0, 2), { key: 'priority', value: '3', mode: 'set' });
+        await operations.runValueEditWorkflow(files.slice(0, 1), { key: 'done', value: 'True', mode: 'set' });
+        await operations.runValueEditWorkflow(files.slice(0, 1), { key: 'scores', value: '4', mode: 'append' });
+
+        expect(frontmatterByPath.get('One.md')).toEqual({ priority: 3, done: true, scores: [1, 2, 4] });
+        expect(frontmatterByPath.get('Two.md')).toEqual({ priority: 3, done: true });
+    });
+
+    it('keeps a property key rename on the undo stack when a note cannot be reverted', async () => {
+        app.vault.getAbstractFileByPath = (path: string) => files.find(file => file.path === path) ?? null;
+        const listener = vi.fn();
+        operations.addPropertyKeyRenameListener(listener);
+
+        await operations.runRenameWorkflow({
+            oldKeyNormalized: 'status',
+            oldKeyDisplay: 'status',
+            newKeyDisplay: 'state',
+            affectedPaths: new Set(['One.md', 'Two.md'])
+        });
+        expect(frontmatterByPath.get('One.md')).toEqual({ state: 'todo' });
+        expect(frontmatterByPath.get('Two.md')).toEqual({ state: 'done' });
+        listener.mockClear();
+
+        app.fileManager.processFrontMatter = vi.fn((file: TFile, callback: (fm: Record<string, unknown>) => void) => {
+            if (file.path === 'Two.md') {
+                return Promise.reject(new Error('locked'));
+            }
+            callback(frontmatterByPath.get(file.path) ?? {});
+            return Promise.resolve();
+        });
+
+        await expect(undoHistory.undo()).rejects.toThrow();
+        expect(listener).not.toHaveBeenCalled();
+        expect(undoHistory.canUndo()).toBe(true);
+        expect(undoHistory.canRedo()).toBe(false);
+    });
+
+    it('keeps a partially redone value edit on the redo stack', async () => {
+        await operations.runValueEditWorkflow(files, { key: 'status', value: 'done', mode: 'set' });
+        await undoHistory.undo();
+
+        app.fileManager.processFrontMatter = vi.fn((file: TFile, callback: (fm: Record<string, unknown>) => void) => {
+            if (file.path === 'Three.md') {
+                return Promise.reject(new Error('locked'));
+            }
+            callback(frontmatterByPath.get(file.path) ?? {});
+            return Promise.resolve();
+        });
+
+        await expect(undoHistory.redo()).rejects.toThrow();
+        expect(undoHistory.canRedo()).toBe(true);
+        expect(undoHistory.canUndo()).toBe(false);
+    });
+});
+
+function createPropertyNode(key: string, name: string, valuePath: string | null): PropertyTreeNode {
+    return {
+        id: valuePath ? buildPropertyValueNodeId(key, valuePath) : buildPropertyKeyNodeId(key),
+        kind: valuePath ? 'value' : 'key',
+        key,
+        valuePath,
+        name,
+        displayPath: name,
+        children: new Map(),
+        notesWithValue: new Set()
+    };
+}
+
+describe('PropertyOperations value rename', () => {
+    let app: App;
+    let settings: NotebookNavigatorSettings;
+    let undoHistory: UndoHistoryService;
+    let handlePropertyValueRename: ReturnType<typeof vi.fn>;
+    let restorePropertyValueMetadata: ReturnType<typeof vi.fn>;
+    let operations: TestPropertyOperations;
+    let frontmatterByPath: Map<string, Record<string, unknown>>;
+
+    const keyNode = createPropertyNode('status', 'Status', null);
+    const valueNode = { ...createPropertyNode('status', 'In progres', 'in progres'), valuePath: 'in progres' };
+    const metadataSnapshot = { nodeIds: [valueNode.id], appearance: {}, separators: {} };
+
+    beforeEach(() => {
+        app = new App();
+        undoHistory = new UndoHistoryService();
+        const files = [createTestTFile('One.md'), createTestTFile('Two.md')];
+        frontmatterByPath = new Map<string, Record<string, unknown>>([
+            ['One.md', { status: 'In progres' }],
+            ['Two.md', { Status: ['In progres', 'Blocked'] }]
+        ]);
+
+        const filesByPath = new Map(files.map(file => [file.path, file]));
+        app.vault.getFileByPath = (path: string) => filesByPath.get(path) ?? null;
+        app.fileManager.processFrontMatter = vi.fn((file: TFile, callback: (fm: Record<string, unknown>) => void) => {
+            callback(frontmatterByPath.get(file.path) ?? {});
+            return Promise.resolve();
+        });
+
+        settings = structuredClone(DEFAULT_SETTINGS);
+        settings.vaultProfiles[0].shortcuts = [{ type: ShortcutType.PROPERTY, nodeId: valueNode.id }];
+        handlePropertyValueRename = vi.fn().mockResolvedValue(undefined);
+        restorePropertyValueMetadata = vi.fn().mockResolvedValue(undefined);
+        const metadataService = {
+            handlePropertyValueRename,
+            capturePropertyValueMetadata: vi.fn(() => metadataSnapshot),
+            restorePropertyValueMetadata,
+            getSettingsProvider: () => ({ settings, saveSettingsAndUpdate: vi.fn().mockResolvedValue(undefined) })
+        } as unknown as MetadataService;
+
+        operations = new TestPropertyOperations(
+            app,
+            () => settings,
+            async () => {},
+            () => null,
+            () => undoHistory,
+            () => metadataService
+        );
+    });
+
+    it('rewrites values, migrates metadata and shortcuts, and restores values on undo', async () => {
+        const newNodeId = buildPropertyValueNodeId('status', 'in progress');
+
+        const result = await operations.runValueRenameWorkflow({
+            keyNode,
+            valueNode,
+            newValue: 'In progress',
+            affectedPaths: new Set(['One.md', 'Two.md']),
+            merge: false
+        });
+
+        expect(result).toBe(true);
+        expect(frontmatterByPath.get('One.md')).toEqual({ status: 'In progress' });
+        expect(frontmatterByPath.get('Two.md')).toEqual({ Status: ['In progress', 'Blocked'] });
+        expect(handlePropertyValueRename).toHaveBeenCalledWith(valueNode.id, newNodeId, false);
+        expect(settings.vaultProfiles[0].shortcuts).toEqual([{ type: ShortcutType.PROPERTY, nodeId: newNodeId }]);
+
+        await undoHistory.undo();
+        expect(frontmatterByPath.get('One.md')).toEqual({ status: 'In progres' });
+        expect(frontmatterByPath.get('Two.md')).toEqual({ Status: ['In progres', 'Blocked'] });
+        expect(restorePropertyValueMetadata).toHaveBeenCalledWith(metadataSnapshot);
+        expect(settings.vaultProfiles[0].shortcuts).toEqual([{ type: ShortcutType.PROPERTY, nodeId: valueNode.id }]);
+    });
+
+    it('keeps a partially redone rename on the redo stack without migrating metadata', async () => {
+        await operations.runValueRenameWorkflow({
+            keyNode,
+            valueNode,
+            newValue: 'In progress',
+            affectedPaths: new Set(['One.md', 'Two.md']),
+            merge: false
+        });
+        await undoHistory.undo();
+        handlePropertyValueRename.mockClear();
+
+        app.fileManager.processFrontMatter = vi.fn((file: TFile, callback: (fm: Record<string, unknown>) => void) => {
+            if (file.path === 'Two.md') {
+                return Promise.reject(new Error('locked'));
+            }
+            callback(frontmatterByPath.get(file.path) ?? {});
+            return Promise.resolve();
+        });
+
+        await expect(undoHistory.redo()).rejects.toThrow();
+        expect(handlePropertyValueRename).not.toHaveBeenCalled();
+        expect(undoHistory.canRedo()).toBe(true);
+    });
+
+    it('drops the source shortcut when merging into a value that already has one', async () => {
+        const targetNodeId = buildPropertyValueNodeId('status', 'blocked');
+        settings.vaultProfiles[0].shortcuts = [
+            { type: ShortcutType.PROPERTY, nodeId: valueNode.id },
+            { type: ShortcutType.PROPERTY, nodeId: targetNodeId }
+        ];
+
+        await operations.runValueRenameWorkflow({
+            keyNode,
+            valueNode,
+            newValue: 'Blocked',
+            affectedPaths: new Set(['One.md', 'Two.md']),
+            merge: true
+        });
+
+        expect(frontmatterByPath.get('Two.md')).toEqual({ Status: ['Blocked'] });
+        expect(handlePropertyValueRename).toHaveBeenCalledWith(valueNode.id, targetNodeId, true);
+        expect(settings.vaultProfiles[0].shortcuts).toEqual([{ type: ShortcutType.PROPERTY, nodeId: targetNodeId }]);
+    });
+
+    it('restores the source metadata and shortcuts when a merge is undone', async () => {
+        const targetNodeId = buildPropertyValueNodeId('status', 'blocked');
+        settings.vaultProfiles[0].shortcuts = [
+            { type: ShortcutType.PROPERTY, nodeId: valueNode.id },
+            { type: ShortcutType.PROPERTY, nodeId: targetNodeId }
+        ];
+
+        await operations.runValueRenameWorkflow({
+            keyNode,
+            valueNode,
+            newValue: 'Blocked',
+            affectedPaths: new Set(['One.md', 'Two.md']),
+            merge: true
+        });
+        await undoHistory.undo();
+
+        expect(frontmatterByPath.get('Two.md')).toEqual({ Status: ['In progres', 'Blocked'] });
+        expect(restorePropertyValueMetadata).toHaveBeenCalledWith(metadataSnapshot);
+        expect(settings.vaultProfiles[0].shortcuts).toEqual([
+            { type: ShortcutType.PROPERTY, nodeId: valueNode.id },
+            { type: ShortcutType.PROPERTY, nodeId: targetNodeId }
+        ]);
+    });
+
+    it('keeps wiki link values as links when renaming', async () => {
+        frontmatterByPath.set('One.md', { status: '[[In progres]]' });
+        frontmatterByPath.set('Two.md', { status: ['[[Tasks/Current|In progres]]'] });
+
+        await operations.runValueRenameWorkflow({
+            keyNode,
+            valueNode,
+            newValue: 'In progress',
+            affectedPaths: new Set(['One.md', 'Two.md']),
+            merge: false
+        });
+
+        expect(frontmatterByPath.get('One.md')).toEqual({ status: '[[In progress]]' });
+        expect(frontmatterByPath.get('Two.md')).toEqual({ status: ['[[Tasks/Current|In progress]]'] });
+    });
+});
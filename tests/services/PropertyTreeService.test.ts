@@ -20,7 +20,7 @@ import { describe, expect, it } from 'vitest';
 import { PROPERTIES_ROOT_VIRTUAL_FOLDER_ID } from '../../src/types';
 import { PropertyTreeService } from '../../src/services/PropertyTreeService';
 import type { PropertyTreeNode } from '../../src/types/storage';
-import { buildPropertyKeyNodeId, buildPropertyValueNodeId } from '../../src/utils/propertyTree';
+import { buildPropertyHierarchyNodeId, buildPropertyKeyNodeId, buildPropertyValueNodeId } from '../../src/utils/propertyTree';
 
 function createKeyNode(key: string, name: string, notes: string[]): PropertyTreeNode {
     return {
@@ -131,6 +131,28 @@ describe('PropertyTreeService', () => {
         expect(service.resolveSelectionNodeId(missingKeyId)).toBe(PROPERTIES_ROOT_VIRTUAL_FOLDER_ID);
     });
 
+    it('indexes hierarchy nodes and resolves missing hierarchy selections', () => {
+        const service = new PropertyTreeService();
+        const root: PropertyTreeNode = {
+            ...createKeyNode('type', 'Research', ['a.md', 'b.md']),
+            id: buildPropertyHierarchyNodeId('research')
+        };
+        const paper: PropertyTreeNode = {
+            ...createValueNode('type', 'paper', 'Paper', ['b.md']),
+            id: buildPropertyHierarchyNodeId('research', ['paper'])
+        };
+        root.children.set(paper.id, paper);
+
+        service.updatePropertyTree(new Map(), new Map([['research', root]]));
+
+        expect(service.hasNodes()).toBe(true);
+        expect(service.findNode(paper.id)).toBe(paper);
+        expect(service.collectFilePaths(root.id, false)).toEqual(new Set(['a.md']));
+        expect(service.collectFilePaths(root.id, true)).toEqual(new Set(['a.md', 'b.md']));
+        expect(service.collectFilePaths(paper.id, true)).toEqual(new Set(['b.md']));
+        expect(service.resolveSelectionNodeId(buildPropertyHierarchyNodeId('research', ['paper', 'draft']))).toBe(paper.id);
+    });
+
     it('notifies listeners on updates and stops notifying after unsubscribe', () => {
         const service = new PropertyTreeService();
         let notifications = 0;
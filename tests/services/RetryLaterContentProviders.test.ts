@@ -73,7 +73,9 @@ describe('Content provider retry-later semantics', () => {
             wordCount: null,
             taskTotal: 0,
             taskUnfinished: 0,
+            openTasks: [],
             properties: null,
+            providerValues: {},
             previewStatus: 'none',
             featureImage: null,
             featureImageStatus: 'none',
@@ -119,7 +121,9 @@ describe('Content provider retry-later semantics', () => {
             wordCount: null,
             taskTotal: 0,
             taskUnfinished: 0,
+            openTasks: [],
             properties: null,
+            providerValues: {},
             previewStatus: 'none',
             featureImage: null,
             featureImageStatus: 'none',
@@ -153,7 +157,9 @@ describe('Content provider retry-later semantics', () => {
             wordCount: null,
             taskTotal: 0,
             taskUnfinished: 0,
+            openTasks: [],
             properties: null,
+            providerValues: {},
             previewStatus: 'none',
             featureImage: null,
             featureImageStatus: 'none',
@@ -194,7 +200,9 @@ describe('Content provider retry-later semantics', () => {
             wordCount: null,
             taskTotal: 0,
             taskUnfinished: 0,
+            openTasks: [],
             properties: null,
+            providerValues: {},
             previewStatus: 'none',
             featureImage: null,
             featureImageStatus: 'none',
@@ -27,6 +27,7 @@ import { DEFAULT_SETTINGS } from '../../src/settings/defaultSettings';
 import type { ISettingsProvider } from '../../src/interfaces/ISettingsProvider';
 import type { ITagTreeProvider } from '../../src/interfaces/ITagTreeProvider';
 import type { MetadataService } from '../../src/services/MetadataService';
+import { UndoHistoryService } from '../../src/services/UndoHistoryService';
 import { createVaultProfile, getActiveVaultProfile } from '../../src/utils/vaultProfiles';
 import type { VaultProfile } from '../../src/settings/types';
 import { createTestTFile } from '../utils/createTestTFile';
@@ -172,6 +173,13 @@ describe('TagDescriptor', () => {
         expect(descriptor.matches('Projects/Archive')).toBe(true);
         expect(descriptor.matches('#projects/archive')).toBe(true);
     });
+
+    it('matches only the exact tag when descendants are excluded', () => {
+        const descriptor = new TagRenameModule.TagDescriptor('#Projects');
+        expect(descriptor.matchesExactly('#projects')).toBe(true);
+        expect(descriptor.matchesExactly('Projects/Archive')).toBe(false);
+        expect(descriptor.matchesExactly('')).toBe(false);
+    });
 });
 
 describe('isDescendantRename', () => {
@@ -207,6 +215,16 @@ describe('TagReplacement', () => {
         expect(updated).toBe('Areas/archive');
     });
 
+    it('leaves descendants unchanged when descendants are excluded', () => {
+        const replacement = new TagRenameModule.TagReplacement(
+            new TagRenameModule.TagDescriptor('Projects'),
+            new TagRenameModule.TagDescriptor('Projects/Active'),
+            false
+        );
+        const updated = replacement.inArray(['projects', 'projects/archive', '#Projects'], false, false) as string[];
+        expect(updated).toEqual(['Projects/Active', 'projects/archive', '#Projects/Active']);
+    });
+
     it('detects collisions when renamed tag already exists', () => {
         const replacement = new TagRenameModule.TagReplacement(
             new TagRenameModule.TagDescriptor('Projects'),
@@ -866,3 +884,106 @@ describe('TagOperations drag-based tag renames', () => {
         expect(modalSpy).not.toHaveBeenCalled();
     });
 });
+
+describe('TagOperations undo history', () => {
+    interface NoteState {
+        frontmatter: Record<string, unknown>;
+        body: string;
+    }
+
+    const notes = new Map<string, NoteState>();
+    const serialize = (note: NoteState) => `${JSON.stringify(note.frontmatter)}\n${note.body}`;
+
+    function createUndoableTagOperations() {
+        const settings = createSettings();
+        const app = new App();
+        const undoHistory = new UndoHistoryService();
+        const files = new Map<string, TFile>();
+
+        const getNote = (file: TFile): NoteState => {
+            const note = notes.get(file.path);
+            if (!note) {
+                throw new Error(`Missing note ${file.path}`);
+            }
+            return note;
+        };
+        const writeContent = (file: TFile, content: string) => {
+            const separator = content.indexOf('\n');
+            notes.set(file.path, {
+                frontmatter: JSON.parse(content.slice(0, separator)) as Record<string, unknown>,
+                body: content.slice(separator + 1)
+            });
+        };
+
+        Object.assign(app.vault, {
+            getFileByPath: (path: string) => files.get(path) ?? null,
+            read: vi.fn(async (file: TFile) => serialize(getNote(file))),
+            modify: vi.fn(async (file: TFile, data: string) => writeContent(file, data)),
+            process: vi.fn(async (file: TFile, processor: (content: string) => string) => {
+                const next = processor(serialize(getNote(file)));
+                writeContent(file, next);
+                return next;
+            })
+        });
+        app.metadataCache.getFileCache = ((file: TFile) => ({
+            frontmatter: structuredClone(getNote(file).frontmatter)
+        })) as unknown as typeof app.metadataCache.getFileCache;
+        app.fileManager.processFrontMatter = vi.fn(async (file: TFile, callback: (frontmatter: Record<string, unknown>) => void) => {
+            callback(getNote(file).frontmatter);
+        });
+
+        const tagOperations = new TagOperations(
+            app,
+            () => settings,
+            () => null,
+            () => null,
+            () => undoHistory
+        );
+
+        const addNote = (path: string, note: NoteState) => {
+            const file = createTestTFile(path);
+            files.set(path, file);
+            notes.set(path, note);
+            return file;
+        };
+
+        return { tagOperations, undoHistory, addNote };
+    }
+
+    beforeEach(() => {
+        notes.clear();
+    });
+
+    it('restores descendant tags removed when a parent tag was added', async () => {
+        const { tagOperations, undoHistory, addNote } = createUndoableTagOperations();
+        const file = addNote('Projects/Alpha.md', { frontmatter: { tags: ['project/a'] }, body: 'Plan #project/a today' });
+        cachedTagsByPath.set(file.path, ['project/a']);
+
+        await expect(tagOperations.addTagToFiles('project', [file])).resolves.toEqual({ added: 1, skipped: 0 });
+        expect(notes.get(file.path)).toEqual({ frontmatter: { tags: ['project'] }, body: 'Plan today' });
+
+        await undoHistory.undo();
+        expect(notes.get(file.path)).toEqual({ frontmatter: { tags: ['project/a'] }, body: 'Plan #project/a today' });
+
+        await undoHistory.redo();
+        expect(notes.get(file.path)).toEqual({ frontmatter: { tags: ['project'] }, body: 'Plan today' });
+    });
+
+    it('restores removed tags to their original fields and keeps later edits', async () => {
+        const { tagOperations, undoHistory, addNote } = createUndoableTagOperations();
+        const file = addNote('Notes/Beta.md', { frontmatter: { tag: 'review', aliases: ['Beta'] }, body: 'Text' });
+        cachedTagsByPath.set(file.path, ['review']);
+
+        await expect(tagOperations.removeTagFromFiles('review', [file])).resolves.toBe(1);
+        expect(notes.get(file.path)?.frontmatter).toEqual({ aliases: ['Beta'] });
+
+        const edited = notes.get(file.path);
+        if (edited) {
+            edited.body = 'Edited text';
+        }
+
+        await undoHistory.undo();
+        expect(notes.get(file.path)).toEqual({ frontmatter: { aliases: ['Beta'], tag: 'review' }, body: 'Edited text' });
+        expect(undoHistory.canRedo()).toBe(true);
+    });
+});
@@ -0,0 +1,147 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { LIMITS } from '../../src/constants/limits';
+import { UndoHistoryService, type UndoableOperation } from '../../src/services/UndoHistoryService';
+
+function createCounterOperation(state: { value: number }, label = 'increment'): UndoableOperation {
+    return {
+        label,
+        undo: async () => {
+            state.value -= 1;
+        },
+        redo: async () => {
+            state.value += 1;
+        }
+    };
+}
+
+describe('UndoHistoryService', () => {
+    it('undoes and redoes operations in reverse order', async () => {
+        const history = new UndoHistoryService();
+        const calls: string[] = [];
+        const createOperation = (label: string): UndoableOperation => ({
+            label,
+            undo: async () => {
+                calls.push(`undo:${label}`);
+            },
+            redo: async () => {
+                calls.push(`redo:${label}`);
+            }
+        });
+
+        history.record(createOperation('first'));
+        history.record(createOperation('second'));
+
+        expect((await history.undo())?.label).toBe('second');
+        expect((await history.undo())?.label).toBe('first');
+        expect(await history.undo()).toBeNull();
+        expect((await history.redo())?.label).toBe('first');
+        expect(calls).toEqual(['undo:second', 'undo:first', 'redo:first']);
+        expect(history.canUndo()).toBe(true);
+        expect(history.canRedo()).toBe(true);
+    });
+
+    it('clears the redo stack when a new operation is recorded', async () => {
+        const history = new UndoHistoryService();
+        const state = { value: 1 };
+
+        history.record(createCounterOperation(state));
+        await history.undo();
+        expect(history.canRedo()).toBe(true);
+
+        history.record(createCounterOperation(state));
+        expect(history.canRedo()).toBe(false);
+    });
+
+    it('ignores operations recorded while an undo is running', async () => {
+        const history = new UndoHistoryService();
+        const nested = createCounterOperation({ value: 0 }, 'nested');
+        let recordedDuringUndo: UndoableOperation | null = nested;
+
+        history.record({
+            label: 'outer',
+            undo: async () => {
+                recordedDuringUndo = history.record(nested);
+            },
+            redo: async () => {}
+        });
+
+        await history.undo();
+
+        expect(recordedDuringUndo).toBeNull();
+        expect(history.canUndo()).toBe(false);
+    });
+
+    it('keeps operations on their stack when undo or redo fails', async () => {
+        const history = new UndoHistoryService();
+        let shouldFail = true;
+        history.record({
+            label: 'flaky',
+            undo: async () => {
+                if (shouldFail) {
+                    throw new Error('File was moved');
+                }
+            },
+            redo: async () => {
+                if (shouldFail) {
+                    throw new Error('File was moved');
+                }
+            }
+        });
+
+        await expect(history.undo()).rejects.toThrow('File was moved');
+        expect(history.canUndo()).toBe(true);
+        expect(history.canRedo()).toBe(false);
+
+        shouldFail = false;
+        expect((await history.undo())?.label).toBe('flaky');
+
+        shouldFail = true;
+        await expect(history.redo()).rejects.toThrow('File was moved');
+        expect(history.canUndo()).toBe(false);
+        expect(history.canRedo()).toBe(true);
+    });
+
+    it('only undoes the expected operation when it is the most recent one', async () => {
+        const history = new UndoHistoryService();
+        const state = { value: 2 };
+        const first = history.record(createCounterOperation(state, 'first'));
+        history.record(createCounterOperation(state, 'second'));
+
+        expect(await history.undo(first ?? undefined)).toBeNull();
+        expect(state.value).toBe(2);
+    });
+
+    it('drops the oldest operations beyond the history size', async () => {
+        const history = new UndoHistoryService();
+        const state = { value: 0 };
+        const total = LIMITS.operations.undoHistorySize + 5;
+        for (let index = 0; index < total; index += 1) {
+            state.value += 1;
+            history.record(createCounterOperation(state));
+        }
+
+        while (await history.undo()) {
+            // Undo everything that was kept
+        }
+
+        expect(state.value).toBe(5);
+    });
+});
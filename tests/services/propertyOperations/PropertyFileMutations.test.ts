@@ -76,4 +76,58 @@ describe('PropertyFileMutations', () => {
         expect(deleted).toBe(false);
         expect(file.frontmatter).toEqual({ Status: 'todo' });
     });
+
+    it('sets, appends and removes property values using the existing key casing', async () => {
+        const file = createFile('Note.md', { Status: 'todo', tags: 'work' });
+
+        const setChange = await fileMutations.applyPropertyValueEditToFile(file, { key: 'status', value: 'done', mode: 'set' });
+        expect(setChange).toEqual({ key: 'Status', before: 'todo', after: 'done' });
+
+        await fileMutations.applyPropertyValueEditToFile(file, { key: 'tags', value: 'home', mode: 'append' });
+        const repeated = await fileMutations.applyPropertyValueEditToFile(file, { key: 'tags', value: 'Home', mode: 'append' });
+        expect(repeated).toBeNull();
+
+        await fileMutations.applyPropertyValueEditToFile(file, { key: 'STATUS', value: '', mode: 'remove' });
+        expect(file.frontmatter).toEqual({ tags: ['work', 'home'] });
+    });
+
+    it('renames property values, nested values and merges duplicates in lists', async () => {
+        const file = createFile('Note.md', { Area: ['Work/Alpha', 'Job', 'Home', 'work'], status: 'In progres' });
+
+        const listChange = await fileMutations.renamePropertyValueInFile(file, { key: 'area', oldValuePath: 'work', newValue: 'Job' });
+        expect(listChange).toEqual({ key: 'Area', before: ['Work/Alpha', 'Job', 'Home', 'work'], after: ['Job/Alpha', 'Job', 'Home'] });
+
+        await fileMutations.renamePropertyValueInFile(file, { key: 'status', oldValuePath: 'in progres', newValue: 'In progress' });
+        expect(file.frontmatter).toEqual({ Area: ['Job/Alpha', 'Job', 'Home'], status: 'In progress' });
+
+        const unchanged = await fileMutations.renamePropertyValueInFile(file, {
+            key: 'status',
+            oldValuePath: 'done',
+            newValue: 'Finished'
+        });
+        expect(unchanged).toBeNull();
+    });
+
+    it('matches wiki link values by display text and numbers by their string form', async () => {
+        const file = createFile('Note.md', { project: '[[Projects/Apollo|Apollo]]', priority: 1 });
+
+        await fileMutations.renamePropertyValueInFile(file, {
+            key: 'project',
+            oldValuePath: 'apollo',
+            newValue: '[[Projects/Artemis|Artemis]]'
+        });
+        await fileMutations.renamePropertyValueInFile(file, { key: 'priority', oldValuePath: '1', newValue: 'high' });
+
+        expect(file.frontmatter).toEqual({ project: '[[Projects/Artemis|Artemis]]', priority: 'high' });
+    });
+
+    it('restores a captured property value', async () => {
+        const file = createFile('Note.md', { status: 'done', other: 1 });
+
+        await fileMutations.restorePropertyValueInFile(file, 'Status', 'todo');
+        expect(file.frontmatter).toEqual({ other: 1, Status: 'todo' });
+
+        await fileMutations.restorePropertyValueInFile(file, 'Status', undefined);
+        expect(file.frontmatter).toEqual({ other: 1 });
+    });
 });
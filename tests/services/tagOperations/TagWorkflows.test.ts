@@ -21,6 +21,9 @@ import { App, TFile } from 'obsidian';
 import { TagRenameWorkflow, type TagRenameHooks } from '../../../src/services/tagOperations/TagRenameWorkflow';
 import { TagDeleteWorkflow, type TagDeleteHooks } from '../../../src/services/tagOperations/TagDeleteWorkflow';
 import { TagFileMutations } from '../../../src/services/tagOperations/TagFileMutations';
+import { TagMergeWorkflow, type TagMergeHooks } from '../../../src/services/tagOperations/TagMergeWorkflow';
+import { TagSplitWorkflow } from '../../../src/services/tagOperations/TagSplitWorkflow';
+import type { ITagTreeProvider } from '../../../src/interfaces/ITagTreeProvider';
 import { RenameFile, TagDescriptor, TagReplacement, type RenameFileApplyResult } from '../../../src/services/tagRename/TagRenameEngine';
 import { DEFAULT_SETTINGS } from '../../../src/settings/defaultSettings';
 import { createTestTFile } from '../../utils/createTestTFile';
@@ -42,6 +45,67 @@ class ControlledRenameFile extends RenameFile {
     }
 }
 
+interface TestNote {
+    file: TFile;
+    content: string;
+    frontmatter: Record<string, unknown>;
+}
+
+/**
+ * Builds an app whose vault and metadata cache serve frontmatter tags and optional inline tags from memory.
+ */
+function createTagVault(entries: { path: string; tags?: string[]; content?: string }[]): { app: App; notes: Map<string, TestNote> } {
+    const app = new App();
+    const notes = new Map<string, TestNote>();
+    entries.forEach(entry => {
+        const file = createTestTFile(entry.path);
+        notes.set(entry.path, { file, content: entry.content ?? '', frontmatter: entry.tags ? { tags: [...entry.tags] } : {} });
+    });
+
+    Reflect.set(app.vault, 'getAbstractFileByPath', (path: string) => notes.get(path)?.file ?? null);
+    Reflect.set(app.vault, 'getMarkdownFiles', () => Array.from(notes.values()).map(note => note.file));
+    Reflect.set(app.vault, 'read', (file: TFile) => Promise.resolve(notes.get(file.path)?.content ?? ''));
+    Reflect.set(app.vault, 'modify', (file: TFile, content: string) => {
+        const note = notes.get(file.path);
+        if (note) {
+            note.content = content;
+        }
+        return Promise.resolve();
+    });
+    Reflect.set(app.metadataCache, 'getCache', (path: string) => {
+        const note = notes.get(path);
+        if (!note) {
+            return null;
+        }
+        const tags = Array.from(note.content.matchAll(/#[^\s#]+/gu)).map(match => ({
+            tag: match[0],
+            position: { start: { offset: match.index ?? 0 }, end: { offset: (match.index ?? 0) + match[0].length } }
+        }));
+        return { frontmatter: note.frontmatter, tags };
+    });
+    app.fileManager.processFrontMatter = vi.fn((file: TFile, callback: (frontmatter: Record<string, unknown>) => void) => {
+        const note = notes.get(file.path);
+        if (note) {
+            callback(note.frontmatter);
+        }
+        return Promise.resolve();
+    });
+
+    return { app, notes };
+}
+
+function createTagTreeStub(tagPaths: string[]): ITagTreeProvider {
+    return {
+        addTreeUpdateListener: () => () => {},
+        hasNodes: () => tagPaths.length > 0,
+        findTagNode: () => null,
+        resolveSelectionTagPath: () => null,
+        getAllTagPaths: () => tagPaths,
+        collectDescendantTagPaths: () => new Set<string>(),
+        collectTagFilePaths: () => []
+    };
+}
+
 describe('TagRenameWorkflow', () => {
     let app: App;
     let hooks: TagRenameHooks;
@@ -254,3 +318,165 @@ describe('TagDeleteWorkflow', () => {
         expect(hooks.notifyTagDeleted).not.toHaveBeenCalled();
     });
 });
+
+describe('TagMergeWorkflow', () => {
+    let hooks: TagMergeHooks;
+
+    beforeEach(() => {
+        hooks = {
+            updateTagMetadataAfterRename: vi.fn().mockResolvedValue(undefined),
+            updateTagShortcutsAfterRename: vi.fn().mockResolvedValue(undefined),
+            notifyTagRenamed: vi.fn()
+        };
+    });
+
+    function createWorkflow(app: App, tagPaths: string[]): TagMergeWorkflow {
+        return new TagMergeWorkflow(
+            app,
+            new TagFileMutations(app, () => DEFAULT_SETTINGS),
+            () => createTagTreeStub(tagPaths),
+            tagPath => tagPath,
+            () => hooks
+        );
+    }
+
+    it('reports skipped sources and conflicts in the merge plan', () => {
+        const { app } = createTagVault([
+            { path: 'A.md', tags: ['alpha'] },
+            { path: 'B.md', tags: ['beta', 'gamma'] },
+            { path: 'C.md', tags: ['alpha/sub'] },
+            { path: 'D.md', content: '#beta here' },
+            { path: 'E.md', tags: ['alpha', 'beta'] }
+        ]);
+        const workflow = createWorkflow(app, ['alpha', 'alpha/sub', 'beta', 'gamma', 'gamma/sub']);
+
+        const plan = workflow.buildMergePlan(['#alpha', 'beta', 'Gamma', 'alpha/sub', 'delta', 'alpha'], 'gamma');
+
+        expect(plan.sources.map(source => source.tag.name)).toEqual(['alpha', 'beta']);
+        expect(plan.skippedSources.map(entry => [entry.tag.name, entry.reason])).toEqual([
+            ['Gamma', 'sameAsTarget'],
+            ['alpha/sub', 'nestedInSource'],
+            ['delta', 'noNotes']
+        ]);
+        expect(plan.targets.map(target => target.filePath)).toEqual(['A.md', 'B.md', 'C.md', 'D.md', 'E.md']);
+        expect(plan.targetTaggedPaths).toEqual(['B.md']);
+        expect(plan.multiSourcePaths).toEqual(['E.md']);
+        expect(plan.nestedCollisions).toEqual(['#alpha/sub → #gamma/sub']);
+    });
+
+    it('skips sources that contain the target tag', () => {
+        const { app } = createTagVault([{ path: 'A.md', tags: ['area'] }]);
+        const workflow = createWorkflow(app, ['area']);
+
+        const plan = workflow.buildMergePlan(['area'], 'area/archive');
+
+        expect(plan.sources).toEqual([]);
+        expect(plan.skippedSources.map(entry => entry.reason)).toEqual(['containsTarget']);
+    });
+
+    it('rewrites every source in one pass and moves metadata of merged sources', async () => {
+        const { app, notes } = createTagVault([
+            { path: 'A.md', tags: ['alpha'] },
+            { path: 'C.md', tags: ['alpha/sub'] },
+            { path: 'D.md', content: '#beta and #alpha here' }
+        ]);
+        const workflow = createWorkflow(app, ['alpha', 'alpha/sub', 'beta']);
+
+        const plan = workflow.buildMergePlan(['alpha', 'beta'], 'gamma');
+        const result = await workflow.runMerge(plan);
+
+        expect(result.report).toEqual({ changed: ['A.md', 'C.md', 'D.md'], skipped: [], failed: [] });
+        expect(result.unfinalizedSources).toEqual([]);
+        expect(notes.get('A.md')?.frontmatter.tags).toEqual(['gamma']);
+        expect(notes.get('C.md')?.frontmatter.tags).toEqual(['gamma/sub']);
+        expect(notes.get('D.md')?.content).toBe('#gamma and #gamma here');
+        expect(hooks.updateTagMetadataAfterRename).toHaveBeenCalledWith('alpha', 'gamma', true);
+        expect(hooks.updateTagMetadataAfterRename).toHaveBeenCalledWith('beta', 'gamma', true);
+        expect(hooks.notifyTagRenamed).toHaveBeenCalledWith({
+            oldPath: 'beta',
+            newPath: 'gamma',
+            oldCanonicalPath: 'beta',
+            newCanonicalPath: 'gamma',
+            mergedIntoExisting: true
+        });
+    });
+
+    it('keeps metadata of sources with notes that were not updated', async () => {
+        const { app, notes } = createTagVault([
+            { path: 'A.md', tags: ['alpha'] },
+            { path: 'B.md', tags: ['beta'] }
+        ]);
+        const workflow = createWorkflow(app, ['alpha', 'beta']);
+        const plan = workflow.buildMergePlan(['alpha', 'beta'], 'gamma');
+        notes.delete('B.md');
+
+        const result = await workflow.runMerge(plan);
+
+        expect(result.report).toEqual({ changed: ['A.md'], skipped: ['B.md'], failed: [] });
+        expect(result.unfinalizedSources.map(tag => tag.name)).toEqual(['beta']);
+        expect(hooks.updateTagMetadataAfterRename).toHaveBeenCalledTimes(1);
+        expect(hooks.updateTagMetadataAfterRename).toHaveBeenCalledWith('alpha', 'gamma', true);
+    });
+});
+
+describe('TagSplitWorkflow', () => {
+    function createWorkflow(app: App): TagSplitWorkflow {
+        return new TagSplitWorkflow(
+            app,
+            new TagFileMutations(app, () => DEFAULT_SETTINGS),
+            () => DEFAULT_SETTINGS,
+            tagPath => tagPath
+        );
+    }
+
+    it('assigns exact tag matches to the first matching folder rule', () => {
+        const { app } = createTagVault([
+            { path: 'Work/One.md', tags: ['project'] },
+            { path: 'Work/Deep/Two.md', tags: ['project', 'project/old'] },
+            { path: 'Home/Three.md', tags: ['Project'] },
+            { path: 'Other/Four.md', tags: ['project'] },
+            { path: 'Work/Five.md', tags: ['project/old'] }
+        ]);
+
+        const plan = createWorkflow(app).buildSplitPlan('project', [
+            { childTag: 'work', kind: 'folder', value: 'Work' },
+            { childTag: '#home', kind: 'folder', value: '/Home/' },
+            { childTag: 'all', kind: 'folder', value: 'work' }
+        ]);
+
+        expect(plan.groups.map(group => [group.target.name, group.targets.map(target => target.filePath)])).toEqual([
+            ['project/work', ['Work/One.md', 'Work/Deep/Two.md']],
+            ['project/home', ['Home/Three.md']],
+            ['project/all', []]
+        ]);
+        expect(plan.unmatchedPaths).toEqual(['Other/Four.md']);
+        expect(plan.invalidRules).toEqual([]);
+    });
+
+    it('reports query rules that cannot be evaluated', () => {
+        const { app } = createTagVault([{ path: 'One.md', tags: ['project'] }]);
+        const rule = { childTag: 'done', kind: 'query' as const, value: 'status' };
+
+        const plan = createWorkflow(app).buildSplitPlan('project', [rule]);
+
+        expect(plan.invalidRules).toEqual([rule]);
+        expect(plan.unmatchedPaths).toEqual(['One.md']);
+    });
+
+    it('replaces only the exact tag and keeps nested tags', async () => {
+        const { app, notes } = createTagVault([
+            { path: 'Work/One.md', tags: ['project', 'project/old'] },
+            { path: 'Work/Two.md', content: '#project and #project/old' },
+            { path: 'Other/Three.md', tags: ['project'] }
+        ]);
+        const workflow = createWorkflow(app);
+        const plan = workflow.buildSplitPlan('project', [{ childTag: 'work', kind: 'folder', value: 'Work' }]);
+
+        const report = await workflow.runSplit(plan);
+
+        expect(report).toEqual({ changed: ['Work/One.md', 'Work/Two.md'], skipped: [], failed: [] });
+        expect(notes.get('Work/One.md')?.frontmatter.tags).toEqual(['project/work', 'project/old']);
+        expect(notes.get('Work/Two.md')?.content).toBe('#project/work and #project/old');
+        expect(notes.get('Other/Three.md')?.frontmatter.tags).toEqual(['project']);
+    });
+});
@@ -0,0 +1,151 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../../src/settings/defaultSettings';
+import type { NotebookNavigatorSettings } from '../../src/settings';
+import {
+    applyConfigBundle,
+    CONFIG_BUNDLE_FORMAT,
+    CONFIG_BUNDLE_VERSION,
+    createConfigBundle,
+    getConfigBundleSectionIds,
+    parseConfigBundle,
+    serializeConfigBundle
+} from '../../src/settings/configBundle';
+
+function createSettings(): NotebookNavigatorSettings {
+    return {
+        ...DEFAULT_SETTINGS,
+        folderIcons: { Projects: 'lucide-folder' },
+        folderColors: { Projects: '#ff0000' },
+        tagColors: {}
+    };
+}
+
+describe('configBundle', () => {
+    it('round trips a created bundle through serialize and parse', () => {
+        const settings = createSettings();
+        const bundle = createConfigBundle(settings, '2.0.0', new Date('2026-01-02T03:04:05.000Z'));
+        const result = parseConfigBundle(serializeConfigBundle(bundle));
+
+        expect(result.ok).toBe(true);
+        if (!result.ok) {
+            return;
+        }
+        expect(result.bundle.pluginVersion).toBe('2.0.0');
+        expect(result.bundle.exportedAt).toBe('2026-01-02T03:04:05.000Z');
+        expect(getConfigBundleSectionIds(result.bundle)).toEqual([
+            'vaultProfiles',
+            'styling',
+            'appearances',
+            'sortOverrides',
+            'iconMaps',
+            'keyboardShortcuts'
+        ]);
+        expect(result.bundle.sections.styling?.folderIcons).toEqual({ Projects: 'lucide-folder' });
+    });
+
+    it('rejects invalid JSON, foreign files and newer versions', () => {
+        expect(parseConfigBundle('{')).toEqual({ ok: false, error: 'invalidJson' });
+        expect(parseConfigBundle(JSON.stringify({ sections: {} }))).toEqual({ ok: false, error: 'invalidFormat' });
+        expect(
+            parseConfigBundle(
+                JSON.stringify({
+                    format: CONFIG_BUNDLE_FORMAT,
+                    version: CONFIG_BUNDLE_VERSION + 1,
+                    sections: { styling: { folderIcons: {} } }
+                })
+            )
+        ).toEqual({ ok: false, error: 'unsupportedVersion' });
+        expect(parseConfigBundle(JSON.stringify({ format: CONFIG_BUNDLE_FORMAT, version: 1, sections: {} }))).toEqual({
+            ok: false,
+            error: 'empty'
+        });
+    });
+
+    it('drops unknown sections and keys that do not belong to a section', () => {
+        const result = parseConfigBundle(
+            JSON.stringify({
+                format: CONFIG_BUNDLE_FORMAT,
+                version: 1,
+                sections: {
+                    styling: { folderIcons: { A: 'lucide-star' }, showTooltips: true },
+                    deviceState: { navigationPaneWidth: 300 }
+                }
+            })
+        );
+
+        expect(result.ok).toBe(true);
+        if (!result.ok) {
+            return;
+        }
+        expect(result.bundle.sections).toEqual({ styling: { folderIcons: { A: 'lucide-star' } } });
+    });
+
+    it('merges records with bundle entries winning and replaces when requested', () => {
+        const bundle = createConfigBundle(
+            { ...createSettings(), folderIcons: { Projects: 'lucide-star', Archive: 'lucide-archive' } },
+            '2.0.0'
+        );
+        const data = { folderIcons: { Projects: 'lucide-folder', Inbox: 'lucide-inbox' }, showTooltips: true };
+
+        const merged = applyConfigBundle(data, bundle, ['styling'], 'merge');
+        expect(merged.folderIcons).toEqual({ Projects: 'lucide-star', Inbox: 'lucide-inbox', Archive: 'lucide-archive' });
+        expect(merged.showTooltips).toBe(true);
+
+        const replaced = applyConfigBundle(data, bundle, ['styling'], 'replace');
+        expect(replaced.folderIcons).toEqual({ Projects: 'lucide-star', Archive: 'lucide-archive' });
+
+        const skipped = applyConfigBundle(data, bundle, ['iconMaps'], 'replace');
+        expect(skipped.folderIcons).toBe(data.folderIcons);
+    });
+
+    it('merges vault profiles by id', () => {
+        const data = {
+            vaultProfiles: [
+                { id: 'default', name: 'Default' },
+                { id: 'work', name: 'Work' }
+            ]
+        };
+        const bundle = parseConfigBundle(
+            JSON.stringify({
+                format: CONFIG_BUNDLE_FORMAT,
+                version: 1,
+                sections: {
+                    vaultProfiles: {
+                        vaultProfiles: [
+                            { id: 'work', name: 'Work (imported)' },
+                            { id: 'travel', name: 'Travel' }
+                        ]
+                    }
+                }
+            })
+        );
+
+        expect(bundle.ok).toBe(true);
+        if (!bundle.ok) {
+            return;
+        }
+        const merged = applyConfigBundle(data, bundle.bundle, ['vaultProfiles'], 'merge');
+        expect(merged.vaultProfiles).toEqual([
+            { id: 'default', name: 'Default' },
+            { id: 'work', name: 'Work (imported)' },
+            { id: 'travel', name: 'Travel' }
+        ]);
+    });
+});
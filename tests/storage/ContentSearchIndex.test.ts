@@ -0,0 +1,49 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { describe, expect, it } from 'vitest';
+import { ContentSearchIndex } from '../../src/storage/ContentSearchIndex';
+
+describe('ContentSearchIndex', () => {
+    it('matches when every query term prefixes an indexed term', () => {
+        const index = new ContentSearchIndex();
+        index.set('notes/a.md', ['budget', 'meeting', 'quarterly']);
+
+        expect(index.matches('notes/a.md', ['budg'])).toBe(true);
+        expect(index.matches('notes/a.md', ['quarter', 'meet'])).toBe(true);
+        expect(index.matches('notes/a.md', ['quarter', 'draft'])).toBe(false);
+    });
+
+    it('does not match unindexed paths', () => {
+        const index = new ContentSearchIndex();
+
+        expect(index.has('notes/a.md')).toBe(false);
+        expect(index.matches('notes/a.md', ['budget'])).toBe(false);
+    });
+
+    it('moves and deletes entries', () => {
+        const index = new ContentSearchIndex();
+        index.set('old.md', ['alpha']);
+
+        index.move('old.md', 'new.md');
+        expect(index.has('old.md')).toBe(false);
+        expect(index.matches('new.md', ['alpha'])).toBe(true);
+
+        index.delete('new.md');
+        expect(index.getEntryCount()).toBe(0);
+    });
+});
@@ -0,0 +1,127 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { describe, expect, it } from 'vitest';
+import { createDefaultFileData, type FileData } from '../../src/storage/indexeddb/fileData';
+import { aggregateVaultStatistics, type VaultStatisticsNote } from '../../src/storage/statistics';
+
+// Wednesday 2026-03-18 12:00 local time
+const NOW = new Date(2026, 2, 18, 12).getTime();
+
+function createData(path: string, overrides: Partial<FileData>): FileData {
+    return { ...createDefaultFileData({ mtime: 0, path }), ...overrides };
+}
+
+function createNote(path: string, overrides: Partial<VaultStatisticsNote> = {}, data: Partial<FileData> = {}): VaultStatisticsNote {
+    return {
+        path,
+        created: NOW,
+        modified: NOW,
+        data: createData(path, { tags: [], wordCount: 0, taskUnfinished: 0, properties: [], ...data }),
+        hasBacklinks: true,
+        ...overrides
+    };
+}
+
+describe('aggregateVaultStatistics', () => {
+    it('buckets created and modified dates into weeks starting on Monday', () => {
+        const stats = aggregateVaultStatistics(
+            [
+                createNote('a.md', { created: new Date(2026, 2, 16).getTime(), modified: new Date(2026, 2, 15, 23, 59).getTime() }),
+                createNote('b.md', { created: new Date(2026, 2, 9, 8).getTime() }),
+                createNote('c.md', { created: new Date(2025, 0, 1).getTime() })
+            ],
+            { now: NOW, weekCount: 3, topCount: 10 }
+        );
+
+        expect(stats.weeks.map(week => new Date(week.start).getDate())).toEqual([2, 9, 16]);
+        expect(stats.weeks.map(week => week.created)).toEqual([0, 1, 1]);
+        expect(stats.weeks.map(week => week.modified)).toEqual([0, 1, 2]);
+        expect(new Date(stats.weeks[1].end).getDate()).toBe(15);
+    });
+
+    it('sums words and open tasks per parent folder and ranks them', () => {
+        const stats = aggregateVaultStatistics(
+            [
+                createNote('root.md', {}, { wordCount: 50 }),
+                createNote('work/a.md', {}, { wordCount: 100, taskUnfinished: 2 }),
+                createNote('work/b.md', {}, { wordCount: 200, taskUnfinished: 1 }),
+                createNote('work/deep/c.md', {}, { wordCount: 10, taskUnfinished: 5 }),
+                createNote('empty/d.md', {}, { wordCount: null, taskUnfinished: null })
+            ],
+            { now: NOW, weekCount: 1, topCount: 2 }
+        );
+
+        expect(stats.totalWords).toBe(360);
+        expect(stats.openTasks).toBe(8);
+        expect(stats.wordsPerFolder).toEqual([
+            { folderPath: 'work', value: 300 },
+            { folderPath: '/', value: 50 }
+        ]);
+        expect(stats.openTasksPerFolder).toEqual([
+            { folderPath: 'work/deep', value: 5 },
+            { folderPath: 'work', value: 3 }
+        ]);
+    });
+
+    it('counts tags case-insensitively and properties once per note', () => {
+        const stats = aggregateVaultStatistics(
+            [
+                createNote(
+                    'a.md',
+                    {},
+                    {
+                        tags: ['Project', 'project/alpha'],
+                        properties: [
+                            { fieldKey: 'Status', value: 'open' },
+                            { fieldKey: 'status', value: 'blocked' }
+                        ]
+                    }
+                ),
+                createNote('b.md', {}, { tags: ['project'], properties: [{ fieldKey: 'status', value: 'done' }] }),
+                createNote('c.md', {}, { tags: ['area'], properties: [{ fieldKey: 'owner', value: 'me' }] })
+            ],
+            { now: NOW, weekCount: 1, topCount: 10 }
+        );
+
+        expect(stats.topTags).toEqual([
+            { key: 'project', label: 'Project', count: 2 },
+            { key: 'area', label: 'area', count: 1 },
+            { key: 'project/alpha', label: 'project/alpha', count: 1 }
+        ]);
+        expect(stats.topProperties).toEqual([
+            { key: 'status', label: 'Status', count: 2 },
+            { key: 'owner', label: 'owner', count: 1 }
+        ]);
+    });
+
+    it('counts untagged and orphaned notes', () => {
+        const stats = aggregateVaultStatistics(
+            [
+                createNote('a.md', { hasBacklinks: false }, { tags: ['tag'] }),
+                createNote('b.md', { hasBacklinks: false }),
+                createNote('c.md', { data: null }),
+                createNote('d.md')
+            ],
+            { now: NOW, weekCount: 1, topCount: 10 }
+        );
+
+        expect(stats.totalNotes).toBe(4);
+        expect(stats.untaggedNotes).toBe(3);
+        expect(stats.orphanedNotes).toBe(2);
+    });
+});
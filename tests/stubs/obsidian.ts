@@ -93,7 +93,7 @@ export class TFile {
     name = '';
     basename = '';
     extension = '';
-    stat = { mtime: 0, ctime: 0 };
+    stat = { mtime: 0, ctime: 0, size: 0 };
 
     constructor(path = '') {
         this.setPath(path);
@@ -182,7 +182,8 @@ export class WorkspaceLeaf {}
 export const Platform = {
     isDesktopApp: true,
     isMobile: false,
-    isIosApp: false
+    isIosApp: false,
+    isMacOS: false
 };
 
 export const normalizePath = (value: string) => value;
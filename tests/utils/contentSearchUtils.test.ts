@@ -0,0 +1,58 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { describe, expect, it } from 'vitest';
+import { extractContentSearchTerms, sortedTermsContainPrefix, splitContentSearchQuery } from '../../src/utils/contentSearchUtils';
+
+describe('extractContentSearchTerms', () => {
+    it('returns sorted unique lowercase terms from the body', () => {
+        const content = '---\ntitle: Hidden\n---\n# Meeting\nBudget review, budget **draft** and Café notes.';
+        const bodyStart = content.indexOf('# Meeting');
+
+        expect(extractContentSearchTerms(content, bodyStart, 100)).toEqual([
+            'and',
+            'budget',
+            'café',
+            'draft',
+            'meeting',
+            'notes',
+            'review'
+        ]);
+    });
+
+    it('stops collecting after the maximum number of terms', () => {
+        expect(extractContentSearchTerms('one two three four', 0, 2)).toEqual(['one', 'two']);
+    });
+});
+
+describe('splitContentSearchQuery', () => {
+    it('splits phrases into normalized terms', () => {
+        expect(splitContentSearchQuery('Quarterly  Budget-review')).toEqual(['quarterly', 'budget', 'review']);
+        expect(splitContentSearchQuery('--')).toEqual([]);
+    });
+});
+
+describe('sortedTermsContainPrefix', () => {
+    it('finds prefixes with binary search', () => {
+        const terms = ['alpha', 'beta', 'gamma'];
+
+        expect(sortedTermsContainPrefix(terms, 'bet')).toBe(true);
+        expect(sortedTermsContainPrefix(terms, 'gamma')).toBe(true);
+        expect(sortedTermsContainPrefix(terms, 'delta')).toBe(false);
+        expect(sortedTermsContainPrefix(terms, 'zeta')).toBe(false);
+    });
+});
@@ -0,0 +1,71 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { formatFileNamePattern, resolveNewNoteFileNamePattern } from '../../src/utils/fileNamePattern';
+import type { MomentApi } from '../../src/utils/moment';
+
+describe('file name patterns', () => {
+    const date = new Date('2026-03-04T09:05:00Z');
+    const momentApi = ((_input?: unknown) => ({
+        isValid: () => true,
+        format: (format?: string) => `fmt-${format ?? ''}`
+    })) as unknown as MomentApi;
+
+    it('expands date, time and title tokens', () => {
+        expect(formatFileNamePattern('{{date}} {{title}}', { title: 'Standup', date, momentApi })).toBe('fmt-YYYY-MM-DD Standup');
+        expect(formatFileNamePattern('{{date:YYYYMMDDHHmm}}', { title: 'Untitled', date, momentApi })).toBe('fmt-YYYYMMDDHHmm');
+        expect(formatFileNamePattern('{{time}}', { title: 'Untitled', date, momentApi })).toBe('fmt-HH-mm');
+    });
+
+    it('falls back to ISO dates without moment', () => {
+        expect(formatFileNamePattern('{{date}} Meeting', { title: 'Untitled', date, momentApi: null })).toBe('2026-03-04 Meeting');
+    });
+
+    it('removes characters that are invalid in file names', () => {
+        expect(formatFileNamePattern('Sync: {{title}}?', { title: 'A/B #1', date, momentApi })).toBe('Sync AB 1');
+        expect(formatFileNamePattern('  ', { title: 'Untitled', date, momentApi })).toBeNull();
+        expect(formatFileNamePattern('{{title}}', { title: '', date, momentApi })).toBeNull();
+    });
+});
+
+describe('resolveNewNoteFileNamePattern', () => {
+    const settings = {
+        newNoteFileNamePattern: ' {{date}} {{title}} ',
+        folderNewNotePatterns: {
+            Zettelkasten: '{{date:YYYYMMDDHHmm}}',
+            'Zettelkasten/Literature': ''
+        } as Record<string, string>
+    };
+
+    it('uses the pattern of the folder or its nearest ancestor', () => {
+        expect(resolveNewNoteFileNamePattern(settings, 'Zettelkasten')).toBe('{{date:YYYYMMDDHHmm}}');
+        expect(resolveNewNoteFileNamePattern(settings, 'Zettelkasten/Literature/Books')).toBe('{{date:YYYYMMDDHHmm}}');
+    });
+
+    it('falls back to the global pattern', () => {
+        expect(resolveNewNoteFileNamePattern(settings, 'Inbox')).toBe('{{date}} {{title}}');
+        expect(resolveNewNoteFileNamePattern(settings, '/')).toBe('{{date}} {{title}}');
+        expect(resolveNewNoteFileNamePattern({ newNoteFileNamePattern: '', folderNewNotePatterns: {} }, 'Inbox')).toBe('');
+    });
+
+    it('applies a root folder pattern to every folder', () => {
+        const rootSettings = { newNoteFileNamePattern: '', folderNewNotePatterns: { '/': '{{title}}' } as Record<string, string> };
+        expect(resolveNewNoteFileNamePattern(rootSettings, 'Projects/Alpha')).toBe('{{title}}');
+    });
+});
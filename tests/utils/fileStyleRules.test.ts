@@ -0,0 +1,138 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { App, TFile, TFolder } from 'obsidian';
+import type { FileData, IndexedDBStorage } from '../../src/storage/IndexedDBStorage';
+import { createDefaultFileData } from '../../src/storage/indexeddb/fileData';
+import { normalizeFileStyleRules } from '../../src/types/fileStyleRules';
+import { compileFileStyleRules, EMPTY_FILE_STYLE_RULE_MATCH, resolveFileStyleRuleMatch } from '../../src/utils/fileStyleRules';
+import { resolveFileIconId } from '../../src/utils/fileIconUtils';
+import { createTestTFile } from './createTestTFile';
+
+const fileDataByPath = new Map<string, FileData>();
+const db = {
+    getFile: (path: string) => fileDataByPath.get(path) ?? null
+} as unknown as IndexedDBStorage;
+
+function addFile(path: string, data: { tags?: string[]; properties?: Record<string, string> } = {}): TFile {
+    const file = createTestTFile(path);
+    const parentPath = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '/';
+    const parent = new TFolder();
+    parent.path = parentPath;
+    Reflect.set(file, 'parent', parent);
+
+    const record = createDefaultFileData({ mtime: 0, path });
+    record.tags = data.tags ?? [];
+    record.properties = Object.entries(data.properties ?? {}).map(([fieldKey, value]) => ({ fieldKey, value }));
+    fileDataByPath.set(path, record);
+    return file;
+}
+
+function match(file: TFile, rules: Parameters<typeof compileFileStyleRules>[0]) {
+    return resolveFileStyleRuleMatch(file, compileFileStyleRules(rules), {
+        app: new App(),
+        db,
+        defaultDateField: 'modified',
+        displayName: file.basename,
+        getFileTimestamps: target => ({ created: target.stat.ctime, modified: target.stat.mtime })
+    });
+}
+
+describe('normalizeFileStyleRules', () => {
+    it('keeps ordered rules with a query and an icon or color', () => {
+        expect(
+            normalizeFileStyleRules([
+                { query: ' .status=done ', icon: 'lucide-check', color: ' #00aa00 ' },
+                { query: '#meeting', icon: 'lucide-calendar' },
+                { query: 'folder:archive', color: '#888888', icon: '' }
+            ])
+        ).toEqual([
+            { query: '.status=done', icon: 'lucide-check', color: '#00aa00' },
+            { query: '#meeting', icon: 'lucide-calendar' },
+            { query: 'folder:archive', color: '#888888' }
+        ]);
+    });
+
+    it('drops invalid entries', () => {
+        expect(normalizeFileStyleRules(null)).toEqual([]);
+        expect(normalizeFileStyleRules([{ query: '', icon: 'lucide-check' }, { query: '#tag' }, 'rule', null])).toEqual([]);
+    });
+});
+
+describe('compileFileStyleRules', () => {
+    it('skips rules whose query has no criteria', () => {
+        const compiled = compileFileStyleRules([
+            { query: '-', icon: 'lucide-check' },
+            { query: '#meeting', color: '#ff0000' }
+        ]);
+        expect(compiled).toHaveLength(1);
+        expect(compiled[0].color).toBe('#ff0000');
+        expect(compiled[0].iconId).toBeNull();
+    });
+});
+
+describe('resolveFileStyleRuleMatch', () => {
+    it('matches property values, tags and folders from cached file data', () => {
+        const done = addFile('Projects/done.md', { properties: { status: 'done' } });
+        const meeting = addFile('Projects/sync.md', { tags: ['meeting'] });
+        const archived = addFile('Archive/old.md');
+        const rules = [
+            { query: '.status=done', icon: 'lucide-check', color: '#00aa00' },
+            { query: '#meeting', icon: 'lucide-calendar' },
+            { query: 'folder:archive', color: '#888888' }
+        ];
+
+        expect(match(done, rules)).toEqual({ iconId: 'check', color: '#00aa00' });
+        expect(match(meeting, rules)).toEqual({ iconId: 'calendar', color: null });
+        expect(match(archived, rules)).toEqual({ iconId: null, color: '#888888' });
+    });
+
+    it('takes the icon and color from the first matching rule that defines each', () => {
+        const file = addFile('Archive/meeting.md', { tags: ['meeting'] });
+        const result = match(file, [
+            { query: 'folder:archive', color: '#888888' },
+            { query: '#meeting', icon: 'lucide-calendar', color: '#ff0000' },
+            { query: 'meeting', icon: 'lucide-star' }
+        ]);
+
+        expect(result).toEqual({ iconId: 'calendar', color: '#888888' });
+    });
+
+    it('returns the empty match when no rule matches', () => {
+        const file = addFile('Projects/plain.md');
+        expect(match(file, [{ query: '#meeting', icon: 'lucide-calendar' }])).toBe(EMPTY_FILE_STYLE_RULE_MATCH);
+        expect(match(file, [])).toBe(EMPTY_FILE_STYLE_RULE_MATCH);
+    });
+});
+
+describe('resolveFileIconId with rule icons', () => {
+    const settings = {
+        showFilenameMatchIcons: true,
+        fileNameIconMap: { plain: 'lucide-star' },
+        showCategoryIcons: true,
+        fileTypeIconMap: {}
+    };
+
+    it('prefers the custom icon, then the rule icon, then name and type mappings', () => {
+        const file = createTestTFile('Projects/plain.md');
+        expect(resolveFileIconId(file, settings, { customIconId: 'lucide-heart', ruleIconId: 'calendar' })).toBe('lucide-heart');
+        expect(resolveFileIconId(file, settings, { ruleIconId: 'calendar' })).toBe('calendar');
+        expect(resolveFileIconId(file, settings)).toBe('star');
+    });
+});
@@ -20,6 +20,10 @@ import {
     parseFilterSearchTokens,
     fileMatchesDateFilterTokens,
     fileMatchesFilterTokens,
+    filterSearchNeedsContentLookup,
+    filterSearchNeedsDateLookup,
+    filterSearchNeedsDueLookup,
+    filterSearchNeedsTaskLookup,
     updateFilterQueryWithTag
 } from '../../src/utils/filterSearch';
 
@@ -77,13 +81,13 @@ describe('parseFilterSearchTokens', () => {
         expect(tokens.includeUntagged).toBe(false);
     });
 
-    it('keeps explicit AND as literal token outside tag mode', () => {
+    it('uses expression mode for explicit AND between tags and names', () => {
         const tokens = parseFilterSearchTokens('#yta and plat');
-        expect(tokens.mode).toBe('filter');
+        expect(tokens.mode).toBe('expression');
         expect(tokens.requiresTags).toBe(true);
         expect(tokens.allRequireTags).toBe(true);
         expect(tokens.includedTagTokens).toEqual(['yta']);
-        expect(sortTokens(tokens.nameTokens)).toEqual(['and', 'plat']);
+        expect(tokens.nameTokens).toEqual([]);
         expect(tokens.includeUntagged).toBe(false);
     });
 
@@ -146,16 +150,60 @@ describe('parseFilterSearchTokens', () => {
         expect(tokens.includeUntagged).toBe(false);
     });
 
-    it('falls back to filter mode when a non-tag operand exists beside tags', () => {
+    it('uses expression mode when a non-tag operand exists beside tags', () => {
         const tokens = parseFilterSearchTokens('plan OR #alpha');
-        expect(tokens.mode).toBe('filter');
+        expect(tokens.mode).toBe('expression');
         expect(tokens.requiresTags).toBe(true);
-        expect(tokens.allRequireTags).toBe(true);
+        expect(tokens.allRequireTags).toBe(false);
         expect(sortTokens(tokens.includedTagTokens)).toEqual(['alpha']);
-        expect(sortTokens(tokens.nameTokens)).toEqual(['or', 'plan']);
+        expect(tokens.nameTokens).toEqual([]);
         expect(tokens.includeUntagged).toBe(false);
     });
 
+    it('falls back to filter mode with literal connectors for malformed mixed expressions', () => {
+        const tokens = parseFilterSearchTokens('#alpha OR');
+        expect(tokens.mode).toBe('filter');
+        expect(tokens.includedTagTokens).toEqual(['alpha']);
+        expect(tokens.nameTokens).toEqual(['or']);
+    });
+
+    it('parses grouped expressions across folder, tag, and extension operands', () => {
+        const tokens = parseFilterSearchTokens('(folder:Projects OR folder:Areas) AND #active AND -ext:pdf');
+        expect(tokens.mode).toBe('expression');
+        expect(tokens.hasInclusions).toBe(true);
+        expect(tokens.allRequireTags).toBe(true);
+        expect(tokens.includedTagTokens).toEqual(['active']);
+        expect(tokens.folderTokens).toEqual([]);
+        expect(tokens.excludeExtensionTokens).toEqual([]);
+    });
+
+    it('uses expression mode for grouped plain words', () => {
+        const tokens = parseFilterSearchTokens('(alpha OR beta) notes');
+        expect(tokens.mode).toBe('expression');
+        expect(tokens.requiresTags).toBe(false);
+    });
+
+    it('keeps parentheses inside words as literal text', () => {
+        const tokens = parseFilterSearchTokens('draft(v2)');
+        expect(tokens.mode).toBe('filter');
+        expect(tokens.nameTokens).toEqual(['draft(v2)']);
+    });
+
+    it('reports negated tags inside NOT groups as exclusions', () => {
+        const tokens = parseFilterSearchTokens('NOT (#alpha OR #beta) folder:work');
+        expect(tokens.mode).toBe('expression');
+        expect(tokens.includedTagTokens).toEqual([]);
+        expect(tokens.excludeTagTokens).toEqual(['alpha', 'beta']);
+        expect(tokens.allRequireTags).toBe(false);
+    });
+
+    it('supports NOT and grouping in tag-only queries', () => {
+        const tokens = parseFilterSearchTokens('-(#alpha OR #beta) #gamma');
+        expect(tokens.mode).toBe('tag');
+        expect(tokens.includedTagTokens).toEqual(['gamma']);
+        expect(tokens.excludeTagTokens).toEqual(['alpha', 'beta']);
+    });
+
     it('applies tag mode precedence when only tags and connectors are present', () => {
         const tokens = parseFilterSearchTokens('#tag1 OR #tag2 AND #tag3');
         expect(tokens.mode).toBe('tag');
@@ -368,6 +416,23 @@ describe('parseFilterSearchTokens', () => {
         expect(tokens.excludeUnfinishedTasks).toBe(false);
     });
 
+    it('parses due date filter tokens', () => {
+        const tokens = parseFilterSearchTokens('due:2026-11-01..2026-11-30 -due:overdue');
+        expect(tokens.mode).toBe('filter');
+        expect(tokens.hasInclusions).toBe(true);
+        expect(tokens.dueRanges).toEqual([{ startMs: new Date(2026, 10, 1).getTime(), endMs: new Date(2026, 11, 1).getTime() }]);
+        expect(tokens.excludeDueRanges).toHaveLength(1);
+        expect(tokens.excludeDueRanges[0]?.startMs).toBeNull();
+        expect(filterSearchNeedsDueLookup(tokens)).toBe(true);
+    });
+
+    it('ignores incomplete due date filter tokens', () => {
+        const tokens = parseFilterSearchTokens('due: due:soon due:c:today');
+        expect(tokens.dueRanges).toEqual([]);
+        expect(tokens.nameTokens).toEqual([]);
+        expect(filterSearchNeedsDueLookup(tokens)).toBe(false);
+    });
+
     it('parses folder filter tokens', () => {
         const tokens = parseFilterSearchTokens('has:task folder:meetings');
         expect(tokens.mode).toBe('filter');
@@ -412,12 +477,12 @@ describe('parseFilterSearchTokens', () => {
         expect(tokens.folderTokens).toEqual([]);
     });
 
-    it('treats connectors as literal text when folder filters are mixed with tags', () => {
+    it('treats connectors as operators when folder filters are mixed with tags', () => {
         const tokens = parseFilterSearchTokens('#alpha OR folder:meetings');
-        expect(tokens.mode).toBe('filter');
-        expect(tokens.nameTokens).toEqual(['or']);
+        expect(tokens.mode).toBe('expression');
+        expect(tokens.nameTokens).toEqual([]);
         expect(tokens.includedTagTokens).toEqual(['alpha']);
-        expect(tokens.folderTokens).toEqual([{ mode: 'segment', value: 'meetings' }]);
+        expect(tokens.folderTokens).toEqual([]);
     });
 
     it('parses extension filter tokens', () => {
@@ -467,28 +532,30 @@ describe('parseFilterSearchTokens', () => {
         expect(tokens.excludeUnfinishedTasks).toBe(false);
     });
 
-    it('treats connectors as literal text when task filters are mixed with tags', () => {
+    it('treats connectors as operators when task filters are mixed with tags', () => {
         const tokens = parseFilterSearchTokens('#alpha OR #beta has:task');
-        expect(tokens.mode).toBe('filter');
-        expect(tokens.nameTokens).toEqual(['or']);
+        expect(tokens.mode).toBe('expression');
+        expect(tokens.nameTokens).toEqual([]);
         expect(sortTokens(tokens.includedTagTokens)).toEqual(['alpha', 'beta']);
-        expect(tokens.requireUnfinishedTasks).toBe(true);
+        expect(tokens.requireUnfinishedTasks).toBe(false);
+        expect(filterSearchNeedsTaskLookup(tokens)).toBe(true);
     });
 
-    it('treats AND as literal text when task filters are mixed with tags', () => {
+    it('treats AND as an operator when task filters are mixed with tags', () => {
         const tokens = parseFilterSearchTokens('#alpha AND has:task');
-        expect(tokens.mode).toBe('filter');
-        expect(tokens.nameTokens).toEqual(['and']);
+        expect(tokens.mode).toBe('expression');
+        expect(tokens.nameTokens).toEqual([]);
         expect(tokens.includedTagTokens).toEqual(['alpha']);
-        expect(tokens.requireUnfinishedTasks).toBe(true);
+        expect(filterSearchNeedsTaskLookup(tokens)).toBe(true);
     });
 
-    it('treats connectors as literal text when date filters are mixed with tags', () => {
+    it('treats connectors as operators when date filters are mixed with tags', () => {
         const tokens = parseFilterSearchTokens('#alpha OR #beta @2026-02-04');
-        expect(tokens.mode).toBe('filter');
-        expect(tokens.nameTokens).toEqual(['or']);
+        expect(tokens.mode).toBe('expression');
+        expect(tokens.nameTokens).toEqual([]);
         expect(sortTokens(tokens.includedTagTokens)).toEqual(['alpha', 'beta']);
-        expect(tokens.dateRanges).toHaveLength(1);
+        expect(tokens.dateRanges).toEqual([]);
+        expect(filterSearchNeedsDateLookup(tokens)).toBe(true);
     });
 
     it('treats non-date @ tokens as literal name tokens', () => {
@@ -513,6 +580,26 @@ describe('parseFilterSearchTokens', () => {
         expect(tokens.folderTokens).toEqual([]);
         expect(tokens.excludeFolderTokens).toEqual([]);
     });
+
+    it('parses content filter tokens', () => {
+        const tokens = parseFilterSearchTokens('content:budget -content:draft');
+        expect(tokens.mode).toBe('filter');
+        expect(tokens.hasInclusions).toBe(true);
+        expect(tokens.contentTokens).toEqual(['budget']);
+        expect(tokens.excludeContentTokens).toEqual(['draft']);
+        expect(tokens.nameTokens).toEqual([]);
+    });
+
+    it('keeps quoted content filter phrases as a single token', () => {
+        const tokens = parseFilterSearchTokens('content:"quarterly budget"');
+        expect(tokens.contentTokens).toEqual(['quarterly budget']);
+    });
+
+    it('ignores empty content filter tokens', () => {
+        const tokens = parseFilterSearchTokens('content:');
+        expect(tokens.contentTokens).toEqual([]);
+        expect(tokens.hasInclusions).toBe(false);
+    });
 });
 
 describe('updateFilterQueryWithTag', () => {
@@ -564,11 +651,30 @@ describe('updateFilterQueryWithTag', () => {
     });
 
     it('removes tags in mixed queries without pruning literal connector words', () => {
+        const result = updateFilterQueryWithTag('meeting and notes #project/alpha', 'project/alpha', 'AND');
+        expect(result.query).toBe('meeting and notes');
+        expect(result.action).toBe('removed');
+        expect(result.changed).toBe(true);
+    });
+
+    it('cleans connectors when removing tags from mixed expressions', () => {
         const result = updateFilterQueryWithTag('meeting and #project/alpha @today', 'project/alpha', 'AND');
-        expect(result.query).toBe('meeting and @today');
+        expect(result.query).toBe('meeting @today');
         expect(result.action).toBe('removed');
         expect(result.changed).toBe(true);
     });
+
+    it('cleans connectors and empty groups when removing tags inside groups', () => {
+        expect(updateFilterQueryWithTag('(#alpha OR folder:work) ext:md', 'alpha', 'AND').query).toBe('(folder:work) ext:md');
+        expect(updateFilterQueryWithTag('(folder:work OR NOT #alpha) ext:md', 'alpha', 'AND').query).toBe('(folder:work) ext:md');
+        expect(updateFilterQueryWithTag('(#alpha) AND ext:md', 'alpha', 'AND').query).toBe('ext:md');
+    });
+
+    it('appends tags with connectors in mixed expressions', () => {
+        const result = updateFilterQueryWithTag('(folder:work OR folder:home)', 'alpha', 'AND');
+        expect(result.query).toBe('(folder:work OR folder:home) AND #alpha');
+        expect(result.action).toBe('added');
+    });
 });
 
 describe('fileMatchesFilterTokens', () => {
@@ -624,14 +730,50 @@ describe('fileMatchesFilterTokens', () => {
         expect(fileMatchesFilterTokens('note', ['ai-helper'], tokens)).toBe(false);
     });
 
-    it('requires matching both name and tag in mixed filter mode queries', () => {
+    it('matches either name or tag in mixed OR expressions', () => {
         const tokens = parseFilterSearchTokens('#alpha OR plan');
-        expect(tokens.mode).toBe('filter');
-        expect(fileMatchesFilterTokens('project or plan', ['alpha'], tokens)).toBe(true);
-        expect(fileMatchesFilterTokens('project or plan', [], tokens)).toBe(false);
+        expect(tokens.mode).toBe('expression');
+        expect(fileMatchesFilterTokens('project', ['alpha'], tokens)).toBe(true);
+        expect(fileMatchesFilterTokens('project plan', [], tokens)).toBe(true);
         expect(fileMatchesFilterTokens('roadmap', ['projects/alpha'], tokens)).toBe(false);
     });
 
+    it('evaluates grouped expressions across folder, tag, and extension operands', () => {
+        const tokens = parseFilterSearchTokens('(folder:Projects OR folder:Areas) AND #active AND -ext:pdf');
+        const match = (folder: string, tags: string[], extension: string) =>
+            fileMatchesFilterTokens('note', tags, tokens, {
+                hasUnfinishedTasks: false,
+                lowercaseFolderPath: folder,
+                lowercaseExtension: extension
+            });
+
+        expect(match('projects/alpha', ['active'], 'md')).toBe(true);
+        expect(match('areas', ['active'], 'md')).toBe(true);
+        expect(match('archive', ['active'], 'md')).toBe(false);
+        expect(match('projects', [], 'md')).toBe(false);
+        expect(match('projects', ['active'], 'pdf')).toBe(false);
+    });
+
+    it('applies NOT to operands and groups', () => {
+        const tokens = parseFilterSearchTokens('NOT (draft OR #archive) has:task');
+        expect(fileMatchesFilterTokens('plan', [], tokens, { hasUnfinishedTasks: true })).toBe(true);
+        expect(fileMatchesFilterTokens('plan draft', [], tokens, { hasUnfinishedTasks: true })).toBe(false);
+        expect(fileMatchesFilterTokens('plan', ['archive'], tokens, { hasUnfinishedTasks: true })).toBe(false);
+        expect(fileMatchesFilterTokens('plan', [], tokens, { hasUnfinishedTasks: false })).toBe(false);
+    });
+
+    it('evaluates date operands inside expressions', () => {
+        const tokens = parseFilterSearchTokens('@2026-02-04 OR #pinned');
+        const inside = new Date(2026, 1, 4, 12, 0, 0).getTime();
+        const outside = new Date(2026, 1, 6, 12, 0, 0).getTime();
+        const dates = (modified: number) => ({ created: 0, modified, defaultField: 'modified' as const });
+
+        expect(fileMatchesFilterTokens('note', [], tokens, { hasUnfinishedTasks: false, dates: dates(inside) })).toBe(true);
+        expect(fileMatchesFilterTokens('note', [], tokens, { hasUnfinishedTasks: false, dates: dates(outside) })).toBe(false);
+        expect(fileMatchesFilterTokens('note', ['pinned'], tokens, { hasUnfinishedTasks: false, dates: dates(outside) })).toBe(true);
+        expect(fileMatchesDateFilterTokens(dates(outside), tokens)).toBe(true);
+    });
+
     it('matches untagged notes when using -# operand in tag mode', () => {
         const tokens = parseFilterSearchTokens('#alpha OR -#');
         expect(tokens.mode).toBe('tag');
@@ -721,6 +863,49 @@ describe('fileMatchesFilterTokens', () => {
         expect(fileMatchesFilterTokens('platform plan', [], tokens, { hasUnfinishedTasks: true })).toBe(false);
     });
 
+    it('filters notes by open task due dates', () => {
+        const tokens = parseFilterSearchTokens('due:2026-11-01..2026-11-30');
+        const inRange = new Date(2026, 10, 15).getTime();
+        const outOfRange = new Date(2026, 9, 15).getTime();
+        expect(fileMatchesFilterTokens('plan', [], tokens, { hasUnfinishedTasks: true, openTaskDueDates: [outOfRange, inRange] })).toBe(
+            true
+        );
+        expect(fileMatchesFilterTokens('plan', [], tokens, { hasUnfinishedTasks: true, openTaskDueDates: [outOfRange] })).toBe(false);
+        expect(fileMatchesFilterTokens('plan', [], tokens, { hasUnfinishedTasks: false })).toBe(false);
+    });
+
+    it('matches overdue tasks and excludes them with dash negation', () => {
+        const yesterday = new Date();
+        yesterday.setHours(0, 0, 0, 0);
+        yesterday.setDate(yesterday.getDate() - 1);
+        const nextWeek = new Date();
+        nextWeek.setHours(0, 0, 0, 0);
+        nextWeek.setDate(nextWeek.getDate() + 7);
+
+        const overdue = parseFilterSearchTokens('due:overdue');
+        expect(fileMatchesFilterTokens('plan', [], overdue, { hasUnfinishedTasks: true, openTaskDueDates: [yesterday.getTime()] })).toBe(
+            true
+        );
+        expect(fileMatchesFilterTokens('plan', [], overdue, { hasUnfinishedTasks: true, openTaskDueDates: [nextWeek.getTime()] })).toBe(
+            false
+        );
+
+        const notOverdue = parseFilterSearchTokens('-due:overdue');
+        expect(fileMatchesFilterTokens('plan', [], notOverdue, { hasUnfinishedTasks: true, openTaskDueDates: [yesterday.getTime()] })).toBe(
+            false
+        );
+        expect(fileMatchesFilterTokens('plan', [], notOverdue, { hasUnfinishedTasks: false })).toBe(true);
+    });
+
+    it('evaluates due date operands inside expressions', () => {
+        const tokens = parseFilterSearchTokens('due:2026-11-01 OR #urgent');
+        const dueDate = new Date(2026, 10, 1).getTime();
+        expect(tokens.mode).toBe('expression');
+        expect(fileMatchesFilterTokens('plan', [], tokens, { hasUnfinishedTasks: true, openTaskDueDates: [dueDate] })).toBe(true);
+        expect(fileMatchesFilterTokens('plan', ['urgent'], tokens, { hasUnfinishedTasks: false })).toBe(true);
+        expect(fileMatchesFilterTokens('plan', [], tokens, { hasUnfinishedTasks: false })).toBe(false);
+    });
+
     it('filters notes by included folder tokens', () => {
         const tokens = parseFilterSearchTokens('folder:meetings');
         expect(
@@ -786,13 +971,75 @@ describe('fileMatchesFilterTokens', () => {
         expect(fileMatchesFilterTokens('platform plan', [], tokens, { hasUnfinishedTasks: false, lowercaseExtension: 'pdf' })).toBe(false);
     });
 
-    it('treats OR as a literal word when unfinished task filters are mixed with tags', () => {
+    it('applies AND precedence when unfinished task filters are mixed with tags', () => {
         const tokens = parseFilterSearchTokens('#alpha OR #beta has:task');
-        expect(tokens.mode).toBe('filter');
-        expect(fileMatchesFilterTokens('note or entry', ['alpha', 'beta'], tokens, { hasUnfinishedTasks: true })).toBe(true);
-        expect(fileMatchesFilterTokens('note entry', ['alpha', 'beta'], tokens, { hasUnfinishedTasks: true })).toBe(false);
-        expect(fileMatchesFilterTokens('note or entry', ['alpha'], tokens, { hasUnfinishedTasks: true })).toBe(false);
-        expect(fileMatchesFilterTokens('note or entry', ['alpha', 'beta'], tokens, { hasUnfinishedTasks: false })).toBe(false);
+        expect(tokens.mode).toBe('expression');
+        expect(fileMatchesFilterTokens('note', ['alpha'], tokens, { hasUnfinishedTasks: false })).toBe(true);
+        expect(fileMatchesFilterTokens('note', ['beta'], tokens, { hasUnfinishedTasks: true })).toBe(true);
+        expect(fileMatchesFilterTokens('note', ['beta'], tokens, { hasUnfinishedTasks: false })).toBe(false);
+        expect(fileMatchesFilterTokens('note', [], tokens, { hasUnfinishedTasks: true })).toBe(false);
+    });
+
+    it('requires a content matcher for content filter tokens', () => {
+        const tokens = parseFilterSearchTokens('content:budget');
+        expect(fileMatchesFilterTokens('plan', [], tokens)).toBe(false);
+        expect(
+            fileMatchesFilterTokens('plan', [], tokens, { hasUnfinishedTasks: false, contentMatcher: value => value === 'budget' })
+        ).toBe(true);
+        expect(fileMatchesFilterTokens('plan', [], tokens, { hasUnfinishedTasks: false, contentMatcher: () => false })).toBe(false);
+    });
+
+    it('excludes notes whose content matches negated content filters', () => {
+        const tokens = parseFilterSearchTokens('plan -content:draft');
+        expect(fileMatchesFilterTokens('plan', [], tokens, { hasUnfinishedTasks: false, contentMatcher: value => value === 'draft' })).toBe(
+            false
+        );
+        expect(fileMatchesFilterTokens('plan', [], tokens, { hasUnfinishedTasks: false, contentMatcher: () => false })).toBe(true);
+    });
+
+    it('matches name tokens against content when enabled', () => {
+        const tokens = parseFilterSearchTokens('budget');
+        const contentMatcher = (value: string) => value === 'budget';
+        expect(fileMatchesFilterTokens('plan', [], tokens, { hasUnfinishedTasks: false, contentMatcher })).toBe(false);
+        expect(
+            fileMatchesFilterTokens('plan', [], tokens, { hasUnfinishedTasks: false, contentMatcher, nameTokensMatchContent: true })
+        ).toBe(true);
+        expect(
+            fileMatchesFilterTokens('budget plan', [], tokens, {
+                hasUnfinishedTasks: false,
+                contentMatcher: () => false,
+                nameTokensMatchContent: true
+            })
+        ).toBe(true);
+    });
+
+    it('applies excluded name tokens to content when enabled', () => {
+        const tokens = parseFilterSearchTokens('plan -draft');
+        const contentMatcher = (value: string) => value === 'draft';
+        expect(fileMatchesFilterTokens('plan', [], tokens, { hasUnfinishedTasks: false, contentMatcher })).toBe(true);
+        expect(
+            fileMatchesFilterTokens('plan', [], tokens, { hasUnfinishedTasks: false, contentMatcher, nameTokensMatchContent: true })
+        ).toBe(false);
+    });
+});
+
+describe('filterSearchNeedsContentLookup', () => {
+    it('requires lookups for content filter tokens', () => {
+        expect(filterSearchNeedsContentLookup(parseFilterSearchTokens('content:budget'), false)).toBe(true);
+        expect(filterSearchNeedsContentLookup(parseFilterSearchTokens('-content:budget'), false)).toBe(true);
+    });
+
+    it('requires lookups for name tokens only when they match content', () => {
+        const tokens = parseFilterSearchTokens('budget');
+        expect(filterSearchNeedsContentLookup(tokens, false)).toBe(false);
+        expect(filterSearchNeedsContentLookup(tokens, true)).toBe(true);
+        expect(filterSearchNeedsContentLookup(parseFilterSearchTokens('#work'), true)).toBe(false);
+    });
+
+    it('detects content and name operands inside expressions', () => {
+        expect(filterSearchNeedsContentLookup(parseFilterSearchTokens('content:budget OR #work'), false)).toBe(true);
+        expect(filterSearchNeedsContentLookup(parseFilterSearchTokens('budget OR #work'), false)).toBe(false);
+        expect(filterSearchNeedsContentLookup(parseFilterSearchTokens('budget OR #work'), true)).toBe(true);
     });
 });
 
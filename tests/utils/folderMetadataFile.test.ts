@@ -0,0 +1,207 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../../src/settings/defaultSettings';
+import type { NotebookNavigatorSettings } from '../../src/settings';
+import {
+    applyPortableFolderMetadataToSettings,
+    collectPortableFolderMetadataPaths,
+    getFolderMetadataSidecarPath,
+    getFolderPathForMetadataSidecar,
+    getPortableFolderMetadataKey,
+    normalizePortableFolderMetadata,
+    readPortableFolderMetadataFromSettings,
+    serializePortableFolderMetadata
+} from '../../src/utils/folderMetadataFile';
+
+function createSettings(): NotebookNavigatorSettings {
+    return {
+        ...DEFAULT_SETTINGS,
+        folderIcons: {},
+        folderColors: {},
+        folderBackgroundColors: {},
+        folderSortOverrides: {},
+        folderSortChains: {},
+        folderAppearances: {}
+    };
+}
+
+describe('folder metadata sidecar paths', () => {
+    it('places the sidecar inside the folder and maps the vault root', () => {
+        expect(getFolderMetadataSidecarPath('Projects/Alpha')).toBe('Projects/Alpha/.folder.yml');
+        expect(getFolderMetadataSidecarPath('/')).toBe('.folder.yml');
+        expect(getFolderPathForMetadataSidecar('Projects/Alpha/.folder.yml')).toBe('Projects/Alpha');
+        expect(getFolderPathForMetadataSidecar('.folder.yml')).toBe('/');
+        expect(getFolderPathForMetadataSidecar('Projects/notes.yml')).toBeNull();
+    });
+});
+
+describe('normalizePortableFolderMetadata', () => {
+    it('keeps valid fields and drops invalid ones', () => {
+        expect(
+            normalizePortableFolderMetadata({
+                icon: 'LiFolderOpen',
+                color: ' #ff0000 ',
+                background: '',
+                sort: 'not-a-sort',
+                appearance: { mode: 'compact' },
+                extra: true
+            })
+        ).toEqual({ icon: 'LiFolderOpen', color: '#ff0000', appearance: { mode: 'compact' } });
+    });
+
+    it('keeps only known appearance fields with valid values', () => {
+        expect(
+            normalizePortableFolderMetadata({
+                appearance: {
+                    mode: 'gallery',
+                    titleRows: 'abc',
+                    previewRows: 3,
+                    notePropertyType: 'wordCount',
+                    groupBy: 'property:status',
+                    boardProperty: ' status ',
+                    gridTileSize: 180.4,
+                    extra: 'value'
+                }
+            })
+        ).toEqual({
+            appearance: {
+                previewRows: 3,
+                notePropertyType: 'wordCount',
+                groupBy: 'property:status',
+                boardProperty: 'status',
+                gridTileSize: 180
+            }
+        });
+        expect(normalizePortableFolderMetadata({ appearance: { mode: 'list', titleRows: 7 } })).toEqual({});
+    });
+
+    it('keeps valid sort chain keys and derives the sort override from the first key', () => {
+        expect(
+            normalizePortableFolderMetadata({
+                sort: 'title-asc',
+                sortChain: [
+                    { field: 'property', direction: 'desc', property: 'priority' },
+                    { field: 'unknown', direction: 'asc' },
+                    { field: 'modified' }
+                ]
+            })
+        ).toEqual({
+            sort: 'property-desc',
+            sortChain: [
+                { field: 'property', direction: 'desc', property: 'priority' },
+                { field: 'modified', direction: 'asc' }
+            ]
+        });
+    });
+
+    it('returns null for non-object input', () => {
+        expect(normalizePortableFolderMetadata('icon: folder')).toBeNull();
+        expect(normalizePortableFolderMetadata(null)).toBeNull();
+        expect(normalizePortableFolderMetadata(['a'])).toBeNull();
+    });
+});
+
+describe('settings round trip', () => {
+    it('reads, serializes and applies metadata without changes', () => {
+        const source = createSettings();
+        source.folderIcons['Projects'] = 'folder-open';
+        source.folderColors['Projects'] = '#336699';
+        source.folderSortOverrides['Projects'] = 'title-asc';
+        source.folderAppearances['Projects'] = { titleRows: 2, mode: 'compact' };
+
+        const metadata = readPortableFolderMetadataFromSettings(source, 'Projects');
+        expect(serializePortableFolderMetadata(metadata)).toEqual({
+            icon: 'LiFolderOpen',
+            color: '#336699',
+            sort: 'title-asc',
+            appearance: { mode: 'compact', titleRows: 2 }
+        });
+
+        const parsed = normalizePortableFolderMetadata(serializePortableFolderMetadata(metadata));
+        expect(parsed).not.toBeNull();
+        if (!parsed) {
+            return;
+        }
+        expect(getPortableFolderMetadataKey(parsed)).toBe(getPortableFolderMetadataKey(metadata));
+
+        const target = createSettings();
+        expect(applyPortableFolderMetadataToSettings(target, 'Projects', parsed)).toBe(true);
+        expect(target.folderIcons['Projects']).toBe('folder-open');
+        expect(target.folderColors['Projects']).toBe('#336699');
+        expect(target.folderSortOverrides['Projects']).toBe('title-asc');
+        expect(target.folderAppearances['Projects']).toEqual({ mode: 'compact', titleRows: 2 });
+        expect(applyPortableFolderMetadataToSettings(target, 'Projects', parsed)).toBe(false);
+    });
+
+    it('round trips sort chains', () => {
+        const source = createSettings();
+        source.folderSortOverrides['Projects'] = 'property-asc';
+        source.folderSortChains['Projects'] = [
+            { field: 'property', direction: 'asc', property: 'status' },
+            { field: 'created', direction: 'desc' }
+        ];
+
+        const metadata = readPortableFolderMetadataFromSettings(source, 'Projects');
+        expect(serializePortableFolderMetadata(metadata)).toEqual({
+            sort: 'property-asc',
+            sortChain: [
+                { field: 'property', direction: 'asc', property: 'status' },
+                { field: 'created', direction: 'desc' }
+            ]
+        });
+
+        const parsed = normalizePortableFolderMetadata(serializePortableFolderMetadata(metadata));
+        expect(parsed).not.toBeNull();
+        if (!parsed) {
+            return;
+        }
+        expect(getPortableFolderMetadataKey(parsed)).toBe(getPortableFolderMetadataKey(metadata));
+
+        const target = createSettings();
+        expect(applyPortableFolderMetadataToSettings(target, 'Projects', parsed)).toBe(true);
+        expect(target.folderSortOverrides['Projects']).toBe('property-asc');
+        expect(target.folderSortChains['Projects']).toEqual(source.folderSortChains['Projects']);
+        expect(applyPortableFolderMetadataToSettings(target, 'Projects', parsed)).toBe(false);
+
+        expect(applyPortableFolderMetadataToSettings(target, 'Projects', { sort: 'title-asc' })).toBe(true);
+        expect(target.folderSortChains['Projects']).toBeUndefined();
+    });
+
+    it('removes settings entries missing from the file metadata', () => {
+        const settings = createSettings();
+        settings.folderColors['Projects'] = '#336699';
+        settings.folderBackgroundColors['Projects'] = '#eeeeee';
+
+        expect(applyPortableFolderMetadataToSettings(settings, 'Projects', { color: '#336699' })).toBe(true);
+        expect(settings.folderColors['Projects']).toBe('#336699');
+        expect(settings.folderBackgroundColors['Projects']).toBeUndefined();
+        expect(getPortableFolderMetadataKey({})).toBe('');
+        expect(serializePortableFolderMetadata({})).toBeNull();
+    });
+
+    it('collects folder paths across all metadata records', () => {
+        const settings = createSettings();
+        settings.folderIcons['A'] = 'folder';
+        settings.folderSortOverrides['B'] = 'title-desc';
+        settings.folderAppearances['C'] = { mode: 'compact' };
+        settings.folderSortChains['D'] = [{ field: 'title', direction: 'asc' }];
+
+        expect(collectPortableFolderMetadataPaths(settings).sort()).toEqual(['A', 'B', 'C', 'D']);
+    });
+});
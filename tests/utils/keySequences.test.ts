@@ -0,0 +1,39 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { resolveVimKeySequence } from '../../src/utils/keySequences';
+
+describe('resolveVimKeySequence', () => {
+    it('resolves single and multi-key sequences', () => {
+        expect(resolveVimKeySequence('', 'G')).toEqual({ type: 'match', action: 'last' });
+        expect(resolveVimKeySequence('', '/')).toEqual({ type: 'match', action: 'search' });
+        expect(resolveVimKeySequence('', 'g')).toEqual({ type: 'pending', buffer: 'g' });
+        expect(resolveVimKeySequence('g', 'g')).toEqual({ type: 'match', action: 'first' });
+        expect(resolveVimKeySequence('d', 'd')).toEqual({ type: 'match', action: 'delete' });
+        expect(resolveVimKeySequence('z', 'c')).toEqual({ type: 'match', action: 'collapse' });
+        expect(resolveVimKeySequence('z', 'o')).toEqual({ type: 'match', action: 'expand' });
+    });
+
+    it('retries the key on its own when the pending sequence breaks', () => {
+        expect(resolveVimKeySequence('g', 'G')).toEqual({ type: 'match', action: 'last' });
+        expect(resolveVimKeySequence('z', 'd')).toEqual({ type: 'pending', buffer: 'd' });
+        expect(resolveVimKeySequence('d', 'x')).toEqual({ type: 'none' });
+        expect(resolveVimKeySequence('', 'x')).toEqual({ type: 'none' });
+    });
+});
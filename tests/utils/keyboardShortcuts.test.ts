@@ -0,0 +1,72 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+    getDefaultKeyboardShortcuts,
+    getMatchingShortcutNumber,
+    KeyboardShortcutAction,
+    matchesShortcut,
+    sanitizeKeyboardShortcuts
+} from '../../src/utils/keyboardShortcuts';
+
+function createKeyEvent(key: string, modifiers: { ctrlKey?: boolean; shiftKey?: boolean; altKey?: boolean } = {}): KeyboardEvent {
+    return {
+        key,
+        ctrlKey: modifiers.ctrlKey ?? false,
+        shiftKey: modifiers.shiftKey ?? false,
+        altKey: modifiers.altKey ?? false,
+        metaKey: false
+    } as KeyboardEvent;
+}
+
+describe('keyboard shortcut file operation actions', () => {
+    it('leaves file operation actions unbound by default', () => {
+        const defaults = getDefaultKeyboardShortcuts();
+
+        expect(defaults[KeyboardShortcutAction.PANE_RENAME]).toEqual([]);
+        expect(defaults[KeyboardShortcutAction.LIST_TOGGLE_PIN]).toEqual([]);
+        expect(defaults[KeyboardShortcutAction.PANE_OPEN_SHORTCUT_9]).toEqual([]);
+        expect(matchesShortcut(createKeyEvent('F2'), defaults, KeyboardShortcutAction.PANE_RENAME)).toBe(false);
+    });
+
+    it('keeps user bindings for new actions when sanitizing stored settings', () => {
+        const sanitized = sanitizeKeyboardShortcuts({
+            'pane:rename': [{ key: 'F2', modifiers: [] }],
+            'list:add-tag': [{ key: 't', modifiers: ['Shift', 'Shift'] }],
+            'pane:move-to-folder': [{ key: 'm', modifiers: ['Hyper'] }]
+        });
+
+        expect(sanitized[KeyboardShortcutAction.PANE_RENAME]).toEqual([{ key: 'F2', modifiers: [] }]);
+        expect(sanitized[KeyboardShortcutAction.LIST_ADD_TAG]).toEqual([{ key: 't', modifiers: ['Shift'] }]);
+        expect(sanitized[KeyboardShortcutAction.PANE_MOVE_TO_FOLDER]).toEqual([]);
+        expect(sanitized[KeyboardShortcutAction.PANE_MOVE_UP]).toEqual([{ key: 'ArrowUp', modifiers: [] }]);
+    });
+
+    it('resolves the shortcut number for jump actions', () => {
+        const config = sanitizeKeyboardShortcuts({
+            'pane:open-shortcut-1': [{ key: '1', modifiers: ['Alt'] }],
+            'pane:open-shortcut-3': [{ key: '3', modifiers: ['Mod'] }]
+        });
+
+        expect(getMatchingShortcutNumber(createKeyEvent('1', { altKey: true }), config)).toBe(1);
+        expect(getMatchingShortcutNumber(createKeyEvent('3', { ctrlKey: true }), config)).toBe(3);
+        expect(getMatchingShortcutNumber(createKeyEvent('3'), config)).toBeNull();
+        expect(getMatchingShortcutNumber(createKeyEvent('2', { altKey: true }), config)).toBeNull();
+    });
+});
@@ -0,0 +1,88 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { describe, expect, it } from 'vitest';
+import type { TFile } from 'obsidian';
+import { resolveListMode } from '../../src/hooks/useListPaneAppearance';
+import {
+    buildBoardColumns,
+    getBoardColumnKey,
+    getBoardColumnValue,
+    parseBoardColumnValue,
+    resolveBoardColumnMove
+} from '../../src/utils/listBoard';
+import { createTestTFile } from './createTestTFile';
+
+describe('board columns', () => {
+    it('reads column values from scalars and lists', () => {
+        expect(getBoardColumnValue(' Doing ')).toEqual({ key: 'doing', label: 'Doing', value: 'Doing' });
+        expect(getBoardColumnValue(['', 2])).toEqual({ key: '2', label: '2', value: 2 });
+        expect(getBoardColumnValue('[[Projects/Alpha|Alpha]]')).toEqual({
+            key: 'alpha',
+            label: 'Alpha',
+            value: '[[Projects/Alpha|Alpha]]'
+        });
+        expect(getBoardColumnValue({ nested: true })).toBeNull();
+    });
+
+    it('matches the board property case-insensitively', () => {
+        expect(getBoardColumnKey({ Status: 'Done' }, 'status')).toBe('done');
+        expect(getBoardColumnKey({ status: '' }, 'status')).toBe('');
+        expect(getBoardColumnKey(null, 'status')).toBe('');
+    });
+
+    it('builds columns in natural order with notes without a value last', () => {
+        const frontmatterByPath: Record<string, Record<string, unknown>> = {
+            'a.md': { status: 'Todo' },
+            'b.md': { Status: 'done' },
+            'c.md': {},
+            'd.md': { status: 'Done' },
+            'e.md': { status: ['todo', 'later'] }
+        };
+        const files = Object.keys(frontmatterByPath).map(path => createTestTFile(path));
+        const columns = buildBoardColumns(files, (file: TFile) => frontmatterByPath[file.path], 'status', 'No value');
+
+        expect(columns.map(column => [column.label, column.value, column.files.map(file => file.path)])).toEqual([
+            ['done', 'done', ['b.md', 'd.md']],
+            ['Todo', 'Todo', ['a.md', 'e.md']],
+            ['No value', null, ['c.md']]
+        ]);
+    });
+
+    it('replaces only the list entry that placed the note in its column', () => {
+        expect(resolveBoardColumnMove({ tags: ['a', 'c'] }, 'tags', 'b')).toEqual({ key: 'tags', before: ['a', 'c'], after: ['b', 'c'] });
+        expect(resolveBoardColumnMove({ tags: ['a', 'b', 'c'] }, 'tags', 'b')?.after).toEqual(['b', 'c']);
+        expect(resolveBoardColumnMove({ Status: 'Todo' }, 'status', 'Done')).toEqual({ key: 'Status', before: 'Todo', after: 'Done' });
+        expect(resolveBoardColumnMove({ tags: ['a', 'c'] }, 'tags', null)).toEqual({ key: 'tags', before: ['a', 'c'], after: undefined });
+        expect(resolveBoardColumnMove({}, 'tags', null)).toBeNull();
+    });
+
+    it('keeps number and boolean column values typed', () => {
+        expect(parseBoardColumnValue('3', 'number')).toBe(3);
+        expect(parseBoardColumnValue('false', 'boolean')).toBe(false);
+        expect(parseBoardColumnValue('3', 'string')).toBe('3');
+        expect(parseBoardColumnValue(null, null)).toBeNull();
+        expect(resolveBoardColumnMove({ priority: 2 }, 'priority', 3)?.after).toBe(3);
+        expect(resolveBoardColumnMove({ priority: 3 }, 'priority', 3)).toBeNull();
+    });
+
+    it('only resolves board mode when a board property is set', () => {
+        expect(resolveListMode({ appearance: { mode: 'board', boardProperty: 'status' }, defaultMode: 'standard' })).toBe('board');
+        expect(resolveListMode({ appearance: { mode: 'board', boardProperty: '  ' }, defaultMode: 'compact' })).toBe('compact');
+        expect(resolveListMode({ appearance: { mode: 'board' }, defaultMode: 'standard' })).toBe('standard');
+    });
+});
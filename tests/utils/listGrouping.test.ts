@@ -0,0 +1,135 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { describe, expect, it } from 'vitest';
+import { ItemType } from '../../src/types';
+import {
+    createPropertyGroupingOption,
+    getAlphabeticalGroupLabel,
+    getPropertyGroupingKey,
+    getPropertyGroupValue,
+    getTagGroup,
+    groupFilesByValue,
+    isListNoteGroupingOption,
+    resolveListGrouping
+} from '../../src/utils/listGrouping';
+import { createTestTFile } from './createTestTFile';
+
+describe('resolveListGrouping', () => {
+    it('uses property grouping overrides for folders and tags', () => {
+        const settings = {
+            noteGrouping: 'date' as const,
+            folderAppearances: { Projects: { groupBy: createPropertyGroupingOption('status') } },
+            tagAppearances: { work: { groupBy: 'tag' as const } }
+        };
+
+        const folderGrouping = resolveListGrouping({ settings, selectionType: ItemType.FOLDER, folderPath: 'Projects' });
+        expect(folderGrouping.effectiveGrouping).toBe('property:status');
+        expect(getPropertyGroupingKey(folderGrouping.effectiveGrouping)).toBe('status');
+
+        const tagGrouping = resolveListGrouping({ settings, selectionType: ItemType.TAG, tag: 'work' });
+        expect(tagGrouping.effectiveGrouping).toBe('tag');
+        expect(tagGrouping.hasCustomOverride).toBe(true);
+    });
+
+    it('ignores invalid stored overrides', () => {
+        const settings = {
+            noteGrouping: 'none' as const,
+            folderAppearances: { Projects: { groupBy: createPropertyGroupingOption('  ') } },
+            tagAppearances: { work: { groupBy: 'folder' as const } }
+        };
+
+        expect(resolveListGrouping({ settings, selectionType: ItemType.FOLDER, folderPath: 'Projects' })).toMatchObject({
+            effectiveGrouping: 'none',
+            hasCustomOverride: false
+        });
+        expect(resolveListGrouping({ settings, selectionType: ItemType.TAG, tag: 'work' })).toMatchObject({
+            effectiveGrouping: 'none',
+            hasCustomOverride: false
+        });
+    });
+
+    it('validates grouping values', () => {
+        expect(isListNoteGroupingOption('alphabetical')).toBe(true);
+        expect(isListNoteGroupingOption('property:status')).toBe(true);
+        expect(isListNoteGroupingOption('property:')).toBe(false);
+        expect(isListNoteGroupingOption('kanban')).toBe(false);
+    });
+});
+
+describe('group values', () => {
+    it('reads property values from scalars, lists and links', () => {
+        expect(getPropertyGroupValue(' active ')).toBe('active');
+        expect(getPropertyGroupValue(3)).toBe('3');
+        expect(getPropertyGroupValue(['', 'first', 'second'])).toBe('first');
+        expect(getPropertyGroupValue('[[Projects/Alpha|Alpha]]')).toBe('Alpha');
+        expect(getPropertyGroupValue({ nested: true })).toBeNull();
+        expect(getPropertyGroupValue('')).toBeNull();
+    });
+
+    it('resolves tag groups relative to the selected tag', () => {
+        expect(getTagGroup(['project/alpha', 'area'], null)).toEqual({ key: 'project', label: 'project' });
+        expect(getTagGroup(['Project', 'project/Beta/x'], 'project')).toEqual({ key: 'project/beta', label: 'Beta' });
+        expect(getTagGroup(['Project'], 'project')).toEqual({ key: 'project', label: 'Project' });
+        expect(getTagGroup(['area'], 'project')).toBeNull();
+    });
+
+    it('uses first letters for alphabetical headers', () => {
+        expect(getAlphabeticalGroupLabel('apple')).toBe('A');
+        expect(getAlphabeticalGroupLabel('  émile')).toBe('É');
+        expect(getAlphabeticalGroupLabel('2024 review')).toBe('#');
+        expect(getAlphabeticalGroupLabel('')).toBe('#');
+    });
+});
+
+describe('groupFilesByValue', () => {
+    it('orders groups by label and keeps files without a value last', () => {
+        const values = new Map<string, string | null>([
+            ['a.md', 'todo'],
+            ['b.md', null],
+            ['c.md', 'done'],
+            ['d.md', 'todo'],
+            ['e.md', 'Done']
+        ]);
+        const files = ['a.md', 'b.md', 'c.md', 'd.md', 'e.md'].map(path => createTestTFile(path));
+
+        const groups = groupFilesByValue(
+            files,
+            file => {
+                const value = values.get(file.path) ?? null;
+                return value ? { key: value.toLowerCase(), label: value } : null;
+            },
+            { missingLabel: 'No value' }
+        );
+
+        expect(groups.map(group => [group.label, group.files.map(file => file.path)])).toEqual([
+            ['done', ['c.md', 'e.md']],
+            ['todo', ['a.md', 'd.md']],
+            ['No value', ['b.md']]
+        ]);
+    });
+
+    it('places the leading group first', () => {
+        const files = ['a.md', 'b.md'].map(path => createTestTFile(path));
+        const groups = groupFilesByValue(files, file => (file.path === 'a.md' ? { key: 'z', label: 'z' } : { key: 'a', label: 'a' }), {
+            missingLabel: 'Untagged',
+            leadingKey: 'z'
+        });
+
+        expect(groups.map(group => group.key)).toEqual(['z', 'a']);
+    });
+});
@@ -0,0 +1,87 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { NoteTemplateRule } from '../../src/settings/types';
+import {
+    findNoteTemplateRule,
+    matchesFolderPattern,
+    matchesPropertyPattern,
+    matchesTagPattern,
+    normalizeNoteTemplateRules
+} from '../../src/utils/noteTemplateRules';
+
+function createRule(target: NoteTemplateRule['target'], pattern: string, templatePath = 'Templates/Note.md'): NoteTemplateRule {
+    return { target, pattern, templatePath, fileNamePattern: '' };
+}
+
+describe('note template rule matching', () => {
+    it('matches folder patterns against the folder and its descendants', () => {
+        expect(matchesFolderPattern('Meetings', 'Meetings')).toBe(true);
+        expect(matchesFolderPattern('Meetings/', 'Meetings/2026')).toBe(true);
+        expect(matchesFolderPattern('Meetings', 'Meetings archive')).toBe(false);
+        expect(matchesFolderPattern('Projects/*/Notes', 'Projects/Alpha/Notes')).toBe(true);
+        expect(matchesFolderPattern('Projects/*/Notes', 'Projects/Alpha/Beta/Notes')).toBe(false);
+        expect(matchesFolderPattern('**/Daily', 'Journal/2026/Daily')).toBe(true);
+        expect(matchesFolderPattern('', '/')).toBe(true);
+        expect(matchesFolderPattern('Meetings', '/')).toBe(false);
+    });
+
+    it('matches tags and descendant tags ignoring case and #', () => {
+        expect(matchesTagPattern('#Meeting', 'meeting')).toBe(true);
+        expect(matchesTagPattern('meeting', 'Meeting/Weekly')).toBe(true);
+        expect(matchesTagPattern('meeting', 'meetings')).toBe(false);
+    });
+
+    it('matches property keys and key=value patterns', () => {
+        const values: [string, unknown][] = [
+            ['Type', 'Meeting'],
+            ['status', ['open', 'urgent']]
+        ];
+        expect(matchesPropertyPattern('type', values)).toBe(true);
+        expect(matchesPropertyPattern('type=meeting', values)).toBe(true);
+        expect(matchesPropertyPattern('status=urgent', values)).toBe(true);
+        expect(matchesPropertyPattern('type=project', values)).toBe(false);
+        expect(matchesPropertyPattern('=meeting', values)).toBe(false);
+    });
+
+    it('returns the first rule for the creation context target', () => {
+        const tagRule = createRule('tag', 'meeting', 'Templates/Tag.md');
+        const broadRule = createRule('folder', '', 'Templates/Default.md');
+        const meetingsRule = createRule('folder', 'Meetings', 'Templates/Meeting.md');
+        const rules = [tagRule, meetingsRule, broadRule];
+
+        expect(findNoteTemplateRule(rules, { target: 'folder', folderPath: 'Meetings/2026' })).toBe(meetingsRule);
+        expect(findNoteTemplateRule(rules, { target: 'folder', folderPath: 'Inbox' })).toBe(broadRule);
+        expect(findNoteTemplateRule(rules, { target: 'tag', tagPath: 'meeting/weekly' })).toBe(tagRule);
+        expect(findNoteTemplateRule(rules, { target: 'property', frontmatterValues: [['type', 'meeting']] })).toBeNull();
+    });
+
+    it('drops invalid stored rules', () => {
+        expect(
+            normalizeNoteTemplateRules([
+                { target: 'folder', pattern: ' Meetings ', templatePath: 'Templates/Meeting.md', fileNamePattern: '' },
+                { target: 'tag', pattern: '', templatePath: 'Templates/Tag.md', fileNamePattern: '' },
+                { target: 'property', pattern: 'type', templatePath: '', fileNamePattern: '' },
+                { target: 'unknown', pattern: 'x', templatePath: 'Templates/X.md', fileNamePattern: '' },
+                'invalid'
+            ])
+        ).toEqual([{ target: 'folder', pattern: 'Meetings', templatePath: 'Templates/Meeting.md', fileNamePattern: '' }]);
+        expect(normalizeNoteTemplateRules(null)).toEqual([]);
+    });
+});
@@ -0,0 +1,68 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+    normalizePropertyHierarchies,
+    parsePropertyHierarchiesText,
+    serializePropertyHierarchies
+} from '../../src/types/propertyHierarchies';
+
+describe('parsePropertyHierarchiesText', () => {
+    it('parses one hierarchy per line and drops repeated keys', () => {
+        const result = parsePropertyHierarchiesText(
+            'Research: type > status > project\n\n# comment\r\nReading:  medium >  status > Medium '
+        );
+
+        expect(result.invalidLines).toEqual([]);
+        expect(result.hierarchies).toEqual([
+            { id: 'research', name: 'Research', keys: ['type', 'status', 'project'] },
+            { id: 'reading', name: 'Reading', keys: ['medium', 'status'] }
+        ]);
+    });
+
+    it('reports lines without a name, keys or a unique name', () => {
+        const result = parsePropertyHierarchiesText('type > status\n: type\nEmpty: > \nResearch: type\nresearch: status');
+
+        expect(result.hierarchies).toEqual([{ id: 'research', name: 'Research', keys: ['type'] }]);
+        expect(result.invalidLines).toEqual(['type > status', ': type', 'Empty: >', 'research: status']);
+    });
+});
+
+describe('serializePropertyHierarchies', () => {
+    it('round-trips parsed hierarchies', () => {
+        const text = 'Research: type > status\nReading: medium';
+
+        expect(serializePropertyHierarchies(parsePropertyHierarchiesText(text).hierarchies)).toBe(text);
+    });
+});
+
+describe('normalizePropertyHierarchies', () => {
+    it('drops invalid and duplicate entries and recomputes ids', () => {
+        const normalized = normalizePropertyHierarchies([
+            { id: 'stale', name: ' Research ', keys: ['type', '', 42, 'status'] },
+            { name: 'research', keys: ['project'] },
+            { name: 'Empty', keys: [] },
+            { name: 'Reading' },
+            'Projects: status'
+        ]);
+
+        expect(normalized).toEqual([{ id: 'research', name: 'Research', keys: ['type', 'status'] }]);
+        expect(normalizePropertyHierarchies(null)).toEqual([]);
+    });
+});
@@ -87,31 +87,33 @@ describe('ensureRecord', () => {
 
 describe('pinned note record helpers', () => {
     it('normalizes malformed pinned context values to strict booleans', () => {
-        expect(normalizePinnedNoteContext('invalid')).toEqual({ folder: false, tag: false, property: false });
+        expect(normalizePinnedNoteContext('invalid')).toEqual({ folder: false, tag: false, property: false, 'smart-folder': false });
         expect(normalizePinnedNoteContext({ folder: true, tag: 'yes', property: 1 })).toEqual({
             folder: true,
             tag: false,
-            property: false
+            property: false,
+            'smart-folder': false
         });
         expect(normalizePinnedNoteContext({ folder: true, tag: true })).toEqual({
             folder: true,
             tag: true,
-            property: true
+            property: true,
+            'smart-folder': true
         });
     });
 
     it('clones pinned note records into null-prototype objects with normalized contexts', () => {
         const cloned = clonePinnedNotesRecord({
-            'a.md': { folder: true, tag: false, property: false },
+            'a.md': { folder: true, tag: false, property: false, 'smart-folder': false },
             'b.md': { folder: 'true' },
             'c.md': null,
             'd.md': { folder: true, tag: true }
         });
 
         expect(Object.getPrototypeOf(cloned)).toBeNull();
-        expect(cloned['a.md']).toEqual({ folder: true, tag: false, property: false });
-        expect(cloned['b.md']).toEqual({ folder: false, tag: false, property: false });
-        expect(cloned['c.md']).toEqual({ folder: false, tag: false, property: false });
-        expect(cloned['d.md']).toEqual({ folder: true, tag: true, property: true });
+        expect(cloned['a.md']).toEqual({ folder: true, tag: false, property: false, 'smart-folder': false });
+        expect(cloned['b.md']).toEqual({ folder: false, tag: false, property: false, 'smart-folder': false });
+        expect(cloned['c.md']).toEqual({ folder: false, tag: false, property: false, 'smart-folder': false });
+        expect(cloned['d.md']).toEqual({ folder: true, tag: true, property: true, 'smart-folder': true });
     });
 });
@@ -0,0 +1,132 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { describe, expect, it } from 'vitest';
+import type { NotebookNavigatorSettings } from '../../src/settings/types';
+import { DEFAULT_SETTINGS } from '../../src/settings/defaultSettings';
+import { strings } from '../../src/i18n';
+import type { SmartFolder } from '../../src/types/smartFolders';
+import { normalizeSmartFolderOrder, normalizeSmartFolders } from '../../src/types/smartFolders';
+import {
+    addActiveSmartFolder,
+    getOrderedRootSmartFolders,
+    getSmartFolderLineage,
+    removeActiveSmartFolder,
+    removeSmartFolder,
+    validateSmartFolderName
+} from '../../src/utils/smartFolders';
+import { getActiveVaultProfile } from '../../src/utils/vaultProfiles';
+
+function createSettings(): NotebookNavigatorSettings {
+    return JSON.parse(JSON.stringify(DEFAULT_SETTINGS)) as NotebookNavigatorSettings;
+}
+
+function folder(id: string, name: string, parentId: string | null = null, query = ''): SmartFolder {
+    return { id, name, query, parentId };
+}
+
+describe('getOrderedRootSmartFolders', () => {
+    const folders = [folder('c', 'Gamma'), folder('a', 'Alpha'), folder('b', 'Beta'), folder('child', 'Child', 'a')];
+
+    it('sorts root smart folders by name when no order is stored', () => {
+        expect(getOrderedRootSmartFolders(folders, []).map(entry => entry.id)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('places ordered smart folders first and sorts the rest by name', () => {
+        expect(getOrderedRootSmartFolders(folders, ['c']).map(entry => entry.id)).toEqual(['c', 'a', 'b']);
+    });
+});
+
+describe('getSmartFolderLineage', () => {
+    it('returns smart folders from the root down to the target', () => {
+        const folders = [folder('root', 'Root'), folder('mid', 'Mid', 'root'), folder('leaf', 'Leaf', 'mid')];
+        expect(getSmartFolderLineage(folders, 'leaf').map(entry => entry.id)).toEqual(['root', 'mid', 'leaf']);
+        expect(getSmartFolderLineage(folders, 'missing')).toEqual([]);
+    });
+});
+
+describe('removeSmartFolder', () => {
+    it('removes descendants and prunes the root order', () => {
+        const folders = [folder('a', 'A'), folder('b', 'B'), folder('a1', 'A1', 'a'), folder('a2', 'A2', 'a1')];
+        const result = removeSmartFolder(folders, ['b', 'a'], 'a');
+        expect(result?.folders.map(entry => entry.id)).toEqual(['b']);
+        expect(result?.order).toEqual(['b']);
+    });
+
+    it('returns null for unknown ids', () => {
+        expect(removeSmartFolder([folder('a', 'A')], [], 'missing')).toBeNull();
+    });
+});
+
+describe('validateSmartFolderName', () => {
+    const folders = [folder('a', 'Projects'), folder('b', 'Active', 'a')];
+
+    it('rejects empty names', () => {
+        expect(validateSmartFolderName(folders, '   ', null)).toBe(strings.modals.smartFolder.emptyName);
+    });
+
+    it('rejects case-insensitive duplicates among siblings only', () => {
+        expect(validateSmartFolderName(folders, 'projects', null)).toBe(strings.modals.smartFolder.duplicateName);
+        expect(validateSmartFolderName(folders, 'Projects', 'a')).toBeNull();
+        expect(validateSmartFolderName(folders, 'Projects', null, 'a')).toBeNull();
+    });
+});
+
+describe('active profile smart folders', () => {
+    it('keeps alphabetical order until a custom root order exists', () => {
+        const settings = createSettings();
+        addActiveSmartFolder(settings, folder('a', 'A'));
+        expect(getActiveVaultProfile(settings).smartFolderOrder).toEqual([]);
+
+        getActiveVaultProfile(settings).smartFolderOrder = ['a'];
+        addActiveSmartFolder(settings, folder('b', 'B'));
+        addActiveSmartFolder(settings, folder('b1', 'B1', 'b'));
+        expect(getActiveVaultProfile(settings).smartFolderOrder).toEqual(['a', 'b']);
+    });
+
+    it('removes smart folders with their descendants', () => {
+        const settings = createSettings();
+        addActiveSmartFolder(settings, folder('a', 'A'));
+        addActiveSmartFolder(settings, folder('a1', 'A1', 'a'));
+        expect(removeActiveSmartFolder(settings, 'a')).toBe(true);
+        expect(getActiveVaultProfile(settings).smartFolders).toEqual([]);
+        expect(removeActiveSmartFolder(settings, 'a')).toBe(false);
+    });
+});
+
+describe('normalizeSmartFolders', () => {
+    it('drops invalid entries and detaches missing or cyclic parents', () => {
+        const normalized = normalizeSmartFolders([
+            { id: 'a', name: 'A', query: '#work', parentId: 'missing' },
+            { id: 'b', name: 'B', query: '', parentId: 'c' },
+            { id: 'c', name: 'C', query: '', parentId: 'b' },
+            { id: 'a', name: 'Duplicate', query: '' },
+            { id: '', name: 'No id' },
+            'invalid'
+        ]);
+        expect(normalized.map(entry => [entry.id, entry.parentId])).toEqual([
+            ['a', null],
+            ['b', null],
+            ['c', 'b']
+        ]);
+    });
+
+    it('keeps only existing root ids in the order', () => {
+        const folders = [folder('a', 'A'), folder('b', 'B', 'a')];
+        expect(normalizeSmartFolderOrder(['b', 'a', 'a', 'missing', 1], folders)).toEqual(['a']);
+    });
+});
@@ -1,12 +1,19 @@
 import { describe, expect, it } from 'vitest';
+import { TFile } from 'obsidian';
 import {
     compareByAlphaSortOrder,
+    getFolderSortChain,
+    normalizeSortChain,
+    parseSortOption,
     resolveFolderChildSortOrder,
     sortFiles,
+    sortFilesByChain,
+    shouldRefreshOnContentChangeForSort,
     shouldRefreshOnFileModifyForSort,
-    shouldRefreshOnMetadataChangeForSort
+    shouldRefreshOnMetadataChangeForSort,
+    type FileSortMetrics
 } from '../../src/utils/sortUtils';
-import type { AlphaSortOrder } from '../../src/settings';
+import type { AlphaSortOrder, SortChainKey } from '../../src/settings';
 import { createTestTFile } from './createTestTFile';
 
 function createFolderSortSettings(folderSortOrder: AlphaSortOrder, overrides: Record<string, AlphaSortOrder> = {}) {
@@ -385,6 +392,166 @@ describe('sort refresh triggers', () => {
     });
 });
 
+describe('file statistic sorts', () => {
+    const wordCounts = new Map<string, number | null>([
+        ['a.md', 120],
+        ['b.md', 40],
+        ['c.md', null],
+        ['d.md', 120]
+    ]);
+    const metrics: FileSortMetrics = {
+        getWordCount: file => wordCounts.get(file.path) ?? null,
+        getTaskCounts: file => {
+            if (file.path === 'c.md') {
+                return null;
+            }
+            return file.path === 'a.md' ? { unfinished: 1, total: 5 } : { unfinished: 1, total: 2 };
+        }
+    };
+
+    it('sorts by word count and keeps files without counts last', () => {
+        const files = ['c.md', 'b.md', 'd.md', 'a.md'].map(path => createTestTFile(path));
+
+        sortFiles(
+            files,
+            'wordcount-desc',
+            () => 0,
+            () => 0,
+            undefined,
+            undefined,
+            'title',
+            metrics
+        );
+        expect(files.map(file => file.path)).toEqual(['a.md', 'd.md', 'b.md', 'c.md']);
+
+        sortFiles(
+            files,
+            'wordcount-asc',
+            () => 0,
+            () => 0,
+            undefined,
+            undefined,
+            'title',
+            metrics
+        );
+        expect(files.map(file => file.path)).toEqual(['b.md', 'a.md', 'd.md', 'c.md']);
+    });
+
+    it('sorts by unfinished tasks and then total tasks', () => {
+        const files = ['c.md', 'b.md', 'a.md'].map(path => createTestTFile(path));
+
+        sortFiles(
+            files,
+            'tasks-desc',
+            () => 0,
+            () => 0,
+            undefined,
+            undefined,
+            'title',
+            metrics
+        );
+        expect(files.map(file => file.path)).toEqual(['a.md', 'b.md', 'c.md']);
+    });
+
+    it('sorts by file size', () => {
+        const files = [createTestTFile('small.md'), createTestTFile('large.md')];
+        files[0].stat.size = 10;
+        files[1].stat.size = 2000;
+
+        sortFiles(
+            files,
+            'size-desc',
+            () => 0,
+            () => 0
+        );
+        expect(files.map(file => file.basename)).toEqual(['large', 'small']);
+    });
+});
+
+describe('sort chains', () => {
+    const frontmatter = new Map<string, Record<string, string>>([
+        ['active-low.md', { status: 'active', priority: '1' }],
+        ['active-high.md', { status: 'active', priority: '3' }],
+        ['active-high-new.md', { status: 'active', priority: '3' }],
+        ['done.md', { status: 'done', priority: '5' }],
+        ['none.md', {}]
+    ]);
+    const modifiedTimes = new Map<string, number>([
+        ['active-high.md', 100],
+        ['active-high-new.md', 200]
+    ]);
+    const getPropertyValue = (file: TFile, property: string) => frontmatter.get(file.path)?.[property] ?? null;
+
+    it('applies each key to files that are equal on the keys above it', () => {
+        const files = ['none.md', 'done.md', 'active-low.md', 'active-high.md', 'active-high-new.md'].map(path => createTestTFile(path));
+        const chain: SortChainKey[] = [
+            { field: 'property', direction: 'asc', property: 'status' },
+            { field: 'property', direction: 'desc', property: 'priority' },
+            { field: 'modified', direction: 'desc' }
+        ];
+
+        sortFilesByChain(files, chain, {
+            getCreatedTime: () => 0,
+            getModifiedTime: file => modifiedTimes.get(file.path) ?? 0,
+            getPropertyValue
+        });
+
+        expect(files.map(file => file.basename)).toEqual(['active-high-new', 'active-high', 'active-low', 'done', 'none']);
+    });
+
+    it('normalizes stored chains', () => {
+        expect(
+            normalizeSortChain([
+                { field: 'property', direction: 'desc', property: ' status ' },
+                { field: 'property', direction: 'asc', property: '' },
+                { field: 'unknown', direction: 'asc' },
+                { field: 'size', direction: 'sideways' },
+                'invalid'
+            ])
+        ).toEqual([
+            { field: 'property', direction: 'desc', property: 'status' },
+            { field: 'size', direction: 'asc' }
+        ]);
+        expect(normalizeSortChain(null)).toEqual([]);
+    });
+
+    it('reads folder chains and ignores empty entries', () => {
+        const chain: SortChainKey[] = [{ field: 'title', direction: 'asc' }];
+        const settings = { folderSortChains: { Projects: chain, Empty: [] } };
+        expect(getFolderSortChain(settings, 'Projects')).toEqual(chain);
+        expect(getFolderSortChain(settings, 'Empty')).toBeNull();
+        expect(getFolderSortChain(settings, 'constructor')).toBeNull();
+    });
+
+    it('parses sort options into chain keys', () => {
+        expect(parseSortOption('wordcount-desc')).toEqual({ field: 'wordcount', direction: 'desc' });
+        expect(parseSortOption('title-asc')).toEqual({ field: 'title', direction: 'asc' });
+    });
+
+    it('detects refresh triggers from every key in the chain', () => {
+        const chain: SortChainKey[] = [
+            { field: 'property', direction: 'asc', property: 'status' },
+            { field: 'wordcount', direction: 'desc' },
+            { field: 'size', direction: 'desc' }
+        ];
+        expect(shouldRefreshOnFileModifyForSort('property-asc', 'title', chain)).toBe(true);
+        expect(shouldRefreshOnContentChangeForSort('property-asc', chain)).toBe(true);
+        expect(shouldRefreshOnContentChangeForSort('title-asc')).toBe(false);
+        expect(
+            shouldRefreshOnMetadataChangeForSort({
+                sortOption: 'title-asc',
+                sortChain: chain,
+                propertySortKey: '',
+                propertySortSecondary: 'title',
+                useFrontmatterMetadata: false,
+                frontmatterNameField: '',
+                frontmatterCreatedField: '',
+                frontmatterModifiedField: ''
+            })
+        ).toBe(true);
+    });
+});
+
 describe('folder child sort order', () => {
     it('compares names using natural order and configured direction', () => {
         expect(compareByAlphaSortOrder('folder2', 'folder10', 'alpha-asc')).toBeLessThan(0);
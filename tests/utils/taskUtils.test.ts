@@ -0,0 +1,62 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { describe, expect, it } from 'vitest';
+import { getDueDateStartMs, getNextTaskDueDate, getOpenTaskDueTimestamps, parseOpenTaskText } from '../../src/utils/taskUtils';
+
+describe('parseOpenTaskText', () => {
+    it('extracts Tasks plugin due dates and strips the signifier', () => {
+        expect(parseOpenTaskText(' Pay rent 📅 2026-11-01 #home', 200)).toEqual({ text: 'Pay rent #home', due: '2026-11-01' });
+    });
+
+    it('extracts Dataview due fields in brackets and parentheses', () => {
+        expect(parseOpenTaskText('Call [due:: 2026-10-20]', 200)).toEqual({ text: 'Call', due: '2026-10-20' });
+        expect(parseOpenTaskText('Call (due:: 2026-10-20T09:00) back', 200)).toEqual({ text: 'Call back', due: '2026-10-20' });
+    });
+
+    it('ignores dates that do not exist', () => {
+        expect(parseOpenTaskText('Broken 📅 2026-02-30', 200)).toEqual({ text: 'Broken', due: null });
+    });
+
+    it('truncates long task text', () => {
+        expect(parseOpenTaskText('abcdefghij', 4)).toEqual({ text: 'abcd', due: null });
+    });
+});
+
+describe('due date helpers', () => {
+    it('returns the earliest due date', () => {
+        const tasks = [
+            { text: 'a', due: '2026-12-01' },
+            { text: 'b', due: null },
+            { text: 'c', due: '2026-11-05' }
+        ];
+        expect(getNextTaskDueDate(tasks)).toBe('2026-11-05');
+        expect(getNextTaskDueDate([{ text: 'a', due: null }])).toBeNull();
+        expect(getNextTaskDueDate(null)).toBeNull();
+    });
+
+    it('converts due dates to local start-of-day timestamps', () => {
+        expect(getDueDateStartMs('2026-11-05')).toBe(new Date(2026, 10, 5).getTime());
+        expect(getDueDateStartMs('2026-13-01')).toBeNull();
+        expect(
+            getOpenTaskDueTimestamps([
+                { text: 'a', due: '2026-11-05' },
+                { text: 'b', due: null }
+            ])
+        ).toEqual([new Date(2026, 10, 5).getTime()]);
+    });
+});
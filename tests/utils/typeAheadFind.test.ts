@@ -0,0 +1,49 @@
+/*
+ * Notebook Navigator - Plugin for Obsidian
+ * Copyright (c) 2025-2026 Johan Sanneblad
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { appendTypeAheadKey, findTypeAheadMatch, TYPE_AHEAD_TIMEOUT_MS } from '../../src/utils/typeAheadFind';
+
+describe('type-ahead find', () => {
+    const rows = ['Archive', null, 'Projects', 'Personal', 'Pictures', 'archive notes'];
+    const getLabel = (row: string | null) => row;
+
+    it('accumulates typed keys until the timeout expires', () => {
+        const first = appendTypeAheadKey(null, 'p', 1000);
+        const second = appendTypeAheadKey(first, 'e', 1000 + TYPE_AHEAD_TIMEOUT_MS);
+        const restarted = appendTypeAheadKey(second, 'a', 1001 + TYPE_AHEAD_TIMEOUT_MS * 2);
+
+        expect(second?.query).toBe('pe');
+        expect(restarted?.query).toBe('a');
+        expect(appendTypeAheadKey(null, ' ', 1000)).toBeNull();
+        expect(appendTypeAheadKey(first, ' ', 1001)?.query).toBe('p ');
+    });
+
+    it('matches prefixes case-insensitively and keeps the current row while it matches', () => {
+        expect(findTypeAheadMatch(rows, getLabel, 'PER', -1)).toBe(3);
+        expect(findTypeAheadMatch(rows, getLabel, 'pro', 2)).toBe(2);
+        expect(findTypeAheadMatch(rows, getLabel, 'zzz-missing', 0)).toBe(-1);
+    });
+
+    it('cycles through rows when the same character is typed repeatedly', () => {
+        expect(findTypeAheadMatch(rows, getLabel, 'p', -1)).toBe(2);
+        expect(findTypeAheadMatch(rows, getLabel, 'p', 2)).toBe(3);
+        expect(findTypeAheadMatch(rows, getLabel, 'pp', 3)).toBe(4);
+        expect(findTypeAheadMatch(rows, getLabel, 'a', 5)).toBe(0);
+    });
+});